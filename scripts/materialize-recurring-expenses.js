@@ -0,0 +1,89 @@
+#!/usr/bin/env node
+
+/**
+ * Recurring Expense Runner
+ * Runs materialize_recurring_expenses() against a Supabase project, the same call the
+ * nightly pg_cron job makes. Use it to test schedules locally or from any external cron.
+ *
+ * Usage:
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... node scripts/materialize-recurring-expenses.js
+ *     [--as-of YYYY-MM-DD] [--store <store id>] [--dry-run]
+ *
+ * --as-of    generate everything due on or before this date (default: today)
+ * --store    only this store (default: all stores)
+ * --dry-run  list what would be generated without writing anything
+ */
+
+import { createClient } from '@supabase/supabase-js';
+
+const log = (line = '') => process.stdout.write(`${line}\n`);
+
+const parseArgs = (argv) => {
+  const args = { asOf: null, storeId: null, dryRun: false };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--as-of':
+        args.asOf = argv[++i];
+        break;
+      case '--store':
+        args.storeId = argv[++i];
+        break;
+      case '--dry-run':
+        args.dryRun = true;
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (args.asOf && !/^\d{4}-\d{2}-\d{2}$/.test(args.asOf)) {
+    throw new Error('--as-of must be a date like 2025-08-01');
+  }
+
+  return args;
+};
+
+async function main() {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceKey) {
+    console.error('❌ Set SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+  const params = { _dry_run: args.dryRun };
+  if (args.asOf) params._as_of = args.asOf;
+  if (args.storeId) params._store_id = args.storeId;
+
+  log(`🔁 Materializing recurring expenses${args.dryRun ? ' (dry run)' : ''}`);
+  log(`   As of: ${args.asOf || 'today'}  Store: ${args.storeId || 'all'}\n`);
+
+  const { data, error } = await supabase.rpc('materialize_recurring_expenses', params);
+
+  if (error) {
+    console.error('❌ Failed:', error.message);
+    process.exit(1);
+  }
+
+  for (const entry of data.generated) {
+    log(
+      `   ${entry.expense_date}  ${entry.title.padEnd(30)} ${Number(entry.amount).toFixed(2).padStart(10)}` +
+      `  ${entry.status}${entry.expense_number ? `  ${entry.expense_number}` : ''}`
+    );
+  }
+
+  log(`\n✅ ${data.generated_count} ${args.dryRun ? 'would be generated' : 'generated'}`);
+  if (data.ended_count > 0) {
+    log(`   ${data.ended_count} recurring expense(s) reached their end date`);
+  }
+}
+
+main().catch((error) => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,247 @@
+#!/usr/bin/env node
+
+/**
+ * PayChangu Mock
+ * A local stand-in for the PayChangu API, for trying showcase and subscription payments
+ * without a merchant account. It serves the three calls the app makes plus a checkout page:
+ *
+ *   POST /payment                  open a checkout session (any Bearer key is accepted)
+ *   GET  /checkout/:tx_ref         page with "Pay" and "Fail" buttons
+ *   POST /checkout/:tx_ref/:result settle the charge, send the webhook, return to return_url
+ *   GET  /verify-payment/:tx_ref   current state of the charge
+ *
+ * Usage:
+ *   node scripts/mock-paychangu.js [--port <n>] [--webhook-url <url>] [--webhook-secret <secret>]
+ *
+ * --port            port to listen on (default: 4010)
+ * --webhook-url     where to POST signed webhooks (default: none, webhooks are only printed)
+ * --webhook-secret  secret the webhooks are signed with; use the store's webhook secret
+ *                   (default: mock_webhook_secret)
+ *
+ * Then set PAYCHANGU_API_URL (payment server) and VITE_PAYCHANGU_API_URL (app) to
+ * http://localhost:<port>.
+ */
+
+import { createServer } from 'node:http';
+import { createHmac, randomUUID } from 'node:crypto';
+
+const log = (line = '') => process.stdout.write(`${line}\n`);
+
+const parseArgs = (argv) => {
+  const args = { port: 4010, webhookUrl: null, webhookSecret: 'mock_webhook_secret' };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--port':
+        args.port = Number(argv[++i]);
+        break;
+      case '--webhook-url':
+        args.webhookUrl = argv[++i];
+        break;
+      case '--webhook-secret':
+        args.webhookSecret = argv[++i];
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (!Number.isInteger(args.port) || args.port < 1) {
+    throw new Error('--port must be a positive whole number');
+  }
+
+  return args;
+};
+
+const args = parseArgs(process.argv.slice(2));
+const baseUrl = `http://localhost:${args.port}`;
+
+// Charges by tx_ref, for as long as the mock runs
+const charges = new Map();
+
+// The app calls the mock straight from the browser for subscription payments
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Headers': 'Authorization, Content-Type, Accept',
+  'Access-Control-Allow-Methods': 'GET, POST, OPTIONS',
+};
+
+const sendJson = (res, status, body) => {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' });
+  res.end(JSON.stringify(body));
+};
+
+const readJson = async (req) => {
+  let body = '';
+  for await (const chunk of req) body += chunk;
+  return body ? JSON.parse(body) : {};
+};
+
+const escapeHtml = (value) =>
+  String(value).replace(/[&<>"']/g, (char) => `&#${char.charCodeAt(0)};`);
+
+const withParams = (url, params) => {
+  const target = new URL(url);
+  Object.entries(params).forEach(([key, value]) => target.searchParams.set(key, value));
+  return target.toString();
+};
+
+// The shape PayChangu posts to the merchant's webhook URL
+const webhookPayload = (charge) => ({
+  event_type: charge.status === 'success' ? 'api.charge.payment' : 'api.charge.failed',
+  currency: charge.currency,
+  amount: charge.amount,
+  charge: String(charge.amount),
+  mode: 'test',
+  type: 'API Payment (Checkout)',
+  status: charge.status,
+  charge_id: charge.charge_id,
+  reference: charge.tx_ref,
+  authorization: {
+    channel: 'Mobile Money',
+    mobile_money: { operator: 'Mock Money', mobile_number: '+265999000000' },
+    completed_at: charge.completed_at,
+  },
+  created_at: charge.created_at,
+  updated_at: charge.completed_at,
+});
+
+const sendWebhook = async (charge) => {
+  const body = JSON.stringify(webhookPayload(charge));
+  const signature = createHmac('sha256', args.webhookSecret).update(body).digest('hex');
+
+  if (!args.webhookUrl) {
+    log(`   🔔 Webhook for ${charge.tx_ref} (not sent, no --webhook-url)`);
+    log(`      Signature: ${signature}`);
+    log(`      ${body}`);
+    return;
+  }
+
+  try {
+    const response = await fetch(args.webhookUrl, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', Signature: signature },
+      body,
+    });
+    log(`   🔔 Webhook for ${charge.tx_ref}: ${response.status}`);
+  } catch (error) {
+    console.error(`   ⚠️  Webhook for ${charge.tx_ref} failed: ${error.message}`);
+  }
+};
+
+const checkoutPage = (charge) => `<!doctype html>
+<html>
+  <head><meta charset="utf-8"><title>PayChangu Mock Checkout</title></head>
+  <body style="font-family: sans-serif; max-width: 420px; margin: 48px auto;">
+    <h2>${escapeHtml(charge.customization?.title || 'Checkout')}</h2>
+    <p>${escapeHtml(charge.customization?.description || '')}</p>
+    <p><strong>${escapeHtml(charge.currency)} ${escapeHtml(charge.amount)}</strong></p>
+    <p>Reference: <code>${escapeHtml(charge.tx_ref)}</code></p>
+    <form method="post" action="/checkout/${encodeURIComponent(charge.tx_ref)}/success" style="display: inline;">
+      <button type="submit">Pay</button>
+    </form>
+    <form method="post" action="/checkout/${encodeURIComponent(charge.tx_ref)}/failed" style="display: inline;">
+      <button type="submit">Fail</button>
+    </form>
+  </body>
+</html>`;
+
+const server = createServer(async (req, res) => {
+  const url = new URL(req.url, baseUrl);
+  const parts = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+  try {
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS);
+      return res.end();
+    }
+
+    if (req.method === 'POST' && url.pathname === '/payment') {
+      if (!req.headers.authorization?.startsWith('Bearer ')) {
+        return sendJson(res, 401, { status: 'failed', message: 'Missing secret key' });
+      }
+
+      const request = await readJson(req);
+      if (!request.tx_ref || !request.amount || !request.currency) {
+        return sendJson(res, 400, { status: 'failed', message: 'tx_ref, amount and currency are required' });
+      }
+
+      const charge = {
+        ...request,
+        amount: Number(request.amount),
+        status: 'pending',
+        charge_id: randomUUID(),
+        created_at: new Date().toISOString(),
+        completed_at: null,
+      };
+      charges.set(charge.tx_ref, charge);
+      log(`💳 Checkout opened for ${charge.tx_ref}: ${charge.currency} ${charge.amount}`);
+
+      return sendJson(res, 201, {
+        message: 'Hosted payment session generated successfully.',
+        status: 'success',
+        data: {
+          event: 'checkout.session:created',
+          checkout_url: `${baseUrl}/checkout/${encodeURIComponent(charge.tx_ref)}`,
+          data: {
+            tx_ref: charge.tx_ref,
+            currency: charge.currency,
+            amount: charge.amount,
+            mode: 'test',
+            status: charge.status,
+          },
+        },
+      });
+    }
+
+    const charge = charges.get(parts[1]);
+
+    if (req.method === 'GET' && parts[0] === 'checkout' && parts.length === 2) {
+      if (!charge) return sendJson(res, 404, { status: 'failed', message: 'Checkout not found' });
+      res.writeHead(200, { 'Content-Type': 'text/html' });
+      return res.end(checkoutPage(charge));
+    }
+
+    if (req.method === 'POST' && parts[0] === 'checkout' && ['success', 'failed'].includes(parts[2])) {
+      if (!charge) return sendJson(res, 404, { status: 'failed', message: 'Checkout not found' });
+
+      charge.status = parts[2];
+      charge.completed_at = new Date().toISOString();
+      log(`${charge.status === 'success' ? '✅' : '❌'} ${charge.tx_ref} ${charge.status}`);
+
+      await sendWebhook(charge);
+
+      res.writeHead(303, { Location: withParams(charge.return_url, { tx_ref: charge.tx_ref, status: charge.status }) });
+      return res.end();
+    }
+
+    if (req.method === 'GET' && parts[0] === 'verify-payment' && parts.length === 2) {
+      if (!charge) return sendJson(res, 404, { status: 'failed', message: 'Transaction not found' });
+
+      return sendJson(res, 200, {
+        status: 'success',
+        message: 'Payment details retrieved successfully.',
+        data: {
+          tx_ref: charge.tx_ref,
+          reference: charge.charge_id,
+          charge_id: charge.charge_id,
+          currency: charge.currency,
+          amount: charge.amount,
+          status: charge.status,
+          authorization: { channel: 'Mobile Money', completed_at: charge.completed_at },
+          created_at: charge.created_at,
+          updated_at: charge.completed_at,
+        },
+      });
+    }
+
+    sendJson(res, 404, { status: 'failed', message: 'Not found' });
+  } catch (error) {
+    sendJson(res, 500, { status: 'failed', message: error.message });
+  }
+});
+
+server.listen(args.port, () => {
+  log(`🧪 PayChangu mock listening on ${baseUrl}`);
+  log(`   Webhooks: ${args.webhookUrl || 'printed only'}\n`);
+});
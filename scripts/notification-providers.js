@@ -0,0 +1,123 @@
+/**
+ * Notification providers for the outbox dispatcher.
+ *
+ * A provider delivers one message on one channel:
+ *
+ *   {
+ *     name: string,
+ *     send(notification) => Promise<{ id?: string }>
+ *   }
+ *
+ * `notification` is a claimed outbox row (channel, recipient_phone,
+ * recipient_email, subject, message). `send` throws when delivery fails; the outbox
+ * retries it later. Register a new gateway by adding a factory to `providerFactories`.
+ *
+ * Pick a provider per channel with NOTIFICATIONS_SMS_PROVIDER and
+ * NOTIFICATIONS_EMAIL_PROVIDER (default: console).
+ */
+
+import { appendFile } from 'node:fs/promises';
+import { randomUUID } from 'node:crypto';
+
+const log = (line = '') => process.stdout.write(`${line}\n`);
+
+const recipientOf = (notification) =>
+  notification.channel === 'email' ? notification.recipient_email : notification.recipient_phone;
+
+// Prints messages instead of sending them
+const createConsoleProvider = () => ({
+  name: 'console',
+  async send(notification) {
+    log(`   ✉️  [${notification.channel}] to ${recipientOf(notification)}`);
+    if (notification.subject) log(`      ${notification.subject}`);
+    log(`      ${notification.message}`);
+    return { id: randomUUID() };
+  },
+});
+
+// Appends each message as a JSON line to NOTIFICATIONS_FILE (default: notifications.log)
+const createFileProvider = (env) => {
+  const path = env.NOTIFICATIONS_FILE || 'notifications.log';
+
+  return {
+    name: 'file',
+    async send(notification) {
+      const id = randomUUID();
+      const line = JSON.stringify({
+        id,
+        sent_at: new Date().toISOString(),
+        channel: notification.channel,
+        to: recipientOf(notification),
+        subject: notification.subject,
+        message: notification.message,
+      });
+      await appendFile(path, `${line}\n`);
+      return { id };
+    },
+  };
+};
+
+// Posts each message as JSON to an SMS or email gateway:
+// NOTIFICATIONS_<CHANNEL>_URL and an optional NOTIFICATIONS_<CHANNEL>_TOKEN bearer token
+const createHttpProvider = (env, channel) => {
+  const prefix = `NOTIFICATIONS_${channel.toUpperCase()}`;
+  const url = env[`${prefix}_URL`];
+  const token = env[`${prefix}_TOKEN`];
+
+  if (!url) {
+    throw new Error(`Set ${prefix}_URL to use the http provider for ${channel}`);
+  }
+
+  return {
+    name: 'http',
+    async send(notification) {
+      const response = await fetch(url, {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          ...(token ? { Authorization: `Bearer ${token}` } : {}),
+        },
+        body: JSON.stringify({
+          to: recipientOf(notification),
+          subject: notification.subject,
+          message: notification.message,
+          reference: notification.id,
+        }),
+      });
+
+      if (!response.ok) {
+        throw new Error(`${url} responded ${response.status} ${await response.text()}`);
+      }
+
+      const body = await response.json().catch(() => ({}));
+      return { id: body.id ?? body.message_id };
+    },
+  };
+};
+
+const providerFactories = {
+  console: createConsoleProvider,
+  file: createFileProvider,
+  http: createHttpProvider,
+};
+
+/**
+ * The provider configured for each channel the dispatcher sends itself. WhatsApp messages
+ * are sent from the app as deep links and never reach a provider.
+ */
+export const createProviders = (env = process.env) => {
+  const providers = {};
+
+  for (const channel of ['sms', 'email']) {
+    const name = env[`NOTIFICATIONS_${channel.toUpperCase()}_PROVIDER`] || 'console';
+    const factory = providerFactories[name];
+
+    if (!factory) {
+      throw new Error(`Unknown ${channel} provider "${name}" (expected ${Object.keys(providerFactories).join(', ')})`);
+    }
+
+    providers[channel] = factory(env, channel);
+  }
+
+  return providers;
+};
@@ -0,0 +1,215 @@
+#!/usr/bin/env node
+
+/**
+ * Notification Dispatcher
+ * Sends the SMS and email messages waiting in the outboxes (layby_notifications,
+ * public_order_notifications, the subscription billing emails in
+ * subscription_notifications and SMS campaigns in customer_campaign_messages)
+ * through the configured providers (see
+ * notification-providers.js) and records how each delivery went.
+ * Run it from any cron, a few minutes after the morning reminder job.
+ *
+ * Usage:
+ *   SUPABASE_URL=... SUPABASE_SERVICE_ROLE_KEY=... node scripts/send-notifications.js
+ *     [--queue] [--expire] [--billing] [--segments] [--as-of YYYY-MM-DD] [--store <store id>] [--limit <n>]
+ *
+ * --queue    run the layby reminder scheduler first, as the pg_cron job does
+ * --expire   cancel showcase orders whose stock hold has run out first, as the pg_cron job does
+ * --billing  run the subscription billing scheduler first (renewals, dunning, suspensions),
+ *            as the pg_cron job does
+ * --segments re-score customers (RFM) and count every customer segment first, as the pg_cron job does
+ * --as-of    date the scheduler queues reminders for (default: today)
+ * --store    only queue reminders for this store (default: all stores)
+ * --limit    most messages to send from each outbox in this run (default: 50)
+ */
+
+import { createClient } from '@supabase/supabase-js';
+import { createProviders } from './notification-providers.js';
+
+const log = (line = '') => process.stdout.write(`${line}\n`);
+
+// Each outbox hands out a batch of claimed rows and takes back one result per row
+const OUTBOXES = [
+  {
+    label: 'layby',
+    channels: ['sms', 'email'],
+    claim: 'claim_layby_notifications',
+    record: 'record_layby_notification_result',
+    subject: (notification) => `layby ${notification.layby_order_id}`,
+  },
+  {
+    label: 'order',
+    channels: ['sms'],
+    claim: 'claim_public_order_notifications',
+    record: 'record_public_order_notification_result',
+    subject: (notification) => `order ${notification.order_id}`,
+  },
+  {
+    label: 'subscription',
+    channels: ['email'],
+    claim: 'claim_subscription_notifications',
+    record: 'record_subscription_notification_result',
+    subject: (notification) => `subscription ${notification.subscription_id}`,
+  },
+  {
+    label: 'campaign',
+    channels: ['sms'],
+    claim: 'claim_customer_campaign_messages',
+    record: 'record_customer_campaign_message_result',
+    subject: (notification) => `campaign ${notification.campaign_id}`,
+  },
+];
+
+const parseArgs = (argv) => {
+  const args = { queue: false, expire: false, billing: false, segments: false, asOf: null, storeId: null, limit: 50 };
+
+  for (let i = 0; i < argv.length; i++) {
+    switch (argv[i]) {
+      case '--queue':
+        args.queue = true;
+        break;
+      case '--expire':
+        args.expire = true;
+        break;
+      case '--billing':
+        args.billing = true;
+        break;
+      case '--segments':
+        args.segments = true;
+        break;
+      case '--as-of':
+        args.asOf = argv[++i];
+        break;
+      case '--store':
+        args.storeId = argv[++i];
+        break;
+      case '--limit':
+        args.limit = Number(argv[++i]);
+        break;
+      default:
+        throw new Error(`Unknown argument: ${argv[i]}`);
+    }
+  }
+
+  if (args.asOf && !/^\d{4}-\d{2}-\d{2}$/.test(args.asOf)) {
+    throw new Error('--as-of must be a date like 2025-08-01');
+  }
+
+  if (!Number.isInteger(args.limit) || args.limit < 1) {
+    throw new Error('--limit must be a positive whole number');
+  }
+
+  return args;
+};
+
+async function main() {
+  const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+  const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+  if (!url || !serviceKey) {
+    console.error('❌ Set SUPABASE_URL (or VITE_SUPABASE_URL) and SUPABASE_SERVICE_ROLE_KEY');
+    process.exit(1);
+  }
+
+  const args = parseArgs(process.argv.slice(2));
+  const providers = createProviders();
+  const supabase = createClient(url, serviceKey, { auth: { persistSession: false } });
+
+  if (args.queue) {
+    const params = {};
+    if (args.asOf) params._as_of = args.asOf;
+    if (args.storeId) params._store_id = args.storeId;
+
+    const { data, error } = await supabase.rpc('queue_layby_reminders', params);
+    if (error) {
+      console.error('❌ Failed to queue reminders:', error.message);
+      process.exit(1);
+    }
+
+    log(`🗓️  Queued ${data.upcoming_count} upcoming and ${data.overdue_count} overdue reminder(s)\n`);
+  }
+
+  if (args.expire) {
+    const { data, error } = await supabase.rpc('expire_public_orders');
+    if (error) {
+      console.error('❌ Failed to expire orders:', error.message);
+      process.exit(1);
+    }
+
+    log(`⏳ Cancelled ${data.expired_count} order(s) whose stock hold ran out\n`);
+  }
+
+  if (args.billing) {
+    const { data, error } = await supabase.rpc('run_subscription_billing');
+    if (error) {
+      console.error('❌ Failed to run subscription billing:', error.message);
+      process.exit(1);
+    }
+
+    log(
+      `💳 Opened ${data.renewal_count} renewal(s), ${data.overdue_count} newly overdue, ` +
+      `${data.reminder_count} reminder(s), ${data.suspended_count} suspended, ${data.cancelled_count} cancelled\n`
+    );
+  }
+
+  if (args.segments) {
+    const { data, error } = await supabase.rpc('refresh_customer_segments');
+    if (error) {
+      console.error('❌ Failed to refresh customer segments:', error.message);
+      process.exit(1);
+    }
+
+    log(`🎯 Scored ${data.scored_count} customer(s) and counted ${data.snapshot_count} segment(s)\n`);
+  }
+
+  log(`📨 SMS: ${providers.sms.name}  Email: ${providers.email.name}\n`);
+
+  let sent = 0;
+  let failed = 0;
+
+  for (const outbox of OUTBOXES) {
+    const { data: notifications, error } = await supabase.rpc(outbox.claim, {
+      _channels: outbox.channels,
+      _limit: args.limit,
+    });
+
+    if (error) {
+      console.error(`❌ Failed to claim ${outbox.label} notifications:`, error.message);
+      process.exit(1);
+    }
+
+    log(`📨 Sending ${notifications.length} ${outbox.label} notification(s)`);
+
+    for (const notification of notifications) {
+      const provider = providers[notification.channel];
+      let result = { _sent: true, _error: null, _provider_message_id: null };
+
+      try {
+        const delivery = await provider.send(notification);
+        result._provider_message_id = delivery?.id ?? null;
+        sent++;
+      } catch (sendError) {
+        result = { _sent: false, _error: sendError.message, _provider_message_id: null };
+        failed++;
+        console.error(`   ⚠️  ${notification.channel} to ${outbox.subject(notification)} failed: ${sendError.message}`);
+      }
+
+      const { error: recordError } = await supabase.rpc(outbox.record, {
+        _notification_id: notification.id,
+        _provider: provider.name,
+        ...result,
+      });
+
+      if (recordError) {
+        console.error(`   ⚠️  Could not record the result for ${notification.id}: ${recordError.message}`);
+      }
+    }
+  }
+
+  log(`\n✅ ${sent} sent${failed > 0 ? `, ${failed} failed` : ''}`);
+}
+
+main().catch((error) => {
+  console.error('❌', error.message);
+  process.exit(1);
+});
@@ -0,0 +1,302 @@
+// Payment endpoints for Express/Node.js backend
+// Shoppers pay into the store's own PayChangu merchant account, so these run with the service
+// role: the merchant keys are only readable there. Subscription payments are checked on the
+// platform account, and only here can they be settled outside the webhook.
+
+import { PaychanguService } from '@/services/paychangu';
+import { getAdminClient } from '@/api/supabaseAdmin';
+
+// Set PAYCHANGU_API_URL to the mock (scripts/mock-paychangu.js) to test end to end
+const PAYCHANGU_API_URL = process.env.PAYCHANGU_API_URL || undefined;
+
+// Platform secret key, for subscription payments
+const PAYCHANGU_SECRET_KEY = process.env.PAYCHANGU_SECRET_KEY || process.env.VITE_PAYCHANGU_SECRET_KEY || '';
+
+interface PaymentGateway {
+  store_id: string;
+  order_id: string;
+  status: string;
+  secret_key: string | null;
+  webhook_secret: string | null;
+}
+
+// The parts of an Express/Node.js request and response these handlers use
+export interface ApiRequest {
+  method?: string;
+  body?: Record<string, unknown>;
+  headers: Record<string, string | string[] | undefined>;
+}
+
+export interface ApiResponse {
+  status(code: number): ApiResponse;
+  json(body: unknown): void;
+}
+
+export const isShowcasePaymentReference = (reference: string | undefined): boolean =>
+  !!reference && reference.startsWith('ord_');
+
+/**
+ * The merchant account a showcase payment reference belongs to
+ */
+export async function getShowcasePaymentGateway(txRef: string): Promise<PaymentGateway | null> {
+  const { data, error } = await getAdminClient().rpc('get_public_order_payment_gateway', { _tx_ref: txRef });
+
+  if (error) throw error;
+  return data as unknown as PaymentGateway | null;
+}
+
+/**
+ * Start paying for a showcase order: POST { order_code } and send the shopper to the
+ * returned checkout_url
+ */
+export async function handleShowcasePaymentCheckout(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const orderCode = typeof req.body?.order_code === 'string' ? req.body.order_code : '';
+  if (!orderCode) {
+    return res.status(400).json({ error: 'order_code is required' });
+  }
+
+  try {
+    const supabase = getAdminClient();
+    const { data, error } = await supabase.rpc('begin_public_order_payment', { _order_code: orderCode });
+
+    if (error) throw error;
+
+    const payment = data as unknown as {
+      success: boolean;
+      error?: string;
+      tx_ref: string;
+      order_code: string;
+      amount: number;
+      currency: string;
+      customer_name: string;
+      store_name: string;
+      secret_key: string;
+    };
+
+    if (!payment.success) {
+      return res.status(409).json({ error: payment.error });
+    }
+
+    const appUrl = process.env.APP_URL || req.headers.origin;
+    const returnUrl = `${appUrl}/order-payment?order=${encodeURIComponent(payment.order_code)}`;
+
+    const paychangu = new PaychanguService(payment.secret_key, PAYCHANGU_API_URL);
+    const session = await paychangu.createShowcasePayment({
+      txRef: payment.tx_ref,
+      orderCode: payment.order_code,
+      amount: payment.amount,
+      currency: payment.currency,
+      customerName: payment.customer_name,
+      storeName: payment.store_name,
+      returnUrl,
+      callbackUrl: returnUrl,
+    });
+
+    await supabase
+      .from('public_order_payments')
+      .update({ checkout_url: session.data.checkout_url, updated_at: new Date().toISOString() })
+      .eq('tx_ref', payment.tx_ref);
+
+    res.status(200).json({ tx_ref: payment.tx_ref, checkout_url: session.data.checkout_url });
+  } catch (error) {
+    console.error('Error starting showcase payment:', error);
+    res.status(502).json({ error: 'Could not reach the payment provider. Please try again.' });
+  }
+}
+
+/**
+ * Ask PayChangu how a showcase payment went, for shoppers who come back before the webhook
+ * arrives: POST { tx_ref }
+ */
+export async function handleShowcasePaymentVerification(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const txRef = typeof req.body?.tx_ref === 'string' ? req.body.tx_ref : '';
+  if (!isShowcasePaymentReference(txRef)) {
+    return res.status(400).json({ error: 'A showcase payment tx_ref is required' });
+  }
+
+  try {
+    const gateway = await getShowcasePaymentGateway(txRef);
+    if (!gateway?.secret_key) {
+      return res.status(404).json({ error: 'Payment not found' });
+    }
+
+    if (gateway.status !== 'pending') {
+      return res.status(200).json({ status: gateway.status });
+    }
+
+    const paychangu = new PaychanguService(gateway.secret_key, PAYCHANGU_API_URL);
+    const verification = await paychangu.verifyPayment(txRef);
+    const charge = verification?.data;
+
+    // Still on the checkout page, or abandoned - leave it pending
+    if (verification?.status !== 'success' || !['success', 'failed'].includes(charge?.status)) {
+      return res.status(200).json({ status: 'pending' });
+    }
+
+    const { data, error } = await getAdminClient().rpc('record_public_order_payment', {
+      _tx_ref: txRef,
+      _paid: charge.status === 'success',
+      _amount: charge.amount,
+      _charge_id: charge.charge_id ?? charge.reference,
+      _channel: charge.authorization?.channel,
+      _failure_reason: charge.status === 'success' ? undefined : 'Payment failed',
+      _payload: verification,
+      _currency: charge.currency,
+    });
+
+    if (error) throw error;
+
+    res.status(200).json(data);
+  } catch (error) {
+    console.error('Error verifying showcase payment:', error);
+    res.status(502).json({ error: 'Could not verify the payment' });
+  }
+}
+
+/**
+ * Start paying a subscription's oldest unpaid invoice: POST { subscription_id } with the
+ * subscriber's Supabase access token as a Bearer token, and send them to the returned
+ * checkout_url. The charge is opened here for the invoiced amount. checkout_url is null when
+ * nothing is owed yet.
+ */
+export async function handleSubscriptionPaymentCheckout(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const subscriptionId = typeof req.body?.subscription_id === 'string' ? req.body.subscription_id : '';
+  if (!subscriptionId) {
+    return res.status(400).json({ error: 'subscription_id is required' });
+  }
+
+  const authorization = typeof req.headers.authorization === 'string' ? req.headers.authorization : '';
+  const accessToken = authorization.replace(/^Bearer\s+/i, '');
+  if (!accessToken) {
+    return res.status(401).json({ error: 'Sign in to pay for your subscription' });
+  }
+
+  try {
+    const supabase = getAdminClient();
+    const { data: auth, error: authError } = await supabase.auth.getUser(accessToken);
+    if (authError || !auth.user) {
+      return res.status(401).json({ error: 'Sign in to pay for your subscription' });
+    }
+
+    const { data, error } = await supabase.rpc('begin_subscription_payment', {
+      _subscription_id: subscriptionId,
+      _user_id: auth.user.id,
+    });
+
+    if (error) throw error;
+
+    const payment = data as unknown as {
+      success: boolean;
+      error?: string;
+      nothing_due?: boolean;
+      tx_ref: string;
+      billing_cycle_id: string;
+      amount: number;
+      currency: string;
+      plan_name: string;
+      description: string;
+    };
+
+    if (!payment.success) {
+      return res.status(409).json({ error: payment.error });
+    }
+
+    if (payment.nothing_due) {
+      return res.status(200).json({ checkout_url: null });
+    }
+
+    const appUrl = process.env.APP_URL || req.headers.origin;
+    const returnUrl = `${appUrl}/payment-result?subscription_id=${encodeURIComponent(subscriptionId)}`;
+
+    const paychangu = new PaychanguService(PAYCHANGU_SECRET_KEY, PAYCHANGU_API_URL);
+    const session = await paychangu.createSubscriptionPayment({
+      txRef: payment.tx_ref,
+      subscriptionId,
+      billingCycleId: payment.billing_cycle_id,
+      amount: payment.amount,
+      currency: payment.currency,
+      userEmail: auth.user.email || '',
+      userName: auth.user.user_metadata?.full_name || 'Customer',
+      planName: payment.plan_name,
+      description: payment.description,
+      returnUrl,
+    });
+
+    await supabase.rpc('set_subscription_payment_checkout', {
+      _tx_ref: payment.tx_ref,
+      _checkout_url: session.data.checkout_url,
+    });
+
+    res.status(200).json({ tx_ref: payment.tx_ref, checkout_url: session.data.checkout_url });
+  } catch (error) {
+    console.error('Error starting subscription payment:', error);
+    res.status(502).json({ error: 'Could not reach the payment provider. Please try again.' });
+  }
+}
+
+/**
+ * Ask PayChangu how a subscription payment went, for subscribers who come back before the
+ * webhook arrives: POST { subscription_id, tx_ref }. A successful charge settles its invoice.
+ */
+export async function handleSubscriptionPaymentVerification(req: ApiRequest, res: ApiResponse) {
+  if (req.method !== 'POST') {
+    return res.status(405).json({ error: 'Method not allowed' });
+  }
+
+  const subscriptionId = typeof req.body?.subscription_id === 'string' ? req.body.subscription_id : '';
+  const txRef = typeof req.body?.tx_ref === 'string' ? req.body.tx_ref : '';
+  if (!subscriptionId || !txRef || isShowcasePaymentReference(txRef)) {
+    return res.status(400).json({ error: 'subscription_id and a subscription payment tx_ref are required' });
+  }
+
+  try {
+    const paychangu = new PaychanguService(PAYCHANGU_SECRET_KEY, PAYCHANGU_API_URL);
+    const verification = await paychangu.verifyPayment(txRef);
+    const charge = verification?.data;
+
+    // Still on the checkout page, or abandoned - leave it pending
+    if (verification?.status !== 'success' || !['success', 'failed'].includes(charge?.status)) {
+      return res.status(200).json({ status: 'pending' });
+    }
+
+    const supabase = getAdminClient();
+    const { data, error } = charge.status === 'success'
+      ? await supabase.rpc('confirm_subscription_payment', {
+          _subscription_id: subscriptionId,
+          _tx_ref: txRef,
+          _amount: charge.amount,
+          _charge_id: charge.charge_id ?? charge.reference,
+          _channel: charge.authorization?.channel,
+          _payload: verification,
+        })
+      : await supabase.rpc('apply_subscription_payment_event', {
+          _tx_ref: txRef,
+          _outcome: 'failed',
+          _payload: verification,
+        });
+
+    if (error) throw error;
+
+    const result = data as unknown as { success: boolean; error?: string };
+    if (!result.success) {
+      return res.status(409).json({ error: result.error });
+    }
+
+    res.status(200).json({ status: charge.status === 'success' ? 'completed' : 'failed' });
+  } catch (error) {
+    console.error('Error verifying subscription payment:', error);
+    res.status(502).json({ error: 'Could not verify the payment' });
+  }
+}
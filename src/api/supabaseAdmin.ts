@@ -0,0 +1,22 @@
+// Service role Supabase client for the backend endpoints under src/api. It bypasses row level
+// security, so it must never be bundled into the app.
+
+import { createClient, SupabaseClient } from '@supabase/supabase-js';
+import type { Database } from '@/integrations/supabase/types';
+
+let adminClient: SupabaseClient<Database> | null = null;
+
+export const getAdminClient = () => {
+  if (!adminClient) {
+    const url = process.env.SUPABASE_URL || process.env.VITE_SUPABASE_URL;
+    const serviceKey = process.env.SUPABASE_SERVICE_ROLE_KEY;
+
+    if (!url || !serviceKey) {
+      throw new Error('SUPABASE_URL and SUPABASE_SERVICE_ROLE_KEY are required for the payment endpoints');
+    }
+
+    adminClient = createClient<Database>(url, serviceKey, { auth: { persistSession: false } });
+  }
+
+  return adminClient;
+};
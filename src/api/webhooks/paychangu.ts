@@ -1,20 +1,109 @@
 // PayChangu webhook handler for Express/Node.js backend
-// This would typically go in your backend API
+// The one entry point for PayChangu webhooks, for subscriptions and showcase orders alike.
+//
+// Every delivery that passes the signature check is logged in payment_webhook_events, keyed by
+// the event it reports, and applied from there. The database makes sure an event is applied at
+// most once however often PayChangu sends it; events that fail are retried by the
+// retry-payment-webhook-events job and can be replayed from System Management.
+//
+// The signature covers the body exactly as sent, so mount this without a JSON body parser
+// (e.g. express.raw({ type: 'application/json' })).
 
-import { paychanguService, PaychanguWebhookPayload } from '@/services/paychangu';
+import type { Json } from '@/integrations/supabase/types';
+import { PaychanguWebhookPayload, validatePaychanguSignature } from '@/services/paychangu';
+import {
+  getShowcasePaymentGateway,
+  isShowcasePaymentReference,
+  type ApiRequest,
+  type ApiResponse
+} from '@/api/payments/paychangu';
+import { getAdminClient } from '@/api/supabaseAdmin';
 
-// PayChangu webhook secret - should be stored in environment variables
-const PAYCHANGU_WEBHOOK_SECRET = import.meta.env.VITE_PAYCHANGU_WEBHOOK_SECRET || '';
+// Platform webhook secret, for subscription payments
+const PAYCHANGU_WEBHOOK_SECRET = process.env.PAYCHANGU_WEBHOOK_SECRET || process.env.VITE_PAYCHANGU_WEBHOOK_SECRET || '';
 
-export async function handlePaychanguWebhook(req: any, res: any) {
+const DB_ATTEMPTS = 3;
+const DB_RETRY_DELAY_MS = 250;
+
+interface ReceivedEvent {
+  event_id: string;
+  status: string;
+  duplicate: boolean;
+}
+
+interface ProcessedEvent {
+  success: boolean;
+  status?: string;
+  duplicate?: boolean;
+  error?: string;
+}
+
+// A raw body parser leaves the body as a Buffer or string; some servers also keep it as rawBody.
+// Without either, the body is read from the request stream.
+interface WebhookRequest extends Omit<ApiRequest, 'body'>, AsyncIterable<Buffer | string> {
+  body?: unknown;
+  rawBody?: Buffer | string;
+}
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Run a database call, retrying with backoff when it fails to get through. Errors the call
+ * reports about the event itself are left to the event log.
+ */
+async function withRetry<T>(label: string, call: () => Promise<T>): Promise<T> {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await call();
+    } catch (error) {
+      if (attempt >= DB_ATTEMPTS) throw error;
+
+      console.warn(`${label} failed (attempt ${attempt} of ${DB_ATTEMPTS}), retrying:`, error);
+      await sleep(DB_RETRY_DELAY_MS * 2 ** (attempt - 1));
+    }
+  }
+}
+
+/**
+ * The request body as PayChangu sent it, whether or not a body parser ran first
+ */
+async function readRawBody(req: WebhookRequest): Promise<string> {
+  if (typeof req.rawBody === 'string') return req.rawBody;
+  if (Buffer.isBuffer(req.rawBody)) return req.rawBody.toString('utf8');
+  if (Buffer.isBuffer(req.body)) return req.body.toString('utf8');
+  if (typeof req.body === 'string') return req.body;
+
+  if (req.body && typeof req.body === 'object') {
+    throw new Error('Webhook body was already parsed; mount the handler with a raw body parser');
+  }
+
+  const chunks: Buffer[] = [];
+  for await (const chunk of req) {
+    chunks.push(typeof chunk === 'string' ? Buffer.from(chunk) : chunk);
+  }
+  return Buffer.concat(chunks).toString('utf8');
+}
+
+/**
+ * Showcase orders are paid into the store's own merchant account, which signs its webhooks
+ * with the store's secret rather than ours
+ */
+async function getWebhookSecret(reference: string | undefined): Promise<string> {
+  if (!isShowcasePaymentReference(reference)) {
+    return PAYCHANGU_WEBHOOK_SECRET;
+  }
+
+  const gateway = await withRetry('Loading payment gateway', () => getShowcasePaymentGateway(reference!));
+  return gateway?.webhook_secret || '';
+}
+
+export async function handlePaychanguWebhook(req: WebhookRequest, res: ApiResponse) {
   // Only allow POST requests
   if (req.method !== 'POST') {
     return res.status(405).json({ error: 'Method not allowed' });
   }
 
   try {
-    // Get the raw body and signature
-    const rawBody = JSON.stringify(req.body);
     const signature = req.headers['signature'] as string;
 
     if (!signature) {
@@ -22,20 +111,21 @@ export async function handlePaychanguWebhook(req: any, res: any) {
       return res.status(400).json({ error: 'Missing signature' });
     }
 
-    // Validate webhook signature
-    const isValidSignature = paychanguService.validateWebhookSignature(
-      rawBody,
-      signature,
-      PAYCHANGU_WEBHOOK_SECRET
-    );
+    const rawBody = await readRawBody(req);
 
-    if (!isValidSignature) {
-      console.error('Invalid webhook signature');
-      return res.status(401).json({ error: 'Invalid signature' });
+    let payload: PaychanguWebhookPayload;
+    try {
+      payload = JSON.parse(rawBody);
+    } catch {
+      return res.status(400).json({ error: 'Invalid JSON body' });
     }
 
-    // Parse the webhook payload
-    const payload: PaychanguWebhookPayload = req.body;
+    const webhookSecret = await getWebhookSecret(payload.reference);
+
+    if (!validatePaychanguSignature(rawBody, signature, webhookSecret)) {
+      console.error('Invalid webhook signature for:', payload.reference);
+      return res.status(401).json({ error: 'Invalid signature' });
+    }
 
     console.log('Received PayChangu webhook:', {
       event_type: payload.event_type,
@@ -44,18 +134,33 @@ export async function handlePaychanguWebhook(req: any, res: any) {
       amount: payload.amount
     });
 
-    // Process the webhook based on event type
-    switch (payload.event_type) {
-      case 'api.charge.payment':
-        await handlePaymentEvent(payload);
-        break;
-      
-      case 'api.charge.failed':
-        await handleFailedPaymentEvent(payload);
-        break;
-      
-      default:
-        console.log('Unhandled webhook event type:', payload.event_type);
+    const supabase = getAdminClient();
+
+    const received = await withRetry('Logging webhook event', async () => {
+      const { data, error } = await supabase.rpc('receive_payment_webhook_event', {
+        _payload: payload as unknown as Json,
+        _raw_body: rawBody,
+      });
+      if (error) throw error;
+      return data as unknown as ReceivedEvent;
+    });
+
+    if (received.duplicate && ['processed', 'ignored'].includes(received.status)) {
+      return res.status(200).json({ message: 'Webhook already processed' });
+    }
+
+    const processed = await withRetry('Processing webhook event', async () => {
+      const { data, error } = await supabase.rpc('process_payment_webhook_event', {
+        _event_id: received.event_id,
+      });
+      if (error) throw error;
+      return data as unknown as ProcessedEvent;
+    });
+
+    if (!processed.success) {
+      // Logged for retry; a non-2xx also makes PayChangu send it again
+      console.error('PayChangu webhook event failed:', received.event_id, processed.error);
+      return res.status(500).json({ error: 'Webhook could not be processed' });
     }
 
     // Respond with 200 to acknowledge receipt
@@ -66,33 +171,3 @@ export async function handlePaychanguWebhook(req: any, res: any) {
     res.status(500).json({ error: 'Internal server error' });
   }
 }
-
-/**
- * Handle successful payment events
- */
-async function handlePaymentEvent(payload: PaychanguWebhookPayload) {
-  try {
-    if (payload.status === 'success') {
-      await paychanguService.processWebhook(payload);
-      console.log('Successfully processed payment webhook for:', payload.reference);
-    } else {
-      console.log('Payment not successful, status:', payload.status);
-    }
-  } catch (error) {
-    console.error('Error handling payment event:', error);
-    throw error;
-  }
-}
-
-/**
- * Handle failed payment events
- */
-async function handleFailedPaymentEvent(payload: PaychanguWebhookPayload) {
-  try {
-    await paychanguService.processWebhook(payload);
-    console.log('Successfully processed failed payment webhook for:', payload.reference);
-  } catch (error) {
-    console.error('Error handling failed payment event:', error);
-    throw error;
-  }
-}
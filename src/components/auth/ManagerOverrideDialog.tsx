@@ -0,0 +1,90 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, ShieldCheck } from "lucide-react";
+import {
+  useManagerOverrideStore,
+  usePendingOverride,
+  useOverrideAuthorizing,
+  OVERRIDE_ACTION_LABELS,
+} from "@/stores/managerOverrideStore";
+
+/**
+ * PIN prompt for manager approvals. Mount it once on a screen that calls
+ * useManagerOverride().approve; it opens whenever an approval is pending.
+ */
+export function ManagerOverrideDialog() {
+  const pending = usePendingOverride();
+  const authorizing = useOverrideAuthorizing();
+  const submitPin = useManagerOverrideStore(state => state.submitPin);
+  const cancelOverride = useManagerOverrideStore(state => state.cancelOverride);
+  const [pin, setPin] = useState('');
+
+  useEffect(() => {
+    setPin('');
+  }, [pending]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!pin.trim()) return;
+
+    const approved = await submitPin(pin.trim());
+    if (!approved) {
+      setPin('');
+    }
+  };
+
+  return (
+    <Dialog open={pending !== null} onOpenChange={(open) => !open && cancelOverride()}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ShieldCheck className="w-5 h-5" />
+            Manager Approval{pending ? ` - ${OVERRIDE_ACTION_LABELS[pending.action]}` : ''}
+          </DialogTitle>
+          <DialogDescription>
+            {pending?.description}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="manager-override-pin">Manager or owner PIN</Label>
+            <Input
+              id="manager-override-pin"
+              type="password"
+              inputMode="numeric"
+              autoComplete="off"
+              autoFocus
+              maxLength={6}
+              value={pin}
+              onChange={(e) => setPin(e.target.value.replace(/\D/g, ''))}
+            />
+            <p className="text-xs text-muted-foreground">
+              Approves this action only. The approving manager and the cashier are both recorded in the audit log.
+            </p>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={cancelOverride} disabled={authorizing}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={authorizing || !pin.trim()}>
+              {authorizing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Approve
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,10 +12,14 @@ import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { useSubscription } from '@/hooks/useSubscription';
+import { UpgradePrompt } from '@/components/subscription/UpgradePrompt';
+import type { PlanFeature } from '@/lib/planLimits';
 
 interface ProtectedRouteProps {
   children: React.ReactNode;
   requiredPage?: ProtectedPage;
+  requiredFeature?: PlanFeature;
   fallbackPath?: string;
   showUnauthorizedMessage?: boolean;
 }
@@ -23,6 +27,7 @@ interface ProtectedRouteProps {
 export function ProtectedRoute({
   children,
   requiredPage,
+  requiredFeature,
   fallbackPath = '/dashboard',
   showUnauthorizedMessage = true
 }: ProtectedRouteProps) {
@@ -32,6 +37,7 @@ export function ProtectedRoute({
   const storeLoading = useStoreLoading();
   const hasValidStoreSelection = useHasValidStoreSelection();
   const { canAccessPage, loading: permissionLoading } = usePermissions();
+  const { hasFeature, entitlements } = useSubscription();
   const setPageLoading = usePageLoading();
   const location = useLocation();
   const [sessionChecked, setSessionChecked] = useState(false);
@@ -242,6 +248,11 @@ export function ProtectedRoute({
     }
   }
 
+  // Features the store owner's plan doesn't include get an upgrade prompt instead of the page
+  if (requiredFeature && !hasFeature(requiredFeature)) {
+    return <UpgradePrompt feature={requiredFeature} planName={entitlements?.plan_name} className="min-h-screen" />;
+  }
+
   // Wrap with access control for authenticated users (not PIN sessions)
   if (user && !hasPinSession) {
     return (
@@ -270,6 +281,8 @@ function UnauthorizedAccess({ requiredPage, fallbackPath }: UnauthorizedAccessPr
       products: 'Product Management',
       categories: 'Category Management',
       suppliers: 'Supplier Management',
+      discounts: 'Discounts & Promotions',
+      'gift-cards': 'Gift Cards & Store Credit',
       customers: 'Customer Management',
       transactions: 'Transaction History',
       layby: 'Layby Management',
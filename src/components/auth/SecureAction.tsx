@@ -64,6 +64,7 @@ interface SecureButtonProps {
   variant?: "default" | "destructive" | "outline" | "secondary" | "ghost" | "link";
   size?: "default" | "sm" | "lg" | "icon";
   className?: string;
+  title?: string;
   disabled?: boolean;
   showUnauthorizedToast?: boolean;
 }
@@ -0,0 +1,132 @@
+import { useState } from "react";
+import { Button } from "@/components/ui/button";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
+import { Wallet, ArrowDownToLine, ArrowUpFromLine, FileText, Lock, ChevronDown } from "lucide-react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import {
+  useCashDrawerStore,
+  useCurrentShift,
+  type CashMovementType,
+  type ShiftReport,
+} from "@/stores/cashDrawerStore";
+import { OpenShiftDialog } from "./OpenShiftDialog";
+import { CashMovementDialog } from "./CashMovementDialog";
+import { CloseShiftDialog } from "./CloseShiftDialog";
+import { ShiftReportDialog } from "./ShiftReportDialog";
+
+interface CashDrawerMenuProps {
+  showOpenDialog: boolean;
+  onShowOpenDialogChange: (open: boolean) => void;
+}
+
+/**
+ * Till controls for the POS header. Only shown when the store has the cash
+ * drawer switched on.
+ */
+export function CashDrawerMenu({ showOpenDialog, onShowOpenDialogChange }: CashDrawerMenuProps) {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+  const currentShift = useCurrentShift();
+  const fetchReport = useCashDrawerStore(state => state.fetchReport);
+
+  // Cashiers close blind, so only managers can read the drawer mid-shift
+  const canViewReports = isOwner || userRole === 'manager';
+
+  const [movementType, setMovementType] = useState<CashMovementType | null>(null);
+  const [showCloseDialog, setShowCloseDialog] = useState(false);
+  const [report, setReport] = useState<ShiftReport | null>(null);
+
+  if (!currentStore) return null;
+
+  const handleXReport = async () => {
+    if (!currentShift) return;
+    const xReport = await fetchReport(currentShift.id);
+    if (xReport) {
+      setReport(xReport);
+    }
+  };
+
+  return (
+    <>
+      {currentShift ? (
+        <DropdownMenu>
+          <DropdownMenuTrigger asChild>
+            <Button variant="outline" size="sm">
+              <Wallet className="w-4 h-4 sm:mr-2" />
+              <span className="hidden sm:inline">Shift {currentShift.shift_number}</span>
+              <ChevronDown className="w-3 h-3 ml-1" />
+            </Button>
+          </DropdownMenuTrigger>
+          <DropdownMenuContent align="end">
+            <DropdownMenuLabel className="font-normal">
+              <p className="text-sm font-medium">Shift {currentShift.shift_number}</p>
+              <p className="text-xs text-muted-foreground">
+                Opened {new Date(currentShift.opened_at).toLocaleTimeString()}
+                {currentShift.opened_by_name ? ` by ${currentShift.opened_by_name}` : ''}
+              </p>
+            </DropdownMenuLabel>
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setMovementType('paid_in')}>
+              <ArrowDownToLine className="w-4 h-4 mr-2" />
+              Paid In
+            </DropdownMenuItem>
+            <DropdownMenuItem onClick={() => setMovementType('paid_out')}>
+              <ArrowUpFromLine className="w-4 h-4 mr-2" />
+              Paid Out
+            </DropdownMenuItem>
+            {canViewReports && (
+              <DropdownMenuItem onClick={handleXReport}>
+                <FileText className="w-4 h-4 mr-2" />
+                X-Report
+              </DropdownMenuItem>
+            )}
+            <DropdownMenuSeparator />
+            <DropdownMenuItem onClick={() => setShowCloseDialog(true)}>
+              <Lock className="w-4 h-4 mr-2" />
+              Close Shift
+            </DropdownMenuItem>
+          </DropdownMenuContent>
+        </DropdownMenu>
+      ) : (
+        <Button variant="outline" size="sm" onClick={() => onShowOpenDialogChange(true)}>
+          <Wallet className="w-4 h-4 sm:mr-2" />
+          <span className="hidden sm:inline">Open Shift</span>
+        </Button>
+      )}
+
+      <OpenShiftDialog
+        open={showOpenDialog}
+        onOpenChange={onShowOpenDialogChange}
+        storeId={currentStore.id}
+      />
+
+      <CashMovementDialog
+        open={movementType !== null}
+        onOpenChange={(open) => !open && setMovementType(null)}
+        type={movementType || 'paid_in'}
+      />
+
+      <CloseShiftDialog
+        open={showCloseDialog}
+        onOpenChange={setShowCloseDialog}
+        onClosed={setReport}
+      />
+
+      <ShiftReportDialog
+        open={report !== null}
+        onOpenChange={(open) => !open && setReport(null)}
+        report={report}
+        storeName={currentStore.name}
+        storeAddress={currentStore.address || undefined}
+        storePhone={currentStore.phone || undefined}
+      />
+    </>
+  );
+}
@@ -0,0 +1,110 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCashDrawerStore, type CashMovementType } from "@/stores/cashDrawerStore";
+
+interface CashMovementDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  type: CashMovementType;
+}
+
+export function CashMovementDialog({ open, onOpenChange, type }: CashMovementDialogProps) {
+  const recordMovement = useCashDrawerStore(state => state.recordMovement);
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const isPaidIn = type === 'paid_in';
+
+  useEffect(() => {
+    if (open) {
+      setAmount('');
+      setReason('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      toast.error('Amount must be greater than 0');
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('A reason is required');
+      return;
+    }
+
+    setSubmitting(true);
+    const recorded = await recordMovement(type, value, reason.trim());
+    setSubmitting(false);
+
+    if (recorded) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>{isPaidIn ? 'Paid In' : 'Paid Out'}</DialogTitle>
+          <DialogDescription>
+            {isPaidIn
+              ? 'Record cash added to the drawer that is not a sale.'
+              : 'Record cash taken out of the drawer, such as a petty cash purchase.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="movement-amount">Amount *</Label>
+            <Input
+              id="movement-amount"
+              type="number"
+              step="0.01"
+              min="0.01"
+              placeholder="0.00"
+              value={amount}
+              onChange={(e) => setAmount(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="movement-reason">Reason *</Label>
+            <Input
+              id="movement-reason"
+              placeholder={isPaidIn ? 'e.g. Extra change from bank' : 'e.g. Cleaning supplies'}
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isPaidIn ? 'Record Paid In' : 'Record Paid Out'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,121 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCashDrawerStore, type ShiftReport } from "@/stores/cashDrawerStore";
+
+interface CloseShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onClosed: (report: ShiftReport) => void;
+}
+
+/**
+ * Blind cash-up: the cashier enters what is in the drawer without being shown
+ * the expected amount. Over/short only appears on the Z-report afterwards.
+ */
+export function CloseShiftDialog({ open, onOpenChange, onClosed }: CloseShiftDialogProps) {
+  const currentShift = useCashDrawerStore(state => state.currentShift);
+  const closeShift = useCashDrawerStore(state => state.closeShift);
+  const [countedCash, setCountedCash] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setCountedCash('');
+      setNotes('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(countedCash);
+    if (isNaN(amount) || amount < 0) {
+      toast.error('Enter the cash counted in the drawer');
+      return;
+    }
+
+    if (!confirm('Close this shift? Sales after closing will need a new shift.')) {
+      return;
+    }
+
+    setSubmitting(true);
+    const report = await closeShift(amount, notes);
+    setSubmitting(false);
+
+    if (report) {
+      onOpenChange(false);
+      onClosed(report);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Close Shift</DialogTitle>
+          <DialogDescription>
+            Count all the cash in the drawer, including the float, and enter the total.
+          </DialogDescription>
+        </DialogHeader>
+
+        {currentShift && (
+          <p className="text-sm text-muted-foreground">
+            Shift #{currentShift.shift_number} - opened {new Date(currentShift.opened_at).toLocaleString()}
+            {currentShift.opened_by_name ? ` by ${currentShift.opened_by_name}` : ''}
+          </p>
+        )}
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="counted-cash">Counted Cash *</Label>
+            <Input
+              id="counted-cash"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={countedCash}
+              onChange={(e) => setCountedCash(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="closing-notes">Notes</Label>
+            <Textarea
+              id="closing-notes"
+              placeholder="Optional notes, e.g. reason for a difference"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || countedCash === ''}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Close Shift
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,104 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCashDrawerStore } from "@/stores/cashDrawerStore";
+
+interface OpenShiftDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+}
+
+export function OpenShiftDialog({ open, onOpenChange, storeId }: OpenShiftDialogProps) {
+  const openShift = useCashDrawerStore(state => state.openShift);
+  const [openingFloat, setOpeningFloat] = useState('');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setOpeningFloat('');
+      setNotes('');
+    }
+  }, [open]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const amount = parseFloat(openingFloat);
+    if (isNaN(amount) || amount < 0) {
+      toast.error('Enter the cash counted into the drawer');
+      return;
+    }
+
+    setSubmitting(true);
+    const opened = await openShift(storeId, amount, notes);
+    setSubmitting(false);
+
+    if (opened) {
+      onOpenChange(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Open Shift</DialogTitle>
+          <DialogDescription>
+            Count the float in the drawer before taking any cash.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="opening-float">Opening Float *</Label>
+            <Input
+              id="opening-float"
+              type="number"
+              step="0.01"
+              min="0"
+              placeholder="0.00"
+              value={openingFloat}
+              onChange={(e) => setOpeningFloat(e.target.value)}
+              autoFocus
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="opening-notes">Notes</Label>
+            <Textarea
+              id="opening-notes"
+              placeholder="Optional notes for this shift"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting || openingFloat === ''}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Open Shift
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Wallet, FileText, Loader2 } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useCashDrawerStore, type CashDrawerShift, type ShiftReport } from "@/stores/cashDrawerStore";
+import { useTax } from "@/hooks/useTax";
+import { ShiftReportDialog } from "./ShiftReportDialog";
+
+interface ShiftHistoryProps {
+  from?: Date;
+  to?: Date;
+}
+
+export function ShiftHistory({ from, to }: ShiftHistoryProps) {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+
+  const history = useCashDrawerStore(state => state.history);
+  const historyLoading = useCashDrawerStore(state => state.historyLoading);
+  const fetchHistory = useCashDrawerStore(state => state.fetchHistory);
+  const fetchReport = useCashDrawerStore(state => state.fetchReport);
+
+  const [report, setReport] = useState<ShiftReport | null>(null);
+  const [loadingReportId, setLoadingReportId] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchHistory(currentStore.id, from, to);
+    }
+  }, [currentStore?.id, from, to, fetchHistory]);
+
+  const closedShifts = history.filter(shift => shift.status === 'closed');
+  const totalOverShort = closedShifts.reduce((sum, shift) => sum + (shift.over_short || 0), 0);
+  const shortShifts = closedShifts.filter(shift => (shift.over_short || 0) < 0).length;
+
+  const handleViewReport = async (shift: CashDrawerShift) => {
+    setLoadingReportId(shift.id);
+    const shiftReport = await fetchReport(shift.id);
+    setLoadingReportId(null);
+    if (shiftReport) {
+      setReport(shiftReport);
+    }
+  };
+
+  const renderOverShort = (shift: CashDrawerShift) => {
+    if (shift.status !== 'closed' || shift.over_short === null) {
+      return <span className="text-muted-foreground">-</span>;
+    }
+    if (shift.over_short === 0) {
+      return <span className="text-green-600">Balanced</span>;
+    }
+    return shift.over_short < 0 ? (
+      <span className="text-destructive">Short {formatCurrency(Math.abs(shift.over_short))}</span>
+    ) : (
+      <span className="text-orange-600">Over {formatCurrency(shift.over_short)}</span>
+    );
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-2xl font-bold text-foreground">{history.length}</p>
+            <p className="text-sm text-muted-foreground">Shifts</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className={`text-2xl font-bold ${totalOverShort < 0 ? 'text-destructive' : 'text-foreground'}`}>
+              {totalOverShort < 0 ? '-' : ''}{formatCurrency(Math.abs(totalOverShort))}
+            </p>
+            <p className="text-sm text-muted-foreground">Net Over/Short</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-2xl font-bold text-foreground">{shortShifts}</p>
+            <p className="text-sm text-muted-foreground">Shifts Short</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="card-professional">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Shift History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {historyLoading ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : history.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              <Wallet className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p>No cash drawer shifts in this period</p>
+            </div>
+          ) : (
+            <div className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Shift</TableHead>
+                    <TableHead>Cashier</TableHead>
+                    <TableHead>Opened</TableHead>
+                    <TableHead>Closed</TableHead>
+                    <TableHead className="text-right">Float</TableHead>
+                    <TableHead className="text-right">Expected</TableHead>
+                    <TableHead className="text-right">Counted</TableHead>
+                    <TableHead className="text-right">Over/Short</TableHead>
+                    <TableHead></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {history.map((shift) => (
+                    <TableRow key={shift.id}>
+                      <TableCell className="font-medium">
+                        <div className="flex items-center gap-2">
+                          {shift.shift_number}
+                          {shift.status === 'open' && <Badge variant="secondary">Open</Badge>}
+                        </div>
+                      </TableCell>
+                      <TableCell>
+                        <div>{shift.opened_by_name || '-'}</div>
+                        {shift.closed_by_name && shift.closed_by_name !== shift.opened_by_name && (
+                          <div className="text-xs text-muted-foreground">Closed by {shift.closed_by_name}</div>
+                        )}
+                      </TableCell>
+                      <TableCell className="whitespace-nowrap">{new Date(shift.opened_at).toLocaleString()}</TableCell>
+                      <TableCell className="whitespace-nowrap">
+                        {shift.closed_at ? new Date(shift.closed_at).toLocaleString() : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">{formatCurrency(shift.opening_float)}</TableCell>
+                      <TableCell className="text-right">
+                        {shift.expected_cash !== null ? formatCurrency(shift.expected_cash) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {shift.counted_cash !== null ? formatCurrency(shift.counted_cash) : '-'}
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">{renderOverShort(shift)}</TableCell>
+                      <TableCell>
+                        <Button
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => handleViewReport(shift)}
+                          disabled={loadingReportId === shift.id}
+                        >
+                          {loadingReportId === shift.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <FileText className="w-4 h-4" />
+                          )}
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {currentStore && (
+        <ShiftReportDialog
+          open={report !== null}
+          onOpenChange={(open) => !open && setReport(null)}
+          report={report}
+          storeName={currentStore.name}
+          storeAddress={currentStore.address || undefined}
+          storePhone={currentStore.phone || undefined}
+        />
+      )}
+    </>
+  );
+}
@@ -0,0 +1,214 @@
+import { forwardRef } from "react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Printer, Download } from "lucide-react";
+import { useTax } from "@/hooks/useTax";
+import type { ShiftReport as ShiftReportData } from "@/stores/cashDrawerStore";
+
+interface ShiftReportProps {
+  report: ShiftReportData;
+  storeName: string;
+  storeAddress?: string;
+  storePhone?: string;
+  onPrint?: () => void;
+  onDownload?: () => void;
+}
+
+export const ShiftReport = forwardRef<HTMLDivElement, ShiftReportProps>(
+  ({
+    report,
+    storeName,
+    storeAddress,
+    storePhone,
+    onPrint,
+    onDownload,
+  }, ref) => {
+    const { formatCurrency } = useTax();
+    const { shift } = report;
+    const isClosed = shift.status === 'closed';
+    const overShort = shift.over_short ?? 0;
+
+    const formatDate = (dateString: string) => {
+      return new Date(dateString).toLocaleString();
+    };
+
+    return (
+      <div className="max-w-md mx-auto">
+        <Card className="receipt-card">
+          <CardHeader className="text-center pb-4">
+            <div className="space-y-2">
+              <h2 className="text-xl font-bold text-foreground">{storeName}</h2>
+              {storeAddress && (
+                <p className="text-sm text-muted-foreground">{storeAddress}</p>
+              )}
+              {storePhone && (
+                <p className="text-sm text-muted-foreground">{storePhone}</p>
+              )}
+            </div>
+          </CardHeader>
+
+          <CardContent ref={ref} className="receipt-content space-y-4">
+            {/* Shift Info */}
+            <div className="text-center space-y-1">
+              <p className="font-bold text-foreground">{isClosed ? 'Z-REPORT' : 'X-REPORT'}</p>
+              <p className="font-medium text-foreground">Shift #{shift.shift_number}</p>
+              <p className="text-sm text-muted-foreground">Opened: {formatDate(shift.opened_at)}</p>
+              {shift.opened_by_name && (
+                <p className="text-sm text-muted-foreground">By: {shift.opened_by_name}</p>
+              )}
+              {isClosed && shift.closed_at ? (
+                <>
+                  <p className="text-sm text-muted-foreground">Closed: {formatDate(shift.closed_at)}</p>
+                  {shift.closed_by_name && (
+                    <p className="text-sm text-muted-foreground">By: {shift.closed_by_name}</p>
+                  )}
+                </>
+              ) : (
+                <p className="text-sm text-muted-foreground">Printed: {formatDate(report.generated_at)}</p>
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Tenders */}
+            <div className="space-y-2">
+              <p className="font-medium text-foreground">Sales by Payment Method:</p>
+              {report.payments.length === 0 ? (
+                <p className="text-sm text-muted-foreground">No sales this shift</p>
+              ) : (
+                report.payments.map((tender) => (
+                  <div key={tender.payment_method} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">
+                        {tender.name} ({tender.sales_count}):
+                      </span>
+                      <span className="text-foreground">{formatCurrency(tender.sales_total)}</span>
+                    </div>
+                    {tender.refunds_total > 0 && (
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>Refunds:</span>
+                        <span>-{formatCurrency(tender.refunds_total)}</span>
+                      </div>
+                    )}
+                  </div>
+                ))
+              )}
+            </div>
+
+            <Separator />
+
+            {/* Drawer */}
+            <div className="space-y-2">
+              <p className="font-medium text-foreground">Cash Drawer:</p>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Opening Float:</span>
+                <span className="text-foreground">{formatCurrency(shift.opening_float)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Cash Sales:</span>
+                <span className="text-foreground">{formatCurrency(report.cash_sales)}</span>
+              </div>
+              {report.cash_refunds > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Cash Refunds:</span>
+                  <span className="text-foreground">-{formatCurrency(report.cash_refunds)}</span>
+                </div>
+              )}
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Paid In:</span>
+                <span className="text-foreground">{formatCurrency(report.paid_in)}</span>
+              </div>
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Paid Out:</span>
+                <span className="text-foreground">-{formatCurrency(report.paid_out)}</span>
+              </div>
+
+              <Separator />
+
+              <div className="flex justify-between font-bold">
+                <span className="text-foreground">Expected Cash:</span>
+                <span className="text-foreground">{formatCurrency(report.expected_cash)}</span>
+              </div>
+
+              {isClosed && (
+                <>
+                  <div className="flex justify-between text-sm">
+                    <span className="text-muted-foreground">Counted Cash:</span>
+                    <span className="text-foreground">{formatCurrency(shift.counted_cash ?? 0)}</span>
+                  </div>
+                  <div className="flex justify-between text-lg font-bold">
+                    <span className="text-foreground">{overShort < 0 ? 'Short:' : 'Over:'}</span>
+                    <span className={overShort < 0 ? 'text-destructive' : overShort > 0 ? 'text-orange-600' : 'text-green-600'}>
+                      {formatCurrency(Math.abs(overShort))}
+                    </span>
+                  </div>
+                </>
+              )}
+            </div>
+
+            {/* Paid In / Out */}
+            {report.movements.length > 0 && (
+              <>
+                <Separator />
+                <div className="space-y-2">
+                  <p className="font-medium text-foreground">Paid In / Out:</p>
+                  {report.movements.map((movement) => (
+                    <div key={movement.id} className="space-y-1">
+                      <div className="flex justify-between items-start text-sm">
+                        <span className="flex-1 text-foreground">{movement.reason}</span>
+                        <span className="text-foreground">
+                          {movement.movement_type === 'paid_out' ? '-' : '+'}{formatCurrency(movement.amount)}
+                        </span>
+                      </div>
+                      <p className="text-xs text-muted-foreground">
+                        {new Date(movement.created_at).toLocaleTimeString()}
+                        {movement.created_by_name ? ` - ${movement.created_by_name}` : ''}
+                      </p>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            {shift.notes && (
+              <>
+                <Separator />
+                <div className="space-y-1">
+                  <p className="font-medium text-foreground">Notes:</p>
+                  <p className="text-sm text-muted-foreground">{shift.notes}</p>
+                </div>
+              </>
+            )}
+
+            <Separator />
+
+            <div className="text-center text-xs text-muted-foreground">
+              <p>{isClosed ? 'End of shift' : 'Mid-shift reading - drawer remains open'}</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Action Buttons */}
+        {(onPrint || onDownload) && (
+          <div className="flex gap-2 mt-4">
+            {onPrint && (
+              <Button onClick={onPrint} variant="outline" className="flex-1">
+                <Printer className="w-4 h-4 mr-2" />
+                Print
+              </Button>
+            )}
+            {onDownload && (
+              <Button onClick={onDownload} variant="outline" className="flex-1">
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+ShiftReport.displayName = "ShiftReport";
@@ -0,0 +1,234 @@
+import { useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { ShiftReport } from "./ShiftReport";
+import { toast } from "sonner";
+import jsPDF from 'jspdf';
+import { useTax } from "@/hooks/useTax";
+import type { ShiftReport as ShiftReportData } from "@/stores/cashDrawerStore";
+
+interface ShiftReportDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: ShiftReportData | null;
+  storeName: string;
+  storeAddress?: string;
+  storePhone?: string;
+}
+
+const PRINT_STYLES = `
+  body {
+    font-family: 'Courier New', monospace;
+    margin: 0;
+    padding: 10px;
+    font-size: 12px;
+    line-height: 1.3;
+    width: 80mm;
+    max-width: 80mm;
+  }
+  .text-center { text-align: center; }
+  .font-bold { font-weight: bold; }
+  .font-medium { font-weight: 600; }
+  .space-y-1 > * + * { margin-top: 4px; }
+  .space-y-2 > * + * { margin-top: 8px; }
+  .space-y-4 > * + * { margin-top: 16px; }
+  .flex { display: flex; }
+  .justify-between { justify-content: space-between; }
+  .items-start { align-items: flex-start; }
+  .flex-1 { flex: 1; }
+  p { margin: 0; }
+  [data-orientation="horizontal"] { border-top: 1px dashed #000; margin: 8px 0; }
+  .text-sm { font-size: 11px; }
+  .text-xs { font-size: 10px; }
+  .text-lg { font-size: 14px; }
+  @page {
+    size: 80mm auto;
+    margin: 0;
+  }
+`;
+
+export function ShiftReportDialog({
+  open,
+  onOpenChange,
+  report,
+  storeName,
+  storeAddress,
+  storePhone,
+}: ShiftReportDialogProps) {
+  const reportRef = useRef<HTMLDivElement>(null);
+  const { formatCurrency } = useTax();
+
+  const title = report?.shift.status === 'closed' ? 'Z-Report' : 'X-Report';
+
+  // Print from a throwaway frame so the app itself is left untouched
+  const handlePrint = (): void => {
+    if (!reportRef.current) return;
+
+    const frame = document.createElement('iframe');
+    frame.style.position = 'fixed';
+    frame.style.width = '0';
+    frame.style.height = '0';
+    frame.style.border = '0';
+    document.body.appendChild(frame);
+
+    const frameDocument = frame.contentDocument;
+    const frameWindow = frame.contentWindow;
+    if (!frameDocument || !frameWindow) {
+      document.body.removeChild(frame);
+      toast.error('Failed to print report');
+      return;
+    }
+
+    const style = frameDocument.createElement('style');
+    style.textContent = PRINT_STYLES;
+    frameDocument.head.appendChild(style);
+    frameDocument.body.innerHTML = reportRef.current.innerHTML;
+
+    frameWindow.focus();
+    frameWindow.print();
+    document.body.removeChild(frame);
+
+    toast.success(`${title} sent to printer`);
+  };
+
+  const handleDownload = (): void => {
+    if (!report) return;
+    const { shift } = report;
+
+    try {
+      const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: [80, 200 + (report.payments.length + report.movements.length) * 8] // Thermal receipt size (80mm wide)
+      });
+
+      doc.setFont('courier', 'normal');
+      doc.setFontSize(10);
+
+      let yPosition = 10;
+      const lineHeight = 4;
+      const pageWidth = 80;
+      const margin = 5;
+
+      const addText = (text: string, fontSize = 10, align: 'left' | 'center' = 'left') => {
+        doc.setFontSize(fontSize);
+        if (align === 'center') {
+          const textWidth = doc.getTextWidth(text);
+          const x = (pageWidth - textWidth) / 2;
+          doc.text(text, x, yPosition);
+        } else {
+          doc.text(text, margin, yPosition);
+        }
+        yPosition += lineHeight;
+      };
+
+      const addDivider = () => {
+        yPosition += 2;
+        addText('================================', 8, 'center');
+        yPosition += 2;
+      };
+
+      // Store header
+      addText(storeName, 12, 'center');
+      if (storeAddress) addText(storeAddress, 8, 'center');
+      if (storePhone) addText(storePhone, 8, 'center');
+
+      addDivider();
+
+      // Shift info
+      addText(title.toUpperCase(), 11, 'center');
+      addText(`Shift #${shift.shift_number}`, 10, 'center');
+      addText(`Opened: ${new Date(shift.opened_at).toLocaleString()}`, 8);
+      if (shift.opened_by_name) addText(`By: ${shift.opened_by_name}`, 8);
+      if (shift.closed_at) {
+        addText(`Closed: ${new Date(shift.closed_at).toLocaleString()}`, 8);
+        if (shift.closed_by_name) addText(`By: ${shift.closed_by_name}`, 8);
+      } else {
+        addText(`Printed: ${new Date(report.generated_at).toLocaleString()}`, 8);
+      }
+
+      addDivider();
+
+      // Tenders
+      addText('Sales by payment method', 9);
+      if (report.payments.length === 0) {
+        addText('No sales this shift', 8);
+      }
+      report.payments.forEach(tender => {
+        addText(`${tender.name} (${tender.sales_count}): ${formatCurrency(tender.sales_total)}`, 8);
+        if (tender.refunds_total > 0) {
+          addText(`  Refunds: -${formatCurrency(tender.refunds_total)}`, 8);
+        }
+      });
+
+      addDivider();
+
+      // Drawer
+      addText(`Opening float: ${formatCurrency(shift.opening_float)}`, 9);
+      addText(`Cash sales: ${formatCurrency(report.cash_sales)}`, 9);
+      if (report.cash_refunds > 0) {
+        addText(`Cash refunds: -${formatCurrency(report.cash_refunds)}`, 9);
+      }
+      addText(`Paid in: ${formatCurrency(report.paid_in)}`, 9);
+      addText(`Paid out: -${formatCurrency(report.paid_out)}`, 9);
+      addText(`EXPECTED CASH: ${formatCurrency(report.expected_cash)}`, 10);
+      if (shift.status === 'closed') {
+        const overShort = shift.over_short ?? 0;
+        addText(`Counted cash: ${formatCurrency(shift.counted_cash ?? 0)}`, 9);
+        addText(`${overShort < 0 ? 'SHORT' : 'OVER'}: ${formatCurrency(Math.abs(overShort))}`, 11);
+      }
+
+      if (report.movements.length > 0) {
+        addDivider();
+        addText('Paid in / out', 9);
+        report.movements.forEach(movement => {
+          const sign = movement.movement_type === 'paid_out' ? '-' : '+';
+          addText(`${sign}${formatCurrency(movement.amount)} ${movement.reason}`, 8);
+        });
+      }
+
+      if (shift.notes) {
+        addDivider();
+        addText(`Notes: ${shift.notes}`, 8);
+      }
+
+      doc.save(`${title.toLowerCase()}-${shift.shift_number}.pdf`);
+      toast.success(`${title} PDF downloaded successfully`);
+    } catch (error) {
+      console.error('Error generating shift report PDF:', error);
+      toast.error('Failed to generate PDF report');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{title}</DialogTitle>
+          <DialogDescription>
+            {report?.shift.status === 'closed'
+              ? 'End of shift cash-up. Print or download for your records.'
+              : 'Mid-shift reading. The drawer stays open.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {report && (
+          <ShiftReport
+            ref={reportRef}
+            report={report}
+            storeName={storeName}
+            storeAddress={storeAddress}
+            storePhone={storePhone}
+            onPrint={handlePrint}
+            onDownload={handleDownload}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -12,6 +12,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -27,10 +28,11 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, User, Mail, Phone, MapPin } from "lucide-react";
+import { Loader2, User, Mail, Phone, MapPin, Tags } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { useSupabaseClient } from "@/hooks/useSupabaseClient";
+import { parseCustomerTags } from "@/lib/customerSegments";
 import { toast } from "sonner";
 
 const customerSchema = z.object({
@@ -39,6 +41,7 @@ const customerSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   status: z.enum(["active", "inactive", "vip"]).default("active"),
+  tags: z.string().optional(),
 });
 
 type CustomerFormData = z.infer<typeof customerSchema>;
@@ -63,6 +66,7 @@ export function AddCustomerDialog({ open, onOpenChange, onCustomerAdded }: AddCu
       phone: "",
       address: "",
       status: "active",
+      tags: "",
     },
   });
 
@@ -83,6 +87,7 @@ export function AddCustomerDialog({ open, onOpenChange, onCustomerAdded }: AddCu
           phone: data.phone || null,
           address: data.address || null,
           status: data.status,
+          tags: parseCustomerTags(data.tags || ''),
           total_orders: 0,
           total_spent: 0,
         });
@@ -224,6 +229,24 @@ export function AddCustomerDialog({ open, onOpenChange, onCustomerAdded }: AddCu
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <Tags className="w-4 h-4" />
+                    Tags
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. wholesale, newsletter" {...field} />
+                  </FormControl>
+                  <FormDescription>Separate tags with commas. Segments can pick customers by tag.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
 
 
             <div className="flex justify-end gap-3 pt-4">
@@ -0,0 +1,258 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, Megaphone, MessageCircle, Send } from "lucide-react";
+import { toast } from "sonner";
+import {
+  CAMPAIGN_CHANNELS,
+  CAMPAIGN_PLACEHOLDERS,
+  campaignMessageWhatsAppUrl,
+  renderCampaignMessage,
+  type CampaignChannel,
+} from "@/lib/customerSegments";
+import {
+  useCampaignMessages,
+  useCustomerSegmentStore,
+  type CampaignMessage,
+  type CustomerCampaign,
+  type CustomerSegment,
+} from "@/stores/customerSegmentStore";
+import type { Customer } from "@/stores/customerStore";
+
+interface CustomerCampaignDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  storeName: string;
+  // Compose a new campaign to this segment, or follow up on an existing campaign
+  segment: CustomerSegment | null;
+  campaign: CustomerCampaign | null;
+  customers: Customer[];
+}
+
+const getMessageBadge = (message: CampaignMessage) => {
+  switch (message.status) {
+    case 'sent':
+      return <Badge className="bg-success text-success-foreground text-xs">Sent</Badge>;
+    case 'failed':
+      return <Badge variant="destructive" className="text-xs">Failed</Badge>;
+    case 'cancelled':
+      return <Badge variant="secondary" className="text-xs">Cancelled</Badge>;
+    case 'sending':
+      return <Badge variant="outline" className="text-xs">Sending</Badge>;
+    default:
+      return <Badge variant="outline" className="text-xs">Queued</Badge>;
+  }
+};
+
+export function CustomerCampaignDialog({
+  open,
+  onOpenChange,
+  storeId,
+  storeName,
+  segment,
+  campaign,
+  customers,
+}: CustomerCampaignDialogProps) {
+  const messages = useCampaignMessages();
+  const messagesLoading = useCustomerSegmentStore(state => state.messagesLoading);
+  const queueing = useCustomerSegmentStore(state => state.queueing);
+  const queueCampaign = useCustomerSegmentStore(state => state.queueCampaign);
+  const fetchCampaignMessages = useCustomerSegmentStore(state => state.fetchCampaignMessages);
+  const markCampaignMessageSent = useCustomerSegmentStore(state => state.markCampaignMessageSent);
+
+  const [name, setName] = useState('');
+  const [channel, setChannel] = useState<CampaignChannel>('whatsapp');
+  const [message, setMessage] = useState('');
+  const [activeCampaign, setActiveCampaign] = useState<CustomerCampaign | null>(null);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setActiveCampaign(campaign);
+    setName(segment ? `${segment.name} - ${new Date().toLocaleDateString()}` : '');
+    setChannel('whatsapp');
+    setMessage('Hi {name}, ');
+  }, [open, segment, campaign]);
+
+  useEffect(() => {
+    if (open && activeCampaign) {
+      fetchCampaignMessages(activeCampaign.id);
+    }
+  }, [open, activeCampaign, fetchCampaignMessages]);
+
+  // Who the campaign reaches: one message per phone number, as the database queues them
+  const recipients = useMemo(() => {
+    if (!segment) return [];
+    const members = new Set(segment.customer_ids);
+    const seen = new Set<string>();
+    return customers.filter(customer => {
+      const phone = customer.phone?.trim();
+      if (!members.has(customer.id) || !phone || seen.has(phone)) return false;
+      seen.add(phone);
+      return true;
+    });
+  }, [segment, customers]);
+
+  const handleQueue = async () => {
+    if (!segment) return;
+    if (!name.trim()) {
+      toast.error('Give the campaign a name');
+      return;
+    }
+    if (!message.trim()) {
+      toast.error('Write the message to send');
+      return;
+    }
+
+    const queued = await queueCampaign(storeId, {
+      segmentId: segment.id,
+      name: name.trim(),
+      channel,
+      message,
+    });
+
+    if (!queued) return;
+
+    if (queued.channel === 'whatsapp') {
+      setActiveCampaign(queued);
+    } else {
+      onOpenChange(false);
+    }
+  };
+
+  // WhatsApp messages are sent by staff through a wa.me link rather than a provider
+  const handleSendWhatsApp = async (campaignMessage: CampaignMessage) => {
+    window.open(campaignMessageWhatsAppUrl(campaignMessage), '_blank', 'noopener,noreferrer');
+    await markCampaignMessageSent(campaignMessage.id, 'whatsapp_link');
+  };
+
+  const sentCount = messages.filter(m => m.status === 'sent').length;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[640px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Megaphone className="w-5 h-5 text-primary" />
+            {activeCampaign ? activeCampaign.name : 'New Campaign'}
+          </DialogTitle>
+          <DialogDescription>
+            {activeCampaign
+              ? `${activeCampaign.channel === 'whatsapp' ? 'WhatsApp' : 'SMS'} to the "${activeCampaign.segment_name}" segment, ${sentCount} of ${activeCampaign.recipient_count} sent`
+              : `Message everyone in the "${segment?.name}" segment who has a phone number.`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {activeCampaign ? (
+          <div className="space-y-3">
+            {activeCampaign.skipped_count > 0 && (
+              <p className="text-sm text-muted-foreground">
+                {activeCampaign.skipped_count} customer(s) in the segment were left out for having no phone number or sharing one.
+              </p>
+            )}
+            {messagesLoading ? (
+              <div className="flex justify-center py-8">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : (
+              <div className="divide-y rounded-lg border">
+                {messages.map(campaignMessage => (
+                  <div key={campaignMessage.id} className="flex items-start justify-between gap-3 p-3">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium text-sm truncate">{campaignMessage.recipient_name || campaignMessage.recipient_phone}</span>
+                        {getMessageBadge(campaignMessage)}
+                      </div>
+                      <p className="text-xs text-muted-foreground">{campaignMessage.recipient_phone}</p>
+                      {campaignMessage.error_message && (
+                        <p className="text-xs text-destructive">{campaignMessage.error_message}</p>
+                      )}
+                    </div>
+                    {campaignMessage.channel === 'whatsapp' && campaignMessage.status === 'pending' && (
+                      <Button size="sm" variant="outline" onClick={() => handleSendWhatsApp(campaignMessage)}>
+                        <MessageCircle className="w-3 h-3 mr-1" />
+                        Send
+                      </Button>
+                    )}
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        ) : (
+          <div className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-[1fr_160px] gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="campaign-name">Campaign name</Label>
+                <Input id="campaign-name" value={name} onChange={(e) => setName(e.target.value)} />
+              </div>
+              <div className="space-y-2">
+                <Label>Send by</Label>
+                <Select value={channel} onValueChange={(value) => setChannel(value as CampaignChannel)}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CAMPAIGN_CHANNELS.map(option => (
+                      <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="campaign-message">Message</Label>
+              <Textarea
+                id="campaign-message"
+                rows={5}
+                maxLength={1000}
+                value={message}
+                onChange={(e) => setMessage(e.target.value)}
+              />
+              <p className="text-xs text-muted-foreground">
+                {CAMPAIGN_PLACEHOLDERS.map(placeholder => `${placeholder.token} ${placeholder.description.toLowerCase()}`).join(' · ')}
+                {channel === 'sms' && ' · SMS needs SMS notifications turned on in the store settings'}
+              </p>
+            </div>
+
+            {recipients.length > 0 && message.trim() && (
+              <div className="bg-muted/50 p-3 rounded-lg space-y-1">
+                <p className="text-xs font-medium text-muted-foreground">How it reads for {recipients[0].name}</p>
+                <p className="text-sm whitespace-pre-wrap">{renderCampaignMessage(message, recipients[0].name, storeName)}</p>
+              </div>
+            )}
+
+            <p className="text-sm text-muted-foreground">
+              {recipients.length} of {segment?.customer_count ?? 0} customer(s) in the segment can be reached by phone.
+            </p>
+          </div>
+        )}
+
+        <DialogFooter>
+          {activeCampaign ? (
+            <Button variant="outline" onClick={() => onOpenChange(false)}>Done</Button>
+          ) : (
+            <Button onClick={handleQueue} disabled={queueing || recipients.length === 0}>
+              {queueing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Send className="w-4 h-4 mr-2" />}
+              {channel === 'whatsapp' ? 'Prepare' : 'Queue'} {recipients.length} message{recipients.length === 1 ? '' : 's'}
+            </Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
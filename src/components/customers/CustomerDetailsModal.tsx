@@ -21,12 +21,19 @@ import {
   DollarSign,
   TrendingUp,
   Edit,
-  Loader2
+  Loader2,
+  Award,
+  Wallet
 } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useSupabaseClient } from "@/hooks/useSupabaseClient";
 import { toast } from "sonner";
 import { useTax } from "@/hooks/useTax";
+import { useLoyaltyStore } from "@/stores/loyaltyStore";
+import { getCustomerTier, getNextTier, describeLoyaltyTransaction } from "@/lib/loyalty";
+import { useGiftCardStore, useCustomerCredit } from "@/stores/giftCardStore";
+import { isGiftCardExpired } from "@/lib/giftCards";
+import { CustomerStoreCredit } from "./CustomerStoreCredit";
 
 interface Customer {
   id: string;
@@ -37,6 +44,7 @@ interface Customer {
   status: string | null;
   total_orders: number | null;
   total_spent: number | null;
+  loyalty_points?: number;
   created_at: string;
 }
 
@@ -70,6 +78,17 @@ export function CustomerDetailsModal({
   const [loading, setLoading] = useState(false);
   const [activeTab, setActiveTab] = useState("overview");
 
+  const loyaltySettings = useLoyaltyStore(state => state.settings);
+  const loyaltyTiers = useLoyaltyStore(state => state.tiers);
+  const ledger = useLoyaltyStore(state => state.ledger);
+  const ledgerLoading = useLoyaltyStore(state => state.ledgerLoading);
+  const fetchLoyaltyProgram = useLoyaltyStore(state => state.fetchProgram);
+  const fetchCustomerLedger = useLoyaltyStore(state => state.fetchCustomerLedger);
+
+  const storeCredit = useCustomerCredit();
+  const fetchCustomerCredit = useGiftCardStore(state => state.fetchCustomerCredit);
+  const fetchCreditLedger = useGiftCardStore(state => state.fetchLedger);
+
   const fetchCustomerOrders = useCallback(async () => {
     const storeId = currentStoreId || currentStore?.id;
     if (!customer || !storeId) return;
@@ -110,8 +129,27 @@ export function CustomerDetailsModal({
     }
   }, [open, customer, currentStore, currentStoreId, isPinSession, fetchCustomerOrders]);
 
+  useEffect(() => {
+    const storeId = currentStoreId || currentStore?.id;
+    if (open && customer && storeId) {
+      fetchLoyaltyProgram(storeId);
+      fetchCustomerLedger(customer.id);
+    }
+  }, [open, customer, currentStore?.id, currentStoreId, fetchLoyaltyProgram, fetchCustomerLedger]);
+
+  useEffect(() => {
+    const storeId = currentStoreId || currentStore?.id;
+    if (open && customer && storeId) {
+      fetchCustomerCredit(storeId, customer.id).then(credit => {
+        if (credit) fetchCreditLedger(credit.id);
+      });
+    }
+  }, [open, customer, currentStore?.id, currentStoreId, fetchCustomerCredit, fetchCreditLedger]);
+
   if (!customer) return null;
 
+  const storeId = currentStoreId || currentStore?.id;
+
   const getStatusColor = (status: string | null) => {
     switch (status) {
       case 'vip':
@@ -144,6 +182,9 @@ export function CustomerDetailsModal({
   const totalRevenue = orders.reduce((sum, order) => sum + order.total, 0);
   const averageOrderValue = orders.length > 0 ? totalRevenue / orders.length : 0;
 
+  const loyaltyTier = getCustomerTier(loyaltyTiers, customer.total_spent);
+  const nextTier = getNextTier(loyaltyTiers, customer.total_spent);
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
@@ -159,6 +200,15 @@ export function CustomerDetailsModal({
                 >
                   {(customer.status || 'active').toUpperCase()}
                 </Badge>
+                {loyaltyTier && (
+                  <Badge
+                    variant="outline"
+                    className="ml-2"
+                    style={{ borderColor: loyaltyTier.color || undefined, color: loyaltyTier.color || undefined }}
+                  >
+                    {loyaltyTier.name}
+                  </Badge>
+                )}
               </div>
             </div>
             <Button
@@ -176,9 +226,11 @@ export function CustomerDetailsModal({
         </DialogHeader>
 
         <Tabs value={activeTab} onValueChange={setActiveTab} className="w-full">
-          <TabsList className="grid w-full grid-cols-3">
+          <TabsList className="grid w-full grid-cols-5">
             <TabsTrigger value="overview">Overview</TabsTrigger>
             <TabsTrigger value="orders">Order History</TabsTrigger>
+            <TabsTrigger value="loyalty">Loyalty</TabsTrigger>
+            <TabsTrigger value="store-credit">Store Credit</TabsTrigger>
             <TabsTrigger value="analytics">Analytics</TabsTrigger>
           </TabsList>
 
@@ -240,6 +292,15 @@ export function CustomerDetailsModal({
                       ${averageOrderValue.toFixed(2)}
                     </span>
                   </div>
+                  <div className="flex items-center justify-between">
+                    <div className="flex items-center gap-2">
+                      <Wallet className="w-4 h-4 text-primary" />
+                      <span>Store Credit</span>
+                    </div>
+                    <span className="font-semibold">
+                      {formatCurrency(storeCredit && !isGiftCardExpired(storeCredit) ? storeCredit.balance : 0)}
+                    </span>
+                  </div>
                 </CardContent>
               </Card>
             </div>
@@ -336,6 +397,116 @@ export function CustomerDetailsModal({
             </Card>
           </TabsContent>
 
+          <TabsContent value="loyalty" className="space-y-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">
+                    Points Balance
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    {(customer.loyalty_points || 0).toLocaleString()}
+                  </div>
+                  {loyaltySettings.enabled && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Worth {formatCurrency((customer.loyalty_points || 0) * loyaltySettings.pointValue)}
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">
+                    Current Tier
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold" style={{ color: loyaltyTier?.color || undefined }}>
+                    {loyaltyTier?.name || 'None'}
+                  </div>
+                  {loyaltyTier && loyaltyTier.points_multiplier !== 1 && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Earns {loyaltyTier.points_multiplier}x points
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader className="pb-2">
+                  <CardTitle className="text-sm font-medium text-muted-foreground">
+                    Next Tier
+                  </CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="text-2xl font-bold">
+                    {nextTier?.name || 'Top tier'}
+                  </div>
+                  {nextTier && (
+                    <p className="text-xs text-muted-foreground mt-1">
+                      Spend {formatCurrency(nextTier.min_spent - (customer.total_spent || 0))} more to reach it
+                    </p>
+                  )}
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle className="flex items-center gap-2">
+                  <Award className="w-5 h-5" />
+                  Points History
+                </CardTitle>
+              </CardHeader>
+              <CardContent>
+                {ledgerLoading ? (
+                  <div className="flex items-center justify-center py-8">
+                    <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                    <span className="ml-2">Loading points history...</span>
+                  </div>
+                ) : ledger.length > 0 ? (
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Date</TableHead>
+                        <TableHead>Activity</TableHead>
+                        <TableHead>Order #</TableHead>
+                        <TableHead className="text-right">Points</TableHead>
+                        <TableHead className="text-right">Balance</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {ledger.map((entry) => (
+                        <TableRow key={entry.id}>
+                          <TableCell>{new Date(entry.created_at).toLocaleDateString()}</TableCell>
+                          <TableCell>{describeLoyaltyTransaction(entry.transaction_type)}</TableCell>
+                          <TableCell className="font-medium">
+                            {entry.orders?.order_number ? `#${entry.orders.order_number}` : '-'}
+                          </TableCell>
+                          <TableCell className={`text-right font-semibold ${entry.points >= 0 ? 'text-success' : 'text-destructive'}`}>
+                            {entry.points > 0 ? '+' : ''}{entry.points.toLocaleString()}
+                          </TableCell>
+                          <TableCell className="text-right">{entry.balance_after.toLocaleString()}</TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                ) : (
+                  <div className="text-center py-8 text-muted-foreground">
+                    {loyaltySettings.enabled ? 'No points earned yet' : 'Customer loyalty is not enabled for this store'}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </TabsContent>
+
+          <TabsContent value="store-credit" className="space-y-4">
+            {storeId && <CustomerStoreCredit storeId={storeId} customerId={customer.id} />}
+          </TabsContent>
+
           <TabsContent value="analytics" className="space-y-4">
             <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
               <Card>
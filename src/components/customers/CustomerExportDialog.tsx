@@ -39,6 +39,8 @@ interface CustomerExportDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   customers: Customer[];
+  // Set when exporting the members of a saved segment
+  segmentName?: string;
 }
 
 interface ExportOptions {
@@ -52,7 +54,8 @@ interface ExportOptions {
 export function CustomerExportDialog({
   open,
   onOpenChange,
-  customers
+  customers,
+  segmentName
 }: CustomerExportDialogProps) {
   const currentStore = useCurrentStore();
   const { from: _from, currentStoreId: _currentStoreId, isPinSession: _isPinSession } = useStoreData();
@@ -65,6 +68,13 @@ export function CustomerExportDialog({
     format: 'pdf'
   });
 
+  const fileName = (extension: string) => {
+    const subject = segmentName
+      ? segmentName.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'segment'
+      : 'customers';
+    return `${currentStore?.name}-${subject}-${new Date().toISOString().split('T')[0]}.${extension}`;
+  };
+
   const handleExport = async () => {
     if (!currentStore || customers.length === 0) {
       toast.error("No customers to export");
@@ -94,7 +104,7 @@ export function CustomerExportDialog({
     
     // Header
     doc.setFontSize(20);
-    doc.text(`${currentStore?.name} - Customer Directory`, 20, 20);
+    doc.text(`${currentStore?.name} - ${segmentName ? `Segment: ${segmentName}` : 'Customer Directory'}`, 20, 20);
     
     doc.setFontSize(12);
     doc.text(`Generated on: ${new Date().toLocaleDateString()}`, 20, 30);
@@ -167,7 +177,7 @@ export function CustomerExportDialog({
     });
 
     // Save the PDF
-    doc.save(`${currentStore.name}-customers-${new Date().toISOString().split('T')[0]}.pdf`);
+    doc.save(fileName('pdf'));
   };
 
   const exportToCSV = async () => {
@@ -222,7 +232,7 @@ export function CustomerExportDialog({
     const link = document.createElement('a');
     const url = URL.createObjectURL(blob);
     link.setAttribute('href', url);
-    link.setAttribute('download', `${currentStore?.name}-customers-${new Date().toISOString().split('T')[0]}.csv`);
+    link.setAttribute('download', fileName('csv'));
     link.style.visibility = 'hidden';
     document.body.appendChild(link);
     link.click();
@@ -238,7 +248,9 @@ export function CustomerExportDialog({
             Export Customer Data
           </DialogTitle>
           <DialogDescription>
-            Choose the format and data to include in your customer export.
+            {segmentName
+              ? `Export the customers in the "${segmentName}" segment.`
+              : 'Choose the format and data to include in your customer export.'}
           </DialogDescription>
         </DialogHeader>
 
@@ -339,6 +351,7 @@ export function CustomerExportDialog({
               <span className="font-medium text-sm">Export Summary</span>
             </div>
             <div className="text-sm text-muted-foreground space-y-1">
+              {segmentName && <div>Segment: {segmentName}</div>}
               <div>Total customers: {customers.length}</div>
               <div>Format: {exportOptions.format.toUpperCase()}</div>
               <div>
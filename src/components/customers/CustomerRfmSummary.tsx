@@ -0,0 +1,90 @@
+import { useMemo } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Loader2, Plus, RefreshCw, Target } from "lucide-react";
+import { useTax } from "@/hooks/useTax";
+import { RFM_SEGMENTS, type RfmSegment } from "@/lib/customerSegments";
+import { useCustomerRfmScores, useCustomerSegmentStore } from "@/stores/customerSegmentStore";
+
+interface CustomerRfmSummaryProps {
+  storeId: string;
+  canManage: boolean;
+  onCreateSegment: (group: RfmSegment) => void;
+}
+
+export function CustomerRfmSummary({ storeId, canManage, onCreateSegment }: CustomerRfmSummaryProps) {
+  const { formatCurrency } = useTax();
+  const scores = useCustomerRfmScores();
+  const loading = useCustomerSegmentStore(state => state.rfmLoading);
+  const refreshing = useCustomerSegmentStore(state => state.refreshingRfm);
+  const refreshRfmScores = useCustomerSegmentStore(state => state.refreshRfmScores);
+
+  const groups = useMemo(() => RFM_SEGMENTS.map(group => {
+    const members = scores.filter(score => score.segment === group.value);
+    const spent = members.reduce((sum, score) => sum + Number(score.monetary), 0);
+    return {
+      ...group,
+      count: members.length,
+      share: scores.length > 0 ? (members.length / scores.length) * 100 : 0,
+      averageSpent: members.length > 0 ? spent / members.length : 0,
+    };
+  }), [scores]);
+
+  const scoredAt = scores.reduce<string | null>(
+    (latest, score) => (!latest || score.scored_at > latest ? score.scored_at : latest),
+    null
+  );
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-row items-start justify-between space-y-0">
+        <div>
+          <CardTitle className="flex items-center gap-2">
+            <Target className="w-5 h-5" />
+            RFM Groups
+          </CardTitle>
+          <p className="text-sm text-muted-foreground mt-1">
+            Buyers scored on how recently, how often and how much they buy, against your other customers.
+            {scoredAt && ` Scored ${new Date(scoredAt).toLocaleString()}.`}
+          </p>
+        </div>
+        <Button variant="outline" size="sm" onClick={() => refreshRfmScores(storeId)} disabled={refreshing}>
+          {refreshing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <RefreshCw className="w-4 h-4 mr-2" />}
+          Rescore
+        </Button>
+      </CardHeader>
+      <CardContent>
+        {loading ? (
+          <div className="flex justify-center py-8">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : scores.length === 0 ? (
+          <div className="text-center py-8 text-muted-foreground">
+            No scores yet. Customers are scored every night once they have bought, or rescore now.
+          </div>
+        ) : (
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-3">
+            {groups.map(group => (
+              <div key={group.value} className="rounded-lg border p-3 space-y-1">
+                <div className="flex items-center justify-between gap-2">
+                  <span className="font-medium text-sm">{group.label}</span>
+                  <span className="text-lg font-bold">{group.count}</span>
+                </div>
+                <p className="text-xs text-muted-foreground">{group.description}</p>
+                <div className="flex items-center justify-between text-xs text-muted-foreground pt-1">
+                  <span>{group.share.toFixed(0)}% of buyers · avg {formatCurrency(group.averageSpent)}</span>
+                  {canManage && group.count > 0 && (
+                    <Button variant="ghost" size="sm" className="h-6 px-2 text-xs" onClick={() => onCreateSegment(group.value)}>
+                      <Plus className="w-3 h-3 mr-1" />
+                      Segment
+                    </Button>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,362 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Eye, ListFilter, Loader2, Plus, Save, X } from "lucide-react";
+import { toast } from "sonner";
+import {
+  RFM_SEGMENTS,
+  SEGMENT_CHOICE_OPERATORS,
+  SEGMENT_LAYBY_STATUSES,
+  SEGMENT_NUMBER_OPERATORS,
+  SEGMENT_RULE_FIELDS,
+  createSegmentCondition,
+  createSegmentRules,
+  isNumberField,
+  type SegmentCondition,
+  type SegmentRuleField,
+  type SegmentRules,
+} from "@/lib/customerSegments";
+import { useCategories, useInventoryStore, useProducts } from "@/stores/inventoryStore";
+import { useCustomerSegmentStore, type CustomerSegment, type SegmentPreview } from "@/stores/customerSegmentStore";
+import type { Customer } from "@/stores/customerStore";
+
+interface CustomerSegmentDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  // The segment being edited; a new segment starts from initialRules
+  segment: CustomerSegment | null;
+  initialName?: string;
+  initialRules?: SegmentRules;
+  customers: Customer[];
+}
+
+export function CustomerSegmentDialog({
+  open,
+  onOpenChange,
+  storeId,
+  segment,
+  initialName,
+  initialRules,
+  customers,
+}: CustomerSegmentDialogProps) {
+  const products = useProducts();
+  const categories = useCategories();
+  const fetchProducts = useInventoryStore(state => state.fetchProducts);
+  const fetchCategories = useInventoryStore(state => state.fetchCategories);
+  const saving = useCustomerSegmentStore(state => state.saving);
+  const previewSegment = useCustomerSegmentStore(state => state.previewSegment);
+  const saveSegment = useCustomerSegmentStore(state => state.saveSegment);
+
+  const [name, setName] = useState('');
+  const [description, setDescription] = useState('');
+  const [rules, setRules] = useState<SegmentRules>(createSegmentRules);
+  const [preview, setPreview] = useState<SegmentPreview | null>(null);
+  const [previewing, setPreviewing] = useState(false);
+
+  useEffect(() => {
+    if (!open) return;
+
+    setName(segment?.name ?? initialName ?? '');
+    setDescription(segment?.description ?? '');
+    setRules(segment?.rules ?? initialRules ?? createSegmentRules());
+    setPreview(null);
+  }, [open, segment, initialName, initialRules]);
+
+  useEffect(() => {
+    if (open && storeId) {
+      if (products.length === 0) fetchProducts(storeId);
+      if (categories.length === 0) fetchCategories(storeId);
+    }
+  }, [open, storeId, products.length, categories.length, fetchProducts, fetchCategories]);
+
+  const knownTags = useMemo(
+    () => [...new Set(customers.flatMap(customer => customer.tags ?? []))].sort(),
+    [customers]
+  );
+
+  const updateRules = (changes: Partial<SegmentRules>) => {
+    setRules(current => ({ ...current, ...changes }));
+    setPreview(null);
+  };
+
+  const updateCondition = (index: number, changes: Partial<SegmentCondition>) => {
+    updateRules({
+      conditions: rules.conditions.map((condition, i) => (i === index ? { ...condition, ...changes } : condition)),
+    });
+  };
+
+  const handlePreview = async () => {
+    setPreviewing(true);
+    try {
+      setPreview(await previewSegment(storeId, rules));
+    } finally {
+      setPreviewing(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!name.trim()) {
+      toast.error('Give the segment a name');
+      return;
+    }
+
+    const saved = await saveSegment(storeId, { name: name.trim(), description: description.trim(), rules }, segment?.id);
+    if (saved) onOpenChange(false);
+  };
+
+  const renderValueInput = (condition: SegmentCondition, index: number) => {
+    switch (condition.field) {
+      case 'purchased_product':
+        return (
+          <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Choose a product" />
+            </SelectTrigger>
+            <SelectContent>
+              {products.map(product => (
+                <SelectItem key={product.id} value={product.id}>{product.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'purchased_category':
+        return (
+          <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Choose a category" />
+            </SelectTrigger>
+            <SelectContent>
+              {categories.map(category => (
+                <SelectItem key={category.id} value={category.id}>{category.name}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'layby_status':
+        return (
+          <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Choose a status" />
+            </SelectTrigger>
+            <SelectContent>
+              {SEGMENT_LAYBY_STATUSES.map(status => (
+                <SelectItem key={status.value} value={status.value}>{status.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'rfm_segment':
+        return (
+          <Select value={condition.value} onValueChange={(value) => updateCondition(index, { value })}>
+            <SelectTrigger className="h-9">
+              <SelectValue placeholder="Choose a group" />
+            </SelectTrigger>
+            <SelectContent>
+              {RFM_SEGMENTS.map(group => (
+                <SelectItem key={group.value} value={group.value}>{group.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        );
+      case 'tag':
+        return (
+          <Input
+            className="h-9"
+            list="customer-segment-tags"
+            placeholder="Tag"
+            value={condition.value}
+            onChange={(e) => updateCondition(index, { value: e.target.value })}
+          />
+        );
+      default:
+        return (
+          <div className="flex items-center gap-2">
+            <Input
+              type="number"
+              min="0"
+              step={condition.field === 'monetary' ? '0.01' : '1'}
+              className="h-9"
+              placeholder="0"
+              value={condition.value}
+              onChange={(e) => updateCondition(index, { value: e.target.value })}
+            />
+            {condition.operator === 'between' && (
+              <>
+                <span className="text-sm text-muted-foreground">and</span>
+                <Input
+                  type="number"
+                  min="0"
+                  step={condition.field === 'monetary' ? '0.01' : '1'}
+                  className="h-9"
+                  placeholder="0"
+                  value={condition.value2 ?? ''}
+                  onChange={(e) => updateCondition(index, { value2: e.target.value })}
+                />
+              </>
+            )}
+          </div>
+        );
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="sm:max-w-[760px] max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ListFilter className="w-5 h-5 text-primary" />
+            {segment ? 'Edit Segment' : 'New Segment'}
+          </DialogTitle>
+          <DialogDescription>
+            Pick out customers by what and when they bought, their tags or laybys. The segment updates as customers change.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="segment-name">Name</Label>
+              <Input
+                id="segment-name"
+                placeholder="e.g. Lapsed since last month"
+                value={name}
+                onChange={(e) => setName(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label>Customers must match</Label>
+              <Select value={rules.match} onValueChange={(match) => updateRules({ match: match as SegmentRules['match'] })}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="all">All of the rules</SelectItem>
+                  <SelectItem value="any">Any of the rules</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="segment-description">Description</Label>
+            <Textarea
+              id="segment-description"
+              rows={2}
+              className="resize-none"
+              placeholder="What this segment is for (optional)"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+
+          <div className="space-y-3">
+            <Label>Rules</Label>
+            {rules.conditions.map((condition, index) => {
+              const field = SEGMENT_RULE_FIELDS[condition.field];
+              const operators = isNumberField(condition.field) ? SEGMENT_NUMBER_OPERATORS : SEGMENT_CHOICE_OPERATORS;
+
+              return (
+                <div key={index} className="rounded-lg border p-3 space-y-2">
+                  <div className="grid grid-cols-1 sm:grid-cols-[180px_110px_1fr_auto] gap-2 items-center">
+                    <Select
+                      value={condition.field}
+                      onValueChange={(value) => updateCondition(index, createSegmentCondition(value as SegmentRuleField))}
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {(Object.keys(SEGMENT_RULE_FIELDS) as SegmentRuleField[]).map(value => (
+                          <SelectItem key={value} value={value}>{SEGMENT_RULE_FIELDS[value].label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={condition.operator}
+                      onValueChange={(operator) => updateCondition(index, { operator: operator as SegmentCondition['operator'] })}
+                    >
+                      <SelectTrigger className="h-9">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {operators.map(operator => (
+                          <SelectItem key={operator.value} value={operator.value}>{operator.label}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {renderValueInput(condition, index)}
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => updateRules({ conditions: rules.conditions.filter((_, i) => i !== index) })}
+                      disabled={rules.conditions.length === 1}
+                      className="h-9 w-9 p-0 text-muted-foreground hover:text-destructive"
+                    >
+                      <X className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {field.windowed && (
+                    <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                      <span>Only orders from the last</span>
+                      <Input
+                        type="number"
+                        min="1"
+                        step="1"
+                        placeholder="any"
+                        className="h-8 w-20"
+                        value={condition.within_days ?? ''}
+                        onChange={(e) => updateCondition(index, { within_days: e.target.value ? parseInt(e.target.value, 10) : null })}
+                      />
+                      <span>days</span>
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+            <datalist id="customer-segment-tags">
+              {knownTags.map(tag => <option key={tag} value={tag} />)}
+            </datalist>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => updateRules({ conditions: [...rules.conditions, createSegmentCondition()] })}
+              disabled={rules.conditions.length >= 20}
+            >
+              <Plus className="w-4 h-4 mr-2" />
+              Add rule
+            </Button>
+          </div>
+
+          {preview && (
+            <div className="bg-muted/50 p-3 rounded-lg text-sm">
+              <span className="font-medium">{preview.customer_count}</span> customer{preview.customer_count === 1 ? '' : 's'} match these rules today
+            </div>
+          )}
+        </div>
+
+        <DialogFooter className="gap-2">
+          <Button variant="outline" onClick={handlePreview} disabled={previewing || saving}>
+            {previewing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Eye className="w-4 h-4 mr-2" />}
+            Preview
+          </Button>
+          <Button onClick={handleSave} disabled={saving}>
+            {saving ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Save className="w-4 h-4 mr-2" />}
+            {segment ? 'Update Segment' : 'Save Segment'}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
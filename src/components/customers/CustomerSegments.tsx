@@ -0,0 +1,287 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Download, Edit, ListFilter, Loader2, Megaphone, Plus, Trash2, TrendingDown, TrendingUp } from "lucide-react";
+import { Line, LineChart, ResponsiveContainer, Tooltip } from "recharts";
+import { useTax } from "@/hooks/useTax";
+import { useManagerOverride } from "@/hooks/useManagerOverride";
+import {
+  SEGMENT_LAYBY_STATUSES,
+  describeSegmentCondition,
+  rfmSegmentLabels,
+  type RfmSegment,
+  type SegmentCondition,
+  type SegmentRules,
+} from "@/lib/customerSegments";
+import { useCategories, useInventoryStore, useProducts } from "@/stores/inventoryStore";
+import {
+  useCustomerCampaigns,
+  useCustomerSegments,
+  useCustomerSegmentStore,
+  type CustomerCampaign,
+  type CustomerSegment,
+} from "@/stores/customerSegmentStore";
+import type { Customer } from "@/stores/customerStore";
+import { CustomerSegmentDialog } from "./CustomerSegmentDialog";
+import { CustomerCampaignDialog } from "./CustomerCampaignDialog";
+import { CustomerExportDialog } from "./CustomerExportDialog";
+import { CustomerRfmSummary } from "./CustomerRfmSummary";
+
+interface CustomerSegmentsProps {
+  storeId: string;
+  storeName: string;
+  customers: Customer[];
+}
+
+export function CustomerSegments({ storeId, storeName, customers }: CustomerSegmentsProps) {
+  const { formatCurrency } = useTax();
+  const { isManager } = useManagerOverride();
+  const products = useProducts();
+  const categories = useCategories();
+  const fetchProducts = useInventoryStore(state => state.fetchProducts);
+  const fetchCategories = useInventoryStore(state => state.fetchCategories);
+  const segments = useCustomerSegments();
+  const campaigns = useCustomerCampaigns();
+  const loading = useCustomerSegmentStore(state => state.loading);
+  const fetchSegments = useCustomerSegmentStore(state => state.fetchSegments);
+  const fetchRfmScores = useCustomerSegmentStore(state => state.fetchRfmScores);
+  const fetchCampaigns = useCustomerSegmentStore(state => state.fetchCampaigns);
+  const deleteSegment = useCustomerSegmentStore(state => state.deleteSegment);
+
+  const [editorOpen, setEditorOpen] = useState(false);
+  const [editingSegment, setEditingSegment] = useState<CustomerSegment | null>(null);
+  const [draft, setDraft] = useState<{ name: string; rules: SegmentRules } | null>(null);
+  const [exportSegment, setExportSegment] = useState<CustomerSegment | null>(null);
+  const [campaignSegment, setCampaignSegment] = useState<CustomerSegment | null>(null);
+  const [openCampaign, setOpenCampaign] = useState<CustomerCampaign | null>(null);
+
+  useEffect(() => {
+    if (storeId) {
+      fetchSegments(storeId);
+      fetchRfmScores(storeId);
+      fetchCampaigns(storeId);
+    }
+  }, [storeId, fetchSegments, fetchRfmScores, fetchCampaigns]);
+
+  // Product and category rules are described by name
+  useEffect(() => {
+    if (storeId) {
+      if (products.length === 0) fetchProducts(storeId);
+      if (categories.length === 0) fetchCategories(storeId);
+    }
+  }, [storeId, products.length, categories.length, fetchProducts, fetchCategories]);
+
+  const exportCustomers = useMemo(() => {
+    if (!exportSegment) return [];
+    const members = new Set(exportSegment.customer_ids);
+    return customers.filter(customer => members.has(customer.id));
+  }, [exportSegment, customers]);
+
+  const valueLabel = (condition: SegmentCondition) => {
+    switch (condition.field) {
+      case 'purchased_product':
+        return products.find(product => product.id === condition.value)?.name ?? 'a product';
+      case 'purchased_category':
+        return categories.find(category => category.id === condition.value)?.name ?? 'a category';
+      case 'layby_status':
+        return (SEGMENT_LAYBY_STATUSES.find(status => status.value === condition.value)?.label ?? condition.value).toLowerCase();
+      case 'rfm_segment':
+        return rfmSegmentLabels[condition.value as RfmSegment] ?? condition.value;
+      default:
+        return `"${condition.value}"`;
+    }
+  };
+
+  const describeRules = (rules: SegmentRules) =>
+    rules.conditions
+      .map(condition => describeSegmentCondition(condition, valueLabel, formatCurrency))
+      .join(rules.match === 'any' ? ' or ' : ' and ');
+
+  const openEditor = (segment: CustomerSegment | null, initial: { name: string; rules: SegmentRules } | null = null) => {
+    setEditingSegment(segment);
+    setDraft(initial);
+    setEditorOpen(true);
+  };
+
+  const handleCreateFromRfm = (group: RfmSegment) => {
+    openEditor(null, {
+      name: rfmSegmentLabels[group],
+      rules: { match: 'all', conditions: [{ field: 'rfm_segment', operator: 'includes', value: group }] },
+    });
+  };
+
+  const handleDelete = async (segment: CustomerSegment) => {
+    if (!confirm(`Delete the "${segment.name}" segment? Its history goes with it; campaigns already sent are kept.`)) return;
+    await deleteSegment(storeId, segment.id);
+  };
+
+  const openCampaignFor = (segment: CustomerSegment | null, campaign: CustomerCampaign | null) => {
+    setCampaignSegment(segment);
+    setOpenCampaign(campaign);
+  };
+
+  return (
+    <>
+      <Card>
+        <CardHeader className="flex flex-row items-start justify-between space-y-0">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <ListFilter className="w-5 h-5" />
+              Segments
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Saved groups of customers, counted every day so you can see them grow or shrink.
+            </p>
+          </div>
+          {isManager && (
+            <Button size="sm" onClick={() => openEditor(null)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Segment
+            </Button>
+          )}
+        </CardHeader>
+        <CardContent>
+          {loading && segments.length === 0 ? (
+            <div className="flex justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : segments.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No segments yet. Create one to find customers like "bought last month and hasn't been back".
+            </div>
+          ) : (
+            <div className="divide-y">
+              {segments.map(segment => {
+                const history = segment.history;
+                const change = history.length > 1 ? segment.customer_count - history[0].customer_count : 0;
+
+                return (
+                  <div key={segment.id} className="py-4 first:pt-0 last:pb-0 grid grid-cols-1 lg:grid-cols-[1fr_160px_auto] gap-3 items-center">
+                    <div className="min-w-0 space-y-1">
+                      <div className="flex items-center gap-2 flex-wrap">
+                        <span className="font-medium">{segment.name}</span>
+                        <Badge variant="secondary">{segment.customer_count} customers</Badge>
+                        {change !== 0 && (
+                          <span className={`flex items-center gap-1 text-xs ${change > 0 ? 'text-success' : 'text-destructive'}`}>
+                            {change > 0 ? <TrendingUp className="w-3 h-3" /> : <TrendingDown className="w-3 h-3" />}
+                            {change > 0 ? '+' : ''}{change} since {new Date(history[0].snapshot_date).toLocaleDateString()}
+                          </span>
+                        )}
+                      </div>
+                      {segment.description && (
+                        <p className="text-sm text-muted-foreground">{segment.description}</p>
+                      )}
+                      <p className="text-xs text-muted-foreground">{describeRules(segment.rules)}</p>
+                      <p className="text-xs text-muted-foreground">Lifetime spend {formatCurrency(segment.total_spent)}</p>
+                    </div>
+
+                    <div className="h-12">
+                      {history.length > 1 && (
+                        <ResponsiveContainer width="100%" height="100%">
+                          <LineChart data={history}>
+                            <Tooltip
+                              formatter={(value: number) => [value, 'Customers']}
+                              labelFormatter={(_, payload) =>
+                                payload?.[0] ? new Date(payload[0].payload.snapshot_date).toLocaleDateString() : ''
+                              }
+                            />
+                            <Line type="monotone" dataKey="customer_count" stroke="hsl(var(--primary))" strokeWidth={2} dot={false} />
+                          </LineChart>
+                        </ResponsiveContainer>
+                      )}
+                    </div>
+
+                    <div className="flex flex-wrap gap-2">
+                      <Button size="sm" variant="outline" onClick={() => setExportSegment(segment)} disabled={segment.customer_count === 0}>
+                        <Download className="w-3 h-3 mr-1" />
+                        Export
+                      </Button>
+                      {isManager && (
+                        <>
+                          <Button size="sm" variant="outline" onClick={() => openCampaignFor(segment, null)} disabled={segment.customer_count === 0}>
+                            <Megaphone className="w-3 h-3 mr-1" />
+                            Campaign
+                          </Button>
+                          <Button size="sm" variant="outline" onClick={() => openEditor(segment)} title="Edit segment">
+                            <Edit className="w-3 h-3" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            variant="outline"
+                            onClick={() => handleDelete(segment)}
+                            className="text-destructive hover:text-destructive"
+                            title="Delete segment"
+                          >
+                            <Trash2 className="w-3 h-3" />
+                          </Button>
+                        </>
+                      )}
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      {campaigns.length > 0 && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Megaphone className="w-5 h-5" />
+              Recent Campaigns
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="divide-y">
+              {campaigns.map(campaign => (
+                <div key={campaign.id} className="flex items-center justify-between gap-3 py-3 first:pt-0 last:pb-0">
+                  <div className="min-w-0">
+                    <div className="font-medium text-sm truncate">{campaign.name}</div>
+                    <div className="text-xs text-muted-foreground">
+                      {campaign.channel === 'whatsapp' ? 'WhatsApp' : 'SMS'} to {campaign.segment_name} · {campaign.recipient_count} recipient(s) · {new Date(campaign.created_at).toLocaleDateString()}
+                    </div>
+                  </div>
+                  <Button size="sm" variant="outline" onClick={() => openCampaignFor(null, campaign)}>
+                    Open
+                  </Button>
+                </div>
+              ))}
+            </div>
+          </CardContent>
+        </Card>
+      )}
+
+      <CustomerRfmSummary storeId={storeId} canManage={isManager} onCreateSegment={handleCreateFromRfm} />
+
+      <CustomerSegmentDialog
+        open={editorOpen}
+        onOpenChange={setEditorOpen}
+        storeId={storeId}
+        segment={editingSegment}
+        initialName={draft?.name}
+        initialRules={draft?.rules}
+        customers={customers}
+      />
+
+      <CustomerExportDialog
+        open={!!exportSegment}
+        onOpenChange={(open) => !open && setExportSegment(null)}
+        customers={exportCustomers}
+        segmentName={exportSegment?.name}
+      />
+
+      <CustomerCampaignDialog
+        open={!!campaignSegment || !!openCampaign}
+        onOpenChange={(open) => !open && openCampaignFor(null, null)}
+        storeId={storeId}
+        storeName={storeName}
+        segment={campaignSegment}
+        campaign={openCampaign}
+        customers={customers}
+      />
+    </>
+  );
+}
@@ -0,0 +1,159 @@
+import { useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus, Wallet } from "lucide-react";
+import { toast } from "sonner";
+import { useTax } from "@/hooks/useTax";
+import { useManagerOverride } from "@/hooks/useManagerOverride";
+import { formatGiftCardCode, isGiftCardExpired } from "@/lib/giftCards";
+import { useGiftCardStore, useCustomerCredit, useGiftCardLedger } from "@/stores/giftCardStore";
+import { GiftCardLedgerTable } from "@/components/gift-cards/GiftCardLedgerTable";
+
+interface CustomerStoreCreditProps {
+  storeId: string;
+  customerId: string;
+}
+
+export function CustomerStoreCredit({ storeId, customerId }: CustomerStoreCreditProps) {
+  const { formatCurrency } = useTax();
+  const { isManager } = useManagerOverride();
+  const credit = useCustomerCredit();
+  const ledger = useGiftCardLedger();
+  const ledgerLoading = useGiftCardStore(state => state.ledgerLoading);
+  const issuing = useGiftCardStore(state => state.issuing);
+  const issueStoreCredit = useGiftCardStore(state => state.issueStoreCredit);
+  const fetchLedger = useGiftCardStore(state => state.fetchLedger);
+
+  const [amount, setAmount] = useState('');
+  const [reason, setReason] = useState('');
+
+  const expired = credit ? isGiftCardExpired(credit) : false;
+
+  const handleAddCredit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (!value || value <= 0) {
+      toast.error('Enter the amount of credit to add');
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('Add a reason for the credit');
+      return;
+    }
+
+    const updated = await issueStoreCredit(storeId, customerId, value, reason.trim());
+    if (updated) {
+      setAmount('');
+      setReason('');
+      fetchLedger(updated.id);
+    }
+  };
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Credit Balance
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${expired ? 'text-muted-foreground line-through' : ''}`}>
+              {formatCurrency(credit?.balance ?? 0)}
+            </div>
+            {expired && <p className="text-xs text-destructive mt-1">Expired</p>}
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Expires
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold">
+              {credit?.expires_at ? new Date(credit.expires_at).toLocaleDateString() : 'Never'}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader className="pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">
+              Account
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="text-lg font-mono font-bold tracking-wider">
+              {credit ? formatGiftCardCode(credit.code) : '-'}
+            </div>
+            <p className="text-xs text-muted-foreground mt-1">Spent at the till with this customer selected</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      {isManager && (
+        <Card>
+          <CardHeader>
+            <CardTitle className="flex items-center gap-2">
+              <Plus className="w-5 h-5" />
+              Add Store Credit
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <form onSubmit={handleAddCredit} className="grid grid-cols-1 md:grid-cols-[160px_1fr_auto] gap-3 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="store-credit-amount">Amount</Label>
+                <Input
+                  id="store-credit-amount"
+                  type="number"
+                  step="0.01"
+                  min="0.01"
+                  placeholder="0.00"
+                  value={amount}
+                  onChange={(e) => setAmount(e.target.value)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="store-credit-reason">Reason</Label>
+                <Input
+                  id="store-credit-reason"
+                  placeholder="e.g. Goodwill for a late order"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                />
+              </div>
+              <Button type="submit" disabled={issuing}>
+                {issuing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Add Credit
+              </Button>
+            </form>
+          </CardContent>
+        </Card>
+      )}
+
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Wallet className="w-5 h-5" />
+            Credit History
+          </CardTitle>
+        </CardHeader>
+        <CardContent>
+          {credit ? (
+            <GiftCardLedgerTable entries={ledger} loading={ledgerLoading} />
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              No store credit yet. Refunds to store credit and credit added here show up in this account.
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </>
+  );
+}
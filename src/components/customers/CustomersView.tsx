@@ -5,7 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Plus, Users, Phone, Mail, Edit, Eye, Loader2, Download, BarChart3, MoreVertical, Filter, Grid3X3, List, Search } from "lucide-react";
+import { Plus, Users, Phone, Mail, Edit, Eye, Loader2, Download, BarChart3, MoreVertical, Filter, Grid3X3, List, Search, ListFilter } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { useTax } from "@/hooks/useTax";
@@ -22,6 +22,7 @@ import { CustomerExportDialog } from "./CustomerExportDialog";
 import { CustomerStatusDialog } from "./CustomerStatusDialog";
 import { CustomerAnalytics } from "./CustomerAnalytics";
 import { CustomerFilters } from "./CustomerFilters";
+import { CustomerSegments } from "./CustomerSegments";
 import { PageHeader, PageLayout } from "@/components/common/PageHeader";
 
 
@@ -46,6 +47,7 @@ export function CustomersView() {
   const showExportDialog = useCustomerStore(state => state.showExportDialog);
   const showStatusDialog = useCustomerStore(state => state.showStatusDialog);
   const showAnalytics = useCustomerStore(state => state.showAnalytics);
+  const showSegments = useCustomerStore(state => state.showSegments);
 
   // Actions from Zustand
   const setSelectedCustomer = useCustomerStore(state => state.setSelectedCustomer);
@@ -56,6 +58,7 @@ export function CustomersView() {
   const setShowExportDialog = useCustomerStore(state => state.setShowExportDialog);
   const setShowStatusDialog = useCustomerStore(state => state.setShowStatusDialog);
   const setShowAnalytics = useCustomerStore(state => state.setShowAnalytics);
+  const setShowSegments = useCustomerStore(state => state.setShowSegments);
   const fetchCustomers = useCustomerStore(state => state.fetchCustomers);
 
   // Mobile-specific states (keep local as they're UI-specific)
@@ -100,6 +103,7 @@ export function CustomersView() {
   const totalCustomers = filteredCustomers.length;
   const activeCustomers = filteredCustomers.filter(c => c.status === 'active').length;
   const vipCustomers = filteredCustomers.filter(c => c.status === 'vip').length;
+  const storeId = currentStoreId || currentStore?.id;
 
   if (loading) {
     return (
@@ -167,6 +171,15 @@ export function CustomersView() {
               <BarChart3 className="w-4 h-4 mr-2" />
               <span className="hidden md:inline">{showAnalytics ? 'Hide' : 'Show'} Analytics</span>
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowSegments(!showSegments)}
+              className="hidden sm:flex"
+            >
+              <ListFilter className="w-4 h-4 mr-2" />
+              <span className="hidden md:inline">Segments</span>
+            </Button>
             <Button
               variant="outline"
               size="sm"
@@ -445,6 +458,11 @@ export function CustomersView() {
         <CustomerAnalytics customers={customers} />
       )}
 
+      {/* Segments Section */}
+      {showSegments && storeId && (
+        <CustomerSegments storeId={storeId} storeName={currentStore?.name || ''} customers={customers} />
+      )}
+
       {/* Dialogs and Modals */}
       <AddCustomerDialog
         open={showAddDialog}
@@ -563,6 +581,18 @@ export function CustomersView() {
               {showAnalytics ? 'Hide Analytics' : 'Show Analytics'}
             </Button>
 
+            <Button
+              variant="outline"
+              onClick={() => {
+                setShowSegments(!showSegments);
+                setShowMobileActions(false);
+              }}
+              className="w-full justify-start"
+            >
+              <ListFilter className="w-4 h-4 mr-2" />
+              {showSegments ? 'Hide Segments' : 'Show Segments'}
+            </Button>
+
             <Button
               variant="outline"
               onClick={() => {
@@ -12,6 +12,7 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
@@ -27,11 +28,12 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, User, Mail, Phone, MapPin, Save, Trash2 } from "lucide-react";
+import { Loader2, User, Mail, Phone, MapPin, Save, Tags, Trash2 } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { SecureAction } from "@/components/auth/SecureAction";
 import { supabase } from '@/integrations/supabase/client';
+import { parseCustomerTags } from "@/lib/customerSegments";
 import { toast } from "sonner";
 
 const customerSchema = z.object({
@@ -40,6 +42,7 @@ const customerSchema = z.object({
   phone: z.string().optional(),
   address: z.string().optional(),
   status: z.enum(["active", "inactive", "vip"]).default("active"),
+  tags: z.string().optional(),
 });
 
 type CustomerFormData = z.infer<typeof customerSchema>;
@@ -51,6 +54,7 @@ interface Customer {
   phone: string | null;
   address: string | null;
   status: string | null;
+  tags?: string[];
   total_orders: number | null;
   total_spent: number | null;
   created_at: string;
@@ -85,6 +89,7 @@ export function EditCustomerDialog({
       phone: "",
       address: "",
       status: "active",
+      tags: "",
     },
   });
 
@@ -97,6 +102,7 @@ export function EditCustomerDialog({
         phone: customer.phone || "",
         address: customer.address || "",
         status: (customer.status as "active" | "inactive" | "vip") || "active",
+        tags: (customer.tags || []).join(", "),
       });
     }
     // Reset delete confirmation state when customer changes
@@ -126,6 +132,7 @@ export function EditCustomerDialog({
           phone: data.phone || null,
           address: data.address || null,
           status: data.status,
+          tags: parseCustomerTags(data.tags || ''),
           updated_at: new Date().toISOString(),
         })
         .eq('id', customer.id)
@@ -317,6 +324,24 @@ export function EditCustomerDialog({
               )}
             />
 
+            <FormField
+              control={form.control}
+              name="tags"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel className="flex items-center gap-2">
+                    <Tags className="w-4 h-4" />
+                    Tags
+                  </FormLabel>
+                  <FormControl>
+                    <Input placeholder="e.g. wholesale, newsletter" {...field} />
+                  </FormControl>
+                  <FormDescription>Separate tags with commas. Segments can pick customers by tag.</FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             {customer && (
               <div className="bg-muted/50 p-4 rounded-lg">
                 <h4 className="font-medium text-sm text-muted-foreground mb-2">Customer Statistics</h4>
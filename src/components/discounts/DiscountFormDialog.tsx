@@ -0,0 +1,511 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
+import { ScrollArea } from "@/components/ui/scroll-area";
+import { Loader2 } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useInventoryStore, useProducts, useCategories } from "@/stores/inventoryStore";
+import { useDiscountStore, type Discount, type DiscountFormData } from "@/stores/discountStore";
+import { useLoyaltyStore } from "@/stores/loyaltyStore";
+
+const optionalNumber = z.number().min(0, "Must be 0 or more").nullable();
+
+// Empty number inputs mean "no limit"
+const toOptionalNumber = (value: string) => (value === "" ? null : parseFloat(value));
+
+const discountSchema = z.object({
+  name: z.string().min(1, "Discount name is required"),
+  description: z.string().optional(),
+  code: z.string()
+    .regex(/^[A-Za-z0-9_-]*$/, "Use letters, numbers, dashes or underscores")
+    .optional(),
+  type: z.enum(["percentage", "fixed_amount"]),
+  value: z.number().positive("Value must be greater than 0"),
+  applies_to: z.enum(["all", "products", "categories"]),
+  product_ids: z.array(z.string()),
+  category_ids: z.array(z.string()),
+  customer_eligibility: z.enum(["all", "new_customers", "returning_customers", "vip"]),
+  loyalty_tier_required: z.string(),
+  min_purchase_amount: optionalNumber,
+  max_discount_amount: optionalNumber,
+  usage_limit: optionalNumber,
+  start_date: z.string().optional(),
+  end_date: z.string().optional(),
+  is_active: z.boolean(),
+}).refine(data => data.type !== "percentage" || data.value <= 100, {
+  message: "A percentage discount cannot exceed 100%",
+  path: ["value"],
+}).refine(data => data.applies_to !== "products" || data.product_ids.length > 0, {
+  message: "Select at least one product",
+  path: ["product_ids"],
+}).refine(data => data.applies_to !== "categories" || data.category_ids.length > 0, {
+  message: "Select at least one category",
+  path: ["category_ids"],
+}).refine(data => !data.start_date || !data.end_date || data.start_date <= data.end_date, {
+  message: "End date must be after the start date",
+  path: ["end_date"],
+});
+
+type DiscountFormValues = z.infer<typeof discountSchema>;
+
+interface DiscountFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  discount: Discount | null;
+}
+
+const toDateInput = (value: string | null) => (value ? value.slice(0, 10) : "");
+
+// Select items can't have an empty value
+const NO_TIER = "none";
+
+const emptyValues: DiscountFormValues = {
+  name: "",
+  description: "",
+  code: "",
+  type: "percentage",
+  value: 0,
+  applies_to: "all",
+  product_ids: [],
+  category_ids: [],
+  customer_eligibility: "all",
+  loyalty_tier_required: NO_TIER,
+  min_purchase_amount: null,
+  max_discount_amount: null,
+  usage_limit: null,
+  start_date: "",
+  end_date: "",
+  is_active: true,
+};
+
+export function DiscountFormDialog({ open, onOpenChange, discount }: DiscountFormDialogProps) {
+  const currentStore = useCurrentStore();
+  const products = useProducts();
+  const categories = useCategories();
+  const fetchProducts = useInventoryStore(state => state.fetchProducts);
+  const fetchCategories = useInventoryStore(state => state.fetchCategories);
+  const saveDiscount = useDiscountStore(state => state.saveDiscount);
+  const loyaltyTiers = useLoyaltyStore(state => state.tiers);
+  const fetchLoyaltyProgram = useLoyaltyStore(state => state.fetchProgram);
+  const [saving, setSaving] = useState(false);
+
+  const form = useForm<DiscountFormValues>({
+    resolver: zodResolver(discountSchema),
+    defaultValues: emptyValues,
+  });
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset(discount ? {
+      name: discount.name,
+      description: discount.description || "",
+      code: discount.code || "",
+      type: discount.type === "fixed_amount" ? "fixed_amount" : "percentage",
+      value: discount.value,
+      applies_to: (discount.applies_to as DiscountFormValues["applies_to"]) || "all",
+      product_ids: discount.product_ids || [],
+      category_ids: discount.category_ids || [],
+      customer_eligibility: (discount.customer_eligibility as DiscountFormValues["customer_eligibility"]) || "all",
+      loyalty_tier_required: discount.loyalty_tier_required || NO_TIER,
+      min_purchase_amount: discount.min_purchase_amount,
+      max_discount_amount: discount.max_discount_amount,
+      usage_limit: discount.usage_limit,
+      start_date: toDateInput(discount.start_date),
+      end_date: toDateInput(discount.end_date),
+      is_active: discount.is_active,
+    } : emptyValues);
+  }, [open, discount, form]);
+
+  useEffect(() => {
+    if (open && currentStore?.id) {
+      if (products.length === 0) fetchProducts(currentStore.id);
+      if (categories.length === 0) fetchCategories(currentStore.id);
+    }
+  }, [open, currentStore?.id, products.length, categories.length, fetchProducts, fetchCategories]);
+
+  useEffect(() => {
+    if (open && currentStore?.id) {
+      fetchLoyaltyProgram(currentStore.id);
+    }
+  }, [open, currentStore?.id, fetchLoyaltyProgram]);
+
+  const appliesTo = form.watch("applies_to");
+  const type = form.watch("type");
+
+  const onSubmit = async (data: DiscountFormValues) => {
+    if (!currentStore?.id) return;
+
+    setSaving(true);
+    const payload: DiscountFormData = {
+      ...data,
+      loyalty_tier_required: data.loyalty_tier_required === NO_TIER ? null : data.loyalty_tier_required,
+      // Whole days: the discount runs from the start of the start date to the end of the end date
+      start_date: data.start_date ? new Date(`${data.start_date}T00:00:00`).toISOString() : null,
+      end_date: data.end_date ? new Date(`${data.end_date}T23:59:59`).toISOString() : null,
+    };
+    const saved = await saveDiscount(currentStore.id, payload, discount?.id);
+    setSaving(false);
+
+    if (saved) {
+      onOpenChange(false);
+    }
+  };
+
+  const renderChecklist = (
+    name: "product_ids" | "category_ids",
+    options: { id: string; name: string }[],
+    emptyLabel: string
+  ) => (
+    <FormField
+      control={form.control}
+      name={name}
+      render={({ field }) => (
+        <FormItem>
+          <FormLabel>{name === "product_ids" ? "Products" : "Categories"}</FormLabel>
+          <ScrollArea className="h-40 rounded-md border p-3">
+            {options.length === 0 ? (
+              <p className="text-sm text-muted-foreground">{emptyLabel}</p>
+            ) : (
+              <div className="space-y-2">
+                {options.map(option => (
+                  <label key={option.id} className="flex items-center gap-2 text-sm">
+                    <Checkbox
+                      checked={field.value.includes(option.id)}
+                      onCheckedChange={(checked) => {
+                        field.onChange(checked
+                          ? [...field.value, option.id]
+                          : field.value.filter(id => id !== option.id));
+                      }}
+                    />
+                    {option.name}
+                  </label>
+                ))}
+              </div>
+            )}
+          </ScrollArea>
+          <FormMessage />
+        </FormItem>
+      )}
+    />
+  );
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{discount ? "Edit Discount" : "New Discount"}</DialogTitle>
+          <DialogDescription>
+            Leave the code empty to run this as an automatic promotion that applies to qualifying carts.
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-6">
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <FormField
+                control={form.control}
+                name="name"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Name *</FormLabel>
+                    <FormControl>
+                      <Input placeholder="e.g. Weekend Sale" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="code"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Code</FormLabel>
+                    <FormControl>
+                      <Input
+                        placeholder="e.g. SAVE10"
+                        {...field}
+                        onChange={(e) => field.onChange(e.target.value.toUpperCase())}
+                      />
+                    </FormControl>
+                    <FormDescription>Customers enter this at the till or online</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Type *</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="percentage">Percentage off</SelectItem>
+                        <SelectItem value="fixed_amount">Fixed amount off</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="value"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>{type === "percentage" ? "Percentage *" : "Amount *"}</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="applies_to"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Applies To</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="all">Whole order</SelectItem>
+                        <SelectItem value="products">Specific products</SelectItem>
+                        <SelectItem value="categories">Specific categories</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      {appliesTo === "all"
+                        ? "Order-level: a fixed amount comes off the order once"
+                        : "Per-line: a fixed amount comes off each matching item"}
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="customer_eligibility"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Customers</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="all">Everyone</SelectItem>
+                        <SelectItem value="new_customers">New customers</SelectItem>
+                        <SelectItem value="returning_customers">Returning customers</SelectItem>
+                        <SelectItem value="vip">VIP customers</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Anything other than everyone is POS-only</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            {loyaltyTiers.length > 0 && (
+              <FormField
+                control={form.control}
+                name="loyalty_tier_required"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Loyalty tier</FormLabel>
+                    <Select value={field.value} onValueChange={field.onChange}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value={NO_TIER}>Any tier</SelectItem>
+                        {loyaltyTiers.map(tier => (
+                          <SelectItem key={tier.id} value={tier.name}>{tier.name} and above</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>Tier-only discounts are POS-only and need a customer on the sale</FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
+            {appliesTo === "products" && renderChecklist("product_ids", products, "No products found")}
+            {appliesTo === "categories" && renderChecklist("category_ids", categories, "No categories found")}
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <FormField
+                control={form.control}
+                name="min_purchase_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Minimum Purchase</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="max_discount_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Maximum Discount</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="0.01" min="0" {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="usage_limit"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Usage Limit</FormLabel>
+                    <FormControl>
+                      <Input type="number" step="1" min="0" placeholder="Unlimited" {...field}
+                        value={field.value ?? ""}
+                        onChange={(e) => field.onChange(toOptionalNumber(e.target.value))}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="start_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Starts</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="end_date"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Ends</FormLabel>
+                    <FormControl>
+                      <Input type="date" {...field} />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="is_active"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <FormLabel>Active</FormLabel>
+                    <FormControl>
+                      <Switch checked={field.value} onCheckedChange={field.onChange} />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+            </div>
+
+            <FormField
+              control={form.control}
+              name="description"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Description</FormLabel>
+                  <FormControl>
+                    <Textarea placeholder="Internal notes about this discount" rows={2} {...field} />
+                  </FormControl>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+                Cancel
+              </Button>
+              <Button type="submit" disabled={saving}>
+                {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                {discount ? "Save Changes" : "Create Discount"}
+              </Button>
+            </DialogFooter>
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,357 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Search, Plus, Tag, Edit, Trash2, Loader2, Sparkles, Ticket } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { usePermissions } from "@/stores/permissionStore";
+import { useDiscountStore, useDiscounts, useDiscountRedemptions, type Discount } from "@/stores/discountStore";
+import { formatDiscountValue } from "@/lib/discountEngine";
+import { useTax } from "@/hooks/useTax";
+import { DiscountFormDialog } from "./DiscountFormDialog";
+
+const appliesToLabels: Record<string, string> = {
+  all: "Whole order",
+  products: "Products",
+  categories: "Categories",
+};
+
+const eligibilityLabels: Record<string, string> = {
+  all: "Everyone",
+  new_customers: "New customers",
+  returning_customers: "Returning customers",
+  vip: "VIP",
+};
+
+const getDiscountStatus = (discount: Discount): { label: string; variant: "default" | "secondary" | "outline" | "destructive" } => {
+  const now = new Date();
+  if (!discount.is_active) return { label: "Inactive", variant: "secondary" };
+  if (discount.start_date && new Date(discount.start_date) > now) return { label: "Scheduled", variant: "outline" };
+  if (discount.end_date && new Date(discount.end_date) < now) return { label: "Expired", variant: "destructive" };
+  if (discount.usage_limit !== null && discount.usage_count >= discount.usage_limit) {
+    return { label: "Used up", variant: "destructive" };
+  }
+  return { label: "Active", variant: "default" };
+};
+
+export function DiscountsView() {
+  const currentStore = useCurrentStore();
+  const { hasPermission } = usePermissions();
+  const { formatCurrency } = useTax();
+  const canManage = hasPermission('manage_discounts');
+
+  const discounts = useDiscounts();
+  const redemptions = useDiscountRedemptions();
+  const loading = useDiscountStore(state => state.loading);
+  const redemptionsLoading = useDiscountStore(state => state.redemptionsLoading);
+  const searchTerm = useDiscountStore(state => state.searchTerm);
+  const selectedDiscount = useDiscountStore(state => state.selectedDiscount);
+  const showDiscountDialog = useDiscountStore(state => state.showDiscountDialog);
+  const fetchDiscounts = useDiscountStore(state => state.fetchDiscounts);
+  const fetchRedemptions = useDiscountStore(state => state.fetchRedemptions);
+  const toggleDiscountActive = useDiscountStore(state => state.toggleDiscountActive);
+  const deleteDiscount = useDiscountStore(state => state.deleteDiscount);
+  const setSearchTerm = useDiscountStore(state => state.setSearchTerm);
+  const setSelectedDiscount = useDiscountStore(state => state.setSelectedDiscount);
+  const setShowDiscountDialog = useDiscountStore(state => state.setShowDiscountDialog);
+
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchDiscounts(currentStore.id);
+    }
+  }, [currentStore?.id, fetchDiscounts]);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchRedemptions(
+        currentStore.id,
+        startDate ? new Date(`${startDate}T00:00:00`).toISOString() : null,
+        endDate ? new Date(`${endDate}T23:59:59`).toISOString() : null
+      );
+    }
+  }, [currentStore?.id, startDate, endDate, fetchRedemptions]);
+
+  const filteredDiscounts = discounts.filter(discount =>
+    discount.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    discount.code?.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const activeCount = discounts.filter(discount => getDiscountStatus(discount).label === "Active").length;
+  const promotionCount = discounts.filter(discount => !discount.code).length;
+  const totalRedeemed = redemptions.reduce((sum, row) => sum + Number(row.total_discount), 0);
+
+  const handleEdit = (discount: Discount | null) => {
+    setSelectedDiscount(discount);
+    setShowDiscountDialog(true);
+  };
+
+  const handleDelete = async (discount: Discount) => {
+    if (!confirm(`Delete discount "${discount.name}"?`)) return;
+    await deleteDiscount(discount);
+  };
+
+  if (loading && discounts.length === 0) {
+    return (
+      <div className="flex items-center justify-center h-64">
+        <Loader2 className="w-8 h-8 animate-spin text-primary" />
+        <span className="ml-2 text-muted-foreground">Loading discounts...</span>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <div className="flex items-center justify-between">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Discounts & Promotions</h1>
+          <p className="text-muted-foreground mt-2">
+            Discount codes and automatic promotions for the POS and your online showcase
+          </p>
+        </div>
+        {canManage && (
+          <Button className="bg-gradient-primary text-white" onClick={() => handleEdit(null)}>
+            <Plus className="w-4 h-4 mr-2" />
+            New Discount
+          </Button>
+        )}
+      </div>
+
+      {/* Stats Cards */}
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Active Discounts</CardTitle>
+            <Tag className="h-4 w-4 text-success" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-success">{activeCount}</div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Automatic Promotions</CardTitle>
+            <Sparkles className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{promotionCount}</div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Total Discounted</CardTitle>
+            <Ticket className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{formatCurrency(totalRedeemed)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs defaultValue="discounts">
+        <TabsList>
+          <TabsTrigger value="discounts">Discounts</TabsTrigger>
+          <TabsTrigger value="redemptions">Redemptions</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="discounts" className="space-y-6">
+          <Card className="card-professional">
+            <CardContent className="p-6">
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+                <Input
+                  placeholder="Search by name or code..."
+                  value={searchTerm}
+                  onChange={(e) => setSearchTerm(e.target.value)}
+                  className="pl-10"
+                />
+              </div>
+            </CardContent>
+          </Card>
+
+          <Card className="card-professional">
+            <CardContent className="p-0">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Discount</TableHead>
+                    <TableHead>Value</TableHead>
+                    <TableHead>Applies To</TableHead>
+                    <TableHead>Customers</TableHead>
+                    <TableHead>Used</TableHead>
+                    <TableHead>Status</TableHead>
+                    {canManage && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {filteredDiscounts.length === 0 ? (
+                    <TableRow>
+                      <TableCell colSpan={canManage ? 7 : 6} className="text-center py-8 text-muted-foreground">
+                        {discounts.length === 0 ? "No discounts yet. Create your first discount to get started." : "No discounts match your search."}
+                      </TableCell>
+                    </TableRow>
+                  ) : (
+                    filteredDiscounts.map((discount) => {
+                      const status = getDiscountStatus(discount);
+                      return (
+                        <TableRow key={discount.id}>
+                          <TableCell>
+                            <div className="font-medium">{discount.name}</div>
+                            {discount.code ? (
+                              <Badge variant="outline" className="font-mono text-xs mt-1">{discount.code}</Badge>
+                            ) : (
+                              <Badge variant="secondary" className="text-xs mt-1">
+                                <Sparkles className="w-3 h-3 mr-1" />
+                                Automatic
+                              </Badge>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            <div>{formatDiscountValue(discount, formatCurrency)}</div>
+                            {discount.min_purchase_amount ? (
+                              <div className="text-xs text-muted-foreground">
+                                Min. {formatCurrency(discount.min_purchase_amount)}
+                              </div>
+                            ) : null}
+                          </TableCell>
+                          <TableCell>
+                            {appliesToLabels[discount.applies_to] || discount.applies_to}
+                            {discount.applies_to === 'products' && ` (${discount.product_ids?.length || 0})`}
+                            {discount.applies_to === 'categories' && ` (${discount.category_ids?.length || 0})`}
+                          </TableCell>
+                          <TableCell>
+                            {eligibilityLabels[discount.customer_eligibility] || discount.customer_eligibility}
+                            {discount.loyalty_tier_required && (
+                              <div className="text-xs text-muted-foreground">{discount.loyalty_tier_required} tier and above</div>
+                            )}
+                          </TableCell>
+                          <TableCell>
+                            {discount.usage_count}
+                            {discount.usage_limit !== null && ` / ${discount.usage_limit}`}
+                          </TableCell>
+                          <TableCell>
+                            <Badge variant={status.variant}>{status.label}</Badge>
+                          </TableCell>
+                          {canManage && (
+                            <TableCell>
+                              <div className="flex items-center gap-2">
+                                <Switch
+                                  checked={discount.is_active}
+                                  onCheckedChange={() => toggleDiscountActive(discount)}
+                                />
+                                <Button variant="ghost" size="sm" onClick={() => handleEdit(discount)}>
+                                  <Edit className="w-4 h-4" />
+                                </Button>
+                                <Button
+                                  variant="ghost"
+                                  size="sm"
+                                  onClick={() => handleDelete(discount)}
+                                  className="text-destructive hover:text-destructive"
+                                >
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </div>
+                            </TableCell>
+                          )}
+                        </TableRow>
+                      );
+                    })
+                  )}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="redemptions" className="space-y-6">
+          <Card className="card-professional">
+            <CardContent className="p-6 flex flex-wrap items-end gap-4">
+              <div className="space-y-1">
+                <Label htmlFor="redemptions-from">From</Label>
+                <Input id="redemptions-from" type="date" value={startDate} onChange={(e) => setStartDate(e.target.value)} />
+              </div>
+              <div className="space-y-1">
+                <Label htmlFor="redemptions-to">To</Label>
+                <Input id="redemptions-to" type="date" value={endDate} onChange={(e) => setEndDate(e.target.value)} />
+              </div>
+              {(startDate || endDate) && (
+                <Button variant="ghost" onClick={() => { setStartDate(""); setEndDate(""); }}>
+                  Clear
+                </Button>
+              )}
+            </CardContent>
+          </Card>
+
+          <Card className="card-professional">
+            <CardHeader>
+              <CardTitle className="text-foreground">Redemptions by Code</CardTitle>
+            </CardHeader>
+            <CardContent>
+              {redemptionsLoading ? (
+                <div className="flex items-center justify-center py-8">
+                  <Loader2 className="w-6 h-6 animate-spin text-primary" />
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Discount</TableHead>
+                      <TableHead className="text-right">Redemptions</TableHead>
+                      <TableHead className="text-right">POS</TableHead>
+                      <TableHead className="text-right">Online</TableHead>
+                      <TableHead className="text-right">Customers</TableHead>
+                      <TableHead className="text-right">Total Discounted</TableHead>
+                      <TableHead>Last Used</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {redemptions.length === 0 ? (
+                      <TableRow>
+                        <TableCell colSpan={7} className="text-center py-8 text-muted-foreground">
+                          No discounts were redeemed in this period
+                        </TableCell>
+                      </TableRow>
+                    ) : (
+                      redemptions.map((row) => (
+                        <TableRow key={row.discount_id}>
+                          <TableCell>
+                            <div className="font-medium">{row.name}</div>
+                            <div className="text-xs text-muted-foreground font-mono">{row.code || 'Automatic'}</div>
+                          </TableCell>
+                          <TableCell className="text-right">{row.redemptions}</TableCell>
+                          <TableCell className="text-right">{row.pos_redemptions}</TableCell>
+                          <TableCell className="text-right">{row.showcase_redemptions}</TableCell>
+                          <TableCell className="text-right">{row.unique_customers}</TableCell>
+                          <TableCell className="text-right font-medium">{formatCurrency(Number(row.total_discount))}</TableCell>
+                          <TableCell>{new Date(row.last_used_at).toLocaleDateString()}</TableCell>
+                        </TableRow>
+                      ))
+                    )}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+      </Tabs>
+
+      <DiscountFormDialog
+        open={showDiscountDialog}
+        onOpenChange={(open) => {
+          setShowDiscountDialog(open);
+          if (!open) setSelectedDiscount(null);
+        }}
+        discount={selectedDiscount}
+      />
+    </div>
+  );
+}
@@ -46,7 +46,7 @@ const expenseSchema = z.object({
   receipt_number: z.string().optional(),
   tax_amount: z.number().min(0, "Tax amount cannot be negative").default(0),
   is_tax_deductible: z.boolean().default(true),
-  status: z.enum(['pending', 'paid']).default('pending'),
+  status: z.enum(['pending', 'approved', 'paid']).default('pending'),
   notes: z.string().optional(),
 });
 
@@ -65,7 +65,7 @@ interface Expense {
   receipt_number: string;
   tax_amount: number;
   is_tax_deductible: boolean;
-  status: 'pending' | 'paid';
+  status: 'pending' | 'approved' | 'paid';
   notes: string;
   category_id?: string;
   expense_categories?: { name: string; color: string };
@@ -361,6 +361,7 @@ export function EditExpenseDialog({
                       </FormControl>
                       <SelectContent>
                         <SelectItem value="pending">Pending</SelectItem>
+                        <SelectItem value="approved">Approved</SelectItem>
                         <SelectItem value="paid">Paid</SelectItem>
                       </SelectContent>
                     </Select>
@@ -43,7 +43,7 @@ interface Expense {
   receipt_number: string;
   tax_amount: number;
   is_tax_deductible: boolean;
-  status: 'pending' | 'paid';
+  status: 'pending' | 'approved' | 'paid';
   notes: string;
   created_at: string;
   expense_categories?: { name: string; color: string };
@@ -104,6 +104,7 @@ export function ExpenseDetailsModal({
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       pending: { label: 'Pending', variant: 'secondary' as const, icon: Clock },
+      approved: { label: 'Approved', variant: 'outline' as const, icon: CheckCircle },
       paid: { label: 'Paid', variant: 'default' as const, icon: CheckCircle },
     };
 
@@ -104,6 +104,7 @@ export function ExpenseView() {
   const getStatusBadge = (status: string) => {
     const statusConfig = {
       pending: { label: 'Pending', variant: 'secondary' as const, icon: Clock },
+      approved: { label: 'Approved', variant: 'outline' as const, icon: CheckCircle },
       paid: { label: 'Paid', variant: 'default' as const, icon: CheckCircle },
     };
 
@@ -267,6 +268,7 @@ export function ExpenseView() {
                 <SelectContent>
                   <SelectItem value="all">All Status</SelectItem>
                   <SelectItem value="pending">Pending</SelectItem>
+                  <SelectItem value="approved">Approved</SelectItem>
                   <SelectItem value="paid">Paid</SelectItem>
                 </SelectContent>
               </Select>
@@ -351,7 +353,12 @@ export function ExpenseView() {
                       <TableCell className="font-medium">{expense.expense_number}</TableCell>
                       <TableCell>
                         <div>
-                          <div className="font-medium">{expense.title}</div>
+                          <div className="font-medium flex items-center gap-1">
+                            {expense.title}
+                            {expense.recurring_expense_id && (
+                              <Repeat className="w-3 h-3 text-muted-foreground" aria-label="Generated from a recurring expense" />
+                            )}
+                          </div>
                           {expense.description && (
                             <div className="text-sm text-muted-foreground truncate max-w-[200px]">
                               {expense.description}
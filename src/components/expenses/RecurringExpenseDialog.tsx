@@ -33,7 +33,7 @@ import { Calendar } from "@/components/ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "@/components/ui/popover";
 import { Checkbox } from "@/components/ui/checkbox";
 import { CalendarIcon, Loader2 } from "lucide-react";
-import { format, addMonths, addYears, addDays } from "date-fns";
+import { format, addWeeks, addMonths, addYears, addDays, startOfDay } from "date-fns";
 import { cn } from "@/lib/utils";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
@@ -45,7 +45,7 @@ const recurringExpenseSchema = z.object({
   title: z.string().min(1, "Title is required").max(100, "Title must be 100 characters or less"),
   description: z.string().optional(),
   amount: z.number().min(0.01, "Amount must be greater than 0"),
-  frequency: z.enum(['monthly', 'quarterly', 'yearly']),
+  frequency: z.enum(['weekly', 'monthly', 'quarterly', 'yearly']),
   start_date: z.date(),
   end_date: z.date().optional().nullable(),
   category_id: z.string().optional(),
@@ -53,6 +53,7 @@ const recurringExpenseSchema = z.object({
   vendor_name: z.string().optional(),
   vendor_contact: z.string().optional(),
   auto_create: z.boolean().default(true),
+  approval_mode: z.enum(['pending_review', 'auto_approve']).default('pending_review'),
   notes: z.string().optional(),
 });
 
@@ -89,34 +90,40 @@ export function RecurringExpenseDialog({
       vendor_name: "",
       vendor_contact: "",
       auto_create: true,
+      approval_mode: "pending_review",
       notes: "",
     },
   });
 
   const calculateNextDueDate = (startDate: Date, frequency: string): Date => {
-    const today = new Date();
-    let nextDueDate = new Date(startDate);
+    const today = startOfDay(new Date());
+    let nextDueDate = startOfDay(startDate);
     
-    // If start date is in the future, that's the next due date
-    if (nextDueDate > today) {
+    // If start date is today or later, that's the next due date
+    if (nextDueDate >= today) {
       return nextDueDate;
     }
     
     // Otherwise, calculate the next occurrence based on frequency
     switch (frequency) {
+      case 'weekly':
+        while (nextDueDate < today) {
+          nextDueDate = addWeeks(nextDueDate, 1);
+        }
+        break;
       case 'monthly':
         // Find the next occurrence of the same day of month
-        while (nextDueDate <= today) {
+        while (nextDueDate < today) {
           nextDueDate = addMonths(nextDueDate, 1);
         }
         break;
       case 'quarterly':
-        while (nextDueDate <= today) {
+        while (nextDueDate < today) {
           nextDueDate = addMonths(nextDueDate, 3);
         }
         break;
       case 'yearly':
-        while (nextDueDate <= today) {
+        while (nextDueDate < today) {
           nextDueDate = addYears(nextDueDate, 1);
         }
         break;
@@ -151,6 +158,7 @@ export function RecurringExpenseDialog({
           vendor_name: data.vendor_name || null,
           vendor_contact: data.vendor_contact || null,
           auto_create: data.auto_create,
+          approval_mode: data.approval_mode,
           notes: data.notes || null,
           created_by: user.id,
           is_active: true
@@ -240,6 +248,7 @@ export function RecurringExpenseDialog({
                         </SelectTrigger>
                       </FormControl>
                       <SelectContent>
+                        <SelectItem value="weekly">Weekly</SelectItem>
                         <SelectItem value="monthly">Monthly</SelectItem>
                         <SelectItem value="quarterly">Quarterly</SelectItem>
                         <SelectItem value="yearly">Yearly</SelectItem>
@@ -388,6 +397,33 @@ export function RecurringExpenseDialog({
               )}
             />
 
+            {form.watch("auto_create") && (
+              <FormField
+                control={form.control}
+                name="approval_mode"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Created entries</FormLabel>
+                    <Select onValueChange={field.onChange} defaultValue={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        <SelectItem value="pending_review">Wait for review (pending)</SelectItem>
+                        <SelectItem value="auto_approve">Approve automatically</SelectItem>
+                      </SelectContent>
+                    </Select>
+                    <FormDescription>
+                      The store owner is notified of every entry that is created
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+            )}
+
             <FormField
               control={form.control}
               name="description"
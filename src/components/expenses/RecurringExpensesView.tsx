@@ -2,6 +2,7 @@ import React, { useState, useEffect } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
+import { Alert, AlertDescription, AlertTitle } from "@/components/ui/alert";
 import {
   Table,
   TableBody,
@@ -24,7 +25,9 @@ import {
   DollarSign,
   Clock,
   Pause,
-  Play
+  Play,
+  RefreshCw,
+  X
 } from "lucide-react";
 import { format, isBefore, addDays } from "date-fns";
 import { useCurrentStore } from "@/stores/storeStore";
@@ -34,28 +37,19 @@ import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { useTax } from "@/hooks/useTax";
 import { RecurringExpenseDialog } from "./RecurringExpenseDialog";
-import { ExpenseCategory } from "./types";
+import { ExpenseCategory, RecurringExpense } from "./types";
 
-interface RecurringExpense {
+interface GeneratedExpensesNotice {
   id: string;
   title: string;
-  description: string | null;
-  amount: number;
-  frequency: 'monthly' | 'quarterly' | 'yearly';
-  start_date: string;
-  end_date: string | null;
-  next_due_date: string;
-  payment_method: string;
-  vendor_name: string | null;
-  vendor_contact: string | null;
-  is_active: boolean;
-  auto_create: boolean;
-  notes: string | null;
+  message: string;
   created_at: string;
-  expense_categories?: {
-    name: string;
-    color: string;
-  } | null;
+}
+
+interface MaterializeResult {
+  success: boolean;
+  generated_count: number;
+  ended_count: number;
 }
 
 interface RecurringExpensesViewProps {
@@ -70,13 +64,80 @@ export function RecurringExpensesView({ categories, onExpenseAdded }: RecurringE
   const [loading, setLoading] = useState(true);
   const [recurringExpenses, setRecurringExpenses] = useState<RecurringExpense[]>([]);
   const [showAddDialog, setShowAddDialog] = useState(false);
+  const [notices, setNotices] = useState<GeneratedExpensesNotice[]>([]);
+  const [generating, setGenerating] = useState(false);
 
   useEffect(() => {
     if (currentStore) {
       fetchRecurringExpenses();
+      fetchNotices();
     }
   }, [currentStore]);
 
+  // Unread notices about entries the scheduler created, shown to the owner they were sent to
+  const fetchNotices = async () => {
+    if (!currentStore) return;
+
+    const { data, error } = await supabase
+      .from('store_notifications')
+      .select('id, title, message, created_at')
+      .eq('store_id', currentStore.id)
+      .eq('notification_type', 'recurring_expenses_generated')
+      .eq('is_read', false)
+      .order('created_at', { ascending: false })
+      .limit(5);
+
+    if (error) {
+      console.error('Error fetching recurring expense notices:', error);
+      return;
+    }
+
+    setNotices(data || []);
+  };
+
+  const handleDismissNotice = async (notice: GeneratedExpensesNotice) => {
+    setNotices(current => current.filter(n => n.id !== notice.id));
+
+    const { error } = await supabase
+      .from('store_notifications')
+      .update({ is_read: true })
+      .eq('id', notice.id);
+
+    if (error) {
+      console.error('Error dismissing notice:', error);
+    }
+  };
+
+  // Create entries for anything due today without waiting for the nightly run
+  const handleGenerateDue = async () => {
+    if (!currentStore) return;
+
+    setGenerating(true);
+    try {
+      const { data, error } = await supabase.rpc('materialize_recurring_expenses', {
+        _store_id: currentStore.id,
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as MaterializeResult;
+      if (result.generated_count === 0) {
+        toast.info('No recurring expenses are due');
+      } else {
+        toast.success(`Created ${result.generated_count} expense ${result.generated_count === 1 ? 'entry' : 'entries'}`);
+        onExpenseAdded();
+      }
+
+      fetchRecurringExpenses();
+      fetchNotices();
+    } catch (error) {
+      console.error('Error generating recurring expenses:', error);
+      toast.error('Failed to generate recurring expenses');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
   const fetchRecurringExpenses = async () => {
     if (!currentStore) return;
 
@@ -140,7 +201,8 @@ export function RecurringExpensesView({ categories, onExpenseAdded }: RecurringE
 
   const getStatusBadge = (expense: RecurringExpense) => {
     if (!expense.is_active) {
-      return <Badge variant="secondary">Paused</Badge>;
+      const ended = expense.end_date && isBefore(new Date(expense.end_date), new Date(expense.next_due_date));
+      return <Badge variant="secondary">{ended ? 'Ended' : 'Paused'}</Badge>;
     }
 
     const today = new Date();
@@ -158,6 +220,7 @@ export function RecurringExpensesView({ categories, onExpenseAdded }: RecurringE
 
   const getFrequencyLabel = (frequency: string) => {
     switch (frequency) {
+      case 'weekly': return 'Weekly';
       case 'monthly': return 'Monthly';
       case 'quarterly': return 'Quarterly';
       case 'yearly': return 'Yearly';
@@ -173,6 +236,9 @@ export function RecurringExpensesView({ categories, onExpenseAdded }: RecurringE
         
         // Convert to monthly equivalent
         switch (expense.frequency) {
+          case 'weekly':
+            monthlyAmount = (expense.amount * 52) / 12;
+            break;
           case 'quarterly':
             monthlyAmount = expense.amount / 3;
             break;
@@ -197,6 +263,24 @@ export function RecurringExpensesView({ categories, onExpenseAdded }: RecurringE
 
   return (
     <div className="space-y-6">
+      {notices.map((notice) => (
+        <Alert key={notice.id}>
+          <Calendar className="h-4 w-4" />
+          <AlertTitle className="flex items-center justify-between gap-2">
+            <span>{notice.title}</span>
+            <Button variant="ghost" size="sm" className="h-6 w-6 p-0" onClick={() => handleDismissNotice(notice)}>
+              <X className="h-4 w-4" />
+            </Button>
+          </AlertTitle>
+          <AlertDescription>
+            {notice.message}
+            <span className="block text-xs text-muted-foreground mt-1">
+              {format(new Date(notice.created_at), 'MMM dd, yyyy HH:mm')}
+            </span>
+          </AlertDescription>
+        </Alert>
+      ))}
+
       {/* Summary Cards */}
       <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
         <Card>
@@ -255,13 +339,24 @@ export function RecurringExpensesView({ categories, onExpenseAdded }: RecurringE
         <CardHeader>
           <div className="flex items-center justify-between">
             <CardTitle>Recurring Expenses ({recurringExpenses.length})</CardTitle>
-            <SecureButton
-              permission="manage_expenses"
-              onClick={() => setShowAddDialog(true)}
-            >
-              <Plus className="w-4 h-4 mr-2" />
-              Add Recurring Expense
-            </SecureButton>
+            <div className="flex gap-2">
+              <SecureButton
+                permission="manage_expenses"
+                variant="outline"
+                onClick={handleGenerateDue}
+                disabled={generating}
+              >
+                <RefreshCw className={`w-4 h-4 mr-2 ${generating ? 'animate-spin' : ''}`} />
+                Create Due Entries
+              </SecureButton>
+              <SecureButton
+                permission="manage_expenses"
+                onClick={() => setShowAddDialog(true)}
+              >
+                <Plus className="w-4 h-4 mr-2" />
+                Add Recurring Expense
+              </SecureButton>
+            </div>
           </div>
         </CardHeader>
         <CardContent>
@@ -311,10 +406,20 @@ export function RecurringExpensesView({ categories, onExpenseAdded }: RecurringE
                         {formatCurrency(expense.amount)}
                       </TableCell>
                       <TableCell>
-                        {getFrequencyLabel(expense.frequency)}
+                        <div>{getFrequencyLabel(expense.frequency)}</div>
+                        <div className="text-xs text-muted-foreground">
+                          {!expense.auto_create
+                            ? 'Manual'
+                            : expense.approval_mode === 'auto_approve' ? 'Auto-approved' : 'Needs review'}
+                        </div>
                       </TableCell>
                       <TableCell>
-                        {format(new Date(expense.next_due_date), 'MMM dd, yyyy')}
+                        <div>{format(new Date(expense.next_due_date), 'MMM dd, yyyy')}</div>
+                        {expense.end_date && (
+                          <div className="text-xs text-muted-foreground">
+                            Ends {format(new Date(expense.end_date), 'MMM dd, yyyy')}
+                          </div>
+                        )}
                       </TableCell>
                       <TableCell>
                         {getStatusBadge(expense)}
@@ -32,7 +32,7 @@ export interface RecurringExpense {
   title: string;
   description: string | null;
   amount: number;
-  frequency: 'monthly' | 'quarterly' | 'yearly';
+  frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
   start_date: string;
   end_date: string | null;
   next_due_date: string;
@@ -41,6 +41,8 @@ export interface RecurringExpense {
   vendor_contact: string | null;
   is_active: boolean;
   auto_create: boolean;
+  approval_mode: 'pending_review' | 'auto_approve';
+  last_generated_at: string | null;
   notes: string | null;
   created_at: string;
   expense_categories?: {
@@ -0,0 +1,90 @@
+import { useEffect } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Printer } from "lucide-react";
+import { useTax } from "@/hooks/useTax";
+import { formatGiftCardCode, GIFT_CARD_KIND_LABELS, isGiftCardExpired } from "@/lib/giftCards";
+import { useGiftCardStore, useGiftCardLedger, type GiftCard } from "@/stores/giftCardStore";
+import { GiftCardLedgerTable } from "./GiftCardLedgerTable";
+
+interface GiftCardDetailsDialogProps {
+  card: GiftCard | null;
+  onOpenChange: (open: boolean) => void;
+  onReprint: (card: GiftCard) => void;
+}
+
+export function GiftCardDetailsDialog({ card, onOpenChange, onReprint }: GiftCardDetailsDialogProps) {
+  const { formatCurrency } = useTax();
+  const ledger = useGiftCardLedger();
+  const ledgerLoading = useGiftCardStore(state => state.ledgerLoading);
+  const fetchLedger = useGiftCardStore(state => state.fetchLedger);
+
+  useEffect(() => {
+    if (card) {
+      fetchLedger(card.id);
+    }
+  }, [card, fetchLedger]);
+
+  if (!card) return null;
+
+  const expired = isGiftCardExpired(card);
+
+  return (
+    <Dialog open={!!card} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <span className="font-mono tracking-wider">{formatGiftCardCode(card.code)}</span>
+            <Badge variant={expired ? 'destructive' : 'secondary'}>
+              {expired ? 'Expired' : GIFT_CARD_KIND_LABELS[card.kind]}
+            </Badge>
+          </DialogTitle>
+          <DialogDescription>
+            {card.customers?.name ? `${card.customers.name} • ` : ''}
+            Issued {new Date(card.created_at).toLocaleDateString()}
+            {card.issued_by_name ? ` by ${card.issued_by_name}` : ''}
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="grid grid-cols-3 gap-4 p-3 bg-muted/30 rounded-lg">
+          <div>
+            <div className="text-sm text-muted-foreground">Balance</div>
+            <div className="text-xl font-bold">{formatCurrency(card.balance)}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Issued Value</div>
+            <div className="font-semibold">{formatCurrency(card.initial_value)}</div>
+          </div>
+          <div>
+            <div className="text-sm text-muted-foreground">Expires</div>
+            <div className="font-semibold">
+              {card.expires_at ? new Date(card.expires_at).toLocaleDateString() : 'Never'}
+            </div>
+          </div>
+        </div>
+
+        {card.notes && (
+          <p className="text-sm text-muted-foreground whitespace-pre-line">{card.notes}</p>
+        )}
+
+        <GiftCardLedgerTable entries={ledger} loading={ledgerLoading} />
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onReprint(card)}>
+            <Printer className="w-4 h-4 mr-2" />
+            Reprint
+          </Button>
+          <Button onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
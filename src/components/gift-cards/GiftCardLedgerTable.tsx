@@ -0,0 +1,58 @@
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { useTax } from "@/hooks/useTax";
+import { GIFT_CARD_TRANSACTION_LABELS } from "@/lib/giftCards";
+import type { GiftCardLedgerEntry } from "@/stores/giftCardStore";
+
+interface GiftCardLedgerTableProps {
+  entries: GiftCardLedgerEntry[];
+  loading: boolean;
+}
+
+export function GiftCardLedgerTable({ entries, loading }: GiftCardLedgerTableProps) {
+  const { formatCurrency } = useTax();
+
+  if (loading) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-5 h-5 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (entries.length === 0) {
+    return <p className="py-6 text-center text-sm text-muted-foreground">No activity yet</p>;
+  }
+
+  return (
+    <Table>
+      <TableHeader>
+        <TableRow>
+          <TableHead>Date</TableHead>
+          <TableHead>Activity</TableHead>
+          <TableHead className="text-right">Amount</TableHead>
+          <TableHead className="text-right">Balance</TableHead>
+        </TableRow>
+      </TableHeader>
+      <TableBody>
+        {entries.map(entry => (
+          <TableRow key={entry.id}>
+            <TableCell className="whitespace-nowrap">{new Date(entry.created_at).toLocaleString()}</TableCell>
+            <TableCell>
+              <div className="font-medium">{GIFT_CARD_TRANSACTION_LABELS[entry.transaction_type]}</div>
+              <div className="text-xs text-muted-foreground">
+                {[entry.orders?.order_number && `Order ${entry.orders.order_number}`, entry.description, entry.created_by_name]
+                  .filter(Boolean)
+                  .join(' • ')}
+              </div>
+            </TableCell>
+            <TableCell className={`text-right ${entry.amount < 0 ? 'text-destructive' : 'text-success'}`}>
+              {entry.amount < 0 ? '-' : '+'}{formatCurrency(Math.abs(entry.amount))}
+            </TableCell>
+            <TableCell className="text-right">{formatCurrency(entry.balance_after)}</TableCell>
+          </TableRow>
+        ))}
+      </TableBody>
+    </Table>
+  );
+}
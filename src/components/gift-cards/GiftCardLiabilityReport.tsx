@@ -0,0 +1,144 @@
+import { useEffect } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gift, Loader2 } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useGiftCardStore, useGiftCardLiability } from "@/stores/giftCardStore";
+import { useTax } from "@/hooks/useTax";
+import { GIFT_CARD_KIND_LABELS, type GiftCardKind } from "@/lib/giftCards";
+
+interface GiftCardLiabilityReportProps {
+  from?: Date;
+  to?: Date;
+}
+
+const KINDS: GiftCardKind[] = ['gift_card', 'store_credit'];
+
+export function GiftCardLiabilityReport({ from, to }: GiftCardLiabilityReportProps) {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+
+  const liability = useGiftCardLiability();
+  const liabilityLoading = useGiftCardStore(state => state.liabilityLoading);
+  const fetchLiability = useGiftCardStore(state => state.fetchLiability);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchLiability(currentStore.id, from, to);
+    }
+  }, [currentStore?.id, from, to, fetchLiability]);
+
+  if (liabilityLoading && !liability) {
+    return (
+      <div className="flex items-center justify-center py-8">
+        <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+      </div>
+    );
+  }
+
+  if (!liability) return null;
+
+  // Outstanding balances are what the store still owes customers, whatever the period
+  const totalOutstanding = KINDS.reduce((sum, kind) => sum + liability.outstanding[kind].balance, 0);
+  const totalIssued = KINDS.reduce((sum, kind) => sum + liability.issued[kind], 0);
+
+  return (
+    <>
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-2xl font-bold text-foreground">{formatCurrency(totalOutstanding)}</p>
+            <p className="text-sm text-muted-foreground">Outstanding Liability</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-2xl font-bold text-foreground">{formatCurrency(liability.expiringSoon)}</p>
+            <p className="text-sm text-muted-foreground">Expiring in 30 Days</p>
+          </CardContent>
+        </Card>
+        <Card>
+          <CardContent className="p-6">
+            <p className="text-2xl font-bold text-foreground">{formatCurrency(liability.redeemed)}</p>
+            <p className="text-sm text-muted-foreground">Redeemed in Period</p>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Card className="card-professional">
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Gift className="w-5 h-5" />
+            Gift Card & Store Credit Liability
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Outstanding</TableHead>
+                  <TableHead className="text-right">Accounts</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {KINDS.map(kind => (
+                  <TableRow key={kind}>
+                    <TableCell>{GIFT_CARD_KIND_LABELS[kind]}</TableCell>
+                    <TableCell className="text-right">{liability.outstanding[kind].count}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(liability.outstanding[kind].balance)}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow className="font-semibold">
+                  <TableCell>Total</TableCell>
+                  <TableCell className="text-right">
+                    {KINDS.reduce((sum, kind) => sum + liability.outstanding[kind].count, 0)}
+                  </TableCell>
+                  <TableCell className="text-right">{formatCurrency(totalOutstanding)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Movement in Period</TableHead>
+                  <TableHead className="text-right">Amount</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {KINDS.map(kind => (
+                  <TableRow key={kind}>
+                    <TableCell>{GIFT_CARD_KIND_LABELS[kind]} issued</TableCell>
+                    <TableCell className="text-right">+{formatCurrency(liability.issued[kind])}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell>Refunded to cards</TableCell>
+                  <TableCell className="text-right">+{formatCurrency(liability.refunded)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Redeemed</TableCell>
+                  <TableCell className="text-right">-{formatCurrency(liability.redeemed)}</TableCell>
+                </TableRow>
+                <TableRow>
+                  <TableCell>Expired</TableCell>
+                  <TableCell className="text-right">-{formatCurrency(liability.expired)}</TableCell>
+                </TableRow>
+                <TableRow className="font-semibold">
+                  <TableCell>Net change</TableCell>
+                  <TableCell className="text-right">
+                    {formatCurrency(totalIssued + liability.refunded - liability.redeemed - liability.expired)}
+                  </TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </div>
+        </CardContent>
+      </Card>
+    </>
+  );
+}
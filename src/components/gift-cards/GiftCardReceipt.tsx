@@ -0,0 +1,141 @@
+import { forwardRef } from "react";
+import { format } from "date-fns";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Printer, Download } from "lucide-react";
+import { useTax } from "@/hooks/useTax";
+import { formatGiftCardCode, GIFT_CARD_KIND_LABELS } from "@/lib/giftCards";
+import type { GiftCard } from "@/stores/giftCardStore";
+
+interface GiftCardReceiptProps {
+  card: GiftCard;
+  storeName: string;
+  storeAddress?: string;
+  storePhone?: string;
+  customerName?: string | null;
+  // How the card was paid for; missing for cards given away and reprints
+  paymentMethodLabel?: string;
+  transactionNumber?: string | null;
+  onPrint?: () => void;
+  onDownload?: () => void;
+}
+
+export const GiftCardReceipt = forwardRef<HTMLDivElement, GiftCardReceiptProps>(
+  ({
+    card,
+    storeName,
+    storeAddress,
+    storePhone,
+    customerName,
+    paymentMethodLabel,
+    transactionNumber,
+    onPrint,
+    onDownload,
+  }, ref) => {
+    const { formatCurrency } = useTax();
+
+    return (
+      <div className="max-w-md mx-auto">
+        <Card className="receipt-card">
+          <CardHeader className="text-center pb-4">
+            <div className="space-y-2">
+              <h2 className="text-xl font-bold text-foreground">{storeName}</h2>
+              {storeAddress && (
+                <p className="text-sm text-muted-foreground">{storeAddress}</p>
+              )}
+              {storePhone && (
+                <p className="text-sm text-muted-foreground">{storePhone}</p>
+              )}
+            </div>
+          </CardHeader>
+
+          <CardContent ref={ref} className="receipt-content space-y-4">
+            <div className="text-center space-y-1">
+              <p className="font-medium text-foreground">{GIFT_CARD_KIND_LABELS[card.kind]}</p>
+              <p className="text-lg font-bold font-mono tracking-wider text-foreground">
+                {formatGiftCardCode(card.code)}
+              </p>
+              <p className="text-sm text-muted-foreground">
+                Issued {format(new Date(card.created_at), 'PPp')}
+              </p>
+              {transactionNumber && (
+                <p className="text-sm text-muted-foreground">Transaction #{transactionNumber}</p>
+              )}
+              {card.issued_by_name && (
+                <p className="text-sm text-muted-foreground">Issued by: {card.issued_by_name}</p>
+              )}
+            </div>
+
+            <Separator />
+
+            {customerName && (
+              <>
+                <div className="space-y-1">
+                  <p className="font-medium text-foreground">Customer:</p>
+                  <p className="text-sm text-muted-foreground">{customerName}</p>
+                </div>
+                <Separator />
+              </>
+            )}
+
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Value:</span>
+                <span className="text-foreground">{formatCurrency(card.initial_value)}</span>
+              </div>
+
+              {paymentMethodLabel && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Paid By:</span>
+                  <span className="text-foreground">{paymentMethodLabel}</span>
+                </div>
+              )}
+
+              <Separator />
+
+              <div className="flex justify-between text-lg font-bold">
+                <span className="text-foreground">Balance:</span>
+                <span className="text-foreground">{formatCurrency(card.balance)}</span>
+              </div>
+
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Expires:</span>
+                <span className="text-foreground">
+                  {card.expires_at ? format(new Date(card.expires_at), 'PP') : 'Never'}
+                </span>
+              </div>
+            </div>
+
+            <Separator />
+
+            <div className="text-center text-xs text-muted-foreground">
+              <p>Present this code at the till or enter it at checkout.</p>
+              <p>Keep it safe - anyone with the code can spend the balance.</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Action Buttons */}
+        {(onPrint || onDownload) && (
+          <div className="flex gap-2 mt-4">
+            {onPrint && (
+              <Button onClick={onPrint} variant="outline" className="flex-1">
+                <Printer className="w-4 h-4 mr-2" />
+                Print
+              </Button>
+            )}
+            {onDownload && (
+              <Button onClick={onDownload} variant="outline" className="flex-1">
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+GiftCardReceipt.displayName = "GiftCardReceipt";
@@ -0,0 +1,187 @@
+import { useRef } from "react";
+import { format } from "date-fns";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import jsPDF from 'jspdf';
+import { useTax } from "@/hooks/useTax";
+import { usePaymentMethods } from "@/hooks/usePaymentMethods";
+import { useCurrentStore } from "@/stores/storeStore";
+import { formatGiftCardCode, GIFT_CARD_KIND_LABELS } from "@/lib/giftCards";
+import type { GiftCard, IssuedGiftCard } from "@/stores/giftCardStore";
+import { GiftCardReceipt } from "./GiftCardReceipt";
+
+interface GiftCardReceiptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // A card just sold carries its payment; reprints only have the card
+  card: (GiftCard & Partial<IssuedGiftCard>) | null;
+}
+
+export function GiftCardReceiptDialog({ open, onOpenChange, card }: GiftCardReceiptDialogProps) {
+  const receiptRef = useRef<HTMLDivElement>(null);
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const { getPaymentMethodDisplay } = usePaymentMethods();
+
+  const storeName = currentStore?.name || 'Store';
+  const customerName = card?.customers?.name ?? card?.customer_name ?? null;
+  const paymentMethodLabel = card?.payment_method ? getPaymentMethodDisplay(card.payment_method) : undefined;
+
+  const handlePrint = (): void => {
+    if (receiptRef.current) {
+      const printStyles = `
+        @media print {
+          body {
+            font-family: 'Courier New', monospace;
+            margin: 0;
+            padding: 10px;
+            font-size: 12px;
+            line-height: 1.3;
+            width: 80mm;
+            max-width: 80mm;
+            -webkit-print-color-adjust: exact;
+            color-adjust: exact;
+          }
+          .receipt-content {
+            width: 100%;
+          }
+          .text-center { text-align: center; }
+          .font-bold { font-weight: bold; }
+          .space-y-1 > * + * { margin-top: 4px; }
+          .space-y-2 > * + * { margin-top: 8px; }
+          .space-y-4 > * + * { margin-top: 16px; }
+          .flex { display: flex; }
+          .justify-between { justify-content: space-between; }
+          hr { border: none; border-top: 1px dashed #000; margin: 8px 0; }
+          .text-sm { font-size: 11px; }
+          .text-xs { font-size: 10px; }
+          .text-lg { font-size: 14px; }
+          .no-print { display: none !important; }
+          @page {
+            size: 80mm auto;
+            margin: 0;
+          }
+        }
+      `;
+
+      const printStyleSheet = document.createElement('style');
+      printStyleSheet.type = 'text/css';
+      printStyleSheet.textContent = printStyles;
+      document.head.appendChild(printStyleSheet);
+
+      const originalContent = document.body.innerHTML;
+      document.body.innerHTML = receiptRef.current.innerHTML;
+
+      window.print();
+
+      document.body.innerHTML = originalContent;
+      document.head.removeChild(printStyleSheet);
+
+      toast.success('Receipt sent to printer');
+    }
+  };
+
+  const handleDownload = (): void => {
+    if (!card) return;
+
+    try {
+      const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: [80, 140] // Thermal receipt size (80mm wide)
+      });
+
+      doc.setFont('courier', 'normal');
+      doc.setFontSize(10);
+
+      let yPosition = 10;
+      const lineHeight = 4;
+      const pageWidth = 80;
+      const margin = 5;
+
+      const addText = (text: string, fontSize = 10, align: 'left' | 'center' = 'left') => {
+        doc.setFontSize(fontSize);
+        if (align === 'center') {
+          const textWidth = doc.getTextWidth(text);
+          const x = (pageWidth - textWidth) / 2;
+          doc.text(text, x, yPosition);
+        } else {
+          doc.text(text, margin, yPosition);
+        }
+        yPosition += lineHeight;
+      };
+
+      addText(storeName, 12, 'center');
+      if (currentStore?.address) addText(currentStore.address, 8, 'center');
+      if (currentStore?.phone) addText(currentStore.phone, 8, 'center');
+
+      yPosition += 2;
+      addText('================================', 8, 'center');
+      yPosition += 2;
+
+      addText(GIFT_CARD_KIND_LABELS[card.kind].toUpperCase(), 10, 'center');
+      yPosition += 1;
+      addText(formatGiftCardCode(card.code), 12, 'center');
+      yPosition += 1;
+      addText(`Issued ${format(new Date(card.created_at), 'PPp')}`, 8, 'center');
+      if (card.transaction_number) addText(`Transaction #${card.transaction_number}`, 8, 'center');
+      if (card.issued_by_name) addText(`Issued by: ${card.issued_by_name}`, 8);
+      if (customerName) addText(`Customer: ${customerName}`, 8);
+
+      yPosition += 2;
+      addText('================================', 8, 'center');
+      yPosition += 2;
+
+      addText(`Value: ${formatCurrency(card.initial_value)}`, 9);
+      if (paymentMethodLabel) addText(`Paid by: ${paymentMethodLabel}`, 9);
+      addText(`BALANCE: ${formatCurrency(card.balance)}`, 11);
+      addText(`Expires: ${card.expires_at ? format(new Date(card.expires_at), 'PP') : 'Never'}`, 9);
+
+      yPosition += 4;
+      addText('================================', 8, 'center');
+      yPosition += 2;
+      addText('Present this code at the till', 8, 'center');
+      addText('or enter it at checkout.', 8, 'center');
+      addText('Anyone with the code can spend it.', 8, 'center');
+
+      doc.save(`gift-card-${card.code.slice(-4)}.pdf`);
+      toast.success('Receipt PDF downloaded successfully');
+    } catch {
+      toast.error('Failed to generate PDF receipt');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{card ? GIFT_CARD_KIND_LABELS[card.kind] : 'Gift Card'} Receipt</DialogTitle>
+          <DialogDescription>
+            Print or download the code for the customer.
+          </DialogDescription>
+        </DialogHeader>
+
+        {card && (
+          <GiftCardReceipt
+            ref={receiptRef}
+            card={card}
+            storeName={storeName}
+            storeAddress={currentStore?.address || undefined}
+            storePhone={currentStore?.phone || undefined}
+            customerName={customerName}
+            paymentMethodLabel={paymentMethodLabel}
+            transactionNumber={card.transaction_number}
+            onPrint={handlePrint}
+            onDownload={handleDownload}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,241 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Badge } from "@/components/ui/badge";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Gift, Wallet, CalendarClock, Plus, Search, Loader2 } from "lucide-react";
+import { useTax } from "@/hooks/useTax";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useCashDrawerStore } from "@/stores/cashDrawerStore";
+import {
+  useGiftCardStore,
+  useGiftCards,
+  useGiftCardsLoading,
+  useGiftCardLiability,
+  type GiftCard,
+  type IssuedGiftCard,
+} from "@/stores/giftCardStore";
+import {
+  GIFT_CARD_KIND_LABELS,
+  isGiftCardExpired,
+  maskGiftCardCode,
+  normalizeGiftCardCode,
+  type GiftCardKind,
+} from "@/lib/giftCards";
+import { SellGiftCardDialog } from "./SellGiftCardDialog";
+import { GiftCardDetailsDialog } from "./GiftCardDetailsDialog";
+import { GiftCardReceiptDialog } from "./GiftCardReceiptDialog";
+
+type KindFilter = 'all' | GiftCardKind;
+
+export function GiftCardsView() {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const cards = useGiftCards();
+  const loading = useGiftCardsLoading();
+  const liability = useGiftCardLiability();
+  const fetchCards = useGiftCardStore(state => state.fetchCards);
+  const fetchLiability = useGiftCardStore(state => state.fetchLiability);
+  const lookupCard = useGiftCardStore(state => state.lookupCard);
+
+  const [searchTerm, setSearchTerm] = useState('');
+  const [kindFilter, setKindFilter] = useState<KindFilter>('all');
+  const [checking, setChecking] = useState(false);
+  const [showSellDialog, setShowSellDialog] = useState(false);
+  const [selectedCard, setSelectedCard] = useState<GiftCard | null>(null);
+  const [receiptCard, setReceiptCard] = useState<(GiftCard & Partial<IssuedGiftCard>) | null>(null);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchCards(currentStore.id);
+      fetchLiability(currentStore.id);
+      useCashDrawerStore.getState().fetchDrawer(currentStore.id);
+    }
+  }, [currentStore?.id, fetchCards, fetchLiability]);
+
+  const filteredCards = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return cards.filter(card => {
+      if (kindFilter !== 'all' && card.kind !== kindFilter) return false;
+      if (!term) return true;
+      const code = normalizeGiftCardCode(term);
+      return (code && card.code.includes(code)) || card.customers?.name.toLowerCase().includes(term);
+    });
+  }, [cards, kindFilter, searchTerm]);
+
+  // The list only holds the latest cards; an exact code is looked up on the server
+  const handleCheckBalance = async () => {
+    if (!currentStore?.id || !searchTerm.trim()) return;
+    setChecking(true);
+    const card = await lookupCard(currentStore.id, searchTerm);
+    setChecking(false);
+    if (card) setSelectedCard(card);
+  };
+
+  const handleIssued = (card: IssuedGiftCard) => {
+    setReceiptCard(card);
+    if (currentStore?.id) fetchLiability(currentStore.id);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Gift Cards</h1>
+          <p className="text-muted-foreground mt-2">
+            Sell gift cards, check balances and follow store credit
+          </p>
+        </div>
+        <Button className="bg-gradient-primary text-white" onClick={() => setShowSellDialog(true)}>
+          <Plus className="w-4 h-4 mr-2" />
+          Sell Gift Card
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Gift Card Balances</CardTitle>
+            <Gift className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">
+              {formatCurrency(liability?.outstanding.gift_card.balance ?? 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {liability?.outstanding.gift_card.count ?? 0} active cards
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Store Credit Balances</CardTitle>
+            <Wallet className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">
+              {formatCurrency(liability?.outstanding.store_credit.balance ?? 0)}
+            </div>
+            <p className="text-xs text-muted-foreground">
+              {liability?.outstanding.store_credit.count ?? 0} customers
+            </p>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Expiring in 30 Days</CardTitle>
+            <CalendarClock className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{formatCurrency(liability?.expiringSoon ?? 0)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            placeholder="Search by code or customer..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            onKeyDown={(e) => e.key === 'Enter' && handleCheckBalance()}
+            className="pl-10"
+          />
+        </div>
+        <Button variant="outline" onClick={handleCheckBalance} disabled={checking || !searchTerm.trim()}>
+          {checking && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Check Balance
+        </Button>
+        <Select value={kindFilter} onValueChange={(value) => setKindFilter(value as KindFilter)}>
+          <SelectTrigger className="w-full md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Gift cards and credit</SelectItem>
+            {(Object.keys(GIFT_CARD_KIND_LABELS) as GiftCardKind[]).map(kind => (
+              <SelectItem key={kind} value={kind}>{GIFT_CARD_KIND_LABELS[kind]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="card-professional">
+        <CardContent className="p-0 overflow-x-auto">
+          {loading && cards.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : filteredCards.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              {cards.length === 0 && !searchTerm ? 'No gift cards yet' : 'No cards match your search'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Code</TableHead>
+                  <TableHead>Type</TableHead>
+                  <TableHead>Customer</TableHead>
+                  <TableHead className="text-right">Issued</TableHead>
+                  <TableHead className="text-right">Balance</TableHead>
+                  <TableHead>Expires</TableHead>
+                  <TableHead>Last Used</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredCards.map(card => (
+                  <TableRow
+                    key={card.id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedCard(card)}
+                  >
+                    <TableCell className="font-mono">{maskGiftCardCode(card.code)}</TableCell>
+                    <TableCell>
+                      {isGiftCardExpired(card)
+                        ? <Badge variant="destructive">Expired</Badge>
+                        : <Badge variant="secondary">{GIFT_CARD_KIND_LABELS[card.kind]}</Badge>}
+                    </TableCell>
+                    <TableCell>{card.customers?.name || '-'}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(card.initial_value)}</TableCell>
+                    <TableCell className="text-right font-medium">{formatCurrency(card.balance)}</TableCell>
+                    <TableCell>{card.expires_at ? new Date(card.expires_at).toLocaleDateString() : 'Never'}</TableCell>
+                    <TableCell>{card.last_used_at ? new Date(card.last_used_at).toLocaleDateString() : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      {currentStore?.id && (
+        <SellGiftCardDialog
+          open={showSellDialog}
+          onOpenChange={setShowSellDialog}
+          storeId={currentStore.id}
+          onIssued={handleIssued}
+        />
+      )}
+
+      <GiftCardDetailsDialog
+        card={selectedCard}
+        onOpenChange={(open) => !open && setSelectedCard(null)}
+        onReprint={(card) => {
+          setSelectedCard(null);
+          setReceiptCard(card);
+        }}
+      />
+
+      <GiftCardReceiptDialog
+        open={!!receiptCard}
+        onOpenChange={(open) => !open && setReceiptCard(null)}
+        card={receiptCard}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,193 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Gift, Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import { useTax } from "@/hooks/useTax";
+import { usePaymentMethods } from "@/hooks/usePaymentMethods";
+import { useManagerOverride } from "@/hooks/useManagerOverride";
+import { useCustomerStore, useCustomers } from "@/stores/customerStore";
+import { useCashDrawerEnabled, useCurrentShift } from "@/stores/cashDrawerStore";
+import { useGiftCardStore, type IssuedGiftCard } from "@/stores/giftCardStore";
+
+// Select values can't be empty strings
+const GIVE_AWAY = 'give_away';
+const NO_CUSTOMER = 'none';
+
+interface SellGiftCardDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  storeId: string;
+  onIssued: (card: IssuedGiftCard) => void;
+}
+
+export function SellGiftCardDialog({ open, onOpenChange, storeId, onIssued }: SellGiftCardDialogProps) {
+  const { formatCurrency } = useTax();
+  const { getPaymentOptions } = usePaymentMethods();
+  const { isManager } = useManagerOverride();
+  const customers = useCustomers();
+  const cashDrawerEnabled = useCashDrawerEnabled();
+  const currentShift = useCurrentShift();
+  const issueGiftCard = useGiftCardStore(state => state.issueGiftCard);
+  const issuing = useGiftCardStore(state => state.issuing);
+
+  const [amount, setAmount] = useState('');
+  const [paymentMethod, setPaymentMethod] = useState('cash');
+  const [customerId, setCustomerId] = useState(NO_CUSTOMER);
+  const [notes, setNotes] = useState('');
+
+  useEffect(() => {
+    if (open) {
+      setAmount('');
+      setPaymentMethod('cash');
+      setCustomerId(NO_CUSTOMER);
+      setNotes('');
+      if (useCustomerStore.getState().customers.length === 0) {
+        useCustomerStore.getState().fetchCustomers(storeId);
+      }
+    }
+  }, [open, storeId]);
+
+  const value = parseFloat(amount) || 0;
+  const givingAway = paymentMethod === GIVE_AWAY;
+  const needsShift = cashDrawerEnabled && paymentMethod === 'cash' && !currentShift;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (value <= 0) {
+      toast.error('Enter the value of the card');
+      return;
+    }
+    if (needsShift) {
+      toast.error('Open a cash drawer shift before taking cash payments');
+      return;
+    }
+
+    const card = await issueGiftCard(storeId, {
+      amount: value,
+      paymentMethod: givingAway ? undefined : paymentMethod,
+      customerId: customerId === NO_CUSTOMER ? undefined : customerId,
+      notes: notes.trim() || undefined,
+    });
+
+    if (card) {
+      toast.success(`Gift card for ${formatCurrency(card.initial_value)} issued`);
+      onOpenChange(false);
+      onIssued(card);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <form onSubmit={handleSubmit}>
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Gift className="w-5 h-5 text-primary" />
+              Sell Gift Card
+            </DialogTitle>
+            <DialogDescription>
+              The card gets a new code and its value is taken as a payment now.
+            </DialogDescription>
+          </DialogHeader>
+
+          <div className="space-y-4 py-4">
+            <div className="space-y-2">
+              <Label htmlFor="gift-card-amount">Value</Label>
+              <Input
+                id="gift-card-amount"
+                type="number"
+                step="0.01"
+                min="0.01"
+                placeholder="0.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                autoFocus
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label>Paid With</Label>
+              <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select payment method" />
+                </SelectTrigger>
+                <SelectContent>
+                  {getPaymentOptions().map(option => (
+                    <SelectItem key={option.id} value={option.id}>
+                      {option.name}
+                      {option.provider && ` (${option.provider})`}
+                    </SelectItem>
+                  ))}
+                  {isManager && (
+                    <SelectItem value={GIVE_AWAY}>Give away (no payment)</SelectItem>
+                  )}
+                </SelectContent>
+              </Select>
+              {needsShift && (
+                <p className="text-xs text-destructive">
+                  Open a cash drawer shift before taking cash payments.
+                </p>
+              )}
+              {givingAway && (
+                <p className="text-xs text-muted-foreground">
+                  The card is recorded without a sale. Use the notes to say why.
+                </p>
+              )}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Customer (Optional)</Label>
+              <Select value={customerId} onValueChange={setCustomerId}>
+                <SelectTrigger>
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_CUSTOMER}>No customer</SelectItem>
+                  {customers.map(customer => (
+                    <SelectItem key={customer.id} value={customer.id}>
+                      {customer.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="gift-card-notes">Notes (Optional)</Label>
+              <Textarea
+                id="gift-card-notes"
+                placeholder={givingAway ? 'e.g. Apology for late delivery' : 'e.g. Birthday present'}
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                rows={2}
+              />
+            </div>
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={issuing}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={issuing || value <= 0 || needsShift}>
+              {issuing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {givingAway ? 'Issue Card' : `Charge ${formatCurrency(value)}`}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,7 +1,6 @@
 import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
-import * as z from "zod";
 import {
   Dialog,
   DialogContent,
@@ -35,23 +34,12 @@ import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { useInventoryStore, useCategories, useSuppliers } from "@/stores/inventoryStore";
-
-const productSchema = z.object({
-  name: z.string().min(1, "Product name is required"),
-  sku: z.string().optional(),
-  description: z.string().optional(),
-  price: z.number().min(0, "Price must be positive"),
-  cost: z.number().min(0, "Cost must be positive").optional(),
-  stock_quantity: z.number().int().min(0, "Stock quantity must be non-negative"),
-  low_stock_threshold: z.number().int().min(0, "Low stock threshold must be non-negative"),
-  category_id: z.string().optional(),
-  supplier_id: z.string().optional(),
-  is_active: z.boolean().default(true),
-  image_url: z.string().optional(),
-});
-
-type ProductFormData = z.infer<typeof productSchema>;
+import { notifyPlanLimit } from "@/lib/planLimits";
+import { useInventoryStore, useCategories, useSuppliers, findBarcodeConflicts, saveProductBarcodes } from "@/stores/inventoryStore";
+import { parseBarcodeList, isPrintableBarcode } from "@/lib/barcode";
+import { productSchema, type ProductFormData } from "@/lib/productSchema";
+import { BarcodeListInput } from "./BarcodeListInput";
+
 
 interface Category {
   id: string;
@@ -91,6 +79,7 @@ export function AddProductDialog({ open, onOpenChange, onProductAdded }: AddProd
     defaultValues: {
       name: "",
       sku: "",
+      barcodes: "",
       description: "",
       price: 0,
       cost: 0,
@@ -172,8 +161,21 @@ export function AddProductDialog({ open, onOpenChange, onProductAdded }: AddProd
   const onSubmit = async (data: ProductFormData) => {
     if (!currentStore || !user) return;
 
+    const barcodes = parseBarcodeList(data.barcodes);
+    const invalidBarcode = barcodes.find(barcode => !isPrintableBarcode(barcode));
+    if (invalidBarcode) {
+      form.setError('barcodes', { message: `${invalidBarcode} contains characters a barcode can't hold` });
+      return;
+    }
+
     setLoading(true);
     try {
+      const conflicts = await findBarcodeConflicts(currentStore.id, barcodes);
+      if (conflicts.length > 0) {
+        form.setError('barcodes', { message: `${conflicts[0].barcode} is already used by ${conflicts[0].productName}` });
+        return;
+      }
+
       let finalImageUrl: string | null = null;
 
       if (imageFile) {
@@ -182,7 +184,7 @@ export function AddProductDialog({ open, onOpenChange, onProductAdded }: AddProd
         finalImageUrl = data.image_url;
       }
 
-      const { error } = await supabase
+      const { data: product, error } = await supabase
         .from('products')
         .insert({
           name: data.name || '',
@@ -197,14 +199,21 @@ export function AddProductDialog({ open, onOpenChange, onProductAdded }: AddProd
           low_stock_threshold: data.low_stock_threshold || 5,
           sku: data.sku || null,
           is_active: data.is_active !== false,
-        });
+        })
+        .select('id')
+        .single();
 
       if (error) throw error;
 
+      if (barcodes.length > 0) {
+        await saveProductBarcodes(currentStore.id, product.id, barcodes);
+      }
+
       toast.success('Product added successfully!');
       form.reset({
         name: "",
         sku: "",
+        barcodes: "",
         description: "",
         price: 0,
         cost: 0,
@@ -222,7 +231,9 @@ export function AddProductDialog({ open, onOpenChange, onProductAdded }: AddProd
       onOpenChange(false);
     } catch (error) {
       console.error('Error adding product:', error);
-      toast.error('Failed to add product');
+      if (!notifyPlanLimit(error)) {
+        toast.error('Failed to add product');
+      }
     } finally {
       setLoading(false);
     }
@@ -370,6 +381,23 @@ export function AddProductDialog({ open, onOpenChange, onProductAdded }: AddProd
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="barcodes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcodes</FormLabel>
+                  <FormControl>
+                    <BarcodeListInput placeholder="Scan or enter barcodes" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Separate multiple barcodes with commas. The first one is printed on labels.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -0,0 +1,274 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Loader2, Printer, AlertTriangle } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useTax } from "@/hooks/useTax";
+import { canEncodeBarcode, getPrimaryBarcode, type BarcodeFormat } from "@/lib/barcode";
+import {
+  LABEL_SIZES,
+  generateLabelSheet,
+  getLabelGrid,
+  getLabelSize,
+  type BarcodeLabel
+} from "@/lib/barcodeLabels";
+import { getBarcodeSettings } from "@/lib/storeSettings";
+import type { Product } from "@/stores/inventoryStore";
+
+interface BarcodeLabelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  products: Product[];
+}
+
+const CUSTOM_SIZE = 'custom';
+
+export function BarcodeLabelDialog({ open, onOpenChange, products }: BarcodeLabelDialogProps) {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+
+  const [sizeId, setSizeId] = useState(getLabelSize(null).id);
+  const [customWidth, setCustomWidth] = useState(50);
+  const [customHeight, setCustomHeight] = useState(30);
+  const [format, setFormat] = useState<BarcodeFormat | 'auto'>('auto');
+  const [showName, setShowName] = useState(true);
+  const [showPrice, setShowPrice] = useState(true);
+  const [quantityMode, setQuantityMode] = useState<'fixed' | 'stock'>('fixed');
+  const [copies, setCopies] = useState(1);
+  const [generating, setGenerating] = useState(false);
+
+  useEffect(() => {
+    if (open && currentStore?.id) {
+      getBarcodeSettings(currentStore.id).then(settings => setSizeId(getLabelSize(settings.labelSize).id));
+    }
+  }, [open, currentStore?.id]);
+
+  const size = sizeId === CUSTOM_SIZE
+    ? { width: customWidth, height: customHeight }
+    : getLabelSize(sizeId);
+
+  // Products we can't print a code for are listed rather than silently dropped
+  const { labels, skipped } = useMemo(() => {
+    const labels: BarcodeLabel[] = [];
+    const skipped: { name: string; reason: string }[] = [];
+
+    products.forEach(product => {
+      const code = getPrimaryBarcode(product);
+      if (!code) {
+        skipped.push({ name: product.name, reason: 'no barcode or SKU' });
+        return;
+      }
+      if (!canEncodeBarcode(code, format)) {
+        skipped.push({ name: product.name, reason: `${code} can't be printed as ${format === 'ean13' ? 'EAN-13' : 'Code128'}` });
+        return;
+      }
+
+      const count = quantityMode === 'stock' ? Math.max(0, product.stock_quantity || 0) : copies;
+      for (let i = 0; i < count; i++) {
+        labels.push({ name: product.name, price: product.price, code });
+      }
+    });
+
+    return { labels, skipped };
+  }, [products, format, quantityMode, copies]);
+
+  const grid = getLabelGrid(size.width, size.height);
+  const sheets = Math.ceil(labels.length / grid.perPage);
+
+  const handleGenerate = () => {
+    if (labels.length === 0) {
+      toast.error('There are no labels to print');
+      return;
+    }
+    if (size.width < 20 || size.height < 10) {
+      toast.error('Labels must be at least 20 x 10 mm');
+      return;
+    }
+
+    setGenerating(true);
+    try {
+      const doc = generateLabelSheet(labels, {
+        width: size.width,
+        height: size.height,
+        format,
+        showName,
+        showPrice,
+        formatPrice: formatCurrency,
+      });
+      doc.save(`barcode-labels-${new Date().toISOString().split('T')[0]}.pdf`);
+      toast.success(`Generated ${labels.length} label${labels.length === 1 ? '' : 's'}`);
+      onOpenChange(false);
+    } catch (error) {
+      console.error('Error generating labels:', error);
+      toast.error('Failed to generate labels');
+    } finally {
+      setGenerating(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Print Barcode Labels</DialogTitle>
+          <DialogDescription>
+            Create a printable A4 label sheet for {products.length} selected product{products.length === 1 ? '' : 's'}.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label>Label Size</Label>
+            <Select value={sizeId} onValueChange={setSizeId}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LABEL_SIZES.map(option => (
+                  <SelectItem key={option.id} value={option.id}>
+                    {option.name}
+                  </SelectItem>
+                ))}
+                <SelectItem value={CUSTOM_SIZE}>Custom size</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          {sizeId === CUSTOM_SIZE && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="label-width">Width (mm)</Label>
+                <Input
+                  id="label-width"
+                  type="number"
+                  step="0.1"
+                  min="20"
+                  value={customWidth}
+                  onChange={(e) => setCustomWidth(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="label-height">Height (mm)</Label>
+                <Input
+                  id="label-height"
+                  type="number"
+                  step="0.1"
+                  min="10"
+                  value={customHeight}
+                  onChange={(e) => setCustomHeight(parseFloat(e.target.value) || 0)}
+                />
+              </div>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label>Barcode Type</Label>
+            <Select value={format} onValueChange={(value: BarcodeFormat | 'auto') => setFormat(value)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="auto">Automatic (EAN-13 where possible)</SelectItem>
+                <SelectItem value="code128">Code128</SelectItem>
+                <SelectItem value="ean13">EAN-13</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Labels per Product</Label>
+            <div className="flex gap-2">
+              <Select value={quantityMode} onValueChange={(value: 'fixed' | 'stock') => setQuantityMode(value)}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="fixed">Fixed number</SelectItem>
+                  <SelectItem value="stock">One per unit in stock</SelectItem>
+                </SelectContent>
+              </Select>
+              {quantityMode === 'fixed' && (
+                <Input
+                  type="number"
+                  min="1"
+                  className="w-24"
+                  value={copies}
+                  onChange={(e) => setCopies(Math.max(1, parseInt(e.target.value) || 1))}
+                />
+              )}
+            </div>
+          </div>
+
+          <div className="flex gap-6">
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="label-show-name"
+                checked={showName}
+                onCheckedChange={(checked) => setShowName(checked === true)}
+              />
+              <Label htmlFor="label-show-name" className="font-normal cursor-pointer">Product name</Label>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Checkbox
+                id="label-show-price"
+                checked={showPrice}
+                onCheckedChange={(checked) => setShowPrice(checked === true)}
+              />
+              <Label htmlFor="label-show-price" className="font-normal cursor-pointer">Price</Label>
+            </div>
+          </div>
+
+          {skipped.length > 0 && (
+            <div className="rounded-md border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+              <p className="flex items-center gap-2 font-medium">
+                <AlertTriangle className="w-4 h-4" />
+                {skipped.length} product{skipped.length === 1 ? '' : 's'} will be skipped
+              </p>
+              <ul className="mt-1 max-h-24 overflow-y-auto">
+                {skipped.map((item, index) => (
+                  <li key={index}>{item.name} - {item.reason}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          <p className="text-sm text-muted-foreground">
+            {labels.length} label{labels.length === 1 ? '' : 's'} on {sheets} sheet{sheets === 1 ? '' : 's'} ({grid.columns} x {grid.rows} per sheet)
+          </p>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)} disabled={generating}>
+            Cancel
+          </Button>
+          <Button onClick={handleGenerate} disabled={generating || labels.length === 0}>
+            {generating ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <Printer className="w-4 h-4 mr-2" />
+            )}
+            Download Labels
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,33 @@
+import { forwardRef } from "react";
+import { Input } from "@/components/ui/input";
+
+type BarcodeListInputProps = Omit<React.ComponentProps<typeof Input>, 'onChange'> & {
+  value?: string;
+  onChange: (value: string) => void;
+};
+
+/**
+ * Comma separated barcode field. Scanners finish every code with Enter, which
+ * would submit the product form, so Enter starts the next barcode instead.
+ */
+export const BarcodeListInput = forwardRef<HTMLInputElement, BarcodeListInputProps>(
+  ({ value = "", onChange, ...props }, ref) => (
+    <Input
+      ref={ref}
+      {...props}
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      onKeyDown={(e) => {
+        if (e.key === 'Enter') {
+          e.preventDefault();
+          const trimmed = value.replace(/[\s,;]+$/, '');
+          if (trimmed) {
+            onChange(`${trimmed}, `);
+          }
+        }
+      }}
+    />
+  )
+);
+
+BarcodeListInput.displayName = "BarcodeListInput";
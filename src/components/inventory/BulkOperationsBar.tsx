@@ -15,7 +15,8 @@ import {
   Eye, 
   EyeOff, 
   ChevronDown,
-  Loader2
+  Loader2,
+  Printer
 } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
@@ -35,13 +36,15 @@ interface BulkOperationsBarProps {
   onClearSelection: () => void;
   onProductsUpdated: () => void;
   onBulkStockAdjustment: (products: Product[]) => void;
+  onPrintLabels: () => void;
 }
 
 export function BulkOperationsBar({ 
   selectedProducts, 
   onClearSelection, 
   onProductsUpdated,
-  onBulkStockAdjustment
+  onBulkStockAdjustment,
+  onPrintLabels
 }: BulkOperationsBarProps) {
   const currentStore = useCurrentStore();
   const user = useUser();
@@ -157,6 +160,16 @@ export function BulkOperationsBar({
             Adjust Stock
           </Button>
 
+          <Button
+            variant="outline"
+            size="sm"
+            onClick={onPrintLabels}
+            disabled={loading}
+          >
+            <Printer className="h-3 w-3 mr-1" />
+            Print Labels
+          </Button>
+
           <DropdownMenu>
             <DropdownMenuTrigger asChild>
               <Button variant="outline" size="sm" disabled={loading}>
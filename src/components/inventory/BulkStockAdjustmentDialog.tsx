@@ -52,6 +52,7 @@ interface Product {
   name: string;
   sku: string;
   stock_quantity: number;
+  has_variants?: boolean;
 }
 
 interface BulkStockAdjustmentDialogProps {
@@ -90,6 +91,9 @@ export function BulkStockAdjustmentDialog({
 
   const watchedQuantityChange = form.watch('quantity_change');
 
+  // Variant stock is adjusted one variant at a time, so those products are left out
+  const adjustableProducts = products.filter(product => !product.has_variants);
+
   const handleQuickAdjustment = (amount: number) => {
     const currentValue = form.getValues('quantity_change');
     const newValue = currentValue + amount;
@@ -97,12 +101,12 @@ export function BulkStockAdjustmentDialog({
   };
 
   const onSubmit = async (data: AdjustmentFormData) => {
-    if (!currentStore || !user || products.length === 0) return;
+    if (!currentStore || !user || adjustableProducts.length === 0) return;
 
     setLoading(true);
     try {
       // Check if any product would have negative stock
-      const invalidProducts = products.filter(
+      const invalidProducts = adjustableProducts.filter(
         product => product.stock_quantity + data.quantity_change < 0
       );
 
@@ -113,7 +117,7 @@ export function BulkStockAdjustmentDialog({
       }
 
       // Process each product
-      const updates = products.map(product => ({
+      const updates = adjustableProducts.map(product => ({
         id: product.id,
         newStockQuantity: product.stock_quantity + data.quantity_change,
       }));
@@ -128,7 +132,7 @@ export function BulkStockAdjustmentDialog({
         if (productError) throw productError;
 
         // Create stock adjustment record
-        const product = products.find(p => p.id === update.id)!;
+        const product = adjustableProducts.find(p => p.id === update.id)!;
         const { error: adjustmentError } = await supabase
           .from('stock_adjustments')
           .insert([
@@ -147,7 +151,7 @@ export function BulkStockAdjustmentDialog({
         if (adjustmentError) throw adjustmentError;
       }
 
-      toast.success(`Stock adjusted for ${products.length} products successfully!`);
+      toast.success(`Stock adjusted for ${adjustableProducts.length} products successfully!`);
       form.reset();
       onStockAdjusted();
       onOpenChange(false);
@@ -187,17 +191,21 @@ export function BulkStockAdjustmentDialog({
                         </Badge>
                       )}
                     </div>
-                    <div className="flex items-center gap-2">
-                      <span>Current: {product.stock_quantity}</span>
-                      <span>→</span>
-                      <span className={
-                        product.stock_quantity + watchedQuantityChange < 0 
-                          ? "text-destructive font-medium" 
-                          : "font-medium"
-                      }>
-                        New: {product.stock_quantity + watchedQuantityChange}
-                      </span>
-                    </div>
+                    {product.has_variants ? (
+                      <span className="text-muted-foreground">Adjust per variant</span>
+                    ) : (
+                      <div className="flex items-center gap-2">
+                        <span>Current: {product.stock_quantity}</span>
+                        <span>→</span>
+                        <span className={
+                          product.stock_quantity + watchedQuantityChange < 0 
+                            ? "text-destructive font-medium" 
+                            : "font-medium"
+                        }>
+                          New: {product.stock_quantity + watchedQuantityChange}
+                        </span>
+                      </div>
+                    )}
                   </div>
                 ))}
               </div>
@@ -347,7 +355,7 @@ export function BulkStockAdjustmentDialog({
                 </Button>
                 <Button 
                   type="submit" 
-                  disabled={loading || products.some(p => p.stock_quantity + watchedQuantityChange < 0)}
+                  disabled={loading || adjustableProducts.length === 0 || adjustableProducts.some(p => p.stock_quantity + watchedQuantityChange < 0)}
                 >
                   {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                   Adjust Stock for {products.length} Products
@@ -35,11 +35,14 @@ import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
-import { useInventoryStore, useCategories, useSuppliers } from "@/stores/inventoryStore";
+import { useInventoryStore, useCategories, useSuppliers, findBarcodeConflicts, saveProductBarcodes } from "@/stores/inventoryStore";
+import { parseBarcodeList, isPrintableBarcode } from "@/lib/barcode";
+import { BarcodeListInput } from "./BarcodeListInput";
 
 const productSchema = z.object({
   name: z.string().min(1, "Product name is required"),
   sku: z.string().optional(),
+  barcodes: z.string().optional(),
   description: z.string().optional(),
   price: z.number().min(0, "Price must be positive"),
   cost: z.number().min(0, "Cost must be positive").optional(),
@@ -75,6 +78,10 @@ interface Product {
   supplier_id: string;
   image_url: string;
   is_active: boolean;
+  has_variants?: boolean;
+  product_barcodes?: {
+    barcode: string;
+  }[];
 }
 
 interface EditProductDialogProps {
@@ -106,6 +113,7 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
     defaultValues: {
       name: "",
       sku: "",
+      barcodes: "",
       description: "",
       price: 0,
       cost: 0,
@@ -130,6 +138,7 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
       form.reset({
         name: product.name || "",
         sku: product.sku || "",
+        barcodes: (product.product_barcodes || []).map(entry => entry.barcode).join(', '),
         description: product.description || "",
         price: Number(product.price) || 0,
         cost: Number(product.cost) || 0,
@@ -148,6 +157,7 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
       form.reset({
         name: "",
         sku: "",
+        barcodes: "",
         description: "",
         price: 0,
         cost: 0,
@@ -226,8 +236,21 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
   const onSubmit = async (data: ProductFormData) => {
     if (!currentStore || !user || !product) return;
 
+    const barcodes = parseBarcodeList(data.barcodes);
+    const invalidBarcode = barcodes.find(barcode => !isPrintableBarcode(barcode));
+    if (invalidBarcode) {
+      form.setError('barcodes', { message: `${invalidBarcode} contains characters a barcode can't hold` });
+      return;
+    }
+
     setLoading(true);
     try {
+      const conflicts = await findBarcodeConflicts(currentStore.id, barcodes, product.id);
+      if (conflicts.length > 0) {
+        form.setError('barcodes', { message: `${conflicts[0].barcode} is already used by ${conflicts[0].productName}` });
+        return;
+      }
+
       let finalImageUrl: string | null = product.image_url;
 
       if (imageFile) {
@@ -238,10 +261,11 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
         finalImageUrl = null;
       }
 
+      const { barcodes: _barcodes, ...productData } = data;
       const { error } = await supabase
         .from('products')
         .update({
-          ...data,
+          ...productData,
           image_url: finalImageUrl,
           category_id: data.category_id || null,
           supplier_id: data.supplier_id || null,
@@ -250,6 +274,8 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
 
       if (error) throw error;
 
+      await saveProductBarcodes(currentStore.id, product.id, barcodes);
+
       toast.success('Product updated successfully!');
       onProductUpdated();
       onOpenChange(false);
@@ -397,6 +423,23 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
               />
             </div>
 
+            <FormField
+              control={form.control}
+              name="barcodes"
+              render={({ field }) => (
+                <FormItem>
+                  <FormLabel>Barcodes</FormLabel>
+                  <FormControl>
+                    <BarcodeListInput placeholder="Scan or enter barcodes" {...field} />
+                  </FormControl>
+                  <FormDescription>
+                    Separate multiple barcodes with commas. The first one is printed on labels.
+                  </FormDescription>
+                  <FormMessage />
+                </FormItem>
+              )}
+            />
+
             <FormField
               control={form.control}
               name="description"
@@ -469,9 +512,15 @@ export function EditProductDialog({ open, onOpenChange, product, onProductUpdate
                         type="number"
                         placeholder="0"
                         {...field}
+                        disabled={product?.has_variants}
                         onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                       />
                     </FormControl>
+                    {product?.has_variants && (
+                      <FormDescription>
+                        Total of this product's variants. Adjust stock per variant.
+                      </FormDescription>
+                    )}
                     <FormMessage />
                   </FormItem>
                 )}
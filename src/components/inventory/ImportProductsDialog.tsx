@@ -0,0 +1,446 @@
+import { useEffect, useMemo, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Progress } from "@/components/ui/progress";
+import { Tabs, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2, Upload, FileSpreadsheet, Download, AlertTriangle, CheckCircle2 } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useUser } from "@/stores/authStore";
+import { useTax } from "@/hooks/useTax";
+import { readSpreadsheet, SPREADSHEET_ACCEPT, type SpreadsheetData } from "@/lib/spreadsheet";
+import { isPlanLimitError, notifyPlanLimit } from "@/lib/planLimits";
+import {
+  IMPORT_FIELDS,
+  autoMapColumns,
+  buildImportPlan,
+  runImport,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportField,
+  type ImportPlan,
+  type ImportProgress,
+  type ImportResult,
+} from "@/lib/productImport";
+
+interface ImportProductsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onImported: () => void;
+}
+
+type Step = 'upload' | 'map' | 'preview' | 'importing' | 'done';
+
+const NOT_MAPPED = 'none';
+const PREVIEW_ROW_LIMIT = 200;
+
+const ACTION_LABELS: Record<ImportAction, string> = {
+  create: 'Create',
+  update: 'Update',
+  skip: 'Skip',
+};
+
+const ACTION_VARIANTS: Record<ImportAction, "default" | "secondary" | "outline"> = {
+  create: 'default',
+  update: 'secondary',
+  skip: 'outline',
+};
+
+export function ImportProductsDialog({ open, onOpenChange, onImported }: ImportProductsDialogProps) {
+  const currentStore = useCurrentStore();
+  const user = useUser();
+  const { formatCurrency } = useTax();
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const [step, setStep] = useState<Step>('upload');
+  const [fileName, setFileName] = useState('');
+  const [sheet, setSheet] = useState<SpreadsheetData | null>(null);
+  const [mapping, setMapping] = useState<ColumnMapping>({});
+  const [plan, setPlan] = useState<ImportPlan | null>(null);
+  const [filter, setFilter] = useState<ImportAction | 'all'>('all');
+  const [progress, setProgress] = useState<ImportProgress>({ done: 0, total: 0 });
+  const [result, setResult] = useState<ImportResult | null>(null);
+  const [working, setWorking] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setStep('upload');
+      setFileName('');
+      setSheet(null);
+      setMapping({});
+      setPlan(null);
+      setFilter('all');
+      setProgress({ done: 0, total: 0 });
+      setResult(null);
+    }
+  }, [open]);
+
+  const visibleRows = useMemo(() => {
+    if (!plan) return [];
+    return filter === 'all' ? plan.rows : plan.rows.filter(row => row.action === filter);
+  }, [plan, filter]);
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    event.target.value = '';
+    if (!file) return;
+
+    setWorking(true);
+    try {
+      const data = await readSpreadsheet(file);
+      if (data.rows.length === 0) {
+        toast.error('The file has a header row but no products');
+        return;
+      }
+      setFileName(file.name);
+      setSheet(data);
+      setMapping(autoMapColumns(data.headers));
+      setStep('map');
+    } catch (error) {
+      console.error('Error reading import file:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to read the file');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const downloadTemplate = () => {
+    const headers = IMPORT_FIELDS.map(field => field.label).join(',');
+    const example = 'Sample Product,SKU-001,6001234567890,,9.99,5.50,20,5,Beverages,Acme Supplies,Active,';
+    const blob = new Blob([`${headers}\n${example}\n`], { type: 'text/csv' });
+    const url = URL.createObjectURL(blob);
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'product-import-template.csv';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  const setFieldColumn = (field: ImportField, value: string) => {
+    setMapping(current => {
+      const next = { ...current };
+      if (value === NOT_MAPPED) {
+        delete next[field];
+      } else {
+        next[field] = Number(value);
+      }
+      return next;
+    });
+  };
+
+  const handleBuildPlan = async () => {
+    if (!currentStore || !user || !sheet) return;
+
+    if (mapping.name === undefined && mapping.sku === undefined) {
+      toast.error('Map a column to Product Name or SKU');
+      return;
+    }
+
+    setWorking(true);
+    try {
+      setPlan(await buildImportPlan(currentStore.id, sheet, mapping));
+      setFilter('all');
+      setStep('preview');
+    } catch (error) {
+      console.error('Error preparing import:', error);
+      toast.error('Failed to check the file against your inventory');
+    } finally {
+      setWorking(false);
+    }
+  };
+
+  const handleImport = async () => {
+    if (!currentStore || !user || !plan) return;
+
+    setStep('importing');
+    setProgress({ done: 0, total: plan.counts.create + plan.counts.update });
+    try {
+      const importResult = await runImport(currentStore.id, user.id, plan, setProgress);
+      setResult(importResult);
+      setStep('done');
+      onImported();
+
+      // Rows past the plan's product limit are rejected by the database
+      const limitFailure = importResult.failed.find(failure => isPlanLimitError(failure.error));
+      if (limitFailure) {
+        notifyPlanLimit(limitFailure.error);
+      } else if (importResult.failed.length > 0) {
+        toast.warning(`Import finished with ${importResult.failed.length} problem${importResult.failed.length === 1 ? '' : 's'}`);
+      } else {
+        toast.success('Products imported successfully!');
+      }
+    } catch (error) {
+      console.error('Error importing products:', error);
+      if (!notifyPlanLimit(error)) {
+        toast.error(error instanceof Error ? error.message : 'Failed to import products');
+      }
+      setStep('preview');
+    }
+  };
+
+  const renderRowDetails = (row: ImportPlan['rows'][number]) => {
+    if (row.action === 'skip') {
+      return <span className="text-muted-foreground">{row.issues.join('; ')}</span>;
+    }
+    if (row.action === 'update') {
+      return <span>Changes: {row.changes.join(', ')}</span>;
+    }
+    const values = row.values!;
+    return (
+      <span className="text-muted-foreground">
+        {formatCurrency(values.price)} - {values.stock_quantity} in stock
+        {row.categoryName ? ` - ${row.categoryName}` : ''}
+      </span>
+    );
+  };
+
+  const isBusy = working || step === 'importing';
+
+  return (
+    <Dialog open={open} onOpenChange={(next) => !isBusy && onOpenChange(next)}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            {step === 'upload' && 'Upload a CSV or Excel (.xlsx) file with one product per row.'}
+            {step === 'map' && `Match the columns in ${fileName} to product fields.`}
+            {step === 'preview' && 'Review what the import will do. Nothing has been saved yet.'}
+            {step === 'importing' && 'Importing products. Keep this window open until it finishes.'}
+            {step === 'done' && 'Import complete.'}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === 'upload' && (
+          <div className="space-y-4">
+            <div
+              className="border-2 border-dashed border-border rounded-lg p-8 text-center cursor-pointer hover:bg-muted/50"
+              onClick={() => !working && fileInputRef.current?.click()}
+            >
+              {working ? (
+                <Loader2 className="w-10 h-10 mx-auto mb-3 animate-spin text-muted-foreground" />
+              ) : (
+                <FileSpreadsheet className="w-10 h-10 mx-auto mb-3 text-muted-foreground" />
+              )}
+              <p className="font-medium">Choose a file to import</p>
+              <p className="text-sm text-muted-foreground">CSV or .xlsx, first row must be column headers</p>
+              <input
+                ref={fileInputRef}
+                type="file"
+                accept={SPREADSHEET_ACCEPT}
+                onChange={handleFileChange}
+                className="hidden"
+              />
+            </div>
+            <div className="text-sm text-muted-foreground space-y-1">
+              <p>Rows are matched to existing products by SKU. Matching products are updated, everything else is created.</p>
+              <p>Categories and suppliers are matched by name and created if they don't exist yet.</p>
+            </div>
+            <Button variant="outline" size="sm" onClick={downloadTemplate}>
+              <Download className="w-4 h-4 mr-2" />
+              Download Template
+            </Button>
+          </div>
+        )}
+
+        {step === 'map' && sheet && (
+          <div className="space-y-3">
+            <p className="text-sm text-muted-foreground">
+              {sheet.rows.length} row{sheet.rows.length === 1 ? '' : 's'} found. Columns left as "Don't import" keep their current value on existing products.
+            </p>
+            {IMPORT_FIELDS.map((field) => {
+              const column = mapping[field.key];
+              const sample = column !== undefined ? sheet.rows.find(row => row[column])?.[column] : undefined;
+              return (
+                <div key={field.key} className="grid grid-cols-1 sm:grid-cols-3 gap-2 items-center">
+                  <Label>
+                    {field.label}
+                    {field.key === 'name' && ' *'}
+                  </Label>
+                  <Select
+                    value={column !== undefined ? String(column) : NOT_MAPPED}
+                    onValueChange={(value) => setFieldColumn(field.key, value)}
+                  >
+                    <SelectTrigger>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Don't import</SelectItem>
+                      {sheet.headers.map((header, index) => (
+                        <SelectItem key={index} value={String(index)}>
+                          {header || `Column ${index + 1}`}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-sm text-muted-foreground truncate">
+                    {sample ? `e.g. ${sample}` : ''}
+                  </p>
+                </div>
+              );
+            })}
+            <p className="text-xs text-muted-foreground">* Required for new products</p>
+          </div>
+        )}
+
+        {step === 'preview' && plan && (
+          <div className="space-y-4">
+            <div className="grid grid-cols-3 gap-3">
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">{plan.counts.create}</p>
+                <p className="text-sm text-muted-foreground">To create</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">{plan.counts.update}</p>
+                <p className="text-sm text-muted-foreground">To update</p>
+              </div>
+              <div className="rounded-lg border p-3">
+                <p className="text-2xl font-bold">{plan.counts.skip}</p>
+                <p className="text-sm text-muted-foreground">Skipped</p>
+              </div>
+            </div>
+
+            {plan.limitReason && (
+              <div className="flex items-start gap-2 rounded-lg border border-yellow-200 bg-yellow-50 p-3 text-sm text-yellow-800">
+                <AlertTriangle className="w-4 h-4 mt-0.5 shrink-0" />
+                <p>{plan.limitReason}. Rows over the limit will be skipped; upgrade your plan to import them.</p>
+              </div>
+            )}
+
+            {(plan.newCategories.length > 0 || plan.newSuppliers.length > 0) && (
+              <div className="text-sm space-y-1">
+                {plan.newCategories.length > 0 && (
+                  <p>
+                    <span className="font-medium">New categories:</span> {plan.newCategories.join(', ')}
+                  </p>
+                )}
+                {plan.newSuppliers.length > 0 && (
+                  <p>
+                    <span className="font-medium">New suppliers:</span> {plan.newSuppliers.join(', ')}
+                  </p>
+                )}
+              </div>
+            )}
+
+            <Tabs value={filter} onValueChange={(value) => setFilter(value as ImportAction | 'all')}>
+              <TabsList>
+                <TabsTrigger value="all">All ({plan.rows.length})</TabsTrigger>
+                <TabsTrigger value="create">Create ({plan.counts.create})</TabsTrigger>
+                <TabsTrigger value="update">Update ({plan.counts.update})</TabsTrigger>
+                <TabsTrigger value="skip">Skip ({plan.counts.skip})</TabsTrigger>
+              </TabsList>
+            </Tabs>
+
+            <div className="overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead className="w-16">Row</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {visibleRows.slice(0, PREVIEW_ROW_LIMIT).map((row) => (
+                    <TableRow key={row.rowNumber}>
+                      <TableCell>{row.rowNumber}</TableCell>
+                      <TableCell>
+                        <Badge variant={ACTION_VARIANTS[row.action]}>{ACTION_LABELS[row.action]}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{row.name}</TableCell>
+                      <TableCell>{row.sku || '-'}</TableCell>
+                      <TableCell className="text-sm">{renderRowDetails(row)}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+            {visibleRows.length > PREVIEW_ROW_LIMIT && (
+              <p className="text-xs text-muted-foreground">
+                Showing the first {PREVIEW_ROW_LIMIT} of {visibleRows.length} rows
+              </p>
+            )}
+          </div>
+        )}
+
+        {step === 'importing' && (
+          <div className="space-y-3 py-6">
+            <Progress value={progress.total > 0 ? (progress.done / progress.total) * 100 : 0} />
+            <p className="text-sm text-center text-muted-foreground">
+              {progress.done} of {progress.total} products
+            </p>
+          </div>
+        )}
+
+        {step === 'done' && result && (
+          <div className="space-y-4">
+            <div className="flex items-center gap-2">
+              <CheckCircle2 className="w-5 h-5 text-green-600" />
+              <p>
+                {result.created} created, {result.updated} updated
+                {result.categoriesCreated > 0 && `, ${result.categoriesCreated} new categor${result.categoriesCreated === 1 ? 'y' : 'ies'}`}
+                {result.suppliersCreated > 0 && `, ${result.suppliersCreated} new supplier${result.suppliersCreated === 1 ? '' : 's'}`}
+              </p>
+            </div>
+            {result.failed.length > 0 && (
+              <div className="rounded-lg border border-destructive/50 p-3 space-y-1 text-sm max-h-60 overflow-y-auto">
+                <p className="font-medium text-destructive">Rows with problems</p>
+                {result.failed.map((failure) => (
+                  <p key={`${failure.rowNumber}-${failure.error}`}>
+                    Row {failure.rowNumber} ({failure.name}): {failure.error}
+                  </p>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        <DialogFooter>
+          {step === 'map' && (
+            <>
+              <Button variant="outline" onClick={() => setStep('upload')} disabled={working}>
+                Back
+              </Button>
+              <Button onClick={handleBuildPlan} disabled={working}>
+                {working && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                Preview Import
+              </Button>
+            </>
+          )}
+          {step === 'preview' && plan && (
+            <>
+              <Button variant="outline" onClick={() => setStep('map')}>
+                Back
+              </Button>
+              <Button onClick={handleImport} disabled={plan.counts.create + plan.counts.update === 0}>
+                <Upload className="w-4 h-4 mr-2" />
+                Import {plan.counts.create + plan.counts.update} Product{plan.counts.create + plan.counts.update === 1 ? '' : 's'}
+              </Button>
+            </>
+          )}
+          {step === 'done' && (
+            <Button onClick={() => onOpenChange(false)}>Done</Button>
+          )}
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -5,7 +5,7 @@ import { Input } from "@/components/ui/input";
 import { Badge } from "@/components/ui/badge";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/components/ui/sheet";
-import { Plus, Package, AlertTriangle, Edit, Trash2, Loader2, Settings, TrendingUp, Download, FolderOpen, History, MoreVertical, Filter, Grid3X3, List, Globe } from "lucide-react";
+import { Plus, Package, AlertTriangle, Edit, Trash2, Loader2, Settings, TrendingUp, Download, FolderOpen, History, MoreVertical, Filter, Grid3X3, List, Globe, Printer, Upload, ClipboardList, Layers, ArrowLeftRight } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { SecureButton } from "@/components/auth/SecureAction";
@@ -19,10 +19,13 @@ import {
   type FilterOptions
 } from "@/stores/inventoryStore";
 import { AddProductDialog } from "./AddProductDialog";
+import { ImportProductsDialog } from "./ImportProductsDialog";
 import { EditProductDialog } from "./EditProductDialog";
 import { DeleteProductDialog } from "./DeleteProductDialog";
 import { StockAdjustmentDialog } from "./StockAdjustmentDialog";
 import { SuppliersView } from "./SuppliersView";
+import { PurchaseOrdersView } from "@/components/purchase-orders/PurchaseOrdersView";
+import { StockTransfersView } from "@/components/stock-transfers/StockTransfersView";
 import { CategoriesView } from "./CategoriesView";
 import { FilteredInventoryView } from "./FilteredInventoryView";
 import { PageHeader, PageLayout } from "@/components/common/PageHeader";
@@ -32,6 +35,9 @@ import { FilterOptions } from "./AdvancedFilters";
 import { ExportDialog } from "./ExportDialog";
 import { ProductHistoryModal } from "./ProductHistoryModal";
 import { ProductPublicVisibilityDialog } from "./ProductPublicVisibilityDialog";
+import { BarcodeLabelDialog } from "./BarcodeLabelDialog";
+import { ProductVariantsDialog } from "./ProductVariantsDialog";
+import { VariantStockBreakdown } from "./VariantStockBreakdown";
 import { Checkbox } from "@/components/ui/checkbox";
 import { useTax } from "@/hooks/useTax";
 import { ResponsiveSearch } from "@/components/ui/responsive-search";
@@ -113,9 +119,14 @@ export function InventoryView() {
 
   // Local UI states that should remain local
   const [showSuppliersView, setShowSuppliersView] = useState(false);
+  const [showPurchaseOrdersView, setShowPurchaseOrdersView] = useState(false);
+  const [showStockTransfersView, setShowStockTransfersView] = useState(false);
   const [showCategoriesView, setShowCategoriesView] = useState(false);
   const [showMobileFilters, setShowMobileFilters] = useState(false);
   const [showMobileActions, setShowMobileActions] = useState(false);
+  const [showLabelDialog, setShowLabelDialog] = useState(false);
+  const [showImportDialog, setShowImportDialog] = useState(false);
+  const [variantsProduct, setVariantsProduct] = useState<Product | null>(null);
 
   useEffect(() => {
     const storeId = currentStoreId || currentStore?.id;
@@ -132,6 +143,7 @@ export function InventoryView() {
       const searchLower = filters.search.toLowerCase();
       const matchesSearch = item.name.toLowerCase().includes(searchLower) ||
                            item.sku?.toLowerCase().includes(searchLower) ||
+                           item.product_barcodes?.some(entry => entry.barcode.toLowerCase().includes(searchLower)) ||
                            item.description?.toLowerCase().includes(searchLower);
       if (!matchesSearch) return false;
     }
@@ -240,6 +252,15 @@ export function InventoryView() {
     handleDialogClose();
   };
 
+  const handleProductsImported = () => {
+    const storeId = currentStoreId || currentStore?.id;
+    if (storeId) {
+      fetchProducts(storeId);
+      fetchCategories(storeId);
+      fetchSuppliers(storeId);
+    }
+  };
+
   // Bulk operations handlers - use Zustand actions
   const selectProduct = useInventoryStore(state => state.selectProduct);
   const selectAllProducts = useInventoryStore(state => state.selectAllProducts);
@@ -283,6 +304,32 @@ export function InventoryView() {
     );
   }
 
+  // Show purchase orders view if requested
+  if (showPurchaseOrdersView) {
+    return (
+      <PurchaseOrdersView
+        onClose={() => {
+          setShowPurchaseOrdersView(false);
+          // Receiving changes stock levels and costs
+          if (currentStore?.id) fetchProducts(currentStore.id);
+        }}
+      />
+    );
+  }
+
+  // Show stock transfers view if requested
+  if (showStockTransfersView) {
+    return (
+      <StockTransfersView
+        onClose={() => {
+          setShowStockTransfersView(false);
+          // Dispatching and receiving change stock levels
+          if (currentStore?.id) fetchProducts(currentStore.id);
+        }}
+      />
+    );
+  }
+
   // Show categories view if requested
   if (showCategoriesView) {
     return (
@@ -352,6 +399,16 @@ export function InventoryView() {
             </Sheet>
 
             {/* Desktop Actions */}
+            <SecureButton
+              permission="manage_inventory"
+              variant="outline"
+              size="sm"
+              onClick={() => setShowImportDialog(true)}
+              className="hidden sm:flex"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              <span className="hidden md:inline">Import</span>
+            </SecureButton>
             <Button
               variant="outline"
               size="sm"
@@ -380,6 +437,24 @@ export function InventoryView() {
               <Settings className="w-4 h-4 mr-2" />
               <span className="hidden lg:inline">Suppliers</span>
             </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowPurchaseOrdersView(true)}
+              className="hidden sm:flex"
+            >
+              <ClipboardList className="w-4 h-4 mr-2" />
+              <span className="hidden lg:inline">Purchase Orders</span>
+            </Button>
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setShowStockTransfersView(true)}
+              className="hidden sm:flex"
+            >
+              <ArrowLeftRight className="w-4 h-4 mr-2" />
+              <span className="hidden lg:inline">Transfers</span>
+            </Button>
 
             {/* Add Product Button */}
             <SecureButton
@@ -451,7 +526,7 @@ export function InventoryView() {
           <ResponsiveSearch
             searchValue={filters.search}
             onSearchChange={(value) => setFilters({ ...filters, search: value })}
-            placeholder="Search products by name or SKU..."
+            placeholder="Search products by name, SKU or barcode..."
             showFilters={true}
             filterCount={Object.values(filters).filter(v => v && v !== 'all').length}
             onFilterToggle={() => setShowMobileFilters(true)}
@@ -575,6 +650,7 @@ export function InventoryView() {
                                   <AlertTriangle className="w-3 h-3 text-destructive" />
                                 )}
                               </div>
+                              <VariantStockBreakdown product={item} limit={2} />
                             </div>
                             <div>
                               <span className="text-muted-foreground">Price:</span>
@@ -614,6 +690,15 @@ export function InventoryView() {
                               <Edit className="w-3 h-3 mr-1" />
                               Edit
                             </SecureButton>
+                            <SecureButton
+                              permission="manage_inventory"
+                              variant="outline"
+                              size="sm"
+                              onClick={() => setVariantsProduct(item)}
+                              title="Variants"
+                            >
+                              <Layers className="w-3 h-3" />
+                            </SecureButton>
                             <SecureButton
                               permission="manage_inventory"
                               variant="outline"
@@ -716,6 +801,7 @@ export function InventoryView() {
                           <AlertTriangle className="w-4 h-4 text-warning" />
                         )}
                       </div>
+                      <VariantStockBreakdown product={item} />
                     </TableCell>
                     <TableCell className="font-medium">${item.price.toFixed(2)}</TableCell>
                     <TableCell>${item.cost?.toFixed(2) || '-'}</TableCell>
@@ -756,6 +842,15 @@ export function InventoryView() {
                         >
                           <Edit className="w-3 h-3" />
                         </SecureButton>
+                        <SecureButton
+                          permission="manage_inventory"
+                          size="sm"
+                          variant="outline"
+                          onClick={() => setVariantsProduct(item)}
+                          title="Variants"
+                        >
+                          <Layers className="w-3 h-3" />
+                        </SecureButton>
                         <SecureButton
                           permission="manage_inventory"
                           size="sm"
@@ -823,6 +918,25 @@ export function InventoryView() {
         }}
       />
 
+      <ProductVariantsDialog
+        product={variantsProduct}
+        open={variantsProduct !== null}
+        onOpenChange={(open) => !open && setVariantsProduct(null)}
+        onUpdate={handleProductUpdated}
+      />
+
+      <BarcodeLabelDialog
+        open={showLabelDialog}
+        onOpenChange={setShowLabelDialog}
+        products={selectedProducts}
+      />
+
+      <ImportProductsDialog
+        open={showImportDialog}
+        onOpenChange={setShowImportDialog}
+        onImported={handleProductsImported}
+      />
+
       <ExportDialog
         open={showExportDialog}
         onOpenChange={setShowExportDialog}
@@ -850,6 +964,7 @@ export function InventoryView() {
           setSelectedProducts([]);
         }}
         onBulkStockAdjustment={handleBulkStockAdjustment}
+        onPrintLabels={() => setShowLabelDialog(true)}
       />
 
       {/* Enhanced Mobile Filters using ResponsiveFilters */}
@@ -859,7 +974,7 @@ export function InventoryView() {
             id: 'search',
             label: 'Search Products',
             type: 'input',
-            placeholder: 'Search by name or SKU...'
+            placeholder: 'Search by name, SKU or barcode...'
           },
           {
             id: 'category',
@@ -908,6 +1023,19 @@ export function InventoryView() {
               Add Product
             </SecureButton>
 
+            <SecureButton
+              permission="manage_inventory"
+              variant="outline"
+              onClick={() => {
+                setShowImportDialog(true);
+                setShowMobileActions(false);
+              }}
+              className="w-full justify-start"
+            >
+              <Upload className="w-4 h-4 mr-2" />
+              Import Products
+            </SecureButton>
+
             <Button
               variant="outline"
               onClick={() => {
@@ -932,6 +1060,30 @@ export function InventoryView() {
               Manage Suppliers
             </Button>
 
+            <Button
+              variant="outline"
+              onClick={() => {
+                setShowPurchaseOrdersView(true);
+                setShowMobileActions(false);
+              }}
+              className="w-full justify-start"
+            >
+              <ClipboardList className="w-4 h-4 mr-2" />
+              Purchase Orders
+            </Button>
+
+            <Button
+              variant="outline"
+              onClick={() => {
+                setShowStockTransfersView(true);
+                setShowMobileActions(false);
+              }}
+              className="w-full justify-start"
+            >
+              <ArrowLeftRight className="w-4 h-4 mr-2" />
+              Stock Transfers
+            </Button>
+
             <Button
               variant="outline"
               onClick={() => {
@@ -962,6 +1114,17 @@ export function InventoryView() {
                     <Package className="w-4 h-4 mr-2" />
                     Bulk Stock Update
                   </Button>
+                  <Button
+                    variant="outline"
+                    onClick={() => {
+                      setShowLabelDialog(true);
+                      setShowMobileActions(false);
+                    }}
+                    className="w-full justify-start mt-3"
+                  >
+                    <Printer className="w-4 h-4 mr-2" />
+                    Print Barcode Labels
+                  </Button>
                 </div>
               </>
             )}
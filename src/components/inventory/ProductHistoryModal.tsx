@@ -59,6 +59,10 @@ const adjustmentTypeLabels = {
   damage: 'Damage/Loss',
   restock: 'Restock',
   transfer: 'Transfer',
+  layby_reserve: 'Layby Reserved',
+  layby_release: 'Layby Released',
+  order_reserve: 'Order Reserved',
+  order_release: 'Order Released',
 };
 
 const _adjustmentTypeColors = {
@@ -68,6 +72,10 @@ const _adjustmentTypeColors = {
   damage: 'destructive',
   restock: 'success',
   transfer: 'secondary',
+  layby_reserve: 'secondary',
+  layby_release: 'outline',
+  order_reserve: 'secondary',
+  order_release: 'outline',
 } as const;
 
 export function ProductHistoryModal({ open, onOpenChange, product }: ProductHistoryModalProps) {
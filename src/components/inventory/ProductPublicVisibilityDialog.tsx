@@ -11,6 +11,7 @@ import { Globe, Eye, EyeOff, DollarSign, Package } from "lucide-react";
 import { formatCurrency } from "@/lib/taxUtils";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { notifyPlanLimit } from "@/lib/planLimits";
 
 interface Product {
   id: string;
@@ -82,7 +83,9 @@ export function ProductPublicVisibilityDialog({
 
     } catch (error: any) {
       console.error('Error updating product visibility:', error);
-      toast.error(error.message || 'Failed to update product visibility');
+      if (!notifyPlanLimit(error)) {
+        toast.error(error.message || 'Failed to update product visibility');
+      }
     } finally {
       setSaving(false);
     }
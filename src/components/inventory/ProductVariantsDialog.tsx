@@ -1,33 +1,30 @@
-import { useState, useEffect } from 'react';
-import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import { useState, useEffect, useMemo } from 'react';
+import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
-import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
-import { Badge } from '@/components/ui/badge';
-import { Separator } from '@/components/ui/separator';
-import { ScrollArea } from '@/components/ui/scroll-area';
-import { Plus, Trash2, Edit, Save, X, Palette, Ruler, Sparkles } from 'lucide-react';
-import { supabase } from '@/integrations/supabase/client';
+import { Switch } from '@/components/ui/switch';
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from '@/components/ui/table';
+import { Plus, Trash2, Loader2 } from 'lucide-react';
 import { toast } from 'sonner';
-import { formatCurrency } from '@/lib/taxUtils';
-
-interface ProductVariant {
-  id?: string;
-  variant_type: 'color' | 'size' | 'style';
-  variant_name: string;
-  variant_value: string;
-  price_adjustment: number;
-  stock_quantity: number;
-  sku_suffix?: string;
-  is_active: boolean;
-}
+import {
+  buildVariantDrafts,
+  cleanOptions,
+  fetchProductVariants,
+  saveProductVariants,
+  toVariantDraft,
+  variantName,
+  type ProductOption,
+  type VariantDraft,
+} from '@/lib/productVariants';
 
 interface Product {
   id: string;
   name: string;
   price: number;
-  currency?: string;
+  cost?: number | null;
+  stock_quantity?: number | null;
+  has_variants?: boolean;
 }
 
 interface ProductVariantsDialogProps {
@@ -37,314 +34,292 @@ interface ProductVariantsDialogProps {
   onUpdate?: () => void;
 }
 
+interface OptionDraft {
+  name: string;
+  values: string;
+}
+
+// Three axes already make for large tables; more is rarely what the store wants
+const MAX_OPTIONS = 3;
+
+const parseValues = (values: string): string[] =>
+  values.split(',').map(value => value.trim()).filter(Boolean);
+
 export function ProductVariantsDialog({
   product,
   open,
   onOpenChange,
   onUpdate
 }: ProductVariantsDialogProps) {
-  const [variants, setVariants] = useState<ProductVariant[]>([]);
+  const [optionDrafts, setOptionDrafts] = useState<OptionDraft[]>([]);
+  const [variants, setVariants] = useState<VariantDraft[]>([]);
   const [loading, setLoading] = useState(false);
   const [saving, setSaving] = useState(false);
-  const [editingId, setEditingId] = useState<string | null>(null);
-  const [newVariant, setNewVariant] = useState<Partial<ProductVariant>>({
-    variant_type: 'color',
-    variant_name: '',
-    variant_value: '',
-    price_adjustment: 0,
-    stock_quantity: 0,
-    is_active: true
-  });
+
+  const options = useMemo<ProductOption[]>(
+    () => cleanOptions(optionDrafts.map(option => ({ name: option.name, values: parseValues(option.values) }))),
+    [optionDrafts]
+  );
 
   useEffect(() => {
-    if (open && product) {
-      loadVariants();
-    }
+    if (!open || !product) return;
+
+    const loadVariants = async () => {
+      try {
+        setLoading(true);
+        const { options: savedOptions, variants: savedVariants } = await fetchProductVariants(product.id);
+        setOptionDrafts(savedOptions.map(option => ({ name: option.name, values: option.values.join(', ') })));
+        setVariants(savedVariants.map(toVariantDraft));
+      } catch (error) {
+        console.error('Error loading variants:', error);
+        toast.error('Failed to load product variants');
+      } finally {
+        setLoading(false);
+      }
+    };
+
+    loadVariants();
   }, [open, product]);
 
-  const loadVariants = async () => {
+  // Keep one row per combination as options change, holding on to what was already entered
+  useEffect(() => {
     if (!product) return;
+    setVariants(current => buildVariantDrafts(options, current, { price: product.price, cost: product.cost ?? null }));
+  }, [options, product]);
 
-    try {
-      setLoading(true);
-      const { data, error } = await supabase
-        .from('product_variants')
-        .select('*')
-        .eq('product_id', product.id)
-        .order('variant_type', { ascending: true });
+  const updateOption = (index: number, updates: Partial<OptionDraft>) => {
+    setOptionDrafts(current => current.map((option, i) => (i === index ? { ...option, ...updates } : option)));
+  };
 
-      if (error) throw error;
-      setVariants(data || []);
-    } catch (error) {
-      console.error('Error loading variants:', error);
-      toast.error('Failed to load product variants');
-    } finally {
-      setLoading(false);
-    }
+  const updateVariant = (index: number, updates: Partial<VariantDraft>) => {
+    setVariants(current => current.map((variant, i) => (i === index ? { ...variant, ...updates } : variant)));
   };
 
-  const handleAddVariant = async () => {
-    if (!product || !newVariant.variant_name || !newVariant.variant_value) {
-      toast.error('Please fill in all required fields');
-      return;
-    }
+  const applyToAll = (field: 'price' | 'cost') => {
+    const value = variants[0]?.[field] ?? '';
+    setVariants(current => current.map(variant => ({ ...variant, [field]: value })));
+  };
 
-    try {
-      setSaving(true);
-      const { error } = await supabase
-        .from('product_variants')
-        .insert({
-          product_id: product.id,
-          variant_type: newVariant.variant_type,
-          variant_name: newVariant.variant_name,
-          variant_value: newVariant.variant_value,
-          price_adjustment: newVariant.price_adjustment || 0,
-          stock_quantity: newVariant.stock_quantity || 0,
-          sku_suffix: newVariant.sku_suffix || '',
-          is_active: newVariant.is_active !== false
-        });
+  const totalStock = variants.reduce((sum, variant) => sum + (parseInt(variant.stock_quantity) || 0), 0);
 
-      if (error) throw error;
+  const handleSave = async () => {
+    if (!product) return;
 
-      toast.success('Variant added successfully');
-      setNewVariant({
-        variant_type: 'color',
-        variant_name: '',
-        variant_value: '',
-        price_adjustment: 0,
-        stock_quantity: 0,
-        is_active: true
-      });
-      loadVariants();
-    } catch (error) {
-      console.error('Error adding variant:', error);
-      toast.error('Failed to add variant');
-    } finally {
-      setSaving(false);
+    if (optionDrafts.some(option => option.name.trim() && parseValues(option.values).length === 0)) {
+      toast.error('Add at least one value for every option');
+      return;
     }
-  };
-
-  const handleUpdateVariant = async (variantId: string, updates: Partial<ProductVariant>) => {
-    try {
-      setSaving(true);
-      const { error } = await supabase
-        .from('product_variants')
-        .update(updates)
-        .eq('id', variantId);
-
-      if (error) throw error;
 
-      toast.success('Variant updated successfully');
-      setEditingId(null);
-      loadVariants();
-    } catch (error) {
-      console.error('Error updating variant:', error);
-      toast.error('Failed to update variant');
-    } finally {
-      setSaving(false);
+    if (variants.some(variant => variant.price === '' || Number(variant.price) < 0)) {
+      toast.error('Every variant needs a price');
+      return;
     }
-  };
 
-  const handleDeleteVariant = async (variantId: string) => {
-    if (!confirm('Are you sure you want to delete this variant?')) return;
+    if (options.length === 0 && product.has_variants &&
+        !confirm(`Remove all variants from ${product.name}? Its stock will stay at the variants' total.`)) {
+      return;
+    }
 
     try {
       setSaving(true);
-      const { error } = await supabase
-        .from('product_variants')
-        .delete()
-        .eq('id', variantId);
+      const error = await saveProductVariants(product.id, options, options.length > 0 ? variants : []);
 
-      if (error) throw error;
+      if (error) {
+        toast.error(error);
+        return;
+      }
 
-      toast.success('Variant deleted successfully');
-      loadVariants();
+      toast.success(options.length > 0 ? 'Variants saved' : 'Variants removed');
+      onUpdate?.();
+      onOpenChange(false);
     } catch (error) {
-      console.error('Error deleting variant:', error);
-      toast.error('Failed to delete variant');
+      console.error('Error saving variants:', error);
+      toast.error('Failed to save variants');
     } finally {
       setSaving(false);
     }
   };
 
-  const getVariantIcon = (type: string) => {
-    switch (type) {
-      case 'color': return <Palette className="w-4 h-4" />;
-      case 'size': return <Ruler className="w-4 h-4" />;
-      case 'style': return <Sparkles className="w-4 h-4" />;
-      default: return <Sparkles className="w-4 h-4" />;
-    }
-  };
-
-  const formatPrice = (price: number) => {
-    return formatCurrency(price, product?.currency || 'USD');
-  };
-
   if (!product) return null;
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-4xl max-h-[90vh] overflow-hidden flex flex-col">
+      <DialogContent className="max-w-5xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle>Product Variants - {product.name}</DialogTitle>
+          <DialogDescription>
+            Add options such as Size or Colour. Each combination becomes a variant with its own SKU, barcode,
+            price and stock.
+          </DialogDescription>
         </DialogHeader>
 
-        <div className="flex-1 overflow-hidden flex flex-col gap-6">
-          {/* Add New Variant */}
-          <div className="border rounded-lg p-4">
-            <h3 className="font-medium mb-4 flex items-center gap-2">
-              <Plus className="w-4 h-4" />
-              Add New Variant
-            </h3>
-            
-            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
-              <div>
-                <Label htmlFor="variant-type">Type</Label>
-                <Select
-                  value={newVariant.variant_type}
-                  onValueChange={(value: 'color' | 'size' | 'style') => 
-                    setNewVariant(prev => ({ ...prev, variant_type: value }))
-                  }
-                >
-                  <SelectTrigger>
-                    <SelectValue />
-                  </SelectTrigger>
-                  <SelectContent>
-                    <SelectItem value="color">Color</SelectItem>
-                    <SelectItem value="size">Size</SelectItem>
-                    <SelectItem value="style">Style</SelectItem>
-                  </SelectContent>
-                </Select>
-              </div>
-
-              <div>
-                <Label htmlFor="variant-name">Name</Label>
-                <Input
-                  id="variant-name"
-                  value={newVariant.variant_name}
-                  onChange={(e) => setNewVariant(prev => ({ ...prev, variant_name: e.target.value }))}
-                  placeholder="e.g., Red, Large, Premium"
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="variant-value">Value</Label>
-                <Input
-                  id="variant-value"
-                  value={newVariant.variant_value}
-                  onChange={(e) => setNewVariant(prev => ({ ...prev, variant_value: e.target.value }))}
-                  placeholder="e.g., red, L, premium"
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="price-adjustment">Price Adjustment</Label>
-                <Input
-                  id="price-adjustment"
-                  type="number"
-                  step="0.01"
-                  value={newVariant.price_adjustment}
-                  onChange={(e) => setNewVariant(prev => ({ ...prev, price_adjustment: parseFloat(e.target.value) || 0 }))}
-                  placeholder="0.00"
-                />
-              </div>
-
-              <div>
-                <Label htmlFor="stock-quantity">Stock Quantity</Label>
-                <Input
-                  id="stock-quantity"
-                  type="number"
-                  min="0"
-                  value={newVariant.stock_quantity}
-                  onChange={(e) => setNewVariant(prev => ({ ...prev, stock_quantity: parseInt(e.target.value) || 0 }))}
-                  placeholder="0"
-                />
-              </div>
-
-              <div className="flex items-end">
+        {loading ? (
+          <div className="flex items-center justify-center py-12">
+            <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+          </div>
+        ) : (
+          <div className="space-y-6">
+            <div className="space-y-3">
+              <div className="flex items-center justify-between">
+                <h3 className="font-medium">Options</h3>
                 <Button
-                  onClick={handleAddVariant}
-                  disabled={saving || !newVariant.variant_name || !newVariant.variant_value}
-                  className="w-full"
+                  variant="outline"
+                  size="sm"
+                  onClick={() => setOptionDrafts(current => [...current, { name: '', values: '' }])}
+                  disabled={optionDrafts.length >= MAX_OPTIONS}
                 >
-                  {saving ? 'Adding...' : 'Add Variant'}
+                  <Plus className="w-4 h-4 mr-2" />
+                  Add Option
                 </Button>
               </div>
-            </div>
-          </div>
-
-          <Separator />
 
-          {/* Existing Variants */}
-          <div className="flex-1 overflow-hidden">
-            <h3 className="font-medium mb-4">Existing Variants ({variants.length})</h3>
-            
-            {loading ? (
-              <div className="text-center py-8">Loading variants...</div>
-            ) : variants.length === 0 ? (
-              <div className="text-center py-8 text-muted-foreground">
-                No variants added yet. Add your first variant above.
-              </div>
-            ) : (
-              <ScrollArea className="h-full">
-                <div className="space-y-3">
-                  {variants.map((variant) => (
-                    <div key={variant.id} className="border rounded-lg p-4">
-                      <div className="flex items-center justify-between">
-                        <div className="flex items-center gap-3">
-                          {getVariantIcon(variant.variant_type)}
-                          <div>
-                            <div className="font-medium">
-                              {variant.variant_name}
-                              <Badge variant="outline" className="ml-2 text-xs">
-                                {variant.variant_type}
-                              </Badge>
-                            </div>
-                            <div className="text-sm text-muted-foreground">
-                              Value: {variant.variant_value} • 
-                              Stock: {variant.stock_quantity} • 
-                              Price: {formatPrice(product.price + variant.price_adjustment)}
-                              {variant.price_adjustment !== 0 && (
-                                <span className="ml-1">
-                                  ({variant.price_adjustment > 0 ? '+' : ''}{formatPrice(variant.price_adjustment)})
-                                </span>
-                              )}
-                            </div>
-                          </div>
-                        </div>
-                        
-                        <div className="flex items-center gap-2">
-                          <Badge variant={variant.is_active ? "default" : "secondary"}>
-                            {variant.is_active ? "Active" : "Inactive"}
-                          </Badge>
-                          
-                          <Button
-                            variant="outline"
-                            size="sm"
-                            onClick={() => handleDeleteVariant(variant.id!)}
-                            disabled={saving}
-                          >
-                            <Trash2 className="w-4 h-4" />
-                          </Button>
-                        </div>
-                      </div>
+              {optionDrafts.length === 0 ? (
+                <p className="text-sm text-muted-foreground">
+                  {product.has_variants
+                    ? 'Saving with no options removes the variants from this product.'
+                    : 'This product has no variants. Add an option to create them.'}
+                </p>
+              ) : (
+                optionDrafts.map((option, index) => (
+                  <div key={index} className="grid grid-cols-1 md:grid-cols-[1fr_2fr_auto] gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label className="text-xs">Option name</Label>
+                      <Input
+                        value={option.name}
+                        onChange={(e) => updateOption(index, { name: e.target.value })}
+                        placeholder="e.g., Size"
+                      />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-xs">Values (comma separated)</Label>
+                      <Input
+                        value={option.values}
+                        onChange={(e) => updateOption(index, { values: e.target.value })}
+                        placeholder="e.g., S, M, L"
+                      />
                     </div>
-                  ))}
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      onClick={() => setOptionDrafts(current => current.filter((_, i) => i !== index))}
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+
+            {variants.length > 0 && (
+              <div className="space-y-3">
+                <div className="flex items-center justify-between">
+                  <h3 className="font-medium">Variants ({variants.length})</h3>
+                  <span className="text-sm text-muted-foreground">Total stock: {totalStock}</span>
                 </div>
-              </ScrollArea>
+                <div className="border rounded-lg overflow-x-auto">
+                  <Table>
+                    <TableHeader>
+                      <TableRow>
+                        <TableHead>Variant</TableHead>
+                        <TableHead>SKU</TableHead>
+                        <TableHead>Barcode</TableHead>
+                        <TableHead>
+                          <button type="button" className="hover:underline" onClick={() => applyToAll('price')}
+                            title="Copy the first price to every variant">
+                            Price
+                          </button>
+                        </TableHead>
+                        <TableHead>
+                          <button type="button" className="hover:underline" onClick={() => applyToAll('cost')}
+                            title="Copy the first cost to every variant">
+                            Cost
+                          </button>
+                        </TableHead>
+                        <TableHead>Stock</TableHead>
+                        <TableHead>Active</TableHead>
+                      </TableRow>
+                    </TableHeader>
+                    <TableBody>
+                      {variants.map((variant, index) => (
+                        <TableRow key={variantName(options, variant.options)}>
+                          <TableCell className="font-medium whitespace-nowrap">
+                            {variantName(options, variant.options)}
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-28"
+                              value={variant.sku}
+                              onChange={(e) => updateVariant(index, { sku: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-32"
+                              value={variant.barcode}
+                              onChange={(e) => updateVariant(index, { barcode: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-24"
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={variant.price}
+                              onChange={(e) => updateVariant(index, { price: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-24"
+                              type="number"
+                              min="0"
+                              step="0.01"
+                              value={variant.cost}
+                              onChange={(e) => updateVariant(index, { cost: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Input
+                              className="w-20"
+                              type="number"
+                              min="0"
+                              value={variant.stock_quantity}
+                              onChange={(e) => updateVariant(index, { stock_quantity: e.target.value })}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            <Switch
+                              checked={variant.is_active}
+                              onCheckedChange={(checked) => updateVariant(index, { is_active: checked })}
+                            />
+                          </TableCell>
+                        </TableRow>
+                      ))}
+                    </TableBody>
+                  </Table>
+                </div>
+                {!product.has_variants && (product.stock_quantity || 0) > 0 && (
+                  <p className="text-sm text-muted-foreground">
+                    The {product.stock_quantity} currently in stock will be replaced by the variant stock above.
+                  </p>
+                )}
+              </div>
             )}
           </div>
-        </div>
+        )}
 
         <div className="flex justify-end gap-2 pt-4 border-t">
           <Button variant="outline" onClick={() => onOpenChange(false)}>
-            Close
+            Cancel
+          </Button>
+          <Button
+            className="bg-gradient-primary text-white"
+            onClick={handleSave}
+            disabled={saving || loading || (options.length === 0 && !product.has_variants)}
+          >
+            {saving ? 'Saving...' : 'Save Variants'}
           </Button>
-          {onUpdate && (
-            <Button onClick={onUpdate}>
-              Refresh Product
-            </Button>
-          )}
         </div>
       </DialogContent>
     </Dialog>
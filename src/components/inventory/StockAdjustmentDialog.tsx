@@ -1,4 +1,4 @@
-import { useState } from "react";
+import { useState, useEffect } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
@@ -27,6 +27,7 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
 import { Textarea } from "@/components/ui/textarea";
 import { Button } from "@/components/ui/button";
 import { Badge } from "@/components/ui/badge";
@@ -51,6 +52,13 @@ interface Product {
   name: string;
   sku: string;
   stock_quantity: number;
+  has_variants?: boolean;
+  product_variants?: {
+    id: string;
+    name: string;
+    stock_quantity: number;
+    is_active: boolean;
+  }[];
 }
 
 interface StockAdjustmentDialogProps {
@@ -78,6 +86,16 @@ export function StockAdjustmentDialog({
   const user = useUser();
   const [loading, setLoading] = useState(false);
   const [quickAdjustment, setQuickAdjustment] = useState<number>(0);
+  const [variantId, setVariantId] = useState<string>("");
+
+  // Products with variants hold their stock per variant, so one has to be picked
+  const variants = product?.has_variants ? product.product_variants || [] : [];
+  const selectedVariant = variants.find(variant => variant.id === variantId);
+  const currentQuantity = product?.has_variants ? selectedVariant?.stock_quantity ?? 0 : product?.stock_quantity ?? 0;
+
+  useEffect(() => {
+    setVariantId("");
+  }, [product?.id]);
 
   const form = useForm<AdjustmentFormData>({
     resolver: zodResolver(adjustmentSchema),
@@ -89,7 +107,7 @@ export function StockAdjustmentDialog({
   });
 
   const watchedQuantityChange = form.watch('quantity_change');
-  const newQuantity = product ? product.stock_quantity + watchedQuantityChange : 0;
+  const newQuantity = product ? currentQuantity + watchedQuantityChange : 0;
 
   const handleQuickAdjustment = (amount: number) => {
     const currentValue = form.getValues('quantity_change');
@@ -101,8 +119,37 @@ export function StockAdjustmentDialog({
   const onSubmit = async (data: AdjustmentFormData) => {
     if (!currentStore || !user || !product) return;
 
+    if (product.has_variants && !selectedVariant) {
+      toast.error('Choose which variant to adjust');
+      return;
+    }
+
     setLoading(true);
     try {
+      if (selectedVariant) {
+        const { data: result, error } = await supabase.rpc('adjust_variant_stock', {
+          _variant_id: selectedVariant.id,
+          _quantity_change: data.quantity_change,
+          _adjustment_type: data.adjustment_type,
+          _reason: data.reason || null,
+        });
+
+        if (error) throw error;
+
+        const outcome = result as unknown as { success: boolean; error?: string };
+        if (!outcome.success) {
+          toast.error(outcome.error || 'Failed to adjust stock');
+          return;
+        }
+
+        toast.success('Stock adjusted successfully!');
+        form.reset();
+        setQuickAdjustment(0);
+        onStockAdjusted();
+        onOpenChange(false);
+        return;
+      }
+
       const newStockQuantity = product.stock_quantity + data.quantity_change;
       
       if (newStockQuantity < 0) {
@@ -164,10 +211,28 @@ export function StockAdjustmentDialog({
 
         <div className="space-y-4">
           {/* Current Stock Info */}
+          {product.has_variants && (
+            <div className="space-y-2">
+              <Label>Variant</Label>
+              <Select value={variantId} onValueChange={setVariantId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select variant" />
+                </SelectTrigger>
+                <SelectContent>
+                  {variants.map((variant) => (
+                    <SelectItem key={variant.id} value={variant.id}>
+                      {variant.name} ({variant.stock_quantity} in stock){!variant.is_active && ' - inactive'}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div className="bg-muted/50 rounded-lg p-4">
             <div className="flex justify-between items-center mb-2">
               <span className="text-sm font-medium">Current Stock:</span>
-              <Badge variant="outline">{product.stock_quantity}</Badge>
+              <Badge variant="outline">{currentQuantity}</Badge>
             </div>
             <div className="flex justify-between items-center">
               <span className="text-sm font-medium">New Stock:</span>
@@ -322,7 +387,7 @@ export function StockAdjustmentDialog({
                 >
                   Cancel
                 </Button>
-                <Button type="submit" disabled={loading || newQuantity < 0}>
+                <Button type="submit" disabled={loading || newQuantity < 0 || (product.has_variants && !selectedVariant)}>
                   {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
                   Adjust Stock
                 </Button>
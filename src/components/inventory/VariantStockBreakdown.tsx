@@ -0,0 +1,37 @@
+import { Badge } from "@/components/ui/badge";
+import type { Product } from "@/stores/inventoryStore";
+
+interface VariantStockBreakdownProps {
+  product: Pick<Product, 'has_variants' | 'product_variants'>;
+  // Lines shown before collapsing the rest into "+N more"
+  limit?: number;
+}
+
+/**
+ * Per-variant stock under a product's total, for products with variants
+ */
+export function VariantStockBreakdown({ product, limit = 4 }: VariantStockBreakdownProps) {
+  if (!product.has_variants) return null;
+
+  const variants = (product.product_variants || []).filter(variant => variant.is_active);
+  const shown = variants.slice(0, limit);
+
+  return (
+    <div className="mt-1 space-y-0.5">
+      <Badge variant="secondary" className="text-xs">
+        {variants.length} {variants.length === 1 ? 'variant' : 'variants'}
+      </Badge>
+      {shown.map(variant => (
+        <div key={variant.id} className="flex justify-between gap-3 text-xs text-muted-foreground">
+          <span className="truncate">{variant.name}</span>
+          <span className={variant.stock_quantity <= 0 ? 'text-destructive' : ''}>
+            {variant.stock_quantity}
+          </span>
+        </div>
+      ))}
+      {variants.length > shown.length && (
+        <div className="text-xs text-muted-foreground">+{variants.length - shown.length} more</div>
+      )}
+    </div>
+  );
+}
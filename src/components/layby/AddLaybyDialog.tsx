@@ -1,7 +1,8 @@
-import { useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { useForm } from "react-hook-form";
 import { zodResolver } from "@hookform/resolvers/zod";
 import * as z from "zod";
+import { format } from "date-fns";
 import {
   Dialog,
   DialogContent,
@@ -12,116 +13,282 @@ import {
 import {
   Form,
   FormControl,
+  FormDescription,
   FormField,
   FormItem,
   FormLabel,
   FormMessage,
 } from "@/components/ui/form";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
-import { Loader2, Plus } from "lucide-react";
+import { Loader2, Plus, Search, Trash2, Package } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
-import { useUser } from "@/stores/authStore";
-import { supabase } from "@/integrations/supabase/client";
+import { useInventoryStore, useProducts } from "@/stores/inventoryStore";
+import { useLaybyStore, useLaybySettings, type LaybyDraftItem } from "@/stores/laybyStore";
 import { toast } from "sonner";
 import { useTax } from "@/hooks/useTax";
+import { usePaymentMethods } from "@/hooks/usePaymentMethods";
+import {
+  DEFAULT_INSTALLMENTS,
+  DEFAULT_MAX_LAYBY_DURATION_DAYS,
+  DEFAULT_REQUIRE_DEPOSIT_PERCENT,
+  LAYBY_SCHEDULE_TYPES,
+  buildInstallmentSchedule,
+  maxInstallments,
+  minimumDeposit,
+  type LaybyScheduleType,
+} from "@/lib/layby";
 
 const laybySchema = z.object({
   customer_name: z.string().min(1, "Customer name is required"),
   customer_phone: z.string().optional(),
-  total_amount: z.number().min(0.01, "Total amount must be greater than 0"),
-  deposit_amount: z.number().min(0.01, "Deposit amount must be greater than 0"),
+  deposit_amount: z.number().min(0, "Deposit cannot be negative"),
+  deposit_method: z.string().min(1, "Select how the deposit was paid"),
+  schedule_type: z.enum(['weekly', 'bi_weekly', 'monthly']),
+  installments: z.number().int().min(1, "At least one installment is required"),
   notes: z.string().optional(),
 });
 
 type LaybyFormData = z.infer<typeof laybySchema>;
 
+export interface LaybyCustomer {
+  id: string;
+  name: string;
+  phone: string | null;
+  email: string | null;
+}
+
 interface AddLaybyDialogProps {
   open: boolean;
   onOpenChange: (open: boolean) => void;
   onLaybyAdded: () => void;
+  // Prefill from the POS cart
+  initialItems?: LaybyDraftItem[];
+  initialCustomer?: LaybyCustomer | null;
 }
 
-export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDialogProps) {
+const SEARCH_RESULT_LIMIT = 8;
+
+const itemKey = (item: { product_id: string; variant_id: string | null }) =>
+  item.variant_id ? `${item.product_id}:${item.variant_id}` : item.product_id;
+
+export function AddLaybyDialog({
+  open,
+  onOpenChange,
+  onLaybyAdded,
+  initialItems,
+  initialCustomer,
+}: AddLaybyDialogProps) {
   const currentStore = useCurrentStore();
-  const user = useUser();
   const { formatCurrency } = useTax();
+  const { getPaymentOptions } = usePaymentMethods();
+  const products = useProducts();
+  const fetchProducts = useInventoryStore(state => state.fetchProducts);
+  const settings = useLaybySettings();
+  const fetchLaybySettings = useLaybyStore(state => state.fetchLaybySettings);
+  const createLayby = useLaybyStore(state => state.createLayby);
+  const [items, setItems] = useState<LaybyDraftItem[]>([]);
+  const [customerId, setCustomerId] = useState<string | null>(null);
+  const [search, setSearch] = useState("");
   const [loading, setLoading] = useState(false);
 
+  const requireDepositPercent = settings?.require_deposit_percent ?? DEFAULT_REQUIRE_DEPOSIT_PERCENT;
+  const maxDurationDays = settings?.max_layby_duration_days ?? DEFAULT_MAX_LAYBY_DURATION_DAYS;
+  const reservesStock = settings?.inventory_reservation_enabled !== false;
+
   const form = useForm<LaybyFormData>({
     resolver: zodResolver(laybySchema),
     defaultValues: {
       customer_name: "",
       customer_phone: "",
-      total_amount: 0,
       deposit_amount: 0,
+      deposit_method: "cash",
+      schedule_type: "monthly",
+      installments: DEFAULT_INSTALLMENTS.monthly,
       notes: "",
     },
   });
 
-  const totalAmount = form.watch("total_amount") || 0;
+  useEffect(() => {
+    if (open && currentStore?.id && products.length === 0) {
+      fetchProducts(currentStore.id);
+    }
+  }, [open, currentStore?.id, products.length, fetchProducts]);
+
+  // Deposit and duration rules may have changed in the settings dialog since the last layby
+  useEffect(() => {
+    if (open && currentStore?.id) {
+      fetchLaybySettings(currentStore.id);
+    }
+  }, [open, currentStore?.id, fetchLaybySettings]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    form.reset({
+      customer_name: initialCustomer?.name || "",
+      customer_phone: initialCustomer?.phone || "",
+      deposit_amount: 0,
+      deposit_method: "cash",
+      schedule_type: "monthly",
+      installments: DEFAULT_INSTALLMENTS.monthly,
+      notes: "",
+    });
+    setItems(initialItems || []);
+    setCustomerId(initialCustomer?.id || null);
+    setSearch("");
+  }, [open, initialItems, initialCustomer, form]);
+
+  // Something that can be laid by: a product, or one variant of a product with variants
+  const pickableItems = useMemo<LaybyDraftItem[]>(() =>
+    products.flatMap<LaybyDraftItem>(product => product.has_variants
+      ? (product.product_variants || [])
+          .filter(variant => variant.is_active)
+          .map(variant => ({
+            product_id: product.id,
+            variant_id: variant.id,
+            name: product.name,
+            variant_name: variant.name,
+            sku: variant.sku || product.sku || null,
+            price: variant.price,
+            quantity: 1,
+            stock_quantity: variant.stock_quantity,
+          }))
+      : [{
+          product_id: product.id,
+          variant_id: null,
+          name: product.name,
+          variant_name: null,
+          sku: product.sku || null,
+          price: product.price,
+          quantity: 1,
+          stock_quantity: product.stock_quantity,
+        }]), [products]);
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+
+    return pickableItems
+      .filter(item => !items.some(line => itemKey(line) === itemKey(item)))
+      .filter(item =>
+        item.name.toLowerCase().includes(term) ||
+        item.variant_name?.toLowerCase().includes(term) ||
+        item.sku?.toLowerCase().includes(term))
+      .slice(0, SEARCH_RESULT_LIMIT);
+  }, [pickableItems, items, search]);
+
+  const scheduleType = form.watch("schedule_type");
+  const installments = form.watch("installments") || 0;
   const depositAmount = form.watch("deposit_amount") || 0;
-  const balanceRemaining = totalAmount - depositAmount;
+
+  const totalAmount = items.reduce((sum, item) => sum + item.price * item.quantity, 0);
+  const requiredDeposit = minimumDeposit(totalAmount, requireDepositPercent);
+  const installmentLimit = maxInstallments(scheduleType, maxDurationDays);
+  const schedule = buildInstallmentSchedule(totalAmount, depositAmount, scheduleType, installments);
+
+  const addItem = (item: LaybyDraftItem) => {
+    setItems(current => [...current, item]);
+    setSearch("");
+  };
+
+  const updateQuantity = (key: string, quantity: number) => {
+    setItems(current => current.map(item => itemKey(item) === key ? { ...item, quantity } : item));
+  };
+
+  const removeItem = (key: string) => {
+    setItems(current => current.filter(item => itemKey(item) !== key));
+  };
+
+  const handleScheduleTypeChange = (type: LaybyScheduleType) => {
+    form.setValue("schedule_type", type);
+    form.setValue("installments", Math.max(1, Math.min(DEFAULT_INSTALLMENTS[type], maxInstallments(type, maxDurationDays))));
+  };
 
   const onSubmit = async (data: LaybyFormData) => {
-    if (!currentStore || !user) {
-      toast.error("Store or user information not available");
+    if (!currentStore) {
+      toast.error("Store information not available");
+      return;
+    }
+
+    if (items.length === 0) {
+      toast.error("Add at least one product to the layby");
+      return;
+    }
+
+    const invalidItem = items.find(item =>
+      !Number.isInteger(item.quantity) || item.quantity <= 0 || (reservesStock && item.quantity > item.stock_quantity));
+    if (invalidItem) {
+      toast.error(`Check the quantity for ${invalidItem.name}${invalidItem.variant_name ? ` (${invalidItem.variant_name})` : ''}`);
+      return;
+    }
+
+    if (data.deposit_amount < requiredDeposit) {
+      toast.error(`A deposit of at least ${formatCurrency(requiredDeposit)} (${requireDepositPercent}%) is required`);
       return;
     }
 
-    if (data.deposit_amount >= data.total_amount) {
+    if (data.deposit_amount >= totalAmount) {
       toast.error("Deposit amount must be less than the total amount");
       return;
     }
 
-    try {
-      setLoading(true);
-
-      // Generate layby number
-      const { data: laybyNumberData, error: laybyNumberError } = await supabase
-        .rpc('generate_layby_number', { store_id: currentStore.id });
-
-      if (laybyNumberError) {
-        throw laybyNumberError;
-      }
-
-      // Create layby order
-      const { error: laybyError } = await supabase
-        .from('layby_orders')
-        .insert({
-          store_id: currentStore.id,
-          layby_number: laybyNumberData,
-          customer_name: data.customer_name,
-          customer_phone: data.customer_phone || null,
-          total_amount: data.total_amount,
-          deposit_amount: data.deposit_amount,
-          balance_remaining: data.total_amount - data.deposit_amount,
-          status: 'active',
-          notes: data.notes || null,
-          created_by: user.id,
-        });
-
-      if (laybyError) {
-        throw laybyError;
-      }
-
-      toast.success(`Layby order ${laybyNumberData} created successfully`);
-      onLaybyAdded();
-      onOpenChange(false);
-      form.reset();
-
-    } catch (error) {
-      console.error('Error creating layby order:', error);
-      toast.error('Failed to create layby order');
-    } finally {
-      setLoading(false);
+    if (data.installments > installmentLimit) {
+      toast.error(`Laybys can run for at most ${maxDurationDays} days - choose ${installmentLimit} installments or fewer`);
+      return;
+    }
+
+    setLoading(true);
+    const result = await createLayby(currentStore.id, {
+      items,
+      customer_id: customerId,
+      customer_name: data.customer_name,
+      customer_phone: data.customer_phone || null,
+      customer_email: customerId ? initialCustomer?.email || null : null,
+      deposit_amount: data.deposit_amount,
+      deposit_method: data.deposit_method,
+      schedule_type: data.schedule_type,
+      installments: data.installments,
+      notes: data.notes || null,
+    });
+    setLoading(false);
+
+    if (!result) {
+      return;
+    }
+
+    if (!result.success) {
+      // Stock or prices moved since the products were loaded
+      fetchProducts(currentStore.id);
+      toast.error(
+        <div className="space-y-2">
+          <div className="font-semibold text-red-600">Cannot Create Layby</div>
+          <ul className="text-sm space-y-1">
+            {result.errors.map((error, index) => (
+              <li key={index} className="flex items-start gap-1">
+                <span className="text-red-500 mt-0.5">•</span>
+                <span>{error.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>,
+        { duration: 8000 }
+      );
+      return;
+    }
+
+    if (result.layby.inventory_reserved) {
+      fetchProducts(currentStore.id);
     }
+    onLaybyAdded();
+    onOpenChange(false);
   };
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-lg">
+      <DialogContent className="max-w-2xl max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2 text-xl">
             <div className="w-8 h-8 bg-[#2CA01C]/10 rounded-full flex items-center justify-center">
@@ -130,7 +297,9 @@ export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDia
             Create New Layby
           </DialogTitle>
           <DialogDescription>
-            Create a new layby order for a customer with deposit and payment terms.
+            {reservesStock
+              ? "Items are held back from sale until the layby is completed or cancelled."
+              : "Pick the items, take a deposit and set up the payment plan."}
           </DialogDescription>
         </DialogHeader>
 
@@ -139,7 +308,7 @@ export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDia
             {/* Customer Information */}
             <div className="space-y-4">
               <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wide">Customer Information</h3>
-              <div className="grid grid-cols-1 gap-4">
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
                   name="customer_name"
@@ -151,6 +320,11 @@ export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDia
                           placeholder="Enter customer name"
                           className="h-11"
                           {...field}
+                          onChange={(e) => {
+                            // A different name is no longer the customer picked at the till
+                            setCustomerId(null);
+                            field.onChange(e);
+                          }}
                         />
                       </FormControl>
                       <FormMessage />
@@ -178,27 +352,121 @@ export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDia
               </div>
             </div>
 
-            {/* Financial Information */}
+            {/* Items */}
+            <div className="space-y-4">
+              <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wide">Items</h3>
+              <div className="relative">
+                <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                <Input
+                  placeholder="Search products by name or SKU"
+                  value={search}
+                  onChange={(e) => setSearch(e.target.value)}
+                  className="pl-9"
+                />
+              </div>
+              {searchResults.length > 0 && (
+                <div className="border rounded-lg divide-y">
+                  {searchResults.map((item) => {
+                    const unavailable = reservesStock && item.stock_quantity <= 0;
+                    return (
+                      <button
+                        key={itemKey(item)}
+                        type="button"
+                        disabled={unavailable}
+                        onClick={() => addItem(item)}
+                        className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted/50 disabled:opacity-50 disabled:cursor-not-allowed"
+                      >
+                        <span>
+                          {item.name}
+                          {item.variant_name && <span> ({item.variant_name})</span>}
+                          {item.sku && <span className="text-muted-foreground"> - {item.sku}</span>}
+                        </span>
+                        <span className="flex items-center gap-2 text-muted-foreground">
+                          {formatCurrency(item.price)} • {item.stock_quantity > 0 ? `${item.stock_quantity} in stock` : 'Out of stock'}
+                          <Plus className="w-4 h-4" />
+                        </span>
+                      </button>
+                    );
+                  })}
+                </div>
+              )}
+
+              {items.length === 0 ? (
+                <div className="flex flex-col items-center py-6 text-sm text-muted-foreground border rounded-lg border-dashed">
+                  <Package className="w-6 h-6 mb-2" />
+                  Search for the products the customer is laying by
+                </div>
+              ) : (
+                <div className="border rounded-lg divide-y">
+                  {items.map((item) => (
+                    <div key={itemKey(item)} className="flex items-center gap-3 px-3 py-2">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-sm truncate">{item.name}</div>
+                        {item.variant_name && <div className="text-xs text-muted-foreground">{item.variant_name}</div>}
+                        <div className="text-xs text-muted-foreground">{formatCurrency(item.price)} each</div>
+                      </div>
+                      <Input
+                        type="number"
+                        min="1"
+                        max={reservesStock ? item.stock_quantity : undefined}
+                        step="1"
+                        value={item.quantity}
+                        onChange={(e) => updateQuantity(itemKey(item), parseInt(e.target.value) || 0)}
+                        className="w-20 h-9"
+                      />
+                      <div className="w-24 text-right font-medium text-sm">
+                        {formatCurrency(item.price * item.quantity)}
+                      </div>
+                      <Button
+                        type="button"
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => removeItem(itemKey(item))}
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </Button>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Deposit and Payment Plan */}
             <div className="space-y-4">
-              <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wide">Financial Details</h3>
-              <div className="grid grid-cols-2 gap-4">
+              <h3 className="font-medium text-sm text-muted-foreground uppercase tracking-wide">Deposit & Payment Plan</h3>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <FormField
                   control={form.control}
-                  name="total_amount"
+                  name="deposit_amount"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Total Amount *</FormLabel>
+                      <FormLabel>Deposit Amount *</FormLabel>
                       <FormControl>
-                        <Input
-                          type="number"
-                          step="0.01"
-                          min="0.01"
-                          placeholder="0.00"
-                          className="h-11"
-                          {...field}
-                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
-                        />
+                        <div className="relative">
+                          <Input
+                            type="number"
+                            step="0.01"
+                            min={requiredDeposit}
+                            max={totalAmount}
+                            placeholder="0.00"
+                            className="h-11 pr-14"
+                            {...field}
+                            onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          />
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            className="absolute right-1 top-1/2 -translate-y-1/2 h-8 px-2 text-xs font-medium"
+                            onClick={() => field.onChange(requiredDeposit)}
+                          >
+                            Min
+                          </Button>
+                        </div>
                       </FormControl>
+                      <FormDescription>
+                        At least {requireDepositPercent}%{totalAmount > 0 && ` (${formatCurrency(requiredDeposit)})`}
+                      </FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -206,22 +474,72 @@ export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDia
 
                 <FormField
                   control={form.control}
-                  name="deposit_amount"
+                  name="deposit_method"
                   render={({ field }) => (
                     <FormItem>
-                      <FormLabel>Deposit Amount *</FormLabel>
+                      <FormLabel>Deposit Paid By *</FormLabel>
+                      <Select onValueChange={field.onChange} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="h-11">
+                            <SelectValue placeholder="Select payment method" />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {getPaymentOptions().map((option) => (
+                            <SelectItem key={option.id} value={option.id}>
+                              {option.name}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="schedule_type"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Payment Frequency</FormLabel>
+                      <Select onValueChange={(value) => handleScheduleTypeChange(value as LaybyScheduleType)} value={field.value}>
+                        <FormControl>
+                          <SelectTrigger className="h-11">
+                            <SelectValue />
+                          </SelectTrigger>
+                        </FormControl>
+                        <SelectContent>
+                          {LAYBY_SCHEDULE_TYPES.map((type) => (
+                            <SelectItem key={type.value} value={type.value}>
+                              {type.label}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="installments"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Installments</FormLabel>
                       <FormControl>
                         <Input
                           type="number"
-                          step="0.01"
-                          min="0.01"
-                          max={totalAmount}
-                          placeholder="0.00"
+                          min="1"
+                          max={installmentLimit}
+                          step="1"
                           className="h-11"
                           {...field}
-                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                          onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
                         />
                       </FormControl>
+                      <FormDescription>Up to {installmentLimit} within {maxDurationDays} days</FormDescription>
                       <FormMessage />
                     </FormItem>
                   )}
@@ -229,24 +547,37 @@ export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDia
               </div>
 
               {/* Balance Summary */}
-              {totalAmount > 0 && depositAmount > 0 && (
-                <div className="p-4 bg-muted/30 rounded-lg border">
-                  <div className="flex justify-between items-center mb-2">
+              {totalAmount > 0 && (
+                <div className="p-4 bg-muted/30 rounded-lg border space-y-2">
+                  <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Total Amount:</span>
                     <span className="font-medium">{formatCurrency(totalAmount)}</span>
                   </div>
-                  <div className="flex justify-between items-center mb-2">
+                  <div className="flex justify-between items-center">
                     <span className="text-sm text-muted-foreground">Deposit:</span>
                     <span className="font-medium text-[#2CA01C]">{formatCurrency(depositAmount)}</span>
                   </div>
-                  <div className="border-t pt-2 mt-2">
+                  <div className="border-t pt-2">
                     <div className="flex justify-between items-center">
                       <span className="font-medium">Balance Remaining:</span>
                       <span className="text-lg font-bold text-orange-500">
-                        {formatCurrency(balanceRemaining)}
+                        {formatCurrency(Math.max(0, totalAmount - depositAmount))}
                       </span>
                     </div>
                   </div>
+
+                  {schedule.length > 0 && (
+                    <div className="border-t pt-2 space-y-1">
+                      {schedule.map((installment) => (
+                        <div key={installment.payment_number} className="flex justify-between text-sm">
+                          <span className="text-muted-foreground">
+                            #{installment.payment_number} • {format(installment.due_date, 'MMM dd, yyyy')}
+                          </span>
+                          <span>{formatCurrency(installment.amount_due)}</span>
+                        </div>
+                      ))}
+                    </div>
+                  )}
                 </div>
               )}
             </div>
@@ -286,7 +617,7 @@ export function AddLaybyDialog({ open, onOpenChange, onLaybyAdded }: AddLaybyDia
               </Button>
               <Button
                 type="submit"
-                disabled={loading || !totalAmount || !depositAmount}
+                disabled={loading || items.length === 0}
                 className="flex-1 bg-[#2CA01C] hover:bg-[#2CA01C]/90"
               >
                 {loading && <Loader2 className="mr-2 h-4 w-4 animate-spin" />}
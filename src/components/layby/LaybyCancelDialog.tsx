@@ -0,0 +1,355 @@
+import { useEffect, useState } from "react";
+import { useForm } from "react-hook-form";
+import { zodResolver } from "@hookform/resolvers/zod";
+import * as z from "zod";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "@/components/ui/dialog";
+import {
+  Form,
+  FormControl,
+  FormDescription,
+  FormField,
+  FormItem,
+  FormLabel,
+  FormMessage,
+} from "@/components/ui/form";
+import { Input } from "@/components/ui/input";
+import { Textarea } from "@/components/ui/textarea";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Loader2, XCircle, ArrowLeft, Package } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useLaybyStore, useLaybySettings, type LaybyOrder } from "@/stores/laybyStore";
+import { useTax } from "@/hooks/useTax";
+import { usePaymentMethods } from "@/hooks/usePaymentMethods";
+import { laybyAmountPaid } from "@/lib/layby";
+
+const cancelSchema = z.object({
+  reason: z.string().trim().min(3, "Tell us why the layby is being cancelled"),
+  outcome: z.enum(["refund", "forfeit"]),
+  restocking_fee: z.number().min(0, "The fee cannot be negative"),
+  refund_method: z.string().min(1, "Select how the refund is paid"),
+});
+
+type CancelFormData = z.infer<typeof cancelSchema>;
+
+interface LaybyCancelDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  laybyOrder: LaybyOrder | null;
+  onLaybyCancelled: () => void;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export function LaybyCancelDialog({
+  open,
+  onOpenChange,
+  laybyOrder,
+  onLaybyCancelled
+}: LaybyCancelDialogProps) {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const { getPaymentOptions } = usePaymentMethods();
+  const laybySettings = useLaybySettings();
+  const fetchLaybySettings = useLaybyStore(state => state.fetchLaybySettings);
+  const cancelLayby = useLaybyStore(state => state.cancelLayby);
+  const [step, setStep] = useState<"details" | "review">("details");
+  const [loading, setLoading] = useState(false);
+
+  const form = useForm<CancelFormData>({
+    resolver: zodResolver(cancelSchema),
+    defaultValues: {
+      reason: "",
+      outcome: "refund",
+      restocking_fee: 0,
+      refund_method: "cash",
+    },
+  });
+
+  // What the customer has handed over so far: the deposit plus every payment
+  const amountPaid = laybyOrder ? laybyAmountPaid(laybyOrder) : 0;
+  const feePercent = laybySettings?.default_cancellation_fee_percent ?? 0;
+
+  useEffect(() => {
+    if (open && currentStore?.id) {
+      fetchLaybySettings(currentStore.id);
+    }
+  }, [open, currentStore?.id, fetchLaybySettings]);
+
+  // Start each cancellation from the store's default fee
+  useEffect(() => {
+    if (!open || !laybyOrder) return;
+
+    setStep("details");
+    form.reset({
+      reason: "",
+      outcome: "refund",
+      restocking_fee: Math.min(amountPaid, roundCurrency(laybyOrder.total_amount * feePercent / 100)),
+      refund_method: "cash",
+    });
+  }, [open, laybyOrder, amountPaid, feePercent, form]);
+
+  const outcome = form.watch("outcome");
+  const restockingFee = Math.min(form.watch("restocking_fee") || 0, amountPaid);
+  const refundAmount = outcome === "forfeit" ? 0 : roundCurrency(amountPaid - restockingFee);
+  const releasedItems = laybyOrder?.inventory_reserved ? laybyOrder.layby_items ?? [] : [];
+
+  const handleReview = async () => {
+    const valid = await form.trigger();
+    if (valid) setStep("review");
+  };
+
+  const onSubmit = async (data: CancelFormData) => {
+    if (!currentStore || !laybyOrder) return;
+
+    setLoading(true);
+    try {
+      const result = await cancelLayby(currentStore.id, laybyOrder.id, {
+        reason: data.reason,
+        restocking_fee: data.outcome === "forfeit" ? 0 : data.restocking_fee,
+        refund_method: data.refund_method,
+        forfeit: data.outcome === "forfeit",
+      });
+
+      if (result?.success) {
+        onLaybyCancelled();
+        onOpenChange(false);
+      }
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  if (!laybyOrder) return null;
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader className="space-y-2">
+          <DialogTitle className="flex items-center gap-2">
+            <XCircle className="w-5 h-5 text-destructive" />
+            Cancel Layby
+          </DialogTitle>
+          <DialogDescription className="text-sm">
+            {laybyOrder.customer_name} • {laybyOrder.layby_number}
+          </DialogDescription>
+        </DialogHeader>
+
+        <Form {...form}>
+          <form onSubmit={form.handleSubmit(onSubmit)} className="space-y-4">
+            {step === "details" ? (
+              <>
+                <div className="flex justify-between items-center p-3 bg-muted/30 rounded-lg">
+                  <div>
+                    <div className="text-sm text-muted-foreground">Paid So Far</div>
+                    <div className="text-xl font-bold">{formatCurrency(amountPaid)}</div>
+                  </div>
+                  <div className="text-right">
+                    <div className="text-sm text-muted-foreground">Total</div>
+                    <div className="font-semibold">{formatCurrency(laybyOrder.total_amount)}</div>
+                  </div>
+                </div>
+
+                <FormField
+                  control={form.control}
+                  name="reason"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>Reason *</FormLabel>
+                      <FormControl>
+                        <Textarea
+                          placeholder="e.g. Customer changed their mind"
+                          className="min-h-[70px] resize-none"
+                          {...field}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                <FormField
+                  control={form.control}
+                  name="outcome"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>What happens to the money paid?</FormLabel>
+                      <FormControl>
+                        <RadioGroup value={field.value} onValueChange={field.onChange} className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <RadioGroupItem value="refund" id="layby-cancel-refund" />
+                            <label htmlFor="layby-cancel-refund" className="text-sm">
+                              Refund the customer, less a restocking fee
+                            </label>
+                          </div>
+                          <div className="flex items-center gap-2">
+                            <RadioGroupItem value="forfeit" id="layby-cancel-forfeit" />
+                            <label htmlFor="layby-cancel-forfeit" className="text-sm">
+                              Customer forfeits everything paid
+                            </label>
+                          </div>
+                        </RadioGroup>
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+
+                {outcome === "refund" && (
+                  <>
+                    <FormField
+                      control={form.control}
+                      name="restocking_fee"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Restocking Fee</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              step="0.01"
+                              min="0"
+                              max={amountPaid}
+                              className="h-10"
+                              {...field}
+                              onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormDescription>
+                            {feePercent > 0
+                              ? `Store default is ${feePercent}% of the layby total`
+                              : 'No default cancellation fee is set for this store'}
+                          </FormDescription>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="refund_method"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel>Refund Paid By *</FormLabel>
+                          <Select onValueChange={field.onChange} value={field.value}>
+                            <FormControl>
+                              <SelectTrigger className="h-10">
+                                <SelectValue placeholder="Select payment method" />
+                              </SelectTrigger>
+                            </FormControl>
+                            <SelectContent>
+                              {getPaymentOptions().map((option) => (
+                                <SelectItem key={option.id} value={option.id}>
+                                  {option.name}
+                                </SelectItem>
+                              ))}
+                            </SelectContent>
+                          </Select>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </>
+                )}
+
+                <div className="flex gap-3 pt-1">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => onOpenChange(false)}
+                    className="flex-1"
+                  >
+                    Keep Layby
+                  </Button>
+                  <Button type="button" onClick={handleReview} className="flex-1">
+                    Review
+                  </Button>
+                </div>
+              </>
+            ) : (
+              <>
+                <div className="p-3 bg-muted/30 rounded-lg border space-y-2 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Paid so far</span>
+                    <span>{formatCurrency(amountPaid)}</span>
+                  </div>
+                  {outcome === "forfeit" ? (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Forfeited</span>
+                      <span className="text-destructive">-{formatCurrency(amountPaid)}</span>
+                    </div>
+                  ) : (
+                    <div className="flex justify-between">
+                      <span className="text-muted-foreground">Restocking fee</span>
+                      <span className="text-destructive">-{formatCurrency(restockingFee)}</span>
+                    </div>
+                  )}
+                  <Separator />
+                  <div className="flex justify-between font-semibold">
+                    <span>Refund to customer</span>
+                    <span className="text-[#2CA01C]">{formatCurrency(refundAmount)}</span>
+                  </div>
+                  {refundAmount > 0 && (
+                    <p className="text-xs text-muted-foreground">
+                      Paid out by {getPaymentOptions().find(option => option.id === form.getValues("refund_method"))?.name ?? form.getValues("refund_method")}
+                    </p>
+                  )}
+                </div>
+
+                <div>
+                  <div className="flex items-center gap-2 mb-2">
+                    <Package className="w-4 h-4 text-primary" />
+                    <span className="text-sm font-medium">Back to stock</span>
+                  </div>
+                  {releasedItems.length > 0 ? (
+                    <ul className="space-y-1 text-sm">
+                      {releasedItems.map((item) => (
+                        <li key={item.id} className="flex justify-between">
+                          <span>
+                            {item.products?.name ?? 'Product'}
+                            {item.variant_name && <span className="text-muted-foreground"> ({item.variant_name})</span>}
+                          </span>
+                          <span className="text-muted-foreground">+{item.quantity}</span>
+                        </li>
+                      ))}
+                    </ul>
+                  ) : (
+                    <p className="text-sm text-muted-foreground">No stock was reserved for this layby</p>
+                  )}
+                </div>
+
+                <p className="text-xs text-muted-foreground">
+                  Remaining installments will be skipped. This cannot be undone.
+                </p>
+
+                <div className="flex gap-3 pt-1">
+                  <Button
+                    type="button"
+                    variant="outline"
+                    onClick={() => setStep("details")}
+                    disabled={loading}
+                    className="flex-1"
+                  >
+                    <ArrowLeft className="w-4 h-4 mr-2" />
+                    Back
+                  </Button>
+                  <Button type="submit" variant="destructive" disabled={loading} className="flex-1">
+                    {loading && <Loader2 className="w-4 h-4 animate-spin mr-2" />}
+                    Cancel Layby
+                  </Button>
+                </div>
+              </>
+            )}
+          </form>
+        </Form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -11,6 +11,7 @@ import { Badge } from "@/components/ui/badge";
 import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import {
   Clock,
   User,
@@ -23,7 +24,13 @@ import {
   Loader2,
   Package,
   Calendar,
-  History
+  History,
+  ListChecks,
+  ShoppingBag,
+  Receipt,
+  Bell,
+  MessageCircle,
+  Send
 } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { supabase } from "@/integrations/supabase/client";
@@ -31,22 +38,15 @@ import { toast } from "sonner";
 import { useTax } from "@/hooks/useTax";
 import { usePaymentMethods } from "@/hooks/usePaymentMethods";
 import { format } from "date-fns";
-
-interface LaybyOrder {
-  id: string;
-  layby_number: string;
-  customer_name: string;
-  customer_phone: string | null;
-  customer_email: string | null;
-  total_amount: number;
-  deposit_amount: number;
-  balance_remaining: number;
-  status: string;
-  due_date: string | null;
-  created_at: string;
-  completion_date: string | null;
-  notes: string | null;
-}
+import { useLaybyStore, type LaybyCharge, type LaybyNotification, type LaybyOrder, type LaybyPaymentSchedule } from "@/stores/laybyStore";
+import { laybyAmountOwed, laybyAmountPaid } from "@/lib/layby";
+import {
+  LAYBY_NOTIFICATION_CHANNELS,
+  laybyNotificationTypeFor,
+  laybyNotificationTypeLabels,
+  laybyNotificationWhatsAppUrl,
+  type LaybyNotificationChannel
+} from "@/lib/laybyNotifications";
 
 interface LaybyPayment {
   id: string;
@@ -64,19 +64,32 @@ interface LaybyDetailsModalProps {
   laybyOrder: LaybyOrder | null;
   onLaybyUpdated?: () => void;
   onPaymentRequested?: (laybyOrder: LaybyOrder) => void;
+  onCancelRequested?: (laybyOrder: LaybyOrder) => void;
 }
 
 export function LaybyDetailsModal({
   open,
   onOpenChange,
   laybyOrder,
-  onPaymentRequested
+  onLaybyUpdated,
+  onPaymentRequested,
+  onCancelRequested
 }: LaybyDetailsModalProps) {
+  const currentStore = useCurrentStore();
+  const completeLayby = useLaybyStore(state => state.completeLayby);
+  const queueLaybyNotification = useLaybyStore(state => state.queueLaybyNotification);
+  const markLaybyNotificationSent = useLaybyStore(state => state.markLaybyNotificationSent);
   const { formatCurrency } = useTax();
   const { getPaymentMethodDisplay } = usePaymentMethods();
   const [loading] = useState(false);
   const [payments, setPayments] = useState<LaybyPayment[]>([]);
   const [loadingPayments, setLoadingPayments] = useState(false);
+  const [schedule, setSchedule] = useState<LaybyPaymentSchedule[]>([]);
+  const [charges, setCharges] = useState<LaybyCharge[]>([]);
+  const [completing, setCompleting] = useState(false);
+  const [notifications, setNotifications] = useState<LaybyNotification[]>([]);
+  const [reminderChannel, setReminderChannel] = useState<LaybyNotificationChannel>('sms');
+  const [sendingReminder, setSendingReminder] = useState(false);
 
   // Fetch payment history
   const fetchPaymentHistory = async () => {
@@ -103,13 +116,121 @@ export function LaybyDetailsModal({
     }
   };
 
-  // Fetch payment history when modal opens
+  const fetchPaymentSchedule = async () => {
+    if (!laybyOrder) return;
+
+    const { data, error } = await supabase
+      .from('layby_payment_schedules')
+      .select('id, layby_order_id, payment_number, due_date, amount_due, amount_paid, status, late_fee_amount')
+      .eq('layby_order_id', laybyOrder.id)
+      .order('payment_number');
+
+    if (error) {
+      console.error('Error fetching payment schedule:', error);
+      return;
+    }
+
+    setSchedule(data || []);
+  };
+
+  const fetchCharges = async () => {
+    if (!laybyOrder) return;
+
+    const { data, error } = await supabase
+      .from('layby_charges')
+      .select('id, layby_order_id, schedule_id, charge_type, amount, charged_on, description')
+      .eq('layby_order_id', laybyOrder.id)
+      .order('charged_on');
+
+    if (error) {
+      console.error('Error fetching layby charges:', error);
+      return;
+    }
+
+    setCharges((data || []) as LaybyCharge[]);
+  };
+
+  const fetchNotifications = async () => {
+    if (!laybyOrder) return;
+
+    const { data, error } = await supabase
+      .from('layby_notifications')
+      .select('id, layby_order_id, schedule_id, notification_type, channel, recipient_phone, recipient_email, subject, message, status, attempts, error_message, sent_at, created_at')
+      .eq('layby_order_id', laybyOrder.id)
+      .order('created_at', { ascending: false });
+
+    if (error) {
+      console.error('Error fetching layby notifications:', error);
+      return;
+    }
+
+    setNotifications((data || []) as LaybyNotification[]);
+  };
+
+  // Fetch payment history, schedule, charges and reminders when modal opens
   useEffect(() => {
     if (open && laybyOrder) {
       fetchPaymentHistory();
+      fetchPaymentSchedule();
+      fetchCharges();
+      fetchNotifications();
+      setReminderChannel(laybyOrder.customer_phone ? 'sms' : 'email');
     }
   }, [open, laybyOrder]);
 
+  const handleSendReminder = async () => {
+    if (!laybyOrder) return;
+
+    setSendingReminder(true);
+    try {
+      const id = await queueLaybyNotification(laybyOrder.id, laybyNotificationTypeFor(laybyOrder.status), reminderChannel);
+      if (id) fetchNotifications();
+    } finally {
+      setSendingReminder(false);
+    }
+  };
+
+  // WhatsApp messages are sent by staff through a wa.me link rather than a provider
+  const handleSendWhatsApp = async (notification: LaybyNotification) => {
+    const url = laybyNotificationWhatsAppUrl(notification);
+    if (!url) return;
+
+    window.open(url, '_blank', 'noopener,noreferrer');
+    if (await markLaybyNotificationSent(notification.id, 'whatsapp_link')) {
+      fetchNotifications();
+    }
+  };
+
+  const getNotificationBadge = (notification: LaybyNotification) => {
+    switch (notification.status) {
+      case 'sent':
+        return <Badge className="bg-success text-success-foreground text-xs">Sent</Badge>;
+      case 'failed':
+        return <Badge variant="destructive" className="text-xs">Failed</Badge>;
+      case 'cancelled':
+        return <Badge variant="secondary" className="text-xs">Cancelled</Badge>;
+      case 'sending':
+        return <Badge variant="outline" className="text-xs">Sending</Badge>;
+      default:
+        return <Badge variant="outline" className="text-xs">Queued</Badge>;
+    }
+  };
+
+  const getInstallmentBadge = (installment: LaybyPaymentSchedule) => {
+    switch (installment.status) {
+      case 'paid':
+        return <Badge className="bg-success text-success-foreground text-xs">Paid</Badge>;
+      case 'overdue':
+        return <Badge className="bg-warning text-warning-foreground text-xs">Overdue</Badge>;
+      case 'skipped':
+        return <Badge variant="secondary" className="text-xs">Skipped</Badge>;
+      default:
+        return (installment.amount_paid || 0) > 0
+          ? <Badge variant="outline" className="text-xs">Part paid</Badge>
+          : <Badge variant="outline" className="text-xs">Due</Badge>;
+    }
+  };
+
   const getStatusBadge = (status: string) => {
     switch (status) {
       case 'active':
@@ -131,8 +252,28 @@ export function LaybyDetailsModal({
     }
   };
 
+  // Laybys paid off before completion created sales orders still need one
+  const handleCreateSalesOrder = async () => {
+    if (!laybyOrder || !currentStore?.id) return;
+
+    setCompleting(true);
+    try {
+      const result = await completeLayby(currentStore.id, laybyOrder.id);
+      if (result?.success) {
+        onLaybyUpdated?.();
+        onOpenChange(false);
+      }
+    } finally {
+      setCompleting(false);
+    }
+  };
+
   if (!laybyOrder) return null;
 
+  const amountOwed = laybyAmountOwed(laybyOrder);
+  const amountPaid = laybyAmountPaid(laybyOrder);
+  const progress = amountOwed > 0 ? Math.round((amountPaid / amountOwed) * 100) : 0;
+
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
       <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
@@ -168,12 +309,12 @@ export function LaybyDetailsModal({
             {/* Financial Summary */}
             <div className="grid grid-cols-3 gap-2">
               <div className="text-center p-2 bg-muted/30 rounded">
-                <div className="text-sm font-bold text-foreground">{formatCurrency(laybyOrder.total_amount)}</div>
+                <div className="text-sm font-bold text-foreground">{formatCurrency(amountOwed)}</div>
                 <div className="text-xs text-muted-foreground">Total</div>
               </div>
               <div className="text-center p-2 bg-muted/30 rounded">
                 <div className="text-sm font-bold text-success">
-                  {formatCurrency(laybyOrder.total_amount - laybyOrder.balance_remaining)}
+                  {formatCurrency(amountPaid)}
                 </div>
                 <div className="text-xs text-muted-foreground">Paid</div>
               </div>
@@ -191,13 +332,13 @@ export function LaybyDetailsModal({
             <div className="space-y-2">
               <div className="flex justify-between text-sm text-muted-foreground">
                 <span>Progress</span>
-                <span>{Math.round(((laybyOrder.total_amount - laybyOrder.balance_remaining) / laybyOrder.total_amount) * 100)}%</span>
+                <span>{progress}%</span>
               </div>
               <div className="w-full bg-muted rounded-full h-2">
                 <div
                   className="bg-primary h-2 rounded-full transition-all duration-300"
                   style={{
-                    width: `${Math.round(((laybyOrder.total_amount - laybyOrder.balance_remaining) / laybyOrder.total_amount) * 100)}%`
+                    width: `${progress}%`
                   }}
                 />
               </div>
@@ -215,6 +356,9 @@ export function LaybyDetailsModal({
                 <div className="flex items-center gap-2 mb-2">
                   <Package className="w-4 h-4 text-primary" />
                   <span className="text-sm font-medium">Items ({laybyOrder.layby_items.length})</span>
+                  {laybyOrder.inventory_reserved && (laybyOrder.status === 'active' || laybyOrder.status === 'overdue') && (
+                    <Badge variant="outline" className="text-xs">Stock reserved</Badge>
+                  )}
                 </div>
                 <div className="space-y-2 max-h-32 overflow-y-auto">
                   {laybyOrder.layby_items.map((item, index) => (
@@ -222,6 +366,9 @@ export function LaybyDetailsModal({
                       <div className="flex-1 min-w-0">
                         <div className="font-medium text-foreground truncate">
                           {item.products?.name || 'Unknown Item'}
+                          {item.variant_name && (
+                            <span className="text-muted-foreground font-normal"> ({item.variant_name})</span>
+                          )}
                         </div>
                         <div className="text-xs text-muted-foreground">
                           Qty: {item.quantity} × {formatCurrency(item.unit_price)}
@@ -236,6 +383,72 @@ export function LaybyDetailsModal({
               </div>
             )}
 
+            {/* Statement: goods and each charge on its own line */}
+            {charges.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <Receipt className="w-4 h-4 text-primary" />
+                  <span className="text-sm font-medium">Statement</span>
+                </div>
+                <div className="p-3 bg-muted/30 rounded-lg space-y-1 text-sm">
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Goods</span>
+                    <span>{formatCurrency(laybyOrder.total_amount)}</span>
+                  </div>
+                  {charges.map((charge) => (
+                    <div key={charge.id} className="flex justify-between gap-2">
+                      <span className="text-muted-foreground truncate">
+                        {charge.charge_type === 'interest' ? 'Interest' : 'Late fee'} • {format(new Date(charge.charged_on), 'MMM dd')}
+                      </span>
+                      <span>{formatCurrency(charge.amount)}</span>
+                    </div>
+                  ))}
+                  <Separator className="my-1" />
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Interest</span>
+                    <span>{formatCurrency(laybyOrder.interest_amount || 0)}</span>
+                  </div>
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Late fees</span>
+                    <span>{formatCurrency(laybyOrder.late_fee_amount || 0)}</span>
+                  </div>
+                  <div className="flex justify-between font-semibold">
+                    <span>Total owed</span>
+                    <span>{formatCurrency(amountOwed)}</span>
+                  </div>
+                </div>
+              </div>
+            )}
+
+            {/* Payment Plan */}
+            {schedule.length > 0 && (
+              <div>
+                <div className="flex items-center gap-2 mb-2">
+                  <ListChecks className="w-4 h-4 text-primary" />
+                  <span className="text-sm font-medium">Payment Plan ({schedule.length})</span>
+                </div>
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {schedule.map((installment) => (
+                    <div key={installment.id} className="flex justify-between items-center p-2 bg-muted/30 rounded text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="font-medium text-foreground">
+                          #{installment.payment_number} • {formatCurrency(installment.amount_due)}
+                        </div>
+                        <div className="text-xs text-muted-foreground">
+                          Due {format(new Date(installment.due_date), 'MMM dd, yyyy')}
+                          {(installment.amount_paid || 0) > 0 && installment.status !== 'paid' &&
+                            ` • ${formatCurrency(installment.amount_paid || 0)} paid`}
+                          {(installment.late_fee_amount || 0) > 0 &&
+                            ` • ${formatCurrency(installment.late_fee_amount || 0)} late fee`}
+                        </div>
+                      </div>
+                      {getInstallmentBadge(installment)}
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+
             {/* Payment History */}
             <div>
               <div className="flex items-center gap-2 mb-2">
@@ -273,6 +486,72 @@ export function LaybyDetailsModal({
               )}
             </div>
 
+            {/* Reminders */}
+            <div>
+              <div className="flex items-center gap-2 mb-2">
+                <Bell className="w-4 h-4 text-primary" />
+                <span className="text-sm font-medium">Reminders ({notifications.length})</span>
+              </div>
+              {notifications.length === 0 ? (
+                <div className="text-center py-2 text-sm text-muted-foreground">
+                  No reminders sent yet
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-40 overflow-y-auto">
+                  {notifications.map((notification) => (
+                    <div key={notification.id} className="flex justify-between items-center gap-2 p-2 bg-muted/30 rounded text-sm">
+                      <div className="flex-1 min-w-0">
+                        <div className="flex items-center gap-2">
+                          <span className="font-medium text-foreground">
+                            {laybyNotificationTypeLabels[notification.notification_type] ?? notification.notification_type}
+                          </span>
+                          <Badge variant="outline" className="text-xs">
+                            {LAYBY_NOTIFICATION_CHANNELS.find(channel => channel.value === notification.channel)?.label ?? notification.channel}
+                          </Badge>
+                        </div>
+                        <div className="text-xs text-muted-foreground truncate">
+                          {format(new Date(notification.sent_at || notification.created_at), 'MMM dd, yyyy HH:mm')}
+                          {notification.status === 'failed' && notification.error_message && ` • ${notification.error_message}`}
+                        </div>
+                      </div>
+                      {notification.channel === 'whatsapp' && notification.status === 'pending' ? (
+                        <Button size="sm" variant="outline" className="h-7 text-xs" onClick={() => handleSendWhatsApp(notification)}>
+                          <MessageCircle className="w-3 h-3 mr-1" />
+                          Send
+                        </Button>
+                      ) : (
+                        getNotificationBadge(notification)
+                      )}
+                    </div>
+                  ))}
+                </div>
+              )}
+              {(laybyOrder.customer_phone || laybyOrder.customer_email) && (
+                <div className="flex gap-2 mt-2">
+                  <Select value={reminderChannel} onValueChange={(value) => setReminderChannel(value as LaybyNotificationChannel)}>
+                    <SelectTrigger className="h-8 w-32 text-xs">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {LAYBY_NOTIFICATION_CHANNELS.map((channel) => (
+                        <SelectItem
+                          key={channel.value}
+                          value={channel.value}
+                          disabled={channel.value === 'email' ? !laybyOrder.customer_email : !laybyOrder.customer_phone}
+                        >
+                          {channel.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button size="sm" variant="outline" className="h-8 text-xs" onClick={handleSendReminder} disabled={sendingReminder}>
+                    {sendingReminder ? <Loader2 className="w-3 h-3 mr-1 animate-spin" /> : <Send className="w-3 h-3 mr-1" />}
+                    Send {laybyNotificationTypeLabels[laybyNotificationTypeFor(laybyOrder.status)].toLowerCase()}
+                  </Button>
+                </div>
+              )}
+            </div>
+
             {/* Notes */}
             {laybyOrder.notes && (
               <div className="p-3 bg-muted/30 rounded-lg">
@@ -281,9 +560,35 @@ export function LaybyDetailsModal({
               </div>
             )}
 
+            {laybyOrder.status === 'cancelled' && (
+              <div className="p-3 bg-destructive/5 border border-destructive/20 rounded-lg space-y-1 text-sm">
+                <div className="font-medium text-destructive">Cancelled</div>
+                {laybyOrder.cancellation_reason && (
+                  <p className="text-muted-foreground">{laybyOrder.cancellation_reason}</p>
+                )}
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Restocking fee</span>
+                  <span>{formatCurrency(laybyOrder.restocking_fee || 0)}</span>
+                </div>
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Refunded</span>
+                  <span>{formatCurrency(laybyOrder.refund_amount || 0)}</span>
+                </div>
+              </div>
+            )}
+
             {/* Actions */}
             {(laybyOrder.status === 'active' || laybyOrder.status === 'overdue') && laybyOrder.balance_remaining > 0 ? (
-              <div className="flex justify-center pt-3 border-t">
+              <div className="flex justify-center gap-2 pt-3 border-t">
+                {onCancelRequested && (
+                  <Button
+                    variant="outline"
+                    onClick={() => onCancelRequested(laybyOrder)}
+                  >
+                    <XCircle className="w-4 h-4 mr-2" />
+                    Cancel Layby
+                  </Button>
+                )}
                 <Button
                   onClick={handlePaymentRequest}
                   className="px-6"
@@ -292,13 +597,27 @@ export function LaybyDetailsModal({
                   Process Payment
                 </Button>
               </div>
-            ) : laybyOrder.balance_remaining === 0 ? (
+            ) : laybyOrder.status !== 'cancelled' && laybyOrder.balance_remaining === 0 ? (
               <div className="text-center py-4 border-t">
                 <div className="w-8 h-8 bg-success/10 rounded-full flex items-center justify-center mx-auto mb-2">
                   <CheckCircle className="w-4 h-4 text-success" />
                 </div>
                 <p className="text-success font-medium">Layby Completed!</p>
-                <p className="text-xs text-muted-foreground mt-1">All payments received</p>
+                <p className="text-xs text-muted-foreground mt-1">
+                  {laybyOrder.order_id ? 'All payments received and recorded as a sale' : 'All payments received'}
+                </p>
+                {!laybyOrder.order_id && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="mt-3"
+                    onClick={handleCreateSalesOrder}
+                    disabled={completing}
+                  >
+                    {completing ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <ShoppingBag className="w-4 h-4 mr-2" />}
+                    Create Sales Order
+                  </Button>
+                )}
               </div>
             ) : null}
           </div>
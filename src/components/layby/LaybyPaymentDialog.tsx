@@ -122,7 +122,7 @@ export function LaybyPaymentDialog({
 
       if (paymentError) {
         console.error('Error processing payment:', paymentError);
-        toast.error('Failed to process payment');
+        toast.error(paymentError.message || 'Failed to process payment');
         return;
       }
 
@@ -131,7 +131,7 @@ export function LaybyPaymentDialog({
 
       toast.success(
         isCompleted
-          ? `Payment processed! Layby order ${laybyOrder.layby_number} is complete.`
+          ? `Payment processed! Layby order ${laybyOrder.layby_number} is complete and recorded as a sale.`
           : `Payment of ${formatCurrency(data.payment_amount)} processed. Balance: ${formatCurrency(newBalance)}`
       );
 
@@ -303,7 +303,7 @@ export function LaybyPaymentDialog({
                   {isFullPayment && (
                     <div className="mt-2 text-center">
                       <span className="text-sm text-success font-medium">
-                        ✓ This will complete the layby order
+                        ✓ This will complete the layby order and record the sale
                       </span>
                     </div>
                   )}
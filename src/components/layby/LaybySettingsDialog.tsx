@@ -21,8 +21,10 @@ import {
 import { Input } from "@/components/ui/input";
 import { Button } from "@/components/ui/button";
 import { Switch } from "@/components/ui/switch";
+import { Checkbox } from "@/components/ui/checkbox";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Separator } from "@/components/ui/separator";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { 
   Loader2, 
   Settings, 
@@ -35,6 +37,8 @@ import {
   AlertTriangle
 } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
+import { LAYBY_INTEREST_TYPES, type LaybyInterestType } from "@/lib/layby";
+import { LAYBY_NOTIFICATION_CHANNELS, type LaybyNotificationChannel } from "@/lib/laybyNotifications";
 import { useUser } from "@/stores/authStore";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
@@ -42,7 +46,18 @@ import { toast } from "sonner";
 const settingsSchema = z.object({
   require_deposit_percent: z.number().min(0).max(100).default(20),
   max_layby_duration_days: z.number().min(1).max(365).default(90),
+  default_cancellation_fee_percent: z.number().min(0).max(100).default(0),
   automatic_reminders_enabled: z.boolean().default(true),
+  reminder_days_before: z.number().int().min(0).max(30).default(3),
+  reminder_frequency_days: z.number().int().min(1).max(60).default(7),
+  max_reminder_count: z.number().int().min(0).max(20).default(3),
+  reminder_channels: z.array(z.enum(["sms", "whatsapp", "email"])).default(["sms", "email"]),
+  inventory_reservation_enabled: z.boolean().default(true),
+  interest_type: z.enum(["none", "simple", "flat"]).default("none"),
+  // Entered as a percentage, stored as a fraction in default_interest_rate
+  interest_rate_percent: z.number().min(0).max(100).default(0),
+  late_fee_amount: z.number().min(0).default(0),
+  overdue_grace_period_days: z.number().int().min(0).max(90).default(7),
 });
 
 type SettingsFormData = z.infer<typeof settingsSchema>;
@@ -52,7 +67,17 @@ interface LaybySettings {
   store_id: string;
   require_deposit_percent: number;
   max_layby_duration_days: number;
+  default_cancellation_fee_percent: number;
   automatic_reminders_enabled: boolean;
+  reminder_days_before: number;
+  reminder_frequency_days: number;
+  max_reminder_count: number;
+  reminder_channels: string[];
+  inventory_reservation_enabled: boolean;
+  interest_type: LaybyInterestType;
+  default_interest_rate: number;
+  late_fee_amount: number;
+  overdue_grace_period_days: number;
   created_at?: string;
   updated_at?: string;
 }
@@ -79,7 +104,17 @@ export function LaybySettingsDialog({
     defaultValues: {
       require_deposit_percent: 20,
       max_layby_duration_days: 90,
+      default_cancellation_fee_percent: 0,
       automatic_reminders_enabled: true,
+      reminder_days_before: 3,
+      reminder_frequency_days: 7,
+      max_reminder_count: 3,
+      reminder_channels: ["sms", "email"],
+      inventory_reservation_enabled: true,
+      interest_type: "none",
+      interest_rate_percent: 0,
+      late_fee_amount: 0,
+      overdue_grace_period_days: 7,
     },
   });
 
@@ -111,7 +146,17 @@ export function LaybySettingsDialog({
         form.reset({
           require_deposit_percent: data.require_deposit_percent,
           max_layby_duration_days: data.max_layby_duration_days,
+          default_cancellation_fee_percent: data.default_cancellation_fee_percent ?? 0,
           automatic_reminders_enabled: data.automatic_reminders_enabled,
+          reminder_days_before: data.reminder_days_before ?? 3,
+          reminder_frequency_days: data.reminder_frequency_days ?? 7,
+          max_reminder_count: data.max_reminder_count ?? 3,
+          reminder_channels: (data.reminder_channels ?? ["sms", "email"]) as LaybyNotificationChannel[],
+          inventory_reservation_enabled: data.inventory_reservation_enabled ?? true,
+          interest_type: (data.interest_type as LaybyInterestType) ?? "none",
+          interest_rate_percent: Math.round((data.default_interest_rate ?? 0) * 10000) / 100,
+          late_fee_amount: data.late_fee_amount ?? 0,
+          overdue_grace_period_days: data.overdue_grace_period_days ?? 7,
         });
       }
     } catch (error) {
@@ -131,9 +176,11 @@ export function LaybySettingsDialog({
     try {
       setSaving(true);
 
+      const { interest_rate_percent, ...settings } = data;
       const settingsData = {
         store_id: currentStore.id,
-        ...data,
+        ...settings,
+        default_interest_rate: settings.interest_type === 'none' ? 0 : interest_rate_percent / 100,
       };
 
       let result;
@@ -170,7 +217,7 @@ export function LaybySettingsDialog({
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
-      <DialogContent className="max-w-md">
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
         <DialogHeader>
           <DialogTitle className="flex items-center gap-2">
             <Settings className="w-5 h-5 text-[#2CA01C]" />
@@ -231,6 +278,31 @@ export function LaybySettingsDialog({
                 )}
               />
 
+              <FormField
+                control={form.control}
+                name="default_cancellation_fee_percent"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Cancellation Fee (%)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="100"
+                        step="0.5"
+                        placeholder="0"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormDescription className="text-sm">
+                      Restocking fee kept from refunds when a layby is cancelled, as a share of the layby total
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <FormField
                 control={form.control}
                 name="automatic_reminders_enabled"
@@ -254,6 +326,227 @@ export function LaybySettingsDialog({
                 )}
               />
 
+              {form.watch("automatic_reminders_enabled") && (
+                <div className="space-y-4 rounded-lg border p-3">
+                  <FormField
+                    control={form.control}
+                    name="reminder_channels"
+                    render={({ field }) => (
+                      <FormItem>
+                        <FormLabel>Send Reminders By</FormLabel>
+                        <div className="flex gap-4">
+                          {LAYBY_NOTIFICATION_CHANNELS.map((channel) => (
+                            <label key={channel.value} className="flex items-center gap-2 text-sm">
+                              <Checkbox
+                                checked={field.value.includes(channel.value)}
+                                onCheckedChange={(checked) =>
+                                  field.onChange(checked
+                                    ? [...field.value, channel.value]
+                                    : field.value.filter((value) => value !== channel.value))
+                                }
+                              />
+                              {channel.label}
+                            </label>
+                          ))}
+                        </div>
+                        <FormDescription className="text-sm">
+                          SMS and email also need to be switched on in the store's notification settings.
+                          WhatsApp reminders are sent by staff from the layby.
+                        </FormDescription>
+                        <FormMessage />
+                      </FormItem>
+                    )}
+                  />
+
+                  <div className="grid grid-cols-3 gap-3">
+                    <FormField
+                      control={form.control}
+                      name="reminder_days_before"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs">Days Before Due</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="30"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="reminder_frequency_days"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs">Overdue Every (Days)</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="1"
+                              max="60"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 1)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+
+                    <FormField
+                      control={form.control}
+                      name="max_reminder_count"
+                      render={({ field }) => (
+                        <FormItem>
+                          <FormLabel className="text-xs">Max Overdue Notices</FormLabel>
+                          <FormControl>
+                            <Input
+                              type="number"
+                              min="0"
+                              max="20"
+                              {...field}
+                              onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                            />
+                          </FormControl>
+                          <FormMessage />
+                        </FormItem>
+                      )}
+                    />
+                  </div>
+                </div>
+              )}
+
+              <FormField
+                control={form.control}
+                name="inventory_reservation_enabled"
+                render={({ field }) => (
+                  <FormItem className="flex flex-row items-center justify-between rounded-lg border p-3">
+                    <div className="space-y-0.5">
+                      <FormLabel className="text-base">
+                        Reserve Stock
+                      </FormLabel>
+                      <FormDescription className="text-sm">
+                        Hold layby items back from sale until the layby is completed or cancelled
+                      </FormDescription>
+                    </div>
+                    <FormControl>
+                      <Switch
+                        checked={field.value}
+                        onCheckedChange={field.onChange}
+                      />
+                    </FormControl>
+                  </FormItem>
+                )}
+              />
+
+              <Separator />
+
+              <FormField
+                control={form.control}
+                name="interest_type"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Overdue Interest</FormLabel>
+                    <Select onValueChange={field.onChange} value={field.value}>
+                      <FormControl>
+                        <SelectTrigger>
+                          <SelectValue />
+                        </SelectTrigger>
+                      </FormControl>
+                      <SelectContent>
+                        {LAYBY_INTEREST_TYPES.map((type) => (
+                          <SelectItem key={type.value} value={type.value}>
+                            {type.label}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    <FormDescription className="text-sm">
+                      {LAYBY_INTEREST_TYPES.find(type => type.value === field.value)?.description}.
+                      Applies to laybys created after saving.
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              {form.watch("interest_type") !== "none" && (
+                <FormField
+                  control={form.control}
+                  name="interest_rate_percent"
+                  render={({ field }) => (
+                    <FormItem>
+                      <FormLabel>
+                        {form.watch("interest_type") === "simple" ? "Interest Rate (% per year)" : "Interest Rate (% of balance)"}
+                      </FormLabel>
+                      <FormControl>
+                        <Input
+                          type="number"
+                          step="0.01"
+                          min="0"
+                          max="100"
+                          placeholder="0.00"
+                          {...field}
+                          onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                        />
+                      </FormControl>
+                      <FormMessage />
+                    </FormItem>
+                  )}
+                />
+              )}
+
+              <FormField
+                control={form.control}
+                name="late_fee_amount"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Late Fee per Missed Installment</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        step="0.01"
+                        min="0"
+                        placeholder="0.00"
+                        {...field}
+                        onChange={(e) => field.onChange(parseFloat(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormDescription className="text-sm">
+                      Added to the balance once per installment still unpaid after the grace period
+                    </FormDescription>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
+              <FormField
+                control={form.control}
+                name="overdue_grace_period_days"
+                render={({ field }) => (
+                  <FormItem>
+                    <FormLabel>Grace Period (Days)</FormLabel>
+                    <FormControl>
+                      <Input
+                        type="number"
+                        min="0"
+                        max="90"
+                        placeholder="7"
+                        {...field}
+                        onChange={(e) => field.onChange(parseInt(e.target.value) || 0)}
+                      />
+                    </FormControl>
+                    <FormMessage />
+                  </FormItem>
+                )}
+              />
+
               <div className="flex justify-end gap-2">
                 <Button
                   type="button"
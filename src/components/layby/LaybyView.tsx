@@ -21,6 +21,7 @@ import { AddLaybyDialog } from "./AddLaybyDialog";
 import { LaybyDetailsModal } from "./LaybyDetailsModal";
 import { LaybyPaymentDialog } from "./LaybyPaymentDialog";
 import { LaybySettingsDialog } from "./LaybySettingsDialog";
+import { LaybyCancelDialog } from "./LaybyCancelDialog";
 import { PageHeader, PageLayout } from "@/components/common/PageHeader";
 
 
@@ -43,6 +44,7 @@ export function LaybyView() {
   const showDetailsModal = useLaybyStore(state => state.showDetailsModal);
   const showPaymentDialog = useLaybyStore(state => state.showPaymentDialog);
   const showSettingsDialog = useLaybyStore(state => state.showSettingsDialog);
+  const showCancelDialog = useLaybyStore(state => state.showCancelDialog);
 
   // Actions from Zustand
   const setFilters = useLaybyStore(state => state.setFilters);
@@ -51,6 +53,7 @@ export function LaybyView() {
   const setShowDetailsModal = useLaybyStore(state => state.setShowDetailsModal);
   const setShowPaymentDialog = useLaybyStore(state => state.setShowPaymentDialog);
   const setShowSettingsDialog = useLaybyStore(state => state.setShowSettingsDialog);
+  const setShowCancelDialog = useLaybyStore(state => state.setShowCancelDialog);
   const fetchLaybyOrders = useLaybyStore(state => state.fetchLaybyOrders);
 
   useEffect(() => {
@@ -84,12 +87,22 @@ export function LaybyView() {
     setShowPaymentDialog(true);
   };
 
+  const handleCancelRequested = (layby: LaybyOrder) => {
+    setSelectedLayby(layby);
+    setShowCancelDialog(true);
+  };
+
   const handleLaybyUpdated = () => {
     if (currentStore?.id) {
       fetchLaybyOrders(currentStore.id);
     }
   };
 
+  const handleLaybyCancelled = () => {
+    setShowDetailsModal(false);
+    handleLaybyUpdated();
+  };
+
 
 
   if (loading) {
@@ -291,6 +304,14 @@ export function LaybyView() {
         laybyOrder={selectedLayby}
         onLaybyUpdated={handleLaybyUpdated}
         onPaymentRequested={handleMakePayment}
+        onCancelRequested={handleCancelRequested}
+      />
+
+      <LaybyCancelDialog
+        open={showCancelDialog}
+        onOpenChange={setShowCancelDialog}
+        laybyOrder={selectedLayby}
+        onLaybyCancelled={handleLaybyCancelled}
       />
 
       <LaybyPaymentDialog
@@ -44,6 +44,14 @@ export function Breadcrumbs({ activeView }: BreadcrumbsProps) {
         return 'Categories';
       case 'suppliers':
         return 'Suppliers';
+      case 'purchase-orders':
+        return 'Purchase Orders';
+      case 'stock-transfers':
+        return 'Stock Transfers';
+      case 'discounts':
+        return 'Discounts';
+      case 'gift-cards':
+        return 'Gift Cards';
       default:
         return 'Dashboard';
     }
@@ -58,10 +66,14 @@ export function Breadcrumbs({ activeView }: BreadcrumbsProps) {
       case 'inventory':
       case 'categories':
       case 'suppliers':
+      case 'purchase-orders':
+      case 'stock-transfers':
         return 'Inventory';
       case 'customers':
       case 'transactions':
       case 'layby':
+      case 'discounts':
+      case 'gift-cards':
         return 'Sales';
       case 'expenses':
         return 'Dashboard';
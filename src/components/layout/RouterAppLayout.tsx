@@ -118,6 +118,8 @@ export default function RouterAppLayout() {
                  location.pathname === '/app/inventory' ? 'Inventory' :
                  location.pathname === '/app/laybys' ? 'Laybys' :
                  location.pathname === '/app/expenses' ? 'Expenses' :
+                 location.pathname === '/app/discounts' ? 'Discounts' :
+                 location.pathname === '/app/gift-cards' ? 'Gift Cards' :
                  location.pathname === '/app/reports' ? 'Reports' :
                  location.pathname === '/app/settings' ? 'Settings' :
                  'Storefy'}
@@ -1,14 +1,21 @@
-import { useState } from 'react';
+import { useCallback, useEffect, useRef, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
-import { Search, Package, Clock, CheckCircle, MessageCircle, Phone } from 'lucide-react';
+import { Separator } from '@/components/ui/separator';
+import { Search, Package, Clock, CheckCircle, XCircle, MessageCircle, Phone, Link2 } from 'lucide-react';
 import { useCurrentStore } from '@/stores/storeStore';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { formatCurrency } from '@/lib/taxUtils';
 import { generateCustomerInquiryMessage, openWhatsApp } from '@/lib/whatsapp-utils';
+import {
+  PUBLIC_ORDER_PROGRESS,
+  publicOrderStatusLabel,
+  publicOrderTrackingUrl,
+  type PublicOrderStatus
+} from '@/lib/publicOrders';
 
 interface OrderSearchResult {
   id: string;
@@ -21,58 +28,141 @@ interface OrderSearchResult {
   items_count: number;
 }
 
-export function OrderSearchWidget() {
+// What get_public_order_by_code tells a customer about their order
+interface TrackedOrder {
+  id: string;
+  order_code: string;
+  customer_name: string;
+  subtotal: number;
+  discount_amount: number;
+  tax_amount: number;
+  total: number;
+  status: PublicOrderStatus;
+  reserved_until: string | null;
+  cancellation_reason: string | null;
+  created_at: string;
+  store: {
+    name: string;
+    phone: string | null;
+    whatsapp_number: string | null;
+    currency: string | null;
+  };
+  items: Array<{
+    id: string;
+    product_name: string;
+    variant_name: string | null;
+    quantity: number;
+    total_price: number;
+  }>;
+  history: Array<{
+    status: PublicOrderStatus;
+    note: string | null;
+    created_at: string;
+  }>;
+}
+
+interface OrderSearchWidgetProps {
+  // 'store' finds orders of the current store for staff; 'customer' tracks any order by its code
+  mode?: 'store' | 'customer';
+  initialCode?: string;
+  onSearch?: (orderCode: string) => void;
+}
+
+export function OrderSearchWidget({ mode = 'store', initialCode, onSearch }: OrderSearchWidgetProps) {
   const currentStore = useCurrentStore();
-  const [searchQuery, setSearchQuery] = useState('');
+  const [searchQuery, setSearchQuery] = useState(initialCode?.toUpperCase() ?? '');
   const [searchResult, setSearchResult] = useState<OrderSearchResult | null>(null);
+  const [trackedOrder, setTrackedOrder] = useState<TrackedOrder | null>(null);
   const [searching, setSearching] = useState(false);
   const [notFound, setNotFound] = useState(false);
+  // The code last looked up, so a link's code isn't looked up again once it has been
+  const lookedUpCode = useRef<string | null>(null);
+
+  const searchStoreOrder = useCallback(async (orderCode: string) => {
+    if (!currentStore) return;
 
-  const handleSearch = async () => {
-    if (!searchQuery.trim() || !currentStore) return;
+    const { data, error } = await supabase
+      .from('public_orders')
+      .select(`
+        id,
+        order_code,
+        customer_name,
+        customer_phone,
+        total,
+        status,
+        created_at,
+        public_order_items (id)
+      `)
+      .eq('store_id', currentStore.id)
+      .eq('order_code', orderCode)
+      .single();
+
+    if (error) {
+      if (error.code === 'PGRST116') {
+        setNotFound(true);
+        return;
+      }
+      throw error;
+    }
+
+    setSearchResult({
+      ...data,
+      status: data.status ?? 'pending',
+      items_count: data.public_order_items?.length || 0
+    });
+  }, [currentStore]);
+
+  const trackOrder = useCallback(async (orderCode: string) => {
+    const { data, error } = await supabase.rpc('get_public_order_by_code', {
+      order_code_param: orderCode
+    });
+
+    if (error) throw error;
+
+    if (!data) {
+      setNotFound(true);
+      return;
+    }
+
+    setTrackedOrder(data as unknown as TrackedOrder);
+  }, []);
+
+  const runSearch = useCallback(async (code: string) => {
+    const orderCode = code.trim().toUpperCase();
+    if (!orderCode || (mode === 'store' && !currentStore)) return;
+
+    lookedUpCode.current = orderCode;
 
     try {
       setSearching(true);
       setNotFound(false);
       setSearchResult(null);
+      setTrackedOrder(null);
 
-      const { data, error } = await supabase
-        .from('public_orders')
-        .select(`
-          id,
-          order_code,
-          customer_name,
-          customer_phone,
-          total,
-          status,
-          created_at,
-          public_order_items (id)
-        `)
-        .eq('store_id', currentStore.id)
-        .eq('order_code', searchQuery.trim().toUpperCase())
-        .single();
-
-      if (error) {
-        if (error.code === 'PGRST116') {
-          setNotFound(true);
-        } else {
-          throw error;
-        }
-        return;
+      if (mode === 'customer') {
+        await trackOrder(orderCode);
+      } else {
+        await searchStoreOrder(orderCode);
       }
 
-      setSearchResult({
-        ...data,
-        items_count: data.public_order_items?.length || 0
-      });
-
+      onSearch?.(orderCode);
     } catch (error) {
       console.error('Error searching order:', error);
       toast.error('Failed to search order');
     } finally {
       setSearching(false);
     }
-  };
+  }, [mode, currentStore, onSearch, searchStoreOrder, trackOrder]);
+
+  const handleSearch = () => runSearch(searchQuery);
+
+  // Links to the tracking page carry the code; look it up straight away
+  useEffect(() => {
+    if (!initialCode || initialCode.toUpperCase() === lookedUpCode.current) return;
+
+    setSearchQuery(initialCode.toUpperCase());
+    runSearch(initialCode);
+  }, [initialCode, runSearch]);
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter') {
@@ -94,6 +184,22 @@ export function OrderSearchWidget() {
     openWhatsApp(searchResult.customer_phone, message);
   };
 
+  const contactStore = () => {
+    const storePhone = trackedOrder?.store.whatsapp_number || trackedOrder?.store.phone;
+    if (!trackedOrder || !storePhone) return;
+
+    openWhatsApp(storePhone, `Hi! I'm checking on my order ${trackedOrder.order_code}.`);
+  };
+
+  const copyTrackingLink = async (orderCode: string) => {
+    try {
+      await navigator.clipboard.writeText(publicOrderTrackingUrl(orderCode));
+      toast.success('Tracking link copied');
+    } catch (error) {
+      toast.error('Failed to copy tracking link');
+    }
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
@@ -110,16 +216,133 @@ export function OrderSearchWidget() {
     switch (status) {
       case 'pending': return <Clock className="w-4 h-4" />;
       case 'completed': return <CheckCircle className="w-4 h-4" />;
+      case 'cancelled': return <XCircle className="w-4 h-4" />;
       default: return <Package className="w-4 h-4" />;
     }
   };
 
+  const renderStatusBadge = (status: string) => (
+    <Badge className={`${getStatusColor(status)} border-0`}>
+      <div className="flex items-center gap-1">
+        {getStatusIcon(status)}
+        {publicOrderStatusLabel(status)}
+      </div>
+    </Badge>
+  );
+
+  const renderTrackedOrder = (order: TrackedOrder) => {
+    const currency = order.store.currency || 'USD';
+    const reachedAt = (status: PublicOrderStatus) =>
+      order.history.find(entry => entry.status === status)?.created_at;
+    const currentStep = PUBLIC_ORDER_PROGRESS.indexOf(order.status);
+
+    return (
+      <div className="border rounded-lg p-4 bg-muted/50 space-y-4">
+        <div className="flex items-start justify-between">
+          <div>
+            <div className="font-mono font-medium text-lg">{order.order_code}</div>
+            <div className="text-sm text-muted-foreground">
+              {order.store.name} • {new Date(order.created_at).toLocaleDateString()}
+            </div>
+          </div>
+          {renderStatusBadge(order.status)}
+        </div>
+
+        {order.status === 'cancelled' ? (
+          <div className="rounded-md bg-red-50 border border-red-200 p-3 text-sm text-red-800">
+            This order was cancelled{order.cancellation_reason ? `: ${order.cancellation_reason}` : '.'}
+          </div>
+        ) : (
+          <ol className="space-y-2">
+            {PUBLIC_ORDER_PROGRESS.map((step, index) => {
+              const done = index <= currentStep;
+              const at = reachedAt(step);
+
+              return (
+                <li key={step} className="flex items-center gap-3 text-sm">
+                  <span
+                    className={`flex h-6 w-6 items-center justify-center rounded-full border ${
+                      done ? 'bg-green-600 border-green-600 text-white' : 'border-gray-300 text-gray-400'
+                    }`}
+                  >
+                    {done ? <CheckCircle className="w-3 h-3" /> : index + 1}
+                  </span>
+                  <span className={done ? 'font-medium' : 'text-muted-foreground'}>
+                    {publicOrderStatusLabel(step)}
+                  </span>
+                  {done && at && (
+                    <span className="ml-auto text-xs text-muted-foreground">
+                      {new Date(at).toLocaleString()}
+                    </span>
+                  )}
+                </li>
+              );
+            })}
+          </ol>
+        )}
+
+        {order.status === 'pending' && order.reserved_until && (
+          <p className="text-xs text-muted-foreground">
+            Your items are held until {new Date(order.reserved_until).toLocaleString()} while the store confirms the order.
+          </p>
+        )}
+
+        <Separator />
+
+        <div className="space-y-1 text-sm">
+          {order.items.map(item => (
+            <div key={item.id} className="flex justify-between">
+              <span>
+                {item.product_name}
+                {item.variant_name && <span className="text-muted-foreground"> ({item.variant_name})</span>}
+                <span className="text-muted-foreground"> x{item.quantity}</span>
+              </span>
+              <span>{formatCurrency(item.total_price, currency)}</span>
+            </div>
+          ))}
+          {order.discount_amount > 0 && (
+            <div className="flex justify-between text-green-600">
+              <span>Discount</span>
+              <span>-{formatCurrency(order.discount_amount, currency)}</span>
+            </div>
+          )}
+          <div className="flex justify-between font-semibold pt-1">
+            <span>Total</span>
+            <span>{formatCurrency(order.total, currency)}</span>
+          </div>
+        </div>
+
+        {(order.store.whatsapp_number || order.store.phone) && (
+          <div className="flex gap-2">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={contactStore}
+              className="flex-1 text-green-600 border-green-200 hover:bg-green-50"
+            >
+              <MessageCircle className="w-4 h-4 mr-2" />
+              WhatsApp Store
+            </Button>
+            {order.store.phone && (
+              <Button variant="outline" size="sm" asChild className="flex-1">
+                <a href={`tel:${order.store.phone}`}>
+                  <Phone className="w-4 h-4 mr-2" />
+                  Call Store
+                </a>
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  };
+
   return (
     <Card>
       <CardHeader>
         <CardTitle className="flex items-center gap-2">
           <Search className="w-5 h-5" />
-          Quick Order Search
+          {mode === 'customer' ? 'Track Your Order' : 'Quick Order Search'}
         </CardTitle>
       </CardHeader>
       <CardContent className="space-y-4">
@@ -132,8 +355,8 @@ export function OrderSearchWidget() {
             onKeyPress={handleKeyPress}
             className="font-mono"
           />
-          <Button 
-            onClick={handleSearch} 
+          <Button
+            onClick={() => handleSearch()}
             disabled={searching || !searchQuery.trim()}
           >
             {searching ? 'Searching...' : 'Search'}
@@ -149,6 +372,8 @@ export function OrderSearchWidget() {
           </div>
         )}
 
+        {trackedOrder && renderTrackedOrder(trackedOrder)}
+
         {searchResult && (
           <div className="border rounded-lg p-4 bg-muted/50">
             <div className="flex items-start justify-between mb-3">
@@ -160,12 +385,7 @@ export function OrderSearchWidget() {
                   Found order
                 </div>
               </div>
-              <Badge className={`${getStatusColor(searchResult.status)} border-0`}>
-                <div className="flex items-center gap-1">
-                  {getStatusIcon(searchResult.status)}
-                  {searchResult.status.charAt(0).toUpperCase() + searchResult.status.slice(1)}
-                </div>
-              </Badge>
+              {renderStatusBadge(searchResult.status)}
             </div>
 
             <div className="space-y-2 text-sm">
@@ -173,19 +393,19 @@ export function OrderSearchWidget() {
                 <span className="text-muted-foreground">Customer:</span>
                 <span className="font-medium">{searchResult.customer_name}</span>
               </div>
-              
+
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Total:</span>
                 <span className="font-medium">
                   {formatCurrency(searchResult.total, currentStore?.currency || 'USD')}
                 </span>
               </div>
-              
+
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Items:</span>
                 <span>{searchResult.items_count}</span>
               </div>
-              
+
               <div className="flex justify-between">
                 <span className="text-muted-foreground">Date:</span>
                 <span>{new Date(searchResult.created_at).toLocaleDateString()}</span>
@@ -203,17 +423,15 @@ export function OrderSearchWidget() {
                 <MessageCircle className="w-4 h-4 mr-2" />
                 WhatsApp Customer
               </Button>
-              
+
               <Button
                 variant="outline"
                 size="sm"
-                onClick={() => {
-                  // Navigate to full order view - you can implement this
-                  toast.info('Full order view coming soon');
-                }}
+                onClick={() => copyTrackingLink(searchResult.order_code)}
                 className="flex-1"
               >
-                View Details
+                <Link2 className="w-4 h-4 mr-2" />
+                Tracking Link
               </Button>
             </div>
           </div>
@@ -221,8 +439,14 @@ export function OrderSearchWidget() {
 
         {/* Help Text */}
         <div className="text-xs text-muted-foreground">
-          <p>💡 Tip: Customers receive order codes when they place orders through your showcase.</p>
-          <p>Use this to quickly find and manage customer orders.</p>
+          {mode === 'customer' ? (
+            <p>💡 Your order code was shown when you placed your order.</p>
+          ) : (
+            <>
+              <p>💡 Tip: Customers receive order codes when they place orders through your showcase.</p>
+              <p>Use this to quickly find and manage customer orders.</p>
+            </>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -18,12 +18,35 @@ import {
   Minus,
   ShoppingCart,
   UserPlus,
-  DollarSign
+  DollarSign,
+  Send
 } from 'lucide-react';
 import { useCurrentStore } from '@/stores/storeStore';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { formatCurrency } from '@/lib/taxUtils';
+import { openWhatsApp } from '@/lib/whatsapp-utils';
+import {
+  isPublicOrderOpen,
+  nextPublicOrderStatuses,
+  publicOrderStatusLabel,
+  type PublicOrderStatus
+} from '@/lib/publicOrders';
+import { isPublicOrderRefundDue, publicOrderPaymentLabels, type PublicOrderPaymentStatus } from '@/lib/showcasePayments';
+
+// A message to the customer about a status change. SMS is sent by the dispatcher; WhatsApp
+// messages wait here for staff to send.
+export interface PublicOrderNotification {
+  id: string;
+  order_status: string;
+  channel: 'sms' | 'whatsapp';
+  recipient_phone: string;
+  message: string;
+  status: 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+  error_message: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
 
 interface PublicOrder {
   id: string;
@@ -33,10 +56,13 @@ interface PublicOrder {
   subtotal: number;
   tax_amount: number;
   total: number;
-  status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'completed' | 'cancelled';
+  status: PublicOrderStatus;
   notes?: string;
+  cancellation_reason?: string | null;
+  payment_status?: PublicOrderPaymentStatus;
   created_at: string;
   updated_at: string;
+  public_order_notifications?: PublicOrderNotification[];
   items?: Array<{
     id: string;
     product_id: string;
@@ -71,9 +97,10 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
   const [loading, setLoading] = useState(false);
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
-  const [orderStatus, setOrderStatus] = useState<string>('pending');
+  const [orderStatus, setOrderStatus] = useState<PublicOrderStatus>('pending');
   const [orderItems, setOrderItems] = useState<any[]>([]);
   const [notes, setNotes] = useState('');
+  const [cancellationReason, setCancellationReason] = useState('');
 
   useEffect(() => {
     if (order) {
@@ -83,6 +110,7 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
       // Handle both 'items' and 'public_order_items' for backward compatibility
       setOrderItems(order.items || order.public_order_items || []);
       setNotes(order.notes || '');
+      setCancellationReason('');
     }
   }, [order]);
 
@@ -118,13 +146,12 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
 
       const { subtotal, taxAmount, total } = calculateNewTotal();
 
-      // Update order
+      // Update order. The status is changed below so the database can check it.
       const { error: orderError } = await supabase
         .from('public_orders')
         .update({
           customer_name: customerName,
           customer_phone: customerPhone,
-          status: orderStatus,
           subtotal,
           tax_amount: taxAmount,
           total,
@@ -148,12 +175,30 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
         if (itemError) throw itemError;
       }
 
+      if (orderStatus !== order.status) {
+        const { data, error: statusError } = await supabase.rpc('update_public_order_status', {
+          _order_id: order.id,
+          _status: orderStatus,
+          _note: orderStatus === 'cancelled' ? cancellationReason : null
+        });
+
+        if (statusError) throw statusError;
+
+        const result = data as unknown as { success: boolean; error?: string };
+        if (!result.success) {
+          toast.error(result.error || 'Failed to update order status');
+          onOrderUpdate();
+          return;
+        }
+      }
+
       toast.success('Order updated successfully');
       onOrderUpdate();
       onOpenChange(false);
     } catch (error) {
       console.error('Error updating order:', error);
-      toast.error('Failed to update order');
+      // Quantities beyond what is left in stock come back as the error message
+      toast.error((error as { message?: string })?.message || 'Failed to update order');
     } finally {
       setLoading(false);
     }
@@ -173,12 +218,19 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
         p_order_id: order.id,
         p_customer_name: customerName.trim(),
         p_customer_phone: customerPhone.trim(),
-        p_payment_method: 'cash' // Default payment method
+        // Orders paid at checkout were settled through the store's PayChangu account
+        p_payment_method: order.payment_status === 'paid' ? 'paychangu' : 'cash'
       });
 
       if (error) throw error;
 
-      toast.success(`Order completed successfully! Customer added and sale recorded. Transaction ID: ${data.transaction_id}`);
+      const result = data as unknown as { success: boolean; error?: string; duplicate?: boolean };
+      if (!result.success) {
+        toast.error(result.error || 'Failed to complete order');
+        return;
+      }
+
+      toast.success(result.duplicate ? 'Order was already completed' : 'Order completed. Customer added and sale recorded.');
       onOrderUpdate();
       onOpenChange(false);
     } catch (error) {
@@ -189,6 +241,24 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
     }
   };
 
+  const sendWhatsAppNotification = async (notification: PublicOrderNotification) => {
+    openWhatsApp(notification.recipient_phone, notification.message);
+
+    const { error } = await supabase.rpc('record_public_order_notification_result', {
+      _notification_id: notification.id,
+      _sent: true,
+      _provider: 'whatsapp_link'
+    });
+
+    if (error) {
+      console.error('Error recording order notification:', error);
+      toast.error('Failed to mark message as sent');
+      return;
+    }
+
+    onOrderUpdate();
+  };
+
   const getStatusColor = (status: string) => {
     switch (status) {
       case 'pending': return 'bg-yellow-100 text-yellow-800';
@@ -204,6 +274,10 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
   if (!order) return null;
 
   const { subtotal, taxAmount, total } = calculateNewTotal();
+  const orderOpen = isPublicOrderOpen(order.status);
+  const canComplete = nextPublicOrderStatuses(order.status).includes('completed');
+  const notifications = [...(order.public_order_notifications ?? [])]
+    .sort((a, b) => b.created_at.localeCompare(a.created_at));
 
   return (
     <Dialog open={open} onOpenChange={onOpenChange}>
@@ -262,25 +336,89 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
               <div className="space-y-3">
                 <h3 className="text-sm font-semibold">Status</h3>
                 <div className="space-y-2">
-                  <Select value={orderStatus} onValueChange={setOrderStatus}>
+                  {/* Completing records the sale, so it has its own button */}
+                  <Select
+                    value={orderStatus}
+                    onValueChange={(value: PublicOrderStatus) => setOrderStatus(value)}
+                    disabled={!orderOpen}
+                  >
                     <SelectTrigger className="h-8 text-sm">
                       <SelectValue />
                     </SelectTrigger>
                     <SelectContent>
-                      <SelectItem value="pending">Pending</SelectItem>
-                      <SelectItem value="confirmed">Confirmed</SelectItem>
-                      <SelectItem value="processing">Processing</SelectItem>
-                      <SelectItem value="ready">Ready</SelectItem>
-                      <SelectItem value="completed">Completed</SelectItem>
-                      <SelectItem value="cancelled">Cancelled</SelectItem>
+                      {[order.status, ...nextPublicOrderStatuses(order.status).filter(status => status !== 'completed')].map(status => (
+                        <SelectItem key={status} value={status}>
+                          {publicOrderStatusLabel(status)}
+                        </SelectItem>
+                      ))}
                     </SelectContent>
                   </Select>
                   <Badge className={`${getStatusColor(orderStatus)} border-0 text-xs`}>
-                    {orderStatus.charAt(0).toUpperCase() + orderStatus.slice(1)}
+                    {publicOrderStatusLabel(orderStatus)}
                   </Badge>
+                  {order.payment_status && order.payment_status !== 'unpaid' && (
+                    <Badge variant={['failed', 'charged_back'].includes(order.payment_status) ? 'destructive' : 'outline'} className="text-xs ml-1">
+                      {publicOrderPaymentLabels[order.payment_status]}
+                    </Badge>
+                  )}
+                  {isPublicOrderRefundDue(order) && (
+                    <Badge variant="destructive" className="text-xs ml-1">Refund due</Badge>
+                  )}
+                  {orderStatus === 'cancelled' && order.status !== 'cancelled' && (
+                    <Input
+                      value={cancellationReason}
+                      onChange={(e) => setCancellationReason(e.target.value)}
+                      placeholder="Reason (sent to the customer)"
+                      className="h-8 text-sm"
+                    />
+                  )}
+                  {order.status === 'cancelled' && order.cancellation_reason && (
+                    <p className="text-xs text-muted-foreground">{order.cancellation_reason}</p>
+                  )}
                 </div>
               </div>
 
+              {/* Customer Messages */}
+              {notifications.length > 0 && (
+                <div className="space-y-2">
+                  <h3 className="text-sm font-semibold flex items-center gap-2">
+                    <MessageCircle className="w-4 h-4" />
+                    Customer Messages
+                  </h3>
+                  <div className="space-y-2">
+                    {notifications.map((notification) => (
+                      <div key={notification.id} className="border rounded-md p-2 text-xs space-y-1">
+                        <div className="flex items-center justify-between gap-2">
+                          <span className="font-medium">
+                            {publicOrderStatusLabel(notification.order_status)}
+                            <span className="text-muted-foreground"> • {notification.channel === 'sms' ? 'SMS' : 'WhatsApp'}</span>
+                          </span>
+                          {notification.status === 'pending' && notification.channel === 'whatsapp' ? (
+                            <Button
+                              variant="outline"
+                              size="sm"
+                              onClick={() => sendWhatsAppNotification(notification)}
+                              className="h-6 px-2 text-xs text-green-600 border-green-200 hover:bg-green-50"
+                            >
+                              <Send className="w-3 h-3 mr-1" />
+                              Send
+                            </Button>
+                          ) : (
+                            <Badge variant={notification.status === 'failed' ? 'destructive' : 'outline'} className="text-xs">
+                              {notification.status.charAt(0).toUpperCase() + notification.status.slice(1)}
+                            </Badge>
+                          )}
+                        </div>
+                        <p className="text-muted-foreground">{notification.message}</p>
+                        {notification.error_message && notification.status !== 'sent' && (
+                          <p className="text-red-600">{notification.error_message}</p>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Notes */}
               <div className="space-y-2">
                 <Label htmlFor="notes" className="text-xs">Notes</Label>
@@ -327,7 +465,7 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
                           variant="outline"
                           size="sm"
                           onClick={() => updateItemQuantity(item.id, item.quantity - 1)}
-                          disabled={item.quantity <= 1}
+                          disabled={!orderOpen || item.quantity <= 1}
                           className="h-6 w-6 p-0"
                         >
                           <Minus className="w-3 h-3" />
@@ -337,6 +475,7 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
                           variant="outline"
                           size="sm"
                           onClick={() => updateItemQuantity(item.id, item.quantity + 1)}
+                          disabled={!orderOpen}
                           className="h-6 w-6 p-0"
                         >
                           <Plus className="w-3 h-3" />
@@ -345,6 +484,7 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
                           variant="outline"
                           size="sm"
                           onClick={() => removeItem(item.id)}
+                          disabled={!orderOpen}
                           className="h-6 w-6 p-0 text-red-600 hover:text-red-800 ml-1"
                         >
                           <X className="w-3 h-3" />
@@ -393,7 +533,7 @@ export function PublicOrderModal({ order, open, onOpenChange, onOrderUpdate }: P
           >
             {loading ? 'Updating...' : 'Update'}
           </Button>
-          {orderStatus !== 'completed' && orderStatus !== 'cancelled' && (
+          {canComplete && orderStatus !== 'cancelled' && (
             <Button
               onClick={completeOrder}
               disabled={loading || !customerName || !customerPhone}
@@ -5,13 +5,15 @@ import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs';
-import { Search, Package, Clock, CheckCircle, XCircle, MessageCircle, Phone, Mail, Eye, Filter } from 'lucide-react';
+import { Search, Package, Clock, CheckCircle, XCircle, MessageCircle, Phone, Mail, Eye, Filter, Send } from 'lucide-react';
 import { useCurrentStore } from '@/stores/storeStore';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 import { formatCurrency } from '@/lib/taxUtils';
 import { generateOrderWhatsAppMessage, openWhatsApp } from '@/lib/whatsapp-utils';
-import { PublicOrderModal } from './PublicOrderModal';
+import { nextPublicOrderStatuses, publicOrderStatusLabel, type PublicOrderStatus } from '@/lib/publicOrders';
+import { isPublicOrderRefundDue, publicOrderPaymentLabels, type PublicOrderPaymentStatus } from '@/lib/showcasePayments';
+import { PublicOrderModal, type PublicOrderNotification } from './PublicOrderModal';
 
 interface PublicOrder {
   id: string;
@@ -21,12 +23,17 @@ interface PublicOrder {
   subtotal: number;
   tax_amount: number;
   total: number;
-  status: 'pending' | 'confirmed' | 'processing' | 'ready' | 'completed' | 'cancelled';
+  status: PublicOrderStatus;
   notes?: string;
   whatsapp_sent: boolean;
   whatsapp_sent_at?: string;
+  inventory_reserved: boolean;
+  reserved_until?: string | null;
+  cancellation_reason?: string | null;
+  payment_status: PublicOrderPaymentStatus;
   created_at: string;
   updated_at: string;
+  public_order_notifications?: PublicOrderNotification[];
   items?: Array<{
     id: string;
     product_name: string;
@@ -80,6 +87,17 @@ export function PublicOrdersView() {
             unit_price,
             total_price,
             selected_variants
+          ),
+          public_order_notifications (
+            id,
+            order_status,
+            channel,
+            recipient_phone,
+            message,
+            status,
+            error_message,
+            sent_at,
+            created_at
           )
         `)
         .eq('store_id', currentStore.id)
@@ -93,9 +111,11 @@ export function PublicOrdersView() {
       const mappedOrders = (data || []).map(order => ({
         ...order,
         items: order.public_order_items || []
-      }));
+      })) as unknown as PublicOrder[];
 
       setOrders(mappedOrders);
+      // Keep the open order in step, e.g. after a message was sent from it
+      setSelectedOrder(current => current ? mappedOrders.find(order => order.id === current.id) ?? current : current);
     } catch (error) {
       console.error('Error loading orders:', error);
       toast.error('Failed to load orders');
@@ -104,19 +124,23 @@ export function PublicOrdersView() {
     }
   };
 
+  // The database checks the change, releases held stock on cancellation and messages the customer
   const updateOrderStatus = async (orderId: string, newStatus: PublicOrder['status']) => {
     try {
-      const { error } = await supabase
-        .from('public_orders')
-        .update({ 
-          status: newStatus,
-          updated_at: new Date().toISOString()
-        })
-        .eq('id', orderId);
+      const { data, error } = await supabase.rpc('update_public_order_status', {
+        _order_id: orderId,
+        _status: newStatus
+      });
 
       if (error) throw error;
 
-      toast.success('Order status updated');
+      const result = data as unknown as { success: boolean; error?: string };
+      if (!result.success) {
+        toast.error(result.error || 'Failed to update order status');
+        return;
+      }
+
+      toast.success(newStatus === 'completed' ? 'Order completed and sale recorded' : 'Order status updated');
       loadOrders();
     } catch (error) {
       console.error('Error updating order status:', error);
@@ -384,6 +408,25 @@ export function PublicOrdersView() {
                             Sent
                           </Badge>
                         )}
+                        {order.public_order_notifications?.some(n => n.status === 'pending' && n.channel === 'whatsapp') && (
+                          <Badge variant="outline" className="text-amber-600 border-amber-200 text-xs">
+                            <Send className="w-3 h-3 mr-1" />
+                            Message to send
+                          </Badge>
+                        )}
+                        {order.payment_status !== 'unpaid' && (
+                          <Badge
+                            variant="outline"
+                            className={`text-xs ${order.payment_status === 'paid' ? 'text-green-600 border-green-200' : ['failed', 'charged_back'].includes(order.payment_status) ? 'text-red-600 border-red-200' : 'text-amber-600 border-amber-200'}`}
+                          >
+                            {publicOrderPaymentLabels[order.payment_status]}
+                          </Badge>
+                        )}
+                        {isPublicOrderRefundDue(order) && (
+                          <Badge variant="outline" className="text-red-600 border-red-200 text-xs">
+                            Refund due
+                          </Badge>
+                        )}
                       </div>
 
                       <div className="text-sm text-gray-600 space-y-1">
@@ -393,6 +436,11 @@ export function PublicOrdersView() {
                           <div>Items: <span className="font-medium">{order.items?.length || 0}</span></div>
                           <div>Date: <span className="font-medium">{new Date(order.created_at).toLocaleDateString()}</span></div>
                         </div>
+                        {order.status === 'pending' && order.reserved_until && (
+                          <div className="text-xs text-amber-600">
+                            Stock held until {new Date(order.reserved_until).toLocaleString()}
+                          </div>
+                        )}
                         {order.items && order.items.length > 0 && (
                           <div className="text-xs text-gray-500 mt-1">
                             {order.items.slice(0, 2).map((item, index) => (
@@ -436,17 +484,17 @@ export function PublicOrdersView() {
                       <Select
                         value={order.status}
                         onValueChange={(value: PublicOrder['status']) => updateOrderStatus(order.id, value)}
+                        disabled={nextPublicOrderStatuses(order.status).length === 0}
                       >
                         <SelectTrigger className="w-24 h-8 text-xs">
                           <SelectValue />
                         </SelectTrigger>
                         <SelectContent>
-                          <SelectItem value="pending">Pending</SelectItem>
-                          <SelectItem value="confirmed">Confirmed</SelectItem>
-                          <SelectItem value="processing">Processing</SelectItem>
-                          <SelectItem value="ready">Ready</SelectItem>
-                          <SelectItem value="completed">Completed</SelectItem>
-                          <SelectItem value="cancelled">Cancelled</SelectItem>
+                          {[order.status, ...nextPublicOrderStatuses(order.status)].map(status => (
+                            <SelectItem key={status} value={status}>
+                              {publicOrderStatusLabel(status)}
+                            </SelectItem>
+                          ))}
                         </SelectContent>
                       </Select>
                     </div>
@@ -0,0 +1,152 @@
+import { useEffect, useRef, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { CameraOff, Loader2 } from "lucide-react";
+
+// The Shape Detection API isn't in the DOM typings yet
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect: (source: HTMLVideoElement) => Promise<DetectedBarcode[]>;
+}
+
+interface BarcodeDetectorConstructor {
+  new (options?: { formats?: string[] }): BarcodeDetectorInstance;
+}
+
+const getBarcodeDetector = (): BarcodeDetectorConstructor | undefined =>
+  (window as unknown as { BarcodeDetector?: BarcodeDetectorConstructor }).BarcodeDetector;
+
+const SCAN_FORMATS = ['code_128', 'ean_13', 'ean_8', 'upc_a', 'upc_e', 'code_39'];
+const SCAN_INTERVAL = 250; // in milliseconds
+
+interface BarcodeCameraScannerProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onDetected: (code: string) => void;
+}
+
+export function BarcodeCameraScanner({ open, onOpenChange, onDetected }: BarcodeCameraScannerProps) {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [status, setStatus] = useState<'starting' | 'scanning' | 'unsupported' | 'denied'>('starting');
+  // Keep the camera running across parent re-renders
+  const onDetectedRef = useRef(onDetected);
+  const onOpenChangeRef = useRef(onOpenChange);
+
+  useEffect(() => {
+    onDetectedRef.current = onDetected;
+    onOpenChangeRef.current = onOpenChange;
+  }, [onDetected, onOpenChange]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    const Detector = getBarcodeDetector();
+    if (!Detector || !navigator.mediaDevices?.getUserMedia) {
+      setStatus('unsupported');
+      return;
+    }
+
+    let stream: MediaStream | null = null;
+    let timer: ReturnType<typeof setInterval> | null = null;
+    let cancelled = false;
+    const detector = new Detector({ formats: SCAN_FORMATS });
+
+    setStatus('starting');
+
+    navigator.mediaDevices
+      .getUserMedia({ video: { facingMode: 'environment' } })
+      .then(async (mediaStream) => {
+        if (cancelled) {
+          mediaStream.getTracks().forEach(track => track.stop());
+          return;
+        }
+
+        stream = mediaStream;
+        const video = videoRef.current;
+        if (!video) return;
+
+        video.srcObject = mediaStream;
+        await video.play();
+        setStatus('scanning');
+
+        timer = setInterval(async () => {
+          if (video.readyState < 2) return;
+          try {
+            const barcodes = await detector.detect(video);
+            const code = barcodes[0]?.rawValue?.trim();
+            if (code && !cancelled) {
+              cancelled = true;
+              onDetectedRef.current(code);
+              onOpenChangeRef.current(false);
+            }
+          } catch (error) {
+            console.error('Barcode detection failed:', error);
+          }
+        }, SCAN_INTERVAL);
+      })
+      .catch((error) => {
+        console.error('Error starting camera:', error);
+        setStatus('denied');
+      });
+
+    return () => {
+      cancelled = true;
+      if (timer) clearInterval(timer);
+      stream?.getTracks().forEach(track => track.stop());
+    };
+  }, [open]);
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md">
+        <DialogHeader>
+          <DialogTitle>Scan Barcode</DialogTitle>
+          <DialogDescription>
+            Point the camera at a product barcode.
+          </DialogDescription>
+        </DialogHeader>
+
+        {status === 'unsupported' || status === 'denied' ? (
+          <div className="text-center py-8 text-muted-foreground">
+            <CameraOff className="w-12 h-12 mx-auto mb-3 opacity-50" />
+            <p>
+              {status === 'unsupported'
+                ? 'Camera scanning is not supported in this browser'
+                : 'Camera access was denied'}
+            </p>
+            <p className="text-sm">
+              {status === 'unsupported'
+                ? 'Use Chrome on Android or a USB/Bluetooth scanner instead'
+                : 'Allow camera access in your browser settings and try again'}
+            </p>
+          </div>
+        ) : (
+          <div className="relative rounded-lg overflow-hidden bg-black aspect-[4/3]">
+            <video ref={videoRef} className="w-full h-full object-cover" muted playsInline />
+            {status === 'starting' && (
+              <div className="absolute inset-0 flex items-center justify-center text-white">
+                <Loader2 className="w-8 h-8 animate-spin" />
+              </div>
+            )}
+            {status === 'scanning' && (
+              <div className="absolute inset-x-8 top-1/2 h-0.5 bg-red-500/80" />
+            )}
+          </div>
+        )}
+
+        <Button variant="outline" onClick={() => onOpenChange(false)}>
+          Cancel
+        </Button>
+      </DialogContent>
+    </Dialog>
+  );
+}
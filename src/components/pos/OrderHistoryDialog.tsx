@@ -1,4 +1,4 @@
-import { useEffect } from "react";
+import { useEffect, useState } from "react";
 import {
   Dialog,
   DialogContent,
@@ -18,10 +18,12 @@ import {
   Receipt,
   RefreshCw,
   AlertTriangle,
-  CheckCircle
+  CheckCircle,
+  Undo2
 } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { usePOSStore, useOrders, useOrdersLoading } from "@/stores/posStore";
+import { ReturnOrderDialog } from "@/components/returns/ReturnOrderDialog";
 
 interface Order {
   id: string;
@@ -53,7 +55,7 @@ export function OrderHistoryDialog({ open, onOpenChange }: OrderHistoryDialogPro
   const setSearchTerm = usePOSStore(state => state.setOrderSearchTerm);
   const setStatusFilter = usePOSStore(state => state.setOrderStatusFilter);
   const fetchOrders = usePOSStore(state => state.fetchOrders);
-  const refundOrder = usePOSStore(state => state.refundOrder);
+  const [returnOrderId, setReturnOrderId] = useState<string | null>(null);
 
   useEffect(() => {
     if (open && currentStore?.id) {
@@ -61,14 +63,8 @@ export function OrderHistoryDialog({ open, onOpenChange }: OrderHistoryDialogPro
     }
   }, [open, currentStore?.id, fetchOrders]);
 
-  const handleRefund = async (orderId: string, orderNumber: string) => {
-    if (!confirm(`Are you sure you want to refund order ${orderNumber}?`)) {
-      return;
-    }
-
-    await refundOrder(orderId, orderNumber);
-
-    // Refresh orders after refund
+  const handleReturnCompleted = () => {
+    // Refresh orders so statuses reflect the return
     if (currentStore?.id) {
       fetchOrders(currentStore.id);
     }
@@ -200,10 +196,11 @@ export function OrderHistoryDialog({ open, onOpenChange }: OrderHistoryDialogPro
                         <Button
                           size="sm"
                           variant="outline"
-                          onClick={() => handleRefund(order.id, order.order_number)}
+                          onClick={() => setReturnOrderId(order.id)}
                           className="text-orange-600 hover:text-orange-700"
                         >
-                          Refund
+                          <Undo2 className="w-3 h-3 mr-1" />
+                          Return / Exchange
                         </Button>
                       )}
                     </div>
@@ -214,6 +211,13 @@ export function OrderHistoryDialog({ open, onOpenChange }: OrderHistoryDialogPro
           )}
         </div>
       </DialogContent>
+
+      <ReturnOrderDialog
+        open={returnOrderId !== null}
+        onOpenChange={(isOpen) => !isOpen && setReturnOrderId(null)}
+        orderId={returnOrderId}
+        onCompleted={handleReturnCompleted}
+      />
     </Dialog>
   );
 }
@@ -4,10 +4,13 @@ import { Button } from "@/components/ui/button";
 import { Separator } from "@/components/ui/separator";
 import { Printer, Download } from "lucide-react";
 import { useTax } from "@/hooks/useTax";
+import { maskGiftCardCode } from "@/lib/giftCards";
+import type { CheckoutGiftCardPayment, CheckoutPayment } from "@/stores/posStore";
 
 interface ReceiptItem {
   id: string;
   name: string;
+  variant_name?: string | null;
   sku: string;
   quantity: number;
   unit_price: number;
@@ -29,8 +32,16 @@ interface ReceiptProps {
   discountCode?: string;
   taxAmount: number;
   taxRate: number;
+  loyaltyPointsRedeemed?: number;
+  loyaltyDiscountAmount?: number;
+  loyaltyPointsEarned?: number;
+  // Gift cards and store credit that paid part of the total
+  giftCardPayments?: CheckoutGiftCardPayment[];
   total: number;
   paymentMethod: string;
+  // Each tender of the sale, by display name, when there was more than one or change was given
+  payments?: CheckoutPayment[];
+  changeGiven?: number;
   cashierName?: string;
   onPrint?: () => void;
   onDownload?: () => void;
@@ -52,13 +63,20 @@ export const OrderReceipt = forwardRef<HTMLDivElement, ReceiptProps>(
     discountCode,
     taxAmount,
     taxRate,
+    loyaltyPointsRedeemed = 0,
+    loyaltyDiscountAmount = 0,
+    loyaltyPointsEarned = 0,
+    giftCardPayments = [],
     total,
     paymentMethod,
+    payments = [],
+    changeGiven = 0,
     cashierName,
     onPrint,
     onDownload,
   }, ref) => {
     const { formatCurrency } = useTax();
+    const giftCardTotal = giftCardPayments.reduce((sum, card) => sum + card.amount, 0);
 
     const formatDate = (dateString: string) => {
       return new Date(dateString).toLocaleString();
@@ -116,6 +134,9 @@ export const OrderReceipt = forwardRef<HTMLDivElement, ReceiptProps>(
                   <div className="flex justify-between items-start">
                     <div className="flex-1">
                       <p className="text-sm font-medium text-foreground">{item.name}</p>
+                      {item.variant_name && (
+                        <p className="text-xs text-muted-foreground">{item.variant_name}</p>
+                      )}
                       <p className="text-xs text-muted-foreground">SKU: {item.sku}</p>
                     </div>
                     <p className="text-sm font-medium text-foreground">
@@ -155,6 +176,15 @@ export const OrderReceipt = forwardRef<HTMLDivElement, ReceiptProps>(
                   <span className="text-foreground">{formatCurrency(taxAmount)}</span>
                 </div>
               )}
+
+              {loyaltyDiscountAmount > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    Points ({loyaltyPointsRedeemed.toLocaleString()}):
+                  </span>
+                  <span className="text-success">-{formatCurrency(loyaltyDiscountAmount)}</span>
+                </div>
+              )}
               
               <Separator />
               
@@ -163,10 +193,54 @@ export const OrderReceipt = forwardRef<HTMLDivElement, ReceiptProps>(
                 <span className="text-foreground">${total.toFixed(2)}</span>
               </div>
               
-              <div className="flex justify-between text-sm">
-                <span className="text-muted-foreground">Payment Method:</span>
-                <span className="text-foreground capitalize">{paymentMethod}</span>
-              </div>
+              {giftCardPayments.map((card) => (
+                <div key={card.code} className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {card.kind === 'store_credit' ? 'Store Credit' : `Gift Card ${maskGiftCardCode(card.code)}`}:
+                  </span>
+                  <span className="text-foreground">
+                    {formatCurrency(card.amount)} ({formatCurrency(card.balance)} left)
+                  </span>
+                </div>
+              ))}
+
+              {payments.length > 0 ? (
+                payments.map((payment, index) => (
+                  <div key={index} className="space-y-1">
+                    <div className="flex justify-between text-sm">
+                      <span className="text-muted-foreground">{payment.method}:</span>
+                      <span className="text-foreground">{formatCurrency(payment.amount)}</span>
+                    </div>
+                    {payment.change > 0 && (
+                      <div className="flex justify-between text-xs">
+                        <span className="text-muted-foreground pl-2">Tendered:</span>
+                        <span className="text-foreground">{formatCurrency(payment.tendered)}</span>
+                      </div>
+                    )}
+                  </div>
+                ))
+              ) : (total > giftCardTotal || giftCardTotal === 0) && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Payment Method:</span>
+                  <span className="text-foreground capitalize">
+                    {paymentMethod}{giftCardTotal > 0 && ` ${formatCurrency(total - giftCardTotal)}`}
+                  </span>
+                </div>
+              )}
+
+              {changeGiven > 0 && (
+                <div className="flex justify-between text-sm font-semibold">
+                  <span className="text-foreground">Change:</span>
+                  <span className="text-foreground">{formatCurrency(changeGiven)}</span>
+                </div>
+              )}
+
+              {loyaltyPointsEarned > 0 && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Points Earned:</span>
+                  <span className="text-foreground">{loyaltyPointsEarned.toLocaleString()}</span>
+                </div>
+              )}
             </div>
 
             <Separator />
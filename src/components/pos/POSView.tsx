@@ -1,4 +1,4 @@
-import { useEffect, useCallback, useMemo } from "react";
+import { useEffect, useCallback, useMemo, useState } from "react";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -8,7 +8,7 @@ import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetTrigger } from "@/co
 import {
   ShoppingCart, Plus, Minus, Trash2, Percent, DollarSign,
   CreditCard, Search, Loader2, User, UserPlus, History,
-  Grid3X3, List, LayoutGrid, X
+  Grid3X3, List, LayoutGrid, X, ScanLine, Tag
 } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
@@ -17,32 +17,51 @@ import {
   useCart,
   useProducts,
   useCustomers,
+  resolveCartDiscounts,
+  findProductEntryByCode,
   type Product,
-  type Customer
+  type Customer,
+  type CartItem,
+  type CheckoutPayment
 } from "@/stores/posStore";
-import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { usePaymentMethods } from "@/hooks/usePaymentMethods";
 import { useTax } from "@/hooks/useTax";
+import { useManagerOverride } from "@/hooks/useManagerOverride";
 import { TaxDisplay } from "@/components/common/TaxDisplay";
 import { ReceiptDialog } from "./ReceiptDialog";
 import { OrderHistoryDialog } from "./OrderHistoryDialog";
 import { AddCustomerDialog } from "./AddCustomerDialog";
+import { VariantPickerDialog } from "./VariantPickerDialog";
+import { PriceOverrideDialog } from "./PriceOverrideDialog";
+import { ManagerOverrideDialog } from "@/components/auth/ManagerOverrideDialog";
+import { AddLaybyDialog } from "@/components/layby/AddLaybyDialog";
+import type { LaybyDraftItem } from "@/stores/laybyStore";
+import { SyncStatusIndicator } from "./SyncStatusIndicator";
+import { SyncConflictsDialog } from "./SyncConflictsDialog";
+import { BarcodeCameraScanner } from "./BarcodeCameraScanner";
+import { CashDrawerMenu } from "@/components/cash-drawer/CashDrawerMenu";
+import { useCashDrawerStore, useCashDrawerEnabled, useCurrentShift } from "@/stores/cashDrawerStore";
 import { useAnalytics } from "@/hooks/useAnalyticsTracking";
 import { PageHeader, PageLayout } from "@/components/common/PageHeader";
 import { ResponsiveSearch, QuickSearch } from "@/components/ui/responsive-search";
 import { POSCartSection } from "./cart/POSCartSection";
+import { POSPaymentTenders } from "./cart/POSPaymentTenders";
 import { QuickFilterButtons } from "@/components/ui/responsive-filters";
 import { useScreenSize } from "@/hooks/use-mobile";
 import { responsiveGrid, responsiveSpacing, touchFriendly } from "@/lib/responsive-utils";
 import { cn } from "@/lib/utils";
+import { resolveLoyaltyRedemption } from "@/lib/loyalty";
+import { allocateGiftCards, maskGiftCardCode } from "@/lib/giftCards";
+import { getTenderErrors, resolveTenders } from "@/lib/tenders";
+import { useBarcodeScanner } from "@/hooks/useBarcodeScanner";
 
 // Interfaces are now imported from the POS store
 
 export function POSView() {
   const currentStore = useCurrentStore();
   const user = useUser();
-  const { getPaymentOptions, isValidPaymentMethod, _formatPaymentMethodDisplay } = usePaymentMethods();
+  const { getPaymentOptions, getPaymentMethodDisplay, isValidPaymentMethod, _formatPaymentMethodDisplay } = usePaymentMethods();
   const { calculateItemsTax, formatCurrency } = useTax();
   const { trackTransaction, trackSearch, trackFeatureUsage } = useAnalytics();
 
@@ -54,6 +73,7 @@ export function POSView() {
   const removeFromCart = usePOSStore(state => state.removeFromCart);
   const clearCart = usePOSStore(state => state.clearCart);
   const getCartQuantity = usePOSStore(state => state.getCartQuantity);
+  const addToCartByBarcode = usePOSStore(state => state.addToCartByBarcode);
 
   // Product state
   const products = useProducts();
@@ -84,12 +104,64 @@ export function POSView() {
   const setDiscountType = usePOSStore(state => state.setDiscountType);
   const setDiscountValue = usePOSStore(state => state.setDiscountValue);
   const setDiscountCode = usePOSStore(state => state.setDiscountCode);
+  const activeDiscounts = usePOSStore(state => state.activeDiscounts);
+  const codeDiscount = usePOSStore(state => state.codeDiscount);
+  const isApplyingDiscountCode = usePOSStore(state => state.isApplyingDiscountCode);
+  const applyDiscountCode = usePOSStore(state => state.applyDiscountCode);
+  const removeDiscountCode = usePOSStore(state => state.removeDiscountCode);
+
+  // Loyalty state
+  const loyaltyProgram = usePOSStore(state => state.loyaltyProgram);
+  const loyaltyPointsToRedeem = usePOSStore(state => state.loyaltyPointsToRedeem);
+  const setLoyaltyPointsToRedeem = usePOSStore(state => state.setLoyaltyPointsToRedeem);
+
+  // Gift card state
+  const giftCardCode = usePOSStore(state => state.giftCardCode);
+  const giftCardTenders = usePOSStore(state => state.giftCardTenders);
+  const isApplyingGiftCard = usePOSStore(state => state.isApplyingGiftCard);
+  const customerCreditBalance = usePOSStore(state => state.customerCreditBalance);
+  const setGiftCardCode = usePOSStore(state => state.setGiftCardCode);
+  const applyGiftCard = usePOSStore(state => state.applyGiftCard);
+  const applyStoreCredit = usePOSStore(state => state.applyStoreCredit);
+  const removeGiftCardTender = usePOSStore(state => state.removeGiftCardTender);
+
+  // Scanner state
+  const barcodeScannerEnabled = usePOSStore(state => state.barcodeScannerEnabled);
+  const [showCameraScanner, setShowCameraScanner] = useState(false);
+  const [showOpenShift, setShowOpenShift] = useState(false);
+  const [showLaybyDialog, setShowLaybyDialog] = useState(false);
+  const isOnline = usePOSStore(state => state.isOnline);
+
+  // Cash drawer state
+  const cashDrawerEnabled = useCashDrawerEnabled();
+  const currentShift = useCurrentShift();
+
+  // Automatic promotions and the entered code, re-evaluated as the cart changes
+  const cartDiscounts = useMemo(
+    () => resolveCartDiscounts(cart, activeDiscounts, codeDiscount, selectedCustomer, loyaltyProgram),
+    [cart, activeDiscounts, codeDiscount, selectedCustomer, loyaltyProgram]
+  );
 
   // Order state
   const paymentMethod = usePOSStore(state => state.paymentMethod);
   const isProcessingOrder = usePOSStore(state => state.isProcessingOrder);
   const setPaymentMethod = usePOSStore(state => state.setPaymentMethod);
-  const setIsProcessingOrder = usePOSStore(state => state.setIsProcessingOrder);
+  const splitPayments = usePOSStore(state => state.splitPayments);
+  const cashTendered = usePOSStore(state => state.cashTendered);
+  const setCashTendered = usePOSStore(state => state.setCashTendered);
+  const startSplitPayment = usePOSStore(state => state.startSplitPayment);
+  const addSplitPayment = usePOSStore(state => state.addSplitPayment);
+  const updateSplitPayment = usePOSStore(state => state.updateSplitPayment);
+  const removeSplitPayment = usePOSStore(state => state.removeSplitPayment);
+  const cancelSplitPayment = usePOSStore(state => state.cancelSplitPayment);
+  const processCheckout = usePOSStore(state => state.processOrder);
+
+  // Manager approval for voids, price overrides and large discounts
+  const { approve: approveOverride } = useManagerOverride();
+  const overrideCartItemPrice = usePOSStore(state => state.overrideCartItemPrice);
+  const [priceOverrideItem, setPriceOverrideItem] = useState<CartItem | null>(null);
+  // Kept until the sale goes through so a failed checkout doesn't ask again
+  const [discountApproval, setDiscountApproval] = useState<{ id: string; amount: number } | null>(null);
 
   // UI state
   const showReceipt = usePOSStore(state => state.showReceipt);
@@ -98,10 +170,11 @@ export function POSView() {
   const showAddCustomer = usePOSStore(state => state.showAddCustomer);
   const showMobileCart = usePOSStore(state => state.showMobileCart);
   const setShowReceipt = usePOSStore(state => state.setShowReceipt);
-  const setLastOrder = usePOSStore(state => state.setLastOrder);
   const setShowOrderHistory = usePOSStore(state => state.setShowOrderHistory);
   const setShowAddCustomer = usePOSStore(state => state.setShowAddCustomer);
   const setShowMobileCart = usePOSStore(state => state.setShowMobileCart);
+  const showSyncConflicts = usePOSStore(state => state.showSyncConflicts);
+  const setShowSyncConflicts = usePOSStore(state => state.setShowSyncConflicts);
 
   // Tax state
   const taxCalculation = usePOSStore(state => state.taxCalculation);
@@ -114,9 +187,44 @@ export function POSView() {
       usePOSStore.getState().fetchProducts(currentStore.id);
       usePOSStore.getState().fetchCategories(currentStore.id);
       usePOSStore.getState().fetchCustomers(currentStore.id);
+      usePOSStore.getState().fetchActiveDiscounts(currentStore.id);
+      usePOSStore.getState().fetchLoyaltyProgram(currentStore.id);
+      usePOSStore.getState().fetchBarcodeSettings(currentStore.id);
+      useCashDrawerStore.getState().fetchDrawer(currentStore.id);
     }
   }, [currentStore?.id]); // Only depend on store ID
 
+  // Offer the selected customer's store credit at the till
+  useEffect(() => {
+    if (currentStore?.id) {
+      usePOSStore.getState().fetchCustomerCredit(currentStore.id);
+    }
+  }, [currentStore?.id, selectedCustomer?.id, isOnline]);
+
+  // Track connectivity and replay offline sales as soon as the connection returns
+  useEffect(() => {
+    if (!currentStore?.id) return;
+    const storeId = currentStore.id;
+    const { setOnline, refreshSyncQueue, syncOfflineSales } = usePOSStore.getState();
+
+    const handleOnline = () => {
+      setOnline(true);
+      syncOfflineSales(storeId);
+      usePOSStore.getState().fetchProducts(storeId);
+    };
+    const handleOffline = () => setOnline(false);
+
+    setOnline(navigator.onLine);
+    refreshSyncQueue(storeId).then(() => syncOfflineSales(storeId));
+
+    window.addEventListener('online', handleOnline);
+    window.addEventListener('offline', handleOffline);
+    return () => {
+      window.removeEventListener('online', handleOnline);
+      window.removeEventListener('offline', handleOffline);
+    };
+  }, [currentStore?.id]);
+
   // Memoized tax calculation function
   const calculateCartTax = useCallback(async () => {
     if (cart.length === 0 || !currentStore) {
@@ -130,7 +238,7 @@ export function POSView() {
         (discountType === "percent" ? subtotalBeforeDiscount * (parseFloat(discountValue) / 100) : parseFloat(discountValue)) : 0;
 
       // Calculate tax on discounted amount
-      const taxableAmount = Math.max(0, subtotalBeforeDiscount - discountAmount);
+      const taxableAmount = Math.max(0, subtotalBeforeDiscount - discountAmount - cartDiscounts.total);
       const calculation = await calculateItemsTax([{ price: taxableAmount, quantity: 1, taxable: true }]);
 
       setTaxCalculation(calculation);
@@ -139,7 +247,7 @@ export function POSView() {
       setTaxCalculation(null);
       toast.error('Failed to calculate tax');
     }
-  }, [cart, discountValue, discountType, currentStore, calculateItemsTax, setTaxCalculation]);
+  }, [cart, discountValue, discountType, cartDiscounts.total, currentStore, calculateItemsTax, setTaxCalculation]);
 
   // Calculate tax when dependencies change
   useEffect(() => {
@@ -156,6 +264,27 @@ export function POSView() {
     trackFeatureUsage('pos_add_to_cart', `product_${product.id}`);
   }, [addToCart, trackFeatureUsage]);
 
+  // Scanned codes go straight into the cart
+  const handleBarcodeScan = useCallback((code: string) => {
+    if (addToCartByBarcode(code)) {
+      trackFeatureUsage('pos_barcode_scan', code);
+    }
+  }, [addToCartByBarcode, trackFeatureUsage]);
+
+  // A scanner used while the search box has focus types into it, so treat
+  // Enter on an exact barcode or SKU as a scan
+  const handleSearchSubmit = useCallback((value: string) => {
+    if (findProductEntryByCode(products, value)) {
+      handleBarcodeScan(value);
+      setSearchTerm('');
+    }
+  }, [products, handleBarcodeScan, setSearchTerm]);
+
+  useBarcodeScanner({
+    enabled: barcodeScannerEnabled && !showReceipt && !showCameraScanner,
+    onScan: handleBarcodeScan
+  });
+
   // Helper function to check if order is ready to process
   const isOrderValid = () => {
     return cart.length > 0 && selectedCustomer && paymentMethod &&
@@ -219,7 +348,8 @@ export function POSView() {
   const filteredProducts = useMemo(() => {
     return products.filter(product => {
       const matchesSearch = product.name.toLowerCase().includes(searchTerm.toLowerCase()) ||
-                           product.sku?.toLowerCase().includes(searchTerm.toLowerCase());
+                           product.sku?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+                           product.product_barcodes?.some(entry => entry.barcode.includes(searchTerm));
       const matchesCategory = !selectedCategory || product.category_id === selectedCategory;
       return matchesSearch && matchesCategory;
     });
@@ -243,11 +373,21 @@ export function POSView() {
     customer.phone?.includes(customerSearchTerm)
   );
 
-  // Generate order number
-  const generateOrderNumber = (): string => {
-    const timestamp = Date.now().toString().slice(-6);
-    const random = Math.floor(Math.random() * 100).toString().padStart(2, '0');
-    return `ORD-${timestamp}${random}`;
+  // The cart as layby lines; discounts and points only apply to sales rung up now
+  const laybyItems = useMemo<LaybyDraftItem[]>(() => cart.map(item => ({
+    product_id: item.product_id,
+    variant_id: item.variant_id,
+    name: item.name,
+    variant_name: item.variant_name,
+    sku: item.sku || null,
+    price: item.price,
+    quantity: item.quantity,
+    stock_quantity: item.stock_quantity,
+  })), [cart]);
+
+  const handleCreateLayby = () => {
+    setShowMobileCart(false);
+    setShowLaybyDialog(true);
   };
 
   // Process order
@@ -270,14 +410,21 @@ export function POSView() {
       validationErrors.push('Customer is required - please select a customer from the list');
     }
 
-    // 4. Validate payment method is selected
+    // 4. Validate payment method is selected and the tenders settle the sale
     if (!paymentMethod) {
       validationErrors.push('Payment method is required - please select a payment method');
-    } else if (!isValidPaymentMethod(paymentMethod)) {
+    } else if (tenders.payments.some(payment => payment.method && !isValidPaymentMethod(payment.method))) {
       validationErrors.push('Selected payment method is not available');
     }
+    validationErrors.push(...getTenderErrors(tenders, isSplitPayment, formatCurrency));
 
-    // 5. Validate product stock availability
+    // 5. Cash goes into the drawer, so it needs an open shift to be counted against
+    const needsShift = cashDrawerEnabled && tenders.payments.some(payment => payment.method === 'cash') && !currentShift;
+    if (needsShift) {
+      validationErrors.push('Open a cash drawer shift before taking cash payments');
+    }
+
+    // 6. Validate product stock availability
     const stockErrors = [];
     cart.forEach(item => {
       if (item.quantity > item.stock_quantity) {
@@ -294,6 +441,9 @@ export function POSView() {
 
     // Show validation errors if any
     if (validationErrors.length > 0) {
+      if (needsShift) {
+        setShowOpenShift(true);
+      }
       toast.error(
         <div className="space-y-2">
           <div className="font-semibold text-red-600">⚠️ Cannot Process Order</div>
@@ -317,156 +467,145 @@ export function POSView() {
       return;
     }
 
-    setIsProcessingOrder(true);
-    try {
-      // Create order
-      const orderNumber = generateOrderNumber();
-      const { data: orderData, error: orderError } = await supabase
-        .from('orders')
-        .insert({
-          store_id: currentStore.id,
-          customer_id: selectedCustomer?.id || null,
-          cashier_id: user.id,
-          order_number: orderNumber,
-          subtotal,
-          discount_amount: discountAmount,
-          discount_code: discountCode || null,
-          tax_amount: taxAmount,
-          total,
-          status: 'completed',
-          payment_method: paymentMethod,
-        })
-        .select()
-        .single();
-
-      if (orderError) {
-        toast.error('Failed to create order');
-        return;
+    // Manual discounts above the store's threshold need a manager
+    let discountApprovalId: string | null = null;
+    if (discountAmount > 0) {
+      if (discountApproval && discountApproval.amount >= discountAmount) {
+        discountApprovalId = discountApproval.id;
+      } else {
+        const discountPercent = subtotal > 0 ? (discountAmount / subtotal) * 100 : 0;
+        const approval = await approveOverride('discount', {
+          description: `Discount of ${formatCurrency(discountAmount)} (${discountPercent.toFixed(1)}%) on a ${formatCurrency(subtotal)} sale`,
+          details: { amount: discountAmount, percent: discountPercent, subtotal },
+        }, discountPercent);
+
+        if (!approval.approved) {
+          return;
+        }
+        if (approval.override) {
+          discountApprovalId = approval.override.id;
+          setDiscountApproval({ id: approval.override.id, amount: discountAmount });
+        }
       }
+    }
 
-      // Create order items and update stock
-      const orderItemsPromises = cart.map(async (item) => {
-        // Insert order item
-        const { error: itemError } = await supabase
-          .from('order_items')
-          .insert({
-            order_id: orderData.id,
-            product_id: item.id,
-            quantity: item.quantity,
-            unit_price: item.price,
-            total_price: item.price * item.quantity,
-          });
-
-        if (itemError) {
-          throw itemError;
-        }
+    // Stock, prices, order, items, transaction and customer stats are all
+    // validated and written atomically by the checkout function
+    const result = await processCheckout(currentStore!.id, {
+      discountAmount,
+      taxAmount,
+      loyaltyPoints: loyaltyRedemption?.points || 0,
+      loyaltyDiscountAmount: loyaltyRedemption?.value || 0,
+      discountApprovalId,
+      giftCards: giftCardPayments.map(card => ({ code: card.code, amount: card.amount })),
+      // A single payment that needs no change is settled by the payment method alone
+      payments: isSplitPayment || tenders.change > 0 ? tenders.payments : undefined,
+    });
 
-        // Update product stock
-        const { error: stockError } = await supabase
-          .from('products')
-          .update({
-            stock_quantity: item.stock_quantity - item.quantity,
-          })
-          .eq('id', item.id);
+    if (!result) {
+      return;
+    }
 
-        if (stockError) {
-          throw stockError;
+    if (!result.success) {
+      toast.error(
+        <div className="space-y-2">
+          <div className="font-semibold text-red-600">⚠️ Cannot Process Order</div>
+          <div className="text-sm">The cart changed since it was rung up:</div>
+          <ul className="text-sm space-y-1">
+            {result.errors.map((error, index) => (
+              <li key={index} className="flex items-start gap-1">
+                <span className="text-red-500 mt-0.5">•</span>
+                <span>{error.message}</span>
+              </li>
+            ))}
+          </ul>
+        </div>,
+        {
+          duration: 8000,
+          style: {
+            maxWidth: '400px',
+          }
         }
-      });
+      );
+      return;
+    }
 
-      await Promise.all(orderItemsPromises);
+    setDiscountApproval(null);
 
-      // Create transaction record
-      const { data: transactionNumber, error: transactionNumberError } = await supabase
-        .rpc('generate_transaction_number', { store_id_param: currentStore.id });
+    // Track successful transaction
+    trackTransaction({
+      amount: result.order.total,
+      itemsCount: result.order.items.length,
+      paymentMethod: result.order.payment_method,
+      customerType: selectedCustomer?.status === 'vip' ? 'vip' :
+                   selectedCustomer?.total_orders === 0 ? 'new' : 'returning'
+    });
+  };
 
-      if (transactionNumberError) {
-        // Don't fail the order for this, continue without transaction number
-      } else {
-        const { error: transactionError } = await supabase
-          .from('transactions')
-          .insert({
-            store_id: currentStore.id,
-            transaction_number: transactionNumber,
-            transaction_type: 'sale',
-            amount: total,
-            payment_method: paymentMethod,
-            reference_id: orderData.id,
-            reference_type: 'order',
-            customer_id: selectedCustomer?.id || null,
-            customer_name: selectedCustomer?.name || null,
-            description: `Sale - Order ${orderNumber}`,
-            processed_by: user.id
-          });
-
-        if (transactionError) {
-          // Don't fail the order for this, continue without transaction record
-        }
-      }
+  const cartItemLabel = (item: CartItem) => item.variant_name ? `${item.name} (${item.variant_name})` : item.name;
+
+  // Taking a line off the cart voids it, which may need a manager
+  const handleRemoveFromCart = async (id: string) => {
+    const item = cart.find(line => line.id === id);
+    if (!item) return;
+
+    const approval = await approveOverride('line_void', {
+      description: `Void ${item.quantity} x ${cartItemLabel(item)} (${formatCurrency(item.price * item.quantity)})`,
+      details: {
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        quantity: item.quantity,
+        price: item.price,
+      },
+    });
 
-      // Update customer statistics if customer is selected
-      if (selectedCustomer) {
-        const { error: customerError } = await supabase
-          .from('customers')
-          .update({
-            total_orders: selectedCustomer.total_orders + 1,
-            total_spent: selectedCustomer.total_spent + total,
-          })
-          .eq('id', selectedCustomer.id);
-
-        if (customerError) {
-          // Don't fail the order for this, continue without updating customer stats
-        }
-      }
+    if (approval.approved) {
+      removeFromCart(id);
+    }
+  };
 
-      toast.success(`Order ${orderNumber} processed successfully!`);
-
-      // Prepare receipt data
-      const receiptData = {
-        orderNumber,
-        orderDate: orderData.created_at,
-        items: cart.map(item => ({
-          id: item.id,
-          name: item.name,
-          sku: item.sku,
-          quantity: item.quantity,
-          unit_price: item.price,
-          total_price: item.price * item.quantity,
-        })),
+  const handleUpdateQuantity = (id: string, quantity: number) => {
+    if (quantity <= 0) {
+      handleRemoveFromCart(id);
+    } else {
+      updateQuantity(id, quantity);
+    }
+  };
+
+  const handleClearCart = async () => {
+    if (cart.length === 0) return;
+
+    const approval = await approveOverride('line_void', {
+      description: `Void all ${cart.length} lines (${formatCurrency(subtotal)})`,
+      details: {
+        lines: cart.map(item => ({ product_id: item.product_id, variant_id: item.variant_id, quantity: item.quantity })),
         subtotal,
-        discountAmount,
-        discountCode,
-        taxAmount,
-        total,
-        paymentMethod,
-        customer: selectedCustomer,
-      };
-
-      setLastOrder(receiptData);
-      setShowReceipt(true);
-
-      // Track successful transaction
-      trackTransaction({
-        amount: total,
-        itemsCount: cart.length,
-        paymentMethod,
-        customerType: selectedCustomer?.status === 'vip' ? 'vip' :
-                     selectedCustomer?.total_orders === 0 ? 'new' : 'returning'
-      });
-
-      // Reset cart and form
+      },
+    });
+
+    if (approval.approved) {
       clearCart();
-      setDiscountValue("");
-      setDiscountCode("");
-      setSelectedCustomer(null);
+    }
+  };
 
-      // Refresh products to update stock quantities
-      fetchProducts();
+  const handlePriceOverride = async (item: CartItem, price: number, reason: string) => {
+    // Close the price form so the PIN prompt has the screen to itself
+    setPriceOverrideItem(null);
+
+    const originalPrice = item.original_price ?? item.price;
+    const approval = await approveOverride('price_override', {
+      description: `${cartItemLabel(item)}: ${formatCurrency(originalPrice)} to ${formatCurrency(price)} - ${reason}`,
+      details: {
+        product_id: item.product_id,
+        variant_id: item.variant_id,
+        price,
+        original_price: originalPrice,
+        reason,
+      },
+    });
 
-    } catch (error) {
-      toast.error('Failed to process order');
-    } finally {
-      setIsProcessingOrder(false);
+    if (approval.approved && approval.override) {
+      overrideCartItemPrice(item.id, price, approval.override.id);
     }
   };
 
@@ -488,12 +627,43 @@ export function POSView() {
   }, [taxCalculation, currentStore]);
 
   const taxAmount = useMemo(() => {
-    return taxCalculation?.taxAmount || ((subtotal - discountAmount) * taxRate);
-  }, [taxCalculation, subtotal, discountAmount, taxRate]);
+    return taxCalculation?.taxAmount || ((subtotal - discountAmount - cartDiscounts.total) * taxRate);
+  }, [taxCalculation, subtotal, discountAmount, cartDiscounts.total, taxRate]);
+
+  const amountDue = useMemo(() => {
+    return Math.max(0, subtotal - discountAmount - cartDiscounts.total + taxAmount);
+  }, [subtotal, discountAmount, cartDiscounts.total, taxAmount]);
+
+  // Points pay for the order after discounts and tax, so they never change the tax
+  const loyaltyRedemption = useMemo(() => {
+    if (!loyaltyProgram.settings.enabled || !selectedCustomer || !(selectedCustomer.loyalty_points && selectedCustomer.loyalty_points > 0)) {
+      return null;
+    }
+    return resolveLoyaltyRedemption(
+      selectedCustomer.loyalty_points,
+      loyaltyPointsToRedeem,
+      amountDue,
+      loyaltyProgram.settings
+    );
+  }, [loyaltyProgram.settings, selectedCustomer, loyaltyPointsToRedeem, amountDue]);
 
   const total = useMemo(() => {
-    return Math.max(0, subtotal - discountAmount + taxAmount);
-  }, [subtotal, discountAmount, taxAmount]);
+    return Math.max(0, amountDue - (loyaltyRedemption?.value || 0));
+  }, [amountDue, loyaltyRedemption]);
+
+  // Gift cards and store credit pay the total after points; the payment method covers the rest
+  const giftCardPayments = useMemo(() => allocateGiftCards(giftCardTenders, total), [giftCardTenders, total]);
+
+  const amountToPay = useMemo(() => {
+    return Math.max(0, total - giftCardPayments.reduce((sum, card) => sum + card.amount, 0));
+  }, [total, giftCardPayments]);
+
+  // The payment method, or each tender of a split payment, settles what the gift cards leave
+  const isSplitPayment = splitPayments.length > 0;
+  const tenders = useMemo(
+    () => resolveTenders(paymentMethod, splitPayments, cashTendered, amountToPay),
+    [paymentMethod, splitPayments, cashTendered, amountToPay]
+  );
 
   return (
     <>
@@ -508,6 +678,15 @@ export function POSView() {
               icon={<ShoppingCart className="w-8 h-8 text-primary" />}
               actions={
                 <div className="flex items-center gap-2">
+                  <SyncStatusIndicator />
+
+                  {cashDrawerEnabled && (
+                    <CashDrawerMenu
+                      showOpenDialog={showOpenShift}
+                      onShowOpenDialogChange={setShowOpenShift}
+                    />
+                  )}
+
                   {/* Mobile Cart Button */}
                   <Sheet open={showMobileCart} onOpenChange={setShowMobileCart}>
                     <SheetTrigger asChild>
@@ -542,17 +721,44 @@ export function POSView() {
                         discountValue={discountValue}
                         discountType={discountType}
                         discountCode={discountCode}
+                        appliedDiscounts={cartDiscounts.applied}
+                        isCodeApplied={!!codeDiscount}
+                        isApplyingDiscountCode={isApplyingDiscountCode}
+                        loyaltyRedemption={loyaltyRedemption}
+                        giftCardCode={giftCardCode}
+                        giftCardPayments={giftCardPayments}
+                        isApplyingGiftCard={isApplyingGiftCard}
+                        customerCreditBalance={customerCreditBalance}
+                        amountToPay={amountToPay}
+                        splitPayments={splitPayments}
+                        cashTendered={cashTendered}
+                        tenders={tenders}
                         isProcessingOrder={isProcessingOrder}
                         customers={customers}
                         paymentOptions={getPaymentOptions()}
-                        onUpdateQuantity={updateQuantity}
-                        onClearCart={clearCart}
+                        onUpdateQuantity={handleUpdateQuantity}
+                        onOverridePrice={isOnline ? setPriceOverrideItem : undefined}
+                        onClearCart={handleClearCart}
                         onSetSelectedCustomer={setSelectedCustomer}
                         onSetPaymentMethod={setPaymentMethod}
                         onSetDiscountValue={setDiscountValue}
                         onSetDiscountType={setDiscountType}
                         onSetDiscountCode={setDiscountCode}
+                        onApplyDiscountCode={() => currentStore?.id && applyDiscountCode(currentStore.id)}
+                        onRemoveDiscountCode={removeDiscountCode}
+                        onSetLoyaltyPoints={setLoyaltyPointsToRedeem}
+                        onSetGiftCardCode={setGiftCardCode}
+                        onApplyGiftCard={() => currentStore?.id && applyGiftCard(currentStore.id)}
+                        onApplyStoreCredit={() => currentStore?.id && applyStoreCredit(currentStore.id)}
+                        onRemoveGiftCard={removeGiftCardTender}
+                        onSetCashTendered={setCashTendered}
+                        onStartSplitPayment={startSplitPayment}
+                        onAddSplitPayment={addSplitPayment}
+                        onUpdateSplitPayment={updateSplitPayment}
+                        onRemoveSplitPayment={removeSplitPayment}
+                        onCancelSplitPayment={cancelSplitPayment}
                         onProcessOrder={processOrder}
+                        onCreateLayby={isOnline ? handleCreateLayby : undefined}
                         className="mt-6"
                       />
                     </SheetContent>
@@ -571,13 +777,26 @@ export function POSView() {
             {/* Search, Filter, and View Controls in One Line */}
             <div className="flex flex-col lg:flex-row lg:items-center gap-4">
               {/* Search */}
-              <div className="flex-1">
+              <div className="flex-1 flex items-center gap-2">
                 <ResponsiveSearch
                   searchValue={searchTerm}
                   onSearchChange={setSearchTerm}
-                  placeholder="Search products..."
+                  onSearchSubmit={handleSearchSubmit}
+                  placeholder={barcodeScannerEnabled ? "Search or scan products..." : "Search products..."}
                   compactMode={false}
+                  className="flex-1"
                 />
+                {barcodeScannerEnabled && (
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => setShowCameraScanner(true)}
+                    className="h-10 flex-shrink-0"
+                    title="Scan with camera"
+                  >
+                    <ScanLine className="w-4 h-4" />
+                  </Button>
+                )}
               </div>
 
               {/* Category Filter - Desktop */}
@@ -708,10 +927,10 @@ export function POSView() {
                                 size="sm"
                                 variant="outline"
                                 className="h-6 w-6 sm:h-7 sm:w-7 p-0 rounded-full touch-manipulation"
-                                disabled={getCartQuantity(product.id) === 0}
+                                disabled={product.has_variants || getCartQuantity(product.id) === 0}
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  updateQuantity(product.id, getCartQuantity(product.id) - 1);
+                                  handleUpdateQuantity(product.id, getCartQuantity(product.id) - 1);
                                 }}
                               >
                                 <Minus className="w-3 h-3" />
@@ -788,10 +1007,10 @@ export function POSView() {
                                 size="sm"
                                 variant="outline"
                                 className="h-8 w-8 sm:h-10 sm:w-10 p-0 rounded-full touch-manipulation"
-                                disabled={getCartQuantity(product.id) === 0}
+                                disabled={product.has_variants || getCartQuantity(product.id) === 0}
                                 onClick={(e) => {
                                   e.stopPropagation();
-                                  updateQuantity(product.id, getCartQuantity(product.id) - 1);
+                                  handleUpdateQuantity(product.id, getCartQuantity(product.id) - 1);
                                 }}
                               >
                                 <Minus className="w-4 h-4 sm:w-5 sm:h-5" />
@@ -871,10 +1090,10 @@ export function POSView() {
                                     size="sm"
                                     variant="outline"
                                     className="h-7 w-7 sm:h-8 sm:w-8 p-0 rounded-full touch-manipulation"
-                                    disabled={getCartQuantity(product.id) === 0}
+                                    disabled={product.has_variants || getCartQuantity(product.id) === 0}
                                     onClick={(e) => {
                                       e.stopPropagation();
-                                      updateQuantity(product.id, getCartQuantity(product.id) - 1);
+                                      handleUpdateQuantity(product.id, getCartQuantity(product.id) - 1);
                                     }}
                                   >
                                     <Minus className="w-3 h-3 sm:w-4 sm:h-4" />
@@ -921,23 +1140,56 @@ export function POSView() {
               discountValue={discountValue}
               discountType={discountType}
               discountCode={discountCode}
+              appliedDiscounts={cartDiscounts.applied}
+              isCodeApplied={!!codeDiscount}
+              isApplyingDiscountCode={isApplyingDiscountCode}
+              loyaltyRedemption={loyaltyRedemption}
+              giftCardCode={giftCardCode}
+              giftCardPayments={giftCardPayments}
+              isApplyingGiftCard={isApplyingGiftCard}
+              customerCreditBalance={customerCreditBalance}
+              amountToPay={amountToPay}
+              splitPayments={splitPayments}
+              cashTendered={cashTendered}
+              tenders={tenders}
               isProcessingOrder={isProcessingOrder}
               customers={customers}
               paymentOptions={getPaymentOptions()}
-              onUpdateQuantity={updateQuantity}
-              onClearCart={clearCart}
+              onUpdateQuantity={handleUpdateQuantity}
+              onOverridePrice={isOnline ? setPriceOverrideItem : undefined}
+              onClearCart={handleClearCart}
               onSetSelectedCustomer={setSelectedCustomer}
               onSetPaymentMethod={setPaymentMethod}
               onSetDiscountValue={setDiscountValue}
               onSetDiscountType={setDiscountType}
               onSetDiscountCode={setDiscountCode}
+              onApplyDiscountCode={() => currentStore?.id && applyDiscountCode(currentStore.id)}
+              onRemoveDiscountCode={removeDiscountCode}
+              onSetLoyaltyPoints={setLoyaltyPointsToRedeem}
+              onSetGiftCardCode={setGiftCardCode}
+              onApplyGiftCard={() => currentStore?.id && applyGiftCard(currentStore.id)}
+              onApplyStoreCredit={() => currentStore?.id && applyStoreCredit(currentStore.id)}
+              onRemoveGiftCard={removeGiftCardTender}
+              onSetCashTendered={setCashTendered}
+              onStartSplitPayment={startSplitPayment}
+              onAddSplitPayment={addSplitPayment}
+              onUpdateSplitPayment={updateSplitPayment}
+              onRemoveSplitPayment={removeSplitPayment}
+              onCancelSplitPayment={cancelSplitPayment}
               onProcessOrder={processOrder}
+              onCreateLayby={isOnline ? handleCreateLayby : undefined}
               className="h-full"
             />
           </div>
         </div>
       </PageLayout>
 
+      {/* Offline Sync Conflicts */}
+      <SyncConflictsDialog
+        open={showSyncConflicts}
+        onOpenChange={setShowSyncConflicts}
+      />
+
       {/* Receipt Dialog */}
     {lastOrder && (
       <ReceiptDialog
@@ -957,12 +1209,52 @@ export function POSView() {
         discountCode={lastOrder.discountCode}
         taxAmount={lastOrder.taxAmount}
         taxRate={taxRate}
+        loyaltyPointsRedeemed={lastOrder.loyaltyPointsRedeemed}
+        loyaltyDiscountAmount={lastOrder.loyaltyDiscountAmount}
+        loyaltyPointsEarned={lastOrder.loyaltyPointsEarned}
+        giftCardPayments={lastOrder.giftCardPayments}
         total={lastOrder.total}
-        paymentMethod={lastOrder.paymentMethod}
+        paymentMethod={getPaymentMethodDisplay(lastOrder.paymentMethod)}
+        payments={lastOrder.payments?.length > 1 || lastOrder.changeGiven > 0
+          ? lastOrder.payments.map((payment: CheckoutPayment) => ({ ...payment, method: getPaymentMethodDisplay(payment.method) }))
+          : undefined}
+        changeGiven={lastOrder.changeGiven}
         cashierName={user?.email}
       />
     )}
 
+    {/* Layby from the cart */}
+    <AddLaybyDialog
+      open={showLaybyDialog}
+      onOpenChange={setShowLaybyDialog}
+      initialItems={laybyItems}
+      initialCustomer={selectedCustomer}
+      onLaybyAdded={() => {
+        clearCart();
+        if (currentStore?.id) {
+          usePOSStore.getState().fetchProducts(currentStore.id);
+        }
+      }}
+    />
+
+    <PriceOverrideDialog
+      item={priceOverrideItem}
+      onOpenChange={(open) => !open && setPriceOverrideItem(null)}
+      onConfirm={handlePriceOverride}
+    />
+
+    <ManagerOverrideDialog />
+
+    <VariantPickerDialog
+      onVariantAdded={(variant) => trackFeatureUsage('pos_add_to_cart', `variant_${variant.id}`)}
+    />
+
+    <BarcodeCameraScanner
+      open={showCameraScanner}
+      onOpenChange={setShowCameraScanner}
+      onDetected={handleBarcodeScan}
+    />
+
     {/* Order History Dialog */}
     <OrderHistoryDialog
       open={showOrderHistory}
@@ -1079,7 +1371,12 @@ export function POSView() {
 
                       <div className="flex-1 min-w-0">
                         <div className="flex items-start justify-between">
-                          <h5 className="font-medium text-foreground text-sm truncate pr-2">{item.name}</h5>
+                          <div className="min-w-0 pr-2">
+                            <h5 className="font-medium text-foreground text-sm truncate">{item.name}</h5>
+                            {item.variant_name && (
+                              <p className="text-xs text-muted-foreground truncate">{item.variant_name}</p>
+                            )}
+                          </div>
                           <span className="text-sm font-medium text-foreground">
                             {formatCurrency(item.price * item.quantity)}
                           </span>
@@ -1091,7 +1388,7 @@ export function POSView() {
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => updateQuantity(item.id, item.quantity - 1)}
+                              onClick={() => handleUpdateQuantity(item.id, item.quantity - 1)}
                               className="h-7 w-7 p-0"
                             >
                               <Minus className="w-3 h-3" />
@@ -1100,20 +1397,33 @@ export function POSView() {
                             <Button
                               size="sm"
                               variant="outline"
-                              onClick={() => updateQuantity(item.id, item.quantity + 1)}
+                              onClick={() => handleUpdateQuantity(item.id, item.quantity + 1)}
                               className="h-7 w-7 p-0"
                             >
                               <Plus className="w-3 h-3" />
                             </Button>
                           </div>
-                          <Button
-                            size="sm"
-                            variant="ghost"
-                            onClick={() => removeFromCart(item.id)}
-                            className="h-7 w-7 p-0 text-destructive hover:text-destructive"
-                          >
-                            <Trash2 className="w-3 h-3" />
-                          </Button>
+                          <div className="flex items-center gap-1">
+                            {isOnline && (
+                              <Button
+                                size="sm"
+                                variant="ghost"
+                                onClick={() => setPriceOverrideItem(item)}
+                                className="h-7 w-7 p-0 text-muted-foreground"
+                                title="Change price"
+                              >
+                                <Tag className="w-3 h-3" />
+                              </Button>
+                            )}
+                            <Button
+                              size="sm"
+                              variant="ghost"
+                              onClick={() => handleRemoveFromCart(item.id)}
+                              className="h-7 w-7 p-0 text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="w-3 h-3" />
+                            </Button>
+                          </div>
                         </div>
                       </div>
                       </div>
@@ -1138,26 +1448,52 @@ export function POSView() {
                 </div>
                 {discountAmount > 0 && (
                   <div className="flex justify-between text-sm text-green-600">
-                    <span>Discount {discountCode && `(${discountCode})`}</span>
+                    <span>Discount</span>
                     <span>-{formatCurrency(discountAmount)}</span>
                   </div>
                 )}
+                {cartDiscounts.applied.map((discount) => (
+                  <div key={discount.discountId} className="flex justify-between text-sm text-green-600">
+                    <span>{discount.name} {discount.code && `(${discount.code})`}</span>
+                    <span>-{formatCurrency(discount.amount)}</span>
+                  </div>
+                ))}
                 <div className="flex justify-between text-sm">
                   <span>Tax</span>
                   <span>{formatCurrency(taxAmount)}</span>
                 </div>
+                {loyaltyRedemption && loyaltyRedemption.value > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Points ({loyaltyRedemption.points.toLocaleString()})</span>
+                    <span>-{formatCurrency(loyaltyRedemption.value)}</span>
+                  </div>
+                )}
                 <div className="flex justify-between text-lg font-bold border-t pt-2">
                   <span>Total</span>
                   <span>{formatCurrency(total)}</span>
                 </div>
+                {giftCardPayments.filter(card => card.amount > 0).map((card) => (
+                  <div key={card.code} className="flex justify-between text-sm text-muted-foreground">
+                    <span>{card.kind === 'store_credit' ? 'Store credit' : `Gift card ${maskGiftCardCode(card.code)}`}</span>
+                    <span>-{formatCurrency(card.amount)}</span>
+                  </div>
+                ))}
+                {amountToPay !== total && (
+                  <div className="flex justify-between font-semibold">
+                    <span>Amount Due</span>
+                    <span>{formatCurrency(amountToPay)}</span>
+                  </div>
+                )}
               </div>
 
               {/* Payment Method */}
               <div className="space-y-2">
                 <label className="text-sm font-medium">Payment Method</label>
-                <Select value={paymentMethod} onValueChange={setPaymentMethod}>
+                <Select value={paymentMethod} onValueChange={setPaymentMethod} disabled={isSplitPayment}>
                   <SelectTrigger>
-                    <SelectValue placeholder="Select payment method" />
+                    <SelectValue placeholder="Select payment method">
+                      {isSplitPayment ? 'Split' : undefined}
+                    </SelectValue>
                   </SelectTrigger>
                   <SelectContent>
                     {getPaymentOptions().map((option) => (
@@ -1176,6 +1512,21 @@ export function POSView() {
                 </Select>
               </div>
 
+              <POSPaymentTenders
+                paymentMethod={paymentMethod}
+                paymentOptions={getPaymentOptions()}
+                splitPayments={splitPayments}
+                cashTendered={cashTendered}
+                tenders={tenders}
+                amountToPay={amountToPay}
+                onSetCashTendered={setCashTendered}
+                onStartSplitPayment={startSplitPayment}
+                onAddSplitPayment={addSplitPayment}
+                onUpdateSplitPayment={updateSplitPayment}
+                onRemoveSplitPayment={removeSplitPayment}
+                onCancelSplitPayment={cancelSplitPayment}
+              />
+
               {/* Checkout Button */}
               <Button
                 onClick={processOrder}
@@ -1190,7 +1541,7 @@ export function POSView() {
                 ) : (
                   <>
                     <CreditCard className="w-4 h-4 mr-2" />
-                    Complete Sale - {formatCurrency(total)}
+                    Complete Sale - {formatCurrency(amountToPay)}
                   </>
                 )}
               </Button>
@@ -0,0 +1,106 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { toast } from "sonner";
+import { useTax } from "@/hooks/useTax";
+import type { CartItem } from "@/stores/posStore";
+
+interface PriceOverrideDialogProps {
+  item: CartItem | null;
+  onOpenChange: (open: boolean) => void;
+  onConfirm: (item: CartItem, price: number, reason: string) => void;
+}
+
+export function PriceOverrideDialog({ item, onOpenChange, onConfirm }: PriceOverrideDialogProps) {
+  const { formatCurrency } = useTax();
+  const [price, setPrice] = useState('');
+  const [reason, setReason] = useState('');
+
+  useEffect(() => {
+    if (item) {
+      setPrice(item.price.toString());
+      setReason('');
+    }
+  }, [item]);
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!item) return;
+
+    const newPrice = Math.round(parseFloat(price) * 100) / 100;
+    if (isNaN(newPrice) || newPrice < 0) {
+      toast.error('Enter a valid price');
+      return;
+    }
+    if (newPrice === item.price) {
+      onOpenChange(false);
+      return;
+    }
+    if (!reason.trim()) {
+      toast.error('Give a reason for the price change');
+      return;
+    }
+
+    onConfirm(item, newPrice, reason.trim());
+  };
+
+  return (
+    <Dialog open={item !== null} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-sm">
+        <DialogHeader>
+          <DialogTitle>Change Price</DialogTitle>
+          <DialogDescription>
+            {item && (
+              <>
+                {item.name}{item.variant_name ? ` (${item.variant_name})` : ''} sells
+                for {formatCurrency(item.original_price ?? item.price)}. A manager has to approve the new price.
+              </>
+            )}
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="price-override-price">New unit price *</Label>
+            <Input
+              id="price-override-price"
+              type="number"
+              min="0"
+              step="0.01"
+              value={price}
+              onChange={(e) => setPrice(e.target.value)}
+              autoFocus
+            />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="price-override-reason">Reason *</Label>
+            <Input
+              id="price-override-reason"
+              placeholder="e.g. damaged packaging, price match"
+              value={reason}
+              onChange={(e) => setReason(e.target.value)}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">
+              Request Approval
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -10,10 +10,13 @@ import { OrderReceipt } from "./OrderReceipt";
 import { toast } from "sonner";
 import jsPDF from 'jspdf';
 import { useTax } from "@/hooks/useTax";
+import { maskGiftCardCode } from "@/lib/giftCards";
+import type { CheckoutGiftCardPayment, CheckoutPayment } from "@/stores/posStore";
 
 interface ReceiptItem {
   id: string;
   name: string;
+  variant_name?: string | null;
   sku: string;
   quantity: number;
   unit_price: number;
@@ -37,8 +40,16 @@ interface ReceiptDialogProps {
   discountCode?: string;
   taxAmount: number;
   taxRate: number;
+  loyaltyPointsRedeemed?: number;
+  loyaltyDiscountAmount?: number;
+  loyaltyPointsEarned?: number;
+  // Gift cards and store credit that paid part of the total
+  giftCardPayments?: CheckoutGiftCardPayment[];
   total: number;
   paymentMethod: string;
+  // Each tender of the sale, by display name, when there was more than one or change was given
+  payments?: CheckoutPayment[];
+  changeGiven?: number;
   cashierName?: string;
 }
 
@@ -59,12 +70,19 @@ export function ReceiptDialog({
   discountCode,
   taxAmount,
   taxRate,
+  loyaltyPointsRedeemed = 0,
+  loyaltyDiscountAmount = 0,
+  loyaltyPointsEarned = 0,
+  giftCardPayments = [],
   total,
   paymentMethod,
+  payments = [],
+  changeGiven = 0,
   cashierName,
 }: ReceiptDialogProps) {
   const receiptRef = useRef<HTMLDivElement>(null);
   const { formatCurrency } = useTax();
+  const giftCardTotal = giftCardPayments.reduce((sum, card) => sum + card.amount, 0);
 
   const handlePrint = (): void => {
     if (receiptRef.current) {
@@ -192,7 +210,7 @@ export function ReceiptDialog({
 
       // Items
       items.forEach(item => {
-        addText(`${item.name}`, 9);
+        addText(item.variant_name ? `${item.name} (${item.variant_name})` : `${item.name}`, 9);
         addText(`${item.sku}`, 8);
         addText(`${item.quantity} x ${formatCurrency(item.unit_price)} = ${formatCurrency(item.total_price)}`, 8);
         yPosition += 1;
@@ -210,8 +228,30 @@ export function ReceiptDialog({
       if (taxAmount > 0) {
         addText(`Tax (${(taxRate * 100).toFixed(1)}%): ${formatCurrency(taxAmount)}`, 9);
       }
+      if (loyaltyDiscountAmount > 0) {
+        addText(`Points (${loyaltyPointsRedeemed}): -${formatCurrency(loyaltyDiscountAmount)}`, 9);
+      }
       addText(`TOTAL: $${total.toFixed(2)}`, 11);
-      addText(`Payment: ${paymentMethod}`, 9);
+      giftCardPayments.forEach(card => {
+        const label = card.kind === 'store_credit' ? 'Store credit' : `Gift card ${maskGiftCardCode(card.code)}`;
+        addText(`${label}: ${formatCurrency(card.amount)} (${formatCurrency(card.balance)} left)`, 9);
+      });
+      if (payments.length > 0) {
+        payments.forEach(payment => {
+          addText(`${payment.method}: ${formatCurrency(payment.amount)}`, 9);
+          if (payment.change > 0) {
+            addText(`  Tendered: ${formatCurrency(payment.tendered)}`, 8);
+          }
+        });
+      } else if (total > giftCardTotal || giftCardTotal === 0) {
+        addText(`Payment: ${paymentMethod}${giftCardTotal > 0 ? ` ${formatCurrency(total - giftCardTotal)}` : ''}`, 9);
+      }
+      if (changeGiven > 0) {
+        addText(`Change: ${formatCurrency(changeGiven)}`, 9);
+      }
+      if (loyaltyPointsEarned > 0) {
+        addText(`Points earned: ${loyaltyPointsEarned}`, 9);
+      }
 
       yPosition += 4;
       addText('================================', 8, 'center');
@@ -254,8 +294,14 @@ export function ReceiptDialog({
           discountCode={discountCode}
           taxAmount={taxAmount}
           taxRate={taxRate}
+          loyaltyPointsRedeemed={loyaltyPointsRedeemed}
+          loyaltyDiscountAmount={loyaltyDiscountAmount}
+          loyaltyPointsEarned={loyaltyPointsEarned}
+          giftCardPayments={giftCardPayments}
           total={total}
           paymentMethod={paymentMethod}
+          payments={payments}
+          changeGiven={changeGiven}
           cashierName={cashierName}
           onPrint={handlePrint}
           onDownload={handleDownload}
@@ -0,0 +1,113 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Card, CardContent } from "@/components/ui/card";
+import { AlertTriangle, Calendar, RefreshCw, Trash2 } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { usePOSStore } from "@/stores/posStore";
+import { useTax } from "@/hooks/useTax";
+
+interface SyncConflictsDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+export function SyncConflictsDialog({ open, onOpenChange }: SyncConflictsDialogProps) {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const conflicts = usePOSStore(state => state.syncConflicts);
+  const isSyncing = usePOSStore(state => state.isSyncing);
+  const retrySyncConflict = usePOSStore(state => state.retrySyncConflict);
+  const discardSyncConflict = usePOSStore(state => state.discardSyncConflict);
+
+  const handleDiscard = async (saleId: string, orderNumber: string) => {
+    if (!currentStore?.id) return;
+    if (!confirm(`Discard offline sale ${orderNumber}? It will not be recorded in sales or stock.`)) {
+      return;
+    }
+    await discardSyncConflict(currentStore.id, saleId);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <AlertTriangle className="w-5 h-5 text-destructive" />
+            Offline Sync Conflicts
+          </DialogTitle>
+          <DialogDescription>
+            These sales were rung up offline but could not be recorded when replayed. Adjust stock
+            for the listed products and retry, or discard the sale and ring it up again at today's prices.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto space-y-3">
+          {conflicts.length === 0 ? (
+            <div className="text-center py-8 text-muted-foreground">
+              No conflicts - all offline sales have synced
+            </div>
+          ) : (
+            conflicts.map((sale) => (
+              <Card key={sale.id}>
+                <CardContent className="p-4 space-y-3">
+                  <div className="flex items-center justify-between">
+                    <div>
+                      <h4 className="font-medium text-foreground">#{sale.orderNumber}</h4>
+                      <div className="flex items-center gap-2 text-sm text-muted-foreground">
+                        <Calendar className="w-3 h-3" />
+                        {new Date(sale.soldAt).toLocaleString()}
+                        {sale.customerName && <span>· {sale.customerName}</span>}
+                      </div>
+                    </div>
+                    <div className="text-right">
+                      <div className="font-bold">{formatCurrency(sale.total)}</div>
+                      <Badge variant="outline" className="text-xs">
+                        {sale.attempts} {sale.attempts === 1 ? 'attempt' : 'attempts'}
+                      </Badge>
+                    </div>
+                  </div>
+
+                  <ul className="text-sm space-y-1">
+                    {sale.errors.map((error, index) => (
+                      <li key={index} className="flex items-start gap-2 text-destructive">
+                        <span className="mt-0.5">•</span>
+                        <span>{error.message}</span>
+                      </li>
+                    ))}
+                  </ul>
+
+                  <div className="flex justify-end gap-2">
+                    <Button
+                      size="sm"
+                      variant="outline"
+                      onClick={() => handleDiscard(sale.id, sale.orderNumber)}
+                      className="text-destructive"
+                    >
+                      <Trash2 className="w-4 h-4 mr-2" />
+                      Discard
+                    </Button>
+                    <Button
+                      size="sm"
+                      disabled={isSyncing}
+                      onClick={() => currentStore?.id && retrySyncConflict(currentStore.id, sale.id)}
+                    >
+                      <RefreshCw className={`w-4 h-4 mr-2 ${isSyncing ? 'animate-spin' : ''}`} />
+                      Retry
+                    </Button>
+                  </div>
+                </CardContent>
+              </Card>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,68 @@
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Tooltip, TooltipContent, TooltipTrigger } from "@/components/ui/tooltip";
+import { Wifi, WifiOff, RefreshCw, AlertTriangle } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { usePOSStore } from "@/stores/posStore";
+
+export function SyncStatusIndicator() {
+  const currentStore = useCurrentStore();
+  const isOnline = usePOSStore(state => state.isOnline);
+  const isSyncing = usePOSStore(state => state.isSyncing);
+  const pendingSalesCount = usePOSStore(state => state.pendingSalesCount);
+  const conflictCount = usePOSStore(state => state.syncConflicts.length);
+  const lastSyncedAt = usePOSStore(state => state.lastSyncedAt);
+  const syncOfflineSales = usePOSStore(state => state.syncOfflineSales);
+  const setShowSyncConflicts = usePOSStore(state => state.setShowSyncConflicts);
+
+  const statusLabel = isSyncing
+    ? 'Syncing...'
+    : isOnline
+      ? pendingSalesCount > 0 ? `${pendingSalesCount} to sync` : 'Online'
+      : pendingSalesCount > 0 ? `Offline · ${pendingSalesCount} queued` : 'Offline';
+
+  return (
+    <div className="flex items-center gap-2">
+      <Tooltip>
+        <TooltipTrigger asChild>
+          <Button
+            variant="outline"
+            size="sm"
+            disabled={!isOnline || isSyncing || pendingSalesCount === 0}
+            onClick={() => currentStore?.id && syncOfflineSales(currentStore.id)}
+            className={isOnline ? "" : "border-warning/40 text-warning"}
+          >
+            {isSyncing ? (
+              <RefreshCw className="w-4 h-4 animate-spin" />
+            ) : isOnline ? (
+              <Wifi className="w-4 h-4 text-success" />
+            ) : (
+              <WifiOff className="w-4 h-4" />
+            )}
+            <span className="ml-2 hidden sm:inline">{statusLabel}</span>
+          </Button>
+        </TooltipTrigger>
+        <TooltipContent>
+          {isOnline
+            ? 'Connected - sales are recorded immediately'
+            : 'No connection - sales are saved on this device and synced later'}
+          {lastSyncedAt && (
+            <div className="text-xs opacity-80">Last synced {new Date(lastSyncedAt).toLocaleTimeString()}</div>
+          )}
+        </TooltipContent>
+      </Tooltip>
+
+      {conflictCount > 0 && (
+        <Button
+          variant="outline"
+          size="sm"
+          onClick={() => setShowSyncConflicts(true)}
+          className="border-destructive/40 text-destructive"
+        >
+          <AlertTriangle className="w-4 h-4" />
+          <Badge variant="destructive" className="ml-2 h-5 px-1.5">{conflictCount}</Badge>
+        </Button>
+      )}
+    </div>
+  );
+}
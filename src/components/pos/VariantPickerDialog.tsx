@@ -0,0 +1,82 @@
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Badge } from "@/components/ui/badge";
+import { usePOSStore, cartLineId, type ProductVariantOption } from "@/stores/posStore";
+import { useTax } from "@/hooks/useTax";
+import { cn } from "@/lib/utils";
+
+interface VariantPickerDialogProps {
+  onVariantAdded?: (variant: ProductVariantOption) => void;
+}
+
+/**
+ * Opens when a product with variants is added to the cart, so the cashier can pick one
+ */
+export function VariantPickerDialog({ onVariantAdded }: VariantPickerDialogProps) {
+  const { formatCurrency } = useTax();
+  const product = usePOSStore(state => state.variantPickerProduct);
+  const cart = usePOSStore(state => state.cart);
+  const addToCart = usePOSStore(state => state.addToCart);
+  const setVariantPickerProduct = usePOSStore(state => state.setVariantPickerProduct);
+
+  const variants = (product?.product_variants || []).filter(variant => variant.is_active);
+
+  const inCart = (variant: ProductVariantOption) =>
+    product ? cart.find(item => item.id === cartLineId(product.id, variant.id))?.quantity || 0 : 0;
+
+  const handleSelect = (variant: ProductVariantOption) => {
+    if (!product) return;
+    addToCart(product, variant);
+    setVariantPickerProduct(null);
+    onVariantAdded?.(variant);
+  };
+
+  return (
+    <Dialog open={product !== null} onOpenChange={(open) => !open && setVariantPickerProduct(null)}>
+      <DialogContent className="max-w-lg max-h-[80vh] overflow-hidden flex flex-col">
+        <DialogHeader>
+          <DialogTitle>{product?.name}</DialogTitle>
+          <DialogDescription>Choose an option to add to the cart</DialogDescription>
+        </DialogHeader>
+
+        <div className="flex-1 overflow-y-auto grid grid-cols-1 sm:grid-cols-2 gap-2">
+          {variants.length === 0 ? (
+            <div className="col-span-full text-center py-8 text-muted-foreground">
+              This product has no active variants
+            </div>
+          ) : (
+            variants.map((variant) => {
+              const available = variant.stock_quantity - inCart(variant);
+              return (
+                <button
+                  key={variant.id}
+                  type="button"
+                  disabled={available <= 0}
+                  onClick={() => handleSelect(variant)}
+                  className={cn(
+                    "text-left border rounded-lg p-3 transition-colors touch-manipulation",
+                    available > 0 ? "hover:border-primary hover:bg-muted/50" : "opacity-50 cursor-not-allowed"
+                  )}
+                >
+                  <div className="font-medium text-sm">{variant.name}</div>
+                  {variant.sku && <div className="text-xs text-muted-foreground">SKU: {variant.sku}</div>}
+                  <div className="flex items-center justify-between mt-2">
+                    <span className="font-semibold text-sm">{formatCurrency(variant.price)}</span>
+                    <Badge variant={variant.stock_quantity > 0 ? "default" : "destructive"} className="text-xs">
+                      {variant.stock_quantity > 0 ? `${variant.stock_quantity} in stock` : 'Out of stock'}
+                    </Badge>
+                  </div>
+                </button>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -1,5 +1,5 @@
 import { Button } from '@/components/ui/button';
-import { Plus, Minus, Trash2, Package } from 'lucide-react';
+import { Plus, Minus, Trash2, Package, Tag } from 'lucide-react';
 import { formatCurrency } from '@/lib/taxUtils';
 import { cn } from '@/lib/utils';
 import { CartItem } from '@/stores/posStore';
@@ -7,10 +7,11 @@ import { CartItem } from '@/stores/posStore';
 interface POSCartItemProps {
   item: CartItem;
   onUpdateQuantity: (id: string, quantity: number) => void;
+  onOverridePrice?: (item: CartItem) => void;
   className?: string;
 }
 
-export function POSCartItem({ item, onUpdateQuantity, className }: POSCartItemProps) {
+export function POSCartItem({ item, onUpdateQuantity, onOverridePrice, className }: POSCartItemProps) {
   const handleQuantityChange = (newQuantity: number) => {
     onUpdateQuantity(item.id, newQuantity);
   };
@@ -43,6 +44,9 @@ export function POSCartItem({ item, onUpdateQuantity, className }: POSCartItemPr
             <h4 className="font-medium text-sm leading-tight truncate">
               {item.name}
             </h4>
+            {item.variant_name && (
+              <p className="text-xs text-muted-foreground truncate">{item.variant_name}</p>
+            )}
 
             {/* Price and Quantity in one line */}
             <div className="flex items-center justify-between mt-1">
@@ -55,10 +59,26 @@ export function POSCartItem({ item, onUpdateQuantity, className }: POSCartItemPr
                     ({formatCurrency(item.price)} each)
                   </span>
                 )}
+                {item.original_price !== undefined && item.original_price !== item.price && (
+                  <span className="text-xs text-muted-foreground line-through">
+                    {formatCurrency(item.original_price)}
+                  </span>
+                )}
               </div>
 
               {/* Quantity Controls - Compact */}
               <div className="flex items-center gap-1">
+                {onOverridePrice && (
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => onOverridePrice(item)}
+                    className="h-6 w-6 p-0 text-muted-foreground"
+                    title="Change price"
+                  >
+                    <Tag className="w-3 h-3" />
+                  </Button>
+                )}
                 <Button
                   variant="ghost"
                   size="sm"
@@ -4,9 +4,14 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Input } from '@/components/ui/input';
 import { Badge } from '@/components/ui/badge';
 import { Separator } from '@/components/ui/separator';
-import { ShoppingCart, CreditCard, DollarSign, User, Trash2, UserPlus, Percent, X } from 'lucide-react';
+import { ShoppingCart, CreditCard, DollarSign, User, Trash2, UserPlus, Percent, X, Ticket, Loader2, Award, Clock, Gift, Wallet } from 'lucide-react';
 import { POSCartItem } from './POSCartItem';
-import { CartItem, Customer } from '@/stores/posStore';
+import { POSPaymentTenders } from './POSPaymentTenders';
+import { CartItem, Customer, type GiftCardTender } from '@/stores/posStore';
+import type { AppliedDiscount } from '@/lib/discountEngine';
+import type { LoyaltyRedemption } from '@/lib/loyalty';
+import { maskGiftCardCode } from '@/lib/giftCards';
+import type { PaymentTender, ResolvedTenders } from '@/lib/tenders';
 import { formatCurrency } from '@/lib/taxUtils';
 import { cn } from '@/lib/utils';
 
@@ -21,6 +26,20 @@ interface POSCartSectionProps {
   discountValue: string;
   discountType: "percent" | "fixed";
   discountCode: string;
+  appliedDiscounts: AppliedDiscount[];
+  isCodeApplied: boolean;
+  isApplyingDiscountCode: boolean;
+  loyaltyRedemption: LoyaltyRedemption | null;
+  giftCardCode: string;
+  // Gift cards and store credit on the sale, with what each one pays
+  giftCardPayments: Array<GiftCardTender & { amount: number }>;
+  isApplyingGiftCard: boolean;
+  customerCreditBalance: number | null;
+  // What is left for the payment method after gift cards
+  amountToPay: number;
+  splitPayments: PaymentTender[];
+  cashTendered: string;
+  tenders: ResolvedTenders;
   isProcessingOrder: boolean;
   customers: Customer[];
   paymentOptions: Array<{
@@ -30,13 +49,29 @@ interface POSCartSectionProps {
     provider?: string;
   }>;
   onUpdateQuantity: (id: string, quantity: number) => void;
+  onOverridePrice?: (item: CartItem) => void;
   onClearCart: () => void;
   onSetSelectedCustomer: (customer: Customer | null) => void;
   onSetPaymentMethod: (method: string) => void;
   onSetDiscountValue: (value: string) => void;
   onSetDiscountType: (type: "percent" | "fixed") => void;
   onSetDiscountCode: (code: string) => void;
+  onApplyDiscountCode: () => void;
+  onRemoveDiscountCode: () => void;
+  onSetLoyaltyPoints: (points: number) => void;
+  onSetGiftCardCode: (code: string) => void;
+  onApplyGiftCard: () => void;
+  onApplyStoreCredit: () => void;
+  onRemoveGiftCard: (code: string) => void;
+  onSetCashTendered: (value: string) => void;
+  onStartSplitPayment: () => void;
+  onAddSplitPayment: (amount: number) => void;
+  onUpdateSplitPayment: (id: string, changes: Partial<Omit<PaymentTender, 'id'>>) => void;
+  onRemoveSplitPayment: (id: string) => void;
+  onCancelSplitPayment: () => void;
   onProcessOrder: () => void;
+  // Put the cart on layby instead of selling it now
+  onCreateLayby?: () => void;
   className?: string;
 }
 
@@ -51,25 +86,59 @@ export function POSCartSection({
   discountValue,
   discountType,
   discountCode,
+  appliedDiscounts,
+  isCodeApplied,
+  isApplyingDiscountCode,
+  loyaltyRedemption,
+  giftCardCode,
+  giftCardPayments,
+  isApplyingGiftCard,
+  customerCreditBalance,
+  amountToPay,
+  splitPayments,
+  cashTendered,
+  tenders,
   isProcessingOrder,
   customers,
   paymentOptions,
   onUpdateQuantity,
+  onOverridePrice,
   onClearCart,
   onSetSelectedCustomer,
   onSetPaymentMethod,
   onSetDiscountValue,
   onSetDiscountType,
   onSetDiscountCode,
+  onApplyDiscountCode,
+  onRemoveDiscountCode,
+  onSetLoyaltyPoints,
+  onSetGiftCardCode,
+  onApplyGiftCard,
+  onApplyStoreCredit,
+  onRemoveGiftCard,
+  onSetCashTendered,
+  onStartSplitPayment,
+  onAddSplitPayment,
+  onUpdateSplitPayment,
+  onRemoveSplitPayment,
+  onCancelSplitPayment,
   onProcessOrder,
+  onCreateLayby,
   className
 }: POSCartSectionProps) {
+  const isBelowMinimumRedemption = !!loyaltyRedemption &&
+    loyaltyRedemption.points > 0 && loyaltyRedemption.points < loyaltyRedemption.minRedeemPoints;
+
   const isOrderValid = () => {
-    return cart.length > 0 && selectedCustomer && paymentMethod &&
+    return cart.length > 0 && selectedCustomer && paymentMethod && !isBelowMinimumRedemption &&
            cart.every(item => item.quantity <= item.stock_quantity && item.stock_quantity > 0);
   };
 
   const itemCount = cart.reduce((sum, item) => sum + item.quantity, 0);
+  const isSplit = splitPayments.length > 0;
+  const hasStoreCredit = giftCardPayments.some(card => card.kind === 'store_credit');
+  const giftCardLabel = (card: GiftCardTender) =>
+    card.kind === 'store_credit' ? 'Store credit' : `Gift card ${maskGiftCardCode(card.code)}`;
 
   return (
     <div className={cn("flex flex-col h-full bg-background border rounded-lg overflow-hidden", className)}>
@@ -186,10 +255,12 @@ export function POSCartSection({
               {/* Payment Method Icon */}
               <div className="flex items-center gap-1">
                 <CreditCard className="w-4 h-4 text-muted-foreground" />
-                <Select value={paymentMethod || ""} onValueChange={onSetPaymentMethod}>
+                <Select value={paymentMethod || ""} onValueChange={onSetPaymentMethod} disabled={isSplit}>
                   <SelectTrigger className="h-6 w-auto border-none bg-transparent p-0 text-sm">
                     <SelectValue placeholder="Payment">
-                      {paymentMethod && (
+                      {isSplit ? (
+                        <span className="text-xs">Split</span>
+                      ) : paymentMethod && (
                         <span className="text-xs">
                           {paymentOptions.find(opt => opt.id === paymentMethod)?.name || paymentMethod}
                         </span>
@@ -214,6 +285,141 @@ export function POSCartSection({
               </div>
             </div>
 
+            {/* Discount Code Row */}
+            <div className="flex items-center gap-2 px-4 py-2 border-b">
+              <Ticket className="w-4 h-4 text-muted-foreground" />
+              {isCodeApplied ? (
+                <div className="flex items-center gap-1">
+                  <Badge variant="secondary" className="font-mono text-xs">{discountCode}</Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={onRemoveDiscountCode}
+                    className="h-5 w-5 p-0 text-muted-foreground hover:text-destructive"
+                  >
+                    <X className="w-3 h-3" />
+                  </Button>
+                </div>
+              ) : (
+                <form
+                  className="flex flex-1 items-center gap-1"
+                  onSubmit={(e) => {
+                    e.preventDefault();
+                    onApplyDiscountCode();
+                  }}
+                >
+                  <Input
+                    placeholder="Discount code"
+                    value={discountCode}
+                    onChange={(e) => onSetDiscountCode(e.target.value.toUpperCase())}
+                    className="h-7 text-xs font-mono"
+                  />
+                  <Button
+                    type="submit"
+                    variant="outline"
+                    size="sm"
+                    disabled={!discountCode.trim() || isApplyingDiscountCode}
+                    className="h-7 text-xs"
+                  >
+                    {isApplyingDiscountCode ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Apply'}
+                  </Button>
+                </form>
+              )}
+            </div>
+
+            {/* Gift Card Row */}
+            <div className="px-4 py-2 border-b space-y-1">
+              <form
+                className="flex items-center gap-2"
+                onSubmit={(e) => {
+                  e.preventDefault();
+                  onApplyGiftCard();
+                }}
+              >
+                <Gift className="w-4 h-4 text-muted-foreground" />
+                <Input
+                  placeholder="Gift card code"
+                  value={giftCardCode}
+                  onChange={(e) => onSetGiftCardCode(e.target.value.toUpperCase())}
+                  className="h-7 text-xs font-mono"
+                />
+                <Button
+                  type="submit"
+                  variant="outline"
+                  size="sm"
+                  disabled={!giftCardCode.trim() || isApplyingGiftCard}
+                  className="h-7 text-xs"
+                >
+                  {isApplyingGiftCard ? <Loader2 className="w-3 h-3 animate-spin" /> : 'Apply'}
+                </Button>
+              </form>
+              {customerCreditBalance !== null && !hasStoreCredit && (
+                <Button
+                  variant="outline"
+                  size="sm"
+                  onClick={onApplyStoreCredit}
+                  disabled={isApplyingGiftCard}
+                  className="h-7 w-full text-xs"
+                >
+                  <Wallet className="w-3 h-3 mr-1" />
+                  Use store credit ({formatCurrency(customerCreditBalance)})
+                </Button>
+              )}
+              {giftCardPayments.length > 0 && (
+                <div className="flex flex-wrap gap-1">
+                  {giftCardPayments.map((card) => (
+                    <Badge key={card.code} variant="secondary" className="gap-1 text-xs">
+                      <span className="font-mono">{giftCardLabel(card)}</span>
+                      <span className="text-muted-foreground">{formatCurrency(card.balance)}</span>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => onRemoveGiftCard(card.code)}
+                        className="h-4 w-4 p-0 text-muted-foreground hover:text-destructive"
+                      >
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </Badge>
+                  ))}
+                </div>
+              )}
+            </div>
+
+            {/* Loyalty Points Row */}
+            {loyaltyRedemption && (
+              <div className="px-4 py-2 border-b space-y-1">
+                <div className="flex items-center gap-2">
+                  <Award className="w-4 h-4 text-muted-foreground" />
+                  <span className="text-xs text-muted-foreground whitespace-nowrap">
+                    {loyaltyRedemption.balance.toLocaleString()} pts
+                  </span>
+                  <Input
+                    type="number"
+                    min="0"
+                    max={loyaltyRedemption.maxPoints}
+                    placeholder="Redeem points"
+                    value={loyaltyRedemption.points || ''}
+                    onChange={(e) => onSetLoyaltyPoints(parseInt(e.target.value) || 0)}
+                    className="h-7 text-xs"
+                  />
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    onClick={() => onSetLoyaltyPoints(loyaltyRedemption.maxPoints)}
+                    disabled={loyaltyRedemption.maxPoints === 0}
+                    className="h-7 text-xs"
+                  >
+                    Max
+                  </Button>
+                </div>
+                {isBelowMinimumRedemption && (
+                  <p className="text-xs text-destructive">
+                    Redeem at least {loyaltyRedemption.minRedeemPoints.toLocaleString()} points
+                  </p>
+                )}
+              </div>
+            )}
+
             {/* Cart Items - Scrollable */}
             <div className="flex-1 overflow-hidden min-h-0">
               <ScrollArea className="h-full">
@@ -223,6 +429,7 @@ export function POSCartSection({
                       <POSCartItem
                         item={item}
                         onUpdateQuantity={onUpdateQuantity}
+                        onOverridePrice={onOverridePrice}
                       />
                       {index < cart.length - 1 && (
                         <div className="border-b border-border/30 my-2" />
@@ -247,17 +454,56 @@ export function POSCartSection({
                     <span>-{formatCurrency(discountAmount)}</span>
                   </div>
                 )}
+                {appliedDiscounts.map((discount) => (
+                  <div key={discount.discountId} className="flex justify-between text-sm text-green-600">
+                    <span className="truncate pr-2">{discount.name}</span>
+                    <span>-{formatCurrency(discount.amount)}</span>
+                  </div>
+                ))}
                 {taxAmount > 0 && (
                   <div className="flex justify-between text-sm text-muted-foreground">
                     <span>Tax</span>
                     <span>{formatCurrency(taxAmount)}</span>
                   </div>
                 )}
+                {loyaltyRedemption && loyaltyRedemption.value > 0 && (
+                  <div className="flex justify-between text-sm text-green-600">
+                    <span>Points ({loyaltyRedemption.points.toLocaleString()})</span>
+                    <span>-{formatCurrency(loyaltyRedemption.value)}</span>
+                  </div>
+                )}
                 <Separator />
                 <div className="flex justify-between font-semibold">
                   <span>Total</span>
                   <span>{formatCurrency(total)}</span>
                 </div>
+                {giftCardPayments.filter(card => card.amount > 0).map((card) => (
+                  <div key={card.code} className="flex justify-between text-sm text-muted-foreground">
+                    <span>{giftCardLabel(card)}</span>
+                    <span>-{formatCurrency(card.amount)}</span>
+                  </div>
+                ))}
+                {amountToPay !== total && (
+                  <div className="flex justify-between font-semibold">
+                    <span>Amount Due</span>
+                    <span>{formatCurrency(amountToPay)}</span>
+                  </div>
+                )}
+                <POSPaymentTenders
+                  paymentMethod={paymentMethod}
+                  paymentOptions={paymentOptions}
+                  splitPayments={splitPayments}
+                  cashTendered={cashTendered}
+                  tenders={tenders}
+                  amountToPay={amountToPay}
+                  onSetCashTendered={onSetCashTendered}
+                  onStartSplitPayment={onStartSplitPayment}
+                  onAddSplitPayment={onAddSplitPayment}
+                  onUpdateSplitPayment={onUpdateSplitPayment}
+                  onRemoveSplitPayment={onRemoveSplitPayment}
+                  onCancelSplitPayment={onCancelSplitPayment}
+                  className="pt-2"
+                />
               </div>
 
               {/* Process Order Button */}
@@ -268,8 +514,19 @@ export function POSCartSection({
                   className="w-full h-12 text-base font-semibold shadow-lg"
                   size="lg"
                 >
-                  {isProcessingOrder ? 'Processing...' : `Complete Order • ${formatCurrency(total)}`}
+                  {isProcessingOrder ? 'Processing...' : `Complete Order • ${formatCurrency(amountToPay)}`}
                 </Button>
+                {onCreateLayby && (
+                  <Button
+                    variant="outline"
+                    onClick={onCreateLayby}
+                    disabled={isProcessingOrder}
+                    className="w-full mt-2"
+                  >
+                    <Clock className="w-4 h-4 mr-2" />
+                    Lay By
+                  </Button>
+                )}
               </div>
             </div>
           </>
@@ -0,0 +1,157 @@
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Plus, Split, X } from 'lucide-react';
+import type { PaymentTender, ResolvedTenders } from '@/lib/tenders';
+import { formatCurrency } from '@/lib/taxUtils';
+import { cn } from '@/lib/utils';
+
+interface POSPaymentTendersProps {
+  paymentMethod: string | null;
+  paymentOptions: Array<{ id: string; name: string }>;
+  splitPayments: PaymentTender[];
+  cashTendered: string;
+  tenders: ResolvedTenders;
+  // What is left for the tenders after gift cards
+  amountToPay: number;
+  onSetCashTendered: (value: string) => void;
+  onStartSplitPayment: () => void;
+  onAddSplitPayment: (amount: number) => void;
+  onUpdateSplitPayment: (id: string, changes: Partial<Omit<PaymentTender, 'id'>>) => void;
+  onRemoveSplitPayment: (id: string) => void;
+  onCancelSplitPayment: () => void;
+  className?: string;
+}
+
+export function POSPaymentTenders({
+  paymentMethod,
+  paymentOptions,
+  splitPayments,
+  cashTendered,
+  tenders,
+  amountToPay,
+  onSetCashTendered,
+  onStartSplitPayment,
+  onAddSplitPayment,
+  onUpdateSplitPayment,
+  onRemoveSplitPayment,
+  onCancelSplitPayment,
+  className,
+}: POSPaymentTendersProps) {
+  if (amountToPay <= 0) return null;
+
+  const isSplit = splitPayments.length > 0;
+
+  return (
+    <div className={cn("space-y-2", className)}>
+      {isSplit ? (
+        <>
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium">Split Payment</span>
+            <Button variant="ghost" size="sm" onClick={onCancelSplitPayment} className="h-7 px-2 text-xs">
+              Single payment
+            </Button>
+          </div>
+
+          {splitPayments.map((tender) => (
+            <div key={tender.id} className="space-y-1">
+              <div className="flex items-center gap-2">
+                <Select
+                  value={tender.method}
+                  onValueChange={(method) => onUpdateSplitPayment(tender.id, { method, tendered: '' })}
+                >
+                  <SelectTrigger className="h-8 flex-1 text-sm">
+                    <SelectValue placeholder="Method" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {paymentOptions.map((option) => (
+                      <SelectItem key={option.id} value={option.id}>{option.name}</SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+                <Input
+                  type="number"
+                  step="0.01"
+                  min="0"
+                  placeholder="0.00"
+                  value={tender.amount}
+                  onChange={(e) => onUpdateSplitPayment(tender.id, { amount: e.target.value })}
+                  className="h-8 w-24 text-sm"
+                />
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => onRemoveSplitPayment(tender.id)}
+                  className="h-8 w-8 p-0 text-muted-foreground hover:text-destructive"
+                >
+                  <X className="w-3 h-3" />
+                </Button>
+              </div>
+              {tender.method === 'cash' && (
+                <div className="flex items-center justify-between gap-2 pl-2">
+                  <span className="text-xs text-muted-foreground">Cash received</span>
+                  <Input
+                    type="number"
+                    step="0.01"
+                    min="0"
+                    placeholder={tender.amount || '0.00'}
+                    value={tender.tendered}
+                    onChange={(e) => onUpdateSplitPayment(tender.id, { tendered: e.target.value })}
+                    className="h-7 w-24 text-xs"
+                  />
+                </div>
+              )}
+            </div>
+          ))}
+
+          <div className="flex items-center justify-between">
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => onAddSplitPayment(Math.max(0, tenders.remaining))}
+              className="h-7 text-xs"
+            >
+              <Plus className="w-3 h-3 mr-1" />
+              Add payment
+            </Button>
+            {tenders.remaining !== 0 && (
+              <span className={cn("text-sm", tenders.remaining < 0 ? "text-destructive" : "text-muted-foreground")}>
+                {tenders.remaining > 0
+                  ? `${formatCurrency(tenders.remaining)} left`
+                  : `${formatCurrency(-tenders.remaining)} over`}
+              </span>
+            )}
+          </div>
+        </>
+      ) : (
+        <>
+          {paymentMethod === 'cash' && (
+            <div className="flex items-center justify-between gap-2">
+              <span className="text-sm text-muted-foreground">Cash received</span>
+              <Input
+                type="number"
+                step="0.01"
+                min="0"
+                placeholder={amountToPay.toFixed(2)}
+                value={cashTendered}
+                onChange={(e) => onSetCashTendered(e.target.value)}
+                className="h-8 w-28 text-sm"
+              />
+            </div>
+          )}
+          <Button variant="ghost" size="sm" onClick={onStartSplitPayment} className="h-7 px-2 text-xs">
+            <Split className="w-3 h-3 mr-1" />
+            Split payment
+          </Button>
+        </>
+      )}
+
+      {tenders.change > 0 && (
+        <div className="flex justify-between font-semibold text-green-600">
+          <span>Change</span>
+          <span>{formatCurrency(tenders.change)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,287 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Loader2, FileDown, Send, PackageCheck, Edit, XCircle, Lock } from "lucide-react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { useSuppliers } from "@/stores/inventoryStore";
+import {
+  usePurchaseOrderStore,
+  isOverduePurchaseOrder,
+  type PurchaseOrder,
+  type PurchaseOrderDetails,
+} from "@/stores/purchaseOrderStore";
+import { generatePurchaseOrderPdf } from "@/lib/purchaseOrderPdf";
+import { useTax } from "@/hooks/useTax";
+import { PurchaseOrderStatusBadge } from "./PurchaseOrderStatusBadge";
+import { PurchaseOrderFormDialog } from "./PurchaseOrderFormDialog";
+import { ReceivePurchaseOrderDialog } from "./ReceivePurchaseOrderDialog";
+
+interface PurchaseOrderDetailsDialogProps {
+  purchaseOrder: PurchaseOrder | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+export function PurchaseOrderDetailsDialog({ purchaseOrder, onOpenChange, onChanged }: PurchaseOrderDetailsDialogProps) {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+  const suppliers = useSuppliers();
+  const { formatCurrency } = useTax();
+  const fetchPurchaseOrder = usePurchaseOrderStore(state => state.fetchPurchaseOrder);
+  const updateStatus = usePurchaseOrderStore(state => state.updateStatus);
+
+  const canManage = isOwner || userRole === 'manager';
+
+  const [details, setDetails] = useState<PurchaseOrderDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showReceiveDialog, setShowReceiveDialog] = useState(false);
+
+  const loadDetails = useCallback(async (purchaseOrderId: string) => {
+    setLoading(true);
+    setDetails(await fetchPurchaseOrder(purchaseOrderId));
+    setLoading(false);
+  }, [fetchPurchaseOrder]);
+
+  useEffect(() => {
+    if (purchaseOrder) {
+      loadDetails(purchaseOrder.id);
+    } else {
+      setDetails(null);
+    }
+  }, [purchaseOrder, loadDetails]);
+
+  const order = details?.order;
+  const supplier = suppliers.find(s => s.id === order?.supplier_id);
+
+  const refresh = () => {
+    if (order) loadDetails(order.id);
+    onChanged();
+  };
+
+  const downloadPdf = () => {
+    if (!details || !currentStore) return;
+    const doc = generatePurchaseOrderPdf(
+      details.order,
+      details.items,
+      { name: currentStore.name, address: currentStore.address, phone: currentStore.phone, email: currentStore.email },
+      {
+        name: supplier?.name || details.order.supplier_name,
+        contact_person: supplier?.contact_person,
+        email: supplier?.email,
+        phone: supplier?.phone,
+        address: supplier?.address,
+      },
+      formatCurrency
+    );
+    doc.save(`${details.order.po_number}.pdf`);
+  };
+
+  // There is no mail server behind the app, so "send" hands the PDF to the user's
+  // own email client and marks the draft as ordered
+  const sendToSupplier = async () => {
+    if (!details || !currentStore) return;
+
+    downloadPdf();
+    if (supplier?.email) {
+      const subject = encodeURIComponent(`Purchase Order ${details.order.po_number} from ${currentStore.name}`);
+      const body = encodeURIComponent(
+        `Hello${supplier.contact_person ? ` ${supplier.contact_person}` : ''},\n\n` +
+        `Please find attached purchase order ${details.order.po_number}.` +
+        `${details.order.expected_date ? ` We would like delivery by ${new Date(details.order.expected_date).toLocaleDateString()}.` : ''}\n\n` +
+        `Thank you,\n${currentStore.name}`
+      );
+      window.open(`mailto:${supplier.email}?subject=${subject}&body=${body}`, '_blank');
+    }
+
+    if (details.order.status === 'draft') {
+      setUpdating(true);
+      const updated = await updateStatus(details.order, 'ordered');
+      setUpdating(false);
+      if (updated) refresh();
+    }
+  };
+
+  const changeStatus = async (status: 'cancelled' | 'closed') => {
+    if (!details) return;
+
+    const message = status === 'cancelled'
+      ? `Cancel ${details.order.po_number}?`
+      : `Close ${details.order.po_number}? Outstanding items will no longer be expected.`;
+    if (!confirm(message)) return;
+
+    setUpdating(true);
+    const updated = await updateStatus(details.order, status);
+    setUpdating(false);
+    if (updated) refresh();
+  };
+
+  const canReceive = order && (order.status === 'ordered' || order.status === 'partially_received');
+
+  return (
+    <>
+      <Dialog open={purchaseOrder !== null} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {purchaseOrder?.po_number}
+              {order && <PurchaseOrderStatusBadge order={order} />}
+            </DialogTitle>
+            <DialogDescription>
+              {order?.supplier_name}
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !details || !order ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-4 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Created</p>
+                  <p>{new Date(order.created_at).toLocaleDateString()}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Ordered</p>
+                  <p>{order.order_date ? new Date(order.order_date).toLocaleDateString() : '-'}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Expected</p>
+                  <p className={isOverduePurchaseOrder(order) ? 'text-destructive font-medium' : ''}>
+                    {order.expected_date ? new Date(order.expected_date).toLocaleDateString() : '-'}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Received</p>
+                  <p>{formatCurrency(order.received_cost)} of {formatCurrency(order.total_cost)}</p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Ordered</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                      <TableHead className="text-right">Unit Cost</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {details.items.map((item) => (
+                      <TableRow key={item.id}>
+                        <TableCell>
+                          <div className="font-medium">{item.product_name}</div>
+                          {item.variant_name && <div className="text-sm">{item.variant_name}</div>}
+                          {item.sku && <div className="text-xs text-muted-foreground">{item.sku}</div>}
+                        </TableCell>
+                        <TableCell className="text-right">{item.quantity_ordered}</TableCell>
+                        <TableCell className={`text-right ${item.quantity_received < item.quantity_ordered && order.status !== 'draft' ? 'text-orange-600' : ''}`}>
+                          {item.quantity_received}
+                        </TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.unit_cost)}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(item.quantity_ordered * item.unit_cost)}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {order.notes && (
+                <div className="text-sm">
+                  <p className="text-muted-foreground">Notes</p>
+                  <p className="whitespace-pre-wrap">{order.notes}</p>
+                </div>
+              )}
+
+              {details.receipts.length > 0 && (
+                <div className="space-y-2">
+                  <p className="text-sm font-medium">Deliveries</p>
+                  {details.receipts.map((receipt) => (
+                    <div key={receipt.id} className="flex items-center justify-between text-sm border rounded-lg px-3 py-2">
+                      <div>
+                        <p>{new Date(receipt.received_at).toLocaleString()}</p>
+                        {receipt.notes && <p className="text-xs text-muted-foreground">{receipt.notes}</p>}
+                      </div>
+                      <div className="text-right">
+                        <p className="font-medium">{formatCurrency(receipt.total_cost)}</p>
+                        <p className="text-xs text-muted-foreground">
+                          {receipt.cost_method === 'weighted_average' ? 'Weighted average cost' : 'Latest cost'}
+                        </p>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+          )}
+
+          {details && order && (
+            <DialogFooter className="flex-wrap gap-2">
+              <Button variant="outline" onClick={downloadPdf}>
+                <FileDown className="w-4 h-4 mr-2" />
+                PDF
+              </Button>
+              {canManage && order.status === 'draft' && (
+                <>
+                  <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button onClick={sendToSupplier} disabled={updating}>
+                    <Send className="w-4 h-4 mr-2" />
+                    Send to Supplier
+                  </Button>
+                </>
+              )}
+              {canManage && (order.status === 'draft' || order.status === 'ordered') && (
+                <Button variant="outline" onClick={() => changeStatus('cancelled')} disabled={updating}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  Cancel Order
+                </Button>
+              )}
+              {canManage && order.status === 'partially_received' && (
+                <Button variant="outline" onClick={() => changeStatus('closed')} disabled={updating}>
+                  <Lock className="w-4 h-4 mr-2" />
+                  Close Short
+                </Button>
+              )}
+              {canReceive && (
+                <Button onClick={() => setShowReceiveDialog(true)}>
+                  <PackageCheck className="w-4 h-4 mr-2" />
+                  Receive Stock
+                </Button>
+              )}
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <PurchaseOrderFormDialog
+        open={showEditDialog}
+        onOpenChange={setShowEditDialog}
+        purchaseOrder={details}
+        onSaved={refresh}
+      />
+
+      <ReceivePurchaseOrderDialog
+        open={showReceiveDialog}
+        onOpenChange={setShowReceiveDialog}
+        details={details}
+        onReceived={refresh}
+      />
+    </>
+  );
+}
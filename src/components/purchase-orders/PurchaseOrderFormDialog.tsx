@@ -0,0 +1,402 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Search, Trash2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useInventoryStore, useProducts, useSuppliers } from "@/stores/inventoryStore";
+import {
+  usePurchaseOrderStore,
+  type PurchaseOrder,
+  type PurchaseOrderDetails,
+} from "@/stores/purchaseOrderStore";
+import { useTax } from "@/hooks/useTax";
+
+export interface PurchaseOrderLineDraft {
+  product_id: string;
+  variant_id?: string | null;
+  product_name: string;
+  variant_name?: string | null;
+  sku: string | null;
+  quantity: string;
+  unit_cost: string;
+}
+
+// Something that can go on a PO: a product, or one variant of a product with variants
+interface OrderableItem {
+  key: string;
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  supplier_id: string;
+  stock_quantity: number;
+  cost: number;
+}
+
+const lineKey = (line: { product_id: string; variant_id?: string | null }) =>
+  line.variant_id ? `${line.product_id}:${line.variant_id}` : line.product_id;
+
+interface PurchaseOrderFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing draft to edit; omit to create a new PO
+  purchaseOrder?: PurchaseOrderDetails | null;
+  // Prefill for a new PO, e.g. from reorder suggestions
+  initialSupplierId?: string;
+  initialLines?: PurchaseOrderLineDraft[];
+  onSaved?: (purchaseOrder: PurchaseOrder) => void;
+}
+
+const SEARCH_RESULT_LIMIT = 8;
+
+export function PurchaseOrderFormDialog({
+  open,
+  onOpenChange,
+  purchaseOrder,
+  initialSupplierId,
+  initialLines,
+  onSaved,
+}: PurchaseOrderFormDialogProps) {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const products = useProducts();
+  const suppliers = useSuppliers();
+  const fetchProducts = useInventoryStore(state => state.fetchProducts);
+  const fetchSuppliers = useInventoryStore(state => state.fetchSuppliers);
+  const savePurchaseOrder = usePurchaseOrderStore(state => state.savePurchaseOrder);
+
+  const [supplierId, setSupplierId] = useState('');
+  const [expectedDate, setExpectedDate] = useState('');
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<PurchaseOrderLineDraft[]>([]);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isEditing = !!purchaseOrder;
+
+  useEffect(() => {
+    if (open && currentStore?.id) {
+      if (products.length === 0) fetchProducts(currentStore.id);
+      if (suppliers.length === 0) fetchSuppliers(currentStore.id);
+    }
+  }, [open, currentStore?.id, products.length, suppliers.length, fetchProducts, fetchSuppliers]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (purchaseOrder) {
+      setSupplierId(purchaseOrder.order.supplier_id || '');
+      setExpectedDate(purchaseOrder.order.expected_date || '');
+      setNotes(purchaseOrder.order.notes || '');
+      setLines(purchaseOrder.items
+        .filter(item => item.product_id)
+        .map(item => ({
+          product_id: item.product_id!,
+          variant_id: item.variant_id,
+          product_name: item.product_name,
+          variant_name: item.variant_name,
+          sku: item.sku,
+          quantity: String(item.quantity_ordered),
+          unit_cost: item.unit_cost.toFixed(2),
+        })));
+    } else {
+      setSupplierId(initialSupplierId || '');
+      setExpectedDate('');
+      setNotes('');
+      setLines(initialLines || []);
+    }
+    setSearch('');
+  }, [open, purchaseOrder, initialSupplierId, initialLines]);
+
+  const orderableItems = useMemo<OrderableItem[]>(() =>
+    products.flatMap<OrderableItem>(product => product.has_variants
+      ? (product.product_variants || [])
+          .filter(variant => variant.is_active)
+          .map(variant => ({
+            key: lineKey({ product_id: product.id, variant_id: variant.id }),
+            product_id: product.id,
+            variant_id: variant.id,
+            product_name: product.name,
+            variant_name: variant.name,
+            sku: variant.sku || product.sku || null,
+            supplier_id: product.supplier_id,
+            stock_quantity: variant.stock_quantity,
+            cost: variant.cost ?? product.cost ?? 0,
+          }))
+      : [{
+          key: product.id,
+          product_id: product.id,
+          variant_id: null,
+          product_name: product.name,
+          variant_name: null,
+          sku: product.sku || null,
+          supplier_id: product.supplier_id,
+          stock_quantity: product.stock_quantity,
+          cost: product.cost || 0,
+        }]), [products]);
+
+  // The supplier's own products first; searching looks across the whole catalogue
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term && !supplierId) return [];
+
+    return orderableItems
+      .filter(item => !lines.some(line => lineKey(line) === item.key))
+      .filter(item => term
+        ? item.product_name.toLowerCase().includes(term) ||
+          item.variant_name?.toLowerCase().includes(term) ||
+          item.sku?.toLowerCase().includes(term)
+        : item.supplier_id === supplierId)
+      .sort((a, b) => Number(b.supplier_id === supplierId) - Number(a.supplier_id === supplierId))
+      .slice(0, SEARCH_RESULT_LIMIT);
+  }, [orderableItems, lines, search, supplierId]);
+
+  const total = lines.reduce((sum, line) => {
+    const quantity = parseInt(line.quantity) || 0;
+    const cost = parseFloat(line.unit_cost) || 0;
+    return sum + quantity * cost;
+  }, 0);
+
+  const addLine = (item: OrderableItem) => {
+    setLines(current => [...current, {
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      product_name: item.product_name,
+      variant_name: item.variant_name,
+      sku: item.sku,
+      quantity: '1',
+      unit_cost: item.cost.toFixed(2),
+    }]);
+    setSearch('');
+  };
+
+  const updateLine = (key: string, field: 'quantity' | 'unit_cost', value: string) => {
+    setLines(current => current.map(line => lineKey(line) === key ? { ...line, [field]: value } : line));
+  };
+
+  const removeLine = (key: string) => {
+    setLines(current => current.filter(line => lineKey(line) !== key));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStore) return;
+
+    if (!supplierId) {
+      toast.error('Select a supplier');
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error('Add at least one product to the order');
+      return;
+    }
+
+    const items = [];
+    for (const line of lines) {
+      const quantity = Number(line.quantity);
+      const unitCost = parseFloat(line.unit_cost);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        toast.error(`Quantity for ${line.product_name} must be a whole number greater than 0`);
+        return;
+      }
+      if (isNaN(unitCost) || unitCost < 0) {
+        toast.error(`Cost for ${line.product_name} cannot be negative`);
+        return;
+      }
+      items.push({ product_id: line.product_id, variant_id: line.variant_id || null, quantity, unit_cost: unitCost });
+    }
+
+    setSaving(true);
+    const saved = await savePurchaseOrder(currentStore.id, {
+      id: purchaseOrder?.order.id,
+      supplierId,
+      expectedDate: expectedDate || null,
+      notes,
+      items,
+    });
+    setSaving(false);
+
+    if (saved) {
+      onOpenChange(false);
+      onSaved?.(saved);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? `Edit ${purchaseOrder.order.po_number}` : 'New Purchase Order'}
+          </DialogTitle>
+          <DialogDescription>
+            Purchase orders stay in draft until you send them to the supplier.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Supplier *</Label>
+              <Select value={supplierId} onValueChange={setSupplierId}>
+                <SelectTrigger>
+                  <SelectValue placeholder="Select a supplier" />
+                </SelectTrigger>
+                <SelectContent>
+                  {suppliers.map((supplier) => (
+                    <SelectItem key={supplier.id} value={supplier.id}>
+                      {supplier.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="po-expected-date">Expected Delivery</Label>
+              <Input
+                id="po-expected-date"
+                type="date"
+                value={expectedDate}
+                onChange={(e) => setExpectedDate(e.target.value)}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="po-product-search">Products</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="po-product-search"
+                placeholder={supplierId ? "Search products, or pick from this supplier's list" : "Search products by name or SKU"}
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            {searchResults.length > 0 && (
+              <div className="border rounded-lg divide-y">
+                {searchResults.map((item) => (
+                  <button
+                    key={item.key}
+                    type="button"
+                    onClick={() => addLine(item)}
+                    className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted/50"
+                  >
+                    <span>
+                      {item.product_name}
+                      {item.variant_name && <span> ({item.variant_name})</span>}
+                      {item.sku && <span className="text-muted-foreground"> - {item.sku}</span>}
+                    </span>
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      {item.stock_quantity} in stock
+                      <Plus className="w-4 h-4" />
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="w-24">Qty</TableHead>
+                    <TableHead className="w-32">Unit Cost</TableHead>
+                    <TableHead className="text-right">Total</TableHead>
+                    <TableHead className="w-10"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => (
+                    <TableRow key={lineKey(line)}>
+                      <TableCell>
+                        <div className="font-medium">{line.product_name}</div>
+                        {line.variant_name && <div className="text-sm">{line.variant_name}</div>}
+                        {line.sku && <div className="text-xs text-muted-foreground">{line.sku}</div>}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="1"
+                          step="1"
+                          value={line.quantity}
+                          onChange={(e) => updateLine(lineKey(line), 'quantity', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line.unit_cost}
+                          onChange={(e) => updateLine(lineKey(line), 'unit_cost', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell className="text-right whitespace-nowrap">
+                        {formatCurrency((parseInt(line.quantity) || 0) * (parseFloat(line.unit_cost) || 0))}
+                      </TableCell>
+                      <TableCell>
+                        <Button
+                          type="button"
+                          variant="ghost"
+                          size="sm"
+                          onClick={() => removeLine(lineKey(line))}
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </Button>
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                  <TableRow>
+                    <TableCell colSpan={3} className="text-right font-medium">Total</TableCell>
+                    <TableCell className="text-right font-bold whitespace-nowrap">{formatCurrency(total)}</TableCell>
+                    <TableCell></TableCell>
+                  </TableRow>
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="space-y-2">
+            <Label htmlFor="po-notes">Notes</Label>
+            <Textarea
+              id="po-notes"
+              placeholder="Delivery instructions or notes for the supplier"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isEditing ? 'Save Changes' : 'Create Draft'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,25 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  PURCHASE_ORDER_STATUS_LABELS,
+  isOverduePurchaseOrder,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+} from "@/stores/purchaseOrderStore";
+
+const STATUS_VARIANTS: Record<PurchaseOrderStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  ordered: "default",
+  partially_received: "default",
+  received: "secondary",
+  closed: "secondary",
+  cancelled: "secondary",
+};
+
+export function PurchaseOrderStatusBadge({ order }: { order: PurchaseOrder }) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Badge variant={STATUS_VARIANTS[order.status]}>{PURCHASE_ORDER_STATUS_LABELS[order.status]}</Badge>
+      {isOverduePurchaseOrder(order) && <Badge variant="destructive">Overdue</Badge>}
+    </span>
+  );
+}
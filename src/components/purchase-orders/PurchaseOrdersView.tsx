@@ -0,0 +1,266 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ClipboardList, AlertTriangle, Wallet, Plus, Search, Loader2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { useInventoryStore, useSuppliers } from "@/stores/inventoryStore";
+import {
+  usePurchaseOrderStore,
+  usePurchaseOrders,
+  isOpenPurchaseOrder,
+  isOverduePurchaseOrder,
+  PURCHASE_ORDER_STATUS_LABELS,
+  type PurchaseOrder,
+  type PurchaseOrderStatus,
+} from "@/stores/purchaseOrderStore";
+import { useTax } from "@/hooks/useTax";
+import { PurchaseOrderStatusBadge } from "./PurchaseOrderStatusBadge";
+import { PurchaseOrderFormDialog } from "./PurchaseOrderFormDialog";
+import { PurchaseOrderDetailsDialog } from "./PurchaseOrderDetailsDialog";
+import { ReorderSuggestions } from "./ReorderSuggestions";
+import { SupplierSpendReport } from "./SupplierSpendReport";
+
+interface PurchaseOrdersViewProps {
+  onClose?: () => void;
+}
+
+type StatusFilter = 'open' | 'overdue' | 'all' | PurchaseOrderStatus;
+
+export function PurchaseOrdersView({ onClose }: PurchaseOrdersViewProps) {
+  const currentStore = useCurrentStore();
+  const navigate = useNavigate();
+  const { isOwner, userRole } = useStoreStore();
+  const { formatCurrency } = useTax();
+  const purchaseOrders = usePurchaseOrders();
+  const suppliers = useSuppliers();
+  const loading = usePurchaseOrderStore(state => state.loading);
+  const fetchPurchaseOrders = usePurchaseOrderStore(state => state.fetchPurchaseOrders);
+  const fetchSuppliers = useInventoryStore(state => state.fetchSuppliers);
+
+  const canManage = isOwner || userRole === 'manager';
+
+  const [activeTab, setActiveTab] = useState('orders');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [supplierFilter, setSupplierFilter] = useState('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [selectedOrder, setSelectedOrder] = useState<PurchaseOrder | null>(null);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchPurchaseOrders(currentStore.id);
+      fetchSuppliers(currentStore.id);
+    }
+  }, [currentStore?.id, fetchPurchaseOrders, fetchSuppliers]);
+
+  const openOrders = purchaseOrders.filter(isOpenPurchaseOrder);
+  const overdueOrders = purchaseOrders.filter(isOverduePurchaseOrder);
+  const openValue = openOrders.reduce((sum, order) => sum + Number(order.total_cost) - Number(order.received_cost), 0);
+
+  const filteredOrders = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return purchaseOrders.filter(order => {
+      if (statusFilter === 'open' && !isOpenPurchaseOrder(order)) return false;
+      if (statusFilter === 'overdue' && !isOverduePurchaseOrder(order)) return false;
+      if (!['open', 'overdue', 'all'].includes(statusFilter) && order.status !== statusFilter) return false;
+      if (supplierFilter !== 'all' && order.supplier_id !== supplierFilter) return false;
+      if (term && !order.po_number.toLowerCase().includes(term) && !order.supplier_name.toLowerCase().includes(term)) {
+        return false;
+      }
+      return true;
+    });
+  }, [purchaseOrders, statusFilter, supplierFilter, searchTerm]);
+
+  const handleBack = () => {
+    if (onClose) {
+      onClose();
+    } else {
+      navigate('/app/inventory');
+    }
+  };
+
+  const refresh = () => {
+    if (currentStore?.id) fetchPurchaseOrders(currentStore.id);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Purchase Orders</h1>
+          <p className="text-muted-foreground mt-2">
+            Order stock from suppliers and receive deliveries into inventory
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleBack}>
+            Back to Inventory
+          </Button>
+          {canManage && (
+            <Button className="bg-gradient-primary text-white" onClick={() => setShowCreateDialog(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Purchase Order
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Open Orders</CardTitle>
+            <ClipboardList className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{openOrders.length}</div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Overdue</CardTitle>
+            <AlertTriangle className="h-4 w-4 text-destructive" />
+          </CardHeader>
+          <CardContent>
+            <div className={`text-2xl font-bold ${overdueOrders.length > 0 ? 'text-destructive' : 'text-foreground'}`}>
+              {overdueOrders.length}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Awaiting Delivery</CardTitle>
+            <Wallet className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{formatCurrency(openValue)}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      <Tabs value={activeTab} onValueChange={setActiveTab}>
+        <TabsList>
+          <TabsTrigger value="orders">Orders</TabsTrigger>
+          <TabsTrigger value="reorder">Reorder</TabsTrigger>
+          <TabsTrigger value="spend">Supplier Spend</TabsTrigger>
+        </TabsList>
+
+        <TabsContent value="orders" className="space-y-4">
+          <div className="flex flex-col md:flex-row gap-3">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+              <Input
+                placeholder="Search by PO number or supplier..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="open">Open</SelectItem>
+                <SelectItem value="overdue">Overdue</SelectItem>
+                <SelectItem value="all">All statuses</SelectItem>
+                {(Object.keys(PURCHASE_ORDER_STATUS_LABELS) as PurchaseOrderStatus[]).map((status) => (
+                  <SelectItem key={status} value={status}>{PURCHASE_ORDER_STATUS_LABELS[status]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={supplierFilter} onValueChange={setSupplierFilter}>
+              <SelectTrigger className="w-full md:w-48">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All suppliers</SelectItem>
+                {suppliers.map((supplier) => (
+                  <SelectItem key={supplier.id} value={supplier.id}>{supplier.name}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <Card className="card-professional">
+            <CardContent className="p-0 overflow-x-auto">
+              {loading && purchaseOrders.length === 0 ? (
+                <div className="flex items-center justify-center py-12">
+                  <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+                </div>
+              ) : filteredOrders.length === 0 ? (
+                <div className="py-12 text-center text-muted-foreground">
+                  {purchaseOrders.length === 0 ? 'No purchase orders yet' : 'No purchase orders match your filters'}
+                </div>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>PO Number</TableHead>
+                      <TableHead>Supplier</TableHead>
+                      <TableHead>Status</TableHead>
+                      <TableHead>Ordered</TableHead>
+                      <TableHead>Expected</TableHead>
+                      <TableHead className="text-right">Total</TableHead>
+                      <TableHead className="text-right">Received</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {filteredOrders.map((order) => (
+                      <TableRow
+                        key={order.id}
+                        className="cursor-pointer hover:bg-muted/50"
+                        onClick={() => setSelectedOrder(order)}
+                      >
+                        <TableCell className="font-medium">{order.po_number}</TableCell>
+                        <TableCell>{order.supplier_name}</TableCell>
+                        <TableCell><PurchaseOrderStatusBadge order={order} /></TableCell>
+                        <TableCell>{order.order_date ? new Date(order.order_date).toLocaleDateString() : '-'}</TableCell>
+                        <TableCell>{order.expected_date ? new Date(order.expected_date).toLocaleDateString() : '-'}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(order.total_cost))}</TableCell>
+                        <TableCell className="text-right">{formatCurrency(Number(order.received_cost))}</TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
+        </TabsContent>
+
+        <TabsContent value="reorder">
+          <ReorderSuggestions
+            canManage={canManage}
+            onPurchaseOrderCreated={(purchaseOrder) => {
+              setActiveTab('orders');
+              setStatusFilter('all');
+              setSelectedOrder(purchaseOrder);
+            }}
+          />
+        </TabsContent>
+
+        <TabsContent value="spend">
+          <SupplierSpendReport />
+        </TabsContent>
+      </Tabs>
+
+      <PurchaseOrderFormDialog
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        onSaved={(purchaseOrder) => setSelectedOrder(purchaseOrder)}
+      />
+
+      <PurchaseOrderDetailsDialog
+        purchaseOrder={selectedOrder}
+        onOpenChange={(open) => !open && setSelectedOrder(null)}
+        onChanged={refresh}
+      />
+    </div>
+  );
+}
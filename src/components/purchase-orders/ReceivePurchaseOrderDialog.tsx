@@ -0,0 +1,218 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  usePurchaseOrderStore,
+  type CostMethod,
+  type PurchaseOrderDetails,
+} from "@/stores/purchaseOrderStore";
+
+interface ReceivePurchaseOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  details: PurchaseOrderDetails | null;
+  onReceived: () => void;
+}
+
+interface ReceiveLineDraft {
+  item_id: string;
+  quantity: string;
+  unit_cost: string;
+}
+
+export function ReceivePurchaseOrderDialog({ open, onOpenChange, details, onReceived }: ReceivePurchaseOrderDialogProps) {
+  const receivePurchaseOrder = usePurchaseOrderStore(state => state.receivePurchaseOrder);
+  const [lines, setLines] = useState<ReceiveLineDraft[]>([]);
+  const [costMethod, setCostMethod] = useState<CostMethod>('weighted_average');
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  const outstandingItems = (details?.items || []).filter(item => item.quantity_received < item.quantity_ordered);
+
+  useEffect(() => {
+    if (open && details) {
+      setLines(details.items
+        .filter(item => item.quantity_received < item.quantity_ordered)
+        .map(item => ({
+          item_id: item.id,
+          quantity: '0',
+          unit_cost: item.unit_cost.toFixed(2),
+        })));
+      setNotes('');
+    }
+  }, [open, details]);
+
+  const updateLine = (itemId: string, field: 'quantity' | 'unit_cost', value: string) => {
+    setLines(current => current.map(line => line.item_id === itemId ? { ...line, [field]: value } : line));
+  };
+
+  const receiveEverything = () => {
+    setLines(current => current.map(line => {
+      const item = outstandingItems.find(i => i.id === line.item_id);
+      return item ? { ...line, quantity: String(item.quantity_ordered - item.quantity_received) } : line;
+    }));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!details) return;
+
+    const items = [];
+    for (const line of lines) {
+      const item = outstandingItems.find(i => i.id === line.item_id);
+      if (!item) continue;
+
+      const quantity = Number(line.quantity || 0);
+      const unitCost = parseFloat(line.unit_cost);
+      const outstanding = item.quantity_ordered - item.quantity_received;
+
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        toast.error(`Quantity for ${item.product_name} must be a whole number`);
+        return;
+      }
+      if (quantity > outstanding) {
+        toast.error(`Only ${outstanding} more of ${item.product_name} are outstanding`);
+        return;
+      }
+      if (isNaN(unitCost) || unitCost < 0) {
+        toast.error(`Cost for ${item.product_name} cannot be negative`);
+        return;
+      }
+      if (quantity > 0) {
+        items.push({ item_id: item.id, quantity, unit_cost: unitCost });
+      }
+    }
+
+    if (items.length === 0) {
+      toast.error('Enter the quantities received');
+      return;
+    }
+
+    setSubmitting(true);
+    const received = await receivePurchaseOrder(details.order, items, costMethod, notes);
+    setSubmitting(false);
+
+    if (received) {
+      onOpenChange(false);
+      onReceived();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Stock{details ? ` - ${details.order.po_number}` : ''}</DialogTitle>
+          <DialogDescription>
+            Enter what arrived in this delivery. Anything not received stays open on the order.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="flex justify-end">
+            <Button type="button" variant="outline" size="sm" onClick={receiveEverything}>
+              Receive All Outstanding
+            </Button>
+          </div>
+
+          <div className="overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Outstanding</TableHead>
+                  <TableHead className="w-24">Received</TableHead>
+                  <TableHead className="w-32">Unit Cost</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {outstandingItems.map((item) => {
+                  const line = lines.find(l => l.item_id === item.id);
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.product_name}</div>
+                        {item.variant_name && <div className="text-sm">{item.variant_name}</div>}
+                        {item.sku && <div className="text-xs text-muted-foreground">{item.sku}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {item.quantity_ordered - item.quantity_received}
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={item.quantity_ordered - item.quantity_received}
+                          step="1"
+                          value={line?.quantity ?? '0'}
+                          onChange={(e) => updateLine(item.id, 'quantity', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          step="0.01"
+                          value={line?.unit_cost ?? ''}
+                          onChange={(e) => updateLine(item.id, 'unit_cost', e.target.value)}
+                        />
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <Label>Update Product Cost</Label>
+            <Select value={costMethod} onValueChange={(value) => setCostMethod(value as CostMethod)}>
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="weighted_average">Weighted average of stock on hand and this delivery</SelectItem>
+                <SelectItem value="last">Use the cost from this delivery</SelectItem>
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="receipt-notes">Notes</Label>
+            <Textarea
+              id="receipt-notes"
+              placeholder="Optional, e.g. delivery note number or damaged items"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Receive Stock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
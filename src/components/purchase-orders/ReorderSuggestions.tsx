@@ -0,0 +1,191 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Loader2, Plus, RefreshCw } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { usePurchaseOrderStore, type PurchaseOrder, type ReorderSuggestion } from "@/stores/purchaseOrderStore";
+import { useTax } from "@/hooks/useTax";
+import { PurchaseOrderFormDialog, type PurchaseOrderLineDraft } from "./PurchaseOrderFormDialog";
+
+interface ReorderSuggestionsProps {
+  canManage: boolean;
+  onPurchaseOrderCreated: (purchaseOrder: PurchaseOrder) => void;
+}
+
+interface SupplierGroup {
+  supplierId: string | null;
+  supplierName: string;
+  suggestions: ReorderSuggestion[];
+}
+
+export function ReorderSuggestions({ canManage, onPurchaseOrderCreated }: ReorderSuggestionsProps) {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const suggestions = usePurchaseOrderStore(state => state.suggestions);
+  const loading = usePurchaseOrderStore(state => state.suggestionsLoading);
+  const fetchReorderSuggestions = usePurchaseOrderStore(state => state.fetchReorderSuggestions);
+
+  const [salesDays, setSalesDays] = useState('30');
+  const [coverDays, setCoverDays] = useState('14');
+  const [draftGroup, setDraftGroup] = useState<SupplierGroup | null>(null);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchReorderSuggestions(currentStore.id, Number(salesDays), Number(coverDays));
+    }
+  }, [currentStore?.id, salesDays, coverDays, fetchReorderSuggestions]);
+
+  const groups = useMemo(() => {
+    const bySupplier = new Map<string, SupplierGroup>();
+    suggestions.forEach(suggestion => {
+      const key = suggestion.supplier_id || 'none';
+      if (!bySupplier.has(key)) {
+        bySupplier.set(key, {
+          supplierId: suggestion.supplier_id,
+          supplierName: suggestion.supplier_name || 'No supplier',
+          suggestions: [],
+        });
+      }
+      bySupplier.get(key)!.suggestions.push(suggestion);
+    });
+    // Products without a supplier last, they need one picked before ordering
+    return Array.from(bySupplier.values()).sort((a, b) =>
+      Number(!a.supplierId) - Number(!b.supplierId) || a.supplierName.localeCompare(b.supplierName));
+  }, [suggestions]);
+
+  const initialLines = useMemo<PurchaseOrderLineDraft[]>(() =>
+    (draftGroup?.suggestions || []).map(suggestion => ({
+      product_id: suggestion.product_id,
+      variant_id: suggestion.variant_id,
+      product_name: suggestion.name,
+      variant_name: suggestion.variant_name,
+      sku: suggestion.sku,
+      quantity: String(suggestion.suggested_quantity),
+      unit_cost: (suggestion.unit_cost || 0).toFixed(2),
+    })), [draftGroup]);
+
+  const refresh = () => {
+    if (currentStore?.id) {
+      fetchReorderSuggestions(currentStore.id, Number(salesDays), Number(coverDays));
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-end gap-3">
+        <div className="space-y-1">
+          <Label className="text-xs">Sales history</Label>
+          <Select value={salesDays} onValueChange={setSalesDays}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">Last 7 days</SelectItem>
+              <SelectItem value="30">Last 30 days</SelectItem>
+              <SelectItem value="90">Last 90 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="space-y-1">
+          <Label className="text-xs">Stock to cover</Label>
+          <Select value={coverDays} onValueChange={setCoverDays}>
+            <SelectTrigger className="w-full sm:w-40">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="7">1 week</SelectItem>
+              <SelectItem value="14">2 weeks</SelectItem>
+              <SelectItem value="30">30 days</SelectItem>
+              <SelectItem value="60">60 days</SelectItem>
+            </SelectContent>
+          </Select>
+        </div>
+        <Button variant="outline" onClick={refresh} disabled={loading}>
+          <RefreshCw className={`w-4 h-4 mr-2 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </Button>
+      </div>
+
+      <p className="text-sm text-muted-foreground">
+        Suggested quantities bring stock up to the low stock threshold plus the selected cover at the recent
+        sales rate, less anything already on order.
+      </p>
+
+      {loading && suggestions.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : groups.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            Nothing needs reordering right now.
+          </CardContent>
+        </Card>
+      ) : (
+        groups.map((group) => (
+          <Card key={group.supplierId || 'none'}>
+            <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-3">
+              <CardTitle className="text-base">{group.supplierName}</CardTitle>
+              {canManage && group.supplierId && (
+                <Button size="sm" onClick={() => setDraftGroup(group)}>
+                  <Plus className="w-4 h-4 mr-2" />
+                  Create PO
+                </Button>
+              )}
+            </CardHeader>
+            <CardContent className="overflow-x-auto">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">In Stock</TableHead>
+                    <TableHead className="text-right">Threshold</TableHead>
+                    <TableHead className="text-right">Sold / Day</TableHead>
+                    <TableHead className="text-right">On Order</TableHead>
+                    <TableHead className="text-right">Suggested</TableHead>
+                    <TableHead className="text-right">Est. Cost</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {group.suggestions.map((suggestion) => (
+                    <TableRow key={suggestion.variant_id || suggestion.product_id}>
+                      <TableCell>
+                        <div className="font-medium">{suggestion.name}</div>
+                        {suggestion.variant_name && <div className="text-sm">{suggestion.variant_name}</div>}
+                        {suggestion.sku && <div className="text-xs text-muted-foreground">{suggestion.sku}</div>}
+                      </TableCell>
+                      <TableCell className={`text-right ${suggestion.stock_quantity <= suggestion.low_stock_threshold ? 'text-destructive' : ''}`}>
+                        {suggestion.stock_quantity}
+                      </TableCell>
+                      <TableCell className="text-right">{suggestion.low_stock_threshold}</TableCell>
+                      <TableCell className="text-right">{Number(suggestion.daily_velocity).toFixed(1)}</TableCell>
+                      <TableCell className="text-right">{suggestion.on_order}</TableCell>
+                      <TableCell className="text-right font-medium">{suggestion.suggested_quantity}</TableCell>
+                      <TableCell className="text-right">
+                        {formatCurrency(suggestion.suggested_quantity * (suggestion.unit_cost || 0))}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        ))
+      )}
+
+      <PurchaseOrderFormDialog
+        open={draftGroup !== null}
+        onOpenChange={(open) => !open && setDraftGroup(null)}
+        initialSupplierId={draftGroup?.supplierId || undefined}
+        initialLines={initialLines}
+        onSaved={(purchaseOrder) => {
+          refresh();
+          onPurchaseOrderCreated(purchaseOrder);
+        }}
+      />
+    </div>
+  );
+}
@@ -0,0 +1,98 @@
+import { useEffect, useState } from "react";
+import { Card, CardContent } from "@/components/ui/card";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Loader2 } from "lucide-react";
+import { useCurrentStore } from "@/stores/storeStore";
+import { usePurchaseOrderStore } from "@/stores/purchaseOrderStore";
+import { useTax } from "@/hooks/useTax";
+
+export function SupplierSpendReport() {
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const supplierSpend = usePurchaseOrderStore(state => state.supplierSpend);
+  const loading = usePurchaseOrderStore(state => state.spendLoading);
+  const fetchSupplierSpend = usePurchaseOrderStore(state => state.fetchSupplierSpend);
+
+  const [period, setPeriod] = useState('90');
+
+  useEffect(() => {
+    if (!currentStore?.id) return;
+
+    const from = period === 'all' ? undefined : new Date(Date.now() - Number(period) * 24 * 60 * 60 * 1000);
+    fetchSupplierSpend(currentStore.id, from);
+  }, [currentStore?.id, period, fetchSupplierSpend]);
+
+  const totalReceived = supplierSpend.reduce((sum, row) => sum + Number(row.received_value), 0);
+  const totalOpen = supplierSpend.reduce((sum, row) => sum + Number(row.open_value), 0);
+
+  return (
+    <div className="space-y-4">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-3">
+        <p className="text-sm text-muted-foreground">
+          Received value counts deliveries in the period; open orders are shown as of today.
+        </p>
+        <Select value={period} onValueChange={setPeriod}>
+          <SelectTrigger className="w-full sm:w-44">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="30">Last 30 days</SelectItem>
+            <SelectItem value="90">Last 90 days</SelectItem>
+            <SelectItem value="365">Last 12 months</SelectItem>
+            <SelectItem value="all">All time</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      {loading && supplierSpend.length === 0 ? (
+        <div className="flex items-center justify-center py-12">
+          <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+        </div>
+      ) : supplierSpend.length === 0 ? (
+        <Card>
+          <CardContent className="py-12 text-center text-muted-foreground">
+            No purchase orders received or open for this period.
+          </CardContent>
+        </Card>
+      ) : (
+        <Card>
+          <CardContent className="p-0 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Supplier</TableHead>
+                  <TableHead className="text-right">Received</TableHead>
+                  <TableHead className="text-right">Deliveries</TableHead>
+                  <TableHead className="text-right">Open POs</TableHead>
+                  <TableHead className="text-right">Overdue</TableHead>
+                  <TableHead className="text-right">Open Value</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {supplierSpend.map((row) => (
+                  <TableRow key={`${row.supplier_id}-${row.supplier_name}`}>
+                    <TableCell className="font-medium">{row.supplier_name}</TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(row.received_value))}</TableCell>
+                    <TableCell className="text-right">{row.deliveries}</TableCell>
+                    <TableCell className="text-right">{row.open_orders}</TableCell>
+                    <TableCell className={`text-right ${row.overdue_orders > 0 ? 'text-destructive font-medium' : ''}`}>
+                      {row.overdue_orders}
+                    </TableCell>
+                    <TableCell className="text-right">{formatCurrency(Number(row.open_value))}</TableCell>
+                  </TableRow>
+                ))}
+                <TableRow>
+                  <TableCell className="font-medium">Total</TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(totalReceived)}</TableCell>
+                  <TableCell colSpan={3}></TableCell>
+                  <TableCell className="text-right font-bold">{formatCurrency(totalOpen)}</TableCell>
+                </TableRow>
+              </TableBody>
+            </Table>
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+}
@@ -11,11 +11,15 @@ import { BarChart3, TrendingUp, Calendar as CalendarIcon, Download, DollarSign,
 import { useCurrentStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { useTax } from "@/hooks/useTax";
+import { useSubscription } from "@/hooks/useSubscription";
+import { showUpgradePrompt } from "@/lib/planLimits";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
 import { format, subDays, startOfMonth, endOfMonth, startOfWeek, endOfWeek } from "date-fns";
 import { DateRange } from "react-day-picker";
 import { LineChart, Line, AreaChart, Area, BarChart, Bar, PieChart, Pie, Cell, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer } from "recharts";
+import { ShiftHistory } from "@/components/cash-drawer/ShiftHistory";
+import { GiftCardLiabilityReport } from "@/components/gift-cards/GiftCardLiabilityReport";
 import jsPDF from 'jspdf';
 import html2canvas from 'html2canvas';
 import Papa from 'papaparse';
@@ -103,6 +107,13 @@ interface CustomerAnalytics {
   }>;
 }
 
+// Interest and late fees charged on laybys, which are income but not product revenue
+interface LaybyChargeSummary {
+  interest: number;
+  lateFees: number;
+  count: number;
+}
+
 interface ReportsViewProps {
   onViewChange?: (view: string) => void;
 }
@@ -111,6 +122,7 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
   const currentStore = useCurrentStore();
   const user = useUser();
   const { formatCurrency } = useTax();
+  const { hasFeature, entitlements } = useSubscription();
   const [salesData, setSalesData] = useState<SalesData[]>([]);
   const [topProducts, setTopProducts] = useState<TopProduct[]>([]);
   const [recentDiscounts, setRecentDiscounts] = useState<DiscountData[]>([]);
@@ -118,6 +130,7 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
   const [kpiMetrics, setKpiMetrics] = useState<KPIMetric[]>([]);
   const [inventoryAnalytics, setInventoryAnalytics] = useState<InventoryAnalytics | null>(null);
   const [customerAnalytics, setCustomerAnalytics] = useState<CustomerAnalytics | null>(null);
+  const [laybyCharges, setLaybyCharges] = useState<LaybyChargeSummary | null>(null);
   const [loading, setLoading] = useState(true);
   const [activeTab, setActiveTab] = useState("overview");
   const [dateRange, setDateRange] = useState<DateRange>({
@@ -189,6 +202,7 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
         fetchKPIMetrics(),
         fetchInventoryAnalytics(),
         fetchCustomerAnalytics(),
+        fetchLaybyCharges(),
       ]);
     } catch (error) {
       console.error('Error fetching reports data:', error);
@@ -204,7 +218,16 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
     toast.success('Reports data refreshed');
   };
 
+  const canExport = () => {
+    if (hasFeature('reports_export')) return true;
+
+    showUpgradePrompt(`The ${entitlements?.plan_name || 'current'} plan doesn't include report exports`);
+    return false;
+  };
+
   const exportToPDF = async () => {
+    if (!canExport()) return;
+
     try {
       const element = document.getElementById('reports-container');
       if (!element) return;
@@ -252,6 +275,8 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
   };
 
   const exportToCSV = () => {
+    if (!canExport()) return;
+
     try {
       const csvData = [
         // KPI Metrics
@@ -286,6 +311,12 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
         ['Active Customers', customerAnalytics?.activeCustomers || 0],
         ['VIP Customers', customerAnalytics?.vipCustomers || 0],
         ['New This Month', customerAnalytics?.newCustomersThisMonth || 0],
+        [''],
+
+        // Layby charges, kept out of sales revenue
+        ['Layby Interest & Fees'],
+        ['Interest', formatCurrency(laybyCharges?.interest || 0)],
+        ['Late Fees', formatCurrency(laybyCharges?.lateFees || 0)],
       ];
 
       const csv = Papa.unparse(csvData);
@@ -490,6 +521,33 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
     setChartData(chartArray);
   };
 
+  const fetchLaybyCharges = async () => {
+    if (!currentStore || !dateRange.from || !dateRange.to) return;
+
+    const { data: charges, error } = await supabase
+      .from('layby_charges')
+      .select('charge_type, amount')
+      .eq('store_id', currentStore.id)
+      .gte('charged_on', format(dateRange.from, 'yyyy-MM-dd'))
+      .lte('charged_on', format(dateRange.to, 'yyyy-MM-dd'));
+
+    if (error) {
+      console.error('Error fetching layby charges:', error);
+      setLaybyCharges(null);
+      return;
+    }
+
+    setLaybyCharges({
+      interest: (charges || [])
+        .filter(charge => charge.charge_type === 'interest')
+        .reduce((sum, charge) => sum + Number(charge.amount), 0),
+      lateFees: (charges || [])
+        .filter(charge => charge.charge_type === 'late_fee')
+        .reduce((sum, charge) => sum + Number(charge.amount), 0),
+      count: charges?.length || 0,
+    });
+  };
+
   const fetchKPIMetrics = async () => {
     if (!currentStore || !dateRange.from || !dateRange.to) return;
 
@@ -870,11 +928,13 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
 
       {/* Tabbed Interface */}
       <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-        <TabsList className="grid w-full grid-cols-4 lg:w-[400px]">
+        <TabsList className="grid w-full grid-cols-6 lg:w-[620px]">
           <TabsTrigger value="overview">Overview</TabsTrigger>
           <TabsTrigger value="sales">Sales</TabsTrigger>
           <TabsTrigger value="inventory">Inventory</TabsTrigger>
           <TabsTrigger value="customers">Customers</TabsTrigger>
+          <TabsTrigger value="cash-drawer">Cash Drawer</TabsTrigger>
+          <TabsTrigger value="gift-cards">Gift Cards</TabsTrigger>
         </TabsList>
 
         <TabsContent value="overview" className="space-y-6">
@@ -1078,6 +1138,37 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
               </CardContent>
             </Card>
           </div>
+
+          {/* Layby Charges */}
+          <Card className="card-professional">
+            <CardHeader>
+              <CardTitle className="flex items-center gap-2 text-foreground">
+                <DollarSign className="w-5 h-5" />
+                Layby Interest & Fees
+              </CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-sm text-muted-foreground">Interest</p>
+                  <p className="text-xl font-bold text-foreground">{formatCurrency(laybyCharges?.interest || 0)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Late Fees</p>
+                  <p className="text-xl font-bold text-foreground">{formatCurrency(laybyCharges?.lateFees || 0)}</p>
+                </div>
+                <div>
+                  <p className="text-sm text-muted-foreground">Total Charged</p>
+                  <p className="text-xl font-bold text-foreground">
+                    {formatCurrency((laybyCharges?.interest || 0) + (laybyCharges?.lateFees || 0))}
+                  </p>
+                </div>
+              </div>
+              <p className="text-xs text-muted-foreground mt-4">
+                {laybyCharges?.count || 0} charge(s) in this period. Not included in sales revenue.
+              </p>
+            </CardContent>
+          </Card>
         </TabsContent>
 
         <TabsContent value="inventory" className="space-y-6">
@@ -1351,6 +1442,14 @@ export function ReportsView({ onViewChange }: ReportsViewProps = {}) {
             </Card>
           </div>
         </TabsContent>
+
+        <TabsContent value="cash-drawer" className="space-y-6">
+          <ShiftHistory from={dateRange.from} to={dateRange.to} />
+        </TabsContent>
+
+        <TabsContent value="gift-cards" className="space-y-6">
+          <GiftCardLiabilityReport from={dateRange.from} to={dateRange.to} />
+        </TabsContent>
       </Tabs>
     </div>
   );
@@ -0,0 +1,584 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Search, Trash2, Plus, ShieldCheck } from "lucide-react";
+import { toast } from "sonner";
+import { useTax } from "@/hooks/useTax";
+import { usePaymentMethods } from "@/hooks/usePaymentMethods";
+import { GIFT_CARD_KIND_LABELS } from "@/lib/giftCards";
+import { SPLIT_PAYMENT_METHOD } from "@/lib/tenders";
+import { useCurrentStore } from "@/stores/storeStore";
+import { useInventoryStore, useProducts } from "@/stores/inventoryStore";
+import { useManagerOverride } from "@/hooks/useManagerOverride";
+import {
+  useReturnStore,
+  useReturnProcessing,
+  RETURN_DISPOSITION_LABELS,
+  type OrderReturnReceipt,
+  type ReturnableOrder,
+  type ReturnDisposition,
+} from "@/stores/returnStore";
+import { ReturnReceiptDialog } from "./ReturnReceiptDialog";
+
+interface ReturnLineDraft {
+  quantity: string;
+  disposition: ReturnDisposition;
+  reason: string;
+}
+
+// A product, or one variant of a product with variants, that can be given in exchange
+interface ExchangeableItem {
+  key: string;
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  variant_name: string | null;
+  sku: string | null;
+  price: number;
+  stock_quantity: number;
+}
+
+interface ExchangeLineDraft extends ExchangeableItem {
+  quantity: string;
+}
+
+interface ReturnOrderDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  orderId: string | null;
+  onCompleted?: (receipt: OrderReturnReceipt) => void;
+}
+
+const SEARCH_RESULT_LIMIT = 8;
+
+const roundMoney = (value: number) => Math.round(value * 100) / 100;
+
+// Refunds go back the way the customer paid; a split sale has no single method, so cash is offered
+const originalRefundMethod = (paymentMethod?: string | null) =>
+  paymentMethod && paymentMethod !== SPLIT_PAYMENT_METHOD ? paymentMethod : 'cash';
+
+export function ReturnOrderDialog({ open, onOpenChange, orderId, onCompleted }: ReturnOrderDialogProps) {
+  const currentStore = useCurrentStore();
+  const { settings: approvalSettings, isManager } = useManagerOverride();
+  const { formatCurrency } = useTax();
+  const { getPaymentOptions, getPaymentMethodDisplay } = usePaymentMethods();
+  const products = useProducts();
+  const fetchProducts = useInventoryStore(state => state.fetchProducts);
+  const fetchReturnableOrder = useReturnStore(state => state.fetchReturnableOrder);
+  const processReturn = useReturnStore(state => state.processReturn);
+  const processing = useReturnProcessing();
+
+  const [order, setOrder] = useState<ReturnableOrder | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [lines, setLines] = useState<Record<string, ReturnLineDraft>>({});
+  const [refundMethod, setRefundMethod] = useState('cash');
+  const [reason, setReason] = useState('');
+  const [isExchange, setIsExchange] = useState(false);
+  const [exchangeLines, setExchangeLines] = useState<ExchangeLineDraft[]>([]);
+  const [search, setSearch] = useState('');
+  const [approvalRequested, setApprovalRequested] = useState(false);
+  const [approvalPin, setApprovalPin] = useState('');
+  const [receipt, setReceipt] = useState<OrderReturnReceipt | null>(null);
+
+  // Cashiers need a manager or owner PIN when the store requires one for voids
+  const requiresApproval = approvalRequested || (approvalSettings.requirePinForVoids && !isManager);
+
+  useEffect(() => {
+    if (!open || !orderId) return;
+
+    let cancelled = false;
+    setLoading(true);
+    setOrder(null);
+    setLines({});
+    setReason('');
+    setIsExchange(false);
+    setExchangeLines([]);
+    setSearch('');
+    setApprovalPin('');
+    setApprovalRequested(false);
+
+    fetchReturnableOrder(orderId).then((data) => {
+      if (cancelled) return;
+      setOrder(data);
+      setRefundMethod(originalRefundMethod(data?.payment_method));
+      setLoading(false);
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [open, orderId, fetchReturnableOrder]);
+
+  useEffect(() => {
+    if (isExchange && currentStore?.id && products.length === 0) {
+      fetchProducts(currentStore.id);
+    }
+  }, [isExchange, currentStore?.id, products.length, fetchProducts]);
+
+  const lineFor = (itemId: string): ReturnLineDraft =>
+    lines[itemId] || { quantity: '0', disposition: 'restock', reason: '' };
+
+  const updateLine = <K extends keyof ReturnLineDraft>(itemId: string, field: K, value: ReturnLineDraft[K]) => {
+    setLines(current => ({ ...current, [itemId]: { ...lineFor(itemId), ...current[itemId], [field]: value } }));
+  };
+
+  // Mirrors process_order_return: each line gives back its share of what was actually paid
+  const returnValue = useMemo(() => {
+    if (!order) return 0;
+
+    const ratio = order.subtotal > 0 ? order.total / order.subtotal : 0;
+    const remaining = Math.max(0, order.total - order.refunded_amount);
+    let value = 0;
+    let fullyReturned = true;
+
+    order.items.forEach(item => {
+      const quantity = parseInt(lines[item.id]?.quantity || '0') || 0;
+      value += roundMoney(item.total_price / item.quantity * quantity * ratio);
+      if (item.returned_quantity + quantity < item.quantity) fullyReturned = false;
+    });
+
+    return fullyReturned ? remaining : Math.min(value, remaining);
+  }, [order, lines]);
+
+  const exchangeableItems = useMemo<ExchangeableItem[]>(() =>
+    products
+      .filter(product => product.is_active)
+      .flatMap<ExchangeableItem>(product => product.has_variants
+        ? (product.product_variants || [])
+            .filter(variant => variant.is_active)
+            .map(variant => ({
+              key: `${product.id}:${variant.id}`,
+              product_id: product.id,
+              variant_id: variant.id,
+              name: product.name,
+              variant_name: variant.name,
+              sku: variant.sku || product.sku || null,
+              price: variant.price,
+              stock_quantity: variant.stock_quantity,
+            }))
+        : [{
+            key: product.id,
+            product_id: product.id,
+            variant_id: null,
+            name: product.name,
+            variant_name: null,
+            sku: product.sku || null,
+            price: product.price,
+            stock_quantity: product.stock_quantity,
+          }]), [products]);
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+
+    return exchangeableItems
+      .filter(item => !exchangeLines.some(line => line.key === item.key))
+      .filter(item =>
+        item.name.toLowerCase().includes(term) ||
+        item.variant_name?.toLowerCase().includes(term) ||
+        item.sku?.toLowerCase().includes(term))
+      .slice(0, SEARCH_RESULT_LIMIT);
+  }, [exchangeableItems, exchangeLines, search]);
+
+  const exchangeTotal = isExchange
+    ? exchangeLines.reduce((sum, line) => sum + line.price * (parseInt(line.quantity) || 0), 0)
+    : 0;
+  const net = roundMoney(exchangeTotal - returnValue);
+
+  // Store credit goes on the customer's account, so it can only take a refund for a known customer
+  const canRefundToStoreCredit = !!order?.customer && net <= 0;
+
+  useEffect(() => {
+    if (refundMethod === 'store_credit' && !canRefundToStoreCredit) {
+      setRefundMethod(originalRefundMethod(order?.payment_method));
+    }
+  }, [refundMethod, canRefundToStoreCredit, order?.payment_method]);
+
+  const addExchangeLine = (item: ExchangeableItem) => {
+    setExchangeLines(current => [...current, { ...item, quantity: '1' }]);
+    setSearch('');
+  };
+
+  const updateExchangeQuantity = (key: string, quantity: string) => {
+    setExchangeLines(current => current.map(line => line.key === key ? { ...line, quantity } : line));
+  };
+
+  const removeExchangeLine = (key: string) => {
+    setExchangeLines(current => current.filter(line => line.key !== key));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!order) return;
+
+    const items = [];
+    for (const item of order.items) {
+      const line = lines[item.id];
+      if (!line) continue;
+
+      const quantity = Number(line.quantity || 0);
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        toast.error(`Return quantity for ${item.product_name} must be a whole number`);
+        return;
+      }
+      if (quantity > item.quantity - item.returned_quantity) {
+        toast.error(`Only ${item.quantity - item.returned_quantity} of ${item.product_name} can be returned`);
+        return;
+      }
+      if (quantity > 0) {
+        items.push({
+          order_item_id: item.id,
+          quantity,
+          disposition: line.disposition,
+          reason: line.reason.trim(),
+        });
+      }
+    }
+
+    if (items.length === 0) {
+      toast.error('Select at least one item to return');
+      return;
+    }
+
+    const exchangeItems = [];
+    if (isExchange) {
+      for (const line of exchangeLines) {
+        const quantity = Number(line.quantity);
+        if (!Number.isInteger(quantity) || quantity <= 0) {
+          toast.error(`Quantity for ${line.name} must be a whole number greater than 0`);
+          return;
+        }
+        exchangeItems.push({ product_id: line.product_id, variant_id: line.variant_id, quantity });
+      }
+
+      if (exchangeItems.length === 0) {
+        toast.error('Add the items the customer is taking in exchange');
+        return;
+      }
+    }
+
+    if (requiresApproval && !approvalPin.trim()) {
+      toast.error('A manager or owner PIN is required to process returns');
+      return;
+    }
+
+    const result = await processReturn({
+      orderId: order.id,
+      items,
+      refundMethod,
+      reason: reason.trim(),
+      exchangeItems,
+      approvalPin: approvalPin.trim() || undefined,
+    });
+
+    if (result.code === 'approval_required' || result.code === 'invalid_pin' || result.code === 'shared_pin') {
+      setApprovalRequested(true);
+      setApprovalPin('');
+      return;
+    }
+
+    if (result.receipt) {
+      setReceipt(result.receipt);
+      onOpenChange(false);
+      onCompleted?.(result.receipt);
+    }
+  };
+
+  const returnable = order?.items.some(item => item.returned_quantity < item.quantity) ?? false;
+  const canReturn = order && (order.status || 'completed') === 'completed' && returnable;
+
+  return (
+    <>
+      <Dialog open={open} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Return Items{order ? ` - Order #${order.order_number}` : ''}</DialogTitle>
+            <DialogDescription>
+              Choose what is coming back and whether it goes back into stock. Exchanges sell the
+              replacement items in the same step so only the difference changes hands.
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !order ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : !canReturn ? (
+            <div className="py-8 text-center text-muted-foreground">
+              {order.status === 'refunded' || !returnable
+                ? 'Everything on this order has already been returned.'
+                : `This order is ${order.status} and can't be returned.`}
+            </div>
+          ) : (
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="overflow-x-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Sold</TableHead>
+                      <TableHead className="w-24">Return</TableHead>
+                      <TableHead>Condition</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {order.items.map((item) => {
+                      const line = lineFor(item.id);
+                      const remaining = item.quantity - item.returned_quantity;
+                      const quantity = parseInt(line.quantity) || 0;
+                      return (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            <div className="font-medium">{item.product_name}</div>
+                            {item.variant_name && <div className="text-sm">{item.variant_name}</div>}
+                            <div className="text-xs text-muted-foreground">
+                              {formatCurrency(item.unit_price)} each
+                              {item.returned_quantity > 0 && ` - ${item.returned_quantity} already returned`}
+                            </div>
+                          </TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell>
+                            <Input
+                              type="number"
+                              min="0"
+                              max={remaining}
+                              step="1"
+                              value={line.quantity}
+                              disabled={remaining === 0}
+                              onChange={(e) => updateLine(item.id, 'quantity', e.target.value)}
+                            />
+                          </TableCell>
+                          <TableCell>
+                            {quantity > 0 ? (
+                              <div className="space-y-2 min-w-48">
+                                <Select
+                                  value={line.disposition}
+                                  onValueChange={(value) => updateLine(item.id, 'disposition', value as ReturnDisposition)}
+                                >
+                                  <SelectTrigger>
+                                    <SelectValue />
+                                  </SelectTrigger>
+                                  <SelectContent>
+                                    {(Object.keys(RETURN_DISPOSITION_LABELS) as ReturnDisposition[]).map((disposition) => (
+                                      <SelectItem key={disposition} value={disposition}>
+                                        {RETURN_DISPOSITION_LABELS[disposition]}
+                                      </SelectItem>
+                                    ))}
+                                  </SelectContent>
+                                </Select>
+                                <Input
+                                  placeholder="Reason, e.g. wrong size"
+                                  value={line.reason}
+                                  onChange={(e) => updateLine(item.id, 'reason', e.target.value)}
+                                />
+                              </div>
+                            ) : (
+                              <span className="text-sm text-muted-foreground">-</span>
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              <div className="flex items-center justify-between gap-4 border rounded-lg p-3">
+                <div>
+                  <Label htmlFor="return-exchange">Exchange for other items</Label>
+                  <p className="text-sm text-muted-foreground">
+                    The return value is put towards the new items instead of being refunded.
+                  </p>
+                </div>
+                <Switch id="return-exchange" checked={isExchange} onCheckedChange={setIsExchange} />
+              </div>
+
+              {isExchange && (
+                <div className="space-y-2">
+                  <div className="relative">
+                    <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+                    <Input
+                      placeholder="Search products by name or SKU"
+                      value={search}
+                      onChange={(e) => setSearch(e.target.value)}
+                      className="pl-9"
+                    />
+                  </div>
+                  {searchResults.length > 0 && (
+                    <div className="border rounded-lg divide-y">
+                      {searchResults.map((item) => (
+                        <button
+                          key={item.key}
+                          type="button"
+                          onClick={() => addExchangeLine(item)}
+                          disabled={item.stock_quantity <= 0}
+                          className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted/50 disabled:opacity-50"
+                        >
+                          <span>
+                            {item.name}
+                            {item.variant_name && <span> ({item.variant_name})</span>}
+                            {item.sku && <span className="text-muted-foreground"> - {item.sku}</span>}
+                          </span>
+                          <span className="flex items-center gap-2 text-muted-foreground">
+                            {formatCurrency(item.price)} - {item.stock_quantity} in stock
+                            <Plus className="w-4 h-4" />
+                          </span>
+                        </button>
+                      ))}
+                    </div>
+                  )}
+
+                  {exchangeLines.length > 0 && (
+                    <div className="overflow-x-auto border rounded-lg">
+                      <Table>
+                        <TableHeader>
+                          <TableRow>
+                            <TableHead>New Item</TableHead>
+                            <TableHead className="text-right">Price</TableHead>
+                            <TableHead className="w-24">Qty</TableHead>
+                            <TableHead className="w-10"></TableHead>
+                          </TableRow>
+                        </TableHeader>
+                        <TableBody>
+                          {exchangeLines.map((line) => (
+                            <TableRow key={line.key}>
+                              <TableCell>
+                                <div className="font-medium">{line.name}</div>
+                                {line.variant_name && <div className="text-sm">{line.variant_name}</div>}
+                              </TableCell>
+                              <TableCell className="text-right">{formatCurrency(line.price)}</TableCell>
+                              <TableCell>
+                                <Input
+                                  type="number"
+                                  min="1"
+                                  max={line.stock_quantity}
+                                  step="1"
+                                  value={line.quantity}
+                                  onChange={(e) => updateExchangeQuantity(line.key, e.target.value)}
+                                />
+                              </TableCell>
+                              <TableCell>
+                                <Button type="button" variant="ghost" size="sm" onClick={() => removeExchangeLine(line.key)}>
+                                  <Trash2 className="w-4 h-4" />
+                                </Button>
+                              </TableCell>
+                            </TableRow>
+                          ))}
+                        </TableBody>
+                      </Table>
+                    </div>
+                  )}
+                </div>
+              )}
+
+              <div className="border rounded-lg p-3 space-y-1 text-sm">
+                <div className="flex justify-between">
+                  <span className="text-muted-foreground">Return value</span>
+                  <span>{formatCurrency(returnValue)}</span>
+                </div>
+                {isExchange && (
+                  <div className="flex justify-between">
+                    <span className="text-muted-foreground">Exchange items</span>
+                    <span>{formatCurrency(exchangeTotal)}</span>
+                  </div>
+                )}
+                <div className="flex justify-between font-medium text-base pt-1">
+                  <span>{net > 0 ? 'Customer pays' : 'Refund to customer'}</span>
+                  <span>{formatCurrency(Math.abs(net))}</span>
+                </div>
+                {order.refunded_amount > 0 && (
+                  <p className="text-xs text-muted-foreground">
+                    {formatCurrency(order.refunded_amount)} of this order was already refunded
+                    {order.returns.length > 0 && ` (${order.returns.map(r => r.return_number).join(', ')})`}.
+                  </p>
+                )}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label>{net > 0 ? 'Customer Pays With' : 'Refund To'}</Label>
+                  <Select value={refundMethod} onValueChange={setRefundMethod}>
+                    <SelectTrigger>
+                      <SelectValue>{getPaymentMethodDisplay(refundMethod)}</SelectValue>
+                    </SelectTrigger>
+                    <SelectContent>
+                      {getPaymentOptions().map((option) => (
+                        <SelectItem key={option.id} value={option.id}>
+                          {option.name}
+                          {option.id === order.payment_method && ' (original)'}
+                        </SelectItem>
+                      ))}
+                      {canRefundToStoreCredit && (
+                        <SelectItem value="store_credit">
+                          {GIFT_CARD_KIND_LABELS.store_credit} ({order.customer?.name})
+                        </SelectItem>
+                      )}
+                    </SelectContent>
+                  </Select>
+                </div>
+
+                {requiresApproval && (
+                  <div className="space-y-2">
+                    <Label htmlFor="return-approval-pin" className="flex items-center gap-1">
+                      <ShieldCheck className="w-4 h-4" />
+                      Manager PIN *
+                    </Label>
+                    <Input
+                      id="return-approval-pin"
+                      type="password"
+                      inputMode="numeric"
+                      autoComplete="off"
+                      placeholder="Manager or owner PIN"
+                      value={approvalPin}
+                      onChange={(e) => setApprovalPin(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="return-reason">Reason</Label>
+                <Textarea
+                  id="return-reason"
+                  placeholder="Optional, e.g. customer changed their mind"
+                  value={reason}
+                  onChange={(e) => setReason(e.target.value)}
+                  rows={2}
+                />
+              </div>
+
+              <DialogFooter>
+                <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={processing}>
+                  Cancel
+                </Button>
+                <Button type="submit" disabled={processing}>
+                  {processing && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+                  {isExchange ? 'Complete Exchange' : 'Process Return'}
+                </Button>
+              </DialogFooter>
+            </form>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <ReturnReceiptDialog
+        open={receipt !== null}
+        onOpenChange={(isOpen) => !isOpen && setReceipt(null)}
+        receipt={receipt}
+      />
+    </>
+  );
+}
@@ -0,0 +1,208 @@
+import { forwardRef } from "react";
+import { Card, CardContent, CardHeader } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Separator } from "@/components/ui/separator";
+import { Printer, Download } from "lucide-react";
+import { useTax } from "@/hooks/useTax";
+import { RETURN_DISPOSITION_LABELS, type OrderReturnReceipt } from "@/stores/returnStore";
+
+interface ReturnReceiptProps {
+  receipt: OrderReturnReceipt;
+  storeName: string;
+  storeAddress?: string;
+  storePhone?: string;
+  refundMethodLabel: string;
+  onPrint?: () => void;
+  onDownload?: () => void;
+}
+
+export const ReturnReceipt = forwardRef<HTMLDivElement, ReturnReceiptProps>(
+  ({
+    receipt,
+    storeName,
+    storeAddress,
+    storePhone,
+    refundMethodLabel,
+    onPrint,
+    onDownload,
+  }, ref) => {
+    const { formatCurrency } = useTax();
+    const isExchange = !!receipt.exchange_order_id;
+
+    return (
+      <div className="max-w-md mx-auto">
+        <Card className="receipt-card">
+          <CardHeader className="text-center pb-4">
+            <div className="space-y-2">
+              <h2 className="text-xl font-bold text-foreground">{storeName}</h2>
+              {storeAddress && (
+                <p className="text-sm text-muted-foreground">{storeAddress}</p>
+              )}
+              {storePhone && (
+                <p className="text-sm text-muted-foreground">{storePhone}</p>
+              )}
+            </div>
+          </CardHeader>
+
+          <CardContent ref={ref} className="receipt-content space-y-4">
+            {/* Return Info */}
+            <div className="text-center space-y-1">
+              <p className="font-medium text-foreground">
+                {isExchange ? 'Exchange' : 'Return'} #{receipt.return_number}
+              </p>
+              <p className="text-sm text-muted-foreground">Original Order #{receipt.order_number}</p>
+              {receipt.exchange_order_number && (
+                <p className="text-sm text-muted-foreground">Exchange Order #{receipt.exchange_order_number}</p>
+              )}
+              <p className="text-sm text-muted-foreground">{new Date(receipt.created_at).toLocaleString()}</p>
+              {receipt.processed_by_name && (
+                <p className="text-sm text-muted-foreground">Processed by: {receipt.processed_by_name}</p>
+              )}
+              {receipt.approved_by_name && (
+                <p className="text-sm text-muted-foreground">Approved by: {receipt.approved_by_name}</p>
+              )}
+            </div>
+
+            <Separator />
+
+            {receipt.customer_name && (
+              <>
+                <div className="space-y-1">
+                  <p className="font-medium text-foreground">Customer:</p>
+                  <p className="text-sm text-muted-foreground">{receipt.customer_name}</p>
+                </div>
+                <Separator />
+              </>
+            )}
+
+            {/* Returned Items */}
+            <div className="space-y-3">
+              <p className="font-medium text-foreground">Returned:</p>
+              {receipt.items.map((item) => (
+                <div key={item.id} className="space-y-1">
+                  <div className="flex justify-between items-start">
+                    <div className="flex-1">
+                      <p className="text-sm font-medium text-foreground">{item.name}</p>
+                      {item.variant_name && (
+                        <p className="text-xs text-muted-foreground">{item.variant_name}</p>
+                      )}
+                      {item.disposition && (
+                        <p className="text-xs text-muted-foreground">
+                          {RETURN_DISPOSITION_LABELS[item.disposition]}{item.reason ? ` - ${item.reason}` : ''}
+                        </p>
+                      )}
+                    </div>
+                    <p className="text-sm font-medium text-foreground">
+                      -{formatCurrency(item.refund_amount || 0)}
+                    </p>
+                  </div>
+                  <div className="flex justify-between text-xs text-muted-foreground">
+                    <span>{item.quantity} × {formatCurrency(item.unit_price)}</span>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            {isExchange && (
+              <>
+                <Separator />
+                <div className="space-y-3">
+                  <p className="font-medium text-foreground">Exchanged For:</p>
+                  {receipt.exchange_items.map((item) => (
+                    <div key={item.id} className="space-y-1">
+                      <div className="flex justify-between items-start">
+                        <div className="flex-1">
+                          <p className="text-sm font-medium text-foreground">{item.name}</p>
+                          {item.variant_name && (
+                            <p className="text-xs text-muted-foreground">{item.variant_name}</p>
+                          )}
+                        </div>
+                        <p className="text-sm font-medium text-foreground">
+                          {formatCurrency(item.total_price || 0)}
+                        </p>
+                      </div>
+                      <div className="flex justify-between text-xs text-muted-foreground">
+                        <span>{item.quantity} × {formatCurrency(item.unit_price)}</span>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              </>
+            )}
+
+            <Separator />
+
+            {/* Totals */}
+            <div className="space-y-2">
+              <div className="flex justify-between text-sm">
+                <span className="text-muted-foreground">Return value:</span>
+                <span className="text-foreground">-{formatCurrency(receipt.refund_amount)}</span>
+              </div>
+
+              {isExchange && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">Exchange items:</span>
+                  <span className="text-foreground">{formatCurrency(receipt.exchange_total)}</span>
+                </div>
+              )}
+
+              <Separator />
+
+              <div className="flex justify-between text-lg font-bold">
+                <span className="text-foreground">
+                  {receipt.amount_collected > 0 ? 'Paid by customer:' : 'Refunded:'}
+                </span>
+                <span className="text-foreground">
+                  {formatCurrency(receipt.amount_collected > 0 ? receipt.amount_collected : receipt.amount_refunded)}
+                </span>
+              </div>
+
+              {(receipt.amount_collected > 0 || receipt.amount_refunded > 0) && (
+                <div className="flex justify-between text-sm">
+                  <span className="text-muted-foreground">
+                    {receipt.amount_collected > 0 ? 'Payment Method:' : 'Refunded To:'}
+                  </span>
+                  <span className="text-foreground">{refundMethodLabel}</span>
+                </div>
+              )}
+            </div>
+
+            {receipt.reason && (
+              <>
+                <Separator />
+                <p className="text-xs text-muted-foreground">Reason: {receipt.reason}</p>
+              </>
+            )}
+
+            <Separator />
+
+            <div className="text-center text-xs text-muted-foreground">
+              <p>Thank you for your business!</p>
+              <p>Please keep this receipt for your records.</p>
+            </div>
+          </CardContent>
+        </Card>
+
+        {/* Action Buttons */}
+        {(onPrint || onDownload) && (
+          <div className="flex gap-2 mt-4">
+            {onPrint && (
+              <Button onClick={onPrint} variant="outline" className="flex-1">
+                <Printer className="w-4 h-4 mr-2" />
+                Print
+              </Button>
+            )}
+            {onDownload && (
+              <Button onClick={onDownload} variant="outline" className="flex-1">
+                <Download className="w-4 h-4 mr-2" />
+                Download
+              </Button>
+            )}
+          </div>
+        )}
+      </div>
+    );
+  }
+);
+
+ReturnReceipt.displayName = "ReturnReceipt";
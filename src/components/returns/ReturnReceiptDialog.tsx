@@ -0,0 +1,211 @@
+import { useRef } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { toast } from "sonner";
+import jsPDF from 'jspdf';
+import { useTax } from "@/hooks/useTax";
+import { usePaymentMethods } from "@/hooks/usePaymentMethods";
+import { useCurrentStore } from "@/stores/storeStore";
+import { RETURN_DISPOSITION_LABELS, type OrderReturnReceipt } from "@/stores/returnStore";
+import { ReturnReceipt } from "./ReturnReceipt";
+
+interface ReturnReceiptDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  receipt: OrderReturnReceipt | null;
+}
+
+export function ReturnReceiptDialog({ open, onOpenChange, receipt }: ReturnReceiptDialogProps) {
+  const receiptRef = useRef<HTMLDivElement>(null);
+  const currentStore = useCurrentStore();
+  const { formatCurrency } = useTax();
+  const { getPaymentMethodDisplay } = usePaymentMethods();
+
+  const storeName = currentStore?.name || 'Store';
+  const refundMethodLabel = receipt ? getPaymentMethodDisplay(receipt.refund_method) : '';
+
+  const handlePrint = (): void => {
+    if (receiptRef.current) {
+      const printStyles = `
+        @media print {
+          body {
+            font-family: 'Courier New', monospace;
+            margin: 0;
+            padding: 10px;
+            font-size: 12px;
+            line-height: 1.3;
+            width: 80mm;
+            max-width: 80mm;
+            -webkit-print-color-adjust: exact;
+            color-adjust: exact;
+          }
+          .receipt-content {
+            width: 100%;
+          }
+          .text-center { text-align: center; }
+          .font-bold { font-weight: bold; }
+          .space-y-1 > * + * { margin-top: 4px; }
+          .space-y-2 > * + * { margin-top: 8px; }
+          .space-y-3 > * + * { margin-top: 12px; }
+          .space-y-4 > * + * { margin-top: 16px; }
+          .flex { display: flex; }
+          .justify-between { justify-content: space-between; }
+          .items-start { align-items: flex-start; }
+          .flex-1 { flex: 1; }
+          hr { border: none; border-top: 1px dashed #000; margin: 8px 0; }
+          .text-sm { font-size: 11px; }
+          .text-xs { font-size: 10px; }
+          .text-lg { font-size: 14px; }
+          .no-print { display: none !important; }
+          @page {
+            size: 80mm auto;
+            margin: 0;
+          }
+        }
+      `;
+
+      const printStyleSheet = document.createElement('style');
+      printStyleSheet.type = 'text/css';
+      printStyleSheet.textContent = printStyles;
+      document.head.appendChild(printStyleSheet);
+
+      const originalContent = document.body.innerHTML;
+      document.body.innerHTML = receiptRef.current.innerHTML;
+
+      window.print();
+
+      document.body.innerHTML = originalContent;
+      document.head.removeChild(printStyleSheet);
+
+      toast.success('Receipt sent to printer');
+    }
+  };
+
+  const handleDownload = (): void => {
+    if (!receipt) return;
+
+    try {
+      const doc = new jsPDF({
+        orientation: 'portrait',
+        unit: 'mm',
+        format: [80, 200] // Thermal receipt size (80mm wide)
+      });
+
+      doc.setFont('courier', 'normal');
+      doc.setFontSize(10);
+
+      let yPosition = 10;
+      const lineHeight = 4;
+      const pageWidth = 80;
+      const margin = 5;
+
+      const addText = (text: string, fontSize = 10, align: 'left' | 'center' = 'left') => {
+        doc.setFontSize(fontSize);
+        if (align === 'center') {
+          const textWidth = doc.getTextWidth(text);
+          const x = (pageWidth - textWidth) / 2;
+          doc.text(text, x, yPosition);
+        } else {
+          doc.text(text, margin, yPosition);
+        }
+        yPosition += lineHeight;
+      };
+
+      addText(storeName, 12, 'center');
+      if (currentStore?.address) addText(currentStore.address, 8, 'center');
+      if (currentStore?.phone) addText(currentStore.phone, 8, 'center');
+
+      yPosition += 2;
+      addText('================================', 8, 'center');
+      yPosition += 2;
+
+      addText(`${receipt.exchange_order_id ? 'Exchange' : 'Return'} #${receipt.return_number}`, 10, 'center');
+      addText(`Original Order #${receipt.order_number}`, 9, 'center');
+      if (receipt.exchange_order_number) addText(`Exchange Order #${receipt.exchange_order_number}`, 9, 'center');
+      addText(new Date(receipt.created_at).toLocaleString(), 8, 'center');
+      if (receipt.processed_by_name) addText(`Processed by: ${receipt.processed_by_name}`, 8);
+      if (receipt.approved_by_name) addText(`Approved by: ${receipt.approved_by_name}`, 8);
+      if (receipt.customer_name) addText(`Customer: ${receipt.customer_name}`, 8);
+
+      yPosition += 2;
+      addText('================================', 8, 'center');
+      yPosition += 2;
+
+      addText('RETURNED', 9);
+      receipt.items.forEach(item => {
+        addText(item.variant_name ? `${item.name} (${item.variant_name})` : item.name, 9);
+        addText(`${item.quantity} x ${formatCurrency(item.unit_price)} = -${formatCurrency(item.refund_amount || 0)}`, 8);
+        if (item.disposition) addText(RETURN_DISPOSITION_LABELS[item.disposition], 8);
+        yPosition += 1;
+      });
+
+      if (receipt.exchange_items.length > 0) {
+        yPosition += 2;
+        addText('EXCHANGED FOR', 9);
+        receipt.exchange_items.forEach(item => {
+          addText(item.variant_name ? `${item.name} (${item.variant_name})` : item.name, 9);
+          addText(`${item.quantity} x ${formatCurrency(item.unit_price)} = ${formatCurrency(item.total_price || 0)}`, 8);
+          yPosition += 1;
+        });
+      }
+
+      yPosition += 2;
+      addText('================================', 8, 'center');
+      yPosition += 2;
+
+      addText(`Return value: -${formatCurrency(receipt.refund_amount)}`, 9);
+      if (receipt.exchange_order_id) addText(`Exchange items: ${formatCurrency(receipt.exchange_total)}`, 9);
+      if (receipt.amount_collected > 0) {
+        addText(`PAID BY CUSTOMER: ${formatCurrency(receipt.amount_collected)}`, 11);
+        addText(`Payment: ${refundMethodLabel}`, 9);
+      } else {
+        addText(`REFUNDED: ${formatCurrency(receipt.amount_refunded)}`, 11);
+        if (receipt.amount_refunded > 0) addText(`Refunded to: ${refundMethodLabel}`, 9);
+      }
+      if (receipt.reason) addText(`Reason: ${receipt.reason}`, 8);
+
+      yPosition += 4;
+      addText('================================', 8, 'center');
+      yPosition += 2;
+      addText('Thank you for your business!', 9, 'center');
+      addText('Please keep this receipt', 8, 'center');
+      addText('for your records.', 8, 'center');
+
+      doc.save(`return-${receipt.return_number}.pdf`);
+      toast.success('Receipt PDF downloaded successfully');
+    } catch {
+      toast.error('Failed to generate PDF receipt');
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Return Receipt</DialogTitle>
+          <DialogDescription>
+            Print or download the receipt for this return.
+          </DialogDescription>
+        </DialogHeader>
+
+        {receipt && (
+          <ReturnReceipt
+            ref={receiptRef}
+            receipt={receipt}
+            storeName={storeName}
+            storeAddress={currentStore?.address || undefined}
+            storePhone={currentStore?.phone || undefined}
+            refundMethodLabel={refundMethodLabel}
+            onPrint={handlePrint}
+            onDownload={handleDownload}
+          />
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,118 @@
+import { useState, useEffect } from "react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { usePOSStore } from "@/stores/posStore";
+import { LABEL_SIZES } from "@/lib/barcodeLabels";
+import {
+  DEFAULT_BARCODE_SETTINGS,
+  getBarcodeSettings,
+  saveStoreSettings,
+  type BarcodeSettings as BarcodeSettingsValues
+} from "@/lib/storeSettings";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { ScanLine, Save } from "lucide-react";
+
+export function BarcodeSettings() {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+  const fetchBarcodeSettings = usePOSStore(state => state.fetchBarcodeSettings);
+
+  // Derive permissions
+  const canManage = isOwner || userRole === 'manager';
+
+  const [formSettings, setFormSettings] = useState<BarcodeSettingsValues>(DEFAULT_BARCODE_SETTINGS);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      getBarcodeSettings(currentStore.id).then(setFormSettings);
+    }
+  }, [currentStore?.id]);
+
+  const handleSave = async () => {
+    if (!currentStore) return;
+
+    setSaving(true);
+    try {
+      await saveStoreSettings(currentStore.id, {
+        barcode_scanner_enabled: formSettings.scannerEnabled,
+        barcode_label_size: formSettings.labelSize,
+      });
+      // Keep an open POS in step with the new setting
+      await fetchBarcodeSettings(currentStore.id);
+      toast.success('Barcode settings saved');
+    } catch (error) {
+      console.error('Error saving barcode settings:', error);
+      toast.error('Failed to save barcode settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ScanLine className="w-5 h-5" />
+          Barcode Scanning
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Scan product barcodes at the POS and choose the default label size for printed label sheets.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="barcode_scanner_enabled">Barcode scanner</Label>
+            <p className="text-sm text-muted-foreground">
+              Add products to the cart from a USB/Bluetooth scanner or the device camera
+            </p>
+          </div>
+          <Switch
+            id="barcode_scanner_enabled"
+            checked={formSettings.scannerEnabled}
+            disabled={!canManage}
+            onCheckedChange={(checked) => setFormSettings(prev => ({ ...prev, scannerEnabled: checked }))}
+          />
+        </div>
+
+        <div className="space-y-2 max-w-sm">
+          <Label>Default label size</Label>
+          <Select
+            value={formSettings.labelSize}
+            disabled={!canManage}
+            onValueChange={(value) => setFormSettings(prev => ({ ...prev, labelSize: value }))}
+          >
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {LABEL_SIZES.map(size => (
+                <SelectItem key={size.id} value={size.id}>
+                  {size.name}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+
+        {canManage && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Barcode Settings'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
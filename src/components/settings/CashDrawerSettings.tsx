@@ -0,0 +1,86 @@
+import { useState, useEffect } from "react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { useCashDrawerStore, useCashDrawerEnabled } from "@/stores/cashDrawerStore";
+import { saveStoreSettings } from "@/lib/storeSettings";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Wallet, Save } from "lucide-react";
+
+export function CashDrawerSettings() {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+  const enabled = useCashDrawerEnabled();
+  const fetchDrawer = useCashDrawerStore(state => state.fetchDrawer);
+
+  // Derive permissions
+  const canManage = isOwner || userRole === 'manager';
+
+  const [formEnabled, setFormEnabled] = useState(enabled);
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchDrawer(currentStore.id);
+    }
+  }, [currentStore?.id, fetchDrawer]);
+
+  useEffect(() => {
+    setFormEnabled(enabled);
+  }, [enabled]);
+
+  const handleSave = async () => {
+    if (!currentStore) return;
+
+    setSaving(true);
+    try {
+      await saveStoreSettings(currentStore.id, { cash_drawer_enabled: formEnabled });
+      await fetchDrawer(currentStore.id);
+      toast.success('Cash drawer settings saved');
+    } catch (error) {
+      console.error('Error saving cash drawer settings:', error);
+      toast.error('Failed to save cash drawer settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Wallet className="w-5 h-5" />
+          Cash Drawer
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Run the till in shifts with an opening float, paid-ins/paid-outs and a blind cash-up at close.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="cash_drawer_enabled">Cash drawer shifts</Label>
+            <p className="text-sm text-muted-foreground">
+              Cash sales at the POS need an open shift. Shift history and Z-reports are under Reports.
+            </p>
+          </div>
+          <Switch
+            id="cash_drawer_enabled"
+            checked={formEnabled}
+            disabled={!canManage}
+            onCheckedChange={setFormEnabled}
+          />
+        </div>
+
+        {canManage && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Cash Drawer Settings'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,116 @@
+import { useState, useEffect } from "react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { getGiftCardSettings, saveStoreSettings } from "@/lib/storeSettings";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Gift, Save } from "lucide-react";
+
+// Blank means the value never expires
+const parseMonths = (value: string): number | null | undefined => {
+  if (!value.trim()) return null;
+  const months = parseInt(value, 10);
+  return Number.isInteger(months) && months > 0 ? months : undefined;
+};
+
+export function GiftCardSettings() {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+
+  // Derive permissions
+  const canManage = isOwner || userRole === 'manager';
+
+  const [giftCardExpiry, setGiftCardExpiry] = useState('');
+  const [storeCreditExpiry, setStoreCreditExpiry] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      getGiftCardSettings(currentStore.id).then(settings => {
+        setGiftCardExpiry(settings.giftCardExpiryMonths?.toString() ?? '');
+        setStoreCreditExpiry(settings.storeCreditExpiryMonths?.toString() ?? '');
+      });
+    }
+  }, [currentStore?.id]);
+
+  const handleSave = async () => {
+    if (!currentStore) return;
+
+    const giftCardMonths = parseMonths(giftCardExpiry);
+    const storeCreditMonths = parseMonths(storeCreditExpiry);
+    if (giftCardMonths === undefined || storeCreditMonths === undefined) {
+      toast.error('Expiry must be a whole number of months, or blank for never');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveStoreSettings(currentStore.id, {
+        gift_card_expiry_months: giftCardMonths,
+        store_credit_expiry_months: storeCreditMonths,
+      });
+      toast.success('Gift card settings saved');
+    } catch (error) {
+      console.error('Error saving gift card settings:', error);
+      toast.error('Failed to save gift card settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <Gift className="w-5 h-5" />
+          Gift Cards & Store Credit
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Unspent value is written off when it expires. Changes apply to cards issued or topped up from now on.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="gift_card_expiry_months">Gift cards expire after (months)</Label>
+            <Input
+              id="gift_card_expiry_months"
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Never"
+              value={giftCardExpiry}
+              disabled={!canManage}
+              onChange={(e) => setGiftCardExpiry(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Counted from the day the card is sold.</p>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="store_credit_expiry_months">Store credit expires after (months)</Label>
+            <Input
+              id="store_credit_expiry_months"
+              type="number"
+              min="1"
+              step="1"
+              placeholder="Never"
+              value={storeCreditExpiry}
+              disabled={!canManage}
+              onChange={(e) => setStoreCreditExpiry(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">Counted from the customer's last credit.</p>
+          </div>
+        </div>
+
+        {canManage && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Gift Card Settings'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,366 @@
+import { useState, useEffect } from "react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { useLoyaltyStore } from "@/stores/loyaltyStore";
+import { useTax } from "@/hooks/useTax";
+import { pointsToValue, type LoyaltySettings as LoyaltySettingsValues, type LoyaltyTier } from "@/lib/loyalty";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import {
+  Award,
+  Plus,
+  Edit,
+  Trash2,
+  Save
+} from "lucide-react";
+
+const TIER_COLORS = ['#cd7f32', '#9ca3af', '#eab308', '#6366f1', '#0ea5e9'];
+
+export function LoyaltySettings() {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+  const { formatCurrency } = useTax();
+
+  const settings = useLoyaltyStore(state => state.settings);
+  const tiers = useLoyaltyStore(state => state.tiers);
+  const loading = useLoyaltyStore(state => state.loading);
+  const fetchProgram = useLoyaltyStore(state => state.fetchProgram);
+  const saveSettings = useLoyaltyStore(state => state.saveSettings);
+  const saveTier = useLoyaltyStore(state => state.saveTier);
+  const deleteTier = useLoyaltyStore(state => state.deleteTier);
+
+  // Derive permissions
+  const canManage = isOwner || userRole === 'manager';
+
+  const [formSettings, setFormSettings] = useState<LoyaltySettingsValues>(settings);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [showTierDialog, setShowTierDialog] = useState(false);
+  const [editingTier, setEditingTier] = useState<LoyaltyTier | null>(null);
+  const [tierForm, setTierForm] = useState({
+    name: '',
+    min_spent: '',
+    points_multiplier: '1',
+    color: TIER_COLORS[0]
+  });
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchProgram(currentStore.id);
+    }
+  }, [currentStore?.id, fetchProgram]);
+
+  useEffect(() => {
+    setFormSettings(settings);
+  }, [settings]);
+
+  const resetTierForm = () => {
+    setTierForm({
+      name: '',
+      min_spent: '',
+      points_multiplier: '1',
+      color: TIER_COLORS[tiers.length % TIER_COLORS.length]
+    });
+    setEditingTier(null);
+  };
+
+  const handleSaveSettings = async () => {
+    if (!currentStore) return;
+
+    if (formSettings.pointsPerUnit < 0 || formSettings.pointValue < 0 || formSettings.minRedeemPoints < 0) {
+      toast.error('Loyalty rates cannot be negative');
+      return;
+    }
+
+    setSavingSettings(true);
+    await saveSettings(currentStore.id, formSettings);
+    setSavingSettings(false);
+  };
+
+  const handleTierSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStore) return;
+
+    const minSpent = parseFloat(tierForm.min_spent) || 0;
+    const multiplier = parseFloat(tierForm.points_multiplier) || 0;
+
+    if (!tierForm.name.trim()) {
+      toast.error('Tier name is required');
+      return;
+    }
+    if (minSpent < 0) {
+      toast.error('Minimum spend cannot be negative');
+      return;
+    }
+    if (multiplier <= 0) {
+      toast.error('Points multiplier must be greater than 0');
+      return;
+    }
+
+    const saved = await saveTier(currentStore.id, {
+      name: tierForm.name,
+      min_spent: minSpent,
+      points_multiplier: multiplier,
+      color: tierForm.color
+    }, editingTier || undefined);
+
+    if (saved) {
+      resetTierForm();
+      setShowTierDialog(false);
+    }
+  };
+
+  const handleEditTier = (tier: LoyaltyTier) => {
+    setTierForm({
+      name: tier.name,
+      min_spent: tier.min_spent.toString(),
+      points_multiplier: tier.points_multiplier.toString(),
+      color: tier.color || TIER_COLORS[0]
+    });
+    setEditingTier(tier);
+    setShowTierDialog(true);
+  };
+
+  const handleDeleteTier = async (tier: LoyaltyTier) => {
+    if (!confirm(`Are you sure you want to delete the ${tier.name} tier?`)) return;
+    await deleteTier(tier);
+  };
+
+  if (loading && tiers.length === 0) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center">Loading loyalty settings...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle className="flex items-center gap-2">
+                <Award className="w-5 h-5" />
+                Customer Loyalty
+              </CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Customers earn points on every POS sale and can spend them at checkout.
+              </p>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="loyalty_enabled"
+                checked={formSettings.enabled}
+                disabled={!canManage}
+                onCheckedChange={(checked) => setFormSettings(prev => ({ ...prev, enabled: checked }))}
+              />
+              <Label htmlFor="loyalty_enabled">{formSettings.enabled ? 'Enabled' : 'Disabled'}</Label>
+            </div>
+          </div>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div>
+              <Label htmlFor="points_per_unit">Points earned per 1.00 spent</Label>
+              <Input
+                id="points_per_unit"
+                type="number"
+                step="0.01"
+                min="0"
+                value={formSettings.pointsPerUnit}
+                disabled={!canManage}
+                onChange={(e) => setFormSettings(prev => ({ ...prev, pointsPerUnit: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="point_value">Value of 1 point</Label>
+              <Input
+                id="point_value"
+                type="number"
+                step="0.0001"
+                min="0"
+                value={formSettings.pointValue}
+                disabled={!canManage}
+                onChange={(e) => setFormSettings(prev => ({ ...prev, pointValue: parseFloat(e.target.value) || 0 }))}
+              />
+            </div>
+            <div>
+              <Label htmlFor="min_redeem_points">Minimum points per redemption</Label>
+              <Input
+                id="min_redeem_points"
+                type="number"
+                step="1"
+                min="0"
+                value={formSettings.minRedeemPoints}
+                disabled={!canManage}
+                onChange={(e) => setFormSettings(prev => ({ ...prev, minRedeemPoints: parseInt(e.target.value) || 0 }))}
+              />
+            </div>
+          </div>
+          <p className="text-sm text-muted-foreground">
+            A 100.00 sale earns {Math.floor(100 * formSettings.pointsPerUnit)} points, and 100 points are worth {formatCurrency(pointsToValue(100, formSettings))}.
+          </p>
+          {canManage && (
+            <div className="flex justify-end">
+              <Button onClick={handleSaveSettings} disabled={savingSettings}>
+                <Save className="w-4 h-4 mr-2" />
+                {savingSettings ? 'Saving...' : 'Save Loyalty Settings'}
+              </Button>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Card>
+        <CardHeader>
+          <div className="flex items-center justify-between">
+            <div>
+              <CardTitle>Loyalty Tiers</CardTitle>
+              <p className="text-sm text-muted-foreground mt-1">
+                Customers move up a tier once their lifetime spend reaches its minimum. Higher tiers can earn points faster and unlock tier-only discounts.
+              </p>
+            </div>
+            {canManage && (
+              <Button onClick={() => { resetTierForm(); setShowTierDialog(true); }}>
+                <Plus className="w-4 h-4 mr-2" />
+                Add Tier
+              </Button>
+            )}
+          </div>
+        </CardHeader>
+        <CardContent>
+          {tiers.length > 0 ? (
+            <div className="border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Tier</TableHead>
+                    <TableHead>Lifetime Spend</TableHead>
+                    <TableHead>Points Multiplier</TableHead>
+                    {canManage && <TableHead>Actions</TableHead>}
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {tiers.map((tier) => (
+                    <TableRow key={tier.id}>
+                      <TableCell>
+                        <Badge variant="outline" style={{ borderColor: tier.color || undefined, color: tier.color || undefined }}>
+                          {tier.name}
+                        </Badge>
+                      </TableCell>
+                      <TableCell>{formatCurrency(tier.min_spent)}+</TableCell>
+                      <TableCell>{tier.points_multiplier}x</TableCell>
+                      {canManage && (
+                        <TableCell>
+                          <div className="flex items-center gap-2">
+                            <Button variant="ghost" size="sm" onClick={() => handleEditTier(tier)}>
+                              <Edit className="w-4 h-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="sm"
+                              onClick={() => handleDeleteTier(tier)}
+                              className="text-destructive hover:text-destructive"
+                            >
+                              <Trash2 className="w-4 h-4" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      )}
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+          ) : (
+            <div className="text-center py-8 text-muted-foreground">
+              <Award className="w-12 h-12 mx-auto mb-3 opacity-50" />
+              <p>No loyalty tiers configured</p>
+              <p className="text-sm">Add tiers like Bronze, Silver and Gold to reward your best customers</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+
+      <Dialog open={showTierDialog} onOpenChange={(open) => {
+        setShowTierDialog(open);
+        if (!open) resetTierForm();
+      }}>
+        <DialogContent>
+          <DialogHeader>
+            <DialogTitle>{editingTier ? 'Edit Tier' : 'Add Tier'}</DialogTitle>
+            <DialogDescription>
+              Customers reach this tier once their lifetime spend is at least the minimum.
+            </DialogDescription>
+          </DialogHeader>
+          <form onSubmit={handleTierSubmit} className="space-y-4">
+            <div>
+              <Label htmlFor="tier_name">Name *</Label>
+              <Input
+                id="tier_name"
+                value={tierForm.name}
+                onChange={(e) => setTierForm(prev => ({ ...prev, name: e.target.value }))}
+                placeholder="e.g., Gold"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="tier_min_spent">Minimum lifetime spend *</Label>
+              <Input
+                id="tier_min_spent"
+                type="number"
+                step="0.01"
+                min="0"
+                value={tierForm.min_spent}
+                onChange={(e) => setTierForm(prev => ({ ...prev, min_spent: e.target.value }))}
+                placeholder="0.00"
+                required
+              />
+            </div>
+            <div>
+              <Label htmlFor="tier_multiplier">Points multiplier</Label>
+              <Input
+                id="tier_multiplier"
+                type="number"
+                step="0.1"
+                min="0.1"
+                value={tierForm.points_multiplier}
+                onChange={(e) => setTierForm(prev => ({ ...prev, points_multiplier: e.target.value }))}
+              />
+            </div>
+            <div>
+              <Label>Color</Label>
+              <div className="flex gap-2 mt-2">
+                {TIER_COLORS.map(color => (
+                  <button
+                    key={color}
+                    type="button"
+                    className={`w-8 h-8 rounded-full border-2 ${tierForm.color === color ? 'border-foreground' : 'border-transparent'}`}
+                    style={{ backgroundColor: color }}
+                    onClick={() => setTierForm(prev => ({ ...prev, color }))}
+                  />
+                ))}
+              </div>
+            </div>
+            <div className="flex gap-2 pt-4">
+              <Button type="submit" className="flex-1">
+                {editingTier ? 'Update' : 'Add'} Tier
+              </Button>
+              <Button type="button" variant="outline" onClick={() => setShowTierDialog(false)}>
+                Cancel
+              </Button>
+            </div>
+          </form>
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
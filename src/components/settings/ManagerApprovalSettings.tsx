@@ -0,0 +1,133 @@
+import { useState, useEffect } from "react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { getApprovalSettings, saveStoreSettings, DEFAULT_APPROVAL_SETTINGS } from "@/lib/storeSettings";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { ShieldCheck, Save } from "lucide-react";
+
+export function ManagerApprovalSettings() {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+
+  // Derive permissions
+  const canManage = isOwner || userRole === 'manager';
+
+  const [requirePinForVoids, setRequirePinForVoids] = useState(DEFAULT_APPROVAL_SETTINGS.requirePinForVoids);
+  const [requirePinForDiscounts, setRequirePinForDiscounts] = useState(DEFAULT_APPROVAL_SETTINGS.requirePinForDiscounts);
+  const [discountThreshold, setDiscountThreshold] = useState(DEFAULT_APPROVAL_SETTINGS.discountApprovalThreshold.toString());
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      getApprovalSettings(currentStore.id).then(settings => {
+        setRequirePinForVoids(settings.requirePinForVoids);
+        setRequirePinForDiscounts(settings.requirePinForDiscounts);
+        setDiscountThreshold(settings.discountApprovalThreshold.toString());
+      });
+    }
+  }, [currentStore?.id]);
+
+  const handleSave = async () => {
+    if (!currentStore) return;
+
+    const threshold = parseFloat(discountThreshold || '0');
+    if (isNaN(threshold) || threshold < 0 || threshold > 100) {
+      toast.error('Discount threshold must be between 0 and 100%');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      await saveStoreSettings(currentStore.id, {
+        require_pin_for_voids: requirePinForVoids,
+        require_pin_for_discounts: requirePinForDiscounts,
+        discount_approval_threshold: threshold,
+      });
+      toast.success('Manager approval settings saved');
+    } catch (error) {
+      console.error('Error saving manager approval settings:', error);
+      toast.error('Failed to save manager approval settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ShieldCheck className="w-5 h-5" />
+          Manager Approvals
+        </CardTitle>
+        <p className="text-sm text-muted-foreground">
+          Cashiers ask a manager or owner to key in their PIN at the till. Every approval is recorded in the audit log.
+        </p>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="require_pin_for_voids">Voids and refunds</Label>
+            <p className="text-sm text-muted-foreground">
+              Removing lines from the cart and processing returns need a manager PIN.
+            </p>
+          </div>
+          <Switch
+            id="require_pin_for_voids"
+            checked={requirePinForVoids}
+            disabled={!canManage}
+            onCheckedChange={setRequirePinForVoids}
+          />
+        </div>
+
+        <div className="flex items-center justify-between">
+          <div>
+            <Label htmlFor="require_pin_for_discounts">Manual discounts</Label>
+            <p className="text-sm text-muted-foreground">
+              Discounts keyed in at the till above the threshold need a manager PIN.
+            </p>
+          </div>
+          <Switch
+            id="require_pin_for_discounts"
+            checked={requirePinForDiscounts}
+            disabled={!canManage}
+            onCheckedChange={setRequirePinForDiscounts}
+          />
+        </div>
+
+        {requirePinForDiscounts && (
+          <div className="space-y-2 max-w-xs">
+            <Label htmlFor="discount_approval_threshold">Approve discounts above (%)</Label>
+            <Input
+              id="discount_approval_threshold"
+              type="number"
+              min="0"
+              max="100"
+              step="0.5"
+              value={discountThreshold}
+              disabled={!canManage}
+              onChange={(e) => setDiscountThreshold(e.target.value)}
+            />
+            <p className="text-xs text-muted-foreground">
+              Set to 0 to approve every manual discount.
+            </p>
+          </div>
+        )}
+
+        <p className="text-sm text-muted-foreground">
+          Price changes at the till always need a manager.
+        </p>
+
+        {canManage && (
+          <Button onClick={handleSave} disabled={saving}>
+            <Save className="w-4 h-4 mr-2" />
+            {saving ? 'Saving...' : 'Save Approval Settings'}
+          </Button>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,219 @@
+import { useState, useEffect, useCallback } from "react";
+import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
+import { supabase } from "@/integrations/supabase/client";
+import { toast } from "sonner";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Switch } from "@/components/ui/switch";
+import { Globe, Copy } from "lucide-react";
+
+interface PaymentGateway {
+  provider: string;
+  is_enabled: boolean;
+  configured: boolean;
+  public_key?: string | null;
+  secret_key_hint?: string | null;
+  webhook_secret_set?: boolean;
+}
+
+// Shoppers pay showcase orders into the store's own PayChangu account. Saved secrets are never
+// loaded back: leave a secret field blank to keep the one on file.
+export function PaychanguGatewaySettings() {
+  const currentStore = useCurrentStore();
+  const { isOwner } = useStoreStore();
+  const [gateway, setGateway] = useState<PaymentGateway | null>(null);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [formData, setFormData] = useState({
+    is_enabled: false,
+    public_key: '',
+    secret_key: '',
+    webhook_secret: ''
+  });
+
+  const webhookUrl = `${window.location.origin}/api/webhooks/paychangu`;
+
+  // Enabling without a webhook secret would leave payment notices unverifiable
+  const hasWebhookSecret = Boolean(gateway?.webhook_secret_set) || formData.webhook_secret.trim() !== '';
+
+  const fetchGateway = useCallback(async () => {
+    if (!currentStore) return;
+
+    try {
+      const { data, error } = await supabase.rpc('get_store_payment_gateway', {
+        _store_id: currentStore.id
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as PaymentGateway;
+      setGateway(result);
+      setFormData({
+        is_enabled: result.is_enabled,
+        public_key: result.public_key || '',
+        secret_key: '',
+        webhook_secret: ''
+      });
+    } catch (error) {
+      console.error('Error fetching payment gateway:', error);
+      toast.error('Failed to load online payment settings');
+    } finally {
+      setLoading(false);
+    }
+  }, [currentStore]);
+
+  useEffect(() => {
+    if (currentStore) {
+      fetchGateway();
+    }
+  }, [currentStore, fetchGateway]);
+
+  const handleSave = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStore) return;
+
+    if (formData.is_enabled && !hasWebhookSecret) {
+      toast.error('Enter the webhook secret before turning on online payments');
+      return;
+    }
+
+    setSaving(true);
+    try {
+      const { data, error } = await supabase.rpc('save_store_payment_gateway', {
+        _store_id: currentStore.id,
+        _is_enabled: formData.is_enabled,
+        _public_key: formData.public_key,
+        _secret_key: formData.secret_key,
+        _webhook_secret: formData.webhook_secret
+      });
+
+      if (error) throw error;
+
+      const result = data as unknown as { success: boolean; error?: string };
+      if (!result.success) {
+        toast.error(result.error || 'Failed to save online payment settings');
+        return;
+      }
+
+      toast.success('Online payment settings saved');
+      fetchGateway();
+    } catch (error) {
+      console.error('Error saving payment gateway:', error);
+      toast.error(error instanceof Error ? error.message : 'Failed to save online payment settings');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleCopyWebhookUrl = async () => {
+    try {
+      await navigator.clipboard.writeText(webhookUrl);
+      toast.success('Webhook URL copied');
+    } catch {
+      toast.error('Failed to copy webhook URL');
+    }
+  };
+
+  if (loading) {
+    return (
+      <Card>
+        <CardContent className="p-6">
+          <div className="text-center">Loading online payment settings...</div>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex items-center justify-between">
+          <div>
+            <CardTitle className="flex items-center gap-2">
+              <Globe className="w-5 h-5" />
+              Online Payments (PayChangu)
+            </CardTitle>
+            <p className="text-sm text-muted-foreground mt-1">
+              Let showcase customers pay for their orders by mobile money or card. Payments go straight to your PayChangu account.
+            </p>
+          </div>
+          <Badge variant={gateway?.is_enabled ? "default" : "secondary"}>
+            {gateway?.is_enabled ? "Active" : gateway?.configured ? "Inactive" : "Not set up"}
+          </Badge>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {isOwner ? (
+          <form onSubmit={handleSave} className="space-y-4">
+            <div>
+              <Label htmlFor="paychangu_public_key">Public Key</Label>
+              <Input
+                id="paychangu_public_key"
+                value={formData.public_key}
+                onChange={(e) => setFormData(prev => ({ ...prev, public_key: e.target.value }))}
+                placeholder="pub-live-..."
+              />
+            </div>
+            <div>
+              <Label htmlFor="paychangu_secret_key">Secret Key</Label>
+              <Input
+                id="paychangu_secret_key"
+                type="password"
+                autoComplete="off"
+                value={formData.secret_key}
+                onChange={(e) => setFormData(prev => ({ ...prev, secret_key: e.target.value }))}
+                placeholder={gateway?.secret_key_hint ? `Saved, ending in ${gateway.secret_key_hint}` : "sec-live-..."}
+              />
+            </div>
+            <div>
+              <Label htmlFor="paychangu_webhook_secret">Webhook Secret</Label>
+              <Input
+                id="paychangu_webhook_secret"
+                type="password"
+                autoComplete="off"
+                value={formData.webhook_secret}
+                onChange={(e) => setFormData(prev => ({ ...prev, webhook_secret: e.target.value }))}
+                placeholder={gateway?.webhook_secret_set ? "Saved" : "From your PayChangu dashboard"}
+              />
+            </div>
+            <div className="p-3 bg-muted/50 rounded-lg text-sm space-y-2">
+              <p className="text-muted-foreground">
+                Set this as the webhook URL in your PayChangu dashboard so paid orders are confirmed automatically:
+              </p>
+              <div className="flex items-center gap-2">
+                <code className="flex-1 truncate">{webhookUrl}</code>
+                <Button type="button" variant="ghost" size="sm" onClick={handleCopyWebhookUrl}>
+                  <Copy className="w-4 h-4" />
+                </Button>
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <Switch
+                id="paychangu_enabled"
+                checked={formData.is_enabled}
+                disabled={!formData.is_enabled && !hasWebhookSecret}
+                onCheckedChange={(checked) => setFormData(prev => ({ ...prev, is_enabled: checked }))}
+              />
+              <Label htmlFor="paychangu_enabled">Take payment at showcase checkout</Label>
+            </div>
+            {!hasWebhookSecret && (
+              <p className="text-xs text-muted-foreground">
+                Add the webhook secret before turning on online payments.
+              </p>
+            )}
+            <Button type="submit" disabled={saving}>
+              {saving ? 'Saving...' : 'Save Online Payments'}
+            </Button>
+          </form>
+        ) : (
+          <p className="text-sm text-muted-foreground">
+            Only the store owner can change the PayChangu account.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
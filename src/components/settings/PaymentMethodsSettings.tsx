@@ -20,6 +20,7 @@ import {
   Eye,
   EyeOff
 } from "lucide-react";
+import { PaychanguGatewaySettings } from "./PaychanguGatewaySettings";
 
 interface PaymentMethod {
   id: string;
@@ -404,6 +405,8 @@ export function PaymentMethodsSettings() {
           )}
         </CardContent>
       </Card>
+
+      <PaychanguGatewaySettings />
     </div>
   );
 }
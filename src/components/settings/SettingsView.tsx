@@ -10,7 +10,7 @@ import { Dialog, DialogContent, DialogDescription, DialogHeader, DialogTitle, Di
 
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs";
 import { Tooltip, TooltipContent, TooltipProvider, TooltipTrigger } from "@/components/ui/tooltip";
-import { Settings, Users, Shield, Eye, EyeOff, Edit, Trash2, UserCheck, UserX, Crown, UserCog, HelpCircle, UserPlus, Store, CreditCard, Bell, Activity, Copy, Globe } from "lucide-react";
+import { Settings, Users, Shield, Eye, EyeOff, Edit, Trash2, UserCheck, UserX, Crown, UserCog, HelpCircle, UserPlus, Store, CreditCard, Bell, Activity, Copy, Globe, Award } from "lucide-react";
 import { useCurrentStore, useStoreStore } from "@/stores/storeStore";
 import { useUser } from "@/stores/authStore";
 import { SecureAction, SecureButton } from "@/components/auth/SecureAction";
@@ -18,6 +18,11 @@ import { teamMemberLogs } from "@/lib/activityLogger";
 import { clearTaxCache, percentageToDecimal, isValidTaxRate, WORLD_CURRENCIES } from "@/lib/taxUtils";
 import { PaymentMethodsSettings } from "./PaymentMethodsSettings";
 import { ShowcaseSettings } from "./ShowcaseSettings";
+import { LoyaltySettings } from "./LoyaltySettings";
+import { BarcodeSettings } from "./BarcodeSettings";
+import { CashDrawerSettings } from "./CashDrawerSettings";
+import { ManagerApprovalSettings } from "./ManagerApprovalSettings";
+import { GiftCardSettings } from "./GiftCardSettings";
 import { PrivacySettings } from "@/components/analytics/ConsentBanner";
 import { toast } from "sonner";
 import { supabase } from "@/integrations/supabase/client";
@@ -295,7 +300,7 @@ export function SettingsView() {
         />
 
         <Tabs defaultValue="team" value={currentTab} onValueChange={setCurrentTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-7">
+          <TabsList className="grid w-full grid-cols-8">
             <TabsTrigger value="team" className="flex items-center gap-2">
               <Users className="w-4 h-4" />
               Team
@@ -317,6 +322,10 @@ export function SettingsView() {
               <CreditCard className="w-4 h-4" />
               Payments
             </TabsTrigger>
+            <TabsTrigger value="loyalty" className="flex items-center gap-2">
+              <Award className="w-4 h-4" />
+              Loyalty
+            </TabsTrigger>
             <TabsTrigger value="notifications" className="flex items-center gap-2">
               <Bell className="w-4 h-4" />
               Notifications
@@ -868,6 +877,14 @@ export function SettingsView() {
                 </div>
               </CardContent>
             </Card>
+
+            <BarcodeSettings />
+
+            <CashDrawerSettings />
+
+            <ManagerApprovalSettings />
+
+            <GiftCardSettings />
               </>
             )}
           </TabsContent>
@@ -920,6 +937,30 @@ export function SettingsView() {
             )}
           </TabsContent>
 
+          {/* Loyalty Tab */}
+          <TabsContent value="loyalty" className="space-y-6">
+            {!currentStore ? (
+              <Card>
+                <CardContent className="p-8">
+                  <div className="text-center space-y-4">
+                    <Award className="w-12 h-12 mx-auto text-muted-foreground" />
+                    <div>
+                      <h3 className="text-lg font-semibold text-foreground mb-2">No Store Selected</h3>
+                      <p className="text-muted-foreground mb-4">
+                        Please select or create a store to manage customer loyalty.
+                      </p>
+                      <Button onClick={() => { window.location.href = '/app/stores'; }}>
+                        Go to Store Management
+                      </Button>
+                    </div>
+                  </div>
+                </CardContent>
+              </Card>
+            ) : (
+              <LoyaltySettings />
+            )}
+          </TabsContent>
+
           {/* Notifications Tab */}
           <TabsContent value="notifications" className="space-y-6">
             <Card>
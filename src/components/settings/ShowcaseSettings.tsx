@@ -434,6 +434,20 @@ export function ShowcaseSettings({ onShowcaseStatusChange }: ShowcaseSettingsPro
                       onChange={(e) => setShowcaseSettings({ showcaseBannerUrl: e.target.value })}
                     />
                   </div>
+
+                  <div className="space-y-2">
+                    <Label htmlFor="showcase-order-hold">Hold Stock for Orders (hours)</Label>
+                    <Input
+                      id="showcase-order-hold"
+                      type="number"
+                      min="1"
+                      value={showcaseSettings.orderHoldHours}
+                      onChange={(e) => setShowcaseSettings({ orderHoldHours: parseInt(e.target.value) || 1 })}
+                    />
+                    <p className="text-xs text-muted-foreground">
+                      Items in a new order are set aside for this long. Orders not confirmed in time are cancelled and the stock goes back on sale.
+                    </p>
+                  </div>
                 </div>
               </TabsContent>
 
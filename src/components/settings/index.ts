@@ -23,3 +23,6 @@ export { PaymentMethodForm } from './payments/PaymentMethodForm';
 export { SettingsView } from './SettingsView';
 export { ShowcaseSettings } from './ShowcaseSettings';
 export { PaymentMethodsSettings } from './PaymentMethodsSettings';
+export { LoyaltySettings } from './LoyaltySettings';
+export { BarcodeSettings } from './BarcodeSettings';
+export { CashDrawerSettings } from './CashDrawerSettings';
@@ -19,6 +19,7 @@ interface PublicProduct {
   show_stock_publicly: boolean;
   show_price_publicly: boolean;
   created_at: string;
+  has_variants?: boolean;
 }
 
 interface PublicProductGridProps {
@@ -55,6 +56,12 @@ export function PublicProductGrid({
       return;
     }
 
+    // Products with variants need an option picked in the product modal first
+    if (product.has_variants) {
+      onProductClick(product);
+      return;
+    }
+
     addToCart(
       product.product_id,
       product.product_name,
@@ -9,8 +9,14 @@ import { Package, Phone, Mail, MapPin, ExternalLink, Share2, MessageCircle, Shop
 import { toast } from "sonner";
 import { formatCurrency } from "@/lib/taxUtils";
 import { useShowcaseCartStore } from "@/stores/showcaseCartStore";
-import { ProductVariantSelector, ProductVariant } from "./cart/ProductVariantSelector";
-import { supabase } from "@/integrations/supabase/client";
+import { ProductVariantSelector } from "./cart/ProductVariantSelector";
+import {
+  fetchProductVariants,
+  findVariantByOptions,
+  type ProductOption,
+  type ProductVariant,
+  type VariantOptions,
+} from "@/lib/productVariants";
 
 interface PublicProduct {
   product_id: string;
@@ -26,6 +32,7 @@ interface PublicProduct {
   show_price_publicly: boolean;
   created_at: string;
   sku?: string;
+  has_variants?: boolean;
 }
 
 import { ShowcaseTheme, ShowcaseContactInfo } from '@/stores/publicShowcaseStore';
@@ -68,9 +75,9 @@ export function PublicProductModal({
   themeColors,
   storeCurrency = 'USD'
 }: PublicProductModalProps) {
+  const [options, setOptions] = useState<ProductOption[]>([]);
   const [variants, setVariants] = useState<ProductVariant[]>([]);
-  const [selectedVariants, setSelectedVariants] = useState<Record<string, string>>({});
-  const [variantAdjustments, setVariantAdjustments] = useState(0);
+  const [selectedOptions, setSelectedOptions] = useState<VariantOptions>({});
   const [quantity, setQuantity] = useState(1);
   const [isLoadingVariants, setIsLoadingVariants] = useState(false);
 
@@ -86,41 +93,25 @@ export function PublicProductModal({
 
   // Load product variants when modal opens
   useEffect(() => {
-    if (open && product.product_id) {
+    if (open && product.product_id && product.has_variants) {
       loadProductVariants();
     }
-  }, [open, product.product_id]);
+  }, [open, product.product_id, product.has_variants]);
 
   // Reset state when product changes
   useEffect(() => {
-    setSelectedVariants({});
-    setVariantAdjustments(0);
+    setOptions([]);
+    setVariants([]);
+    setSelectedOptions({});
     setQuantity(1);
   }, [product.product_id]);
 
   const loadProductVariants = async () => {
     try {
       setIsLoadingVariants(true);
-      // Type assertion to work around outdated Supabase types
-      const { data, error } = await supabase
-        .from('product_variants' as any)
-        .select('*')
-        .eq('product_id', product.product_id)
-        .eq('is_active', true);
-
-      if (error) throw error;
-
-      const formattedVariants: ProductVariant[] = (data || []).map((variant: any) => ({
-        id: variant.id,
-        type: variant.variant_type as 'color' | 'size' | 'style',
-        name: variant.variant_name,
-        value: variant.variant_value,
-        priceAdjustment: variant.price_adjustment || 0,
-        stockQuantity: variant.stock_quantity || 0,
-        isActive: variant.is_active
-      }));
-
-      setVariants(formattedVariants);
+      const result = await fetchProductVariants(product.product_id);
+      setOptions(result.options);
+      setVariants(result.variants.filter(variant => variant.is_active));
     } catch (error) {
       console.error('Error loading variants:', error);
     } finally {
@@ -128,34 +119,42 @@ export function PublicProductModal({
     }
   };
 
-  const handleVariantChange = (type: string, value: string, _priceAdjustment: number) => {
-    setSelectedVariants(prev => ({
-      ...prev,
-      [type]: value
-    }));
-
-    // Recalculate total variant adjustments
-    const newVariants = { ...selectedVariants, [type]: value };
-    let totalAdjustment = 0;
-    Object.entries(newVariants).forEach(([variantType, variantValue]) => {
-      const variant = variants.find(v => v.type === variantType && v.value === variantValue);
-      if (variant) {
-        totalAdjustment += variant.priceAdjustment;
-      }
+  const selectedVariant = product.has_variants ? findVariantByOptions(variants, selectedOptions) : undefined;
+  const unitPrice = selectedVariant ? selectedVariant.price : product.price;
+  const availableStock = product.has_variants ? selectedVariant?.stock_quantity ?? 0 : product.stock_quantity;
+  const lowestVariantPrice = variants.length > 0 ? Math.min(...variants.map(variant => variant.price)) : product.price;
+
+  const handleOptionChange = (name: string, value: string) => {
+    // Choices below the changed option are dropped when no in-stock variant still has them
+    const index = options.findIndex(option => option.name === name);
+    const next: VariantOptions = {};
+    options.forEach((option, i) => {
+      const chosen = option.name === name ? value : selectedOptions[option.name];
+      if (!chosen) return;
+      const candidate = { ...next, [option.name]: chosen };
+      const reachable = i <= index || variants.some(variant =>
+        variant.stock_quantity > 0 &&
+        Object.entries(candidate).every(([key, val]) => variant.options[key] === val)
+      );
+      if (reachable) next[option.name] = chosen;
     });
-    setVariantAdjustments(totalAdjustment);
+    setSelectedOptions(next);
+    setQuantity(1);
   };
 
   const handleAddToCart = () => {
+    if (product.has_variants && !selectedVariant) return;
+
     addToCart(
       product.product_id,
       product.product_name,
-      product.price,
-      product.stock_quantity,
-      selectedVariants,
-      variantAdjustments,
+      unitPrice,
+      availableStock,
+      selectedVariant ? selectedOptions : {},
+      0,
       product.image_url,
-      quantity
+      quantity,
+      selectedVariant ? { id: selectedVariant.id, name: selectedVariant.name } : undefined
     );
 
     // Close modal after adding to cart
@@ -293,14 +292,12 @@ export function PublicProductModal({
             {/* Price */}
             {product.show_price_publicly && (
               <div className="flex items-baseline gap-2">
+                {product.has_variants && !selectedVariant && (
+                  <div className="text-xs text-muted-foreground">From</div>
+                )}
                 <div className="text-2xl font-bold" style={{ color: themeColors.primary }}>
-                  {formatPrice(product.price + variantAdjustments)}
+                  {formatPrice(product.has_variants && !selectedVariant ? lowestVariantPrice : unitPrice)}
                 </div>
-                {variantAdjustments !== 0 && (
-                  <div className="text-xs text-muted-foreground">
-                    Base: {formatPrice(product.price)}
-                  </div>
-                )}
               </div>
             )}
 
@@ -315,28 +312,34 @@ export function PublicProductModal({
             )}
 
             {/* Variants */}
-            {variants.length > 0 && (
+            {product.has_variants && (
               <div className="space-y-3">
                 <h3 className="font-semibold text-lg">Options</h3>
-                <ProductVariantSelector
-                  variants={variants}
-                  selectedVariants={selectedVariants}
-                  onVariantChange={handleVariantChange}
-                  basePrice={product.price}
-                  storeCurrency={storeCurrency}
-                  themeColors={themeColors}
-                />
+                {isLoadingVariants ? (
+                  <p className="text-sm text-muted-foreground">Loading options...</p>
+                ) : (
+                  <ProductVariantSelector
+                    options={options}
+                    variants={variants}
+                    selectedOptions={selectedOptions}
+                    onOptionChange={handleOptionChange}
+                    storeCurrency={storeCurrency}
+                    showPrice={product.show_price_publicly}
+                    showStock={product.show_stock_publicly}
+                    themeColors={themeColors}
+                  />
+                )}
               </div>
             )}
 
             {/* Quantity Selector */}
-            {product.stock_quantity > 0 && (
+            {availableStock > 0 && (
               <div className="space-y-2">
                 <div className="flex items-center justify-between">
                   <Label htmlFor="quantity" className="font-medium text-sm">Quantity</Label>
                   {product.show_stock_publicly && (
                     <span className="text-xs text-muted-foreground">
-                      {product.stock_quantity} available
+                      {availableStock} available
                     </span>
                   )}
                 </div>
@@ -355,19 +358,19 @@ export function PublicProductModal({
                     id="quantity"
                     type="number"
                     min="1"
-                    max={product.stock_quantity}
+                    max={availableStock}
                     value={quantity}
-                    onChange={(e) => setQuantity(Math.min(product.stock_quantity, Math.max(1, parseInt(e.target.value) || 1)))}
+                    onChange={(e) => setQuantity(Math.min(availableStock, Math.max(1, parseInt(e.target.value) || 1)))}
                     className="w-14 text-center text-sm h-8"
                   />
 
                   <Button
                     variant="outline"
                     size="sm"
-                    onClick={() => setQuantity(Math.min(product.stock_quantity, quantity + 1))}
-                    disabled={quantity >= product.stock_quantity}
+                    onClick={() => setQuantity(Math.min(availableStock, quantity + 1))}
+                    disabled={quantity >= availableStock}
                     style={
-                      quantity < product.stock_quantity
+                      quantity < availableStock
                         ? { borderColor: themeColors.primary, color: themeColors.primary }
                         : {}
                     }
@@ -379,14 +382,15 @@ export function PublicProductModal({
             )}
 
             {/* Add to Cart Button */}
-            {product.stock_quantity > 0 && (
+            {(availableStock > 0 || (product.has_variants && !selectedVariant && product.stock_quantity > 0)) && (
               <Button
                 className="w-full"
                 onClick={handleAddToCart}
+                disabled={product.has_variants && !selectedVariant}
                 style={{ backgroundColor: themeColors.primary }}
               >
                 <ShoppingCart className="mr-2 h-4 w-4" />
-                Add to Cart
+                {product.has_variants && !selectedVariant ? 'Select options' : 'Add to Cart'}
               </Button>
             )}
 
@@ -119,6 +119,12 @@ export function PublicStoreShowcase() {
       return;
     }
 
+    // Products with variants need an option picked in the product modal first
+    if (product.has_variants) {
+      selectProduct(product);
+      return;
+    }
+
     addToCart(
       product.product_id,
       product.product_name,
@@ -10,6 +10,7 @@ import { ExternalLink, Settings, Package, Search, Filter } from "lucide-react";
 import { useCurrentStore } from "@/stores/storeStore";
 import { supabase } from "@/integrations/supabase/client";
 import { toast } from "sonner";
+import { notifyPlanLimit } from "@/lib/planLimits";
 import { formatCurrency } from "@/lib/taxUtils";
 import { generateShowcaseUrl } from "@/lib/showcase-utils";
 import {
@@ -217,7 +218,9 @@ export function ShowcaseManagementView() {
       toast.success(isPublic ? 'Product added to showcase' : 'Product removed from showcase');
     } catch (error) {
       console.error('Error updating product:', error);
-      toast.error('Failed to update product');
+      if (!notifyPlanLimit(error)) {
+        toast.error('Failed to update product');
+      }
     }
   };
 
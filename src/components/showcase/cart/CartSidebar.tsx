@@ -1,4 +1,4 @@
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
 import { Sheet, SheetContent, SheetHeader, SheetTitle } from '@/components/ui/sheet';
 import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
@@ -6,8 +6,9 @@ import { ScrollArea } from '@/components/ui/scroll-area';
 import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Separator } from '@/components/ui/separator';
-import { ShoppingCart, X, Package, User, Phone, ArrowLeft } from 'lucide-react';
+import { ShoppingCart, X, Package, User, Phone, ArrowLeft, Ticket, Loader2, CreditCard, MessageCircle, Gift } from 'lucide-react';
 import { useShowcaseCartStore } from '@/stores/showcaseCartStore';
+import { maskGiftCardCode } from '@/lib/giftCards';
 import { CartItem } from './CartItem';
 import { CartSummary } from './CartSummary';
 import { toast } from 'sonner';
@@ -35,6 +36,9 @@ export function CartSidebar({
   const [customerName, setCustomerName] = useState('');
   const [customerPhone, setCustomerPhone] = useState('');
   const [customerErrors, setCustomerErrors] = useState<{name?: string; phone?: string}>({});
+  const [discountCodeInput, setDiscountCodeInput] = useState('');
+  const [giftCardInput, setGiftCardInput] = useState('');
+  const [payOnline, setPayOnline] = useState(true);
   
   const {
     items,
@@ -47,11 +51,50 @@ export function CartSidebar({
     getItemCount,
     createOrder,
     getWhatsAppMessage,
-    getWhatsAppLink
+    getWhatsAppLink,
+    codeDiscount,
+    isApplyingDiscountCode,
+    loadPromotions,
+    applyDiscountCode,
+    removeDiscountCode,
+    giftCard,
+    isApplyingGiftCard,
+    applyGiftCard,
+    removeGiftCard,
+    onlinePayments,
+    isStartingPayment,
+    loadPaymentOptions,
+    startOnlinePayment
   } = useShowcaseCartStore();
 
+  useEffect(() => {
+    if (storeIdentifier) {
+      loadPromotions(storeIdentifier);
+      loadPaymentOptions(storeIdentifier);
+    }
+  }, [storeIdentifier, loadPromotions, loadPaymentOptions]);
+
+  const hasStoreContact = !!(whatsappNumber || storePhone);
+
+  const handleApplyDiscountCode = async () => {
+    const applied = await applyDiscountCode(storeIdentifier, discountCodeInput);
+    if (applied) {
+      setDiscountCodeInput('');
+    }
+  };
+
+  const handleApplyGiftCard = async () => {
+    const applied = await applyGiftCard(storeIdentifier, giftCardInput);
+    if (applied) {
+      setGiftCardInput('');
+    }
+  };
+
   const cartSummary = getCartSummary();
   const itemCount = getItemCount();
+  const giftCardAmount = giftCard ? Math.min(giftCard.balance, cartSummary.total) : 0;
+  // A gift card that covers the whole order leaves nothing to pay online
+  const paysOnline = onlinePayments && payOnline && cartSummary.total - giftCardAmount > 0;
 
   const validateCustomerInfo = () => {
     const errors: {name?: string; phone?: string} = {};
@@ -89,6 +132,17 @@ export function CartSidebar({
         phone: customerPhone.trim()
       });
 
+      if (orderResult && paysOnline && orderResult.amountDue > 0) {
+        setCustomerName('');
+        setCustomerPhone('');
+        setShowCheckout(false);
+
+        // The order already holds its stock; if the checkout cannot open, the store
+        // still gets the order and collects payment when confirming it
+        await startOnlinePayment(orderResult.orderCode);
+        return;
+      }
+
       if (orderResult) {
         // Show success notification
         toast.success(`Order #${orderResult.orderNumber} created successfully!`, {
@@ -234,6 +288,73 @@ export function CartSidebar({
                     )}
                   </div>
 
+                  {/* Gift Card */}
+                  <div className="space-y-2">
+                    <Label>Gift Card</Label>
+                    {giftCard ? (
+                      <div className="flex items-center justify-between rounded-md border border-dashed px-3 py-2 text-sm">
+                        <span className="flex items-center gap-2">
+                          <Gift className="w-4 h-4" style={{ color: themeColors.primary }} />
+                          <span className="font-mono">{maskGiftCardCode(giftCard.code)}</span>
+                        </span>
+                        <Button variant="ghost" size="sm" onClick={removeGiftCard} className="h-6 w-6 p-0">
+                          <X className="w-3 h-3" />
+                        </Button>
+                      </div>
+                    ) : (
+                      <form
+                        className="flex gap-2"
+                        onSubmit={(e) => {
+                          e.preventDefault();
+                          handleApplyGiftCard();
+                        }}
+                      >
+                        <Input
+                          value={giftCardInput}
+                          onChange={(e) => setGiftCardInput(e.target.value.toUpperCase())}
+                          placeholder="Gift card code"
+                          className="font-mono"
+                        />
+                        <Button
+                          type="submit"
+                          variant="outline"
+                          disabled={!giftCardInput.trim() || isApplyingGiftCard}
+                        >
+                          {isApplyingGiftCard ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+                        </Button>
+                      </form>
+                    )}
+                  </div>
+
+                  {onlinePayments && giftCardAmount < cartSummary.total && (
+                    <div className="space-y-2">
+                      <Label>Payment</Label>
+                      <div className="grid grid-cols-2 gap-2">
+                        <button
+                          type="button"
+                          onClick={() => setPayOnline(true)}
+                          className={`rounded-lg border p-3 text-left text-sm transition-colors ${payOnline ? 'border-2' : 'text-muted-foreground'}`}
+                          style={payOnline ? { borderColor: themeColors.primary } : undefined}
+                        >
+                          <CreditCard className="w-4 h-4 mb-1" />
+                          <span className="block font-medium">Pay now</span>
+                          <span className="block text-xs">Mobile money or card</span>
+                        </button>
+                        <button
+                          type="button"
+                          onClick={() => setPayOnline(false)}
+                          disabled={!hasStoreContact}
+                          className={`rounded-lg border p-3 text-left text-sm transition-colors disabled:opacity-50 ${!payOnline ? 'border-2' : 'text-muted-foreground'}`}
+                          style={!payOnline ? { borderColor: themeColors.primary } : undefined}
+                        >
+                          <MessageCircle className="w-4 h-4 mb-1" />
+                          <span className="block font-medium">Pay the store</span>
+                          <span className="block text-xs">Arrange on WhatsApp</span>
+                        </button>
+                      </div>
+                    </div>
+                  )}
+
                   <Separator />
 
                   {/* Order Summary */}
@@ -242,6 +363,7 @@ export function CartSidebar({
                     <CartSummary
                       summary={cartSummary}
                       storeCurrency={storeCurrency}
+                      giftCardAmount={giftCardAmount}
                     />
                   </div>
                 </div>
@@ -253,12 +375,16 @@ export function CartSidebar({
                   onClick={handleCreateOrder}
                   className="w-full"
                   style={{ backgroundColor: themeColors.primary }}
-                  disabled={isCreatingOrder || !whatsappNumber && !storePhone}
+                  disabled={isCreatingOrder || isStartingPayment || !paysOnline && !hasStoreContact}
                 >
-                  {isCreatingOrder ? 'Creating Order...' : 'Complete Order'}
+                  {isCreatingOrder
+                    ? 'Creating Order...'
+                    : isStartingPayment
+                      ? 'Opening Payment...'
+                      : paysOnline ? 'Place Order & Pay' : 'Complete Order'}
                 </Button>
 
-                {(!whatsappNumber && !storePhone) && (
+                {!paysOnline && !hasStoreContact && (
                   <p className="text-xs text-muted-foreground text-center mt-2">
                     Store contact information not available
                   </p>
@@ -283,6 +409,43 @@ export function CartSidebar({
               </ScrollArea>
 
               <div className="p-6 pt-4 border-t">
+                {/* Discount Code */}
+                <div className="mb-4">
+                  {codeDiscount ? (
+                    <div className="flex items-center justify-between rounded-md border border-dashed px-3 py-2 text-sm">
+                      <span className="flex items-center gap-2">
+                        <Ticket className="w-4 h-4" style={{ color: themeColors.primary }} />
+                        <span className="font-mono">{codeDiscount.code}</span>
+                      </span>
+                      <Button variant="ghost" size="sm" onClick={removeDiscountCode} className="h-6 w-6 p-0">
+                        <X className="w-3 h-3" />
+                      </Button>
+                    </div>
+                  ) : (
+                    <form
+                      className="flex gap-2"
+                      onSubmit={(e) => {
+                        e.preventDefault();
+                        handleApplyDiscountCode();
+                      }}
+                    >
+                      <Input
+                        value={discountCodeInput}
+                        onChange={(e) => setDiscountCodeInput(e.target.value.toUpperCase())}
+                        placeholder="Discount code"
+                        className="font-mono"
+                      />
+                      <Button
+                        type="submit"
+                        variant="outline"
+                        disabled={!discountCodeInput.trim() || isApplyingDiscountCode}
+                      >
+                        {isApplyingDiscountCode ? <Loader2 className="w-4 h-4 animate-spin" /> : 'Apply'}
+                      </Button>
+                    </form>
+                  )}
+                </div>
+
                 {/* Cart Summary */}
                 <CartSummary
                   summary={cartSummary}
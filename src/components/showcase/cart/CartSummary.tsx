@@ -8,13 +8,16 @@ interface CartSummaryProps {
   storeCurrency: string;
   className?: string;
   showItemCount?: boolean;
+  // Taken off the total when the order is placed
+  giftCardAmount?: number;
 }
 
 export function CartSummary({ 
   summary, 
   storeCurrency, 
   className,
-  showItemCount = true 
+  showItemCount = true,
+  giftCardAmount = 0
 }: CartSummaryProps) {
   const formatPrice = (price: number) => {
     return formatCurrency(price, storeCurrency);
@@ -34,6 +37,13 @@ export function CartSummary({
         <span>{formatPrice(summary.subtotal)}</span>
       </div>
       
+      {summary.discounts.map((discount) => (
+        <div key={discount.discountId} className="flex justify-between text-sm text-green-600">
+          <span>{discount.name}{discount.code ? ` (${discount.code})` : ''}</span>
+          <span>-{formatPrice(discount.amount)}</span>
+        </div>
+      ))}
+      
       {summary.taxAmount > 0 && (
         <div className="flex justify-between text-sm text-muted-foreground">
           <span>Tax</span>
@@ -47,6 +57,19 @@ export function CartSummary({
         <span>Total</span>
         <span>{formatPrice(summary.total)}</span>
       </div>
+
+      {giftCardAmount > 0 && (
+        <>
+          <div className="flex justify-between text-sm text-green-600">
+            <span>Gift card</span>
+            <span>-{formatPrice(giftCardAmount)}</span>
+          </div>
+          <div className="flex justify-between font-medium">
+            <span>Amount due</span>
+            <span>{formatPrice(Math.max(0, summary.total - giftCardAmount))}</span>
+          </div>
+        </>
+      )}
     </div>
   );
 }
@@ -44,7 +44,7 @@ export function CheckoutForm({
   themeColors
 }: CheckoutFormProps) {
   const [orderResult, setOrderResult] = useState<OrderResult | null>(null);
-  const { setCustomerInfo } = useShowcaseCartStore();
+  const { setCustomerInfo, giftCard } = useShowcaseCartStore();
 
   const {
     register,
@@ -147,6 +147,7 @@ export function CheckoutForm({
               summary={cartSummary}
               storeCurrency={storeCurrency}
               showItemCount={true}
+              giftCardAmount={giftCard ? Math.min(giftCard.balance, cartSummary.total) : 0}
             />
           </div>
         </form>
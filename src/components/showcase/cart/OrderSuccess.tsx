@@ -3,11 +3,12 @@ import { Button } from '@/components/ui/button';
 import { Badge } from '@/components/ui/badge';
 import { Card, CardContent } from '@/components/ui/card';
 import { Separator } from '@/components/ui/separator';
-import { CheckCircle, MessageCircle, Copy, Phone, Timer, X, ShoppingBag } from 'lucide-react';
-import { OrderResult } from '@/stores/showcaseCartStore';
+import { CheckCircle, MessageCircle, Copy, Phone, Timer, X, ShoppingBag, MapPin, CreditCard } from 'lucide-react';
+import { OrderResult, useShowcaseCartStore } from '@/stores/showcaseCartStore';
 import { formatCurrency } from '@/lib/taxUtils';
 import { toast } from 'sonner';
 import { useWhatsAppRedirect } from '@/hooks/useWhatsAppRedirect';
+import { publicOrderTrackingUrl } from '@/lib/publicOrders';
 
 interface OrderSuccessProps {
   orderResult: OrderResult;
@@ -28,21 +29,16 @@ export function OrderSuccess({
   themeColors
 }: OrderSuccessProps) {
   const [copied, setCopied] = useState(false);
+  const { onlinePayments, isStartingPayment, startOnlinePayment, getWhatsAppMessage } = useShowcaseCartStore();
 
-  const getWhatsAppMessage = () => {
-    return `Hi! I've placed an order on your showcase:
+  // Nothing left to pay online once a gift card covered the order
+  const canPayOnline = onlinePayments && orderResult.amountDue > 0;
 
-Order Code: ${orderResult.orderCode}
-Total: ${formatPrice(orderResult.total)}
-
-Please confirm my order. Thank you!`;
-  };
-
-  // Auto-redirect to WhatsApp
+  // Auto-redirect to WhatsApp, unless the shopper can pay online instead
   const { countdown, redirected, redirectNow, cancelRedirect, progress } = useWhatsAppRedirect({
     whatsappNumber: orderResult.whatsappNumber,
-    message: getWhatsAppMessage(),
-    enabled: !!orderResult.whatsappNumber,
+    message: getWhatsAppMessage(orderResult),
+    enabled: !!orderResult.whatsappNumber && !canPayOnline,
     delay: 3,
   });
 
@@ -126,7 +122,14 @@ Please confirm my order. Thank you!`;
               <span>Subtotal:</span>
               <span>{formatPrice(orderResult.subtotal)}</span>
             </div>
-            
+
+            {orderResult.discountAmount > 0 && (
+              <div className="flex justify-between text-green-600">
+                <span>Discount:</span>
+                <span>-{formatPrice(orderResult.discountAmount)}</span>
+              </div>
+            )}
+
             {orderResult.taxAmount > 0 && (
               <div className="flex justify-between text-gray-600">
                 <span>Tax:</span>
@@ -142,6 +145,19 @@ Please confirm my order. Thank you!`;
                 {formatPrice(orderResult.total)}
               </span>
             </div>
+
+            {orderResult.giftCardAmount > 0 && (
+              <>
+                <div className="flex justify-between text-green-600">
+                  <span>Gift card:</span>
+                  <span>-{formatPrice(orderResult.giftCardAmount)}</span>
+                </div>
+                <div className="flex justify-between font-semibold">
+                  <span>Amount due:</span>
+                  <span>{formatPrice(orderResult.amountDue)}</span>
+                </div>
+              </>
+            )}
           </div>
         </CardContent>
       </Card>
@@ -150,6 +166,9 @@ Please confirm my order. Thank you!`;
       <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6">
         <div className="text-sm text-blue-800">
           <strong>Important:</strong> Save your order code! The store owner will use this code to find and confirm your order.
+          {orderResult.reservedUntil && (
+            <> Your items are held until {new Date(orderResult.reservedUntil).toLocaleString()}.</>
+          )}
         </div>
       </div>
 
@@ -206,6 +225,18 @@ Please confirm my order. Thank you!`;
 
       {/* Contact Actions */}
       <div className="space-y-3 mb-6">
+        {canPayOnline && (
+          <Button
+            onClick={() => startOnlinePayment(orderResult.orderCode)}
+            disabled={isStartingPayment}
+            className="w-full"
+            style={{ backgroundColor: themeColors.primary }}
+          >
+            <CreditCard className="w-4 h-4 mr-2" />
+            {isStartingPayment ? 'Opening Payment...' : `Pay ${formatPrice(orderResult.amountDue)} Now`}
+          </Button>
+        )}
+
         {orderResult.whatsappNumber && (
           <Button
             onClick={redirectNow}
@@ -216,6 +247,17 @@ Please confirm my order. Thank you!`;
           </Button>
         )}
 
+        <Button
+          asChild
+          variant="outline"
+          className="w-full"
+        >
+          <a href={publicOrderTrackingUrl(orderResult.orderCode)} target="_blank" rel="noopener noreferrer">
+            <MapPin className="w-4 h-4 mr-2" />
+            Track Order
+          </a>
+        </Button>
+
         {orderResult.storePhone && (
           <Button
             asChild
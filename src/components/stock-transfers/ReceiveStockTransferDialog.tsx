@@ -0,0 +1,211 @@
+import { useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2 } from "lucide-react";
+import { toast } from "sonner";
+import {
+  useStockTransferStore,
+  DISCREPANCY_RESOLUTION_LABELS,
+  type DiscrepancyResolution,
+  type StockTransferDetails,
+} from "@/stores/stockTransferStore";
+
+interface ReceiveStockTransferDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  details: StockTransferDetails | null;
+  sourceStoreName: string;
+  onReceived: () => void;
+}
+
+interface ReceiveLineDraft {
+  item_id: string;
+  quantity: string;
+  resolution: DiscrepancyResolution;
+  reason: string;
+}
+
+export function ReceiveStockTransferDialog({
+  open,
+  onOpenChange,
+  details,
+  sourceStoreName,
+  onReceived,
+}: ReceiveStockTransferDialogProps) {
+  const receiveTransfer = useStockTransferStore(state => state.receiveTransfer);
+  const [lines, setLines] = useState<ReceiveLineDraft[]>([]);
+  const [notes, setNotes] = useState('');
+  const [submitting, setSubmitting] = useState(false);
+
+  useEffect(() => {
+    if (open && details) {
+      setLines(details.items.map(item => ({
+        item_id: item.id,
+        quantity: String(item.quantity),
+        resolution: 'written_off',
+        reason: '',
+      })));
+      setNotes('');
+    }
+  }, [open, details]);
+
+  const updateLine = <K extends keyof ReceiveLineDraft>(itemId: string, field: K, value: ReceiveLineDraft[K]) => {
+    setLines(current => current.map(line => line.item_id === itemId ? { ...line, [field]: value } : line));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!details) return;
+
+    const items = [];
+    for (const line of lines) {
+      const item = details.items.find(i => i.id === line.item_id);
+      if (!item) continue;
+
+      const quantity = Number(line.quantity || 0);
+      if (!Number.isInteger(quantity) || quantity < 0) {
+        toast.error(`Quantity for ${item.product_name} must be a whole number`);
+        return;
+      }
+      if (quantity > item.quantity) {
+        toast.error(`Only ${item.quantity} of ${item.product_name} were sent`);
+        return;
+      }
+
+      const short = quantity < item.quantity;
+      items.push({
+        item_id: item.id,
+        quantity_received: quantity,
+        resolution: short ? line.resolution : undefined,
+        reason: short ? line.reason.trim() : undefined,
+      });
+    }
+
+    setSubmitting(true);
+    const received = await receiveTransfer(details.transfer, items, notes);
+    setSubmitting(false);
+
+    if (received) {
+      onOpenChange(false);
+      onReceived();
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Receive Transfer{details ? ` - ${details.transfer.transfer_number}` : ''}</DialogTitle>
+          <DialogDescription>
+            Count what arrived from {sourceStoreName}. For anything short, choose whether it goes back
+            into {sourceStoreName}'s stock or is written off as lost in transit.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="overflow-x-auto border rounded-lg">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Product</TableHead>
+                  <TableHead className="text-right">Sent</TableHead>
+                  <TableHead className="w-24">Received</TableHead>
+                  <TableHead>Discrepancy</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {(details?.items || []).map((item) => {
+                  const line = lines.find(l => l.item_id === item.id);
+                  const received = Number(line?.quantity || 0);
+                  const short = Number.isInteger(received) && received < item.quantity;
+                  return (
+                    <TableRow key={item.id}>
+                      <TableCell>
+                        <div className="font-medium">{item.product_name}</div>
+                        {item.variant_name && <div className="text-sm">{item.variant_name}</div>}
+                        {item.sku && <div className="text-xs text-muted-foreground">{item.sku}</div>}
+                      </TableCell>
+                      <TableCell className="text-right">{item.quantity}</TableCell>
+                      <TableCell>
+                        <Input
+                          type="number"
+                          min="0"
+                          max={item.quantity}
+                          step="1"
+                          value={line?.quantity ?? ''}
+                          onChange={(e) => updateLine(item.id, 'quantity', e.target.value)}
+                        />
+                      </TableCell>
+                      <TableCell>
+                        {short && line ? (
+                          <div className="space-y-2 min-w-48">
+                            <p className="text-sm text-orange-600">{item.quantity - received} short</p>
+                            <Select
+                              value={line.resolution}
+                              onValueChange={(value) => updateLine(item.id, 'resolution', value as DiscrepancyResolution)}
+                            >
+                              <SelectTrigger>
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {(Object.keys(DISCREPANCY_RESOLUTION_LABELS) as DiscrepancyResolution[]).map((resolution) => (
+                                  <SelectItem key={resolution} value={resolution}>
+                                    {DISCREPANCY_RESOLUTION_LABELS[resolution]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                            <Input
+                              placeholder="Reason, e.g. damaged"
+                              value={line.reason}
+                              onChange={(e) => updateLine(item.id, 'reason', e.target.value)}
+                            />
+                          </div>
+                        ) : (
+                          <span className="text-sm text-muted-foreground">-</span>
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  );
+                })}
+              </TableBody>
+            </Table>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-receive-notes">Notes</Label>
+            <Textarea
+              id="transfer-receive-notes"
+              placeholder="Optional, e.g. condition of the delivery"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={submitting}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={submitting}>
+              {submitting && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Receive Stock
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
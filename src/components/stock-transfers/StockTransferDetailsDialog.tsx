@@ -0,0 +1,256 @@
+import { useCallback, useEffect, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Loader2, Truck, PackageCheck, Edit, XCircle, ArrowRight } from "lucide-react";
+import { useCurrentStore, useStores, useStoreStore } from "@/stores/storeStore";
+import {
+  useStockTransferStore,
+  DISCREPANCY_RESOLUTION_LABELS,
+  type StockTransfer,
+  type StockTransferDetails,
+} from "@/stores/stockTransferStore";
+import { StockTransferStatusBadge } from "./StockTransferStatusBadge";
+import { StockTransferFormDialog } from "./StockTransferFormDialog";
+import { ReceiveStockTransferDialog } from "./ReceiveStockTransferDialog";
+
+interface StockTransferDetailsDialogProps {
+  transfer: StockTransfer | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleString() : '-');
+
+export function StockTransferDetailsDialog({ transfer, onOpenChange, onChanged }: StockTransferDetailsDialogProps) {
+  const currentStore = useCurrentStore();
+  const stores = useStores();
+  const { isOwner, userRole } = useStoreStore();
+  const fetchTransfer = useStockTransferStore(state => state.fetchTransfer);
+  const dispatchTransfer = useStockTransferStore(state => state.dispatchTransfer);
+  const cancelTransfer = useStockTransferStore(state => state.cancelTransfer);
+
+  const canManage = isOwner || userRole === 'manager';
+
+  const [details, setDetails] = useState<StockTransferDetails | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [updating, setUpdating] = useState(false);
+  const [showEditDialog, setShowEditDialog] = useState(false);
+  const [showReceiveDialog, setShowReceiveDialog] = useState(false);
+
+  const loadDetails = useCallback(async (transferId: string) => {
+    setLoading(true);
+    setDetails(await fetchTransfer(transferId));
+    setLoading(false);
+  }, [fetchTransfer]);
+
+  useEffect(() => {
+    if (transfer) {
+      loadDetails(transfer.id);
+    } else {
+      setDetails(null);
+    }
+  }, [transfer, loadDetails]);
+
+  const current = details?.transfer;
+  const storeName = (storeId?: string) => stores.find(store => store.id === storeId)?.name || 'Another store';
+  const fromName = storeName(current?.from_store_id);
+  const toName = storeName(current?.to_store_id);
+  // Dispatching and cancelling happen at the source, receiving at the destination
+  const isSource = current?.from_store_id === currentStore?.id;
+  const isDestination = current?.to_store_id === currentStore?.id;
+
+  const refresh = () => {
+    if (current) loadDetails(current.id);
+    onChanged();
+  };
+
+  const handleDispatch = async () => {
+    if (!current) return;
+    if (!confirm(`Dispatch ${current.transfer_number}? Stock will leave ${fromName} now.`)) return;
+
+    setUpdating(true);
+    const dispatched = await dispatchTransfer(current);
+    setUpdating(false);
+    if (dispatched) refresh();
+  };
+
+  const handleCancel = async () => {
+    if (!current) return;
+
+    const message = current.status === 'in_transit'
+      ? `Cancel ${current.transfer_number}? Everything in transit goes back into ${fromName}'s stock.`
+      : `Cancel ${current.transfer_number}?`;
+    if (!confirm(message)) return;
+
+    setUpdating(true);
+    const cancelled = await cancelTransfer(current);
+    setUpdating(false);
+    if (cancelled) refresh();
+  };
+
+  const destinationLabel = (item: StockTransferDetails['items'][number]) => {
+    if (item.destination_product_id) return <span className="text-sm text-green-600">Matched</span>;
+    if (current?.create_missing_products) return <span className="text-sm text-muted-foreground">Created on receipt</span>;
+    return <span className="text-sm text-destructive">Not stocked in {toName}</span>;
+  };
+
+  return (
+    <>
+      <Dialog open={transfer !== null} onOpenChange={onOpenChange}>
+        <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              {transfer?.transfer_number}
+              {current && <StockTransferStatusBadge transfer={current} />}
+            </DialogTitle>
+            <DialogDescription className="flex items-center gap-2">
+              {fromName}
+              <ArrowRight className="w-4 h-4" />
+              {toName}
+            </DialogDescription>
+          </DialogHeader>
+
+          {loading || !details || !current ? (
+            <div className="flex items-center justify-center py-8">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="grid grid-cols-2 sm:grid-cols-3 gap-3 text-sm">
+                <div>
+                  <p className="text-muted-foreground">Created</p>
+                  <p>{formatDate(current.created_at)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">Dispatched</p>
+                  <p>{formatDate(current.dispatched_at)}</p>
+                </div>
+                <div>
+                  <p className="text-muted-foreground">{current.status === 'cancelled' ? 'Cancelled' : 'Received'}</p>
+                  <p>{formatDate(current.status === 'cancelled' ? current.cancelled_at : current.received_at)}</p>
+                </div>
+              </div>
+
+              <div className="overflow-x-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Product</TableHead>
+                      <TableHead className="text-right">Sent</TableHead>
+                      <TableHead className="text-right">
+                        {current.status === 'in_transit' ? 'In Transit' : 'Received'}
+                      </TableHead>
+                      <TableHead>{current.status === 'received' ? 'Discrepancy' : `In ${toName}`}</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {details.items.map((item) => {
+                      const short = item.quantity_received !== null && item.quantity_received < item.quantity;
+                      return (
+                        <TableRow key={item.id}>
+                          <TableCell>
+                            <div className="font-medium">{item.product_name}</div>
+                            {item.variant_name && <div className="text-sm">{item.variant_name}</div>}
+                            {item.sku && <div className="text-xs text-muted-foreground">{item.sku}</div>}
+                          </TableCell>
+                          <TableCell className="text-right">{item.quantity}</TableCell>
+                          <TableCell className={`text-right ${short ? 'text-orange-600' : ''}`}>
+                            {current.status === 'in_transit' ? item.quantity : item.quantity_received ?? '-'}
+                          </TableCell>
+                          <TableCell>
+                            {current.status === 'received' ? (
+                              short && item.discrepancy_resolution ? (
+                                <div className="text-sm">
+                                  <p>
+                                    {item.quantity - (item.quantity_received ?? 0)} {DISCREPANCY_RESOLUTION_LABELS[item.discrepancy_resolution].toLowerCase()}
+                                  </p>
+                                  {item.discrepancy_reason && (
+                                    <p className="text-xs text-muted-foreground">{item.discrepancy_reason}</p>
+                                  )}
+                                </div>
+                              ) : (
+                                <span className="text-sm text-muted-foreground">-</span>
+                              )
+                            ) : (
+                              destinationLabel(item)
+                            )}
+                          </TableCell>
+                        </TableRow>
+                      );
+                    })}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {current.notes && (
+                <div className="text-sm">
+                  <p className="text-muted-foreground">Notes</p>
+                  <p className="whitespace-pre-wrap">{current.notes}</p>
+                </div>
+              )}
+
+              {current.receive_notes && (
+                <div className="text-sm">
+                  <p className="text-muted-foreground">Receiving Notes</p>
+                  <p className="whitespace-pre-wrap">{current.receive_notes}</p>
+                </div>
+              )}
+            </div>
+          )}
+
+          {details && current && canManage && (
+            <DialogFooter className="flex-wrap gap-2">
+              {isSource && current.status === 'draft' && (
+                <>
+                  <Button variant="outline" onClick={() => setShowEditDialog(true)}>
+                    <Edit className="w-4 h-4 mr-2" />
+                    Edit
+                  </Button>
+                  <Button onClick={handleDispatch} disabled={updating}>
+                    <Truck className="w-4 h-4 mr-2" />
+                    Dispatch
+                  </Button>
+                </>
+              )}
+              {isSource && (current.status === 'draft' || current.status === 'in_transit') && (
+                <Button variant="outline" onClick={handleCancel} disabled={updating}>
+                  <XCircle className="w-4 h-4 mr-2" />
+                  {current.status === 'in_transit' ? 'Recall Transfer' : 'Cancel Transfer'}
+                </Button>
+              )}
+              {isDestination && current.status === 'in_transit' && (
+                <Button onClick={() => setShowReceiveDialog(true)}>
+                  <PackageCheck className="w-4 h-4 mr-2" />
+                  Receive Stock
+                </Button>
+              )}
+            </DialogFooter>
+          )}
+        </DialogContent>
+      </Dialog>
+
+      <StockTransferFormDialog
+        open={showEditDialog}
+        onOpenChange={setShowEditDialog}
+        transfer={details}
+        onSaved={refresh}
+      />
+
+      <ReceiveStockTransferDialog
+        open={showReceiveDialog}
+        onOpenChange={setShowReceiveDialog}
+        details={details}
+        sourceStoreName={fromName}
+        onReceived={refresh}
+      />
+    </>
+  );
+}
@@ -0,0 +1,368 @@
+import { useEffect, useMemo, useState } from "react";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "@/components/ui/dialog";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import { Textarea } from "@/components/ui/textarea";
+import { Loader2, Search, Trash2, Plus } from "lucide-react";
+import { toast } from "sonner";
+import { useCurrentStore, useStores } from "@/stores/storeStore";
+import { useInventoryStore, useProducts } from "@/stores/inventoryStore";
+import {
+  useStockTransferStore,
+  type StockTransfer,
+  type StockTransferDetails,
+} from "@/stores/stockTransferStore";
+
+interface TransferLineDraft {
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity: string;
+}
+
+// Something that can be transferred: a product, or one variant of a product with variants
+interface TransferableItem {
+  key: string;
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  stock_quantity: number;
+}
+
+const lineKey = (line: { product_id: string; variant_id?: string | null }) =>
+  line.variant_id ? `${line.product_id}:${line.variant_id}` : line.product_id;
+
+interface StockTransferFormDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  // Existing draft to edit; omit to create a new transfer from the current store
+  transfer?: StockTransferDetails | null;
+  onSaved?: (transfer: StockTransfer) => void;
+}
+
+const SEARCH_RESULT_LIMIT = 8;
+
+export function StockTransferFormDialog({ open, onOpenChange, transfer, onSaved }: StockTransferFormDialogProps) {
+  const currentStore = useCurrentStore();
+  const stores = useStores();
+  const products = useProducts();
+  const fetchProducts = useInventoryStore(state => state.fetchProducts);
+  const saveTransfer = useStockTransferStore(state => state.saveTransfer);
+
+  const [toStoreId, setToStoreId] = useState('');
+  const [createMissingProducts, setCreateMissingProducts] = useState(false);
+  const [notes, setNotes] = useState('');
+  const [lines, setLines] = useState<TransferLineDraft[]>([]);
+  const [search, setSearch] = useState('');
+  const [saving, setSaving] = useState(false);
+
+  const isEditing = !!transfer;
+
+  // Only stores with the same owner can swap stock
+  const destinationStores = stores.filter(store =>
+    store.id !== currentStore?.id && store.owner_id === currentStore?.owner_id
+  );
+
+  useEffect(() => {
+    if (open && currentStore?.id && products.length === 0) {
+      fetchProducts(currentStore.id);
+    }
+  }, [open, currentStore?.id, products.length, fetchProducts]);
+
+  useEffect(() => {
+    if (!open) return;
+
+    if (transfer) {
+      setToStoreId(transfer.transfer.to_store_id);
+      setCreateMissingProducts(transfer.transfer.create_missing_products);
+      setNotes(transfer.transfer.notes || '');
+      setLines(transfer.items
+        .filter(item => item.product_id)
+        .map(item => ({
+          product_id: item.product_id!,
+          variant_id: item.variant_id,
+          product_name: item.product_name,
+          variant_name: item.variant_name,
+          sku: item.sku,
+          quantity: String(item.quantity),
+        })));
+    } else {
+      setToStoreId('');
+      setCreateMissingProducts(false);
+      setNotes('');
+      setLines([]);
+    }
+    setSearch('');
+  }, [open, transfer]);
+
+  const transferableItems = useMemo<TransferableItem[]>(() =>
+    products.flatMap<TransferableItem>(product => product.has_variants
+      ? (product.product_variants || [])
+          .filter(variant => variant.is_active)
+          .map(variant => ({
+            key: lineKey({ product_id: product.id, variant_id: variant.id }),
+            product_id: product.id,
+            variant_id: variant.id,
+            product_name: product.name,
+            variant_name: variant.name,
+            sku: variant.sku || product.sku || null,
+            stock_quantity: variant.stock_quantity,
+          }))
+      : [{
+          key: product.id,
+          product_id: product.id,
+          variant_id: null,
+          product_name: product.name,
+          variant_name: null,
+          sku: product.sku || null,
+          stock_quantity: product.stock_quantity,
+        }]), [products]);
+
+  const stockByKey = useMemo(
+    () => new Map(transferableItems.map(item => [item.key, item.stock_quantity])),
+    [transferableItems]
+  );
+
+  const searchResults = useMemo(() => {
+    const term = search.trim().toLowerCase();
+    if (!term) return [];
+
+    return transferableItems
+      .filter(item => !lines.some(line => lineKey(line) === item.key))
+      .filter(item =>
+        item.product_name.toLowerCase().includes(term) ||
+        item.variant_name?.toLowerCase().includes(term) ||
+        item.sku?.toLowerCase().includes(term))
+      .slice(0, SEARCH_RESULT_LIMIT);
+  }, [transferableItems, lines, search]);
+
+  const addLine = (item: TransferableItem) => {
+    setLines(current => [...current, {
+      product_id: item.product_id,
+      variant_id: item.variant_id,
+      product_name: item.product_name,
+      variant_name: item.variant_name,
+      sku: item.sku,
+      quantity: '1',
+    }]);
+    setSearch('');
+  };
+
+  const updateQuantity = (key: string, value: string) => {
+    setLines(current => current.map(line => lineKey(line) === key ? { ...line, quantity: value } : line));
+  };
+
+  const removeLine = (key: string) => {
+    setLines(current => current.filter(line => lineKey(line) !== key));
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!currentStore) return;
+
+    if (!toStoreId) {
+      toast.error('Select the store to send stock to');
+      return;
+    }
+    if (lines.length === 0) {
+      toast.error('Add at least one product to the transfer');
+      return;
+    }
+
+    const items = [];
+    for (const line of lines) {
+      const quantity = Number(line.quantity);
+      if (!Number.isInteger(quantity) || quantity <= 0) {
+        toast.error(`Quantity for ${line.product_name} must be a whole number greater than 0`);
+        return;
+      }
+      items.push({ product_id: line.product_id, variant_id: line.variant_id, quantity });
+    }
+
+    setSaving(true);
+    const saved = await saveTransfer(currentStore.id, {
+      id: transfer?.transfer.id,
+      toStoreId,
+      createMissingProducts,
+      notes,
+      items,
+    });
+    setSaving(false);
+
+    if (saved) {
+      onOpenChange(false);
+      onSaved?.(saved);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>
+            {isEditing ? `Edit ${transfer.transfer.transfer_number}` : 'New Stock Transfer'}
+          </DialogTitle>
+          <DialogDescription>
+            Transfers stay in draft until you dispatch them. Stock leaves {currentStore?.name || 'this store'} on dispatch.
+          </DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label>Send To *</Label>
+            <Select value={toStoreId} onValueChange={setToStoreId}>
+              <SelectTrigger>
+                <SelectValue placeholder={destinationStores.length > 0 ? 'Select a store' : 'No other stores to send to'} />
+              </SelectTrigger>
+              <SelectContent>
+                {destinationStores.map((store) => (
+                  <SelectItem key={store.id} value={store.id}>
+                    {store.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-product-search">Products</Label>
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 h-4 w-4 text-muted-foreground" />
+              <Input
+                id="transfer-product-search"
+                placeholder="Search products by name or SKU"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                className="pl-9"
+              />
+            </div>
+            {searchResults.length > 0 && (
+              <div className="border rounded-lg divide-y">
+                {searchResults.map((item) => (
+                  <button
+                    key={item.key}
+                    type="button"
+                    onClick={() => addLine(item)}
+                    className="w-full flex items-center justify-between px-3 py-2 text-sm text-left hover:bg-muted/50"
+                  >
+                    <span>
+                      {item.product_name}
+                      {item.variant_name && <span> ({item.variant_name})</span>}
+                      {item.sku && <span className="text-muted-foreground"> - {item.sku}</span>}
+                    </span>
+                    <span className="flex items-center gap-2 text-muted-foreground">
+                      {item.stock_quantity} in stock
+                      <Plus className="w-4 h-4" />
+                    </span>
+                  </button>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {lines.length > 0 && (
+            <div className="overflow-x-auto border rounded-lg">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Product</TableHead>
+                    <TableHead className="text-right">In Stock</TableHead>
+                    <TableHead className="w-24">Qty</TableHead>
+                    <TableHead className="w-10"></TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {lines.map((line) => {
+                    const inStock = stockByKey.get(lineKey(line)) ?? 0;
+                    const quantity = parseInt(line.quantity) || 0;
+                    return (
+                      <TableRow key={lineKey(line)}>
+                        <TableCell>
+                          <div className="font-medium">{line.product_name}</div>
+                          {line.variant_name && <div className="text-sm">{line.variant_name}</div>}
+                          {line.sku && <div className="text-xs text-muted-foreground">{line.sku}</div>}
+                        </TableCell>
+                        <TableCell className={`text-right ${quantity > inStock ? 'text-destructive' : ''}`}>
+                          {inStock}
+                        </TableCell>
+                        <TableCell>
+                          <Input
+                            type="number"
+                            min="1"
+                            step="1"
+                            value={line.quantity}
+                            onChange={(e) => updateQuantity(lineKey(line), e.target.value)}
+                          />
+                        </TableCell>
+                        <TableCell>
+                          <Button
+                            type="button"
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => removeLine(lineKey(line))}
+                          >
+                            <Trash2 className="w-4 h-4" />
+                          </Button>
+                        </TableCell>
+                      </TableRow>
+                    );
+                  })}
+                </TableBody>
+              </Table>
+            </div>
+          )}
+
+          <div className="flex items-center justify-between gap-4 border rounded-lg p-3">
+            <div>
+              <Label htmlFor="transfer-create-missing">Create missing products</Label>
+              <p className="text-sm text-muted-foreground">
+                Products are matched by SKU. When the destination doesn't stock one yet, copy it there on receipt instead of blocking the transfer.
+              </p>
+            </div>
+            <Switch
+              id="transfer-create-missing"
+              checked={createMissingProducts}
+              onCheckedChange={setCreateMissingProducts}
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="transfer-notes">Notes</Label>
+            <Textarea
+              id="transfer-notes"
+              placeholder="Optional, e.g. who is carrying the stock"
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)} disabled={saving}>
+              Cancel
+            </Button>
+            <Button type="submit" disabled={saving}>
+              {saving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              {isEditing ? 'Save Changes' : 'Create Draft'}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+}
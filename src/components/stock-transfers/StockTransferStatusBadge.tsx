@@ -0,0 +1,22 @@
+import { Badge } from "@/components/ui/badge";
+import {
+  STOCK_TRANSFER_STATUS_LABELS,
+  type StockTransfer,
+  type StockTransferStatus,
+} from "@/stores/stockTransferStore";
+
+const STATUS_VARIANTS: Record<StockTransferStatus, "default" | "secondary" | "outline" | "destructive"> = {
+  draft: "outline",
+  in_transit: "default",
+  received: "secondary",
+  cancelled: "secondary",
+};
+
+export function StockTransferStatusBadge({ transfer }: { transfer: StockTransfer }) {
+  return (
+    <span className="inline-flex items-center gap-1">
+      <Badge variant={STATUS_VARIANTS[transfer.status]}>{STOCK_TRANSFER_STATUS_LABELS[transfer.status]}</Badge>
+      {transfer.has_discrepancy && <Badge variant="destructive">Discrepancy</Badge>}
+    </span>
+  );
+}
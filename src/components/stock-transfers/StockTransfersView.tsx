@@ -0,0 +1,253 @@
+import { useEffect, useMemo, useState } from "react";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select";
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table";
+import { ArrowDownLeft, ArrowUpRight, Truck, Plus, Search, Loader2 } from "lucide-react";
+import { useNavigate } from "react-router-dom";
+import { useCurrentStore, useStores, useStoreStore } from "@/stores/storeStore";
+import {
+  useStockTransferStore,
+  useStockTransfers,
+  STOCK_TRANSFER_STATUS_LABELS,
+  type StockTransfer,
+  type StockTransferStatus,
+} from "@/stores/stockTransferStore";
+import { StockTransferStatusBadge } from "./StockTransferStatusBadge";
+import { StockTransferFormDialog } from "./StockTransferFormDialog";
+import { StockTransferDetailsDialog } from "./StockTransferDetailsDialog";
+
+interface StockTransfersViewProps {
+  onClose?: () => void;
+}
+
+type DirectionFilter = 'all' | 'outgoing' | 'incoming';
+type StatusFilter = 'open' | 'all' | StockTransferStatus;
+
+const isOpenTransfer = (transfer: StockTransfer) =>
+  transfer.status === 'draft' || transfer.status === 'in_transit';
+
+export function StockTransfersView({ onClose }: StockTransfersViewProps) {
+  const currentStore = useCurrentStore();
+  const stores = useStores();
+  const navigate = useNavigate();
+  const { isOwner, userRole } = useStoreStore();
+  const transfers = useStockTransfers();
+  const loading = useStockTransferStore(state => state.loading);
+  const fetchTransfers = useStockTransferStore(state => state.fetchTransfers);
+
+  const canManage = isOwner || userRole === 'manager';
+  const hasOtherStores = stores.some(store =>
+    store.id !== currentStore?.id && store.owner_id === currentStore?.owner_id
+  );
+
+  const [directionFilter, setDirectionFilter] = useState<DirectionFilter>('all');
+  const [statusFilter, setStatusFilter] = useState<StatusFilter>('open');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [showCreateDialog, setShowCreateDialog] = useState(false);
+  const [selectedTransfer, setSelectedTransfer] = useState<StockTransfer | null>(null);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      fetchTransfers(currentStore.id);
+    }
+  }, [currentStore?.id, fetchTransfers]);
+
+  const storeName = (storeId: string) => stores.find(store => store.id === storeId)?.name || 'Another store';
+  const isOutgoing = (transfer: StockTransfer) => transfer.from_store_id === currentStore?.id;
+
+  const inTransit = transfers.filter(transfer => transfer.status === 'in_transit');
+  const outgoingInTransit = inTransit.filter(isOutgoing);
+  const incomingInTransit = inTransit.filter(transfer => !isOutgoing(transfer));
+  const drafts = transfers.filter(transfer => transfer.status === 'draft' && isOutgoing(transfer));
+
+  const filteredTransfers = useMemo(() => {
+    const term = searchTerm.trim().toLowerCase();
+    return transfers.filter(transfer => {
+      const outgoing = transfer.from_store_id === currentStore?.id;
+      if (directionFilter === 'outgoing' && !outgoing) return false;
+      if (directionFilter === 'incoming' && outgoing) return false;
+      if (statusFilter === 'open' && !isOpenTransfer(transfer)) return false;
+      if (!['open', 'all'].includes(statusFilter) && transfer.status !== statusFilter) return false;
+      // The other store only sees a transfer once it is on its way
+      if (!outgoing && transfer.status === 'draft') return false;
+      if (term) {
+        const otherStore = stores.find(store => store.id === (outgoing ? transfer.to_store_id : transfer.from_store_id));
+        if (!transfer.transfer_number.toLowerCase().includes(term) && !otherStore?.name.toLowerCase().includes(term)) {
+          return false;
+        }
+      }
+      return true;
+    });
+  }, [transfers, stores, currentStore?.id, directionFilter, statusFilter, searchTerm]);
+
+  const handleBack = () => {
+    if (onClose) {
+      onClose();
+    } else {
+      navigate('/app/inventory');
+    }
+  };
+
+  const refresh = () => {
+    if (currentStore?.id) fetchTransfers(currentStore.id);
+  };
+
+  return (
+    <div className="p-6 space-y-6">
+      <div className="flex flex-col sm:flex-row sm:items-center justify-between gap-4">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Stock Transfers</h1>
+          <p className="text-muted-foreground mt-2">
+            Move stock between your stores and receive transfers into inventory
+          </p>
+        </div>
+        <div className="flex gap-2">
+          <Button variant="outline" onClick={handleBack}>
+            Back to Inventory
+          </Button>
+          {canManage && hasOtherStores && (
+            <Button className="bg-gradient-primary text-white" onClick={() => setShowCreateDialog(true)}>
+              <Plus className="w-4 h-4 mr-2" />
+              New Transfer
+            </Button>
+          )}
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Incoming In Transit</CardTitle>
+            <ArrowDownLeft className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{incomingInTransit.length}</div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Outgoing In Transit</CardTitle>
+            <ArrowUpRight className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{outgoingInTransit.length}</div>
+          </CardContent>
+        </Card>
+
+        <Card className="card-professional">
+          <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
+            <CardTitle className="text-sm font-medium text-muted-foreground">Drafts to Dispatch</CardTitle>
+            <Truck className="h-4 w-4 text-primary" />
+          </CardHeader>
+          <CardContent>
+            <div className="text-2xl font-bold text-foreground">{drafts.length}</div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {!hasOtherStores && (
+        <Card className="card-professional">
+          <CardContent className="py-6 text-center text-muted-foreground">
+            Transfers move stock between stores you own. Add another store to start transferring stock.
+          </CardContent>
+        </Card>
+      )}
+
+      <div className="flex flex-col md:flex-row gap-3">
+        <div className="relative flex-1">
+          <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-muted-foreground w-4 h-4" />
+          <Input
+            placeholder="Search by transfer number or store..."
+            value={searchTerm}
+            onChange={(e) => setSearchTerm(e.target.value)}
+            className="pl-10"
+          />
+        </div>
+        <Select value={directionFilter} onValueChange={(value) => setDirectionFilter(value as DirectionFilter)}>
+          <SelectTrigger className="w-full md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="all">Incoming and outgoing</SelectItem>
+            <SelectItem value="outgoing">Outgoing</SelectItem>
+            <SelectItem value="incoming">Incoming</SelectItem>
+          </SelectContent>
+        </Select>
+        <Select value={statusFilter} onValueChange={(value) => setStatusFilter(value as StatusFilter)}>
+          <SelectTrigger className="w-full md:w-48">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="open">Open</SelectItem>
+            <SelectItem value="all">All statuses</SelectItem>
+            {(Object.keys(STOCK_TRANSFER_STATUS_LABELS) as StockTransferStatus[]).map((status) => (
+              <SelectItem key={status} value={status}>{STOCK_TRANSFER_STATUS_LABELS[status]}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+      </div>
+
+      <Card className="card-professional">
+        <CardContent className="p-0 overflow-x-auto">
+          {loading && transfers.length === 0 ? (
+            <div className="flex items-center justify-center py-12">
+              <Loader2 className="w-6 h-6 animate-spin text-muted-foreground" />
+            </div>
+          ) : filteredTransfers.length === 0 ? (
+            <div className="py-12 text-center text-muted-foreground">
+              {transfers.length === 0 ? 'No stock transfers yet' : 'No transfers match your filters'}
+            </div>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Transfer</TableHead>
+                  <TableHead>Direction</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Dispatched</TableHead>
+                  <TableHead>Received</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {filteredTransfers.map((transfer) => (
+                  <TableRow
+                    key={transfer.id}
+                    className="cursor-pointer hover:bg-muted/50"
+                    onClick={() => setSelectedTransfer(transfer)}
+                  >
+                    <TableCell className="font-medium">{transfer.transfer_number}</TableCell>
+                    <TableCell>
+                      {isOutgoing(transfer)
+                        ? `To ${storeName(transfer.to_store_id)}`
+                        : `From ${storeName(transfer.from_store_id)}`}
+                    </TableCell>
+                    <TableCell><StockTransferStatusBadge transfer={transfer} /></TableCell>
+                    <TableCell>{new Date(transfer.created_at).toLocaleDateString()}</TableCell>
+                    <TableCell>{transfer.dispatched_at ? new Date(transfer.dispatched_at).toLocaleDateString() : '-'}</TableCell>
+                    <TableCell>{transfer.received_at ? new Date(transfer.received_at).toLocaleDateString() : '-'}</TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          )}
+        </CardContent>
+      </Card>
+
+      <StockTransferFormDialog
+        open={showCreateDialog}
+        onOpenChange={setShowCreateDialog}
+        onSaved={(transfer) => setSelectedTransfer(transfer)}
+      />
+
+      <StockTransferDetailsDialog
+        transfer={selectedTransfer}
+        onOpenChange={(open) => !open && setSelectedTransfer(null)}
+        onChanged={refresh}
+      />
+    </div>
+  );
+}
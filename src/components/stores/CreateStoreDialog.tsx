@@ -8,6 +8,7 @@ import { supabase } from '@/integrations/supabase/client';
 import { useUser } from '@/stores/authStore';
 import { useStoreActions } from '@/stores/storeStore';
 import { toast } from 'sonner';
+import { notifyPlanLimit } from '@/lib/planLimits';
 
 interface CreateStoreDialogProps {
   trigger?: React.ReactNode;
@@ -61,7 +62,9 @@ export function CreateStoreDialog({ trigger, className }: CreateStoreDialogProps
         selectStore(data.id);
       }
     } catch (error) {
-      toast.error('Failed to create store');
+      if (!notifyPlanLimit(error)) {
+        toast.error('Failed to create store');
+      }
       console.error('Error creating store:', error);
     } finally {
       setCreating(false);
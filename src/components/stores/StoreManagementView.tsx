@@ -7,10 +7,11 @@ import { Input } from '@/components/ui/input';
 import { Label } from '@/components/ui/label';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription, DialogTrigger } from '@/components/ui/dialog';
 import { Badge } from '@/components/ui/badge';
-import { Building2, Plus, Users, Crown, UserCheck, Settings, BarChart3, Eye,} from 'lucide-react';
+import { Building2, Plus, Users, Crown, UserCheck, Settings, BarChart3, Eye, ArrowLeftRight } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useUser } from '@/stores/authStore';
 import { toast } from 'sonner';
+import { notifyPlanLimit } from '@/lib/planLimits';
 
 interface StoreStats {
   store_id: string;
@@ -79,7 +80,9 @@ export function StoreManagementView() {
         selectStore(data.id);
       }
     } catch (error) {
-      toast.error('Failed to create store');
+      if (!notifyPlanLimit(error)) {
+        toast.error('Failed to create store');
+      }
       console.error('Error creating store:', error);
     } finally {
       setCreating(false);
@@ -310,6 +313,19 @@ export function StoreManagementView() {
                         <BarChart3 className="w-4 h-4 mr-1" />
                         Reports
                       </Button>
+                      {store.owner_id === user?.id && stores.some(s => s.id !== store.id && s.owner_id === user?.id) && (
+                        <Button
+                          size="sm"
+                          variant="outline"
+                          title="Transfer stock"
+                          onClick={() => {
+                            selectStore(store.id);
+                            window.location.href = '/app/stock-transfers';
+                          }}
+                        >
+                          <ArrowLeftRight className="w-4 h-4" />
+                        </Button>
+                      )}
                       <Button
                         size="sm"
                         variant="outline"
@@ -10,6 +10,7 @@ import { Building2, Plus, Users, Crown, UserCheck,} from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { useUser, useSignOut } from '@/stores/authStore';
 import { toast } from 'sonner';
+import { notifyPlanLimit } from '@/lib/planLimits';
 import { PremiumStoreSelector } from './PremiumStoreSelector';
 
 export function StoreSelector() {
@@ -77,7 +78,9 @@ export function LegacyStoreSelector() {
         selectStore(data.id);
       }
     } catch (error) {
-      toast.error('Failed to create store');
+      if (!notifyPlanLimit(error)) {
+        toast.error('Failed to create store');
+      }
       console.error('Error creating store:', error);
     } finally {
       setCreating(false);
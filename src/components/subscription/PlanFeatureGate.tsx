@@ -0,0 +1,22 @@
+import React from 'react';
+import { useSubscription } from '@/hooks/useSubscription';
+import type { PlanFeature } from '@/lib/planLimits';
+import { UpgradePrompt } from './UpgradePrompt';
+
+interface PlanFeatureGateProps {
+  feature: PlanFeature;
+  children: React.ReactNode;
+}
+
+/**
+ * Renders children only when the current store's plan includes the feature
+ */
+export function PlanFeatureGate({ feature, children }: PlanFeatureGateProps) {
+  const { hasFeature, entitlements } = useSubscription();
+
+  if (!hasFeature(feature)) {
+    return <UpgradePrompt feature={feature} planName={entitlements?.plan_name} className="min-h-[60vh]" />;
+  }
+
+  return <>{children}</>;
+}
@@ -17,6 +17,7 @@ import {
 } from 'lucide-react';
 import { subscriptionService, SubscriptionHistoryItem } from '@/services/subscription';
 import { formatCurrency } from '@/lib/taxUtils';
+import { generateSubscriptionInvoicePdf } from '@/lib/subscriptionInvoicePdf';
 import { toast } from 'sonner';
 import { format } from 'date-fns';
 
@@ -28,6 +29,7 @@ export function SubscriptionHistory({ subscriptionId }: SubscriptionHistoryProps
   const [history, setHistory] = useState<SubscriptionHistoryItem[]>([]);
   const [loading, setLoading] = useState(true);
   const [refreshing, setRefreshing] = useState(false);
+  const [downloadingId, setDownloadingId] = useState<string | null>(null);
 
   useEffect(() => {
     loadHistory();
@@ -60,6 +62,34 @@ export function SubscriptionHistory({ subscriptionId }: SubscriptionHistoryProps
     }
   };
 
+  // Billing cycles are the invoices; a payment's receipt is the invoice it paid
+  const getInvoiceId = (item: SubscriptionHistoryItem): string | null => {
+    if (item.type === 'billing_cycle') {
+      return item.details?.invoice_number ? item.id : null;
+    }
+    if (item.type === 'payment' && item.status === 'completed') {
+      return item.details?.billing_cycle_id || null;
+    }
+    return null;
+  };
+
+  const downloadInvoice = async (item: SubscriptionHistoryItem, billingCycleId: string) => {
+    try {
+      setDownloadingId(item.id);
+      const invoice = await subscriptionService.getInvoice(billingCycleId);
+      if (!invoice) {
+        toast.error('Invoice not found');
+        return;
+      }
+      generateSubscriptionInvoicePdf(invoice).save(`${invoice.invoice_number}.pdf`);
+    } catch (error) {
+      console.error('Error downloading invoice:', error);
+      toast.error('Failed to download invoice');
+    } finally {
+      setDownloadingId(null);
+    }
+  };
+
   const getStatusIcon = (item: SubscriptionHistoryItem) => {
     switch (item.status) {
       case 'completed':
@@ -74,6 +104,9 @@ export function SubscriptionHistory({ subscriptionId }: SubscriptionHistoryProps
         return <Calendar className="w-5 h-5 text-blue-500" />;
       case 'cancelled':
         return <XCircle className="w-5 h-5 text-gray-500" />;
+      case 'refunded':
+      case 'charged_back':
+        return <AlertTriangle className="w-5 h-5 text-red-500" />;
       default:
         return <AlertTriangle className="w-5 h-5 text-gray-500" />;
     }
@@ -82,13 +115,13 @@ export function SubscriptionHistory({ subscriptionId }: SubscriptionHistoryProps
   const getStatusBadge = (item: SubscriptionHistoryItem) => {
     const variant = 
       item.status === 'completed' || item.status === 'paid' ? 'default' :
-      item.status === 'failed' ? 'destructive' :
+      item.status === 'failed' || item.status === 'charged_back' ? 'destructive' :
       item.status === 'pending' || item.status === 'processing' ? 'secondary' :
       'outline';
 
     return (
       <Badge variant={variant} className="capitalize">
-        {item.status}
+        {item.type === 'billing_cycle' && item.status === 'failed' ? 'overdue' : item.status.replace('_', ' ')}
       </Badge>
     );
   };
@@ -189,6 +222,12 @@ export function SubscriptionHistory({ subscriptionId }: SubscriptionHistoryProps
                         {item.description}
                       </p>
                       <div className="flex items-center gap-4 text-xs text-muted-foreground">
+                        {item.details?.invoice_number && (
+                          <span className="flex items-center gap-1">
+                            <Receipt className="w-3 h-3" />
+                            {item.details.invoice_number}
+                          </span>
+                        )}
                         <span className="flex items-center gap-1">
                           <Calendar className="w-3 h-3" />
                           {format(new Date(item.date), 'MMM dd, yyyy HH:mm')}
@@ -199,6 +238,16 @@ export function SubscriptionHistory({ subscriptionId }: SubscriptionHistoryProps
                             {formatAmount(item.amount)}
                           </span>
                         )}
+                        {item.details && item.details.credit_applied > 0 && (
+                          <span>
+                            {formatAmount(item.details.credit_applied)} credit applied
+                          </span>
+                        )}
+                        {item.status === 'failed' && item.details?.next_reminder_at && (
+                          <span>
+                            Next reminder {format(new Date(item.details.next_reminder_at), 'MMM dd')}
+                          </span>
+                        )}
                       </div>
                     </div>
 
@@ -216,16 +265,19 @@ export function SubscriptionHistory({ subscriptionId }: SubscriptionHistoryProps
                           <Eye className="w-4 h-4" />
                         </Button>
                       )}
-                      {item.type === 'payment' && item.status === 'completed' && (
+                      {getInvoiceId(item) && (
                         <Button
                           variant="ghost"
                           size="sm"
-                          onClick={() => {
-                            // TODO: Implement receipt download
-                            toast.info('Receipt download coming soon');
-                          }}
+                          title="Download invoice"
+                          disabled={downloadingId === item.id}
+                          onClick={() => downloadInvoice(item, getInvoiceId(item)!)}
                         >
-                          <Download className="w-4 h-4" />
+                          {downloadingId === item.id ? (
+                            <Loader2 className="w-4 h-4 animate-spin" />
+                          ) : (
+                            <Download className="w-4 h-4" />
+                          )}
                         </Button>
                       )}
                     </div>
@@ -54,23 +54,21 @@ export function SubscriptionPlans({ onPlanSelected, currentPlanId }: Subscriptio
 
       console.log('Processing payment for subscription:', subscription.id);
       // Process payment
-      const checkoutUrl = await subscriptionService.processSubscriptionPayment(
-        subscription.id,
-        user.email || '',
-        user.user_metadata?.full_name || 'Customer'
-      );
+      const checkoutUrl = await subscriptionService.processSubscriptionPayment(subscription.id);
 
       console.log('Payment checkout URL received:', checkoutUrl);
 
-      if (!checkoutUrl) {
-        throw new Error('No checkout URL received from payment processor');
-      }
-
       // Call onPlanSelected before redirect
       if (onPlanSelected) {
         onPlanSelected(planId);
       }
 
+      // Nothing to pay now: a downgrade or a change covered by account credit
+      if (!checkoutUrl) {
+        toast.success('Plan changed. Any unused time has been credited to your account.');
+        return;
+      }
+
       // Redirect to PayChangu checkout
       console.log('Redirecting to checkout URL:', checkoutUrl);
       window.location.href = checkoutUrl;
@@ -79,6 +79,8 @@ export function SubscriptionStatus() {
         return <Badge className="bg-primary/10 text-primary"><CheckCircle className="w-3 h-3 mr-1" />Active</Badge>;
       case 'past_due':
         return <Badge variant="destructive"><AlertTriangle className="w-3 h-3 mr-1" />Past Due</Badge>;
+      case 'suspended':
+        return <Badge variant="destructive"><XCircle className="w-3 h-3 mr-1" />Suspended</Badge>;
       case 'cancelled':
         return <Badge variant="secondary"><XCircle className="w-3 h-3 mr-1" />Cancelled</Badge>;
       case 'expired':
@@ -100,9 +102,21 @@ export function SubscriptionStatus() {
 
     setLoading(true);
     try {
-      // For testing, we'll simulate a successful payment confirmation
-      // by calling the subscription service directly
-      await subscriptionService.confirmPayment(subscription.id, `test_${Date.now()}`);
+      // Check the latest pending payment with PayChangu (or scripts/mock-paychangu.js), for when
+      // webhooks can't reach a development machine
+      const payments = await subscriptionService.getSubscriptionPayments(subscription.id);
+      const pending = payments.find(payment => payment.status === 'pending');
+
+      if (!pending?.paychangu_tx_ref) {
+        toast.info('No pending payment to confirm');
+        return;
+      }
+
+      const paymentStatus = await subscriptionService.confirmPayment(subscription.id, pending.paychangu_tx_ref);
+      if (paymentStatus !== 'completed') {
+        toast.info(`Latest payment is ${paymentStatus}`);
+        return;
+      }
 
       toast.success('Payment confirmed successfully! Subscription is now active.');
 
@@ -326,7 +340,7 @@ export function SubscriptionStatus() {
               )}
             </Button>
             <p className="text-xs text-muted-foreground">
-              This will manually confirm the latest pending payment for testing purposes.
+              This checks the latest pending payment with PayChangu and settles it if it went through.
             </p>
           </CardContent>
         </Card>
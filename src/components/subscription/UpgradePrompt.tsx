@@ -0,0 +1,40 @@
+import { useNavigate } from 'react-router-dom';
+import { Card, CardContent } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { ArrowRight, Lock } from 'lucide-react';
+import { PLAN_FEATURE_LABELS, SUBSCRIPTION_PLANS_PATH, type PlanFeature } from '@/lib/planLimits';
+
+interface UpgradePromptProps {
+  feature?: PlanFeature;
+  reason?: string;
+  planName?: string | null;
+  className?: string;
+}
+
+export function UpgradePrompt({ feature, reason, planName, className = '' }: UpgradePromptProps) {
+  const navigate = useNavigate();
+
+  const title = feature ? `${PLAN_FEATURE_LABELS[feature]} isn't included in your plan` : 'Plan limit reached';
+  const description = reason
+    || `${planName ? `The ${planName} plan` : 'Your current plan'} doesn't include ${feature ? PLAN_FEATURE_LABELS[feature] : 'this feature'}. Upgrade to unlock it.`;
+
+  return (
+    <div className={`flex items-center justify-center p-6 ${className}`}>
+      <Card className="max-w-md w-full">
+        <CardContent className="pt-6 text-center space-y-4">
+          <div className="mx-auto w-12 h-12 rounded-full bg-primary/10 flex items-center justify-center">
+            <Lock className="w-6 h-6 text-primary" />
+          </div>
+          <div className="space-y-1">
+            <h3 className="font-semibold text-foreground">{title}</h3>
+            <p className="text-sm text-muted-foreground">{description}</p>
+          </div>
+          <Button onClick={() => navigate(SUBSCRIPTION_PLANS_PATH)}>
+            View Plans
+            <ArrowRight className="w-4 h-4 ml-2" />
+          </Button>
+        </CardContent>
+      </Card>
+    </div>
+  );
+}
@@ -24,7 +24,8 @@ import {
   BarChart3,
   FileText,
   Clock,
-  LogOut
+  LogOut,
+  Webhook
 } from 'lucide-react';
 import { SystemDashboard } from './SystemDashboard';
 import { SystemAdminAuth, isSystemAdminAuthenticated, clearSystemAdminSession } from './SystemAdminAuth';
@@ -34,6 +35,7 @@ import { StoreManagement } from './StoreManagement';
 import { DatabaseManagement } from './DatabaseManagement';
 import { AnonymousAnalytics } from './AnonymousAnalytics';
 import { PrivacySettings } from './PrivacySettings';
+import { WebhookEventsManagement } from './WebhookEventsManagement';
 import { ModernSystemDashboard } from './ModernSystemDashboard';
 import { useUser } from '@/stores/authStore';
 import { usePermissions } from '@/stores/permissionStore';
@@ -143,7 +145,7 @@ export function SystemManagementView({ onViewChange }: SystemManagementViewProps
       {/* Main Content */}
       <div className="p-6">
         <Tabs value={activeTab} onValueChange={setActiveTab} className="space-y-6">
-          <TabsList className="grid w-full grid-cols-8">
+          <TabsList className="grid w-full grid-cols-9">
             <TabsTrigger value="dashboard" className="flex items-center gap-2">
               <BarChart3 className="w-4 h-4" />
               Dashboard
@@ -164,6 +166,10 @@ export function SystemManagementView({ onViewChange }: SystemManagementViewProps
               <Activity className="w-4 h-4" />
               Analytics
             </TabsTrigger>
+            <TabsTrigger value="webhooks" className="flex items-center gap-2">
+              <Webhook className="w-4 h-4" />
+              Webhooks
+            </TabsTrigger>
             <TabsTrigger value="logs" className="flex items-center gap-2">
               <FileText className="w-4 h-4" />
               Logs
@@ -198,6 +204,10 @@ export function SystemManagementView({ onViewChange }: SystemManagementViewProps
             <AnonymousAnalytics />
           </TabsContent>
 
+          <TabsContent value="webhooks" className="space-y-4">
+            <WebhookEventsManagement />
+          </TabsContent>
+
           <TabsContent value="logs" className="space-y-4">
             <Card>
               <CardHeader>
@@ -0,0 +1,335 @@
+import { useState, useEffect, useCallback } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Badge } from '@/components/ui/badge';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { Dialog, DialogContent, DialogHeader, DialogTitle } from '@/components/ui/dialog';
+import {
+  Webhook,
+  Search,
+  Eye,
+  RefreshCw,
+  RotateCcw,
+  AlertTriangle
+} from 'lucide-react';
+import { supabase } from '@/integrations/supabase/client';
+import type { Tables } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+import { InlineLoading } from '@/components/ui/modern-loading';
+
+type WebhookEvent = Tables<'payment_webhook_events'>;
+
+const EVENT_LIMIT = 100;
+
+const statusColors: Record<string, string> = {
+  received: 'bg-blue-100 text-blue-800',
+  processed: 'bg-green-100 text-green-800',
+  ignored: 'bg-gray-100 text-gray-800',
+  failed: 'bg-red-100 text-red-800',
+};
+
+const targetLabels: Record<string, string> = {
+  showcase_order: 'Showcase order',
+  subscription: 'Subscription',
+  unknown: 'Unknown',
+};
+
+const formatDateTime = (value: string | null) =>
+  value ? new Date(value).toLocaleString() : '—';
+
+// PayChangu webhook deliveries as logged by src/api/webhooks/paychangu.ts. Events are only
+// readable by accounts in platform_admins.
+export function WebhookEventsManagement() {
+  const [events, setEvents] = useState<WebhookEvent[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [refreshing, setRefreshing] = useState(false);
+  const [isPlatformAdmin, setIsPlatformAdmin] = useState(true);
+  const [statusFilter, setStatusFilter] = useState('all');
+  const [searchTerm, setSearchTerm] = useState('');
+  const [selectedEvent, setSelectedEvent] = useState<WebhookEvent | null>(null);
+  const [replayingId, setReplayingId] = useState<string | null>(null);
+
+  const fetchEvents = useCallback(async () => {
+    try {
+      setLoading(true);
+
+      const { data: isAdmin } = await supabase.rpc('is_platform_admin');
+      setIsPlatformAdmin(!!isAdmin);
+      if (!isAdmin) {
+        setEvents([]);
+        return;
+      }
+
+      let query = supabase
+        .from('payment_webhook_events')
+        .select('*')
+        .order('received_at', { ascending: false })
+        .limit(EVENT_LIMIT);
+
+      if (statusFilter !== 'all') {
+        query = query.eq('status', statusFilter);
+      }
+
+      const { data, error } = await query;
+
+      if (error) {
+        console.error('Error fetching webhook events:', error);
+        toast.error('Failed to fetch webhook events');
+        return;
+      }
+
+      setEvents(data || []);
+    } catch (error) {
+      console.error('Error fetching webhook events:', error);
+      toast.error('Failed to fetch webhook events');
+    } finally {
+      setLoading(false);
+    }
+  }, [statusFilter]);
+
+  useEffect(() => {
+    fetchEvents();
+  }, [fetchEvents]);
+
+  const handleRefresh = async () => {
+    setRefreshing(true);
+    await fetchEvents();
+    setRefreshing(false);
+  };
+
+  const handleReplay = async (event: WebhookEvent) => {
+    if (event.status === 'processed' && !confirm('This event was already processed. Replay it anyway?')) {
+      return;
+    }
+
+    setReplayingId(event.id);
+    try {
+      const { data, error } = await supabase.rpc('replay_payment_webhook_event', { _event_id: event.id });
+
+      if (error) throw error;
+
+      const result = data as unknown as { success: boolean; status?: string; error?: string };
+      if (!result.success) {
+        toast.error(result.error || 'Replay failed');
+      } else {
+        toast.success(`Event ${result.status}`);
+      }
+
+      setSelectedEvent(null);
+      await fetchEvents();
+    } catch (error) {
+      console.error('Error replaying webhook event:', error);
+      toast.error('Failed to replay webhook event');
+    } finally {
+      setReplayingId(null);
+    }
+  };
+
+  const filteredEvents = events.filter(event =>
+    !searchTerm ||
+    event.reference?.toLowerCase().includes(searchTerm.toLowerCase()) ||
+    event.event_type?.toLowerCase().includes(searchTerm.toLowerCase())
+  );
+
+  const failedCount = events.filter(event => event.status === 'failed').length;
+
+  if (loading) {
+    return (
+      <div className="p-6">
+        <InlineLoading />
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-6">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <Webhook className="w-5 h-5" />
+            Payment Webhooks
+          </CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!isPlatformAdmin && (
+            <Alert>
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                Your account is not a platform admin. Add it to the platform_admins table to inspect and replay webhook events.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {failedCount > 0 && (
+            <Alert variant="destructive">
+              <AlertTriangle className="h-4 w-4" />
+              <AlertDescription>
+                {failedCount} event{failedCount === 1 ? '' : 's'} failed. Failed events are retried automatically up to 5 times; replay them once the cause is fixed.
+              </AlertDescription>
+            </Alert>
+          )}
+
+          {/* Search and Actions */}
+          <div className="flex gap-2">
+            <div className="relative flex-1">
+              <Search className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-4 h-4" />
+              <Input
+                placeholder="Search by reference or event type..."
+                value={searchTerm}
+                onChange={(e) => setSearchTerm(e.target.value)}
+                className="pl-10"
+              />
+            </div>
+            <Select value={statusFilter} onValueChange={setStatusFilter}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="all">All statuses</SelectItem>
+                <SelectItem value="received">Received</SelectItem>
+                <SelectItem value="processed">Processed</SelectItem>
+                <SelectItem value="ignored">Ignored</SelectItem>
+                <SelectItem value="failed">Failed</SelectItem>
+              </SelectContent>
+            </Select>
+            <Button onClick={handleRefresh} disabled={refreshing} variant="outline">
+              <RefreshCw className={`w-4 h-4 mr-2 ${refreshing ? 'animate-spin' : ''}`} />
+              Refresh
+            </Button>
+          </div>
+
+          {/* Events Table */}
+          <div className="border rounded-lg">
+            <div className="grid grid-cols-12 gap-4 p-4 border-b bg-gray-50 font-medium text-sm">
+              <div className="col-span-3">Reference</div>
+              <div className="col-span-2">Event</div>
+              <div className="col-span-2">Status</div>
+              <div className="col-span-1">Attempts</div>
+              <div className="col-span-3">Received</div>
+              <div className="col-span-1">Actions</div>
+            </div>
+
+            {filteredEvents.length === 0 ? (
+              <div className="p-8 text-center text-muted-foreground">
+                {searchTerm ? 'No events found matching your search.' : 'No webhook events found.'}
+              </div>
+            ) : (
+              filteredEvents.map((event) => (
+                <div key={event.id} className="grid grid-cols-12 gap-4 p-4 border-b hover:bg-gray-50">
+                  <div className="col-span-3">
+                    <p className="font-mono text-sm truncate">{event.reference || '—'}</p>
+                    <p className="text-xs text-muted-foreground">{targetLabels[event.target] || event.target}</p>
+                  </div>
+                  <div className="col-span-2">
+                    <span className="text-sm">{event.event_type || '—'}</span>
+                  </div>
+                  <div className="col-span-2">
+                    <Badge className={`${statusColors[event.status] || ''} border-0`}>{event.status}</Badge>
+                    {event.status === 'failed' && event.last_error && (
+                      <p className="text-xs text-red-600 truncate mt-1">{event.last_error}</p>
+                    )}
+                  </div>
+                  <div className="col-span-1">
+                    <span className="text-sm">{event.attempts}</span>
+                    {event.delivery_count > 1 && (
+                      <p className="text-xs text-muted-foreground">{event.delivery_count} deliveries</p>
+                    )}
+                  </div>
+                  <div className="col-span-3">
+                    <span className="text-sm">{formatDateTime(event.received_at)}</span>
+                  </div>
+                  <div className="col-span-1">
+                    <div className="flex gap-1">
+                      <Button size="sm" variant="ghost" className="h-8 w-8 p-0" onClick={() => setSelectedEvent(event)}>
+                        <Eye className="w-4 h-4" />
+                      </Button>
+                      <Button
+                        size="sm"
+                        variant="ghost"
+                        className="h-8 w-8 p-0"
+                        disabled={replayingId === event.id}
+                        onClick={() => handleReplay(event)}
+                      >
+                        <RotateCcw className={`w-4 h-4 ${replayingId === event.id ? 'animate-spin' : ''}`} />
+                      </Button>
+                    </div>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+        </CardContent>
+      </Card>
+
+      <Dialog open={!!selectedEvent} onOpenChange={(open) => !open && setSelectedEvent(null)}>
+        <DialogContent className="max-w-2xl max-h-[85vh] overflow-y-auto">
+          <DialogHeader>
+            <DialogTitle>Webhook Event</DialogTitle>
+          </DialogHeader>
+          {selectedEvent && (
+            <div className="space-y-4 text-sm">
+              <div className="grid grid-cols-2 gap-2">
+                <div className="text-muted-foreground">Reference</div>
+                <div className="font-mono break-all">{selectedEvent.reference || '—'}</div>
+                <div className="text-muted-foreground">Event type</div>
+                <div>{selectedEvent.event_type || '—'}</div>
+                <div className="text-muted-foreground">Status</div>
+                <div>
+                  <Badge className={`${statusColors[selectedEvent.status] || ''} border-0`}>{selectedEvent.status}</Badge>
+                </div>
+                <div className="text-muted-foreground">Attempts / deliveries</div>
+                <div>{selectedEvent.attempts} / {selectedEvent.delivery_count}</div>
+                <div className="text-muted-foreground">Received</div>
+                <div>{formatDateTime(selectedEvent.received_at)}</div>
+                <div className="text-muted-foreground">Last delivered</div>
+                <div>{formatDateTime(selectedEvent.last_delivered_at)}</div>
+                <div className="text-muted-foreground">Processed</div>
+                <div>{formatDateTime(selectedEvent.processed_at)}</div>
+                {selectedEvent.next_attempt_at && (
+                  <>
+                    <div className="text-muted-foreground">Next retry</div>
+                    <div>{formatDateTime(selectedEvent.next_attempt_at)}</div>
+                  </>
+                )}
+              </div>
+
+              {selectedEvent.last_error && (
+                <Alert variant="destructive">
+                  <AlertDescription>{selectedEvent.last_error}</AlertDescription>
+                </Alert>
+              )}
+
+              {selectedEvent.result && (
+                <div>
+                  <p className="font-medium mb-1">Result</p>
+                  <pre className="bg-muted p-3 rounded text-xs overflow-x-auto">
+                    {JSON.stringify(selectedEvent.result, null, 2)}
+                  </pre>
+                </div>
+              )}
+
+              <div>
+                <p className="font-medium mb-1">Payload</p>
+                <pre className="bg-muted p-3 rounded text-xs overflow-x-auto">
+                  {JSON.stringify(selectedEvent.payload, null, 2)}
+                </pre>
+              </div>
+
+              <div className="flex justify-end">
+                <Button
+                  onClick={() => handleReplay(selectedEvent)}
+                  disabled={replayingId === selectedEvent.id}
+                >
+                  <RotateCcw className="w-4 h-4 mr-2" />
+                  Replay Event
+                </Button>
+              </div>
+            </div>
+          )}
+        </DialogContent>
+      </Dialog>
+    </div>
+  );
+}
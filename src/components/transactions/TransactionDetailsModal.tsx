@@ -23,10 +23,12 @@ import {
   X,
   Printer,
   Ban,
-  RefreshCw
+  RefreshCw,
+  Undo2
 } from "lucide-react";
 import { format } from "date-fns";
 import { TransactionReceiptDialog } from "./TransactionReceiptDialog";
+import { ReturnOrderDialog } from "@/components/returns/ReturnOrderDialog";
 
 interface Transaction {
   id: string;
@@ -76,6 +78,7 @@ interface OrderItem {
   unit_price: number;
   total_price: number;
   product_id: string;
+  variant_name?: string | null;
   products: {
     id: string;
     name: string;
@@ -106,6 +109,7 @@ interface LaybyItem {
   unit_price: number;
   total_price: number;
   product_id: string;
+  variant_name?: string | null;
   products: {
     id: string;
     name: string;
@@ -145,6 +149,10 @@ export function TransactionDetailsModal({
   const [transactionHistory, setTransactionHistory] = useState<TransactionHistoryEntry[]>([]);
   const [loadingHistory, setLoadingHistory] = useState(false);
   const [showReceiptDialog, setShowReceiptDialog] = useState(false);
+  const [showReturnDialog, setShowReturnDialog] = useState(false);
+
+  // Sales of POS orders are refunded line by line so stock and order totals follow the money
+  const isOrderSale = transaction.reference_type === 'order' && !!transaction.reference_id;
 
   useEffect(() => {
     if (open && transaction) {
@@ -186,6 +194,7 @@ export function TransactionDetailsModal({
           unit_price,
           total_price,
           product_id,
+          variant_name,
           products (id, name, sku, is_active)
         )
       `)
@@ -235,6 +244,7 @@ export function TransactionDetailsModal({
           unit_price,
           total_price,
           product_id,
+          variant_name,
           products (id, name, sku, is_active)
         )
       `)
@@ -653,6 +663,9 @@ export function TransactionDetailsModal({
                                 {item.products && !item.products.is_active && (
                                   <Badge variant="secondary" className="ml-2">Inactive</Badge>
                                 )}
+                                {item.variant_name && (
+                                  <div className="text-xs text-muted-foreground">{item.variant_name}</div>
+                                )}
                               </TableCell>
                               <TableCell>{item.products?.sku || 'N/A'}</TableCell>
                               <TableCell>{item.quantity}</TableCell>
@@ -722,6 +735,9 @@ export function TransactionDetailsModal({
                                 {item.products && !item.products.is_active && (
                                   <Badge variant="secondary" className="ml-2">Inactive</Badge>
                                 )}
+                                {item.variant_name && (
+                                  <div className="text-xs text-muted-foreground">{item.variant_name}</div>
+                                )}
                               </TableCell>
                               <TableCell>{item.products?.sku || 'N/A'}</TableCell>
                               <TableCell>{item.quantity}</TableCell>
@@ -763,7 +779,13 @@ export function TransactionDetailsModal({
               <Printer className="w-4 h-4 mr-2" />
               {actionLoading === 'print' ? 'Printing...' : 'Print Receipt'}
             </Button>
-            {transaction.transaction_type !== 'refund' && (
+            {transaction.transaction_type !== 'refund' && isOrderSale && (
+              <Button variant="outline" onClick={() => setShowReturnDialog(true)}>
+                <Undo2 className="w-4 h-4 mr-2" />
+                Return Items
+              </Button>
+            )}
+            {transaction.transaction_type !== 'refund' && !isOrderSale && (
               <Button
                 variant="outline"
                 onClick={handleCreateRefund}
@@ -785,6 +807,18 @@ export function TransactionDetailsModal({
         </div>
       </DialogContent>
 
+      {isOrderSale && (
+        <ReturnOrderDialog
+          open={showReturnDialog}
+          onOpenChange={setShowReturnDialog}
+          orderId={transaction.reference_id}
+          onCompleted={() => {
+            fetchOrderDetails();
+            onTransactionUpdate();
+          }}
+        />
+      )}
+
       {/* Receipt Dialog */}
       {(orderDetails || laybyDetails) && (
         <TransactionReceiptDialog
@@ -804,6 +838,7 @@ export function TransactionDetailsModal({
             orderDetails?.order_items?.map(item => ({
               id: item.id,
               name: item.products?.name || `Product Not Found (${item.product_id.slice(-8)})`,
+              variant_name: item.variant_name,
               sku: item.products?.sku || 'N/A',
               quantity: item.quantity,
               unit_price: item.unit_price,
@@ -812,6 +847,7 @@ export function TransactionDetailsModal({
             laybyDetails?.layby_items?.map(item => ({
               id: item.id,
               name: item.products?.name || `Product Not Found (${item.product_id.slice(-8)})`,
+              variant_name: item.variant_name,
               sku: item.products?.sku || 'N/A',
               quantity: item.quantity,
               unit_price: item.unit_price,
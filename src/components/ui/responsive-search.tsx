@@ -11,6 +11,8 @@ import { responsiveIcon, touchFriendly, responsiveSpacing } from '@/lib/responsi
 interface ResponsiveSearchProps {
   searchValue: string;
   onSearchChange: (value: string) => void;
+  // Called when Enter is pressed in the search box
+  onSearchSubmit?: (value: string) => void;
   placeholder?: string;
   className?: string;
   // Filter props
@@ -26,6 +28,7 @@ interface ResponsiveSearchProps {
 export function ResponsiveSearch({
   searchValue,
   onSearchChange,
+  onSearchSubmit,
   placeholder = "Search...",
   className,
   showFilters = false,
@@ -39,6 +42,13 @@ export function ResponsiveSearch({
   const [showMobileSearch, setShowMobileSearch] = useState(false);
   const [showMobileFilters, setShowMobileFilters] = useState(false);
 
+  const handleKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter' && onSearchSubmit && searchValue.trim()) {
+      e.preventDefault();
+      onSearchSubmit(searchValue.trim());
+    }
+  };
+
   // Mobile compact view - just icons
   if (isMobile && compactMode) {
     return (
@@ -71,6 +81,7 @@ export function ResponsiveSearch({
                   placeholder={mobileSearchPlaceholder || placeholder}
                   value={searchValue}
                   onChange={(e) => onSearchChange(e.target.value)}
+                  onKeyDown={handleKeyDown}
                   className="pl-10"
                   autoFocus
                 />
@@ -138,6 +149,7 @@ export function ResponsiveSearch({
             placeholder={placeholder}
             value={searchValue}
             onChange={(e) => onSearchChange(e.target.value)}
+            onKeyDown={handleKeyDown}
             className={cn("pl-10", touchFriendly.minTouch)}
           />
           {searchValue && (
@@ -185,6 +197,7 @@ export function ResponsiveSearch({
           placeholder={placeholder}
           value={searchValue}
           onChange={(e) => onSearchChange(e.target.value)}
+          onKeyDown={handleKeyDown}
           className="pl-10"
         />
         {searchValue && (
@@ -0,0 +1,70 @@
+import { useEffect, useRef } from 'react';
+
+interface UseBarcodeScannerProps {
+  enabled: boolean;
+  onScan: (code: string) => void;
+  minLength?: number;
+  maxKeyInterval?: number; // in milliseconds
+}
+
+const isEditableTarget = (target: EventTarget | null): boolean => {
+  if (!(target instanceof HTMLElement)) return false;
+  return target.isContentEditable || ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName);
+};
+
+/**
+ * Listen for keyboard-wedge barcode scanners. Scanners "type" the code far
+ * faster than a person and finish with Enter, so a burst of keys ending in
+ * Enter is treated as a scan. Keys typed into form fields are left alone.
+ */
+export function useBarcodeScanner({
+  enabled,
+  onScan,
+  minLength = 4,
+  maxKeyInterval = 50
+}: UseBarcodeScannerProps) {
+  const bufferRef = useRef('');
+  const lastKeyRef = useRef(0);
+  const onScanRef = useRef(onScan);
+
+  useEffect(() => {
+    onScanRef.current = onScan;
+  }, [onScan]);
+
+  useEffect(() => {
+    if (!enabled) return;
+
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.ctrlKey || event.altKey || event.metaKey || isEditableTarget(event.target)) {
+        bufferRef.current = '';
+        return;
+      }
+
+      const now = Date.now();
+      if (now - lastKeyRef.current > maxKeyInterval) {
+        bufferRef.current = '';
+      }
+      lastKeyRef.current = now;
+
+      if (event.key === 'Enter') {
+        const code = bufferRef.current;
+        bufferRef.current = '';
+        if (code.length >= minLength) {
+          event.preventDefault();
+          onScanRef.current(code);
+        }
+        return;
+      }
+
+      if (event.key.length === 1) {
+        bufferRef.current += event.key;
+      }
+    };
+
+    window.addEventListener('keydown', handleKeyDown);
+    return () => {
+      window.removeEventListener('keydown', handleKeyDown);
+      bufferRef.current = '';
+    };
+  }, [enabled, minLength, maxKeyInterval]);
+}
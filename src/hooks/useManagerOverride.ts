@@ -0,0 +1,81 @@
+import { useCallback, useEffect, useState } from 'react';
+import { useCurrentStore, useStoreStore } from '@/stores/storeStore';
+import { sessionManager } from '@/lib/sessionManager';
+import { getApprovalSettings, DEFAULT_APPROVAL_SETTINGS, type ApprovalSettings } from '@/lib/storeSettings';
+import {
+  useManagerOverrideStore,
+  type ManagerOverride,
+  type OverrideAction,
+  type OverrideRequest,
+} from '@/stores/managerOverrideStore';
+
+export type OverrideApproval =
+  | { approved: false }
+  | { approved: true; override: ManagerOverride | null };
+
+/**
+ * Manager approval for till actions. Cashiers are asked for a manager or owner PIN when the
+ * store requires one; managers and owners go straight through. Price overrides always get an
+ * approval because checkout only honours prices that carry one.
+ */
+export function useManagerOverride() {
+  const currentStore = useCurrentStore();
+  const { isOwner, userRole } = useStoreStore();
+  const authorizeOverride = useManagerOverrideStore(state => state.authorizeOverride);
+  const requestOverride = useManagerOverrideStore(state => state.requestOverride);
+  const [settings, setSettings] = useState<ApprovalSettings>(DEFAULT_APPROVAL_SETTINGS);
+
+  useEffect(() => {
+    if (currentStore?.id) {
+      getApprovalSettings(currentStore.id).then(setSettings);
+    }
+  }, [currentStore?.id]);
+
+  // A PIN session reports the PIN user's own role; the signed-in account may be the owner's
+  const pinSession = sessionManager.getPinSession();
+  const role = pinSession && pinSession.store_id === currentStore?.id
+    ? pinSession.role
+    : isOwner ? 'owner' : userRole;
+  const isManager = role === 'owner' || role === 'manager';
+
+  const needsApproval = useCallback((action: OverrideAction, discountPercent = 0): boolean => {
+    if (isManager) return false;
+
+    switch (action) {
+      case 'discount':
+        return settings.requirePinForDiscounts && discountPercent > settings.discountApprovalThreshold;
+      case 'line_void':
+        return settings.requirePinForVoids;
+      case 'price_override':
+        return true;
+    }
+  }, [isManager, settings]);
+
+  const approve = useCallback(async (
+    action: OverrideAction,
+    request: Omit<OverrideRequest, 'storeId' | 'action'>,
+    discountPercent = 0
+  ): Promise<OverrideApproval> => {
+    if (!currentStore?.id) return { approved: false };
+
+    const overrideRequest: OverrideRequest = { ...request, storeId: currentStore.id, action };
+
+    if (action === 'price_override' && isManager) {
+      const { override, code } = await authorizeOverride(overrideRequest);
+      if (override) return { approved: true, override };
+      if (code !== 'approval_required') return { approved: false };
+    } else if (!needsApproval(action, discountPercent)) {
+      return { approved: true, override: null };
+    }
+
+    const override = await requestOverride(overrideRequest);
+    return override ? { approved: true, override } : { approved: false };
+  }, [currentStore?.id, isManager, needsApproval, authorizeOverride, requestOverride]);
+
+  return {
+    settings,
+    isManager,
+    needsApproval,
+    approve,
+  };
+}
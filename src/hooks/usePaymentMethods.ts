@@ -1,6 +1,9 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useCurrentStore } from '@/stores/storeStore';
 import { supabase } from '@/integrations/supabase/client';
+import { cacheSnapshot, getCachedSnapshot } from '@/lib/offlineStore';
+import { GIFT_CARD_KIND_LABELS, isGiftCardKind } from '@/lib/giftCards';
+import { SPLIT_PAYMENT_METHOD } from '@/lib/tenders';
 
 export interface PaymentMethod {
   id: string;
@@ -47,7 +50,14 @@ export function usePaymentMethods() {
       if (fetchError) throw fetchError;
 
       setPaymentMethods(data || []);
+      cacheSnapshot(currentStore.id, 'payment_methods', data || []);
     } catch (err) {
+      // Keep the POS usable offline with the last known payment methods
+      const cached = await getCachedSnapshot<PaymentMethod[]>(currentStore.id, 'payment_methods');
+      if (cached) {
+        setPaymentMethods(cached.data);
+        return;
+      }
       console.error('Error fetching payment methods:', err);
       setError('Failed to load payment methods');
       setPaymentMethods([]);
@@ -93,6 +103,14 @@ export function usePaymentMethods() {
     if (paymentMethodId === 'cash') {
       return 'Cash';
     }
+    // Gift cards and store credit are recorded by checkout rather than set up as payment methods
+    if (isGiftCardKind(paymentMethodId)) {
+      return GIFT_CARD_KIND_LABELS[paymentMethodId];
+    }
+    // Orders paid with several tenders; each one has its own transaction
+    if (paymentMethodId === SPLIT_PAYMENT_METHOD) {
+      return 'Split Payment';
+    }
 
     const method = paymentMethods.find(m => m.id === paymentMethodId);
     return method ? method.name : 'Unknown Payment Method';
@@ -133,6 +151,12 @@ export function usePaymentMethods() {
     if (paymentMethodId === 'cash') {
       return 'Cash';
     }
+    if (isGiftCardKind(paymentMethodId)) {
+      return GIFT_CARD_KIND_LABELS[paymentMethodId];
+    }
+    if (paymentMethodId === SPLIT_PAYMENT_METHOD) {
+      return 'Split Payment';
+    }
 
     const method = paymentMethods.find(m => m.id === paymentMethodId);
     if (!method) return 'Unknown Payment Method';
@@ -11,7 +11,9 @@ import {
   Clock,
   CreditCard,
   Settings,
-  Globe
+  Globe,
+  Tag,
+  Gift
 } from 'lucide-react';
 
 /**
@@ -163,7 +165,7 @@ export function useRoleBasedNavigation() {
   
   const getAvailablePages = (): ProtectedPage[] => {
     const allPages: ProtectedPage[] = [
-      'dashboard', 'pos', 'inventory', 'customers', 'orders', 'transactions', 'layby', 'expenses', 'settings', 'showcase'
+      'dashboard', 'pos', 'inventory', 'customers', 'orders', 'transactions', 'layby', 'discounts', 'gift-cards', 'expenses', 'settings', 'showcase'
     ];
 
     return allPages.filter(page => canAccessPage(page));
@@ -182,6 +184,8 @@ export function useRoleBasedNavigation() {
       orders: { label: 'Orders', icon: Package },
       layby: { label: 'Layby', icon: Clock },
       transactions: { label: 'Transactions', icon: Receipt },
+      discounts: { label: 'Discounts', icon: Tag },
+      'gift-cards': { label: 'Gift Cards', icon: Gift },
       expenses: { label: 'Expenses', icon: CreditCard },
       settings: { label: 'Settings', icon: Settings },
       showcase: { label: 'Store Showcase', icon: Globe }
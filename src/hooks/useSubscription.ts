@@ -1,15 +1,19 @@
 import { useState, useEffect, useCallback } from 'react';
 import { useUser } from '@/stores/authStore';
-import { subscriptionService, UserSubscription, SubscriptionPlan, SubscriptionUsage, UserAccessStatus } from '@/services/subscription';
+import { useCurrentStore } from '@/stores/storeStore';
+import { subscriptionService, UserSubscription, SubscriptionPlan, SubscriptionUsage, UserAccessStatus, PlanEntitlements } from '@/services/subscription';
+import type { PlanFeature, PlanLimitAction } from '@/lib/planLimits';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
 
 export function useSubscription() {
   const user = useUser();
+  const currentStore = useCurrentStore();
   const [subscription, setSubscription] = useState<UserSubscription | null>(null);
   const [plans, setPlans] = useState<SubscriptionPlan[]>([]);
   const [usage, setUsage] = useState<SubscriptionUsage | null>(null);
   const [accessStatus, setAccessStatus] = useState<UserAccessStatus | null>(null);
+  const [entitlements, setEntitlements] = useState<PlanEntitlements | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
 
@@ -53,6 +57,24 @@ export function useSubscription() {
     }
   }, []);
 
+  // Load what the current store's plan includes (the owner's plan, for staff too)
+  const loadEntitlements = useCallback(async () => {
+    if (!user) {
+      setEntitlements(null);
+      return;
+    }
+
+    try {
+      setEntitlements(await subscriptionService.getPlanEntitlements(currentStore?.id));
+    } catch (err) {
+      console.error('Error loading plan entitlements:', err);
+    }
+  }, [user, currentStore?.id]);
+
+  useEffect(() => {
+    loadEntitlements();
+  }, [loadEntitlements]);
+
   // Initialize data
   useEffect(() => {
     loadSubscription();
@@ -103,7 +125,7 @@ export function useSubscription() {
 
   // Check if user can perform an action
   const checkLimits = useCallback(async (
-    action: 'create_store' | 'add_pin_user' | 'add_inventory_item',
+    action: PlanLimitAction | PlanFeature,
     storeId?: string
   ) => {
     if (!user) {
@@ -119,17 +141,17 @@ export function useSubscription() {
   }, [user]);
 
   // Update usage tracking
-  const updateUsage = useCallback(async (storeId?: string) => {
+  const updateUsage = useCallback(async () => {
     if (!user) return;
 
     try {
-      await subscriptionService.updateSubscriptionUsage(user.id, storeId);
+      await subscriptionService.updateSubscriptionUsage();
       // Reload subscription data to get updated usage
-      await loadSubscription();
+      await Promise.all([loadSubscription(), loadEntitlements()]);
     } catch (err) {
       console.error('Error updating usage:', err);
     }
-  }, [user, loadSubscription]);
+  }, [user, loadSubscription, loadEntitlements]);
 
   // Create subscription
   const createSubscription = useCallback(async (
@@ -161,11 +183,7 @@ export function useSubscription() {
     }
 
     try {
-      const checkoutUrl = await subscriptionService.processSubscriptionPayment(
-        subscriptionId,
-        user.email || '',
-        user.user_metadata?.full_name || 'Customer'
-      );
+      const checkoutUrl = await subscriptionService.processSubscriptionPayment(subscriptionId);
       return checkoutUrl;
     } catch (err) {
       console.error('Error processing payment:', err);
@@ -190,6 +208,12 @@ export function useSubscription() {
     }
   }, [subscription, loadSubscription]);
 
+  // Whether the current store's plan includes a feature. Until entitlements load (or for
+  // sessions that can't read them) features show as included; the database still enforces them.
+  const hasFeature = useCallback((feature: PlanFeature) =>
+    entitlements?.features[feature] ?? true
+  , [entitlements]);
+
   // Get current plan
   const currentPlan = subscription?.subscription_plans || null;
 
@@ -199,6 +223,9 @@ export function useSubscription() {
   // Check if subscription is past due
   const isPastDue = subscription?.status === 'past_due';
 
+  // Check if subscription is suspended for non-payment
+  const isSuspended = subscription?.status === 'suspended';
+
   // Check if subscription is cancelled
   const isCancelled = subscription?.status === 'cancelled';
 
@@ -247,17 +274,20 @@ export function useSubscription() {
     plans,
     usage,
     accessStatus,
+    entitlements,
     loading,
     error,
 
     // Status checks
     isActive,
     isPastDue,
+    isSuspended,
     isCancelled,
     isTrialing,
     hasAccess,
     trialDaysRemaining,
     daysUntilBilling,
+    hasFeature,
 
     // Actions
     createSubscription,
@@ -266,6 +296,7 @@ export function useSubscription() {
     checkLimits,
     updateUsage,
     loadSubscription,
+    loadEntitlements,
 
     // Utilities
     getUsagePercentage,
@@ -138,6 +138,164 @@ export type Database = {
           },
         ]
       }
+      cash_drawer_movements: {
+        Row: {
+          amount: number
+          created_at: string
+          created_by: string | null
+          created_by_member_id: string | null
+          created_by_name: string | null
+          id: string
+          movement_type: string
+          reason: string
+          shift_id: string
+          store_id: string
+        }
+        Insert: {
+          amount: number
+          created_at?: string
+          created_by?: string | null
+          created_by_member_id?: string | null
+          created_by_name?: string | null
+          id?: string
+          movement_type: string
+          reason: string
+          shift_id: string
+          store_id: string
+        }
+        Update: {
+          amount?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_member_id?: string | null
+          created_by_name?: string | null
+          id?: string
+          movement_type?: string
+          reason?: string
+          shift_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_drawer_movements_created_by_member_id_fkey"
+            columns: ["created_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_drawer_movements_shift_id_fkey"
+            columns: ["shift_id"]
+            isOneToOne: false
+            referencedRelation: "cash_drawer_shifts"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_drawer_movements_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      cash_drawer_shifts: {
+        Row: {
+          cash_refunds: number | null
+          cash_sales: number | null
+          closed_at: string | null
+          closed_by: string | null
+          closed_by_member_id: string | null
+          closed_by_name: string | null
+          counted_cash: number | null
+          created_at: string
+          expected_cash: number | null
+          id: string
+          notes: string | null
+          opened_at: string
+          opened_by: string | null
+          opened_by_member_id: string | null
+          opened_by_name: string | null
+          opening_float: number
+          over_short: number | null
+          paid_in: number | null
+          paid_out: number | null
+          shift_number: string
+          status: string
+          store_id: string
+        }
+        Insert: {
+          cash_refunds?: number | null
+          cash_sales?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_member_id?: string | null
+          closed_by_name?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          opened_by_member_id?: string | null
+          opened_by_name?: string | null
+          opening_float?: number
+          over_short?: number | null
+          paid_in?: number | null
+          paid_out?: number | null
+          shift_number: string
+          status?: string
+          store_id: string
+        }
+        Update: {
+          cash_refunds?: number | null
+          cash_sales?: number | null
+          closed_at?: string | null
+          closed_by?: string | null
+          closed_by_member_id?: string | null
+          closed_by_name?: string | null
+          counted_cash?: number | null
+          created_at?: string
+          expected_cash?: number | null
+          id?: string
+          notes?: string | null
+          opened_at?: string
+          opened_by?: string | null
+          opened_by_member_id?: string | null
+          opened_by_name?: string | null
+          opening_float?: number
+          over_short?: number | null
+          paid_in?: number | null
+          paid_out?: number | null
+          shift_number?: string
+          status?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "cash_drawer_shifts_closed_by_member_id_fkey"
+            columns: ["closed_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_drawer_shifts_opened_by_member_id_fkey"
+            columns: ["opened_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "cash_drawer_shifts_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       categories: {
         Row: {
           created_at: string
@@ -170,16 +328,297 @@ export type Database = {
           },
         ]
       }
+      customer_campaign_messages: {
+        Row: {
+          attempts: number
+          campaign_id: string
+          channel: string
+          created_at: string
+          customer_id: string | null
+          error_message: string | null
+          id: string
+          message: string
+          next_attempt_at: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient_name: string | null
+          recipient_phone: string
+          sent_at: string | null
+          status: string
+          store_id: string
+        }
+        Insert: {
+          attempts?: number
+          campaign_id: string
+          channel: string
+          created_at?: string
+          customer_id?: string | null
+          error_message?: string | null
+          id?: string
+          message: string
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient_name?: string | null
+          recipient_phone: string
+          sent_at?: string | null
+          status?: string
+          store_id: string
+        }
+        Update: {
+          attempts?: number
+          campaign_id?: string
+          channel?: string
+          created_at?: string
+          customer_id?: string | null
+          error_message?: string | null
+          id?: string
+          message?: string
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient_name?: string | null
+          recipient_phone?: string
+          sent_at?: string | null
+          status?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_campaign_messages_campaign_id_fkey"
+            columns: ["campaign_id"]
+            isOneToOne: false
+            referencedRelation: "customer_campaigns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_campaign_messages_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_campaign_messages_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_campaigns: {
+        Row: {
+          channel: string
+          created_at: string
+          created_by: string | null
+          id: string
+          message: string
+          name: string
+          recipient_count: number
+          segment_id: string | null
+          segment_name: string
+          skipped_count: number
+          store_id: string
+        }
+        Insert: {
+          channel: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message: string
+          name: string
+          recipient_count?: number
+          segment_id?: string | null
+          segment_name: string
+          skipped_count?: number
+          store_id: string
+        }
+        Update: {
+          channel?: string
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          message?: string
+          name?: string
+          recipient_count?: number
+          segment_id?: string | null
+          segment_name?: string
+          skipped_count?: number
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_campaigns_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "customer_segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_campaigns_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_rfm_scores: {
+        Row: {
+          customer_id: string
+          frequency: number
+          frequency_score: number
+          last_order_at: string
+          monetary: number
+          monetary_score: number
+          recency_days: number
+          recency_score: number
+          scored_at: string
+          segment: string
+          store_id: string
+        }
+        Insert: {
+          customer_id: string
+          frequency: number
+          frequency_score: number
+          last_order_at: string
+          monetary: number
+          monetary_score: number
+          recency_days: number
+          recency_score: number
+          scored_at?: string
+          segment: string
+          store_id: string
+        }
+        Update: {
+          customer_id?: string
+          frequency?: number
+          frequency_score?: number
+          last_order_at?: string
+          monetary?: number
+          monetary_score?: number
+          recency_days?: number
+          recency_score?: number
+          scored_at?: string
+          segment?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_rfm_scores_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_rfm_scores_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_segment_snapshots: {
+        Row: {
+          created_at: string
+          customer_count: number
+          id: string
+          segment_id: string
+          snapshot_date: string
+          store_id: string
+          total_spent: number
+        }
+        Insert: {
+          created_at?: string
+          customer_count: number
+          id?: string
+          segment_id: string
+          snapshot_date?: string
+          store_id: string
+          total_spent?: number
+        }
+        Update: {
+          created_at?: string
+          customer_count?: number
+          id?: string
+          segment_id?: string
+          snapshot_date?: string
+          store_id?: string
+          total_spent?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_segment_snapshots_segment_id_fkey"
+            columns: ["segment_id"]
+            isOneToOne: false
+            referencedRelation: "customer_segments"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "customer_segment_snapshots_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      customer_segments: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          description: string | null
+          id: string
+          name: string
+          rules: Json
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name: string
+          rules: Json
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          created_at?: string
+          created_by?: string | null
+          description?: string | null
+          id?: string
+          name?: string
+          rules?: Json
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "customer_segments_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       customers: {
         Row: {
           address: string | null
           created_at: string
           email: string | null
           id: string
+          loyalty_points: number
           name: string
           phone: string | null
           status: string | null
           store_id: string
+          tags: string[]
           total_orders: number | null
           total_spent: number | null
           updated_at: string
@@ -189,10 +628,12 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
+          loyalty_points?: number
           name: string
           phone?: string | null
           status?: string | null
           store_id: string
+          tags?: string[]
           total_orders?: number | null
           total_spent?: number | null
           updated_at?: string
@@ -202,10 +643,12 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
+          loyalty_points?: number
           name?: string
           phone?: string | null
           status?: string | null
           store_id?: string
+          tags?: string[]
           total_orders?: number | null
           total_spent?: number | null
           updated_at?: string
@@ -267,7 +710,8 @@ export type Database = {
           discount_amount: number
           discount_id: string
           id: string
-          order_id: string
+          order_id: string | null
+          public_order_id: string | null
           used_at: string
         }
         Insert: {
@@ -275,7 +719,8 @@ export type Database = {
           discount_amount: number
           discount_id: string
           id?: string
-          order_id: string
+          order_id?: string | null
+          public_order_id?: string | null
           used_at?: string
         }
         Update: {
@@ -283,7 +728,8 @@ export type Database = {
           discount_amount?: number
           discount_id?: string
           id?: string
-          order_id?: string
+          order_id?: string | null
+          public_order_id?: string | null
           used_at?: string
         }
         Relationships: [
@@ -481,17 +927,248 @@ export type Database = {
           },
         ]
       }
-      layby_history: {
+      gift_card_transactions: {
         Row: {
-          action_description: string
-          action_type: string
-          amount_involved: number | null
+          amount: number
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          created_by_name: string | null
+          description: string | null
+          gift_card_id: string
           id: string
-          layby_order_id: string
-          new_values: Json | null
-          notes: string | null
-          old_values: Json | null
-          performed_at: string
+          order_id: string | null
+          order_return_id: string | null
+          public_order_id: string | null
+          store_id: string
+          transaction_id: string | null
+          transaction_type: string
+        }
+        Insert: {
+          amount: number
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string | null
+          gift_card_id: string
+          id?: string
+          order_id?: string | null
+          order_return_id?: string | null
+          public_order_id?: string | null
+          store_id: string
+          transaction_id?: string | null
+          transaction_type: string
+        }
+        Update: {
+          amount?: number
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          created_by_name?: string | null
+          description?: string | null
+          gift_card_id?: string
+          id?: string
+          order_id?: string | null
+          order_return_id?: string | null
+          public_order_id?: string | null
+          store_id?: string
+          transaction_id?: string | null
+          transaction_type?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_card_transactions_gift_card_id_fkey"
+            columns: ["gift_card_id"]
+            isOneToOne: false
+            referencedRelation: "gift_cards"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_order_return_id_fkey"
+            columns: ["order_return_id"]
+            isOneToOne: false
+            referencedRelation: "order_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_public_order_id_fkey"
+            columns: ["public_order_id"]
+            isOneToOne: false
+            referencedRelation: "public_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_card_transactions_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      gift_cards: {
+        Row: {
+          balance: number
+          code: string
+          created_at: string
+          customer_id: string | null
+          expires_at: string | null
+          id: string
+          initial_value: number
+          issued_by: string | null
+          issued_by_member_id: string | null
+          issued_by_name: string | null
+          kind: string
+          last_used_at: string | null
+          notes: string | null
+          status: string
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          balance?: number
+          code: string
+          created_at?: string
+          customer_id?: string | null
+          expires_at?: string | null
+          id?: string
+          initial_value?: number
+          issued_by?: string | null
+          issued_by_member_id?: string | null
+          issued_by_name?: string | null
+          kind: string
+          last_used_at?: string | null
+          notes?: string | null
+          status?: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          balance?: number
+          code?: string
+          created_at?: string
+          customer_id?: string | null
+          expires_at?: string | null
+          id?: string
+          initial_value?: number
+          issued_by?: string | null
+          issued_by_member_id?: string | null
+          issued_by_name?: string | null
+          kind?: string
+          last_used_at?: string | null
+          notes?: string | null
+          status?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "gift_cards_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_cards_issued_by_member_id_fkey"
+            columns: ["issued_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "gift_cards_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      layby_charges: {
+        Row: {
+          amount: number
+          charge_type: string
+          charged_on: string
+          created_at: string
+          description: string | null
+          id: string
+          layby_order_id: string
+          schedule_id: string | null
+          store_id: string
+        }
+        Insert: {
+          amount: number
+          charge_type: string
+          charged_on?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          layby_order_id: string
+          schedule_id?: string | null
+          store_id: string
+        }
+        Update: {
+          amount?: number
+          charge_type?: string
+          charged_on?: string
+          created_at?: string
+          description?: string | null
+          id?: string
+          layby_order_id?: string
+          schedule_id?: string | null
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "layby_charges_layby_order_id_fkey"
+            columns: ["layby_order_id"]
+            isOneToOne: false
+            referencedRelation: "layby_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "layby_charges_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "layby_payment_schedules"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "layby_charges_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      layby_history: {
+        Row: {
+          action_description: string
+          action_type: string
+          amount_involved: number | null
+          id: string
+          layby_order_id: string
+          new_values: Json | null
+          notes: string | null
+          old_values: Json | null
+          performed_at: string
           performed_by: string
         }
         Insert: {
@@ -537,6 +1214,8 @@ export type Database = {
           quantity: number
           total_price: number
           unit_price: number
+          variant_id: string | null
+          variant_name: string | null
         }
         Insert: {
           created_at?: string | null
@@ -546,6 +1225,8 @@ export type Database = {
           quantity: number
           total_price: number
           unit_price: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Update: {
           created_at?: string | null
@@ -555,6 +1236,8 @@ export type Database = {
           quantity?: number
           total_price?: number
           unit_price?: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Relationships: [
           {
@@ -571,47 +1254,72 @@ export type Database = {
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "layby_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
       layby_notifications: {
         Row: {
+          attempts: number
+          channel: string
           created_at: string
           created_by: string
           error_message: string | null
           id: string
           layby_order_id: string
           message: string
+          next_attempt_at: string
           notification_type: string
+          provider: string | null
+          provider_message_id: string | null
           recipient_email: string | null
           recipient_phone: string | null
+          schedule_id: string | null
           sent_at: string | null
           status: string | null
           subject: string | null
         }
         Insert: {
+          attempts?: number
+          channel?: string
           created_at?: string
           created_by: string
           error_message?: string | null
           id?: string
           layby_order_id: string
           message: string
+          next_attempt_at?: string
           notification_type: string
+          provider?: string | null
+          provider_message_id?: string | null
           recipient_email?: string | null
           recipient_phone?: string | null
+          schedule_id?: string | null
           sent_at?: string | null
           status?: string | null
           subject?: string | null
         }
         Update: {
+          attempts?: number
+          channel?: string
           created_at?: string
           created_by?: string
           error_message?: string | null
           id?: string
           layby_order_id?: string
           message?: string
+          next_attempt_at?: string
           notification_type?: string
+          provider?: string | null
+          provider_message_id?: string | null
           recipient_email?: string | null
           recipient_phone?: string | null
+          schedule_id?: string | null
           sent_at?: string | null
           status?: string | null
           subject?: string | null
@@ -624,12 +1332,20 @@ export type Database = {
             referencedRelation: "layby_orders"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "layby_notifications_schedule_id_fkey"
+            columns: ["schedule_id"]
+            isOneToOne: false
+            referencedRelation: "layby_payment_schedules"
+            referencedColumns: ["id"]
+          },
         ]
       }
       layby_orders: {
         Row: {
           balance_remaining: number
           cancellation_reason: string | null
+          cancelled_at: string | null
           completion_date: string | null
           created_at: string | null
           created_by: string
@@ -640,12 +1356,16 @@ export type Database = {
           deposit_amount: number
           due_date: string | null
           id: string
+          interest_accrued_through: string | null
           interest_amount: number | null
           interest_rate: number | null
+          interest_type: string | null
           inventory_reserved: boolean | null
           last_reminder_sent: string | null
+          late_fee_amount: number
           layby_number: string
           notes: string | null
+          order_id: string | null
           payment_schedule: string | null
           payment_schedule_type: string | null
           priority_level: string | null
@@ -660,6 +1380,7 @@ export type Database = {
         Insert: {
           balance_remaining: number
           cancellation_reason?: string | null
+          cancelled_at?: string | null
           completion_date?: string | null
           created_at?: string | null
           created_by: string
@@ -670,12 +1391,16 @@ export type Database = {
           deposit_amount: number
           due_date?: string | null
           id?: string
+          interest_accrued_through?: string | null
           interest_amount?: number | null
           interest_rate?: number | null
+          interest_type?: string | null
           inventory_reserved?: boolean | null
           last_reminder_sent?: string | null
+          late_fee_amount?: number
           layby_number: string
           notes?: string | null
+          order_id?: string | null
           payment_schedule?: string | null
           payment_schedule_type?: string | null
           priority_level?: string | null
@@ -690,6 +1415,7 @@ export type Database = {
         Update: {
           balance_remaining?: number
           cancellation_reason?: string | null
+          cancelled_at?: string | null
           completion_date?: string | null
           created_at?: string | null
           created_by?: string
@@ -700,12 +1426,16 @@ export type Database = {
           deposit_amount?: number
           due_date?: string | null
           id?: string
+          interest_accrued_through?: string | null
           interest_amount?: number | null
           interest_rate?: number | null
+          interest_type?: string | null
           inventory_reserved?: boolean | null
           last_reminder_sent?: string | null
+          late_fee_amount?: number
           layby_number?: string
           notes?: string | null
+          order_id?: string | null
           payment_schedule?: string | null
           payment_schedule_type?: string | null
           priority_level?: string | null
@@ -732,6 +1462,13 @@ export type Database = {
             referencedRelation: "stores"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "layby_orders_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
         ]
       }
       layby_payment_schedules: {
@@ -741,6 +1478,8 @@ export type Database = {
           created_at: string
           due_date: string
           id: string
+          late_fee_amount: number
+          late_fee_applied_at: string | null
           layby_order_id: string
           notes: string | null
           payment_number: number
@@ -754,6 +1493,8 @@ export type Database = {
           created_at?: string
           due_date: string
           id?: string
+          late_fee_amount?: number
+          late_fee_applied_at?: string | null
           layby_order_id: string
           notes?: string | null
           payment_number: number
@@ -767,6 +1508,8 @@ export type Database = {
           created_at?: string
           due_date?: string
           id?: string
+          late_fee_amount?: number
+          late_fee_applied_at?: string | null
           layby_order_id?: string
           notes?: string | null
           payment_number?: number
@@ -832,10 +1575,14 @@ export type Database = {
           default_cancellation_fee_percent: number | null
           default_interest_rate: number | null
           id: string
+          interest_type: string
           inventory_reservation_enabled: boolean | null
+          late_fee_amount: number
           max_layby_duration_days: number | null
           max_reminder_count: number | null
           overdue_grace_period_days: number | null
+          reminder_channels: string[]
+          reminder_days_before: number
           reminder_frequency_days: number | null
           require_deposit_percent: number | null
           store_id: string
@@ -847,10 +1594,14 @@ export type Database = {
           default_cancellation_fee_percent?: number | null
           default_interest_rate?: number | null
           id?: string
+          interest_type?: string
           inventory_reservation_enabled?: boolean | null
+          late_fee_amount?: number
           max_layby_duration_days?: number | null
           max_reminder_count?: number | null
           overdue_grace_period_days?: number | null
+          reminder_channels?: string[]
+          reminder_days_before?: number
           reminder_frequency_days?: number | null
           require_deposit_percent?: number | null
           store_id: string
@@ -862,10 +1613,14 @@ export type Database = {
           default_cancellation_fee_percent?: number | null
           default_interest_rate?: number | null
           id?: string
+          interest_type?: string
           inventory_reservation_enabled?: boolean | null
+          late_fee_amount?: number
           max_layby_duration_days?: number | null
           max_reminder_count?: number | null
           overdue_grace_period_days?: number | null
+          reminder_channels?: string[]
+          reminder_days_before?: number
           reminder_frequency_days?: number | null
           require_deposit_percent?: number | null
           store_id?: string
@@ -881,76 +1636,40 @@ export type Database = {
           },
         ]
       }
-      notification_settings: {
+      loyalty_tiers: {
         Row: {
-          app_low_stock: boolean | null
-          app_new_orders: boolean | null
-          app_payment_received: boolean | null
-          app_system_updates: boolean | null
+          color: string | null
           created_at: string
-          email_daily_sales: boolean | null
-          email_layby_reminders: boolean | null
-          email_low_stock: boolean | null
-          email_new_orders: boolean | null
-          email_payment_received: boolean | null
-          email_weekly_reports: boolean | null
           id: string
-          low_stock_threshold_days: number | null
-          sales_report_time: string | null
-          sms_daily_sales: boolean | null
-          sms_low_stock: boolean | null
-          sms_payment_received: boolean | null
+          min_spent: number
+          name: string
+          points_multiplier: number
           store_id: string
           updated_at: string
-          user_id: string | null
         }
         Insert: {
-          app_low_stock?: boolean | null
-          app_new_orders?: boolean | null
-          app_payment_received?: boolean | null
-          app_system_updates?: boolean | null
+          color?: string | null
           created_at?: string
-          email_daily_sales?: boolean | null
-          email_layby_reminders?: boolean | null
-          email_low_stock?: boolean | null
-          email_new_orders?: boolean | null
-          email_payment_received?: boolean | null
-          email_weekly_reports?: boolean | null
           id?: string
-          low_stock_threshold_days?: number | null
-          sales_report_time?: string | null
-          sms_daily_sales?: boolean | null
-          sms_low_stock?: boolean | null
-          sms_payment_received?: boolean | null
+          min_spent?: number
+          name: string
+          points_multiplier?: number
           store_id: string
           updated_at?: string
-          user_id?: string | null
         }
         Update: {
-          app_low_stock?: boolean | null
-          app_new_orders?: boolean | null
-          app_payment_received?: boolean | null
-          app_system_updates?: boolean | null
+          color?: string | null
           created_at?: string
-          email_daily_sales?: boolean | null
-          email_layby_reminders?: boolean | null
-          email_low_stock?: boolean | null
-          email_new_orders?: boolean | null
-          email_payment_received?: boolean | null
-          email_weekly_reports?: boolean | null
           id?: string
-          low_stock_threshold_days?: number | null
-          sales_report_time?: string | null
-          sms_daily_sales?: boolean | null
-          sms_low_stock?: boolean | null
-          sms_payment_received?: boolean | null
+          min_spent?: number
+          name?: string
+          points_multiplier?: number
           store_id?: string
           updated_at?: string
-          user_id?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "notification_settings_store_id_fkey"
+            foreignKeyName: "loyalty_tiers_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
@@ -958,145 +1677,1611 @@ export type Database = {
           },
         ]
       }
-      order_items: {
+      loyalty_transactions: {
         Row: {
+          balance_after: number
+          created_at: string
+          created_by: string | null
+          customer_id: string
+          description: string | null
           id: string
-          order_id: string
-          product_id: string
-          quantity: number
-          total_price: number
-          unit_price: number
+          order_id: string | null
+          points: number
+          store_id: string
+          transaction_type: string
         }
         Insert: {
+          balance_after: number
+          created_at?: string
+          created_by?: string | null
+          customer_id: string
+          description?: string | null
           id?: string
-          order_id: string
-          product_id: string
-          quantity: number
-          total_price: number
-          unit_price: number
+          order_id?: string | null
+          points: number
+          store_id: string
+          transaction_type: string
         }
         Update: {
+          balance_after?: number
+          created_at?: string
+          created_by?: string | null
+          customer_id?: string
+          description?: string | null
           id?: string
-          order_id?: string
-          product_id?: string
-          quantity?: number
-          total_price?: number
-          unit_price?: number
+          order_id?: string | null
+          points?: number
+          store_id?: string
+          transaction_type?: string
         }
         Relationships: [
           {
-            foreignKeyName: "order_items_order_id_fkey"
-            columns: ["order_id"]
+            foreignKeyName: "loyalty_transactions_customer_id_fkey"
+            columns: ["customer_id"]
             isOneToOne: false
-            referencedRelation: "orders"
+            referencedRelation: "customers"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "order_items_product_id_fkey"
+            foreignKeyName: "loyalty_transactions_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "loyalty_transactions_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      manager_overrides: {
+        Row: {
+          action: string
+          approved_by_member_id: string | null
+          approved_by_name: string | null
+          created_at: string
+          details: Json
+          expires_at: string
+          id: string
+          order_id: string | null
+          requested_by: string | null
+          requested_by_member_id: string | null
+          requested_by_name: string | null
+          store_id: string
+          used_at: string | null
+        }
+        Insert: {
+          action: string
+          approved_by_member_id?: string | null
+          approved_by_name?: string | null
+          created_at?: string
+          details?: Json
+          expires_at?: string
+          id?: string
+          order_id?: string | null
+          requested_by?: string | null
+          requested_by_member_id?: string | null
+          requested_by_name?: string | null
+          store_id: string
+          used_at?: string | null
+        }
+        Update: {
+          action?: string
+          approved_by_member_id?: string | null
+          approved_by_name?: string | null
+          created_at?: string
+          details?: Json
+          expires_at?: string
+          id?: string
+          order_id?: string | null
+          requested_by?: string | null
+          requested_by_member_id?: string | null
+          requested_by_name?: string | null
+          store_id?: string
+          used_at?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "manager_overrides_approved_by_member_id_fkey"
+            columns: ["approved_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_overrides_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_overrides_requested_by_member_id_fkey"
+            columns: ["requested_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "manager_overrides_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      notification_settings: {
+        Row: {
+          app_low_stock: boolean | null
+          app_new_orders: boolean | null
+          app_payment_received: boolean | null
+          app_system_updates: boolean | null
+          created_at: string
+          email_daily_sales: boolean | null
+          email_layby_reminders: boolean | null
+          email_low_stock: boolean | null
+          email_new_orders: boolean | null
+          email_payment_received: boolean | null
+          email_weekly_reports: boolean | null
+          id: string
+          low_stock_threshold_days: number | null
+          sales_report_time: string | null
+          sms_daily_sales: boolean | null
+          sms_low_stock: boolean | null
+          sms_payment_received: boolean | null
+          store_id: string
+          updated_at: string
+          user_id: string | null
+        }
+        Insert: {
+          app_low_stock?: boolean | null
+          app_new_orders?: boolean | null
+          app_payment_received?: boolean | null
+          app_system_updates?: boolean | null
+          created_at?: string
+          email_daily_sales?: boolean | null
+          email_layby_reminders?: boolean | null
+          email_low_stock?: boolean | null
+          email_new_orders?: boolean | null
+          email_payment_received?: boolean | null
+          email_weekly_reports?: boolean | null
+          id?: string
+          low_stock_threshold_days?: number | null
+          sales_report_time?: string | null
+          sms_daily_sales?: boolean | null
+          sms_low_stock?: boolean | null
+          sms_payment_received?: boolean | null
+          store_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          app_low_stock?: boolean | null
+          app_new_orders?: boolean | null
+          app_payment_received?: boolean | null
+          app_system_updates?: boolean | null
+          created_at?: string
+          email_daily_sales?: boolean | null
+          email_layby_reminders?: boolean | null
+          email_low_stock?: boolean | null
+          email_new_orders?: boolean | null
+          email_payment_received?: boolean | null
+          email_weekly_reports?: boolean | null
+          id?: string
+          low_stock_threshold_days?: number | null
+          sales_report_time?: string | null
+          sms_daily_sales?: boolean | null
+          sms_low_stock?: boolean | null
+          sms_payment_received?: boolean | null
+          store_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "notification_settings_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_items: {
+        Row: {
+          id: string
+          order_id: string
+          product_id: string
+          quantity: number
+          returned_quantity: number
+          total_price: number
+          unit_price: number
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          id?: string
+          order_id: string
+          product_id: string
+          quantity: number
+          returned_quantity?: number
+          total_price: number
+          unit_price: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          id?: string
+          order_id?: string
+          product_id?: string
+          quantity?: number
+          returned_quantity?: number
+          total_price?: number
+          unit_price?: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_notifications: {
+        Row: {
+          created_at: string
+          id: string
+          is_read: boolean | null
+          message: string
+          notification_type: string
+          order_id: string
+          store_id: string
+          title: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          is_read?: boolean | null
+          message: string
+          notification_type: string
+          order_id: string
+          store_id: string
+          title: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          is_read?: boolean | null
+          message?: string
+          notification_type?: string
+          order_id?: string
+          store_id?: string
+          title?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_notifications_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "public_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_notifications_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_payments: {
+        Row: {
+          amount: number
+          amount_tendered: number | null
+          change_given: number
+          created_at: string
+          id: string
+          order_id: string
+          payment_method: string
+          store_id: string
+          transaction_id: string | null
+        }
+        Insert: {
+          amount: number
+          amount_tendered?: number | null
+          change_given?: number
+          created_at?: string
+          id?: string
+          order_id: string
+          payment_method: string
+          store_id: string
+          transaction_id?: string | null
+        }
+        Update: {
+          amount?: number
+          amount_tendered?: number | null
+          change_given?: number
+          created_at?: string
+          id?: string
+          order_id?: string
+          payment_method?: string
+          store_id?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payments_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_payments_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_return_items: {
+        Row: {
+          created_at: string
+          disposition: string
+          id: string
+          order_item_id: string | null
+          product_id: string | null
+          product_name: string
+          quantity: number
+          reason: string | null
+          refund_amount: number
+          return_id: string
+          sku: string | null
+          unit_price: number
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          created_at?: string
+          disposition: string
+          id?: string
+          order_item_id?: string | null
+          product_id?: string | null
+          product_name: string
+          quantity: number
+          reason?: string | null
+          refund_amount: number
+          return_id: string
+          sku?: string | null
+          unit_price: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          created_at?: string
+          disposition?: string
+          id?: string
+          order_item_id?: string | null
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          reason?: string | null
+          refund_amount?: number
+          return_id?: string
+          sku?: string | null
+          unit_price?: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_return_items_order_item_id_fkey"
+            columns: ["order_item_id"]
+            isOneToOne: false
+            referencedRelation: "order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_return_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_return_items_return_id_fkey"
+            columns: ["return_id"]
+            isOneToOne: false
+            referencedRelation: "order_returns"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_return_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      order_returns: {
+        Row: {
+          amount_collected: number
+          amount_refunded: number
+          approved_by_member_id: string | null
+          approved_by_name: string | null
+          created_at: string
+          customer_id: string | null
+          exchange_order_id: string | null
+          exchange_total: number
+          id: string
+          order_id: string
+          processed_by: string | null
+          processed_by_member_id: string | null
+          processed_by_name: string | null
+          reason: string | null
+          refund_amount: number
+          refund_method: string
+          return_number: string
+          store_id: string
+          transaction_id: string | null
+        }
+        Insert: {
+          amount_collected?: number
+          amount_refunded?: number
+          approved_by_member_id?: string | null
+          approved_by_name?: string | null
+          created_at?: string
+          customer_id?: string | null
+          exchange_order_id?: string | null
+          exchange_total?: number
+          id?: string
+          order_id: string
+          processed_by?: string | null
+          processed_by_member_id?: string | null
+          processed_by_name?: string | null
+          reason?: string | null
+          refund_amount?: number
+          refund_method: string
+          return_number: string
+          store_id: string
+          transaction_id?: string | null
+        }
+        Update: {
+          amount_collected?: number
+          amount_refunded?: number
+          approved_by_member_id?: string | null
+          approved_by_name?: string | null
+          created_at?: string
+          customer_id?: string | null
+          exchange_order_id?: string | null
+          exchange_total?: number
+          id?: string
+          order_id?: string
+          processed_by?: string | null
+          processed_by_member_id?: string | null
+          processed_by_name?: string | null
+          reason?: string | null
+          refund_amount?: number
+          refund_method?: string
+          return_number?: string
+          store_id?: string
+          transaction_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "order_returns_approved_by_member_id_fkey"
+            columns: ["approved_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_exchange_order_id_fkey"
+            columns: ["exchange_order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_processed_by_member_id_fkey"
+            columns: ["processed_by_member_id"]
+            isOneToOne: false
+            referencedRelation: "store_members"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "order_returns_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "transactions"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      orders: {
+        Row: {
+          cashier_id: string
+          client_reference: string | null
+          created_at: string
+          customer_id: string | null
+          discount_amount: number | null
+          discount_code: string | null
+          id: string
+          loyalty_discount_amount: number
+          loyalty_points_redeemed: number
+          offline_sold_at: string | null
+          order_number: string
+          payment_method: string | null
+          refunded_amount: number
+          status: string | null
+          store_id: string
+          subtotal: number
+          tax_amount: number | null
+          total: number
+        }
+        Insert: {
+          cashier_id: string
+          client_reference?: string | null
+          created_at?: string
+          customer_id?: string | null
+          discount_amount?: number | null
+          discount_code?: string | null
+          id?: string
+          loyalty_discount_amount?: number
+          loyalty_points_redeemed?: number
+          offline_sold_at?: string | null
+          order_number: string
+          payment_method?: string | null
+          refunded_amount?: number
+          status?: string | null
+          store_id: string
+          subtotal: number
+          tax_amount?: number | null
+          total: number
+        }
+        Update: {
+          cashier_id?: string
+          client_reference?: string | null
+          created_at?: string
+          customer_id?: string | null
+          discount_amount?: number | null
+          discount_code?: string | null
+          id?: string
+          loyalty_discount_amount?: number
+          loyalty_points_redeemed?: number
+          offline_sold_at?: string | null
+          order_number?: string
+          payment_method?: string | null
+          refunded_amount?: number
+          status?: string | null
+          store_id?: string
+          subtotal?: number
+          tax_amount?: number | null
+          total?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "orders_customer_id_fkey"
+            columns: ["customer_id"]
+            isOneToOne: false
+            referencedRelation: "customers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "orders_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_methods: {
+        Row: {
+          account_number: string
+          created_at: string
+          id: string
+          is_active: boolean | null
+          name: string
+          provider: string
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          account_number: string
+          created_at?: string
+          id?: string
+          is_active?: boolean | null
+          name: string
+          provider: string
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          account_number?: string
+          created_at?: string
+          id?: string
+          is_active?: boolean | null
+          name?: string
+          provider?: string
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_methods_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      payment_webhook_events: {
+        Row: {
+          attempts: number
+          delivery_count: number
+          event_key: string
+          event_type: string | null
+          id: string
+          last_delivered_at: string
+          last_error: string | null
+          next_attempt_at: string | null
+          payload: Json
+          processed_at: string | null
+          provider: string
+          raw_body: string | null
+          received_at: string
+          reference: string | null
+          result: Json | null
+          status: string
+          store_id: string | null
+          target: string
+          updated_at: string
+        }
+        Insert: {
+          attempts?: number
+          delivery_count?: number
+          event_key: string
+          event_type?: string | null
+          id?: string
+          last_delivered_at?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload: Json
+          processed_at?: string | null
+          provider?: string
+          raw_body?: string | null
+          received_at?: string
+          reference?: string | null
+          result?: Json | null
+          status?: string
+          store_id?: string | null
+          target?: string
+          updated_at?: string
+        }
+        Update: {
+          attempts?: number
+          delivery_count?: number
+          event_key?: string
+          event_type?: string | null
+          id?: string
+          last_delivered_at?: string
+          last_error?: string | null
+          next_attempt_at?: string | null
+          payload?: Json
+          processed_at?: string | null
+          provider?: string
+          raw_body?: string | null
+          received_at?: string
+          reference?: string | null
+          result?: Json | null
+          status?: string
+          store_id?: string | null
+          target?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "payment_webhook_events_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      platform_admins: {
+        Row: {
+          created_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          user_id?: string
+        }
+        Relationships: [
+        ]
+      }
+      product_barcodes: {
+        Row: {
+          barcode: string
+          created_at: string
+          id: string
+          position: number
+          product_id: string
+          store_id: string
+        }
+        Insert: {
+          barcode: string
+          created_at?: string
+          id?: string
+          position?: number
+          product_id: string
+          store_id: string
+        }
+        Update: {
+          barcode?: string
+          created_at?: string
+          id?: string
+          position?: number
+          product_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_barcodes_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_barcodes_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_options: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          option_values: string[]
+          position: number
+          product_id: string
+          store_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          option_values?: string[]
+          position?: number
+          product_id: string
+          store_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          option_values?: string[]
+          position?: number
+          product_id?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_options_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_options_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      product_variants: {
+        Row: {
+          barcode: string | null
+          cost: number | null
+          created_at: string
+          id: string
+          is_active: boolean
+          name: string
+          options: Json
+          position: number
+          price: number
+          product_id: string
+          sku: string | null
+          stock_quantity: number
+          store_id: string
+          updated_at: string
+        }
+        Insert: {
+          barcode?: string | null
+          cost?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name: string
+          options?: Json
+          position?: number
+          price: number
+          product_id: string
+          sku?: string | null
+          stock_quantity?: number
+          store_id: string
+          updated_at?: string
+        }
+        Update: {
+          barcode?: string | null
+          cost?: number | null
+          created_at?: string
+          id?: string
+          is_active?: boolean
+          name?: string
+          options?: Json
+          position?: number
+          price?: number
+          product_id?: string
+          sku?: string | null
+          stock_quantity?: number
+          store_id?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "product_variants_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "product_variants_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      products: {
+        Row: {
+          category_id: string | null
+          cost: number | null
+          created_at: string
+          description: string | null
+          has_variants: boolean
+          id: string
+          image_url: string | null
+          is_active: boolean | null
+          is_public: boolean | null
+          low_stock_threshold: number | null
+          name: string
+          price: number
+          public_description: string | null
+          show_price_publicly: boolean | null
+          show_stock_publicly: boolean | null
+          sku: string | null
+          stock_quantity: number | null
+          store_id: string
+          supplier_id: string | null
+          updated_at: string
+        }
+        Insert: {
+          category_id?: string | null
+          cost?: number | null
+          created_at?: string
+          description?: string | null
+          has_variants?: boolean
+          id?: string
+          image_url?: string | null
+          is_active?: boolean | null
+          is_public?: boolean | null
+          low_stock_threshold?: number | null
+          name: string
+          price: number
+          public_description?: string | null
+          show_price_publicly?: boolean | null
+          show_stock_publicly?: boolean | null
+          sku?: string | null
+          stock_quantity?: number | null
+          store_id: string
+          supplier_id?: string | null
+          updated_at?: string
+        }
+        Update: {
+          category_id?: string | null
+          cost?: number | null
+          created_at?: string
+          description?: string | null
+          has_variants?: boolean
+          id?: string
+          image_url?: string | null
+          is_active?: boolean | null
+          is_public?: boolean | null
+          low_stock_threshold?: number | null
+          name?: string
+          price?: number
+          public_description?: string | null
+          show_price_publicly?: boolean | null
+          show_stock_publicly?: boolean | null
+          sku?: string | null
+          stock_quantity?: number | null
+          store_id?: string
+          supplier_id?: string | null
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "products_category_id_fkey"
+            columns: ["category_id"]
+            isOneToOne: false
+            referencedRelation: "categories"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "products_supplier_id_fkey"
+            columns: ["supplier_id"]
+            isOneToOne: false
+            referencedRelation: "suppliers"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      profiles: {
+        Row: {
+          avatar_url: string | null
+          created_at: string
+          display_name: string | null
+          id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          avatar_url?: string | null
+          created_at?: string
+          display_name?: string | null
+          id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: []
+      }
+      public_order_items: {
+        Row: {
+          created_at: string
+          id: string
+          order_id: string
+          product_id: string
+          product_image_url: string | null
+          product_name: string
+          quantity: number
+          selected_variants: Json | null
+          total_price: number
+          unit_price: number
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          order_id: string
+          product_id: string
+          product_image_url?: string | null
+          product_name: string
+          quantity: number
+          selected_variants?: Json | null
+          total_price: number
+          unit_price: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          order_id?: string
+          product_id?: string
+          product_image_url?: string | null
+          product_name?: string
+          quantity?: number
+          selected_variants?: Json | null
+          total_price?: number
+          unit_price?: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_order_items_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "public_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "public_order_items_product_id_fkey"
             columns: ["product_id"]
             isOneToOne: false
             referencedRelation: "products"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "public_order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      orders: {
+      public_order_notifications: {
         Row: {
-          cashier_id: string
+          attempts: number
+          channel: string
           created_at: string
-          customer_id: string | null
+          created_by: string | null
+          error_message: string | null
+          id: string
+          message: string
+          next_attempt_at: string
+          order_id: string
+          order_status: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient_phone: string
+          sent_at: string | null
+          status: string
+          store_id: string
+        }
+        Insert: {
+          attempts?: number
+          channel: string
+          created_at?: string
+          created_by?: string | null
+          error_message?: string | null
+          id?: string
+          message: string
+          next_attempt_at?: string
+          order_id: string
+          order_status: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient_phone: string
+          sent_at?: string | null
+          status?: string
+          store_id: string
+        }
+        Update: {
+          attempts?: number
+          channel?: string
+          created_at?: string
+          created_by?: string | null
+          error_message?: string | null
+          id?: string
+          message?: string
+          next_attempt_at?: string
+          order_id?: string
+          order_status?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient_phone?: string
+          sent_at?: string | null
+          status?: string
+          store_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_order_notifications_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "public_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "public_order_notifications_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      public_order_payments: {
+        Row: {
+          amount: number
+          checkout_url: string | null
+          created_at: string
+          currency: string
+          failed_at: string | null
+          failure_reason: string | null
+          id: string
+          order_id: string
+          paid_at: string | null
+          payment_channel: string | null
+          provider: string
+          provider_charge_id: string | null
+          reversed_amount: number | null
+          reversed_at: string | null
+          status: string
+          store_id: string
+          tx_ref: string
+          updated_at: string
+          webhook_data: Json | null
+        }
+        Insert: {
+          amount: number
+          checkout_url?: string | null
+          created_at?: string
+          currency: string
+          failed_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          order_id: string
+          paid_at?: string | null
+          payment_channel?: string | null
+          provider?: string
+          provider_charge_id?: string | null
+          reversed_amount?: number | null
+          reversed_at?: string | null
+          status?: string
+          store_id: string
+          tx_ref: string
+          updated_at?: string
+          webhook_data?: Json | null
+        }
+        Update: {
+          amount?: number
+          checkout_url?: string | null
+          created_at?: string
+          currency?: string
+          failed_at?: string | null
+          failure_reason?: string | null
+          id?: string
+          order_id?: string
+          paid_at?: string | null
+          payment_channel?: string | null
+          provider?: string
+          provider_charge_id?: string | null
+          reversed_amount?: number | null
+          reversed_at?: string | null
+          status?: string
+          store_id?: string
+          tx_ref?: string
+          updated_at?: string
+          webhook_data?: Json | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_order_payments_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "public_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "public_order_payments_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      public_order_status_history: {
+        Row: {
+          changed_by: string | null
+          created_at: string
+          from_status: string | null
+          id: string
+          note: string | null
+          order_id: string
+          store_id: string
+          to_status: string
+        }
+        Insert: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id: string
+          store_id: string
+          to_status: string
+        }
+        Update: {
+          changed_by?: string | null
+          created_at?: string
+          from_status?: string | null
+          id?: string
+          note?: string | null
+          order_id?: string
+          store_id?: string
+          to_status?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "public_order_status_history_order_id_fkey"
+            columns: ["order_id"]
+            isOneToOne: false
+            referencedRelation: "public_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "public_order_status_history_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      public_orders: {
+        Row: {
+          cancellation_reason: string | null
+          cancelled_at: string | null
+          completed_at: string | null
+          created_at: string
+          customer_name: string
+          customer_phone: string
           discount_amount: number | null
           discount_code: string | null
+          gift_card_amount: number
+          gift_card_id: string | null
           id: string
-          order_number: string
-          payment_method: string | null
+          inventory_reserved: boolean
+          notes: string | null
+          order_code: string
+          paid_at: string | null
+          payment_reference: string | null
+          payment_status: string
+          reserved_until: string | null
+          sales_order_id: string | null
           status: string | null
           store_id: string
           subtotal: number
           tax_amount: number | null
           total: number
+          updated_at: string
+          whatsapp_sent: boolean | null
+          whatsapp_sent_at: string | null
         }
         Insert: {
-          cashier_id: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          completed_at?: string | null
           created_at?: string
-          customer_id?: string | null
+          customer_name: string
+          customer_phone: string
           discount_amount?: number | null
           discount_code?: string | null
+          gift_card_amount?: number
+          gift_card_id?: string | null
           id?: string
-          order_number: string
-          payment_method?: string | null
+          inventory_reserved?: boolean
+          notes?: string | null
+          order_code: string
+          paid_at?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          reserved_until?: string | null
+          sales_order_id?: string | null
           status?: string | null
           store_id: string
           subtotal: number
           tax_amount?: number | null
           total: number
+          updated_at?: string
+          whatsapp_sent?: boolean | null
+          whatsapp_sent_at?: string | null
         }
         Update: {
-          cashier_id?: string
+          cancellation_reason?: string | null
+          cancelled_at?: string | null
+          completed_at?: string | null
           created_at?: string
-          customer_id?: string | null
+          customer_name?: string
+          customer_phone?: string
           discount_amount?: number | null
           discount_code?: string | null
+          gift_card_amount?: number
+          gift_card_id?: string | null
           id?: string
-          order_number?: string
-          payment_method?: string | null
+          inventory_reserved?: boolean
+          notes?: string | null
+          order_code?: string
+          paid_at?: string | null
+          payment_reference?: string | null
+          payment_status?: string
+          reserved_until?: string | null
+          sales_order_id?: string | null
           status?: string | null
           store_id?: string
           subtotal?: number
           tax_amount?: number | null
           total?: number
+          updated_at?: string
+          whatsapp_sent?: boolean | null
+          whatsapp_sent_at?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "orders_customer_id_fkey"
-            columns: ["customer_id"]
+            foreignKeyName: "public_orders_sales_order_id_fkey"
+            columns: ["sales_order_id"]
             isOneToOne: false
-            referencedRelation: "customers"
+            referencedRelation: "orders"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "orders_store_id_fkey"
+            foreignKeyName: "public_orders_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "public_orders_gift_card_id_fkey"
+            columns: ["gift_card_id"]
+            isOneToOne: false
+            referencedRelation: "gift_cards"
+            referencedColumns: ["id"]
+          },
         ]
       }
-      payment_methods: {
+      purchase_order_items: {
         Row: {
-          account_number: string
           created_at: string
           id: string
-          is_active: boolean | null
-          name: string
-          provider: string
+          product_id: string | null
+          product_name: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received: number
+          sku: string | null
           store_id: string
-          updated_at: string
+          unit_cost: number
+          variant_id: string | null
+          variant_name: string | null
         }
         Insert: {
-          account_number: string
           created_at?: string
           id?: string
-          is_active?: boolean | null
-          name: string
-          provider: string
+          product_id?: string | null
+          product_name: string
+          purchase_order_id: string
+          quantity_ordered: number
+          quantity_received?: number
+          sku?: string | null
           store_id: string
-          updated_at?: string
+          unit_cost: number
+          variant_id?: string | null
+          variant_name?: string | null
         }
         Update: {
-          account_number?: string
           created_at?: string
           id?: string
-          is_active?: boolean | null
-          name?: string
-          provider?: string
+          product_id?: string | null
+          product_name?: string
+          purchase_order_id?: string
+          quantity_ordered?: number
+          quantity_received?: number
+          sku?: string | null
+          store_id?: string
+          unit_cost?: number
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_receipt_items: {
+        Row: {
+          id: string
+          new_cost: number | null
+          previous_cost: number | null
+          product_id: string | null
+          purchase_order_item_id: string
+          quantity: number
+          receipt_id: string
+          unit_cost: number
+        }
+        Insert: {
+          id?: string
+          new_cost?: number | null
+          previous_cost?: number | null
+          product_id?: string | null
+          purchase_order_item_id: string
+          quantity: number
+          receipt_id: string
+          unit_cost: number
+        }
+        Update: {
+          id?: string
+          new_cost?: number | null
+          previous_cost?: number | null
+          product_id?: string | null
+          purchase_order_item_id?: string
+          quantity?: number
+          receipt_id?: string
+          unit_cost?: number
+        }
+        Relationships: [
+          {
+            foreignKeyName: "purchase_order_receipt_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_receipt_items_purchase_order_item_id_fkey"
+            columns: ["purchase_order_item_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_items"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_receipt_items_receipt_id_fkey"
+            columns: ["receipt_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_order_receipts"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      purchase_order_receipts: {
+        Row: {
+          cost_method: string
+          id: string
+          notes: string | null
+          purchase_order_id: string
+          received_at: string
+          received_by: string | null
+          store_id: string
+          total_cost: number
+        }
+        Insert: {
+          cost_method: string
+          id?: string
+          notes?: string | null
+          purchase_order_id: string
+          received_at?: string
+          received_by?: string | null
+          store_id: string
+          total_cost?: number
+        }
+        Update: {
+          cost_method?: string
+          id?: string
+          notes?: string | null
+          purchase_order_id?: string
+          received_at?: string
+          received_by?: string | null
           store_id?: string
-          updated_at?: string
+          total_cost?: number
         }
         Relationships: [
           {
-            foreignKeyName: "payment_methods_store_id_fkey"
+            foreignKeyName: "purchase_order_receipts_purchase_order_id_fkey"
+            columns: ["purchase_order_id"]
+            isOneToOne: false
+            referencedRelation: "purchase_orders"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "purchase_order_receipts_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
@@ -1104,87 +3289,74 @@ export type Database = {
           },
         ]
       }
-      products: {
+      purchase_orders: {
         Row: {
-          category_id: string | null
-          cost: number | null
+          closed_at: string | null
           created_at: string
-          description: string | null
+          created_by: string | null
+          expected_date: string | null
           id: string
-          image_url: string | null
-          is_active: boolean | null
-          is_public: boolean | null
-          low_stock_threshold: number | null
-          name: string
-          price: number
-          public_description: string | null
-          show_price_publicly: boolean | null
-          show_stock_publicly: boolean | null
-          sku: string | null
-          stock_quantity: number | null
+          notes: string | null
+          order_date: string | null
+          ordered_at: string | null
+          po_number: string
+          received_at: string | null
+          received_cost: number
+          status: string
           store_id: string
           supplier_id: string | null
+          supplier_name: string
+          total_cost: number
           updated_at: string
         }
         Insert: {
-          category_id?: string | null
-          cost?: number | null
+          closed_at?: string | null
           created_at?: string
-          description?: string | null
+          created_by?: string | null
+          expected_date?: string | null
           id?: string
-          image_url?: string | null
-          is_active?: boolean | null
-          is_public?: boolean | null
-          low_stock_threshold?: number | null
-          name: string
-          price: number
-          public_description?: string | null
-          show_price_publicly?: boolean | null
-          show_stock_publicly?: boolean | null
-          sku?: string | null
-          stock_quantity?: number | null
+          notes?: string | null
+          order_date?: string | null
+          ordered_at?: string | null
+          po_number: string
+          received_at?: string | null
+          received_cost?: number
+          status?: string
           store_id: string
           supplier_id?: string | null
+          supplier_name: string
+          total_cost?: number
           updated_at?: string
         }
         Update: {
-          category_id?: string | null
-          cost?: number | null
+          closed_at?: string | null
           created_at?: string
-          description?: string | null
+          created_by?: string | null
+          expected_date?: string | null
           id?: string
-          image_url?: string | null
-          is_active?: boolean | null
-          is_public?: boolean | null
-          low_stock_threshold?: number | null
-          name?: string
-          price?: number
-          public_description?: string | null
-          show_price_publicly?: boolean | null
-          show_stock_publicly?: boolean | null
-          sku?: string | null
-          stock_quantity?: number | null
+          notes?: string | null
+          order_date?: string | null
+          ordered_at?: string | null
+          po_number?: string
+          received_at?: string | null
+          received_cost?: number
+          status?: string
           store_id?: string
           supplier_id?: string | null
+          supplier_name?: string
+          total_cost?: number
           updated_at?: string
         }
         Relationships: [
           {
-            foreignKeyName: "products_category_id_fkey"
-            columns: ["category_id"]
-            isOneToOne: false
-            referencedRelation: "categories"
-            referencedColumns: ["id"]
-          },
-          {
-            foreignKeyName: "products_store_id_fkey"
+            foreignKeyName: "purchase_orders_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
             referencedColumns: ["id"]
           },
           {
-            foreignKeyName: "products_supplier_id_fkey"
+            foreignKeyName: "purchase_orders_supplier_id_fkey"
             columns: ["supplier_id"]
             isOneToOne: false
             referencedRelation: "suppliers"
@@ -1192,33 +3364,6 @@ export type Database = {
           },
         ]
       }
-      profiles: {
-        Row: {
-          avatar_url: string | null
-          created_at: string
-          display_name: string | null
-          id: string
-          updated_at: string
-          user_id: string
-        }
-        Insert: {
-          avatar_url?: string | null
-          created_at?: string
-          display_name?: string | null
-          id?: string
-          updated_at?: string
-          user_id: string
-        }
-        Update: {
-          avatar_url?: string | null
-          created_at?: string
-          display_name?: string | null
-          id?: string
-          updated_at?: string
-          user_id?: string
-        }
-        Relationships: []
-      }
       showcase_analytics: {
         Row: {
           created_at: string | null
@@ -1342,6 +3487,7 @@ export type Database = {
           reference_id: string | null
           store_id: string
           user_id: string
+          variant_id: string | null
         }
         Insert: {
           adjustment_type: string
@@ -1355,6 +3501,7 @@ export type Database = {
           reference_id?: string | null
           store_id: string
           user_id: string
+          variant_id?: string | null
         }
         Update: {
           adjustment_type?: string
@@ -1368,6 +3515,7 @@ export type Database = {
           reference_id?: string | null
           store_id?: string
           user_id?: string
+          variant_id?: string | null
         }
         Relationships: [
           {
@@ -1384,6 +3532,178 @@ export type Database = {
             referencedRelation: "stores"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "stock_adjustments_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfer_items: {
+        Row: {
+          created_at: string
+          destination_product_id: string | null
+          destination_variant_id: string | null
+          discrepancy_reason: string | null
+          discrepancy_resolution: string | null
+          id: string
+          product_id: string | null
+          product_name: string
+          quantity: number
+          quantity_received: number | null
+          sku: string | null
+          transfer_id: string
+          unit_cost: number | null
+          variant_id: string | null
+          variant_name: string | null
+        }
+        Insert: {
+          created_at?: string
+          destination_product_id?: string | null
+          destination_variant_id?: string | null
+          discrepancy_reason?: string | null
+          discrepancy_resolution?: string | null
+          id?: string
+          product_id?: string | null
+          product_name: string
+          quantity: number
+          quantity_received?: number | null
+          sku?: string | null
+          transfer_id: string
+          unit_cost?: number | null
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Update: {
+          created_at?: string
+          destination_product_id?: string | null
+          destination_variant_id?: string | null
+          discrepancy_reason?: string | null
+          discrepancy_resolution?: string | null
+          id?: string
+          product_id?: string | null
+          product_name?: string
+          quantity?: number
+          quantity_received?: number | null
+          sku?: string | null
+          transfer_id?: string
+          unit_cost?: number | null
+          variant_id?: string | null
+          variant_name?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfer_items_destination_product_id_fkey"
+            columns: ["destination_product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_destination_variant_id_fkey"
+            columns: ["destination_variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_product_id_fkey"
+            columns: ["product_id"]
+            isOneToOne: false
+            referencedRelation: "products"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_transfer_id_fkey"
+            columns: ["transfer_id"]
+            isOneToOne: false
+            referencedRelation: "stock_transfers"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfer_items_variant_id_fkey"
+            columns: ["variant_id"]
+            isOneToOne: false
+            referencedRelation: "product_variants"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      stock_transfers: {
+        Row: {
+          cancelled_at: string | null
+          create_missing_products: boolean
+          created_at: string
+          created_by: string | null
+          dispatched_at: string | null
+          dispatched_by: string | null
+          from_store_id: string
+          has_discrepancy: boolean
+          id: string
+          notes: string | null
+          receive_notes: string | null
+          received_at: string | null
+          received_by: string | null
+          status: string
+          to_store_id: string
+          transfer_number: string
+          updated_at: string
+        }
+        Insert: {
+          cancelled_at?: string | null
+          create_missing_products?: boolean
+          created_at?: string
+          created_by?: string | null
+          dispatched_at?: string | null
+          dispatched_by?: string | null
+          from_store_id: string
+          has_discrepancy?: boolean
+          id?: string
+          notes?: string | null
+          receive_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          status?: string
+          to_store_id: string
+          transfer_number: string
+          updated_at?: string
+        }
+        Update: {
+          cancelled_at?: string | null
+          create_missing_products?: boolean
+          created_at?: string
+          created_by?: string | null
+          dispatched_at?: string | null
+          dispatched_by?: string | null
+          from_store_id?: string
+          has_discrepancy?: boolean
+          id?: string
+          notes?: string | null
+          receive_notes?: string | null
+          received_at?: string | null
+          received_by?: string | null
+          status?: string
+          to_store_id?: string
+          transfer_number?: string
+          updated_at?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "stock_transfers_from_store_id_fkey"
+            columns: ["from_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "stock_transfers_to_store_id_fkey"
+            columns: ["to_store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
         ]
       }
       store_members: {
@@ -1404,31 +3724,122 @@ export type Database = {
           created_at?: string
           email?: string | null
           id?: string
-          is_active?: boolean | null
-          name?: string | null
-          phone?: string | null
-          pin?: string | null
-          role?: Database["public"]["Enums"]["store_role"]
+          is_active?: boolean | null
+          name?: string | null
+          phone?: string | null
+          pin?: string | null
+          role?: Database["public"]["Enums"]["store_role"]
+          store_id: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Update: {
+          created_at?: string
+          email?: string | null
+          id?: string
+          is_active?: boolean | null
+          name?: string | null
+          phone?: string | null
+          pin?: string | null
+          role?: Database["public"]["Enums"]["store_role"]
+          store_id?: string
+          updated_at?: string
+          user_id?: string | null
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_members_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_notifications: {
+        Row: {
+          created_at: string
+          data: Json
+          id: string
+          is_read: boolean
+          message: string
+          notification_type: string
+          store_id: string
+          title: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          data?: Json
+          id?: string
+          is_read?: boolean
+          message: string
+          notification_type: string
+          store_id: string
+          title: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          data?: Json
+          id?: string
+          is_read?: boolean
+          message?: string
+          notification_type?: string
+          store_id?: string
+          title?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "store_notifications_store_id_fkey"
+            columns: ["store_id"]
+            isOneToOne: false
+            referencedRelation: "stores"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      store_payment_gateways: {
+        Row: {
+          created_at: string
+          created_by: string | null
+          id: string
+          is_enabled: boolean
+          provider: string
+          public_key: string | null
+          secret_key: string | null
+          store_id: string
+          updated_at: string
+          webhook_secret: string | null
+        }
+        Insert: {
+          created_at?: string
+          created_by?: string | null
+          id?: string
+          is_enabled?: boolean
+          provider?: string
+          public_key?: string | null
+          secret_key?: string | null
           store_id: string
           updated_at?: string
-          user_id?: string | null
+          webhook_secret?: string | null
         }
         Update: {
           created_at?: string
-          email?: string | null
+          created_by?: string | null
           id?: string
-          is_active?: boolean | null
-          name?: string | null
-          phone?: string | null
-          pin?: string | null
-          role?: Database["public"]["Enums"]["store_role"]
+          is_enabled?: boolean
+          provider?: string
+          public_key?: string | null
+          secret_key?: string | null
           store_id?: string
           updated_at?: string
-          user_id?: string | null
+          webhook_secret?: string | null
         }
         Relationships: [
           {
-            foreignKeyName: "store_members_store_id_fkey"
+            foreignKeyName: "store_payment_gateways_store_id_fkey"
             columns: ["store_id"]
             isOneToOne: false
             referencedRelation: "stores"
@@ -1443,6 +3854,7 @@ export type Database = {
           auto_deduct_inventory: boolean | null
           auto_print_receipts: boolean | null
           backup_frequency_days: number | null
+          barcode_label_size: string | null
           barcode_scanner_enabled: boolean | null
           business_hours: Json | null
           cash_drawer_enabled: boolean | null
@@ -1450,9 +3862,14 @@ export type Database = {
           customer_loyalty_enabled: boolean | null
           daily_sales_report: boolean | null
           default_payment_method: string | null
+          discount_approval_threshold: number
           email_notifications: boolean | null
+          gift_card_expiry_months: number | null
           id: string
           low_stock_alerts: boolean | null
+          loyalty_min_redeem_points: number | null
+          loyalty_point_value: number | null
+          loyalty_points_per_unit: number | null
           negative_inventory_allowed: boolean | null
           receipt_footer: string | null
           receipt_header: string | null
@@ -1463,6 +3880,7 @@ export type Database = {
           show_store_logo: boolean | null
           show_tax_breakdown: boolean | null
           sms_notifications: boolean | null
+          store_credit_expiry_months: number | null
           store_id: string
           updated_at: string
           weekly_inventory_report: boolean | null
@@ -1473,6 +3891,7 @@ export type Database = {
           auto_deduct_inventory?: boolean | null
           auto_print_receipts?: boolean | null
           backup_frequency_days?: number | null
+          barcode_label_size?: string | null
           barcode_scanner_enabled?: boolean | null
           business_hours?: Json | null
           cash_drawer_enabled?: boolean | null
@@ -1480,9 +3899,14 @@ export type Database = {
           customer_loyalty_enabled?: boolean | null
           daily_sales_report?: boolean | null
           default_payment_method?: string | null
+          discount_approval_threshold?: number
           email_notifications?: boolean | null
+          gift_card_expiry_months?: number | null
           id?: string
           low_stock_alerts?: boolean | null
+          loyalty_min_redeem_points?: number | null
+          loyalty_point_value?: number | null
+          loyalty_points_per_unit?: number | null
           negative_inventory_allowed?: boolean | null
           receipt_footer?: string | null
           receipt_header?: string | null
@@ -1493,6 +3917,7 @@ export type Database = {
           show_store_logo?: boolean | null
           show_tax_breakdown?: boolean | null
           sms_notifications?: boolean | null
+          store_credit_expiry_months?: number | null
           store_id: string
           updated_at?: string
           weekly_inventory_report?: boolean | null
@@ -1503,6 +3928,7 @@ export type Database = {
           auto_deduct_inventory?: boolean | null
           auto_print_receipts?: boolean | null
           backup_frequency_days?: number | null
+          barcode_label_size?: string | null
           barcode_scanner_enabled?: boolean | null
           business_hours?: Json | null
           cash_drawer_enabled?: boolean | null
@@ -1510,9 +3936,14 @@ export type Database = {
           customer_loyalty_enabled?: boolean | null
           daily_sales_report?: boolean | null
           default_payment_method?: string | null
+          discount_approval_threshold?: number
           email_notifications?: boolean | null
+          gift_card_expiry_months?: number | null
           id?: string
           low_stock_alerts?: boolean | null
+          loyalty_min_redeem_points?: number | null
+          loyalty_point_value?: number | null
+          loyalty_points_per_unit?: number | null
           negative_inventory_allowed?: boolean | null
           receipt_footer?: string | null
           receipt_header?: string | null
@@ -1523,6 +3954,7 @@ export type Database = {
           show_store_logo?: boolean | null
           show_tax_breakdown?: boolean | null
           sms_notifications?: boolean | null
+          store_credit_expiry_months?: number | null
           store_id?: string
           updated_at?: string
           weekly_inventory_report?: boolean | null
@@ -1548,6 +3980,7 @@ export type Database = {
           name: string
           owner_id: string
           phone: string | null
+          public_order_hold_hours: number
           showcase_banner_url: string | null
           showcase_contact_info: Json | null
           showcase_description: string | null
@@ -1570,6 +4003,7 @@ export type Database = {
           name: string
           owner_id: string
           phone?: string | null
+          public_order_hold_hours?: number
           showcase_banner_url?: string | null
           showcase_contact_info?: Json | null
           showcase_description?: string | null
@@ -1592,6 +4026,7 @@ export type Database = {
           name?: string
           owner_id?: string
           phone?: string | null
+          public_order_hold_hours?: number
           showcase_banner_url?: string | null
           showcase_contact_info?: Json | null
           showcase_description?: string | null
@@ -1606,6 +4041,67 @@ export type Database = {
         }
         Relationships: []
       }
+      subscription_notifications: {
+        Row: {
+          attempts: number
+          billing_cycle_id: string | null
+          channel: string
+          created_at: string
+          error_message: string | null
+          id: string
+          kind: string
+          message: string
+          next_attempt_at: string
+          provider: string | null
+          provider_message_id: string | null
+          recipient_email: string
+          sent_at: string | null
+          status: string
+          subject: string
+          subscription_id: string
+          user_id: string
+        }
+        Insert: {
+          attempts?: number
+          billing_cycle_id?: string | null
+          channel?: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          kind: string
+          message: string
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient_email: string
+          sent_at?: string | null
+          status?: string
+          subject: string
+          subscription_id: string
+          user_id: string
+        }
+        Update: {
+          attempts?: number
+          billing_cycle_id?: string | null
+          channel?: string
+          created_at?: string
+          error_message?: string | null
+          id?: string
+          kind?: string
+          message?: string
+          next_attempt_at?: string
+          provider?: string | null
+          provider_message_id?: string | null
+          recipient_email?: string
+          sent_at?: string | null
+          status?: string
+          subject?: string
+          subscription_id?: string
+          user_id?: string
+        }
+        Relationships: [
+        ]
+      }
       suppliers: {
         Row: {
           address: string | null
@@ -1777,6 +4273,15 @@ export type Database = {
       [_ in never]: never
     }
     Functions: {
+      adjust_variant_stock: {
+        Args: {
+          _variant_id: string
+          _quantity_change: number
+          _adjustment_type?: string
+          _reason?: string | null
+        }
+        Returns: Json
+      }
       apply_discount_to_order: {
         Args: {
           discount_id_param: string
@@ -1789,10 +4294,213 @@ export type Database = {
           message: string
         }[]
       }
+      apply_layby_charge: {
+        Args: {
+          _layby_order_id: string
+          _charge_type: string
+          _amount: number
+          _as_of: string
+          _schedule_id?: string | null
+          _description?: string | null
+        }
+        Returns: undefined
+      }
+      apply_subscription_payment_event: {
+        Args: {
+          _tx_ref: string
+          _outcome: string
+          _charge_id?: string
+          _channel?: string
+          _payload?: Json
+          _amount?: number
+        }
+        Returns: Json
+      }
+      authorize_manager_override: {
+        Args: {
+          _store_id: string
+          _action: string
+          _pin?: string
+          _details?: Json
+          _pin_session?: string
+        }
+        Returns: Json
+      }
+      begin_public_order_payment: {
+        Args: { _order_code: string }
+        Returns: Json
+      }
+      begin_subscription_payment: {
+        Args: { _subscription_id: string; _tx_ref?: string; _user_id?: string }
+        Returns: Json
+      }
       calculate_layby_interest: {
-        Args: { _layby_order_id: string }
+        Args: { _layby_order_id: string; _as_of?: string }
         Returns: number
       }
+      cancel_layby: {
+        Args: {
+          _layby_order_id: string
+          _reason: string
+          _restocking_fee?: number | null
+          _refund_method?: string
+          _forfeit?: boolean
+        }
+        Returns: Json
+      }
+      cancel_stock_transfer: {
+        Args: { _transfer_id: string }
+        Returns: Json
+      }
+      change_subscription_plan: {
+        Args: {
+          _subscription_id: string
+          _plan_id: string
+          _billing_cycle?: string
+        }
+        Returns: Json
+      }
+      check_showcase_gift_card: {
+        Args: { store_identifier: string; gift_card_code: string }
+        Returns: Json
+      }
+      check_subscription_limits: {
+        Args: {
+          _user_id: string
+          _action: string
+          _store_id?: string | null
+        }
+        Returns: Json
+      }
+      check_user_access: {
+        Args: { _user_id: string }
+        Returns: Json
+      }
+      checkout: {
+        Args: {
+          _store_id: string
+          _order_number: string
+          _items: Json
+          _payment_method: string
+          _customer_id?: string | null
+          _discount_amount?: number
+          _discount_code?: string | null
+          _tax_amount?: number
+          _sold_at?: string | null
+          _client_reference?: string | null
+          _discounts?: Json
+          _loyalty_points?: number
+          _discount_approval_id?: string
+          _pin_session?: string
+          _gift_cards?: Json
+          _payments?: Json
+        }
+        Returns: Json
+      }
+      claim_customer_campaign_messages: {
+        Args: { _channels?: string[]; _limit?: number }
+        Returns: Json
+      }
+      claim_layby_notifications: {
+        Args: { _channels?: string[]; _limit?: number }
+        Returns: Json
+      }
+      claim_public_order_notifications: {
+        Args: { _channels?: string[]; _limit?: number }
+        Returns: Json
+      }
+      claim_subscription_notifications: {
+        Args: { _channels?: string[]; _limit?: number }
+        Returns: Json
+      }
+      close_cash_drawer_shift: {
+        Args: {
+          _shift_id: string
+          _counted_cash: number
+          _member_id?: string | null
+          _notes?: string | null
+        }
+        Returns: Json
+      }
+      complete_layby: {
+        Args: {
+          _layby_order_id: string
+          _completed_by?: string | null
+        }
+        Returns: Json
+      }
+      complete_public_order: {
+        Args: {
+          p_order_id: string
+          p_customer_name?: string | null
+          p_customer_phone?: string | null
+          p_payment_method?: string
+        }
+        Returns: Json
+      }
+      confirm_subscription_payment: {
+        Args: {
+          _subscription_id: string
+          _tx_ref: string
+          _amount: number
+          _charge_id?: string
+          _channel?: string
+          _payload?: Json
+        }
+        Returns: Json
+      }
+      create_layby: {
+        Args: {
+          _store_id: string
+          _items: Json
+          _customer_name: string
+          _customer_phone?: string | null
+          _customer_email?: string | null
+          _customer_id?: string | null
+          _deposit_amount?: number
+          _deposit_method?: string
+          _schedule_type?: string
+          _installments?: number | null
+          _notes?: string | null
+        }
+        Returns: Json
+      }
+      create_pin_session: {
+        Args: { _store_id: string; _member_id: string; _pin: string }
+        Returns: {
+          success: boolean
+          session_token: string | null
+          expires_at: string | null
+          member_name: string | null
+          role: Database["public"]["Enums"]["store_role"] | null
+        }[]
+      }
+      create_public_order: {
+        Args: {
+          store_identifier: string
+          customer_data: Json
+          order_items: Json[]
+          discount_code_param?: string | null
+          gift_card_code_param?: string | null
+        }
+        Returns: Json
+      }
+      delete_customer_segment: {
+        Args: { _segment_id: string; _pin_session?: string }
+        Returns: Json
+      }
+      dispatch_stock_transfer: {
+        Args: { _transfer_id: string }
+        Returns: Json
+      }
+      expire_gift_cards: {
+        Args: { _as_of?: string }
+        Returns: Json
+      }
+      expire_public_orders: {
+        Args: { _as_of?: string }
+        Returns: Json
+      }
       generate_layby_number: {
         Args: { store_id_param: string }
         Returns: string
@@ -1804,6 +4512,7 @@ export type Database = {
           _start_date: string
           _total_amount: number
           _deposit_amount: number
+          _installments?: number | null
         }
         Returns: undefined
       }
@@ -1811,6 +4520,82 @@ export type Database = {
         Args: { store_id_param: string }
         Returns: string
       }
+      get_cash_drawer_report: {
+        Args: { _shift_id: string }
+        Returns: Json
+      }
+      get_customer_segments: {
+        Args: { _store_id: string; _days?: number }
+        Returns: Json
+      }
+      get_discount_redemptions: {
+        Args: {
+          _store_id: string
+          _start_date?: string | null
+          _end_date?: string | null
+        }
+        Returns: {
+          discount_id: string
+          name: string
+          code: string | null
+          type: string
+          value: number
+          redemptions: number
+          pos_redemptions: number
+          showcase_redemptions: number
+          unique_customers: number
+          total_discount: number
+          last_used_at: string
+        }[]
+      }
+      get_plan_entitlements: {
+        Args: { _store_id?: string | null }
+        Returns: Json
+      }
+      get_public_order_by_code: {
+        Args: { order_code_param: string }
+        Returns: Json
+      }
+      get_public_order_payment: {
+        Args: { _tx_ref: string }
+        Returns: Json
+      }
+      get_public_order_payment_gateway: {
+        Args: { _tx_ref: string }
+        Returns: Json
+      }
+      get_reorder_suggestions: {
+        Args: {
+          _store_id: string
+          _sales_days?: number
+          _cover_days?: number
+        }
+        Returns: Json
+      }
+      get_showcase_discounts: {
+        Args: { store_identifier: string; discount_code_param?: string | null }
+        Returns: Json
+      }
+      get_showcase_payment_options: {
+        Args: { store_identifier: string }
+        Returns: Json
+      }
+      get_store_payment_gateway: {
+        Args: { _store_id: string; _provider?: string }
+        Returns: Json
+      }
+      get_subscription_invoice: {
+        Args: { _billing_cycle_id: string }
+        Returns: Json
+      }
+      get_supplier_spend: {
+        Args: {
+          _store_id: string
+          _from?: string | null
+          _to?: string | null
+        }
+        Returns: Json
+      }
       has_store_access: {
         Args: {
           _store_id: string
@@ -1830,14 +4615,320 @@ export type Database = {
         Args: { _store_id: string }
         Returns: undefined
       }
-      update_overdue_layby_orders: {
+      invalidate_pin_session: {
+        Args: { _session_token: string }
+        Returns: boolean
+      }
+      is_platform_admin: {
+        Args: Record<PropertyKey, never>
+        Returns: boolean
+      }
+      issue_gift_card: {
+        Args: {
+          _store_id: string
+          _amount: number
+          _payment_method?: string
+          _customer_id?: string
+          _notes?: string
+          _pin_session?: string
+        }
+        Returns: Json
+      }
+      issue_store_credit: {
+        Args: {
+          _store_id: string
+          _customer_id: string
+          _amount: number
+          _reason: string
+          _pin_session?: string
+        }
+        Returns: Json
+      }
+      materialize_recurring_expenses: {
+        Args: {
+          _as_of?: string
+          _store_id?: string | null
+          _dry_run?: boolean
+        }
+        Returns: Json
+      }
+      open_cash_drawer_shift: {
+        Args: {
+          _store_id: string
+          _opening_float: number
+          _member_id?: string | null
+          _notes?: string | null
+        }
+        Returns: Json
+      }
+      payment_webhook_event_key: {
+        Args: { _payload: Json }
+        Returns: string
+      }
+      preview_customer_segment: {
+        Args: { _store_id: string; _rules: Json }
+        Returns: Json
+      }
+      process_layby_payment: {
+        Args: {
+          _layby_order_id: string
+          _payment_amount: number
+          _payment_method: string
+          _payment_reference: string | null
+          _notes: string | null
+          _processed_by: string
+        }
+        Returns: string
+      }
+      process_order_return: {
+        Args: {
+          _order_id: string
+          _items: Json
+          _refund_method: string
+          _reason?: string
+          _exchange_items?: Json
+          _exchange_order_number?: string
+          _pin_session?: string
+          _approval_pin?: string
+        }
+        Returns: Json
+      }
+      process_payment_webhook_event: {
+        Args: { _event_id: string; _force?: boolean }
+        Returns: Json
+      }
+      public_order_transition_allowed: {
+        Args: { _from: string; _to: string }
+        Returns: boolean
+      }
+      queue_customer_campaign: {
+        Args: {
+          _segment_id: string
+          _name: string
+          _channel: string
+          _message: string
+          _pin_session?: string
+        }
+        Returns: Json
+      }
+      queue_layby_notification: {
+        Args: {
+          _layby_order_id: string
+          _notification_type: string
+          _channel: string
+          _schedule_id?: string | null
+          _created_by?: string | null
+        }
+        Returns: string
+      }
+      queue_layby_reminders: {
+        Args: { _as_of?: string; _store_id?: string | null }
+        Returns: Json
+      }
+      receive_payment_webhook_event: {
+        Args: { _payload: Json; _raw_body?: string; _provider?: string }
+        Returns: Json
+      }
+      receive_purchase_order: {
+        Args: {
+          _purchase_order_id: string
+          _items: Json
+          _cost_method?: string
+          _notes?: string | null
+        }
+        Returns: Json
+      }
+      receive_stock_transfer: {
+        Args: {
+          _transfer_id: string
+          _items?: Json
+          _notes?: string
+        }
+        Returns: Json
+      }
+      record_cash_drawer_movement: {
+        Args: {
+          _shift_id: string
+          _movement_type: string
+          _amount: number
+          _reason: string
+          _member_id?: string | null
+        }
+        Returns: Json
+      }
+      record_customer_campaign_message_result: {
+        Args: {
+          _notification_id: string
+          _sent: boolean
+          _error?: string | null
+          _provider?: string | null
+          _provider_message_id?: string | null
+        }
+        Returns: undefined
+      }
+      record_layby_notification_result: {
+        Args: {
+          _notification_id: string
+          _sent: boolean
+          _error?: string | null
+          _provider?: string | null
+          _provider_message_id?: string | null
+        }
+        Returns: undefined
+      }
+      record_public_order_notification_result: {
+        Args: {
+          _notification_id: string
+          _sent: boolean
+          _error?: string | null
+          _provider?: string | null
+          _provider_message_id?: string | null
+        }
+        Returns: undefined
+      }
+      record_public_order_payment: {
+        Args: {
+          _tx_ref: string
+          _paid: boolean
+          _amount?: number
+          _charge_id?: string
+          _channel?: string
+          _failure_reason?: string
+          _payload?: Json
+          _currency?: string
+        }
+        Returns: Json
+      }
+      record_subscription_notification_result: {
+        Args: {
+          _notification_id: string
+          _sent: boolean
+          _error?: string
+          _provider?: string
+          _provider_message_id?: string
+        }
+        Returns: undefined
+      }
+      refresh_customer_rfm_scores: {
+        Args: { _store_id?: string }
+        Returns: Json
+      }
+      refresh_customer_segments: {
         Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      refresh_subscription_usage: {
+        Args: Record<PropertyKey, never>
+        Returns: undefined
+      }
+      render_layby_notification: {
+        Args: {
+          _layby_order_id: string
+          _notification_type: string
+          _schedule_id?: string | null
+        }
+        Returns: Json
+      }
+      replay_payment_webhook_event: {
+        Args: { _event_id: string }
+        Returns: Json
+      }
+      retry_payment_webhook_events: {
+        Args: { _limit?: number; _received_grace?: unknown }
+        Returns: Json
+      }
+      reverse_public_order_payment: {
+        Args: {
+          _tx_ref: string
+          _kind: string
+          _amount?: number
+          _payload?: Json
+        }
+        Returns: Json
+      }
+      run_subscription_billing: {
+        Args: { _as_of?: string }
+        Returns: Json
+      }
+      save_customer_segment: {
+        Args: {
+          _store_id: string
+          _name: string
+          _rules: Json
+          _description?: string
+          _segment_id?: string
+          _pin_session?: string
+        }
+        Returns: Json
+      }
+      save_product_variants: {
+        Args: {
+          _product_id: string
+          _options: Json
+          _variants: Json
+        }
+        Returns: Json
+      }
+      save_purchase_order: {
+        Args: {
+          _store_id: string
+          _supplier_id: string
+          _items: Json
+          _purchase_order_id?: string | null
+          _expected_date?: string | null
+          _notes?: string | null
+        }
+        Returns: Json
+      }
+      save_stock_transfer: {
+        Args: {
+          _from_store_id: string
+          _to_store_id: string
+          _items: Json
+          _transfer_id?: string
+          _create_missing_products?: boolean
+          _notes?: string
+        }
+        Returns: Json
+      }
+      save_store_payment_gateway: {
+        Args: {
+          _store_id: string
+          _is_enabled: boolean
+          _public_key?: string
+          _secret_key?: string
+          _webhook_secret?: string
+          _provider?: string
+        }
+        Returns: Json
+      }
+      set_subscription_payment_checkout: {
+        Args: { _tx_ref: string; _checkout_url: string }
         Returns: undefined
       }
+      subscription_billing_policy: {
+        Args: Record<PropertyKey, never>
+        Returns: Json
+      }
+      update_overdue_layby_orders: {
+        Args: { _as_of?: string }
+        Returns: Json
+      }
       update_overdue_laybys: {
         Args: Record<PropertyKey, never>
         Returns: number
       }
+      update_public_order_status: {
+        Args: { _order_id: string; _status: string; _note?: string | null }
+        Returns: Json
+      }
+      update_purchase_order_status: {
+        Args: {
+          _purchase_order_id: string
+          _status: string
+        }
+        Returns: Json
+      }
       user_can_access_store: {
         Args: { _store_id: string }
         Returns: boolean
@@ -0,0 +1,165 @@
+/**
+ * Barcode helpers shared by the POS scanner and the inventory label sheets.
+ *
+ * Products can carry any number of barcodes (`product_barcodes`) on top of
+ * their SKU. Labels are printed as EAN-13 when the code is a valid EAN-13
+ * (or a 12 digit code we can add the check digit to) and Code128 otherwise.
+ */
+
+export type BarcodeFormat = 'code128' | 'ean13';
+
+export interface BarcodedProduct {
+  sku: string | null;
+  product_barcodes?: { barcode: string }[] | null;
+}
+
+// Code128 bar/space widths for symbol values 0-106; 106 is the stop pattern
+const CODE128_PATTERNS = [
+  '212222', '222122', '222221', '121223', '121322', '131222', '122213', '122312', '132212', '221213',
+  '221312', '231212', '112232', '122132', '122231', '113222', '123122', '123221', '223211', '221132',
+  '221231', '213212', '223112', '312131', '311222', '321122', '321221', '312212', '322112', '322211',
+  '212123', '212321', '232121', '111323', '131123', '131321', '112313', '132113', '132311', '211313',
+  '231113', '231311', '112133', '112331', '132131', '113123', '113321', '133121', '313121', '211331',
+  '231131', '213113', '213311', '213131', '311123', '311321', '331121', '312113', '312311', '332111',
+  '314111', '221411', '431111', '111224', '111422', '121124', '121421', '141122', '141221', '112214',
+  '112412', '122114', '122411', '142112', '142211', '241211', '221114', '413111', '241112', '134111',
+  '111242', '121142', '121241', '114212', '124112', '124211', '411212', '421112', '421211', '212141',
+  '214121', '412121', '111143', '111341', '131141', '114113', '114311', '411113', '411311', '113141',
+  '114131', '311141', '411131', '211412', '211214', '211232', '2331112',
+];
+
+const CODE128_START_B = 104;
+const CODE128_START_C = 105;
+const CODE128_STOP = 106;
+
+const EAN_L_CODES = ['0001101', '0011001', '0010011', '0111101', '0100011', '0110001', '0101111', '0111011', '0110111', '0001011'];
+const EAN_G_CODES = ['0100111', '0110011', '0011011', '0100001', '0011101', '0111001', '0000101', '0010001', '0001001', '0010111'];
+const EAN_R_CODES = ['1110010', '1100110', '1101100', '1000010', '1011100', '1001110', '1010000', '1000100', '1001000', '1110100'];
+// Which left-hand digits use the G (even parity) set, keyed by the first digit
+const EAN_PARITY = ['LLLLLL', 'LLGLGG', 'LLGGLG', 'LLGGGL', 'LGLLGG', 'LGGLLG', 'LGGGLL', 'LGLGLG', 'LGLGGL', 'LGGLGL'];
+
+export const normalizeBarcode = (value: string): string => value.trim();
+
+/**
+ * Split the free-text barcode field on product forms into distinct codes
+ */
+export const parseBarcodeList = (value: string | null | undefined): string[] => {
+  const codes = (value || '')
+    .split(/[,;\n]+/)
+    .map(normalizeBarcode)
+    .filter(Boolean);
+  return Array.from(new Set(codes));
+};
+
+/**
+ * Code128 set B covers printable ASCII, so that is all we accept
+ */
+export const isPrintableBarcode = (code: string): boolean => /^[\x20-\x7E]+$/.test(code);
+
+export const calculateEan13CheckDigit = (digits: string): number => {
+  const sum = digits
+    .slice(0, 12)
+    .split('')
+    .reduce((total, digit, index) => total + Number(digit) * (index % 2 === 0 ? 1 : 3), 0);
+  return (10 - (sum % 10)) % 10;
+};
+
+export const isValidEan13 = (code: string): boolean =>
+  /^\d{13}$/.test(code) && calculateEan13CheckDigit(code) === Number(code[12]);
+
+/**
+ * EAN-13 for valid 13 digit codes and bare 12 digit codes, Code128 for everything else
+ */
+export const detectBarcodeFormat = (code: string): BarcodeFormat =>
+  isValidEan13(code) || /^\d{12}$/.test(code) ? 'ean13' : 'code128';
+
+const widthsToModules = (widths: string): string =>
+  widths
+    .split('')
+    .map((width, index) => (index % 2 === 0 ? '1' : '0').repeat(Number(width)))
+    .join('');
+
+/**
+ * Encode a value as Code128 modules ('1' = bar, '0' = space). Even-length
+ * numeric values use the denser set C.
+ */
+export const encodeCode128 = (code: string): string => {
+  if (!code || !isPrintableBarcode(code)) {
+    throw new Error(`Cannot encode "${code}" as Code128`);
+  }
+
+  const useSetC = /^\d+$/.test(code) && code.length % 2 === 0;
+  const values = useSetC
+    ? [CODE128_START_C, ...(code.match(/\d{2}/g) || []).map(Number)]
+    : [CODE128_START_B, ...code.split('').map(char => char.charCodeAt(0) - 32)];
+
+  const checksum = values.reduce((sum, value, index) => sum + value * (index === 0 ? 1 : index), 0) % 103;
+
+  return [...values, checksum, CODE128_STOP]
+    .map(value => widthsToModules(CODE128_PATTERNS[value]))
+    .join('');
+};
+
+/**
+ * Encode a 12 or 13 digit code as EAN-13 modules, adding the check digit when missing
+ */
+export const encodeEan13 = (code: string): string => {
+  const full = code.length === 12 ? `${code}${calculateEan13CheckDigit(code)}` : code;
+  if (!isValidEan13(full)) {
+    throw new Error(`"${code}" is not a valid EAN-13 code`);
+  }
+
+  const digits = full.split('').map(Number);
+  const parity = EAN_PARITY[digits[0]];
+  const left = digits
+    .slice(1, 7)
+    .map((digit, index) => (parity[index] === 'L' ? EAN_L_CODES[digit] : EAN_G_CODES[digit]))
+    .join('');
+  const right = digits
+    .slice(7)
+    .map(digit => EAN_R_CODES[digit])
+    .join('');
+
+  return `101${left}01010${right}101`;
+};
+
+export const encodeBarcode = (code: string, format: BarcodeFormat): string =>
+  format === 'ean13' ? encodeEan13(code) : encodeCode128(code);
+
+export const canEncodeBarcode = (code: string, format: BarcodeFormat | 'auto'): boolean => {
+  try {
+    encodeBarcode(code, format === 'auto' ? detectBarcodeFormat(code) : format);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * The human-readable text printed under the bars
+ */
+export const formatBarcodeText = (code: string, format: BarcodeFormat): string =>
+  format === 'ean13' && code.length === 12 ? `${code}${calculateEan13CheckDigit(code)}` : code;
+
+/**
+ * The code a label should print: the product's first barcode, then its SKU
+ */
+export const getPrimaryBarcode = (product: BarcodedProduct): string | null =>
+  product.product_barcodes?.[0]?.barcode || product.sku || null;
+
+/**
+ * Find the product a scanned code belongs to. Barcodes are matched exactly;
+ * SKUs are matched case-insensitively since they are often typed by hand.
+ */
+export const findProductByCode = <T extends BarcodedProduct>(products: T[], code: string): T | undefined => {
+  const scanned = normalizeBarcode(code);
+  if (!scanned) return undefined;
+
+  const byBarcode = products.find(product =>
+    product.product_barcodes?.some(entry => entry.barcode === scanned)
+  );
+  if (byBarcode) return byBarcode;
+
+  const lower = scanned.toLowerCase();
+  return products.find(product => product.sku?.toLowerCase() === lower);
+};
@@ -0,0 +1,149 @@
+import jsPDF from 'jspdf';
+import { detectBarcodeFormat, encodeBarcode, formatBarcodeText, type BarcodeFormat } from '@/lib/barcode';
+
+export interface LabelSize {
+  id: string;
+  name: string;
+  width: number;
+  height: number;
+}
+
+// Common A4 label stock, in millimetres
+export const LABEL_SIZES: LabelSize[] = [
+  { id: 'small', name: 'Small - 38.1 x 21.2 mm (65 per sheet)', width: 38.1, height: 21.2 },
+  { id: 'medium', name: 'Medium - 63.5 x 38.1 mm (21 per sheet)', width: 63.5, height: 38.1 },
+  { id: 'large', name: 'Large - 99.1 x 67.7 mm (8 per sheet)', width: 99.1, height: 67.7 },
+];
+
+export const DEFAULT_LABEL_SIZE = 'medium';
+
+export interface BarcodeLabel {
+  name: string;
+  price: number;
+  code: string;
+}
+
+export interface LabelSheetOptions {
+  width: number;
+  height: number;
+  format: BarcodeFormat | 'auto';
+  showName: boolean;
+  showPrice: boolean;
+  formatPrice: (amount: number) => string;
+}
+
+const PAGE_WIDTH = 210;
+const PAGE_HEIGHT = 297;
+const MIN_MARGIN_X = 5;
+const MIN_MARGIN_Y = 10;
+const GAP = 2.5;
+
+export const getLabelSize = (id: string | null | undefined): LabelSize =>
+  LABEL_SIZES.find(size => size.id === id) || LABEL_SIZES.find(size => size.id === DEFAULT_LABEL_SIZE)!;
+
+/**
+ * How many labels of a given size fit on one A4 sheet
+ */
+export const getLabelGrid = (width: number, height: number) => {
+  const columns = Math.max(1, Math.floor((PAGE_WIDTH - MIN_MARGIN_X * 2 + GAP) / (width + GAP)));
+  const rows = Math.max(1, Math.floor((PAGE_HEIGHT - MIN_MARGIN_Y * 2 + GAP) / (height + GAP)));
+  return {
+    columns,
+    rows,
+    perPage: columns * rows,
+    marginX: (PAGE_WIDTH - (columns * width + (columns - 1) * GAP)) / 2,
+    marginY: (PAGE_HEIGHT - (rows * height + (rows - 1) * GAP)) / 2,
+  };
+};
+
+const truncate = (doc: jsPDF, text: string, maxWidth: number): string => {
+  if (doc.getTextWidth(text) <= maxWidth) return text;
+  let shortened = text;
+  while (shortened.length > 1 && doc.getTextWidth(`${shortened}...`) > maxWidth) {
+    shortened = shortened.slice(0, -1);
+  }
+  return `${shortened}...`;
+};
+
+const drawBars = (doc: jsPDF, modules: string, x: number, y: number, width: number, height: number) => {
+  const moduleWidth = width / modules.length;
+  let runStart = -1;
+
+  for (let i = 0; i <= modules.length; i++) {
+    if (modules[i] === '1') {
+      if (runStart < 0) runStart = i;
+    } else if (runStart >= 0) {
+      doc.rect(x + runStart * moduleWidth, y, (i - runStart) * moduleWidth, height, 'F');
+      runStart = -1;
+    }
+  }
+};
+
+const drawLabel = (doc: jsPDF, label: BarcodeLabel, x: number, y: number, options: LabelSheetOptions) => {
+  const padding = Math.min(2, options.width * 0.05);
+  const innerWidth = options.width - padding * 2;
+  const fontScale = Math.min(1, options.height / 38.1);
+  let cursor = y + padding;
+
+  doc.setTextColor(0, 0, 0);
+
+  if (options.showName) {
+    const size = Math.max(6, 9 * fontScale);
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(size);
+    cursor += size * 0.35;
+    doc.text(truncate(doc, label.name, innerWidth), x + options.width / 2, cursor, { align: 'center' });
+    cursor += 1;
+  }
+
+  const priceSize = Math.max(7, 12 * fontScale);
+  const textSize = Math.max(5, 7 * fontScale);
+  const footer = (options.showPrice ? priceSize * 0.35 + 1 : 0) + textSize * 0.35 + 1.5;
+  const barHeight = Math.max(4, y + options.height - padding - footer - cursor - 1);
+
+  const format = options.format === 'auto' ? detectBarcodeFormat(label.code) : options.format;
+  const modules = encodeBarcode(label.code, format);
+  // Leave a quiet zone either side so scanners can find the start and stop patterns
+  const quietZone = innerWidth * 0.08;
+  drawBars(doc, modules, x + padding + quietZone, cursor + 1, innerWidth - quietZone * 2, barHeight);
+  cursor += barHeight + 1;
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(textSize);
+  cursor += textSize * 0.35 + 0.5;
+  doc.text(formatBarcodeText(label.code, format), x + options.width / 2, cursor, { align: 'center' });
+
+  if (options.showPrice) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(priceSize);
+    cursor += priceSize * 0.35 + 1;
+    doc.text(options.formatPrice(label.price), x + options.width / 2, cursor, { align: 'center' });
+  }
+};
+
+/**
+ * Lay the labels out on as many A4 sheets as they need and return the PDF
+ */
+export const generateLabelSheet = (labels: BarcodeLabel[], options: LabelSheetOptions): jsPDF => {
+  const doc = new jsPDF({ orientation: 'portrait', unit: 'mm', format: 'a4' });
+  const grid = getLabelGrid(options.width, options.height);
+
+  labels.forEach((label, index) => {
+    const position = index % grid.perPage;
+    if (index > 0 && position === 0) {
+      doc.addPage();
+    }
+
+    const column = position % grid.columns;
+    const row = Math.floor(position / grid.columns);
+    drawLabel(
+      doc,
+      label,
+      grid.marginX + column * (options.width + GAP),
+      grid.marginY + row * (options.height + GAP),
+      options
+    );
+  });
+
+  return doc;
+};
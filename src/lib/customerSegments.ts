@@ -0,0 +1,180 @@
+import { generateWhatsAppUrl } from './whatsapp-utils';
+
+/**
+ * Customer segments are saved sets of rules that the database evaluates
+ * against the store's customers (`customer_segment_members`).
+ *
+ * - Order history rules count completed orders net of refunds. Frequency,
+ *   spend and purchase rules can be narrowed to the last so many days.
+ * - Recency is days since the last completed order, so customers who have
+ *   never bought never match a recency rule.
+ * - RFM groups come from the nightly `refresh_customer_rfm_scores` run, which
+ *   scores recency, frequency and spend 1-5 against the store's other buyers.
+ *
+ * Campaigns queue one message per phone number in a segment. SMS goes through
+ * `scripts/send-notifications.js`; WhatsApp waits for staff to send each
+ * message as a wa.me link.
+ */
+
+export type SegmentMatch = 'all' | 'any';
+
+export type SegmentNumberField = 'recency_days' | 'frequency' | 'monetary';
+
+export type SegmentChoiceField = 'purchased_product' | 'purchased_category' | 'tag' | 'layby_status' | 'rfm_segment';
+
+export type SegmentRuleField = SegmentNumberField | SegmentChoiceField;
+
+export type SegmentNumberOperator = 'gte' | 'lte' | 'between';
+
+export type SegmentChoiceOperator = 'includes' | 'excludes';
+
+export interface SegmentCondition {
+  field: SegmentRuleField;
+  operator: SegmentNumberOperator | SegmentChoiceOperator;
+  value: string;
+  // Upper bound of a 'between' rule
+  value2?: string;
+  // Only count orders from the last so many days
+  within_days?: number | null;
+}
+
+export interface SegmentRules {
+  match: SegmentMatch;
+  conditions: SegmentCondition[];
+}
+
+export type RfmSegment =
+  | 'champions'
+  | 'loyal'
+  | 'potential_loyalist'
+  | 'new'
+  | 'need_attention'
+  | 'at_risk'
+  | 'cant_lose'
+  | 'hibernating'
+  | 'lost';
+
+export type CampaignChannel = 'sms' | 'whatsapp';
+
+export type CampaignMessageStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+interface SegmentFieldInfo {
+  label: string;
+  kind: 'number' | 'choice';
+  // What the number counts, for number rules
+  unit?: string;
+  // Whether the rule can be narrowed to recent orders
+  windowed: boolean;
+}
+
+export const SEGMENT_RULE_FIELDS: Record<SegmentRuleField, SegmentFieldInfo> = {
+  recency_days: { label: 'Days since last order', kind: 'number', unit: 'days', windowed: false },
+  frequency: { label: 'Number of orders', kind: 'number', unit: 'orders', windowed: true },
+  monetary: { label: 'Amount spent', kind: 'number', windowed: true },
+  purchased_product: { label: 'Bought product', kind: 'choice', windowed: true },
+  purchased_category: { label: 'Bought from category', kind: 'choice', windowed: true },
+  tag: { label: 'Tag', kind: 'choice', windowed: false },
+  layby_status: { label: 'Layby', kind: 'choice', windowed: false },
+  rfm_segment: { label: 'RFM group', kind: 'choice', windowed: false },
+};
+
+export const SEGMENT_NUMBER_OPERATORS: { value: SegmentNumberOperator; label: string }[] = [
+  { value: 'gte', label: 'at least' },
+  { value: 'lte', label: 'at most' },
+  { value: 'between', label: 'between' },
+];
+
+export const SEGMENT_CHOICE_OPERATORS: { value: SegmentChoiceOperator; label: string }[] = [
+  { value: 'includes', label: 'is' },
+  { value: 'excludes', label: 'is not' },
+];
+
+export const SEGMENT_LAYBY_STATUSES: { value: string; label: string }[] = [
+  { value: 'open', label: 'Open (active or overdue)' },
+  { value: 'active', label: 'Active' },
+  { value: 'overdue', label: 'Overdue' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+// In the order `rfm_segment_for` assigns them, best customers first
+export const RFM_SEGMENTS: { value: RfmSegment; label: string; description: string }[] = [
+  { value: 'champions', label: 'Champions', description: 'Bought recently, buy often and spend the most' },
+  { value: 'loyal', label: 'Loyal', description: 'Buy often and have bought fairly recently' },
+  { value: 'potential_loyalist', label: 'Potential Loyalists', description: 'Recent customers with a few orders' },
+  { value: 'new', label: 'New', description: 'Bought recently for the first few times' },
+  { value: 'need_attention', label: 'Need Attention', description: 'Middling on recency and slipping' },
+  { value: 'at_risk', label: 'At Risk', description: 'Used to buy often but have not been back' },
+  { value: 'cant_lose', label: "Can't Lose", description: 'Big spenders who have gone quiet' },
+  { value: 'hibernating', label: 'Hibernating', description: 'Few orders, a while ago' },
+  { value: 'lost', label: 'Lost', description: 'Longest since their last order, and rarely bought' },
+];
+
+export const rfmSegmentLabels = Object.fromEntries(
+  RFM_SEGMENTS.map(segment => [segment.value, segment.label])
+) as Record<RfmSegment, string>;
+
+export const CAMPAIGN_CHANNELS: { value: CampaignChannel; label: string }[] = [
+  { value: 'sms', label: 'SMS' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+];
+
+export const CAMPAIGN_PLACEHOLDERS = [
+  { token: '{name}', description: "Customer's first name" },
+  { token: '{store}', description: 'Store name' },
+];
+
+export const isNumberField = (field: SegmentRuleField): field is SegmentNumberField =>
+  SEGMENT_RULE_FIELDS[field].kind === 'number';
+
+export const createSegmentCondition = (field: SegmentRuleField = 'recency_days'): SegmentCondition =>
+  isNumberField(field)
+    ? { field, operator: 'gte', value: '', value2: '', within_days: null }
+    : { field, operator: 'includes', value: '', within_days: null };
+
+export const createSegmentRules = (): SegmentRules => ({
+  match: 'all',
+  conditions: [createSegmentCondition()],
+});
+
+// Tags as the database keeps them: trimmed, lower-cased, without repeats
+export const parseCustomerTags = (text: string): string[] =>
+  [...new Set(text.split(',').map(tag => tag.trim().toLowerCase()).filter(Boolean))].sort();
+
+/**
+ * One rule in words, e.g. "Number of orders at least 3 in the last 90 days".
+ * `valueLabel` names the product, category or group a choice rule points at.
+ */
+export const describeSegmentCondition = (
+  condition: SegmentCondition,
+  valueLabel: (condition: SegmentCondition) => string,
+  formatCurrency: (amount: number) => string
+): string => {
+  const field = SEGMENT_RULE_FIELDS[condition.field];
+  const window = field.windowed && condition.within_days ? ` in the last ${condition.within_days} days` : '';
+
+  if (isNumberField(condition.field)) {
+    const format = (value: string | undefined) => {
+      const amount = Number(value || 0);
+      return condition.field === 'monetary' ? formatCurrency(amount) : `${amount}${field.unit ? ` ${field.unit}` : ''}`;
+    };
+    const operator = SEGMENT_NUMBER_OPERATORS.find(option => option.value === condition.operator)?.label ?? condition.operator;
+    const range = condition.operator === 'between'
+      ? `${format(condition.value)} and ${format(condition.value2)}`
+      : format(condition.value);
+    return `${field.label} ${operator} ${range}${window}`;
+  }
+
+  const operator = condition.operator === 'excludes' ? 'is not' : 'is';
+  return `${field.label} ${operator} ${valueLabel(condition)}${window}`;
+};
+
+// How a campaign message reads for one customer, as queue_customer_campaign fills it in
+export const renderCampaignMessage = (template: string, customerName: string, storeName: string): string =>
+  template
+    .trim()
+    .split('{name}').join(customerName.trim().split(' ')[0] || '')
+    .split('{store}').join(storeName);
+
+export const campaignMessageWhatsAppUrl = (message: { recipient_phone: string; message: string }): string =>
+  generateWhatsAppUrl(message.recipient_phone, message.message);
@@ -0,0 +1,249 @@
+/**
+ * Discount evaluation shared by the POS cart and the public showcase cart.
+ *
+ * This mirrors `public.evaluate_discount` in the database so the cart can show
+ * the discount live; checkout re-evaluates on the server before recording usage.
+ *
+ * - Discounts that apply to `all` items are order-level: a fixed amount comes
+ *   off the order once.
+ * - Discounts limited to `products` or `categories` are per-line: a fixed amount
+ *   comes off every matching unit, capped at the line total.
+ * - A cart gets at most one automatic promotion (the best one for the cart) plus
+ *   one discount entered by code.
+ * - Tier-gated discounts need a customer who has reached the required loyalty tier.
+ */
+
+export type DiscountType = 'percentage' | 'fixed_amount';
+export type DiscountAppliesTo = 'all' | 'products' | 'categories';
+export type DiscountEligibility = 'all' | 'new_customers' | 'returning_customers' | 'vip';
+
+export interface DiscountRule {
+  id: string;
+  name: string;
+  code: string | null;
+  type: DiscountType | string;
+  value: number;
+  applies_to: DiscountAppliesTo | string;
+  product_ids: string[] | null;
+  category_ids: string[] | null;
+  customer_eligibility: DiscountEligibility | string;
+  min_purchase_amount: number | null;
+  max_discount_amount: number | null;
+  usage_limit: number | null;
+  usage_count: number;
+  start_date: string | null;
+  end_date: string | null;
+  is_active: boolean;
+  loyalty_tier_required?: string | null;
+}
+
+export interface DiscountLine {
+  productId: string;
+  categoryId: string | null;
+  quantity: number;
+  unitPrice: number;
+}
+
+export interface DiscountCustomer {
+  status: string;
+  total_orders: number;
+  // Names of the loyalty tiers the customer's lifetime spend has reached
+  loyalty_tiers?: string[];
+}
+
+export type DiscountIneligibleReason =
+  | 'inactive'
+  | 'not_started'
+  | 'expired'
+  | 'usage_limit'
+  | 'customer_required'
+  | 'customer_not_eligible'
+  | 'loyalty_tier'
+  | 'min_purchase'
+  | 'no_eligible_items';
+
+export type DiscountEvaluation =
+  | { eligible: true; amount: number }
+  | { eligible: false; reason: DiscountIneligibleReason };
+
+export interface AppliedDiscount {
+  discountId: string;
+  name: string;
+  code: string | null;
+  amount: number;
+}
+
+export interface ResolvedDiscounts {
+  applied: AppliedDiscount[];
+  total: number;
+}
+
+const roundCurrency = (amount: number): number => Math.round(amount * 100) / 100;
+
+export const isOrderLevelDiscount = (discount: Pick<DiscountRule, 'applies_to'>): boolean =>
+  discount.applies_to === 'all';
+
+const lineMatches = (discount: DiscountRule, line: DiscountLine): boolean => {
+  switch (discount.applies_to) {
+    case 'products':
+      return (discount.product_ids || []).includes(line.productId);
+    case 'categories':
+      return !!line.categoryId && (discount.category_ids || []).includes(line.categoryId);
+    default:
+      return true;
+  }
+};
+
+/**
+ * Work out whether a discount applies to a cart and how much it takes off
+ */
+export const evaluateDiscount = (
+  discount: DiscountRule,
+  lines: DiscountLine[],
+  customer: DiscountCustomer | null,
+  now: Date = new Date()
+): DiscountEvaluation => {
+  if (!discount.is_active) {
+    return { eligible: false, reason: 'inactive' };
+  }
+  if (discount.start_date && new Date(discount.start_date) > now) {
+    return { eligible: false, reason: 'not_started' };
+  }
+  if (discount.end_date && new Date(discount.end_date) < now) {
+    return { eligible: false, reason: 'expired' };
+  }
+  if (discount.usage_limit !== null && discount.usage_count >= discount.usage_limit) {
+    return { eligible: false, reason: 'usage_limit' };
+  }
+
+  if (discount.customer_eligibility !== 'all') {
+    if (!customer) {
+      return { eligible: false, reason: 'customer_required' };
+    }
+    const eligible =
+      (discount.customer_eligibility === 'new_customers' && customer.total_orders === 0) ||
+      (discount.customer_eligibility === 'returning_customers' && customer.total_orders > 0) ||
+      (discount.customer_eligibility === 'vip' && customer.status === 'vip');
+    if (!eligible) {
+      return { eligible: false, reason: 'customer_not_eligible' };
+    }
+  }
+
+  if (discount.loyalty_tier_required) {
+    if (!customer) {
+      return { eligible: false, reason: 'customer_required' };
+    }
+    if (!(customer.loyalty_tiers || []).includes(discount.loyalty_tier_required)) {
+      return { eligible: false, reason: 'loyalty_tier' };
+    }
+  }
+
+  const cartSubtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  if (discount.min_purchase_amount && cartSubtotal < discount.min_purchase_amount) {
+    return { eligible: false, reason: 'min_purchase' };
+  }
+
+  const matchingLines = lines.filter(line => lineMatches(discount, line));
+  const eligibleSubtotal = matchingLines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  if (eligibleSubtotal <= 0) {
+    return { eligible: false, reason: 'no_eligible_items' };
+  }
+
+  let amount: number;
+  if (discount.type === 'percentage') {
+    amount = eligibleSubtotal * discount.value / 100;
+  } else if (isOrderLevelDiscount(discount)) {
+    amount = discount.value;
+  } else {
+    amount = matchingLines.reduce(
+      (sum, line) => sum + Math.min(discount.value * line.quantity, line.unitPrice * line.quantity),
+      0
+    );
+  }
+
+  if (discount.max_discount_amount) {
+    amount = Math.min(amount, discount.max_discount_amount);
+  }
+
+  return { eligible: true, amount: roundCurrency(Math.min(amount, eligibleSubtotal)) };
+};
+
+/**
+ * Pick the discounts a cart gets: the best automatic promotion plus the code discount,
+ * never taking more off than the cart is worth
+ */
+export const resolveDiscounts = (
+  lines: DiscountLine[],
+  promotions: DiscountRule[],
+  codeDiscount: DiscountRule | null,
+  customer: DiscountCustomer | null
+): ResolvedDiscounts => {
+  const cartSubtotal = lines.reduce((sum, line) => sum + line.unitPrice * line.quantity, 0);
+  const applied: AppliedDiscount[] = [];
+
+  let bestPromotion: AppliedDiscount | null = null;
+  for (const promotion of promotions) {
+    if (promotion.code || promotion.id === codeDiscount?.id) continue;
+    const result = evaluateDiscount(promotion, lines, customer);
+    if (result.eligible && (!bestPromotion || result.amount > bestPromotion.amount)) {
+      bestPromotion = { discountId: promotion.id, name: promotion.name, code: null, amount: result.amount };
+    }
+  }
+  if (bestPromotion) {
+    applied.push(bestPromotion);
+  }
+
+  if (codeDiscount) {
+    const result = evaluateDiscount(codeDiscount, lines, customer);
+    if (result.eligible) {
+      applied.push({
+        discountId: codeDiscount.id,
+        name: codeDiscount.name,
+        code: codeDiscount.code,
+        amount: result.amount,
+      });
+    }
+  }
+
+  // Later discounts shrink so the combined total never exceeds the cart subtotal
+  let remaining = cartSubtotal;
+  const capped = applied.map(discount => {
+    const amount = roundCurrency(Math.min(discount.amount, remaining));
+    remaining -= amount;
+    return { ...discount, amount };
+  }).filter(discount => discount.amount > 0);
+
+  return {
+    applied: capped,
+    total: roundCurrency(capped.reduce((sum, discount) => sum + discount.amount, 0)),
+  };
+};
+
+export const describeIneligibleReason = (reason: DiscountIneligibleReason): string => {
+  switch (reason) {
+    case 'inactive':
+      return 'This discount is not active';
+    case 'not_started':
+      return 'This discount has not started yet';
+    case 'expired':
+      return 'This discount has expired';
+    case 'usage_limit':
+      return 'This discount has reached its usage limit';
+    case 'customer_required':
+      return 'Select a customer to use this discount';
+    case 'customer_not_eligible':
+      return 'This customer is not eligible for this discount';
+    case 'loyalty_tier':
+      return 'This customer has not reached the loyalty tier for this discount';
+    case 'min_purchase':
+      return 'The cart does not meet the minimum purchase for this discount';
+    case 'no_eligible_items':
+      return 'No items in the cart qualify for this discount';
+  }
+};
+
+export const formatDiscountValue = (
+  discount: Pick<DiscountRule, 'type' | 'value'>,
+  formatCurrency: (amount: number) => string
+): string =>
+  discount.type === 'percentage' ? `${discount.value}%` : formatCurrency(discount.value);
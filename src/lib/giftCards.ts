@@ -0,0 +1,72 @@
+/**
+ * Gift card and store credit rules shared by the POS, showcase and reports.
+ *
+ * This mirrors the stored-value handling in the database, which keeps the
+ * balances and the `gift_card_transactions` ledger:
+ *
+ * - Gift cards are sold or given away with a random 16 character code and can
+ *   be spent by anyone who has the code, at the till or on the showcase.
+ * - Store credit is a customer's own account, credited from returns or by a
+ *   manager, and only that customer can spend it at the till.
+ * - Both pay what is left after discounts, tax and loyalty points, and never
+ *   more than the card's balance.
+ * - Value expires the number of months set in store settings after a gift card
+ *   is issued, or after store credit was last topped up.
+ */
+
+export type GiftCardKind = 'gift_card' | 'store_credit';
+
+export type GiftCardStatus = 'active' | 'expired';
+
+export type GiftCardTransactionType = 'issue' | 'redeem' | 'refund' | 'expire';
+
+export const GIFT_CARD_KIND_LABELS: Record<GiftCardKind, string> = {
+  gift_card: 'Gift Card',
+  store_credit: 'Store Credit',
+};
+
+export const GIFT_CARD_TRANSACTION_LABELS: Record<GiftCardTransactionType, string> = {
+  issue: 'Issued',
+  redeem: 'Redeemed',
+  refund: 'Refunded',
+  expire: 'Expired',
+};
+
+export const isGiftCardKind = (value: string): value is GiftCardKind =>
+  value === 'gift_card' || value === 'store_credit';
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+// Codes are stored without separators in upper case, the way normalize_gift_card_code keeps them
+export const normalizeGiftCardCode = (code: string): string =>
+  code.toUpperCase().replace(/[^A-Z0-9]/g, '');
+
+// XXXX-XXXX-XXXX-XXXX, for printing and reading out
+export const formatGiftCardCode = (code: string): string =>
+  normalizeGiftCardCode(code).match(/.{1,4}/g)?.join('-') ?? '';
+
+// Receipts and lists only show the last four characters
+export const maskGiftCardCode = (code: string): string =>
+  `•••• ${normalizeGiftCardCode(code).slice(-4)}`;
+
+export const isGiftCardExpired = (
+  card: { status: string; expires_at: string | null },
+  asOf: Date = new Date()
+): boolean => card.status === 'expired' || (card.expires_at !== null && new Date(card.expires_at) <= asOf);
+
+/**
+ * Split what is due across the cards in the order they were added. Each card
+ * pays its whole balance or the rest of the bill, whichever is less; cards
+ * left with nothing to pay come back with an amount of 0.
+ */
+export const allocateGiftCards = <T extends { balance: number }>(
+  cards: T[],
+  amountDue: number
+): (T & { amount: number })[] => {
+  let remaining = roundCurrency(Math.max(0, amountDue));
+  return cards.map(card => {
+    const amount = roundCurrency(Math.max(0, Math.min(card.balance, remaining)));
+    remaining = roundCurrency(remaining - amount);
+    return { ...card, amount };
+  });
+};
@@ -0,0 +1,116 @@
+import { addDays, addMonths, addWeeks, startOfDay } from 'date-fns';
+
+/**
+ * Layby payment plan rules used to preview a plan before it is created.
+ *
+ * This mirrors `create_layby` and `generate_payment_schedule` in the database,
+ * which build the real schedule:
+ *
+ * - The deposit must be at least `require_deposit_percent` of the total and
+ *   less than the total itself.
+ * - The balance after the deposit is split evenly over the installments; the
+ *   last installment absorbs any rounding difference.
+ * - Installments fall one interval apart, starting one interval after the layby
+ *   is created, and the last one must be within `max_layby_duration_days`.
+ *
+ * Interest and late fees are charged by the overdue job once a layby runs late.
+ * They are added to the balance but never to `total_amount`, which stays the
+ * price of the goods.
+ */
+
+export type LaybyScheduleType = 'weekly' | 'bi_weekly' | 'monthly';
+
+export const LAYBY_SCHEDULE_TYPES: { value: LaybyScheduleType; label: string }[] = [
+  { value: 'weekly', label: 'Weekly' },
+  { value: 'bi_weekly', label: 'Every 2 weeks' },
+  { value: 'monthly', label: 'Monthly' },
+];
+
+// Used by the database when no installment count is given
+export const DEFAULT_INSTALLMENTS: Record<LaybyScheduleType, number> = {
+  weekly: 4,
+  bi_weekly: 4,
+  monthly: 3,
+};
+
+// Store defaults from layby_settings when a store has not saved its own
+export const DEFAULT_REQUIRE_DEPOSIT_PERCENT = 20;
+export const DEFAULT_MAX_LAYBY_DURATION_DAYS = 90;
+
+export type LaybyInterestType = 'none' | 'simple' | 'flat';
+
+export const LAYBY_INTEREST_TYPES: { value: LaybyInterestType; label: string; description: string }[] = [
+  { value: 'none', label: 'No interest', description: 'Overdue laybys are not charged interest' },
+  { value: 'simple', label: 'Simple (yearly)', description: 'Charged daily on the unpaid price after the final due date' },
+  { value: 'flat', label: 'Flat', description: 'Charged once on the balance when the layby goes overdue' },
+];
+
+export interface ScheduledInstallment {
+  payment_number: number;
+  due_date: Date;
+  amount_due: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+export const installmentDueDate = (start: Date, type: LaybyScheduleType, paymentNumber: number): Date => {
+  const day = startOfDay(start);
+  switch (type) {
+    case 'weekly':
+      return addWeeks(day, paymentNumber);
+    case 'bi_weekly':
+      return addWeeks(day, paymentNumber * 2);
+    case 'monthly':
+      return addMonths(day, paymentNumber);
+  }
+};
+
+/**
+ * The most installments a plan can have before its last payment falls past the duration limit
+ */
+export const maxInstallments = (type: LaybyScheduleType, maxDurationDays: number, start: Date = new Date()): number => {
+  const limit = addDays(startOfDay(start), maxDurationDays);
+  let count = 0;
+  while (installmentDueDate(start, type, count + 1) <= limit) {
+    count++;
+  }
+  return count;
+};
+
+export const minimumDeposit = (total: number, requireDepositPercent: number): number =>
+  roundCurrency(total * requireDepositPercent / 100);
+
+export const buildInstallmentSchedule = (
+  total: number,
+  deposit: number,
+  type: LaybyScheduleType,
+  installments: number,
+  start: Date = new Date()
+): ScheduledInstallment[] => {
+  const balance = roundCurrency(total - deposit);
+  if (installments < 1 || balance <= 0) return [];
+
+  const amount = roundCurrency(balance / installments);
+
+  return Array.from({ length: installments }, (_, index) => ({
+    payment_number: index + 1,
+    due_date: installmentDueDate(start, type, index + 1),
+    amount_due: index === installments - 1
+      ? roundCurrency(balance - amount * (installments - 1))
+      : amount,
+  }));
+};
+
+interface LaybyAmounts {
+  total_amount: number;
+  balance_remaining: number;
+  interest_amount?: number | null;
+  late_fee_amount?: number | null;
+}
+
+// Everything the customer owes over the life of the layby: the goods plus any charges
+export const laybyAmountOwed = (layby: LaybyAmounts): number =>
+  roundCurrency(layby.total_amount + (layby.interest_amount || 0) + (layby.late_fee_amount || 0));
+
+export const laybyAmountPaid = (layby: LaybyAmounts): number =>
+  roundCurrency(laybyAmountOwed(layby) - layby.balance_remaining);
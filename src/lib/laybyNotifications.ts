@@ -0,0 +1,47 @@
+import { generateWhatsAppUrl } from './whatsapp-utils';
+
+/**
+ * Layby customer messages go through the `layby_notifications` outbox.
+ *
+ * The database renders each message from its template and queues one row per
+ * channel. SMS and email rows are delivered by `scripts/send-notifications.js`
+ * through the configured providers; WhatsApp rows wait for staff to send them
+ * from the layby as a wa.me deep link.
+ */
+
+export type LaybyNotificationChannel = 'sms' | 'whatsapp' | 'email';
+
+export type LaybyNotificationType = 'payment_reminder' | 'overdue_notice' | 'completion_notice' | 'cancellation_notice' | 'custom';
+
+export type LaybyNotificationStatus = 'pending' | 'sending' | 'sent' | 'failed' | 'cancelled';
+
+export const LAYBY_NOTIFICATION_CHANNELS: { value: LaybyNotificationChannel; label: string }[] = [
+  { value: 'sms', label: 'SMS' },
+  { value: 'whatsapp', label: 'WhatsApp' },
+  { value: 'email', label: 'Email' },
+];
+
+export const laybyNotificationTypeLabels: Record<LaybyNotificationType, string> = {
+  payment_reminder: 'Payment reminder',
+  overdue_notice: 'Overdue notice',
+  completion_notice: 'Completion notice',
+  cancellation_notice: 'Cancellation notice',
+  custom: 'Message',
+};
+
+// The message that fits a layby in its current state
+export const laybyNotificationTypeFor = (status: string): LaybyNotificationType => {
+  switch (status) {
+    case 'overdue':
+      return 'overdue_notice';
+    case 'completed':
+      return 'completion_notice';
+    case 'cancelled':
+      return 'cancellation_notice';
+    default:
+      return 'payment_reminder';
+  }
+};
+
+export const laybyNotificationWhatsAppUrl = (notification: { recipient_phone: string | null; message: string }): string | null =>
+  notification.recipient_phone ? generateWhatsAppUrl(notification.recipient_phone, notification.message) : null;
@@ -0,0 +1,137 @@
+/**
+ * Customer loyalty rules shared by the POS, customer details and settings.
+ *
+ * This mirrors the loyalty handling in the `checkout` database function, which
+ * is what actually writes the points ledger:
+ *
+ * - Customers earn `pointsPerUnit` points for every currency unit they pay,
+ *   multiplied by the tier they had reached before the sale.
+ * - Redeemed points are worth `pointValue` each and pay for the order after
+ *   discounts and tax.
+ * - Tiers are reached by lifetime spend (`customers.total_spent`).
+ */
+
+export interface LoyaltySettings {
+  enabled: boolean;
+  pointsPerUnit: number;
+  pointValue: number;
+  minRedeemPoints: number;
+}
+
+export interface LoyaltyTier {
+  id: string;
+  store_id: string;
+  name: string;
+  min_spent: number;
+  points_multiplier: number;
+  color: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface LoyaltyProgram {
+  settings: LoyaltySettings;
+  tiers: LoyaltyTier[];
+}
+
+export const DEFAULT_LOYALTY_SETTINGS: LoyaltySettings = {
+  enabled: false,
+  pointsPerUnit: 1,
+  pointValue: 0.01,
+  minRedeemPoints: 0,
+};
+
+const sortTiers = (tiers: LoyaltyTier[]): LoyaltyTier[] =>
+  [...tiers].sort((a, b) => a.min_spent - b.min_spent);
+
+/**
+ * The highest tier a lifetime spend has reached
+ */
+export const getCustomerTier = (tiers: LoyaltyTier[], totalSpent: number | null | undefined): LoyaltyTier | null => {
+  const reached = sortTiers(tiers).filter(tier => tier.min_spent <= (totalSpent || 0));
+  return reached.length > 0 ? reached[reached.length - 1] : null;
+};
+
+/**
+ * The next tier up, or null when the customer is already in the top tier
+ */
+export const getNextTier = (tiers: LoyaltyTier[], totalSpent: number | null | undefined): LoyaltyTier | null =>
+  sortTiers(tiers).find(tier => tier.min_spent > (totalSpent || 0)) || null;
+
+/**
+ * Names of every tier a lifetime spend has reached - a Gold customer also
+ * qualifies for Silver and Bronze discounts
+ */
+export const getReachedTierNames = (tiers: LoyaltyTier[], totalSpent: number | null | undefined): string[] =>
+  sortTiers(tiers)
+    .filter(tier => tier.min_spent <= (totalSpent || 0))
+    .map(tier => tier.name);
+
+export const calculatePointsEarned = (
+  amountPaid: number,
+  settings: LoyaltySettings,
+  tier: LoyaltyTier | null
+): number => {
+  if (!settings.enabled || amountPaid <= 0) return 0;
+  return Math.floor(amountPaid * settings.pointsPerUnit * (tier?.points_multiplier || 1));
+};
+
+export const pointsToValue = (points: number, settings: LoyaltySettings): number =>
+  Math.round(points * settings.pointValue * 100) / 100;
+
+/**
+ * The most points a customer can put towards an order without paying more than it costs
+ */
+export const getMaxRedeemablePoints = (
+  balance: number,
+  amountDue: number,
+  settings: LoyaltySettings
+): number => {
+  if (!settings.enabled || settings.pointValue <= 0 || balance <= 0 || amountDue <= 0) return 0;
+  return Math.min(balance, Math.ceil(amountDue / settings.pointValue));
+};
+
+export interface LoyaltyRedemption {
+  balance: number;
+  maxPoints: number;
+  points: number;
+  value: number;
+  minRedeemPoints: number;
+}
+
+/**
+ * Clamp the points a cashier asked to redeem to what the customer has and the order costs
+ */
+export const resolveLoyaltyRedemption = (
+  balance: number,
+  requestedPoints: number,
+  amountDue: number,
+  settings: LoyaltySettings
+): LoyaltyRedemption => {
+  const maxPoints = getMaxRedeemablePoints(balance, amountDue, settings);
+  const points = Math.min(Math.max(0, Math.floor(requestedPoints)), maxPoints);
+  return {
+    balance,
+    maxPoints,
+    points,
+    value: Math.min(pointsToValue(points, settings), amountDue),
+    minRedeemPoints: settings.minRedeemPoints,
+  };
+};
+
+export const describeLoyaltyTransaction = (type: string): string => {
+  switch (type) {
+    case 'earn':
+      return 'Earned';
+    case 'redeem':
+      return 'Redeemed';
+    case 'earn_reversal':
+      return 'Earned points reversed';
+    case 'redeem_reversal':
+      return 'Redeemed points returned';
+    case 'adjustment':
+      return 'Adjustment';
+    default:
+      return type;
+  }
+};
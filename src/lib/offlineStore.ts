@@ -0,0 +1,206 @@
+/**
+ * IndexedDB-backed cache for the POS so a till can keep ringing up sales
+ * while the connection to Supabase is down.
+ *
+ * Two object stores are used:
+ * - `catalog`: last known snapshot of store data (products, customers, ...)
+ * - `sale_queue`: sales captured offline, waiting to be replayed through `checkout`
+ */
+
+const DB_NAME = 'storefy-pos';
+const DB_VERSION = 1;
+const CATALOG_STORE = 'catalog';
+const SALE_QUEUE_STORE = 'sale_queue';
+
+export type SnapshotKind = 'products' | 'categories' | 'customers' | 'payment_methods' | 'tax_config' | 'discounts' | 'loyalty' | 'barcode_settings' | 'approval_settings';
+
+export interface CachedSnapshot<T> {
+  key: string;
+  storeId: string;
+  kind: SnapshotKind;
+  data: T;
+  cachedAt: number;
+}
+
+export interface QueuedSaleItem {
+  product_id: string;
+  // Missing on sales queued before variants existed
+  variant_id?: string | null;
+  variant_name?: string | null;
+  name: string;
+  sku: string;
+  quantity: number;
+  unit_price: number;
+}
+
+export interface QueuedSaleError {
+  product_id?: string;
+  product_name?: string;
+  code: string;
+  message: string;
+}
+
+export interface QueuedSaleDiscount {
+  discount_id: string;
+  amount: number;
+}
+
+export interface QueuedSalePayment {
+  method: string;
+  amount: number;
+  tendered: number;
+}
+
+export interface QueuedSale {
+  id: string;
+  storeId: string;
+  orderNumber: string;
+  // Idempotency key for checkout, so a replay whose response was lost is not recorded twice
+  clientReference: string;
+  soldAt: string;
+  items: QueuedSaleItem[];
+  paymentMethod: string;
+  customerId: string | null;
+  customerName: string | null;
+  discountAmount: number;
+  discountCode: string | null;
+  discounts?: QueuedSaleDiscount[];
+  loyaltyPoints?: number;
+  // Each tender of a split sale; missing when paymentMethod paid it all
+  payments?: QueuedSalePayment[];
+  taxAmount: number;
+  total: number;
+  status: 'pending' | 'conflict';
+  attempts: number;
+  errors: QueuedSaleError[];
+  lastAttemptAt: string | null;
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const isIndexedDBAvailable = (): boolean => typeof indexedDB !== 'undefined';
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (dbPromise) {
+    return dbPromise;
+  }
+
+  dbPromise = new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(CATALOG_STORE)) {
+        db.createObjectStore(CATALOG_STORE, { keyPath: 'key' });
+      }
+      if (!db.objectStoreNames.contains(SALE_QUEUE_STORE)) {
+        const queue = db.createObjectStore(SALE_QUEUE_STORE, { keyPath: 'id' });
+        queue.createIndex('storeId', 'storeId', { unique: false });
+      }
+    };
+
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => {
+      dbPromise = null;
+      reject(request.error);
+    };
+  });
+
+  return dbPromise;
+};
+
+const runRequest = async <T>(
+  storeName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest
+): Promise<T> => {
+  const db = await openDatabase();
+
+  return new Promise<T>((resolve, reject) => {
+    const transaction = db.transaction(storeName, mode);
+    const request = operation(transaction.objectStore(storeName));
+    request.onsuccess = () => resolve(request.result as T);
+    request.onerror = () => reject(request.error);
+  });
+};
+
+const snapshotKey = (storeId: string, kind: SnapshotKind): string => `${storeId}:${kind}`;
+
+/**
+ * Save the latest copy of a store dataset for offline use
+ */
+export const cacheSnapshot = async <T>(storeId: string, kind: SnapshotKind, data: T): Promise<void> => {
+  if (!isIndexedDBAvailable()) return;
+
+  try {
+    const snapshot: CachedSnapshot<T> = {
+      key: snapshotKey(storeId, kind),
+      storeId,
+      kind,
+      data,
+      cachedAt: Date.now(),
+    };
+    await runRequest(CATALOG_STORE, 'readwrite', (store) => store.put(snapshot));
+  } catch (error) {
+    console.warn('Failed to cache offline snapshot:', kind, error);
+  }
+};
+
+/**
+ * Read a cached dataset, or null when nothing has been cached for the store yet
+ */
+export const getCachedSnapshot = async <T>(storeId: string, kind: SnapshotKind): Promise<CachedSnapshot<T> | null> => {
+  if (!isIndexedDBAvailable()) return null;
+
+  try {
+    const snapshot = await runRequest<CachedSnapshot<T> | undefined>(
+      CATALOG_STORE,
+      'readonly',
+      (store) => store.get(snapshotKey(storeId, kind))
+    );
+    return snapshot ?? null;
+  } catch (error) {
+    console.warn('Failed to read offline snapshot:', kind, error);
+    return null;
+  }
+};
+
+/**
+ * Add or update a sale in the offline queue
+ */
+export const saveQueuedSale = async (sale: QueuedSale): Promise<void> => {
+  await runRequest(SALE_QUEUE_STORE, 'readwrite', (store) => store.put(sale));
+};
+
+/**
+ * All queued sales for a store, oldest first so replay keeps the original sale order
+ */
+export const getQueuedSales = async (storeId: string): Promise<QueuedSale[]> => {
+  if (!isIndexedDBAvailable()) return [];
+
+  const sales = await runRequest<QueuedSale[]>(
+    SALE_QUEUE_STORE,
+    'readonly',
+    (store) => store.index('storeId').getAll(storeId)
+  );
+  return sales.sort((a, b) => a.soldAt.localeCompare(b.soldAt));
+};
+
+export const removeQueuedSale = async (id: string): Promise<void> => {
+  await runRequest(SALE_QUEUE_STORE, 'readwrite', (store) => store.delete(id));
+};
+
+/**
+ * Heuristic for errors thrown by fetch when the network is unreachable
+ */
+export const isNetworkError = (error: unknown): boolean => {
+  if (typeof navigator !== 'undefined' && !navigator.onLine) {
+    return true;
+  }
+  const message = error instanceof Error
+    ? error.message
+    : typeof error === 'object' && error !== null && 'message' in error
+      ? String((error as { message: unknown }).message)
+      : String(error ?? '');
+  return /failed to fetch|networkerror|network request failed|load failed/i.test(message);
+};
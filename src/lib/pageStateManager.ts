@@ -143,7 +143,7 @@ class PageStateManager {
   public isValidPage(page: string): boolean {
     const validPages = [
       'dashboard', 'pos', 'inventory', 'categories', 'suppliers',
-      'expenses', 'layby', 'transactions', 'customers', 'reports',
+      'expenses', 'layby', 'transactions', 'customers', 'discounts', 'gift-cards', 'reports',
       'settings', 'stores'
     ];
     return validPages.includes(page);
@@ -0,0 +1,60 @@
+/**
+ * Subscription plan limits.
+ *
+ * The database enforces them (`enforce_plan_limits` on stores, store_members,
+ * products and layby_orders), so a write that would go over the owner's plan
+ * fails with a "Plan limit: ..." error whichever screen or import made it.
+ * The helpers here turn that error into an upgrade prompt; the checks in the
+ * app only avoid a round trip.
+ */
+
+import { toast } from 'sonner';
+
+export type PlanFeature = 'showcase' | 'layby' | 'reports_export';
+
+export type PlanLimitAction = 'create_store' | 'add_pin_user' | 'add_inventory_item';
+
+export const PLAN_FEATURE_LABELS: Record<PlanFeature, string> = {
+  showcase: 'Online Showcase',
+  layby: 'Laybys',
+  reports_export: 'Report Exports',
+};
+
+export const SUBSCRIPTION_PLANS_PATH = '/app/settings?tab=subscription';
+
+const PLAN_LIMIT_PREFIX = 'Plan limit: ';
+
+const errorMessage = (error: unknown): string => {
+  if (typeof error === 'string') return error;
+  if (error && typeof error === 'object' && 'message' in error) {
+    return String((error as { message: unknown }).message ?? '');
+  }
+  return '';
+};
+
+export const isPlanLimitError = (error: unknown): boolean =>
+  errorMessage(error).startsWith(PLAN_LIMIT_PREFIX);
+
+export const planLimitMessage = (error: unknown): string =>
+  errorMessage(error).replace(PLAN_LIMIT_PREFIX, '');
+
+export const showUpgradePrompt = (reason: string) => {
+  toast.error(reason, {
+    action: {
+      label: 'Upgrade',
+      onClick: () => window.location.assign(SUBSCRIPTION_PLANS_PATH),
+    },
+    duration: 10000,
+  });
+};
+
+/**
+ * Show the upgrade prompt if the error is a plan limit. Returns whether it was,
+ * so callers can fall back to their own error message.
+ */
+export const notifyPlanLimit = (error: unknown): boolean => {
+  if (!isPlanLimitError(error)) return false;
+
+  showUpgradePrompt(planLimitMessage(error));
+  return true;
+};
@@ -0,0 +1,684 @@
+import { supabase } from '@/integrations/supabase/client';
+import { checkSubscriptionLimits } from '@/middleware/subscriptionLimits';
+import { subscriptionService } from '@/services/subscription';
+import { saveProductBarcodes } from '@/stores/inventoryStore';
+import { parseBarcodeList, isPrintableBarcode } from '@/lib/barcode';
+import { productSchema, type ProductFormData } from '@/lib/productSchema';
+import type { SpreadsheetData } from '@/lib/spreadsheet';
+
+/**
+ * Bulk product import from a spreadsheet.
+ *
+ * Rows are matched to existing products by SKU. Building a plan never writes
+ * anything, so the wizard can show exactly what will be created, updated or
+ * skipped before the user commits. Blank cells on an existing product keep the
+ * current value; blank cells on a new product fall back to the same defaults
+ * as the Add Product form.
+ */
+
+export type ImportField =
+  | 'name'
+  | 'sku'
+  | 'barcodes'
+  | 'description'
+  | 'price'
+  | 'cost'
+  | 'stock_quantity'
+  | 'low_stock_threshold'
+  | 'category'
+  | 'supplier'
+  | 'is_active'
+  | 'image_url';
+
+export type ColumnMapping = Partial<Record<ImportField, number>>;
+
+export type ImportAction = 'create' | 'update' | 'skip';
+
+export interface ImportFieldDefinition {
+  key: ImportField;
+  label: string;
+  aliases: string[];
+}
+
+// Aliases include the headers written by ExportDialog so an export re-imports as is
+export const IMPORT_FIELDS: ImportFieldDefinition[] = [
+  { key: 'name', label: 'Product Name', aliases: ['name', 'product', 'product name', 'item', 'item name', 'title'] },
+  { key: 'sku', label: 'SKU', aliases: ['sku', 'code', 'item code', 'product code', 'stock code'] },
+  { key: 'barcodes', label: 'Barcodes', aliases: ['barcode', 'barcodes', 'ean', 'upc', 'gtin'] },
+  { key: 'description', label: 'Description', aliases: ['description', 'details'] },
+  { key: 'price', label: 'Price', aliases: ['price', 'selling price', 'sale price', 'retail price', 'unit price'] },
+  { key: 'cost', label: 'Cost', aliases: ['cost', 'cost price', 'unit cost', 'buying price', 'purchase price'] },
+  { key: 'stock_quantity', label: 'Stock Quantity', aliases: ['stock', 'stock quantity', 'quantity', 'qty', 'on hand', 'stock on hand'] },
+  { key: 'low_stock_threshold', label: 'Low Stock Threshold', aliases: ['low stock threshold', 'low stock', 'reorder level', 'reorder point', 'min stock'] },
+  { key: 'category', label: 'Category', aliases: ['category', 'category name', 'department'] },
+  { key: 'supplier', label: 'Supplier', aliases: ['supplier', 'supplier name', 'vendor'] },
+  { key: 'is_active', label: 'Active Status', aliases: ['active', 'active status', 'status', 'is active', 'enabled'] },
+  { key: 'image_url', label: 'Image URL', aliases: ['image', 'image url', 'photo', 'picture'] },
+];
+
+// Placeholders ExportDialog writes for products without a category or supplier
+const EMPTY_CATEGORY_NAMES = ['uncategorized', 'uncategorised'];
+const EMPTY_SUPPLIER_NAMES = ['no supplier'];
+
+const TRUE_VALUES = ['true', 'yes', 'y', '1', 'active', 'enabled'];
+const FALSE_VALUES = ['false', 'no', 'n', '0', 'inactive', 'disabled'];
+
+const PAGE_SIZE = 1000;
+const INSERT_BATCH_SIZE = 100;
+const LOOKUP_BATCH_SIZE = 200;
+
+interface ExistingProduct {
+  id: string;
+  name: string;
+  sku: string | null;
+  description: string | null;
+  price: number;
+  cost: number | null;
+  stock_quantity: number | null;
+  low_stock_threshold: number | null;
+  category_id: string | null;
+  supplier_id: string | null;
+  is_active: boolean | null;
+  image_url: string | null;
+  has_variants: boolean;
+  product_barcodes: { barcode: string }[] | null;
+}
+
+interface NamedEntity {
+  id: string;
+  name: string;
+}
+
+export interface ImportRowPlan {
+  rowNumber: number;
+  action: ImportAction;
+  name: string;
+  sku: string | null;
+  productId: string | null;
+  values: ProductFormData | null;
+  barcodes: string[] | null;
+  categoryName: string | null;
+  supplierName: string | null;
+  previousStock: number;
+  changes: string[];
+  issues: string[];
+}
+
+export interface ImportPlan {
+  rows: ImportRowPlan[];
+  newCategories: string[];
+  newSuppliers: string[];
+  counts: Record<ImportAction, number>;
+  limitReason: string | null;
+}
+
+export interface ImportProgress {
+  done: number;
+  total: number;
+}
+
+export interface ImportResult {
+  created: number;
+  updated: number;
+  categoriesCreated: number;
+  suppliersCreated: number;
+  failed: { rowNumber: number; name: string; error: string }[];
+}
+
+const normalizeHeader = (value: string) => value.toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ').trim();
+
+const nameKey = (value: string) => value.trim().toLowerCase();
+
+/**
+ * Guess which column holds each field from the header names
+ */
+export const autoMapColumns = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const used = new Set<number>();
+  const normalized = headers.map(normalizeHeader);
+
+  for (const field of IMPORT_FIELDS) {
+    const index = normalized.findIndex((header, i) =>
+      !used.has(i) && (field.aliases.includes(header) || header === normalizeHeader(field.label))
+    );
+    if (index >= 0) {
+      mapping[field.key] = index;
+      used.add(index);
+    }
+  }
+
+  return mapping;
+};
+
+const parseNumber = (value: string): number => {
+  const cleaned = value.replace(/[\s,]/g, '').replace(/^[^\d.-]+/, '');
+  return cleaned === '' ? NaN : Number(cleaned);
+};
+
+const parseBoolean = (value: string): boolean | null => {
+  const key = nameKey(value);
+  if (TRUE_VALUES.includes(key)) return true;
+  if (FALSE_VALUES.includes(key)) return false;
+  return null;
+};
+
+const fetchAllProducts = async (storeId: string): Promise<ExistingProduct[]> => {
+  const products: ExistingProduct[] = [];
+
+  for (let from = 0; ; from += PAGE_SIZE) {
+    const { data, error } = await supabase
+      .from('products')
+      .select(`
+        id, name, sku, description, price, cost, stock_quantity, low_stock_threshold,
+        category_id, supplier_id, is_active, image_url, has_variants,
+        product_barcodes (barcode)
+      `)
+      .eq('store_id', storeId)
+      .order('created_at')
+      .range(from, from + PAGE_SIZE - 1);
+
+    if (error) throw error;
+    products.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+
+  return products;
+};
+
+/**
+ * Map of barcode to the product that already owns it in this store
+ */
+const fetchBarcodeOwners = async (storeId: string, barcodes: string[]) => {
+  const owners = new Map<string, { productId: string; productName: string }>();
+
+  for (let i = 0; i < barcodes.length; i += LOOKUP_BATCH_SIZE) {
+    const { data, error } = await supabase
+      .from('product_barcodes')
+      .select('barcode, product_id, products (name)')
+      .eq('store_id', storeId)
+      .in('barcode', barcodes.slice(i, i + LOOKUP_BATCH_SIZE));
+
+    if (error) throw error;
+    for (const row of data || []) {
+      owners.set(row.barcode, { productId: row.product_id, productName: row.products?.name || 'another product' });
+    }
+  }
+
+  return owners;
+};
+
+/**
+ * How many more products the store owner's plan allows in this store, or null
+ * when it is unlimited or the plan can't be read
+ */
+const getRemainingProductAllowance = async (storeId: string): Promise<number | null> => {
+  try {
+    const entitlements = await subscriptionService.getPlanEntitlements(storeId);
+    const limit = entitlements?.limits.inventory_items_per_store;
+    if (limit == null) return null;
+
+    return Math.max(0, limit - (entitlements?.usage.inventory_items || 0));
+  } catch (error) {
+    console.error('Error reading product allowance:', error);
+    return null;
+  }
+};
+
+const toFormValues = (product: ExistingProduct): ProductFormData => ({
+  name: product.name,
+  sku: product.sku || '',
+  barcodes: (product.product_barcodes || []).map(row => row.barcode).join(', '),
+  description: product.description || '',
+  price: product.price,
+  cost: product.cost ?? undefined,
+  stock_quantity: product.stock_quantity || 0,
+  low_stock_threshold: product.low_stock_threshold ?? 5,
+  category_id: product.category_id || '',
+  supplier_id: product.supplier_id || '',
+  is_active: product.is_active !== false,
+  image_url: product.image_url || '',
+});
+
+const DEFAULT_VALUES: ProductFormData = {
+  name: '',
+  sku: '',
+  barcodes: '',
+  description: '',
+  price: 0,
+  cost: 0,
+  stock_quantity: 0,
+  low_stock_threshold: 5,
+  category_id: '',
+  supplier_id: '',
+  is_active: true,
+  image_url: '',
+};
+
+const fieldLabel = (key: ImportField) => IMPORT_FIELDS.find(field => field.key === key)?.label || key;
+
+/**
+ * Work out what importing the sheet would do, without writing anything
+ */
+export const buildImportPlan = async (
+  storeId: string,
+  data: SpreadsheetData,
+  mapping: ColumnMapping
+): Promise<ImportPlan> => {
+  const [products, categoriesResult, suppliersResult] = await Promise.all([
+    fetchAllProducts(storeId),
+    supabase.from('categories').select('id, name').eq('store_id', storeId),
+    supabase.from('suppliers').select('id, name').eq('store_id', storeId),
+  ]);
+
+  if (categoriesResult.error) throw categoriesResult.error;
+  if (suppliersResult.error) throw suppliersResult.error;
+
+  const productsBySku = new Map<string, ExistingProduct>();
+  for (const product of products) {
+    if (product.sku && !productsBySku.has(nameKey(product.sku))) {
+      productsBySku.set(nameKey(product.sku), product);
+    }
+  }
+
+  const categoriesByName = new Map<string, NamedEntity>((categoriesResult.data || []).map(row => [nameKey(row.name), row]));
+  const suppliersByName = new Map<string, NamedEntity>((suppliersResult.data || []).map(row => [nameKey(row.name), row]));
+  const categoryNamesById = new Map((categoriesResult.data || []).map(row => [row.id, row.name]));
+  const supplierNamesById = new Map((suppliersResult.data || []).map(row => [row.id, row.name]));
+
+  const cell = (row: string[], field: ImportField): string | null => {
+    const index = mapping[field];
+    if (index === undefined) return null;
+    const value = (row[index] ?? '').trim();
+    return value === '' ? null : value;
+  };
+
+  const barcodeOwners = mapping.barcodes !== undefined
+    ? await fetchBarcodeOwners(storeId, Array.from(new Set(data.rows.flatMap(row => parseBarcodeList(cell(row, 'barcodes'))))))
+    : new Map<string, { productId: string; productName: string }>();
+
+  const seenSkus = new Map<string, number>();
+  const seenBarcodes = new Map<string, number>();
+  const newCategories = new Map<string, string>();
+  const newSuppliers = new Map<string, string>();
+  const rows: ImportRowPlan[] = [];
+
+  data.rows.forEach((row, index) => {
+    // Row 1 is the header
+    const rowNumber = index + 2;
+    const issues: string[] = [];
+
+    const sku = cell(row, 'sku');
+    const existing = sku ? productsBySku.get(nameKey(sku)) || null : null;
+    const base = existing ? toFormValues(existing) : { ...DEFAULT_VALUES };
+    const values: ProductFormData = { ...base, sku: sku || base.sku };
+
+    const name = cell(row, 'name');
+    if (name !== null) values.name = name;
+
+    const description = cell(row, 'description');
+    if (description !== null) values.description = description;
+
+    const imageUrl = cell(row, 'image_url');
+    if (imageUrl !== null) values.image_url = imageUrl;
+
+    for (const key of ['price', 'cost', 'stock_quantity', 'low_stock_threshold'] as const) {
+      const raw = cell(row, key);
+      if (raw === null) continue;
+      const parsed = parseNumber(raw);
+      if (isNaN(parsed)) {
+        issues.push(`${fieldLabel(key)} "${raw}" is not a number`);
+      } else {
+        values[key] = parsed;
+      }
+    }
+
+    const active = cell(row, 'is_active');
+    if (active !== null) {
+      const parsed = parseBoolean(active);
+      if (parsed === null) {
+        issues.push(`Active Status "${active}" should be yes or no`);
+      } else {
+        values.is_active = parsed;
+      }
+    }
+
+    let categoryName: string | null = null;
+    const category = cell(row, 'category');
+    if (category !== null && !EMPTY_CATEGORY_NAMES.includes(nameKey(category))) {
+      const match = categoriesByName.get(nameKey(category));
+      if (match) {
+        values.category_id = match.id;
+      } else {
+        categoryName = newCategories.get(nameKey(category)) || category;
+        values.category_id = '';
+      }
+    }
+
+    let supplierName: string | null = null;
+    const supplier = cell(row, 'supplier');
+    if (supplier !== null && !EMPTY_SUPPLIER_NAMES.includes(nameKey(supplier))) {
+      const match = suppliersByName.get(nameKey(supplier));
+      if (match) {
+        values.supplier_id = match.id;
+      } else {
+        supplierName = newSuppliers.get(nameKey(supplier)) || supplier;
+        values.supplier_id = '';
+      }
+    }
+
+    let barcodes: string[] | null = null;
+    const barcodeCell = cell(row, 'barcodes');
+    if (barcodeCell !== null) {
+      barcodes = parseBarcodeList(barcodeCell);
+      values.barcodes = barcodes.join(', ');
+
+      for (const barcode of barcodes) {
+        const owner = barcodeOwners.get(barcode);
+        if (!isPrintableBarcode(barcode)) {
+          issues.push(`${barcode} contains characters a barcode can't hold`);
+        } else if (owner && owner.productId !== existing?.id) {
+          issues.push(`${barcode} is already used by ${owner.productName}`);
+        } else if (seenBarcodes.has(barcode)) {
+          issues.push(`${barcode} is already used on row ${seenBarcodes.get(barcode)}`);
+        }
+      }
+    }
+
+    const parsed = productSchema.safeParse(values);
+    if (!parsed.success) {
+      issues.push(...parsed.error.issues.map(issue => issue.message));
+    }
+
+    if (existing?.has_variants && values.stock_quantity !== base.stock_quantity) {
+      issues.push('Stock for a product with variants is set per variant');
+    }
+
+    if (sku && seenSkus.has(nameKey(sku))) {
+      issues.push(`Duplicate SKU, already on row ${seenSkus.get(nameKey(sku))}`);
+    }
+
+    const plan: ImportRowPlan = {
+      rowNumber,
+      action: existing ? 'update' : 'create',
+      name: values.name || '(no name)',
+      sku,
+      productId: existing?.id || null,
+      values,
+      barcodes,
+      categoryName,
+      supplierName,
+      previousStock: existing?.stock_quantity || 0,
+      changes: [],
+      issues,
+    };
+
+    if (issues.length > 0) {
+      rows.push({ ...plan, action: 'skip', values: null });
+      return;
+    }
+
+    if (existing) {
+      const changes: string[] = [];
+      if (values.name !== base.name) changes.push('Product Name');
+      if (values.description !== base.description) changes.push('Description');
+      if (values.price !== base.price) changes.push('Price');
+      if (values.cost !== base.cost) changes.push('Cost');
+      if (values.stock_quantity !== base.stock_quantity) changes.push('Stock Quantity');
+      if (values.low_stock_threshold !== base.low_stock_threshold) changes.push('Low Stock Threshold');
+      if (values.is_active !== base.is_active) changes.push('Active Status');
+      if (values.image_url !== base.image_url) changes.push('Image URL');
+      if (categoryName || values.category_id !== base.category_id) changes.push('Category');
+      if (supplierName || values.supplier_id !== base.supplier_id) changes.push('Supplier');
+      if (barcodes && values.barcodes !== base.barcodes) changes.push('Barcodes');
+
+      if (changes.length === 0) {
+        rows.push({ ...plan, action: 'skip', values: null, issues: ['No changes'] });
+        return;
+      }
+      plan.changes = changes;
+    }
+
+    if (sku) seenSkus.set(nameKey(sku), rowNumber);
+    (barcodes || []).forEach(barcode => seenBarcodes.set(barcode, rowNumber));
+    if (categoryName) newCategories.set(nameKey(categoryName), categoryName);
+    if (supplierName) newSuppliers.set(nameKey(supplierName), supplierName);
+    rows.push(plan);
+  });
+
+  // Plan limits only restrict new products; updates always go through
+  let limitReason: string | null = null;
+  const creates = rows.filter(row => row.action === 'create');
+  if (creates.length > 0) {
+    const check = await checkSubscriptionLimits('add_inventory_item', storeId);
+    const allowance = check.allowed ? await getRemainingProductAllowance(storeId) : 0;
+
+    if (allowance !== null && creates.length > allowance) {
+      limitReason = check.reason || `Your plan allows ${allowance} more product${allowance === 1 ? '' : 's'} in this store`;
+      for (const row of creates.slice(allowance)) {
+        row.action = 'skip';
+        row.values = null;
+        row.issues = [limitReason];
+      }
+    }
+  }
+
+  // Only create categories and suppliers that a remaining row still needs
+  const pending = rows.filter(row => row.action !== 'skip');
+  const neededCategories = new Set(pending.map(row => row.categoryName && nameKey(row.categoryName)).filter(Boolean));
+  const neededSuppliers = new Set(pending.map(row => row.supplierName && nameKey(row.supplierName)).filter(Boolean));
+
+  // Fill in existing category and supplier names for the preview
+  for (const row of rows) {
+    if (row.values) {
+      row.categoryName = row.categoryName || categoryNamesById.get(row.values.category_id || '') || null;
+      row.supplierName = row.supplierName || supplierNamesById.get(row.values.supplier_id || '') || null;
+    }
+  }
+
+  return {
+    rows,
+    newCategories: Array.from(newCategories.entries()).filter(([key]) => neededCategories.has(key)).map(([, name]) => name),
+    newSuppliers: Array.from(newSuppliers.entries()).filter(([key]) => neededSuppliers.has(key)).map(([, name]) => name),
+    counts: {
+      create: rows.filter(row => row.action === 'create').length,
+      update: rows.filter(row => row.action === 'update').length,
+      skip: rows.filter(row => row.action === 'skip').length,
+    },
+    limitReason,
+  };
+};
+
+const createNamedEntities = async (
+  table: 'categories' | 'suppliers',
+  storeId: string,
+  names: string[]
+): Promise<Map<string, string>> => {
+  const ids = new Map<string, string>();
+  if (names.length === 0) return ids;
+
+  const { data, error } = await supabase
+    .from(table)
+    .insert(names.map(name => ({ name: name.trim(), store_id: storeId })))
+    .select('id, name');
+
+  if (error) throw error;
+  for (const row of data || []) {
+    ids.set(nameKey(row.name), row.id);
+  }
+  return ids;
+};
+
+const errorMessage = (error: unknown) =>
+  error instanceof Error ? error.message : (error as { message?: string })?.message || 'Unknown error';
+
+/**
+ * Apply a plan built by buildImportPlan. Rows are written in batches; a batch
+ * that fails is retried row by row so one bad row doesn't sink the rest.
+ */
+export const runImport = async (
+  storeId: string,
+  userId: string,
+  plan: ImportPlan,
+  onProgress?: (progress: ImportProgress) => void
+): Promise<ImportResult> => {
+  const creates = plan.rows.filter(row => row.action === 'create' && row.values);
+  const updates = plan.rows.filter(row => row.action === 'update' && row.values && row.productId);
+  const total = creates.length + updates.length;
+  const result: ImportResult = { created: 0, updated: 0, categoriesCreated: 0, suppliersCreated: 0, failed: [] };
+
+  if (creates.length > 0) {
+    const check = await checkSubscriptionLimits('add_inventory_item', storeId);
+    if (!check.allowed) {
+      throw new Error(`Plan limit: ${check.reason || 'Your plan does not allow adding more products'}`);
+    }
+  }
+
+  const categoryIds = await createNamedEntities('categories', storeId, plan.newCategories);
+  const supplierIds = await createNamedEntities('suppliers', storeId, plan.newSuppliers);
+  result.categoriesCreated = categoryIds.size;
+  result.suppliersCreated = supplierIds.size;
+
+  const resolveIds = (row: ImportRowPlan) => {
+    const values = row.values!;
+    return {
+      category_id: (row.categoryName && categoryIds.get(nameKey(row.categoryName))) || values.category_id || null,
+      supplier_id: (row.supplierName && supplierIds.get(nameKey(row.supplierName))) || values.supplier_id || null,
+    };
+  };
+
+  const toInsert = (row: ImportRowPlan) => {
+    const values = row.values!;
+    return {
+      store_id: storeId,
+      name: values.name,
+      sku: values.sku || null,
+      description: values.description || null,
+      price: values.price,
+      cost: values.cost ?? null,
+      stock_quantity: values.stock_quantity,
+      low_stock_threshold: values.low_stock_threshold,
+      is_active: values.is_active !== false,
+      image_url: values.image_url || null,
+      ...resolveIds(row),
+    };
+  };
+
+  const recordCreated = async (row: ImportRowPlan, productId: string) => {
+    result.created += 1;
+    try {
+      if (row.barcodes && row.barcodes.length > 0) {
+        await saveProductBarcodes(storeId, productId, row.barcodes);
+      }
+    } catch (error) {
+      result.failed.push({ rowNumber: row.rowNumber, name: row.name, error: `Created, but barcodes failed: ${errorMessage(error)}` });
+    }
+  };
+
+  let done = 0;
+
+  for (let i = 0; i < creates.length; i += INSERT_BATCH_SIZE) {
+    const batch = creates.slice(i, i + INSERT_BATCH_SIZE);
+    const created: { row: ImportRowPlan; productId: string }[] = [];
+
+    const { data, error } = await supabase
+      .from('products')
+      .insert(batch.map(toInsert))
+      .select('id');
+
+    if (!error && data && data.length === batch.length) {
+      data.forEach((product, index) => created.push({ row: batch[index], productId: product.id }));
+    } else {
+      for (const row of batch) {
+        const { data: product, error: rowError } = await supabase
+          .from('products')
+          .insert(toInsert(row))
+          .select('id')
+          .single();
+
+        if (rowError) {
+          result.failed.push({ rowNumber: row.rowNumber, name: row.name, error: rowError.message });
+        } else {
+          created.push({ row, productId: product.id });
+        }
+      }
+    }
+
+    for (const { row, productId } of created) {
+      await recordCreated(row, productId);
+    }
+
+    const adjustments = created
+      .filter(({ row }) => row.values!.stock_quantity > 0)
+      .map(({ row, productId }) => ({
+        store_id: storeId,
+        product_id: productId,
+        user_id: userId,
+        adjustment_type: 'restock',
+        quantity_change: row.values!.stock_quantity,
+        previous_quantity: 0,
+        new_quantity: row.values!.stock_quantity,
+        reason: 'Initial stock (product import)',
+      }));
+
+    if (adjustments.length > 0) {
+      const { error: adjustmentError } = await supabase.from('stock_adjustments').insert(adjustments);
+      if (adjustmentError) {
+        console.error('Error recording initial stock:', adjustmentError);
+      }
+    }
+
+    done += batch.length;
+    onProgress?.({ done, total });
+  }
+
+  for (const row of updates) {
+    const values = row.values!;
+    try {
+      const { error } = await supabase
+        .from('products')
+        .update({
+          name: values.name,
+          description: values.description || null,
+          price: values.price,
+          cost: values.cost ?? null,
+          stock_quantity: values.stock_quantity,
+          low_stock_threshold: values.low_stock_threshold,
+          is_active: values.is_active !== false,
+          image_url: values.image_url || null,
+          ...resolveIds(row),
+        })
+        .eq('id', row.productId!);
+
+      if (error) throw error;
+
+      if (values.stock_quantity !== row.previousStock) {
+        const { error: adjustmentError } = await supabase
+          .from('stock_adjustments')
+          .insert({
+            store_id: storeId,
+            product_id: row.productId!,
+            user_id: userId,
+            adjustment_type: 'manual',
+            quantity_change: values.stock_quantity - row.previousStock,
+            previous_quantity: row.previousStock,
+            new_quantity: values.stock_quantity,
+            reason: 'Product import',
+          });
+        if (adjustmentError) throw adjustmentError;
+      }
+
+      if (row.changes.includes('Barcodes') && row.barcodes) {
+        await saveProductBarcodes(storeId, row.productId!, row.barcodes);
+      }
+
+      result.updated += 1;
+    } catch (error) {
+      result.failed.push({ rowNumber: row.rowNumber, name: row.name, error: errorMessage(error) });
+    }
+
+    done += 1;
+    onProgress?.({ done, total });
+  }
+
+  return result;
+};
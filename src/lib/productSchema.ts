@@ -0,0 +1,22 @@
+import * as z from "zod";
+
+/**
+ * Validation rules for a product, shared by the Add Product form and the
+ * spreadsheet importer so both accept exactly the same data.
+ */
+export const productSchema = z.object({
+  name: z.string().min(1, "Product name is required"),
+  sku: z.string().optional(),
+  barcodes: z.string().optional(),
+  description: z.string().optional(),
+  price: z.number().min(0, "Price must be positive"),
+  cost: z.number().min(0, "Cost must be positive").optional(),
+  stock_quantity: z.number().int().min(0, "Stock quantity must be non-negative"),
+  low_stock_threshold: z.number().int().min(0, "Low stock threshold must be non-negative"),
+  category_id: z.string().optional(),
+  supplier_id: z.string().optional(),
+  is_active: z.boolean().default(true),
+  image_url: z.string().optional(),
+});
+
+export type ProductFormData = z.infer<typeof productSchema>;
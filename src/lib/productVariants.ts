@@ -0,0 +1,202 @@
+/**
+ * Product variant helpers shared by inventory, the POS and the public showcase.
+ *
+ * A product with variants has option axes (`product_options`, e.g. Size and
+ * Colour) and one `product_variants` row per combination with its own SKU,
+ * barcode, price, cost and stock. The product's own `stock_quantity` is kept
+ * as the sum of its variants by the database, so totals and low stock alerts
+ * work the same for both kinds of product.
+ */
+import { supabase } from '@/integrations/supabase/client';
+
+export type VariantOptions = Record<string, string>;
+
+export interface ProductOption {
+  name: string;
+  values: string[];
+}
+
+export interface ProductVariant {
+  id: string;
+  product_id: string;
+  options: VariantOptions;
+  name: string;
+  sku: string | null;
+  barcode: string | null;
+  price: number;
+  cost: number | null;
+  stock_quantity: number;
+  is_active: boolean;
+  position: number;
+}
+
+/**
+ * A variant row being edited; numbers stay as strings until saved
+ */
+export interface VariantDraft {
+  id: string | null;
+  options: VariantOptions;
+  sku: string;
+  barcode: string;
+  price: string;
+  cost: string;
+  stock_quantity: string;
+  is_active: boolean;
+}
+
+export const PRODUCT_VARIANT_COLUMNS = 'id, product_id, options, name, sku, barcode, price, cost, stock_quantity, is_active, position';
+
+/**
+ * Options with a name and at least one distinct, non-empty value
+ */
+export const cleanOptions = (options: ProductOption[]): ProductOption[] =>
+  options
+    .map(option => ({
+      name: option.name.trim(),
+      values: Array.from(new Set(option.values.map(value => value.trim()).filter(Boolean))),
+    }))
+    .filter(option => option.name && option.values.length > 0);
+
+/**
+ * Every combination of option values, first option varying slowest
+ */
+export const generateVariantCombinations = (options: ProductOption[]): VariantOptions[] =>
+  cleanOptions(options).reduce<VariantOptions[]>(
+    (combinations, option) =>
+      combinations.flatMap(combination =>
+        option.values.map(value => ({ ...combination, [option.name]: value }))
+      ),
+    [{}]
+  ).filter(combination => Object.keys(combination).length > 0);
+
+/**
+ * The display name of a combination, e.g. "M / Red", in option order
+ */
+export const variantName = (options: ProductOption[], combination: VariantOptions): string =>
+  options
+    .map(option => combination[option.name])
+    .filter(Boolean)
+    .join(' / ');
+
+const sameOptions = (a: VariantOptions, b: VariantOptions): boolean => {
+  const keys = Object.keys(a);
+  return keys.length === Object.keys(b).length && keys.every(key => a[key] === b[key]);
+};
+
+/**
+ * The variant matching a full selection of option values
+ */
+export const findVariantByOptions = <T extends Pick<ProductVariant, 'options'>>(
+  variants: T[],
+  selected: VariantOptions
+): T | undefined => variants.find(variant => sameOptions(variant.options, selected));
+
+/**
+ * Find the variant a scanned code belongs to, matching barcodes exactly and SKUs
+ * case-insensitively like `findProductByCode`
+ */
+export const findVariantByCode = <T extends Pick<ProductVariant, 'sku' | 'barcode'>>(
+  variants: T[],
+  code: string
+): T | undefined => {
+  const scanned = code.trim();
+  if (!scanned) return undefined;
+
+  const byBarcode = variants.find(variant => variant.barcode === scanned);
+  if (byBarcode) return byBarcode;
+
+  const lower = scanned.toLowerCase();
+  return variants.find(variant => variant.sku?.toLowerCase() === lower);
+};
+
+/**
+ * Rebuild the variant table for new options, keeping the fields of any
+ * combination that already existed
+ */
+export const buildVariantDrafts = (
+  options: ProductOption[],
+  existing: VariantDraft[],
+  defaults: { price: number; cost: number | null }
+): VariantDraft[] =>
+  generateVariantCombinations(options).map(combination => {
+    const match = existing.find(draft => sameOptions(draft.options, combination));
+    return match || {
+      id: null,
+      options: combination,
+      sku: '',
+      barcode: '',
+      price: defaults.price.toFixed(2),
+      cost: defaults.cost != null ? defaults.cost.toFixed(2) : '',
+      stock_quantity: '0',
+      is_active: true,
+    };
+  });
+
+export const toVariantDraft = (variant: ProductVariant): VariantDraft => ({
+  id: variant.id,
+  options: variant.options,
+  sku: variant.sku || '',
+  barcode: variant.barcode || '',
+  price: Number(variant.price).toFixed(2),
+  cost: variant.cost != null ? Number(variant.cost).toFixed(2) : '',
+  stock_quantity: String(variant.stock_quantity),
+  is_active: variant.is_active,
+});
+
+/**
+ * Load a product's options and variants in display order
+ */
+export const fetchProductVariants = async (
+  productId: string
+): Promise<{ options: ProductOption[]; variants: ProductVariant[] }> => {
+  const [optionsResult, variantsResult] = await Promise.all([
+    supabase
+      .from('product_options')
+      .select('name, option_values')
+      .eq('product_id', productId)
+      .order('position'),
+    supabase
+      .from('product_variants')
+      .select(PRODUCT_VARIANT_COLUMNS)
+      .eq('product_id', productId)
+      .order('position'),
+  ]);
+
+  if (optionsResult.error) throw optionsResult.error;
+  if (variantsResult.error) throw variantsResult.error;
+
+  return {
+    options: (optionsResult.data || []).map(option => ({ name: option.name, values: option.option_values })),
+    variants: (variantsResult.data || []) as unknown as ProductVariant[],
+  };
+};
+
+/**
+ * Replace a product's options and variants. Passing no options turns variants off.
+ * Returns an error message, or null when saved.
+ */
+export const saveProductVariants = async (
+  productId: string,
+  options: ProductOption[],
+  drafts: VariantDraft[]
+): Promise<string | null> => {
+  const { data, error } = await supabase.rpc('save_product_variants', {
+    _product_id: productId,
+    _options: cleanOptions(options).map(option => ({ name: option.name, values: option.values })),
+    _variants: drafts.map(draft => ({
+      id: draft.id,
+      options: draft.options,
+      sku: draft.sku.trim() || null,
+      barcode: draft.barcode.trim() || null,
+      price: draft.price === '' ? null : Number(draft.price),
+      cost: draft.cost === '' ? null : Number(draft.cost),
+      stock_quantity: parseInt(draft.stock_quantity) || 0,
+      is_active: draft.is_active,
+    })),
+  });
+
+  if (error) throw error;
+
+  const result = data as unknown as { success: boolean; error?: string };
+  return result.success ? null : result.error || 'Failed to save variants';
+};
@@ -0,0 +1,51 @@
+/**
+ * Showcase order lifecycle.
+ *
+ * This mirrors `public_order_transition_allowed` in the database, which refuses
+ * any other status change:
+ *
+ * - pending → confirmed or cancelled. Pending orders hold their stock until the
+ *   store's hold period runs out, then `expire_public_orders` cancels them.
+ * - confirmed → processing, ready, completed or cancelled
+ * - processing → ready, completed or cancelled
+ * - ready → completed or cancelled
+ *
+ * Completed and cancelled orders are final. Completing goes through
+ * `complete_public_order`, which records the sale; cancelling puts held stock
+ * back on the shelf. Each change messages the customer.
+ */
+
+export type PublicOrderStatus = 'pending' | 'confirmed' | 'processing' | 'ready' | 'completed' | 'cancelled';
+
+export const PUBLIC_ORDER_STATUSES: { value: PublicOrderStatus; label: string }[] = [
+  { value: 'pending', label: 'Pending' },
+  { value: 'confirmed', label: 'Confirmed' },
+  { value: 'processing', label: 'Processing' },
+  { value: 'ready', label: 'Ready' },
+  { value: 'completed', label: 'Completed' },
+  { value: 'cancelled', label: 'Cancelled' },
+];
+
+const PUBLIC_ORDER_TRANSITIONS: Record<PublicOrderStatus, PublicOrderStatus[]> = {
+  pending: ['confirmed', 'cancelled'],
+  confirmed: ['processing', 'ready', 'completed', 'cancelled'],
+  processing: ['ready', 'completed', 'cancelled'],
+  ready: ['completed', 'cancelled'],
+  completed: [],
+  cancelled: [],
+};
+
+// The steps a customer sees on the tracking page, in order
+export const PUBLIC_ORDER_PROGRESS: PublicOrderStatus[] = ['pending', 'confirmed', 'processing', 'ready', 'completed'];
+
+export const publicOrderStatusLabel = (status: string): string =>
+  PUBLIC_ORDER_STATUSES.find(option => option.value === status)?.label ?? status;
+
+export const nextPublicOrderStatuses = (status: PublicOrderStatus): PublicOrderStatus[] =>
+  PUBLIC_ORDER_TRANSITIONS[status] ?? [];
+
+export const isPublicOrderOpen = (status: PublicOrderStatus): boolean =>
+  nextPublicOrderStatuses(status).length > 0;
+
+export const publicOrderTrackingUrl = (orderCode: string, baseUrl: string = window.location.origin): string =>
+  `${baseUrl}/track/${encodeURIComponent(orderCode)}`;
@@ -0,0 +1,102 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { PurchaseOrder, PurchaseOrderItem } from '@/stores/purchaseOrderStore';
+
+export interface PurchaseOrderPdfStore {
+  name: string;
+  address?: string | null;
+  phone?: string | null;
+  email?: string | null;
+}
+
+export interface PurchaseOrderPdfSupplier {
+  name: string;
+  contact_person?: string | null;
+  email?: string | null;
+  phone?: string | null;
+  address?: string | null;
+}
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+/**
+ * A4 purchase order to send to the supplier. Quantities are what was ordered;
+ * delivery progress is internal and left off.
+ */
+export const generatePurchaseOrderPdf = (
+  order: PurchaseOrder,
+  items: PurchaseOrderItem[],
+  store: PurchaseOrderPdfStore,
+  supplier: PurchaseOrderPdfSupplier,
+  formatCurrency: (amount: number) => string
+): jsPDF => {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.getWidth();
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('PURCHASE ORDER', 14, 20);
+
+  doc.setFontSize(11);
+  doc.text(order.po_number, pageWidth - 14, 20, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Order date: ${formatDate(order.order_date || order.created_at)}`, pageWidth - 14, 26, { align: 'right' });
+  if (order.expected_date) {
+    doc.text(`Deliver by: ${formatDate(order.expected_date)}`, pageWidth - 14, 31, { align: 'right' });
+  }
+
+  const block = (title: string, lines: (string | null | undefined)[], x: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text(title, x, 42);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    lines.filter(Boolean).forEach((line, index) => {
+      doc.text(String(line), x, 48 + index * 5);
+    });
+  };
+
+  block('From', [store.name, store.address, store.phone, store.email], 14);
+  block('Supplier', [
+    supplier.name,
+    supplier.contact_person ? `Attn: ${supplier.contact_person}` : null,
+    supplier.address,
+    supplier.phone,
+    supplier.email,
+  ], pageWidth / 2 + 5);
+
+  autoTable(doc, {
+    startY: 78,
+    head: [['Product', 'SKU', 'Qty', 'Unit Cost', 'Total']],
+    body: items.map(item => [
+      item.variant_name ? `${item.product_name} (${item.variant_name})` : item.product_name,
+      item.sku || '-',
+      String(item.quantity_ordered),
+      formatCurrency(item.unit_cost),
+      formatCurrency(item.quantity_ordered * item.unit_cost),
+    ]),
+    foot: [['', '', '', 'Total', formatCurrency(order.total_cost)]],
+    styles: { fontSize: 9, cellPadding: 2.5 },
+    headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+    footStyles: { fillColor: [245, 245, 245], textColor: 20, fontStyle: 'bold' },
+    columnStyles: {
+      2: { halign: 'right' },
+      3: { halign: 'right' },
+      4: { halign: 'right' },
+    },
+  });
+
+  if (order.notes) {
+    const finalY = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? 78;
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text('Notes', 14, finalY + 10);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(doc.splitTextToSize(order.notes, pageWidth - 28), 14, finalY + 16);
+  }
+
+  return doc;
+};
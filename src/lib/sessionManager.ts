@@ -200,6 +200,12 @@ class SessionManager {
       if (!pinSession) return null;
       
       const sessionData: PinSessionData = JSON.parse(pinSession);
+
+      // Sessions from before the server issued tokens can't tell it who is working the till
+      if (!sessionData.sessionToken) {
+        this.clearPinSession();
+        return null;
+      }
       
       // Check if session has expired
       if (sessionData.expires_at) {
@@ -218,6 +224,31 @@ class SessionManager {
     }
   }
 
+  /**
+   * Open a server-side PIN session for a member whose PIN checked out. Till actions send
+   * its token so the server knows who is working the till. Returns null if the PIN is refused.
+   */
+  public async openServerPinSession(storeId: string, memberId: string, pin: string): Promise<string | null> {
+    const { data, error } = await supabase.rpc('create_pin_session', {
+      _store_id: storeId,
+      _member_id: memberId,
+      _pin: pin,
+    });
+
+    if (error) throw error;
+
+    const session = data?.[0];
+    return session?.success ? session.session_token : null;
+  }
+
+  /**
+   * Token of the PIN session working this store's till, if a PIN user is signed in
+   */
+  public getPinSessionToken(storeId: string): string | null {
+    const pinSession = this.getPinSession();
+    return pinSession && pinSession.store_id === storeId ? pinSession.sessionToken || null : null;
+  }
+
   /**
    * Check if user has a valid session (PIN or Supabase)
    */
@@ -239,8 +270,16 @@ class SessionManager {
    * Clear PIN session
    */
   public clearPinSession(): void {
+    const sessionToken = this.readStoredSessionToken();
     localStorage.removeItem('pin_session');
 
+    // Close it on the server too, so the account's own role applies to this till again
+    if (sessionToken) {
+      supabase.rpc('invalidate_pin_session', { _session_token: sessionToken }).then(({ error }) => {
+        if (error) console.warn('Failed to close PIN session:', error);
+      });
+    }
+
     // Clear page state when PIN session is cleared
     try {
       const { pageStateManager } = require('./pageStateManager');
@@ -252,6 +291,18 @@ class SessionManager {
     window.dispatchEvent(new CustomEvent('pin-session-changed'));
   }
 
+  /**
+   * Session token straight from storage, without the expiry checks getPinSession runs
+   */
+  private readStoredSessionToken(): string | null {
+    try {
+      const stored = JSON.parse(localStorage.getItem('pin_session') || 'null') as PinSessionData | null;
+      return stored?.sessionToken || null;
+    } catch {
+      return null;
+    }
+  }
+
   /**
    * Handle session expiry
    */
@@ -0,0 +1,54 @@
+/**
+ * Online payment for showcase orders.
+ *
+ * Shoppers pay into the store's own PayChangu merchant account. The keys stay on the payment
+ * server (src/api/payments/paychangu.ts, served under /api/), so the app only asks it to open
+ * a checkout or check on one:
+ *
+ * 1. The order is placed as usual, holding its stock.
+ * 2. `startShowcasePayment` opens a PayChangu checkout and the shopper is sent there.
+ * 3. PayChangu returns them to /order-payment and calls the webhook, which marks the order
+ *    paid and confirms it. Refunds and chargebacks arrive the same way and are shown on the
+ *    order, which staff then handle by hand.
+ */
+
+const SHOWCASE_PAYMENT_API = '/api/payments/paychangu';
+
+export type ShowcasePaymentStatus = 'pending' | 'paid' | 'failed';
+
+export type PublicOrderPaymentStatus = 'unpaid' | ShowcasePaymentStatus | 'refunded' | 'charged_back';
+
+export const publicOrderPaymentLabels: Record<PublicOrderPaymentStatus, string> = {
+  unpaid: 'Unpaid',
+  pending: 'Payment pending',
+  paid: 'Paid online',
+  failed: 'Payment failed',
+  refunded: 'Refunded',
+  charged_back: 'Charged back',
+};
+
+// Paid online after the order was cancelled, so the store owes the shopper a refund
+export const isPublicOrderRefundDue = (order: { status: string; payment_status?: PublicOrderPaymentStatus }) =>
+  order.status === 'cancelled' && order.payment_status === 'paid';
+
+const postJson = async <T>(path: string, body: Record<string, unknown>): Promise<T> => {
+  const response = await fetch(`${SHOWCASE_PAYMENT_API}${path}`, {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+    body: JSON.stringify(body),
+  });
+
+  const result = await response.json().catch(() => ({}));
+
+  if (!response.ok) {
+    throw new Error(result.error || `Payment request failed (${response.status})`);
+  }
+
+  return result as T;
+};
+
+export const startShowcasePayment = (orderCode: string) =>
+  postJson<{ tx_ref: string; checkout_url: string }>('/checkout', { order_code: orderCode });
+
+export const verifyShowcasePayment = (txRef: string) =>
+  postJson<{ status: ShowcasePaymentStatus }>('/verify', { tx_ref: txRef });
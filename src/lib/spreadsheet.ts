@@ -0,0 +1,218 @@
+import Papa from 'papaparse';
+
+/**
+ * Reads the first sheet of a CSV or XLSX file into a header row and data rows.
+ *
+ * XLSX files are zip archives of XML parts. Rather than pulling in a full
+ * spreadsheet library for imports, the archive is unpacked with the browser's
+ * DecompressionStream and only the shared strings and first worksheet are read.
+ * Formulas come through as their cached values; dates come through as the raw
+ * Excel serial number.
+ */
+
+export interface SpreadsheetData {
+  headers: string[];
+  rows: string[][];
+}
+
+export const SPREADSHEET_ACCEPT = '.csv,.xlsx,text/csv,application/vnd.openxmlformats-officedocument.spreadsheetml.sheet';
+
+const ZIP_END_OF_CENTRAL_DIRECTORY = 0x06054b50;
+const ZIP_CENTRAL_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_FILE_HEADER = 0x04034b50;
+
+const isBlankRow = (row: string[]) => row.every(cell => cell.trim() === '');
+
+const toSpreadsheetData = (table: string[][]): SpreadsheetData => {
+  const rows = table.filter(row => !isBlankRow(row));
+  if (rows.length === 0) {
+    throw new Error('The file is empty');
+  }
+
+  const headers = rows[0].map(header => header.trim());
+  const width = headers.length;
+
+  return {
+    headers,
+    rows: rows.slice(1).map(row => Array.from({ length: width }, (_, index) => (row[index] ?? '').trim())),
+  };
+};
+
+const readCsv = (file: File): Promise<SpreadsheetData> =>
+  new Promise((resolve, reject) => {
+    Papa.parse<string[]>(file, {
+      skipEmptyLines: 'greedy',
+      complete: (results) => {
+        try {
+          resolve(toSpreadsheetData(results.data));
+        } catch (error) {
+          reject(error);
+        }
+      },
+      error: (error) => reject(error),
+    });
+  });
+
+/**
+ * Lists the files in a zip archive, keyed by path, without inflating them
+ */
+const readZipEntries = (buffer: ArrayBuffer) => {
+  const view = new DataView(buffer);
+
+  let endOffset = -1;
+  for (let offset = buffer.byteLength - 22; offset >= Math.max(0, buffer.byteLength - 65557); offset--) {
+    if (view.getUint32(offset, true) === ZIP_END_OF_CENTRAL_DIRECTORY) {
+      endOffset = offset;
+      break;
+    }
+  }
+  if (endOffset < 0) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const entryCount = view.getUint16(endOffset + 10, true);
+  let offset = view.getUint32(endOffset + 16, true);
+  const decoder = new TextDecoder();
+  const entries = new Map<string, { method: number; compressedSize: number; localOffset: number }>();
+
+  for (let i = 0; i < entryCount; i++) {
+    if (view.getUint32(offset, true) !== ZIP_CENTRAL_DIRECTORY_ENTRY) {
+      throw new Error('The file is not a valid XLSX workbook');
+    }
+    const nameLength = view.getUint16(offset + 28, true);
+    const extraLength = view.getUint16(offset + 30, true);
+    const commentLength = view.getUint16(offset + 32, true);
+    const name = decoder.decode(new Uint8Array(buffer, offset + 46, nameLength));
+
+    entries.set(name, {
+      method: view.getUint16(offset + 10, true),
+      compressedSize: view.getUint32(offset + 20, true),
+      localOffset: view.getUint32(offset + 42, true),
+    });
+    offset += 46 + nameLength + extraLength + commentLength;
+  }
+
+  return entries;
+};
+
+const inflateZipEntry = async (
+  buffer: ArrayBuffer,
+  entry: { method: number; compressedSize: number; localOffset: number }
+): Promise<string> => {
+  const view = new DataView(buffer);
+  if (view.getUint32(entry.localOffset, true) !== ZIP_LOCAL_FILE_HEADER) {
+    throw new Error('The file is not a valid XLSX workbook');
+  }
+
+  const nameLength = view.getUint16(entry.localOffset + 26, true);
+  const extraLength = view.getUint16(entry.localOffset + 28, true);
+  const dataOffset = entry.localOffset + 30 + nameLength + extraLength;
+  const data = new Uint8Array(buffer, dataOffset, entry.compressedSize);
+
+  if (entry.method === 0) {
+    return new TextDecoder().decode(data);
+  }
+  if (entry.method !== 8) {
+    throw new Error('The workbook uses an unsupported compression method');
+  }
+
+  const stream = new Blob([data]).stream().pipeThrough(new DecompressionStream('deflate-raw'));
+  return new Response(stream).text();
+};
+
+const parseXml = (xml: string) => new DOMParser().parseFromString(xml, 'application/xml');
+
+// Workbook parts may or may not use a namespace prefix, so match on local name
+const elements = (parent: Document | Element, name: string) =>
+  Array.from(parent.getElementsByTagNameNS('*', name));
+
+const textOf = (parent: Element) => elements(parent, 't').map(node => node.textContent || '').join('');
+
+const columnIndex = (cellRef: string) => {
+  const letters = cellRef.replace(/[^A-Z]/gi, '').toUpperCase();
+  let index = 0;
+  for (const letter of letters) {
+    index = index * 26 + (letter.charCodeAt(0) - 64);
+  }
+  return index - 1;
+};
+
+const firstSheetPath = async (
+  buffer: ArrayBuffer,
+  entries: ReturnType<typeof readZipEntries>
+): Promise<string> => {
+  const workbook = entries.get('xl/workbook.xml');
+  const rels = entries.get('xl/_rels/workbook.xml.rels');
+
+  if (workbook && rels) {
+    const sheet = elements(parseXml(await inflateZipEntry(buffer, workbook)), 'sheet')[0];
+    const relId = sheet?.getAttributeNS('http://schemas.openxmlformats.org/officeDocument/2006/relationships', 'id')
+      || sheet?.getAttribute('r:id');
+    const target = elements(parseXml(await inflateZipEntry(buffer, rels)), 'Relationship')
+      .find(rel => rel.getAttribute('Id') === relId)
+      ?.getAttribute('Target');
+
+    if (target) {
+      return target.startsWith('/') ? target.slice(1) : `xl/${target}`;
+    }
+  }
+
+  return 'xl/worksheets/sheet1.xml';
+};
+
+const readXlsx = async (file: File): Promise<SpreadsheetData> => {
+  const buffer = await file.arrayBuffer();
+  const entries = readZipEntries(buffer);
+
+  const sheetEntry = entries.get(await firstSheetPath(buffer, entries));
+  if (!sheetEntry) {
+    throw new Error('The workbook has no worksheets');
+  }
+
+  const sharedStringsEntry = entries.get('xl/sharedStrings.xml');
+  const sharedStrings = sharedStringsEntry
+    ? elements(parseXml(await inflateZipEntry(buffer, sharedStringsEntry)), 'si').map(textOf)
+    : [];
+
+  const sheet = parseXml(await inflateZipEntry(buffer, sheetEntry));
+  const table: string[][] = [];
+
+  for (const row of elements(sheet, 'row')) {
+    const values: string[] = [];
+    elements(row, 'c').forEach((cell, position) => {
+      const ref = cell.getAttribute('r');
+      const index = ref ? columnIndex(ref) : position;
+      const type = cell.getAttribute('t');
+      const raw = elements(cell, 'v')[0]?.textContent ?? '';
+
+      let value: string;
+      if (type === 's') {
+        value = sharedStrings[Number(raw)] ?? '';
+      } else if (type === 'inlineStr') {
+        value = textOf(cell);
+      } else if (type === 'b') {
+        value = raw === '1' ? 'TRUE' : 'FALSE';
+      } else {
+        value = raw;
+      }
+
+      while (values.length < index) values.push('');
+      values[index] = value;
+    });
+    table.push(values);
+  }
+
+  return toSpreadsheetData(table);
+};
+
+export const readSpreadsheet = (file: File): Promise<SpreadsheetData> => {
+  const name = file.name.toLowerCase();
+
+  if (name.endsWith('.xlsx')) {
+    return readXlsx(file);
+  }
+  if (name.endsWith('.xls')) {
+    return Promise.reject(new Error('Old .xls workbooks are not supported. Save the file as .xlsx or CSV and try again.'));
+  }
+  return readCsv(file);
+};
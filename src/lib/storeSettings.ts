@@ -0,0 +1,143 @@
+import { supabase } from '@/integrations/supabase/client';
+import type { TablesUpdate } from '@/integrations/supabase/types';
+import { cacheSnapshot, getCachedSnapshot } from '@/lib/offlineStore';
+import { DEFAULT_LABEL_SIZE } from '@/lib/barcodeLabels';
+
+export interface BarcodeSettings {
+  scannerEnabled: boolean;
+  labelSize: string;
+}
+
+export const DEFAULT_BARCODE_SETTINGS: BarcodeSettings = {
+  scannerEnabled: true,
+  labelSize: DEFAULT_LABEL_SIZE,
+};
+
+/**
+ * Write to a store's store_settings row, creating it the first time a
+ * setting is saved
+ */
+export const saveStoreSettings = async (
+  storeId: string,
+  payload: Omit<TablesUpdate<'store_settings'>, 'id' | 'store_id'>
+): Promise<void> => {
+  const { data: existing, error: lookupError } = await supabase
+    .from('store_settings')
+    .select('id')
+    .eq('store_id', storeId)
+    .maybeSingle();
+
+  if (lookupError) throw lookupError;
+
+  const { error } = existing
+    ? await supabase.from('store_settings').update(payload).eq('id', existing.id)
+    : await supabase.from('store_settings').insert({ ...payload, store_id: storeId });
+
+  if (error) throw error;
+};
+
+/**
+ * Get the barcode scanner and label settings, falling back to the last
+ * settings seen online
+ */
+export const getBarcodeSettings = async (storeId: string): Promise<BarcodeSettings> => {
+  try {
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('barcode_scanner_enabled, barcode_label_size')
+      .eq('store_id', storeId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const settings: BarcodeSettings = {
+      scannerEnabled: data?.barcode_scanner_enabled ?? DEFAULT_BARCODE_SETTINGS.scannerEnabled,
+      labelSize: data?.barcode_label_size || DEFAULT_BARCODE_SETTINGS.labelSize,
+    };
+
+    cacheSnapshot(storeId, 'barcode_settings', settings);
+    return settings;
+  } catch (error) {
+    console.error('Error fetching barcode settings:', error);
+    const cached = await getCachedSnapshot<BarcodeSettings>(storeId, 'barcode_settings');
+    return cached?.data || DEFAULT_BARCODE_SETTINGS;
+  }
+};
+
+export interface ApprovalSettings {
+  requirePinForVoids: boolean;
+  requirePinForDiscounts: boolean;
+  // Manual discounts up to this percent of the subtotal don't need a manager
+  discountApprovalThreshold: number;
+}
+
+export const DEFAULT_APPROVAL_SETTINGS: ApprovalSettings = {
+  requirePinForVoids: false,
+  requirePinForDiscounts: false,
+  discountApprovalThreshold: 0,
+};
+
+/**
+ * Get which till actions need a manager or owner PIN, falling back to the
+ * last settings seen online
+ */
+export const getApprovalSettings = async (storeId: string): Promise<ApprovalSettings> => {
+  try {
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('require_pin_for_voids, require_pin_for_discounts, discount_approval_threshold')
+      .eq('store_id', storeId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    const settings: ApprovalSettings = {
+      requirePinForVoids: data?.require_pin_for_voids ?? DEFAULT_APPROVAL_SETTINGS.requirePinForVoids,
+      requirePinForDiscounts: data?.require_pin_for_discounts ?? DEFAULT_APPROVAL_SETTINGS.requirePinForDiscounts,
+      discountApprovalThreshold: data?.discount_approval_threshold ?? DEFAULT_APPROVAL_SETTINGS.discountApprovalThreshold,
+    };
+
+    cacheSnapshot(storeId, 'approval_settings', settings);
+    return settings;
+  } catch (error) {
+    console.error('Error fetching approval settings:', error);
+    const cached = await getCachedSnapshot<ApprovalSettings>(storeId, 'approval_settings');
+    return cached?.data || DEFAULT_APPROVAL_SETTINGS;
+  }
+};
+
+export interface GiftCardSettings {
+  // Months before value expires; null keeps it forever
+  giftCardExpiryMonths: number | null;
+  // Counted from the customer's last top-up
+  storeCreditExpiryMonths: number | null;
+}
+
+export const DEFAULT_GIFT_CARD_SETTINGS: GiftCardSettings = {
+  giftCardExpiryMonths: null,
+  storeCreditExpiryMonths: null,
+};
+
+/**
+ * Get how long gift cards and store credit last. Only the settings page
+ * reads these; expiry itself is applied by the database.
+ */
+export const getGiftCardSettings = async (storeId: string): Promise<GiftCardSettings> => {
+  try {
+    const { data, error } = await supabase
+      .from('store_settings')
+      .select('gift_card_expiry_months, store_credit_expiry_months')
+      .eq('store_id', storeId)
+      .maybeSingle();
+
+    if (error) throw error;
+
+    return {
+      giftCardExpiryMonths: data?.gift_card_expiry_months ?? DEFAULT_GIFT_CARD_SETTINGS.giftCardExpiryMonths,
+      storeCreditExpiryMonths: data?.store_credit_expiry_months ?? DEFAULT_GIFT_CARD_SETTINGS.storeCreditExpiryMonths,
+    };
+  } catch (error) {
+    console.error('Error fetching gift card settings:', error);
+    return DEFAULT_GIFT_CARD_SETTINGS;
+  }
+};
@@ -0,0 +1,98 @@
+import jsPDF from 'jspdf';
+import autoTable from 'jspdf-autotable';
+import type { SubscriptionInvoice } from '@/services/subscription';
+
+const formatDate = (value: string | null) => (value ? new Date(value).toLocaleDateString() : '-');
+
+const statusLabels: Record<SubscriptionInvoice['status'], string> = {
+  upcoming: 'DUE',
+  processing: 'DUE',
+  paid: 'PAID',
+  failed: 'OVERDUE',
+  cancelled: 'CANCELLED',
+};
+
+/**
+ * A4 invoice for one billing cycle of a Storefy subscription
+ */
+export const generateSubscriptionInvoicePdf = (invoice: SubscriptionInvoice): jsPDF => {
+  const doc = new jsPDF('p', 'mm', 'a4');
+  const pageWidth = doc.internal.pageSize.getWidth();
+  const money = (amount: number) => `${invoice.currency} ${Number(amount).toFixed(2)}`;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(18);
+  doc.text('INVOICE', 14, 20);
+
+  doc.setFontSize(11);
+  doc.text(invoice.invoice_number, pageWidth - 14, 20, { align: 'right' });
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(9);
+  doc.text(`Issued: ${formatDate(invoice.issued_at)}`, pageWidth - 14, 26, { align: 'right' });
+  doc.text(
+    invoice.paid_at ? `Paid: ${formatDate(invoice.paid_at)}` : `Due: ${formatDate(invoice.due_at)}`,
+    pageWidth - 14,
+    31,
+    { align: 'right' }
+  );
+
+  const block = (title: string, lines: (string | null | undefined)[], x: number) => {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(10);
+    doc.text(title, x, 42);
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    lines.filter(Boolean).forEach((line, index) => {
+      doc.text(String(line), x, 48 + index * 5);
+    });
+  };
+
+  block('From', ['Storefy'], 14);
+  block('Bill to', [invoice.customer_name, invoice.customer_email], pageWidth / 2 + 5);
+
+  const description = invoice.description
+    || `${invoice.plan_name || 'Subscription'} plan${invoice.billing_cycle ? `, ${invoice.billing_cycle}` : ''}`;
+
+  const foot: string[][] = [];
+  if (invoice.credit_applied > 0) {
+    foot.push(['', 'Subtotal', money(invoice.subtotal)]);
+    foot.push(['', invoice.cycle_type === 'proration' ? 'Credit for unused time' : 'Account credit', `-${money(invoice.credit_applied)}`]);
+  }
+  foot.push(['', invoice.status === 'paid' ? 'Amount paid' : 'Amount due', money(invoice.amount_due)]);
+
+  autoTable(doc, {
+    startY: 64,
+    head: [['Description', 'Period', 'Amount']],
+    body: [[
+      description,
+      `${formatDate(invoice.period_start)} - ${formatDate(invoice.period_end)}`,
+      money(invoice.subtotal),
+    ]],
+    foot,
+    styles: { fontSize: 9, cellPadding: 2.5 },
+    headStyles: { fillColor: [59, 130, 246], textColor: 255 },
+    footStyles: { fillColor: [245, 245, 245], textColor: 20, fontStyle: 'bold' },
+    columnStyles: {
+      2: { halign: 'right' },
+    },
+  });
+
+  const finalY = (doc as jsPDF & { lastAutoTable?: { finalY: number } }).lastAutoTable?.finalY ?? 64;
+
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(12);
+  doc.text(statusLabels[invoice.status], 14, finalY + 12);
+
+  if (invoice.payment?.tx_ref) {
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(9);
+    doc.text(
+      `Payment reference ${invoice.payment.tx_ref}${invoice.payment.payment_method ? ` (${invoice.payment.payment_method})` : ''}`,
+      14,
+      finalY + 18
+    );
+  }
+
+  return doc;
+};
@@ -1,4 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
+import { cacheSnapshot, getCachedSnapshot } from '@/lib/offlineStore';
 
 // Tax calculation interface
 export interface TaxCalculation {
@@ -51,11 +52,16 @@ export const getTaxConfig = async (storeId: string): Promise<TaxConfig> => {
     // Update cache
     taxConfigCache = config;
     cacheTimestamp = now;
+    cacheSnapshot(storeId, 'tax_config', config);
 
     return config;
   } catch (error) {
     console.error('Error fetching tax config:', error);
-    // Return default config if fetch fails
+    // Fall back to the last config seen online before the default
+    const cached = await getCachedSnapshot<TaxConfig>(storeId, 'tax_config');
+    if (cached) {
+      return cached.data;
+    }
     return {
       rate: 0,
       currency: 'MWK',
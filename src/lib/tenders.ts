@@ -0,0 +1,116 @@
+/**
+ * Paying for a POS sale with one or more tenders.
+ *
+ * This mirrors the `checkout` database function, which writes a sale
+ * transaction and an `order_payments` row for every tender:
+ *
+ * - Gift cards and store credit pay first; the tenders settle what is left.
+ * - A sale paid with one method needs no amounts. A split sale lists each
+ *   method with what it pays, and together they must cover exactly what is due.
+ * - Only cash can be over-tendered; the difference is handed back as change.
+ */
+
+// orders.payment_method of a sale paid with more than one tender
+export const SPLIT_PAYMENT_METHOD = 'split';
+
+// A tender on a split sale, with amounts kept as the cashier typed them
+export interface PaymentTender {
+  id: string;
+  method: string;
+  amount: string;
+  // Cash handed over, when the customer wants change
+  tendered: string;
+}
+
+// What checkout is sent for each tender
+export interface TenderPayment {
+  method: string;
+  amount: number;
+  tendered: number;
+}
+
+export interface ResolvedTenders {
+  payments: TenderPayment[];
+  paid: number;
+  // Still to be covered; negative when the tenders add up to more than is due
+  remaining: number;
+  change: number;
+}
+
+const roundCurrency = (value: number) => Math.round(value * 100) / 100;
+
+const parseAmount = (value: string): number => {
+  const amount = parseFloat(value);
+  return Number.isFinite(amount) && amount > 0 ? roundCurrency(amount) : 0;
+};
+
+const changeFor = (payment: TenderPayment) => roundCurrency(Math.max(0, payment.tendered - payment.amount));
+
+export const createPaymentTender = (method = '', amount = ''): PaymentTender => ({
+  id: crypto.randomUUID(),
+  method,
+  amount,
+  tendered: '',
+});
+
+/**
+ * Turn what the cashier entered into the tenders checkout takes. Without split
+ * tenders the payment method pays everything due, and cash handed over is
+ * only counted when it was entered.
+ */
+export const resolveTenders = (
+  paymentMethod: string | null,
+  splitPayments: PaymentTender[],
+  cashTendered: string,
+  amountDue: number
+): ResolvedTenders => {
+  const due = roundCurrency(Math.max(0, amountDue));
+
+  const payments: TenderPayment[] = splitPayments.length > 0
+    ? splitPayments.map(tender => {
+        const amount = parseAmount(tender.amount);
+        const tendered = tender.method === 'cash' ? parseAmount(tender.tendered) : 0;
+        return { method: tender.method, amount, tendered: tendered || amount };
+      })
+    : due > 0 && paymentMethod
+      ? [{
+          method: paymentMethod,
+          amount: due,
+          tendered: (paymentMethod === 'cash' && parseAmount(cashTendered)) || due,
+        }]
+      : [];
+
+  const paid = roundCurrency(payments.reduce((sum, payment) => sum + payment.amount, 0));
+  return {
+    payments,
+    paid,
+    remaining: roundCurrency(due - paid),
+    change: roundCurrency(payments.reduce((sum, payment) => sum + changeFor(payment), 0)),
+  };
+};
+
+// Problems that keep the tenders from settling the sale, in the cashier's words
+export const getTenderErrors = (
+  resolved: ResolvedTenders,
+  isSplit: boolean,
+  formatCurrency: (amount: number) => string
+): string[] => {
+  const errors: string[] = [];
+
+  if (resolved.payments.some(payment => !payment.method)) {
+    errors.push('Choose a payment method for each payment');
+  }
+  if (isSplit && resolved.payments.some(payment => payment.amount <= 0)) {
+    errors.push('Enter an amount for each payment');
+  }
+  if (resolved.payments.some(payment => payment.tendered < payment.amount)) {
+    errors.push('Cash handed over is less than the amount it pays');
+  }
+  if (isSplit && resolved.remaining > 0) {
+    errors.push(`${formatCurrency(resolved.remaining)} is still to be paid`);
+  } else if (isSplit && resolved.remaining < 0) {
+    errors.push(`Payments are ${formatCurrency(-resolved.remaining)} more than is due`);
+  }
+
+  return errors;
+};
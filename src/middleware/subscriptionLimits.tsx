@@ -1,7 +1,8 @@
 import { supabase } from '@/integrations/supabase/client';
 import React, { useState, useCallback } from 'react';
 import { useUser } from '@/stores/authStore';
-import { toast } from 'sonner';
+import { showUpgradePrompt, type PlanFeature, type PlanLimitAction } from '@/lib/planLimits';
+import { UpgradePrompt } from '@/components/subscription/UpgradePrompt';
 
 export interface SubscriptionLimitCheck {
   allowed: boolean;
@@ -15,7 +16,7 @@ export interface SubscriptionLimitCheck {
  * Client-side function to check subscription limits
  */
 export async function checkSubscriptionLimits(
-  action: 'create_store' | 'add_pin_user' | 'add_inventory_item',
+  action: PlanLimitAction | PlanFeature,
   storeId?: string
 ): Promise<SubscriptionLimitCheck> {
   try {
@@ -53,7 +54,7 @@ export function useSubscriptionLimits() {
   const [checking, setChecking] = useState(false);
 
   const checkLimits = useCallback(async (
-    action: 'create_store' | 'add_pin_user' | 'add_inventory_item',
+    action: PlanLimitAction | PlanFeature,
     storeId?: string
   ): Promise<SubscriptionLimitCheck> => {
     if (!user) {
@@ -70,7 +71,7 @@ export function useSubscriptionLimits() {
   }, [user]);
 
   const checkAndWarn = useCallback(async (
-    action: 'create_store' | 'add_pin_user' | 'add_inventory_item',
+    action: PlanLimitAction | PlanFeature,
     storeId?: string,
     onLimitExceeded?: (reason: string) => void
   ): Promise<boolean> => {
@@ -96,19 +97,21 @@ export function useSubscriptionLimits() {
 
 export function withSubscriptionLimitCheck<P extends object>(
   Component: React.ComponentType<P>,
-  action: 'create_store' | 'add_pin_user' | 'add_inventory_item',
+  action: PlanLimitAction | PlanFeature,
   getStoreId?: (props: P) => string | undefined
 ) {
   return function WrappedComponent(props: P) {
     const { checkAndWarn } = useSubscriptionLimits();
     const [limitChecked, setLimitChecked] = useState(false);
     const [limitAllowed, setLimitAllowed] = useState(false);
+    const [limitReason, setLimitReason] = useState<string>();
 
     React.useEffect(() => {
       const checkLimit = async () => {
         const storeId = getStoreId ? getStoreId(props) : undefined;
         const allowed = await checkAndWarn(action, storeId, (reason) => {
-          toast.error(`Subscription limit exceeded: ${reason}`);
+          setLimitReason(reason);
+          showUpgradePrompt(reason);
         });
         setLimitAllowed(allowed);
         setLimitChecked(true);
@@ -122,19 +125,7 @@ export function withSubscriptionLimitCheck<P extends object>(
     }
 
     if (!limitAllowed) {
-      return (
-        <div className="text-center p-4">
-          <p className="text-muted-foreground">
-            This feature is not available with your current subscription plan.
-          </p>
-          <button 
-            onClick={() => window.location.href = '/subscription'}
-            className="mt-2 text-primary hover:underline"
-          >
-            Upgrade your plan
-          </button>
-        </div>
-      );
+      return <UpgradePrompt reason={limitReason} />;
     }
 
     return <Component {...props} />;
@@ -0,0 +1,29 @@
+import { useEffect } from 'react';
+import { useNavigate, useParams } from 'react-router-dom';
+import { OrderSearchWidget } from '@/components/orders/OrderSearchWidget';
+
+export function OrderTrackingPage() {
+  const { orderCode } = useParams<{ orderCode: string }>();
+  const navigate = useNavigate();
+
+  useEffect(() => {
+    document.title = orderCode ? `Order ${orderCode.toUpperCase()} - Storefy` : 'Track Your Order - Storefy';
+  }, [orderCode]);
+
+  // Keep the code in the address so the page can be bookmarked or shared
+  const handleSearch = (code: string) => {
+    if (code !== orderCode) {
+      navigate(`/track/${encodeURIComponent(code)}`, { replace: true });
+    }
+  };
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="max-w-lg mx-auto">
+        <OrderSearchWidget mode="customer" initialCode={orderCode} onSearch={handleSearch} />
+      </div>
+    </div>
+  );
+}
+
+export default OrderTrackingPage;
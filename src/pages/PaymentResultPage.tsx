@@ -2,12 +2,24 @@ import { useEffect, useState } from 'react';
 import { useSearchParams, useNavigate } from 'react-router-dom';
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
-import { Loader2, CheckCircle, XCircle, AlertTriangle } from 'lucide-react';
+import { Loader2, CheckCircle, XCircle, AlertTriangle, Clock, MapPin } from 'lucide-react';
 import { PageLayout } from '@/components/common/PageHeader';
 import { subscriptionService } from '@/services/subscription';
-import { paychanguService } from '@/services/paychangu';
+import { supabase } from '@/integrations/supabase/client';
+import { verifyShowcasePayment, ShowcasePaymentStatus } from '@/lib/showcasePayments';
+import { useShowcaseCartStore } from '@/stores/showcaseCartStore';
+import { formatCurrency } from '@/lib/taxUtils';
 
-export default function PaymentResultPage() {
+interface PaymentResultPageProps {
+  // 'showcase' is the page shoppers return to after paying for a showcase order
+  variant?: 'subscription' | 'showcase';
+}
+
+export default function PaymentResultPage({ variant = 'subscription' }: PaymentResultPageProps) {
+  return variant === 'showcase' ? <ShowcasePaymentResult /> : <SubscriptionPaymentResult />;
+}
+
+function SubscriptionPaymentResult() {
   const [searchParams] = useSearchParams();
   const navigate = useNavigate();
   const [status, setStatus] = useState<'loading' | 'success' | 'failed' | 'error'>('loading');
@@ -43,41 +55,29 @@ export default function PaymentResultPage() {
           return;
         }
 
+        if (!subscriptionId) {
+          console.error('PaymentResultPage - Missing subscription');
+          setStatus('error');
+          setMessage('Missing subscription reference');
+          return;
+        }
+
         setMessage('Verifying your payment...');
         console.log('PaymentResultPage - Starting payment verification for:', txRef);
 
-        // For test payments, we can skip PayChangu verification and manually confirm
-        if (txRef.includes('test') || window.location.hostname === 'localhost') {
-          console.log('PaymentResultPage - Test environment detected, manually confirming payment');
-          if (subscriptionId) {
-            await subscriptionService.confirmPayment(subscriptionId, txRef);
-            setStatus('success');
-            setMessage('Payment successful! Your subscription has been activated.');
-            return;
-          }
-        }
+        // Checked with PayChangu by the payment server, which settles the invoice if it went through
+        const paymentResult = await subscriptionService.confirmPayment(subscriptionId, txRef);
+        console.log('PaymentResultPage - Payment verification result:', paymentResult);
 
-        // Verify payment with PayChangu
-        const verification = await paychanguService.verifyPayment(txRef);
-        console.log('PaymentResultPage - Payment verification result:', verification);
-
-        if (verification.status === 'success' && verification.data?.status === 'success' && subscriptionId) {
-          console.log('PaymentResultPage - Payment verified successfully, confirming subscription');
-          // Confirm payment and update subscription
-          await subscriptionService.confirmPayment(subscriptionId, txRef);
+        if (paymentResult === 'completed') {
           setStatus('success');
           setMessage('Payment successful! Your subscription has been activated.');
-        } else if (verification.status === 'success' && verification.data?.status === 'failed') {
-          console.log('PaymentResultPage - Payment verification failed');
+        } else if (paymentResult === 'failed') {
           setStatus('failed');
           setMessage('Payment failed. Please try again or contact support.');
         } else {
-          console.log('PaymentResultPage - Payment verification returned unexpected status:', {
-            outerStatus: verification.status,
-            dataStatus: verification.data?.status
-          });
           setStatus('error');
-          setMessage('Payment verification failed. Please contact support.');
+          setMessage('Your payment has not been confirmed yet. Your subscription will update as soon as PayChangu confirms it.');
         }
       } catch (error: any) {
         console.error('PaymentResultPage - Error processing payment result:', error);
@@ -199,3 +199,158 @@ export default function PaymentResultPage() {
     </PageLayout>
   );
 }
+
+interface ShowcasePayment {
+  tx_ref: string;
+  status: ShowcasePaymentStatus;
+  amount: number;
+  currency: string;
+  failure_reason: string | null;
+  order_code: string;
+  order_status: string;
+  store_name: string;
+}
+
+// How long to wait for the webhook before asking PayChangu directly
+const PAYMENT_POLL_ATTEMPTS = 5;
+const PAYMENT_POLL_INTERVAL_MS = 2000;
+
+function ShowcasePaymentResult() {
+  const [searchParams] = useSearchParams();
+  const navigate = useNavigate();
+  const { isStartingPayment, startOnlinePayment } = useShowcaseCartStore();
+  const [status, setStatus] = useState<'loading' | ShowcasePaymentStatus | 'error'>('loading');
+  const [payment, setPayment] = useState<ShowcasePayment | null>(null);
+
+  const txRef = searchParams.get('tx_ref');
+  const orderCode = searchParams.get('order') || payment?.order_code || '';
+
+  useEffect(() => {
+    let cancelled = false;
+
+    const loadPayment = async () => {
+      const { data, error } = await supabase.rpc('get_public_order_payment', { _tx_ref: txRef! });
+      if (error) throw error;
+      return data as unknown as ShowcasePayment | null;
+    };
+
+    const settle = async () => {
+      if (!txRef) {
+        setStatus('error');
+        return;
+      }
+
+      try {
+        let result = await loadPayment();
+
+        // PayChangu sends the shopper back as soon as they finish, the webhook may take a moment
+        for (let attempt = 1; result?.status === 'pending' && attempt < PAYMENT_POLL_ATTEMPTS; attempt++) {
+          if (['failed', 'cancelled'].includes(searchParams.get('status') || '')) break;
+          await new Promise(resolve => setTimeout(resolve, PAYMENT_POLL_INTERVAL_MS));
+          if (cancelled) return;
+          result = await loadPayment();
+        }
+
+        if (result?.status === 'pending') {
+          await verifyShowcasePayment(txRef).catch(error => console.error('Error verifying payment:', error));
+          result = await loadPayment();
+        }
+
+        if (cancelled) return;
+
+        if (!result) {
+          setStatus('error');
+          return;
+        }
+
+        setPayment(result);
+        // Shoppers who back out of the checkout never reach the webhook
+        setStatus(result.status === 'pending' && ['failed', 'cancelled'].includes(searchParams.get('status') || '')
+          ? 'failed'
+          : result.status);
+      } catch (error) {
+        console.error('Error loading payment:', error);
+        if (!cancelled) setStatus('error');
+      }
+    };
+
+    settle();
+
+    return () => {
+      cancelled = true;
+    };
+  }, [txRef, searchParams]);
+
+  const content = {
+    loading: {
+      icon: <Loader2 className="h-12 w-12 animate-spin text-blue-500" />,
+      title: 'Checking Payment...',
+      message: 'Please wait while we confirm your payment.',
+    },
+    paid: {
+      icon: <CheckCircle className="h-12 w-12 text-green-500" />,
+      title: 'Payment Received!',
+      message: payment
+        ? `${formatCurrency(payment.amount, payment.currency)} paid for order ${payment.order_code}. ${payment.store_name} has your order and will let you know when it is ready.`
+        : '',
+    },
+    pending: {
+      icon: <Clock className="h-12 w-12 text-yellow-500" />,
+      title: 'Payment Processing',
+      message: 'We are still waiting for the payment to be confirmed. Track your order to see when it goes through.',
+    },
+    failed: {
+      icon: <XCircle className="h-12 w-12 text-red-500" />,
+      title: 'Payment Not Completed',
+      message: payment?.failure_reason
+        ? `${payment.failure_reason}. Your order is still saved, so you can try again.`
+        : 'The payment did not go through. Your order is still saved, so you can try again.',
+    },
+    error: {
+      icon: <AlertTriangle className="h-12 w-12 text-yellow-500" />,
+      title: 'Payment Not Found',
+      message: 'We could not find this payment. Track your order with its code to check on it.',
+    },
+  }[status];
+
+  return (
+    <div className="min-h-screen bg-gray-50 py-10 px-4">
+      <div className="max-w-md mx-auto">
+        <Card>
+          <CardHeader className="text-center">
+            <div className="flex justify-center mb-4">
+              {content.icon}
+            </div>
+            <CardTitle className="text-xl">{content.title}</CardTitle>
+            <CardDescription>{content.message}</CardDescription>
+          </CardHeader>
+
+          {status !== 'loading' && (
+            <CardContent className="space-y-3">
+              {status === 'failed' && orderCode && (
+                <Button
+                  onClick={() => startOnlinePayment(orderCode)}
+                  disabled={isStartingPayment}
+                  className="w-full"
+                >
+                  {isStartingPayment ? 'Opening Payment...' : 'Try Again'}
+                </Button>
+              )}
+
+              {orderCode && (
+                <Button
+                  variant={status === 'failed' ? 'outline' : 'default'}
+                  onClick={() => navigate(`/track/${encodeURIComponent(orderCode)}`)}
+                  className="w-full"
+                >
+                  <MapPin className="w-4 h-4 mr-2" />
+                  Track Order {orderCode}
+                </Button>
+              )}
+            </CardContent>
+          )}
+        </Card>
+      </div>
+    </div>
+  );
+}
@@ -6,6 +6,7 @@ import { Label } from '@/components/ui/label';
 import { Store, User, KeyRound, ArrowLeft, Shield } from 'lucide-react';
 import { supabase } from '@/integrations/supabase/client';
 import { pinSessionClient } from '@/lib/pinSessionClient';
+import { sessionManager } from '@/lib/sessionManager';
 import { toast } from 'sonner';
 import { useNavigate } from 'react-router-dom';
 
@@ -82,6 +83,12 @@ export default function PinLoginPage() {
         return;
       }
 
+      const sessionToken = await sessionManager.openServerPinSession(memberData.store_id, memberData.id, pin);
+      if (!sessionToken) {
+        toast.error('Invalid name or PIN');
+        return;
+      }
+
       // Store member session info in localStorage for PIN-based access
       localStorage.setItem('pin_session', JSON.stringify({
         member_id: memberData.id,
@@ -90,7 +97,8 @@ export default function PinLoginPage() {
         role: memberData.role,
         name: displayName,
         store_name: memberData.stores.name,
-        login_time: new Date().toISOString()
+        login_time: new Date().toISOString(),
+        sessionToken
       }));
 
       // Refresh PIN session client to load new session
@@ -69,6 +69,12 @@ export default function StoreLoginPage() {
 
       // Store member session info using session manager for proper timeout handling
       const { sessionManager } = await import('@/lib/sessionManager');
+      const sessionToken = await sessionManager.openServerPinSession(memberData.store_id, memberData.id, pin);
+      if (!sessionToken) {
+        toast.error('Invalid name or PIN');
+        return;
+      }
+
       sessionManager.createPinSession({
         member_id: memberData.id,
         user_id: memberData.user_id,
@@ -76,7 +82,8 @@ export default function StoreLoginPage() {
         role: memberData.role,
         name: displayName,
         store_name: memberData.stores.name,
-        login_time: new Date().toISOString()
+        login_time: new Date().toISOString(),
+        sessionToken
       });
 
       toast.success(`Welcome to ${memberData.stores.name}, ${displayName}!`);
@@ -115,6 +115,12 @@ export function StoreShortLinkPage() {
 
       // Store member session info using session manager for proper timeout handling
       const { sessionManager } = await import('@/lib/sessionManager');
+      const sessionToken = await sessionManager.openServerPinSession(memberData.store_id, memberData.id, pin);
+      if (!sessionToken) {
+        toast.error('Invalid name or PIN');
+        return;
+      }
+
       sessionManager.createPinSession({
         member_id: memberData.id,
         user_id: memberData.user_id,
@@ -122,7 +128,8 @@ export function StoreShortLinkPage() {
         role: memberData.role,
         name: displayName,
         store_name: memberData.stores.name,
-        login_time: new Date().toISOString()
+        login_time: new Date().toISOString(),
+        sessionToken
       });
 
       // Refresh PIN session client to load new session
@@ -19,9 +19,30 @@ export default function SubscriptionPage() {
     subscription,
     isTrialing,
     trialDaysRemaining,
+    processPayment,
     loading: subscriptionLoading
   } = useSubscription();
   const [view, setView] = useState<'overview' | 'plans' | 'manage'>('overview');
+  const [payingNow, setPayingNow] = useState(false);
+
+  // Pay the oldest unpaid invoice
+  const handlePayNow = async () => {
+    if (!subscription) return;
+
+    setPayingNow(true);
+    try {
+      const checkoutUrl = await processPayment(subscription.id);
+      if (checkoutUrl) {
+        window.location.href = checkoutUrl;
+      } else {
+        toast.info('Nothing is due right now');
+      }
+    } catch (error) {
+      toast.error(error instanceof Error ? error.message : 'Failed to start payment');
+    } finally {
+      setPayingNow(false);
+    }
+  };
 
 
 
@@ -51,12 +72,24 @@ export default function SubscriptionPage() {
       return {
         type: 'past_due',
         title: 'Payment Required',
-        description: 'Update payment method',
+        description: subscription.grace_period_ends_at
+          ? `Pay by ${new Date(subscription.grace_period_ends_at).toLocaleDateString()} to keep access`
+          : 'Update payment method',
         icon: AlertTriangle,
         color: 'text-destructive',
         bgColor: 'bg-destructive/10',
         badge: 'Past Due'
       };
+    } else if (subscription?.status === 'suspended') {
+      return {
+        type: 'suspended',
+        title: 'Subscription Suspended',
+        description: 'Pay the overdue invoice to restore access',
+        icon: AlertTriangle,
+        color: 'text-destructive',
+        bgColor: 'bg-destructive/10',
+        badge: 'Suspended'
+      };
     } else {
       return {
         type: 'none',
@@ -150,10 +183,15 @@ export default function SubscriptionPage() {
                           </Button>
                         </>
                       )}
-                      {status.type === 'past_due' && (
-                        <Button onClick={() => setView('manage')} variant="destructive">
-                          Fix Payment
-                        </Button>
+                      {(status.type === 'past_due' || status.type === 'suspended') && (
+                        <>
+                          <Button variant="outline" onClick={() => setView('manage')}>
+                            Manage
+                          </Button>
+                          <Button onClick={handlePayNow} disabled={payingNow} variant="destructive">
+                            {payingNow ? 'Redirecting...' : 'Pay Now'}
+                          </Button>
+                        </>
                       )}
                       {status.type === 'none' && (
                         <Button onClick={() => setView('plans')} size="lg">
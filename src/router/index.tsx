@@ -3,6 +3,7 @@ import { lazy } from 'react';
 import { supabase } from '@/integrations/supabase/client';
 import { sessionManager } from '@/lib/sessionManager';
 import { AppProviders } from '@/components/providers/AppProviders';
+import { PlanFeatureGate } from '@/components/subscription/PlanFeatureGate';
 
 // Lazy load components
 const LandingPage = lazy(() => import('@/pages/LandingPage'));
@@ -15,8 +16,12 @@ const POSView = lazy(() => import('@/components/pos/POSView').then(m => ({ defau
 const InventoryView = lazy(() => import('@/components/inventory/InventoryView').then(m => ({ default: m.InventoryView })));
 const CategoriesView = lazy(() => import('@/components/inventory/CategoriesView').then(m => ({ default: m.CategoriesView })));
 const SuppliersView = lazy(() => import('@/components/inventory/SuppliersView').then(m => ({ default: m.SuppliersView })));
+const PurchaseOrdersView = lazy(() => import('@/components/purchase-orders/PurchaseOrdersView').then(m => ({ default: m.PurchaseOrdersView })));
+const StockTransfersView = lazy(() => import('@/components/stock-transfers/StockTransfersView').then(m => ({ default: m.StockTransfersView })));
 const CustomersView = lazy(() => import('@/components/customers/CustomersView').then(m => ({ default: m.CustomersView })));
 const LaybyView = lazy(() => import('@/components/layby/LaybyView').then(m => ({ default: m.LaybyView })));
+const DiscountsView = lazy(() => import('@/components/discounts/DiscountsView').then(m => ({ default: m.DiscountsView })));
+const GiftCardsView = lazy(() => import('@/components/gift-cards/GiftCardsView').then(m => ({ default: m.GiftCardsView })));
 const TransactionView = lazy(() => import('@/components/transactions/TransactionView').then(m => ({ default: m.TransactionView })));
 const PublicOrdersView = lazy(() => import('@/components/orders/PublicOrdersView').then(m => ({ default: m.PublicOrdersView })));
 
@@ -27,6 +32,7 @@ const SettingsView = lazy(() => import('@/components/settings/SettingsView').the
 const PaymentResultPage = lazy(() => import('@/pages/PaymentResultPage'));
 const StoreSelectionPage = lazy(() => import('@/pages/StoreSelectionPage'));
 const StoreShortLinkPage = lazy(() => import('@/pages/StoreShortLinkPage'));
+const OrderTrackingPage = lazy(() => import('@/pages/OrderTrackingPage'));
 const NotFound = lazy(() => import('@/pages/NotFound'));
 
 
@@ -128,6 +134,18 @@ export const router = createBrowserRouter([
     path: '/store/:storeCode',
     element: <StoreShortLinkPage />,
   },
+  {
+    path: '/track',
+    element: <OrderTrackingPage />,
+  },
+  {
+    path: '/track/:orderCode',
+    element: <OrderTrackingPage />,
+  },
+  {
+    path: '/order-payment',
+    element: <PaymentResultPage variant="showcase" />,
+  },
   // Protected routes with authentication providers
   {
     path: '/app',
@@ -213,6 +231,50 @@ export const router = createBrowserRouter([
           },
         ],
       },
+      {
+        path: 'purchase-orders',
+        element: <RouterAppLayout />,
+        loader: protectedLoader,
+        children: [
+          {
+            index: true,
+            element: <PurchaseOrdersView />,
+          },
+        ],
+      },
+      {
+        path: 'stock-transfers',
+        element: <RouterAppLayout />,
+        loader: protectedLoader,
+        children: [
+          {
+            index: true,
+            element: <StockTransfersView />,
+          },
+        ],
+      },
+      {
+        path: 'discounts',
+        element: <RouterAppLayout />,
+        loader: protectedLoader,
+        children: [
+          {
+            index: true,
+            element: <DiscountsView />,
+          },
+        ],
+      },
+      {
+        path: 'gift-cards',
+        element: <RouterAppLayout />,
+        loader: protectedLoader,
+        children: [
+          {
+            index: true,
+            element: <GiftCardsView />,
+          },
+        ],
+      },
       {
         path: 'customers',
         element: <RouterAppLayout />,
@@ -231,7 +293,11 @@ export const router = createBrowserRouter([
         children: [
           {
             index: true,
-            element: <LaybyView />,
+            element: (
+              <PlanFeatureGate feature="layby">
+                <LaybyView />
+              </PlanFeatureGate>
+            ),
           },
         ],
       },
@@ -278,7 +344,11 @@ export const router = createBrowserRouter([
         children: [
           {
             index: true,
-            element: <ShowcaseView />,
+            element: (
+              <PlanFeatureGate feature="showcase">
+                <ShowcaseView />
+              </PlanFeatureGate>
+            ),
           },
         ],
       },
@@ -332,6 +402,22 @@ export const router = createBrowserRouter([
     path: '/suppliers',
     loader: () => redirect('/app/suppliers'),
   },
+  {
+    path: '/purchase-orders',
+    loader: () => redirect('/app/purchase-orders'),
+  },
+  {
+    path: '/stock-transfers',
+    loader: () => redirect('/app/stock-transfers'),
+  },
+  {
+    path: '/discounts',
+    loader: () => redirect('/app/discounts'),
+  },
+  {
+    path: '/gift-cards',
+    loader: () => redirect('/app/gift-cards'),
+  },
   {
     path: '/customers',
     loader: () => redirect('/app/customers'),
@@ -1,7 +1,6 @@
-import { supabase } from '@/integrations/supabase/client';
-
-// PayChangu API configuration
-const PAYCHANGU_API_BASE = 'https://api.paychangu.com';
+// PayChangu API configuration. Point VITE_PAYCHANGU_API_URL at scripts/mock-paychangu.js to test
+// without a merchant account.
+const PAYCHANGU_API_BASE = import.meta.env.VITE_PAYCHANGU_API_URL || 'https://api.paychangu.com';
 const PAYCHANGU_SECRET_KEY = import.meta.env.VITE_PAYCHANGU_SECRET_KEY || '';
 
 export interface PaychanguPaymentRequest {
@@ -57,11 +56,55 @@ export interface PaychanguWebhookPayload {
   updated_at: string;
 }
 
+export interface SubscriptionPaymentRequest {
+  txRef: string;
+  subscriptionId: string;
+  billingCycleId: string;
+  amount: number;
+  currency: string;
+  userEmail: string;
+  userName: string;
+  planName: string;
+  description: string;
+  returnUrl: string;
+}
+
+export interface ShowcasePaymentRequest {
+  txRef: string;
+  orderCode: string;
+  amount: number;
+  currency: string;
+  customerName: string;
+  storeName: string;
+  returnUrl: string;
+  callbackUrl: string;
+}
+
+/**
+ * Check a webhook's Signature header: the hex SHA-256 HMAC of the request body exactly as it
+ * was sent, keyed with the webhook secret. Server side only.
+ */
+export const validatePaychanguSignature = (
+  rawBody: string | Uint8Array,
+  signature: string,
+  webhookSecret: string
+): boolean => {
+  if (!signature || !webhookSecret) return false;
+
+  const crypto = require('crypto');
+  const expected = crypto.createHmac('sha256', webhookSecret).update(rawBody).digest();
+  const received = Buffer.from(signature.trim().toLowerCase(), 'hex');
+
+  return received.length === expected.length && crypto.timingSafeEqual(received, expected);
+};
+
 export class PaychanguService {
   private secretKey: string;
+  private apiBase: string;
 
-  constructor(secretKey?: string) {
+  constructor(secretKey?: string, apiBase?: string) {
     this.secretKey = secretKey || PAYCHANGU_SECRET_KEY;
+    this.apiBase = apiBase || PAYCHANGU_API_BASE;
     console.log('PayChangu service initialized with key:', this.secretKey ? 'Present' : 'Missing');
     if (!this.secretKey) {
       throw new Error('PayChangu secret key is required');
@@ -69,44 +112,72 @@ export class PaychanguService {
   }
 
   /**
-   * Create a subscription payment session with PayChangu
+   * Create a subscription payment session with PayChangu for an invoice opened by
+   * begin_subscription_payment, which also recorded the pending payment
    */
-  async createSubscriptionPayment(
-    subscriptionId: string,
-    amount: number,
-    userEmail: string,
-    userName: string,
-    planName: string
-  ): Promise<PaychanguPaymentResponse> {
-    const tx_ref = `sub_${subscriptionId}_${Date.now()}`;
-    
-    const paymentData: PaychanguPaymentRequest = {
-      amount,
-      currency: 'USD',
-      email: userEmail,
-      first_name: userName.split(' ')[0] || 'Customer',
-      last_name: userName.split(' ').slice(1).join(' ') || '',
-      callback_url: `${window.location.origin}/payment-result?subscription_id=${subscriptionId}`,
-      return_url: `${window.location.origin}/payment-result?subscription_id=${subscriptionId}`,
-      tx_ref,
+  async createSubscriptionPayment(payment: SubscriptionPaymentRequest): Promise<PaychanguPaymentResponse> {
+    const [firstName, ...lastNames] = payment.userName.trim().split(/\s+/);
+
+    return this.createPayment({
+      amount: payment.amount,
+      currency: payment.currency,
+      email: payment.userEmail,
+      first_name: firstName || 'Customer',
+      last_name: lastNames.join(' '),
+      callback_url: payment.returnUrl,
+      return_url: payment.returnUrl,
+      tx_ref: payment.txRef,
       customization: {
-        title: `${planName} Subscription`,
-        description: `Monthly subscription payment for ${planName} plan`
+        title: `${payment.planName} Subscription`,
+        description: payment.description
       },
       meta: {
-        subscription_id: subscriptionId,
+        subscription_id: payment.subscriptionId,
+        billing_cycle_id: payment.billingCycleId,
         payment_type: 'subscription'
       }
-    };
+    });
+  }
 
+  /**
+   * Create a showcase order payment session on the store's own merchant account.
+   * Shoppers have no email with us, so PayChangu collects it on the checkout page.
+   */
+  async createShowcasePayment(payment: ShowcasePaymentRequest): Promise<PaychanguPaymentResponse> {
+    const [firstName, ...lastNames] = payment.customerName.trim().split(/\s+/);
+
+    return this.createPayment({
+      amount: payment.amount,
+      currency: payment.currency,
+      email: '',
+      first_name: firstName || 'Customer',
+      last_name: lastNames.join(' '),
+      callback_url: payment.callbackUrl,
+      return_url: payment.returnUrl,
+      tx_ref: payment.txRef,
+      customization: {
+        title: payment.storeName,
+        description: `Payment for order ${payment.orderCode}`
+      },
+      meta: {
+        order_code: payment.orderCode,
+        payment_type: 'showcase_order'
+      }
+    });
+  }
+
+  /**
+   * Open a checkout session with PayChangu
+   */
+  async createPayment(paymentData: PaychanguPaymentRequest): Promise<PaychanguPaymentResponse> {
     try {
       console.log('PayChangu payment request:', {
-        url: `${PAYCHANGU_API_BASE}/payment`,
+        url: `${this.apiBase}/payment`,
         data: paymentData,
         hasSecretKey: !!this.secretKey
       });
 
-      const response = await fetch(`${PAYCHANGU_API_BASE}/payment`, {
+      const response = await fetch(`${this.apiBase}/payment`, {
         method: 'POST',
         headers: {
           'Content-Type': 'application/json',
@@ -127,9 +198,6 @@ export class PaychanguService {
       const result: PaychanguPaymentResponse = await response.json();
       console.log('PayChangu payment response:', result);
 
-      // Store payment record in database
-      await this.storePaymentRecord(subscriptionId, tx_ref, result, amount);
-
       return result;
     } catch (error) {
       console.error('Error creating PayChangu payment:', error);
@@ -137,45 +205,6 @@ export class PaychanguService {
     }
   }
 
-  /**
-   * Store payment record in database
-   */
-  private async storePaymentRecord(
-    subscriptionId: string,
-    txRef: string,
-    paymentResponse: PaychanguPaymentResponse,
-    amount: number
-  ) {
-    // Get subscription details for billing period
-    const { data: subscription } = await supabase
-      .from('user_subscriptions')
-      .select('current_period_start, current_period_end')
-      .eq('id', subscriptionId)
-      .single();
-
-    if (!subscription) {
-      throw new Error('Subscription not found');
-    }
-
-    const { error } = await supabase
-      .from('subscription_payments')
-      .insert({
-        subscription_id: subscriptionId,
-        paychangu_tx_ref: txRef,
-        checkout_url: paymentResponse.data.checkout_url,
-        amount,
-        currency: 'USD',
-        status: 'pending',
-        billing_period_start: subscription.current_period_start,
-        billing_period_end: subscription.current_period_end
-      });
-
-    if (error) {
-      console.error('Error storing payment record:', error);
-      throw error;
-    }
-  }
-
   /**
    * Verify payment status with PayChangu
    */
@@ -183,7 +212,7 @@ export class PaychanguService {
     try {
       console.log('PayChangu - Verifying payment for tx_ref:', txRef);
 
-      const response = await fetch(`${PAYCHANGU_API_BASE}/verify-payment/${txRef}`, {
+      const response = await fetch(`${this.apiBase}/verify-payment/${txRef}`, {
         method: 'GET',
         headers: {
           'Authorization': `Bearer ${this.secretKey}`,
@@ -208,115 +237,6 @@ export class PaychanguService {
       throw error;
     }
   }
-
-  /**
-   * Process webhook payload and update subscription status
-   */
-  async processWebhook(payload: PaychanguWebhookPayload): Promise<void> {
-    try {
-      // Find the payment record
-      const { data: payment } = await supabase
-        .from('subscription_payments')
-        .select('*, user_subscriptions(*)')
-        .eq('paychangu_tx_ref', payload.reference)
-        .single();
-
-      if (!payment) {
-        console.error('Payment record not found for tx_ref:', payload.reference);
-        return;
-      }
-
-      // Update payment status
-      const paymentStatus = payload.status === 'success' ? 'completed' : 'failed';
-      const updateData: any = {
-        status: paymentStatus,
-        paychangu_charge_id: payload.charge_id,
-        payment_method: payload.authorization.channel,
-        webhook_data: payload
-      };
-
-      if (paymentStatus === 'completed') {
-        updateData.completed_at = new Date().toISOString();
-      } else {
-        updateData.failed_at = new Date().toISOString();
-      }
-
-      await supabase
-        .from('subscription_payments')
-        .update(updateData)
-        .eq('id', payment.id);
-
-      // Update subscription status if payment successful
-      if (paymentStatus === 'completed') {
-        await this.updateSubscriptionAfterPayment(payment.subscription_id);
-      } else {
-        await this.handleFailedPayment(payment.subscription_id);
-      }
-
-    } catch (error) {
-      console.error('Error processing webhook:', error);
-      throw error;
-    }
-  }
-
-  /**
-   * Update subscription after successful payment
-   */
-  private async updateSubscriptionAfterPayment(subscriptionId: string) {
-    const now = new Date();
-    const nextBillingDate = new Date(now);
-    nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
-
-    await supabase
-      .from('user_subscriptions')
-      .update({
-        status: 'active',
-        last_payment_date: now.toISOString(),
-        next_billing_date: nextBillingDate.toISOString(),
-        failed_payment_attempts: 0,
-        updated_at: now.toISOString()
-      })
-      .eq('id', subscriptionId);
-  }
-
-  /**
-   * Handle failed payment
-   */
-  private async handleFailedPayment(subscriptionId: string) {
-    const { data: subscription } = await supabase
-      .from('user_subscriptions')
-      .select('failed_payment_attempts')
-      .eq('id', subscriptionId)
-      .single();
-
-    if (!subscription) return;
-
-    const failedAttempts = (subscription.failed_payment_attempts || 0) + 1;
-    const status = failedAttempts >= 3 ? 'past_due' : 'active';
-
-    await supabase
-      .from('user_subscriptions')
-      .update({
-        status,
-        failed_payment_attempts: failedAttempts,
-        updated_at: new Date().toISOString()
-      })
-      .eq('id', subscriptionId);
-  }
-
-  /**
-   * Validate webhook signature (implement based on PayChangu documentation)
-   */
-  validateWebhookSignature(payload: string, signature: string, webhookSecret: string): boolean {
-    // Implement SHA-256 HMAC validation as per PayChangu docs
-    const crypto = require('crypto');
-    const computedSignature = crypto
-      .createHmac('sha256', webhookSecret)
-      .update(payload)
-      .digest('hex');
-    
-    return computedSignature === signature;
-  }
 }
 
 export const paychanguService = new PaychanguService();
@@ -1,5 +1,5 @@
 import { supabase } from '@/integrations/supabase/client';
-import { paychanguService } from './paychangu';
+import type { PlanFeature, PlanLimitAction } from '@/lib/planLimits';
 
 export interface SubscriptionPlan {
   id: string;
@@ -13,6 +13,7 @@ export interface SubscriptionPlan {
   max_pin_users_per_store: number;
   max_inventory_items_per_store: number;
   features: string[];
+  feature_flags?: Partial<Record<PlanFeature, boolean>>;
   is_popular: boolean;
   is_active: boolean;
 }
@@ -21,7 +22,7 @@ export interface UserSubscription {
   id: string;
   user_id: string;
   plan_id: string;
-  status: 'active' | 'cancelled' | 'expired' | 'past_due' | 'trial';
+  status: 'active' | 'cancelled' | 'expired' | 'past_due' | 'suspended' | 'trial';
   billing_cycle: 'monthly' | 'yearly';
   trial_start_date?: string;
   trial_end_date?: string;
@@ -32,6 +33,9 @@ export interface UserSubscription {
   last_payment_amount?: number;
   failed_payment_attempts?: number;
   cancel_at_period_end?: boolean;
+  grace_period_ends_at?: string | null;
+  suspended_at?: string | null;
+  account_credit?: number;
   cancelled_at?: string;
   cancellation_reason?: string;
   external_subscription_id?: string;
@@ -48,6 +52,7 @@ export interface UserAccessStatus {
   next_billing_date?: string;
   trial_end_date?: string;
   trial_days_remaining?: number;
+  grace_period_ends_at?: string | null;
   is_trial: boolean;
   message?: string;
 }
@@ -59,6 +64,34 @@ export interface SubscriptionUsage {
   usage_by_store: Record<string, any>;
 }
 
+export interface PlanEntitlements {
+  subscribed: boolean;
+  has_access: boolean;
+  status: string;
+  plan_id?: string;
+  plan_name: string | null;
+  limits: {
+    stores: number | null;
+    pin_users_per_store: number | null;
+    inventory_items_per_store: number | null;
+  };
+  features: Record<PlanFeature, boolean>;
+  usage: {
+    stores: number;
+    pin_users: number | null;
+    inventory_items: number | null;
+  };
+}
+
+export interface SubscriptionLimitResult {
+  allowed: boolean;
+  reason?: string;
+  limit?: number | null;
+  current?: number;
+  feature?: PlanFeature;
+  plan_name?: string | null;
+}
+
 export interface SubscriptionPayment {
   id: string;
   subscription_id: string;
@@ -66,7 +99,8 @@ export interface SubscriptionPayment {
   paychangu_charge_id: string | null;
   amount: number;
   currency: string;
-  status: 'pending' | 'completed' | 'failed' | 'cancelled';
+  status: 'pending' | 'completed' | 'failed' | 'cancelled' | 'refunded' | 'charged_back';
+  billing_cycle_id: string | null;
   payment_method: string | null;
   payment_channel: string | null;
   billing_period_start: string;
@@ -79,16 +113,67 @@ export interface SubscriptionPayment {
 export interface BillingCycle {
   id: string;
   subscription_id: string;
+  plan_id: string | null;
+  plan_billing_cycle: 'monthly' | 'yearly' | null;
+  cycle_type: 'renewal' | 'proration';
+  description: string | null;
+  invoice_number: string | null;
   cycle_start: string;
   cycle_end: string;
+  subtotal: number | null;
+  credit_applied: number;
   amount_due: number;
+  currency: string;
+  due_at: string | null;
   status: 'upcoming' | 'processing' | 'paid' | 'failed' | 'cancelled';
   payment_id: string | null;
   payment_attempted_at: string | null;
   payment_completed_at: string | null;
+  retry_count: number | null;
+  next_retry_at: string | null;
   created_at: string;
 }
 
+export type SubscriptionPaymentStatus = 'completed' | 'failed' | 'pending';
+
+export interface PlanChangeResult {
+  success: boolean;
+  error?: string;
+  prorated?: boolean;
+  credit?: number;
+  charge?: number;
+  amount_due?: number;
+  pending_payment?: boolean;
+  account_credit?: number;
+  billing_cycle_id?: string | null;
+}
+
+export interface SubscriptionInvoice {
+  id: string;
+  invoice_number: string;
+  status: BillingCycle['status'];
+  cycle_type: BillingCycle['cycle_type'];
+  description: string | null;
+  issued_at: string;
+  due_at: string | null;
+  paid_at: string | null;
+  period_start: string;
+  period_end: string;
+  plan_name: string | null;
+  billing_cycle: string | null;
+  subtotal: number;
+  credit_applied: number;
+  amount_due: number;
+  currency: string;
+  customer_name: string | null;
+  customer_email: string | null;
+  payment: {
+    tx_ref: string | null;
+    payment_method: string | null;
+    completed_at: string | null;
+  } | null;
+}
+
 export interface SubscriptionHistoryItem {
   id: string;
   type: 'payment' | 'plan_change' | 'status_change' | 'billing_cycle';
@@ -131,7 +216,7 @@ export class SubscriptionService {
         subscription_plans (*)
       `)
       .eq('user_id', userId)
-      .in('status', ['active', 'trial', 'past_due'])
+      .in('status', ['active', 'trial', 'past_due', 'suspended'])
       .order('created_at', { ascending: false })
       .limit(1)
       .single();
@@ -238,63 +323,39 @@ export class SubscriptionService {
   }
 
   /**
-   * Update an existing subscription (handles trial credits)
+   * Move an existing subscription to another plan. Mid-period changes on a paid plan are
+   * prorated by the database: upgrades are invoiced for the difference, downgrades leave
+   * account credit towards the next invoices.
    */
   async updateSubscription(
     subscriptionId: string,
     planId: string,
     billingInterval: 'monthly' | 'yearly' = 'monthly'
   ): Promise<UserSubscription> {
-    // Get current subscription to check trial status
-    const { data: currentSub } = await supabase
-      .from('user_subscriptions')
-      .select('*')
-      .eq('id', subscriptionId)
-      .single();
-
-    if (!currentSub) {
-      throw new Error('Subscription not found');
-    }
-
-    const now = new Date();
-    const nextBillingDate = new Date(now);
-
-    // Handle trial credits - if upgrading during trial, extend billing period
-    if (currentSub.status === 'trial' && currentSub.trial_end_date) {
-      const trialEndDate = new Date(currentSub.trial_end_date);
-      const trialDaysRemaining = Math.max(0, Math.ceil((trialEndDate.getTime() - now.getTime()) / (1000 * 60 * 60 * 24)));
-
-      // Add remaining trial days to the billing period
-      nextBillingDate.setDate(nextBillingDate.getDate() + trialDaysRemaining);
-    }
+    const { data: change, error: changeError } = await supabase
+      .rpc('change_subscription_plan', {
+        _subscription_id: subscriptionId,
+        _plan_id: planId,
+        _billing_cycle: billingInterval
+      });
 
-    // Add the billing interval on top of trial credit
-    if (billingInterval === 'monthly') {
-      nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
-    } else {
-      nextBillingDate.setFullYear(nextBillingDate.getFullYear() + 1);
+    if (changeError) {
+      console.error('Error updating subscription:', changeError);
+      throw changeError;
     }
 
-    const updateData: any = {
-      plan_id: planId,
-      billing_cycle: billingInterval,
-      next_billing_date: nextBillingDate.toISOString(),
-      updated_at: now.toISOString()
-    };
-
-    // If upgrading from trial, keep trial status until payment
-    if (currentSub.status === 'trial') {
-      updateData.status = 'trial'; // Keep as trial until payment is processed
+    const result = change as unknown as PlanChangeResult;
+    if (!result.success) {
+      throw new Error(result.error || 'Failed to change plan');
     }
 
     const { data, error } = await supabase
       .from('user_subscriptions')
-      .update(updateData)
-      .eq('id', subscriptionId)
       .select(`
         *,
         subscription_plans (*)
       `)
+      .eq('id', subscriptionId)
       .single();
 
     if (error) {
@@ -325,133 +386,70 @@ export class SubscriptionService {
   }
 
   /**
-   * Process subscription payment
+   * Start paying the subscription's oldest unpaid invoice. Returns the PayChangu checkout URL,
+   * or null when nothing is owed yet (e.g. a plan change covered by account credit). The payment
+   * server opens the charge (src/api/payments/paychangu.ts) so it is always for the invoice.
    */
-  async processSubscriptionPayment(
-    subscriptionId: string,
-    userEmail: string,
-    userName: string
-  ): Promise<string> {
-    // Get subscription and plan details
-    const { data: subscription, error } = await supabase
-      .from('user_subscriptions')
-      .select(`
-        *,
-        subscription_plans (*)
-      `)
-      .eq('id', subscriptionId)
-      .single();
-
-    if (error || !subscription) {
-      throw new Error('Subscription not found');
+  async processSubscriptionPayment(subscriptionId: string): Promise<string | null> {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) {
+      throw new Error('Sign in to pay for your subscription');
     }
 
-    const plan = subscription.subscription_plans;
-    if (!plan) {
-      throw new Error('Subscription plan not found');
+    const response = await fetch('/api/payments/paychangu/subscription-checkout', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'Accept': 'application/json',
+        'Authorization': `Bearer ${session.access_token}`
+      },
+      body: JSON.stringify({ subscription_id: subscriptionId })
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('Error starting subscription payment:', result);
+      throw new Error(result.error || 'Failed to start payment');
     }
 
-    // Create payment with PayChangu
-    const paymentResponse = await paychanguService.createSubscriptionPayment(
-      subscriptionId,
-      plan.price_monthly,
-      userEmail,
-      userName,
-      plan.display_name
-    );
+    return result.checkout_url ?? null;
+  }
+
+  /**
+   * Check a payment with PayChangu and settle its invoice if it went through. The payment
+   * server does the check (src/api/payments/paychangu.ts): the browser can't be trusted to.
+   */
+  async confirmPayment(subscriptionId: string, txRef: string): Promise<SubscriptionPaymentStatus> {
+    const response = await fetch('/api/payments/paychangu/subscription-verify', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/json' },
+      body: JSON.stringify({ subscription_id: subscriptionId, tx_ref: txRef })
+    });
+
+    const result = await response.json().catch(() => ({}));
+
+    if (!response.ok) {
+      console.error('Error confirming payment:', result);
+      throw new Error(result.error || 'Failed to confirm payment');
+    }
 
-    return paymentResponse.data.checkout_url;
+    return result.status as SubscriptionPaymentStatus;
   }
 
   /**
-   * Manually confirm payment (for testing when webhooks aren't available)
+   * Invoice details for a billing cycle
    */
-  async confirmPayment(subscriptionId: string, txRef: string): Promise<void> {
-    try {
-      console.log('SubscriptionService - Confirming payment for subscription:', subscriptionId, 'tx_ref:', txRef);
-
-      // Get current subscription to preserve trial credits
-      const { data: currentSub } = await supabase
-        .from('user_subscriptions')
-        .select('*')
-        .eq('id', subscriptionId)
-        .single();
-
-      console.log('SubscriptionService - Current subscription:', currentSub);
-
-      if (!currentSub) {
-        throw new Error('Subscription not found');
-      }
-
-      // Verify payment with PayChangu (skip for test payments or localhost)
-      const isTestPayment = txRef.startsWith('test_') || txRef.includes('localhost') ||
-                           (typeof window !== 'undefined' && window.location.hostname === 'localhost');
-
-      if (!isTestPayment) {
-        console.log('SubscriptionService - Verifying payment with PayChangu');
-        try {
-          const paymentStatus = await paychanguService.verifyPayment(txRef);
-          console.log('SubscriptionService - Payment verification result:', paymentStatus);
-
-          if (paymentStatus.status !== 'success' || paymentStatus.data?.status !== 'success') {
-            throw new Error(`Payment verification failed: ${paymentStatus.status} / ${paymentStatus.data?.status}`);
-          }
+  async getInvoice(billingCycleId: string): Promise<SubscriptionInvoice | null> {
+    const { data, error } = await supabase
+      .rpc('get_subscription_invoice', { _billing_cycle_id: billingCycleId });
 
-          // Update payment record
-          console.log('SubscriptionService - Updating payment record');
-          await supabase
-            .from('subscription_payments')
-            .update({
-              status: 'completed',
-              completed_at: new Date().toISOString(),
-              paychangu_charge_id: paymentStatus.data?.reference || txRef
-            })
-            .eq('paychangu_tx_ref', txRef);
-        } catch (error) {
-          console.error('SubscriptionService - PayChangu verification failed, treating as test payment:', error);
-          // For development/testing, continue with manual confirmation
-        }
-      } else {
-        console.log('SubscriptionService - Skipping PayChangu verification for test payment');
-      }
-
-      // Update payment record for test payments
-      console.log('SubscriptionService - Updating payment record for test/manual confirmation');
-      await supabase
-        .from('subscription_payments')
-        .update({
-          status: 'completed',
-          completed_at: new Date().toISOString(),
-          paychangu_charge_id: txRef
-        })
-        .eq('paychangu_tx_ref', txRef);
-
-      // Update subscription status - preserve next_billing_date if it includes trial credits
-      const now = new Date();
-      const updateData: any = {
-        status: 'active',
-        last_payment_date: now.toISOString(),
-        failed_payment_attempts: 0,
-        updated_at: now.toISOString()
-      };
-
-      // Only update next_billing_date if it wasn't already set with trial credits
-      if (!currentSub.next_billing_date || currentSub.status !== 'trial') {
-        const nextBillingDate = new Date(now);
-        nextBillingDate.setMonth(nextBillingDate.getMonth() + 1);
-        updateData.next_billing_date = nextBillingDate.toISOString();
-      }
-
-      await supabase
-        .from('user_subscriptions')
-        .update(updateData)
-        .eq('id', subscriptionId);
-
-      console.log('Payment confirmed and subscription activated');
-    } catch (error) {
-      console.error('Error confirming payment:', error);
+    if (error) {
+      console.error('Error fetching invoice:', error);
       throw error;
     }
+
+    return data as unknown as SubscriptionInvoice | null;
   }
 
   /**
@@ -496,57 +494,11 @@ export class SubscriptionService {
   }
 
   /**
-   * Update subscription usage
+   * Recount subscription usage. Counts are kept current by the database as stores, team
+   * members and products change; this is for a refresh on demand.
    */
-  async updateSubscriptionUsage(
-    userId: string,
-    storeId?: string
-  ): Promise<void> {
-    // Get user's active subscription
-    const subscription = await this.getUserSubscription(userId);
-    if (!subscription) return;
-
-    // Count user's stores
-    const { count: storesCount } = await supabase
-      .from('stores')
-      .select('*', { count: 'exact', head: true })
-      .eq('owner_id', userId);
-
-    // Count total PIN users across all stores
-    const { count: pinUsersCount } = await supabase
-      .from('store_members')
-      .select('*', { count: 'exact', head: true })
-      .in('store_id', 
-        await supabase
-          .from('stores')
-          .select('id')
-          .eq('owner_id', userId)
-          .then(({ data }) => data?.map(s => s.id) || [])
-      )
-      .eq('is_active', true);
-
-    // Count total inventory items across all stores
-    const { count: inventoryCount } = await supabase
-      .from('products')
-      .select('*', { count: 'exact', head: true })
-      .in('store_id',
-        await supabase
-          .from('stores')
-          .select('id')
-          .eq('owner_id', userId)
-          .then(({ data }) => data?.map(s => s.id) || [])
-      );
-
-    // Update usage tracking
-    const { error } = await supabase
-      .from('subscription_usage_tracking')
-      .upsert({
-        subscription_id: subscription.id,
-        stores_count: storesCount || 0,
-        total_pin_users: pinUsersCount || 0,
-        total_inventory_items: inventoryCount || 0,
-        last_calculated_at: new Date().toISOString()
-      });
+  async updateSubscriptionUsage(): Promise<void> {
+    const { error } = await supabase.rpc('refresh_subscription_usage');
 
     if (error) {
       console.error('Error updating subscription usage:', error);
@@ -554,68 +506,44 @@ export class SubscriptionService {
   }
 
   /**
-   * Check if user can perform an action based on their subscription limits
+   * Check if user can perform an action based on their subscription limits. With a store,
+   * the store owner's plan applies. The database enforces the same rules on every write.
    */
   async checkSubscriptionLimits(
     userId: string,
-    action: 'create_store' | 'add_pin_user' | 'add_inventory_item',
+    action: PlanLimitAction | PlanFeature,
     storeId?: string
-  ): Promise<{ allowed: boolean; reason?: string }> {
-    const subscription = await this.getUserSubscription(userId);
-    if (!subscription || subscription.status !== 'active') {
-      return { allowed: false, reason: 'No active subscription' };
-    }
+  ): Promise<SubscriptionLimitResult> {
+    const { data, error } = await supabase
+      .rpc('check_subscription_limits', {
+        _user_id: userId,
+        _action: action,
+        _store_id: storeId || null
+      });
 
-    const plan = subscription.subscription_plans;
-    if (!plan) {
-      return { allowed: false, reason: 'Invalid subscription plan' };
+    if (error) {
+      console.error('Error checking subscription limits:', error);
+      return { allowed: false, reason: 'Unable to check subscription limits' };
     }
 
-    const usage = await this.getSubscriptionUsage(subscription.id);
-    if (!usage) {
-      return { allowed: false, reason: 'Unable to check usage' };
-    }
+    return data as unknown as SubscriptionLimitResult;
+  }
 
-    switch (action) {
-      case 'create_store':
-        if (plan.max_stores !== 999999 && usage.stores_count >= plan.max_stores) {
-          return { 
-            allowed: false, 
-            reason: `Store limit reached (${plan.max_stores})` 
-          };
-        }
-        break;
-
-      case 'add_pin_user':
-        if (plan.max_pin_users_per_store !== 999999) {
-          // Check PIN users for specific store
-          const storeUsage = usage.usage_by_store[storeId || ''] || {};
-          const storePinUsers = storeUsage.pin_users || 0;
-          if (storePinUsers >= plan.max_pin_users_per_store) {
-            return { 
-              allowed: false, 
-              reason: `PIN user limit reached for this store (${plan.max_pin_users_per_store})` 
-            };
-          }
-        }
-        break;
-
-      case 'add_inventory_item':
-        if (plan.max_inventory_items_per_store !== 999999) {
-          // Check inventory items for specific store
-          const storeUsage = usage.usage_by_store[storeId || ''] || {};
-          const storeInventory = storeUsage.inventory_items || 0;
-          if (storeInventory >= plan.max_inventory_items_per_store) {
-            return { 
-              allowed: false, 
-              reason: `Inventory limit reached for this store (${plan.max_inventory_items_per_store})` 
-            };
-          }
-        }
-        break;
+  /**
+   * Plan limits, features and usage for a store (its owner's plan), or for the signed-in
+   * owner when no store is given
+   */
+  async getPlanEntitlements(storeId?: string): Promise<PlanEntitlements | null> {
+    const { data, error } = await supabase
+      .rpc('get_plan_entitlements', { _store_id: storeId || null });
+
+    if (error) {
+      console.error('Error fetching plan entitlements:', error);
+      throw error;
     }
 
-    return { allowed: true };
+    const result = data as unknown as PlanEntitlements & { success: boolean };
+    return result.success ? result : null;
   }
 
   /**
@@ -672,12 +600,15 @@ export class SubscriptionService {
         type: 'payment',
         title: payment.status === 'completed' ? 'Payment Successful' :
                payment.status === 'failed' ? 'Payment Failed' :
+               payment.status === 'refunded' ? 'Payment Refunded' :
+               payment.status === 'charged_back' ? 'Payment Charged Back' :
                payment.status === 'pending' ? 'Payment Pending' : 'Payment Cancelled',
         description: `${payment.status === 'completed' ? 'Received' : 'Attempted'} payment of $${payment.amount}`,
         amount: payment.amount,
         status: payment.status,
         date: payment.completed_at || payment.failed_at || payment.created_at,
         details: {
+          billing_cycle_id: payment.billing_cycle_id,
           payment_method: payment.payment_method,
           payment_channel: payment.payment_channel,
           tx_ref: payment.paychangu_tx_ref,
@@ -691,19 +622,30 @@ export class SubscriptionService {
 
     // Add billing cycle history
     cycles.forEach(cycle => {
+      const isProration = cycle.cycle_type === 'proration';
+
       history.push({
         id: cycle.id,
         type: 'billing_cycle',
-        title: cycle.status === 'paid' ? 'Billing Cycle Completed' :
-               cycle.status === 'failed' ? 'Billing Cycle Failed' :
-               cycle.status === 'upcoming' ? 'Upcoming Billing Cycle' : 'Billing Cycle Processing',
-        description: `Billing cycle from ${new Date(cycle.cycle_start).toLocaleDateString()} to ${new Date(cycle.cycle_end).toLocaleDateString()}`,
+        title: cycle.status === 'paid' ? (isProration ? 'Plan Change Invoice Paid' : 'Billing Cycle Completed') :
+               cycle.status === 'failed' ? 'Payment Overdue' :
+               cycle.status === 'cancelled' ? 'Invoice Cancelled' :
+               cycle.status === 'upcoming' ? (isProration ? 'Plan Change Invoice' : 'Upcoming Billing Cycle') : 'Billing Cycle Processing',
+        description: isProration && cycle.description
+          ? cycle.description
+          : `Billing cycle from ${new Date(cycle.cycle_start).toLocaleDateString()} to ${new Date(cycle.cycle_end).toLocaleDateString()}`,
         amount: cycle.amount_due,
         status: cycle.status,
         date: cycle.payment_completed_at || cycle.payment_attempted_at || cycle.created_at,
         details: {
+          invoice_number: cycle.invoice_number,
+          cycle_type: cycle.cycle_type,
           cycle_start: cycle.cycle_start,
           cycle_end: cycle.cycle_end,
+          due_at: cycle.due_at,
+          subtotal: cycle.subtotal,
+          credit_applied: cycle.credit_applied,
+          next_reminder_at: cycle.next_retry_at,
           payment_id: cycle.payment_id
         }
       });
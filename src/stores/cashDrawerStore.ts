@@ -0,0 +1,279 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { sessionManager } from '@/lib/sessionManager';
+import { toast } from 'sonner';
+
+// Types
+export type CashMovementType = 'paid_in' | 'paid_out';
+
+export interface CashDrawerShift {
+  id: string;
+  store_id: string;
+  shift_number: string;
+  status: 'open' | 'closed';
+  opened_by_name: string | null;
+  opening_float: number;
+  opened_at: string;
+  closed_by_name: string | null;
+  closed_at: string | null;
+  cash_sales: number | null;
+  cash_refunds: number | null;
+  paid_in: number | null;
+  paid_out: number | null;
+  expected_cash: number | null;
+  counted_cash: number | null;
+  over_short: number | null;
+  notes: string | null;
+}
+
+export interface CashDrawerMovement {
+  id: string;
+  shift_id: string;
+  movement_type: CashMovementType;
+  amount: number;
+  reason: string;
+  created_by_name: string | null;
+  created_at: string;
+}
+
+export interface ShiftTenderTotal {
+  payment_method: string;
+  name: string;
+  sales_count: number;
+  sales_total: number;
+  refunds_total: number;
+}
+
+// X-report while the shift is open, Z-report once it has closed
+export interface ShiftReport {
+  shift: CashDrawerShift;
+  cash_sales: number;
+  cash_refunds: number;
+  paid_in: number;
+  paid_out: number;
+  expected_cash: number;
+  payments: ShiftTenderTotal[];
+  movements: CashDrawerMovement[];
+  generated_at: string;
+}
+
+interface DrawerResult {
+  success: boolean;
+  error?: string;
+  shift?: CashDrawerShift;
+  report?: ShiftReport;
+}
+
+interface CashDrawerState {
+  enabled: boolean;
+  currentShift: CashDrawerShift | null;
+  loading: boolean;
+  history: CashDrawerShift[];
+  historyLoading: boolean;
+}
+
+interface CashDrawerActions {
+  fetchDrawer: (storeId: string) => Promise<void>;
+  openShift: (storeId: string, openingFloat: number, notes?: string) => Promise<boolean>;
+  recordMovement: (type: CashMovementType, amount: number, reason: string) => Promise<boolean>;
+  closeShift: (countedCash: number, notes?: string) => Promise<ShiftReport | null>;
+  fetchReport: (shiftId: string) => Promise<ShiftReport | null>;
+  fetchHistory: (storeId: string, from?: Date, to?: Date) => Promise<void>;
+  reset: () => void;
+}
+
+type CashDrawerStore = CashDrawerState & CashDrawerActions;
+
+const initialState: CashDrawerState = {
+  enabled: false,
+  currentShift: null,
+  loading: false,
+  history: [],
+  historyLoading: false,
+};
+
+/**
+ * The PIN user working the till, so shifts are attributed to the cashier rather
+ * than the account the device is signed in with
+ */
+const getPinMemberId = (storeId: string): string | null => {
+  const pinSession = sessionManager.getPinSession();
+  return pinSession && pinSession.store_id === storeId ? pinSession.member_id : null;
+};
+
+export const useCashDrawerStore = create<CashDrawerStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchDrawer: async (storeId: string) => {
+        set({ loading: true }, false, 'fetchDrawer:start');
+        try {
+          const [settingsResult, shiftResult] = await Promise.all([
+            supabase
+              .from('store_settings')
+              .select('cash_drawer_enabled')
+              .eq('store_id', storeId)
+              .maybeSingle(),
+            supabase
+              .from('cash_drawer_shifts')
+              .select('*')
+              .eq('store_id', storeId)
+              .eq('status', 'open')
+              .maybeSingle(),
+          ]);
+
+          if (settingsResult.error) throw settingsResult.error;
+          if (shiftResult.error) throw shiftResult.error;
+
+          set({
+            enabled: !!settingsResult.data?.cash_drawer_enabled,
+            currentShift: shiftResult.data as CashDrawerShift | null,
+          }, false, 'fetchDrawer:success');
+        } catch (error) {
+          console.error('Error fetching cash drawer:', error);
+        } finally {
+          set({ loading: false }, false, 'fetchDrawer:end');
+        }
+      },
+
+      openShift: async (storeId: string, openingFloat: number, notes?: string) => {
+        try {
+          const { data, error } = await supabase.rpc('open_cash_drawer_shift', {
+            _store_id: storeId,
+            _opening_float: openingFloat,
+            _member_id: getPinMemberId(storeId),
+            _notes: notes || null,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as DrawerResult;
+          if (!result.success || !result.shift) {
+            toast.error(result.error || 'Failed to open shift');
+            // Another till may have opened the drawer in the meantime
+            get().fetchDrawer(storeId);
+            return false;
+          }
+
+          set({ currentShift: result.shift }, false, 'openShift');
+          toast.success(`Shift ${result.shift.shift_number} opened`);
+          return true;
+        } catch (error) {
+          console.error('Error opening shift:', error);
+          toast.error('Failed to open shift');
+          return false;
+        }
+      },
+
+      recordMovement: async (type: CashMovementType, amount: number, reason: string) => {
+        const { currentShift } = get();
+        if (!currentShift) return false;
+
+        try {
+          const { data, error } = await supabase.rpc('record_cash_drawer_movement', {
+            _shift_id: currentShift.id,
+            _movement_type: type,
+            _amount: amount,
+            _reason: reason,
+            _member_id: getPinMemberId(currentShift.store_id),
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as DrawerResult;
+          if (!result.success) {
+            toast.error(result.error || 'Failed to record cash movement');
+            return false;
+          }
+
+          toast.success(type === 'paid_in' ? 'Paid in recorded' : 'Paid out recorded');
+          return true;
+        } catch (error) {
+          console.error('Error recording cash movement:', error);
+          toast.error('Failed to record cash movement');
+          return false;
+        }
+      },
+
+      closeShift: async (countedCash: number, notes?: string) => {
+        const { currentShift } = get();
+        if (!currentShift) return null;
+
+        try {
+          const { data, error } = await supabase.rpc('close_cash_drawer_shift', {
+            _shift_id: currentShift.id,
+            _counted_cash: countedCash,
+            _member_id: getPinMemberId(currentShift.store_id),
+            _notes: notes || null,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as DrawerResult;
+          if (!result.success || !result.report) {
+            toast.error(result.error || 'Failed to close shift');
+            return null;
+          }
+
+          set({ currentShift: null }, false, 'closeShift');
+          toast.success(`Shift ${currentShift.shift_number} closed`);
+          return result.report;
+        } catch (error) {
+          console.error('Error closing shift:', error);
+          toast.error('Failed to close shift');
+          return null;
+        }
+      },
+
+      fetchReport: async (shiftId: string) => {
+        try {
+          const { data, error } = await supabase.rpc('get_cash_drawer_report', {
+            _shift_id: shiftId,
+          });
+
+          if (error) throw error;
+
+          return data as unknown as ShiftReport;
+        } catch (error) {
+          console.error('Error fetching shift report:', error);
+          toast.error('Failed to load shift report');
+          return null;
+        }
+      },
+
+      fetchHistory: async (storeId: string, from?: Date, to?: Date) => {
+        set({ historyLoading: true }, false, 'fetchHistory:start');
+        try {
+          let query = supabase
+            .from('cash_drawer_shifts')
+            .select('*')
+            .eq('store_id', storeId)
+            .order('opened_at', { ascending: false })
+            .limit(100);
+
+          if (from) query = query.gte('opened_at', from.toISOString());
+          if (to) query = query.lte('opened_at', to.toISOString());
+
+          const { data, error } = await query;
+
+          if (error) throw error;
+
+          set({ history: (data || []) as CashDrawerShift[] }, false, 'fetchHistory:success');
+        } catch (error) {
+          console.error('Error fetching shift history:', error);
+          toast.error('Failed to load shift history');
+        } finally {
+          set({ historyLoading: false }, false, 'fetchHistory:end');
+        }
+      },
+
+      reset: () => set(initialState, false, 'reset'),
+    }),
+    { name: 'cash-drawer-store' }
+  )
+);
+
+export const useCurrentShift = () => useCashDrawerStore((state) => state.currentShift);
+export const useCashDrawerEnabled = () => useCashDrawerStore((state) => state.enabled);
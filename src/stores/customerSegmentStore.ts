@@ -0,0 +1,423 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { sessionManager } from '@/lib/sessionManager';
+import type { CampaignChannel, CampaignMessageStatus, RfmSegment, SegmentRules } from '@/lib/customerSegments';
+import { toast } from 'sonner';
+
+// Types
+export interface SegmentSnapshot {
+  snapshot_date: string;
+  customer_count: number;
+  total_spent: number;
+}
+
+export interface CustomerSegment {
+  id: string;
+  store_id: string;
+  name: string;
+  description: string | null;
+  rules: SegmentRules;
+  created_at: string;
+  updated_at: string;
+  customer_ids: string[];
+  customer_count: number;
+  total_spent: number;
+  // Daily counts, oldest first
+  history: SegmentSnapshot[];
+}
+
+export interface SegmentInput {
+  name: string;
+  description?: string;
+  rules: SegmentRules;
+}
+
+export interface SegmentPreview {
+  customer_ids: string[];
+  customer_count: number;
+}
+
+export interface CustomerRfmScore {
+  customer_id: string;
+  last_order_at: string;
+  recency_days: number;
+  frequency: number;
+  monetary: number;
+  recency_score: number;
+  frequency_score: number;
+  monetary_score: number;
+  segment: RfmSegment;
+  scored_at: string;
+}
+
+export interface CustomerCampaign {
+  id: string;
+  segment_id: string | null;
+  segment_name: string;
+  name: string;
+  channel: CampaignChannel;
+  message: string;
+  recipient_count: number;
+  skipped_count: number;
+  created_at: string;
+}
+
+export interface CampaignInput {
+  segmentId: string;
+  name: string;
+  channel: CampaignChannel;
+  message: string;
+}
+
+export interface CampaignMessage {
+  id: string;
+  campaign_id: string;
+  customer_id: string | null;
+  channel: CampaignChannel;
+  recipient_name: string | null;
+  recipient_phone: string;
+  message: string;
+  status: CampaignMessageStatus;
+  error_message: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+interface SegmentResponse {
+  success: boolean;
+  error?: string;
+  segment?: CustomerSegment;
+}
+
+interface PreviewResponse extends Partial<SegmentPreview> {
+  success: boolean;
+  error?: string;
+}
+
+interface CampaignResponse {
+  success: boolean;
+  error?: string;
+  campaign?: CustomerCampaign;
+}
+
+interface CustomerSegmentState {
+  segments: CustomerSegment[];
+  loading: boolean;
+  saving: boolean;
+  rfmScores: CustomerRfmScore[];
+  rfmLoading: boolean;
+  refreshingRfm: boolean;
+  campaigns: CustomerCampaign[];
+  campaignMessages: CampaignMessage[];
+  messagesLoading: boolean;
+  queueing: boolean;
+}
+
+interface CustomerSegmentActions {
+  fetchSegments: (storeId: string) => Promise<void>;
+  previewSegment: (storeId: string, rules: SegmentRules) => Promise<SegmentPreview | null>;
+  saveSegment: (storeId: string, input: SegmentInput, segmentId?: string) => Promise<CustomerSegment | null>;
+  deleteSegment: (storeId: string, segmentId: string) => Promise<boolean>;
+  fetchRfmScores: (storeId: string) => Promise<void>;
+  refreshRfmScores: (storeId: string) => Promise<void>;
+  fetchCampaigns: (storeId: string) => Promise<void>;
+  queueCampaign: (storeId: string, input: CampaignInput) => Promise<CustomerCampaign | null>;
+  fetchCampaignMessages: (campaignId: string) => Promise<void>;
+  markCampaignMessageSent: (messageId: string, provider: string) => Promise<boolean>;
+  reset: () => void;
+}
+
+type CustomerSegmentStore = CustomerSegmentState & CustomerSegmentActions;
+
+const initialState: CustomerSegmentState = {
+  segments: [],
+  loading: false,
+  saving: false,
+  rfmScores: [],
+  rfmLoading: false,
+  refreshingRfm: false,
+  campaigns: [],
+  campaignMessages: [],
+  messagesLoading: false,
+  queueing: false,
+};
+
+// Supabase returns RPC exceptions as PostgrestErrors, which carry the RAISE text
+const rpcErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+// Rules go to the database as plain JSON
+const rulesToJson = (rules: SegmentRules) => ({
+  match: rules.match,
+  conditions: rules.conditions.map(condition => ({
+    field: condition.field,
+    operator: condition.operator,
+    value: condition.value.trim(),
+    value2: condition.operator === 'between' ? (condition.value2 ?? '').trim() : null,
+    within_days: condition.within_days || null,
+  })),
+});
+
+export const useCustomerSegmentStore = create<CustomerSegmentStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchSegments: async (storeId: string) => {
+        set({ loading: true }, false, 'fetchSegments:start');
+        try {
+          const { data, error } = await supabase.rpc('get_customer_segments', { _store_id: storeId });
+
+          if (error) throw error;
+
+          set({ segments: (data || []) as unknown as CustomerSegment[] }, false, 'fetchSegments:success');
+        } catch (error) {
+          console.error('Error fetching customer segments:', error);
+          toast.error('Failed to load customer segments');
+        } finally {
+          set({ loading: false }, false, 'fetchSegments:end');
+        }
+      },
+
+      previewSegment: async (storeId: string, rules: SegmentRules) => {
+        try {
+          const { data, error } = await supabase.rpc('preview_customer_segment', {
+            _store_id: storeId,
+            _rules: rulesToJson(rules),
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as PreviewResponse;
+          if (!result.success) {
+            toast.error(result.error || 'Failed to preview segment');
+            return null;
+          }
+
+          return {
+            customer_ids: result.customer_ids ?? [],
+            customer_count: result.customer_count ?? 0,
+          };
+        } catch (error) {
+          console.error('Error previewing customer segment:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to preview segment'));
+          return null;
+        }
+      },
+
+      saveSegment: async (storeId: string, input: SegmentInput, segmentId?: string) => {
+        set({ saving: true }, false, 'saveSegment:start');
+        try {
+          const { data, error } = await supabase.rpc('save_customer_segment', {
+            _store_id: storeId,
+            _name: input.name,
+            _rules: rulesToJson(input.rules),
+            _description: input.description || undefined,
+            _segment_id: segmentId,
+            _pin_session: sessionManager.getPinSessionToken(storeId) || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as SegmentResponse;
+          if (!result.success || !result.segment) {
+            toast.error(result.error || 'Failed to save segment');
+            return null;
+          }
+
+          // Keep the history already loaded; the saved count replaces today's
+          const saved = result.segment;
+          const existing = get().segments.find(segment => segment.id === saved.id);
+          const today = new Date().toISOString().slice(0, 10);
+          const segment: CustomerSegment = {
+            ...saved,
+            history: [
+              ...(existing?.history ?? []).filter(snapshot => snapshot.snapshot_date !== today),
+              { snapshot_date: today, customer_count: saved.customer_count, total_spent: saved.total_spent },
+            ],
+          };
+
+          set({
+            segments: [...get().segments.filter(s => s.id !== segment.id), segment]
+              .sort((a, b) => a.name.localeCompare(b.name)),
+          }, false, 'saveSegment:success');
+          toast.success(segmentId ? 'Segment updated' : 'Segment saved');
+          return segment;
+        } catch (error) {
+          console.error('Error saving customer segment:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to save segment'));
+          return null;
+        } finally {
+          set({ saving: false }, false, 'saveSegment:end');
+        }
+      },
+
+      deleteSegment: async (storeId: string, segmentId: string) => {
+        try {
+          const { data, error } = await supabase.rpc('delete_customer_segment', {
+            _segment_id: segmentId,
+            _pin_session: sessionManager.getPinSessionToken(storeId) || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as { success: boolean; error?: string };
+          if (!result.success) {
+            toast.error(result.error || 'Failed to delete segment');
+            return false;
+          }
+
+          set({ segments: get().segments.filter(segment => segment.id !== segmentId) }, false, 'deleteSegment');
+          toast.success('Segment deleted');
+          return true;
+        } catch (error) {
+          console.error('Error deleting customer segment:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to delete segment'));
+          return false;
+        }
+      },
+
+      fetchRfmScores: async (storeId: string) => {
+        set({ rfmLoading: true }, false, 'fetchRfmScores:start');
+        try {
+          const { data, error } = await supabase
+            .from('customer_rfm_scores')
+            .select('customer_id, last_order_at, recency_days, frequency, monetary, recency_score, frequency_score, monetary_score, segment, scored_at')
+            .eq('store_id', storeId);
+
+          if (error) throw error;
+
+          set({ rfmScores: (data || []) as unknown as CustomerRfmScore[] }, false, 'fetchRfmScores:success');
+        } catch (error) {
+          console.error('Error fetching RFM scores:', error);
+          toast.error('Failed to load RFM scores');
+        } finally {
+          set({ rfmLoading: false }, false, 'fetchRfmScores:end');
+        }
+      },
+
+      refreshRfmScores: async (storeId: string) => {
+        set({ refreshingRfm: true }, false, 'refreshRfmScores:start');
+        try {
+          const { error } = await supabase.rpc('refresh_customer_rfm_scores', { _store_id: storeId });
+
+          if (error) throw error;
+
+          await get().fetchRfmScores(storeId);
+          toast.success('RFM scores updated');
+        } catch (error) {
+          console.error('Error refreshing RFM scores:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to update RFM scores'));
+        } finally {
+          set({ refreshingRfm: false }, false, 'refreshRfmScores:end');
+        }
+      },
+
+      fetchCampaigns: async (storeId: string) => {
+        try {
+          const { data, error } = await supabase
+            .from('customer_campaigns')
+            .select('id, segment_id, segment_name, name, channel, message, recipient_count, skipped_count, created_at')
+            .eq('store_id', storeId)
+            .order('created_at', { ascending: false })
+            .limit(50);
+
+          if (error) throw error;
+
+          set({ campaigns: (data || []) as unknown as CustomerCampaign[] }, false, 'fetchCampaigns:success');
+        } catch (error) {
+          console.error('Error fetching campaigns:', error);
+          toast.error('Failed to load campaigns');
+        }
+      },
+
+      queueCampaign: async (storeId: string, input: CampaignInput) => {
+        set({ queueing: true }, false, 'queueCampaign:start');
+        try {
+          const { data, error } = await supabase.rpc('queue_customer_campaign', {
+            _segment_id: input.segmentId,
+            _name: input.name,
+            _channel: input.channel,
+            _message: input.message,
+            _pin_session: sessionManager.getPinSessionToken(storeId) || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as CampaignResponse;
+          if (!result.success || !result.campaign) {
+            toast.error(result.error || 'Failed to queue campaign');
+            return null;
+          }
+
+          set({ campaigns: [result.campaign, ...get().campaigns] }, false, 'queueCampaign:success');
+          toast.success(
+            input.channel === 'whatsapp'
+              ? `${result.campaign.recipient_count} message(s) ready to send on WhatsApp`
+              : `${result.campaign.recipient_count} message(s) queued for sending`
+          );
+          return result.campaign;
+        } catch (error) {
+          console.error('Error queuing campaign:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to queue campaign'));
+          return null;
+        } finally {
+          set({ queueing: false }, false, 'queueCampaign:end');
+        }
+      },
+
+      fetchCampaignMessages: async (campaignId: string) => {
+        set({ messagesLoading: true, campaignMessages: [] }, false, 'fetchCampaignMessages:start');
+        try {
+          const { data, error } = await supabase
+            .from('customer_campaign_messages')
+            .select('id, campaign_id, customer_id, channel, recipient_name, recipient_phone, message, status, error_message, sent_at, created_at')
+            .eq('campaign_id', campaignId)
+            .order('recipient_name');
+
+          if (error) throw error;
+
+          set({ campaignMessages: (data || []) as unknown as CampaignMessage[] }, false, 'fetchCampaignMessages:success');
+        } catch (error) {
+          console.error('Error fetching campaign messages:', error);
+          toast.error('Failed to load campaign messages');
+        } finally {
+          set({ messagesLoading: false }, false, 'fetchCampaignMessages:end');
+        }
+      },
+
+      markCampaignMessageSent: async (messageId: string, provider: string) => {
+        const { error } = await supabase.rpc('record_customer_campaign_message_result', {
+          _notification_id: messageId,
+          _sent: true,
+          _provider: provider,
+        });
+
+        if (error) {
+          console.error('Error recording campaign message:', error);
+          toast.error('Failed to mark message as sent');
+          return false;
+        }
+
+        set({
+          campaignMessages: get().campaignMessages.map(message =>
+            message.id === messageId
+              ? { ...message, status: 'sent' as const, sent_at: new Date().toISOString() }
+              : message
+          ),
+        }, false, 'markCampaignMessageSent');
+        return true;
+      },
+
+      reset: () => set(initialState, false, 'reset'),
+    }),
+    { name: 'customer-segment-store' }
+  )
+);
+
+// Selector hooks
+export const useCustomerSegments = () => useCustomerSegmentStore(state => state.segments);
+export const useCustomerRfmScores = () => useCustomerSegmentStore(state => state.rfmScores);
+export const useCustomerCampaigns = () => useCustomerSegmentStore(state => state.campaigns);
+export const useCampaignMessages = () => useCustomerSegmentStore(state => state.campaignMessages);
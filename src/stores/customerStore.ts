@@ -12,7 +12,9 @@ export interface Customer {
   address: string | null;
   total_orders: number | null;
   total_spent: number | null;
+  loyalty_points?: number;
   status: string | null;
+  tags?: string[];
   created_at: string;
   last_order_date?: string | null;
 }
@@ -62,6 +64,7 @@ interface CustomerState {
   showExportDialog: boolean;
   showStatusDialog: boolean;
   showAnalytics: boolean;
+  showSegments: boolean;
   
   // Customer details
   customerOrders: Order[];
@@ -97,6 +100,7 @@ interface CustomerActions {
   setShowExportDialog: (show: boolean) => void;
   setShowStatusDialog: (show: boolean) => void;
   setShowAnalytics: (show: boolean) => void;
+  setShowSegments: (show: boolean) => void;
   
   // Customer details actions
   setCustomerOrders: (orders: Order[]) => void;
@@ -143,6 +147,7 @@ const initialState: CustomerState = {
   showExportDialog: false,
   showStatusDialog: false,
   showAnalytics: false,
+  showSegments: false,
   
   // Customer details
   customerOrders: [],
@@ -176,7 +181,9 @@ export const useCustomerStore = create<CustomerStore>()(
                 address,
                 total_orders,
                 total_spent,
+                loyalty_points,
                 status,
+                tags,
                 created_at
               `)
               .eq('store_id', storeId)
@@ -243,6 +250,7 @@ export const useCustomerStore = create<CustomerStore>()(
                 phone: customerData.phone || null,
                 address: customerData.address || null,
                 status: customerData.status || 'active',
+                tags: customerData.tags || [],
                 total_orders: 0,
                 total_spent: 0,
               })
@@ -420,6 +428,7 @@ export const useCustomerStore = create<CustomerStore>()(
         setShowExportDialog: (show) => set({ showExportDialog: show }, false, 'setShowExportDialog'),
         setShowStatusDialog: (show) => set({ showStatusDialog: show }, false, 'setShowStatusDialog'),
         setShowAnalytics: (show) => set({ showAnalytics: show }, false, 'setShowAnalytics'),
+        setShowSegments: (show) => set({ showSegments: show }, false, 'setShowSegments'),
 
         // Customer details actions
         setCustomerOrders: (orders) => set({ customerOrders: orders }, false, 'setCustomerOrders'),
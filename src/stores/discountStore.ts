@@ -0,0 +1,269 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import type { DiscountRule } from '@/lib/discountEngine';
+
+// Types
+export interface Discount extends DiscountRule {
+  store_id: string;
+  description: string | null;
+  loyalty_tier_required: string | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface DiscountFormData {
+  name: string;
+  description?: string;
+  code?: string;
+  type: 'percentage' | 'fixed_amount';
+  value: number;
+  applies_to: 'all' | 'products' | 'categories';
+  product_ids: string[];
+  category_ids: string[];
+  customer_eligibility: 'all' | 'new_customers' | 'returning_customers' | 'vip';
+  loyalty_tier_required?: string | null;
+  min_purchase_amount?: number | null;
+  max_discount_amount?: number | null;
+  usage_limit?: number | null;
+  start_date?: string | null;
+  end_date?: string | null;
+  is_active: boolean;
+}
+
+export interface DiscountRedemption {
+  discount_id: string;
+  name: string;
+  code: string | null;
+  type: string;
+  value: number;
+  redemptions: number;
+  pos_redemptions: number;
+  showcase_redemptions: number;
+  unique_customers: number;
+  total_discount: number;
+  last_used_at: string;
+}
+
+interface DiscountState {
+  discounts: Discount[];
+  loading: boolean;
+  searchTerm: string;
+  redemptions: DiscountRedemption[];
+  redemptionsLoading: boolean;
+  selectedDiscount: Discount | null;
+  showDiscountDialog: boolean;
+}
+
+interface DiscountActions {
+  fetchDiscounts: (storeId: string) => Promise<void>;
+  saveDiscount: (storeId: string, data: DiscountFormData, discountId?: string) => Promise<boolean>;
+  toggleDiscountActive: (discount: Discount) => Promise<void>;
+  deleteDiscount: (discount: Discount) => Promise<void>;
+  fetchRedemptions: (storeId: string, startDate?: string | null, endDate?: string | null) => Promise<void>;
+  setSearchTerm: (term: string) => void;
+  setSelectedDiscount: (discount: Discount | null) => void;
+  setShowDiscountDialog: (show: boolean) => void;
+  reset: () => void;
+}
+
+type DiscountStore = DiscountState & DiscountActions;
+
+const initialState: DiscountState = {
+  discounts: [],
+  loading: false,
+  searchTerm: '',
+  redemptions: [],
+  redemptionsLoading: false,
+  selectedDiscount: null,
+  showDiscountDialog: false,
+};
+
+/**
+ * Automatic promotions for the POS - active discounts that don't need a code
+ */
+export const fetchActivePromotions = async (storeId: string): Promise<Discount[]> => {
+  const { data, error } = await supabase
+    .from('discounts')
+    .select('*')
+    .eq('store_id', storeId)
+    .eq('is_active', true)
+    .is('code', null);
+
+  if (error) {
+    throw error;
+  }
+
+  return (data || []) as Discount[];
+};
+
+/**
+ * Look up a discount by the code a customer hands over (case-insensitive)
+ */
+export const findDiscountByCode = async (storeId: string, code: string): Promise<Discount | null> => {
+  const { data, error } = await supabase
+    .from('discounts')
+    .select('*')
+    .eq('store_id', storeId)
+    .ilike('code', code.trim().replace(/[%_\\]/g, '\\$&'))
+    .maybeSingle();
+
+  if (error) {
+    throw error;
+  }
+
+  return data as Discount | null;
+};
+
+export const useDiscountStore = create<DiscountStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchDiscounts: async (storeId: string) => {
+        set({ loading: true }, false, 'fetchDiscounts:start');
+        try {
+          const { data, error } = await supabase
+            .from('discounts')
+            .select('*')
+            .eq('store_id', storeId)
+            .order('created_at', { ascending: false });
+
+          if (error) {
+            console.error('Error fetching discounts:', error);
+            toast.error('Failed to load discounts');
+            return;
+          }
+
+          set({ discounts: (data || []) as Discount[] }, false, 'fetchDiscounts:success');
+        } catch (error) {
+          console.error('Error fetching discounts:', error);
+          toast.error('Failed to load discounts');
+        } finally {
+          set({ loading: false }, false, 'fetchDiscounts:end');
+        }
+      },
+
+      saveDiscount: async (storeId: string, data: DiscountFormData, discountId?: string) => {
+        const payload = {
+          name: data.name,
+          description: data.description || null,
+          code: data.code?.trim() ? data.code.trim().toUpperCase() : null,
+          type: data.type,
+          value: data.value,
+          applies_to: data.applies_to,
+          product_ids: data.applies_to === 'products' ? data.product_ids : null,
+          category_ids: data.applies_to === 'categories' ? data.category_ids : null,
+          customer_eligibility: data.customer_eligibility,
+          loyalty_tier_required: data.loyalty_tier_required || null,
+          min_purchase_amount: data.min_purchase_amount || null,
+          max_discount_amount: data.max_discount_amount || null,
+          usage_limit: data.usage_limit || null,
+          start_date: data.start_date || null,
+          end_date: data.end_date || null,
+          is_active: data.is_active,
+        };
+
+        try {
+          const { error } = discountId
+            ? await supabase.from('discounts').update(payload).eq('id', discountId)
+            : await supabase.from('discounts').insert({ ...payload, store_id: storeId });
+
+          if (error) {
+            // Unique index on (store_id, upper(code))
+            if (error.code === '23505') {
+              toast.error(`Discount code ${payload.code} is already in use`);
+            } else {
+              toast.error(discountId ? 'Failed to update discount' : 'Failed to create discount');
+            }
+            return false;
+          }
+
+          toast.success(discountId ? 'Discount updated' : 'Discount created');
+          get().fetchDiscounts(storeId);
+          return true;
+        } catch (error) {
+          console.error('Error saving discount:', error);
+          toast.error(discountId ? 'Failed to update discount' : 'Failed to create discount');
+          return false;
+        }
+      },
+
+      toggleDiscountActive: async (discount: Discount) => {
+        const { error } = await supabase
+          .from('discounts')
+          .update({ is_active: !discount.is_active })
+          .eq('id', discount.id);
+
+        if (error) {
+          toast.error('Failed to update discount');
+          return;
+        }
+
+        set({
+          discounts: get().discounts.map(d =>
+            d.id === discount.id ? { ...d, is_active: !discount.is_active } : d
+          ),
+        }, false, 'toggleDiscountActive');
+        toast.success(`${discount.name} ${discount.is_active ? 'deactivated' : 'activated'}`);
+      },
+
+      deleteDiscount: async (discount: Discount) => {
+        // Keep redeemed discounts so the redemption report stays intact
+        if (discount.usage_count > 0) {
+          toast.error('This discount has been redeemed - deactivate it instead');
+          return;
+        }
+
+        const { error } = await supabase
+          .from('discounts')
+          .delete()
+          .eq('id', discount.id);
+
+        if (error) {
+          toast.error('Failed to delete discount');
+          return;
+        }
+
+        set({
+          discounts: get().discounts.filter(d => d.id !== discount.id),
+        }, false, 'deleteDiscount');
+        toast.success('Discount deleted');
+      },
+
+      fetchRedemptions: async (storeId: string, startDate?: string | null, endDate?: string | null) => {
+        set({ redemptionsLoading: true }, false, 'fetchRedemptions:start');
+        try {
+          const { data, error } = await supabase.rpc('get_discount_redemptions', {
+            _store_id: storeId,
+            _start_date: startDate || null,
+            _end_date: endDate || null,
+          });
+
+          if (error) {
+            console.error('Error fetching discount redemptions:', error);
+            toast.error('Failed to load redemption report');
+            return;
+          }
+
+          set({ redemptions: data || [] }, false, 'fetchRedemptions:success');
+        } catch (error) {
+          console.error('Error fetching discount redemptions:', error);
+          toast.error('Failed to load redemption report');
+        } finally {
+          set({ redemptionsLoading: false }, false, 'fetchRedemptions:end');
+        }
+      },
+
+      setSearchTerm: (term) => set({ searchTerm: term }, false, 'setSearchTerm'),
+      setSelectedDiscount: (discount) => set({ selectedDiscount: discount }, false, 'setSelectedDiscount'),
+      setShowDiscountDialog: (show) => set({ showDiscountDialog: show }, false, 'setShowDiscountDialog'),
+      reset: () => set(initialState, false, 'reset'),
+    }),
+    { name: 'discount-store' }
+  )
+);
+
+export const useDiscounts = () => useDiscountStore((state) => state.discounts);
+export const useDiscountRedemptions = () => useDiscountStore((state) => state.redemptions);
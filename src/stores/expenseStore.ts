@@ -19,10 +19,11 @@ export interface Expense {
   receipt_url: string | null;
   tax_amount: number;
   is_tax_deductible: boolean;
-  status: 'pending' | 'paid';
+  status: 'pending' | 'approved' | 'paid';
   notes: string | null;
   created_at: string;
   created_by: string;
+  recurring_expense_id?: string | null;
   expense_categories?: {
     name: string;
     color: string;
@@ -44,7 +45,7 @@ export interface RecurringExpense {
   title: string;
   description: string | null;
   amount: number;
-  frequency: 'monthly' | 'quarterly' | 'yearly';
+  frequency: 'weekly' | 'monthly' | 'quarterly' | 'yearly';
   start_date: string;
   end_date: string | null;
   next_due_date: string;
@@ -54,6 +55,8 @@ export interface RecurringExpense {
   vendor_contact: string | null;
   is_active: boolean;
   auto_create: boolean;
+  approval_mode: 'pending_review' | 'auto_approve';
+  last_generated_at: string | null;
   notes: string | null;
   created_at: string;
   expense_categories?: {
@@ -495,6 +498,7 @@ export const useExpenseStore = create<ExpenseStore>()(
                 vendor_contact: expenseData.vendor_contact || null,
                 is_active: expenseData.is_active,
                 auto_create: expenseData.auto_create,
+                approval_mode: expenseData.approval_mode || 'pending_review',
                 notes: expenseData.notes || null,
                 created_by: expenseData.created_by,
               });
@@ -0,0 +1,372 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { addDays } from 'date-fns';
+import { supabase } from '@/integrations/supabase/client';
+import { sessionManager } from '@/lib/sessionManager';
+import {
+  isGiftCardExpired,
+  normalizeGiftCardCode,
+  type GiftCardKind,
+  type GiftCardStatus,
+  type GiftCardTransactionType,
+} from '@/lib/giftCards';
+import { toast } from 'sonner';
+
+// Types
+export interface GiftCard {
+  id: string;
+  store_id: string;
+  code: string;
+  kind: GiftCardKind;
+  customer_id: string | null;
+  initial_value: number;
+  balance: number;
+  status: GiftCardStatus;
+  expires_at: string | null;
+  notes: string | null;
+  issued_by_name: string | null;
+  last_used_at: string | null;
+  created_at: string;
+  updated_at: string;
+  customers?: { name: string } | null;
+}
+
+// What issue_gift_card hands back for the gift card receipt
+export interface IssuedGiftCard extends GiftCard {
+  customer_name: string | null;
+  payment_method: string | null;
+  transaction_number: string | null;
+}
+
+export interface GiftCardLedgerEntry {
+  id: string;
+  gift_card_id: string;
+  transaction_type: GiftCardTransactionType;
+  amount: number;
+  balance_after: number;
+  order_id: string | null;
+  description: string | null;
+  created_by_name: string | null;
+  created_at: string;
+  orders?: { order_number: string } | null;
+}
+
+export interface IssueGiftCardInput {
+  amount: number;
+  // Left out when a manager gives the card away
+  paymentMethod?: string;
+  customerId?: string;
+  notes?: string;
+}
+
+export interface GiftCardLiability {
+  outstanding: Record<GiftCardKind, { count: number; balance: number }>;
+  // Balance on cards that expire in the next 30 days
+  expiringSoon: number;
+  // Ledger movements in the period, as positive amounts
+  issued: Record<GiftCardKind, number>;
+  redeemed: number;
+  refunded: number;
+  expired: number;
+}
+
+interface GiftCardResponse {
+  success: boolean;
+  error?: string;
+  gift_card?: IssuedGiftCard;
+}
+
+interface GiftCardState {
+  cards: GiftCard[];
+  loading: boolean;
+  ledger: GiftCardLedgerEntry[];
+  ledgerLoading: boolean;
+  customerCredit: GiftCard | null;
+  liability: GiftCardLiability | null;
+  liabilityLoading: boolean;
+  issuing: boolean;
+}
+
+interface GiftCardActions {
+  fetchCards: (storeId: string) => Promise<void>;
+  lookupCard: (storeId: string, code: string) => Promise<GiftCard | null>;
+  fetchLedger: (giftCardId: string) => Promise<void>;
+  fetchCustomerCredit: (storeId: string, customerId: string) => Promise<GiftCard | null>;
+  issueGiftCard: (storeId: string, input: IssueGiftCardInput) => Promise<IssuedGiftCard | null>;
+  issueStoreCredit: (storeId: string, customerId: string, amount: number, reason: string) => Promise<GiftCard | null>;
+  fetchLiability: (storeId: string, startDate?: Date, endDate?: Date) => Promise<void>;
+  reset: () => void;
+}
+
+type GiftCardStore = GiftCardState & GiftCardActions;
+
+const initialState: GiftCardState = {
+  cards: [],
+  loading: false,
+  ledger: [],
+  ledgerLoading: false,
+  customerCredit: null,
+  liability: null,
+  liabilityLoading: false,
+  issuing: false,
+};
+
+// Supabase returns RPC exceptions as PostgrestErrors, which carry the RAISE text
+const rpcErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+export const useGiftCardStore = create<GiftCardStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchCards: async (storeId: string) => {
+        set({ loading: true }, false, 'fetchCards:start');
+        try {
+          const { data, error } = await supabase
+            .from('gift_cards')
+            .select('*, customers(name)')
+            .eq('store_id', storeId)
+            .order('created_at', { ascending: false })
+            .limit(200);
+
+          if (error) throw error;
+
+          set({ cards: (data || []) as unknown as GiftCard[] }, false, 'fetchCards:success');
+        } catch (error) {
+          console.error('Error fetching gift cards:', error);
+          toast.error('Failed to load gift cards');
+        } finally {
+          set({ loading: false }, false, 'fetchCards:end');
+        }
+      },
+
+      lookupCard: async (storeId: string, code: string) => {
+        const normalized = normalizeGiftCardCode(code);
+        if (!normalized) return null;
+
+        try {
+          const { data, error } = await supabase
+            .from('gift_cards')
+            .select('*, customers(name)')
+            .eq('store_id', storeId)
+            .eq('code', normalized)
+            .maybeSingle();
+
+          if (error) throw error;
+          if (!data) {
+            toast.error('No gift card with that code');
+            return null;
+          }
+
+          return data as unknown as GiftCard;
+        } catch (error) {
+          console.error('Error looking up gift card:', error);
+          toast.error('Failed to look up gift card');
+          return null;
+        }
+      },
+
+      fetchLedger: async (giftCardId: string) => {
+        set({ ledgerLoading: true, ledger: [] }, false, 'fetchLedger:start');
+        try {
+          const { data, error } = await supabase
+            .from('gift_card_transactions')
+            .select('*, orders(order_number)')
+            .eq('gift_card_id', giftCardId)
+            .order('created_at', { ascending: false })
+            .limit(100);
+
+          if (error) throw error;
+
+          set({ ledger: (data || []) as unknown as GiftCardLedgerEntry[] }, false, 'fetchLedger:success');
+        } catch (error) {
+          console.error('Error fetching gift card history:', error);
+          toast.error('Failed to load gift card history');
+        } finally {
+          set({ ledgerLoading: false }, false, 'fetchLedger:end');
+        }
+      },
+
+      fetchCustomerCredit: async (storeId: string, customerId: string) => {
+        set({ customerCredit: null }, false, 'fetchCustomerCredit:start');
+        try {
+          const { data, error } = await supabase
+            .from('gift_cards')
+            .select('*')
+            .eq('store_id', storeId)
+            .eq('kind', 'store_credit')
+            .eq('customer_id', customerId)
+            .maybeSingle();
+
+          if (error) throw error;
+
+          const credit = data as unknown as GiftCard | null;
+          set({ customerCredit: credit }, false, 'fetchCustomerCredit:success');
+          return credit;
+        } catch (error) {
+          console.error('Error fetching store credit:', error);
+          return null;
+        }
+      },
+
+      issueGiftCard: async (storeId: string, input: IssueGiftCardInput) => {
+        set({ issuing: true }, false, 'issueGiftCard:start');
+        try {
+          const { data, error } = await supabase.rpc('issue_gift_card', {
+            _store_id: storeId,
+            _amount: input.amount,
+            _payment_method: input.paymentMethod || undefined,
+            _customer_id: input.customerId || undefined,
+            _notes: input.notes || undefined,
+            _pin_session: sessionManager.getPinSessionToken(storeId) || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as GiftCardResponse;
+          if (!result.success || !result.gift_card) {
+            toast.error(result.error || 'Failed to issue gift card');
+            return null;
+          }
+
+          set({ cards: [result.gift_card, ...get().cards] }, false, 'issueGiftCard:success');
+          return result.gift_card;
+        } catch (error) {
+          console.error('Error issuing gift card:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to issue gift card'));
+          return null;
+        } finally {
+          set({ issuing: false }, false, 'issueGiftCard:end');
+        }
+      },
+
+      issueStoreCredit: async (storeId: string, customerId: string, amount: number, reason: string) => {
+        set({ issuing: true }, false, 'issueStoreCredit:start');
+        try {
+          const { data, error } = await supabase.rpc('issue_store_credit', {
+            _store_id: storeId,
+            _customer_id: customerId,
+            _amount: amount,
+            _reason: reason,
+            _pin_session: sessionManager.getPinSessionToken(storeId) || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as GiftCardResponse;
+          if (!result.success || !result.gift_card) {
+            toast.error(result.error || 'Failed to add store credit');
+            return null;
+          }
+
+          set({ customerCredit: result.gift_card }, false, 'issueStoreCredit:success');
+          toast.success('Store credit added');
+          return result.gift_card;
+        } catch (error) {
+          console.error('Error adding store credit:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to add store credit'));
+          return null;
+        } finally {
+          set({ issuing: false }, false, 'issueStoreCredit:end');
+        }
+      },
+
+      fetchLiability: async (storeId: string, startDate?: Date, endDate?: Date) => {
+        set({ liabilityLoading: true }, false, 'fetchLiability:start');
+        try {
+          let ledgerQuery = supabase
+            .from('gift_card_transactions')
+            .select('transaction_type, amount, gift_cards(kind)')
+            .eq('store_id', storeId);
+
+          if (startDate) ledgerQuery = ledgerQuery.gte('created_at', startDate.toISOString());
+          if (endDate) ledgerQuery = ledgerQuery.lte('created_at', endDate.toISOString());
+
+          const [cardsResult, ledgerResult] = await Promise.all([
+            supabase
+              .from('gift_cards')
+              .select('kind, balance, status, expires_at')
+              .eq('store_id', storeId)
+              .eq('status', 'active')
+              .gt('balance', 0),
+            ledgerQuery,
+          ]);
+
+          if (cardsResult.error) throw cardsResult.error;
+          if (ledgerResult.error) throw ledgerResult.error;
+
+          const now = new Date();
+          const soon = addDays(now, 30);
+          const liability: GiftCardLiability = {
+            outstanding: {
+              gift_card: { count: 0, balance: 0 },
+              store_credit: { count: 0, balance: 0 },
+            },
+            expiringSoon: 0,
+            issued: { gift_card: 0, store_credit: 0 },
+            redeemed: 0,
+            refunded: 0,
+            expired: 0,
+          };
+
+          // Cards past their date still hold a balance until the nightly job writes it off
+          for (const card of cardsResult.data || []) {
+            if (isGiftCardExpired(card, now)) continue;
+            const kind = card.kind as GiftCardKind;
+            liability.outstanding[kind].count += 1;
+            liability.outstanding[kind].balance += Number(card.balance);
+            if (card.expires_at && new Date(card.expires_at) <= soon) {
+              liability.expiringSoon += Number(card.balance);
+            }
+          }
+
+          const entries = (ledgerResult.data || []) as unknown as {
+            transaction_type: GiftCardTransactionType;
+            amount: number;
+            gift_cards: { kind: GiftCardKind } | null;
+          }[];
+
+          for (const entry of entries) {
+            const amount = Math.abs(Number(entry.amount));
+            switch (entry.transaction_type) {
+              case 'issue':
+                liability.issued[entry.gift_cards?.kind ?? 'gift_card'] += amount;
+                break;
+              case 'redeem':
+                liability.redeemed += amount;
+                break;
+              case 'refund':
+                liability.refunded += amount;
+                break;
+              case 'expire':
+                liability.expired += amount;
+                break;
+            }
+          }
+
+          set({ liability }, false, 'fetchLiability:success');
+        } catch (error) {
+          console.error('Error fetching gift card liability:', error);
+          toast.error('Failed to load gift card report');
+        } finally {
+          set({ liabilityLoading: false }, false, 'fetchLiability:end');
+        }
+      },
+
+      reset: () => {
+        set(initialState, false, 'reset');
+      },
+    }),
+    {
+      name: 'gift-card-store',
+    }
+  )
+);
+
+// Selector hooks
+export const useGiftCards = () => useGiftCardStore(state => state.cards);
+export const useGiftCardsLoading = () => useGiftCardStore(state => state.loading);
+export const useGiftCardLedger = () => useGiftCardStore(state => state.ledger);
+export const useCustomerCredit = () => useGiftCardStore(state => state.customerCredit);
+export const useGiftCardLiability = () => useGiftCardStore(state => state.liability);
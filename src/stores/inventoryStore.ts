@@ -24,6 +24,19 @@ export interface Product {
   suppliers?: {
     name: string;
   };
+  product_barcodes?: {
+    barcode: string;
+  }[];
+  has_variants?: boolean;
+  product_variants?: {
+    id: string;
+    name: string;
+    sku: string | null;
+    price: number;
+    cost: number | null;
+    stock_quantity: number;
+    is_active: boolean;
+  }[];
 }
 
 export interface Category {
@@ -231,6 +244,82 @@ const initialState: InventoryState = {
   selectedSupplier: null,
 };
 
+/**
+ * Barcodes from the list that another product in the store already uses
+ */
+export const findBarcodeConflicts = async (
+  storeId: string,
+  barcodes: string[],
+  productId?: string
+): Promise<{ barcode: string; productName: string }[]> => {
+  if (barcodes.length === 0) return [];
+
+  let query = supabase
+    .from('product_barcodes')
+    .select('barcode, product_id, products (name)')
+    .eq('store_id', storeId)
+    .in('barcode', barcodes);
+
+  if (productId) {
+    query = query.neq('product_id', productId);
+  }
+
+  const { data, error } = await query;
+  if (error) throw error;
+
+  return (data || []).map(row => ({
+    barcode: row.barcode,
+    productName: row.products?.name || 'another product',
+  }));
+};
+
+/**
+ * Replace a product's barcodes with the given list, keeping its order
+ */
+export const saveProductBarcodes = async (
+  storeId: string,
+  productId: string,
+  barcodes: string[]
+): Promise<void> => {
+  const { data: existing, error: fetchError } = await supabase
+    .from('product_barcodes')
+    .select('id, barcode, position')
+    .eq('product_id', productId);
+
+  if (fetchError) throw fetchError;
+
+  const current = existing || [];
+  const removed = current.filter(row => !barcodes.includes(row.barcode));
+
+  if (removed.length > 0) {
+    const { error } = await supabase
+      .from('product_barcodes')
+      .delete()
+      .in('id', removed.map(row => row.id));
+    if (error) throw error;
+  }
+
+  const added = barcodes
+    .map((barcode, position) => ({ store_id: storeId, product_id: productId, barcode, position }))
+    .filter(row => !current.some(existing => existing.barcode === row.barcode));
+
+  if (added.length > 0) {
+    const { error } = await supabase.from('product_barcodes').insert(added);
+    if (error) throw error;
+  }
+
+  for (const row of current) {
+    const position = barcodes.indexOf(row.barcode);
+    if (position >= 0 && position !== row.position) {
+      const { error } = await supabase
+        .from('product_barcodes')
+        .update({ position })
+        .eq('id', row.id);
+      if (error) throw error;
+    }
+  }
+};
+
 export const useInventoryStore = create<InventoryStore>()(
   devtools(
     persist(
@@ -258,13 +347,18 @@ export const useInventoryStore = create<InventoryStore>()(
                 supplier_id,
                 image_url,
                 is_active,
+                has_variants,
                 created_at,
                 categories (name),
-                suppliers (name)
+                suppliers (name),
+                product_barcodes (barcode),
+                product_variants (id, name, sku, price, cost, stock_quantity, is_active)
               `)
               .eq('store_id', storeId)
               .eq('is_active', true)
-              .order('name');
+              .order('name')
+              .order('position', { referencedTable: 'product_barcodes' })
+              .order('position', { referencedTable: 'product_variants' });
 
             if (error) {
               toast.error('Failed to load products');
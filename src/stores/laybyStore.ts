@@ -2,6 +2,9 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { notifyPlanLimit } from '@/lib/planLimits';
+import type { LaybyInterestType, LaybyScheduleType } from '@/lib/layby';
+import type { LaybyNotificationChannel, LaybyNotificationStatus, LaybyNotificationType } from '@/lib/laybyNotifications';
 
 // Types
 export interface LaybyOrder {
@@ -10,11 +13,24 @@ export interface LaybyOrder {
   customer_name: string;
   customer_phone: string | null;
   customer_email: string | null;
+  customer_id?: string | null;
   total_amount: number;
   deposit_amount: number;
   balance_remaining: number;
   status: string;
   due_date: string | null;
+  payment_schedule_type?: string | null;
+  inventory_reserved?: boolean | null;
+  completion_date?: string | null;
+  order_id?: string | null;
+  cancellation_reason?: string | null;
+  refund_amount?: number | null;
+  restocking_fee?: number | null;
+  cancelled_at?: string | null;
+  interest_type?: string | null;
+  interest_rate?: number | null;
+  interest_amount?: number | null;
+  late_fee_amount?: number | null;
   notes: string | null;
   created_at: string;
   created_by: string;
@@ -27,6 +43,8 @@ export interface LaybyItem {
   unit_price: number;
   total_price: number;
   product_id: string;
+  variant_id?: string | null;
+  variant_name?: string | null;
   products?: {
     id: string;
     name: string;
@@ -46,6 +64,124 @@ export interface LaybyPayment {
   created_at: string;
 }
 
+export interface LaybyPaymentSchedule {
+  id: string;
+  layby_order_id: string;
+  payment_number: number;
+  due_date: string;
+  amount_due: number;
+  amount_paid: number | null;
+  status: string | null;
+  late_fee_amount?: number | null;
+}
+
+export interface LaybyCharge {
+  id: string;
+  layby_order_id: string;
+  schedule_id: string | null;
+  charge_type: 'interest' | 'late_fee';
+  amount: number;
+  charged_on: string;
+  description: string | null;
+}
+
+// A product line picked for a new layby, before it is saved
+export interface LaybyDraftItem {
+  product_id: string;
+  variant_id: string | null;
+  name: string;
+  variant_name: string | null;
+  sku: string | null;
+  price: number;
+  quantity: number;
+  stock_quantity: number;
+}
+
+export interface CreateLaybyInput {
+  items: LaybyDraftItem[];
+  customer_id?: string | null;
+  customer_name: string;
+  customer_phone?: string | null;
+  customer_email?: string | null;
+  deposit_amount: number;
+  deposit_method: string;
+  schedule_type: LaybyScheduleType;
+  installments: number;
+  notes?: string | null;
+}
+
+// Mirrors the payload returned by the `create_layby` database function
+export interface CreateLaybyError {
+  product_id?: string;
+  variant_id?: string;
+  product_name?: string;
+  code: 'empty_cart' | 'customer_required' | 'not_found' | 'variant_required' | 'inactive' | 'invalid_quantity' | 'insufficient_stock' | 'deposit_too_low' | 'deposit_too_high' | 'invalid_schedule' | 'duration_exceeded';
+  requested?: number;
+  available?: number;
+  minimum?: number;
+  max_days?: number;
+  message: string;
+}
+
+export interface CreatedLayby {
+  id: string;
+  layby_number: string;
+  total_amount: number;
+  deposit_amount: number;
+  balance_remaining: number;
+  due_date: string;
+  inventory_reserved: boolean;
+  schedule: Pick<LaybyPaymentSchedule, 'payment_number' | 'due_date' | 'amount_due'>[];
+}
+
+export type CreateLaybyResult =
+  | { success: true; layby: CreatedLayby }
+  | { success: false; errors: CreateLaybyError[] };
+
+export interface LaybyNotification {
+  id: string;
+  layby_order_id: string;
+  schedule_id: string | null;
+  notification_type: LaybyNotificationType;
+  channel: LaybyNotificationChannel;
+  recipient_phone: string | null;
+  recipient_email: string | null;
+  subject: string | null;
+  message: string;
+  status: LaybyNotificationStatus;
+  attempts: number;
+  error_message: string | null;
+  sent_at: string | null;
+  created_at: string;
+}
+
+export interface CancelLaybyInput {
+  reason: string;
+  // Leave out to charge the store's default cancellation fee
+  restocking_fee?: number | null;
+  refund_method: string;
+  forfeit: boolean;
+}
+
+// Mirrors the payload returned by the `cancel_layby` database function
+export type CancelLaybyResult =
+  | {
+      success: true;
+      layby_number: string;
+      amount_paid: number;
+      restocking_fee: number;
+      refund_amount: number;
+      forfeited: boolean;
+      released_quantity: number;
+      transaction_number: string | null;
+    }
+  | { success: false; error: string };
+
+// Mirrors the payload returned by the `complete_layby` database function
+export type CompleteLaybyResult =
+  | { success: true; order_id: string; order_number?: string; duplicate?: boolean }
+  | { success: false; error: string };
+
 export interface LaybyStats {
   total: number;
   active: number;
@@ -67,6 +203,16 @@ export interface LaybySettings {
   require_deposit_percent: number;
   max_layby_duration_days: number;
   automatic_reminders_enabled: boolean;
+  inventory_reservation_enabled?: boolean;
+  default_cancellation_fee_percent?: number;
+  interest_type?: LaybyInterestType;
+  default_interest_rate?: number;
+  late_fee_amount?: number;
+  overdue_grace_period_days?: number;
+  reminder_days_before?: number;
+  reminder_frequency_days?: number;
+  max_reminder_count?: number;
+  reminder_channels?: LaybyNotificationChannel[];
   created_at?: string;
   updated_at?: string;
 }
@@ -92,6 +238,7 @@ interface LaybyState {
   showDetailsModal: boolean;
   showPaymentDialog: boolean;
   showSettingsDialog: boolean;
+  showCancelDialog: boolean;
   
   // Layby payments
   laybyPayments: LaybyPayment[];
@@ -107,7 +254,11 @@ interface LaybyActions {
   // Layby data actions
   setLaybyOrders: (orders: LaybyOrder[]) => void;
   fetchLaybyOrders: (storeId: string) => Promise<void>;
-  addLaybyOrder: (storeId: string, orderData: any) => Promise<void>;
+  createLayby: (storeId: string, input: CreateLaybyInput) => Promise<CreateLaybyResult | null>;
+  cancelLayby: (storeId: string, laybyOrderId: string, input: CancelLaybyInput) => Promise<CancelLaybyResult | null>;
+  completeLayby: (storeId: string, laybyOrderId: string) => Promise<CompleteLaybyResult | null>;
+  queueLaybyNotification: (laybyOrderId: string, type: LaybyNotificationType, channel: LaybyNotificationChannel) => Promise<string | null>;
+  markLaybyNotificationSent: (notificationId: string, provider: string) => Promise<boolean>;
   
   // Filtering actions
   setFilters: (filters: Partial<LaybyFilters>) => void;
@@ -123,6 +274,7 @@ interface LaybyActions {
   setShowDetailsModal: (show: boolean) => void;
   setShowPaymentDialog: (show: boolean) => void;
   setShowSettingsDialog: (show: boolean) => void;
+  setShowCancelDialog: (show: boolean) => void;
   
   // Payment actions
   fetchLaybyPayments: (laybyOrderId: string) => Promise<void>;
@@ -177,6 +329,7 @@ const initialState: LaybyState = {
   showDetailsModal: false,
   showPaymentDialog: false,
   showSettingsDialog: false,
+  showCancelDialog: false,
   
   // Layby payments
   laybyPayments: [],
@@ -218,6 +371,8 @@ export const useLaybyStore = create<LaybyStore>()(
                   unit_price,
                   total_price,
                   product_id,
+                  variant_id,
+                  variant_name,
                   products (id, name, sku, is_active)
                 )
               `)
@@ -246,48 +401,154 @@ export const useLaybyStore = create<LaybyStore>()(
           }
         },
         
-        addLaybyOrder: async (storeId: string, orderData: any) => {
+        createLayby: async (storeId: string, input: CreateLaybyInput) => {
           try {
-            // Generate layby number
-            const { data: laybyNumberData, error: laybyNumberError } = await supabase
-              .rpc('generate_layby_number', { store_id: storeId });
-
-            if (laybyNumberError) {
-              toast.error('Failed to generate layby number');
-              return;
+            // Items, stock reservation, the deposit and the installment plan are validated
+            // and written together by the database
+            const { data, error } = await supabase.rpc('create_layby', {
+              _store_id: storeId,
+              _items: input.items.map(item => ({
+                product_id: item.product_id,
+                variant_id: item.variant_id,
+                quantity: item.quantity,
+              })),
+              _customer_id: input.customer_id || null,
+              _customer_name: input.customer_name,
+              _customer_phone: input.customer_phone || null,
+              _customer_email: input.customer_email || null,
+              _deposit_amount: input.deposit_amount,
+              _deposit_method: input.deposit_method,
+              _schedule_type: input.schedule_type,
+              _installments: input.installments,
+              _notes: input.notes || null,
+            });
+
+            if (error || !data) {
+              console.error('Error creating layby order:', error);
+              if (!notifyPlanLimit(error)) {
+                toast.error('Failed to create layby order');
+              }
+              return null;
             }
 
-            // Create layby order
-            const { error: laybyError } = await supabase
-              .from('layby_orders')
-              .insert({
-                store_id: storeId,
-                layby_number: laybyNumberData,
-                customer_name: orderData.customer_name,
-                customer_phone: orderData.customer_phone || null,
-                total_amount: orderData.total_amount,
-                deposit_amount: orderData.deposit_amount,
-                balance_remaining: orderData.total_amount - orderData.deposit_amount,
-                status: 'active',
-                notes: orderData.notes || null,
-                created_by: orderData.created_by,
-              });
+            const result = data as unknown as CreateLaybyResult;
 
-            if (laybyError) {
-              toast.error('Failed to create layby order');
-              return;
+            if (result.success) {
+              toast.success(`Layby order ${result.layby.layby_number} created successfully`);
+              get().fetchLaybyOrders(storeId);
             }
 
-            toast.success('Layby order created successfully');
-            
-            // Refresh layby orders
-            get().fetchLaybyOrders(storeId);
+            return result;
           } catch (error) {
             console.error('Error creating layby order:', error);
             toast.error('Failed to create layby order');
+            return null;
           }
         },
 
+        cancelLayby: async (storeId: string, laybyOrderId: string, input: CancelLaybyInput) => {
+          try {
+            // The refund, stock release and history entry are written together by the database
+            const { data, error } = await supabase.rpc('cancel_layby', {
+              _layby_order_id: laybyOrderId,
+              _reason: input.reason,
+              _restocking_fee: input.restocking_fee ?? null,
+              _refund_method: input.refund_method,
+              _forfeit: input.forfeit,
+            });
+
+            if (error || !data) {
+              console.error('Error cancelling layby order:', error);
+              toast.error('Failed to cancel layby order');
+              return null;
+            }
+
+            const result = data as unknown as CancelLaybyResult;
+
+            if (result.success) {
+              toast.success(`Layby order ${result.layby_number} cancelled`);
+              get().fetchLaybyOrders(storeId);
+            } else {
+              toast.error(result.error);
+            }
+
+            return result;
+          } catch (error) {
+            console.error('Error cancelling layby order:', error);
+            toast.error('Failed to cancel layby order');
+            return null;
+          }
+        },
+
+        completeLayby: async (storeId: string, laybyOrderId: string) => {
+          try {
+            const { data, error } = await supabase.rpc('complete_layby', {
+              _layby_order_id: laybyOrderId,
+            });
+
+            if (error || !data) {
+              console.error('Error completing layby order:', error);
+              toast.error('Failed to create sales order');
+              return null;
+            }
+
+            const result = data as unknown as CompleteLaybyResult;
+
+            if (result.success) {
+              toast.success('Sales order created from layby');
+              get().fetchLaybyOrders(storeId);
+            } else {
+              toast.error(result.error);
+            }
+
+            return result;
+          } catch (error) {
+            console.error('Error completing layby order:', error);
+            toast.error('Failed to create sales order');
+            return null;
+          }
+        },
+
+        queueLaybyNotification: async (laybyOrderId: string, type: LaybyNotificationType, channel: LaybyNotificationChannel) => {
+          try {
+            // The message is rendered from the store's template by the database
+            const { data, error } = await supabase.rpc('queue_layby_notification', {
+              _layby_order_id: laybyOrderId,
+              _notification_type: type,
+              _channel: channel,
+            });
+
+            if (error || !data) {
+              console.error('Error queuing layby notification:', error);
+              toast.error(error?.message || 'Failed to queue message');
+              return null;
+            }
+
+            toast.success(channel === 'whatsapp' ? 'Message ready to send on WhatsApp' : 'Message queued for sending');
+            return data;
+          } catch (error) {
+            console.error('Error queuing layby notification:', error);
+            toast.error('Failed to queue message');
+            return null;
+          }
+        },
+
+        markLaybyNotificationSent: async (notificationId: string, provider: string) => {
+          const { error } = await supabase.rpc('record_layby_notification_result', {
+            _notification_id: notificationId,
+            _sent: true,
+            _provider: provider,
+          });
+
+          if (error) {
+            console.error('Error recording layby notification:', error);
+            toast.error('Failed to mark message as sent');
+            return false;
+          }
+
+          return true;
+        },
+
         // Filtering actions
         setFilters: (newFilters) => {
           const { filters } = get();
@@ -348,6 +609,7 @@ export const useLaybyStore = create<LaybyStore>()(
         setShowDetailsModal: (show) => set({ showDetailsModal: show }, false, 'setShowDetailsModal'),
         setShowPaymentDialog: (show) => set({ showPaymentDialog: show }, false, 'setShowPaymentDialog'),
         setShowSettingsDialog: (show) => set({ showSettingsDialog: show }, false, 'setShowSettingsDialog'),
+        setShowCancelDialog: (show) => set({ showCancelDialog: show }, false, 'setShowCancelDialog'),
 
         // Payment actions
         fetchLaybyPayments: async (laybyOrderId: string) => {
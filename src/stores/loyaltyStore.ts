@@ -0,0 +1,235 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import {
+  DEFAULT_LOYALTY_SETTINGS,
+  type LoyaltyProgram,
+  type LoyaltySettings,
+  type LoyaltyTier,
+} from '@/lib/loyalty';
+import { saveStoreSettings } from '@/lib/storeSettings';
+
+// Types
+export interface LoyaltyTransaction {
+  id: string;
+  customer_id: string;
+  order_id: string | null;
+  transaction_type: string;
+  points: number;
+  balance_after: number;
+  description: string | null;
+  created_at: string;
+  orders?: { order_number: string } | null;
+}
+
+export interface LoyaltyTierFormData {
+  name: string;
+  min_spent: number;
+  points_multiplier: number;
+  color?: string | null;
+}
+
+interface LoyaltyState {
+  settings: LoyaltySettings;
+  tiers: LoyaltyTier[];
+  loading: boolean;
+  ledger: LoyaltyTransaction[];
+  ledgerLoading: boolean;
+}
+
+interface LoyaltyActions {
+  fetchProgram: (storeId: string) => Promise<void>;
+  saveSettings: (storeId: string, settings: LoyaltySettings) => Promise<boolean>;
+  saveTier: (storeId: string, data: LoyaltyTierFormData, tier?: LoyaltyTier) => Promise<boolean>;
+  deleteTier: (tier: LoyaltyTier) => Promise<void>;
+  fetchCustomerLedger: (customerId: string) => Promise<void>;
+  reset: () => void;
+}
+
+type LoyaltyStore = LoyaltyState & LoyaltyActions;
+
+const initialState: LoyaltyState = {
+  settings: DEFAULT_LOYALTY_SETTINGS,
+  tiers: [],
+  loading: false,
+  ledger: [],
+  ledgerLoading: false,
+};
+
+/**
+ * Load a store's loyalty settings and tiers. Stores without a store_settings row
+ * have loyalty switched off.
+ */
+export const fetchLoyaltyProgram = async (storeId: string): Promise<LoyaltyProgram> => {
+  const [settingsResult, tiersResult] = await Promise.all([
+    supabase
+      .from('store_settings')
+      .select('customer_loyalty_enabled, loyalty_points_per_unit, loyalty_point_value, loyalty_min_redeem_points')
+      .eq('store_id', storeId)
+      .maybeSingle(),
+    supabase
+      .from('loyalty_tiers')
+      .select('*')
+      .eq('store_id', storeId)
+      .order('min_spent', { ascending: true }),
+  ]);
+
+  if (settingsResult.error) throw settingsResult.error;
+  if (tiersResult.error) throw tiersResult.error;
+
+  const row = settingsResult.data;
+  return {
+    settings: row
+      ? {
+          enabled: !!row.customer_loyalty_enabled,
+          pointsPerUnit: row.loyalty_points_per_unit ?? DEFAULT_LOYALTY_SETTINGS.pointsPerUnit,
+          pointValue: row.loyalty_point_value ?? DEFAULT_LOYALTY_SETTINGS.pointValue,
+          minRedeemPoints: row.loyalty_min_redeem_points ?? DEFAULT_LOYALTY_SETTINGS.minRedeemPoints,
+        }
+      : DEFAULT_LOYALTY_SETTINGS,
+    tiers: (tiersResult.data || []) as LoyaltyTier[],
+  };
+};
+
+export const useLoyaltyStore = create<LoyaltyStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchProgram: async (storeId: string) => {
+        set({ loading: true }, false, 'fetchProgram:start');
+        try {
+          const program = await fetchLoyaltyProgram(storeId);
+          set({ settings: program.settings, tiers: program.tiers }, false, 'fetchProgram:success');
+        } catch (error) {
+          console.error('Error fetching loyalty program:', error);
+          toast.error('Failed to load loyalty settings');
+        } finally {
+          set({ loading: false }, false, 'fetchProgram:end');
+        }
+      },
+
+      saveSettings: async (storeId: string, settings: LoyaltySettings) => {
+        const payload = {
+          customer_loyalty_enabled: settings.enabled,
+          loyalty_points_per_unit: settings.pointsPerUnit,
+          loyalty_point_value: settings.pointValue,
+          loyalty_min_redeem_points: settings.minRedeemPoints,
+        };
+
+        try {
+          await saveStoreSettings(storeId, payload);
+          set({ settings }, false, 'saveSettings');
+          toast.success('Loyalty settings saved');
+          return true;
+        } catch (error) {
+          console.error('Error saving loyalty settings:', error);
+          toast.error('Failed to save loyalty settings');
+          return false;
+        }
+      },
+
+      saveTier: async (storeId: string, data: LoyaltyTierFormData, tier?: LoyaltyTier) => {
+        const payload = {
+          name: data.name.trim(),
+          min_spent: data.min_spent,
+          points_multiplier: data.points_multiplier,
+          color: data.color || null,
+        };
+
+        try {
+          const { error } = tier
+            ? await supabase.from('loyalty_tiers').update({ ...payload, updated_at: new Date().toISOString() }).eq('id', tier.id)
+            : await supabase.from('loyalty_tiers').insert({ ...payload, store_id: storeId });
+
+          if (error) {
+            if (error.code === '23505') {
+              toast.error(`A tier called ${payload.name} already exists`);
+            } else {
+              toast.error(tier ? 'Failed to update tier' : 'Failed to create tier');
+            }
+            return false;
+          }
+
+          // Discounts point at tiers by name, so carry them over on rename
+          if (tier && tier.name !== payload.name) {
+            await supabase
+              .from('discounts')
+              .update({ loyalty_tier_required: payload.name })
+              .eq('store_id', storeId)
+              .eq('loyalty_tier_required', tier.name);
+          }
+
+          toast.success(tier ? 'Tier updated' : 'Tier created');
+          get().fetchProgram(storeId);
+          return true;
+        } catch (error) {
+          console.error('Error saving loyalty tier:', error);
+          toast.error(tier ? 'Failed to update tier' : 'Failed to create tier');
+          return false;
+        }
+      },
+
+      deleteTier: async (tier: LoyaltyTier) => {
+        const { count, error: countError } = await supabase
+          .from('discounts')
+          .select('id', { count: 'exact', head: true })
+          .eq('store_id', tier.store_id)
+          .eq('loyalty_tier_required', tier.name);
+
+        if (countError) {
+          toast.error('Failed to delete tier');
+          return;
+        }
+
+        if (count && count > 0) {
+          toast.error(`${tier.name} is required by ${count} discount${count === 1 ? '' : 's'} - update them first`);
+          return;
+        }
+
+        const { error } = await supabase
+          .from('loyalty_tiers')
+          .delete()
+          .eq('id', tier.id);
+
+        if (error) {
+          toast.error('Failed to delete tier');
+          return;
+        }
+
+        set({ tiers: get().tiers.filter(t => t.id !== tier.id) }, false, 'deleteTier');
+        toast.success('Tier deleted');
+      },
+
+      fetchCustomerLedger: async (customerId: string) => {
+        set({ ledgerLoading: true, ledger: [] }, false, 'fetchCustomerLedger:start');
+        try {
+          const { data, error } = await supabase
+            .from('loyalty_transactions')
+            .select('*, orders(order_number)')
+            .eq('customer_id', customerId)
+            .order('created_at', { ascending: false })
+            .limit(50);
+
+          if (error) {
+            console.error('Error fetching loyalty ledger:', error);
+            return;
+          }
+
+          set({ ledger: (data || []) as LoyaltyTransaction[] }, false, 'fetchCustomerLedger:success');
+        } catch (error) {
+          console.error('Error fetching loyalty ledger:', error);
+        } finally {
+          set({ ledgerLoading: false }, false, 'fetchCustomerLedger:end');
+        }
+      },
+
+      reset: () => set(initialState, false, 'reset'),
+    }),
+    { name: 'loyalty-store' }
+  )
+);
+
+export const useLoyaltySettings = () => useLoyaltyStore((state) => state.settings);
+export const useLoyaltyTiers = () => useLoyaltyStore((state) => state.tiers);
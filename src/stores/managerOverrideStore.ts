@@ -0,0 +1,149 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { sessionManager } from '@/lib/sessionManager';
+import type { Json } from '@/integrations/supabase/types';
+import { toast } from 'sonner';
+
+// Types
+export type OverrideAction = 'discount' | 'line_void' | 'price_override';
+
+export interface ManagerOverride {
+  id: string;
+  action: OverrideAction;
+  approved_by_member_id: string | null;
+  approved_by_name: string | null;
+  created_at: string;
+}
+
+export interface OverrideRequest {
+  storeId: string;
+  action: OverrideAction;
+  // Shown to the approving manager and written to the audit log
+  description: string;
+  details?: { [key: string]: Json | undefined };
+}
+
+export type OverrideFailureCode = 'approval_required' | 'invalid_pin' | 'shared_pin' | 'pin_locked';
+
+export interface AuthorizeOverrideResult {
+  override: ManagerOverride | null;
+  code?: OverrideFailureCode;
+}
+
+interface AuthorizeOverrideResponse {
+  success: boolean;
+  error?: string;
+  code?: OverrideFailureCode;
+  override?: ManagerOverride;
+}
+
+// A request waiting on a manager's PIN; settled when the prompt is approved or dismissed
+interface PendingOverride extends OverrideRequest {
+  resolve: (override: ManagerOverride | null) => void;
+}
+
+interface ManagerOverrideState {
+  pending: PendingOverride | null;
+  authorizing: boolean;
+}
+
+interface ManagerOverrideActions {
+  authorizeOverride: (request: OverrideRequest, pin?: string) => Promise<AuthorizeOverrideResult>;
+  requestOverride: (request: OverrideRequest) => Promise<ManagerOverride | null>;
+  submitPin: (pin: string) => Promise<boolean>;
+  cancelOverride: () => void;
+}
+
+type ManagerOverrideStore = ManagerOverrideState & ManagerOverrideActions;
+
+const initialState: ManagerOverrideState = {
+  pending: null,
+  authorizing: false,
+};
+
+export const OVERRIDE_ACTION_LABELS: Record<OverrideAction, string> = {
+  discount: 'Discount',
+  line_void: 'Void',
+  price_override: 'Price Override',
+};
+
+// Supabase returns RPC exceptions as PostgrestErrors, which carry the RAISE text
+const rpcErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+export const useManagerOverrideStore = create<ManagerOverrideStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      authorizeOverride: async (request: OverrideRequest, pin?: string) => {
+        set({ authorizing: true }, false, 'authorizeOverride:start');
+        try {
+          const { data, error } = await supabase.rpc('authorize_manager_override', {
+            _store_id: request.storeId,
+            _action: request.action,
+            _pin: pin || undefined,
+            _details: { ...request.details, description: request.description },
+            // The server takes the cashier from the PIN session, so approvals record who asked
+            // rather than the account the device is signed in with
+            _pin_session: sessionManager.getPinSessionToken(request.storeId) || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as AuthorizeOverrideResponse;
+          if (!result.success || !result.override) {
+            // Managers approving their own action fall through to the PIN prompt quietly
+            if (result.code !== 'approval_required') {
+              toast.error(result.error || 'Manager approval failed');
+            }
+            return { override: null, code: result.code };
+          }
+
+          return { override: result.override };
+        } catch (error) {
+          console.error('Error authorizing manager override:', error);
+          toast.error(rpcErrorMessage(error, 'Manager approval failed'));
+          return { override: null };
+        } finally {
+          set({ authorizing: false }, false, 'authorizeOverride:end');
+        }
+      },
+
+      requestOverride: (request: OverrideRequest) => {
+        // Only one prompt at a time; a new request replaces one left open
+        get().pending?.resolve(null);
+
+        return new Promise<ManagerOverride | null>((resolve) => {
+          set({ pending: { ...request, resolve } }, false, 'requestOverride');
+        });
+      },
+
+      submitPin: async (pin: string) => {
+        const { pending, authorizeOverride } = get();
+        if (!pending) return false;
+
+        const { override } = await authorizeOverride(pending, pin);
+        if (!override) return false;
+
+        toast.success(`${OVERRIDE_ACTION_LABELS[override.action]} approved by ${override.approved_by_name || 'manager'}`);
+        pending.resolve(override);
+        set({ pending: null }, false, 'submitPin:approved');
+        return true;
+      },
+
+      cancelOverride: () => {
+        get().pending?.resolve(null);
+        set({ pending: null }, false, 'cancelOverride');
+      },
+    }),
+    {
+      name: 'manager-override-store',
+    }
+  )
+);
+
+// Selector hooks
+export const usePendingOverride = () => useManagerOverrideStore(state => state.pending);
+export const useOverrideAuthorizing = () => useManagerOverrideStore(state => state.authorizing);
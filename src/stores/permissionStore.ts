@@ -15,6 +15,7 @@ export type Permission =
   | 'adjust_stock'
   | 'manage_categories'
   | 'manage_suppliers'
+  | 'manage_discounts'
   | 'process_sales'
   | 'view_sales'
   | 'manage_customers'
@@ -39,6 +40,8 @@ export type ProtectedPage =
   | 'inventory'
   | 'categories'
   | 'suppliers'
+  | 'discounts'
+  | 'gift-cards'
   | 'customers'
   | 'orders'
   | 'layby'
@@ -166,7 +169,7 @@ export const usePermissionStore = create<PermissionStore>()(
           // Define permissions based on role
           const ownerPermissions: Permission[] = [
             'view_dashboard', 'manage_inventory', 'view_inventory', 'add_product', 'edit_product', 
-            'delete_product', 'adjust_stock', 'manage_categories', 'manage_suppliers', 'process_sales', 
+            'delete_product', 'adjust_stock', 'manage_categories', 'manage_suppliers', 'manage_discounts', 'process_sales', 
             'view_sales', 'manage_customers', 'view_customers', 'manage_layby', 'view_layby', 
             'view_transactions', 'manage_transactions', 'view_reports', 'generate_reports', 
             'manage_expenses', 'view_expenses', 'view_analytics', 'manage_settings', 'manage_users', 
@@ -175,7 +178,7 @@ export const usePermissionStore = create<PermissionStore>()(
 
           const managerPermissions: Permission[] = [
             'view_dashboard', 'manage_inventory', 'view_inventory', 'add_product', 'edit_product', 
-            'delete_product', 'adjust_stock', 'manage_categories', 'manage_suppliers', 'process_sales', 
+            'delete_product', 'adjust_stock', 'manage_categories', 'manage_suppliers', 'manage_discounts', 'process_sales', 
             'view_sales', 'manage_customers', 'view_customers', 'manage_layby', 'view_layby', 
             'view_transactions', 'view_reports', 'generate_reports', 'manage_expenses', 'view_expenses', 
             'view_analytics'
@@ -188,17 +191,17 @@ export const usePermissionStore = create<PermissionStore>()(
 
           // Define page access based on role
           const ownerPages: ProtectedPage[] = [
-            'dashboard', 'pos', 'inventory', 'categories', 'suppliers', 'customers', 'orders', 'layby',
+            'dashboard', 'pos', 'inventory', 'categories', 'suppliers', 'discounts', 'gift-cards', 'customers', 'orders', 'layby',
             'transactions', 'reports', 'expenses', 'analytics', 'settings', 'showcase'
           ];
 
           const managerPages: ProtectedPage[] = [
-            'dashboard', 'pos', 'inventory', 'categories', 'suppliers', 'customers', 'orders', 'layby',
+            'dashboard', 'pos', 'inventory', 'categories', 'suppliers', 'discounts', 'gift-cards', 'customers', 'orders', 'layby',
             'transactions', 'reports', 'expenses', 'analytics'
           ];
 
           const cashierPages: ProtectedPage[] = [
-            'dashboard', 'pos', 'customers', 'orders', 'layby', 'transactions'
+            'dashboard', 'pos', 'gift-cards', 'customers', 'orders', 'layby', 'transactions'
           ];
 
           // Apply permissions based on role
@@ -1,17 +1,50 @@
 import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { supabase } from '@/integrations/supabase/client';
+import { sessionManager } from '@/lib/sessionManager';
 import { toast } from 'sonner';
+import {
+  cacheSnapshot,
+  getCachedSnapshot,
+  getQueuedSales,
+  saveQueuedSale,
+  removeQueuedSale,
+  isNetworkError,
+  type QueuedSale,
+} from '@/lib/offlineStore';
+import {
+  resolveDiscounts,
+  evaluateDiscount,
+  describeIneligibleReason,
+  type DiscountCustomer,
+  type ResolvedDiscounts,
+} from '@/lib/discountEngine';
+import { findDiscountByCode, type Discount } from '@/stores/discountStore';
+import { DEFAULT_LOYALTY_SETTINGS, getReachedTierNames, type LoyaltyProgram } from '@/lib/loyalty';
+import { fetchLoyaltyProgram } from '@/stores/loyaltyStore';
+import { findProductByCode } from '@/lib/barcode';
+import { findVariantByCode, type VariantOptions } from '@/lib/productVariants';
+import { DEFAULT_BARCODE_SETTINGS, getBarcodeSettings } from '@/lib/storeSettings';
+import { isGiftCardExpired, normalizeGiftCardCode, type GiftCardKind } from '@/lib/giftCards';
+import { createPaymentTender, SPLIT_PAYMENT_METHOD, type PaymentTender, type TenderPayment } from '@/lib/tenders';
 
 // Types
+// `id` keys the cart line: the product id, or product and variant for a variant line
 export interface CartItem {
   id: string;
+  product_id: string;
+  variant_id: string | null;
+  variant_name: string | null;
   name: string;
   price: number;
   quantity: number;
   sku: string;
   stock_quantity: number;
   image_url: string | null;
+  category_id: string | null;
+  // Set when a manager approved a different price for this line
+  original_price?: number;
+  price_approval_id?: string | null;
 }
 
 export interface Product {
@@ -22,8 +55,22 @@ export interface Product {
   stock_quantity: number;
   category_id: string | null;
   categories?: { name: string } | null;
+  product_barcodes?: { barcode: string }[] | null;
   image_url: string | null;
   is_active: boolean;
+  has_variants?: boolean;
+  product_variants?: ProductVariantOption[] | null;
+}
+
+export interface ProductVariantOption {
+  id: string;
+  name: string;
+  options: VariantOptions;
+  sku: string | null;
+  barcode: string | null;
+  price: number;
+  stock_quantity: number;
+  is_active: boolean;
 }
 
 export interface Category {
@@ -39,8 +86,164 @@ export interface Customer {
   status: string;
   total_orders: number;
   total_spent: number;
+  loyalty_points?: number;
+}
+
+// Checkout types - mirror the payload returned by the `checkout` database function
+export interface CheckoutLineError {
+  product_id?: string;
+  variant_id?: string;
+  product_name?: string;
+  discount_id?: string;
+  code: 'empty_cart' | 'not_found' | 'inactive' | 'invalid_quantity' | 'insufficient_stock' | 'price_changed' | 'customer_not_found' | 'amount_invalid' | 'discount_invalid' | 'loyalty_invalid' | 'variant_required' | 'approval_required' | 'gift_card_invalid' | 'payment_invalid';
+  gift_card_code?: string;
+  requested?: number;
+  available?: number;
+  expected_price?: number;
+  current_price?: number;
+  message: string;
+}
+
+export interface CheckoutReceiptItem {
+  id: string;
+  name: string;
+  variant_name?: string | null;
+  sku: string;
+  quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface CheckoutDiscount {
+  discount_id: string;
+  name: string;
+  code: string | null;
+  amount: number;
+}
+
+export interface CheckoutGiftCardPayment {
+  code: string;
+  kind: GiftCardKind;
+  amount: number;
+  // What is left on the card after this sale
+  balance: number;
+}
+
+export interface CheckoutPayment {
+  method: string;
+  amount: number;
+  tendered: number;
+  change: number;
+}
+
+export interface CheckoutOrder {
+  id: string;
+  order_number: string;
+  created_at: string;
+  transaction_number: string | null;
+  subtotal: number;
+  discount_amount: number;
+  discount_code: string | null;
+  tax_amount: number;
+  total: number;
+  payment_method: string;
+  discounts: CheckoutDiscount[];
+  loyalty_points_redeemed?: number;
+  loyalty_discount_amount?: number;
+  loyalty_points_earned?: number;
+  loyalty_points_balance?: number | null;
+  gift_cards?: CheckoutGiftCardPayment[];
+  gift_card_amount?: number;
+  // One per tender other than gift cards; 'split' is the payment_method when there are several
+  payments?: CheckoutPayment[];
+  change_given?: number;
+  items: CheckoutReceiptItem[];
+}
+
+export type CheckoutResult =
+  | { success: true; order: CheckoutOrder; duplicate?: boolean; offline?: boolean }
+  | { success: false; errors: CheckoutLineError[] };
+
+// Manual discount keyed in by the cashier; promotions, codes and loyalty points are resolved by the store
+export interface CheckoutTotals {
+  discountAmount: number;
+  taxAmount: number;
+  loyaltyPoints?: number;
+  loyaltyDiscountAmount?: number;
+  // Manager approval for a manual discount above the store's threshold
+  discountApprovalId?: string | null;
+  // What each gift card or store credit tender pays, from allocateGiftCards
+  giftCards?: { code: string; amount: number }[];
+  // What each tender pays, from resolveTenders; the payment method pays it all when missing
+  payments?: TenderPayment[];
+}
+
+// A gift card or the customer's store credit added to the sale as tender
+export interface GiftCardTender {
+  code: string;
+  kind: GiftCardKind;
+  balance: number;
+  customer_id: string | null;
 }
 
+// Generate a client-side order number, e.g. ORD-12345678
+export const generateOrderNumber = (): string => {
+  const timestamp = Date.now().toString().slice(-6);
+  const random = Math.floor(Math.random() * 100).toString().padStart(2, '0');
+  return `ORD-${timestamp}${random}`;
+};
+
+export const cartLineId = (productId: string, variantId?: string | null): string =>
+  variantId ? `${productId}:${variantId}` : productId;
+
+/**
+ * Resolve a scanned or typed code to a product, and to the variant when the code is a
+ * variant's barcode or SKU
+ */
+export const findProductEntryByCode = (
+  products: Product[],
+  code: string
+): { product: Product; variant: ProductVariantOption | null } | null => {
+  for (const product of products) {
+    if (!product.has_variants) continue;
+    const variant = findVariantByCode((product.product_variants || []).filter(v => v.is_active), code);
+    if (variant) return { product, variant };
+  }
+
+  const product = findProductByCode(products, code);
+  return product ? { product, variant: null } : null;
+};
+
+// Discount eligibility needs the loyalty tiers the customer has reached
+const toDiscountCustomer = (customer: Customer | null, loyaltyProgram: LoyaltyProgram): DiscountCustomer | null =>
+  customer
+    ? {
+        status: customer.status,
+        total_orders: customer.total_orders,
+        loyalty_tiers: getReachedTierNames(loyaltyProgram.tiers, customer.total_spent),
+      }
+    : null;
+
+// Promotions and the entered code discount that apply to the current cart
+export const resolveCartDiscounts = (
+  cart: CartItem[],
+  activeDiscounts: Discount[],
+  codeDiscount: Discount | null,
+  customer: Customer | null,
+  loyaltyProgram: LoyaltyProgram = { settings: DEFAULT_LOYALTY_SETTINGS, tiers: [] }
+): ResolvedDiscounts =>
+  resolveDiscounts(
+    cart.map(item => ({
+      productId: item.product_id,
+      categoryId: item.category_id ?? null,
+      quantity: item.quantity,
+      unitPrice: item.price,
+    })),
+    activeDiscounts.filter(discount => !discount.code),
+    codeDiscount,
+    toDiscountCustomer(customer, loyaltyProgram)
+  );
+
 // Store State
 interface POSState {
   // Cart state
@@ -48,6 +251,23 @@ interface POSState {
   discountType: "percent" | "fixed";
   discountValue: string;
   discountCode: string;
+  activeDiscounts: Discount[];
+  codeDiscount: Discount | null;
+  isApplyingDiscountCode: boolean;
+
+  // Loyalty state
+  loyaltyProgram: LoyaltyProgram;
+  loyaltyPointsToRedeem: number;
+
+  // Gift card state
+  giftCardCode: string;
+  giftCardTenders: GiftCardTender[];
+  isApplyingGiftCard: boolean;
+  // Spendable store credit of the selected customer, null when they have none
+  customerCreditBalance: number | null;
+
+  // Scanner state
+  barcodeScannerEnabled: boolean;
   
   // Product state
   products: Product[];
@@ -65,6 +285,10 @@ interface POSState {
   
   // Order state
   paymentMethod: string;
+  // Tenders of a split sale; empty when paymentMethod pays it all
+  splitPayments: PaymentTender[];
+  // Cash handed over for a single cash payment, to work out change
+  cashTendered: string;
   isProcessingOrder: boolean;
   
   // UI state
@@ -80,21 +304,52 @@ interface POSState {
   ordersLoading: boolean;
   orderSearchTerm: string;
   orderStatusFilter: string;
+
+  // Product whose variant the cashier is choosing
+  variantPickerProduct: Product | null;
+
+  // Offline state
+  isOnline: boolean;
+  isSyncing: boolean;
+  pendingSalesCount: number;
+  syncConflicts: QueuedSale[];
+  lastSyncedAt: string | null;
+  showSyncConflicts: boolean;
 }
 
 // Store Actions
 interface POSActions {
   // Cart actions
-  addToCart: (product: Product) => void;
+  addToCart: (product: Product, variant?: ProductVariantOption | null) => void;
+  addToCartByBarcode: (code: string) => boolean;
   updateQuantity: (id: string, quantity: number) => void;
   removeFromCart: (id: string) => void;
+  overrideCartItemPrice: (id: string, price: number, approvalId: string) => void;
   clearCart: () => void;
   getCartQuantity: (productId: string) => number;
+  setVariantPickerProduct: (product: Product | null) => void;
   
   // Discount actions
   setDiscountType: (type: "percent" | "fixed") => void;
   setDiscountValue: (value: string) => void;
   setDiscountCode: (code: string) => void;
+  fetchActiveDiscounts: (storeId: string) => Promise<void>;
+  applyDiscountCode: (storeId: string) => Promise<void>;
+  removeDiscountCode: () => void;
+
+  // Loyalty actions
+  fetchLoyaltyProgram: (storeId: string) => Promise<void>;
+  setLoyaltyPointsToRedeem: (points: number) => void;
+
+  // Gift card actions
+  setGiftCardCode: (code: string) => void;
+  applyGiftCard: (storeId: string) => Promise<void>;
+  fetchCustomerCredit: (storeId: string) => Promise<void>;
+  applyStoreCredit: (storeId: string) => Promise<void>;
+  removeGiftCardTender: (code: string) => void;
+
+  // Scanner actions
+  fetchBarcodeSettings: (storeId: string) => Promise<void>;
   
   // Product actions
   setProducts: (products: Product[]) => void;
@@ -116,8 +371,14 @@ interface POSActions {
   
   // Order actions
   setPaymentMethod: (method: string) => void;
+  setCashTendered: (value: string) => void;
+  startSplitPayment: () => void;
+  addSplitPayment: (amount: number) => void;
+  updateSplitPayment: (id: string, changes: Partial<Omit<PaymentTender, 'id'>>) => void;
+  removeSplitPayment: (id: string) => void;
+  cancelSplitPayment: () => void;
   setIsProcessingOrder: (processing: boolean) => void;
-  processOrder: (storeId: string, userId: string) => Promise<void>;
+  processOrder: (storeId: string, totals: CheckoutTotals) => Promise<CheckoutResult | null>;
   
   // UI actions
   setShowReceipt: (show: boolean) => void;
@@ -133,7 +394,14 @@ interface POSActions {
   setOrderSearchTerm: (term: string) => void;
   setOrderStatusFilter: (filter: string) => void;
   fetchOrders: (storeId: string) => Promise<void>;
-  refundOrder: (orderId: string, orderNumber: string) => Promise<void>;
+
+  // Offline actions
+  setOnline: (online: boolean) => void;
+  setShowSyncConflicts: (show: boolean) => void;
+  refreshSyncQueue: (storeId: string) => Promise<void>;
+  syncOfflineSales: (storeId: string) => Promise<void>;
+  retrySyncConflict: (storeId: string, saleId: string) => Promise<void>;
+  discardSyncConflict: (storeId: string, saleId: string) => Promise<void>;
   
   // Reset actions
   resetPOS: () => void;
@@ -147,6 +415,22 @@ const initialState: POSState = {
   discountType: "percent",
   discountValue: "",
   discountCode: "",
+  activeDiscounts: [],
+  codeDiscount: null,
+  isApplyingDiscountCode: false,
+
+  // Loyalty state
+  loyaltyProgram: { settings: DEFAULT_LOYALTY_SETTINGS, tiers: [] },
+  loyaltyPointsToRedeem: 0,
+
+  // Gift card state
+  giftCardCode: "",
+  giftCardTenders: [],
+  isApplyingGiftCard: false,
+  customerCreditBalance: null,
+
+  // Scanner state
+  barcodeScannerEnabled: DEFAULT_BARCODE_SETTINGS.scannerEnabled,
   
   // Product state
   products: [],
@@ -164,6 +448,8 @@ const initialState: POSState = {
   
   // Order state
   paymentMethod: "cash",
+  splitPayments: [],
+  cashTendered: "",
   isProcessingOrder: false,
   
   // UI state
@@ -179,6 +465,50 @@ const initialState: POSState = {
   ordersLoading: false,
   orderSearchTerm: "",
   orderStatusFilter: "all",
+
+  variantPickerProduct: null,
+
+  // Offline state
+  isOnline: typeof navigator === 'undefined' ? true : navigator.onLine,
+  isSyncing: false,
+  pendingSalesCount: 0,
+  syncConflicts: [],
+  lastSyncedAt: null,
+  showSyncConflicts: false,
+};
+
+// Replay a queued sale through checkout. It is priced like any other sale, so a price that
+// changed while the till was offline comes back as a conflict.
+const replayQueuedSale = async (sale: QueuedSale) => {
+  return supabase.rpc('checkout', {
+    _store_id: sale.storeId,
+    _order_number: sale.orderNumber,
+    _items: sale.items.map(item => ({
+      product_id: item.product_id,
+      variant_id: item.variant_id || null,
+      quantity: item.quantity,
+      unit_price: item.unit_price,
+    })),
+    _payment_method: sale.paymentMethod,
+    _customer_id: sale.customerId,
+    _discount_amount: sale.discountAmount,
+    _discount_code: sale.discountCode,
+    _tax_amount: sale.taxAmount,
+    _sold_at: sale.soldAt,
+    _client_reference: sale.clientReference,
+    _discounts: (sale.discounts || []).map(discount => ({
+      discount_id: discount.discount_id,
+      amount: discount.amount,
+    })),
+    _loyalty_points: sale.loyaltyPoints || 0,
+    _payments: sale.payments?.length
+      ? sale.payments.map(payment => ({
+          method: payment.method,
+          amount: payment.amount,
+          tendered: payment.tendered,
+        }))
+      : undefined,
+  });
 };
 
 export const usePOSStore = create<POSStore>()(
@@ -188,20 +518,28 @@ export const usePOSStore = create<POSStore>()(
         ...initialState,
         
         // Cart actions
-        addToCart: (product: Product) => {
+        addToCart: (product: Product, variant?: ProductVariantOption | null) => {
+          // Products with variants are sold per variant; let the cashier pick one first
+          if (product.has_variants && !variant) {
+            set({ variantPickerProduct: product }, false, 'addToCart:chooseVariant');
+            return;
+          }
+
           const { cart } = get();
-          const existingItem = cart.find(item => item.id === product.id);
+          const lineId = cartLineId(product.id, variant?.id);
+          const stockQuantity = variant ? variant.stock_quantity : product.stock_quantity;
+          const existingItem = cart.find(item => item.id === lineId);
           const currentCartQuantity = existingItem ? existingItem.quantity : 0;
 
-          if (currentCartQuantity >= product.stock_quantity) {
-            toast.error(`Only ${product.stock_quantity} items available in stock`);
+          if (currentCartQuantity >= stockQuantity) {
+            toast.error(`Only ${stockQuantity} items available in stock`);
             return;
           }
 
           if (existingItem) {
             set({
               cart: cart.map(item =>
-                item.id === product.id
+                item.id === lineId
                   ? { ...item, quantity: item.quantity + 1 }
                   : item
               )
@@ -209,18 +547,33 @@ export const usePOSStore = create<POSStore>()(
           } else {
             set({
               cart: [...cart, {
-                id: product.id,
+                id: lineId,
+                product_id: product.id,
+                variant_id: variant?.id || null,
+                variant_name: variant?.name || null,
                 name: product.name,
-                price: product.price,
+                price: variant ? variant.price : product.price,
                 quantity: 1,
-                sku: product.sku,
-                stock_quantity: product.stock_quantity,
-                image_url: product.image_url
+                sku: variant?.sku || product.sku,
+                stock_quantity: stockQuantity,
+                image_url: product.image_url,
+                category_id: product.category_id
               }]
             }, false, 'addToCart:new');
           }
         },
 
+        addToCartByBarcode: (code: string) => {
+          const entry = findProductEntryByCode(get().products, code);
+          if (!entry) {
+            toast.error(`No product found for barcode ${code}`);
+            return false;
+          }
+
+          get().addToCart(entry.product, entry.variant);
+          return true;
+        },
+
         updateQuantity: (id: string, quantity: number) => {
           const { cart } = get();
           if (quantity <= 0) {
@@ -249,21 +602,271 @@ export const usePOSStore = create<POSStore>()(
           }, false, 'removeFromCart');
         },
 
+        overrideCartItemPrice: (id: string, price: number, approvalId: string) => {
+          const { cart } = get();
+          set({
+            cart: cart.map(item =>
+              item.id === id
+                ? { ...item, price, original_price: item.original_price ?? item.price, price_approval_id: approvalId }
+                : item
+            )
+          }, false, 'overrideCartItemPrice');
+        },
+
         clearCart: () => {
-          set({ cart: [] }, false, 'clearCart');
+          set({ cart: [], splitPayments: [], cashTendered: '' }, false, 'clearCart');
         },
 
+        // Across all of a product's variant lines
         getCartQuantity: (productId: string) => {
           const { cart } = get();
-          const cartItem = cart.find(item => item.id === productId);
-          return cartItem ? cartItem.quantity : 0;
+          return cart
+            .filter(item => item.product_id === productId)
+            .reduce((sum, item) => sum + item.quantity, 0);
         },
 
+        setVariantPickerProduct: (product) => set({ variantPickerProduct: product }, false, 'setVariantPickerProduct'),
+
         // Discount actions
         setDiscountType: (type) => set({ discountType: type }, false, 'setDiscountType'),
         setDiscountValue: (value) => set({ discountValue: value }, false, 'setDiscountValue'),
         setDiscountCode: (code) => set({ discountCode: code }, false, 'setDiscountCode'),
 
+        fetchActiveDiscounts: async (storeId: string) => {
+          try {
+            const { data, error } = await supabase
+              .from('discounts')
+              .select('*')
+              .eq('store_id', storeId)
+              .eq('is_active', true);
+
+            if (error) {
+              throw error;
+            }
+
+            set({ activeDiscounts: (data || []) as Discount[] }, false, 'fetchActiveDiscounts');
+            cacheSnapshot(storeId, 'discounts', data || []);
+          } catch {
+            // Promotions are optional, fall back to the offline copy silently
+            const cached = await getCachedSnapshot<Discount[]>(storeId, 'discounts');
+            if (cached) {
+              set({ activeDiscounts: cached.data }, false, 'fetchActiveDiscounts:cached');
+            }
+          }
+        },
+
+        applyDiscountCode: async (storeId: string) => {
+          const { discountCode, activeDiscounts, cart, selectedCustomer, loyaltyProgram, isOnline } = get();
+          const code = discountCode.trim();
+          if (!code) return;
+
+          set({ isApplyingDiscountCode: true }, false, 'applyDiscountCode:start');
+          try {
+            // Codes created since the POS loaded are only known to the server
+            let discount = activeDiscounts.find(d => d.code?.toUpperCase() === code.toUpperCase()) || null;
+            if (!discount && isOnline) {
+              discount = await findDiscountByCode(storeId, code);
+            }
+
+            if (!discount) {
+              toast.error(`Discount code ${code.toUpperCase()} not found`);
+              return;
+            }
+
+            const evaluation = evaluateDiscount(
+              discount,
+              cart.map(item => ({
+                productId: item.product_id,
+                categoryId: item.category_id ?? null,
+                quantity: item.quantity,
+                unitPrice: item.price,
+              })),
+              toDiscountCustomer(selectedCustomer, loyaltyProgram)
+            );
+
+            if (!evaluation.eligible) {
+              const message = describeIneligibleReason(evaluation.reason);
+              // The cart or customer can still change - keep the code and let it kick in once it qualifies
+              if (['min_purchase', 'no_eligible_items', 'customer_required', 'customer_not_eligible', 'loyalty_tier'].includes(evaluation.reason)) {
+                toast.warning(message);
+              } else {
+                toast.error(message);
+                return;
+              }
+            } else {
+              toast.success(`${discount.name} applied`);
+            }
+
+            set({ codeDiscount: discount, discountCode: discount.code || code }, false, 'applyDiscountCode:success');
+          } catch {
+            toast.error('Failed to look up discount code');
+          } finally {
+            set({ isApplyingDiscountCode: false }, false, 'applyDiscountCode:end');
+          }
+        },
+
+        removeDiscountCode: () => set({ codeDiscount: null, discountCode: '' }, false, 'removeDiscountCode'),
+
+        // Loyalty actions
+        fetchLoyaltyProgram: async (storeId: string) => {
+          try {
+            const program = await fetchLoyaltyProgram(storeId);
+            set({ loyaltyProgram: program }, false, 'fetchLoyaltyProgram');
+            cacheSnapshot(storeId, 'loyalty', program);
+          } catch {
+            // Loyalty is optional, fall back to the offline copy silently
+            const cached = await getCachedSnapshot<LoyaltyProgram>(storeId, 'loyalty');
+            if (cached) {
+              set({ loyaltyProgram: cached.data }, false, 'fetchLoyaltyProgram:cached');
+            }
+          }
+        },
+
+        setLoyaltyPointsToRedeem: (points) =>
+          set({ loyaltyPointsToRedeem: Math.max(0, Math.floor(points)) }, false, 'setLoyaltyPointsToRedeem'),
+
+        // Gift card actions
+        setGiftCardCode: (code) => set({ giftCardCode: code }, false, 'setGiftCardCode'),
+
+        applyGiftCard: async (storeId: string) => {
+          const { giftCardCode, giftCardTenders, isOnline } = get();
+          const code = normalizeGiftCardCode(giftCardCode);
+          if (!code) return;
+
+          if (!isOnline) {
+            toast.error('Gift cards can only be taken while online');
+            return;
+          }
+
+          if (giftCardTenders.some(tender => tender.code === code)) {
+            toast.error('That gift card is already on this sale');
+            return;
+          }
+
+          set({ isApplyingGiftCard: true }, false, 'applyGiftCard:start');
+          try {
+            const { data, error } = await supabase
+              .from('gift_cards')
+              .select('code, kind, balance, status, expires_at, customer_id')
+              .eq('store_id', storeId)
+              .eq('code', code)
+              .eq('kind', 'gift_card')
+              .maybeSingle();
+
+            if (error) throw error;
+
+            if (!data) {
+              toast.error('No gift card with that code');
+              return;
+            }
+            if (isGiftCardExpired(data)) {
+              toast.error('This gift card has expired');
+              return;
+            }
+            if (data.balance <= 0) {
+              toast.error('This gift card has no balance left');
+              return;
+            }
+
+            set({
+              giftCardTenders: [...giftCardTenders, {
+                code: data.code,
+                kind: 'gift_card',
+                balance: data.balance,
+                customer_id: data.customer_id,
+              }],
+              giftCardCode: '',
+            }, false, 'applyGiftCard:success');
+          } catch (error) {
+            toast.error('Failed to look up gift card');
+          } finally {
+            set({ isApplyingGiftCard: false }, false, 'applyGiftCard:end');
+          }
+        },
+
+        fetchCustomerCredit: async (storeId: string) => {
+          const { selectedCustomer, isOnline } = get();
+          if (!selectedCustomer || !isOnline) {
+            set({ customerCreditBalance: null }, false, 'fetchCustomerCredit:none');
+            return;
+          }
+
+          try {
+            const { data, error } = await supabase
+              .from('gift_cards')
+              .select('balance, status, expires_at')
+              .eq('store_id', storeId)
+              .eq('kind', 'store_credit')
+              .eq('customer_id', selectedCustomer.id)
+              .maybeSingle();
+
+            if (error) throw error;
+
+            // The customer may have changed while we were asking
+            if (get().selectedCustomer?.id !== selectedCustomer.id) return;
+
+            set({
+              customerCreditBalance: data && !isGiftCardExpired(data) && data.balance > 0 ? data.balance : null,
+            }, false, 'fetchCustomerCredit');
+          } catch (error) {
+            // Store credit is optional at the till
+            set({ customerCreditBalance: null }, false, 'fetchCustomerCredit:failed');
+          }
+        },
+
+        applyStoreCredit: async (storeId: string) => {
+          const { selectedCustomer, giftCardTenders, isOnline } = get();
+          if (!selectedCustomer) return;
+
+          if (!isOnline) {
+            toast.error('Store credit can only be taken while online');
+            return;
+          }
+
+          if (giftCardTenders.some(tender => tender.kind === 'store_credit')) return;
+
+          set({ isApplyingGiftCard: true }, false, 'applyStoreCredit:start');
+          try {
+            const { data, error } = await supabase
+              .from('gift_cards')
+              .select('code, balance, status, expires_at, customer_id')
+              .eq('store_id', storeId)
+              .eq('kind', 'store_credit')
+              .eq('customer_id', selectedCustomer.id)
+              .maybeSingle();
+
+            if (error) throw error;
+
+            if (!data || isGiftCardExpired(data) || data.balance <= 0) {
+              toast.error(`${selectedCustomer.name} has no store credit`);
+              return;
+            }
+
+            set({
+              giftCardTenders: [...giftCardTenders, {
+                code: data.code,
+                kind: 'store_credit',
+                balance: data.balance,
+                customer_id: data.customer_id,
+              }],
+            }, false, 'applyStoreCredit:success');
+          } catch (error) {
+            toast.error('Failed to look up store credit');
+          } finally {
+            set({ isApplyingGiftCard: false }, false, 'applyStoreCredit:end');
+          }
+        },
+
+        removeGiftCardTender: (code) => set({
+          giftCardTenders: get().giftCardTenders.filter(tender => tender.code !== code),
+        }, false, 'removeGiftCardTender'),
+
+        // Scanner actions
+        fetchBarcodeSettings: async (storeId: string) => {
+          const settings = await getBarcodeSettings(storeId);
+          set({ barcodeScannerEnabled: settings.scannerEnabled }, false, 'fetchBarcodeSettings');
+        },
+
         // Product actions
         setProducts: (products) => set({ products }, false, 'setProducts'),
         setCategories: (categories) => set({ categories }, false, 'setCategories'),
@@ -286,20 +889,30 @@ export const usePOSStore = create<POSStore>()(
                 category_id,
                 image_url,
                 is_active,
-                categories (name)
+                has_variants,
+                categories (name),
+                product_barcodes (barcode),
+                product_variants (id, name, options, sku, barcode, price, stock_quantity, is_active)
               `)
               .eq('store_id', storeId)
               .eq('is_active', true)
-              .order('name');
+              .order('name')
+              .order('position', { referencedTable: 'product_barcodes' })
+              .order('position', { referencedTable: 'product_variants' });
 
             if (error) {
-              toast.error('Failed to load products');
-              return;
+              throw error;
             }
 
             set({ products: data || [] }, false, 'fetchProducts:success');
+            cacheSnapshot(storeId, 'products', data || []);
           } catch (error) {
-            toast.error('Failed to load products');
+            const cached = await getCachedSnapshot<Product[]>(storeId, 'products');
+            if (cached) {
+              set({ products: cached.data }, false, 'fetchProducts:cached');
+            } else {
+              toast.error('Failed to load products');
+            }
           } finally {
             set({ loading: false }, false, 'fetchProducts:end');
           }
@@ -314,19 +927,33 @@ export const usePOSStore = create<POSStore>()(
               .order('name');
 
             if (error) {
-              // Categories are optional, don't show error toast
-              return;
+              throw error;
             }
 
             set({ categories: data || [] }, false, 'fetchCategories');
+            cacheSnapshot(storeId, 'categories', data || []);
           } catch (error) {
-            // Categories are optional, fail silently
+            // Categories are optional, fall back to the offline copy silently
+            const cached = await getCachedSnapshot<Category[]>(storeId, 'categories');
+            if (cached) {
+              set({ categories: cached.data }, false, 'fetchCategories:cached');
+            }
           }
         },
 
         // Customer actions
         setCustomers: (customers) => set({ customers }, false, 'setCustomers'),
-        setSelectedCustomer: (customer) => set({ selectedCustomer: customer }, false, 'setSelectedCustomer'),
+        // Points and store credit belong to the customer, so a different customer starts with neither
+        setSelectedCustomer: (customer) => set({
+          selectedCustomer: customer,
+          ...(customer?.id !== get().selectedCustomer?.id
+            ? {
+                loyaltyPointsToRedeem: 0,
+                giftCardTenders: get().giftCardTenders.filter(tender => tender.kind !== 'store_credit'),
+                customerCreditBalance: null,
+              }
+            : {}),
+        }, false, 'setSelectedCustomer'),
         setCustomerSearchTerm: (term) => set({ customerSearchTerm: term }, false, 'setCustomerSearchTerm'),
         setShowCustomerSearch: (show) => set({ showCustomerSearch: show }, false, 'setShowCustomerSearch'),
 
@@ -334,18 +961,22 @@ export const usePOSStore = create<POSStore>()(
           try {
             const { data, error } = await supabase
               .from('customers')
-              .select('id, name, email, phone, status, total_orders, total_spent')
+              .select('id, name, email, phone, status, total_orders, total_spent, loyalty_points')
               .eq('store_id', storeId)
               .order('name');
 
             if (error) {
-              // Customers are optional, don't show error toast
-              return;
+              throw error;
             }
 
             set({ customers: data || [] }, false, 'fetchCustomers');
+            cacheSnapshot(storeId, 'customers', data || []);
           } catch (error) {
-            // Customers are optional, fail silently
+            // Customers are optional, fall back to the offline copy silently
+            const cached = await getCachedSnapshot<Customer[]>(storeId, 'customers');
+            if (cached) {
+              set({ customers: cached.data }, false, 'fetchCustomers:cached');
+            }
           }
         },
 
@@ -388,15 +1019,316 @@ export const usePOSStore = create<POSStore>()(
         },
 
         // Order actions
-        setPaymentMethod: (method) => set({ paymentMethod: method }, false, 'setPaymentMethod'),
+        setPaymentMethod: (method) => set({ paymentMethod: method, cashTendered: '' }, false, 'setPaymentMethod'),
+        setCashTendered: (value) => set({ cashTendered: value }, false, 'setCashTendered'),
+
+        // Splitting starts from the chosen method plus one more for the cashier to pick
+        startSplitPayment: () => {
+          set({
+            splitPayments: [createPaymentTender(get().paymentMethod), createPaymentTender()],
+            cashTendered: '',
+          }, false, 'startSplitPayment');
+        },
+
+        addSplitPayment: (amount) => {
+          set({
+            splitPayments: [...get().splitPayments, createPaymentTender('', amount > 0 ? amount.toFixed(2) : '')],
+          }, false, 'addSplitPayment');
+        },
+
+        updateSplitPayment: (id, changes) => {
+          set({
+            splitPayments: get().splitPayments.map(tender =>
+              tender.id === id ? { ...tender, ...changes } : tender
+            ),
+          }, false, 'updateSplitPayment');
+        },
+
+        // Down to one tender, the sale goes back to a single payment method
+        removeSplitPayment: (id) => {
+          const remaining = get().splitPayments.filter(tender => tender.id !== id);
+          if (remaining.length > 1) {
+            set({ splitPayments: remaining }, false, 'removeSplitPayment');
+          } else {
+            set({
+              splitPayments: [],
+              paymentMethod: remaining[0]?.method || get().paymentMethod,
+            }, false, 'removeSplitPayment:single');
+          }
+        },
+
+        cancelSplitPayment: () => set({ splitPayments: [] }, false, 'cancelSplitPayment'),
         setIsProcessingOrder: (processing) => set({ isProcessingOrder: processing }, false, 'setIsProcessingOrder'),
 
-        processOrder: async (storeId: string, userId: string) => {
-          // This will be implemented in the next part due to complexity
-          // For now, just a placeholder
+        processOrder: async (storeId: string, totals: CheckoutTotals) => {
+          const {
+            cart,
+            selectedCustomer,
+            paymentMethod,
+            activeDiscounts,
+            codeDiscount,
+            products,
+            loyaltyProgram,
+          } = get();
           set({ isProcessingOrder: true }, false, 'processOrder:start');
-          // Implementation will be added in the component refactor
-          set({ isProcessingOrder: false }, false, 'processOrder:end');
+
+          const orderNumber = generateOrderNumber();
+          // Shared by the online attempt and the queued copy, so a sale whose response was
+          // lost before it went to the queue is only recorded once
+          const clientReference = crypto.randomUUID();
+          const subtotal = cart.reduce((sum, item) => sum + (item.price * item.quantity), 0);
+          const promotions = resolveCartDiscounts(cart, activeDiscounts, codeDiscount, selectedCustomer, loyaltyProgram);
+          const loyaltyPoints = selectedCustomer ? totals.loyaltyPoints || 0 : 0;
+          const appliedDiscounts = promotions.applied.map(discount => ({
+            discount_id: discount.discountId,
+            amount: discount.amount,
+          }));
+          const giftCards = (totals.giftCards || []).filter(card => card.amount > 0);
+          const payments = totals.payments || [];
+          const changeGiven = payments.reduce((sum, payment) => sum + Math.max(0, payment.tendered - payment.amount), 0);
+
+          const completeSale = (order: CheckoutOrder, action: string) => {
+            const loyaltyBalance = order.loyalty_points_balance;
+            set({
+              lastOrder: {
+                orderNumber: order.order_number,
+                orderDate: order.created_at,
+                items: order.items,
+                subtotal: order.subtotal,
+                discountAmount: order.discount_amount,
+                discountCode: order.discount_code || '',
+                discounts: order.discounts || [],
+                taxAmount: order.tax_amount,
+                loyaltyPointsRedeemed: order.loyalty_points_redeemed || 0,
+                loyaltyDiscountAmount: order.loyalty_discount_amount || 0,
+                loyaltyPointsEarned: order.loyalty_points_earned || 0,
+                giftCardPayments: order.gift_cards || [],
+                total: order.total,
+                paymentMethod: order.payment_method,
+                payments: order.payments || [],
+                changeGiven: order.change_given || 0,
+                customer: selectedCustomer,
+              },
+              showReceipt: true,
+              cart: [],
+              discountValue: '',
+              discountCode: '',
+              codeDiscount: null,
+              loyaltyPointsToRedeem: 0,
+              giftCardCode: '',
+              giftCardTenders: [],
+              customerCreditBalance: null,
+              splitPayments: [],
+              cashTendered: '',
+              selectedCustomer: null,
+              // Keep the till's copy of the balance in step until customers are refetched
+              customers: selectedCustomer && loyaltyBalance != null
+                ? get().customers.map(customer =>
+                    customer.id === selectedCustomer.id
+                      ? { ...customer, loyalty_points: loyaltyBalance }
+                      : customer
+                  )
+                : get().customers,
+            }, false, action);
+          };
+
+          // Capture the sale locally; it is replayed through checkout once we're back online
+          const queueSale = async (): Promise<CheckoutResult> => {
+            // Balances live on the server, so a card can't be charged until the sale reaches it
+            if (giftCards.length > 0) {
+              return {
+                success: false,
+                errors: [{
+                  code: 'gift_card_invalid',
+                  message: 'Gift cards and store credit need a connection. Remove them to take the sale offline.',
+                }],
+              };
+            }
+
+            const soldAt = new Date().toISOString();
+            const loyaltyDiscountAmount = loyaltyPoints > 0 ? totals.loyaltyDiscountAmount || 0 : 0;
+            const total = Math.max(0, subtotal - totals.discountAmount - promotions.total + totals.taxAmount - loyaltyDiscountAmount);
+            const sale: QueuedSale = {
+              id: orderNumber,
+              storeId,
+              orderNumber,
+              clientReference,
+              soldAt,
+              items: cart.map(item => ({
+                product_id: item.product_id,
+                variant_id: item.variant_id,
+                variant_name: item.variant_name,
+                name: item.name,
+                sku: item.sku,
+                quantity: item.quantity,
+                unit_price: item.price,
+              })),
+              paymentMethod,
+              customerId: selectedCustomer?.id || null,
+              customerName: selectedCustomer?.name || null,
+              discountAmount: totals.discountAmount,
+              discountCode: codeDiscount?.code || null,
+              discounts: appliedDiscounts,
+              loyaltyPoints,
+              payments: payments.length > 0 ? payments : undefined,
+              taxAmount: totals.taxAmount,
+              total,
+              status: 'pending',
+              attempts: 0,
+              errors: [],
+              lastAttemptAt: null,
+            };
+            await saveQueuedSale(sale);
+
+            // Reflect the sale in the local stock so the till doesn't oversell while offline
+            const soldQuantity = (productId: string, variantId: string | null = null) => cart
+              .filter(item => item.product_id === productId && (variantId === null || item.variant_id === variantId))
+              .reduce((sum, item) => sum + item.quantity, 0);
+            const updatedProducts = products.map(product => {
+              const sold = soldQuantity(product.id);
+              if (sold === 0) return product;
+              return {
+                ...product,
+                stock_quantity: product.stock_quantity - sold,
+                product_variants: product.product_variants?.map(variant => ({
+                  ...variant,
+                  stock_quantity: variant.stock_quantity - soldQuantity(product.id, variant.id),
+                })),
+              };
+            });
+            set({
+              products: updatedProducts,
+              pendingSalesCount: get().pendingSalesCount + 1,
+            }, false, 'processOrder:queued');
+            cacheSnapshot(storeId, 'products', updatedProducts);
+
+            const order: CheckoutOrder = {
+              id: sale.id,
+              order_number: orderNumber,
+              created_at: soldAt,
+              transaction_number: null,
+              subtotal,
+              discount_amount: totals.discountAmount + promotions.total,
+              discount_code: sale.discountCode,
+              tax_amount: totals.taxAmount,
+              total,
+              payment_method: payments.length > 1 ? SPLIT_PAYMENT_METHOD : payments[0]?.method || paymentMethod,
+              payments: payments.map(payment => ({ ...payment, change: Math.max(0, payment.tendered - payment.amount) })),
+              change_given: changeGiven,
+              discounts: promotions.applied.map(discount => ({
+                discount_id: discount.discountId,
+                name: discount.name,
+                code: discount.code,
+                amount: discount.amount,
+              })),
+              loyalty_points_redeemed: loyaltyPoints,
+              loyalty_discount_amount: loyaltyDiscountAmount,
+              // Earned points are worked out by checkout when the sale syncs
+              loyalty_points_earned: 0,
+              loyalty_points_balance: selectedCustomer && loyaltyPoints > 0
+                ? (selectedCustomer.loyalty_points || 0) - loyaltyPoints
+                : null,
+              items: cart.map(item => ({
+                id: item.id,
+                name: item.name,
+                variant_name: item.variant_name,
+                sku: item.sku,
+                quantity: item.quantity,
+                unit_price: item.price,
+                total_price: item.price * item.quantity,
+              })),
+            };
+            completeSale(order, 'processOrder:offline');
+            toast.success(`Order ${orderNumber} saved offline - it will sync when the connection returns`);
+
+            return { success: true, order, offline: true };
+          };
+
+          try {
+            if (!get().isOnline) {
+              return await queueSale();
+            }
+
+            const { data, error } = await supabase.rpc('checkout', {
+              _store_id: storeId,
+              _order_number: orderNumber,
+              _client_reference: clientReference,
+              _items: cart.map(item => ({
+                product_id: item.product_id,
+                variant_id: item.variant_id,
+                quantity: item.quantity,
+                unit_price: item.price,
+                approval_id: item.price_approval_id || null,
+              })),
+              _payment_method: paymentMethod,
+              _customer_id: selectedCustomer?.id || null,
+              _discount_amount: totals.discountAmount,
+              _tax_amount: totals.taxAmount,
+              _discounts: appliedDiscounts,
+              _loyalty_points: loyaltyPoints,
+              _discount_approval_id: totals.discountApprovalId || undefined,
+              _pin_session: sessionManager.getPinSessionToken(storeId) || undefined,
+              _gift_cards: giftCards.length > 0 ? giftCards : undefined,
+              _payments: payments.length > 0
+                ? payments.map(payment => ({
+                    method: payment.method,
+                    amount: payment.amount,
+                    tendered: payment.tendered,
+                  }))
+                : undefined,
+            });
+
+            if (error && isNetworkError(error)) {
+              set({ isOnline: false }, false, 'processOrder:wentOffline');
+              return await queueSale();
+            }
+
+            if (error || !data) {
+              toast.error('Failed to process order');
+              return null;
+            }
+
+            const result = data as unknown as CheckoutResult;
+
+            if (!result.success) {
+              // Stock, prices, discounts or points moved under us - refresh so the cashier sees current values
+              get().fetchProducts(storeId);
+              get().fetchActiveDiscounts(storeId);
+              if (loyaltyPoints > 0) {
+                get().fetchCustomers(storeId);
+              }
+              // Refresh balances the cards were checked against
+              if (result.errors.some(lineError => lineError.code === 'gift_card_invalid')) {
+                set({
+                  giftCardTenders: get().giftCardTenders.map(tender => {
+                    const available = result.errors.find(lineError => lineError.gift_card_code === tender.code)?.available;
+                    return available != null ? { ...tender, balance: available } : tender;
+                  }),
+                }, false, 'processOrder:giftCardBalances');
+              }
+              return result;
+            }
+
+            completeSale(result.order, 'processOrder:success');
+            toast.success(`Order ${result.order.order_number} processed successfully!`);
+
+            // Refresh products and discount usage counts
+            get().fetchProducts(storeId);
+            if (appliedDiscounts.length > 0) {
+              get().fetchActiveDiscounts(storeId);
+            }
+
+            return result;
+          } catch (error) {
+            if (isNetworkError(error)) {
+              set({ isOnline: false }, false, 'processOrder:wentOffline');
+              return await queueSale();
+            }
+            toast.error('Failed to process order');
+            return null;
+          } finally {
+            set({ isProcessingOrder: false }, false, 'processOrder:end');
+          }
         },
 
         // UI actions
@@ -448,34 +1380,118 @@ export const usePOSStore = create<POSStore>()(
           }
         },
 
-        refundOrder: async (orderId: string, orderNumber: string) => {
+        // Offline actions
+        setOnline: (online) => set({ isOnline: online }, false, 'setOnline'),
+        setShowSyncConflicts: (show) => set({ showSyncConflicts: show }, false, 'setShowSyncConflicts'),
+
+        refreshSyncQueue: async (storeId: string) => {
           try {
-            const { error } = await supabase
-              .from('orders')
-              .update({ status: 'refunded' })
-              .eq('id', orderId);
+            const sales = await getQueuedSales(storeId);
+            set({
+              pendingSalesCount: sales.filter(sale => sale.status === 'pending').length,
+              syncConflicts: sales.filter(sale => sale.status === 'conflict'),
+            }, false, 'refreshSyncQueue');
+          } catch (error) {
+            console.error('Failed to read offline sales queue:', error);
+          }
+        },
 
-            if (error) {
-              toast.error('Failed to refund order');
-              return;
-            }
+        syncOfflineSales: async (storeId: string) => {
+          if (get().isSyncing || !get().isOnline) {
+            return;
+          }
+
+          set({ isSyncing: true }, false, 'syncOfflineSales:start');
+          let synced = 0;
+          let conflicts = 0;
 
-            toast.success(`Order ${orderNumber} has been refunded`);
+          try {
+            const sales = (await getQueuedSales(storeId)).filter(sale => sale.status === 'pending');
+
+            for (const sale of sales) {
+              const { data, error } = await replayQueuedSale(sale);
+
+              if (error) {
+                if (isNetworkError(error)) {
+                  // Still offline - leave the rest of the queue for the next attempt
+                  set({ isOnline: false }, false, 'syncOfflineSales:offline');
+                  break;
+                }
+                await saveQueuedSale({
+                  ...sale,
+                  attempts: sale.attempts + 1,
+                  lastAttemptAt: new Date().toISOString(),
+                });
+                continue;
+              }
+
+              const result = data as unknown as CheckoutResult;
+              if (result.success) {
+                await removeQueuedSale(sale.id);
+                synced++;
+              } else {
+                await saveQueuedSale({
+                  ...sale,
+                  status: 'conflict',
+                  attempts: sale.attempts + 1,
+                  errors: result.errors,
+                  lastAttemptAt: new Date().toISOString(),
+                });
+                conflicts++;
+              }
+            }
 
-            // Refresh orders after refund
-            const { fetchOrders } = get();
-            const currentStore = get().selectedCustomer; // This should be store context
-            // We'll need to pass storeId from component for now
+            if (synced > 0) {
+              set({ lastSyncedAt: new Date().toISOString() }, false, 'syncOfflineSales:synced');
+              toast.success(`Synced ${synced} offline ${synced === 1 ? 'sale' : 'sales'}`);
+              get().fetchProducts(storeId);
+            }
+            if (conflicts > 0) {
+              toast.error(`${conflicts} offline ${conflicts === 1 ? 'sale' : 'sales'} could not be synced - review the conflict report`);
+            }
           } catch (error) {
-            toast.error('Failed to refund order');
+            console.error('Failed to sync offline sales:', error);
+          } finally {
+            set({ isSyncing: false }, false, 'syncOfflineSales:end');
+            await get().refreshSyncQueue(storeId);
           }
         },
 
+        retrySyncConflict: async (storeId: string, saleId: string) => {
+          const sale = get().syncConflicts.find(conflict => conflict.id === saleId);
+          if (!sale) return;
+
+          // Put it back in the queue; a stock adjustment may have resolved the shortfall
+          await saveQueuedSale({ ...sale, status: 'pending', errors: [] });
+          await get().refreshSyncQueue(storeId);
+          await get().syncOfflineSales(storeId);
+        },
+
+        discardSyncConflict: async (storeId: string, saleId: string) => {
+          await removeQueuedSale(saleId);
+          await get().refreshSyncQueue(storeId);
+          toast.success(`Offline sale ${saleId} discarded`);
+        },
+
         // Reset actions
         resetPOS: () => set(initialState, false, 'resetPOS'),
       }),
       {
         name: 'pos-store',
+        // v1: cart lines carry product_id and variant fields; older lines were keyed by product id
+        version: 1,
+        migrate: (persisted, version) => {
+          const state = persisted as Partial<POSState>;
+          if (version < 1 && state.cart) {
+            state.cart = state.cart.map(item => ({
+              ...item,
+              product_id: item.product_id || item.id,
+              variant_id: item.variant_id ?? null,
+              variant_name: item.variant_name ?? null,
+            }));
+          }
+          return state as POSStore;
+        },
         partialize: (state) => ({
           // Only persist cart and UI preferences
           cart: state.cart,
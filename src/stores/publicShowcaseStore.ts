@@ -70,6 +70,7 @@ export interface PublicProduct {
   show_price_publicly: boolean;
   created_at: string;
   sku?: string;
+  has_variants?: boolean;
 }
 
 export interface PublicCategory {
@@ -0,0 +1,388 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+
+// Types
+export type PurchaseOrderStatus =
+  | 'draft'
+  | 'ordered'
+  | 'partially_received'
+  | 'received'
+  | 'closed'
+  | 'cancelled';
+
+export type CostMethod = 'last' | 'weighted_average';
+
+export interface PurchaseOrder {
+  id: string;
+  store_id: string;
+  po_number: string;
+  supplier_id: string | null;
+  supplier_name: string;
+  status: PurchaseOrderStatus;
+  order_date: string | null;
+  expected_date: string | null;
+  total_cost: number;
+  received_cost: number;
+  notes: string | null;
+  ordered_at: string | null;
+  received_at: string | null;
+  closed_at: string | null;
+  created_at: string;
+}
+
+export interface PurchaseOrderItem {
+  id: string;
+  purchase_order_id: string;
+  product_id: string | null;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity_ordered: number;
+  quantity_received: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrderReceipt {
+  id: string;
+  purchase_order_id: string;
+  cost_method: CostMethod;
+  total_cost: number;
+  notes: string | null;
+  received_at: string;
+}
+
+export interface PurchaseOrderDetails {
+  order: PurchaseOrder;
+  items: PurchaseOrderItem[];
+  receipts: PurchaseOrderReceipt[];
+}
+
+export interface PurchaseOrderLineInput {
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface PurchaseOrderInput {
+  id?: string;
+  supplierId: string;
+  expectedDate?: string | null;
+  notes?: string;
+  items: PurchaseOrderLineInput[];
+}
+
+export interface ReceiveLineInput {
+  item_id: string;
+  quantity: number;
+  unit_cost: number;
+}
+
+export interface ReorderSuggestion {
+  product_id: string;
+  // Set for products with variants, which are suggested per variant
+  variant_id: string | null;
+  name: string;
+  variant_name: string | null;
+  sku: string | null;
+  supplier_id: string | null;
+  supplier_name: string | null;
+  unit_cost: number | null;
+  stock_quantity: number;
+  low_stock_threshold: number;
+  sold: number;
+  daily_velocity: number;
+  on_order: number;
+  target_stock: number;
+  suggested_quantity: number;
+}
+
+export interface SupplierSpend {
+  supplier_id: string | null;
+  supplier_name: string;
+  received_value: number;
+  deliveries: number;
+  open_orders: number;
+  overdue_orders: number;
+  open_value: number;
+}
+
+interface PurchaseOrderResult {
+  success: boolean;
+  error?: string;
+  purchase_order?: PurchaseOrder;
+}
+
+interface PurchaseOrderState {
+  purchaseOrders: PurchaseOrder[];
+  loading: boolean;
+  suggestions: ReorderSuggestion[];
+  suggestionsLoading: boolean;
+  supplierSpend: SupplierSpend[];
+  spendLoading: boolean;
+}
+
+interface PurchaseOrderActions {
+  fetchPurchaseOrders: (storeId: string) => Promise<void>;
+  fetchPurchaseOrder: (purchaseOrderId: string) => Promise<PurchaseOrderDetails | null>;
+  savePurchaseOrder: (storeId: string, input: PurchaseOrderInput) => Promise<PurchaseOrder | null>;
+  updateStatus: (purchaseOrder: PurchaseOrder, status: 'ordered' | 'cancelled' | 'closed') => Promise<boolean>;
+  receivePurchaseOrder: (
+    purchaseOrder: PurchaseOrder,
+    items: ReceiveLineInput[],
+    costMethod: CostMethod,
+    notes?: string
+  ) => Promise<boolean>;
+  fetchReorderSuggestions: (storeId: string, salesDays?: number, coverDays?: number) => Promise<void>;
+  fetchSupplierSpend: (storeId: string, from?: Date, to?: Date) => Promise<void>;
+  reset: () => void;
+}
+
+type PurchaseOrderStore = PurchaseOrderState & PurchaseOrderActions;
+
+const initialState: PurchaseOrderState = {
+  purchaseOrders: [],
+  loading: false,
+  suggestions: [],
+  suggestionsLoading: false,
+  supplierSpend: [],
+  spendLoading: false,
+};
+
+export const PURCHASE_ORDER_STATUS_LABELS: Record<PurchaseOrderStatus, string> = {
+  draft: 'Draft',
+  ordered: 'Ordered',
+  partially_received: 'Partially Received',
+  received: 'Received',
+  closed: 'Closed',
+  cancelled: 'Cancelled',
+};
+
+export const isOpenPurchaseOrder = (order: PurchaseOrder) =>
+  order.status === 'ordered' || order.status === 'partially_received';
+
+/**
+ * Open and past its expected delivery date
+ */
+export const isOverduePurchaseOrder = (order: PurchaseOrder) => {
+  if (!isOpenPurchaseOrder(order) || !order.expected_date) return false;
+  const today = new Date().toISOString().split('T')[0];
+  return order.expected_date < today;
+};
+
+// Supabase returns RPC exceptions as PostgrestErrors, which carry the RAISE text
+const rpcErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+export const usePurchaseOrderStore = create<PurchaseOrderStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      fetchPurchaseOrders: async (storeId: string) => {
+        set({ loading: true }, false, 'fetchPurchaseOrders:start');
+        try {
+          const { data, error } = await supabase
+            .from('purchase_orders')
+            .select('*')
+            .eq('store_id', storeId)
+            .order('created_at', { ascending: false });
+
+          if (error) throw error;
+
+          set({ purchaseOrders: (data || []) as PurchaseOrder[] }, false, 'fetchPurchaseOrders:success');
+        } catch (error) {
+          console.error('Error fetching purchase orders:', error);
+          toast.error('Failed to load purchase orders');
+        } finally {
+          set({ loading: false }, false, 'fetchPurchaseOrders:end');
+        }
+      },
+
+      fetchPurchaseOrder: async (purchaseOrderId: string) => {
+        try {
+          const [orderResult, itemsResult, receiptsResult] = await Promise.all([
+            supabase.from('purchase_orders').select('*').eq('id', purchaseOrderId).single(),
+            supabase
+              .from('purchase_order_items')
+              .select('*')
+              .eq('purchase_order_id', purchaseOrderId)
+              .order('created_at'),
+            supabase
+              .from('purchase_order_receipts')
+              .select('*')
+              .eq('purchase_order_id', purchaseOrderId)
+              .order('received_at'),
+          ]);
+
+          if (orderResult.error) throw orderResult.error;
+          if (itemsResult.error) throw itemsResult.error;
+          if (receiptsResult.error) throw receiptsResult.error;
+
+          return {
+            order: orderResult.data as PurchaseOrder,
+            items: (itemsResult.data || []) as PurchaseOrderItem[],
+            receipts: (receiptsResult.data || []) as PurchaseOrderReceipt[],
+          };
+        } catch (error) {
+          console.error('Error fetching purchase order:', error);
+          toast.error('Failed to load purchase order');
+          return null;
+        }
+      },
+
+      savePurchaseOrder: async (storeId: string, input: PurchaseOrderInput) => {
+        try {
+          const { data, error } = await supabase.rpc('save_purchase_order', {
+            _store_id: storeId,
+            _supplier_id: input.supplierId,
+            _items: input.items.map(item => ({
+              product_id: item.product_id,
+              variant_id: item.variant_id || null,
+              quantity: item.quantity,
+              unit_cost: item.unit_cost,
+            })),
+            _purchase_order_id: input.id || null,
+            _expected_date: input.expectedDate || null,
+            _notes: input.notes || null,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as PurchaseOrderResult;
+          if (!result.success || !result.purchase_order) {
+            toast.error(result.error || 'Failed to save purchase order');
+            return null;
+          }
+
+          toast.success(input.id ? 'Purchase order updated' : `Purchase order ${result.purchase_order.po_number} created`);
+          get().fetchPurchaseOrders(storeId);
+          return result.purchase_order;
+        } catch (error) {
+          console.error('Error saving purchase order:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to save purchase order'));
+          return null;
+        }
+      },
+
+      updateStatus: async (purchaseOrder: PurchaseOrder, status: 'ordered' | 'cancelled' | 'closed') => {
+        try {
+          const { data, error } = await supabase.rpc('update_purchase_order_status', {
+            _purchase_order_id: purchaseOrder.id,
+            _status: status,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as PurchaseOrderResult;
+          if (!result.success || !result.purchase_order) {
+            toast.error(result.error || 'Failed to update purchase order');
+            return false;
+          }
+
+          const updated = result.purchase_order;
+          set({
+            purchaseOrders: get().purchaseOrders.map(order => order.id === updated.id ? updated : order),
+          }, false, 'updateStatus');
+          toast.success(`${purchaseOrder.po_number} marked ${PURCHASE_ORDER_STATUS_LABELS[status].toLowerCase()}`);
+          return true;
+        } catch (error) {
+          console.error('Error updating purchase order status:', error);
+          toast.error('Failed to update purchase order');
+          return false;
+        }
+      },
+
+      receivePurchaseOrder: async (
+        purchaseOrder: PurchaseOrder,
+        items: ReceiveLineInput[],
+        costMethod: CostMethod,
+        notes?: string
+      ) => {
+        try {
+          const { data, error } = await supabase.rpc('receive_purchase_order', {
+            _purchase_order_id: purchaseOrder.id,
+            _items: items.map(item => ({
+              item_id: item.item_id,
+              quantity: item.quantity,
+              unit_cost: item.unit_cost,
+            })),
+            _cost_method: costMethod,
+            _notes: notes || null,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as PurchaseOrderResult;
+          if (!result.success || !result.purchase_order) {
+            toast.error(result.error || 'Failed to receive stock');
+            return false;
+          }
+
+          const updated = result.purchase_order;
+          set({
+            purchaseOrders: get().purchaseOrders.map(order => order.id === updated.id ? updated : order),
+          }, false, 'receivePurchaseOrder');
+          toast.success(
+            updated.status === 'received'
+              ? `${purchaseOrder.po_number} fully received`
+              : `Delivery recorded against ${purchaseOrder.po_number}`
+          );
+          return true;
+        } catch (error) {
+          console.error('Error receiving purchase order:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to receive stock'));
+          return false;
+        }
+      },
+
+      fetchReorderSuggestions: async (storeId: string, salesDays?: number, coverDays?: number) => {
+        set({ suggestionsLoading: true }, false, 'fetchReorderSuggestions:start');
+        try {
+          const { data, error } = await supabase.rpc('get_reorder_suggestions', {
+            _store_id: storeId,
+            _sales_days: salesDays,
+            _cover_days: coverDays,
+          });
+
+          if (error) throw error;
+
+          set({ suggestions: (data || []) as unknown as ReorderSuggestion[] }, false, 'fetchReorderSuggestions:success');
+        } catch (error) {
+          console.error('Error fetching reorder suggestions:', error);
+          toast.error('Failed to load reorder suggestions');
+        } finally {
+          set({ suggestionsLoading: false }, false, 'fetchReorderSuggestions:end');
+        }
+      },
+
+      fetchSupplierSpend: async (storeId: string, from?: Date, to?: Date) => {
+        set({ spendLoading: true }, false, 'fetchSupplierSpend:start');
+        try {
+          const { data, error } = await supabase.rpc('get_supplier_spend', {
+            _store_id: storeId,
+            _from: from?.toISOString() || null,
+            _to: to?.toISOString() || null,
+          });
+
+          if (error) throw error;
+
+          set({ supplierSpend: (data || []) as unknown as SupplierSpend[] }, false, 'fetchSupplierSpend:success');
+        } catch (error) {
+          console.error('Error fetching supplier spend:', error);
+          toast.error('Failed to load supplier spend');
+        } finally {
+          set({ spendLoading: false }, false, 'fetchSupplierSpend:end');
+        }
+      },
+
+      reset: () => set(initialState, false, 'reset'),
+    }),
+    { name: 'purchase-order-store' }
+  )
+);
+
+export const usePurchaseOrders = () => usePurchaseOrderStore((state) => state.purchaseOrders);
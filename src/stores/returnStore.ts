@@ -0,0 +1,298 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { sessionManager } from '@/lib/sessionManager';
+import { generateOrderNumber } from '@/stores/posStore';
+import { toast } from 'sonner';
+
+// Types
+export type ReturnDisposition = 'restock' | 'write_off';
+
+export interface ReturnableOrderItem {
+  id: string;
+  product_id: string;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity: number;
+  returned_quantity: number;
+  unit_price: number;
+  total_price: number;
+}
+
+export interface OrderReturnSummary {
+  id: string;
+  return_number: string;
+  refund_method: string;
+  refund_amount: number;
+  exchange_total: number;
+  amount_refunded: number;
+  amount_collected: number;
+  approved_by_name: string | null;
+  created_at: string;
+}
+
+export interface ReturnableOrder {
+  id: string;
+  store_id: string;
+  order_number: string;
+  subtotal: number;
+  total: number;
+  refunded_amount: number;
+  status: string | null;
+  payment_method: string | null;
+  created_at: string;
+  customer: {
+    id: string;
+    name: string;
+    email: string | null;
+    phone: string | null;
+  } | null;
+  items: ReturnableOrderItem[];
+  returns: OrderReturnSummary[];
+}
+
+export interface ReturnLineInput {
+  order_item_id: string;
+  quantity: number;
+  disposition: ReturnDisposition;
+  reason?: string;
+}
+
+export interface ExchangeLineInput {
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+}
+
+export interface OrderReturnInput {
+  orderId: string;
+  items: ReturnLineInput[];
+  refundMethod: string;
+  reason?: string;
+  exchangeItems?: ExchangeLineInput[];
+  approvalPin?: string;
+}
+
+export interface ReturnReceiptLine {
+  id: string;
+  name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity: number;
+  unit_price: number;
+  refund_amount?: number;
+  total_price?: number;
+  disposition?: ReturnDisposition;
+  reason?: string | null;
+}
+
+export interface OrderReturnReceipt {
+  id: string;
+  return_number: string;
+  created_at: string;
+  order_id: string;
+  order_number: string;
+  customer_name: string | null;
+  refund_method: string;
+  refund_amount: number;
+  exchange_order_id: string | null;
+  exchange_order_number: string | null;
+  exchange_total: number;
+  amount_refunded: number;
+  amount_collected: number;
+  transaction_number: string | null;
+  reason: string | null;
+  processed_by_name: string | null;
+  approved_by_name: string | null;
+  order_status: string;
+  items: ReturnReceiptLine[];
+  exchange_items: ReturnReceiptLine[];
+}
+
+export type ReturnFailureCode = 'approval_required' | 'invalid_pin' | 'shared_pin' | 'pin_locked';
+
+export interface ProcessReturnResult {
+  receipt: OrderReturnReceipt | null;
+  code?: ReturnFailureCode;
+}
+
+interface ProcessReturnResponse {
+  success: boolean;
+  error?: string;
+  code?: ReturnFailureCode;
+  return?: OrderReturnReceipt;
+}
+
+interface ReturnState {
+  processing: boolean;
+}
+
+interface ReturnActions {
+  fetchReturnableOrder: (orderId: string) => Promise<ReturnableOrder | null>;
+  processReturn: (input: OrderReturnInput) => Promise<ProcessReturnResult>;
+}
+
+type ReturnStore = ReturnState & ReturnActions;
+
+const initialState: ReturnState = {
+  processing: false,
+};
+
+export const RETURN_DISPOSITION_LABELS: Record<ReturnDisposition, string> = {
+  restock: 'Back to stock',
+  write_off: 'Write off',
+};
+
+// Supabase returns RPC exceptions as PostgrestErrors, which carry the RAISE text
+const rpcErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+export const useReturnStore = create<ReturnStore>()(
+  devtools(
+    (set) => ({
+      ...initialState,
+
+      fetchReturnableOrder: async (orderId: string) => {
+        try {
+          const { data, error } = await supabase
+            .from('orders')
+            .select(`
+              id,
+              store_id,
+              order_number,
+              subtotal,
+              total,
+              refunded_amount,
+              status,
+              payment_method,
+              created_at,
+              customers (id, name, email, phone),
+              order_items (
+                id,
+                product_id,
+                variant_id,
+                variant_name,
+                quantity,
+                returned_quantity,
+                unit_price,
+                total_price,
+                products (name, sku),
+                product_variants (sku)
+              ),
+              order_returns!order_returns_order_id_fkey (
+                id,
+                return_number,
+                refund_method,
+                refund_amount,
+                exchange_total,
+                amount_refunded,
+                amount_collected,
+                approved_by_name,
+                created_at
+              )
+            `)
+            .eq('id', orderId)
+            .single();
+
+          if (error) throw error;
+
+          return {
+            id: data.id,
+            store_id: data.store_id,
+            order_number: data.order_number,
+            subtotal: data.subtotal,
+            total: data.total,
+            refunded_amount: data.refunded_amount,
+            status: data.status,
+            payment_method: data.payment_method,
+            created_at: data.created_at,
+            customer: data.customers,
+            items: (data.order_items || []).map(item => ({
+              id: item.id,
+              product_id: item.product_id,
+              variant_id: item.variant_id,
+              product_name: item.products?.name || 'Deleted product',
+              variant_name: item.variant_name,
+              sku: item.product_variants?.sku || item.products?.sku || null,
+              quantity: item.quantity,
+              returned_quantity: item.returned_quantity,
+              unit_price: item.unit_price,
+              total_price: item.total_price,
+            })),
+            returns: [...(data.order_returns || [])].sort((a, b) => b.created_at.localeCompare(a.created_at)),
+          };
+        } catch (error) {
+          console.error('Error fetching order for return:', error);
+          toast.error('Failed to load order');
+          return null;
+        }
+      },
+
+      processReturn: async (input: OrderReturnInput) => {
+        set({ processing: true }, false, 'processReturn:start');
+        try {
+          const { data: order, error: orderError } = await supabase
+            .from('orders')
+            .select('store_id')
+            .eq('id', input.orderId)
+            .single();
+
+          if (orderError) throw orderError;
+
+          const exchangeItems = input.exchangeItems || [];
+          const { data, error } = await supabase.rpc('process_order_return', {
+            _order_id: input.orderId,
+            _items: input.items.map(item => ({
+              order_item_id: item.order_item_id,
+              quantity: item.quantity,
+              disposition: item.disposition,
+              reason: item.reason || null,
+            })),
+            _refund_method: input.refundMethod,
+            _reason: input.reason || undefined,
+            _exchange_items: exchangeItems.map(item => ({
+              product_id: item.product_id,
+              variant_id: item.variant_id || null,
+              quantity: item.quantity,
+            })),
+            _exchange_order_number: exchangeItems.length > 0 ? generateOrderNumber() : undefined,
+            // The server takes the cashier from the PIN session, so returns are attributed to
+            // them rather than the account the device is signed in with
+            _pin_session: sessionManager.getPinSessionToken(order.store_id) || undefined,
+            _approval_pin: input.approvalPin || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as ProcessReturnResponse;
+          if (!result.success || !result.return) {
+            toast.error(result.error || 'Failed to process return');
+            return { receipt: null, code: result.code };
+          }
+
+          const receipt = result.return;
+          toast.success(
+            receipt.exchange_order_id
+              ? `Exchange ${receipt.return_number} completed`
+              : `Return ${receipt.return_number} completed`
+          );
+          return { receipt };
+        } catch (error) {
+          console.error('Error processing return:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to process return'));
+          return { receipt: null };
+        } finally {
+          set({ processing: false }, false, 'processReturn:end');
+        }
+      },
+    }),
+    {
+      name: 'return-store',
+    }
+  )
+);
+
+// Selector hooks
+export const useReturnProcessing = () => useReturnStore(state => state.processing);
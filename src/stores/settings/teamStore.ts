@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { devtools } from 'zustand/middleware';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { notifyPlanLimit } from '@/lib/planLimits';
 
 // Types
 export interface TeamMember {
@@ -145,7 +146,9 @@ export const useTeamStore = create<TeamStore>()(
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to add team member';
           console.error('Error adding team member:', error);
-          toast.error(errorMessage);
+          if (!notifyPlanLimit(error)) {
+            toast.error(errorMessage);
+          }
           set({ 
             loading: false, 
             error: errorMessage 
@@ -181,7 +184,9 @@ export const useTeamStore = create<TeamStore>()(
         } catch (error) {
           const errorMessage = error instanceof Error ? error.message : 'Failed to update team member';
           console.error('Error updating team member:', error);
-          toast.error(errorMessage);
+          if (!notifyPlanLimit(error)) {
+            toast.error(errorMessage);
+          }
           set({ 
             loading: false, 
             error: errorMessage 
@@ -2,6 +2,7 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import { notifyPlanLimit } from '@/lib/planLimits';
 
 // Types
 export interface TeamMember {
@@ -75,6 +76,8 @@ export interface ShowcaseSettings {
   showcaseBannerUrl: string;
   seoTitle: string;
   seoDescription: string;
+  // Hours a showcase order holds its stock before the store has to confirm it
+  orderHoldHours: number;
   theme: ShowcaseTheme;
   contactInfo: ContactInfo;
   analytics: ShowcaseAnalytics;
@@ -223,6 +226,7 @@ const initialShowcaseSettings: ShowcaseSettings = {
   showcaseBannerUrl: '',
   seoTitle: '',
   seoDescription: '',
+  orderHoldHours: 48,
   theme: {
     primaryColor: '#1f2937',
     secondaryColor: '#374151',
@@ -389,7 +393,9 @@ export const useSettingsStore = create<SettingsStore>()(
               });
 
             if (error) {
-              toast.error('Failed to add team member');
+              if (!notifyPlanLimit(error)) {
+                toast.error('Failed to add team member');
+              }
               return;
             }
 
@@ -411,7 +417,9 @@ export const useSettingsStore = create<SettingsStore>()(
               .eq('id', id);
 
             if (error) {
-              toast.error('Failed to update team member');
+              if (!notifyPlanLimit(error)) {
+                toast.error('Failed to update team member');
+              }
               return;
             }
 
@@ -659,7 +667,8 @@ export const useSettingsStore = create<SettingsStore>()(
                 showcase_banner_url,
                 showcase_contact_info,
                 showcase_seo_title,
-                showcase_seo_description
+                showcase_seo_description,
+                public_order_hold_hours
               `)
               .eq('id', storeId)
               .single();
@@ -678,6 +687,7 @@ export const useSettingsStore = create<SettingsStore>()(
               showcaseBannerUrl: data.showcase_banner_url || '',
               seoTitle: data.showcase_seo_title || '',
               seoDescription: data.showcase_seo_description || '',
+              orderHoldHours: data.public_order_hold_hours ?? initialShowcaseSettings.orderHoldHours,
               theme: data.showcase_theme || initialShowcaseSettings.theme,
               contactInfo: data.showcase_contact_info || initialShowcaseSettings.contactInfo,
             };
@@ -707,6 +717,7 @@ export const useSettingsStore = create<SettingsStore>()(
                 showcase_contact_info: showcaseSettings.contactInfo,
                 showcase_seo_title: showcaseSettings.seoTitle.trim() || null,
                 showcase_seo_description: showcaseSettings.seoDescription.trim() || null,
+                public_order_hold_hours: Math.max(1, Math.round(showcaseSettings.orderHoldHours) || initialShowcaseSettings.orderHoldHours),
                 updated_at: new Date().toISOString()
               })
               .eq('id', storeId);
@@ -736,7 +747,9 @@ export const useSettingsStore = create<SettingsStore>()(
               .eq('id', storeId);
 
             if (error) {
-              toast.error(`Failed to ${enabled ? 'enable' : 'disable'} showcase`);
+              if (!notifyPlanLimit(error)) {
+                toast.error(`Failed to ${enabled ? 'enable' : 'disable'} showcase`);
+              }
               return;
             }
 
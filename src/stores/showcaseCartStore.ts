@@ -2,6 +2,15 @@ import { create } from 'zustand';
 import { devtools, persist } from 'zustand/middleware';
 import { supabase } from '@/integrations/supabase/client';
 import { toast } from 'sonner';
+import {
+  resolveDiscounts,
+  evaluateDiscount,
+  describeIneligibleReason,
+  type AppliedDiscount,
+  type DiscountRule,
+} from '@/lib/discountEngine';
+import { startShowcasePayment } from '@/lib/showcasePayments';
+import { normalizeGiftCardCode } from '@/lib/giftCards';
 
 // Types
 export interface ProductVariant {
@@ -14,6 +23,8 @@ export interface ProductVariant {
 export interface CartItem {
   id: string; // Unique cart item ID (product_id + variants hash)
   productId: string;
+  variantId?: string;
+  variantName?: string;
   productName: string;
   productImage?: string;
   basePrice: number;
@@ -28,10 +39,19 @@ export interface CartItem {
 export interface CartSummary {
   itemCount: number;
   subtotal: number;
+  discountAmount: number;
+  discounts: AppliedDiscount[];
   taxAmount: number;
   total: number;
 }
 
+// A gift card checked against the store; the order takes what it can when it is placed
+export interface AppliedGiftCard {
+  code: string;
+  balance: number;
+  expiresAt: string | null;
+}
+
 export interface CustomerInfo {
   name: string;
   phone: string;
@@ -41,9 +61,15 @@ export interface OrderResult {
   orderId: string;
   orderCode: string;
   subtotal: number;
+  discountAmount: number;
   taxAmount: number;
   total: number;
+  giftCardAmount: number;
+  // What is left to pay once the gift card has been charged
+  amountDue: number;
   status: string;
+  // Stock is held for the order until then, unless the store confirms it first
+  reservedUntil?: string;
   storeName: string;
   storePhone?: string;
   whatsappNumber?: string;
@@ -61,6 +87,19 @@ interface ShowcaseCartState {
   
   // Customer info
   customerInfo: CustomerInfo | null;
+
+  // Discounts
+  promotions: DiscountRule[];
+  codeDiscount: DiscountRule | null;
+  isApplyingDiscountCode: boolean;
+
+  // Gift card
+  giftCard: AppliedGiftCard | null;
+  isApplyingGiftCard: boolean;
+
+  // Online payment
+  onlinePayments: boolean;
+  isStartingPayment: boolean;
   
   // Loading states
   isLoading: boolean;
@@ -77,7 +116,8 @@ interface ShowcaseCartActions {
     selectedVariants?: Record<string, string>,
     variantAdjustments?: number,
     productImage?: string,
-    quantity?: number
+    quantity?: number,
+    variant?: { id: string; name: string }
   ) => void;
   removeFromCart: (itemId: string) => void;
   updateQuantity: (itemId: string, quantity: number) => void;
@@ -93,6 +133,19 @@ interface ShowcaseCartActions {
   
   // Customer info
   setCustomerInfo: (info: CustomerInfo) => void;
+
+  // Discounts
+  loadPromotions: (storeIdentifier: string) => Promise<void>;
+  applyDiscountCode: (storeIdentifier: string, code: string) => Promise<boolean>;
+  removeDiscountCode: () => void;
+
+  // Gift card
+  applyGiftCard: (storeIdentifier: string, code: string) => Promise<boolean>;
+  removeGiftCard: () => void;
+
+  // Online payment
+  loadPaymentOptions: (storeIdentifier: string) => Promise<void>;
+  startOnlinePayment: (orderCode: string) => Promise<boolean>;
   
   // Order creation
   createOrder: (storeIdentifier: string) => Promise<OrderResult | null>;
@@ -116,6 +169,13 @@ const initialState: ShowcaseCartState = {
   storeCurrency: 'USD',
   storeTaxRate: 0,
   customerInfo: null,
+  promotions: [],
+  codeDiscount: null,
+  isApplyingDiscountCode: false,
+  giftCard: null,
+  isApplyingGiftCard: false,
+  onlinePayments: false,
+  isStartingPayment: false,
   isLoading: false,
   isCreatingOrder: false,
 };
@@ -144,7 +204,8 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
           selectedVariants = {},
           variantAdjustments = 0,
           productImage = '',
-          quantity = 1
+          quantity = 1,
+          variant?: { id: string; name: string }
         ) => {
           const { generateCartItemId } = get();
           const itemId = generateCartItemId(productId, selectedVariants);
@@ -173,6 +234,8 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
               const newItem: CartItem = {
                 id: itemId,
                 productId,
+                variantId: variant?.id,
+                variantName: variant?.name,
                 productName,
                 productImage,
                 basePrice,
@@ -188,7 +251,7 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
             }
           }, false, 'addToCart');
           
-          toast.success(`${productName} added to cart`);
+          toast.success(`${variant ? `${productName} (${variant.name})` : productName} added to cart`);
         },
 
         // Remove item from cart
@@ -248,18 +311,182 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
           set({ customerInfo: info }, false, 'setCustomerInfo');
         },
 
+        // Load the automatic promotions this store offers online
+        loadPromotions: async (storeIdentifier: string) => {
+          try {
+            const { data, error } = await supabase.rpc('get_showcase_discounts', {
+              store_identifier: storeIdentifier,
+            });
+
+            if (error) throw error;
+
+            const result = data as unknown as { promotions: DiscountRule[] };
+            set({ promotions: result?.promotions || [] }, false, 'loadPromotions');
+          } catch (error) {
+            // Promotions are optional - the cart still works at full price
+            console.error('Error loading promotions:', error);
+          }
+        },
+
+        // Look up a discount code and keep it on the cart if it can apply
+        applyDiscountCode: async (storeIdentifier: string, code: string) => {
+          if (!code.trim()) return false;
+
+          set({ isApplyingDiscountCode: true }, false, 'applyDiscountCode:start');
+          try {
+            const { data, error } = await supabase.rpc('get_showcase_discounts', {
+              store_identifier: storeIdentifier,
+              discount_code_param: code.trim(),
+            });
+
+            if (error) throw error;
+
+            const result = data as unknown as { promotions: DiscountRule[]; code_discount: DiscountRule | null };
+            const discount = result?.code_discount;
+
+            if (!discount) {
+              toast.error(`Discount code ${code.trim().toUpperCase()} is not valid`);
+              return false;
+            }
+
+            const evaluation = evaluateDiscount(discount, get().items.map(item => ({
+              productId: item.productId,
+              categoryId: null,
+              quantity: item.quantity,
+              unitPrice: item.basePrice + item.variantAdjustments,
+            })), null);
+
+            if (!evaluation.eligible && !['min_purchase', 'no_eligible_items'].includes(evaluation.reason)) {
+              toast.error(describeIneligibleReason(evaluation.reason));
+              return false;
+            }
+
+            set({
+              codeDiscount: discount,
+              promotions: result.promotions || get().promotions,
+            }, false, 'applyDiscountCode:success');
+
+            if (evaluation.eligible) {
+              toast.success(`${discount.name} applied`);
+            } else {
+              toast.warning(describeIneligibleReason(evaluation.reason));
+            }
+            return true;
+          } catch (error) {
+            console.error('Error applying discount code:', error);
+            toast.error('Failed to apply discount code');
+            return false;
+          } finally {
+            set({ isApplyingDiscountCode: false }, false, 'applyDiscountCode:end');
+          }
+        },
+
+        removeDiscountCode: () => set({ codeDiscount: null }, false, 'removeDiscountCode'),
+
+        // Only checks the balance; create_public_order charges the card
+        applyGiftCard: async (storeIdentifier: string, code: string) => {
+          const normalized = normalizeGiftCardCode(code);
+          if (!normalized) return false;
+
+          set({ isApplyingGiftCard: true }, false, 'applyGiftCard:start');
+          try {
+            const { data, error } = await supabase.rpc('check_showcase_gift_card', {
+              store_identifier: storeIdentifier,
+              gift_card_code: normalized,
+            });
+
+            if (error) throw error;
+
+            const result = data as unknown as {
+              valid: boolean;
+              error?: string;
+              code?: string;
+              balance?: number;
+              expires_at?: string | null;
+            };
+
+            if (!result?.valid || !result.code) {
+              toast.error(result?.error || 'This gift card is not valid');
+              return false;
+            }
+
+            set({
+              giftCard: { code: result.code, balance: Number(result.balance), expiresAt: result.expires_at ?? null },
+            }, false, 'applyGiftCard:success');
+            toast.success('Gift card applied');
+            return true;
+          } catch (error) {
+            console.error('Error applying gift card:', error);
+            toast.error('Failed to check gift card');
+            return false;
+          } finally {
+            set({ isApplyingGiftCard: false }, false, 'applyGiftCard:end');
+          }
+        },
+
+        removeGiftCard: () => set({ giftCard: null }, false, 'removeGiftCard'),
+
+        // Whether this store takes payment online at checkout
+        loadPaymentOptions: async (storeIdentifier: string) => {
+          try {
+            const { data, error } = await supabase.rpc('get_showcase_payment_options', {
+              store_identifier: storeIdentifier,
+            });
+
+            if (error) throw error;
+
+            const options = data as unknown as { online_payments: boolean };
+            set({ onlinePayments: !!options?.online_payments }, false, 'loadPaymentOptions');
+          } catch (error) {
+            // Without online payment the order is still paid when the store confirms it
+            console.error('Error loading payment options:', error);
+            set({ onlinePayments: false }, false, 'loadPaymentOptions');
+          }
+        },
+
+        // Send the shopper to PayChangu to pay for a placed order
+        startOnlinePayment: async (orderCode: string) => {
+          set({ isStartingPayment: true }, false, 'startOnlinePayment:start');
+          try {
+            const { checkout_url } = await startShowcasePayment(orderCode);
+            window.location.assign(checkout_url);
+            return true;
+          } catch (error) {
+            console.error('Error starting payment:', error);
+            const message = (error as { message?: string })?.message;
+            toast.error(message || 'Could not start the payment. Please try again.');
+            return false;
+          } finally {
+            set({ isStartingPayment: false }, false, 'startOnlinePayment:end');
+          }
+        },
+
         // Get cart summary
         getCartSummary: () => {
-          const { items, storeTaxRate } = get();
+          const { items, storeTaxRate, promotions, codeDiscount } = get();
           
           const itemCount = items.reduce((sum, item) => sum + item.quantity, 0);
           const subtotal = items.reduce((sum, item) => sum + item.totalPrice, 0);
-          const taxAmount = subtotal * storeTaxRate;
-          const total = subtotal + taxAmount;
+          // Category promotions arrive expanded to product ids, so no category is needed here
+          const { applied, total: discountAmount } = resolveDiscounts(
+            items.map(item => ({
+              productId: item.productId,
+              categoryId: null,
+              quantity: item.quantity,
+              unitPrice: item.basePrice + item.variantAdjustments,
+            })),
+            promotions,
+            codeDiscount,
+            null
+          );
+          const taxAmount = (subtotal - discountAmount) * storeTaxRate;
+          const total = subtotal - discountAmount + taxAmount;
           
           return {
             itemCount,
             subtotal,
+            discountAmount,
+            discounts: applied,
             taxAmount,
             total
           };
@@ -273,7 +500,7 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
 
         // Create order
         createOrder: async (storeIdentifier: string, customerData?: { name: string; phone: string }) => {
-          const { items, getCartSummary } = get();
+          const { items, codeDiscount, giftCard } = get();
 
           if (items.length === 0) {
             toast.error('Cart is empty');
@@ -296,33 +523,57 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
             // Prepare order items for the RPC call
             const orderItems = items.map(item => ({
               product_id: item.productId,
-              quantity: item.quantity,
-              variants: item.selectedVariants
+              variant_id: item.variantId || null,
+              quantity: item.quantity
             }));
 
             // Call the RPC function to create the order
             const { data, error } = await supabase.rpc('create_public_order', {
               store_identifier: storeIdentifier,
               customer_data: customerData,
-              order_items: orderItems
+              order_items: orderItems,
+              discount_code_param: codeDiscount?.code || null,
+              gift_card_code_param: giftCard?.code || null
             });
 
             if (error) throw error;
-            
+
+            const order = data as unknown as {
+              order_id: string;
+              order_code: string;
+              subtotal: number;
+              discount_amount: number | null;
+              tax_amount: number;
+              total: number;
+              gift_card_amount: number | null;
+              amount_due: number | null;
+              status: string;
+              reserved_until?: string;
+              store_name: string;
+              store_phone?: string;
+              whatsapp_number?: string;
+            };
+
             const orderResult: OrderResult = {
-              orderId: data.order_id,
-              orderCode: data.order_code,
-              subtotal: data.subtotal,
-              taxAmount: data.tax_amount,
-              total: data.total,
-              status: data.status,
-              storeName: data.store_name,
-              storePhone: data.store_phone,
-              whatsappNumber: data.whatsapp_number
+              orderId: order.order_id,
+              orderCode: order.order_code,
+              subtotal: order.subtotal,
+              discountAmount: order.discount_amount || 0,
+              taxAmount: order.tax_amount,
+              total: order.total,
+              giftCardAmount: order.gift_card_amount || 0,
+              amountDue: order.amount_due ?? order.total,
+              status: order.status,
+              reservedUntil: order.reserved_until,
+              storeName: order.store_name,
+              storePhone: order.store_phone,
+              whatsappNumber: order.whatsapp_number
             };
             
             // Clear cart after successful order
             get().clearCart();
+            get().removeDiscountCode();
+            get().removeGiftCard();
             get().closeCart();
             
             toast.success(`Order ${orderResult.orderCode} created successfully!`);
@@ -331,7 +582,10 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
             
           } catch (error) {
             console.error('Error creating order:', error);
-            toast.error('Failed to create order. Please try again.');
+            // Stock running out or a code that stopped qualifying (expired, used up) comes back
+            // as the error message
+            const message = (error as { message?: string })?.message;
+            toast.error(message || 'Failed to create order. Please try again.');
             return null;
           } finally {
             set({ isCreatingOrder: false }, false, 'createOrder:end');
@@ -349,10 +603,14 @@ export const useShowcaseCartStore = create<ShowcaseCartStore>()(
             }).format(amount);
           };
           
+          const giftCardLines = orderResult.giftCardAmount > 0
+            ? `\nPaid by gift card: ${formatCurrency(orderResult.giftCardAmount)}\nAmount due: ${formatCurrency(orderResult.amountDue)}`
+            : '';
+
           return `Hi! I've placed an order on your showcase:
 
 Order Code: ${orderResult.orderCode}
-Total: ${formatCurrency(orderResult.total)}
+Total: ${formatCurrency(orderResult.total)}${giftCardLines}
 
 Please confirm my order. Thank you!`;
         },
@@ -0,0 +1,301 @@
+import { create } from 'zustand';
+import { devtools } from 'zustand/middleware';
+import { supabase } from '@/integrations/supabase/client';
+import { toast } from 'sonner';
+import { notifyPlanLimit } from '@/lib/planLimits';
+
+// Types
+export type StockTransferStatus = 'draft' | 'in_transit' | 'received' | 'cancelled';
+
+export type DiscrepancyResolution = 'returned' | 'written_off';
+
+export interface StockTransfer {
+  id: string;
+  transfer_number: string;
+  from_store_id: string;
+  to_store_id: string;
+  status: StockTransferStatus;
+  create_missing_products: boolean;
+  has_discrepancy: boolean;
+  notes: string | null;
+  receive_notes: string | null;
+  dispatched_at: string | null;
+  received_at: string | null;
+  cancelled_at: string | null;
+  created_at: string;
+}
+
+export interface StockTransferItem {
+  id: string;
+  transfer_id: string;
+  product_id: string | null;
+  variant_id: string | null;
+  product_name: string;
+  variant_name: string | null;
+  sku: string | null;
+  quantity: number;
+  quantity_received: number | null;
+  unit_cost: number | null;
+  // The matching product (or variant) in the destination store, if there is one yet
+  destination_product_id: string | null;
+  destination_variant_id: string | null;
+  discrepancy_resolution: DiscrepancyResolution | null;
+  discrepancy_reason: string | null;
+}
+
+export interface StockTransferDetails {
+  transfer: StockTransfer;
+  items: StockTransferItem[];
+}
+
+export interface StockTransferLineInput {
+  product_id: string;
+  variant_id?: string | null;
+  quantity: number;
+}
+
+export interface StockTransferInput {
+  id?: string;
+  toStoreId: string;
+  createMissingProducts: boolean;
+  notes?: string;
+  items: StockTransferLineInput[];
+}
+
+export interface ReceiveTransferLineInput {
+  item_id: string;
+  quantity_received: number;
+  resolution?: DiscrepancyResolution;
+  reason?: string;
+}
+
+interface StockTransferResult {
+  success: boolean;
+  error?: string;
+  transfer?: StockTransfer;
+}
+
+interface StockTransferState {
+  transfers: StockTransfer[];
+  loading: boolean;
+}
+
+interface StockTransferActions {
+  fetchTransfers: (storeId: string) => Promise<void>;
+  fetchTransfer: (transferId: string) => Promise<StockTransferDetails | null>;
+  saveTransfer: (storeId: string, input: StockTransferInput) => Promise<StockTransfer | null>;
+  dispatchTransfer: (transfer: StockTransfer) => Promise<boolean>;
+  receiveTransfer: (transfer: StockTransfer, items: ReceiveTransferLineInput[], notes?: string) => Promise<boolean>;
+  cancelTransfer: (transfer: StockTransfer) => Promise<boolean>;
+  reset: () => void;
+}
+
+type StockTransferStore = StockTransferState & StockTransferActions;
+
+const initialState: StockTransferState = {
+  transfers: [],
+  loading: false,
+};
+
+export const STOCK_TRANSFER_STATUS_LABELS: Record<StockTransferStatus, string> = {
+  draft: 'Draft',
+  in_transit: 'In Transit',
+  received: 'Received',
+  cancelled: 'Cancelled',
+};
+
+export const DISCREPANCY_RESOLUTION_LABELS: Record<DiscrepancyResolution, string> = {
+  returned: 'Returned to source',
+  written_off: 'Written off',
+};
+
+// Supabase returns RPC exceptions as PostgrestErrors, which carry the RAISE text
+const rpcErrorMessage = (error: unknown, fallback: string) =>
+  (error as { message?: string })?.message || fallback;
+
+export const useStockTransferStore = create<StockTransferStore>()(
+  devtools(
+    (set, get) => ({
+      ...initialState,
+
+      // Transfers going out of and coming into the store
+      fetchTransfers: async (storeId: string) => {
+        set({ loading: true }, false, 'fetchTransfers:start');
+        try {
+          const { data, error } = await supabase
+            .from('stock_transfers')
+            .select('*')
+            .or(`from_store_id.eq.${storeId},to_store_id.eq.${storeId}`)
+            .order('created_at', { ascending: false });
+
+          if (error) throw error;
+
+          set({ transfers: (data || []) as StockTransfer[] }, false, 'fetchTransfers:success');
+        } catch (error) {
+          console.error('Error fetching stock transfers:', error);
+          toast.error('Failed to load stock transfers');
+        } finally {
+          set({ loading: false }, false, 'fetchTransfers:end');
+        }
+      },
+
+      fetchTransfer: async (transferId: string) => {
+        try {
+          const [transferResult, itemsResult] = await Promise.all([
+            supabase.from('stock_transfers').select('*').eq('id', transferId).single(),
+            supabase
+              .from('stock_transfer_items')
+              .select('*')
+              .eq('transfer_id', transferId)
+              .order('created_at'),
+          ]);
+
+          if (transferResult.error) throw transferResult.error;
+          if (itemsResult.error) throw itemsResult.error;
+
+          return {
+            transfer: transferResult.data as StockTransfer,
+            items: (itemsResult.data || []) as StockTransferItem[],
+          };
+        } catch (error) {
+          console.error('Error fetching stock transfer:', error);
+          toast.error('Failed to load stock transfer');
+          return null;
+        }
+      },
+
+      saveTransfer: async (storeId: string, input: StockTransferInput) => {
+        try {
+          const { data, error } = await supabase.rpc('save_stock_transfer', {
+            _from_store_id: storeId,
+            _to_store_id: input.toStoreId,
+            _items: input.items.map(item => ({
+              product_id: item.product_id,
+              variant_id: item.variant_id || null,
+              quantity: item.quantity,
+            })),
+            _transfer_id: input.id,
+            _create_missing_products: input.createMissingProducts,
+            _notes: input.notes || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as StockTransferResult;
+          if (!result.success || !result.transfer) {
+            toast.error(result.error || 'Failed to save transfer');
+            return null;
+          }
+
+          toast.success(input.id ? 'Transfer updated' : `Transfer ${result.transfer.transfer_number} created`);
+          get().fetchTransfers(storeId);
+          return result.transfer;
+        } catch (error) {
+          console.error('Error saving stock transfer:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to save transfer'));
+          return null;
+        }
+      },
+
+      dispatchTransfer: async (transfer: StockTransfer) => {
+        try {
+          const { data, error } = await supabase.rpc('dispatch_stock_transfer', {
+            _transfer_id: transfer.id,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as StockTransferResult;
+          if (!result.success || !result.transfer) {
+            toast.error(result.error || 'Failed to dispatch transfer');
+            return false;
+          }
+
+          const updated = result.transfer;
+          set({
+            transfers: get().transfers.map(t => t.id === updated.id ? updated : t),
+          }, false, 'dispatchTransfer');
+          toast.success(`${transfer.transfer_number} dispatched`);
+          return true;
+        } catch (error) {
+          console.error('Error dispatching stock transfer:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to dispatch transfer'));
+          return false;
+        }
+      },
+
+      receiveTransfer: async (transfer: StockTransfer, items: ReceiveTransferLineInput[], notes?: string) => {
+        try {
+          const { data, error } = await supabase.rpc('receive_stock_transfer', {
+            _transfer_id: transfer.id,
+            _items: items.map(item => ({
+              item_id: item.item_id,
+              quantity_received: item.quantity_received,
+              resolution: item.resolution || null,
+              reason: item.reason || null,
+            })),
+            _notes: notes || undefined,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as StockTransferResult;
+          if (!result.success || !result.transfer) {
+            toast.error(result.error || 'Failed to receive transfer');
+            return false;
+          }
+
+          const updated = result.transfer;
+          set({
+            transfers: get().transfers.map(t => t.id === updated.id ? updated : t),
+          }, false, 'receiveTransfer');
+          toast.success(
+            updated.has_discrepancy
+              ? `${transfer.transfer_number} received with discrepancies`
+              : `${transfer.transfer_number} received`
+          );
+          return true;
+        } catch (error) {
+          console.error('Error receiving stock transfer:', error);
+          // Creating missing products counts against the plan's product limit
+          if (!notifyPlanLimit(error)) {
+            toast.error(rpcErrorMessage(error, 'Failed to receive transfer'));
+          }
+          return false;
+        }
+      },
+
+      cancelTransfer: async (transfer: StockTransfer) => {
+        try {
+          const { data, error } = await supabase.rpc('cancel_stock_transfer', {
+            _transfer_id: transfer.id,
+          });
+
+          if (error) throw error;
+
+          const result = data as unknown as StockTransferResult;
+          if (!result.success || !result.transfer) {
+            toast.error(result.error || 'Failed to cancel transfer');
+            return false;
+          }
+
+          const updated = result.transfer;
+          set({
+            transfers: get().transfers.map(t => t.id === updated.id ? updated : t),
+          }, false, 'cancelTransfer');
+          toast.success(`${transfer.transfer_number} cancelled`);
+          return true;
+        } catch (error) {
+          console.error('Error cancelling stock transfer:', error);
+          toast.error(rpcErrorMessage(error, 'Failed to cancel transfer'));
+          return false;
+        }
+      },
+
+      reset: () => set(initialState, false, 'reset'),
+    }),
+    { name: 'stock-transfer-store' }
+  )
+);
+
+export const useStockTransfers = () => useStockTransferStore((state) => state.transfers);
@@ -85,7 +85,6 @@ interface TransactionActions {
   
   // Transaction actions
   voidTransaction: (transactionId: string, reason: string) => Promise<void>;
-  refundTransaction: (transactionId: string, amount: number, reason: string) => Promise<void>;
   updateTransactionNotes: (transactionId: string, notes: string) => Promise<void>;
   
   // Analytics actions
@@ -303,52 +302,6 @@ export const useTransactionStore = create<TransactionStore>()(
           }
         },
 
-        refundTransaction: async (transactionId: string, amount: number, reason: string) => {
-          try {
-            // Create a refund transaction
-            const { selectedTransaction } = get();
-            if (!selectedTransaction) return;
-
-            const { error } = await supabase
-              .from('transactions')
-              .insert({
-                transaction_type: 'refund',
-                amount: -Math.abs(amount), // Negative amount for refund
-                payment_method: selectedTransaction.payment_method,
-                reference_id: selectedTransaction.id,
-                reference_type: 'refund',
-                customer_id: selectedTransaction.customer_id,
-                customer_name: selectedTransaction.customer_name,
-                description: `Refund for transaction ${selectedTransaction.transaction_number}: ${reason}`,
-                notes: reason,
-                store_id: selectedTransaction.store_id, // Assuming this exists
-              });
-
-            if (error) {
-              toast.error('Failed to process refund');
-              return;
-            }
-
-            // Log the refund action
-            await supabase
-              .from('transaction_history')
-              .insert({
-                transaction_id: transactionId,
-                action: 'refunded',
-                description: `Partial refund of ${amount}: ${reason}`,
-                performed_by: 'current_user',
-              });
-
-            toast.success('Refund processed successfully');
-
-            // Refresh transaction history
-            get().fetchTransactionHistory(transactionId);
-          } catch (error) {
-            console.error('Error processing refund:', error);
-            toast.error('Failed to process refund');
-          }
-        },
-
         updateTransactionNotes: async (transactionId: string, notes: string) => {
           try {
             const { error } = await supabase
@@ -0,0 +1,338 @@
+-- Migration: Offline Sale Replay
+-- Description: Let the POS replay sales captured offline through checkout. Replays are
+-- priced and checked like any other sale, and are idempotent on a key the till generates
+-- when it queues the sale
+-- Date: 2025-08-01
+
+DROP FUNCTION IF EXISTS public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL);
+
+-- client_reference: the offline queue's key for the sale. Replays may arrive twice if
+-- the response to the first attempt was lost, and order numbers are not unique enough
+-- to tell them apart.
+-- offline_sold_at: when the till says it rang the sale up. Informational only; the
+-- order is dated when it reaches the server.
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS client_reference UUID,
+ADD COLUMN IF NOT EXISTS offline_sold_at TIMESTAMPTZ;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_store_client_reference
+ON public.orders(store_id, client_reference)
+WHERE client_reference IS NOT NULL;
+
+CREATE OR REPLACE FUNCTION public.checkout(
+  _store_id UUID,
+  _order_number TEXT,
+  _items JSONB,
+  _payment_method TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  _discount_code TEXT DEFAULT NULL,
+  _tax_amount DECIMAL(10,2) DEFAULT 0,
+  _sold_at TIMESTAMPTZ DEFAULT NULL,
+  _client_reference UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _line RECORD;
+  _product RECORD;
+  _customer_name TEXT;
+  _errors JSONB := '[]'::jsonb;
+  _receipt_items JSONB := '[]'::jsonb;
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _order_id UUID;
+  _order_created_at TIMESTAMPTZ;
+  _transaction_number TEXT;
+  _existing RECORD;
+BEGIN
+  IF _cashier_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- This sale was recorded by an earlier attempt whose response never reached the till
+  SELECT o.id, o.order_number, o.created_at, o.subtotal, o.discount_amount, o.discount_code,
+         o.tax_amount, o.total, o.payment_method
+  INTO _existing
+  FROM public.orders o
+  WHERE o.store_id = _store_id
+    AND o.client_reference = _client_reference;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'duplicate', true,
+      'order', jsonb_build_object(
+        'id', _existing.id,
+        'order_number', _existing.order_number,
+        'created_at', _existing.created_at,
+        'transaction_number', NULL,
+        'subtotal', _existing.subtotal,
+        'discount_amount', COALESCE(_existing.discount_amount, 0),
+        'discount_code', _existing.discount_code,
+        'tax_amount', COALESCE(_existing.tax_amount, 0),
+        'total', _existing.total,
+        'payment_method', _existing.payment_method,
+        'items', '[]'::jsonb
+      )
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Cart is empty'
+      ))
+    );
+  END IF;
+
+  -- Lock every product in the cart in a stable order so concurrent tills
+  -- selling the same products serialize instead of deadlocking
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  -- Validate each cart line against the locked rows
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.price, p.stock_quantity, p.is_active
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+    ELSIF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _product.name || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _product.name || ' must be at least 1'
+      );
+    ELSIF _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _product.name || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSIF _line.unit_price IS NOT NULL AND _line.unit_price <> _product.price THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'price_changed',
+        'requested', _line.quantity,
+        'expected_price', _line.unit_price,
+        'current_price', _product.price,
+        'message', _product.name || ': price changed from ' || _line.unit_price || ' to ' || _product.price
+      );
+    ELSE
+      _subtotal := _subtotal + _product.price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name
+    INTO _customer_name
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'customer_not_found',
+        'message', 'Selected customer does not belong to this store'
+      );
+    END IF;
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  _total := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) + COALESCE(_tax_amount, 0));
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method,
+    client_reference,
+    offline_sold_at
+  ) VALUES (
+    _store_id,
+    _customer_id,
+    _cashier_id,
+    _order_number,
+    _subtotal,
+    COALESCE(_discount_amount, 0),
+    NULLIF(_discount_code, ''),
+    COALESCE(_tax_amount, 0),
+    _total,
+    'completed',
+    _payment_method,
+    _client_reference,
+    _sold_at
+  ) RETURNING id, created_at INTO _order_id, _order_created_at;
+
+  -- Write items, decrement stock and record the adjustment for each line
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.stock_quantity, p.price
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id;
+
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    UPDATE public.products
+    SET stock_quantity = stock_quantity - _line.quantity,
+        updated_at = now()
+    WHERE id = _product.id;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store_id,
+      _product.id,
+      _cashier_id,
+      'sale',
+      -_line.quantity,
+      _product.stock_quantity,
+      _product.stock_quantity - _line.quantity,
+      'Sale - Order ' || _order_number,
+      _order_id
+    );
+
+    _receipt_items := _receipt_items || jsonb_build_object(
+      'id', _product.id,
+      'name', _product.name,
+      'sku', _product.sku,
+      'quantity', _line.quantity,
+      'unit_price', _product.price,
+      'total_price', _product.price * _line.quantity
+    );
+  END LOOP;
+
+  SELECT generate_transaction_number(_store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    processed_by
+  ) VALUES (
+    _store_id,
+    _transaction_number,
+    'sale',
+    _total,
+    _payment_method,
+    _order_id,
+    'order',
+    _customer_id,
+    _customer_name,
+    'Sale - Order ' || _order_number,
+    _cashier_id
+  );
+
+  IF _customer_id IS NOT NULL THEN
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _total,
+        updated_at = now()
+    WHERE id = _customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', jsonb_build_object(
+      'id', _order_id,
+      'order_number', _order_number,
+      'created_at', _order_created_at,
+      'transaction_number', _transaction_number,
+      'subtotal', _subtotal,
+      'discount_amount', COALESCE(_discount_amount, 0),
+      'discount_code', NULLIF(_discount_code, ''),
+      'tax_amount', COALESCE(_tax_amount, 0),
+      'total', _total,
+      'payment_method', _payment_method,
+      'items', _receipt_items
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID) TO authenticated;
@@ -0,0 +1,935 @@
+-- Migration: Discount Engine
+-- Description: Evaluate discounts and automatic promotions server-side, apply them in
+-- POS checkout and showcase orders, and record every redemption in discount_usage
+-- Date: 2025-08-01
+
+-- Showcase orders are redeemed too, so usage can point at either kind of order
+ALTER TABLE public.discount_usage
+ALTER COLUMN order_id DROP NOT NULL;
+
+ALTER TABLE public.discount_usage
+ADD COLUMN IF NOT EXISTS public_order_id UUID REFERENCES public.public_orders(id) ON DELETE CASCADE;
+
+ALTER TABLE public.discount_usage
+DROP CONSTRAINT IF EXISTS discount_usage_order_reference_check;
+
+ALTER TABLE public.discount_usage
+ADD CONSTRAINT discount_usage_order_reference_check
+CHECK (order_id IS NOT NULL OR public_order_id IS NOT NULL);
+
+CREATE INDEX IF NOT EXISTS idx_discount_usage_discount ON public.discount_usage(discount_id, used_at);
+
+ALTER TABLE public.public_orders
+ADD COLUMN IF NOT EXISTS discount_amount DECIMAL(10,2) DEFAULT 0,
+ADD COLUMN IF NOT EXISTS discount_code TEXT;
+
+-- Codes are matched case-insensitively and must be unique within a store
+CREATE UNIQUE INDEX IF NOT EXISTS idx_discounts_store_code
+ON public.discounts(store_id, upper(code))
+WHERE code IS NOT NULL;
+
+-- Evaluate one discount against a cart. Lines are [{product_id, quantity, unit_price}].
+-- Mirrors evaluateDiscount in src/lib/discountEngine.ts:
+--   * applies_to 'all' is order-level - a fixed amount comes off the order once
+--   * applies_to 'products' / 'categories' is per-line - a fixed amount comes off every
+--     matching unit, capped at the line total
+CREATE OR REPLACE FUNCTION public.evaluate_discount(
+  _discount_id UUID,
+  _lines JSONB,
+  _customer_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _discount RECORD;
+  _customer RECORD;
+  _cart_subtotal DECIMAL(10,2);
+  _eligible_subtotal DECIMAL(10,2);
+  _amount DECIMAL(10,2);
+BEGIN
+  SELECT d.* INTO _discount
+  FROM public.discounts d
+  WHERE d.id = _discount_id;
+
+  IF NOT FOUND OR NOT _discount.is_active THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'inactive', 'message', 'This discount is not active');
+  END IF;
+
+  IF _discount.start_date IS NOT NULL AND _discount.start_date > now() THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'not_started', 'message', 'This discount has not started yet');
+  END IF;
+
+  IF _discount.end_date IS NOT NULL AND _discount.end_date < now() THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'expired', 'message', 'This discount has expired');
+  END IF;
+
+  IF _discount.usage_limit IS NOT NULL AND _discount.usage_count >= _discount.usage_limit THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'usage_limit', 'message', 'This discount has reached its usage limit');
+  END IF;
+
+  IF COALESCE(_discount.customer_eligibility, 'all') <> 'all' THEN
+    SELECT c.status, COALESCE(c.total_orders, 0) AS total_orders
+    INTO _customer
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _discount.store_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('eligible', false, 'reason', 'customer_required', 'message', 'Select a customer to use this discount');
+    END IF;
+
+    IF NOT (
+      (_discount.customer_eligibility = 'new_customers' AND _customer.total_orders = 0) OR
+      (_discount.customer_eligibility = 'returning_customers' AND _customer.total_orders > 0) OR
+      (_discount.customer_eligibility = 'vip' AND _customer.status = 'vip')
+    ) THEN
+      RETURN jsonb_build_object('eligible', false, 'reason', 'customer_not_eligible', 'message', 'This customer is not eligible for this discount');
+    END IF;
+  END IF;
+
+  WITH lines AS (
+    SELECT
+      p.id AS product_id,
+      p.category_id,
+      (value->>'quantity')::INTEGER AS quantity,
+      COALESCE((value->>'unit_price')::DECIMAL(10,2), p.price) AS unit_price
+    FROM jsonb_array_elements(_lines)
+    JOIN public.products p ON p.id = (value->>'product_id')::UUID
+  ),
+  matching AS (
+    SELECT *
+    FROM lines
+    WHERE _discount.applies_to = 'all'
+       OR (_discount.applies_to = 'products' AND product_id = ANY(COALESCE(_discount.product_ids, '{}')))
+       OR (_discount.applies_to = 'categories' AND category_id = ANY(COALESCE(_discount.category_ids, '{}')))
+  )
+  SELECT
+    (SELECT COALESCE(SUM(unit_price * quantity), 0) FROM lines),
+    (SELECT COALESCE(SUM(unit_price * quantity), 0) FROM matching),
+    CASE
+      WHEN _discount.type = 'percentage' THEN
+        (SELECT COALESCE(SUM(unit_price * quantity), 0) FROM matching) * _discount.value / 100
+      WHEN _discount.applies_to = 'all' THEN
+        _discount.value
+      ELSE
+        (SELECT COALESCE(SUM(LEAST(_discount.value * quantity, unit_price * quantity)), 0) FROM matching)
+    END
+  INTO _cart_subtotal, _eligible_subtotal, _amount;
+
+  IF _discount.min_purchase_amount IS NOT NULL AND _cart_subtotal < _discount.min_purchase_amount THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'min_purchase', 'message', 'The cart does not meet the minimum purchase for this discount');
+  END IF;
+
+  IF _eligible_subtotal <= 0 THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'no_eligible_items', 'message', 'No items in the cart qualify for this discount');
+  END IF;
+
+  IF _discount.max_discount_amount IS NOT NULL AND _discount.max_discount_amount > 0 THEN
+    _amount := LEAST(_amount, _discount.max_discount_amount);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'eligible', true,
+    'amount', ROUND(LEAST(_amount, _eligible_subtotal), 2)
+  );
+END;
+$$;
+
+-- Only called from checkout and create_public_order, which check store access themselves
+REVOKE EXECUTE ON FUNCTION public.evaluate_discount(UUID, JSONB, UUID) FROM PUBLIC;
+
+DROP FUNCTION IF EXISTS public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID);
+
+CREATE OR REPLACE FUNCTION public.checkout(
+  _store_id UUID,
+  _order_number TEXT,
+  _items JSONB,
+  _payment_method TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  _discount_code TEXT DEFAULT NULL,
+  _tax_amount DECIMAL(10,2) DEFAULT 0,
+  _sold_at TIMESTAMPTZ DEFAULT NULL,
+  _client_reference UUID DEFAULT NULL,
+  _discounts JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _line RECORD;
+  _product RECORD;
+  _customer_name TEXT;
+  _errors JSONB := '[]'::jsonb;
+  _receipt_items JSONB := '[]'::jsonb;
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _order_id UUID;
+  _order_created_at TIMESTAMPTZ;
+  _transaction_number TEXT;
+  _existing RECORD;
+  _discount_line RECORD;
+  _discount RECORD;
+  _evaluation JSONB;
+  _discount_share DECIMAL(10,2);
+  _promotion_amount DECIMAL(10,2) := 0;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _order_discount_code TEXT := NULLIF(_discount_code, '');
+BEGIN
+  IF _cashier_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- This sale was recorded by an earlier attempt whose response never reached the till
+  SELECT o.id, o.order_number, o.created_at, o.subtotal, o.discount_amount, o.discount_code,
+         o.tax_amount, o.total, o.payment_method
+  INTO _existing
+  FROM public.orders o
+  WHERE o.store_id = _store_id
+    AND o.client_reference = _client_reference;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'duplicate', true,
+      'order', jsonb_build_object(
+        'id', _existing.id,
+        'order_number', _existing.order_number,
+        'created_at', _existing.created_at,
+        'transaction_number', NULL,
+        'subtotal', _existing.subtotal,
+        'discount_amount', COALESCE(_existing.discount_amount, 0),
+        'discount_code', _existing.discount_code,
+        'tax_amount', COALESCE(_existing.tax_amount, 0),
+        'total', _existing.total,
+        'payment_method', _existing.payment_method,
+        'discounts', '[]'::jsonb,
+        'items', '[]'::jsonb
+      )
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Cart is empty'
+      ))
+    );
+  END IF;
+
+  -- Lock every product in the cart in a stable order so concurrent tills
+  -- selling the same products serialize instead of deadlocking
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  -- Validate each cart line against the locked rows
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.price, p.stock_quantity, p.is_active
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+    ELSIF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _product.name || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _product.name || ' must be at least 1'
+      );
+    ELSIF _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _product.name || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSIF _line.unit_price IS NOT NULL AND _line.unit_price <> _product.price THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'price_changed',
+        'requested', _line.quantity,
+        'expected_price', _line.unit_price,
+        'current_price', _product.price,
+        'message', _product.name || ': price changed from ' || _line.unit_price || ' to ' || _product.price
+      );
+    ELSE
+      _subtotal := _subtotal + _product.price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name
+    INTO _customer_name
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'customer_not_found',
+        'message', 'Selected customer does not belong to this store'
+      );
+    END IF;
+  END IF;
+
+  -- Re-evaluate the cart's discounts against the locked rows rather than trusting the
+  -- client's amounts
+  IF _discounts IS NOT NULL AND jsonb_typeof(_discounts) = 'array' THEN
+    FOR _discount_line IN
+      SELECT
+        (value->>'discount_id')::UUID AS discount_id,
+        (value->>'amount')::DECIMAL(10,2) AS amount
+      FROM jsonb_array_elements(_discounts)
+    LOOP
+      SELECT d.id, d.name, d.code
+      INTO _discount
+      FROM public.discounts d
+      WHERE d.id = _discount_line.discount_id
+        AND d.store_id = _store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount_line.discount_id,
+          'code', 'discount_invalid',
+          'message', 'Discount no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _evaluation := public.evaluate_discount(_discount.id, _items, _customer_id);
+
+      IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount.id,
+          'code', 'discount_invalid',
+          'message', _discount.name || ': ' || (_evaluation->>'message')
+        );
+        CONTINUE;
+      END IF;
+
+      _discount_share := (_evaluation->>'amount')::DECIMAL(10,2);
+
+      -- Combined discounts never take more than the cart is worth
+      _discount_share := LEAST(_discount_share, GREATEST(0, _subtotal - _promotion_amount));
+      _promotion_amount := _promotion_amount + _discount_share;
+
+      _applied_discounts := _applied_discounts || jsonb_build_object(
+        'discount_id', _discount.id,
+        'name', _discount.name,
+        'code', _discount.code,
+        'amount', _discount_share
+      );
+
+      IF _discount.code IS NOT NULL THEN
+        _order_discount_code := _discount.code;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  _total := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount + COALESCE(_tax_amount, 0));
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method,
+    client_reference,
+    offline_sold_at
+  ) VALUES (
+    _store_id,
+    _customer_id,
+    _cashier_id,
+    _order_number,
+    _subtotal,
+    COALESCE(_discount_amount, 0) + _promotion_amount,
+    _order_discount_code,
+    COALESCE(_tax_amount, 0),
+    _total,
+    'completed',
+    _payment_method,
+    _client_reference,
+    _sold_at
+  ) RETURNING id, created_at INTO _order_id, _order_created_at;
+
+  -- Write items, decrement stock and record the adjustment for each line
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.stock_quantity, p.price
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id;
+
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    UPDATE public.products
+    SET stock_quantity = stock_quantity - _line.quantity,
+        updated_at = now()
+    WHERE id = _product.id;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store_id,
+      _product.id,
+      _cashier_id,
+      'sale',
+      -_line.quantity,
+      _product.stock_quantity,
+      _product.stock_quantity - _line.quantity,
+      'Sale - Order ' || _order_number,
+      _order_id
+    );
+
+    _receipt_items := _receipt_items || jsonb_build_object(
+      'id', _product.id,
+      'name', _product.name,
+      'sku', _product.sku,
+      'quantity', _line.quantity,
+      'unit_price', _product.price,
+      'total_price', _product.price * _line.quantity
+    );
+  END LOOP;
+
+  -- Record each redemption and count it against the discount's usage limit
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    INSERT INTO public.discount_usage (
+      discount_id,
+      order_id,
+      customer_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _customer_id,
+      _discount_line.amount
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  SELECT generate_transaction_number(_store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    processed_by
+  ) VALUES (
+    _store_id,
+    _transaction_number,
+    'sale',
+    _total,
+    _payment_method,
+    _order_id,
+    'order',
+    _customer_id,
+    _customer_name,
+    'Sale - Order ' || _order_number,
+    _cashier_id
+  );
+
+  IF _customer_id IS NOT NULL THEN
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _total,
+        updated_at = now()
+    WHERE id = _customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', jsonb_build_object(
+      'id', _order_id,
+      'order_number', _order_number,
+      'created_at', _order_created_at,
+      'transaction_number', _transaction_number,
+      'subtotal', _subtotal,
+      'discount_amount', COALESCE(_discount_amount, 0) + _promotion_amount,
+      'discount_code', _order_discount_code,
+      'discounts', _applied_discounts,
+      'tax_amount', COALESCE(_tax_amount, 0),
+      'total', _total,
+      'payment_method', _payment_method,
+      'items', _receipt_items
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB) TO authenticated;
+
+-- Discounts a showcase visitor can use. Showcase shoppers are anonymous, so only
+-- discounts open to every customer are offered. Category discounts are expanded to
+-- product ids because the showcase cart does not know product categories.
+CREATE OR REPLACE FUNCTION public.get_showcase_discounts(
+  store_identifier TEXT,
+  discount_code_param TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store_id UUID;
+  _promotions JSONB;
+  _code_discount JSONB;
+BEGIN
+  SELECT s.id INTO _store_id
+  FROM public.stores s
+  WHERE (s.id::text = store_identifier
+         OR s.store_code = store_identifier
+         OR s.showcase_slug = store_identifier)
+    AND s.enable_public_showcase = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found or showcase not enabled';
+  END IF;
+
+  WITH public_discounts AS (
+    SELECT
+      d.id,
+      d.name,
+      d.code,
+      d.type,
+      d.value,
+      CASE WHEN d.applies_to = 'categories' THEN 'products' ELSE d.applies_to END AS applies_to,
+      CASE
+        WHEN d.applies_to = 'categories' THEN (
+          SELECT COALESCE(array_agg(p.id), '{}')
+          FROM public.products p
+          WHERE p.store_id = d.store_id
+            AND p.category_id = ANY(COALESCE(d.category_ids, '{}'))
+        )
+        ELSE d.product_ids
+      END AS product_ids,
+      NULL::UUID[] AS category_ids,
+      d.customer_eligibility,
+      d.min_purchase_amount,
+      d.max_discount_amount,
+      d.usage_limit,
+      d.usage_count,
+      d.start_date,
+      d.end_date,
+      d.is_active
+    FROM public.discounts d
+    WHERE d.store_id = _store_id
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+  )
+  SELECT
+    (
+      SELECT COALESCE(jsonb_agg(to_jsonb(pd)), '[]'::jsonb)
+      FROM public_discounts pd
+      WHERE pd.code IS NULL
+        AND pd.is_active
+        AND (pd.start_date IS NULL OR pd.start_date <= now())
+        AND (pd.end_date IS NULL OR pd.end_date >= now())
+        AND (pd.usage_limit IS NULL OR pd.usage_count < pd.usage_limit)
+    ),
+    (
+      SELECT to_jsonb(pd)
+      FROM public_discounts pd
+      WHERE NULLIF(trim(discount_code_param), '') IS NOT NULL
+        AND upper(pd.code) = upper(trim(discount_code_param))
+      LIMIT 1
+    )
+  INTO _promotions, _code_discount;
+
+  RETURN jsonb_build_object(
+    'promotions', _promotions,
+    'code_discount', _code_discount
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_showcase_discounts(TEXT, TEXT) TO anon, authenticated;
+
+-- Showcase orders now take a discount code and apply the best automatic promotion
+DROP FUNCTION IF EXISTS public.create_public_order(TEXT, JSONB, JSONB[]);
+
+CREATE OR REPLACE FUNCTION public.create_public_order(
+  store_identifier TEXT,
+  customer_data JSONB,
+  order_items JSONB[],
+  discount_code_param TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store RECORD;
+  _order_id UUID;
+  _order_code TEXT;
+  _item JSONB;
+  _product RECORD;
+  _variant RECORD;
+  _quantity INTEGER;
+  _item_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _lines JSONB := '[]'::jsonb;
+  _promotion RECORD;
+  _evaluation JSONB;
+  _best_promotion JSONB;
+  _code_discount RECORD;
+  _applied_code TEXT;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _discount_line RECORD;
+  _discount_share DECIMAL(10,2);
+  _discount_amount DECIMAL(10,2) := 0;
+  _tax_amount DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+BEGIN
+  SELECT s.* INTO _store
+  FROM public.stores s
+  WHERE (s.id::text = store_identifier
+         OR s.store_code = store_identifier
+         OR s.showcase_slug = store_identifier)
+    AND s.enable_public_showcase = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found or showcase not enabled';
+  END IF;
+
+  _order_code := generate_order_code(_store.id);
+
+  INSERT INTO public.public_orders (
+    store_id,
+    order_code,
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    total,
+    status
+  ) VALUES (
+    _store.id,
+    _order_code,
+    customer_data->>'name',
+    customer_data->>'phone',
+    0, -- Will be updated below
+    0, -- Will be updated below
+    0, -- Will be updated below
+    'pending'
+  ) RETURNING id INTO _order_id;
+
+  FOREACH _item IN ARRAY order_items LOOP
+    SELECT p.* INTO _product
+    FROM public.products p
+    WHERE p.id = (_item->>'product_id')::UUID
+      AND p.store_id = _store.id
+      AND p.is_public = true
+      AND p.is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found or not available: %', _item->>'product_id';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    -- Base price plus variant adjustments
+    _item_total := _product.price * _quantity;
+
+    IF _item ? 'variants' AND jsonb_typeof(_item->'variants') = 'object' THEN
+      FOR _variant IN
+        SELECT pv.price_adjustment
+        FROM public.product_variants pv
+        WHERE pv.product_id = _product.id
+          AND pv.is_active = true
+          AND (
+            (pv.variant_type = 'color' AND pv.variant_value = _item->'variants'->>'color') OR
+            (pv.variant_type = 'size' AND pv.variant_value = _item->'variants'->>'size') OR
+            (pv.variant_type = 'style' AND pv.variant_value = _item->'variants'->>'style')
+          )
+      LOOP
+        _item_total := _item_total + (_variant.price_adjustment * _quantity);
+      END LOOP;
+    END IF;
+
+    INSERT INTO public.public_order_items (
+      order_id,
+      product_id,
+      product_name,
+      product_image_url,
+      quantity,
+      unit_price,
+      total_price,
+      selected_variants
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _product.name,
+      _product.image_url,
+      _quantity,
+      _item_total / _quantity,
+      _item_total,
+      COALESCE(_item->'variants', '{}'::jsonb)
+    );
+
+    _subtotal := _subtotal + _item_total;
+    _lines := _lines || jsonb_build_object(
+      'product_id', _product.id,
+      'quantity', _quantity,
+      'unit_price', _item_total / _quantity
+    );
+  END LOOP;
+
+  -- Best automatic promotion open to anonymous shoppers
+  FOR _promotion IN
+    SELECT d.id, d.name
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND d.code IS NULL
+      AND d.is_active
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+  LOOP
+    _evaluation := public.evaluate_discount(_promotion.id, _lines, NULL);
+
+    IF (_evaluation->>'eligible')::BOOLEAN
+       AND (_best_promotion IS NULL OR (_evaluation->>'amount')::DECIMAL > (_best_promotion->>'amount')::DECIMAL) THEN
+      _best_promotion := jsonb_build_object(
+        'discount_id', _promotion.id,
+        'name', _promotion.name,
+        'code', NULL,
+        'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+      );
+    END IF;
+  END LOOP;
+
+  IF _best_promotion IS NOT NULL THEN
+    _applied_discounts := _applied_discounts || _best_promotion;
+  END IF;
+
+  IF NULLIF(trim(discount_code_param), '') IS NOT NULL THEN
+    SELECT d.id, d.name, d.code
+    INTO _code_discount
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND upper(d.code) = upper(trim(discount_code_param))
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Discount code % is not valid', trim(discount_code_param);
+    END IF;
+
+    _evaluation := public.evaluate_discount(_code_discount.id, _lines, NULL);
+
+    IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+      RAISE EXCEPTION '%', _evaluation->>'message';
+    END IF;
+
+    _applied_code := _code_discount.code;
+    _applied_discounts := _applied_discounts || jsonb_build_object(
+      'discount_id', _code_discount.id,
+      'name', _code_discount.name,
+      'code', _code_discount.code,
+      'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+    );
+  END IF;
+
+  -- Record redemptions, never taking more off than the cart is worth
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    _discount_share := LEAST(_discount_line.amount, GREATEST(0, _subtotal - _discount_amount));
+    _discount_amount := _discount_amount + _discount_share;
+
+    INSERT INTO public.discount_usage (
+      discount_id,
+      public_order_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _discount_share
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  _tax_amount := (_subtotal - _discount_amount) * COALESCE(_store.tax_rate, 0);
+  _total := _subtotal - _discount_amount + _tax_amount;
+
+  UPDATE public.public_orders
+  SET subtotal = _subtotal,
+      discount_amount = _discount_amount,
+      discount_code = _applied_code,
+      tax_amount = _tax_amount,
+      total = _total,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'order_id', _order_id,
+    'order_code', _order_code,
+    'subtotal', _subtotal,
+    'discount_amount', _discount_amount,
+    'discount_code', _applied_code,
+    'discounts', _applied_discounts,
+    'tax_amount', _tax_amount,
+    'total', _total,
+    'status', 'pending',
+    'store_name', _store.name,
+    'store_phone', _store.phone,
+    'whatsapp_number', _store.whatsapp_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_public_order(TEXT, JSONB, JSONB[], TEXT) TO anon, authenticated;
+
+-- Redemptions per discount for the discounts report
+CREATE OR REPLACE FUNCTION public.get_discount_redemptions(
+  _store_id UUID,
+  _start_date TIMESTAMPTZ DEFAULT NULL,
+  _end_date TIMESTAMPTZ DEFAULT NULL
+)
+RETURNS TABLE (
+  discount_id UUID,
+  name TEXT,
+  code TEXT,
+  type TEXT,
+  value DECIMAL,
+  redemptions BIGINT,
+  pos_redemptions BIGINT,
+  showcase_redemptions BIGINT,
+  unique_customers BIGINT,
+  total_discount DECIMAL,
+  last_used_at TIMESTAMPTZ
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  RETURN QUERY
+  SELECT
+    d.id,
+    d.name::TEXT,
+    d.code::TEXT,
+    d.type::TEXT,
+    d.value::DECIMAL,
+    COUNT(du.id),
+    COUNT(du.order_id),
+    COUNT(du.public_order_id),
+    COUNT(DISTINCT du.customer_id),
+    COALESCE(SUM(du.discount_amount), 0)::DECIMAL,
+    MAX(du.used_at)
+  FROM public.discounts d
+  JOIN public.discount_usage du ON du.discount_id = d.id
+  WHERE d.store_id = _store_id
+    AND (_start_date IS NULL OR du.used_at >= _start_date)
+    AND (_end_date IS NULL OR du.used_at <= _end_date)
+  GROUP BY d.id, d.name, d.code, d.type, d.value
+  ORDER BY COALESCE(SUM(du.discount_amount), 0) DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_discount_redemptions(UUID, TIMESTAMPTZ, TIMESTAMPTZ) TO authenticated;
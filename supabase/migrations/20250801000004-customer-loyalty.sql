@@ -0,0 +1,808 @@
+-- Migration: Customer Loyalty
+-- Description: Points earned per currency unit spent, redemption at POS checkout, tiers
+-- derived from customers.total_spent, a per-customer points ledger and tier-gated discounts
+-- Date: 2025-08-01
+
+-- Earn and redemption rates live next to the existing customer_loyalty_enabled switch
+ALTER TABLE public.store_settings
+ADD COLUMN IF NOT EXISTS loyalty_points_per_unit DECIMAL(10,4) DEFAULT 1.0000,
+ADD COLUMN IF NOT EXISTS loyalty_point_value DECIMAL(10,4) DEFAULT 0.0100,
+ADD COLUMN IF NOT EXISTS loyalty_min_redeem_points INTEGER DEFAULT 0;
+
+-- Current balance; loyalty_transactions is the source of truth
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS loyalty_points INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS loyalty_points_redeemed INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS loyalty_discount_amount DECIMAL(10,2) NOT NULL DEFAULT 0.00;
+
+-- Tiers are reached by lifetime spend; discounts.loyalty_tier_required holds a tier name
+CREATE TABLE IF NOT EXISTS public.loyalty_tiers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  min_spent DECIMAL(10,2) NOT NULL DEFAULT 0.00 CHECK (min_spent >= 0),
+  points_multiplier DECIMAL(5,2) NOT NULL DEFAULT 1.00 CHECK (points_multiplier > 0),
+  color TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(store_id, name)
+);
+
+CREATE TABLE IF NOT EXISTS public.loyalty_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  customer_id UUID NOT NULL REFERENCES public.customers(id) ON DELETE CASCADE,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('earn', 'redeem', 'earn_reversal', 'redeem_reversal', 'adjustment')),
+  points INTEGER NOT NULL,
+  balance_after INTEGER NOT NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_tiers_store_id ON public.loyalty_tiers(store_id, min_spent);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_customer ON public.loyalty_transactions(customer_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_loyalty_transactions_order ON public.loyalty_transactions(order_id);
+
+ALTER TABLE public.loyalty_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.loyalty_transactions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store access for loyalty_tiers" ON public.loyalty_tiers
+  FOR ALL USING (public.user_can_access_store(store_id));
+
+-- Ledger rows are only written by checkout and reverse_order_loyalty
+CREATE POLICY "Store access for loyalty_transactions" ON public.loyalty_transactions
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- The highest tier a lifetime spend has reached, or no row when the store has no tiers
+CREATE OR REPLACE FUNCTION public.get_loyalty_tier(_store_id UUID, _total_spent DECIMAL)
+RETURNS SETOF public.loyalty_tiers
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT t.*
+  FROM public.loyalty_tiers t
+  WHERE t.store_id = _store_id
+    AND t.min_spent <= COALESCE(_total_spent, 0)
+  ORDER BY t.min_spent DESC
+  LIMIT 1;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_loyalty_tier(UUID, DECIMAL) FROM PUBLIC;
+
+
+-- Re-create evaluate_discount so tier-gated discounts need a customer who has reached the
+-- required tier. Lines are [{product_id, quantity, unit_price}].
+-- Mirrors evaluateDiscount in src/lib/discountEngine.ts:
+--   * applies_to 'all' is order-level - a fixed amount comes off the order once
+--   * applies_to 'products' / 'categories' is per-line - a fixed amount comes off every
+--     matching unit, capped at the line total
+CREATE OR REPLACE FUNCTION public.evaluate_discount(
+  _discount_id UUID,
+  _lines JSONB,
+  _customer_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _discount RECORD;
+  _customer RECORD;
+  _required_tier RECORD;
+  _cart_subtotal DECIMAL(10,2);
+  _eligible_subtotal DECIMAL(10,2);
+  _amount DECIMAL(10,2);
+BEGIN
+  SELECT d.* INTO _discount
+  FROM public.discounts d
+  WHERE d.id = _discount_id;
+
+  IF NOT FOUND OR NOT _discount.is_active THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'inactive', 'message', 'This discount is not active');
+  END IF;
+
+  IF _discount.start_date IS NOT NULL AND _discount.start_date > now() THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'not_started', 'message', 'This discount has not started yet');
+  END IF;
+
+  IF _discount.end_date IS NOT NULL AND _discount.end_date < now() THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'expired', 'message', 'This discount has expired');
+  END IF;
+
+  IF _discount.usage_limit IS NOT NULL AND _discount.usage_count >= _discount.usage_limit THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'usage_limit', 'message', 'This discount has reached its usage limit');
+  END IF;
+
+  IF COALESCE(_discount.customer_eligibility, 'all') <> 'all' OR _discount.loyalty_tier_required IS NOT NULL THEN
+    SELECT c.status, COALESCE(c.total_orders, 0) AS total_orders, COALESCE(c.total_spent, 0) AS total_spent
+    INTO _customer
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _discount.store_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('eligible', false, 'reason', 'customer_required', 'message', 'Select a customer to use this discount');
+    END IF;
+
+    IF COALESCE(_discount.customer_eligibility, 'all') <> 'all' AND NOT (
+      (_discount.customer_eligibility = 'new_customers' AND _customer.total_orders = 0) OR
+      (_discount.customer_eligibility = 'returning_customers' AND _customer.total_orders > 0) OR
+      (_discount.customer_eligibility = 'vip' AND _customer.status = 'vip')
+    ) THEN
+      RETURN jsonb_build_object('eligible', false, 'reason', 'customer_not_eligible', 'message', 'This customer is not eligible for this discount');
+    END IF;
+
+    IF _discount.loyalty_tier_required IS NOT NULL THEN
+      SELECT t.name, t.min_spent
+      INTO _required_tier
+      FROM public.loyalty_tiers t
+      WHERE t.store_id = _discount.store_id
+        AND t.name = _discount.loyalty_tier_required;
+
+      IF NOT FOUND OR _customer.total_spent < _required_tier.min_spent THEN
+        RETURN jsonb_build_object('eligible', false, 'reason', 'loyalty_tier', 'message', 'This discount is for ' || _discount.loyalty_tier_required || ' members and above');
+      END IF;
+    END IF;
+  END IF;
+
+  WITH lines AS (
+    SELECT
+      p.id AS product_id,
+      p.category_id,
+      (value->>'quantity')::INTEGER AS quantity,
+      COALESCE((value->>'unit_price')::DECIMAL(10,2), p.price) AS unit_price
+    FROM jsonb_array_elements(_lines)
+    JOIN public.products p ON p.id = (value->>'product_id')::UUID
+  ),
+  matching AS (
+    SELECT *
+    FROM lines
+    WHERE _discount.applies_to = 'all'
+       OR (_discount.applies_to = 'products' AND product_id = ANY(COALESCE(_discount.product_ids, '{}')))
+       OR (_discount.applies_to = 'categories' AND category_id = ANY(COALESCE(_discount.category_ids, '{}')))
+  )
+  SELECT
+    (SELECT COALESCE(SUM(unit_price * quantity), 0) FROM lines),
+    (SELECT COALESCE(SUM(unit_price * quantity), 0) FROM matching),
+    CASE
+      WHEN _discount.type = 'percentage' THEN
+        (SELECT COALESCE(SUM(unit_price * quantity), 0) FROM matching) * _discount.value / 100
+      WHEN _discount.applies_to = 'all' THEN
+        _discount.value
+      ELSE
+        (SELECT COALESCE(SUM(LEAST(_discount.value * quantity, unit_price * quantity)), 0) FROM matching)
+    END
+  INTO _cart_subtotal, _eligible_subtotal, _amount;
+
+  IF _discount.min_purchase_amount IS NOT NULL AND _cart_subtotal < _discount.min_purchase_amount THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'min_purchase', 'message', 'The cart does not meet the minimum purchase for this discount');
+  END IF;
+
+  IF _eligible_subtotal <= 0 THEN
+    RETURN jsonb_build_object('eligible', false, 'reason', 'no_eligible_items', 'message', 'No items in the cart qualify for this discount');
+  END IF;
+
+  IF _discount.max_discount_amount IS NOT NULL AND _discount.max_discount_amount > 0 THEN
+    _amount := LEAST(_amount, _discount.max_discount_amount);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'eligible', true,
+    'amount', ROUND(LEAST(_amount, _eligible_subtotal), 2)
+  );
+END;
+$$;
+
+-- Checkout redeems points as a discount and earns points on what the customer paid
+DROP FUNCTION IF EXISTS public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB);
+
+CREATE OR REPLACE FUNCTION public.checkout(
+  _store_id UUID,
+  _order_number TEXT,
+  _items JSONB,
+  _payment_method TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  _discount_code TEXT DEFAULT NULL,
+  _tax_amount DECIMAL(10,2) DEFAULT 0,
+  _sold_at TIMESTAMPTZ DEFAULT NULL,
+  _client_reference UUID DEFAULT NULL,
+  _discounts JSONB DEFAULT '[]'::jsonb,
+  _loyalty_points INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _line RECORD;
+  _product RECORD;
+  _customer_name TEXT;
+  _customer_points INTEGER := 0;
+  _customer_spent DECIMAL(10,2) := 0;
+  _errors JSONB := '[]'::jsonb;
+  _receipt_items JSONB := '[]'::jsonb;
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _order_id UUID;
+  _order_created_at TIMESTAMPTZ;
+  _transaction_number TEXT;
+  _existing RECORD;
+  _discount_line RECORD;
+  _discount RECORD;
+  _evaluation JSONB;
+  _discount_share DECIMAL(10,2);
+  _promotion_amount DECIMAL(10,2) := 0;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _order_discount_code TEXT := NULLIF(_discount_code, '');
+  _settings RECORD;
+  _tier RECORD;
+  _loyalty_enabled BOOLEAN := false;
+  _loyalty_discount DECIMAL(10,2) := 0;
+  _points_earned INTEGER := 0;
+  _points_balance INTEGER;
+BEGIN
+  IF _cashier_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- This sale was recorded by an earlier attempt whose response never reached the till
+  SELECT o.id, o.order_number, o.created_at, o.subtotal, o.discount_amount, o.discount_code,
+         o.tax_amount, o.total, o.payment_method, o.loyalty_points_redeemed, o.loyalty_discount_amount
+  INTO _existing
+  FROM public.orders o
+  WHERE o.store_id = _store_id
+    AND o.client_reference = _client_reference;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'duplicate', true,
+      'order', jsonb_build_object(
+        'id', _existing.id,
+        'order_number', _existing.order_number,
+        'created_at', _existing.created_at,
+        'transaction_number', NULL,
+        'subtotal', _existing.subtotal,
+        'discount_amount', COALESCE(_existing.discount_amount, 0),
+        'discount_code', _existing.discount_code,
+        'tax_amount', COALESCE(_existing.tax_amount, 0),
+        'total', _existing.total,
+        'payment_method', _existing.payment_method,
+        'discounts', '[]'::jsonb,
+        'loyalty_points_redeemed', _existing.loyalty_points_redeemed,
+        'loyalty_discount_amount', _existing.loyalty_discount_amount,
+        'loyalty_points_earned', (
+          SELECT COALESCE(SUM(lt.points), 0)
+          FROM public.loyalty_transactions lt
+          WHERE lt.order_id = _existing.id
+            AND lt.transaction_type = 'earn'
+        ),
+        'items', '[]'::jsonb
+      )
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Cart is empty'
+      ))
+    );
+  END IF;
+
+  -- Lock every product in the cart in a stable order so concurrent tills
+  -- selling the same products serialize instead of deadlocking
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  -- Validate each cart line against the locked rows
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.price, p.stock_quantity, p.is_active
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+    ELSIF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _product.name || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _product.name || ' must be at least 1'
+      );
+    ELSIF _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _product.name || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSIF _line.unit_price IS NOT NULL AND _line.unit_price <> _product.price THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'price_changed',
+        'requested', _line.quantity,
+        'expected_price', _line.unit_price,
+        'current_price', _product.price,
+        'message', _product.name || ': price changed from ' || _line.unit_price || ' to ' || _product.price
+      );
+    ELSE
+      _subtotal := _subtotal + _product.price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name, c.loyalty_points, COALESCE(c.total_spent, 0)
+    INTO _customer_name, _customer_points, _customer_spent
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'customer_not_found',
+        'message', 'Selected customer does not belong to this store'
+      );
+    END IF;
+  END IF;
+
+  -- Re-evaluate the cart's discounts against the locked rows rather than trusting the
+  -- client's amounts
+  IF _discounts IS NOT NULL AND jsonb_typeof(_discounts) = 'array' THEN
+    FOR _discount_line IN
+      SELECT
+        (value->>'discount_id')::UUID AS discount_id,
+        (value->>'amount')::DECIMAL(10,2) AS amount
+      FROM jsonb_array_elements(_discounts)
+    LOOP
+      SELECT d.id, d.name, d.code
+      INTO _discount
+      FROM public.discounts d
+      WHERE d.id = _discount_line.discount_id
+        AND d.store_id = _store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount_line.discount_id,
+          'code', 'discount_invalid',
+          'message', 'Discount no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _evaluation := public.evaluate_discount(_discount.id, _items, _customer_id);
+
+      IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount.id,
+          'code', 'discount_invalid',
+          'message', _discount.name || ': ' || (_evaluation->>'message')
+        );
+        CONTINUE;
+      END IF;
+
+      _discount_share := (_evaluation->>'amount')::DECIMAL(10,2);
+
+      -- Combined discounts never take more than the cart is worth
+      _discount_share := LEAST(_discount_share, GREATEST(0, _subtotal - _promotion_amount));
+      _promotion_amount := _promotion_amount + _discount_share;
+
+      _applied_discounts := _applied_discounts || jsonb_build_object(
+        'discount_id', _discount.id,
+        'name', _discount.name,
+        'code', _discount.code,
+        'amount', _discount_share
+      );
+
+      IF _discount.code IS NOT NULL THEN
+        _order_discount_code := _discount.code;
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT s.customer_loyalty_enabled, s.loyalty_points_per_unit, s.loyalty_point_value, s.loyalty_min_redeem_points
+  INTO _settings
+  FROM public.store_settings s
+  WHERE s.store_id = _store_id;
+
+  _loyalty_enabled := FOUND AND COALESCE(_settings.customer_loyalty_enabled, false);
+
+  -- Redeemed points are tender: they pay for the order after discounts and tax
+  IF COALESCE(_loyalty_points, 0) > 0 THEN
+    IF NOT _loyalty_enabled THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Loyalty points are not enabled for this store'
+      );
+    ELSIF _customer_id IS NULL THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Select a customer to redeem loyalty points'
+      );
+    ELSIF _customer_points < _loyalty_points THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'available', _customer_points,
+        'message', _customer_name || ' only has ' || _customer_points || ' points'
+      );
+    ELSIF _loyalty_points < COALESCE(_settings.loyalty_min_redeem_points, 0) THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'message', 'At least ' || _settings.loyalty_min_redeem_points || ' points must be redeemed at a time'
+      );
+    ELSE
+      _loyalty_discount := LEAST(
+        ROUND(_loyalty_points * COALESCE(_settings.loyalty_point_value, 0), 2),
+        GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount + COALESCE(_tax_amount, 0))
+      );
+    END IF;
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  _total := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount - _loyalty_discount + COALESCE(_tax_amount, 0));
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method,
+    loyalty_points_redeemed,
+    loyalty_discount_amount,
+    client_reference,
+    offline_sold_at
+  ) VALUES (
+    _store_id,
+    _customer_id,
+    _cashier_id,
+    _order_number,
+    _subtotal,
+    COALESCE(_discount_amount, 0) + _promotion_amount,
+    _order_discount_code,
+    COALESCE(_tax_amount, 0),
+    _total,
+    'completed',
+    _payment_method,
+    COALESCE(_loyalty_points, 0),
+    _loyalty_discount,
+    _client_reference,
+    _sold_at
+  ) RETURNING id, created_at INTO _order_id, _order_created_at;
+
+  -- Write items, decrement stock and record the adjustment for each line
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.stock_quantity, p.price
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id;
+
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    UPDATE public.products
+    SET stock_quantity = stock_quantity - _line.quantity,
+        updated_at = now()
+    WHERE id = _product.id;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store_id,
+      _product.id,
+      _cashier_id,
+      'sale',
+      -_line.quantity,
+      _product.stock_quantity,
+      _product.stock_quantity - _line.quantity,
+      'Sale - Order ' || _order_number,
+      _order_id
+    );
+
+    _receipt_items := _receipt_items || jsonb_build_object(
+      'id', _product.id,
+      'name', _product.name,
+      'sku', _product.sku,
+      'quantity', _line.quantity,
+      'unit_price', _product.price,
+      'total_price', _product.price * _line.quantity
+    );
+  END LOOP;
+
+  -- Record each redemption and count it against the discount's usage limit
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    INSERT INTO public.discount_usage (
+      discount_id,
+      order_id,
+      customer_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _customer_id,
+      _discount_line.amount
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  SELECT generate_transaction_number(_store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    processed_by
+  ) VALUES (
+    _store_id,
+    _transaction_number,
+    'sale',
+    _total,
+    _payment_method,
+    _order_id,
+    'order',
+    _customer_id,
+    _customer_name,
+    'Sale - Order ' || _order_number,
+    _cashier_id
+  );
+
+  IF _customer_id IS NOT NULL THEN
+    _points_balance := _customer_points;
+
+    IF COALESCE(_loyalty_points, 0) > 0 THEN
+      _points_balance := _points_balance - _loyalty_points;
+
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+      ) VALUES (
+        _store_id, _customer_id, _order_id, 'redeem', -_loyalty_points, _points_balance,
+        'Redeemed - Order ' || _order_number, _cashier_id
+      );
+    END IF;
+
+    -- Earn on what was paid, at the multiplier of the tier reached before this sale
+    IF _loyalty_enabled THEN
+      SELECT * INTO _tier FROM public.get_loyalty_tier(_store_id, _customer_spent);
+
+      _points_earned := FLOOR(
+        _total * COALESCE(_settings.loyalty_points_per_unit, 0) * COALESCE(_tier.points_multiplier, 1)
+      )::INTEGER;
+
+      IF _points_earned > 0 THEN
+        _points_balance := _points_balance + _points_earned;
+
+        INSERT INTO public.loyalty_transactions (
+          store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+        ) VALUES (
+          _store_id, _customer_id, _order_id, 'earn', _points_earned, _points_balance,
+          'Earned - Order ' || _order_number, _cashier_id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _total,
+        loyalty_points = _points_balance,
+        updated_at = now()
+    WHERE id = _customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', jsonb_build_object(
+      'id', _order_id,
+      'order_number', _order_number,
+      'created_at', _order_created_at,
+      'transaction_number', _transaction_number,
+      'subtotal', _subtotal,
+      'discount_amount', COALESCE(_discount_amount, 0) + _promotion_amount,
+      'discount_code', _order_discount_code,
+      'discounts', _applied_discounts,
+      'loyalty_points_redeemed', COALESCE(_loyalty_points, 0),
+      'loyalty_discount_amount', _loyalty_discount,
+      'loyalty_points_earned', _points_earned,
+      'loyalty_points_balance', _points_balance,
+      'tax_amount', COALESCE(_tax_amount, 0),
+      'total', _total,
+      'payment_method', _payment_method,
+      'items', _receipt_items
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER) TO authenticated;
+
+
+-- Take back the points an order earned and return the points it redeemed. A partial
+-- refund reverses the same share of the order; repeated refunds never reverse more
+-- than the order earned or redeemed in total. Only process_order_return calls it, once it has
+-- checked access to the order.
+CREATE OR REPLACE FUNCTION public.reverse_order_loyalty(
+  _order_id UUID,
+  _refund_amount DECIMAL(10,2) DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _ratio DECIMAL;
+  _earned INTEGER;
+  _earn_reversed INTEGER;
+  _redeemed INTEGER;
+  _redeem_reversed INTEGER;
+  _points_removed INTEGER := 0;
+  _points_restored INTEGER := 0;
+  _balance INTEGER;
+BEGIN
+  SELECT o.id, o.store_id, o.customer_id, o.order_number, o.total
+  INTO _order
+  FROM public.orders o
+  WHERE o.id = _order_id;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_order.store_id) THEN
+    RAISE EXCEPTION 'Access denied to order %', _order_id;
+  END IF;
+
+  IF _order.customer_id IS NULL THEN
+    RETURN jsonb_build_object('success', true, 'points_removed', 0, 'points_restored', 0);
+  END IF;
+
+  SELECT c.loyalty_points INTO _balance
+  FROM public.customers c
+  WHERE c.id = _order.customer_id
+  FOR UPDATE;
+
+  SELECT
+    COALESCE(SUM(points) FILTER (WHERE transaction_type = 'earn'), 0),
+    COALESCE(-SUM(points) FILTER (WHERE transaction_type = 'earn_reversal'), 0),
+    COALESCE(-SUM(points) FILTER (WHERE transaction_type = 'redeem'), 0),
+    COALESCE(SUM(points) FILTER (WHERE transaction_type = 'redeem_reversal'), 0)
+  INTO _earned, _earn_reversed, _redeemed, _redeem_reversed
+  FROM public.loyalty_transactions
+  WHERE order_id = _order_id;
+
+  IF _refund_amount IS NULL OR COALESCE(_order.total, 0) <= 0 THEN
+    _ratio := 1;
+  ELSE
+    _ratio := LEAST(1, GREATEST(0, _refund_amount / _order.total));
+  END IF;
+
+  _points_removed := LEAST(_earned - _earn_reversed, ROUND(_earned * _ratio)::INTEGER);
+  _points_restored := LEAST(_redeemed - _redeem_reversed, ROUND(_redeemed * _ratio)::INTEGER);
+
+  IF _points_removed > 0 THEN
+    _balance := _balance - _points_removed;
+
+    INSERT INTO public.loyalty_transactions (
+      store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+    ) VALUES (
+      _order.store_id, _order.customer_id, _order_id, 'earn_reversal', -_points_removed, _balance,
+      'Refund - Order ' || _order.order_number, auth.uid()
+    );
+  END IF;
+
+  IF _points_restored > 0 THEN
+    _balance := _balance + _points_restored;
+
+    INSERT INTO public.loyalty_transactions (
+      store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+    ) VALUES (
+      _order.store_id, _order.customer_id, _order_id, 'redeem_reversal', _points_restored, _balance,
+      'Refund - Order ' || _order.order_number, auth.uid()
+    );
+  END IF;
+
+  UPDATE public.customers
+  SET loyalty_points = _balance,
+      updated_at = now()
+  WHERE id = _order.customer_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'points_removed', GREATEST(_points_removed, 0),
+    'points_restored', GREATEST(_points_restored, 0),
+    'balance', _balance
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_order_loyalty(UUID, DECIMAL) FROM PUBLIC;
@@ -0,0 +1,47 @@
+-- Migration: Product Barcodes
+-- Description: Multiple barcodes per product (separate from the SKU) for POS scanning,
+-- and the default label size used when printing barcode label sheets
+-- Date: 2025-08-01
+
+CREATE TABLE IF NOT EXISTS public.product_barcodes (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  barcode TEXT NOT NULL CHECK (length(trim(barcode)) > 0),
+  -- Labels print the first barcode
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  -- A scan has to resolve to exactly one product
+  UNIQUE(store_id, barcode)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_barcodes_product_id ON public.product_barcodes(product_id, position);
+
+ALTER TABLE public.product_barcodes ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store access for product_barcodes" ON public.product_barcodes
+  FOR ALL USING (public.user_can_access_store(store_id));
+
+-- Keep store_id in step with the product so the unique constraint can't be sidestepped
+CREATE OR REPLACE FUNCTION public.set_product_barcode_store()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  SELECT p.store_id INTO NEW.store_id
+  FROM public.products p
+  WHERE p.id = NEW.product_id;
+
+  NEW.barcode := trim(NEW.barcode);
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_product_barcode_store ON public.product_barcodes;
+CREATE TRIGGER set_product_barcode_store
+BEFORE INSERT OR UPDATE ON public.product_barcodes
+FOR EACH ROW EXECUTE FUNCTION public.set_product_barcode_store();
+
+ALTER TABLE public.store_settings
+ADD COLUMN IF NOT EXISTS barcode_label_size TEXT DEFAULT 'medium';
@@ -0,0 +1,430 @@
+-- Migration: Cash Drawer Shifts
+-- Description: Till sessions opened with a counted float, paid-ins/paid-outs during the
+-- shift and a blind close-out count reconciled against cash transactions
+-- Date: 2025-08-01
+
+-- One drawer per store: at most one shift is open at a time
+CREATE TABLE IF NOT EXISTS public.cash_drawer_shifts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  shift_number TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'open' CHECK (status IN ('open', 'closed')),
+  opened_by UUID REFERENCES auth.users(id),
+  opened_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  opened_by_name TEXT,
+  opening_float DECIMAL(10,2) NOT NULL DEFAULT 0.00 CHECK (opening_float >= 0),
+  opened_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  closed_by UUID REFERENCES auth.users(id),
+  closed_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  closed_by_name TEXT,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  -- Totals are frozen when the shift closes so later edits can't change a Z-report
+  cash_sales DECIMAL(10,2),
+  cash_refunds DECIMAL(10,2),
+  paid_in DECIMAL(10,2),
+  paid_out DECIMAL(10,2),
+  expected_cash DECIMAL(10,2),
+  counted_cash DECIMAL(10,2) CHECK (counted_cash >= 0),
+  over_short DECIMAL(10,2),
+  notes TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(store_id, shift_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.cash_drawer_movements (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  shift_id UUID NOT NULL REFERENCES public.cash_drawer_shifts(id) ON DELETE CASCADE,
+  movement_type TEXT NOT NULL CHECK (movement_type IN ('paid_in', 'paid_out')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  reason TEXT NOT NULL CHECK (length(trim(reason)) > 0),
+  created_by UUID REFERENCES auth.users(id),
+  created_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  created_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_cash_drawer_shifts_one_open
+  ON public.cash_drawer_shifts(store_id) WHERE status = 'open';
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_shifts_store ON public.cash_drawer_shifts(store_id, opened_at DESC);
+CREATE INDEX IF NOT EXISTS idx_cash_drawer_movements_shift ON public.cash_drawer_movements(shift_id, created_at);
+
+ALTER TABLE public.cash_drawer_shifts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.cash_drawer_movements ENABLE ROW LEVEL SECURITY;
+
+-- Shifts and movements are only written through the functions below
+CREATE POLICY "Store access for cash_drawer_shifts" ON public.cash_drawer_shifts
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for cash_drawer_movements" ON public.cash_drawer_movements
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- The store member acting on the drawer: the PIN user when one is given, otherwise
+-- the signed-in user's membership. Owners without a membership row get their profile name.
+CREATE OR REPLACE FUNCTION public.resolve_drawer_member(_store_id UUID, _member_id UUID)
+RETURNS TABLE (member_id UUID, member_name TEXT)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF _member_id IS NOT NULL THEN
+    RETURN QUERY
+    SELECT sm.id, COALESCE(sm.name, sm.email, 'Staff')
+    FROM public.store_members sm
+    WHERE sm.id = _member_id
+      AND sm.store_id = _store_id
+      AND COALESCE(sm.is_active, true);
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Staff member % does not belong to store %', _member_id, _store_id;
+    END IF;
+    RETURN;
+  END IF;
+
+  RETURN QUERY
+  SELECT sm.id, COALESCE(sm.name, sm.email, 'Staff')
+  FROM public.store_members sm
+  WHERE sm.store_id = _store_id
+    AND sm.user_id = auth.uid()
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN QUERY
+    SELECT NULL::UUID, COALESCE(p.display_name, 'Owner')
+    FROM (SELECT 1) AS one
+    LEFT JOIN public.profiles p ON p.user_id = auth.uid();
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_drawer_member(UUID, UUID) FROM PUBLIC;
+
+-- Cash taken and paid back over a shift. Sales, layby deposits and layby payments
+-- put cash in the drawer; refunds are recorded with either sign so we use the magnitude.
+CREATE OR REPLACE FUNCTION public.calculate_cash_drawer_totals(_shift_id UUID)
+RETURNS TABLE (
+  cash_sales DECIMAL(10,2),
+  cash_refunds DECIMAL(10,2),
+  paid_in DECIMAL(10,2),
+  paid_out DECIMAL(10,2),
+  expected_cash DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _shift RECORD;
+  _sales DECIMAL(10,2);
+  _refunds DECIMAL(10,2);
+  _paid_in DECIMAL(10,2);
+  _paid_out DECIMAL(10,2);
+BEGIN
+  SELECT s.store_id, s.opening_float, s.opened_at, COALESCE(s.closed_at, now()) AS closes_at
+  INTO _shift
+  FROM public.cash_drawer_shifts s
+  WHERE s.id = _shift_id;
+
+  SELECT
+    COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type IN ('sale', 'layby_deposit', 'layby_payment')), 0),
+    COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type = 'refund'), 0)
+  INTO _sales, _refunds
+  FROM public.transactions t
+  WHERE t.store_id = _shift.store_id
+    AND lower(t.payment_method) = 'cash'
+    AND t.created_at >= _shift.opened_at
+    AND t.created_at < _shift.closes_at;
+
+  SELECT
+    COALESCE(SUM(m.amount) FILTER (WHERE m.movement_type = 'paid_in'), 0),
+    COALESCE(SUM(m.amount) FILTER (WHERE m.movement_type = 'paid_out'), 0)
+  INTO _paid_in, _paid_out
+  FROM public.cash_drawer_movements m
+  WHERE m.shift_id = _shift_id;
+
+  RETURN QUERY SELECT
+    _sales,
+    _refunds,
+    _paid_in,
+    _paid_out,
+    (_shift.opening_float + _sales - _refunds + _paid_in - _paid_out)::DECIMAL(10,2);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_cash_drawer_totals(UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.open_cash_drawer_shift(
+  _store_id UUID,
+  _opening_float DECIMAL(10,2),
+  _member_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _member RECORD;
+  _shift_number TEXT;
+  _shift public.cash_drawer_shifts;
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  IF _opening_float IS NULL OR _opening_float < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Opening float cannot be negative');
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.cash_drawer_shifts
+    WHERE store_id = _store_id AND status = 'open'
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A shift is already open for this drawer');
+  END IF;
+
+  SELECT * INTO _member FROM public.resolve_drawer_member(_store_id, _member_id);
+
+  SELECT 'SH-' || to_char(now(), 'YYYYMMDD') || '-' || lpad((COUNT(*) + 1)::TEXT, 3, '0')
+  INTO _shift_number
+  FROM public.cash_drawer_shifts
+  WHERE store_id = _store_id
+    AND opened_at >= date_trunc('day', now());
+
+  INSERT INTO public.cash_drawer_shifts (
+    store_id,
+    shift_number,
+    opened_by,
+    opened_by_member_id,
+    opened_by_name,
+    opening_float,
+    notes
+  ) VALUES (
+    _store_id,
+    _shift_number,
+    auth.uid(),
+    _member.member_id,
+    _member.member_name,
+    _opening_float,
+    NULLIF(trim(_notes), '')
+  )
+  RETURNING * INTO _shift;
+
+  RETURN jsonb_build_object('success', true, 'shift', to_jsonb(_shift));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.open_cash_drawer_shift(UUID, DECIMAL, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.record_cash_drawer_movement(
+  _shift_id UUID,
+  _movement_type TEXT,
+  _amount DECIMAL(10,2),
+  _reason TEXT,
+  _member_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _shift RECORD;
+  _member RECORD;
+  _movement public.cash_drawer_movements;
+BEGIN
+  SELECT s.id, s.store_id, s.status
+  INTO _shift
+  FROM public.cash_drawer_shifts s
+  WHERE s.id = _shift_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_shift.store_id) THEN
+    RAISE EXCEPTION 'Access denied to shift %', _shift_id;
+  END IF;
+
+  IF _shift.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This shift is already closed');
+  END IF;
+
+  IF _movement_type NOT IN ('paid_in', 'paid_out') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown movement type');
+  END IF;
+
+  IF _amount IS NULL OR _amount <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Amount must be greater than 0');
+  END IF;
+
+  IF _reason IS NULL OR length(trim(_reason)) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A reason is required');
+  END IF;
+
+  SELECT * INTO _member FROM public.resolve_drawer_member(_shift.store_id, _member_id);
+
+  INSERT INTO public.cash_drawer_movements (
+    store_id,
+    shift_id,
+    movement_type,
+    amount,
+    reason,
+    created_by,
+    created_by_member_id,
+    created_by_name
+  ) VALUES (
+    _shift.store_id,
+    _shift_id,
+    _movement_type,
+    _amount,
+    trim(_reason),
+    auth.uid(),
+    _member.member_id,
+    _member.member_name
+  )
+  RETURNING * INTO _movement;
+
+  RETURN jsonb_build_object('success', true, 'movement', to_jsonb(_movement));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_cash_drawer_movement(UUID, TEXT, DECIMAL, TEXT, UUID) TO authenticated;
+
+-- X-report for an open shift, Z-report for a closed one. Non-cash tenders are listed
+-- for reference but don't affect the drawer.
+CREATE OR REPLACE FUNCTION public.get_cash_drawer_report(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _shift public.cash_drawer_shifts;
+  _totals RECORD;
+  _payments JSONB;
+  _movements JSONB;
+BEGIN
+  SELECT * INTO _shift
+  FROM public.cash_drawer_shifts
+  WHERE id = _shift_id;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_shift.store_id) THEN
+    RAISE EXCEPTION 'Access denied to shift %', _shift_id;
+  END IF;
+
+  IF _shift.status = 'closed' THEN
+    SELECT _shift.cash_sales AS cash_sales,
+           _shift.cash_refunds AS cash_refunds,
+           _shift.paid_in AS paid_in,
+           _shift.paid_out AS paid_out,
+           _shift.expected_cash AS expected_cash
+    INTO _totals;
+  ELSE
+    SELECT * INTO _totals FROM public.calculate_cash_drawer_totals(_shift_id);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'payment_method', payment_method,
+      'name', name,
+      'sales_count', sales_count,
+      'sales_total', sales_total,
+      'refunds_total', refunds_total
+    ) ORDER BY sales_total DESC), '[]'::jsonb)
+  INTO _payments
+  FROM (
+    SELECT
+      t.payment_method,
+      COALESCE(pm.name, initcap(replace(t.payment_method, '_', ' '))) AS name,
+      COUNT(*) FILTER (WHERE t.transaction_type IN ('sale', 'layby_deposit', 'layby_payment')) AS sales_count,
+      COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type IN ('sale', 'layby_deposit', 'layby_payment')), 0) AS sales_total,
+      COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type = 'refund'), 0) AS refunds_total
+    FROM public.transactions t
+    LEFT JOIN public.payment_methods pm ON pm.id::TEXT = t.payment_method
+    WHERE t.store_id = _shift.store_id
+      AND t.created_at >= _shift.opened_at
+      AND t.created_at < COALESCE(_shift.closed_at, now())
+    GROUP BY t.payment_method, pm.name
+  ) AS tenders;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(m) ORDER BY m.created_at), '[]'::jsonb)
+  INTO _movements
+  FROM public.cash_drawer_movements m
+  WHERE m.shift_id = _shift_id;
+
+  RETURN jsonb_build_object(
+    'shift', to_jsonb(_shift),
+    'cash_sales', _totals.cash_sales,
+    'cash_refunds', _totals.cash_refunds,
+    'paid_in', _totals.paid_in,
+    'paid_out', _totals.paid_out,
+    'expected_cash', _totals.expected_cash,
+    'payments', _payments,
+    'movements', _movements,
+    'generated_at', now()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_cash_drawer_report(UUID) TO authenticated;
+
+-- The cashier counts the drawer without seeing the expected figure; over/short is
+-- only worked out here, after the count is in
+CREATE OR REPLACE FUNCTION public.close_cash_drawer_shift(
+  _shift_id UUID,
+  _counted_cash DECIMAL(10,2),
+  _member_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _shift RECORD;
+  _member RECORD;
+  _totals RECORD;
+BEGIN
+  SELECT s.id, s.store_id, s.status, s.notes
+  INTO _shift
+  FROM public.cash_drawer_shifts s
+  WHERE s.id = _shift_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_shift.store_id) THEN
+    RAISE EXCEPTION 'Access denied to shift %', _shift_id;
+  END IF;
+
+  IF _shift.status <> 'open' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This shift is already closed');
+  END IF;
+
+  IF _counted_cash IS NULL OR _counted_cash < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Counted cash cannot be negative');
+  END IF;
+
+  SELECT * INTO _member FROM public.resolve_drawer_member(_shift.store_id, _member_id);
+
+  -- Close first so the totals cover exactly the shift window
+  UPDATE public.cash_drawer_shifts
+  SET status = 'closed',
+      closed_at = now(),
+      closed_by = auth.uid(),
+      closed_by_member_id = _member.member_id,
+      closed_by_name = _member.member_name
+  WHERE id = _shift_id;
+
+  SELECT * INTO _totals FROM public.calculate_cash_drawer_totals(_shift_id);
+
+  UPDATE public.cash_drawer_shifts
+  SET cash_sales = _totals.cash_sales,
+      cash_refunds = _totals.cash_refunds,
+      paid_in = _totals.paid_in,
+      paid_out = _totals.paid_out,
+      expected_cash = _totals.expected_cash,
+      counted_cash = _counted_cash,
+      over_short = _counted_cash - _totals.expected_cash,
+      notes = COALESCE(NULLIF(trim(_notes), ''), _shift.notes)
+  WHERE id = _shift_id;
+
+  RETURN jsonb_build_object('success', true, 'report', public.get_cash_drawer_report(_shift_id));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.close_cash_drawer_shift(UUID, DECIMAL, UUID, TEXT) TO authenticated;
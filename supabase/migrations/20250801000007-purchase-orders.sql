@@ -0,0 +1,645 @@
+-- Migration: Purchase Orders
+-- Description: Supplier purchase orders with full or partial goods receiving that adds stock,
+-- records stock adjustments against the PO and updates product cost
+-- Date: 2025-08-01
+
+-- Supplier and product names are copied onto the PO so history survives deletes
+CREATE TABLE IF NOT EXISTS public.purchase_orders (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  po_number TEXT NOT NULL,
+  supplier_id UUID REFERENCES public.suppliers(id) ON DELETE SET NULL,
+  supplier_name TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'ordered', 'partially_received', 'received', 'closed', 'cancelled')),
+  order_date DATE,
+  expected_date DATE,
+  total_cost DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  received_cost DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  ordered_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  closed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(store_id, po_number)
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  sku TEXT,
+  quantity_ordered INTEGER NOT NULL CHECK (quantity_ordered > 0),
+  quantity_received INTEGER NOT NULL DEFAULT 0 CHECK (quantity_received >= 0),
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- One row per delivery, so a PO can be received over several days
+CREATE TABLE IF NOT EXISTS public.purchase_order_receipts (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  purchase_order_id UUID NOT NULL REFERENCES public.purchase_orders(id) ON DELETE CASCADE,
+  cost_method TEXT NOT NULL CHECK (cost_method IN ('last', 'weighted_average')),
+  total_cost DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+  notes TEXT,
+  received_by UUID REFERENCES auth.users(id),
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.purchase_order_receipt_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  receipt_id UUID NOT NULL REFERENCES public.purchase_order_receipts(id) ON DELETE CASCADE,
+  purchase_order_item_id UUID NOT NULL REFERENCES public.purchase_order_items(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_cost DECIMAL(10,2) NOT NULL CHECK (unit_cost >= 0),
+  previous_cost DECIMAL(10,2),
+  new_cost DECIMAL(10,2)
+);
+
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_store ON public.purchase_orders(store_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_purchase_orders_supplier ON public.purchase_orders(supplier_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_order ON public.purchase_order_items(purchase_order_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_items_product ON public.purchase_order_items(product_id);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipts_order ON public.purchase_order_receipts(purchase_order_id, received_at);
+CREATE INDEX IF NOT EXISTS idx_purchase_order_receipt_items_receipt ON public.purchase_order_receipt_items(receipt_id);
+
+ALTER TABLE public.purchase_orders ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_items ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_receipts ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.purchase_order_receipt_items ENABLE ROW LEVEL SECURITY;
+
+-- Purchase orders are only written through the functions below
+CREATE POLICY "Store access for purchase_orders" ON public.purchase_orders
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for purchase_order_items" ON public.purchase_order_items
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for purchase_order_receipts" ON public.purchase_order_receipts
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for purchase_order_receipt_items" ON public.purchase_order_receipt_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.purchase_order_receipts r
+      WHERE r.id = receipt_id
+        AND public.user_can_access_store(r.store_id)
+    )
+  );
+
+-- Create a draft PO, or replace the header and lines of an existing draft.
+-- _items: [{ "product_id": uuid, "quantity": int, "unit_cost": number }]
+CREATE OR REPLACE FUNCTION public.save_purchase_order(
+  _store_id UUID,
+  _supplier_id UUID,
+  _items JSONB,
+  _purchase_order_id UUID DEFAULT NULL,
+  _expected_date DATE DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _supplier_name TEXT;
+  _item JSONB;
+  _product RECORD;
+  _quantity INTEGER;
+  _unit_cost DECIMAL(10,2);
+  _po public.purchase_orders;
+  _po_number TEXT;
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  SELECT name INTO _supplier_name
+  FROM public.suppliers
+  WHERE id = _supplier_id AND store_id = _store_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Supplier not found');
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Add at least one product to the order');
+  END IF;
+
+  IF _purchase_order_id IS NULL THEN
+    -- Sequential per store; the unique constraint catches a concurrent duplicate
+    SELECT 'PO-' || lpad((COALESCE(MAX(substring(po_number FROM 4)::INTEGER), 0) + 1)::TEXT, 5, '0')
+    INTO _po_number
+    FROM public.purchase_orders
+    WHERE store_id = _store_id
+      AND po_number ~ '^PO-[0-9]+$';
+
+    INSERT INTO public.purchase_orders (
+      store_id,
+      po_number,
+      supplier_id,
+      supplier_name,
+      expected_date,
+      notes,
+      created_by
+    ) VALUES (
+      _store_id,
+      _po_number,
+      _supplier_id,
+      _supplier_name,
+      _expected_date,
+      NULLIF(trim(_notes), ''),
+      auth.uid()
+    )
+    RETURNING * INTO _po;
+  ELSE
+    SELECT * INTO _po
+    FROM public.purchase_orders
+    WHERE id = _purchase_order_id AND store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Purchase order not found');
+    END IF;
+
+    IF _po.status <> 'draft' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only draft purchase orders can be edited');
+    END IF;
+
+    UPDATE public.purchase_orders
+    SET supplier_id = _supplier_id,
+        supplier_name = _supplier_name,
+        expected_date = _expected_date,
+        notes = NULLIF(trim(_notes), ''),
+        updated_at = now()
+    WHERE id = _po.id;
+
+    DELETE FROM public.purchase_order_items WHERE purchase_order_id = _po.id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT id, name, sku INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID AND store_id = _store_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found in store %', _item->>'product_id', _store_id;
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    _unit_cost := COALESCE((_item->>'unit_cost')::DECIMAL, 0);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be greater than 0', _product.name;
+    END IF;
+
+    IF _unit_cost < 0 THEN
+      RAISE EXCEPTION 'Cost for % cannot be negative', _product.name;
+    END IF;
+
+    INSERT INTO public.purchase_order_items (
+      store_id,
+      purchase_order_id,
+      product_id,
+      product_name,
+      sku,
+      quantity_ordered,
+      unit_cost
+    ) VALUES (
+      _store_id,
+      _po.id,
+      _product.id,
+      _product.name,
+      _product.sku,
+      _quantity,
+      _unit_cost
+    );
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET total_cost = (
+    SELECT COALESCE(SUM(quantity_ordered * unit_cost), 0)
+    FROM public.purchase_order_items
+    WHERE purchase_order_id = _po.id
+  )
+  WHERE id = _po.id
+  RETURNING * INTO _po;
+
+  RETURN jsonb_build_object('success', true, 'purchase_order', to_jsonb(_po));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_purchase_order(UUID, UUID, JSONB, UUID, DATE, TEXT) TO authenticated;
+
+-- Moves a PO along: draft -> ordered when it is sent, ordered/draft -> cancelled before
+-- anything arrives, and partially received -> closed when the rest will never come.
+CREATE OR REPLACE FUNCTION public.update_purchase_order_status(
+  _purchase_order_id UUID,
+  _status TEXT
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _po public.purchase_orders;
+BEGIN
+  SELECT * INTO _po
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_po.store_id) THEN
+    RAISE EXCEPTION 'Access denied to purchase order %', _purchase_order_id;
+  END IF;
+
+  IF _status = 'ordered' AND _po.status = 'draft' THEN
+    UPDATE public.purchase_orders
+    SET status = 'ordered',
+        order_date = COALESCE(order_date, CURRENT_DATE),
+        ordered_at = now(),
+        updated_at = now()
+    WHERE id = _po.id
+    RETURNING * INTO _po;
+  ELSIF _status = 'cancelled' AND _po.status IN ('draft', 'ordered') THEN
+    UPDATE public.purchase_orders
+    SET status = 'cancelled',
+        closed_at = now(),
+        updated_at = now()
+    WHERE id = _po.id
+    RETURNING * INTO _po;
+  ELSIF _status = 'closed' AND _po.status = 'partially_received' THEN
+    UPDATE public.purchase_orders
+    SET status = 'closed',
+        closed_at = now(),
+        updated_at = now()
+    WHERE id = _po.id
+    RETURNING * INTO _po;
+  ELSE
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('A %s purchase order cannot be marked %s', replace(_po.status, '_', ' '), _status)
+    );
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'purchase_order', to_jsonb(_po));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_purchase_order_status(UUID, TEXT) TO authenticated;
+
+-- Book a delivery against a PO. Each line adds stock, writes a restock adjustment that
+-- references the PO and updates the product cost, either to the delivered cost ('last')
+-- or to the average of stock on hand and the delivery ('weighted_average').
+-- _items: [{ "item_id": uuid, "quantity": int, "unit_cost": number }]
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id UUID,
+  _items JSONB,
+  _cost_method TEXT DEFAULT 'last',
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _po public.purchase_orders;
+  _receipt public.purchase_order_receipts;
+  _item JSONB;
+  _line public.purchase_order_items;
+  _product RECORD;
+  _quantity INTEGER;
+  _unit_cost DECIMAL(10,2);
+  _on_hand INTEGER;
+  _new_cost DECIMAL(10,2);
+  _received_total DECIMAL(10,2) := 0;
+  _lines_received INTEGER := 0;
+BEGIN
+  SELECT * INTO _po
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_po.store_id) THEN
+    RAISE EXCEPTION 'Access denied to purchase order %', _purchase_order_id;
+  END IF;
+
+  IF _po.status NOT IN ('ordered', 'partially_received') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only ordered purchase orders can be received');
+  END IF;
+
+  IF _cost_method NOT IN ('last', 'weighted_average') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown cost method');
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter the quantities received');
+  END IF;
+
+  INSERT INTO public.purchase_order_receipts (
+    store_id,
+    purchase_order_id,
+    cost_method,
+    notes,
+    received_by
+  ) VALUES (
+    _po.store_id,
+    _po.id,
+    _cost_method,
+    NULLIF(trim(_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO _receipt;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := COALESCE((_item->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN _quantity = 0;
+
+    SELECT * INTO _line
+    FROM public.purchase_order_items
+    WHERE id = (_item->>'item_id')::UUID
+      AND purchase_order_id = _po.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on purchase order %', _item->>'item_id', _po.po_number;
+    END IF;
+
+    IF _quantity < 0 THEN
+      RAISE EXCEPTION 'Received quantity for % cannot be negative', _line.product_name;
+    END IF;
+
+    IF _line.quantity_received + _quantity > _line.quantity_ordered THEN
+      RAISE EXCEPTION 'Only % more of % are outstanding on this order',
+        _line.quantity_ordered - _line.quantity_received, _line.product_name;
+    END IF;
+
+    IF _line.product_id IS NULL THEN
+      RAISE EXCEPTION '% has been deleted and cannot be received', _line.product_name;
+    END IF;
+
+    _unit_cost := COALESCE((_item->>'unit_cost')::DECIMAL, _line.unit_cost);
+    IF _unit_cost < 0 THEN
+      RAISE EXCEPTION 'Cost for % cannot be negative', _line.product_name;
+    END IF;
+
+    SELECT id, stock_quantity, cost INTO _product
+    FROM public.products
+    WHERE id = _line.product_id
+    FOR UPDATE;
+
+    _on_hand := GREATEST(COALESCE(_product.stock_quantity, 0), 0);
+
+    IF _cost_method = 'weighted_average' AND _product.cost IS NOT NULL AND _on_hand > 0 THEN
+      _new_cost := round((_on_hand * _product.cost + _quantity * _unit_cost) / (_on_hand + _quantity), 2);
+    ELSE
+      _new_cost := _unit_cost;
+    END IF;
+
+    UPDATE public.products
+    SET stock_quantity = COALESCE(stock_quantity, 0) + _quantity,
+        cost = _new_cost,
+        updated_at = now()
+    WHERE id = _product.id;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _po.store_id,
+      _product.id,
+      auth.uid(),
+      'restock',
+      _quantity,
+      COALESCE(_product.stock_quantity, 0),
+      COALESCE(_product.stock_quantity, 0) + _quantity,
+      'Received on ' || _po.po_number,
+      _po.id
+    );
+
+    UPDATE public.purchase_order_items
+    SET quantity_received = quantity_received + _quantity
+    WHERE id = _line.id;
+
+    INSERT INTO public.purchase_order_receipt_items (
+      receipt_id,
+      purchase_order_item_id,
+      product_id,
+      quantity,
+      unit_cost,
+      previous_cost,
+      new_cost
+    ) VALUES (
+      _receipt.id,
+      _line.id,
+      _product.id,
+      _quantity,
+      _unit_cost,
+      _product.cost,
+      _new_cost
+    );
+
+    _received_total := _received_total + _quantity * _unit_cost;
+    _lines_received := _lines_received + 1;
+  END LOOP;
+
+  IF _lines_received = 0 THEN
+    RAISE EXCEPTION 'Enter the quantities received';
+  END IF;
+
+  UPDATE public.purchase_order_receipts
+  SET total_cost = _received_total
+  WHERE id = _receipt.id
+  RETURNING * INTO _receipt;
+
+  UPDATE public.purchase_orders
+  SET received_cost = received_cost + _received_total,
+      status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = _po.id
+            AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END,
+      received_at = now(),
+      updated_at = now()
+  WHERE id = _po.id
+  RETURNING * INTO _po;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_order', to_jsonb(_po),
+    'receipt', to_jsonb(_receipt)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB, TEXT, TEXT) TO authenticated;
+
+-- Per supplier: what was received in the period, plus what is still open today
+CREATE OR REPLACE FUNCTION public.get_supplier_spend(
+  _store_id UUID,
+  _from TIMESTAMP WITH TIME ZONE DEFAULT NULL,
+  _to TIMESTAMP WITH TIME ZONE DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  WITH received AS (
+    SELECT po.supplier_id,
+           po.supplier_name,
+           SUM(r.total_cost) AS received_value,
+           COUNT(r.id) AS deliveries
+    FROM public.purchase_order_receipts r
+    JOIN public.purchase_orders po ON po.id = r.purchase_order_id
+    WHERE r.store_id = _store_id
+      AND (_from IS NULL OR r.received_at >= _from)
+      AND (_to IS NULL OR r.received_at <= _to)
+    GROUP BY po.supplier_id, po.supplier_name
+  ),
+  open_orders AS (
+    SELECT po.supplier_id,
+           po.supplier_name,
+           COUNT(*) AS open_orders,
+           COUNT(*) FILTER (WHERE po.expected_date < CURRENT_DATE) AS overdue_orders,
+           SUM(po.total_cost - po.received_cost) AS open_value
+    FROM public.purchase_orders po
+    WHERE po.store_id = _store_id
+      AND po.status IN ('ordered', 'partially_received')
+    GROUP BY po.supplier_id, po.supplier_name
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'supplier_id', COALESCE(rc.supplier_id, oo.supplier_id),
+      'supplier_name', COALESCE(s.name, rc.supplier_name, oo.supplier_name),
+      'received_value', COALESCE(rc.received_value, 0),
+      'deliveries', COALESCE(rc.deliveries, 0),
+      'open_orders', COALESCE(oo.open_orders, 0),
+      'overdue_orders', COALESCE(oo.overdue_orders, 0),
+      'open_value', COALESCE(oo.open_value, 0)
+    ) ORDER BY COALESCE(rc.received_value, 0) DESC, COALESCE(oo.open_value, 0) DESC), '[]'::jsonb)
+  INTO _result
+  FROM received rc
+  FULL OUTER JOIN open_orders oo
+    ON oo.supplier_id IS NOT DISTINCT FROM rc.supplier_id
+   AND oo.supplier_name = rc.supplier_name
+  LEFT JOIN public.suppliers s ON s.id = COALESCE(rc.supplier_id, oo.supplier_id);
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_supplier_spend(UUID, TIMESTAMP WITH TIME ZONE, TIMESTAMP WITH TIME ZONE) TO authenticated;
+
+-- Suggested order quantities. Daily velocity is units sold on completed orders over the
+-- last _sales_days. We aim to hold the low stock threshold plus _cover_days of sales, and
+-- count stock already on open POs so the same shortfall isn't ordered twice.
+CREATE OR REPLACE FUNCTION public.get_reorder_suggestions(
+  _store_id UUID,
+  _sales_days INTEGER DEFAULT 30,
+  _cover_days INTEGER DEFAULT 14
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  _sales_days := GREATEST(COALESCE(_sales_days, 30), 1);
+  _cover_days := GREATEST(COALESCE(_cover_days, 14), 0);
+
+  WITH sales AS (
+    SELECT oi.product_id, SUM(oi.quantity) AS sold
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.store_id = _store_id
+      AND o.status = 'completed'
+      AND o.created_at >= now() - make_interval(days => _sales_days)
+    GROUP BY oi.product_id
+  ),
+  on_order AS (
+    SELECT poi.product_id, SUM(poi.quantity_ordered - poi.quantity_received) AS quantity
+    FROM public.purchase_order_items poi
+    JOIN public.purchase_orders po ON po.id = poi.purchase_order_id
+    WHERE po.store_id = _store_id
+      AND po.status IN ('draft', 'ordered', 'partially_received')
+    GROUP BY poi.product_id
+  ),
+  candidates AS (
+    SELECT p.id,
+           p.name,
+           p.sku,
+           p.supplier_id,
+           s.name AS supplier_name,
+           p.cost,
+           COALESCE(p.stock_quantity, 0) AS stock_quantity,
+           COALESCE(p.low_stock_threshold, 0) AS low_stock_threshold,
+           COALESCE(sa.sold, 0) AS sold,
+           COALESCE(oo.quantity, 0) AS on_order,
+           COALESCE(sa.sold, 0)::NUMERIC / _sales_days AS daily_velocity
+    FROM public.products p
+    LEFT JOIN public.suppliers s ON s.id = p.supplier_id
+    LEFT JOIN sales sa ON sa.product_id = p.id
+    LEFT JOIN on_order oo ON oo.product_id = p.id
+    WHERE p.store_id = _store_id
+      AND COALESCE(p.is_active, true)
+  ),
+  suggestions AS (
+    SELECT c.*,
+           c.low_stock_threshold + CEIL(c.daily_velocity * _cover_days)::INTEGER AS target_stock
+    FROM candidates c
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'product_id', id,
+      'name', name,
+      'sku', sku,
+      'supplier_id', supplier_id,
+      'supplier_name', supplier_name,
+      'unit_cost', cost,
+      'stock_quantity', stock_quantity,
+      'low_stock_threshold', low_stock_threshold,
+      'sold', sold,
+      'daily_velocity', round(daily_velocity, 2),
+      'on_order', on_order,
+      'target_stock', target_stock,
+      'suggested_quantity', target_stock - stock_quantity - on_order
+    ) ORDER BY supplier_name NULLS LAST, name), '[]'::jsonb)
+  INTO _result
+  FROM suggestions
+  WHERE target_stock - stock_quantity - on_order > 0;
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reorder_suggestions(UUID, INTEGER, INTEGER) TO authenticated;
@@ -0,0 +1,1985 @@
+-- Migration: Product Variants
+-- Description: Option axes (e.g. Size, Colour) with one variant per combination carrying its own
+-- SKU, barcode, price, cost and stock. Sales, laybys, showcase orders and purchase orders record the variant.
+-- Date: 2025-08-01
+
+-- The showcase-era table held one row per attribute value with a price adjustment, so a
+-- variant's stock or SKU could not be tracked. Keep it for reference; rows are converted below.
+ALTER TABLE IF EXISTS public.product_variants RENAME TO product_variant_attributes_legacy;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS has_variants BOOLEAN NOT NULL DEFAULT false;
+
+CREATE TABLE IF NOT EXISTS public.product_options (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (length(trim(name)) > 0),
+  option_values TEXT[] NOT NULL CHECK (cardinality(option_values) > 0),
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(product_id, name)
+);
+
+-- options maps each option name to the chosen value, e.g. {"Size": "M", "Colour": "Red"}
+CREATE TABLE IF NOT EXISTS public.product_variants (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  product_id UUID NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+  options JSONB NOT NULL DEFAULT '{}'::jsonb,
+  name TEXT NOT NULL,
+  sku TEXT,
+  barcode TEXT,
+  price DECIMAL(10,2) NOT NULL CHECK (price >= 0),
+  cost DECIMAL(10,2) CHECK (cost >= 0),
+  stock_quantity INTEGER NOT NULL DEFAULT 0,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  position INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(product_id, options)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_options_product ON public.product_options(product_id, position);
+CREATE INDEX IF NOT EXISTS idx_product_variants_product ON public.product_variants(product_id, position);
+-- A scan or SKU search has to resolve to exactly one variant
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_store_barcode
+  ON public.product_variants(store_id, barcode) WHERE barcode IS NOT NULL;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_store_sku
+  ON public.product_variants(store_id, lower(sku)) WHERE sku IS NOT NULL;
+
+-- Lines that sold, reserved or ordered a variant. The name is copied so history survives deletes.
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_name TEXT;
+
+ALTER TABLE public.layby_items
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_name TEXT;
+
+ALTER TABLE public.public_order_items
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_name TEXT;
+
+ALTER TABLE public.purchase_order_items
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_name TEXT;
+
+ALTER TABLE public.stock_adjustments
+ADD COLUMN IF NOT EXISTS variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_stock_adjustments_variant ON public.stock_adjustments(variant_id) WHERE variant_id IS NOT NULL;
+
+ALTER TABLE public.product_options ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+-- Options and variants are only written through save_product_variants and stock functions
+CREATE POLICY "Store access for product_options" ON public.product_options
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for product_variants" ON public.product_variants
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Public can read options for public products" ON public.product_options
+  FOR SELECT USING (
+    product_id IN (
+      SELECT id FROM public.products
+      WHERE is_public = true AND is_active = true
+    )
+  );
+
+CREATE POLICY "Public can read variants for public products" ON public.product_variants
+  FOR SELECT USING (
+    is_active
+    AND product_id IN (
+      SELECT id FROM public.products
+      WHERE is_public = true AND is_active = true
+    )
+  );
+
+-- A product with variants has no stock of its own: its stock_quantity is always the sum
+-- of its variants, so low stock alerts, reports and the showcase keep working unchanged
+CREATE OR REPLACE FUNCTION public.sync_variant_product_stock()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.has_variants THEN
+    SELECT COALESCE(SUM(v.stock_quantity), 0)
+    INTO NEW.stock_quantity
+    FROM public.product_variants v
+    WHERE v.product_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_variant_product_stock ON public.products;
+CREATE TRIGGER sync_variant_product_stock
+BEFORE UPDATE ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.sync_variant_product_stock();
+
+-- Touch the parent so the trigger above recalculates it
+CREATE OR REPLACE FUNCTION public.touch_variant_product()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    UPDATE public.products SET updated_at = now() WHERE id = OLD.product_id;
+    RETURN OLD;
+  END IF;
+
+  IF TG_OP = 'INSERT' OR NEW.stock_quantity IS DISTINCT FROM OLD.stock_quantity THEN
+    UPDATE public.products SET updated_at = now() WHERE id = NEW.product_id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS touch_variant_product ON public.product_variants;
+CREATE TRIGGER touch_variant_product
+AFTER INSERT OR UPDATE OR DELETE ON public.product_variants
+FOR EACH ROW EXECUTE FUNCTION public.touch_variant_product();
+
+-- Convert the legacy attribute rows: each attribute type becomes an option and every
+-- combination a variant priced at the product price plus the matching adjustments.
+-- Stock carries over only when a product used a single attribute type; with several
+-- types the per-combination stock is unknown and starts at zero.
+INSERT INTO public.product_options (store_id, product_id, name, option_values, position)
+SELECT p.store_id,
+       a.product_id,
+       initcap(a.variant_type),
+       array_agg(a.variant_value ORDER BY a.created_at),
+       CASE a.variant_type WHEN 'color' THEN 0 WHEN 'size' THEN 1 ELSE 2 END
+FROM public.product_variant_attributes_legacy a
+JOIN public.products p ON p.id = a.product_id
+WHERE COALESCE(a.is_active, true)
+GROUP BY p.store_id, a.product_id, a.variant_type
+ON CONFLICT (product_id, name) DO NOTHING;
+
+WITH attributes AS (
+  SELECT a.*, types.type_count
+  FROM public.product_variant_attributes_legacy a
+  JOIN (
+    SELECT product_id, COUNT(DISTINCT variant_type) AS type_count
+    FROM public.product_variant_attributes_legacy
+    WHERE COALESCE(is_active, true)
+    GROUP BY product_id
+  ) types ON types.product_id = a.product_id
+  WHERE COALESCE(a.is_active, true)
+),
+combinations AS (
+  SELECT p.id AS product_id,
+         p.store_id,
+         p.sku,
+         p.price
+           + COALESCE(c.price_adjustment, 0)
+           + COALESCE(s.price_adjustment, 0)
+           + COALESCE(st.price_adjustment, 0) AS price,
+         p.cost,
+         jsonb_strip_nulls(jsonb_build_object(
+           'Color', c.variant_value,
+           'Size', s.variant_value,
+           'Style', st.variant_value
+         )) AS options,
+         concat_ws(' / ', c.variant_value, s.variant_value, st.variant_value) AS name,
+         concat_ws('-', c.sku_suffix, s.sku_suffix, st.sku_suffix) AS sku_suffix,
+         CASE
+           WHEN COALESCE(c.type_count, s.type_count, st.type_count) = 1
+             THEN GREATEST(COALESCE(c.stock_quantity, s.stock_quantity, st.stock_quantity, 0), 0)
+           ELSE 0
+         END AS stock_quantity
+  FROM public.products p
+  LEFT JOIN attributes c ON c.product_id = p.id AND c.variant_type = 'color'
+  LEFT JOIN attributes s ON s.product_id = p.id AND s.variant_type = 'size'
+  LEFT JOIN attributes st ON st.product_id = p.id AND st.variant_type = 'style'
+  WHERE EXISTS (SELECT 1 FROM attributes a WHERE a.product_id = p.id)
+)
+INSERT INTO public.product_variants (store_id, product_id, options, name, sku, price, cost, stock_quantity, position)
+SELECT store_id,
+       product_id,
+       options,
+       name,
+       -- Legacy suffixes weren't unique across products, so only keep SKUs that are
+       CASE WHEN sku IS NOT NULL AND sku_suffix <> '' THEN sku || '-' || sku_suffix END,
+       price,
+       cost,
+       stock_quantity,
+       (ROW_NUMBER() OVER (PARTITION BY product_id ORDER BY name) - 1)::INTEGER
+FROM combinations
+ON CONFLICT DO NOTHING;
+
+-- Record the stock change on every converted product before it switches to variant stock
+INSERT INTO public.stock_adjustments (
+  store_id,
+  product_id,
+  user_id,
+  adjustment_type,
+  quantity_change,
+  previous_quantity,
+  new_quantity,
+  reason
+)
+SELECT p.store_id,
+       p.id,
+       s.owner_id,
+       'manual',
+       totals.stock - COALESCE(p.stock_quantity, 0),
+       COALESCE(p.stock_quantity, 0),
+       totals.stock,
+       'Converted to variants'
+FROM public.products p
+JOIN public.stores s ON s.id = p.store_id
+JOIN (
+  SELECT product_id, SUM(stock_quantity)::INTEGER AS stock
+  FROM public.product_variants
+  GROUP BY product_id
+) totals ON totals.product_id = p.id
+WHERE NOT p.has_variants
+  AND totals.stock <> COALESCE(p.stock_quantity, 0);
+
+UPDATE public.products
+SET has_variants = true
+WHERE id IN (SELECT DISTINCT product_id FROM public.product_variants)
+  AND NOT has_variants;
+
+-- Replace a product's options and variants in one go.
+-- _options: [{ "name": text, "values": [text] }]
+-- _variants: [{ "id": uuid|null, "options": {name: value}, "sku", "barcode", "price", "cost",
+--               "stock_quantity", "is_active" }]
+-- Existing variants are matched by id, then by their option values; anything not in the
+-- list is deleted (sold lines keep the variant name). A stock change is recorded as a
+-- manual stock adjustment. An empty _options list turns variants off for the product and
+-- leaves it with the stock its variants had.
+CREATE OR REPLACE FUNCTION public.save_product_variants(
+  _product_id UUID,
+  _options JSONB,
+  _variants JSONB
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _product RECORD;
+  _option JSONB;
+  _option_name TEXT;
+  _option_values TEXT[];
+  _option_names TEXT[] := '{}';
+  _position INTEGER := 0;
+  _item JSONB;
+  _existing public.product_variants;
+  _variant public.product_variants;
+  _kept UUID[] := '{}';
+  _options_map JSONB;
+  _name TEXT;
+  _sku TEXT;
+  _barcode TEXT;
+  _price DECIMAL(10,2);
+  _stock INTEGER;
+  _variant_count INTEGER;
+BEGIN
+  SELECT id, store_id, name, sku, price, cost, stock_quantity, has_variants
+  INTO _product
+  FROM public.products
+  WHERE id = _product_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_product.store_id) THEN
+    RAISE EXCEPTION 'Access denied to product %', _product_id;
+  END IF;
+
+  IF _options IS NULL OR jsonb_typeof(_options) <> 'array' THEN
+    _options := '[]'::jsonb;
+  END IF;
+
+  IF _variants IS NULL OR jsonb_typeof(_variants) <> 'array' THEN
+    _variants := '[]'::jsonb;
+  END IF;
+
+  -- Turning variants off: fold their stock back into the product
+  IF jsonb_array_length(_options) = 0 THEN
+    IF _product.has_variants THEN
+      UPDATE public.products
+      SET has_variants = false,
+          updated_at = now()
+      WHERE id = _product.id;
+
+      DELETE FROM public.product_variants WHERE product_id = _product.id;
+      DELETE FROM public.product_options WHERE product_id = _product.id;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'variant_count', 0);
+  END IF;
+
+  DELETE FROM public.product_options WHERE product_id = _product.id;
+
+  FOR _option IN SELECT * FROM jsonb_array_elements(_options)
+  LOOP
+    _option_name := trim(_option->>'name');
+
+    -- Distinct values, kept in the order they were entered
+    SELECT array_agg(value ORDER BY ordinality)
+    INTO _option_values
+    FROM (
+      SELECT DISTINCT ON (trim(value)) trim(value) AS value, ordinality
+      FROM jsonb_array_elements_text(COALESCE(_option->'values', '[]'::jsonb)) WITH ORDINALITY
+      WHERE trim(value) <> ''
+      ORDER BY trim(value), ordinality
+    ) v;
+
+    IF COALESCE(_option_name, '') = '' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Every option needs a name');
+    END IF;
+
+    IF _option_name = ANY(_option_names) THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Option %s is listed twice', _option_name));
+    END IF;
+
+    IF _option_values IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Add at least one value for %s', _option_name));
+    END IF;
+
+    INSERT INTO public.product_options (store_id, product_id, name, option_values, position)
+    VALUES (_product.store_id, _product.id, _option_name, _option_values, _position);
+
+    _option_names := _option_names || _option_name;
+    _position := _position + 1;
+  END LOOP;
+
+  IF jsonb_array_length(_variants) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Add at least one variant');
+  END IF;
+
+  SELECT trim(value->>'sku') INTO _sku
+  FROM jsonb_array_elements(_variants)
+  WHERE trim(value->>'sku') <> ''
+  GROUP BY trim(value->>'sku')
+  HAVING COUNT(*) > 1
+  LIMIT 1;
+
+  IF _sku IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', format('SKU %s is used by more than one variant', _sku));
+  END IF;
+
+  SELECT trim(value->>'barcode') INTO _barcode
+  FROM jsonb_array_elements(_variants)
+  WHERE trim(value->>'barcode') <> ''
+  GROUP BY trim(value->>'barcode')
+  HAVING COUNT(*) > 1
+  LIMIT 1;
+
+  IF _barcode IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', format('Barcode %s is used by more than one variant', _barcode));
+  END IF;
+
+  _position := 0;
+  FOR _item IN SELECT * FROM jsonb_array_elements(_variants)
+  LOOP
+    -- Only the product's options, in option order, so the same combination always matches
+    SELECT COALESCE(jsonb_object_agg(o.name, trim(_item->'options'->>o.name)), '{}'::jsonb),
+           string_agg(trim(_item->'options'->>o.name), ' / ' ORDER BY o.position)
+    INTO _options_map, _name
+    FROM public.product_options o
+    WHERE o.product_id = _product.id;
+
+    IF EXISTS (
+      SELECT 1 FROM public.product_options o
+      WHERE o.product_id = _product.id
+        AND NOT (trim(_item->'options'->>o.name) = ANY(o.option_values))
+    ) THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Variant %s has a value that is not one of the options', COALESCE(_name, '')));
+    END IF;
+
+    _sku := NULLIF(trim(_item->>'sku'), '');
+    _barcode := NULLIF(trim(_item->>'barcode'), '');
+    _price := COALESCE((_item->>'price')::DECIMAL, _product.price);
+    _stock := COALESCE((_item->>'stock_quantity')::INTEGER, 0);
+
+    IF _price < 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Price for %s cannot be negative', _name));
+    END IF;
+
+    IF _stock < 0 THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Stock for %s cannot be negative', _name));
+    END IF;
+
+    SELECT * INTO _existing
+    FROM public.product_variants
+    WHERE product_id = _product.id
+      AND (id = NULLIF(_item->>'id', '')::UUID OR options = _options_map)
+    ORDER BY (id = NULLIF(_item->>'id', '')::UUID) DESC NULLS LAST
+    LIMIT 1
+    FOR UPDATE;
+
+    IF _existing.id IS NOT NULL AND _existing.id = ANY(_kept) THEN
+      RETURN jsonb_build_object('success', false, 'error', format('%s is listed twice', _name));
+    END IF;
+
+    -- SKUs and barcodes are looked up store-wide, so they can't clash with another product
+    IF _sku IS NOT NULL AND (
+      EXISTS (
+        SELECT 1 FROM public.products p
+        WHERE p.store_id = _product.store_id
+          AND lower(p.sku) = lower(_sku)
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.product_variants v
+        WHERE v.store_id = _product.store_id
+          AND v.product_id <> _product.id
+          AND lower(v.sku) = lower(_sku)
+      )
+    ) THEN
+      RETURN jsonb_build_object('success', false, 'error', format('SKU %s is already used by another product', _sku));
+    END IF;
+
+    IF _barcode IS NOT NULL AND (
+      EXISTS (
+        SELECT 1 FROM public.product_barcodes b
+        WHERE b.store_id = _product.store_id
+          AND b.barcode = _barcode
+      )
+      OR EXISTS (
+        SELECT 1 FROM public.product_variants v
+        WHERE v.store_id = _product.store_id
+          AND v.product_id <> _product.id
+          AND v.barcode = _barcode
+      )
+    ) THEN
+      RETURN jsonb_build_object('success', false, 'error', format('Barcode %s is already used by another product', _barcode));
+    END IF;
+
+    IF _existing.id IS NULL THEN
+      INSERT INTO public.product_variants (
+        store_id, product_id, options, name, sku, barcode, price, cost,
+        stock_quantity, is_active, position
+      ) VALUES (
+        _product.store_id,
+        _product.id,
+        _options_map,
+        _name,
+        _sku,
+        _barcode,
+        _price,
+        COALESCE((_item->>'cost')::DECIMAL, _product.cost),
+        _stock,
+        COALESCE((_item->>'is_active')::BOOLEAN, true),
+        _position
+      )
+      RETURNING * INTO _variant;
+
+      IF _stock <> 0 THEN
+        INSERT INTO public.stock_adjustments (
+          store_id, product_id, variant_id, user_id, adjustment_type,
+          quantity_change, previous_quantity, new_quantity, reason
+        ) VALUES (
+          _product.store_id, _product.id, _variant.id, auth.uid(), 'manual',
+          _stock, 0, _stock, 'Initial stock - ' || _name
+        );
+      END IF;
+    ELSE
+      UPDATE public.product_variants
+      SET options = _options_map,
+          name = _name,
+          sku = _sku,
+          barcode = _barcode,
+          price = _price,
+          cost = COALESCE((_item->>'cost')::DECIMAL, cost),
+          stock_quantity = _stock,
+          is_active = COALESCE((_item->>'is_active')::BOOLEAN, is_active),
+          position = _position,
+          updated_at = now()
+      WHERE id = _existing.id
+      RETURNING * INTO _variant;
+
+      IF _stock <> _existing.stock_quantity THEN
+        INSERT INTO public.stock_adjustments (
+          store_id, product_id, variant_id, user_id, adjustment_type,
+          quantity_change, previous_quantity, new_quantity, reason
+        ) VALUES (
+          _product.store_id, _product.id, _variant.id, auth.uid(), 'manual',
+          _stock - _existing.stock_quantity, _existing.stock_quantity, _stock, 'Variant stock updated - ' || _name
+        );
+      END IF;
+    END IF;
+
+    _kept := _kept || _variant.id;
+    _position := _position + 1;
+  END LOOP;
+
+  DELETE FROM public.product_variants
+  WHERE product_id = _product.id
+    AND id <> ALL(_kept);
+
+  -- Converting a product: the stock it held on its own is replaced by its variants' stock
+  IF NOT _product.has_variants AND COALESCE(_product.stock_quantity, 0) <> 0 THEN
+    INSERT INTO public.stock_adjustments (
+      store_id, product_id, user_id, adjustment_type,
+      quantity_change, previous_quantity, new_quantity, reason
+    ) VALUES (
+      _product.store_id, _product.id, auth.uid(), 'manual',
+      -COALESCE(_product.stock_quantity, 0), COALESCE(_product.stock_quantity, 0), 0, 'Converted to variants'
+    );
+  END IF;
+
+  UPDATE public.products
+  SET has_variants = true,
+      updated_at = now()
+  WHERE id = _product.id;
+
+  SELECT COUNT(*) INTO _variant_count FROM public.product_variants WHERE product_id = _product.id;
+
+  RETURN jsonb_build_object('success', true, 'variant_count', _variant_count);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_product_variants(UUID, JSONB, JSONB) TO authenticated;
+
+-- Stock count or correction for a single variant, mirroring StockAdjustmentDialog for products
+CREATE OR REPLACE FUNCTION public.adjust_variant_stock(
+  _variant_id UUID,
+  _quantity_change INTEGER,
+  _adjustment_type TEXT DEFAULT 'manual',
+  _reason TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _variant public.product_variants;
+  _new_quantity INTEGER;
+BEGIN
+  SELECT * INTO _variant
+  FROM public.product_variants
+  WHERE id = _variant_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_variant.store_id) THEN
+    RAISE EXCEPTION 'Access denied to variant %', _variant_id;
+  END IF;
+
+  _new_quantity := _variant.stock_quantity + COALESCE(_quantity_change, 0);
+
+  IF _new_quantity < 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('%s only has %s in stock', _variant.name, _variant.stock_quantity)
+    );
+  END IF;
+
+  UPDATE public.product_variants
+  SET stock_quantity = _new_quantity,
+      updated_at = now()
+  WHERE id = _variant.id;
+
+  INSERT INTO public.stock_adjustments (
+    store_id, product_id, variant_id, user_id, adjustment_type,
+    quantity_change, previous_quantity, new_quantity, reason
+  ) VALUES (
+    _variant.store_id, _variant.product_id, _variant.id, auth.uid(), COALESCE(_adjustment_type, 'manual'),
+    _quantity_change, _variant.stock_quantity, _new_quantity,
+    COALESCE(NULLIF(trim(_reason), ''), 'Stock adjustment') || ' - ' || _variant.name
+  );
+
+  RETURN jsonb_build_object('success', true, 'stock_quantity', _new_quantity);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_variant_stock(UUID, INTEGER, TEXT, TEXT) TO authenticated;
+
+-- Checkout sells variants: lines carry an optional variant_id, are grouped per variant and
+-- take the variant's price and stock. Products with variants can't be sold without one.
+CREATE OR REPLACE FUNCTION public.checkout(
+  _store_id UUID,
+  _order_number TEXT,
+  _items JSONB,
+  _payment_method TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  _discount_code TEXT DEFAULT NULL,
+  _tax_amount DECIMAL(10,2) DEFAULT 0,
+  _sold_at TIMESTAMPTZ DEFAULT NULL,
+  _client_reference UUID DEFAULT NULL,
+  _discounts JSONB DEFAULT '[]'::jsonb,
+  _loyalty_points INTEGER DEFAULT 0
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _line RECORD;
+  _product RECORD;
+  _variant RECORD;
+  _label TEXT;
+  _customer_name TEXT;
+  _customer_points INTEGER := 0;
+  _customer_spent DECIMAL(10,2) := 0;
+  _errors JSONB := '[]'::jsonb;
+  _receipt_items JSONB := '[]'::jsonb;
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _order_id UUID;
+  _order_created_at TIMESTAMPTZ;
+  _transaction_number TEXT;
+  _existing RECORD;
+  _discount_line RECORD;
+  _discount RECORD;
+  _evaluation JSONB;
+  _discount_share DECIMAL(10,2);
+  _promotion_amount DECIMAL(10,2) := 0;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _order_discount_code TEXT := NULLIF(_discount_code, '');
+  _settings RECORD;
+  _tier RECORD;
+  _loyalty_enabled BOOLEAN := false;
+  _loyalty_discount DECIMAL(10,2) := 0;
+  _points_earned INTEGER := 0;
+  _points_balance INTEGER;
+BEGIN
+  IF _cashier_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- This sale was recorded by an earlier attempt whose response never reached the till
+  SELECT o.id, o.order_number, o.created_at, o.subtotal, o.discount_amount, o.discount_code,
+         o.tax_amount, o.total, o.payment_method, o.loyalty_points_redeemed, o.loyalty_discount_amount
+  INTO _existing
+  FROM public.orders o
+  WHERE o.store_id = _store_id
+    AND o.client_reference = _client_reference;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'duplicate', true,
+      'order', jsonb_build_object(
+        'id', _existing.id,
+        'order_number', _existing.order_number,
+        'created_at', _existing.created_at,
+        'transaction_number', NULL,
+        'subtotal', _existing.subtotal,
+        'discount_amount', COALESCE(_existing.discount_amount, 0),
+        'discount_code', _existing.discount_code,
+        'tax_amount', COALESCE(_existing.tax_amount, 0),
+        'total', _existing.total,
+        'payment_method', _existing.payment_method,
+        'discounts', '[]'::jsonb,
+        'loyalty_points_redeemed', _existing.loyalty_points_redeemed,
+        'loyalty_discount_amount', _existing.loyalty_discount_amount,
+        'loyalty_points_earned', (
+          SELECT COALESCE(SUM(lt.points), 0)
+          FROM public.loyalty_transactions lt
+          WHERE lt.order_id = _existing.id
+            AND lt.transaction_type = 'earn'
+        ),
+        'items', '[]'::jsonb
+      )
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Cart is empty'
+      ))
+    );
+  END IF;
+
+  -- Lock every product in the cart in a stable order so concurrent tills
+  -- selling the same products serialize instead of deadlocking
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.store_id = _store_id
+    AND v.id IN (SELECT NULLIF(value->>'variant_id', '')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- Validate each cart line against the locked rows. A variant line is checked against
+  -- the variant's own stock and price.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.price, p.stock_quantity, p.is_active, p.has_variants
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF FOUND AND _line.variant_id IS NOT NULL THEN
+      SELECT v.id, v.name, v.sku, v.price, v.stock_quantity, v.is_active
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = _line.variant_id
+        AND v.product_id = _product.id;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'product_id', _product.id,
+          'variant_id', _line.variant_id,
+          'product_name', _product.name,
+          'code', 'not_found',
+          'requested', _line.quantity,
+          'message', _product.name || ': this variant no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _label := _product.name || ' (' || _variant.name || ')';
+      -- From here on the line is checked exactly like a product without variants
+      _product.sku := COALESCE(_variant.sku, _product.sku);
+      _product.price := _variant.price;
+      _product.stock_quantity := _variant.stock_quantity;
+      _product.is_active := _product.is_active AND _variant.is_active;
+    ELSIF FOUND AND _product.has_variants THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'variant_required',
+        'requested', _line.quantity,
+        'message', 'Choose a variant of ' || _product.name
+      );
+      CONTINUE;
+    ELSE
+      _label := _product.name;
+    END IF;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+    ELSIF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _label || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _label || ' must be at least 1'
+      );
+    ELSIF _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _label || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSIF _line.unit_price IS NOT NULL AND _line.unit_price <> _product.price THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'price_changed',
+        'requested', _line.quantity,
+        'expected_price', _line.unit_price,
+        'current_price', _product.price,
+        'message', _label || ': price changed from ' || _line.unit_price || ' to ' || _product.price
+      );
+    ELSE
+      _subtotal := _subtotal + _product.price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name, c.loyalty_points, COALESCE(c.total_spent, 0)
+    INTO _customer_name, _customer_points, _customer_spent
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'customer_not_found',
+        'message', 'Selected customer does not belong to this store'
+      );
+    END IF;
+  END IF;
+
+  -- Re-evaluate the cart's discounts against the locked rows rather than trusting the
+  -- client's amounts
+  IF _discounts IS NOT NULL AND jsonb_typeof(_discounts) = 'array' THEN
+    FOR _discount_line IN
+      SELECT
+        (value->>'discount_id')::UUID AS discount_id,
+        (value->>'amount')::DECIMAL(10,2) AS amount
+      FROM jsonb_array_elements(_discounts)
+    LOOP
+      SELECT d.id, d.name, d.code
+      INTO _discount
+      FROM public.discounts d
+      WHERE d.id = _discount_line.discount_id
+        AND d.store_id = _store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount_line.discount_id,
+          'code', 'discount_invalid',
+          'message', 'Discount no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _evaluation := public.evaluate_discount(_discount.id, _items, _customer_id);
+
+      IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount.id,
+          'code', 'discount_invalid',
+          'message', _discount.name || ': ' || (_evaluation->>'message')
+        );
+        CONTINUE;
+      END IF;
+
+      _discount_share := (_evaluation->>'amount')::DECIMAL(10,2);
+
+      -- Combined discounts never take more than the cart is worth
+      _discount_share := LEAST(_discount_share, GREATEST(0, _subtotal - _promotion_amount));
+      _promotion_amount := _promotion_amount + _discount_share;
+
+      _applied_discounts := _applied_discounts || jsonb_build_object(
+        'discount_id', _discount.id,
+        'name', _discount.name,
+        'code', _discount.code,
+        'amount', _discount_share
+      );
+
+      IF _discount.code IS NOT NULL THEN
+        _order_discount_code := _discount.code;
+      END IF;
+    END LOOP;
+  END IF;
+
+  SELECT s.customer_loyalty_enabled, s.loyalty_points_per_unit, s.loyalty_point_value, s.loyalty_min_redeem_points
+  INTO _settings
+  FROM public.store_settings s
+  WHERE s.store_id = _store_id;
+
+  _loyalty_enabled := FOUND AND COALESCE(_settings.customer_loyalty_enabled, false);
+
+  -- Redeemed points are tender: they pay for the order after discounts and tax
+  IF COALESCE(_loyalty_points, 0) > 0 THEN
+    IF NOT _loyalty_enabled THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Loyalty points are not enabled for this store'
+      );
+    ELSIF _customer_id IS NULL THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Select a customer to redeem loyalty points'
+      );
+    ELSIF _customer_points < _loyalty_points THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'available', _customer_points,
+        'message', _customer_name || ' only has ' || _customer_points || ' points'
+      );
+    ELSIF _loyalty_points < COALESCE(_settings.loyalty_min_redeem_points, 0) THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'message', 'At least ' || _settings.loyalty_min_redeem_points || ' points must be redeemed at a time'
+      );
+    ELSE
+      _loyalty_discount := LEAST(
+        ROUND(_loyalty_points * COALESCE(_settings.loyalty_point_value, 0), 2),
+        GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount + COALESCE(_tax_amount, 0))
+      );
+    END IF;
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  _total := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount - _loyalty_discount + COALESCE(_tax_amount, 0));
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method,
+    loyalty_points_redeemed,
+    loyalty_discount_amount,
+    client_reference,
+    offline_sold_at
+  ) VALUES (
+    _store_id,
+    _customer_id,
+    _cashier_id,
+    _order_number,
+    _subtotal,
+    COALESCE(_discount_amount, 0) + _promotion_amount,
+    _order_discount_code,
+    COALESCE(_tax_amount, 0),
+    _total,
+    'completed',
+    _payment_method,
+    COALESCE(_loyalty_points, 0),
+    _loyalty_discount,
+    _client_reference,
+    _sold_at
+  ) RETURNING id, created_at INTO _order_id, _order_created_at;
+
+  -- Write items, decrement stock and record the adjustment for each line. Variant lines
+  -- take stock from the variant; the product's total follows through its trigger.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT p.id, p.name, COALESCE(v.sku, p.sku) AS sku, v.stock_quantity, v.id AS variant_id, v.name AS variant_name, v.price
+      INTO _product
+      FROM public.product_variants v
+      JOIN public.products p ON p.id = v.product_id
+      WHERE v.id = _line.variant_id;
+
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _line.variant_id;
+    ELSE
+      SELECT p.id, p.name, p.sku, p.stock_quantity, NULL::UUID AS variant_id, NULL::TEXT AS variant_name, p.price
+      INTO _product
+      FROM public.products p
+      WHERE p.id = _line.product_id;
+
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _product.id;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _product.variant_id,
+      _product.variant_name,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store_id,
+      _product.id,
+      _product.variant_id,
+      _cashier_id,
+      'sale',
+      -_line.quantity,
+      _product.stock_quantity,
+      _product.stock_quantity - _line.quantity,
+      'Sale - Order ' || _order_number,
+      _order_id
+    );
+
+    _receipt_items := _receipt_items || jsonb_build_object(
+      'id', _product.id,
+      'variant_id', _product.variant_id,
+      'name', _product.name,
+      'variant_name', _product.variant_name,
+      'sku', _product.sku,
+      'quantity', _line.quantity,
+      'unit_price', _product.price,
+      'total_price', _product.price * _line.quantity
+    );
+  END LOOP;
+
+  -- Record each redemption and count it against the discount's usage limit
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    INSERT INTO public.discount_usage (
+      discount_id,
+      order_id,
+      customer_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _customer_id,
+      _discount_line.amount
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  SELECT generate_transaction_number(_store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    processed_by
+  ) VALUES (
+    _store_id,
+    _transaction_number,
+    'sale',
+    _total,
+    _payment_method,
+    _order_id,
+    'order',
+    _customer_id,
+    _customer_name,
+    'Sale - Order ' || _order_number,
+    _cashier_id
+  );
+
+  IF _customer_id IS NOT NULL THEN
+    _points_balance := _customer_points;
+
+    IF COALESCE(_loyalty_points, 0) > 0 THEN
+      _points_balance := _points_balance - _loyalty_points;
+
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+      ) VALUES (
+        _store_id, _customer_id, _order_id, 'redeem', -_loyalty_points, _points_balance,
+        'Redeemed - Order ' || _order_number, _cashier_id
+      );
+    END IF;
+
+    -- Earn on what was paid, at the multiplier of the tier reached before this sale
+    IF _loyalty_enabled THEN
+      SELECT * INTO _tier FROM public.get_loyalty_tier(_store_id, _customer_spent);
+
+      _points_earned := FLOOR(
+        _total * COALESCE(_settings.loyalty_points_per_unit, 0) * COALESCE(_tier.points_multiplier, 1)
+      )::INTEGER;
+
+      IF _points_earned > 0 THEN
+        _points_balance := _points_balance + _points_earned;
+
+        INSERT INTO public.loyalty_transactions (
+          store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+        ) VALUES (
+          _store_id, _customer_id, _order_id, 'earn', _points_earned, _points_balance,
+          'Earned - Order ' || _order_number, _cashier_id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _total,
+        loyalty_points = _points_balance,
+        updated_at = now()
+    WHERE id = _customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', jsonb_build_object(
+      'id', _order_id,
+      'order_number', _order_number,
+      'created_at', _order_created_at,
+      'transaction_number', _transaction_number,
+      'subtotal', _subtotal,
+      'discount_amount', COALESCE(_discount_amount, 0) + _promotion_amount,
+      'discount_code', _order_discount_code,
+      'discounts', _applied_discounts,
+      'loyalty_points_redeemed', COALESCE(_loyalty_points, 0),
+      'loyalty_discount_amount', _loyalty_discount,
+      'loyalty_points_earned', _points_earned,
+      'loyalty_points_balance', _points_balance,
+      'tax_amount', COALESCE(_tax_amount, 0),
+      'total', _total,
+      'payment_method', _payment_method,
+      'items', _receipt_items
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER) TO authenticated;
+
+-- Showcase order lines name a variant instead of attribute values, and are priced at it
+
+CREATE OR REPLACE FUNCTION public.create_public_order(
+  store_identifier TEXT,
+  customer_data JSONB,
+  order_items JSONB[],
+  discount_code_param TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store RECORD;
+  _order_id UUID;
+  _order_code TEXT;
+  _item JSONB;
+  _product RECORD;
+  _variant RECORD;
+  _quantity INTEGER;
+  _item_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _lines JSONB := '[]'::jsonb;
+  _promotion RECORD;
+  _evaluation JSONB;
+  _best_promotion JSONB;
+  _code_discount RECORD;
+  _applied_code TEXT;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _discount_line RECORD;
+  _discount_share DECIMAL(10,2);
+  _discount_amount DECIMAL(10,2) := 0;
+  _tax_amount DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+BEGIN
+  SELECT s.* INTO _store
+  FROM public.stores s
+  WHERE (s.id::text = store_identifier
+         OR s.store_code = store_identifier
+         OR s.showcase_slug = store_identifier)
+    AND s.enable_public_showcase = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found or showcase not enabled';
+  END IF;
+
+  _order_code := generate_order_code(_store.id);
+
+  INSERT INTO public.public_orders (
+    store_id,
+    order_code,
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    total,
+    status
+  ) VALUES (
+    _store.id,
+    _order_code,
+    customer_data->>'name',
+    customer_data->>'phone',
+    0, -- Will be updated below
+    0, -- Will be updated below
+    0, -- Will be updated below
+    'pending'
+  ) RETURNING id INTO _order_id;
+
+  FOREACH _item IN ARRAY order_items LOOP
+    SELECT p.* INTO _product
+    FROM public.products p
+    WHERE p.id = (_item->>'product_id')::UUID
+      AND p.store_id = _store.id
+      AND p.is_public = true
+      AND p.is_active = true;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found or not available: %', _item->>'product_id';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    _variant := NULL;
+
+    IF NULLIF(_item->>'variant_id', '') IS NOT NULL THEN
+      SELECT v.id, v.name, v.price, v.options
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = (_item->>'variant_id')::UUID
+        AND v.product_id = _product.id
+        AND v.is_active;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected option of % is no longer available', _product.name;
+      END IF;
+    ELSIF _product.has_variants THEN
+      RAISE EXCEPTION 'Choose the options for %', _product.name;
+    END IF;
+
+    _item_total := COALESCE(_variant.price, _product.price) * _quantity;
+
+    INSERT INTO public.public_order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      product_name,
+      product_image_url,
+      quantity,
+      unit_price,
+      total_price,
+      selected_variants
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _variant.id,
+      _variant.name,
+      _product.name,
+      _product.image_url,
+      _quantity,
+      _item_total / _quantity,
+      _item_total,
+      COALESCE(_variant.options, '{}'::jsonb)
+    );
+
+    _subtotal := _subtotal + _item_total;
+    _lines := _lines || jsonb_build_object(
+      'product_id', _product.id,
+      'quantity', _quantity,
+      'unit_price', _item_total / _quantity
+    );
+  END LOOP;
+
+  -- Best automatic promotion open to anonymous shoppers
+  FOR _promotion IN
+    SELECT d.id, d.name
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND d.code IS NULL
+      AND d.is_active
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+  LOOP
+    _evaluation := public.evaluate_discount(_promotion.id, _lines, NULL);
+
+    IF (_evaluation->>'eligible')::BOOLEAN
+       AND (_best_promotion IS NULL OR (_evaluation->>'amount')::DECIMAL > (_best_promotion->>'amount')::DECIMAL) THEN
+      _best_promotion := jsonb_build_object(
+        'discount_id', _promotion.id,
+        'name', _promotion.name,
+        'code', NULL,
+        'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+      );
+    END IF;
+  END LOOP;
+
+  IF _best_promotion IS NOT NULL THEN
+    _applied_discounts := _applied_discounts || _best_promotion;
+  END IF;
+
+  IF NULLIF(trim(discount_code_param), '') IS NOT NULL THEN
+    SELECT d.id, d.name, d.code
+    INTO _code_discount
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND upper(d.code) = upper(trim(discount_code_param))
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Discount code % is not valid', trim(discount_code_param);
+    END IF;
+
+    _evaluation := public.evaluate_discount(_code_discount.id, _lines, NULL);
+
+    IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+      RAISE EXCEPTION '%', _evaluation->>'message';
+    END IF;
+
+    _applied_code := _code_discount.code;
+    _applied_discounts := _applied_discounts || jsonb_build_object(
+      'discount_id', _code_discount.id,
+      'name', _code_discount.name,
+      'code', _code_discount.code,
+      'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+    );
+  END IF;
+
+  -- Record redemptions, never taking more off than the cart is worth
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    _discount_share := LEAST(_discount_line.amount, GREATEST(0, _subtotal - _discount_amount));
+    _discount_amount := _discount_amount + _discount_share;
+
+    INSERT INTO public.discount_usage (
+      discount_id,
+      public_order_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _discount_share
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  _tax_amount := (_subtotal - _discount_amount) * COALESCE(_store.tax_rate, 0);
+  _total := _subtotal - _discount_amount + _tax_amount;
+
+  UPDATE public.public_orders
+  SET subtotal = _subtotal,
+      discount_amount = _discount_amount,
+      discount_code = _applied_code,
+      tax_amount = _tax_amount,
+      total = _total,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'order_id', _order_id,
+    'order_code', _order_code,
+    'subtotal', _subtotal,
+    'discount_amount', _discount_amount,
+    'discount_code', _applied_code,
+    'discounts', _applied_discounts,
+    'tax_amount', _tax_amount,
+    'total', _total,
+    'status', 'pending',
+    'store_name', _store.name,
+    'store_phone', _store.phone,
+    'whatsapp_number', _store.whatsapp_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_public_order(TEXT, JSONB, JSONB[], TEXT) TO anon, authenticated;
+
+-- The showcase grid needs to know which products must be opened to pick a variant
+DROP FUNCTION IF EXISTS public.get_public_products(TEXT, TEXT, TEXT);
+
+CREATE OR REPLACE FUNCTION public.get_public_products(store_identifier TEXT, category_filter TEXT DEFAULT NULL, search_query TEXT DEFAULT NULL)
+RETURNS TABLE (
+  product_id UUID,
+  product_name TEXT,
+  product_description TEXT,
+  public_description TEXT,
+  price DECIMAL(10,2),
+  stock_quantity INTEGER,
+  image_url TEXT,
+  category_name TEXT,
+  category_id UUID,
+  show_stock_publicly BOOLEAN,
+  show_price_publicly BOOLEAN,
+  created_at TIMESTAMP WITH TIME ZONE,
+  has_variants BOOLEAN
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  RETURN QUERY
+  SELECT
+    p.id,
+    p.name,
+    p.description,
+    p.public_description,
+    p.price,
+    p.stock_quantity,
+    p.image_url,
+    c.name as category_name,
+    c.id as category_id,
+    p.show_stock_publicly,
+    p.show_price_publicly,
+    p.created_at,
+    p.has_variants
+  FROM public.products p
+  LEFT JOIN public.categories c ON p.category_id = c.id
+  INNER JOIN public.stores s ON p.store_id = s.id
+  WHERE s.enable_public_showcase = true
+    AND p.is_public = true
+    AND p.is_active = true
+    AND (s.id::TEXT = store_identifier OR s.store_code = UPPER(store_identifier) OR s.showcase_slug = LOWER(store_identifier))
+    AND (category_filter IS NULL OR c.name ILIKE '%' || category_filter || '%')
+    AND (search_query IS NULL OR
+         p.name ILIKE '%' || search_query || '%' OR
+         p.description ILIKE '%' || search_query || '%' OR
+         p.public_description ILIKE '%' || search_query || '%')
+  ORDER BY p.created_at DESC;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_products(TEXT, TEXT, TEXT) TO anon, authenticated;
+
+-- Purchase orders are placed and received per variant for products that have them
+
+-- Create a draft PO, or replace the header and lines of an existing draft.
+-- _items: [{ "product_id": uuid, "variant_id": uuid, "quantity": int, "unit_cost": number }]
+-- Products with variants are ordered per variant.
+CREATE OR REPLACE FUNCTION public.save_purchase_order(
+  _store_id UUID,
+  _supplier_id UUID,
+  _items JSONB,
+  _purchase_order_id UUID DEFAULT NULL,
+  _expected_date DATE DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _supplier_name TEXT;
+  _item JSONB;
+  _product RECORD;
+  _variant RECORD;
+  _quantity INTEGER;
+  _unit_cost DECIMAL(10,2);
+  _po public.purchase_orders;
+  _po_number TEXT;
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  SELECT name INTO _supplier_name
+  FROM public.suppliers
+  WHERE id = _supplier_id AND store_id = _store_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Supplier not found');
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Add at least one product to the order');
+  END IF;
+
+  IF _purchase_order_id IS NULL THEN
+    -- Sequential per store; the unique constraint catches a concurrent duplicate
+    SELECT 'PO-' || lpad((COALESCE(MAX(substring(po_number FROM 4)::INTEGER), 0) + 1)::TEXT, 5, '0')
+    INTO _po_number
+    FROM public.purchase_orders
+    WHERE store_id = _store_id
+      AND po_number ~ '^PO-[0-9]+$';
+
+    INSERT INTO public.purchase_orders (
+      store_id,
+      po_number,
+      supplier_id,
+      supplier_name,
+      expected_date,
+      notes,
+      created_by
+    ) VALUES (
+      _store_id,
+      _po_number,
+      _supplier_id,
+      _supplier_name,
+      _expected_date,
+      NULLIF(trim(_notes), ''),
+      auth.uid()
+    )
+    RETURNING * INTO _po;
+  ELSE
+    SELECT * INTO _po
+    FROM public.purchase_orders
+    WHERE id = _purchase_order_id AND store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Purchase order not found');
+    END IF;
+
+    IF _po.status <> 'draft' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only draft purchase orders can be edited');
+    END IF;
+
+    UPDATE public.purchase_orders
+    SET supplier_id = _supplier_id,
+        supplier_name = _supplier_name,
+        expected_date = _expected_date,
+        notes = NULLIF(trim(_notes), ''),
+        updated_at = now()
+    WHERE id = _po.id;
+
+    DELETE FROM public.purchase_order_items WHERE purchase_order_id = _po.id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT id, name, sku, has_variants INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID AND store_id = _store_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found in store %', _item->>'product_id', _store_id;
+    END IF;
+
+    _variant := NULL;
+
+    IF NULLIF(_item->>'variant_id', '') IS NOT NULL THEN
+      SELECT id, name, sku INTO _variant
+      FROM public.product_variants
+      WHERE id = (_item->>'variant_id')::UUID AND product_id = _product.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant % not found on %', _item->>'variant_id', _product.name;
+      END IF;
+    ELSIF _product.has_variants THEN
+      RAISE EXCEPTION 'Choose which variant of % to order', _product.name;
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    _unit_cost := COALESCE((_item->>'unit_cost')::DECIMAL, 0);
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be greater than 0', _product.name;
+    END IF;
+
+    IF _unit_cost < 0 THEN
+      RAISE EXCEPTION 'Cost for % cannot be negative', _product.name;
+    END IF;
+
+    INSERT INTO public.purchase_order_items (
+      store_id,
+      purchase_order_id,
+      product_id,
+      variant_id,
+      product_name,
+      variant_name,
+      sku,
+      quantity_ordered,
+      unit_cost
+    ) VALUES (
+      _store_id,
+      _po.id,
+      _product.id,
+      _variant.id,
+      _product.name,
+      _variant.name,
+      COALESCE(_variant.sku, _product.sku),
+      _quantity,
+      _unit_cost
+    );
+  END LOOP;
+
+  UPDATE public.purchase_orders
+  SET total_cost = (
+    SELECT COALESCE(SUM(quantity_ordered * unit_cost), 0)
+    FROM public.purchase_order_items
+    WHERE purchase_order_id = _po.id
+  )
+  WHERE id = _po.id
+  RETURNING * INTO _po;
+
+  RETURN jsonb_build_object('success', true, 'purchase_order', to_jsonb(_po));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_purchase_order(UUID, UUID, JSONB, UUID, DATE, TEXT) TO authenticated;
+
+-- Book a delivery against a PO. Each line adds stock, writes a restock adjustment that
+-- references the PO and updates the product cost, either to the delivered cost ('last')
+-- or to the average of stock on hand and the delivery ('weighted_average'). Variant lines
+-- update the variant's stock and cost; the product total follows by trigger.
+-- _items: [{ "item_id": uuid, "quantity": int, "unit_cost": number }]
+CREATE OR REPLACE FUNCTION public.receive_purchase_order(
+  _purchase_order_id UUID,
+  _items JSONB,
+  _cost_method TEXT DEFAULT 'last',
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _po public.purchase_orders;
+  _receipt public.purchase_order_receipts;
+  _item JSONB;
+  _line public.purchase_order_items;
+  _product RECORD;
+  _quantity INTEGER;
+  _unit_cost DECIMAL(10,2);
+  _on_hand INTEGER;
+  _new_cost DECIMAL(10,2);
+  _received_total DECIMAL(10,2) := 0;
+  _lines_received INTEGER := 0;
+BEGIN
+  SELECT * INTO _po
+  FROM public.purchase_orders
+  WHERE id = _purchase_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_po.store_id) THEN
+    RAISE EXCEPTION 'Access denied to purchase order %', _purchase_order_id;
+  END IF;
+
+  IF _po.status NOT IN ('ordered', 'partially_received') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only ordered purchase orders can be received');
+  END IF;
+
+  IF _cost_method NOT IN ('last', 'weighted_average') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown cost method');
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter the quantities received');
+  END IF;
+
+  INSERT INTO public.purchase_order_receipts (
+    store_id,
+    purchase_order_id,
+    cost_method,
+    notes,
+    received_by
+  ) VALUES (
+    _po.store_id,
+    _po.id,
+    _cost_method,
+    NULLIF(trim(_notes), ''),
+    auth.uid()
+  )
+  RETURNING * INTO _receipt;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    _quantity := COALESCE((_item->>'quantity')::INTEGER, 0);
+    CONTINUE WHEN _quantity = 0;
+
+    SELECT * INTO _line
+    FROM public.purchase_order_items
+    WHERE id = (_item->>'item_id')::UUID
+      AND purchase_order_id = _po.id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Line % is not on purchase order %', _item->>'item_id', _po.po_number;
+    END IF;
+
+    IF _quantity < 0 THEN
+      RAISE EXCEPTION 'Received quantity for % cannot be negative', _line.product_name;
+    END IF;
+
+    IF _line.quantity_received + _quantity > _line.quantity_ordered THEN
+      RAISE EXCEPTION 'Only % more of % are outstanding on this order',
+        _line.quantity_ordered - _line.quantity_received, _line.product_name;
+    END IF;
+
+    IF _line.product_id IS NULL THEN
+      RAISE EXCEPTION '% has been deleted and cannot be received', _line.product_name;
+    END IF;
+
+    _unit_cost := COALESCE((_item->>'unit_cost')::DECIMAL, _line.unit_cost);
+    IF _unit_cost < 0 THEN
+      RAISE EXCEPTION 'Cost for % cannot be negative', _line.product_name;
+    END IF;
+
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT product_id AS id, id AS variant_id, stock_quantity, cost INTO _product
+      FROM public.product_variants
+      WHERE id = _line.variant_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% (%) has been deleted and cannot be received', _line.product_name, _line.variant_name;
+      END IF;
+    ELSE
+      SELECT id, NULL::UUID AS variant_id, stock_quantity, cost INTO _product
+      FROM public.products
+      WHERE id = _line.product_id
+      FOR UPDATE;
+    END IF;
+
+    _on_hand := GREATEST(COALESCE(_product.stock_quantity, 0), 0);
+
+    IF _cost_method = 'weighted_average' AND _product.cost IS NOT NULL AND _on_hand > 0 THEN
+      _new_cost := round((_on_hand * _product.cost + _quantity * _unit_cost) / (_on_hand + _quantity), 2);
+    ELSE
+      _new_cost := _unit_cost;
+    END IF;
+
+    IF _product.variant_id IS NOT NULL THEN
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity + _quantity,
+          cost = _new_cost,
+          updated_at = now()
+      WHERE id = _product.variant_id;
+    ELSE
+      UPDATE public.products
+      SET stock_quantity = COALESCE(stock_quantity, 0) + _quantity,
+          cost = _new_cost,
+          updated_at = now()
+      WHERE id = _product.id;
+    END IF;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _po.store_id,
+      _product.id,
+      _product.variant_id,
+      auth.uid(),
+      'restock',
+      _quantity,
+      COALESCE(_product.stock_quantity, 0),
+      COALESCE(_product.stock_quantity, 0) + _quantity,
+      'Received on ' || _po.po_number,
+      _po.id
+    );
+
+    UPDATE public.purchase_order_items
+    SET quantity_received = quantity_received + _quantity
+    WHERE id = _line.id;
+
+    INSERT INTO public.purchase_order_receipt_items (
+      receipt_id,
+      purchase_order_item_id,
+      product_id,
+      quantity,
+      unit_cost,
+      previous_cost,
+      new_cost
+    ) VALUES (
+      _receipt.id,
+      _line.id,
+      _product.id,
+      _quantity,
+      _unit_cost,
+      _product.cost,
+      _new_cost
+    );
+
+    _received_total := _received_total + _quantity * _unit_cost;
+    _lines_received := _lines_received + 1;
+  END LOOP;
+
+  IF _lines_received = 0 THEN
+    RAISE EXCEPTION 'Enter the quantities received';
+  END IF;
+
+  UPDATE public.purchase_order_receipts
+  SET total_cost = _received_total
+  WHERE id = _receipt.id
+  RETURNING * INTO _receipt;
+
+  UPDATE public.purchase_orders
+  SET received_cost = received_cost + _received_total,
+      status = CASE
+        WHEN EXISTS (
+          SELECT 1 FROM public.purchase_order_items
+          WHERE purchase_order_id = _po.id
+            AND quantity_received < quantity_ordered
+        ) THEN 'partially_received'
+        ELSE 'received'
+      END,
+      received_at = now(),
+      updated_at = now()
+  WHERE id = _po.id
+  RETURNING * INTO _po;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'purchase_order', to_jsonb(_po),
+    'receipt', to_jsonb(_receipt)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_purchase_order(UUID, JSONB, TEXT, TEXT) TO authenticated;
+
+
+-- Suggested order quantities. Daily velocity is units sold on completed orders over the
+-- last _sales_days. We aim to hold the low stock threshold plus _cover_days of sales, and
+-- count stock already on open POs so the same shortfall isn't ordered twice. Products with
+-- variants are suggested per variant, against the product's threshold.
+CREATE OR REPLACE FUNCTION public.get_reorder_suggestions(
+  _store_id UUID,
+  _sales_days INTEGER DEFAULT 30,
+  _cover_days INTEGER DEFAULT 14
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _result JSONB;
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  _sales_days := GREATEST(COALESCE(_sales_days, 30), 1);
+  _cover_days := GREATEST(COALESCE(_cover_days, 14), 0);
+
+  WITH sales AS (
+    SELECT oi.product_id, oi.variant_id, SUM(oi.quantity) AS sold
+    FROM public.order_items oi
+    JOIN public.orders o ON o.id = oi.order_id
+    WHERE o.store_id = _store_id
+      AND o.status = 'completed'
+      AND o.created_at >= now() - make_interval(days => _sales_days)
+    GROUP BY oi.product_id, oi.variant_id
+  ),
+  on_order AS (
+    SELECT poi.product_id, poi.variant_id, SUM(poi.quantity_ordered - poi.quantity_received) AS quantity
+    FROM public.purchase_order_items poi
+    JOIN public.purchase_orders po ON po.id = poi.purchase_order_id
+    WHERE po.store_id = _store_id
+      AND po.status IN ('draft', 'ordered', 'partially_received')
+    GROUP BY poi.product_id, poi.variant_id
+  ),
+  candidates AS (
+    SELECT p.id,
+           NULL::UUID AS variant_id,
+           p.name,
+           NULL::TEXT AS variant_name,
+           p.sku,
+           p.supplier_id,
+           s.name AS supplier_name,
+           p.cost,
+           COALESCE(p.stock_quantity, 0) AS stock_quantity,
+           COALESCE(p.low_stock_threshold, 0) AS low_stock_threshold,
+           COALESCE(sa.sold, 0) AS sold,
+           COALESCE(oo.quantity, 0) AS on_order,
+           COALESCE(sa.sold, 0)::NUMERIC / _sales_days AS daily_velocity
+    FROM public.products p
+    LEFT JOIN public.suppliers s ON s.id = p.supplier_id
+    LEFT JOIN sales sa ON sa.product_id = p.id AND sa.variant_id IS NULL
+    LEFT JOIN on_order oo ON oo.product_id = p.id AND oo.variant_id IS NULL
+    WHERE p.store_id = _store_id
+      AND NOT p.has_variants
+      AND COALESCE(p.is_active, true)
+    UNION ALL
+    SELECT p.id,
+           v.id,
+           p.name,
+           v.name,
+           COALESCE(v.sku, p.sku),
+           p.supplier_id,
+           s.name,
+           COALESCE(v.cost, p.cost),
+           v.stock_quantity,
+           COALESCE(p.low_stock_threshold, 0),
+           COALESCE(sa.sold, 0),
+           COALESCE(oo.quantity, 0),
+           COALESCE(sa.sold, 0)::NUMERIC / _sales_days
+    FROM public.product_variants v
+    JOIN public.products p ON p.id = v.product_id
+    LEFT JOIN public.suppliers s ON s.id = p.supplier_id
+    LEFT JOIN sales sa ON sa.variant_id = v.id
+    LEFT JOIN on_order oo ON oo.variant_id = v.id
+    WHERE p.store_id = _store_id
+      AND p.has_variants
+      AND v.is_active
+      AND COALESCE(p.is_active, true)
+  ),
+  suggestions AS (
+    SELECT c.*,
+           c.low_stock_threshold + CEIL(c.daily_velocity * _cover_days)::INTEGER AS target_stock
+    FROM candidates c
+  )
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'product_id', id,
+      'variant_id', variant_id,
+      'name', name,
+      'variant_name', variant_name,
+      'sku', sku,
+      'supplier_id', supplier_id,
+      'supplier_name', supplier_name,
+      'unit_cost', cost,
+      'stock_quantity', stock_quantity,
+      'low_stock_threshold', low_stock_threshold,
+      'sold', sold,
+      'daily_velocity', round(daily_velocity, 2),
+      'on_order', on_order,
+      'target_stock', target_stock,
+      'suggested_quantity', target_stock - stock_quantity - on_order
+    ) ORDER BY supplier_name NULLS LAST, name, variant_name), '[]'::jsonb)
+  INTO _result
+  FROM suggestions
+  WHERE target_stock - stock_quantity - on_order > 0;
+
+  RETURN _result;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_reorder_suggestions(UUID, INTEGER, INTEGER) TO authenticated;
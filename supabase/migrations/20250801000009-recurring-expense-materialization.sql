@@ -0,0 +1,333 @@
+-- Migration: Recurring Expense Materialization
+-- Description: Turn due recurring expenses into expense entries on a schedule, advance their next
+-- due date, honour end dates, and tell the store owner what was generated
+-- Date: 2025-08-01
+
+-- The table behind RecurringExpensesView was created outside the migrations; make sure it exists
+CREATE TABLE IF NOT EXISTS public.recurring_expenses (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  category_id UUID REFERENCES public.expense_categories(id) ON DELETE SET NULL,
+  title TEXT NOT NULL,
+  description TEXT,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  frequency TEXT NOT NULL DEFAULT 'monthly',
+  start_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  end_date DATE,
+  next_due_date DATE NOT NULL,
+  payment_method TEXT DEFAULT 'bank_transfer' CHECK (payment_method IN ('cash', 'card', 'bank_transfer', 'check', 'other')),
+  vendor_name TEXT,
+  vendor_contact TEXT,
+  is_active BOOLEAN NOT NULL DEFAULT true,
+  auto_create BOOLEAN NOT NULL DEFAULT true,
+  notes TEXT,
+  created_by UUID NOT NULL REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+-- approval_mode decides the status of generated entries: 'pending_review' leaves them
+-- pending for the owner to check, 'auto_approve' books them as approved straight away
+ALTER TABLE public.recurring_expenses
+  ADD COLUMN IF NOT EXISTS approval_mode TEXT NOT NULL DEFAULT 'pending_review',
+  ADD COLUMN IF NOT EXISTS last_generated_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.recurring_expenses DROP CONSTRAINT IF EXISTS recurring_expenses_frequency_check;
+ALTER TABLE public.recurring_expenses ADD CONSTRAINT recurring_expenses_frequency_check
+  CHECK (frequency IN ('weekly', 'monthly', 'quarterly', 'yearly'));
+
+ALTER TABLE public.recurring_expenses DROP CONSTRAINT IF EXISTS recurring_expenses_approval_mode_check;
+ALTER TABLE public.recurring_expenses ADD CONSTRAINT recurring_expenses_approval_mode_check
+  CHECK (approval_mode IN ('pending_review', 'auto_approve'));
+
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_store ON public.recurring_expenses(store_id, next_due_date);
+CREATE INDEX IF NOT EXISTS idx_recurring_expenses_due ON public.recurring_expenses(next_due_date)
+  WHERE is_active AND auto_create;
+
+ALTER TABLE public.recurring_expenses ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Store access for recurring_expenses" ON public.recurring_expenses;
+CREATE POLICY "Store access for recurring_expenses" ON public.recurring_expenses
+  FOR ALL USING (public.user_can_access_store(store_id))
+  WITH CHECK (public.user_can_access_store(store_id));
+
+-- Each occurrence is generated once: the due date it was generated for is kept on the expense
+ALTER TABLE public.expenses
+  ADD COLUMN IF NOT EXISTS recurring_expense_id UUID REFERENCES public.recurring_expenses(id) ON DELETE SET NULL,
+  ADD COLUMN IF NOT EXISTS recurring_due_date DATE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_expenses_recurring_occurrence
+  ON public.expenses(recurring_expense_id, recurring_due_date)
+  WHERE recurring_expense_id IS NOT NULL;
+
+-- In-app notices for the store owner, starting with generated recurring expenses
+CREATE TABLE IF NOT EXISTS public.store_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  notification_type TEXT NOT NULL,
+  title TEXT NOT NULL,
+  message TEXT NOT NULL,
+  data JSONB NOT NULL DEFAULT '{}'::jsonb,
+  is_read BOOLEAN NOT NULL DEFAULT false,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_notifications_user_unread
+  ON public.store_notifications(user_id, store_id, is_read, created_at DESC);
+
+ALTER TABLE public.store_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own store notifications" ON public.store_notifications
+  FOR SELECT USING (user_id = auth.uid());
+
+CREATE POLICY "Users can mark their own store notifications read" ON public.store_notifications
+  FOR UPDATE USING (user_id = auth.uid())
+  WITH CHECK (user_id = auth.uid());
+
+-- The due date after _current for a schedule anchored on _start. Month based schedules are
+-- counted from the start date so a template on the 31st lands on the last day of short months
+-- and goes back to the 31st afterwards.
+CREATE OR REPLACE FUNCTION public.next_recurring_due_date(_start DATE, _frequency TEXT, _current DATE)
+RETURNS DATE
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _step INTEGER;
+  _elapsed INTEGER;
+  _periods INTEGER;
+  _next DATE;
+BEGIN
+  IF _frequency = 'weekly' THEN
+    RETURN _current + 7;
+  END IF;
+
+  _step := CASE _frequency
+    WHEN 'monthly' THEN 1
+    WHEN 'quarterly' THEN 3
+    WHEN 'yearly' THEN 12
+  END;
+
+  IF _step IS NULL THEN
+    RAISE EXCEPTION 'Unknown recurring frequency %', _frequency;
+  END IF;
+
+  _elapsed := (EXTRACT(YEAR FROM age(_current, _start)) * 12 + EXTRACT(MONTH FROM age(_current, _start)))::INTEGER;
+  _periods := GREATEST(_elapsed / _step, 0) + 1;
+  _next := (_start + make_interval(months => _periods * _step))::DATE;
+
+  IF _next <= _current THEN
+    _next := (_start + make_interval(months => (_periods + 1) * _step))::DATE;
+  END IF;
+
+  RETURN _next;
+END;
+$$;
+
+-- True for the service role key and for jobs run inside the database such as pg_cron, which
+-- carry no JWT at all. Anonymous and signed-in API callers never are.
+CREATE OR REPLACE FUNCTION public.is_service_caller()
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(auth.role(), 'service_role') = 'service_role';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.is_service_caller() FROM PUBLIC;
+
+-- Generate an expense for every occurrence that has come due on or before _as_of, across all
+-- stores when run by the scheduler or for one store when a manager runs it from the app.
+-- Missed occurrences are caught up one entry each. A template whose end date has passed is
+-- paused. The owner of each store gets one notification listing what was generated.
+-- _dry_run reports what would be generated without writing anything.
+CREATE OR REPLACE FUNCTION public.materialize_recurring_expenses(
+  _as_of DATE DEFAULT CURRENT_DATE,
+  _store_id UUID DEFAULT NULL,
+  _dry_run BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _template public.recurring_expenses;
+  _due DATE;
+  _expense_id UUID;
+  _expense_number TEXT;
+  _status TEXT;
+  _generated JSONB := '[]'::jsonb;
+  _store_generated JSONB;
+  _ended INTEGER := 0;
+  _store RECORD;
+  _total DECIMAL(10,2);
+BEGIN
+  -- Signed-in callers can only run their own store, up to today; every store and other
+  -- dates are left to the scheduler
+  IF auth.uid() IS NOT NULL THEN
+    IF _store_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+      RAISE EXCEPTION 'Access denied to store %', _store_id;
+    END IF;
+
+    IF _as_of > CURRENT_DATE THEN
+      RAISE EXCEPTION 'Recurring expenses can only be generated up to today';
+    END IF;
+  ELSIF NOT public.is_service_caller() THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  FOR _template IN
+    SELECT * FROM public.recurring_expenses
+    WHERE is_active
+      AND auto_create
+      AND next_due_date <= _as_of
+      AND (_store_id IS NULL OR store_id = _store_id)
+    ORDER BY store_id, next_due_date
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    _due := _template.next_due_date;
+    _status := CASE WHEN _template.approval_mode = 'auto_approve' THEN 'approved' ELSE 'pending' END;
+
+    WHILE _due <= _as_of AND (_template.end_date IS NULL OR _due <= _template.end_date)
+    LOOP
+      _expense_id := NULL;
+      _expense_number := NULL;
+
+      IF NOT _dry_run THEN
+        _expense_number := public.generate_expense_number(_template.store_id);
+
+        INSERT INTO public.expenses (
+          store_id,
+          category_id,
+          expense_number,
+          title,
+          description,
+          amount,
+          expense_date,
+          payment_method,
+          vendor_name,
+          vendor_contact,
+          status,
+          notes,
+          created_by,
+          approved_by,
+          recurring_expense_id,
+          recurring_due_date
+        ) VALUES (
+          _template.store_id,
+          _template.category_id,
+          _expense_number,
+          _template.title,
+          _template.description,
+          _template.amount,
+          _due,
+          _template.payment_method,
+          _template.vendor_name,
+          _template.vendor_contact,
+          _status,
+          _template.notes,
+          _template.created_by,
+          CASE WHEN _status = 'approved' THEN _template.created_by END,
+          _template.id,
+          _due
+        )
+        ON CONFLICT (recurring_expense_id, recurring_due_date) WHERE recurring_expense_id IS NOT NULL
+        DO NOTHING
+        RETURNING id INTO _expense_id;
+      END IF;
+
+      IF _dry_run OR _expense_id IS NOT NULL THEN
+        _generated := _generated || jsonb_build_object(
+          'store_id', _template.store_id,
+          'recurring_expense_id', _template.id,
+          'expense_id', _expense_id,
+          'expense_number', _expense_number,
+          'title', _template.title,
+          'amount', _template.amount,
+          'expense_date', _due,
+          'status', _status
+        );
+      END IF;
+
+      _due := public.next_recurring_due_date(_template.start_date, _template.frequency, _due);
+    END LOOP;
+
+    IF NOT _dry_run THEN
+      UPDATE public.recurring_expenses
+      SET next_due_date = _due,
+          is_active = _template.end_date IS NULL OR _due <= _template.end_date,
+          last_generated_at = now(),
+          updated_at = now()
+      WHERE id = _template.id;
+    END IF;
+
+    IF _template.end_date IS NOT NULL AND _due > _template.end_date THEN
+      _ended := _ended + 1;
+    END IF;
+  END LOOP;
+
+  IF NOT _dry_run THEN
+    FOR _store IN
+      SELECT s.id, s.owner_id
+      FROM public.stores s
+      WHERE s.id IN (SELECT DISTINCT (g->>'store_id')::UUID FROM jsonb_array_elements(_generated) g)
+        AND s.owner_id IS NOT NULL
+    LOOP
+      SELECT jsonb_agg(g), SUM((g->>'amount')::DECIMAL)
+      INTO _store_generated, _total
+      FROM jsonb_array_elements(_generated) g
+      WHERE (g->>'store_id')::UUID = _store.id;
+
+      INSERT INTO public.store_notifications (
+        store_id,
+        user_id,
+        notification_type,
+        title,
+        message,
+        data
+      ) VALUES (
+        _store.id,
+        _store.owner_id,
+        'recurring_expenses_generated',
+        CASE WHEN jsonb_array_length(_store_generated) = 1
+          THEN '1 recurring expense recorded'
+          ELSE jsonb_array_length(_store_generated) || ' recurring expenses recorded'
+        END,
+        (SELECT string_agg(g->>'title' || ' (' || (g->>'expense_date') || ')', ', ' ORDER BY g->>'expense_date')
+         FROM jsonb_array_elements(_store_generated) g)
+          || ' - total ' || to_char(_total, 'FM999999990.00'),
+        jsonb_build_object('expenses', _store_generated, 'total', _total)
+      );
+    END LOOP;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'as_of', _as_of,
+    'dry_run', _dry_run,
+    'generated_count', jsonb_array_length(_generated),
+    'ended_count', _ended,
+    'generated', _generated
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.next_recurring_due_date(DATE, TEXT, DATE) TO authenticated;
+REVOKE EXECUTE ON FUNCTION public.materialize_recurring_expenses(DATE, UUID, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.materialize_recurring_expenses(DATE, UUID, BOOLEAN) TO authenticated, service_role;
+
+-- Run every morning where pg_cron is available (hosted projects enable it from the dashboard);
+-- elsewhere call materialize_recurring_expenses() from any scheduler with the service role key
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'materialize-recurring-expenses';
+    PERFORM cron.schedule(
+      'materialize-recurring-expenses',
+      '15 0 * * *',
+      'SELECT public.materialize_recurring_expenses()'
+    );
+  END IF;
+END;
+$$;
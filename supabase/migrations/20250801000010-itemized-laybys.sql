@@ -0,0 +1,697 @@
+-- Migration: Itemized Laybys
+-- Description: Create laybys from products with stock held back until the layby is completed or
+-- cancelled, an installment schedule built from the store's layby settings, and payments that
+-- settle schedule rows in due order
+-- Date: 2025-08-01
+
+-- Stock taken off the shelf for a layby is recorded like any other stock movement
+ALTER TABLE public.stock_adjustments
+DROP CONSTRAINT IF EXISTS stock_adjustments_adjustment_type_check;
+
+ALTER TABLE public.stock_adjustments
+ADD CONSTRAINT stock_adjustments_adjustment_type_check
+CHECK (adjustment_type IN ('manual', 'sale', 'return', 'damage', 'restock', 'transfer', 'layby_reserve'));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_layby_payment_schedules_number
+ON public.layby_payment_schedules(layby_order_id, payment_number);
+
+CREATE INDEX IF NOT EXISTS idx_layby_items_layby_order ON public.layby_items(layby_order_id);
+
+-- Installments are spread evenly over the balance left after the deposit, one interval apart
+-- starting one interval after _start_date. Monthly plans fall on the same day of each month.
+-- With no _installments the original fixed plans apply (4 weekly, 4 bi-weekly, 3 monthly).
+DROP FUNCTION IF EXISTS public.generate_payment_schedule(UUID, TEXT, DATE, DECIMAL, DECIMAL);
+
+CREATE OR REPLACE FUNCTION public.generate_payment_schedule(
+  _layby_order_id UUID,
+  _schedule_type TEXT,
+  _start_date DATE,
+  _total_amount DECIMAL(10,2),
+  _deposit_amount DECIMAL(10,2),
+  _installments INTEGER DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store_id UUID;
+  _remaining_amount DECIMAL(10,2);
+  _payment_amount DECIMAL(10,2);
+  _payment_count INTEGER;
+  _step INTERVAL;
+BEGIN
+  SELECT store_id INTO _store_id
+  FROM public.layby_orders
+  WHERE id = _layby_order_id;
+
+  IF _store_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  CASE _schedule_type
+    WHEN 'weekly' THEN
+      _step := INTERVAL '7 days';
+      _payment_count := COALESCE(_installments, 4);
+    WHEN 'bi_weekly' THEN
+      _step := INTERVAL '14 days';
+      _payment_count := COALESCE(_installments, 4);
+    WHEN 'monthly' THEN
+      _step := INTERVAL '1 month';
+      _payment_count := COALESCE(_installments, 3);
+    ELSE
+      RETURN; -- Custom schedules handled separately
+  END CASE;
+
+  _remaining_amount := _total_amount - _deposit_amount;
+
+  IF _payment_count < 1 OR _remaining_amount <= 0 THEN
+    RETURN;
+  END IF;
+
+  _payment_amount := ROUND(_remaining_amount / _payment_count, 2);
+
+  FOR i IN 1.._payment_count LOOP
+    INSERT INTO public.layby_payment_schedules (
+      layby_order_id,
+      payment_number,
+      due_date,
+      amount_due
+    ) VALUES (
+      _layby_order_id,
+      i,
+      (_start_date + _step * i)::DATE,
+      -- The last installment absorbs the rounding difference
+      CASE WHEN i = _payment_count
+        THEN _remaining_amount - _payment_amount * (_payment_count - 1)
+        ELSE _payment_amount
+      END
+    );
+  END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.generate_payment_schedule(UUID, TEXT, DATE, DECIMAL, DECIMAL, INTEGER) TO authenticated;
+
+-- Create a layby from products. Every line is validated before anything is written and all
+-- problems come back together in `errors`, the same way checkout reports them. When the store
+-- reserves inventory for laybys the items leave sellable stock straight away.
+CREATE OR REPLACE FUNCTION public.create_layby(
+  _store_id UUID,
+  _items JSONB,
+  _customer_name TEXT,
+  _customer_phone TEXT DEFAULT NULL,
+  _customer_email TEXT DEFAULT NULL,
+  _customer_id UUID DEFAULT NULL,
+  _deposit_amount DECIMAL(10,2) DEFAULT 0,
+  _deposit_method TEXT DEFAULT 'cash',
+  _schedule_type TEXT DEFAULT 'monthly',
+  _installments INTEGER DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _settings RECORD;
+  _require_deposit_percent DECIMAL(5,2);
+  _max_duration_days INTEGER;
+  _reserve BOOLEAN;
+  _line RECORD;
+  _product RECORD;
+  _variant RECORD;
+  _label TEXT;
+  _errors JSONB := '[]'::jsonb;
+  _total DECIMAL(10,2) := 0;
+  _minimum_deposit DECIMAL(10,2);
+  _step INTERVAL;
+  _payment_count INTEGER;
+  _due_date DATE;
+  _layby_id UUID;
+  _layby_number TEXT;
+  _transaction_number TEXT;
+BEGIN
+  IF _user_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  SELECT * INTO _settings
+  FROM public.layby_settings
+  WHERE store_id = _store_id;
+
+  _require_deposit_percent := COALESCE(_settings.require_deposit_percent, 20);
+  _max_duration_days := COALESCE(_settings.max_layby_duration_days, 90);
+  _reserve := COALESCE(_settings.inventory_reservation_enabled, true);
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Add at least one product to the layby'
+      ))
+    );
+  END IF;
+
+  IF COALESCE(trim(_customer_name), '') = '' THEN
+    _errors := _errors || jsonb_build_object(
+      'code', 'customer_required',
+      'message', 'Customer name is required'
+    );
+  END IF;
+
+  -- Lock in a stable order so a layby and a till sale on the same product serialize
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.store_id = _store_id
+    AND v.id IN (SELECT NULLIF(value->>'variant_id', '')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY v.id
+  FOR UPDATE;
+
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    SELECT p.id, p.name, p.price, p.stock_quantity, p.is_active, p.has_variants
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+      CONTINUE;
+    END IF;
+
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT v.id, v.name, v.price, v.stock_quantity, v.is_active
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = _line.variant_id
+        AND v.product_id = _product.id;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'product_id', _product.id,
+          'variant_id', _line.variant_id,
+          'product_name', _product.name,
+          'code', 'not_found',
+          'requested', _line.quantity,
+          'message', _product.name || ': this variant no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _label := _product.name || ' (' || _variant.name || ')';
+      _product.price := _variant.price;
+      _product.stock_quantity := _variant.stock_quantity;
+      _product.is_active := _product.is_active AND _variant.is_active;
+    ELSIF _product.has_variants THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'variant_required',
+        'requested', _line.quantity,
+        'message', 'Choose a variant of ' || _product.name
+      );
+      CONTINUE;
+    ELSE
+      _label := _product.name;
+    END IF;
+
+    IF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _label || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _label || ' must be at least 1'
+      );
+    ELSIF _reserve AND _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _label || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSE
+      _total := _total + _product.price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  -- Deposit rules follow the store's layby settings
+  _minimum_deposit := ROUND(_total * _require_deposit_percent / 100, 2);
+
+  IF COALESCE(_deposit_amount, 0) < _minimum_deposit THEN
+    _errors := _errors || jsonb_build_object(
+      'code', 'deposit_too_low',
+      'minimum', _minimum_deposit,
+      'message', 'A deposit of at least ' || _minimum_deposit || ' (' || _require_deposit_percent || '%) is required'
+    );
+  ELSIF _total > 0 AND _deposit_amount >= _total THEN
+    _errors := _errors || jsonb_build_object(
+      'code', 'deposit_too_high',
+      'message', 'The deposit covers the whole amount - ring this up as a sale instead'
+    );
+  END IF;
+
+  -- The last installment has to fall within the longest layby the store allows
+  CASE _schedule_type
+    WHEN 'weekly' THEN
+      _step := INTERVAL '7 days';
+      _payment_count := COALESCE(_installments, 4);
+    WHEN 'bi_weekly' THEN
+      _step := INTERVAL '14 days';
+      _payment_count := COALESCE(_installments, 4);
+    WHEN 'monthly' THEN
+      _step := INTERVAL '1 month';
+      _payment_count := COALESCE(_installments, 3);
+    ELSE
+      _errors := _errors || jsonb_build_object(
+        'code', 'invalid_schedule',
+        'message', 'Choose a weekly, bi-weekly or monthly payment plan'
+      );
+  END CASE;
+
+  IF _step IS NOT NULL THEN
+    IF _payment_count < 1 THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'invalid_schedule',
+        'message', 'The payment plan needs at least one installment'
+      );
+    ELSE
+      _due_date := (CURRENT_DATE + _step * _payment_count)::DATE;
+
+      IF _due_date > CURRENT_DATE + _max_duration_days THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'duration_exceeded',
+          'max_days', _max_duration_days,
+          'message', 'The last payment would be due ' || _due_date ||
+            ', past the ' || _max_duration_days || ' day layby limit'
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  _layby_number := public.generate_layby_number(_store_id);
+
+  INSERT INTO public.layby_orders (
+    store_id,
+    layby_number,
+    customer_id,
+    customer_name,
+    customer_phone,
+    customer_email,
+    total_amount,
+    deposit_amount,
+    balance_remaining,
+    status,
+    due_date,
+    payment_schedule_type,
+    inventory_reserved,
+    notes,
+    created_by
+  ) VALUES (
+    _store_id,
+    _layby_number,
+    _customer_id,
+    trim(_customer_name),
+    NULLIF(trim(_customer_phone), ''),
+    NULLIF(trim(_customer_email), ''),
+    _total,
+    _deposit_amount,
+    _total - _deposit_amount,
+    'active',
+    _due_date,
+    _schedule_type,
+    _reserve,
+    NULLIF(trim(_notes), ''),
+    _user_id
+  ) RETURNING id INTO _layby_id;
+
+  -- Write the items and take reserved stock off the shelf. Variant lines hold the
+  -- variant's stock; the product's total follows through its trigger.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT p.id, v.id AS variant_id, v.name AS variant_name, v.price, v.stock_quantity
+      INTO _product
+      FROM public.product_variants v
+      JOIN public.products p ON p.id = v.product_id
+      WHERE v.id = _line.variant_id;
+    ELSE
+      SELECT p.id, NULL::UUID AS variant_id, NULL::TEXT AS variant_name, p.price, p.stock_quantity
+      INTO _product
+      FROM public.products p
+      WHERE p.id = _line.product_id;
+    END IF;
+
+    INSERT INTO public.layby_items (
+      layby_order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _layby_id,
+      _product.id,
+      _product.variant_id,
+      _product.variant_name,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    IF _reserve THEN
+      IF _product.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity - _line.quantity,
+            updated_at = now()
+        WHERE id = _product.variant_id;
+      ELSE
+        UPDATE public.products
+        SET stock_quantity = stock_quantity - _line.quantity,
+            updated_at = now()
+        WHERE id = _product.id;
+      END IF;
+
+      INSERT INTO public.stock_adjustments (
+        store_id,
+        product_id,
+        variant_id,
+        user_id,
+        adjustment_type,
+        quantity_change,
+        previous_quantity,
+        new_quantity,
+        reason,
+        reference_id
+      ) VALUES (
+        _store_id,
+        _product.id,
+        _product.variant_id,
+        _user_id,
+        'layby_reserve',
+        -_line.quantity,
+        _product.stock_quantity,
+        _product.stock_quantity - _line.quantity,
+        'Reserved for layby ' || _layby_number,
+        _layby_id
+      );
+    END IF;
+  END LOOP;
+
+  IF _deposit_amount > 0 THEN
+    SELECT public.generate_transaction_number(_store_id) INTO _transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _store_id,
+      _transaction_number,
+      'layby_deposit',
+      _deposit_amount,
+      COALESCE(_deposit_method, 'cash'),
+      _layby_id,
+      'layby_order',
+      _customer_id,
+      trim(_customer_name),
+      'Deposit for layby ' || _layby_number,
+      _user_id
+    );
+  END IF;
+
+  PERFORM public.generate_payment_schedule(
+    _layby_id, _schedule_type, CURRENT_DATE, _total, _deposit_amount, _payment_count
+  );
+
+  INSERT INTO public.layby_history (
+    layby_order_id,
+    action_type,
+    action_description,
+    new_values,
+    amount_involved,
+    performed_by
+  ) VALUES (
+    _layby_id,
+    'created',
+    'Layby created with a deposit of ' || _deposit_amount,
+    jsonb_build_object(
+      'total_amount', _total,
+      'deposit_amount', _deposit_amount,
+      'payment_schedule_type', _schedule_type,
+      'installments', _payment_count,
+      'due_date', _due_date,
+      'inventory_reserved', _reserve
+    ),
+    _deposit_amount,
+    _user_id
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'layby', jsonb_build_object(
+      'id', _layby_id,
+      'layby_number', _layby_number,
+      'total_amount', _total,
+      'deposit_amount', _deposit_amount,
+      'balance_remaining', _total - _deposit_amount,
+      'due_date', _due_date,
+      'inventory_reserved', _reserve,
+      'schedule', (
+        SELECT COALESCE(jsonb_agg(jsonb_build_object(
+          'payment_number', s.payment_number,
+          'due_date', s.due_date,
+          'amount_due', s.amount_due
+        ) ORDER BY s.payment_number), '[]'::jsonb)
+        FROM public.layby_payment_schedules s
+        WHERE s.layby_order_id = _layby_id
+      )
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_layby(UUID, JSONB, TEXT, TEXT, TEXT, UUID, DECIMAL, TEXT, TEXT, INTEGER, TEXT) TO authenticated;
+
+-- Record a layby payment. The amount settles the earliest open installments first, and the
+-- layby is completed once nothing is left to pay.
+CREATE OR REPLACE FUNCTION public.process_layby_payment(
+  _layby_order_id UUID,
+  _payment_amount DECIMAL(10,2),
+  _payment_method TEXT,
+  _payment_reference TEXT,
+  _notes TEXT,
+  _processed_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _layby RECORD;
+  _payment_id UUID;
+  _new_balance DECIMAL(10,2);
+  _transaction_number TEXT;
+  _processor UUID := COALESCE(_processed_by, auth.uid());
+  _installment RECORD;
+  _unapplied DECIMAL(10,2);
+  _applied DECIMAL(10,2);
+BEGIN
+  SELECT id, store_id, layby_number, customer_id, customer_name, balance_remaining, status
+  INTO _layby
+  FROM public.layby_orders
+  WHERE id = _layby_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_layby.store_id) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  IF _layby.status NOT IN ('active', 'overdue') THEN
+    RAISE EXCEPTION 'Layby % is % and cannot take payments', _layby.layby_number, _layby.status;
+  END IF;
+
+  IF COALESCE(_payment_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  IF _payment_amount > _layby.balance_remaining THEN
+    RAISE EXCEPTION 'Payment of % is more than the remaining balance of %', _payment_amount, _layby.balance_remaining;
+  END IF;
+
+  _new_balance := _layby.balance_remaining - _payment_amount;
+
+  INSERT INTO public.layby_payments (
+    layby_order_id,
+    amount,
+    payment_method,
+    payment_reference,
+    notes,
+    processed_by
+  ) VALUES (
+    _layby_order_id,
+    _payment_amount,
+    _payment_method,
+    _payment_reference,
+    _notes,
+    _processor
+  ) RETURNING id INTO _payment_id;
+
+  UPDATE public.layby_orders
+  SET balance_remaining = _new_balance,
+      status = CASE WHEN _new_balance = 0 THEN 'completed' ELSE status END,
+      completion_date = CASE WHEN _new_balance = 0 THEN now() ELSE completion_date END,
+      updated_at = now()
+  WHERE id = _layby_order_id;
+
+  SELECT public.generate_transaction_number(_layby.store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    notes,
+    processed_by
+  ) VALUES (
+    _layby.store_id,
+    _transaction_number,
+    'layby_payment',
+    _payment_amount,
+    _payment_method,
+    _layby_order_id,
+    'layby_order',
+    _layby.customer_id,
+    _layby.customer_name,
+    'Payment for layby ' || _layby.layby_number,
+    _notes,
+    _processor
+  );
+
+  INSERT INTO public.layby_history (
+    layby_order_id,
+    action_type,
+    action_description,
+    amount_involved,
+    performed_by,
+    notes
+  ) VALUES (
+    _layby_order_id,
+    'payment_made',
+    'Payment of ' || _payment_amount || ' processed',
+    _payment_amount,
+    _processor,
+    _notes
+  );
+
+  -- Settle installments oldest first; a payment larger than one installment rolls on
+  _unapplied := _payment_amount;
+
+  FOR _installment IN
+    SELECT id, amount_due, COALESCE(amount_paid, 0) AS amount_paid
+    FROM public.layby_payment_schedules
+    WHERE layby_order_id = _layby_order_id
+      AND status IN ('pending', 'overdue')
+      AND COALESCE(amount_paid, 0) < amount_due
+    ORDER BY payment_number
+    FOR UPDATE
+  LOOP
+    EXIT WHEN _unapplied <= 0;
+
+    _applied := LEAST(_unapplied, _installment.amount_due - _installment.amount_paid);
+    _unapplied := _unapplied - _applied;
+
+    UPDATE public.layby_payment_schedules
+    SET amount_paid = _installment.amount_paid + _applied,
+        status = CASE
+          WHEN _installment.amount_paid + _applied >= _installment.amount_due THEN 'paid'
+          ELSE status
+        END,
+        updated_at = now()
+    WHERE id = _installment.id;
+  END LOOP;
+
+  IF _new_balance = 0 THEN
+    INSERT INTO public.layby_history (
+      layby_order_id,
+      action_type,
+      action_description,
+      old_values,
+      new_values,
+      performed_by
+    ) VALUES (
+      _layby_order_id,
+      'completed',
+      'Layby paid in full',
+      jsonb_build_object('status', _layby.status),
+      jsonb_build_object('status', 'completed'),
+      _processor
+    );
+  END IF;
+
+  RETURN _payment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_layby_payment(UUID, DECIMAL, TEXT, TEXT, TEXT, UUID) TO authenticated;
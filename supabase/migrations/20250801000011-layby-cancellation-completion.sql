@@ -0,0 +1,554 @@
+-- Migration: Layby Cancellation and Completion
+-- Description: Cancel a layby with a refund or forfeiture less a restocking fee, putting reserved
+-- stock back on the shelf, and turn fully paid laybys into sales orders so they count in sales
+-- reports and customer stats
+-- Date: 2025-08-01
+
+ALTER TABLE public.stock_adjustments
+DROP CONSTRAINT IF EXISTS stock_adjustments_adjustment_type_check;
+
+ALTER TABLE public.stock_adjustments
+ADD CONSTRAINT stock_adjustments_adjustment_type_check
+CHECK (adjustment_type IN ('manual', 'sale', 'return', 'damage', 'restock', 'transfer', 'layby_reserve', 'layby_release'));
+
+-- The sales order a completed layby became
+ALTER TABLE public.layby_orders
+ADD COLUMN IF NOT EXISTS order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_layby_orders_order ON public.layby_orders(order_id) WHERE order_id IS NOT NULL;
+
+-- Turn a fully paid layby into a completed sales order. The money is already in transactions
+-- as the deposit and payments, so no sale transaction is written. Reserved stock left the shelf
+-- when the layby was created; without a reservation it is taken now.
+CREATE OR REPLACE FUNCTION public.complete_layby(
+  _layby_order_id UUID,
+  _completed_by UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _layby RECORD;
+  _item RECORD;
+  _user_id UUID := COALESCE(_completed_by, auth.uid());
+  _order_id UUID;
+  _previous_stock INTEGER;
+BEGIN
+  SELECT *
+  INTO _layby
+  FROM public.layby_orders
+  WHERE id = _layby_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_layby.store_id) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  IF _layby.order_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'order_id', _layby.order_id);
+  END IF;
+
+  IF _layby.status NOT IN ('active', 'overdue', 'completed') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Layby ' || _layby.layby_number || ' is ' || _layby.status);
+  END IF;
+
+  IF _layby.balance_remaining > 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Layby ' || _layby.layby_number || ' still has ' || _layby.balance_remaining || ' to pay'
+    );
+  END IF;
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    tax_amount,
+    total,
+    status,
+    payment_method
+  ) VALUES (
+    _layby.store_id,
+    _layby.customer_id,
+    _user_id,
+    _layby.layby_number,
+    _layby.total_amount,
+    0,
+    0,
+    _layby.total_amount,
+    'completed',
+    'layby'
+  ) RETURNING id INTO _order_id;
+
+  FOR _item IN
+    SELECT li.product_id, li.variant_id, li.variant_name, li.quantity, li.unit_price, li.total_price
+    FROM public.layby_items li
+    WHERE li.layby_order_id = _layby_order_id
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _item.product_id,
+      _item.variant_id,
+      _item.variant_name,
+      _item.quantity,
+      _item.unit_price,
+      _item.total_price
+    );
+
+    IF NOT COALESCE(_layby.inventory_reserved, false) THEN
+      IF _item.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity - _item.quantity,
+            updated_at = now()
+        WHERE id = _item.variant_id
+        RETURNING stock_quantity + _item.quantity INTO _previous_stock;
+      ELSE
+        UPDATE public.products
+        SET stock_quantity = stock_quantity - _item.quantity,
+            updated_at = now()
+        WHERE id = _item.product_id
+        RETURNING stock_quantity + _item.quantity INTO _previous_stock;
+      END IF;
+
+      INSERT INTO public.stock_adjustments (
+        store_id,
+        product_id,
+        variant_id,
+        user_id,
+        adjustment_type,
+        quantity_change,
+        previous_quantity,
+        new_quantity,
+        reason,
+        reference_id
+      ) VALUES (
+        _layby.store_id,
+        _item.product_id,
+        _item.variant_id,
+        _user_id,
+        'sale',
+        -_item.quantity,
+        _previous_stock,
+        _previous_stock - _item.quantity,
+        'Sale - Layby ' || _layby.layby_number,
+        _order_id
+      );
+    END IF;
+  END LOOP;
+
+  IF _layby.customer_id IS NOT NULL THEN
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _layby.total_amount,
+        updated_at = now()
+    WHERE id = _layby.customer_id;
+  END IF;
+
+  UPDATE public.layby_orders
+  SET status = 'completed',
+      completion_date = COALESCE(completion_date, now()),
+      order_id = _order_id,
+      updated_at = now()
+  WHERE id = _layby_order_id;
+
+  INSERT INTO public.layby_history (
+    layby_order_id,
+    action_type,
+    action_description,
+    old_values,
+    new_values,
+    performed_by
+  ) VALUES (
+    _layby_order_id,
+    'completed',
+    'Layby paid in full and recorded as order ' || _layby.layby_number,
+    jsonb_build_object('status', _layby.status),
+    jsonb_build_object('status', 'completed', 'order_id', _order_id),
+    _user_id
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order_id', _order_id,
+    'order_number', _layby.layby_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_layby(UUID, UUID) TO authenticated;
+
+-- Cancel an open layby. The customer gets back what they paid (deposit and payments) less the
+-- restocking fee, or forfeits it all. Reserved stock goes back on the shelf and the open
+-- installments are skipped. With no fee given the store's default cancellation fee applies.
+CREATE OR REPLACE FUNCTION public.cancel_layby(
+  _layby_order_id UUID,
+  _reason TEXT,
+  _restocking_fee DECIMAL(10,2) DEFAULT NULL,
+  _refund_method TEXT DEFAULT 'cash',
+  _forfeit BOOLEAN DEFAULT false
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _layby RECORD;
+  _item RECORD;
+  _fee_percent DECIMAL(5,2);
+  _amount_paid DECIMAL(10,2);
+  _fee DECIMAL(10,2);
+  _refund DECIMAL(10,2);
+  _previous_stock INTEGER;
+  _released INTEGER := 0;
+  _transaction_number TEXT;
+BEGIN
+  SELECT *
+  INTO _layby
+  FROM public.layby_orders
+  WHERE id = _layby_order_id
+  FOR UPDATE;
+
+  IF _user_id IS NULL OR NOT FOUND OR NOT public.user_can_access_store(_layby.store_id) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  IF _layby.status NOT IN ('active', 'overdue') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Layby ' || _layby.layby_number || ' is ' || _layby.status || ' and cannot be cancelled'
+    );
+  END IF;
+
+  IF COALESCE(trim(_reason), '') = '' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'A cancellation reason is required');
+  END IF;
+
+  SELECT COALESCE(SUM(amount), 0) + _layby.deposit_amount
+  INTO _amount_paid
+  FROM public.layby_payments
+  WHERE layby_order_id = _layby_order_id;
+
+  SELECT default_cancellation_fee_percent
+  INTO _fee_percent
+  FROM public.layby_settings
+  WHERE store_id = _layby.store_id;
+
+  _fee := COALESCE(_restocking_fee, ROUND(_layby.total_amount * COALESCE(_fee_percent, 0) / 100, 2));
+
+  IF _fee < 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'The restocking fee cannot be negative');
+  END IF;
+
+  -- The fee can't take more than the customer has paid
+  _fee := LEAST(_fee, _amount_paid);
+  _refund := CASE WHEN _forfeit THEN 0 ELSE _amount_paid - _fee END;
+
+  IF COALESCE(_layby.inventory_reserved, false) THEN
+    FOR _item IN
+      SELECT li.product_id, li.variant_id, li.quantity
+      FROM public.layby_items li
+      WHERE li.layby_order_id = _layby_order_id
+      ORDER BY li.product_id, li.variant_id
+    LOOP
+      IF _item.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity + _item.quantity,
+            updated_at = now()
+        WHERE id = _item.variant_id
+        RETURNING stock_quantity - _item.quantity INTO _previous_stock;
+      ELSE
+        UPDATE public.products
+        SET stock_quantity = stock_quantity + _item.quantity,
+            updated_at = now()
+        WHERE id = _item.product_id
+        RETURNING stock_quantity - _item.quantity INTO _previous_stock;
+      END IF;
+
+      -- The product or variant may have been deleted since
+      CONTINUE WHEN _previous_stock IS NULL;
+
+      INSERT INTO public.stock_adjustments (
+        store_id,
+        product_id,
+        variant_id,
+        user_id,
+        adjustment_type,
+        quantity_change,
+        previous_quantity,
+        new_quantity,
+        reason,
+        reference_id
+      ) VALUES (
+        _layby.store_id,
+        _item.product_id,
+        _item.variant_id,
+        _user_id,
+        'layby_release',
+        _item.quantity,
+        _previous_stock,
+        _previous_stock + _item.quantity,
+        'Released from cancelled layby ' || _layby.layby_number,
+        _layby_order_id
+      );
+
+      _released := _released + _item.quantity;
+    END LOOP;
+  END IF;
+
+  UPDATE public.layby_payment_schedules
+  SET status = 'skipped',
+      updated_at = now()
+  WHERE layby_order_id = _layby_order_id
+    AND status IN ('pending', 'overdue');
+
+  UPDATE public.layby_orders
+  SET status = 'cancelled',
+      cancellation_reason = trim(_reason),
+      restocking_fee = _fee,
+      refund_amount = _refund,
+      inventory_reserved = false,
+      cancelled_at = now(),
+      updated_at = now()
+  WHERE id = _layby_order_id;
+
+  IF _refund > 0 THEN
+    SELECT public.generate_transaction_number(_layby.store_id) INTO _transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      notes,
+      processed_by
+    ) VALUES (
+      _layby.store_id,
+      _transaction_number,
+      'refund',
+      -_refund,
+      COALESCE(_refund_method, 'cash'),
+      _layby_order_id,
+      'layby_order',
+      _layby.customer_id,
+      _layby.customer_name,
+      'Refund for cancelled layby ' || _layby.layby_number,
+      trim(_reason),
+      _user_id
+    );
+  END IF;
+
+  INSERT INTO public.layby_history (
+    layby_order_id,
+    action_type,
+    action_description,
+    old_values,
+    new_values,
+    amount_involved,
+    performed_by,
+    notes
+  ) VALUES (
+    _layby_order_id,
+    'cancelled',
+    CASE
+      WHEN _forfeit THEN 'Layby cancelled, ' || _amount_paid || ' paid was forfeited'
+      ELSE 'Layby cancelled, refunded ' || _refund || ' after a restocking fee of ' || _fee
+    END,
+    jsonb_build_object('status', _layby.status, 'balance_remaining', _layby.balance_remaining),
+    jsonb_build_object(
+      'status', 'cancelled',
+      'amount_paid', _amount_paid,
+      'restocking_fee', _fee,
+      'refund_amount', _refund,
+      'forfeited', _forfeit,
+      'released_quantity', _released
+    ),
+    _refund,
+    _user_id,
+    trim(_reason)
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'layby_number', _layby.layby_number,
+    'amount_paid', _amount_paid,
+    'restocking_fee', _fee,
+    'refund_amount', _refund,
+    'forfeited', _forfeit,
+    'released_quantity', _released,
+    'transaction_number', _transaction_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_layby(UUID, TEXT, DECIMAL, TEXT, BOOLEAN) TO authenticated;
+
+-- Same as before, except that paying off the balance now completes the layby as a sales order
+CREATE OR REPLACE FUNCTION public.process_layby_payment(
+  _layby_order_id UUID,
+  _payment_amount DECIMAL(10,2),
+  _payment_method TEXT,
+  _payment_reference TEXT,
+  _notes TEXT,
+  _processed_by UUID
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _layby RECORD;
+  _payment_id UUID;
+  _new_balance DECIMAL(10,2);
+  _transaction_number TEXT;
+  _processor UUID := COALESCE(_processed_by, auth.uid());
+  _installment RECORD;
+  _unapplied DECIMAL(10,2);
+  _applied DECIMAL(10,2);
+BEGIN
+  SELECT id, store_id, layby_number, customer_id, customer_name, balance_remaining, status
+  INTO _layby
+  FROM public.layby_orders
+  WHERE id = _layby_order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_layby.store_id) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  IF _layby.status NOT IN ('active', 'overdue') THEN
+    RAISE EXCEPTION 'Layby % is % and cannot take payments', _layby.layby_number, _layby.status;
+  END IF;
+
+  IF COALESCE(_payment_amount, 0) <= 0 THEN
+    RAISE EXCEPTION 'Payment amount must be greater than zero';
+  END IF;
+
+  IF _payment_amount > _layby.balance_remaining THEN
+    RAISE EXCEPTION 'Payment of % is more than the remaining balance of %', _payment_amount, _layby.balance_remaining;
+  END IF;
+
+  _new_balance := _layby.balance_remaining - _payment_amount;
+
+  INSERT INTO public.layby_payments (
+    layby_order_id,
+    amount,
+    payment_method,
+    payment_reference,
+    notes,
+    processed_by
+  ) VALUES (
+    _layby_order_id,
+    _payment_amount,
+    _payment_method,
+    _payment_reference,
+    _notes,
+    _processor
+  ) RETURNING id INTO _payment_id;
+
+  UPDATE public.layby_orders
+  SET balance_remaining = _new_balance,
+      updated_at = now()
+  WHERE id = _layby_order_id;
+
+  SELECT public.generate_transaction_number(_layby.store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    notes,
+    processed_by
+  ) VALUES (
+    _layby.store_id,
+    _transaction_number,
+    'layby_payment',
+    _payment_amount,
+    _payment_method,
+    _layby_order_id,
+    'layby_order',
+    _layby.customer_id,
+    _layby.customer_name,
+    'Payment for layby ' || _layby.layby_number,
+    _notes,
+    _processor
+  );
+
+  INSERT INTO public.layby_history (
+    layby_order_id,
+    action_type,
+    action_description,
+    amount_involved,
+    performed_by,
+    notes
+  ) VALUES (
+    _layby_order_id,
+    'payment_made',
+    'Payment of ' || _payment_amount || ' processed',
+    _payment_amount,
+    _processor,
+    _notes
+  );
+
+  -- Settle installments oldest first; a payment larger than one installment rolls on
+  _unapplied := _payment_amount;
+
+  FOR _installment IN
+    SELECT id, amount_due, COALESCE(amount_paid, 0) AS amount_paid
+    FROM public.layby_payment_schedules
+    WHERE layby_order_id = _layby_order_id
+      AND status IN ('pending', 'overdue')
+      AND COALESCE(amount_paid, 0) < amount_due
+    ORDER BY payment_number
+    FOR UPDATE
+  LOOP
+    EXIT WHEN _unapplied <= 0;
+
+    _applied := LEAST(_unapplied, _installment.amount_due - _installment.amount_paid);
+    _unapplied := _unapplied - _applied;
+
+    UPDATE public.layby_payment_schedules
+    SET amount_paid = _installment.amount_paid + _applied,
+        status = CASE
+          WHEN _installment.amount_paid + _applied >= _installment.amount_due THEN 'paid'
+          ELSE status
+        END,
+        updated_at = now()
+    WHERE id = _installment.id;
+  END LOOP;
+
+  IF _new_balance = 0 THEN
+    PERFORM public.complete_layby(_layby_order_id, _processor);
+  END IF;
+
+  RETURN _payment_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.process_layby_payment(UUID, DECIMAL, TEXT, TEXT, TEXT, UUID) TO authenticated;
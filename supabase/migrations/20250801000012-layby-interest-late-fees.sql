@@ -0,0 +1,339 @@
+-- Migration: Layby Interest and Late Fees
+-- Description: Store-configured simple or flat interest on overdue laybys and a late fee per missed
+-- installment, charged by the overdue job and kept apart from product revenue
+-- Date: 2025-08-01
+
+-- How overdue laybys are charged. default_interest_rate is a fraction: a yearly rate for simple
+-- interest, or a one-off share of the balance for flat interest.
+ALTER TABLE public.layby_settings
+ADD COLUMN IF NOT EXISTS interest_type TEXT NOT NULL DEFAULT 'none',
+ADD COLUMN IF NOT EXISTS late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0.00;
+
+ALTER TABLE public.layby_settings
+DROP CONSTRAINT IF EXISTS layby_settings_interest_type_check;
+
+ALTER TABLE public.layby_settings
+ADD CONSTRAINT layby_settings_interest_type_check
+CHECK (interest_type IN ('none', 'simple', 'flat'));
+
+ALTER TABLE public.layby_settings
+DROP CONSTRAINT IF EXISTS layby_settings_late_fee_amount_check;
+
+ALTER TABLE public.layby_settings
+ADD CONSTRAINT layby_settings_late_fee_amount_check
+CHECK (late_fee_amount >= 0);
+
+-- Charges are added to the balance but never to total_amount, which stays the value of the goods
+ALTER TABLE public.layby_orders
+ADD COLUMN IF NOT EXISTS interest_type TEXT,
+ADD COLUMN IF NOT EXISTS late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+ADD COLUMN IF NOT EXISTS interest_accrued_through DATE;
+
+ALTER TABLE public.layby_payment_schedules
+ADD COLUMN IF NOT EXISTS late_fee_amount DECIMAL(10,2) NOT NULL DEFAULT 0.00,
+ADD COLUMN IF NOT EXISTS late_fee_applied_at TIMESTAMP WITH TIME ZONE;
+
+-- Every interest or late fee charge, so reports can show them separately from sales
+CREATE TABLE IF NOT EXISTS public.layby_charges (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  layby_order_id UUID NOT NULL REFERENCES public.layby_orders(id) ON DELETE CASCADE,
+  schedule_id UUID REFERENCES public.layby_payment_schedules(id) ON DELETE SET NULL,
+  charge_type TEXT NOT NULL CHECK (charge_type IN ('interest', 'late_fee')),
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  charged_on DATE NOT NULL DEFAULT CURRENT_DATE,
+  description TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_layby_charges_store_date ON public.layby_charges(store_id, charged_on);
+CREATE INDEX IF NOT EXISTS idx_layby_charges_layby ON public.layby_charges(layby_order_id);
+
+-- One late fee per missed installment
+CREATE UNIQUE INDEX IF NOT EXISTS idx_layby_charges_late_fee_schedule
+ON public.layby_charges(schedule_id) WHERE charge_type = 'late_fee';
+
+ALTER TABLE public.layby_charges ENABLE ROW LEVEL SECURITY;
+
+-- Written only by update_overdue_layby_orders()
+DROP POLICY IF EXISTS "Store access for layby_charges" ON public.layby_charges;
+CREATE POLICY "Store access for layby_charges" ON public.layby_charges
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- A layby keeps the interest terms the store had when it was created
+CREATE OR REPLACE FUNCTION public.set_layby_interest_terms()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _settings RECORD;
+BEGIN
+  IF NEW.interest_type IS NULL THEN
+    SELECT interest_type, default_interest_rate
+    INTO _settings
+    FROM public.layby_settings
+    WHERE store_id = NEW.store_id;
+
+    NEW.interest_type := COALESCE(_settings.interest_type, 'none');
+
+    IF COALESCE(NEW.interest_rate, 0) = 0 THEN
+      NEW.interest_rate := COALESCE(_settings.default_interest_rate, 0);
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS set_layby_interest_terms ON public.layby_orders;
+CREATE TRIGGER set_layby_interest_terms
+  BEFORE INSERT ON public.layby_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.set_layby_interest_terms();
+
+-- Interest owed on a layby that has not been charged yet, as of _as_of. Simple interest runs
+-- daily from the final due date on the unpaid price of the goods, so it never compounds on
+-- earlier charges; flat interest is a single charge on the balance when the layby goes overdue.
+DROP FUNCTION IF EXISTS public.calculate_layby_interest(UUID);
+
+CREATE OR REPLACE FUNCTION public.calculate_layby_interest(
+  _layby_order_id UUID,
+  _as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS DECIMAL(10,2)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _layby RECORD;
+  _principal DECIMAL(10,2);
+  _from DATE;
+BEGIN
+  SELECT store_id, balance_remaining, interest_type, interest_rate, interest_amount, late_fee_amount,
+         due_date, interest_accrued_through
+  INTO _layby
+  FROM public.layby_orders
+  WHERE id = _layby_order_id;
+
+  IF FOUND AND NOT (public.is_service_caller() OR public.user_can_access_store(_layby.store_id)) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  IF NOT FOUND
+    OR _layby.due_date IS NULL
+    OR _layby.due_date >= _as_of
+    OR COALESCE(_layby.interest_rate, 0) <= 0
+    OR COALESCE(_layby.interest_type, 'none') = 'none' THEN
+    RETURN 0;
+  END IF;
+
+  _principal := GREATEST(
+    0,
+    _layby.balance_remaining - COALESCE(_layby.interest_amount, 0) - COALESCE(_layby.late_fee_amount, 0)
+  );
+
+  IF _layby.interest_type = 'flat' THEN
+    IF _layby.interest_accrued_through IS NOT NULL THEN
+      RETURN 0;
+    END IF;
+
+    RETURN ROUND(_principal * _layby.interest_rate, 2);
+  END IF;
+
+  _from := GREATEST(_layby.due_date, COALESCE(_layby.interest_accrued_through, _layby.due_date));
+
+  IF _as_of <= _from THEN
+    RETURN 0;
+  END IF;
+
+  RETURN ROUND(_principal * _layby.interest_rate * (_as_of - _from) / 365, 2);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_layby_interest(UUID, DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.calculate_layby_interest(UUID, DATE) TO authenticated, service_role;
+
+-- Adds a charge to a layby's balance with its charge row and history entry
+CREATE OR REPLACE FUNCTION public.apply_layby_charge(
+  _layby_order_id UUID,
+  _charge_type TEXT,
+  _amount DECIMAL(10,2),
+  _as_of DATE,
+  _schedule_id UUID DEFAULT NULL,
+  _description TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _layby RECORD;
+BEGIN
+  UPDATE public.layby_orders
+  SET balance_remaining = balance_remaining + _amount,
+      interest_amount = COALESCE(interest_amount, 0) + CASE WHEN _charge_type = 'interest' THEN _amount ELSE 0 END,
+      late_fee_amount = late_fee_amount + CASE WHEN _charge_type = 'late_fee' THEN _amount ELSE 0 END,
+      interest_accrued_through = CASE WHEN _charge_type = 'interest' THEN _as_of ELSE interest_accrued_through END,
+      updated_at = now()
+  WHERE id = _layby_order_id
+  RETURNING store_id, created_by, balance_remaining INTO _layby;
+
+  INSERT INTO public.layby_charges (
+    store_id,
+    layby_order_id,
+    schedule_id,
+    charge_type,
+    amount,
+    charged_on,
+    description
+  ) VALUES (
+    _layby.store_id,
+    _layby_order_id,
+    _schedule_id,
+    _charge_type,
+    _amount,
+    _as_of,
+    _description
+  );
+
+  INSERT INTO public.layby_history (
+    layby_order_id,
+    action_type,
+    action_description,
+    new_values,
+    amount_involved,
+    performed_by
+  ) VALUES (
+    _layby_order_id,
+    'interest_applied',
+    _description,
+    jsonb_build_object('charge_type', _charge_type, 'balance_remaining', _layby.balance_remaining),
+    _amount,
+    -- The job runs without a signed-in user
+    COALESCE(auth.uid(), _layby.created_by)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_layby_charge(UUID, TEXT, DECIMAL, DATE, UUID, TEXT) FROM PUBLIC;
+
+-- The daily overdue job: flags overdue installments and laybys, then charges a late fee for each
+-- installment still unpaid after the grace period and interest on overdue laybys
+DROP FUNCTION IF EXISTS public.update_overdue_layby_orders();
+
+CREATE OR REPLACE FUNCTION public.update_overdue_layby_orders(
+  _as_of DATE DEFAULT CURRENT_DATE
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _overdue_count INTEGER;
+  _late_fee_count INTEGER := 0;
+  _interest_count INTEGER := 0;
+  _installment RECORD;
+  _layby RECORD;
+  _interest DECIMAL(10,2);
+BEGIN
+  UPDATE public.layby_orders
+  SET status = 'overdue',
+      updated_at = now()
+  WHERE status = 'active'
+    AND due_date < _as_of
+    AND balance_remaining > 0;
+
+  GET DIAGNOSTICS _overdue_count = ROW_COUNT;
+
+  UPDATE public.layby_payment_schedules
+  SET status = 'overdue',
+      updated_at = now()
+  WHERE status = 'pending'
+    AND due_date < _as_of
+    AND COALESCE(amount_paid, 0) < amount_due;
+
+  FOR _installment IN
+    SELECT s.id, s.layby_order_id, s.payment_number, lo.layby_number, ls.late_fee_amount
+    FROM public.layby_payment_schedules s
+    JOIN public.layby_orders lo ON lo.id = s.layby_order_id
+    JOIN public.layby_settings ls ON ls.store_id = lo.store_id
+    WHERE s.status = 'overdue'
+      AND s.late_fee_applied_at IS NULL
+      AND s.due_date + COALESCE(ls.overdue_grace_period_days, 0) < _as_of
+      AND ls.late_fee_amount > 0
+      AND lo.status IN ('active', 'overdue')
+    ORDER BY s.layby_order_id, s.payment_number
+  LOOP
+    UPDATE public.layby_payment_schedules
+    SET late_fee_amount = _installment.late_fee_amount,
+        late_fee_applied_at = now(),
+        updated_at = now()
+    WHERE id = _installment.id;
+
+    PERFORM public.apply_layby_charge(
+      _installment.layby_order_id,
+      'late_fee',
+      _installment.late_fee_amount,
+      _as_of,
+      _installment.id,
+      'Late fee for missed installment ' || _installment.payment_number || ' on layby ' || _installment.layby_number
+    );
+
+    _late_fee_count := _late_fee_count + 1;
+  END LOOP;
+
+  FOR _layby IN
+    SELECT id, layby_number, interest_type
+    FROM public.layby_orders
+    WHERE status = 'overdue'
+      AND COALESCE(interest_type, 'none') <> 'none'
+      AND COALESCE(interest_rate, 0) > 0
+      AND balance_remaining > 0
+  LOOP
+    _interest := public.calculate_layby_interest(_layby.id, _as_of);
+
+    -- Leave accrual open until the daily amount adds up to a cent
+    CONTINUE WHEN _interest <= 0;
+
+    PERFORM public.apply_layby_charge(
+      _layby.id,
+      'interest',
+      _interest,
+      _as_of,
+      NULL,
+      CASE
+        WHEN _layby.interest_type = 'flat' THEN 'Overdue interest on layby ' || _layby.layby_number
+        ELSE 'Interest to ' || to_char(_as_of, 'YYYY-MM-DD') || ' on layby ' || _layby.layby_number
+      END
+    );
+
+    _interest_count := _interest_count + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'as_of', _as_of,
+    'overdue_count', _overdue_count,
+    'late_fee_count', _late_fee_count,
+    'interest_count', _interest_count
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.update_overdue_layby_orders(DATE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.update_overdue_layby_orders(DATE) TO service_role;
+
+-- Run every morning where pg_cron is available; elsewhere call update_overdue_layby_orders()
+-- from any scheduler with the service role key
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'update-overdue-laybys';
+    PERFORM cron.schedule(
+      'update-overdue-laybys',
+      '30 0 * * *',
+      'SELECT public.update_overdue_layby_orders()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,492 @@
+-- Migration: Layby Notification Outbox
+-- Description: Queue templated layby reminders for upcoming and overdue installments in
+-- layby_notifications and track their delivery by SMS, WhatsApp or email
+-- Date: 2025-08-01
+
+-- layby_notifications becomes the outbox: each row is one message on one channel
+ALTER TABLE public.layby_notifications
+ADD COLUMN IF NOT EXISTS channel TEXT NOT NULL DEFAULT 'sms',
+ADD COLUMN IF NOT EXISTS schedule_id UUID REFERENCES public.layby_payment_schedules(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS attempts INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+ADD COLUMN IF NOT EXISTS provider TEXT,
+ADD COLUMN IF NOT EXISTS provider_message_id TEXT;
+
+ALTER TABLE public.layby_notifications
+DROP CONSTRAINT IF EXISTS layby_notifications_channel_check;
+
+ALTER TABLE public.layby_notifications
+ADD CONSTRAINT layby_notifications_channel_check
+CHECK (channel IN ('sms', 'whatsapp', 'email'));
+
+ALTER TABLE public.layby_notifications
+DROP CONSTRAINT IF EXISTS layby_notifications_status_check;
+
+ALTER TABLE public.layby_notifications
+ADD CONSTRAINT layby_notifications_status_check
+CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled'));
+
+CREATE INDEX IF NOT EXISTS idx_layby_notifications_outbox
+ON public.layby_notifications(channel, next_attempt_at) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_layby_notifications_layby
+ON public.layby_notifications(layby_order_id, created_at);
+
+-- One upcoming-installment reminder per installment and channel
+CREATE UNIQUE INDEX IF NOT EXISTS idx_layby_notifications_installment_reminder
+ON public.layby_notifications(schedule_id, channel) WHERE notification_type = 'payment_reminder';
+
+-- How far ahead installments are reminded, and on which channels. SMS and email also need
+-- sms_notifications / email_notifications switched on in the store settings.
+ALTER TABLE public.layby_settings
+ADD COLUMN IF NOT EXISTS reminder_days_before INTEGER NOT NULL DEFAULT 3,
+ADD COLUMN IF NOT EXISTS reminder_channels TEXT[] NOT NULL DEFAULT ARRAY['sms', 'email'];
+
+-- Subject and text for a layby message. Installment reminders use the given installment, or the
+-- earliest open one.
+CREATE OR REPLACE FUNCTION public.render_layby_notification(
+  _layby_order_id UUID,
+  _notification_type TEXT,
+  _schedule_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _layby RECORD;
+  _installment RECORD;
+  _currency TEXT;
+  _store_name TEXT;
+  _store_phone TEXT;
+  _subject TEXT;
+  _message TEXT;
+BEGIN
+  SELECT lo.*, s.name AS store_name, s.phone AS store_phone, s.currency AS store_currency
+  INTO _layby
+  FROM public.layby_orders lo
+  JOIN public.stores s ON s.id = lo.store_id
+  WHERE lo.id = _layby_order_id;
+
+  IF NOT FOUND OR NOT (public.is_service_caller() OR public.user_can_access_store(_layby.store_id)) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  _currency := COALESCE(_layby.store_currency, '');
+  _store_name := _layby.store_name;
+  _store_phone := COALESCE(' on ' || _layby.store_phone, '');
+
+  SELECT payment_number, due_date, amount_due - COALESCE(amount_paid, 0) AS amount_open
+  INTO _installment
+  FROM public.layby_payment_schedules
+  WHERE layby_order_id = _layby_order_id
+    AND (id = _schedule_id OR (_schedule_id IS NULL AND status IN ('pending', 'overdue')))
+  ORDER BY payment_number
+  LIMIT 1;
+
+  CASE _notification_type
+    WHEN 'payment_reminder' THEN
+      _subject := 'Layby ' || _layby.layby_number || ' payment reminder';
+      _message := 'Hi ' || _layby.customer_name || ', this is a reminder from ' || _store_name || '. '
+        || CASE
+             WHEN _installment.payment_number IS NOT NULL THEN
+               'Installment ' || _installment.payment_number || ' of ' || _currency || ' '
+               || to_char(_installment.amount_open, 'FM999,999,990.00')
+               || ' on layby ' || _layby.layby_number || ' is due on ' || to_char(_installment.due_date, 'DD Mon YYYY') || '. '
+             ELSE 'A payment on layby ' || _layby.layby_number || ' is due soon. '
+           END
+        || 'Balance: ' || _currency || ' ' || to_char(_layby.balance_remaining, 'FM999,999,990.00') || '.';
+    WHEN 'overdue_notice' THEN
+      _subject := 'Layby ' || _layby.layby_number || ' payment overdue';
+      _message := 'Hi ' || _layby.customer_name || ', '
+        || CASE
+             WHEN _installment.payment_number IS NOT NULL THEN
+               'installment ' || _installment.payment_number || ' of ' || _currency || ' '
+               || to_char(_installment.amount_open, 'FM999,999,990.00')
+               || ' on layby ' || _layby.layby_number || ' was due on ' || to_char(_installment.due_date, 'DD Mon YYYY')
+               || ' and is still unpaid. '
+             ELSE 'layby ' || _layby.layby_number || ' is overdue. '
+           END
+        || 'Balance: ' || _currency || ' ' || to_char(_layby.balance_remaining, 'FM999,999,990.00') || '. '
+        || 'Please contact ' || _store_name || _store_phone || '.';
+    WHEN 'completion_notice' THEN
+      _subject := 'Layby ' || _layby.layby_number || ' paid in full';
+      _message := 'Hi ' || _layby.customer_name || ', layby ' || _layby.layby_number
+        || ' is paid in full. Your items are ready to collect at ' || _store_name || '.';
+    WHEN 'cancellation_notice' THEN
+      _subject := 'Layby ' || _layby.layby_number || ' cancelled';
+      _message := 'Hi ' || _layby.customer_name || ', layby ' || _layby.layby_number || ' has been cancelled'
+        || CASE
+             WHEN COALESCE(_layby.refund_amount, 0) > 0 THEN
+               ' and ' || _currency || ' ' || to_char(_layby.refund_amount, 'FM999,999,990.00') || ' refunded'
+             ELSE ''
+           END
+        || '. Contact ' || _store_name || _store_phone || ' with any questions.';
+    ELSE
+      RAISE EXCEPTION 'No template for % notifications', _notification_type;
+  END CASE;
+
+  RETURN jsonb_build_object('subject', _subject, 'message', _message);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.render_layby_notification(UUID, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.render_layby_notification(UUID, TEXT, UUID) TO authenticated;
+
+-- Put a message for a layby customer in the outbox. SMS and email go out with the next
+-- dispatcher run; WhatsApp messages wait for staff to send them from the layby.
+CREATE OR REPLACE FUNCTION public.queue_layby_notification(
+  _layby_order_id UUID,
+  _notification_type TEXT,
+  _channel TEXT,
+  _schedule_id UUID DEFAULT NULL,
+  _created_by UUID DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _layby RECORD;
+  _content JSONB;
+  _notification_id UUID;
+BEGIN
+  SELECT id, store_id, layby_number, customer_phone, customer_email, created_by
+  INTO _layby
+  FROM public.layby_orders
+  WHERE id = _layby_order_id;
+
+  -- The scheduler runs as the service role, without a signed-in user
+  IF NOT FOUND OR NOT (public.is_service_caller() OR public.user_can_access_store(_layby.store_id)) THEN
+    RAISE EXCEPTION 'Access denied to layby %', _layby_order_id;
+  END IF;
+
+  IF _channel NOT IN ('sms', 'whatsapp', 'email') THEN
+    RAISE EXCEPTION 'Unknown notification channel %', _channel;
+  END IF;
+
+  IF _channel IN ('sms', 'whatsapp') AND COALESCE(trim(_layby.customer_phone), '') = '' THEN
+    RAISE EXCEPTION 'Layby % has no customer phone number', _layby.layby_number;
+  END IF;
+
+  IF _channel = 'email' AND COALESCE(trim(_layby.customer_email), '') = '' THEN
+    RAISE EXCEPTION 'Layby % has no customer email address', _layby.layby_number;
+  END IF;
+
+  _content := public.render_layby_notification(_layby_order_id, _notification_type, _schedule_id);
+
+  INSERT INTO public.layby_notifications (
+    layby_order_id,
+    schedule_id,
+    notification_type,
+    channel,
+    recipient_email,
+    recipient_phone,
+    subject,
+    message,
+    status,
+    created_by
+  ) VALUES (
+    _layby_order_id,
+    _schedule_id,
+    _notification_type,
+    _channel,
+    CASE WHEN _channel = 'email' THEN _layby.customer_email END,
+    CASE WHEN _channel <> 'email' THEN _layby.customer_phone END,
+    _content->>'subject',
+    _content->>'message',
+    'pending',
+    COALESCE(_created_by, auth.uid(), _layby.created_by)
+  ) RETURNING id INTO _notification_id;
+
+  RETURN _notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_layby_notification(UUID, TEXT, TEXT, UUID, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.queue_layby_notification(UUID, TEXT, TEXT, UUID, UUID) TO authenticated;
+
+-- The reminder scheduler. Queues a reminder for each installment falling due within the store's
+-- reminder window, and an overdue notice for laybys behind on payments every
+-- reminder_frequency_days until max_reminder_count notices have gone out.
+CREATE OR REPLACE FUNCTION public.queue_layby_reminders(
+  _as_of DATE DEFAULT CURRENT_DATE,
+  _store_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _row RECORD;
+  _channel TEXT;
+  _upcoming INTEGER := 0;
+  _overdue INTEGER := 0;
+BEGIN
+  IF _store_id IS NOT NULL AND NOT (public.is_service_caller() OR public.user_can_access_store(_store_id)) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- Signed-in staff queue for one store at a time; only the scheduler covers every store
+  IF _store_id IS NULL AND NOT public.is_service_caller() THEN
+    RAISE EXCEPTION 'A store is required';
+  END IF;
+
+  FOR _row IN
+    SELECT s.id AS schedule_id, lo.id AS layby_order_id, lo.customer_phone, lo.customer_email,
+           ls.reminder_channels, COALESCE(ss.sms_notifications, false) AS sms_enabled,
+           COALESCE(ss.email_notifications, false) AS email_enabled
+    FROM public.layby_payment_schedules s
+    JOIN public.layby_orders lo ON lo.id = s.layby_order_id
+    JOIN public.layby_settings ls ON ls.store_id = lo.store_id
+    LEFT JOIN public.store_settings ss ON ss.store_id = lo.store_id
+    WHERE ls.automatic_reminders_enabled
+      AND (_store_id IS NULL OR lo.store_id = _store_id)
+      AND lo.status IN ('active', 'overdue')
+      AND s.status = 'pending'
+      AND s.due_date BETWEEN _as_of AND _as_of + ls.reminder_days_before
+    ORDER BY lo.id, s.payment_number
+  LOOP
+    FOREACH _channel IN ARRAY _row.reminder_channels LOOP
+      CONTINUE WHEN _channel = 'sms' AND NOT _row.sms_enabled;
+      CONTINUE WHEN _channel = 'email' AND NOT _row.email_enabled;
+      CONTINUE WHEN _channel IN ('sms', 'whatsapp') AND COALESCE(trim(_row.customer_phone), '') = '';
+      CONTINUE WHEN _channel = 'email' AND COALESCE(trim(_row.customer_email), '') = '';
+      CONTINUE WHEN EXISTS (
+        SELECT 1 FROM public.layby_notifications
+        WHERE schedule_id = _row.schedule_id
+          AND notification_type = 'payment_reminder'
+          AND channel = _channel
+      );
+
+      PERFORM public.queue_layby_notification(_row.layby_order_id, 'payment_reminder', _channel, _row.schedule_id);
+      _upcoming := _upcoming + 1;
+    END LOOP;
+  END LOOP;
+
+  FOR _row IN
+    SELECT lo.id AS layby_order_id, lo.customer_phone, lo.customer_email,
+           ls.reminder_channels, COALESCE(ss.sms_notifications, false) AS sms_enabled,
+           COALESCE(ss.email_notifications, false) AS email_enabled,
+           (
+             SELECT s.id FROM public.layby_payment_schedules s
+             WHERE s.layby_order_id = lo.id AND s.status = 'overdue'
+             ORDER BY s.payment_number
+             LIMIT 1
+           ) AS schedule_id
+    FROM public.layby_orders lo
+    JOIN public.layby_settings ls ON ls.store_id = lo.store_id
+    LEFT JOIN public.store_settings ss ON ss.store_id = lo.store_id
+    WHERE ls.automatic_reminders_enabled
+      AND (_store_id IS NULL OR lo.store_id = _store_id)
+      AND lo.status IN ('active', 'overdue')
+      AND lo.balance_remaining > 0
+      AND COALESCE(lo.reminder_count, 0) < COALESCE(ls.max_reminder_count, 3)
+      AND (lo.last_reminder_sent IS NULL
+           OR lo.last_reminder_sent::date <= _as_of - COALESCE(ls.reminder_frequency_days, 7))
+      AND (lo.status = 'overdue' OR EXISTS (
+        SELECT 1 FROM public.layby_payment_schedules s
+        WHERE s.layby_order_id = lo.id AND s.status = 'overdue'
+      ))
+      -- Wait for the last notice to go out before queuing another
+      AND NOT EXISTS (
+        SELECT 1 FROM public.layby_notifications n
+        WHERE n.layby_order_id = lo.id
+          AND n.notification_type = 'overdue_notice'
+          AND n.status IN ('pending', 'sending')
+      )
+  LOOP
+    FOREACH _channel IN ARRAY _row.reminder_channels LOOP
+      CONTINUE WHEN _channel = 'sms' AND NOT _row.sms_enabled;
+      CONTINUE WHEN _channel = 'email' AND NOT _row.email_enabled;
+      CONTINUE WHEN _channel IN ('sms', 'whatsapp') AND COALESCE(trim(_row.customer_phone), '') = '';
+      CONTINUE WHEN _channel = 'email' AND COALESCE(trim(_row.customer_email), '') = '';
+
+      PERFORM public.queue_layby_notification(_row.layby_order_id, 'overdue_notice', _channel, _row.schedule_id);
+      _overdue := _overdue + 1;
+    END LOOP;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'as_of', _as_of,
+    'upcoming_count', _upcoming,
+    'overdue_count', _overdue
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_layby_reminders(DATE, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.queue_layby_reminders(DATE, UUID) TO authenticated, service_role;
+
+-- Hand the next batch of due messages to the dispatcher. Reminders that no longer apply because
+-- the layby closed or the installment was paid are cancelled instead of sent.
+CREATE OR REPLACE FUNCTION public.claim_layby_notifications(
+  _channels TEXT[] DEFAULT ARRAY['sms', 'email'],
+  _limit INTEGER DEFAULT 50
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _claimed JSONB;
+BEGIN
+  UPDATE public.layby_notifications n
+  SET status = 'cancelled',
+      error_message = 'No longer due'
+  FROM public.layby_orders lo
+  WHERE lo.id = n.layby_order_id
+    AND n.status = 'pending'
+    AND n.notification_type IN ('payment_reminder', 'overdue_notice')
+    AND (
+      lo.status NOT IN ('active', 'overdue')
+      OR EXISTS (
+        SELECT 1 FROM public.layby_payment_schedules s
+        WHERE s.id = n.schedule_id AND s.status IN ('paid', 'skipped')
+      )
+    );
+
+  WITH next_batch AS (
+    SELECT id
+    FROM public.layby_notifications
+    WHERE status = 'pending'
+      AND channel = ANY(_channels)
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at, created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE public.layby_notifications n
+    SET status = 'sending',
+        attempts = n.attempts + 1
+    FROM next_batch
+    WHERE n.id = next_batch.id
+    RETURNING n.id, n.layby_order_id, n.notification_type, n.channel, n.recipient_email,
+              n.recipient_phone, n.subject, n.message, n.attempts
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(claimed)), '[]'::jsonb)
+  INTO _claimed
+  FROM claimed;
+
+  RETURN _claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_layby_notifications(TEXT[], INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_layby_notifications(TEXT[], INTEGER) TO service_role;
+
+-- Record how a delivery went. Failures are retried with a growing delay, up to three attempts.
+-- Reminders that went out count towards the layby's reminder total and history.
+CREATE OR REPLACE FUNCTION public.record_layby_notification_result(
+  _notification_id UUID,
+  _sent BOOLEAN,
+  _error TEXT DEFAULT NULL,
+  _provider TEXT DEFAULT NULL,
+  _provider_message_id TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _notification RECORD;
+  _layby RECORD;
+BEGIN
+  SELECT *
+  INTO _notification
+  FROM public.layby_notifications
+  WHERE id = _notification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification % not found', _notification_id;
+  END IF;
+
+  SELECT id, store_id, created_by
+  INTO _layby
+  FROM public.layby_orders
+  WHERE id = _notification.layby_order_id;
+
+  IF NOT (public.is_service_caller() OR public.user_can_access_store(_layby.store_id)) THEN
+    RAISE EXCEPTION 'Access denied to notification %', _notification_id;
+  END IF;
+
+  IF _notification.status IN ('sent', 'cancelled') THEN
+    RETURN;
+  END IF;
+
+  IF NOT _sent THEN
+    UPDATE public.layby_notifications
+    SET status = CASE WHEN attempts >= 3 THEN 'failed' ELSE 'pending' END,
+        next_attempt_at = now() + make_interval(mins => 15 * GREATEST(attempts, 1)),
+        error_message = _error,
+        provider = COALESCE(_provider, provider)
+    WHERE id = _notification_id;
+
+    RETURN;
+  END IF;
+
+  UPDATE public.layby_notifications
+  SET status = 'sent',
+      sent_at = now(),
+      error_message = NULL,
+      provider = COALESCE(_provider, provider),
+      provider_message_id = _provider_message_id,
+      -- WhatsApp messages are sent by hand and never claimed
+      attempts = GREATEST(attempts, 1)
+  WHERE id = _notification_id;
+
+  IF _notification.notification_type IN ('payment_reminder', 'overdue_notice') THEN
+    UPDATE public.layby_orders
+    SET last_reminder_sent = now(),
+        reminder_count = COALESCE(reminder_count, 0) + CASE WHEN _notification.notification_type = 'overdue_notice' THEN 1 ELSE 0 END,
+        updated_at = now()
+    WHERE id = _layby.id;
+
+    IF _notification.schedule_id IS NOT NULL THEN
+      UPDATE public.layby_payment_schedules
+      SET reminder_sent = true,
+          updated_at = now()
+      WHERE id = _notification.schedule_id;
+    END IF;
+  END IF;
+
+  INSERT INTO public.layby_history (
+    layby_order_id,
+    action_type,
+    action_description,
+    new_values,
+    performed_by
+  ) VALUES (
+    _layby.id,
+    'reminder_sent',
+    CASE _notification.notification_type
+      WHEN 'payment_reminder' THEN 'Payment reminder'
+      WHEN 'overdue_notice' THEN 'Overdue notice'
+      WHEN 'completion_notice' THEN 'Completion notice'
+      WHEN 'cancellation_notice' THEN 'Cancellation notice'
+      ELSE 'Message'
+    END || ' sent by ' || _notification.channel,
+    jsonb_build_object('notification_id', _notification_id, 'channel', _notification.channel),
+    COALESCE(auth.uid(), _notification.created_by)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_layby_notification_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_layby_notification_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) TO authenticated, service_role;
+
+-- Queue reminders every morning where pg_cron is available. Delivery needs the SMS and email
+-- providers, so it is left to scripts/send-notifications.js.
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'queue-layby-reminders';
+    PERFORM cron.schedule(
+      'queue-layby-reminders',
+      '0 7 * * *',
+      'SELECT public.queue_layby_reminders()'
+    );
+  END IF;
+END;
+$$;
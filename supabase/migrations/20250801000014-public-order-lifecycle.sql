@@ -0,0 +1,1273 @@
+-- Migration: Public Order Lifecycle
+-- Description: Hold stock for showcase orders while they wait for the store, release it when an
+-- order is cancelled or not confirmed in time, only allow status changes along the order's path,
+-- record a status history customers can follow by order code, and message the customer on each
+-- change through a delivery outbox
+-- Date: 2025-08-01
+
+ALTER TABLE public.stock_adjustments
+DROP CONSTRAINT IF EXISTS stock_adjustments_adjustment_type_check;
+
+ALTER TABLE public.stock_adjustments
+ADD CONSTRAINT stock_adjustments_adjustment_type_check
+CHECK (adjustment_type IN ('manual', 'sale', 'return', 'damage', 'restock', 'transfer', 'layby_reserve', 'layby_release', 'order_reserve', 'order_release'));
+
+-- How long a showcase order holds its stock before the store has to confirm it
+ALTER TABLE public.stores
+ADD COLUMN IF NOT EXISTS public_order_hold_hours INTEGER NOT NULL DEFAULT 48
+CHECK (public_order_hold_hours > 0);
+
+ALTER TABLE public.public_orders
+ADD COLUMN IF NOT EXISTS inventory_reserved BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS reserved_until TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS sales_order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS completed_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS cancelled_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS cancellation_reason TEXT;
+
+CREATE INDEX IF NOT EXISTS idx_public_orders_reservation_expiry
+ON public.public_orders(reserved_until) WHERE status = 'pending' AND inventory_reserved;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_public_orders_sales_order
+ON public.public_orders(sales_order_id) WHERE sales_order_id IS NOT NULL;
+
+-- Every status an order has been in, shown to the customer on the tracking page
+CREATE TABLE IF NOT EXISTS public.public_order_status_history (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.public_orders(id) ON DELETE CASCADE,
+  from_status TEXT,
+  to_status TEXT NOT NULL,
+  note TEXT,
+  changed_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_public_order_status_history_order
+ON public.public_order_status_history(order_id, created_at);
+
+ALTER TABLE public.public_order_status_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store access for public_order_status_history" ON public.public_order_status_history
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- Messages to showcase customers, one row per message. SMS rows are delivered by
+-- scripts/send-notifications.js; WhatsApp rows are sent by staff from the order.
+CREATE TABLE IF NOT EXISTS public.public_order_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.public_orders(id) ON DELETE CASCADE,
+  order_status TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'whatsapp')),
+  recipient_phone TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_public_order_notifications_outbox
+ON public.public_order_notifications(channel, next_attempt_at) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_public_order_notifications_order
+ON public.public_order_notifications(order_id, created_at);
+
+ALTER TABLE public.public_order_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store access for public_order_notifications" ON public.public_order_notifications
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- The paths an order may take. Completed and cancelled orders are final.
+CREATE OR REPLACE FUNCTION public.public_order_transition_allowed(_from TEXT, _to TEXT)
+RETURNS BOOLEAN
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE _from
+    WHEN 'pending' THEN _to IN ('confirmed', 'cancelled')
+    WHEN 'confirmed' THEN _to IN ('processing', 'ready', 'completed', 'cancelled')
+    WHEN 'processing' THEN _to IN ('ready', 'completed', 'cancelled')
+    WHEN 'ready' THEN _to IN ('completed', 'cancelled')
+    ELSE false
+  END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.public_order_transition_allowed(TEXT, TEXT) TO anon, authenticated;
+
+-- Put an order's held stock back on the shelf
+CREATE OR REPLACE FUNCTION public.release_public_order_stock(_order_id UUID, _reason TEXT)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _item RECORD;
+  _user_id UUID;
+  _previous_stock INTEGER;
+  _released INTEGER := 0;
+BEGIN
+  SELECT po.id, po.store_id, po.order_code, po.inventory_reserved, s.owner_id
+  INTO _order
+  FROM public.public_orders po
+  JOIN public.stores s ON s.id = po.store_id
+  WHERE po.id = _order_id;
+
+  IF NOT FOUND OR NOT _order.inventory_reserved THEN
+    RETURN 0;
+  END IF;
+
+  -- Expiry runs without a user; the release is recorded against the store owner
+  _user_id := COALESCE(auth.uid(), _order.owner_id);
+
+  FOR _item IN
+    SELECT poi.product_id, poi.variant_id, SUM(poi.quantity) AS quantity
+    FROM public.public_order_items poi
+    WHERE poi.order_id = _order_id
+    GROUP BY poi.product_id, poi.variant_id
+    ORDER BY poi.product_id, poi.variant_id
+  LOOP
+    _previous_stock := NULL;
+
+    IF _item.variant_id IS NOT NULL THEN
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity + _item.quantity,
+          updated_at = now()
+      WHERE id = _item.variant_id
+      RETURNING stock_quantity - _item.quantity INTO _previous_stock;
+    ELSE
+      UPDATE public.products
+      SET stock_quantity = stock_quantity + _item.quantity,
+          updated_at = now()
+      WHERE id = _item.product_id
+      RETURNING stock_quantity - _item.quantity INTO _previous_stock;
+    END IF;
+
+    -- The product or variant may have been deleted since
+    CONTINUE WHEN _previous_stock IS NULL;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _order.store_id,
+      _item.product_id,
+      _item.variant_id,
+      _user_id,
+      'order_release',
+      _item.quantity,
+      _previous_stock,
+      _previous_stock + _item.quantity,
+      _reason,
+      _order_id
+    );
+
+    _released := _released + _item.quantity;
+  END LOOP;
+
+  UPDATE public.public_orders
+  SET inventory_reserved = false,
+      reserved_until = NULL
+  WHERE id = _order_id;
+
+  RETURN _released;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.release_public_order_stock(UUID, TEXT) FROM PUBLIC;
+
+-- Text of the message a customer gets when their order reaches a status
+CREATE OR REPLACE FUNCTION public.render_public_order_notification(_order_id UUID, _status TEXT)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _greeting TEXT;
+BEGIN
+  SELECT po.order_code, po.customer_name, po.total, po.cancellation_reason, s.name AS store_name, s.currency
+  INTO _order
+  FROM public.public_orders po
+  JOIN public.stores s ON s.id = po.store_id
+  WHERE po.id = _order_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  _greeting := 'Hi ' || split_part(trim(_order.customer_name), ' ', 1) || ', ';
+
+  RETURN CASE _status
+    WHEN 'confirmed' THEN
+      _greeting || _order.store_name || ' has confirmed your order ' || _order.order_code
+      || ' (' || COALESCE(_order.currency || ' ', '') || to_char(_order.total, 'FM999999990.00') || ').'
+    WHEN 'processing' THEN
+      _greeting || 'your order ' || _order.order_code || ' is being prepared by ' || _order.store_name || '.'
+    WHEN 'ready' THEN
+      _greeting || 'your order ' || _order.order_code || ' is ready at ' || _order.store_name || '.'
+    WHEN 'completed' THEN
+      _greeting || 'thank you! Your order ' || _order.order_code || ' from ' || _order.store_name || ' is complete.'
+    WHEN 'cancelled' THEN
+      _greeting || 'your order ' || _order.order_code || ' from ' || _order.store_name || ' has been cancelled'
+      || COALESCE(': ' || _order.cancellation_reason, '') || '.'
+    ELSE NULL
+  END;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.render_public_order_notification(UUID, TEXT) FROM PUBLIC;
+
+-- Queue the customer's message for a status. SMS goes out when the store has SMS notifications on;
+-- otherwise staff send it by WhatsApp. A newer status supersedes any message not yet sent.
+CREATE OR REPLACE FUNCTION public.queue_public_order_notification(_order_id UUID, _status TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _message TEXT;
+  _notification_id UUID;
+BEGIN
+  SELECT po.id, po.store_id, po.customer_phone, COALESCE(ss.sms_notifications, false) AS sms_enabled
+  INTO _order
+  FROM public.public_orders po
+  LEFT JOIN public.store_settings ss ON ss.store_id = po.store_id
+  WHERE po.id = _order_id;
+
+  IF NOT FOUND OR NULLIF(trim(_order.customer_phone), '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  _message := public.render_public_order_notification(_order_id, _status);
+
+  IF _message IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.public_order_notifications
+  SET status = 'cancelled',
+      error_message = 'Superseded by a later status'
+  WHERE order_id = _order_id
+    AND status = 'pending';
+
+  INSERT INTO public.public_order_notifications (
+    store_id,
+    order_id,
+    order_status,
+    channel,
+    recipient_phone,
+    message,
+    created_by
+  ) VALUES (
+    _order.store_id,
+    _order_id,
+    _status,
+    CASE WHEN _order.sms_enabled THEN 'sms' ELSE 'whatsapp' END,
+    _order.customer_phone,
+    _message,
+    auth.uid()
+  ) RETURNING id INTO _notification_id;
+
+  RETURN _notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_public_order_notification(UUID, TEXT) FROM PUBLIC;
+
+-- Status changes are checked here so every path (staff screens, completion, expiry) follows the
+-- same rules. Completion has to go through complete_public_order, which records the sale.
+CREATE OR REPLACE FUNCTION public.enforce_public_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  IF NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  IF NOT public.public_order_transition_allowed(OLD.status, NEW.status) THEN
+    RAISE EXCEPTION 'Order % cannot go from % to %', OLD.order_code, OLD.status, NEW.status;
+  END IF;
+
+  IF NEW.status = 'completed' AND NEW.sales_order_id IS NULL THEN
+    RAISE EXCEPTION 'Complete order % with complete_public_order so the sale is recorded', OLD.order_code;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    NEW.cancelled_at := COALESCE(NEW.cancelled_at, now());
+  ELSIF NEW.status = 'completed' THEN
+    NEW.completed_at := COALESCE(NEW.completed_at, now());
+  END IF;
+
+  -- Confirmed orders keep their stock until they are completed or cancelled
+  IF NEW.status <> 'pending' THEN
+    NEW.reserved_until := NULL;
+  END IF;
+
+  NEW.updated_at := now();
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_enforce_public_order_status ON public.public_orders;
+CREATE TRIGGER trigger_enforce_public_order_status
+  BEFORE UPDATE OF status ON public.public_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.enforce_public_order_status();
+
+-- After a change: history, released stock for cancellations, and the customer's message
+CREATE OR REPLACE FUNCTION public.record_public_order_status()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE' AND NEW.status IS NOT DISTINCT FROM OLD.status THEN
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO public.public_order_status_history (
+    store_id,
+    order_id,
+    from_status,
+    to_status,
+    note,
+    changed_by
+  ) VALUES (
+    NEW.store_id,
+    NEW.id,
+    CASE WHEN TG_OP = 'UPDATE' THEN OLD.status END,
+    NEW.status,
+    CASE WHEN NEW.status = 'cancelled' THEN NEW.cancellation_reason END,
+    auth.uid()
+  );
+
+  IF TG_OP = 'INSERT' THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.status = 'cancelled' THEN
+    PERFORM public.release_public_order_stock(NEW.id, 'Released from cancelled order ' || NEW.order_code);
+  END IF;
+
+  PERFORM public.queue_public_order_notification(NEW.id, NEW.status);
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_record_public_order_status ON public.public_orders;
+CREATE TRIGGER trigger_record_public_order_status
+  AFTER INSERT OR UPDATE OF status ON public.public_orders
+  FOR EACH ROW
+  EXECUTE FUNCTION public.record_public_order_status();
+
+-- Staff may change quantities on an open order; the held stock follows
+CREATE OR REPLACE FUNCTION public.sync_public_order_item_reservation()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _change INTEGER := NEW.quantity - OLD.quantity;
+  _previous_stock INTEGER;
+BEGIN
+  IF _change = 0 THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT po.store_id, po.order_code, po.status, po.inventory_reserved, s.owner_id
+  INTO _order
+  FROM public.public_orders po
+  JOIN public.stores s ON s.id = po.store_id
+  WHERE po.id = NEW.order_id;
+
+  IF NOT _order.inventory_reserved OR _order.status IN ('completed', 'cancelled') THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.variant_id IS NOT NULL THEN
+    SELECT stock_quantity INTO _previous_stock
+    FROM public.product_variants
+    WHERE id = NEW.variant_id
+    FOR UPDATE;
+  ELSE
+    SELECT stock_quantity INTO _previous_stock
+    FROM public.products
+    WHERE id = NEW.product_id
+    FOR UPDATE;
+  END IF;
+
+  IF _previous_stock IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF _change > 0 AND _previous_stock < _change THEN
+    RAISE EXCEPTION '%: only % more available', NEW.product_name, _previous_stock;
+  END IF;
+
+  IF NEW.variant_id IS NOT NULL THEN
+    UPDATE public.product_variants
+    SET stock_quantity = stock_quantity - _change,
+        updated_at = now()
+    WHERE id = NEW.variant_id;
+  ELSE
+    UPDATE public.products
+    SET stock_quantity = stock_quantity - _change,
+        updated_at = now()
+    WHERE id = NEW.product_id;
+  END IF;
+
+  INSERT INTO public.stock_adjustments (
+    store_id,
+    product_id,
+    variant_id,
+    user_id,
+    adjustment_type,
+    quantity_change,
+    previous_quantity,
+    new_quantity,
+    reason,
+    reference_id
+  ) VALUES (
+    _order.store_id,
+    NEW.product_id,
+    NEW.variant_id,
+    COALESCE(auth.uid(), _order.owner_id),
+    CASE WHEN _change > 0 THEN 'order_reserve' ELSE 'order_release' END,
+    -_change,
+    _previous_stock,
+    _previous_stock - _change,
+    'Quantity changed on order ' || _order.order_code,
+    NEW.order_id
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_sync_public_order_item_reservation ON public.public_order_items;
+CREATE TRIGGER trigger_sync_public_order_item_reservation
+  AFTER UPDATE OF quantity ON public.public_order_items
+  FOR EACH ROW
+  EXECUTE FUNCTION public.sync_public_order_item_reservation();
+
+-- Showcase orders now take their stock off the shelf when placed and hold it for the store's
+-- hold period. Lines asking for more than is in stock are refused.
+CREATE OR REPLACE FUNCTION public.create_public_order(
+  store_identifier TEXT,
+  customer_data JSONB,
+  order_items JSONB[],
+  discount_code_param TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store RECORD;
+  _order_id UUID;
+  _order_code TEXT;
+  _item JSONB;
+  _product RECORD;
+  _variant RECORD;
+  _quantity INTEGER;
+  _label TEXT;
+  _available INTEGER;
+  _item_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _lines JSONB := '[]'::jsonb;
+  _promotion RECORD;
+  _evaluation JSONB;
+  _best_promotion JSONB;
+  _code_discount RECORD;
+  _applied_code TEXT;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _discount_line RECORD;
+  _discount_share DECIMAL(10,2);
+  _discount_amount DECIMAL(10,2) := 0;
+  _tax_amount DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _reserved_until TIMESTAMP WITH TIME ZONE;
+BEGIN
+  SELECT s.* INTO _store
+  FROM public.stores s
+  WHERE (s.id::text = store_identifier
+         OR s.store_code = store_identifier
+         OR s.showcase_slug = store_identifier)
+    AND s.enable_public_showcase = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found or showcase not enabled';
+  END IF;
+
+  _order_code := generate_order_code(_store.id);
+  _reserved_until := now() + make_interval(hours => COALESCE(_store.public_order_hold_hours, 48));
+
+  INSERT INTO public.public_orders (
+    store_id,
+    order_code,
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    total,
+    status,
+    inventory_reserved,
+    reserved_until
+  ) VALUES (
+    _store.id,
+    _order_code,
+    customer_data->>'name',
+    customer_data->>'phone',
+    0, -- Will be updated below
+    0, -- Will be updated below
+    0, -- Will be updated below
+    'pending',
+    true,
+    _reserved_until
+  ) RETURNING id INTO _order_id;
+
+  FOREACH _item IN ARRAY order_items LOOP
+    SELECT p.* INTO _product
+    FROM public.products p
+    WHERE p.id = (_item->>'product_id')::UUID
+      AND p.store_id = _store.id
+      AND p.is_public = true
+      AND p.is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found or not available: %', _item->>'product_id';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    _variant := NULL;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', _product.name;
+    END IF;
+
+    IF NULLIF(_item->>'variant_id', '') IS NOT NULL THEN
+      SELECT v.id, v.name, v.price, v.options, v.stock_quantity
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = (_item->>'variant_id')::UUID
+        AND v.product_id = _product.id
+        AND v.is_active
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected option of % is no longer available', _product.name;
+      END IF;
+    ELSIF _product.has_variants THEN
+      RAISE EXCEPTION 'Choose the options for %', _product.name;
+    END IF;
+
+    _label := _product.name || COALESCE(' (' || _variant.name || ')', '');
+    _available := COALESCE(_variant.stock_quantity, _product.stock_quantity, 0);
+
+    IF _available < _quantity THEN
+      RAISE EXCEPTION '%: only % available', _label, GREATEST(_available, 0);
+    END IF;
+
+    _item_total := COALESCE(_variant.price, _product.price) * _quantity;
+
+    INSERT INTO public.public_order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      product_name,
+      product_image_url,
+      quantity,
+      unit_price,
+      total_price,
+      selected_variants
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _variant.id,
+      _variant.name,
+      _product.name,
+      _product.image_url,
+      _quantity,
+      _item_total / _quantity,
+      _item_total,
+      COALESCE(_variant.options, '{}'::jsonb)
+    );
+
+    -- Hold the stock. Variant lines hold the variant's stock; the product's total follows
+    -- through its trigger.
+    IF _variant.id IS NOT NULL THEN
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - _quantity,
+          updated_at = now()
+      WHERE id = _variant.id;
+    ELSE
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - _quantity,
+          updated_at = now()
+      WHERE id = _product.id;
+    END IF;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store.id,
+      _product.id,
+      _variant.id,
+      _store.owner_id,
+      'order_reserve',
+      -_quantity,
+      _available,
+      _available - _quantity,
+      'Reserved for showcase order ' || _order_code,
+      _order_id
+    );
+
+    _subtotal := _subtotal + _item_total;
+    _lines := _lines || jsonb_build_object(
+      'product_id', _product.id,
+      'quantity', _quantity,
+      'unit_price', _item_total / _quantity
+    );
+  END LOOP;
+
+  -- Best automatic promotion open to anonymous shoppers
+  FOR _promotion IN
+    SELECT d.id, d.name
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND d.code IS NULL
+      AND d.is_active
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+  LOOP
+    _evaluation := public.evaluate_discount(_promotion.id, _lines, NULL);
+
+    IF (_evaluation->>'eligible')::BOOLEAN
+       AND (_best_promotion IS NULL OR (_evaluation->>'amount')::DECIMAL > (_best_promotion->>'amount')::DECIMAL) THEN
+      _best_promotion := jsonb_build_object(
+        'discount_id', _promotion.id,
+        'name', _promotion.name,
+        'code', NULL,
+        'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+      );
+    END IF;
+  END LOOP;
+
+  IF _best_promotion IS NOT NULL THEN
+    _applied_discounts := _applied_discounts || _best_promotion;
+  END IF;
+
+  IF NULLIF(trim(discount_code_param), '') IS NOT NULL THEN
+    SELECT d.id, d.name, d.code
+    INTO _code_discount
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND upper(d.code) = upper(trim(discount_code_param))
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Discount code % is not valid', trim(discount_code_param);
+    END IF;
+
+    _evaluation := public.evaluate_discount(_code_discount.id, _lines, NULL);
+
+    IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+      RAISE EXCEPTION '%', _evaluation->>'message';
+    END IF;
+
+    _applied_code := _code_discount.code;
+    _applied_discounts := _applied_discounts || jsonb_build_object(
+      'discount_id', _code_discount.id,
+      'name', _code_discount.name,
+      'code', _code_discount.code,
+      'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+    );
+  END IF;
+
+  -- Record redemptions, never taking more off than the cart is worth
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    _discount_share := LEAST(_discount_line.amount, GREATEST(0, _subtotal - _discount_amount));
+    _discount_amount := _discount_amount + _discount_share;
+
+    INSERT INTO public.discount_usage (
+      discount_id,
+      public_order_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _discount_share
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  _tax_amount := (_subtotal - _discount_amount) * COALESCE(_store.tax_rate, 0);
+  _total := _subtotal - _discount_amount + _tax_amount;
+
+  UPDATE public.public_orders
+  SET subtotal = _subtotal,
+      discount_amount = _discount_amount,
+      discount_code = _applied_code,
+      tax_amount = _tax_amount,
+      total = _total,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  RETURN jsonb_build_object(
+    'order_id', _order_id,
+    'order_code', _order_code,
+    'subtotal', _subtotal,
+    'discount_amount', _discount_amount,
+    'discount_code', _applied_code,
+    'discounts', _applied_discounts,
+    'tax_amount', _tax_amount,
+    'total', _total,
+    'status', 'pending',
+    'reserved_until', _reserved_until,
+    'store_name', _store.name,
+    'store_phone', _store.phone,
+    'whatsapp_number', _store.whatsapp_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_public_order(TEXT, JSONB, JSONB[], TEXT) TO anon, authenticated;
+
+-- Move an order along its path. Completing records the sale through complete_public_order.
+CREATE OR REPLACE FUNCTION public.update_public_order_status(
+  _order_id UUID,
+  _status TEXT,
+  _note TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+BEGIN
+  SELECT id, store_id, order_code, status
+  INTO _order
+  FROM public.public_orders
+  WHERE id = _order_id
+  FOR UPDATE;
+
+  IF auth.uid() IS NULL OR NOT FOUND OR NOT public.user_can_access_store(_order.store_id) THEN
+    RAISE EXCEPTION 'Access denied to order %', _order_id;
+  END IF;
+
+  IF _order.status = _status THEN
+    RETURN jsonb_build_object('success', true, 'status', _status);
+  END IF;
+
+  IF NOT public.public_order_transition_allowed(_order.status, _status) THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Order ' || _order.order_code || ' is ' || _order.status || ' and cannot be marked ' || _status
+    );
+  END IF;
+
+  IF _status = 'completed' THEN
+    RETURN public.complete_public_order(_order_id);
+  END IF;
+
+  UPDATE public.public_orders
+  SET status = _status,
+      cancellation_reason = CASE WHEN _status = 'cancelled' THEN NULLIF(trim(_note), '') ELSE cancellation_reason END
+  WHERE id = _order_id;
+
+  RETURN jsonb_build_object('success', true, 'status', _status);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.update_public_order_status(UUID, TEXT, TEXT) TO authenticated;
+
+-- Turn a showcase order into a completed sale: the customer is found by phone or added, the
+-- order and its lines are written to orders, and the payment is recorded as a sale transaction.
+-- Held stock already left the shelf; orders placed before stock was held take it now.
+CREATE OR REPLACE FUNCTION public.complete_public_order(
+  p_order_id UUID,
+  p_customer_name TEXT DEFAULT NULL,
+  p_customer_phone TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order RECORD;
+  _item RECORD;
+  _customer_id UUID;
+  _customer_name TEXT;
+  _customer_phone TEXT;
+  _sales_order_id UUID;
+  _transaction_id UUID;
+  _transaction_number TEXT;
+  _previous_stock INTEGER;
+BEGIN
+  SELECT *
+  INTO _order
+  FROM public.public_orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF _user_id IS NULL OR NOT FOUND OR NOT public.user_can_access_store(_order.store_id) THEN
+    RAISE EXCEPTION 'Access denied to order %', p_order_id;
+  END IF;
+
+  IF _order.sales_order_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'order_id', _order.sales_order_id);
+  END IF;
+
+  IF NOT public.public_order_transition_allowed(_order.status, 'completed') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Order ' || _order.order_code || ' is ' || _order.status || ' and cannot be completed'
+    );
+  END IF;
+
+  _customer_name := COALESCE(NULLIF(trim(p_customer_name), ''), _order.customer_name);
+  _customer_phone := COALESCE(NULLIF(trim(p_customer_phone), ''), _order.customer_phone);
+
+  SELECT id INTO _customer_id
+  FROM public.customers
+  WHERE store_id = _order.store_id
+    AND phone = _customer_phone
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF _customer_id IS NULL THEN
+    INSERT INTO public.customers (store_id, name, phone)
+    VALUES (_order.store_id, _customer_name, _customer_phone)
+    RETURNING id INTO _customer_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method
+  ) VALUES (
+    _order.store_id,
+    _customer_id,
+    _user_id,
+    _order.order_code,
+    _order.subtotal,
+    COALESCE(_order.discount_amount, 0),
+    _order.discount_code,
+    COALESCE(_order.tax_amount, 0),
+    _order.total,
+    'completed',
+    COALESCE(NULLIF(p_payment_method, ''), 'cash')
+  ) RETURNING id INTO _sales_order_id;
+
+  FOR _item IN
+    SELECT poi.product_id, poi.variant_id, poi.variant_name, poi.quantity, poi.unit_price, poi.total_price
+    FROM public.public_order_items poi
+    WHERE poi.order_id = p_order_id
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _sales_order_id,
+      _item.product_id,
+      _item.variant_id,
+      _item.variant_name,
+      _item.quantity,
+      _item.unit_price,
+      _item.total_price
+    );
+
+    IF NOT _order.inventory_reserved THEN
+      _previous_stock := NULL;
+
+      IF _item.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity - _item.quantity,
+            updated_at = now()
+        WHERE id = _item.variant_id
+        RETURNING stock_quantity + _item.quantity INTO _previous_stock;
+      ELSE
+        UPDATE public.products
+        SET stock_quantity = stock_quantity - _item.quantity,
+            updated_at = now()
+        WHERE id = _item.product_id
+        RETURNING stock_quantity + _item.quantity INTO _previous_stock;
+      END IF;
+
+      CONTINUE WHEN _previous_stock IS NULL;
+
+      INSERT INTO public.stock_adjustments (
+        store_id,
+        product_id,
+        variant_id,
+        user_id,
+        adjustment_type,
+        quantity_change,
+        previous_quantity,
+        new_quantity,
+        reason,
+        reference_id
+      ) VALUES (
+        _order.store_id,
+        _item.product_id,
+        _item.variant_id,
+        _user_id,
+        'sale',
+        -_item.quantity,
+        _previous_stock,
+        _previous_stock - _item.quantity,
+        'Sale - Showcase order ' || _order.order_code,
+        _sales_order_id
+      );
+    END IF;
+  END LOOP;
+
+  SELECT public.generate_transaction_number(_order.store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    processed_by
+  ) VALUES (
+    _order.store_id,
+    _transaction_number,
+    'sale',
+    _order.total,
+    COALESCE(NULLIF(p_payment_method, ''), 'cash'),
+    _sales_order_id,
+    'order',
+    _customer_id,
+    _customer_name,
+    'Sale - Showcase order ' || _order.order_code,
+    _user_id
+  ) RETURNING id INTO _transaction_id;
+
+  UPDATE public.customers
+  SET total_orders = COALESCE(total_orders, 0) + 1,
+      total_spent = COALESCE(total_spent, 0) + _order.total,
+      updated_at = now()
+  WHERE id = _customer_id;
+
+  UPDATE public.public_orders
+  SET status = 'completed',
+      customer_name = _customer_name,
+      customer_phone = _customer_phone,
+      sales_order_id = _sales_order_id,
+      inventory_reserved = false
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order_id', _sales_order_id,
+    'order_number', _order.order_code,
+    'customer_id', _customer_id,
+    'transaction_id', _transaction_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_public_order(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Cancel pending orders the store did not confirm within its hold period, putting their stock back
+CREATE OR REPLACE FUNCTION public.expire_public_orders(_as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _expired INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE public.public_orders
+    SET status = 'cancelled',
+        cancellation_reason = 'Not confirmed by the store in time'
+    WHERE status = 'pending'
+      AND inventory_reserved
+      AND reserved_until < _as_of
+    RETURNING id
+  )
+  SELECT count(*) INTO _expired FROM expired;
+
+  RETURN jsonb_build_object('success', true, 'expired_count', _expired);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_public_orders(TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_public_orders(TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Hand the next batch of due SMS messages to the dispatcher
+CREATE OR REPLACE FUNCTION public.claim_public_order_notifications(
+  _channels TEXT[] DEFAULT ARRAY['sms'],
+  _limit INTEGER DEFAULT 50
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _claimed JSONB;
+BEGIN
+  WITH next_batch AS (
+    SELECT id
+    FROM public.public_order_notifications
+    WHERE status = 'pending'
+      AND channel = ANY(_channels)
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at, created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE public.public_order_notifications n
+    SET status = 'sending',
+        attempts = n.attempts + 1
+    FROM next_batch
+    WHERE n.id = next_batch.id
+    RETURNING n.id, n.order_id, n.order_status, n.channel, n.recipient_phone,
+              NULL::TEXT AS recipient_email, NULL::TEXT AS subject, n.message, n.attempts
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(claimed)), '[]'::jsonb)
+  INTO _claimed
+  FROM claimed;
+
+  RETURN _claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_public_order_notifications(TEXT[], INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_public_order_notifications(TEXT[], INTEGER) TO service_role;
+
+-- Record how a delivery went. Failures are retried with a growing delay, up to three attempts.
+CREATE OR REPLACE FUNCTION public.record_public_order_notification_result(
+  _notification_id UUID,
+  _sent BOOLEAN,
+  _error TEXT DEFAULT NULL,
+  _provider TEXT DEFAULT NULL,
+  _provider_message_id TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _notification RECORD;
+BEGIN
+  SELECT *
+  INTO _notification
+  FROM public.public_order_notifications
+  WHERE id = _notification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification % not found', _notification_id;
+  END IF;
+
+  IF NOT (public.is_service_caller() OR public.user_can_access_store(_notification.store_id)) THEN
+    RAISE EXCEPTION 'Access denied to notification %', _notification_id;
+  END IF;
+
+  IF _notification.status IN ('sent', 'cancelled') THEN
+    RETURN;
+  END IF;
+
+  IF NOT _sent THEN
+    UPDATE public.public_order_notifications
+    SET status = CASE WHEN attempts >= 3 THEN 'failed' ELSE 'pending' END,
+        next_attempt_at = now() + make_interval(mins => 15 * GREATEST(attempts, 1)),
+        error_message = _error,
+        provider = COALESCE(_provider, provider)
+    WHERE id = _notification_id;
+
+    RETURN;
+  END IF;
+
+  UPDATE public.public_order_notifications
+  SET status = 'sent',
+      sent_at = now(),
+      error_message = NULL,
+      provider = COALESCE(_provider, provider),
+      provider_message_id = _provider_message_id,
+      -- WhatsApp messages are sent by hand and never claimed
+      attempts = GREATEST(attempts, 1)
+  WHERE id = _notification_id;
+
+  IF _notification.channel = 'whatsapp' THEN
+    UPDATE public.public_orders
+    SET whatsapp_sent = true,
+        whatsapp_sent_at = now()
+    WHERE id = _notification.order_id;
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_public_order_notification_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_public_order_notification_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) TO authenticated, service_role;
+
+-- The tracking page: an order's progress by its code, without the customer's contact details
+CREATE OR REPLACE FUNCTION public.get_public_order_by_code(order_code_param TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _items JSONB;
+  _history JSONB;
+BEGIN
+  SELECT
+    po.*,
+    s.name AS store_name,
+    s.phone AS store_phone,
+    s.whatsapp_number,
+    s.currency
+  INTO _order
+  FROM public.public_orders po
+  JOIN public.stores s ON po.store_id = s.id
+  WHERE po.order_code = upper(trim(order_code_param));
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'id', poi.id,
+      'product_id', poi.product_id,
+      'product_name', poi.product_name,
+      'product_image_url', poi.product_image_url,
+      'variant_name', poi.variant_name,
+      'quantity', poi.quantity,
+      'unit_price', poi.unit_price,
+      'total_price', poi.total_price,
+      'selected_variants', poi.selected_variants
+    )
+    ORDER BY poi.created_at
+  ) INTO _items
+  FROM public.public_order_items poi
+  WHERE poi.order_id = _order.id;
+
+  SELECT jsonb_agg(
+    jsonb_build_object(
+      'status', h.to_status,
+      'note', h.note,
+      'created_at', h.created_at
+    )
+    ORDER BY h.created_at
+  ) INTO _history
+  FROM public.public_order_status_history h
+  WHERE h.order_id = _order.id;
+
+  RETURN jsonb_build_object(
+    'id', _order.id,
+    'order_code', _order.order_code,
+    'customer_name', _order.customer_name,
+    'subtotal', _order.subtotal,
+    'discount_amount', COALESCE(_order.discount_amount, 0),
+    'tax_amount', _order.tax_amount,
+    'total', _order.total,
+    'status', _order.status,
+    'reserved_until', _order.reserved_until,
+    'cancellation_reason', _order.cancellation_reason,
+    'created_at', _order.created_at,
+    'updated_at', _order.updated_at,
+    'store', jsonb_build_object(
+      'name', _order.store_name,
+      'phone', _order.store_phone,
+      'whatsapp_number', _order.whatsapp_number,
+      'currency', _order.currency
+    ),
+    'items', COALESCE(_items, '[]'::jsonb),
+    'history', COALESCE(_history, '[]'::jsonb)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_order_by_code(TEXT) TO anon, authenticated;
+
+-- Orders placed before this migration start their history at their current status
+INSERT INTO public.public_order_status_history (store_id, order_id, from_status, to_status, created_at)
+SELECT po.store_id, po.id, NULL, po.status, po.updated_at
+FROM public.public_orders po
+WHERE NOT EXISTS (
+  SELECT 1 FROM public.public_order_status_history h WHERE h.order_id = po.id
+);
+
+-- Release expired holds every fifteen minutes where pg_cron is available
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'expire-public-orders';
+    PERFORM cron.schedule(
+      'expire-public-orders',
+      '*/15 * * * *',
+      'SELECT public.expire_public_orders()'
+    );
+  END IF;
+END;
+$$;
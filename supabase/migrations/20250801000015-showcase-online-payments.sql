@@ -0,0 +1,468 @@
+-- Migration: Showcase Online Payments
+-- Description: Let shoppers pay for showcase orders online through the store's own PayChangu
+-- merchant account. Stores keep their merchant keys here, every checkout attempt is recorded
+-- against the order, and the payment webhook marks the order paid
+-- Date: 2025-08-01
+
+-- One row per store and gateway. The keys never leave the database except to the payment
+-- server, so the table has no policies: owners manage it through the functions below.
+CREATE TABLE IF NOT EXISTS public.store_payment_gateways (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL DEFAULT 'paychangu' CHECK (provider IN ('paychangu')),
+  is_enabled BOOLEAN NOT NULL DEFAULT false,
+  public_key TEXT,
+  secret_key TEXT,
+  webhook_secret TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (store_id, provider),
+  -- Without the webhook secret nobody can tell a real payment notice from a forged one
+  CONSTRAINT store_payment_gateways_enabled_keys
+    CHECK (NOT is_enabled OR (secret_key IS NOT NULL AND webhook_secret IS NOT NULL))
+);
+
+ALTER TABLE public.store_payment_gateways ENABLE ROW LEVEL SECURITY;
+
+ALTER TABLE public.public_orders
+ADD COLUMN IF NOT EXISTS payment_status TEXT NOT NULL DEFAULT 'unpaid'
+  CHECK (payment_status IN ('unpaid', 'pending', 'paid', 'failed')),
+ADD COLUMN IF NOT EXISTS payment_reference TEXT,
+ADD COLUMN IF NOT EXISTS paid_at TIMESTAMP WITH TIME ZONE;
+
+-- Each attempt to pay for a showcase order. tx_ref is the reference PayChangu echoes back in
+-- the redirect and the webhook.
+CREATE TABLE IF NOT EXISTS public.public_order_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.public_orders(id) ON DELETE CASCADE,
+  provider TEXT NOT NULL DEFAULT 'paychangu',
+  tx_ref TEXT NOT NULL UNIQUE,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount > 0),
+  currency TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'paid', 'failed')),
+  checkout_url TEXT,
+  provider_charge_id TEXT,
+  payment_channel TEXT,
+  failure_reason TEXT,
+  webhook_data JSONB,
+  paid_at TIMESTAMP WITH TIME ZONE,
+  failed_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_public_order_payments_order ON public.public_order_payments(order_id, created_at DESC);
+
+ALTER TABLE public.public_order_payments ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Store access for public_order_payments" ON public.public_order_payments
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- The store's gateway settings with the keys masked, for the settings page
+CREATE OR REPLACE FUNCTION public.get_store_payment_gateway(_store_id UUID, _provider TEXT DEFAULT 'paychangu')
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _gateway RECORD;
+BEGIN
+  IF NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  SELECT *
+  INTO _gateway
+  FROM public.store_payment_gateways
+  WHERE store_id = _store_id AND provider = _provider;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('provider', _provider, 'is_enabled', false, 'configured', false);
+  END IF;
+
+  RETURN jsonb_build_object(
+    'provider', _gateway.provider,
+    'is_enabled', _gateway.is_enabled,
+    'configured', _gateway.secret_key IS NOT NULL,
+    'public_key', _gateway.public_key,
+    'secret_key_hint', CASE WHEN _gateway.secret_key IS NULL THEN NULL ELSE right(_gateway.secret_key, 4) END,
+    'webhook_secret_set', _gateway.webhook_secret IS NOT NULL,
+    'updated_at', _gateway.updated_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_store_payment_gateway(UUID, TEXT) TO authenticated;
+
+-- Save the merchant account. Blank secrets keep the ones already stored, so the settings page
+-- never has to load them back.
+CREATE OR REPLACE FUNCTION public.save_store_payment_gateway(
+  _store_id UUID,
+  _is_enabled BOOLEAN,
+  _public_key TEXT DEFAULT NULL,
+  _secret_key TEXT DEFAULT NULL,
+  _webhook_secret TEXT DEFAULT NULL,
+  _provider TEXT DEFAULT 'paychangu'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _secret TEXT;
+  _webhook TEXT;
+BEGIN
+  IF NOT public.user_owns_store(_store_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only the store owner can change online payment settings');
+  END IF;
+
+  INSERT INTO public.store_payment_gateways (
+    store_id,
+    provider,
+    is_enabled,
+    public_key,
+    secret_key,
+    webhook_secret,
+    created_by
+  ) VALUES (
+    _store_id,
+    _provider,
+    false,
+    NULLIF(trim(_public_key), ''),
+    NULLIF(trim(_secret_key), ''),
+    NULLIF(trim(_webhook_secret), ''),
+    auth.uid()
+  )
+  ON CONFLICT (store_id, provider) DO UPDATE
+  SET public_key = COALESCE(NULLIF(trim(_public_key), ''), store_payment_gateways.public_key),
+      secret_key = COALESCE(NULLIF(trim(_secret_key), ''), store_payment_gateways.secret_key),
+      webhook_secret = COALESCE(NULLIF(trim(_webhook_secret), ''), store_payment_gateways.webhook_secret),
+      updated_at = now();
+
+  SELECT secret_key, webhook_secret
+  INTO _secret, _webhook
+  FROM public.store_payment_gateways
+  WHERE store_id = _store_id AND provider = _provider;
+
+  IF _is_enabled AND _secret IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter the secret key before turning on online payments');
+  END IF;
+
+  IF _is_enabled AND _webhook IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter the webhook secret before turning on online payments');
+  END IF;
+
+  UPDATE public.store_payment_gateways
+  SET is_enabled = _is_enabled
+  WHERE store_id = _store_id AND provider = _provider;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_store_payment_gateway(UUID, BOOLEAN, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Whether shoppers can pay this store online. Safe for the public showcase: no keys.
+CREATE OR REPLACE FUNCTION public.get_showcase_payment_options(store_identifier TEXT)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'online_payments', COALESCE(bool_or(g.is_enabled AND g.secret_key IS NOT NULL), false),
+    'provider', 'paychangu'
+  )
+  FROM public.stores s
+  LEFT JOIN public.store_payment_gateways g ON g.store_id = s.id AND g.provider = 'paychangu'
+  WHERE (s.id::text = store_identifier
+         OR s.store_code = store_identifier
+         OR s.showcase_slug = store_identifier)
+    AND s.enable_public_showcase = true;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_showcase_payment_options(TEXT) TO anon, authenticated;
+
+-- Open a payment attempt for an order. Called by the payment server, which creates the
+-- PayChangu charge with the returned merchant key and stores the checkout link.
+CREATE OR REPLACE FUNCTION public.begin_public_order_payment(_order_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _gateway RECORD;
+  _store RECORD;
+  _tx_ref TEXT;
+BEGIN
+  SELECT *
+  INTO _order
+  FROM public.public_orders
+  WHERE order_code = upper(trim(_order_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF _order.status IN ('completed', 'cancelled') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order ' || _order.order_code || ' is ' || _order.status || ' and cannot be paid');
+  END IF;
+
+  IF _order.payment_status = 'paid' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order ' || _order.order_code || ' is already paid');
+  END IF;
+
+  SELECT *
+  INTO _gateway
+  FROM public.store_payment_gateways
+  WHERE store_id = _order.store_id AND provider = 'paychangu' AND is_enabled AND secret_key IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This store does not take online payments');
+  END IF;
+
+  SELECT name, currency INTO _store FROM public.stores WHERE id = _order.store_id;
+
+  _tx_ref := 'ord_' || lower(_order.order_code) || '_' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint;
+
+  INSERT INTO public.public_order_payments (
+    store_id,
+    order_id,
+    tx_ref,
+    amount,
+    currency
+  ) VALUES (
+    _order.store_id,
+    _order.id,
+    _tx_ref,
+    _order.total,
+    COALESCE(_store.currency, 'MWK')
+  );
+
+  UPDATE public.public_orders
+  SET payment_status = 'pending'
+  WHERE id = _order.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'tx_ref', _tx_ref,
+    'order_id', _order.id,
+    'order_code', _order.order_code,
+    'amount', _order.total,
+    'currency', COALESCE(_store.currency, 'MWK'),
+    'customer_name', _order.customer_name,
+    'store_name', _store.name,
+    'secret_key', _gateway.secret_key
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_public_order_payment(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.begin_public_order_payment(TEXT) TO service_role;
+
+-- The merchant keys behind a payment reference, so the payment server can check a webhook
+-- signature or verify the charge with the right account
+CREATE OR REPLACE FUNCTION public.get_public_order_payment_gateway(_tx_ref TEXT)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'store_id', p.store_id,
+    'order_id', p.order_id,
+    'status', p.status,
+    'secret_key', g.secret_key,
+    'webhook_secret', g.webhook_secret
+  )
+  FROM public.public_order_payments p
+  JOIN public.store_payment_gateways g ON g.store_id = p.store_id AND g.provider = p.provider
+  WHERE p.tx_ref = _tx_ref;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_public_order_payment_gateway(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_public_order_payment_gateway(TEXT) TO service_role;
+
+-- Settle a payment attempt from the webhook or a verification. A paid pending order is
+-- confirmed, which ends its stock hold, and the customer is told through the usual status
+-- message. A payment that lands after the order was cancelled is kept as paid and the store
+-- is told to refund it. Repeated deliveries of the same result change nothing. Only a charge
+-- that reports the full amount in the order's currency counts as paid.
+CREATE OR REPLACE FUNCTION public.record_public_order_payment(
+  _tx_ref TEXT,
+  _paid BOOLEAN,
+  _amount DECIMAL DEFAULT NULL,
+  _charge_id TEXT DEFAULT NULL,
+  _channel TEXT DEFAULT NULL,
+  _failure_reason TEXT DEFAULT NULL,
+  _payload JSONB DEFAULT NULL,
+  _currency TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _payment RECORD;
+  _order RECORD;
+BEGIN
+  SELECT *
+  INTO _payment
+  FROM public.public_order_payments
+  WHERE tx_ref = _tx_ref
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payment ' || _tx_ref || ' not found');
+  END IF;
+
+  IF _payment.status = 'paid' THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'status', _payment.status);
+  END IF;
+
+  IF _paid AND _amount IS NULL THEN
+    _paid := false;
+    _failure_reason := 'The payment did not report the amount paid';
+  ELSIF _paid AND upper(COALESCE(_currency, '')) <> upper(_payment.currency) THEN
+    _paid := false;
+    _failure_reason := 'Paid in ' || COALESCE(NULLIF(_currency, ''), 'an unknown currency') || ', not ' || _payment.currency;
+  ELSIF _paid AND _amount < _payment.amount THEN
+    _paid := false;
+    _failure_reason := 'Paid ' || _amount || ' ' || _payment.currency || ' of ' || _payment.amount;
+  END IF;
+
+  SELECT * INTO _order FROM public.public_orders WHERE id = _payment.order_id FOR UPDATE;
+
+  IF NOT _paid THEN
+    UPDATE public.public_order_payments
+    SET status = 'failed',
+        failed_at = now(),
+        failure_reason = COALESCE(_failure_reason, failure_reason),
+        provider_charge_id = COALESCE(_charge_id, provider_charge_id),
+        webhook_data = COALESCE(_payload, webhook_data),
+        updated_at = now()
+    WHERE id = _payment.id;
+
+    IF _order.payment_status <> 'paid' THEN
+      UPDATE public.public_orders
+      SET payment_status = 'failed'
+      WHERE id = _order.id;
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'status', 'failed');
+  END IF;
+
+  UPDATE public.public_order_payments
+  SET status = 'paid',
+      paid_at = now(),
+      failure_reason = NULL,
+      provider_charge_id = COALESCE(_charge_id, provider_charge_id),
+      payment_channel = COALESCE(_channel, payment_channel),
+      webhook_data = COALESCE(_payload, webhook_data),
+      updated_at = now()
+  WHERE id = _payment.id;
+
+  UPDATE public.public_orders
+  SET payment_status = 'paid',
+      payment_reference = _payment.tx_ref,
+      paid_at = now()
+  WHERE id = _order.id;
+
+  IF _order.status = 'pending' THEN
+    UPDATE public.public_orders
+    SET status = 'confirmed'
+    WHERE id = _order.id;
+  ELSIF _order.status = 'cancelled' THEN
+    INSERT INTO public.order_notifications (
+      store_id,
+      order_id,
+      notification_type,
+      title,
+      message
+    ) VALUES (
+      _order.store_id,
+      _order.id,
+      'order_update',
+      'Refund due',
+      'Order ' || _order.order_code || ' was paid online after it was cancelled. Refund '
+        || _payment.amount || ' ' || _payment.currency || ' to ' || _order.customer_name || '.'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'status', 'paid',
+    'order_status', _order.status,
+    'refund_due', _order.status = 'cancelled'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_public_order_payment(TEXT, BOOLEAN, DECIMAL, TEXT, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_public_order_payment(TEXT, BOOLEAN, DECIMAL, TEXT, TEXT, TEXT, JSONB, TEXT) TO service_role;
+
+-- Where a shopper's payment stands, for the page PayChangu sends them back to
+CREATE OR REPLACE FUNCTION public.get_public_order_payment(_tx_ref TEXT)
+RETURNS JSONB
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT jsonb_build_object(
+    'tx_ref', p.tx_ref,
+    'status', p.status,
+    'amount', p.amount,
+    'currency', p.currency,
+    'failure_reason', p.failure_reason,
+    'paid_at', p.paid_at,
+    'order_code', o.order_code,
+    'order_status', o.status,
+    'store_name', s.name
+  )
+  FROM public.public_order_payments p
+  JOIN public.public_orders o ON o.id = p.order_id
+  JOIN public.stores s ON s.id = p.store_id
+  WHERE p.tx_ref = _tx_ref;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_public_order_payment(TEXT) TO anon, authenticated;
+
+-- Orders the shopper is paying for keep their hold while the attempt is fresh, so the stock
+-- isn't released under a payment that is about to succeed. Abandoned attempts stop counting
+-- after an hour; a payment that still arrives later is flagged for a refund above.
+CREATE OR REPLACE FUNCTION public.expire_public_orders(_as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _expired INTEGER;
+BEGIN
+  WITH expired AS (
+    UPDATE public.public_orders o
+    SET status = 'cancelled',
+        cancellation_reason = 'Not confirmed by the store in time'
+    WHERE o.status = 'pending'
+      AND o.inventory_reserved
+      AND o.reserved_until < _as_of
+      AND NOT EXISTS (
+        SELECT 1
+        FROM public.public_order_payments p
+        WHERE p.order_id = o.id
+          AND p.status = 'pending'
+          AND p.created_at > _as_of - interval '1 hour'
+      )
+    RETURNING o.id
+  )
+  SELECT count(*) INTO _expired FROM expired;
+
+  RETURN jsonb_build_object('success', true, 'expired_count', _expired);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_public_orders(TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_public_orders(TIMESTAMP WITH TIME ZONE) TO service_role;
@@ -0,0 +1,531 @@
+-- Migration: Payment Webhook Events
+-- Description: Keep every PayChangu webhook delivery in an event log keyed by the event it
+-- reports, apply each event at most once, retry failed ones with backoff, handle refunds and
+-- chargebacks, and let platform admins inspect and replay events
+-- Date: 2025-08-01
+
+-- People who run the platform itself, as opposed to stores. Added by hand.
+CREATE TABLE IF NOT EXISTS public.platform_admins (
+  user_id UUID NOT NULL PRIMARY KEY REFERENCES auth.users(id) ON DELETE CASCADE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.platform_admins ENABLE ROW LEVEL SECURITY;
+
+CREATE OR REPLACE FUNCTION public.is_platform_admin()
+RETURNS BOOLEAN
+LANGUAGE sql
+SECURITY DEFINER
+STABLE
+AS $$
+  SELECT EXISTS (
+    SELECT 1 FROM public.platform_admins WHERE user_id = auth.uid()
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.is_platform_admin() TO authenticated;
+
+-- Money can come back after a payment: refunded by the merchant or charged back by the payer
+ALTER TABLE public.public_order_payments
+DROP CONSTRAINT IF EXISTS public_order_payments_status_check;
+
+ALTER TABLE public.public_order_payments
+ADD CONSTRAINT public_order_payments_status_check
+CHECK (status IN ('pending', 'paid', 'failed', 'refunded', 'charged_back'));
+
+ALTER TABLE public.public_order_payments
+ADD COLUMN IF NOT EXISTS reversed_amount DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+ALTER TABLE public.public_orders
+DROP CONSTRAINT IF EXISTS public_orders_payment_status_check;
+
+ALTER TABLE public.public_orders
+ADD CONSTRAINT public_orders_payment_status_check
+CHECK (payment_status IN ('unpaid', 'pending', 'paid', 'failed', 'refunded', 'charged_back'));
+
+ALTER TABLE public.subscription_payments
+DROP CONSTRAINT IF EXISTS subscription_payments_status_check;
+
+ALTER TABLE public.subscription_payments
+ADD CONSTRAINT subscription_payments_status_check
+CHECK (status IN ('pending', 'completed', 'failed', 'cancelled', 'refunded', 'charged_back'));
+
+ALTER TABLE public.subscription_payments
+ADD COLUMN IF NOT EXISTS reversed_at TIMESTAMP WITH TIME ZONE;
+
+-- One row per event, however many times the provider delivers it
+CREATE TABLE IF NOT EXISTS public.payment_webhook_events (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  provider TEXT NOT NULL DEFAULT 'paychangu',
+  event_key TEXT NOT NULL,
+  event_type TEXT,
+  reference TEXT,
+  target TEXT NOT NULL DEFAULT 'unknown' CHECK (target IN ('showcase_order', 'subscription', 'unknown')),
+  store_id UUID REFERENCES public.stores(id) ON DELETE SET NULL,
+  payload JSONB NOT NULL,
+  raw_body TEXT,
+  status TEXT NOT NULL DEFAULT 'received' CHECK (status IN ('received', 'processed', 'ignored', 'failed')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE,
+  last_error TEXT,
+  result JSONB,
+  delivery_count INTEGER NOT NULL DEFAULT 1,
+  received_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  last_delivered_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  processed_at TIMESTAMP WITH TIME ZONE,
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (provider, event_key)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_reference ON public.payment_webhook_events(reference);
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_retry
+ON public.payment_webhook_events(next_attempt_at) WHERE status = 'failed' AND next_attempt_at IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_payment_webhook_events_received
+ON public.payment_webhook_events(received_at) WHERE status = 'received';
+
+ALTER TABLE public.payment_webhook_events ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Platform admins can view payment_webhook_events" ON public.payment_webhook_events
+  FOR SELECT USING (public.is_platform_admin());
+
+-- Give back money received for a showcase order. The order keeps its status: staff decide
+-- whether it still goes ahead.
+CREATE OR REPLACE FUNCTION public.reverse_public_order_payment(
+  _tx_ref TEXT,
+  _kind TEXT,
+  _amount DECIMAL DEFAULT NULL,
+  _payload JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _payment RECORD;
+BEGIN
+  IF _kind NOT IN ('refunded', 'charged_back') THEN
+    RAISE EXCEPTION 'Unknown payment reversal %', _kind;
+  END IF;
+
+  SELECT *
+  INTO _payment
+  FROM public.public_order_payments
+  WHERE tx_ref = _tx_ref
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payment ' || _tx_ref || ' not found');
+  END IF;
+
+  IF _payment.status = _kind THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'status', _payment.status);
+  END IF;
+
+  IF _payment.status NOT IN ('paid', 'refunded') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Payment ' || _tx_ref || ' is ' || _payment.status || ' and has nothing to reverse');
+  END IF;
+
+  UPDATE public.public_order_payments
+  SET status = _kind,
+      reversed_amount = COALESCE(_amount, _payment.amount),
+      reversed_at = now(),
+      webhook_data = COALESCE(_payload, webhook_data),
+      updated_at = now()
+  WHERE id = _payment.id;
+
+  UPDATE public.public_orders
+  SET payment_status = _kind
+  WHERE id = _payment.order_id
+    AND payment_reference = _payment.tx_ref;
+
+  RETURN jsonb_build_object('success', true, 'status', _kind);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reverse_public_order_payment(TEXT, TEXT, DECIMAL, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.reverse_public_order_payment(TEXT, TEXT, DECIMAL, JSONB) TO service_role;
+
+-- Settle a subscription payment the way the app used to from the webhook: a paid period
+-- activates the subscription for another month, three failures put it past due, and money
+-- taken back puts it past due straight away. _amount is what the charge took; a payment is only
+-- completed by a charge for its full amount.
+CREATE OR REPLACE FUNCTION public.apply_subscription_payment_event(
+  _tx_ref TEXT,
+  _outcome TEXT,
+  _charge_id TEXT DEFAULT NULL,
+  _channel TEXT DEFAULT NULL,
+  _payload JSONB DEFAULT NULL,
+  _amount DECIMAL DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _payment RECORD;
+  _failed_attempts INTEGER;
+BEGIN
+  SELECT *
+  INTO _payment
+  FROM public.subscription_payments
+  WHERE paychangu_tx_ref = _tx_ref
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Subscription payment ' || _tx_ref || ' not found');
+  END IF;
+
+  -- A charge for less than was invoiced doesn't pay for it
+  IF _outcome = 'completed' AND (_amount IS NULL OR _amount < _payment.amount) THEN
+    _outcome := 'failed';
+  END IF;
+
+  IF _payment.status = _outcome THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'status', _payment.status);
+  END IF;
+
+  IF _outcome IN ('refunded', 'charged_back') THEN
+    IF _payment.status NOT IN ('completed', 'refunded') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Subscription payment ' || _tx_ref || ' is ' || _payment.status || ' and has nothing to reverse');
+    END IF;
+
+    UPDATE public.subscription_payments
+    SET status = _outcome,
+        reversed_at = now(),
+        webhook_data = COALESCE(_payload, webhook_data)
+    WHERE id = _payment.id;
+
+    UPDATE public.user_subscriptions
+    SET status = 'past_due',
+        updated_at = now()
+    WHERE id = _payment.subscription_id
+      AND status = 'active';
+
+    RETURN jsonb_build_object('success', true, 'status', _outcome);
+  END IF;
+
+  -- A later failure report does not undo a completed payment
+  IF _payment.status = 'completed' THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'status', _payment.status);
+  END IF;
+
+  UPDATE public.subscription_payments
+  SET status = _outcome,
+      paychangu_charge_id = COALESCE(_charge_id, paychangu_charge_id),
+      payment_method = COALESCE(_channel, payment_method),
+      webhook_data = COALESCE(_payload, webhook_data),
+      completed_at = CASE WHEN _outcome = 'completed' THEN now() ELSE completed_at END,
+      failed_at = CASE WHEN _outcome = 'failed' THEN now() ELSE failed_at END
+  WHERE id = _payment.id;
+
+  IF _outcome = 'completed' THEN
+    UPDATE public.user_subscriptions
+    SET status = 'active',
+        last_payment_date = now(),
+        next_billing_date = now() + INTERVAL '1 month',
+        failed_payment_attempts = 0,
+        updated_at = now()
+    WHERE id = _payment.subscription_id;
+  ELSE
+    UPDATE public.user_subscriptions
+    SET failed_payment_attempts = COALESCE(failed_payment_attempts, 0) + 1,
+        updated_at = now()
+    WHERE id = _payment.subscription_id
+    RETURNING failed_payment_attempts INTO _failed_attempts;
+
+    IF _failed_attempts >= 3 THEN
+      UPDATE public.user_subscriptions
+      SET status = 'past_due'
+      WHERE id = _payment.subscription_id;
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', _outcome);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_subscription_payment_event(TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_subscription_payment_event(TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL) TO service_role;
+
+-- What a delivery is about. PayChangu sends no event id, so an event is its type, reference,
+-- charge and outcome: a repeat delivery matches, a refund of the same charge does not.
+CREATE OR REPLACE FUNCTION public.payment_webhook_event_key(_payload JSONB)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT COALESCE(
+    NULLIF(_payload->>'event_id', ''),
+    NULLIF(_payload->>'id', ''),
+    concat_ws(':',
+      COALESCE(_payload->>'event_type', 'unknown'),
+      COALESCE(_payload->>'reference', _payload->>'tx_ref', ''),
+      COALESCE(_payload->>'charge_id', ''),
+      COALESCE(_payload->>'status', ''))
+  );
+$$;
+
+-- Log a delivery that passed the signature check. Repeat deliveries only bump the count.
+CREATE OR REPLACE FUNCTION public.receive_payment_webhook_event(
+  _payload JSONB,
+  _raw_body TEXT DEFAULT NULL,
+  _provider TEXT DEFAULT 'paychangu'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _reference TEXT := COALESCE(_payload->>'reference', _payload->>'tx_ref');
+  _target TEXT;
+  _store_id UUID;
+  _event RECORD;
+BEGIN
+  IF _reference LIKE 'ord\_%' THEN
+    _target := 'showcase_order';
+    SELECT store_id INTO _store_id FROM public.public_order_payments WHERE tx_ref = _reference;
+  ELSIF _reference LIKE 'sub\_%' THEN
+    _target := 'subscription';
+  ELSE
+    _target := 'unknown';
+  END IF;
+
+  INSERT INTO public.payment_webhook_events (
+    provider,
+    event_key,
+    event_type,
+    reference,
+    target,
+    store_id,
+    payload,
+    raw_body
+  ) VALUES (
+    _provider,
+    public.payment_webhook_event_key(_payload),
+    _payload->>'event_type',
+    _reference,
+    _target,
+    _store_id,
+    _payload,
+    _raw_body
+  )
+  ON CONFLICT (provider, event_key) DO UPDATE
+  SET delivery_count = payment_webhook_events.delivery_count + 1,
+      last_delivered_at = now(),
+      updated_at = now()
+  RETURNING id, status, (xmax = 0) AS inserted
+  INTO _event;
+
+  RETURN jsonb_build_object(
+    'event_id', _event.id,
+    'status', _event.status,
+    'duplicate', NOT _event.inserted
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.receive_payment_webhook_event(JSONB, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.receive_payment_webhook_event(JSONB, TEXT, TEXT) TO service_role;
+
+-- Apply one event to the payment it reports on. Raises when the event cannot be applied, so
+-- the caller can record the failure and retry.
+CREATE OR REPLACE FUNCTION public.apply_paychangu_webhook_event(_event public.payment_webhook_events)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _payload JSONB := _event.payload;
+  _event_type TEXT := COALESCE(_event.event_type, '');
+  _status TEXT := _payload->>'status';
+  _amount DECIMAL := NULLIF(_payload->>'amount', '')::DECIMAL;
+  _charge_id TEXT := _payload->>'charge_id';
+  _channel TEXT := _payload->'authorization'->>'channel';
+  _reversal TEXT;
+  _result JSONB;
+BEGIN
+  _reversal := CASE
+    WHEN _event_type ILIKE '%chargeback%' OR _event_type ILIKE '%dispute%' THEN 'charged_back'
+    WHEN _event_type ILIKE '%refund%' THEN 'refunded'
+  END;
+
+  IF _event_type NOT IN ('api.charge.payment', 'api.charge.failed') AND _reversal IS NULL THEN
+    RETURN jsonb_build_object('ignored', true, 'reason', 'Unhandled event type ' || COALESCE(_event.event_type, '(none)'));
+  END IF;
+
+  IF _event.target = 'showcase_order' THEN
+    IF _reversal IS NOT NULL THEN
+      _result := public.reverse_public_order_payment(_event.reference, _reversal, _amount, _payload);
+    ELSE
+      _result := public.record_public_order_payment(
+        _event.reference,
+        _event_type = 'api.charge.payment' AND _status = 'success',
+        _amount,
+        _charge_id,
+        _channel,
+        CASE WHEN _status = 'success' THEN NULL ELSE 'PayChangu status: ' || COALESCE(_status, 'unknown') END,
+        _payload,
+        _payload->>'currency'
+      );
+    END IF;
+  ELSIF _event.target = 'subscription' THEN
+    _result := public.apply_subscription_payment_event(
+      _event.reference,
+      COALESCE(_reversal, CASE WHEN _event_type = 'api.charge.payment' AND _status = 'success' THEN 'completed' ELSE 'failed' END),
+      _charge_id,
+      _channel,
+      _payload,
+      _amount
+    );
+  ELSE
+    RETURN jsonb_build_object('ignored', true, 'reason', 'Reference ' || COALESCE(_event.reference, '(none)') || ' is not ours');
+  END IF;
+
+  IF NOT COALESCE((_result->>'success')::BOOLEAN, false) THEN
+    RAISE EXCEPTION '%', COALESCE(_result->>'error', 'Event could not be applied');
+  END IF;
+
+  RETURN _result;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_paychangu_webhook_event(public.payment_webhook_events) FROM PUBLIC;
+
+-- Process a logged event. The row lock makes concurrent deliveries wait, and processed or
+-- ignored events are never applied again unless replayed. Failures are kept for retry after
+-- 1, 2, 4, 8 minutes and so on, up to five attempts.
+CREATE OR REPLACE FUNCTION public.process_payment_webhook_event(_event_id UUID, _force BOOLEAN DEFAULT false)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _event public.payment_webhook_events;
+  _result JSONB;
+  _error TEXT;
+BEGIN
+  SELECT *
+  INTO _event
+  FROM public.payment_webhook_events
+  WHERE id = _event_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Event not found');
+  END IF;
+
+  IF _event.status IN ('processed', 'ignored') AND NOT _force THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'status', _event.status);
+  END IF;
+
+  BEGIN
+    _result := public.apply_paychangu_webhook_event(_event);
+  EXCEPTION WHEN OTHERS THEN
+    _error := SQLERRM;
+  END;
+
+  IF _error IS NOT NULL THEN
+    UPDATE public.payment_webhook_events
+    SET status = 'failed',
+        attempts = attempts + 1,
+        last_error = _error,
+        next_attempt_at = CASE
+          WHEN attempts + 1 >= 5 THEN NULL
+          ELSE now() + make_interval(mins => power(2, attempts)::INTEGER)
+        END,
+        updated_at = now()
+    WHERE id = _event_id;
+
+    RETURN jsonb_build_object('success', false, 'status', 'failed', 'error', _error);
+  END IF;
+
+  UPDATE public.payment_webhook_events
+  SET status = CASE WHEN COALESCE((_result->>'ignored')::BOOLEAN, false) THEN 'ignored' ELSE 'processed' END,
+      attempts = attempts + 1,
+      last_error = NULL,
+      next_attempt_at = NULL,
+      result = _result,
+      processed_at = now(),
+      updated_at = now()
+  WHERE id = _event_id
+  RETURNING status INTO _event.status;
+
+  RETURN jsonb_build_object('success', true, 'status', _event.status, 'result', _result);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_payment_webhook_event(UUID, BOOLEAN) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.process_payment_webhook_event(UUID, BOOLEAN) TO service_role;
+
+-- Retry failed events that are due, and events still sitting at 'received' after the grace
+-- period: the handler stored them but died before processing, and the provider won't resend
+-- a delivery it already got a 200 for.
+CREATE OR REPLACE FUNCTION public.retry_payment_webhook_events(
+  _limit INTEGER DEFAULT 50,
+  _received_grace INTERVAL DEFAULT interval '10 minutes'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _event_id UUID;
+  _result JSONB;
+  _processed INTEGER := 0;
+  _failed INTEGER := 0;
+BEGIN
+  FOR _event_id IN
+    SELECT id
+    FROM public.payment_webhook_events
+    WHERE (status = 'failed' AND next_attempt_at <= now())
+       OR (status = 'received' AND received_at <= now() - _received_grace)
+    ORDER BY COALESCE(next_attempt_at, received_at)
+    LIMIT _limit
+  LOOP
+    _result := public.process_payment_webhook_event(_event_id);
+
+    IF (_result->>'success')::BOOLEAN THEN
+      _processed := _processed + 1;
+    ELSE
+      _failed := _failed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'processed_count', _processed, 'failed_count', _failed);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.retry_payment_webhook_events(INTEGER, INTERVAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.retry_payment_webhook_events(INTEGER, INTERVAL) TO service_role;
+
+-- Run an event again from the admin screen, whatever happened to it before. Applying a
+-- payment result twice is harmless: the payment tables ignore repeats.
+CREATE OR REPLACE FUNCTION public.replay_payment_webhook_event(_event_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT public.is_platform_admin() THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only platform admins can replay webhook events');
+  END IF;
+
+  RETURN public.process_payment_webhook_event(_event_id, true);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.replay_payment_webhook_event(UUID) TO authenticated;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'retry-payment-webhook-events';
+    PERFORM cron.schedule(
+      'retry-payment-webhook-events',
+      '*/5 * * * *',
+      'SELECT public.retry_payment_webhook_events()'
+    );
+  END IF;
+END;
+$$;
@@ -0,0 +1,1317 @@
+-- Migration: Subscription Lifecycle
+-- Description: Bill subscriptions in billing cycles: open renewals ahead of the period end,
+-- chase unpaid cycles on a dunning schedule, move subscriptions through past due (grace
+-- window), suspended and cancelled, prorate plan changes into credits and charges, and
+-- number every cycle as an invoice
+-- Date: 2025-08-01
+
+-- The subscription tables as the app uses them (trial dates, billing_cycle, monthly and
+-- yearly prices) gain what billing needs to track
+ALTER TABLE public.user_subscriptions
+ADD COLUMN IF NOT EXISTS grace_period_ends_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS suspended_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS account_credit DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (account_credit >= 0);
+
+ALTER TABLE public.user_subscriptions
+DROP CONSTRAINT IF EXISTS user_subscriptions_status_check;
+
+ALTER TABLE public.user_subscriptions
+ADD CONSTRAINT user_subscriptions_status_check
+CHECK (status IN ('trial', 'trialing', 'active', 'past_due', 'suspended', 'cancelled', 'expired'));
+
+-- A billing cycle is one invoice: a renewal for a whole period, or the prorated difference
+-- when the plan changes part way through one
+ALTER TABLE public.billing_cycles
+ADD COLUMN IF NOT EXISTS cycle_type TEXT NOT NULL DEFAULT 'renewal' CHECK (cycle_type IN ('renewal', 'proration')),
+ADD COLUMN IF NOT EXISTS plan_id UUID REFERENCES public.subscription_plans(id),
+ADD COLUMN IF NOT EXISTS description TEXT,
+ADD COLUMN IF NOT EXISTS subtotal DECIMAL(10,2),
+ADD COLUMN IF NOT EXISTS credit_applied DECIMAL(10,2) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS currency TEXT NOT NULL DEFAULT 'USD',
+ADD COLUMN IF NOT EXISTS due_at TIMESTAMP WITH TIME ZONE,
+ADD COLUMN IF NOT EXISTS invoice_number TEXT UNIQUE,
+ADD COLUMN IF NOT EXISTS plan_billing_cycle TEXT CHECK (plan_billing_cycle IN ('monthly', 'yearly'));
+
+-- Credits can cover a whole cycle
+ALTER TABLE public.billing_cycles
+DROP CONSTRAINT IF EXISTS billing_cycles_amount_due_check;
+
+ALTER TABLE public.billing_cycles
+ADD CONSTRAINT billing_cycles_amount_due_check CHECK (amount_due >= 0);
+
+CREATE INDEX IF NOT EXISTS idx_billing_cycles_open
+ON public.billing_cycles(due_at) WHERE status IN ('upcoming', 'processing', 'failed');
+
+CREATE SEQUENCE IF NOT EXISTS public.subscription_invoice_number_seq;
+
+ALTER TABLE public.subscription_payments
+ADD COLUMN IF NOT EXISTS billing_cycle_id UUID REFERENCES public.billing_cycles(id) ON DELETE SET NULL;
+
+-- Billing emails to subscribers, delivered by scripts/send-notifications.js
+CREATE TABLE IF NOT EXISTS public.subscription_notifications (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  subscription_id UUID NOT NULL REFERENCES public.user_subscriptions(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES auth.users(id) ON DELETE CASCADE,
+  billing_cycle_id UUID REFERENCES public.billing_cycles(id) ON DELETE SET NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('renewal_due', 'payment_failed', 'payment_reminder', 'suspended', 'cancelled', 'trial_ended')),
+  channel TEXT NOT NULL DEFAULT 'email' CHECK (channel IN ('email')),
+  recipient_email TEXT NOT NULL,
+  subject TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_subscription_notifications_outbox
+ON public.subscription_notifications(channel, next_attempt_at) WHERE status = 'pending';
+
+ALTER TABLE public.subscription_notifications ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view own subscription_notifications" ON public.subscription_notifications
+  FOR SELECT USING (user_id = auth.uid());
+
+-- How billing treats late payers. Days are counted from the date a cycle falls due: reminders
+-- go out on each dunning day, access is suspended when the grace window closes, and a
+-- suspended subscription is cancelled after cancel_after_suspended_days.
+CREATE OR REPLACE FUNCTION public.subscription_billing_policy()
+RETURNS JSONB
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT jsonb_build_object(
+    'renewal_notice_days', 3,
+    'proration_due_days', 3,
+    'grace_days', 7,
+    'dunning_days', jsonb_build_array(1, 3, 5),
+    'cancel_after_suspended_days', 30
+  );
+$$;
+
+GRANT EXECUTE ON FUNCTION public.subscription_billing_policy() TO authenticated, service_role;
+
+CREATE OR REPLACE FUNCTION public.subscription_period_interval(_billing_cycle TEXT)
+RETURNS INTERVAL
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE WHEN _billing_cycle = 'yearly' THEN INTERVAL '1 year' ELSE INTERVAL '1 month' END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.subscription_plan_price(_plan_id UUID, _billing_cycle TEXT)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+AS $$
+  SELECT COALESCE(
+    CASE WHEN _billing_cycle = 'yearly' THEN COALESCE(price_yearly, price_monthly * 12) ELSE price_monthly END,
+    0
+  )
+  FROM public.subscription_plans
+  WHERE id = _plan_id;
+$$;
+
+-- Write one billing email. Nothing is queued for users without an email address.
+CREATE OR REPLACE FUNCTION public.queue_subscription_notification(
+  _subscription_id UUID,
+  _kind TEXT,
+  _billing_cycle_id UUID DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _sub RECORD;
+  _cycle RECORD;
+  _email TEXT;
+  _amount TEXT;
+  _subject TEXT;
+  _message TEXT;
+BEGIN
+  SELECT s.*, COALESCE(p.display_name, p.name) AS plan_name
+  INTO _sub
+  FROM public.user_subscriptions s
+  LEFT JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.id = _subscription_id;
+
+  SELECT email INTO _email FROM auth.users WHERE id = _sub.user_id;
+
+  IF _email IS NULL THEN
+    RETURN;
+  END IF;
+
+  IF _billing_cycle_id IS NOT NULL THEN
+    SELECT * INTO _cycle FROM public.billing_cycles WHERE id = _billing_cycle_id;
+    _amount := _cycle.currency || ' ' || to_char(_cycle.amount_due, 'FM999999990.00');
+  END IF;
+
+  CASE _kind
+    WHEN 'renewal_due' THEN
+      _subject := 'Your Storefy plan renews on ' || to_char(_cycle.due_at, 'FMMonth FMDD, YYYY');
+      _message := 'Your ' || _sub.plan_name || ' plan renews on ' || to_char(_cycle.due_at, 'FMMonth FMDD, YYYY')
+        || '. ' || _amount || ' is due (invoice ' || _cycle.invoice_number || '). Pay from the Subscription page in Storefy.';
+    WHEN 'payment_failed' THEN
+      _subject := 'Payment due for your Storefy plan';
+      _message := 'We have not received ' || _amount || ' for invoice ' || _cycle.invoice_number
+        || '. Pay by ' || to_char(_sub.grace_period_ends_at, 'FMMonth FMDD, YYYY')
+        || ' from the Subscription page to keep using Storefy.';
+    WHEN 'payment_reminder' THEN
+      _subject := 'Reminder: payment due for your Storefy plan';
+      _message := 'Invoice ' || _cycle.invoice_number || ' for ' || _amount || ' is still unpaid. Your account will be suspended on '
+        || to_char(_sub.grace_period_ends_at, 'FMMonth FMDD, YYYY') || ' unless it is paid from the Subscription page.';
+    WHEN 'suspended' THEN
+      _subject := 'Your Storefy subscription is suspended';
+      _message := 'Your Storefy subscription is suspended because a payment is overdue. Pay from the Subscription page to restore access'
+        || ' before it is cancelled on '
+        || to_char(_sub.suspended_at + make_interval(days => (public.subscription_billing_policy()->>'cancel_after_suspended_days')::INTEGER), 'FMMonth FMDD, YYYY') || '.';
+    WHEN 'cancelled' THEN
+      _subject := 'Your Storefy subscription has been cancelled';
+      _message := 'Your ' || _sub.plan_name || ' subscription has been cancelled'
+        || COALESCE(': ' || _sub.cancellation_reason, '') || '. Choose a plan at any time to start again.';
+    WHEN 'trial_ended' THEN
+      _subject := 'Your Storefy trial has ended';
+      _message := 'Your free trial has ended. Choose a plan from the Subscription page to keep using Storefy.';
+    ELSE
+      RAISE EXCEPTION 'Unknown subscription notification %', _kind;
+  END CASE;
+
+  INSERT INTO public.subscription_notifications (
+    subscription_id,
+    user_id,
+    billing_cycle_id,
+    kind,
+    recipient_email,
+    subject,
+    message
+  ) VALUES (
+    _subscription_id,
+    _sub.user_id,
+    _billing_cycle_id,
+    _kind,
+    _email,
+    _subject,
+    _message
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_subscription_notification(UUID, TEXT, UUID) FROM PUBLIC;
+
+-- Put the subscription on a plan (and billing cycle) and reprice the renewals not yet paid
+CREATE OR REPLACE FUNCTION public.switch_subscription_plan(
+  _subscription_id UUID,
+  _plan_id UUID,
+  _billing_cycle TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cycle TEXT;
+  _plan_name TEXT;
+BEGIN
+  UPDATE public.user_subscriptions
+  SET plan_id = _plan_id,
+      billing_cycle = COALESCE(_billing_cycle, billing_cycle),
+      updated_at = now()
+  WHERE id = _subscription_id
+  RETURNING billing_cycle INTO _cycle;
+
+  SELECT COALESCE(display_name, name) INTO _plan_name
+  FROM public.subscription_plans
+  WHERE id = _plan_id;
+
+  UPDATE public.billing_cycles
+  SET plan_id = _plan_id,
+      description = _plan_name || ' plan, ' || COALESCE(_cycle, 'monthly'),
+      cycle_end = cycle_start + public.subscription_period_interval(_cycle),
+      subtotal = public.subscription_plan_price(_plan_id, _cycle),
+      credit_applied = LEAST(credit_applied, public.subscription_plan_price(_plan_id, _cycle)),
+      amount_due = public.subscription_plan_price(_plan_id, _cycle)
+        - LEAST(credit_applied, public.subscription_plan_price(_plan_id, _cycle)),
+      updated_at = now()
+  WHERE subscription_id = _subscription_id
+    AND cycle_type = 'renewal'
+    AND status IN ('upcoming', 'processing', 'failed');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.switch_subscription_plan(UUID, UUID, TEXT) FROM PUBLIC;
+
+-- Mark a cycle paid. A paid renewal becomes the current period and a paid plan change moves
+-- the subscription to the new plan; once nothing is overdue the subscription is active again
+-- (which also brings back a lapsed or cancelled one).
+CREATE OR REPLACE FUNCTION public.settle_billing_cycle(_cycle_id UUID, _payment_id UUID DEFAULT NULL)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cycle RECORD;
+BEGIN
+  SELECT *
+  INTO _cycle
+  FROM public.billing_cycles
+  WHERE id = _cycle_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _cycle.status = 'paid' THEN
+    RETURN;
+  END IF;
+
+  UPDATE public.billing_cycles
+  SET status = 'paid',
+      payment_id = COALESCE(_payment_id, payment_id),
+      payment_completed_at = now(),
+      next_retry_at = NULL,
+      updated_at = now()
+  WHERE id = _cycle_id;
+
+  IF _cycle.cycle_type = 'renewal' THEN
+    UPDATE public.user_subscriptions
+    SET current_period_start = _cycle.cycle_start,
+        current_period_end = _cycle.cycle_end,
+        next_billing_date = _cycle.cycle_end,
+        updated_at = now()
+    WHERE id = _cycle.subscription_id;
+  ELSIF _cycle.plan_id IS NOT NULL THEN
+    PERFORM public.switch_subscription_plan(_cycle.subscription_id, _cycle.plan_id, _cycle.plan_billing_cycle);
+  END IF;
+
+  IF _cycle.amount_due > 0 THEN
+    UPDATE public.user_subscriptions
+    SET last_payment_date = now(),
+        last_payment_amount = _cycle.amount_due
+    WHERE id = _cycle.subscription_id;
+  END IF;
+
+  UPDATE public.user_subscriptions
+  SET status = 'active',
+      failed_payment_attempts = 0,
+      grace_period_ends_at = NULL,
+      suspended_at = NULL,
+      cancelled_at = NULL,
+      cancellation_reason = NULL,
+      updated_at = now()
+  WHERE id = _cycle.subscription_id
+    AND (status IN ('past_due', 'suspended', 'expired', 'cancelled') OR (status IN ('trial', 'trialing') AND _cycle.cycle_type = 'renewal'))
+    AND NOT EXISTS (
+      SELECT 1 FROM public.billing_cycles
+      WHERE subscription_id = _cycle.subscription_id
+        AND status = 'failed'
+    );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.settle_billing_cycle(UUID, UUID) FROM PUBLIC;
+
+-- Invoice the period starting at _cycle_start at the plan's current price, less any account
+-- credit. Opening the same period twice returns the cycle already there.
+CREATE OR REPLACE FUNCTION public.open_billing_cycle(_subscription_id UUID, _cycle_start TIMESTAMP WITH TIME ZONE)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _sub RECORD;
+  _cycle_id UUID;
+  _subtotal DECIMAL(10,2);
+  _credit DECIMAL(10,2);
+BEGIN
+  SELECT s.*, COALESCE(p.display_name, p.name) AS plan_name
+  INTO _sub
+  FROM public.user_subscriptions s
+  JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.id = _subscription_id
+  FOR UPDATE OF s;
+
+  SELECT id
+  INTO _cycle_id
+  FROM public.billing_cycles
+  WHERE subscription_id = _subscription_id
+    AND cycle_type = 'renewal'
+    AND cycle_start = _cycle_start
+    AND status <> 'cancelled';
+
+  IF FOUND THEN
+    RETURN _cycle_id;
+  END IF;
+
+  _subtotal := public.subscription_plan_price(_sub.plan_id, _sub.billing_cycle);
+  _credit := LEAST(_sub.account_credit, _subtotal);
+
+  INSERT INTO public.billing_cycles (
+    subscription_id,
+    plan_id,
+    cycle_type,
+    description,
+    cycle_start,
+    cycle_end,
+    subtotal,
+    credit_applied,
+    amount_due,
+    due_at,
+    status,
+    invoice_number
+  ) VALUES (
+    _subscription_id,
+    _sub.plan_id,
+    'renewal',
+    _sub.plan_name || ' plan, ' || COALESCE(_sub.billing_cycle, 'monthly'),
+    _cycle_start,
+    _cycle_start + public.subscription_period_interval(_sub.billing_cycle),
+    _subtotal,
+    _credit,
+    _subtotal - _credit,
+    _cycle_start,
+    'upcoming',
+    'INV-' || to_char(now(), 'YYYYMM') || '-' || lpad(nextval('public.subscription_invoice_number_seq')::TEXT, 6, '0')
+  )
+  RETURNING id INTO _cycle_id;
+
+  IF _credit > 0 THEN
+    UPDATE public.user_subscriptions
+    SET account_credit = account_credit - _credit
+    WHERE id = _subscription_id;
+  END IF;
+
+  IF _subtotal - _credit = 0 THEN
+    PERFORM public.settle_billing_cycle(_cycle_id);
+  END IF;
+
+  RETURN _cycle_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.open_billing_cycle(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+
+-- A cycle went unpaid past its due date: start the grace window and the dunning schedule
+CREATE OR REPLACE FUNCTION public.mark_billing_cycle_overdue(
+  _cycle_id UUID,
+  _as_of TIMESTAMP WITH TIME ZONE DEFAULT now()
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _policy JSONB := public.subscription_billing_policy();
+  _cycle RECORD;
+BEGIN
+  UPDATE public.billing_cycles
+  SET status = 'failed',
+      retry_count = 0,
+      next_retry_at = COALESCE(due_at, _as_of) + make_interval(days => (_policy->'dunning_days'->>0)::INTEGER),
+      updated_at = now()
+  WHERE id = _cycle_id
+  RETURNING * INTO _cycle;
+
+  -- The grace window runs from the due date, but never starts more than a day in the past
+  -- (a payment reversed long after its invoice still gets the full window)
+  UPDATE public.user_subscriptions
+  SET status = 'past_due',
+      grace_period_ends_at = COALESCE(
+        grace_period_ends_at,
+        GREATEST(COALESCE(_cycle.due_at, _as_of), _as_of - INTERVAL '1 day') + make_interval(days => (_policy->>'grace_days')::INTEGER)
+      ),
+      updated_at = now()
+  WHERE id = _cycle.subscription_id
+    AND status IN ('active', 'trial', 'trialing', 'past_due');
+
+  IF FOUND THEN
+    PERFORM public.queue_subscription_notification(_cycle.subscription_id, 'payment_failed', _cycle_id);
+  END IF;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.mark_billing_cycle_overdue(UUID, TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.cancel_open_billing_cycles(_subscription_id UUID)
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE public.billing_cycles
+  SET status = 'cancelled',
+      next_retry_at = NULL,
+      updated_at = now()
+  WHERE subscription_id = _subscription_id
+    AND status IN ('upcoming', 'processing', 'failed');
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.cancel_open_billing_cycles(UUID) FROM PUBLIC;
+
+-- The billing scheduler, run hourly. Each step only picks up what is due, so running it
+-- again changes nothing.
+CREATE OR REPLACE FUNCTION public.run_subscription_billing(_as_of TIMESTAMP WITH TIME ZONE DEFAULT now())
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _policy JSONB := public.subscription_billing_policy();
+  _dunning_steps INTEGER := jsonb_array_length(_policy->'dunning_days');
+  _sub RECORD;
+  _cycle RECORD;
+  _cycle_id UUID;
+  _period_end TIMESTAMP WITH TIME ZONE;
+  _renewals INTEGER := 0;
+  _overdue INTEGER := 0;
+  _reminders INTEGER := 0;
+  _suspended INTEGER := 0;
+  _cancelled INTEGER := 0;
+  _expired INTEGER := 0;
+BEGIN
+  -- Cancellations that were waiting for the paid period to run out
+  FOR _sub IN
+    SELECT id
+    FROM public.user_subscriptions
+    WHERE status = 'active'
+      AND cancel_at_period_end
+      AND current_period_end <= _as_of
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.user_subscriptions
+    SET status = 'cancelled',
+        cancelled_at = _as_of,
+        updated_at = now()
+    WHERE id = _sub.id;
+
+    PERFORM public.cancel_open_billing_cycles(_sub.id);
+    PERFORM public.queue_subscription_notification(_sub.id, 'cancelled');
+    _cancelled := _cancelled + 1;
+  END LOOP;
+
+  -- Trials that end without a paid plan chosen
+  FOR _sub IN
+    SELECT id
+    FROM public.user_subscriptions
+    WHERE status IN ('trial', 'trialing')
+      AND trial_end_date <= _as_of
+      AND public.subscription_plan_price(plan_id, billing_cycle) = 0
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.user_subscriptions
+    SET status = 'expired',
+        updated_at = now()
+    WHERE id = _sub.id;
+
+    PERFORM public.queue_subscription_notification(_sub.id, 'trial_ended');
+    _expired := _expired + 1;
+  END LOOP;
+
+  -- Renewal invoices, a few days before the period (or the trial) ends
+  FOR _sub IN
+    SELECT s.id,
+           CASE WHEN s.status IN ('trial', 'trialing') THEN COALESCE(s.trial_end_date, s.current_period_end)
+                ELSE s.current_period_end END AS period_end
+    FROM public.user_subscriptions s
+    WHERE s.status IN ('active', 'trial', 'trialing')
+      AND NOT COALESCE(s.cancel_at_period_end, false)
+      AND public.subscription_plan_price(s.plan_id, s.billing_cycle) > 0
+  LOOP
+    _period_end := _sub.period_end;
+
+    CONTINUE WHEN _period_end IS NULL
+      OR _period_end > _as_of + make_interval(days => (_policy->>'renewal_notice_days')::INTEGER);
+
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM public.billing_cycles
+      WHERE subscription_id = _sub.id
+        AND cycle_type = 'renewal'
+        AND status <> 'cancelled'
+        AND cycle_start >= _period_end
+    );
+
+    _cycle_id := public.open_billing_cycle(_sub.id, _period_end);
+
+    IF EXISTS (SELECT 1 FROM public.billing_cycles WHERE id = _cycle_id AND status = 'upcoming') THEN
+      PERFORM public.queue_subscription_notification(_sub.id, 'renewal_due', _cycle_id);
+    END IF;
+
+    _renewals := _renewals + 1;
+  END LOOP;
+
+  -- Plan changes not paid for by their due date lapse: the subscription stays on its plan and
+  -- gets back any account credit the invoice used
+  FOR _cycle IN
+    SELECT c.id, c.subscription_id, c.credit_applied
+    FROM public.billing_cycles c
+    WHERE c.cycle_type = 'proration'
+      AND c.status IN ('upcoming', 'processing')
+      AND c.due_at <= _as_of
+    FOR UPDATE OF c SKIP LOCKED
+  LOOP
+    UPDATE public.billing_cycles
+    SET status = 'cancelled',
+        next_retry_at = NULL,
+        updated_at = now()
+    WHERE id = _cycle.id;
+
+    UPDATE public.user_subscriptions
+    SET account_credit = account_credit + _cycle.credit_applied,
+        updated_at = now()
+    WHERE id = _cycle.subscription_id;
+  END LOOP;
+
+  -- Renewals that reached their due date unpaid
+  FOR _cycle IN
+    SELECT c.id
+    FROM public.billing_cycles c
+    JOIN public.user_subscriptions s ON s.id = c.subscription_id
+    WHERE c.cycle_type = 'renewal'
+      AND c.status IN ('upcoming', 'processing')
+      AND c.due_at <= _as_of
+      AND s.status NOT IN ('cancelled', 'expired')
+    FOR UPDATE OF c SKIP LOCKED
+  LOOP
+    PERFORM public.mark_billing_cycle_overdue(_cycle.id, _as_of);
+    _overdue := _overdue + 1;
+  END LOOP;
+
+  -- Dunning reminders, each with the amount still owed
+  FOR _cycle IN
+    SELECT c.*
+    FROM public.billing_cycles c
+    JOIN public.user_subscriptions s ON s.id = c.subscription_id
+    WHERE c.status = 'failed'
+      AND c.next_retry_at <= _as_of
+      AND s.status IN ('past_due', 'suspended')
+    FOR UPDATE OF c SKIP LOCKED
+  LOOP
+    UPDATE public.billing_cycles
+    SET retry_count = retry_count + 1,
+        payment_attempted_at = _as_of,
+        next_retry_at = CASE
+          WHEN retry_count + 1 < _dunning_steps
+            THEN due_at + make_interval(days => (_policy->'dunning_days'->>(retry_count + 1))::INTEGER)
+          ELSE NULL
+        END,
+        updated_at = now()
+    WHERE id = _cycle.id;
+
+    PERFORM public.queue_subscription_notification(_cycle.subscription_id, 'payment_reminder', _cycle.id);
+    _reminders := _reminders + 1;
+  END LOOP;
+
+  -- Grace window over
+  FOR _sub IN
+    SELECT id
+    FROM public.user_subscriptions
+    WHERE status = 'past_due'
+      AND grace_period_ends_at <= _as_of
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.user_subscriptions
+    SET status = 'suspended',
+        suspended_at = _as_of,
+        updated_at = now()
+    WHERE id = _sub.id;
+
+    PERFORM public.queue_subscription_notification(_sub.id, 'suspended');
+    _suspended := _suspended + 1;
+  END LOOP;
+
+  -- Suspended for too long
+  FOR _sub IN
+    SELECT id
+    FROM public.user_subscriptions
+    WHERE status = 'suspended'
+      AND suspended_at + make_interval(days => (_policy->>'cancel_after_suspended_days')::INTEGER) <= _as_of
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.user_subscriptions
+    SET status = 'cancelled',
+        cancelled_at = _as_of,
+        cancellation_reason = 'Unpaid',
+        updated_at = now()
+    WHERE id = _sub.id;
+
+    PERFORM public.cancel_open_billing_cycles(_sub.id);
+    PERFORM public.queue_subscription_notification(_sub.id, 'cancelled');
+    _cancelled := _cancelled + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'renewal_count', _renewals,
+    'overdue_count', _overdue,
+    'reminder_count', _reminders,
+    'suspended_count', _suspended,
+    'cancelled_count', _cancelled,
+    'expired_count', _expired
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.run_subscription_billing(TIMESTAMP WITH TIME ZONE) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.run_subscription_billing(TIMESTAMP WITH TIME ZONE) TO service_role;
+
+-- Switch plan (and billing cycle). Nothing has been paid for a trial or an unpaid period, so
+-- the switch just reprices the open invoices. Mid-period on an active plan, what was actually
+-- paid for the rest of the period is credited against the same part of the new plan. A
+-- downgrade switches straight away and leaves the difference as account credit; an upgrade is
+-- invoiced for the difference and only switches once that invoice is paid. A new billing
+-- cycle takes effect at the next renewal.
+CREATE OR REPLACE FUNCTION public.change_subscription_plan(
+  _subscription_id UUID,
+  _plan_id UUID,
+  _billing_cycle TEXT DEFAULT 'monthly'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _policy JSONB := public.subscription_billing_policy();
+  _sub RECORD;
+  _old_plan_name TEXT;
+  _new_plan_name TEXT;
+  _released DECIMAL(10,2);
+  _remaining NUMERIC;
+  _credit DECIMAL(10,2) := 0;
+  _charge DECIMAL(10,2) := 0;
+  _net DECIMAL(10,2) := 0;
+  _from_account DECIMAL(10,2) := 0;
+  _cycle_id UUID;
+BEGIN
+  IF _billing_cycle NOT IN ('monthly', 'yearly') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Billing cycle must be monthly or yearly');
+  END IF;
+
+  SELECT *
+  INTO _sub
+  FROM public.user_subscriptions
+  WHERE id = _subscription_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT (_sub.user_id = auth.uid() OR public.is_service_caller()) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Subscription not found');
+  END IF;
+
+  SELECT COALESCE(display_name, name) INTO _new_plan_name
+  FROM public.subscription_plans
+  WHERE id = _plan_id AND is_active;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Plan not available');
+  END IF;
+
+  SELECT COALESCE(display_name, name) INTO _old_plan_name
+  FROM public.subscription_plans
+  WHERE id = _sub.plan_id;
+
+  -- An upgrade still waiting for payment is replaced by this change
+  WITH released AS (
+    UPDATE public.billing_cycles
+    SET status = 'cancelled',
+        next_retry_at = NULL,
+        updated_at = now()
+    WHERE subscription_id = _subscription_id
+      AND cycle_type = 'proration'
+      AND status IN ('upcoming', 'processing')
+    RETURNING credit_applied
+  )
+  SELECT COALESCE(sum(credit_applied), 0) INTO _released FROM released;
+
+  IF _released > 0 THEN
+    UPDATE public.user_subscriptions
+    SET account_credit = account_credit + _released
+    WHERE id = _subscription_id
+    RETURNING account_credit INTO _sub.account_credit;
+  END IF;
+
+  IF _sub.status = 'active'
+     AND _sub.plan_id <> _plan_id
+     AND _sub.current_period_end > now()
+     AND _sub.current_period_end > _sub.current_period_start THEN
+    _remaining := LEAST(1, extract(epoch FROM _sub.current_period_end - GREATEST(now(), _sub.current_period_start))
+      / extract(epoch FROM _sub.current_period_end - _sub.current_period_start));
+
+    -- The unused share of each payment covering the period: paid invoices (account credit
+    -- they used included) and payments from before billing cycles
+    SELECT COALESCE(sum(round(
+      paid.amount * LEAST(1, extract(epoch FROM paid.period_end - GREATEST(now(), paid.period_start))
+        / extract(epoch FROM paid.period_end - paid.period_start)),
+      2)), 0)
+    INTO _credit
+    FROM (
+      SELECT amount_due + credit_applied AS amount, cycle_start AS period_start, cycle_end AS period_end
+      FROM public.billing_cycles
+      WHERE subscription_id = _subscription_id
+        AND status = 'paid'
+      UNION ALL
+      SELECT amount, billing_period_start, billing_period_end
+      FROM public.subscription_payments
+      WHERE subscription_id = _subscription_id
+        AND billing_cycle_id IS NULL
+        AND status = 'completed'
+    ) paid
+    WHERE paid.period_end > now()
+      AND paid.period_end > paid.period_start
+      AND paid.period_start < _sub.current_period_end;
+
+    _charge := round(public.subscription_plan_price(_plan_id, _sub.billing_cycle) * _remaining, 2);
+    _net := _charge - _credit;
+  END IF;
+
+  IF _net > 0 THEN
+    _from_account := LEAST(_sub.account_credit, _net);
+
+    INSERT INTO public.billing_cycles (
+      subscription_id,
+      plan_id,
+      plan_billing_cycle,
+      cycle_type,
+      description,
+      cycle_start,
+      cycle_end,
+      subtotal,
+      credit_applied,
+      amount_due,
+      due_at,
+      status,
+      invoice_number
+    ) VALUES (
+      _subscription_id,
+      _plan_id,
+      _billing_cycle,
+      'proration',
+      'Change from ' || _old_plan_name || ' to ' || _new_plan_name || ' for the rest of the period',
+      now(),
+      _sub.current_period_end,
+      _net,
+      _from_account,
+      _net - _from_account,
+      now() + make_interval(days => (_policy->>'proration_due_days')::INTEGER),
+      'upcoming',
+      'INV-' || to_char(now(), 'YYYYMM') || '-' || lpad(nextval('public.subscription_invoice_number_seq')::TEXT, 6, '0')
+    )
+    RETURNING id INTO _cycle_id;
+
+    UPDATE public.user_subscriptions
+    SET account_credit = account_credit - _from_account,
+        updated_at = now()
+    WHERE id = _subscription_id;
+
+    -- Covered by account credit: settling it switches the plan
+    IF _net - _from_account = 0 THEN
+      PERFORM public.settle_billing_cycle(_cycle_id);
+    END IF;
+  ELSE
+    PERFORM public.switch_subscription_plan(_subscription_id, _plan_id, _billing_cycle);
+
+    UPDATE public.user_subscriptions
+    SET account_credit = account_credit - _net
+    WHERE id = _subscription_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'prorated', _credit > 0 OR _charge > 0,
+    'credit', _credit,
+    'charge', _charge,
+    'amount_due', GREATEST(_net - _from_account, 0),
+    'pending_payment', _net - _from_account > 0,
+    'account_credit', (SELECT account_credit FROM public.user_subscriptions WHERE id = _subscription_id),
+    'billing_cycle_id', _cycle_id
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.change_subscription_plan(UUID, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.change_subscription_plan(UUID, UUID, TEXT) TO authenticated;
+
+-- Start paying the oldest unpaid invoice, opening the next one when nothing is owed yet (a
+-- trial keeps its remaining days: the first period starts when it ends). Returns nothing_due
+-- for a paid-up subscription that is not close to renewal. Only the payment server opens the
+-- PayChangu charge, for the subscriber (_user_id) it signed in, so the amount charged is the
+-- invoice's and not whatever a browser asks for.
+CREATE OR REPLACE FUNCTION public.begin_subscription_payment(
+  _subscription_id UUID,
+  _tx_ref TEXT DEFAULT NULL,
+  _user_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _policy JSONB := public.subscription_billing_policy();
+  _sub RECORD;
+  _cycle RECORD;
+  _cycle_start TIMESTAMP WITH TIME ZONE;
+  _tx TEXT;
+BEGIN
+  SELECT s.*, COALESCE(p.display_name, p.name) AS plan_name
+  INTO _sub
+  FROM public.user_subscriptions s
+  LEFT JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.id = _subscription_id;
+
+  IF NOT FOUND OR _sub.user_id IS DISTINCT FROM COALESCE(_user_id, auth.uid()) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Subscription not found');
+  END IF;
+
+  SELECT *
+  INTO _cycle
+  FROM public.billing_cycles
+  WHERE subscription_id = _subscription_id
+    AND status IN ('upcoming', 'processing', 'failed')
+  ORDER BY due_at NULLS FIRST, created_at
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    IF _sub.status = 'active'
+       AND _sub.current_period_end > now() + make_interval(days => (_policy->>'renewal_notice_days')::INTEGER) THEN
+      RETURN jsonb_build_object('success', true, 'nothing_due', true);
+    END IF;
+
+    _cycle_start := CASE
+      WHEN _sub.status IN ('trial', 'trialing') THEN GREATEST(COALESCE(_sub.trial_end_date, now()), now())
+      WHEN _sub.status = 'active' THEN GREATEST(_sub.current_period_end, now())
+      ELSE now()
+    END;
+
+    SELECT * INTO _cycle FROM public.billing_cycles
+    WHERE id = public.open_billing_cycle(_subscription_id, _cycle_start);
+
+    IF _cycle.status = 'paid' THEN
+      RETURN jsonb_build_object('success', true, 'nothing_due', true);
+    END IF;
+  END IF;
+
+  _tx := COALESCE(_tx_ref, 'sub_' || _subscription_id || '_' || floor(extract(epoch FROM clock_timestamp()) * 1000)::BIGINT);
+
+  INSERT INTO public.subscription_payments (
+    subscription_id,
+    billing_cycle_id,
+    paychangu_tx_ref,
+    amount,
+    currency,
+    status,
+    billing_period_start,
+    billing_period_end
+  ) VALUES (
+    _subscription_id,
+    _cycle.id,
+    _tx,
+    _cycle.amount_due,
+    _cycle.currency,
+    'pending',
+    _cycle.cycle_start,
+    _cycle.cycle_end
+  );
+
+  UPDATE public.billing_cycles
+  SET payment_attempted_at = now(),
+      updated_at = now()
+  WHERE id = _cycle.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'tx_ref', _tx,
+    'billing_cycle_id', _cycle.id,
+    'invoice_number', _cycle.invoice_number,
+    'amount', _cycle.amount_due,
+    'currency', _cycle.currency,
+    'plan_name', _sub.plan_name,
+    'description', _cycle.description
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_subscription_payment(UUID, TEXT, UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.begin_subscription_payment(UUID, TEXT, UUID) TO service_role;
+
+-- Keep the checkout a pending payment was opened with, so the subscriber can go back to it
+CREATE OR REPLACE FUNCTION public.set_subscription_payment_checkout(_tx_ref TEXT, _checkout_url TEXT)
+RETURNS VOID
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  UPDATE public.subscription_payments
+  SET checkout_url = _checkout_url
+  WHERE paychangu_tx_ref = _tx_ref
+    AND status = 'pending';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.set_subscription_payment_checkout(TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.set_subscription_payment_checkout(TEXT, TEXT) TO service_role;
+
+-- Settle subscription payments against their invoices. Payments from before billing cycles
+-- (no billing_cycle_id) extend the subscription by one period as they always did. A charge for
+-- less than the payment's amount (_amount) fails it instead of settling the invoice.
+CREATE OR REPLACE FUNCTION public.apply_subscription_payment_event(
+  _tx_ref TEXT,
+  _outcome TEXT,
+  _charge_id TEXT DEFAULT NULL,
+  _channel TEXT DEFAULT NULL,
+  _payload JSONB DEFAULT NULL,
+  _amount DECIMAL DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _payment RECORD;
+  _cycle RECORD;
+BEGIN
+  SELECT *
+  INTO _payment
+  FROM public.subscription_payments
+  WHERE paychangu_tx_ref = _tx_ref
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Subscription payment ' || _tx_ref || ' not found');
+  END IF;
+
+  -- A charge for less than was invoiced doesn't pay for it
+  IF _outcome = 'completed' AND (_amount IS NULL OR _amount < _payment.amount) THEN
+    _outcome := 'failed';
+  END IF;
+
+  IF _payment.status = _outcome THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'status', _payment.status);
+  END IF;
+
+  IF _payment.billing_cycle_id IS NOT NULL THEN
+    SELECT * INTO _cycle FROM public.billing_cycles WHERE id = _payment.billing_cycle_id;
+  END IF;
+
+  IF _outcome IN ('refunded', 'charged_back') THEN
+    IF _payment.status NOT IN ('completed', 'refunded') THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Subscription payment ' || _tx_ref || ' is ' || _payment.status || ' and has nothing to reverse');
+    END IF;
+
+    UPDATE public.subscription_payments
+    SET status = _outcome,
+        reversed_at = now(),
+        webhook_data = COALESCE(_payload, webhook_data)
+    WHERE id = _payment.id;
+
+    -- The invoice is owed again
+    IF _cycle.id IS NOT NULL AND _cycle.status = 'paid' THEN
+      PERFORM public.mark_billing_cycle_overdue(_cycle.id);
+    ELSE
+      UPDATE public.user_subscriptions
+      SET status = 'past_due',
+          updated_at = now()
+      WHERE id = _payment.subscription_id
+        AND status = 'active';
+    END IF;
+
+    RETURN jsonb_build_object('success', true, 'status', _outcome);
+  END IF;
+
+  -- A later failure report does not undo a completed payment
+  IF _payment.status = 'completed' THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'status', _payment.status);
+  END IF;
+
+  UPDATE public.subscription_payments
+  SET status = _outcome,
+      paychangu_charge_id = COALESCE(_charge_id, paychangu_charge_id),
+      payment_method = COALESCE(_channel, payment_method),
+      webhook_data = COALESCE(_payload, webhook_data),
+      completed_at = CASE WHEN _outcome = 'completed' THEN now() ELSE completed_at END,
+      failed_at = CASE WHEN _outcome = 'failed' THEN now() ELSE failed_at END
+  WHERE id = _payment.id;
+
+  IF _outcome = 'completed' THEN
+    IF _cycle.id IS NOT NULL THEN
+      PERFORM public.settle_billing_cycle(_cycle.id, _payment.id);
+    ELSE
+      UPDATE public.user_subscriptions
+      SET status = 'active',
+          last_payment_date = now(),
+          last_payment_amount = _payment.amount,
+          next_billing_date = now() + public.subscription_period_interval(billing_cycle),
+          failed_payment_attempts = 0,
+          updated_at = now()
+      WHERE id = _payment.subscription_id;
+    END IF;
+  ELSE
+    -- The invoice stays open for another try; dunning starts once it is due
+    UPDATE public.user_subscriptions
+    SET failed_payment_attempts = COALESCE(failed_payment_attempts, 0) + 1,
+        updated_at = now()
+    WHERE id = _payment.subscription_id;
+
+    IF _cycle.id IS NOT NULL AND _cycle.status IN ('upcoming', 'processing') AND _cycle.due_at <= now() THEN
+      PERFORM public.mark_billing_cycle_overdue(_cycle.id);
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object('success', true, 'status', _outcome);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_subscription_payment_event(TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.apply_subscription_payment_event(TEXT, TEXT, TEXT, TEXT, JSONB, DECIMAL) TO service_role;
+
+-- Settle a payment the payment server has just verified with PayChangu, for subscribers who
+-- come back from checkout before the webhook arrives. Only payments opened by
+-- begin_subscription_payment can be settled, and only for the amount invoiced.
+CREATE OR REPLACE FUNCTION public.confirm_subscription_payment(
+  _subscription_id UUID,
+  _tx_ref TEXT,
+  _amount DECIMAL,
+  _charge_id TEXT DEFAULT NULL,
+  _channel TEXT DEFAULT NULL,
+  _payload JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _payment RECORD;
+BEGIN
+  SELECT * INTO _payment FROM public.subscription_payments WHERE paychangu_tx_ref = _tx_ref;
+
+  IF NOT FOUND OR _payment.subscription_id <> _subscription_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Subscription payment ' || _tx_ref || ' not found');
+  END IF;
+
+  IF _amount IS NULL OR _amount < _payment.amount THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Paid amount does not match invoice for ' || _tx_ref);
+  END IF;
+
+  RETURN public.apply_subscription_payment_event(_tx_ref, 'completed', _charge_id, _channel, _payload, _amount);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.confirm_subscription_payment(UUID, TEXT, DECIMAL, TEXT, TEXT, JSONB) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.confirm_subscription_payment(UUID, TEXT, DECIMAL, TEXT, TEXT, JSONB) TO service_role;
+
+-- Everything needed to print an invoice
+CREATE OR REPLACE FUNCTION public.get_subscription_invoice(_billing_cycle_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _invoice JSONB;
+BEGIN
+  SELECT jsonb_build_object(
+    'id', c.id,
+    'invoice_number', c.invoice_number,
+    'status', c.status,
+    'cycle_type', c.cycle_type,
+    'description', c.description,
+    'issued_at', c.created_at,
+    'due_at', c.due_at,
+    'paid_at', c.payment_completed_at,
+    'period_start', c.cycle_start,
+    'period_end', c.cycle_end,
+    'plan_name', COALESCE(p.display_name, p.name),
+    'billing_cycle', s.billing_cycle,
+    'subtotal', COALESCE(c.subtotal, c.amount_due + c.credit_applied),
+    'credit_applied', c.credit_applied,
+    'amount_due', c.amount_due,
+    'currency', c.currency,
+    'customer_name', pr.display_name,
+    'customer_email', u.email,
+    'payment', (
+      SELECT jsonb_build_object(
+        'tx_ref', sp.paychangu_tx_ref,
+        'payment_method', sp.payment_method,
+        'completed_at', sp.completed_at
+      )
+      FROM public.subscription_payments sp
+      WHERE sp.id = c.payment_id
+    )
+  )
+  INTO _invoice
+  FROM public.billing_cycles c
+  JOIN public.user_subscriptions s ON s.id = c.subscription_id
+  LEFT JOIN public.subscription_plans p ON p.id = c.plan_id
+  LEFT JOIN public.profiles pr ON pr.user_id = s.user_id
+  LEFT JOIN auth.users u ON u.id = s.user_id
+  WHERE c.id = _billing_cycle_id
+    AND (s.user_id = auth.uid() OR public.is_service_caller());
+
+  RETURN _invoice;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.get_subscription_invoice(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.get_subscription_invoice(UUID) TO authenticated, service_role;
+
+-- Access follows the lifecycle: a past due subscription keeps working through its grace
+-- window, a suspended one does not, and a cancelled one runs to the end of its paid period
+CREATE OR REPLACE FUNCTION public.check_user_access(_user_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _sub RECORD;
+  _trial_days INTEGER;
+BEGIN
+  IF NOT (_user_id = auth.uid() OR public.is_service_caller()) THEN
+    RETURN jsonb_build_object('has_access', false, 'status', 'forbidden', 'plan_name', 'Unknown', 'is_trial', false);
+  END IF;
+
+  SELECT s.*, COALESCE(p.display_name, p.name) AS plan_name
+  INTO _sub
+  FROM public.user_subscriptions s
+  LEFT JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.user_id = _user_id
+  ORDER BY (s.status IN ('active', 'trial', 'trialing', 'past_due', 'suspended')) DESC, s.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'has_access', false,
+      'status', 'none',
+      'plan_name', 'None',
+      'is_trial', false,
+      'message', 'Choose a plan to start using Storefy'
+    );
+  END IF;
+
+  IF _sub.status IN ('trial', 'trialing') THEN
+    _trial_days := GREATEST(0, ceil(extract(epoch FROM COALESCE(_sub.trial_end_date, _sub.current_period_end) - now()) / 86400)::INTEGER);
+
+    RETURN jsonb_build_object(
+      'has_access', COALESCE(_sub.trial_end_date, _sub.current_period_end) > now(),
+      'status', _sub.status,
+      'plan_name', _sub.plan_name,
+      'is_trial', true,
+      'trial_end_date', COALESCE(_sub.trial_end_date, _sub.current_period_end),
+      'trial_days_remaining', _trial_days,
+      'message', CASE WHEN _trial_days > 0 THEN NULL ELSE 'Your free trial has ended' END
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'has_access', CASE _sub.status
+      WHEN 'active' THEN true
+      WHEN 'past_due' THEN _sub.grace_period_ends_at IS NULL OR _sub.grace_period_ends_at > now()
+      WHEN 'cancelled' THEN _sub.current_period_end > now()
+      ELSE false
+    END,
+    'status', _sub.status,
+    'plan_name', _sub.plan_name,
+    'is_trial', false,
+    'next_billing_date', _sub.next_billing_date,
+    'grace_period_ends_at', _sub.grace_period_ends_at,
+    'message', CASE _sub.status
+      WHEN 'past_due' THEN 'Payment overdue. Pay by ' || to_char(_sub.grace_period_ends_at, 'FMMonth FMDD') || ' to keep access.'
+      WHEN 'suspended' THEN 'Your subscription is suspended until the overdue payment is made'
+      WHEN 'cancelled' THEN 'Your subscription has been cancelled'
+      WHEN 'expired' THEN 'Your subscription has expired'
+      ELSE NULL
+    END
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.check_user_access(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.check_user_access(UUID) TO authenticated;
+
+-- Hand the next batch of due billing emails to the dispatcher
+CREATE OR REPLACE FUNCTION public.claim_subscription_notifications(
+  _channels TEXT[] DEFAULT ARRAY['email'],
+  _limit INTEGER DEFAULT 50
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _claimed JSONB;
+BEGIN
+  WITH next_batch AS (
+    SELECT id
+    FROM public.subscription_notifications
+    WHERE status = 'pending'
+      AND channel = ANY(_channels)
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at, created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE public.subscription_notifications n
+    SET status = 'sending',
+        attempts = n.attempts + 1
+    FROM next_batch
+    WHERE n.id = next_batch.id
+    RETURNING n.id, n.subscription_id, n.kind, n.channel, NULL::TEXT AS recipient_phone,
+              n.recipient_email, n.subject, n.message, n.attempts
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(claimed)), '[]'::jsonb)
+  INTO _claimed
+  FROM claimed;
+
+  RETURN _claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_subscription_notifications(TEXT[], INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_subscription_notifications(TEXT[], INTEGER) TO service_role;
+
+-- Record how a delivery went. Failures are retried with a growing delay, up to three attempts.
+CREATE OR REPLACE FUNCTION public.record_subscription_notification_result(
+  _notification_id UUID,
+  _sent BOOLEAN,
+  _error TEXT DEFAULT NULL,
+  _provider TEXT DEFAULT NULL,
+  _provider_message_id TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NOT _sent THEN
+    UPDATE public.subscription_notifications
+    SET status = CASE WHEN attempts >= 3 THEN 'failed' ELSE 'pending' END,
+        next_attempt_at = now() + make_interval(mins => 15 * GREATEST(attempts, 1)),
+        error_message = _error,
+        provider = COALESCE(_provider, provider)
+    WHERE id = _notification_id
+      AND status = 'sending';
+
+    RETURN;
+  END IF;
+
+  UPDATE public.subscription_notifications
+  SET status = 'sent',
+      sent_at = now(),
+      error_message = NULL,
+      provider = COALESCE(_provider, provider),
+      provider_message_id = _provider_message_id
+  WHERE id = _notification_id
+    AND status = 'sending';
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_subscription_notification_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_subscription_notification_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) TO service_role;
+
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'run-subscription-billing';
+    PERFORM cron.schedule(
+      'run-subscription-billing',
+      '15 * * * *',
+      'SELECT public.run_subscription_billing()'
+    );
+  END IF;
+END;
+$$;
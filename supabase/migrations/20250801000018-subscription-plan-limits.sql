@@ -0,0 +1,583 @@
+-- Migration: Subscription Plan Limits
+-- Description: Enforce each plan's store, team and inventory limits and its feature flags
+-- (showcase, layby, reports export) in the database, whichever screen or import writes the
+-- row, and keep subscription_usage_tracking counted as rows come and go
+-- Date: 2025-08-01
+
+-- Features a plan can leave out. A missing key means the feature is included, so existing
+-- plans keep everything until they are configured, e.g.
+--   UPDATE subscription_plans SET feature_flags = '{"layby": false, "reports_export": false}' WHERE name = 'starter';
+ALTER TABLE public.subscription_plans
+ADD COLUMN IF NOT EXISTS feature_flags JSONB NOT NULL DEFAULT '{}';
+
+-- What an owner's subscription allows. Limits of 999999 (or none set) mean unlimited. Owners
+-- without any subscription yet are not limited: their trial is created on first sign-in.
+CREATE OR REPLACE FUNCTION public.owner_plan_entitlements(_owner_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _sub RECORD;
+  _has_access BOOLEAN;
+BEGIN
+  SELECT s.status,
+         s.trial_end_date,
+         s.current_period_end,
+         s.grace_period_ends_at,
+         p.id AS plan_id,
+         COALESCE(p.display_name, p.name) AS plan_name,
+         p.max_stores,
+         p.max_pin_users_per_store,
+         p.max_inventory_items_per_store,
+         p.feature_flags
+  INTO _sub
+  FROM public.user_subscriptions s
+  JOIN public.subscription_plans p ON p.id = s.plan_id
+  WHERE s.user_id = _owner_id
+  ORDER BY (s.status IN ('active', 'trial', 'trialing', 'past_due', 'suspended')) DESC, s.created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object(
+      'subscribed', false,
+      'has_access', true,
+      'status', 'none',
+      'plan_name', NULL,
+      'limits', jsonb_build_object('stores', NULL, 'pin_users_per_store', NULL, 'inventory_items_per_store', NULL),
+      'features', jsonb_build_object('showcase', true, 'layby', true, 'reports_export', true)
+    );
+  END IF;
+
+  _has_access := CASE _sub.status
+    WHEN 'active' THEN true
+    WHEN 'trial' THEN COALESCE(_sub.trial_end_date, _sub.current_period_end) > now()
+    WHEN 'trialing' THEN COALESCE(_sub.trial_end_date, _sub.current_period_end) > now()
+    WHEN 'past_due' THEN _sub.grace_period_ends_at IS NULL OR _sub.grace_period_ends_at > now()
+    WHEN 'cancelled' THEN _sub.current_period_end > now()
+    ELSE false
+  END;
+
+  RETURN jsonb_build_object(
+    'subscribed', true,
+    'has_access', _has_access,
+    'status', _sub.status,
+    'plan_id', _sub.plan_id,
+    'plan_name', _sub.plan_name,
+    'limits', jsonb_build_object(
+      'stores', NULLIF(_sub.max_stores, 999999),
+      'pin_users_per_store', NULLIF(_sub.max_pin_users_per_store, 999999),
+      'inventory_items_per_store', NULLIF(_sub.max_inventory_items_per_store, 999999)
+    ),
+    'features', jsonb_build_object(
+      'showcase', COALESCE((_sub.feature_flags->>'showcase')::BOOLEAN, true),
+      'layby', COALESCE((_sub.feature_flags->>'layby')::BOOLEAN, true),
+      'reports_export', COALESCE((_sub.feature_flags->>'reports_export')::BOOLEAN, true)
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.owner_plan_entitlements(UUID) FROM PUBLIC;
+
+-- Can the owner take one more of a limited resource, or use a plan feature? _store_id is the
+-- store the resource is added to, for per-store limits; _current is how many there are when
+-- the caller has already counted them. The reason reads as a sentence for the upgrade prompt.
+CREATE OR REPLACE FUNCTION public.plan_limit_check(
+  _owner_id UUID,
+  _action TEXT,
+  _store_id UUID DEFAULT NULL,
+  _current INTEGER DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _entitlements JSONB := public.owner_plan_entitlements(_owner_id);
+  _plan TEXT := COALESCE(_entitlements->>'plan_name', 'current');
+  _limit INTEGER;
+  _noun TEXT;
+BEGIN
+  IF NOT (_entitlements->>'has_access')::BOOLEAN THEN
+    RETURN jsonb_build_object(
+      'allowed', false,
+      'reason', 'Your subscription is ' || replace(_entitlements->>'status', '_', ' ') || '. Renew it to continue',
+      'plan_name', _entitlements->>'plan_name'
+    );
+  END IF;
+
+  CASE _action
+    WHEN 'create_store' THEN
+      _limit := (_entitlements->'limits'->>'stores')::INTEGER;
+      IF _current IS NULL THEN
+        SELECT count(*) INTO _current FROM public.stores WHERE owner_id = _owner_id;
+      END IF;
+      _noun := 'store';
+    WHEN 'add_pin_user' THEN
+      _limit := (_entitlements->'limits'->>'pin_users_per_store')::INTEGER;
+      IF _current IS NULL THEN
+        SELECT count(*) INTO _current
+        FROM public.store_members
+        WHERE store_id = _store_id
+          AND is_active
+          AND role <> 'owner';
+      END IF;
+      _noun := 'team member';
+    WHEN 'add_inventory_item' THEN
+      _limit := (_entitlements->'limits'->>'inventory_items_per_store')::INTEGER;
+      IF _current IS NULL THEN
+        SELECT count(*) INTO _current FROM public.products WHERE store_id = _store_id;
+      END IF;
+      _noun := 'product';
+    WHEN 'showcase', 'layby', 'reports_export' THEN
+      IF (_entitlements->'features'->>_action)::BOOLEAN THEN
+        RETURN jsonb_build_object('allowed', true, 'plan_name', _entitlements->>'plan_name');
+      END IF;
+
+      RETURN jsonb_build_object(
+        'allowed', false,
+        'feature', _action,
+        'reason', CASE _action
+          WHEN 'showcase' THEN 'The online showcase'
+          WHEN 'layby' THEN 'Laybys'
+          ELSE 'Exporting reports'
+        END || ' is not included in your ' || _plan || ' plan',
+        'plan_name', _entitlements->>'plan_name'
+      );
+    ELSE
+      RAISE EXCEPTION 'Unknown plan limit %', _action;
+  END CASE;
+
+  IF _limit IS NULL OR _current < _limit THEN
+    RETURN jsonb_build_object('allowed', true, 'limit', _limit, 'current', _current, 'plan_name', _entitlements->>'plan_name');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'allowed', false,
+    'limit', _limit,
+    'current', _current,
+    'reason', 'Your ' || _plan || ' plan allows ' || _limit || ' ' || _noun || CASE WHEN _limit = 1 THEN '' ELSE 's' END
+      || CASE WHEN _action = 'create_store' THEN '' ELSE ' per store' END,
+    'plan_name', _entitlements->>'plan_name'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.plan_limit_check(UUID, TEXT, UUID, INTEGER) FROM PUBLIC;
+
+-- Recount an owner's usage into subscription_usage_tracking
+CREATE OR REPLACE FUNCTION public.recompute_subscription_usage(_owner_id UUID)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _subscription_id UUID;
+BEGIN
+  SELECT id
+  INTO _subscription_id
+  FROM public.user_subscriptions
+  WHERE user_id = _owner_id
+  ORDER BY (status IN ('active', 'trial', 'trialing', 'past_due', 'suspended')) DESC, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN;
+  END IF;
+
+  INSERT INTO public.subscription_usage_tracking (
+    subscription_id,
+    stores_count,
+    total_pin_users,
+    total_inventory_items,
+    usage_by_store,
+    last_calculated_at
+  )
+  SELECT _subscription_id,
+         count(*),
+         COALESCE(sum(usage.pin_users), 0),
+         COALESCE(sum(usage.inventory_items), 0),
+         COALESCE(jsonb_object_agg(
+           usage.store_id,
+           jsonb_build_object('pin_users', usage.pin_users, 'inventory_items', usage.inventory_items)
+         ) FILTER (WHERE usage.store_id IS NOT NULL), '{}'::jsonb),
+         now()
+  FROM (
+    SELECT st.id AS store_id,
+           (SELECT count(*) FROM public.store_members m WHERE m.store_id = st.id AND m.is_active AND m.role <> 'owner') AS pin_users,
+           (SELECT count(*) FROM public.products pr WHERE pr.store_id = st.id) AS inventory_items
+    FROM public.stores st
+    WHERE st.owner_id = _owner_id
+  ) usage
+  ON CONFLICT (subscription_id) DO UPDATE
+  SET stores_count = EXCLUDED.stores_count,
+      total_pin_users = EXCLUDED.total_pin_users,
+      total_inventory_items = EXCLUDED.total_inventory_items,
+      usage_by_store = EXCLUDED.usage_by_store,
+      last_calculated_at = EXCLUDED.last_calculated_at;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.recompute_subscription_usage(UUID) FROM PUBLIC;
+
+-- Take one more of a counted resource on the owner's usage row and return how many there were
+-- before. The row stays locked until the write commits, so concurrent writes queue up and each
+-- row of a multi-row insert sees the ones before it. NULL for owners without a subscription.
+CREATE OR REPLACE FUNCTION public.reserve_plan_usage(_owner_id UUID, _action TEXT, _store_id UUID DEFAULT NULL)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _subscription_id UUID;
+  _usage public.subscription_usage_tracking;
+  _store_key TEXT := _store_id::TEXT;
+  _metric TEXT;
+  _current INTEGER;
+BEGIN
+  SELECT id
+  INTO _subscription_id
+  FROM public.user_subscriptions
+  WHERE user_id = _owner_id
+  ORDER BY (status IN ('active', 'trial', 'trialing', 'past_due', 'suspended')) DESC, created_at DESC
+  LIMIT 1;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO _usage
+  FROM public.subscription_usage_tracking
+  WHERE subscription_id = _subscription_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    PERFORM public.recompute_subscription_usage(_owner_id);
+
+    SELECT * INTO _usage
+    FROM public.subscription_usage_tracking
+    WHERE subscription_id = _subscription_id
+    FOR UPDATE;
+  END IF;
+
+  IF _action = 'create_store' THEN
+    _current := COALESCE(_usage.stores_count, 0);
+
+    UPDATE public.subscription_usage_tracking
+    SET stores_count = _current + 1
+    WHERE id = _usage.id;
+
+    RETURN _current;
+  END IF;
+
+  _metric := CASE _action WHEN 'add_pin_user' THEN 'pin_users' ELSE 'inventory_items' END;
+  _current := COALESCE((_usage.usage_by_store->_store_key->>_metric)::INTEGER, 0);
+
+  UPDATE public.subscription_usage_tracking
+  SET total_pin_users = COALESCE(total_pin_users, 0) + CASE WHEN _metric = 'pin_users' THEN 1 ELSE 0 END,
+      total_inventory_items = COALESCE(total_inventory_items, 0) + CASE WHEN _metric = 'inventory_items' THEN 1 ELSE 0 END,
+      usage_by_store = jsonb_set(
+        COALESCE(usage_by_store, '{}'::jsonb),
+        ARRAY[_store_key],
+        COALESCE(usage_by_store->_store_key, '{}'::jsonb) || jsonb_build_object(_metric, _current + 1)
+      )
+  WHERE id = _usage.id;
+
+  RETURN _current;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reserve_plan_usage(UUID, TEXT, UUID) FROM PUBLIC;
+
+-- One check for every limited write. Counted limits go through the usage row, not a fresh
+-- count, so the rows of one insert and concurrent inserts can't all slip under the same limit.
+-- Writes with no signed-in user (service jobs, admin fixes) are not limited.
+CREATE OR REPLACE FUNCTION public.enforce_plan_limits()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _owner_id UUID;
+  _store_id UUID;
+  _checks TEXT[] := ARRAY[]::TEXT[];
+  _action TEXT;
+  _current INTEGER;
+  _result JSONB;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  -- Only what the write adds counts: a new row, or a flag switched on
+  IF TG_TABLE_NAME = 'stores' THEN
+    _owner_id := NEW.owner_id;
+
+    IF TG_OP = 'INSERT' THEN
+      _checks := _checks || 'create_store'::TEXT;
+      IF COALESCE(NEW.enable_public_showcase, false) THEN
+        _checks := _checks || 'showcase'::TEXT;
+      END IF;
+    ELSIF COALESCE(NEW.enable_public_showcase, false) AND NOT COALESCE(OLD.enable_public_showcase, false) THEN
+      _checks := _checks || 'showcase'::TEXT;
+    END IF;
+  ELSE
+    _store_id := NEW.store_id;
+    SELECT owner_id INTO _owner_id FROM public.stores WHERE id = _store_id;
+
+    IF TG_TABLE_NAME = 'store_members' THEN
+      IF COALESCE(NEW.is_active, false) AND NEW.role <> 'owner' THEN
+        IF TG_OP = 'INSERT' THEN
+          _checks := _checks || 'add_pin_user'::TEXT;
+        ELSIF NOT COALESCE(OLD.is_active, false) OR OLD.role = 'owner' THEN
+          _checks := _checks || 'add_pin_user'::TEXT;
+        END IF;
+      END IF;
+    ELSIF TG_TABLE_NAME = 'products' THEN
+      IF TG_OP = 'INSERT' THEN
+        _checks := _checks || 'add_inventory_item'::TEXT;
+        IF COALESCE(NEW.is_public, false) THEN
+          _checks := _checks || 'showcase'::TEXT;
+        END IF;
+      ELSIF COALESCE(NEW.is_public, false) AND NOT COALESCE(OLD.is_public, false) THEN
+        _checks := _checks || 'showcase'::TEXT;
+      END IF;
+    ELSIF TG_TABLE_NAME = 'layby_orders' THEN
+      _checks := _checks || 'layby'::TEXT;
+    END IF;
+  END IF;
+
+  FOREACH _action IN ARRAY _checks LOOP
+    _current := CASE WHEN _action IN ('create_store', 'add_pin_user', 'add_inventory_item')
+      THEN public.reserve_plan_usage(_owner_id, _action, _store_id)
+    END;
+    _result := public.plan_limit_check(_owner_id, _action, _store_id, _current);
+
+    IF NOT (_result->>'allowed')::BOOLEAN THEN
+      RAISE EXCEPTION 'Plan limit: %. Upgrade your plan to continue.', _result->>'reason';
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS enforce_store_plan_limits ON public.stores;
+CREATE TRIGGER enforce_store_plan_limits
+BEFORE INSERT OR UPDATE OF enable_public_showcase ON public.stores
+FOR EACH ROW EXECUTE FUNCTION public.enforce_plan_limits();
+
+DROP TRIGGER IF EXISTS enforce_store_member_plan_limits ON public.store_members;
+CREATE TRIGGER enforce_store_member_plan_limits
+BEFORE INSERT OR UPDATE OF is_active, role ON public.store_members
+FOR EACH ROW EXECUTE FUNCTION public.enforce_plan_limits();
+
+DROP TRIGGER IF EXISTS enforce_product_plan_limits ON public.products;
+CREATE TRIGGER enforce_product_plan_limits
+BEFORE INSERT OR UPDATE OF is_public ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.enforce_plan_limits();
+
+DROP TRIGGER IF EXISTS enforce_layby_plan_limits ON public.layby_orders;
+CREATE TRIGGER enforce_layby_plan_limits
+BEFORE INSERT ON public.layby_orders
+FOR EACH ROW EXECUTE FUNCTION public.enforce_plan_limits();
+
+-- Keep the usage counts current as stores, team members and products come and go. Runs once
+-- per statement, so an import of thousands of products recounts each owner once.
+CREATE OR REPLACE FUNCTION public.sync_subscription_usage()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _owners UUID[];
+  _owner_id UUID;
+BEGIN
+  -- Each trigger only declares the transition tables its event has
+  IF TG_TABLE_NAME = 'stores' THEN
+    IF TG_OP = 'DELETE' THEN
+      SELECT array_agg(DISTINCT owner_id) INTO _owners FROM old_rows;
+    ELSE
+      SELECT array_agg(DISTINCT owner_id) INTO _owners FROM new_rows;
+    END IF;
+  ELSIF TG_OP = 'INSERT' THEN
+    SELECT array_agg(DISTINCT st.owner_id) INTO _owners
+    FROM public.stores st
+    WHERE st.id IN (SELECT store_id FROM new_rows);
+  ELSIF TG_OP = 'DELETE' THEN
+    SELECT array_agg(DISTINCT st.owner_id) INTO _owners
+    FROM public.stores st
+    WHERE st.id IN (SELECT store_id FROM old_rows);
+  ELSE
+    SELECT array_agg(DISTINCT st.owner_id) INTO _owners
+    FROM public.stores st
+    WHERE st.id IN (
+      SELECT n.store_id
+      FROM new_rows n
+      JOIN old_rows o ON o.id = n.id
+      WHERE n.is_active IS DISTINCT FROM o.is_active
+         OR n.role IS DISTINCT FROM o.role
+         OR n.store_id IS DISTINCT FROM o.store_id
+      UNION
+      SELECT o.store_id
+      FROM new_rows n
+      JOIN old_rows o ON o.id = n.id
+      WHERE n.store_id IS DISTINCT FROM o.store_id
+    );
+  END IF;
+
+  FOREACH _owner_id IN ARRAY COALESCE(_owners, ARRAY[]::UUID[]) LOOP
+    IF _owner_id IS NOT NULL THEN
+      PERFORM public.recompute_subscription_usage(_owner_id);
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- Transition tables need one trigger per event
+DROP TRIGGER IF EXISTS sync_store_subscription_usage ON public.stores;
+DROP TRIGGER IF EXISTS sync_store_insert_subscription_usage ON public.stores;
+CREATE TRIGGER sync_store_insert_subscription_usage
+AFTER INSERT ON public.stores
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.sync_subscription_usage();
+
+DROP TRIGGER IF EXISTS sync_store_delete_subscription_usage ON public.stores;
+CREATE TRIGGER sync_store_delete_subscription_usage
+AFTER DELETE ON public.stores
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.sync_subscription_usage();
+
+DROP TRIGGER IF EXISTS sync_store_member_subscription_usage ON public.store_members;
+DROP TRIGGER IF EXISTS sync_store_member_insert_subscription_usage ON public.store_members;
+CREATE TRIGGER sync_store_member_insert_subscription_usage
+AFTER INSERT ON public.store_members
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.sync_subscription_usage();
+
+DROP TRIGGER IF EXISTS sync_store_member_update_subscription_usage ON public.store_members;
+CREATE TRIGGER sync_store_member_update_subscription_usage
+AFTER UPDATE ON public.store_members
+REFERENCING OLD TABLE AS old_rows NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.sync_subscription_usage();
+
+DROP TRIGGER IF EXISTS sync_store_member_delete_subscription_usage ON public.store_members;
+CREATE TRIGGER sync_store_member_delete_subscription_usage
+AFTER DELETE ON public.store_members
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.sync_subscription_usage();
+
+DROP TRIGGER IF EXISTS sync_product_subscription_usage ON public.products;
+DROP TRIGGER IF EXISTS sync_product_insert_subscription_usage ON public.products;
+CREATE TRIGGER sync_product_insert_subscription_usage
+AFTER INSERT ON public.products
+REFERENCING NEW TABLE AS new_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.sync_subscription_usage();
+
+DROP TRIGGER IF EXISTS sync_product_delete_subscription_usage ON public.products;
+CREATE TRIGGER sync_product_delete_subscription_usage
+AFTER DELETE ON public.products
+REFERENCING OLD TABLE AS old_rows
+FOR EACH STATEMENT EXECUTE FUNCTION public.sync_subscription_usage();
+
+-- Check a limit before trying the write, for the settings screens and imports. With a store,
+-- the limits are the store owner's (staff add products under the owner's plan).
+CREATE OR REPLACE FUNCTION public.check_subscription_limits(
+  _user_id UUID,
+  _action TEXT,
+  _store_id UUID DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _owner_id UUID := _user_id;
+BEGIN
+  IF _user_id <> auth.uid() THEN
+    RETURN jsonb_build_object('allowed', false, 'reason', 'Access denied');
+  END IF;
+
+  IF _store_id IS NOT NULL THEN
+    IF NOT public.user_can_access_store(_store_id) THEN
+      RETURN jsonb_build_object('allowed', false, 'reason', 'Access denied to store');
+    END IF;
+
+    SELECT owner_id INTO _owner_id FROM public.stores WHERE id = _store_id;
+  END IF;
+
+  RETURN public.plan_limit_check(_owner_id, _action, _store_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_subscription_limits(UUID, TEXT, UUID) TO authenticated;
+
+-- The plan, limits, features and usage that apply to a store (or to the caller's own account)
+CREATE OR REPLACE FUNCTION public.get_plan_entitlements(_store_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _owner_id UUID := auth.uid();
+  _entitlements JSONB;
+BEGIN
+  IF _store_id IS NOT NULL THEN
+    IF NOT public.user_can_access_store(_store_id) THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Access denied to store');
+    END IF;
+
+    SELECT owner_id INTO _owner_id FROM public.stores WHERE id = _store_id;
+  END IF;
+
+  IF _owner_id IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Not signed in');
+  END IF;
+
+  _entitlements := public.owner_plan_entitlements(_owner_id);
+
+  RETURN _entitlements || jsonb_build_object(
+    'success', true,
+    'usage', jsonb_build_object(
+      'stores', (SELECT count(*) FROM public.stores WHERE owner_id = _owner_id),
+      'pin_users', CASE WHEN _store_id IS NULL THEN NULL ELSE (
+        SELECT count(*) FROM public.store_members WHERE store_id = _store_id AND is_active AND role <> 'owner'
+      ) END,
+      'inventory_items', CASE WHEN _store_id IS NULL THEN NULL ELSE (
+        SELECT count(*) FROM public.products WHERE store_id = _store_id
+      ) END
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_plan_entitlements(UUID) TO authenticated;
+
+-- Recount on request, for the subscription screen
+CREATE OR REPLACE FUNCTION public.refresh_subscription_usage()
+RETURNS void
+LANGUAGE sql
+SECURITY DEFINER
+AS $$
+  SELECT public.recompute_subscription_usage(auth.uid());
+$$;
+
+GRANT EXECUTE ON FUNCTION public.refresh_subscription_usage() TO authenticated;
+
+-- Bring every owner's counts up to date
+DO $$
+DECLARE
+  _owner_id UUID;
+BEGIN
+  FOR _owner_id IN SELECT DISTINCT user_id FROM public.user_subscriptions LOOP
+    PERFORM public.recompute_subscription_usage(_owner_id);
+  END LOOP;
+END;
+$$;
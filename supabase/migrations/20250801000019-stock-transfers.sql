@@ -0,0 +1,842 @@
+-- Migration: Stock Transfers
+-- Description: Move stock between an owner's stores with a transfer document. Lines are matched
+-- to the destination's products by SKU (optionally creating missing products there), stock leaves
+-- the source on dispatch, is in transit until received, and short receipts are either returned
+-- to the source or written off. Both sides get stock adjustments referencing the transfer.
+-- Date: 2025-08-01
+
+-- Product names are copied onto the lines so history survives deletes
+CREATE TABLE IF NOT EXISTS public.stock_transfers (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transfer_number TEXT NOT NULL,
+  from_store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  to_store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'draft'
+    CHECK (status IN ('draft', 'in_transit', 'received', 'cancelled')),
+  -- Copy products the destination doesn't stock yet instead of refusing to dispatch
+  create_missing_products BOOLEAN NOT NULL DEFAULT false,
+  has_discrepancy BOOLEAN NOT NULL DEFAULT false,
+  notes TEXT,
+  receive_notes TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  dispatched_by UUID REFERENCES auth.users(id),
+  received_by UUID REFERENCES auth.users(id),
+  dispatched_at TIMESTAMP WITH TIME ZONE,
+  received_at TIMESTAMP WITH TIME ZONE,
+  cancelled_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  CHECK (from_store_id <> to_store_id),
+  UNIQUE(from_store_id, transfer_number)
+);
+
+-- product/variant are the source store's; destination_* are the matched (or created) rows in
+-- the receiving store. quantity_received stays NULL until the transfer is received.
+CREATE TABLE IF NOT EXISTS public.stock_transfer_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  transfer_id UUID NOT NULL REFERENCES public.stock_transfers(id) ON DELETE CASCADE,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  variant_name TEXT,
+  sku TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  quantity_received INTEGER CHECK (quantity_received >= 0 AND quantity_received <= quantity),
+  unit_cost DECIMAL(10,2),
+  destination_product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  destination_variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  discrepancy_resolution TEXT CHECK (discrepancy_resolution IN ('returned', 'written_off')),
+  discrepancy_reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_from_store ON public.stock_transfers(from_store_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfers_to_store ON public.stock_transfers(to_store_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_transfer ON public.stock_transfer_items(transfer_id);
+CREATE INDEX IF NOT EXISTS idx_stock_transfer_items_product ON public.stock_transfer_items(product_id);
+
+ALTER TABLE public.stock_transfers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_transfer_items ENABLE ROW LEVEL SECURITY;
+
+-- Either store can see the transfer; writes only go through the functions below
+CREATE POLICY "Store access for stock_transfers" ON public.stock_transfers
+  FOR SELECT USING (
+    public.user_can_access_store(from_store_id)
+    OR public.user_can_access_store(to_store_id)
+  );
+
+CREATE POLICY "Store access for stock_transfer_items" ON public.stock_transfer_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.stock_transfers t
+      WHERE t.id = transfer_id
+        AND (public.user_can_access_store(t.from_store_id) OR public.user_can_access_store(t.to_store_id))
+    )
+  );
+
+-- Find the destination's copy of a transfer line: variants by their own SKU, then by the same
+-- options on the product matched by SKU; plain products by SKU, or by name when the source has
+-- no SKU. Stores the match on the line and returns whether one was found.
+CREATE OR REPLACE FUNCTION public.match_stock_transfer_item(_item_id UUID)
+RETURNS BOOLEAN
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _item public.stock_transfer_items;
+  _to_store_id UUID;
+  _source RECORD;
+  _product_id UUID;
+  _variant_id UUID;
+BEGIN
+  SELECT i.* INTO _item
+  FROM public.stock_transfer_items i
+  WHERE i.id = _item_id;
+
+  SELECT to_store_id INTO _to_store_id
+  FROM public.stock_transfers
+  WHERE id = _item.transfer_id;
+
+  SELECT p.sku AS product_sku, p.name, v.sku AS variant_sku, v.options
+  INTO _source
+  FROM public.products p
+  LEFT JOIN public.product_variants v ON v.id = _item.variant_id
+  WHERE p.id = _item.product_id;
+
+  IF NOT FOUND THEN
+    RETURN _item.destination_product_id IS NOT NULL;
+  END IF;
+
+  IF _item.variant_id IS NOT NULL THEN
+    IF NULLIF(trim(_source.variant_sku), '') IS NOT NULL THEN
+      SELECT v.product_id, v.id INTO _product_id, _variant_id
+      FROM public.product_variants v
+      WHERE v.store_id = _to_store_id
+        AND lower(v.sku) = lower(trim(_source.variant_sku));
+    END IF;
+
+    IF _variant_id IS NULL THEN
+      SELECT v.product_id, v.id INTO _product_id, _variant_id
+      FROM public.products p
+      JOIN public.product_variants v ON v.product_id = p.id
+      WHERE p.store_id = _to_store_id
+        AND p.has_variants
+        AND CASE
+          WHEN NULLIF(trim(_source.product_sku), '') IS NOT NULL THEN lower(p.sku) = lower(trim(_source.product_sku))
+          ELSE lower(p.name) = lower(_source.name)
+        END
+        AND v.options = _source.options
+      ORDER BY p.created_at
+      LIMIT 1;
+    END IF;
+  ELSE
+    SELECT p.id INTO _product_id
+    FROM public.products p
+    WHERE p.store_id = _to_store_id
+      AND NOT p.has_variants
+      AND CASE
+        WHEN NULLIF(trim(_source.product_sku), '') IS NOT NULL THEN lower(p.sku) = lower(trim(_source.product_sku))
+        ELSE lower(p.name) = lower(_source.name)
+      END
+    ORDER BY COALESCE(p.is_active, true) DESC, p.created_at
+    LIMIT 1;
+  END IF;
+
+  UPDATE public.stock_transfer_items
+  SET destination_product_id = _product_id,
+      destination_variant_id = _variant_id
+  WHERE id = _item.id;
+
+  RETURN _product_id IS NOT NULL;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.match_stock_transfer_item(UUID) FROM PUBLIC;
+
+-- Copy a product into another store of the same owner with no stock: options, variants and
+-- barcodes come along, and the category and supplier are matched by name. Barcodes already
+-- used in the destination are left off the copy.
+CREATE OR REPLACE FUNCTION public.copy_product_to_store(_product_id UUID, _store_id UUID)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _product public.products;
+  _category_id UUID;
+  _supplier_id UUID;
+  _new_id UUID;
+BEGIN
+  SELECT * INTO _product
+  FROM public.products
+  WHERE id = _product_id;
+
+  SELECT c.id INTO _category_id
+  FROM public.categories c
+  JOIN public.categories source ON source.id = _product.category_id
+  WHERE c.store_id = _store_id
+    AND lower(c.name) = lower(source.name)
+  LIMIT 1;
+
+  SELECT s.id INTO _supplier_id
+  FROM public.suppliers s
+  JOIN public.suppliers source ON source.id = _product.supplier_id
+  WHERE s.store_id = _store_id
+    AND lower(s.name) = lower(source.name)
+  LIMIT 1;
+
+  INSERT INTO public.products (
+    store_id,
+    name,
+    description,
+    sku,
+    price,
+    cost,
+    stock_quantity,
+    low_stock_threshold,
+    category_id,
+    supplier_id,
+    image_url,
+    is_active,
+    has_variants
+  ) VALUES (
+    _store_id,
+    _product.name,
+    _product.description,
+    _product.sku,
+    _product.price,
+    _product.cost,
+    0,
+    _product.low_stock_threshold,
+    _category_id,
+    _supplier_id,
+    _product.image_url,
+    true,
+    _product.has_variants
+  )
+  RETURNING id INTO _new_id;
+
+  INSERT INTO public.product_options (store_id, product_id, name, option_values, position)
+  SELECT _store_id, _new_id, name, option_values, position
+  FROM public.product_options
+  WHERE product_id = _product.id;
+
+  INSERT INTO public.product_variants (
+    store_id, product_id, options, name, sku, barcode, price, cost, stock_quantity, is_active, position
+  )
+  SELECT _store_id, _new_id, v.options, v.name, v.sku,
+         CASE WHEN EXISTS (
+           SELECT 1 FROM public.product_variants taken
+           WHERE taken.store_id = _store_id AND taken.barcode = v.barcode
+         ) THEN NULL ELSE v.barcode END,
+         v.price, v.cost, 0, v.is_active, v.position
+  FROM public.product_variants v
+  WHERE v.product_id = _product.id
+    AND (v.sku IS NULL OR NOT EXISTS (
+      SELECT 1 FROM public.product_variants taken
+      WHERE taken.store_id = _store_id AND lower(taken.sku) = lower(v.sku)
+    ));
+
+  INSERT INTO public.product_barcodes (store_id, product_id, barcode, position)
+  SELECT _store_id, _new_id, barcode, position
+  FROM public.product_barcodes
+  WHERE product_id = _product.id
+  ON CONFLICT (store_id, barcode) DO NOTHING;
+
+  RETURN _new_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.copy_product_to_store(UUID, UUID) FROM PUBLIC;
+
+-- Create a draft transfer, or replace the header and lines of an existing draft. Both stores
+-- must belong to the same owner and be accessible to the caller.
+-- _items: [{ "product_id": uuid, "variant_id": uuid | null, "quantity": int }]
+CREATE OR REPLACE FUNCTION public.save_stock_transfer(
+  _from_store_id UUID,
+  _to_store_id UUID,
+  _items JSONB,
+  _transfer_id UUID DEFAULT NULL,
+  _create_missing_products BOOLEAN DEFAULT false,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _item JSONB;
+  _product RECORD;
+  _variant RECORD;
+  _quantity INTEGER;
+  _transfer public.stock_transfers;
+  _transfer_number TEXT;
+  _line_id UUID;
+BEGIN
+  IF NOT public.user_can_access_store(_from_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _from_store_id;
+  END IF;
+
+  IF NOT public.user_can_access_store(_to_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _to_store_id;
+  END IF;
+
+  IF _from_store_id = _to_store_id THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose a different destination store');
+  END IF;
+
+  IF (SELECT owner_id FROM public.stores WHERE id = _from_store_id)
+     IS DISTINCT FROM (SELECT owner_id FROM public.stores WHERE id = _to_store_id) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Stock can only be transferred between stores with the same owner');
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Add at least one product to the transfer');
+  END IF;
+
+  IF _transfer_id IS NULL THEN
+    -- Sequential per source store; the unique constraint catches a concurrent duplicate
+    SELECT 'TR-' || lpad((COALESCE(MAX(substring(transfer_number FROM 4)::INTEGER), 0) + 1)::TEXT, 5, '0')
+    INTO _transfer_number
+    FROM public.stock_transfers
+    WHERE from_store_id = _from_store_id
+      AND transfer_number ~ '^TR-[0-9]+$';
+
+    INSERT INTO public.stock_transfers (
+      transfer_number,
+      from_store_id,
+      to_store_id,
+      create_missing_products,
+      notes,
+      created_by
+    ) VALUES (
+      _transfer_number,
+      _from_store_id,
+      _to_store_id,
+      COALESCE(_create_missing_products, false),
+      NULLIF(trim(_notes), ''),
+      auth.uid()
+    )
+    RETURNING * INTO _transfer;
+  ELSE
+    SELECT * INTO _transfer
+    FROM public.stock_transfers
+    WHERE id = _transfer_id AND from_store_id = _from_store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Transfer not found');
+    END IF;
+
+    IF _transfer.status <> 'draft' THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Only draft transfers can be edited');
+    END IF;
+
+    UPDATE public.stock_transfers
+    SET to_store_id = _to_store_id,
+        create_missing_products = COALESCE(_create_missing_products, false),
+        notes = NULLIF(trim(_notes), ''),
+        updated_at = now()
+    WHERE id = _transfer.id
+    RETURNING * INTO _transfer;
+
+    DELETE FROM public.stock_transfer_items WHERE transfer_id = _transfer.id;
+  END IF;
+
+  FOR _item IN SELECT * FROM jsonb_array_elements(_items)
+  LOOP
+    SELECT id, name, sku, cost, has_variants INTO _product
+    FROM public.products
+    WHERE id = (_item->>'product_id')::UUID AND store_id = _from_store_id;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product % not found in store %', _item->>'product_id', _from_store_id;
+    END IF;
+
+    _variant := NULL;
+
+    IF NULLIF(_item->>'variant_id', '') IS NOT NULL THEN
+      SELECT id, name, sku, cost INTO _variant
+      FROM public.product_variants
+      WHERE id = (_item->>'variant_id')::UUID AND product_id = _product.id;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'Variant % not found on %', _item->>'variant_id', _product.name;
+      END IF;
+    ELSIF _product.has_variants THEN
+      RAISE EXCEPTION 'Choose which variant of % to transfer', _product.name;
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be greater than 0', _product.name;
+    END IF;
+
+    INSERT INTO public.stock_transfer_items (
+      transfer_id,
+      product_id,
+      variant_id,
+      product_name,
+      variant_name,
+      sku,
+      quantity,
+      unit_cost
+    ) VALUES (
+      _transfer.id,
+      _product.id,
+      _variant.id,
+      _product.name,
+      _variant.name,
+      COALESCE(_variant.sku, _product.sku),
+      _quantity,
+      COALESCE(_variant.cost, _product.cost)
+    )
+    RETURNING id INTO _line_id;
+
+    PERFORM public.match_stock_transfer_item(_line_id);
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'transfer', to_jsonb(_transfer));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.save_stock_transfer(UUID, UUID, JSONB, UUID, BOOLEAN, TEXT) TO authenticated;
+
+-- Send a draft: every line must have a match in the destination (or the transfer creates
+-- missing products), and the source must have the stock. Stock leaves the source now and is
+-- in transit until the destination receives it.
+CREATE OR REPLACE FUNCTION public.dispatch_stock_transfer(_transfer_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _transfer public.stock_transfers;
+  _to_store_name TEXT;
+  _line public.stock_transfer_items;
+  _unmatched TEXT[] := '{}';
+  _stock RECORD;
+BEGIN
+  SELECT * INTO _transfer
+  FROM public.stock_transfers
+  WHERE id = _transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_transfer.from_store_id) THEN
+    RAISE EXCEPTION 'Access denied to transfer %', _transfer_id;
+  END IF;
+
+  IF _transfer.status <> 'draft' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only draft transfers can be dispatched');
+  END IF;
+
+  SELECT name INTO _to_store_name FROM public.stores WHERE id = _transfer.to_store_id;
+
+  -- Products may have been added to the destination since the draft was saved
+  FOR _line IN
+    SELECT * FROM public.stock_transfer_items WHERE transfer_id = _transfer.id ORDER BY created_at
+  LOOP
+    IF NOT public.match_stock_transfer_item(_line.id) AND NOT _transfer.create_missing_products THEN
+      _unmatched := _unmatched || (_line.product_name || COALESCE(' (' || _line.variant_name || ')', ''));
+    END IF;
+  END LOOP;
+
+  IF cardinality(_unmatched) > 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('%s not found in %s. Add them there or let the transfer create missing products.',
+        array_to_string(_unmatched, ', '), _to_store_name),
+      'unmatched', to_jsonb(_unmatched)
+    );
+  END IF;
+
+  FOR _line IN
+    SELECT * FROM public.stock_transfer_items WHERE transfer_id = _transfer.id ORDER BY created_at
+  LOOP
+    IF _line.product_id IS NULL THEN
+      RAISE EXCEPTION '% has been deleted and cannot be transferred', _line.product_name;
+    END IF;
+
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT product_id AS id, id AS variant_id, stock_quantity INTO _stock
+      FROM public.product_variants
+      WHERE id = _line.variant_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION '% (%) has been deleted and cannot be transferred', _line.product_name, _line.variant_name;
+      END IF;
+    ELSE
+      SELECT id, NULL::UUID AS variant_id, stock_quantity INTO _stock
+      FROM public.products
+      WHERE id = _line.product_id
+      FOR UPDATE;
+    END IF;
+
+    IF COALESCE(_stock.stock_quantity, 0) < _line.quantity THEN
+      RAISE EXCEPTION 'Only % of % in stock', COALESCE(_stock.stock_quantity, 0),
+        _line.product_name || COALESCE(' (' || _line.variant_name || ')', '');
+    END IF;
+
+    IF _stock.variant_id IS NOT NULL THEN
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _stock.variant_id;
+    ELSE
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _stock.id;
+    END IF;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _transfer.from_store_id,
+      _stock.id,
+      _stock.variant_id,
+      auth.uid(),
+      'transfer',
+      -_line.quantity,
+      _stock.stock_quantity,
+      _stock.stock_quantity - _line.quantity,
+      'Transferred to ' || _to_store_name || ' on ' || _transfer.transfer_number,
+      _transfer.id
+    );
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'in_transit',
+      dispatched_by = auth.uid(),
+      dispatched_at = now(),
+      updated_at = now()
+  WHERE id = _transfer.id
+  RETURNING * INTO _transfer;
+
+  RETURN jsonb_build_object('success', true, 'transfer', to_jsonb(_transfer));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.dispatch_stock_transfer(UUID) TO authenticated;
+
+-- Book the transfer into the destination. Each line records what actually arrived; a shortfall
+-- is either returned to the source's stock or written off as lost in transit, with a reason.
+-- _items: [{ "item_id": uuid, "quantity_received": int, "resolution": "returned" | "written_off", "reason": text }]
+-- Lines left out are taken as received in full.
+CREATE OR REPLACE FUNCTION public.receive_stock_transfer(
+  _transfer_id UUID,
+  _items JSONB DEFAULT '[]'::jsonb,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _transfer public.stock_transfers;
+  _from_store_name TEXT;
+  _line public.stock_transfer_items;
+  _input JSONB;
+  _received INTEGER;
+  _short INTEGER;
+  _resolution TEXT;
+  _product_id UUID;
+  _variant_id UUID;
+  _stock RECORD;
+  _has_discrepancy BOOLEAN := false;
+BEGIN
+  SELECT * INTO _transfer
+  FROM public.stock_transfers
+  WHERE id = _transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_transfer.to_store_id) THEN
+    RAISE EXCEPTION 'Access denied to transfer %', _transfer_id;
+  END IF;
+
+  IF _transfer.status <> 'in_transit' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only transfers in transit can be received');
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' THEN
+    _items := '[]'::jsonb;
+  END IF;
+
+  SELECT name INTO _from_store_name FROM public.stores WHERE id = _transfer.from_store_id;
+
+  FOR _line IN
+    SELECT * FROM public.stock_transfer_items WHERE transfer_id = _transfer.id ORDER BY created_at
+    FOR UPDATE
+  LOOP
+    SELECT value INTO _input
+    FROM jsonb_array_elements(_items)
+    WHERE (value->>'item_id')::UUID = _line.id;
+
+    _received := COALESCE((_input->>'quantity_received')::INTEGER, _line.quantity);
+
+    IF _received < 0 OR _received > _line.quantity THEN
+      RAISE EXCEPTION 'Received quantity for % must be between 0 and %', _line.product_name, _line.quantity;
+    END IF;
+
+    _short := _line.quantity - _received;
+    _resolution := NULL;
+
+    IF _short > 0 THEN
+      _resolution := COALESCE(NULLIF(_input->>'resolution', ''), 'written_off');
+      IF _resolution NOT IN ('returned', 'written_off') THEN
+        RAISE EXCEPTION 'Unknown discrepancy resolution %', _resolution;
+      END IF;
+      _has_discrepancy := true;
+    END IF;
+
+    IF _received > 0 THEN
+      IF NOT public.match_stock_transfer_item(_line.id) THEN
+        IF NOT _transfer.create_missing_products OR _line.product_id IS NULL THEN
+          RAISE EXCEPTION '% is not stocked in this store. Add it before receiving the transfer', _line.product_name;
+        END IF;
+
+        PERFORM public.copy_product_to_store(_line.product_id, _transfer.to_store_id);
+
+        IF NOT public.match_stock_transfer_item(_line.id) THEN
+          RAISE EXCEPTION '% (%) could not be created in this store because its SKU is already used',
+            _line.product_name, _line.variant_name;
+        END IF;
+      END IF;
+
+      SELECT destination_product_id, destination_variant_id INTO _product_id, _variant_id
+      FROM public.stock_transfer_items
+      WHERE id = _line.id;
+
+      IF _variant_id IS NOT NULL THEN
+        SELECT product_id AS id, id AS variant_id, stock_quantity, cost INTO _stock
+        FROM public.product_variants
+        WHERE id = _variant_id
+        FOR UPDATE;
+
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity + _received,
+            cost = COALESCE(cost, _line.unit_cost),
+            updated_at = now()
+        WHERE id = _variant_id;
+      ELSE
+        SELECT id, NULL::UUID AS variant_id, stock_quantity, cost INTO _stock
+        FROM public.products
+        WHERE id = _product_id
+        FOR UPDATE;
+
+        UPDATE public.products
+        SET stock_quantity = COALESCE(stock_quantity, 0) + _received,
+            cost = COALESCE(cost, _line.unit_cost),
+            updated_at = now()
+        WHERE id = _product_id;
+      END IF;
+
+      INSERT INTO public.stock_adjustments (
+        store_id,
+        product_id,
+        variant_id,
+        user_id,
+        adjustment_type,
+        quantity_change,
+        previous_quantity,
+        new_quantity,
+        reason,
+        reference_id
+      ) VALUES (
+        _transfer.to_store_id,
+        _stock.id,
+        _stock.variant_id,
+        auth.uid(),
+        'transfer',
+        _received,
+        COALESCE(_stock.stock_quantity, 0),
+        COALESCE(_stock.stock_quantity, 0) + _received,
+        'Received from ' || _from_store_name || ' on ' || _transfer.transfer_number,
+        _transfer.id
+      );
+    END IF;
+
+    -- Returned shortfall goes back on the source's shelf
+    IF _resolution = 'returned' AND _line.product_id IS NOT NULL THEN
+      IF _line.variant_id IS NOT NULL THEN
+        SELECT product_id AS id, id AS variant_id, stock_quantity INTO _stock
+        FROM public.product_variants
+        WHERE id = _line.variant_id
+        FOR UPDATE;
+      ELSE
+        SELECT id, NULL::UUID AS variant_id, stock_quantity INTO _stock
+        FROM public.products
+        WHERE id = _line.product_id
+        FOR UPDATE;
+      END IF;
+
+      IF FOUND THEN
+        IF _stock.variant_id IS NOT NULL THEN
+          UPDATE public.product_variants
+          SET stock_quantity = stock_quantity + _short,
+              updated_at = now()
+          WHERE id = _stock.variant_id;
+        ELSE
+          UPDATE public.products
+          SET stock_quantity = COALESCE(stock_quantity, 0) + _short,
+              updated_at = now()
+          WHERE id = _stock.id;
+        END IF;
+
+        INSERT INTO public.stock_adjustments (
+          store_id,
+          product_id,
+          variant_id,
+          user_id,
+          adjustment_type,
+          quantity_change,
+          previous_quantity,
+          new_quantity,
+          reason,
+          reference_id
+        ) VALUES (
+          _transfer.from_store_id,
+          _stock.id,
+          _stock.variant_id,
+          auth.uid(),
+          'transfer',
+          _short,
+          COALESCE(_stock.stock_quantity, 0),
+          COALESCE(_stock.stock_quantity, 0) + _short,
+          'Returned short from ' || _transfer.transfer_number,
+          _transfer.id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.stock_transfer_items
+    SET quantity_received = _received,
+        discrepancy_resolution = _resolution,
+        discrepancy_reason = CASE WHEN _short > 0 THEN NULLIF(trim(_input->>'reason'), '') END
+    WHERE id = _line.id;
+  END LOOP;
+
+  UPDATE public.stock_transfers
+  SET status = 'received',
+      has_discrepancy = _has_discrepancy,
+      receive_notes = NULLIF(trim(_notes), ''),
+      received_by = auth.uid(),
+      received_at = now(),
+      updated_at = now()
+  WHERE id = _transfer.id
+  RETURNING * INTO _transfer;
+
+  RETURN jsonb_build_object('success', true, 'transfer', to_jsonb(_transfer));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.receive_stock_transfer(UUID, JSONB, TEXT) TO authenticated;
+
+-- Cancel a draft, or recall a transfer still in transit, which puts its stock back in the source
+CREATE OR REPLACE FUNCTION public.cancel_stock_transfer(_transfer_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _transfer public.stock_transfers;
+  _line public.stock_transfer_items;
+  _stock RECORD;
+BEGIN
+  SELECT * INTO _transfer
+  FROM public.stock_transfers
+  WHERE id = _transfer_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_transfer.from_store_id) THEN
+    RAISE EXCEPTION 'Access denied to transfer %', _transfer_id;
+  END IF;
+
+  IF _transfer.status NOT IN ('draft', 'in_transit') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', format('A %s transfer cannot be cancelled', replace(_transfer.status, '_', ' '))
+    );
+  END IF;
+
+  IF _transfer.status = 'in_transit' THEN
+    FOR _line IN
+      SELECT * FROM public.stock_transfer_items
+      WHERE transfer_id = _transfer.id AND product_id IS NOT NULL
+      ORDER BY created_at
+    LOOP
+      IF _line.variant_id IS NOT NULL THEN
+        SELECT product_id AS id, id AS variant_id, stock_quantity INTO _stock
+        FROM public.product_variants
+        WHERE id = _line.variant_id
+        FOR UPDATE;
+      ELSE
+        SELECT id, NULL::UUID AS variant_id, stock_quantity INTO _stock
+        FROM public.products
+        WHERE id = _line.product_id
+        FOR UPDATE;
+      END IF;
+
+      CONTINUE WHEN NOT FOUND;
+
+      IF _stock.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity + _line.quantity,
+            updated_at = now()
+        WHERE id = _stock.variant_id;
+      ELSE
+        UPDATE public.products
+        SET stock_quantity = COALESCE(stock_quantity, 0) + _line.quantity,
+            updated_at = now()
+        WHERE id = _stock.id;
+      END IF;
+
+      INSERT INTO public.stock_adjustments (
+        store_id,
+        product_id,
+        variant_id,
+        user_id,
+        adjustment_type,
+        quantity_change,
+        previous_quantity,
+        new_quantity,
+        reason,
+        reference_id
+      ) VALUES (
+        _transfer.from_store_id,
+        _stock.id,
+        _stock.variant_id,
+        auth.uid(),
+        'transfer',
+        _line.quantity,
+        COALESCE(_stock.stock_quantity, 0),
+        COALESCE(_stock.stock_quantity, 0) + _line.quantity,
+        'Cancelled ' || _transfer.transfer_number,
+        _transfer.id
+      );
+    END LOOP;
+  END IF;
+
+  UPDATE public.stock_transfers
+  SET status = 'cancelled',
+      cancelled_at = now(),
+      updated_at = now()
+  WHERE id = _transfer.id
+  RETURNING * INTO _transfer;
+
+  RETURN jsonb_build_object('success', true, 'transfer', to_jsonb(_transfer));
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.cancel_stock_transfer(UUID) TO authenticated;
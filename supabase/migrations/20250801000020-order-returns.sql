@@ -0,0 +1,907 @@
+-- Migration: Order Returns and Exchanges
+-- Description: Return selected lines of a POS order. Each line is restocked or written off, the
+-- refund is the line's share of what the customer actually paid, and an exchange sells the
+-- replacement items in the same step so only the difference is paid or refunded. Stores that
+-- require a PIN for voids need a manager or owner PIN before a cashier can process a return.
+-- On a shared till the cashier is taken from the PIN session the till signed in with, and wrong
+-- manager PINs lock PIN approvals for a while.
+-- Date: 2025-08-01
+
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS returned_quantity INTEGER NOT NULL DEFAULT 0;
+
+ALTER TABLE public.order_items
+DROP CONSTRAINT IF EXISTS order_items_returned_quantity_check;
+
+ALTER TABLE public.order_items
+ADD CONSTRAINT order_items_returned_quantity_check
+CHECK (returned_quantity >= 0 AND returned_quantity <= quantity);
+
+-- An order stays completed while only some of it has come back; refunded once all of it has
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS refunded_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+-- refund_amount is the value of the returned lines; exchange_total is what the replacement
+-- items cost. The difference was either refunded (amount_refunded) or paid (amount_collected)
+-- with refund_method.
+CREATE TABLE IF NOT EXISTS public.order_returns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  return_number TEXT NOT NULL,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  refund_method TEXT NOT NULL,
+  refund_amount DECIMAL(10,2) NOT NULL DEFAULT 0,
+  exchange_order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  exchange_total DECIMAL(10,2) NOT NULL DEFAULT 0,
+  amount_refunded DECIMAL(10,2) NOT NULL DEFAULT 0,
+  amount_collected DECIMAL(10,2) NOT NULL DEFAULT 0,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  reason TEXT,
+  processed_by UUID REFERENCES auth.users(id),
+  processed_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  processed_by_name TEXT,
+  approved_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  approved_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE(store_id, return_number)
+);
+
+-- Product names are copied onto the lines so the return receipt survives deletes
+CREATE TABLE IF NOT EXISTS public.order_return_items (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  return_id UUID NOT NULL REFERENCES public.order_returns(id) ON DELETE CASCADE,
+  order_item_id UUID REFERENCES public.order_items(id) ON DELETE SET NULL,
+  product_id UUID REFERENCES public.products(id) ON DELETE SET NULL,
+  variant_id UUID REFERENCES public.product_variants(id) ON DELETE SET NULL,
+  product_name TEXT NOT NULL,
+  variant_name TEXT,
+  sku TEXT,
+  quantity INTEGER NOT NULL CHECK (quantity > 0),
+  unit_price DECIMAL(10,2) NOT NULL,
+  refund_amount DECIMAL(10,2) NOT NULL,
+  disposition TEXT NOT NULL CHECK (disposition IN ('restock', 'write_off')),
+  reason TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_returns_store ON public.order_returns(store_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_order_returns_order ON public.order_returns(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_return_items_return ON public.order_return_items(return_id);
+
+ALTER TABLE public.order_returns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_return_items ENABLE ROW LEVEL SECURITY;
+
+-- Returns are only written by process_order_return
+CREATE POLICY "Store access for order_returns" ON public.order_returns
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for order_return_items" ON public.order_return_items
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM public.order_returns r
+      WHERE r.id = return_id
+        AND public.user_can_access_store(r.store_id)
+    )
+  );
+
+-- Put stock back into a product or variant and record the adjustment. Returns the new quantity.
+CREATE OR REPLACE FUNCTION public.apply_return_stock_change(
+  _store_id UUID,
+  _product_id UUID,
+  _variant_id UUID,
+  _quantity_change INTEGER,
+  _adjustment_type TEXT,
+  _reason TEXT,
+  _reference_id UUID
+)
+RETURNS INTEGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _previous INTEGER;
+BEGIN
+  IF _variant_id IS NOT NULL THEN
+    SELECT stock_quantity INTO _previous
+    FROM public.product_variants
+    WHERE id = _variant_id
+    FOR UPDATE;
+
+    UPDATE public.product_variants
+    SET stock_quantity = stock_quantity + _quantity_change,
+        updated_at = now()
+    WHERE id = _variant_id;
+  ELSE
+    SELECT COALESCE(stock_quantity, 0) INTO _previous
+    FROM public.products
+    WHERE id = _product_id
+    FOR UPDATE;
+
+    UPDATE public.products
+    SET stock_quantity = COALESCE(stock_quantity, 0) + _quantity_change,
+        updated_at = now()
+    WHERE id = _product_id;
+  END IF;
+
+  INSERT INTO public.stock_adjustments (
+    store_id,
+    product_id,
+    variant_id,
+    user_id,
+    adjustment_type,
+    quantity_change,
+    previous_quantity,
+    new_quantity,
+    reason,
+    reference_id
+  ) VALUES (
+    _store_id,
+    _product_id,
+    _variant_id,
+    auth.uid(),
+    _adjustment_type,
+    _quantity_change,
+    _previous,
+    _previous + _quantity_change,
+    _reason,
+    _reference_id
+  );
+
+  RETURN _previous + _quantity_change;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.apply_return_stock_change(UUID, UUID, UUID, INTEGER, TEXT, TEXT, UUID) FROM PUBLIC;
+
+-- PIN sessions remember the account whose till they were opened on, so a session token only
+-- speaks for that account's devices
+ALTER TABLE public.pin_sessions
+ADD COLUMN IF NOT EXISTS user_id UUID REFERENCES auth.users(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_pin_sessions_user_store ON public.pin_sessions(user_id, store_id) WHERE is_active;
+
+CREATE INDEX IF NOT EXISTS idx_audit_logs_denied_pins
+ON public.audit_logs(store_id, created_at)
+WHERE action_type = 'manager_override_denied';
+
+-- Whether PINs are locked at a store: five refused PINs there within 15 minutes, at sign-in or
+-- for a manager approval, lock both until the window passes so PINs can't be found by trying
+-- them in turn
+CREATE OR REPLACE FUNCTION public.pin_attempts_locked(_store_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT COUNT(*) >= 5
+  FROM public.audit_logs al
+  WHERE al.store_id = _store_id
+    AND al.action_type = 'manager_override_denied'
+    AND al.created_at > now() - interval '15 minutes';
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.pin_attempts_locked(UUID) FROM PUBLIC;
+
+-- Sign a member in on a till with their PIN. A wrong PIN is logged and counts towards the
+-- store's PIN lock; tills signed in without an account log it against the store's owner.
+CREATE OR REPLACE FUNCTION public.create_pin_session(
+  _store_id UUID,
+  _member_id UUID,
+  _pin TEXT
+)
+RETURNS TABLE(
+  success BOOLEAN,
+  session_token TEXT,
+  expires_at TIMESTAMPTZ,
+  member_name TEXT,
+  role store_role
+)
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _member RECORD;
+  _token TEXT;
+  _expires TIMESTAMPTZ;
+BEGIN
+  IF public.pin_attempts_locked(_store_id) THEN
+    RAISE EXCEPTION 'Too many wrong PINs. PIN sign-in is locked for 15 minutes.';
+  END IF;
+
+  SELECT sm.*
+  INTO _member
+  FROM public.store_members sm
+  WHERE sm.id = _member_id
+    AND sm.store_id = _store_id
+    AND sm.pin = _pin
+    AND sm.is_active = true;
+
+  IF NOT FOUND THEN
+    INSERT INTO public.audit_logs (
+      store_id, user_id, user_email, action_type, action, description, resource_type, resource_id
+    )
+    SELECT
+      _store_id,
+      COALESCE(auth.uid(), s.owner_id),
+      u.email,
+      'manager_override_denied',
+      'pin_login',
+      'PIN sign-in refused: wrong PIN',
+      'pin_session',
+      _member_id::TEXT
+    FROM public.stores s
+    LEFT JOIN auth.users u ON u.id = auth.uid()
+    WHERE s.id = _store_id;
+
+    RETURN QUERY SELECT false, NULL::TEXT, NULL::TIMESTAMPTZ, NULL::TEXT, NULL::store_role;
+    RETURN;
+  END IF;
+
+  _token := encode(gen_random_bytes(32), 'base64');
+  _expires := now() + interval '4 hours';
+
+  INSERT INTO public.pin_sessions (store_id, member_id, session_token, expires_at, user_id)
+  VALUES (_store_id, _member_id, _token, _expires, auth.uid());
+
+  RETURN QUERY SELECT true, _token, _expires, _member.name, _member.role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.create_pin_session(UUID, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.create_pin_session(UUID, UUID, TEXT) TO authenticated, anon;
+
+-- The PIN user working a shared till, read from the PIN session the device opened rather than a
+-- member id the client names. The session has to be live, for this store and opened on the
+-- signed-in account; using it keeps it open. NULL when no session is given.
+CREATE OR REPLACE FUNCTION public.resolve_till_member(_store_id UUID, _pin_session TEXT)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _member_id UUID;
+BEGIN
+  IF NULLIF(_pin_session, '') IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE public.pin_sessions ps
+  SET last_activity = now(),
+      expires_at = GREATEST(ps.expires_at, now() + interval '4 hours')
+  FROM public.store_members sm
+  WHERE ps.session_token = _pin_session
+    AND ps.store_id = _store_id
+    AND ps.user_id = auth.uid()
+    AND ps.is_active
+    AND ps.expires_at > now()
+    AND sm.id = ps.member_id
+    AND sm.store_id = _store_id
+    AND COALESCE(sm.is_active, true)
+  RETURNING ps.member_id INTO _member_id;
+
+  IF _member_id IS NULL THEN
+    RAISE EXCEPTION 'Your PIN session has ended. Sign in with your PIN again.';
+  END IF;
+
+  RETURN _member_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_till_member(UUID, TEXT) FROM PUBLIC;
+
+-- Whether a PIN user is signed in on one of this account's tills at the store. While one is, a
+-- call that doesn't carry its PIN session can't be told apart from the PIN user's, so it doesn't
+-- get the account's own role.
+CREATE OR REPLACE FUNCTION public.has_open_pin_session(_store_id UUID)
+RETURNS BOOLEAN
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+AS $$
+  SELECT EXISTS (
+    SELECT 1
+    FROM public.pin_sessions ps
+    WHERE ps.store_id = _store_id
+      AND ps.user_id = auth.uid()
+      AND ps.is_active
+      AND ps.expires_at > now()
+  );
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.has_open_pin_session(UUID) FROM PUBLIC;
+
+-- Check a manager's or owner's PIN keyed in to approve _action. Returns approver_id and
+-- approver_name, or a code and error when the PIN is refused. Refusals go to audit_logs and
+-- count towards the store's PIN lock (pin_attempts_locked). A PIN that more than one manager shares is
+-- refused too, since the approval couldn't say who gave it.
+CREATE OR REPLACE FUNCTION public.verify_manager_pin(
+  _store_id UUID,
+  _pin TEXT,
+  _action TEXT,
+  _metadata JSONB DEFAULT '{}'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _approver_id UUID;
+  _approver_name TEXT;
+  _matches INTEGER;
+BEGIN
+  IF public.pin_attempts_locked(_store_id) THEN
+    RETURN jsonb_build_object(
+      'code', 'pin_locked',
+      'error', 'Too many wrong PINs. Manager approvals are locked for 15 minutes.'
+    );
+  END IF;
+
+  SELECT COUNT(*), (array_agg(sm.id))[1], (array_agg(COALESCE(sm.name, sm.email, 'Manager')))[1]
+  INTO _matches, _approver_id, _approver_name
+  FROM public.store_members sm
+  WHERE sm.store_id = _store_id
+    AND sm.pin = trim(_pin)
+    AND sm.role IN ('owner', 'manager')
+    AND COALESCE(sm.is_active, true);
+
+  IF _matches = 1 THEN
+    RETURN jsonb_build_object('approver_id', _approver_id, 'approver_name', _approver_name);
+  END IF;
+
+  INSERT INTO public.audit_logs (
+    store_id, user_id, user_email, action_type, action, description, resource_type, metadata
+  )
+  SELECT
+    _store_id,
+    auth.uid(),
+    u.email,
+    'manager_override_denied',
+    _action,
+    'Manager override for ' || replace(_action, '_', ' ') || ' refused: '
+      || CASE WHEN _matches > 1 THEN 'shared PIN' ELSE 'wrong PIN' END,
+    'manager_override',
+    COALESCE(_metadata, '{}'::jsonb)
+  FROM (SELECT 1) AS one
+  LEFT JOIN auth.users u ON u.id = auth.uid();
+
+  IF _matches > 1 THEN
+    RETURN jsonb_build_object(
+      'code', 'shared_pin',
+      'error', 'More than one manager uses that PIN, so it can''t approve anything. Give each manager their own PIN.'
+    );
+  END IF;
+
+  RETURN jsonb_build_object(
+    'code', 'invalid_pin',
+    'error', 'That PIN doesn''t belong to a manager or owner of this store'
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.verify_manager_pin(UUID, TEXT, TEXT, JSONB) FROM PUBLIC;
+
+-- _items: [{order_item_id, quantity, disposition: 'restock' | 'write_off', reason}]
+-- _exchange_items: [{product_id, variant_id, quantity}] sold at current prices as a new order
+-- _pin_session: the PIN session token of the PIN user processing the return, when the till is
+-- shared
+-- _approval_pin: a manager or owner PIN, needed when the store requires a PIN for voids and
+-- the person processing the return is a cashier
+CREATE OR REPLACE FUNCTION public.process_order_return(
+  _order_id UUID,
+  _items JSONB,
+  _refund_method TEXT,
+  _reason TEXT DEFAULT NULL,
+  _exchange_items JSONB DEFAULT '[]'::jsonb,
+  _exchange_order_number TEXT DEFAULT NULL,
+  _pin_session TEXT DEFAULT NULL,
+  _approval_pin TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order RECORD;
+  _customer_name TEXT;
+  _member_id UUID;
+  _actor RECORD;
+  _actor_role TEXT;
+  _approval JSONB;
+  _approver_id UUID;
+  _approver_name TEXT;
+  _requires_pin BOOLEAN;
+  _line RECORD;
+  _product RECORD;
+  _variant RECORD;
+  _variant_id UUID;
+  _variant_name TEXT;
+  _variant_sku TEXT;
+  _price DECIMAL(10,2);
+  _ratio DECIMAL;
+  _line_refund DECIMAL(10,2);
+  _credit DECIMAL(10,2) := 0;
+  _exchange_total DECIMAL(10,2) := 0;
+  _net DECIMAL(10,2);
+  _fully_returned BOOLEAN;
+  _return_id UUID;
+  _return_number TEXT;
+  _return_created_at TIMESTAMPTZ;
+  _exchange_order_id UUID;
+  _transaction_id UUID;
+  _transaction_number TEXT;
+  _return_items JSONB := '[]'::jsonb;
+  _exchange_lines JSONB := '[]'::jsonb;
+BEGIN
+  SELECT o.*
+  INTO _order
+  FROM public.orders o
+  WHERE o.id = _order_id
+  FOR UPDATE;
+
+  IF NOT FOUND OR _user_id IS NULL OR NOT public.user_can_access_store(_order.store_id) THEN
+    RAISE EXCEPTION 'Access denied to order %', _order_id;
+  END IF;
+
+  IF COALESCE(_order.status, 'completed') <> 'completed' THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Order ' || _order.order_number || ' is ' || _order.status || ' and can''t be returned'
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Select at least one item to return');
+  END IF;
+
+  IF NULLIF(trim(COALESCE(_refund_method, '')), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose how the customer is refunded');
+  END IF;
+
+  -- Who is processing the return, and whether they may do it without a manager
+  _member_id := public.resolve_till_member(_order.store_id, _pin_session);
+  SELECT * INTO _actor FROM public.resolve_drawer_member(_order.store_id, _member_id);
+
+  IF _member_id IS NOT NULL THEN
+    SELECT sm.role::TEXT INTO _actor_role
+    FROM public.store_members sm
+    WHERE sm.id = _member_id;
+  ELSIF public.has_open_pin_session(_order.store_id) THEN
+    -- A PIN user is signed in on this account's till and the call didn't carry their session
+    _actor_role := NULL;
+  ELSIF EXISTS (SELECT 1 FROM public.stores s WHERE s.id = _order.store_id AND s.owner_id = _user_id) THEN
+    _actor_role := 'owner';
+  ELSE
+    SELECT sm.role::TEXT INTO _actor_role
+    FROM public.store_members sm
+    WHERE sm.store_id = _order.store_id
+      AND sm.user_id = _user_id
+      AND COALESCE(sm.is_active, true)
+    LIMIT 1;
+  END IF;
+
+  SELECT COALESCE(ss.require_pin_for_voids, false) INTO _requires_pin
+  FROM public.store_settings ss
+  WHERE ss.store_id = _order.store_id;
+
+  IF COALESCE(_requires_pin, false) AND COALESCE(_actor_role, 'cashier') NOT IN ('owner', 'manager') THEN
+    IF NULLIF(trim(COALESCE(_approval_pin, '')), '') IS NULL THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'approval_required',
+        'error', 'A manager or owner PIN is required to process returns'
+      );
+    END IF;
+
+    _approval := public.verify_manager_pin(
+      _order.store_id,
+      _approval_pin,
+      'return',
+      jsonb_build_object(
+        'order_id', _order.id,
+        'requested_by_member_id', _actor.member_id,
+        'requested_by_name', _actor.member_name
+      )
+    );
+
+    IF _approval ? 'error' THEN
+      RETURN jsonb_build_object('success', false, 'code', _approval->>'code', 'error', _approval->>'error');
+    END IF;
+
+    _approver_id := (_approval->>'approver_id')::UUID;
+    _approver_name := _approval->>'approver_name';
+  END IF;
+
+  -- Refunds give back each line's share of what was paid, so order discounts, loyalty
+  -- redemptions and tax are returned in proportion
+  IF COALESCE(_order.subtotal, 0) > 0 THEN
+    _ratio := _order.total / _order.subtotal;
+  ELSE
+    _ratio := 0;
+  END IF;
+
+  -- One return number at a time per store, so two returns at once can't both take the next one
+  PERFORM pg_advisory_xact_lock(hashtext('order_returns:' || _order.store_id::TEXT));
+
+  SELECT 'RT-' || lpad((COALESCE(MAX(substring(return_number FROM 4)::INTEGER), 0) + 1)::TEXT, 5, '0')
+  INTO _return_number
+  FROM public.order_returns
+  WHERE store_id = _order.store_id
+    AND return_number ~ '^RT-[0-9]+$';
+
+  INSERT INTO public.order_returns (
+    store_id,
+    order_id,
+    return_number,
+    customer_id,
+    refund_method,
+    reason,
+    processed_by,
+    processed_by_member_id,
+    processed_by_name,
+    approved_by_member_id,
+    approved_by_name
+  ) VALUES (
+    _order.store_id,
+    _order.id,
+    _return_number,
+    _order.customer_id,
+    trim(_refund_method),
+    NULLIF(trim(COALESCE(_reason, '')), ''),
+    _user_id,
+    _actor.member_id,
+    _actor.member_name,
+    _approver_id,
+    _approver_name
+  ) RETURNING id, created_at INTO _return_id, _return_created_at;
+
+  FOR _line IN
+    SELECT
+      oi.id,
+      oi.product_id,
+      oi.variant_id,
+      oi.variant_name,
+      oi.quantity AS sold,
+      oi.returned_quantity,
+      oi.unit_price,
+      oi.total_price,
+      p.name AS product_name,
+      COALESCE(v.sku, p.sku) AS sku,
+      COALESCE(p.has_variants, false) AS has_variants,
+      req.quantity,
+      COALESCE(NULLIF(req.disposition, ''), 'restock') AS disposition,
+      NULLIF(trim(COALESCE(req.reason, '')), '') AS reason
+    FROM (
+      SELECT
+        (value->>'order_item_id')::UUID AS order_item_id,
+        SUM((value->>'quantity')::INTEGER) AS quantity,
+        MAX(value->>'disposition') AS disposition,
+        MAX(value->>'reason') AS reason
+      FROM jsonb_array_elements(_items)
+      GROUP BY (value->>'order_item_id')::UUID
+    ) req
+    LEFT JOIN public.order_items oi ON oi.id = req.order_item_id AND oi.order_id = _order.id
+    LEFT JOIN public.products p ON p.id = oi.product_id
+    LEFT JOIN public.product_variants v ON v.id = oi.variant_id
+    ORDER BY oi.id
+  LOOP
+    IF _line.id IS NULL THEN
+      RAISE EXCEPTION 'Item is not part of order %', _order.order_number;
+    END IF;
+
+    IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+      RAISE EXCEPTION 'Return quantity for % must be at least 1', _line.product_name;
+    END IF;
+
+    IF _line.quantity > _line.sold - _line.returned_quantity THEN
+      RAISE EXCEPTION '%: only % left to return', _line.product_name, _line.sold - _line.returned_quantity;
+    END IF;
+
+    IF _line.disposition NOT IN ('restock', 'write_off') THEN
+      RAISE EXCEPTION 'Unknown return disposition %', _line.disposition;
+    END IF;
+
+    -- A variant that has since been deleted has nowhere to put the stock back
+    IF _line.disposition = 'restock' AND _line.has_variants AND _line.variant_id IS NULL THEN
+      RAISE EXCEPTION '%: the variant sold no longer exists, write it off instead', _line.product_name;
+    END IF;
+
+    _line_refund := ROUND(_line.total_price / _line.sold * _line.quantity * _ratio, 2);
+    _credit := _credit + _line_refund;
+
+    UPDATE public.order_items
+    SET returned_quantity = returned_quantity + _line.quantity
+    WHERE id = _line.id;
+
+    INSERT INTO public.order_return_items (
+      return_id,
+      order_item_id,
+      product_id,
+      variant_id,
+      product_name,
+      variant_name,
+      sku,
+      quantity,
+      unit_price,
+      refund_amount,
+      disposition,
+      reason
+    ) VALUES (
+      _return_id,
+      _line.id,
+      _line.product_id,
+      _line.variant_id,
+      _line.product_name,
+      _line.variant_name,
+      _line.sku,
+      _line.quantity,
+      _line.unit_price,
+      _line_refund,
+      _line.disposition,
+      _line.reason
+    );
+
+    -- Written-off items come back and go straight out again so the history shows both
+    PERFORM public.apply_return_stock_change(
+      _order.store_id, _line.product_id, _line.variant_id, _line.quantity, 'return',
+      'Return ' || _return_number || ' - Order ' || _order.order_number, _return_id
+    );
+
+    IF _line.disposition = 'write_off' THEN
+      PERFORM public.apply_return_stock_change(
+        _order.store_id, _line.product_id, _line.variant_id, -_line.quantity, 'damage',
+        'Written off on return ' || _return_number || COALESCE(': ' || _line.reason, ''), _return_id
+      );
+    END IF;
+
+    _return_items := _return_items || jsonb_build_object(
+      'id', _line.id,
+      'name', _line.product_name,
+      'variant_name', _line.variant_name,
+      'sku', _line.sku,
+      'quantity', _line.quantity,
+      'unit_price', _line.unit_price,
+      'refund_amount', _line_refund,
+      'disposition', _line.disposition,
+      'reason', _line.reason
+    );
+  END LOOP;
+
+  SELECT bool_and(oi.returned_quantity = oi.quantity) INTO _fully_returned
+  FROM public.order_items oi
+  WHERE oi.order_id = _order.id;
+
+  -- Never refund more than was paid, and settle rounding on the last return
+  IF _fully_returned THEN
+    _credit := GREATEST(0, _order.total - _order.refunded_amount);
+  ELSE
+    _credit := LEAST(_credit, GREATEST(0, _order.total - _order.refunded_amount));
+  END IF;
+
+  -- Exchange items are a new sale at today's prices
+  IF _exchange_items IS NOT NULL AND jsonb_typeof(_exchange_items) = 'array' AND jsonb_array_length(_exchange_items) > 0 THEN
+    IF NULLIF(trim(COALESCE(_exchange_order_number, '')), '') IS NULL THEN
+      RAISE EXCEPTION 'An order number is needed for the exchange';
+    END IF;
+
+    INSERT INTO public.orders (
+      store_id,
+      customer_id,
+      cashier_id,
+      order_number,
+      subtotal,
+      total,
+      status,
+      payment_method
+    ) VALUES (
+      _order.store_id,
+      _order.customer_id,
+      _user_id,
+      _exchange_order_number,
+      0,
+      0,
+      'completed',
+      trim(_refund_method)
+    ) RETURNING id INTO _exchange_order_id;
+
+    FOR _line IN
+      SELECT
+        (value->>'product_id')::UUID AS product_id,
+        NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+        SUM((value->>'quantity')::INTEGER) AS quantity
+      FROM jsonb_array_elements(_exchange_items)
+      GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+      ORDER BY 1, 2
+    LOOP
+      SELECT p.id, p.name, p.sku, p.price, COALESCE(p.stock_quantity, 0) AS stock_quantity,
+             COALESCE(p.is_active, false) AS is_active, p.has_variants
+      INTO _product
+      FROM public.products p
+      WHERE p.id = _line.product_id
+        AND p.store_id = _order.store_id
+      FOR UPDATE;
+
+      IF NOT FOUND OR NOT _product.is_active THEN
+        RAISE EXCEPTION 'An exchange item is no longer available for sale';
+      END IF;
+
+      IF _line.quantity IS NULL OR _line.quantity <= 0 THEN
+        RAISE EXCEPTION 'Exchange quantity for % must be at least 1', _product.name;
+      END IF;
+
+      IF _product.has_variants THEN
+        SELECT v.id, v.name, v.sku, v.price, v.stock_quantity, v.is_active
+        INTO _variant
+        FROM public.product_variants v
+        WHERE v.id = _line.variant_id
+          AND v.product_id = _product.id
+        FOR UPDATE;
+
+        IF NOT FOUND OR NOT _variant.is_active THEN
+          RAISE EXCEPTION 'Choose an available variant of % for the exchange', _product.name;
+        END IF;
+
+        IF _variant.stock_quantity < _line.quantity THEN
+          RAISE EXCEPTION '%: only % in stock', _product.name || ' (' || _variant.name || ')', _variant.stock_quantity;
+        END IF;
+
+        _variant_id := _variant.id;
+        _variant_name := _variant.name;
+        _variant_sku := _variant.sku;
+        _price := _variant.price;
+      ELSE
+        IF _product.stock_quantity < _line.quantity THEN
+          RAISE EXCEPTION '%: only % in stock', _product.name, _product.stock_quantity;
+        END IF;
+
+        _variant_id := NULL;
+        _variant_name := NULL;
+        _variant_sku := NULL;
+        _price := _product.price;
+      END IF;
+
+      INSERT INTO public.order_items (
+        order_id,
+        product_id,
+        variant_id,
+        variant_name,
+        quantity,
+        unit_price,
+        total_price
+      ) VALUES (
+        _exchange_order_id,
+        _product.id,
+        _variant_id,
+        _variant_name,
+        _line.quantity,
+        _price,
+        _price * _line.quantity
+      );
+
+      PERFORM public.apply_return_stock_change(
+        _order.store_id, _product.id, _variant_id, -_line.quantity, 'sale',
+        'Exchange on return ' || _return_number || ' - Order ' || _exchange_order_number, _exchange_order_id
+      );
+
+      _exchange_total := _exchange_total + _price * _line.quantity;
+
+      _exchange_lines := _exchange_lines || jsonb_build_object(
+        'id', COALESCE(_variant_id, _product.id),
+        'name', _product.name,
+        'variant_name', _variant_name,
+        'sku', COALESCE(_variant_sku, _product.sku),
+        'quantity', _line.quantity,
+        'unit_price', _price,
+        'total_price', _price * _line.quantity
+      );
+    END LOOP;
+
+    UPDATE public.orders
+    SET subtotal = _exchange_total,
+        total = _exchange_total
+    WHERE id = _exchange_order_id;
+  END IF;
+
+  -- Only the difference between the return and the exchange changes hands
+  _net := _exchange_total - _credit;
+
+  IF _order.customer_id IS NOT NULL THEN
+    SELECT c.name INTO _customer_name
+    FROM public.customers c
+    WHERE c.id = _order.customer_id;
+  END IF;
+
+  IF _net <> 0 THEN
+    SELECT generate_transaction_number(_order.store_id) INTO _transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      notes,
+      processed_by
+    ) VALUES (
+      _order.store_id,
+      _transaction_number,
+      CASE WHEN _net < 0 THEN 'refund' ELSE 'sale' END,
+      _net,
+      trim(_refund_method),
+      CASE WHEN _net < 0 THEN _order.id ELSE _exchange_order_id END,
+      'order',
+      _order.customer_id,
+      _customer_name,
+      CASE
+        WHEN _exchange_order_id IS NULL THEN 'Return ' || _return_number || ' - Order ' || _order.order_number
+        ELSE 'Exchange ' || _return_number || ' - Order ' || _order.order_number || ' for ' || _exchange_order_number
+      END,
+      NULLIF(trim(COALESCE(_reason, '')), ''),
+      _user_id
+    ) RETURNING id INTO _transaction_id;
+  END IF;
+
+  UPDATE public.order_returns
+  SET refund_amount = _credit,
+      exchange_order_id = _exchange_order_id,
+      exchange_total = _exchange_total,
+      amount_refunded = GREATEST(0, -_net),
+      amount_collected = GREATEST(0, _net),
+      transaction_id = _transaction_id
+  WHERE id = _return_id;
+
+  UPDATE public.orders
+  SET refunded_amount = refunded_amount + _credit,
+      status = CASE WHEN _fully_returned THEN 'refunded' ELSE status END
+  WHERE id = _order.id;
+
+  IF _order.customer_id IS NOT NULL THEN
+    UPDATE public.customers
+    SET total_spent = GREATEST(0, COALESCE(total_spent, 0) - _credit + _exchange_total),
+        total_orders = GREATEST(0, COALESCE(total_orders, 0)
+          - CASE WHEN _fully_returned THEN 1 ELSE 0 END
+          + CASE WHEN _exchange_order_id IS NOT NULL THEN 1 ELSE 0 END),
+        updated_at = now()
+    WHERE id = _order.customer_id;
+
+    IF _credit > 0 THEN
+      PERFORM public.reverse_order_loyalty(_order.id, _credit);
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'return', jsonb_build_object(
+      'id', _return_id,
+      'return_number', _return_number,
+      'created_at', _return_created_at,
+      'order_id', _order.id,
+      'order_number', _order.order_number,
+      'customer_name', _customer_name,
+      'refund_method', trim(_refund_method),
+      'refund_amount', _credit,
+      'exchange_order_id', _exchange_order_id,
+      'exchange_order_number', CASE WHEN _exchange_order_id IS NULL THEN NULL ELSE _exchange_order_number END,
+      'exchange_total', _exchange_total,
+      'amount_refunded', GREATEST(0, -_net),
+      'amount_collected', GREATEST(0, _net),
+      'transaction_number', _transaction_number,
+      'reason', NULLIF(trim(COALESCE(_reason, '')), ''),
+      'processed_by_name', _actor.member_name,
+      'approved_by_name', _approver_name,
+      'order_status', CASE WHEN _fully_returned THEN 'refunded' ELSE 'completed' END,
+      'items', _return_items,
+      'exchange_items', _exchange_lines
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.process_order_return(UUID, JSONB, TEXT, TEXT, JSONB, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.process_order_return(UUID, JSONB, TEXT, TEXT, JSONB, TEXT, TEXT, TEXT) TO authenticated;
@@ -0,0 +1,952 @@
+-- Migration: Manager PIN Overrides
+-- Description: Cashiers can ask a manager or owner to approve a discount above the store's
+-- threshold, a line void or a price override by keying in their PIN at the till. Each approval
+-- covers a single action, is recorded in audit_logs with both the approver and the cashier who
+-- asked for it, and checkout only honours overridden prices and large manual discounts that
+-- carry an approval. Returns approved with a PIN are written to audit_logs the same way. On a
+-- shared till the cashier is taken from the till's PIN session rather than the signed-in account.
+-- Date: 2025-08-01
+
+-- Manual discounts up to this share of the subtotal (in percent) don't need a manager
+ALTER TABLE public.store_settings
+ADD COLUMN IF NOT EXISTS discount_approval_threshold DECIMAL(5,2) NOT NULL DEFAULT 0;
+
+-- One row per approval. Discounts and price overrides are used up by the checkout that
+-- honours them; line voids are used up as soon as they're approved.
+CREATE TABLE IF NOT EXISTS public.manager_overrides (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  action TEXT NOT NULL CHECK (action IN ('discount', 'line_void', 'price_override')),
+  details JSONB NOT NULL DEFAULT '{}'::jsonb,
+  requested_by UUID REFERENCES auth.users(id),
+  requested_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  requested_by_name TEXT,
+  approved_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  approved_by_name TEXT,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  used_at TIMESTAMP WITH TIME ZONE,
+  expires_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT (now() + interval '1 hour'),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_manager_overrides_store ON public.manager_overrides(store_id, created_at DESC);
+
+ALTER TABLE public.manager_overrides ENABLE ROW LEVEL SECURITY;
+
+-- Approvals are only written by authorize_manager_override and checkout
+CREATE POLICY "Store access for manager_overrides" ON public.manager_overrides
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- The role of whoever is working the till: the PIN user when the till is shared, otherwise
+-- the signed-in account. While a PIN user is signed in on one of the account's tills, a call
+-- without their session gets no role, so leaving the session out can't borrow the account's.
+CREATE OR REPLACE FUNCTION public.resolve_store_role(_store_id UUID, _member_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _role TEXT;
+BEGIN
+  IF _member_id IS NOT NULL THEN
+    SELECT sm.role::TEXT INTO _role
+    FROM public.store_members sm
+    WHERE sm.id = _member_id
+      AND sm.store_id = _store_id
+      AND COALESCE(sm.is_active, true);
+    RETURN _role;
+  END IF;
+
+  IF public.has_open_pin_session(_store_id) THEN
+    RETURN NULL;
+  END IF;
+
+  IF EXISTS (SELECT 1 FROM public.stores s WHERE s.id = _store_id AND s.owner_id = auth.uid()) THEN
+    RETURN 'owner';
+  END IF;
+
+  SELECT sm.role::TEXT INTO _role
+  FROM public.store_members sm
+  WHERE sm.store_id = _store_id
+    AND sm.user_id = auth.uid()
+    AND COALESCE(sm.is_active, true)
+  LIMIT 1;
+
+  RETURN _role;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.resolve_store_role(UUID, UUID) FROM PUBLIC;
+
+-- _action: 'discount' | 'line_void' | 'price_override'
+-- _pin: the approving manager's or owner's PIN. Managers and owners working the till
+-- themselves approve their own actions and can leave it out. Wrong PINs count towards the
+-- lock in verify_manager_pin.
+-- _details: what is being approved; price overrides carry product_id, variant_id and price,
+-- discounts carry amount
+-- _pin_session: the PIN session token of the PIN user asking for the approval, when the till
+-- is shared
+CREATE OR REPLACE FUNCTION public.authorize_manager_override(
+  _store_id UUID,
+  _action TEXT,
+  _pin TEXT DEFAULT NULL,
+  _details JSONB DEFAULT '{}'::jsonb,
+  _pin_session TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _user_email TEXT;
+  _member_id UUID;
+  _requester RECORD;
+  _requester_role TEXT;
+  _approval JSONB;
+  _approver_id UUID;
+  _approver_name TEXT;
+  _description TEXT;
+  _override_id UUID;
+  _override_created_at TIMESTAMPTZ;
+BEGIN
+  IF _user_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  IF _action IS NULL OR _action NOT IN ('discount', 'line_void', 'price_override') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Unknown override action');
+  END IF;
+
+  _details := COALESCE(_details, '{}'::jsonb);
+
+  _member_id := public.resolve_till_member(_store_id, _pin_session);
+  SELECT * INTO _requester FROM public.resolve_drawer_member(_store_id, _member_id);
+  _requester_role := public.resolve_store_role(_store_id, _member_id);
+  SELECT u.email INTO _user_email FROM auth.users u WHERE u.id = _user_id;
+
+  IF NULLIF(trim(COALESCE(_pin, '')), '') IS NULL THEN
+    IF COALESCE(_requester_role, 'cashier') NOT IN ('owner', 'manager') THEN
+      RETURN jsonb_build_object(
+        'success', false,
+        'code', 'approval_required',
+        'error', 'A manager or owner PIN is required'
+      );
+    END IF;
+
+    _approver_id := _requester.member_id;
+    _approver_name := _requester.member_name;
+  ELSE
+    _approval := public.verify_manager_pin(
+      _store_id,
+      _pin,
+      _action,
+      jsonb_build_object(
+        'requested_by_member_id', _requester.member_id,
+        'requested_by_name', _requester.member_name,
+        'details', _details
+      )
+    );
+
+    IF _approval ? 'error' THEN
+      RETURN jsonb_build_object('success', false, 'code', _approval->>'code', 'error', _approval->>'error');
+    END IF;
+
+    _approver_id := (_approval->>'approver_id')::UUID;
+    _approver_name := _approval->>'approver_name';
+  END IF;
+
+  INSERT INTO public.manager_overrides (
+    store_id,
+    action,
+    details,
+    requested_by,
+    requested_by_member_id,
+    requested_by_name,
+    approved_by_member_id,
+    approved_by_name,
+    used_at
+  ) VALUES (
+    _store_id,
+    _action,
+    _details,
+    _user_id,
+    _requester.member_id,
+    _requester.member_name,
+    _approver_id,
+    _approver_name,
+    CASE WHEN _action = 'line_void' THEN now() END
+  ) RETURNING id, created_at INTO _override_id, _override_created_at;
+
+  _description := COALESCE(_approver_name, 'Manager') || ' approved ' || replace(_action, '_', ' ')
+    || ' for ' || COALESCE(_requester.member_name, 'Staff')
+    || COALESCE(': ' || NULLIF(_details->>'description', ''), '');
+
+  INSERT INTO public.audit_logs (
+    store_id, user_id, user_email, action_type, action, description, resource_type, resource_id, metadata
+  ) VALUES (
+    _store_id,
+    _user_id,
+    _user_email,
+    'manager_override',
+    _action,
+    _description,
+    'manager_override',
+    _override_id::TEXT,
+    jsonb_build_object(
+      'requested_by_member_id', _requester.member_id,
+      'requested_by_name', _requester.member_name,
+      'approved_by_member_id', _approver_id,
+      'approved_by_name', _approver_name,
+      'details', _details
+    )
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'override', jsonb_build_object(
+      'id', _override_id,
+      'action', _action,
+      'approved_by_member_id', _approver_id,
+      'approved_by_name', _approver_name,
+      'created_at', _override_created_at
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.authorize_manager_override(UUID, TEXT, TEXT, JSONB, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.authorize_manager_override(UUID, TEXT, TEXT, JSONB, TEXT) TO authenticated;
+
+-- Lock an unused, unexpired approval for this store and action so two tills can't spend it
+-- twice. Returns its details, or NULL when there is no such approval.
+CREATE OR REPLACE FUNCTION public.claim_manager_override(_override_id UUID, _store_id UUID, _action TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _details JSONB;
+BEGIN
+  IF _override_id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT mo.details INTO _details
+  FROM public.manager_overrides mo
+  WHERE mo.id = _override_id
+    AND mo.store_id = _store_id
+    AND mo.action = _action
+    AND mo.used_at IS NULL
+    AND mo.expires_at > now()
+  FOR UPDATE;
+
+  RETURN _details;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_manager_override(UUID, UUID, TEXT) FROM PUBLIC;
+
+-- Returns are approved inside process_order_return; record the ones a manager signed off once
+-- process_order_return has filled in the amounts
+CREATE OR REPLACE FUNCTION public.audit_approved_order_return()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order_number TEXT;
+BEGIN
+  SELECT o.order_number INTO _order_number FROM public.orders o WHERE o.id = NEW.order_id;
+
+  INSERT INTO public.audit_logs (
+    store_id, user_id, user_email, action_type, action, description, resource_type, resource_id, metadata
+  ) VALUES (
+    NEW.store_id,
+    COALESCE(NEW.processed_by, auth.uid()),
+    (SELECT u.email FROM auth.users u WHERE u.id = COALESCE(NEW.processed_by, auth.uid())),
+    'manager_override',
+    'refund',
+    COALESCE(NEW.approved_by_name, 'Manager') || ' approved refund ' || NEW.return_number
+      || ' on order ' || COALESCE(_order_number, '') || ' for ' || COALESCE(NEW.processed_by_name, 'Staff'),
+    'order_return',
+    NEW.id::TEXT,
+    jsonb_build_object(
+      'requested_by_member_id', NEW.processed_by_member_id,
+      'requested_by_name', NEW.processed_by_name,
+      'approved_by_member_id', NEW.approved_by_member_id,
+      'approved_by_name', NEW.approved_by_name,
+      'details', jsonb_build_object(
+        'order_id', NEW.order_id,
+        'refund_amount', NEW.refund_amount,
+        'amount_refunded', NEW.amount_refunded
+      )
+    )
+  );
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS audit_approved_order_return ON public.order_returns;
+CREATE TRIGGER audit_approved_order_return
+AFTER UPDATE OF refund_amount ON public.order_returns
+FOR EACH ROW
+WHEN (NEW.approved_by_member_id IS NOT NULL AND OLD.approved_by_member_id IS NOT NULL)
+EXECUTE FUNCTION public.audit_approved_order_return();
+
+-- Checkout honours approved price overrides and refuses manual discounts above the store's
+-- threshold without an approval. Lines carry an optional approval_id for their price;
+-- _discount_approval_id covers the manual discount. _pin_session is the PIN session token of the
+-- PIN user ringing up the sale when the till is shared.
+DROP FUNCTION IF EXISTS public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER);
+
+CREATE OR REPLACE FUNCTION public.checkout(
+  _store_id UUID,
+  _order_number TEXT,
+  _items JSONB,
+  _payment_method TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  _discount_code TEXT DEFAULT NULL,
+  _tax_amount DECIMAL(10,2) DEFAULT 0,
+  _sold_at TIMESTAMPTZ DEFAULT NULL,
+  _client_reference UUID DEFAULT NULL,
+  _discounts JSONB DEFAULT '[]'::jsonb,
+  _loyalty_points INTEGER DEFAULT 0,
+  _discount_approval_id UUID DEFAULT NULL,
+  _pin_session TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _line RECORD;
+  _product RECORD;
+  _variant RECORD;
+  _label TEXT;
+  _customer_name TEXT;
+  _customer_points INTEGER := 0;
+  _customer_spent DECIMAL(10,2) := 0;
+  _errors JSONB := '[]'::jsonb;
+  _receipt_items JSONB := '[]'::jsonb;
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _order_id UUID;
+  _order_created_at TIMESTAMPTZ;
+  _transaction_number TEXT;
+  _existing RECORD;
+  _discount_line RECORD;
+  _discount RECORD;
+  _evaluation JSONB;
+  _discount_share DECIMAL(10,2);
+  _promotion_amount DECIMAL(10,2) := 0;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _order_discount_code TEXT := NULLIF(_discount_code, '');
+  _settings RECORD;
+  _tier RECORD;
+  _loyalty_enabled BOOLEAN := false;
+  _loyalty_discount DECIMAL(10,2) := 0;
+  _points_earned INTEGER := 0;
+  _points_balance INTEGER;
+  _approval JSONB;
+  _line_price DECIMAL(10,2);
+  _price_approvals UUID[] := '{}';
+  _discount_settings RECORD;
+BEGIN
+  IF _cashier_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- This sale was recorded by an earlier attempt whose response never reached the till
+  SELECT o.id, o.order_number, o.created_at, o.subtotal, o.discount_amount, o.discount_code,
+         o.tax_amount, o.total, o.payment_method, o.loyalty_points_redeemed, o.loyalty_discount_amount
+  INTO _existing
+  FROM public.orders o
+  WHERE o.store_id = _store_id
+    AND o.client_reference = _client_reference;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'duplicate', true,
+      'order', jsonb_build_object(
+        'id', _existing.id,
+        'order_number', _existing.order_number,
+        'created_at', _existing.created_at,
+        'transaction_number', NULL,
+        'subtotal', _existing.subtotal,
+        'discount_amount', COALESCE(_existing.discount_amount, 0),
+        'discount_code', _existing.discount_code,
+        'tax_amount', COALESCE(_existing.tax_amount, 0),
+        'total', _existing.total,
+        'payment_method', _existing.payment_method,
+        'discounts', '[]'::jsonb,
+        'loyalty_points_redeemed', _existing.loyalty_points_redeemed,
+        'loyalty_discount_amount', _existing.loyalty_discount_amount,
+        'loyalty_points_earned', (
+          SELECT COALESCE(SUM(lt.points), 0)
+          FROM public.loyalty_transactions lt
+          WHERE lt.order_id = _existing.id
+            AND lt.transaction_type = 'earn'
+        ),
+        'items', '[]'::jsonb
+      )
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Cart is empty'
+      ))
+    );
+  END IF;
+
+  -- Lock every product in the cart in a stable order so concurrent tills
+  -- selling the same products serialize instead of deadlocking
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.store_id = _store_id
+    AND v.id IN (SELECT NULLIF(value->>'variant_id', '')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- Validate each cart line against the locked rows. A variant line is checked against
+  -- the variant's own stock and price.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price,
+      MAX(NULLIF(value->>'approval_id', ''))::UUID AS approval_id
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.price, p.stock_quantity, p.is_active, p.has_variants
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF FOUND AND _line.variant_id IS NOT NULL THEN
+      SELECT v.id, v.name, v.sku, v.price, v.stock_quantity, v.is_active
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = _line.variant_id
+        AND v.product_id = _product.id;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'product_id', _product.id,
+          'variant_id', _line.variant_id,
+          'product_name', _product.name,
+          'code', 'not_found',
+          'requested', _line.quantity,
+          'message', _product.name || ': this variant no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _label := _product.name || ' (' || _variant.name || ')';
+      -- From here on the line is checked exactly like a product without variants
+      _product.sku := COALESCE(_variant.sku, _product.sku);
+      _product.price := _variant.price;
+      _product.stock_quantity := _variant.stock_quantity;
+      _product.is_active := _product.is_active AND _variant.is_active;
+    ELSIF FOUND AND _product.has_variants THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'variant_required',
+        'requested', _line.quantity,
+        'message', 'Choose a variant of ' || _product.name
+      );
+      CONTINUE;
+    ELSE
+      _label := _product.name;
+    END IF;
+
+    -- A manager-approved price for exactly this line replaces the current price
+    _approval := public.claim_manager_override(_line.approval_id, _store_id, 'price_override');
+    _line_price := CASE
+      WHEN _approval IS NOT NULL
+        AND _approval->>'product_id' = _line.product_id::TEXT
+        AND COALESCE(_approval->>'variant_id', '') = COALESCE(_line.variant_id::TEXT, '')
+        AND (_approval->>'price')::DECIMAL(10,2) = _line.unit_price THEN _line.unit_price
+      ELSE _product.price
+    END;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+    ELSIF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _label || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _label || ' must be at least 1'
+      );
+    ELSIF _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _label || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSIF _line.unit_price IS NOT NULL AND _line.unit_price <> _line_price THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'price_changed',
+        'requested', _line.quantity,
+        'expected_price', _line.unit_price,
+        'current_price', _product.price,
+        'message', _label || ': price changed from ' || _line.unit_price || ' to ' || _product.price
+      );
+    ELSE
+      IF _line_price <> _product.price THEN
+        _price_approvals := _price_approvals || _line.approval_id;
+      END IF;
+
+      _subtotal := _subtotal + _line_price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name, c.loyalty_points, COALESCE(c.total_spent, 0)
+    INTO _customer_name, _customer_points, _customer_spent
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'customer_not_found',
+        'message', 'Selected customer does not belong to this store'
+      );
+    END IF;
+  END IF;
+
+  IF COALESCE(_discount_amount, 0) < 0 OR COALESCE(_tax_amount, 0) < 0 THEN
+    _errors := _errors || jsonb_build_object(
+      'code', 'amount_invalid',
+      'message', 'Discount and tax can''t be negative'
+    );
+  END IF;
+
+  -- Re-evaluate the cart's discounts against the locked rows rather than trusting the
+  -- client's amounts
+  IF _discounts IS NOT NULL AND jsonb_typeof(_discounts) = 'array' THEN
+    FOR _discount_line IN
+      SELECT
+        (value->>'discount_id')::UUID AS discount_id,
+        (value->>'amount')::DECIMAL(10,2) AS amount
+      FROM jsonb_array_elements(_discounts)
+    LOOP
+      SELECT d.id, d.name, d.code
+      INTO _discount
+      FROM public.discounts d
+      WHERE d.id = _discount_line.discount_id
+        AND d.store_id = _store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount_line.discount_id,
+          'code', 'discount_invalid',
+          'message', 'Discount no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _evaluation := public.evaluate_discount(_discount.id, _items, _customer_id);
+
+      IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount.id,
+          'code', 'discount_invalid',
+          'message', _discount.name || ': ' || (_evaluation->>'message')
+        );
+        CONTINUE;
+      END IF;
+
+      _discount_share := (_evaluation->>'amount')::DECIMAL(10,2);
+
+      -- Combined discounts never take more than the cart is worth
+      _discount_share := LEAST(_discount_share, GREATEST(0, _subtotal - _promotion_amount));
+      _promotion_amount := _promotion_amount + _discount_share;
+
+      _applied_discounts := _applied_discounts || jsonb_build_object(
+        'discount_id', _discount.id,
+        'name', _discount.name,
+        'code', _discount.code,
+        'amount', _discount_share
+      );
+
+      IF _discount.code IS NOT NULL THEN
+        _order_discount_code := _discount.code;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Manual discounts above the store's threshold need a manager's approval unless a manager
+  -- or owner is ringing up the sale
+  IF COALESCE(_discount_amount, 0) > 0 AND _subtotal > 0 THEN
+    SELECT COALESCE(s.require_pin_for_discounts, false) AS required,
+           COALESCE(s.discount_approval_threshold, 0) AS threshold
+    INTO _discount_settings
+    FROM public.store_settings s
+    WHERE s.store_id = _store_id;
+
+    IF FOUND
+      AND _discount_settings.required
+      AND _discount_amount * 100 / _subtotal > _discount_settings.threshold
+      AND COALESCE(
+        public.resolve_store_role(_store_id, public.resolve_till_member(_store_id, _pin_session)),
+        'cashier'
+      ) NOT IN ('owner', 'manager') THEN
+      _approval := public.claim_manager_override(_discount_approval_id, _store_id, 'discount');
+
+      IF _approval IS NULL OR COALESCE((_approval->>'amount')::DECIMAL(10,2), 0) < _discount_amount THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'approval_required',
+          'message', 'A manager must approve a discount of ' || _discount_amount
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  SELECT s.customer_loyalty_enabled, s.loyalty_points_per_unit, s.loyalty_point_value, s.loyalty_min_redeem_points
+  INTO _settings
+  FROM public.store_settings s
+  WHERE s.store_id = _store_id;
+
+  _loyalty_enabled := FOUND AND COALESCE(_settings.customer_loyalty_enabled, false);
+
+  -- Redeemed points are tender: they pay for the order after discounts and tax
+  IF COALESCE(_loyalty_points, 0) > 0 THEN
+    IF NOT _loyalty_enabled THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Loyalty points are not enabled for this store'
+      );
+    ELSIF _customer_id IS NULL THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Select a customer to redeem loyalty points'
+      );
+    ELSIF _customer_points < _loyalty_points THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'available', _customer_points,
+        'message', _customer_name || ' only has ' || _customer_points || ' points'
+      );
+    ELSIF _loyalty_points < COALESCE(_settings.loyalty_min_redeem_points, 0) THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'message', 'At least ' || _settings.loyalty_min_redeem_points || ' points must be redeemed at a time'
+      );
+    ELSE
+      _loyalty_discount := LEAST(
+        ROUND(_loyalty_points * COALESCE(_settings.loyalty_point_value, 0), 2),
+        GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount + COALESCE(_tax_amount, 0))
+      );
+    END IF;
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  _total := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount - _loyalty_discount + COALESCE(_tax_amount, 0));
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method,
+    loyalty_points_redeemed,
+    loyalty_discount_amount,
+    client_reference,
+    offline_sold_at
+  ) VALUES (
+    _store_id,
+    _customer_id,
+    _cashier_id,
+    _order_number,
+    _subtotal,
+    COALESCE(_discount_amount, 0) + _promotion_amount,
+    _order_discount_code,
+    COALESCE(_tax_amount, 0),
+    _total,
+    'completed',
+    _payment_method,
+    COALESCE(_loyalty_points, 0),
+    _loyalty_discount,
+    _client_reference,
+    _sold_at
+  ) RETURNING id, created_at INTO _order_id, _order_created_at;
+
+  -- Approvals cover a single sale
+  UPDATE public.manager_overrides
+  SET used_at = now(),
+      order_id = _order_id
+  WHERE store_id = _store_id
+    AND used_at IS NULL
+    AND (id = _discount_approval_id OR id = ANY(_price_approvals));
+
+  -- Write items, decrement stock and record the adjustment for each line. Variant lines
+  -- take stock from the variant; the product's total follows through its trigger.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price,
+      MAX(NULLIF(value->>'approval_id', ''))::UUID AS approval_id
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT p.id, p.name, COALESCE(v.sku, p.sku) AS sku, v.stock_quantity, v.id AS variant_id, v.name AS variant_name,
+        CASE WHEN _line.approval_id = ANY(_price_approvals) THEN COALESCE(_line.unit_price, v.price) ELSE v.price END AS price
+      INTO _product
+      FROM public.product_variants v
+      JOIN public.products p ON p.id = v.product_id
+      WHERE v.id = _line.variant_id;
+
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _line.variant_id;
+    ELSE
+      SELECT p.id, p.name, p.sku, p.stock_quantity, NULL::UUID AS variant_id, NULL::TEXT AS variant_name,
+        CASE WHEN _line.approval_id = ANY(_price_approvals) THEN COALESCE(_line.unit_price, p.price) ELSE p.price END AS price
+      INTO _product
+      FROM public.products p
+      WHERE p.id = _line.product_id;
+
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _product.id;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _product.variant_id,
+      _product.variant_name,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store_id,
+      _product.id,
+      _product.variant_id,
+      _cashier_id,
+      'sale',
+      -_line.quantity,
+      _product.stock_quantity,
+      _product.stock_quantity - _line.quantity,
+      'Sale - Order ' || _order_number,
+      _order_id
+    );
+
+    _receipt_items := _receipt_items || jsonb_build_object(
+      'id', _product.id,
+      'variant_id', _product.variant_id,
+      'name', _product.name,
+      'variant_name', _product.variant_name,
+      'sku', _product.sku,
+      'quantity', _line.quantity,
+      'unit_price', _product.price,
+      'total_price', _product.price * _line.quantity
+    );
+  END LOOP;
+
+  -- Record each redemption and count it against the discount's usage limit
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    INSERT INTO public.discount_usage (
+      discount_id,
+      order_id,
+      customer_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _customer_id,
+      _discount_line.amount
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  SELECT generate_transaction_number(_store_id) INTO _transaction_number;
+
+  INSERT INTO public.transactions (
+    store_id,
+    transaction_number,
+    transaction_type,
+    amount,
+    payment_method,
+    reference_id,
+    reference_type,
+    customer_id,
+    customer_name,
+    description,
+    processed_by
+  ) VALUES (
+    _store_id,
+    _transaction_number,
+    'sale',
+    _total,
+    _payment_method,
+    _order_id,
+    'order',
+    _customer_id,
+    _customer_name,
+    'Sale - Order ' || _order_number,
+    _cashier_id
+  );
+
+  IF _customer_id IS NOT NULL THEN
+    _points_balance := _customer_points;
+
+    IF COALESCE(_loyalty_points, 0) > 0 THEN
+      _points_balance := _points_balance - _loyalty_points;
+
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+      ) VALUES (
+        _store_id, _customer_id, _order_id, 'redeem', -_loyalty_points, _points_balance,
+        'Redeemed - Order ' || _order_number, _cashier_id
+      );
+    END IF;
+
+    -- Earn on what was paid, at the multiplier of the tier reached before this sale
+    IF _loyalty_enabled THEN
+      SELECT * INTO _tier FROM public.get_loyalty_tier(_store_id, _customer_spent);
+
+      _points_earned := FLOOR(
+        _total * COALESCE(_settings.loyalty_points_per_unit, 0) * COALESCE(_tier.points_multiplier, 1)
+      )::INTEGER;
+
+      IF _points_earned > 0 THEN
+        _points_balance := _points_balance + _points_earned;
+
+        INSERT INTO public.loyalty_transactions (
+          store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+        ) VALUES (
+          _store_id, _customer_id, _order_id, 'earn', _points_earned, _points_balance,
+          'Earned - Order ' || _order_number, _cashier_id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _total,
+        loyalty_points = _points_balance,
+        updated_at = now()
+    WHERE id = _customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', jsonb_build_object(
+      'id', _order_id,
+      'order_number', _order_number,
+      'created_at', _order_created_at,
+      'transaction_number', _transaction_number,
+      'subtotal', _subtotal,
+      'discount_amount', COALESCE(_discount_amount, 0) + _promotion_amount,
+      'discount_code', _order_discount_code,
+      'discounts', _applied_discounts,
+      'loyalty_points_redeemed', COALESCE(_loyalty_points, 0),
+      'loyalty_discount_amount', _loyalty_discount,
+      'loyalty_points_earned', _points_earned,
+      'loyalty_points_balance', _points_balance,
+      'tax_amount', COALESCE(_tax_amount, 0),
+      'total', _total,
+      'payment_method', _payment_method,
+      'items', _receipt_items
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER, UUID, TEXT) TO authenticated;
@@ -0,0 +1,2206 @@
+-- Migration: Gift Cards and Store Credit
+-- Description: Stored-value tender. Gift cards are sold (or given away by a manager) with a
+-- unique code and spent at the till or on the showcase; store credit is a customer's own account,
+-- credited from returns or by a manager and spent only by that customer. Both can expire after a
+-- number of months set per store, and every change to a balance is kept in a ledger that the
+-- liability report reads.
+-- Date: 2025-08-01
+
+-- Months before value expires; NULL keeps it forever. Store credit counts from its last top-up.
+ALTER TABLE public.store_settings
+ADD COLUMN IF NOT EXISTS gift_card_expiry_months INTEGER CHECK (gift_card_expiry_months > 0),
+ADD COLUMN IF NOT EXISTS store_credit_expiry_months INTEGER CHECK (store_credit_expiry_months > 0);
+
+-- Codes are stored without separators; the apps print them in groups of four
+CREATE TABLE IF NOT EXISTS public.gift_cards (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  code TEXT NOT NULL,
+  kind TEXT NOT NULL CHECK (kind IN ('gift_card', 'store_credit')),
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  initial_value DECIMAL(10,2) NOT NULL DEFAULT 0,
+  balance DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (balance >= 0),
+  status TEXT NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'expired')),
+  expires_at TIMESTAMP WITH TIME ZONE,
+  notes TEXT,
+  issued_by UUID REFERENCES auth.users(id),
+  issued_by_member_id UUID REFERENCES public.store_members(id) ON DELETE SET NULL,
+  issued_by_name TEXT,
+  last_used_at TIMESTAMP WITH TIME ZONE,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (store_id, code)
+);
+
+-- A customer has a single store credit account per store
+CREATE UNIQUE INDEX IF NOT EXISTS idx_gift_cards_store_credit_customer
+  ON public.gift_cards(store_id, customer_id)
+  WHERE kind = 'store_credit' AND customer_id IS NOT NULL;
+CREATE INDEX IF NOT EXISTS idx_gift_cards_store ON public.gift_cards(store_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gift_cards_expiry ON public.gift_cards(expires_at) WHERE status = 'active';
+
+-- Every change to a balance. amount is signed: issues and refunds add, redemptions and
+-- expiries take away.
+CREATE TABLE IF NOT EXISTS public.gift_card_transactions (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  gift_card_id UUID NOT NULL REFERENCES public.gift_cards(id) ON DELETE CASCADE,
+  transaction_type TEXT NOT NULL CHECK (transaction_type IN ('issue', 'redeem', 'refund', 'expire')),
+  amount DECIMAL(10,2) NOT NULL,
+  balance_after DECIMAL(10,2) NOT NULL,
+  order_id UUID REFERENCES public.orders(id) ON DELETE SET NULL,
+  public_order_id UUID REFERENCES public.public_orders(id) ON DELETE SET NULL,
+  order_return_id UUID REFERENCES public.order_returns(id) ON DELETE SET NULL,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  description TEXT,
+  created_by UUID REFERENCES auth.users(id),
+  created_by_name TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_card ON public.gift_card_transactions(gift_card_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_gift_card_transactions_store ON public.gift_card_transactions(store_id, created_at DESC);
+
+ALTER TABLE public.gift_cards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.gift_card_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Balances only change through the functions below
+CREATE POLICY "Store access for gift_cards" ON public.gift_cards
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for gift_card_transactions" ON public.gift_card_transactions
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- What a showcase order took off a gift card, given back if the order is cancelled
+ALTER TABLE public.public_orders
+ADD COLUMN IF NOT EXISTS gift_card_id UUID REFERENCES public.gift_cards(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS gift_card_amount DECIMAL(10,2) NOT NULL DEFAULT 0;
+
+CREATE OR REPLACE FUNCTION public.normalize_gift_card_code(_code TEXT)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT regexp_replace(upper(COALESCE(_code, '')), '[^A-Z0-9]', '', 'g');
+$$;
+
+-- 16 characters without 0, O, 1 or I so a code can be read out over the phone
+CREATE OR REPLACE FUNCTION public.generate_gift_card_code(_store_id UUID)
+RETURNS TEXT
+LANGUAGE plpgsql
+AS $$
+DECLARE
+  _alphabet CONSTANT TEXT := '23456789ABCDEFGHJKLMNPQRSTUVWXYZ';
+  _bytes BYTEA;
+  _code TEXT;
+BEGIN
+  LOOP
+    _bytes := gen_random_bytes(16);
+    _code := '';
+    FOR i IN 0..15 LOOP
+      _code := _code || substr(_alphabet, (get_byte(_bytes, i) % 32) + 1, 1);
+    END LOOP;
+
+    EXIT WHEN NOT EXISTS (
+      SELECT 1 FROM public.gift_cards gc WHERE gc.store_id = _store_id AND gc.code = _code
+    );
+  END LOOP;
+
+  RETURN _code;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.generate_gift_card_code(UUID) FROM PUBLIC;
+
+-- Add value to stored value. Each gift card is a new card; store credit tops up the customer's
+-- account and restarts its expiry, after writing off anything that had already expired.
+-- Returns the card.
+CREATE OR REPLACE FUNCTION public.credit_stored_value(
+  _store_id UUID,
+  _kind TEXT,
+  _amount DECIMAL,
+  _customer_id UUID,
+  _description TEXT,
+  _member_id UUID DEFAULT NULL,
+  _order_return_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _actor RECORD;
+  _months INTEGER;
+  _expires_at TIMESTAMPTZ;
+  _card RECORD;
+  _card_id UUID;
+  _balance DECIMAL(10,2);
+BEGIN
+  SELECT * INTO _actor FROM public.resolve_drawer_member(_store_id, _member_id);
+
+  SELECT CASE WHEN _kind = 'store_credit' THEN s.store_credit_expiry_months ELSE s.gift_card_expiry_months END
+  INTO _months
+  FROM public.store_settings s
+  WHERE s.store_id = _store_id;
+
+  IF _months IS NOT NULL THEN
+    _expires_at := now() + make_interval(months => _months);
+  END IF;
+
+  IF _kind = 'store_credit' THEN
+    SELECT gc.id, gc.balance, gc.expires_at INTO _card
+    FROM public.gift_cards gc
+    WHERE gc.store_id = _store_id
+      AND gc.kind = 'store_credit'
+      AND gc.customer_id = _customer_id
+    FOR UPDATE;
+
+    IF FOUND THEN
+      _card_id := _card.id;
+
+      IF _card.expires_at <= now() AND _card.balance > 0 THEN
+        INSERT INTO public.gift_card_transactions (
+          store_id, gift_card_id, transaction_type, amount, balance_after, description
+        ) VALUES (
+          _store_id, _card_id, 'expire', -_card.balance, 0, 'Store credit expired'
+        );
+        _card.balance := 0;
+      END IF;
+
+      UPDATE public.gift_cards
+      SET balance = _card.balance + _amount,
+          status = 'active',
+          expires_at = _expires_at,
+          updated_at = now()
+      WHERE id = _card_id
+      RETURNING balance INTO _balance;
+    END IF;
+  END IF;
+
+  IF _card_id IS NULL THEN
+    INSERT INTO public.gift_cards (
+      store_id,
+      code,
+      kind,
+      customer_id,
+      initial_value,
+      balance,
+      expires_at,
+      notes,
+      issued_by,
+      issued_by_member_id,
+      issued_by_name
+    ) VALUES (
+      _store_id,
+      public.generate_gift_card_code(_store_id),
+      _kind,
+      _customer_id,
+      _amount,
+      _amount,
+      _expires_at,
+      NULLIF(trim(COALESCE(_notes, '')), ''),
+      _user_id,
+      _actor.member_id,
+      _actor.member_name
+    ) RETURNING id, balance INTO _card_id, _balance;
+  END IF;
+
+  INSERT INTO public.gift_card_transactions (
+    store_id,
+    gift_card_id,
+    transaction_type,
+    amount,
+    balance_after,
+    order_return_id,
+    description,
+    created_by,
+    created_by_name
+  ) VALUES (
+    _store_id,
+    _card_id,
+    'issue',
+    _amount,
+    _balance,
+    _order_return_id,
+    _description,
+    _user_id,
+    _actor.member_name
+  );
+
+  RETURN _card_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.credit_stored_value(UUID, TEXT, DECIMAL, UUID, TEXT, UUID, UUID, TEXT) FROM PUBLIC;
+
+-- Sell a gift card. _payment_method is how the customer paid for it and is recorded as a
+-- 'gift_card_sale' transaction; leaving it out gives the card away, which only managers and
+-- owners can do. _pin_session is the PIN session of the PIN user working the till, if any.
+CREATE OR REPLACE FUNCTION public.issue_gift_card(
+  _store_id UUID,
+  _amount DECIMAL,
+  _payment_method TEXT DEFAULT NULL,
+  _customer_id UUID DEFAULT NULL,
+  _notes TEXT DEFAULT NULL,
+  _pin_session TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _member_id UUID;
+  _payment TEXT := NULLIF(trim(COALESCE(_payment_method, '')), '');
+  _customer_name TEXT;
+  _card_id UUID;
+  _card RECORD;
+  _transaction_id UUID;
+  _transaction_number TEXT;
+BEGIN
+  IF _user_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  _member_id := public.resolve_till_member(_store_id, _pin_session);
+
+  IF _amount IS NULL OR round(_amount, 2) <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter the value of the gift card');
+  END IF;
+
+  _amount := round(_amount, 2);
+
+  IF _payment IS NULL
+     AND COALESCE(public.resolve_store_role(_store_id, _member_id), 'cashier') NOT IN ('owner', 'manager') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only a manager or owner can give a gift card away');
+  END IF;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name INTO _customer_name
+    FROM public.customers c
+    WHERE c.id = _customer_id AND c.store_id = _store_id;
+
+    IF NOT FOUND THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Selected customer does not belong to this store');
+    END IF;
+  END IF;
+
+  _card_id := public.credit_stored_value(
+    _store_id,
+    'gift_card',
+    _amount,
+    _customer_id,
+    CASE WHEN _payment IS NULL THEN 'Gift card given away' ELSE 'Gift card sold' END,
+    _member_id,
+    NULL,
+    _notes
+  );
+
+  SELECT * INTO _card FROM public.gift_cards gc WHERE gc.id = _card_id;
+
+  IF _payment IS NOT NULL THEN
+    SELECT generate_transaction_number(_store_id) INTO _transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _store_id,
+      _transaction_number,
+      'gift_card_sale',
+      _amount,
+      _payment,
+      _card_id,
+      'gift_card',
+      _customer_id,
+      _customer_name,
+      'Gift card sale - card ending ' || right(_card.code, 4),
+      _user_id
+    ) RETURNING id INTO _transaction_id;
+
+    UPDATE public.gift_card_transactions
+    SET transaction_id = _transaction_id
+    WHERE gift_card_id = _card_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'gift_card', to_jsonb(_card) || jsonb_build_object(
+      'customer_name', _customer_name,
+      'payment_method', _payment,
+      'transaction_number', _transaction_number
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_gift_card(UUID, DECIMAL, TEXT, UUID, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.issue_gift_card(UUID, DECIMAL, TEXT, UUID, TEXT, TEXT) TO authenticated;
+
+-- Credit a customer's store credit by hand, e.g. as a goodwill gesture. Returns refunded to
+-- store credit are credited when the return is processed.
+CREATE OR REPLACE FUNCTION public.issue_store_credit(
+  _store_id UUID,
+  _customer_id UUID,
+  _amount DECIMAL,
+  _reason TEXT,
+  _pin_session TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _member_id UUID;
+  _card_id UUID;
+BEGIN
+  IF _user_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  _member_id := public.resolve_till_member(_store_id, _pin_session);
+
+  IF COALESCE(public.resolve_store_role(_store_id, _member_id), 'cashier') NOT IN ('owner', 'manager') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only a manager or owner can add store credit');
+  END IF;
+
+  IF _amount IS NULL OR round(_amount, 2) <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Enter the amount of credit to add');
+  END IF;
+
+  IF NULLIF(trim(COALESCE(_reason, '')), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Give a reason for the credit');
+  END IF;
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.customers c WHERE c.id = _customer_id AND c.store_id = _store_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Selected customer does not belong to this store');
+  END IF;
+
+  _card_id := public.credit_stored_value(
+    _store_id,
+    'store_credit',
+    round(_amount, 2),
+    _customer_id,
+    trim(_reason),
+    _member_id
+  );
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'gift_card', (SELECT to_jsonb(gc) FROM public.gift_cards gc WHERE gc.id = _card_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.issue_store_credit(UUID, UUID, DECIMAL, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.issue_store_credit(UUID, UUID, DECIMAL, TEXT, TEXT) TO authenticated;
+
+-- Returns refunded to store credit are credited to the customer once process_order_return has
+-- filled in the amounts. Raising here rolls the whole return back.
+CREATE OR REPLACE FUNCTION public.credit_order_return_to_store_credit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF NEW.amount_collected > 0 THEN
+    RAISE EXCEPTION 'Store credit can''t pay the difference on an exchange; choose how the customer pays';
+  END IF;
+
+  IF NEW.amount_refunded > 0 THEN
+    IF NEW.customer_id IS NULL THEN
+      RAISE EXCEPTION 'Store credit needs a customer on the order';
+    END IF;
+
+    PERFORM public.credit_stored_value(
+      NEW.store_id,
+      'store_credit',
+      NEW.amount_refunded,
+      NEW.customer_id,
+      'Refund ' || NEW.return_number,
+      NEW.processed_by_member_id,
+      NEW.id
+    );
+
+    UPDATE public.gift_card_transactions
+    SET transaction_id = NEW.transaction_id
+    WHERE order_return_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS credit_order_return_to_store_credit ON public.order_returns;
+CREATE TRIGGER credit_order_return_to_store_credit
+AFTER UPDATE OF refund_amount ON public.order_returns
+FOR EACH ROW
+WHEN (NEW.refund_method = 'store_credit')
+EXECUTE FUNCTION public.credit_order_return_to_store_credit();
+
+-- A cancelled showcase order gives back what it took off its gift card
+CREATE OR REPLACE FUNCTION public.refund_public_order_gift_card()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _balance DECIMAL(10,2);
+BEGIN
+  UPDATE public.gift_cards
+  SET balance = balance + NEW.gift_card_amount,
+      updated_at = now()
+  WHERE id = NEW.gift_card_id
+  RETURNING balance INTO _balance;
+
+  IF FOUND THEN
+    INSERT INTO public.gift_card_transactions (
+      store_id, gift_card_id, transaction_type, amount, balance_after, public_order_id, description
+    ) VALUES (
+      NEW.store_id,
+      NEW.gift_card_id,
+      'refund',
+      NEW.gift_card_amount,
+      _balance,
+      NEW.id,
+      'Showcase order ' || NEW.order_code || ' cancelled'
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_refund_public_order_gift_card ON public.public_orders;
+CREATE TRIGGER trigger_refund_public_order_gift_card
+AFTER UPDATE OF status ON public.public_orders
+FOR EACH ROW
+WHEN (NEW.status = 'cancelled' AND OLD.status IS DISTINCT FROM 'cancelled'
+      AND NEW.gift_card_id IS NOT NULL AND NEW.gift_card_amount > 0)
+EXECUTE FUNCTION public.refund_public_order_gift_card();
+
+-- Write off the balance of cards past their expiry date
+CREATE OR REPLACE FUNCTION public.expire_gift_cards(_as_of TIMESTAMPTZ DEFAULT now())
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _card RECORD;
+  _expired INTEGER := 0;
+BEGIN
+  FOR _card IN
+    SELECT gc.id, gc.store_id, gc.kind, gc.balance
+    FROM public.gift_cards gc
+    WHERE gc.status = 'active'
+      AND gc.expires_at <= _as_of
+    FOR UPDATE SKIP LOCKED
+  LOOP
+    UPDATE public.gift_cards
+    SET status = 'expired',
+        balance = 0,
+        updated_at = now()
+    WHERE id = _card.id;
+
+    IF _card.balance > 0 THEN
+      INSERT INTO public.gift_card_transactions (
+        store_id, gift_card_id, transaction_type, amount, balance_after, description
+      ) VALUES (
+        _card.store_id,
+        _card.id,
+        'expire',
+        -_card.balance,
+        0,
+        CASE WHEN _card.kind = 'store_credit' THEN 'Store credit expired' ELSE 'Gift card expired' END
+      );
+    END IF;
+
+    _expired := _expired + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object('success', true, 'expired_count', _expired);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.expire_gift_cards(TIMESTAMPTZ) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.expire_gift_cards(TIMESTAMPTZ) TO service_role;
+
+-- Run every night where pg_cron is available; elsewhere call expire_gift_cards() from any
+-- scheduler with the service role key
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'expire-gift-cards';
+    PERFORM cron.schedule('expire-gift-cards', '45 0 * * *', 'SELECT public.expire_gift_cards()');
+  END IF;
+END;
+$$;
+
+-- Balance check for the showcase checkout. Store credit belongs to a customer account, so only
+-- gift cards can be spent online.
+CREATE OR REPLACE FUNCTION public.check_showcase_gift_card(store_identifier TEXT, gift_card_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store_id UUID;
+  _card RECORD;
+BEGIN
+  SELECT s.id INTO _store_id
+  FROM public.stores s
+  WHERE (s.id::text = store_identifier
+         OR s.store_code = store_identifier
+         OR s.showcase_slug = store_identifier)
+    AND s.enable_public_showcase = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found or showcase not enabled';
+  END IF;
+
+  SELECT gc.code, gc.balance, gc.expires_at INTO _card
+  FROM public.gift_cards gc
+  WHERE gc.store_id = _store_id
+    AND gc.code = public.normalize_gift_card_code(gift_card_code)
+    AND gc.kind = 'gift_card'
+    AND gc.status = 'active'
+    AND (gc.expires_at IS NULL OR gc.expires_at > now());
+
+  IF NOT FOUND OR _card.balance <= 0 THEN
+    RETURN jsonb_build_object('valid', false, 'error', 'This gift card is not valid or has no balance left');
+  END IF;
+
+  RETURN jsonb_build_object(
+    'valid', true,
+    'code', _card.code,
+    'balance', _card.balance,
+    'expires_at', _card.expires_at
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.check_showcase_gift_card(TEXT, TEXT) TO anon, authenticated;
+
+-- Checkout takes gift cards and store credit as tender: _gift_cards is [{ code, amount }] and
+-- each card is charged and recorded as its own transaction.
+DROP FUNCTION IF EXISTS public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER, UUID, TEXT);
+
+CREATE OR REPLACE FUNCTION public.checkout(
+  _store_id UUID,
+  _order_number TEXT,
+  _items JSONB,
+  _payment_method TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  _discount_code TEXT DEFAULT NULL,
+  _tax_amount DECIMAL(10,2) DEFAULT 0,
+  _sold_at TIMESTAMPTZ DEFAULT NULL,
+  _client_reference UUID DEFAULT NULL,
+  _discounts JSONB DEFAULT '[]'::jsonb,
+  _loyalty_points INTEGER DEFAULT 0,
+  _discount_approval_id UUID DEFAULT NULL,
+  _pin_session TEXT DEFAULT NULL,
+  _gift_cards JSONB DEFAULT '[]'::jsonb
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _line RECORD;
+  _product RECORD;
+  _variant RECORD;
+  _label TEXT;
+  _customer_name TEXT;
+  _customer_points INTEGER := 0;
+  _customer_spent DECIMAL(10,2) := 0;
+  _errors JSONB := '[]'::jsonb;
+  _receipt_items JSONB := '[]'::jsonb;
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _order_id UUID;
+  _order_created_at TIMESTAMPTZ;
+  _transaction_number TEXT;
+  _existing RECORD;
+  _discount_line RECORD;
+  _discount RECORD;
+  _evaluation JSONB;
+  _discount_share DECIMAL(10,2);
+  _promotion_amount DECIMAL(10,2) := 0;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _order_discount_code TEXT := NULLIF(_discount_code, '');
+  _settings RECORD;
+  _tier RECORD;
+  _loyalty_enabled BOOLEAN := false;
+  _loyalty_discount DECIMAL(10,2) := 0;
+  _points_earned INTEGER := 0;
+  _points_balance INTEGER;
+  _approval JSONB;
+  _line_price DECIMAL(10,2);
+  _price_approvals UUID[] := '{}';
+  _discount_settings RECORD;
+  _tender RECORD;
+  _card RECORD;
+  _amount_due DECIMAL(10,2);
+  _gift_card_total DECIMAL(10,2) := 0;
+  _gift_card_payments JSONB := '[]'::jsonb;
+  _card_balance DECIMAL(10,2);
+  _card_transaction_id UUID;
+  _card_transaction_number TEXT;
+BEGIN
+  IF _cashier_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- This sale was recorded by an earlier attempt whose response never reached the till
+  SELECT o.id, o.order_number, o.created_at, o.subtotal, o.discount_amount, o.discount_code,
+         o.tax_amount, o.total, o.payment_method, o.loyalty_points_redeemed, o.loyalty_discount_amount
+  INTO _existing
+  FROM public.orders o
+  WHERE o.store_id = _store_id
+    AND o.client_reference = _client_reference;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'duplicate', true,
+      'order', jsonb_build_object(
+        'id', _existing.id,
+        'order_number', _existing.order_number,
+        'created_at', _existing.created_at,
+        'transaction_number', NULL,
+        'subtotal', _existing.subtotal,
+        'discount_amount', COALESCE(_existing.discount_amount, 0),
+        'discount_code', _existing.discount_code,
+        'tax_amount', COALESCE(_existing.tax_amount, 0),
+        'total', _existing.total,
+        'payment_method', _existing.payment_method,
+        'discounts', '[]'::jsonb,
+        'loyalty_points_redeemed', _existing.loyalty_points_redeemed,
+        'loyalty_discount_amount', _existing.loyalty_discount_amount,
+        'loyalty_points_earned', (
+          SELECT COALESCE(SUM(lt.points), 0)
+          FROM public.loyalty_transactions lt
+          WHERE lt.order_id = _existing.id
+            AND lt.transaction_type = 'earn'
+        ),
+        'items', '[]'::jsonb
+      )
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Cart is empty'
+      ))
+    );
+  END IF;
+
+  -- Lock every product in the cart in a stable order so concurrent tills
+  -- selling the same products serialize instead of deadlocking
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.store_id = _store_id
+    AND v.id IN (SELECT NULLIF(value->>'variant_id', '')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- Validate each cart line against the locked rows. A variant line is checked against
+  -- the variant's own stock and price.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price,
+      MAX(NULLIF(value->>'approval_id', ''))::UUID AS approval_id
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.price, p.stock_quantity, p.is_active, p.has_variants
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF FOUND AND _line.variant_id IS NOT NULL THEN
+      SELECT v.id, v.name, v.sku, v.price, v.stock_quantity, v.is_active
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = _line.variant_id
+        AND v.product_id = _product.id;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'product_id', _product.id,
+          'variant_id', _line.variant_id,
+          'product_name', _product.name,
+          'code', 'not_found',
+          'requested', _line.quantity,
+          'message', _product.name || ': this variant no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _label := _product.name || ' (' || _variant.name || ')';
+      -- From here on the line is checked exactly like a product without variants
+      _product.sku := COALESCE(_variant.sku, _product.sku);
+      _product.price := _variant.price;
+      _product.stock_quantity := _variant.stock_quantity;
+      _product.is_active := _product.is_active AND _variant.is_active;
+    ELSIF FOUND AND _product.has_variants THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'variant_required',
+        'requested', _line.quantity,
+        'message', 'Choose a variant of ' || _product.name
+      );
+      CONTINUE;
+    ELSE
+      _label := _product.name;
+    END IF;
+
+    -- A manager-approved price for exactly this line replaces the current price
+    _approval := public.claim_manager_override(_line.approval_id, _store_id, 'price_override');
+    _line_price := CASE
+      WHEN _approval IS NOT NULL
+        AND _approval->>'product_id' = _line.product_id::TEXT
+        AND COALESCE(_approval->>'variant_id', '') = COALESCE(_line.variant_id::TEXT, '')
+        AND (_approval->>'price')::DECIMAL(10,2) = _line.unit_price THEN _line.unit_price
+      ELSE _product.price
+    END;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+    ELSIF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _label || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _label || ' must be at least 1'
+      );
+    ELSIF _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _label || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSIF _line.unit_price IS NOT NULL AND _line.unit_price <> _line_price THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'price_changed',
+        'requested', _line.quantity,
+        'expected_price', _line.unit_price,
+        'current_price', _product.price,
+        'message', _label || ': price changed from ' || _line.unit_price || ' to ' || _product.price
+      );
+    ELSE
+      IF _line_price <> _product.price THEN
+        _price_approvals := _price_approvals || _line.approval_id;
+      END IF;
+
+      _subtotal := _subtotal + _line_price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name, c.loyalty_points, COALESCE(c.total_spent, 0)
+    INTO _customer_name, _customer_points, _customer_spent
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'customer_not_found',
+        'message', 'Selected customer does not belong to this store'
+      );
+    END IF;
+  END IF;
+
+  IF COALESCE(_discount_amount, 0) < 0 OR COALESCE(_tax_amount, 0) < 0 THEN
+    _errors := _errors || jsonb_build_object(
+      'code', 'amount_invalid',
+      'message', 'Discount and tax can''t be negative'
+    );
+  END IF;
+
+  -- Re-evaluate the cart's discounts against the locked rows rather than trusting the
+  -- client's amounts
+  IF _discounts IS NOT NULL AND jsonb_typeof(_discounts) = 'array' THEN
+    FOR _discount_line IN
+      SELECT
+        (value->>'discount_id')::UUID AS discount_id,
+        (value->>'amount')::DECIMAL(10,2) AS amount
+      FROM jsonb_array_elements(_discounts)
+    LOOP
+      SELECT d.id, d.name, d.code
+      INTO _discount
+      FROM public.discounts d
+      WHERE d.id = _discount_line.discount_id
+        AND d.store_id = _store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount_line.discount_id,
+          'code', 'discount_invalid',
+          'message', 'Discount no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _evaluation := public.evaluate_discount(_discount.id, _items, _customer_id);
+
+      IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount.id,
+          'code', 'discount_invalid',
+          'message', _discount.name || ': ' || (_evaluation->>'message')
+        );
+        CONTINUE;
+      END IF;
+
+      _discount_share := (_evaluation->>'amount')::DECIMAL(10,2);
+
+      -- Combined discounts never take more than the cart is worth
+      _discount_share := LEAST(_discount_share, GREATEST(0, _subtotal - _promotion_amount));
+      _promotion_amount := _promotion_amount + _discount_share;
+
+      _applied_discounts := _applied_discounts || jsonb_build_object(
+        'discount_id', _discount.id,
+        'name', _discount.name,
+        'code', _discount.code,
+        'amount', _discount_share
+      );
+
+      IF _discount.code IS NOT NULL THEN
+        _order_discount_code := _discount.code;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Manual discounts above the store's threshold need a manager's approval unless a manager
+  -- or owner is ringing up the sale
+  IF COALESCE(_discount_amount, 0) > 0 AND _subtotal > 0 THEN
+    SELECT COALESCE(s.require_pin_for_discounts, false) AS required,
+           COALESCE(s.discount_approval_threshold, 0) AS threshold
+    INTO _discount_settings
+    FROM public.store_settings s
+    WHERE s.store_id = _store_id;
+
+    IF FOUND
+      AND _discount_settings.required
+      AND _discount_amount * 100 / _subtotal > _discount_settings.threshold
+      AND COALESCE(
+        public.resolve_store_role(_store_id, public.resolve_till_member(_store_id, _pin_session)),
+        'cashier'
+      ) NOT IN ('owner', 'manager') THEN
+      _approval := public.claim_manager_override(_discount_approval_id, _store_id, 'discount');
+
+      IF _approval IS NULL OR COALESCE((_approval->>'amount')::DECIMAL(10,2), 0) < _discount_amount THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'approval_required',
+          'message', 'A manager must approve a discount of ' || _discount_amount
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  SELECT s.customer_loyalty_enabled, s.loyalty_points_per_unit, s.loyalty_point_value, s.loyalty_min_redeem_points
+  INTO _settings
+  FROM public.store_settings s
+  WHERE s.store_id = _store_id;
+
+  _loyalty_enabled := FOUND AND COALESCE(_settings.customer_loyalty_enabled, false);
+
+  -- Redeemed points are tender: they pay for the order after discounts and tax
+  IF COALESCE(_loyalty_points, 0) > 0 THEN
+    IF NOT _loyalty_enabled THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Loyalty points are not enabled for this store'
+      );
+    ELSIF _customer_id IS NULL THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Select a customer to redeem loyalty points'
+      );
+    ELSIF _customer_points < _loyalty_points THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'available', _customer_points,
+        'message', _customer_name || ' only has ' || _customer_points || ' points'
+      );
+    ELSIF _loyalty_points < COALESCE(_settings.loyalty_min_redeem_points, 0) THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'message', 'At least ' || _settings.loyalty_min_redeem_points || ' points must be redeemed at a time'
+      );
+    ELSE
+      _loyalty_discount := LEAST(
+        ROUND(_loyalty_points * COALESCE(_settings.loyalty_point_value, 0), 2),
+        GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount + COALESCE(_tax_amount, 0))
+      );
+    END IF;
+  END IF;
+
+  -- Gift cards and store credit pay what's left after loyalty points. Store credit can only be
+  -- spent by the customer it belongs to.
+  IF jsonb_typeof(_gift_cards) = 'array' AND jsonb_array_length(_gift_cards) > 0 THEN
+    _amount_due := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount - _loyalty_discount + COALESCE(_tax_amount, 0));
+
+    FOR _tender IN
+      SELECT public.normalize_gift_card_code(value->>'code') AS code,
+             SUM(COALESCE((value->>'amount')::DECIMAL(10,2), 0)) AS amount
+      FROM jsonb_array_elements(_gift_cards)
+      GROUP BY 1
+      ORDER BY 1
+    LOOP
+      SELECT gc.id, gc.code, gc.kind, gc.customer_id, gc.balance, gc.status, gc.expires_at
+      INTO _card
+      FROM public.gift_cards gc
+      WHERE gc.store_id = _store_id
+        AND gc.code = _tender.code
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Gift card ending ' || right(_tender.code, 4) || ' was not found'
+        );
+      ELSIF _card.status <> 'active' OR _card.expires_at <= now() THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', CASE WHEN _card.kind = 'store_credit' THEN 'This store credit' ELSE 'Gift card ending ' || right(_tender.code, 4) END
+            || ' has expired'
+        );
+      ELSIF _card.kind = 'store_credit' AND _card.customer_id IS DISTINCT FROM _customer_id THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Store credit can only be used by the customer it belongs to'
+        );
+      ELSIF _tender.amount <= 0 THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Enter an amount to take from gift card ending ' || right(_tender.code, 4)
+        );
+      ELSIF _tender.amount > _card.balance THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'requested', _tender.amount,
+          'available', _card.balance,
+          'message', CASE WHEN _card.kind = 'store_credit' THEN 'Store credit' ELSE 'Gift card ending ' || right(_tender.code, 4) END
+            || ' only has ' || _card.balance || ' left'
+        );
+      ELSIF _gift_card_total + _tender.amount > _amount_due THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Gift cards cover more than the ' || _amount_due || ' due'
+        );
+      ELSE
+        _gift_card_total := _gift_card_total + _tender.amount;
+        _gift_card_payments := _gift_card_payments || jsonb_build_object(
+          'gift_card_id', _card.id,
+          'code', _card.code,
+          'kind', _card.kind,
+          'amount', _tender.amount,
+          'balance', _card.balance - _tender.amount
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  _total := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount - _loyalty_discount + COALESCE(_tax_amount, 0));
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method,
+    loyalty_points_redeemed,
+    loyalty_discount_amount,
+    client_reference,
+    offline_sold_at
+  ) VALUES (
+    _store_id,
+    _customer_id,
+    _cashier_id,
+    _order_number,
+    _subtotal,
+    COALESCE(_discount_amount, 0) + _promotion_amount,
+    _order_discount_code,
+    COALESCE(_tax_amount, 0),
+    _total,
+    'completed',
+    _payment_method,
+    COALESCE(_loyalty_points, 0),
+    _loyalty_discount,
+    _client_reference,
+    _sold_at
+  ) RETURNING id, created_at INTO _order_id, _order_created_at;
+
+  -- Approvals cover a single sale
+  UPDATE public.manager_overrides
+  SET used_at = now(),
+      order_id = _order_id
+  WHERE store_id = _store_id
+    AND used_at IS NULL
+    AND (id = _discount_approval_id OR id = ANY(_price_approvals));
+
+  -- Write items, decrement stock and record the adjustment for each line. Variant lines
+  -- take stock from the variant; the product's total follows through its trigger.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price,
+      MAX(NULLIF(value->>'approval_id', ''))::UUID AS approval_id
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT p.id, p.name, COALESCE(v.sku, p.sku) AS sku, v.stock_quantity, v.id AS variant_id, v.name AS variant_name,
+        CASE WHEN _line.approval_id = ANY(_price_approvals) THEN COALESCE(_line.unit_price, v.price) ELSE v.price END AS price
+      INTO _product
+      FROM public.product_variants v
+      JOIN public.products p ON p.id = v.product_id
+      WHERE v.id = _line.variant_id;
+
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _line.variant_id;
+    ELSE
+      SELECT p.id, p.name, p.sku, p.stock_quantity, NULL::UUID AS variant_id, NULL::TEXT AS variant_name,
+        CASE WHEN _line.approval_id = ANY(_price_approvals) THEN COALESCE(_line.unit_price, p.price) ELSE p.price END AS price
+      INTO _product
+      FROM public.products p
+      WHERE p.id = _line.product_id;
+
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _product.id;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _product.variant_id,
+      _product.variant_name,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store_id,
+      _product.id,
+      _product.variant_id,
+      _cashier_id,
+      'sale',
+      -_line.quantity,
+      _product.stock_quantity,
+      _product.stock_quantity - _line.quantity,
+      'Sale - Order ' || _order_number,
+      _order_id
+    );
+
+    _receipt_items := _receipt_items || jsonb_build_object(
+      'id', _product.id,
+      'variant_id', _product.variant_id,
+      'name', _product.name,
+      'variant_name', _product.variant_name,
+      'sku', _product.sku,
+      'quantity', _line.quantity,
+      'unit_price', _product.price,
+      'total_price', _product.price * _line.quantity
+    );
+  END LOOP;
+
+  -- Record each redemption and count it against the discount's usage limit
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    INSERT INTO public.discount_usage (
+      discount_id,
+      order_id,
+      customer_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _customer_id,
+      _discount_line.amount
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  -- _payment_method pays whatever the gift cards don't cover
+  IF _total > _gift_card_total OR _gift_card_total = 0 THEN
+    SELECT generate_transaction_number(_store_id) INTO _transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _store_id,
+      _transaction_number,
+      'sale',
+      _total - _gift_card_total,
+      _payment_method,
+      _order_id,
+      'order',
+      _customer_id,
+      _customer_name,
+      'Sale - Order ' || _order_number,
+      _cashier_id
+    );
+  END IF;
+
+  -- Each card is its own tender, recorded against the order with the card's kind as the method
+  FOR _tender IN
+    SELECT (value->>'gift_card_id')::UUID AS gift_card_id,
+           value->>'code' AS code,
+           value->>'kind' AS kind,
+           (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_gift_card_payments)
+  LOOP
+    UPDATE public.gift_cards
+    SET balance = balance - _tender.amount,
+        last_used_at = now(),
+        updated_at = now()
+    WHERE id = _tender.gift_card_id
+    RETURNING balance INTO _card_balance;
+
+    SELECT generate_transaction_number(_store_id) INTO _card_transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _store_id,
+      _card_transaction_number,
+      'sale',
+      _tender.amount,
+      _tender.kind,
+      _order_id,
+      'order',
+      _customer_id,
+      _customer_name,
+      'Sale - Order ' || _order_number || CASE
+        WHEN _tender.kind = 'store_credit' THEN ' (store credit)'
+        ELSE ' (gift card ending ' || right(_tender.code, 4) || ')'
+      END,
+      _cashier_id
+    ) RETURNING id INTO _card_transaction_id;
+
+    INSERT INTO public.gift_card_transactions (
+      store_id, gift_card_id, transaction_type, amount, balance_after, order_id, transaction_id, description, created_by
+    ) VALUES (
+      _store_id, _tender.gift_card_id, 'redeem', -_tender.amount, _card_balance, _order_id, _card_transaction_id,
+      'Order ' || _order_number, _cashier_id
+    );
+
+    _transaction_number := COALESCE(_transaction_number, _card_transaction_number);
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    _points_balance := _customer_points;
+
+    IF COALESCE(_loyalty_points, 0) > 0 THEN
+      _points_balance := _points_balance - _loyalty_points;
+
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+      ) VALUES (
+        _store_id, _customer_id, _order_id, 'redeem', -_loyalty_points, _points_balance,
+        'Redeemed - Order ' || _order_number, _cashier_id
+      );
+    END IF;
+
+    -- Earn on what was paid, at the multiplier of the tier reached before this sale
+    IF _loyalty_enabled THEN
+      SELECT * INTO _tier FROM public.get_loyalty_tier(_store_id, _customer_spent);
+
+      _points_earned := FLOOR(
+        _total * COALESCE(_settings.loyalty_points_per_unit, 0) * COALESCE(_tier.points_multiplier, 1)
+      )::INTEGER;
+
+      IF _points_earned > 0 THEN
+        _points_balance := _points_balance + _points_earned;
+
+        INSERT INTO public.loyalty_transactions (
+          store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+        ) VALUES (
+          _store_id, _customer_id, _order_id, 'earn', _points_earned, _points_balance,
+          'Earned - Order ' || _order_number, _cashier_id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _total,
+        loyalty_points = _points_balance,
+        updated_at = now()
+    WHERE id = _customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', jsonb_build_object(
+      'id', _order_id,
+      'order_number', _order_number,
+      'created_at', _order_created_at,
+      'transaction_number', _transaction_number,
+      'subtotal', _subtotal,
+      'discount_amount', COALESCE(_discount_amount, 0) + _promotion_amount,
+      'discount_code', _order_discount_code,
+      'discounts', _applied_discounts,
+      'loyalty_points_redeemed', COALESCE(_loyalty_points, 0),
+      'loyalty_discount_amount', _loyalty_discount,
+      'loyalty_points_earned', _points_earned,
+      'loyalty_points_balance', _points_balance,
+      'tax_amount', COALESCE(_tax_amount, 0),
+      'total', _total,
+      'payment_method', _payment_method,
+      'gift_cards', _gift_card_payments,
+      'gift_card_amount', _gift_card_total,
+      'items', _receipt_items
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER, UUID, TEXT, JSONB) TO authenticated;
+
+-- Showcase orders can be paid, in part or in full, with a gift card. The card is charged when
+-- the order is placed and refunded if it is cancelled; online payments only collect the rest.
+DROP FUNCTION IF EXISTS public.create_public_order(TEXT, JSONB, JSONB[], TEXT);
+
+CREATE OR REPLACE FUNCTION public.create_public_order(
+  store_identifier TEXT,
+  customer_data JSONB,
+  order_items JSONB[],
+  discount_code_param TEXT DEFAULT NULL,
+  gift_card_code_param TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store RECORD;
+  _order_id UUID;
+  _order_code TEXT;
+  _item JSONB;
+  _product RECORD;
+  _variant RECORD;
+  _quantity INTEGER;
+  _label TEXT;
+  _available INTEGER;
+  _item_total DECIMAL(10,2);
+  _subtotal DECIMAL(10,2) := 0;
+  _lines JSONB := '[]'::jsonb;
+  _promotion RECORD;
+  _evaluation JSONB;
+  _best_promotion JSONB;
+  _code_discount RECORD;
+  _applied_code TEXT;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _discount_line RECORD;
+  _discount_share DECIMAL(10,2);
+  _discount_amount DECIMAL(10,2) := 0;
+  _tax_amount DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _reserved_until TIMESTAMP WITH TIME ZONE;
+  _card RECORD;
+  _card_balance DECIMAL(10,2);
+  _gift_card_amount DECIMAL(10,2) := 0;
+BEGIN
+  SELECT s.* INTO _store
+  FROM public.stores s
+  WHERE (s.id::text = store_identifier
+         OR s.store_code = store_identifier
+         OR s.showcase_slug = store_identifier)
+    AND s.enable_public_showcase = true;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Store not found or showcase not enabled';
+  END IF;
+
+  _order_code := generate_order_code(_store.id);
+  _reserved_until := now() + make_interval(hours => COALESCE(_store.public_order_hold_hours, 48));
+
+  INSERT INTO public.public_orders (
+    store_id,
+    order_code,
+    customer_name,
+    customer_phone,
+    subtotal,
+    tax_amount,
+    total,
+    status,
+    inventory_reserved,
+    reserved_until
+  ) VALUES (
+    _store.id,
+    _order_code,
+    customer_data->>'name',
+    customer_data->>'phone',
+    0, -- Will be updated below
+    0, -- Will be updated below
+    0, -- Will be updated below
+    'pending',
+    true,
+    _reserved_until
+  ) RETURNING id INTO _order_id;
+
+  FOREACH _item IN ARRAY order_items LOOP
+    SELECT p.* INTO _product
+    FROM public.products p
+    WHERE p.id = (_item->>'product_id')::UUID
+      AND p.store_id = _store.id
+      AND p.is_public = true
+      AND p.is_active = true
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Product not found or not available: %', _item->>'product_id';
+    END IF;
+
+    _quantity := (_item->>'quantity')::INTEGER;
+    _variant := NULL;
+
+    IF _quantity IS NULL OR _quantity <= 0 THEN
+      RAISE EXCEPTION 'Quantity for % must be at least 1', _product.name;
+    END IF;
+
+    IF NULLIF(_item->>'variant_id', '') IS NOT NULL THEN
+      SELECT v.id, v.name, v.price, v.options, v.stock_quantity
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = (_item->>'variant_id')::UUID
+        AND v.product_id = _product.id
+        AND v.is_active
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        RAISE EXCEPTION 'The selected option of % is no longer available', _product.name;
+      END IF;
+    ELSIF _product.has_variants THEN
+      RAISE EXCEPTION 'Choose the options for %', _product.name;
+    END IF;
+
+    _label := _product.name || COALESCE(' (' || _variant.name || ')', '');
+    _available := COALESCE(_variant.stock_quantity, _product.stock_quantity, 0);
+
+    IF _available < _quantity THEN
+      RAISE EXCEPTION '%: only % available', _label, GREATEST(_available, 0);
+    END IF;
+
+    _item_total := COALESCE(_variant.price, _product.price) * _quantity;
+
+    INSERT INTO public.public_order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      product_name,
+      product_image_url,
+      quantity,
+      unit_price,
+      total_price,
+      selected_variants
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _variant.id,
+      _variant.name,
+      _product.name,
+      _product.image_url,
+      _quantity,
+      _item_total / _quantity,
+      _item_total,
+      COALESCE(_variant.options, '{}'::jsonb)
+    );
+
+    -- Hold the stock. Variant lines hold the variant's stock; the product's total follows
+    -- through its trigger.
+    IF _variant.id IS NOT NULL THEN
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - _quantity,
+          updated_at = now()
+      WHERE id = _variant.id;
+    ELSE
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - _quantity,
+          updated_at = now()
+      WHERE id = _product.id;
+    END IF;
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store.id,
+      _product.id,
+      _variant.id,
+      _store.owner_id,
+      'order_reserve',
+      -_quantity,
+      _available,
+      _available - _quantity,
+      'Reserved for showcase order ' || _order_code,
+      _order_id
+    );
+
+    _subtotal := _subtotal + _item_total;
+    _lines := _lines || jsonb_build_object(
+      'product_id', _product.id,
+      'quantity', _quantity,
+      'unit_price', _item_total / _quantity
+    );
+  END LOOP;
+
+  -- Best automatic promotion open to anonymous shoppers
+  FOR _promotion IN
+    SELECT d.id, d.name
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND d.code IS NULL
+      AND d.is_active
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+  LOOP
+    _evaluation := public.evaluate_discount(_promotion.id, _lines, NULL);
+
+    IF (_evaluation->>'eligible')::BOOLEAN
+       AND (_best_promotion IS NULL OR (_evaluation->>'amount')::DECIMAL > (_best_promotion->>'amount')::DECIMAL) THEN
+      _best_promotion := jsonb_build_object(
+        'discount_id', _promotion.id,
+        'name', _promotion.name,
+        'code', NULL,
+        'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+      );
+    END IF;
+  END LOOP;
+
+  IF _best_promotion IS NOT NULL THEN
+    _applied_discounts := _applied_discounts || _best_promotion;
+  END IF;
+
+  IF NULLIF(trim(discount_code_param), '') IS NOT NULL THEN
+    SELECT d.id, d.name, d.code
+    INTO _code_discount
+    FROM public.discounts d
+    WHERE d.store_id = _store.id
+      AND upper(d.code) = upper(trim(discount_code_param))
+      AND COALESCE(d.customer_eligibility, 'all') = 'all'
+      AND d.loyalty_tier_required IS NULL
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      RAISE EXCEPTION 'Discount code % is not valid', trim(discount_code_param);
+    END IF;
+
+    _evaluation := public.evaluate_discount(_code_discount.id, _lines, NULL);
+
+    IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+      RAISE EXCEPTION '%', _evaluation->>'message';
+    END IF;
+
+    _applied_code := _code_discount.code;
+    _applied_discounts := _applied_discounts || jsonb_build_object(
+      'discount_id', _code_discount.id,
+      'name', _code_discount.name,
+      'code', _code_discount.code,
+      'amount', (_evaluation->>'amount')::DECIMAL(10,2)
+    );
+  END IF;
+
+  -- Record redemptions, never taking more off than the cart is worth
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    _discount_share := LEAST(_discount_line.amount, GREATEST(0, _subtotal - _discount_amount));
+    _discount_amount := _discount_amount + _discount_share;
+
+    INSERT INTO public.discount_usage (
+      discount_id,
+      public_order_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _discount_share
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  _tax_amount := (_subtotal - _discount_amount) * COALESCE(_store.tax_rate, 0);
+  _total := _subtotal - _discount_amount + _tax_amount;
+
+  UPDATE public.public_orders
+  SET subtotal = _subtotal,
+      discount_amount = _discount_amount,
+      discount_code = _applied_code,
+      tax_amount = _tax_amount,
+      total = _total,
+      updated_at = now()
+  WHERE id = _order_id;
+
+  -- A gift card pays as much of the order as its balance covers; the rest is paid online or
+  -- when the store completes the order
+  IF NULLIF(trim(COALESCE(gift_card_code_param, '')), '') IS NOT NULL THEN
+    SELECT gc.id, gc.code, gc.balance INTO _card
+    FROM public.gift_cards gc
+    WHERE gc.store_id = _store.id
+      AND gc.code = public.normalize_gift_card_code(gift_card_code_param)
+      AND gc.kind = 'gift_card'
+      AND gc.status = 'active'
+      AND (gc.expires_at IS NULL OR gc.expires_at > now())
+    FOR UPDATE;
+
+    IF NOT FOUND OR _card.balance <= 0 THEN
+      RAISE EXCEPTION 'This gift card is not valid or has no balance left';
+    END IF;
+
+    _gift_card_amount := LEAST(_card.balance, _total);
+
+    UPDATE public.gift_cards
+    SET balance = balance - _gift_card_amount,
+        last_used_at = now(),
+        updated_at = now()
+    WHERE id = _card.id
+    RETURNING balance INTO _card_balance;
+
+    INSERT INTO public.gift_card_transactions (
+      store_id, gift_card_id, transaction_type, amount, balance_after, public_order_id, description
+    ) VALUES (
+      _store.id, _card.id, 'redeem', -_gift_card_amount, _card_balance, _order_id,
+      'Showcase order ' || _order_code
+    );
+
+    UPDATE public.public_orders
+    SET gift_card_id = _card.id,
+        gift_card_amount = _gift_card_amount
+    WHERE id = _order_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'order_id', _order_id,
+    'order_code', _order_code,
+    'subtotal', _subtotal,
+    'discount_amount', _discount_amount,
+    'discount_code', _applied_code,
+    'discounts', _applied_discounts,
+    'tax_amount', _tax_amount,
+    'total', _total,
+    'gift_card_amount', _gift_card_amount,
+    'amount_due', _total - _gift_card_amount,
+    'status', 'pending',
+    'reserved_until', _reserved_until,
+    'store_name', _store.name,
+    'store_phone', _store.phone,
+    'whatsapp_number', _store.whatsapp_number
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.create_public_order(TEXT, JSONB, JSONB[], TEXT, TEXT) TO anon, authenticated;
+
+-- Online payments only collect what the gift card didn't cover
+CREATE OR REPLACE FUNCTION public.begin_public_order_payment(_order_code TEXT)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _order RECORD;
+  _gateway RECORD;
+  _store RECORD;
+  _tx_ref TEXT;
+  _amount_due DECIMAL(10,2);
+BEGIN
+  SELECT *
+  INTO _order
+  FROM public.public_orders
+  WHERE order_code = upper(trim(_order_code))
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order not found');
+  END IF;
+
+  IF _order.status IN ('completed', 'cancelled') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order ' || _order.order_code || ' is ' || _order.status || ' and cannot be paid');
+  END IF;
+
+  IF _order.payment_status = 'paid' THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order ' || _order.order_code || ' is already paid');
+  END IF;
+
+  _amount_due := _order.total - COALESCE(_order.gift_card_amount, 0);
+
+  IF _amount_due <= 0 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Order ' || _order.order_code || ' is paid in full by gift card');
+  END IF;
+
+  SELECT *
+  INTO _gateway
+  FROM public.store_payment_gateways
+  WHERE store_id = _order.store_id AND provider = 'paychangu' AND is_enabled AND secret_key IS NOT NULL;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'This store does not take online payments');
+  END IF;
+
+  SELECT name, currency INTO _store FROM public.stores WHERE id = _order.store_id;
+
+  _tx_ref := 'ord_' || lower(_order.order_code) || '_' || floor(extract(epoch FROM clock_timestamp()) * 1000)::bigint;
+
+  INSERT INTO public.public_order_payments (
+    store_id,
+    order_id,
+    tx_ref,
+    amount,
+    currency
+  ) VALUES (
+    _order.store_id,
+    _order.id,
+    _tx_ref,
+    _amount_due,
+    COALESCE(_store.currency, 'MWK')
+  );
+
+  UPDATE public.public_orders
+  SET payment_status = 'pending'
+  WHERE id = _order.id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'tx_ref', _tx_ref,
+    'order_id', _order.id,
+    'order_code', _order.order_code,
+    'amount', _amount_due,
+    'currency', COALESCE(_store.currency, 'MWK'),
+    'customer_name', _order.customer_name,
+    'store_name', _store.name,
+    'secret_key', _gateway.secret_key
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.begin_public_order_payment(TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.begin_public_order_payment(TEXT) TO service_role;
+
+-- Completing an order paid partly by gift card records the card and the remainder as separate
+-- tenders
+CREATE OR REPLACE FUNCTION public.complete_public_order(
+  p_order_id UUID,
+  p_customer_name TEXT DEFAULT NULL,
+  p_customer_phone TEXT DEFAULT NULL,
+  p_payment_method TEXT DEFAULT 'cash'
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _order RECORD;
+  _item RECORD;
+  _customer_id UUID;
+  _customer_name TEXT;
+  _customer_phone TEXT;
+  _sales_order_id UUID;
+  _transaction_id UUID;
+  _transaction_number TEXT;
+  _previous_stock INTEGER;
+  _amount_due DECIMAL(10,2);
+BEGIN
+  SELECT *
+  INTO _order
+  FROM public.public_orders
+  WHERE id = p_order_id
+  FOR UPDATE;
+
+  IF _user_id IS NULL OR NOT FOUND OR NOT public.user_can_access_store(_order.store_id) THEN
+    RAISE EXCEPTION 'Access denied to order %', p_order_id;
+  END IF;
+
+  IF _order.sales_order_id IS NOT NULL THEN
+    RETURN jsonb_build_object('success', true, 'duplicate', true, 'order_id', _order.sales_order_id);
+  END IF;
+
+  IF NOT public.public_order_transition_allowed(_order.status, 'completed') THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'error', 'Order ' || _order.order_code || ' is ' || _order.status || ' and cannot be completed'
+    );
+  END IF;
+
+  _customer_name := COALESCE(NULLIF(trim(p_customer_name), ''), _order.customer_name);
+  _customer_phone := COALESCE(NULLIF(trim(p_customer_phone), ''), _order.customer_phone);
+
+  SELECT id INTO _customer_id
+  FROM public.customers
+  WHERE store_id = _order.store_id
+    AND phone = _customer_phone
+  ORDER BY created_at
+  LIMIT 1;
+
+  IF _customer_id IS NULL THEN
+    INSERT INTO public.customers (store_id, name, phone)
+    VALUES (_order.store_id, _customer_name, _customer_phone)
+    RETURNING id INTO _customer_id;
+  END IF;
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method
+  ) VALUES (
+    _order.store_id,
+    _customer_id,
+    _user_id,
+    _order.order_code,
+    _order.subtotal,
+    COALESCE(_order.discount_amount, 0),
+    _order.discount_code,
+    COALESCE(_order.tax_amount, 0),
+    _order.total,
+    'completed',
+    COALESCE(NULLIF(p_payment_method, ''), 'cash')
+  ) RETURNING id INTO _sales_order_id;
+
+  FOR _item IN
+    SELECT poi.product_id, poi.variant_id, poi.variant_name, poi.quantity, poi.unit_price, poi.total_price
+    FROM public.public_order_items poi
+    WHERE poi.order_id = p_order_id
+  LOOP
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _sales_order_id,
+      _item.product_id,
+      _item.variant_id,
+      _item.variant_name,
+      _item.quantity,
+      _item.unit_price,
+      _item.total_price
+    );
+
+    IF NOT _order.inventory_reserved THEN
+      _previous_stock := NULL;
+
+      IF _item.variant_id IS NOT NULL THEN
+        UPDATE public.product_variants
+        SET stock_quantity = stock_quantity - _item.quantity,
+            updated_at = now()
+        WHERE id = _item.variant_id
+        RETURNING stock_quantity + _item.quantity INTO _previous_stock;
+      ELSE
+        UPDATE public.products
+        SET stock_quantity = stock_quantity - _item.quantity,
+            updated_at = now()
+        WHERE id = _item.product_id
+        RETURNING stock_quantity + _item.quantity INTO _previous_stock;
+      END IF;
+
+      CONTINUE WHEN _previous_stock IS NULL;
+
+      INSERT INTO public.stock_adjustments (
+        store_id,
+        product_id,
+        variant_id,
+        user_id,
+        adjustment_type,
+        quantity_change,
+        previous_quantity,
+        new_quantity,
+        reason,
+        reference_id
+      ) VALUES (
+        _order.store_id,
+        _item.product_id,
+        _item.variant_id,
+        _user_id,
+        'sale',
+        -_item.quantity,
+        _previous_stock,
+        _previous_stock - _item.quantity,
+        'Sale - Showcase order ' || _order.order_code,
+        _sales_order_id
+      );
+    END IF;
+  END LOOP;
+
+  _amount_due := _order.total - COALESCE(_order.gift_card_amount, 0);
+
+  -- The gift card was charged when the order was placed; record it as tender now that the sale exists
+  IF COALESCE(_order.gift_card_amount, 0) > 0 THEN
+    SELECT public.generate_transaction_number(_order.store_id) INTO _transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _order.store_id,
+      _transaction_number,
+      'sale',
+      _order.gift_card_amount,
+      'gift_card',
+      _sales_order_id,
+      'order',
+      _customer_id,
+      _customer_name,
+      'Sale - Showcase order ' || _order.order_code || ' (gift card)',
+      _user_id
+    ) RETURNING id INTO _transaction_id;
+
+    UPDATE public.gift_card_transactions
+    SET order_id = _sales_order_id,
+        transaction_id = _transaction_id
+    WHERE public_order_id = p_order_id
+      AND transaction_type = 'redeem';
+  END IF;
+
+  IF _amount_due > 0 OR COALESCE(_order.gift_card_amount, 0) = 0 THEN
+    SELECT public.generate_transaction_number(_order.store_id) INTO _transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _order.store_id,
+      _transaction_number,
+      'sale',
+      _amount_due,
+      COALESCE(NULLIF(p_payment_method, ''), 'cash'),
+      _sales_order_id,
+      'order',
+      _customer_id,
+      _customer_name,
+      'Sale - Showcase order ' || _order.order_code,
+      _user_id
+    ) RETURNING id INTO _transaction_id;
+  END IF;
+
+  UPDATE public.customers
+  SET total_orders = COALESCE(total_orders, 0) + 1,
+      total_spent = COALESCE(total_spent, 0) + _order.total,
+      updated_at = now()
+  WHERE id = _customer_id;
+
+  UPDATE public.public_orders
+  SET status = 'completed',
+      customer_name = _customer_name,
+      customer_phone = _customer_phone,
+      sales_order_id = _sales_order_id,
+      inventory_reserved = false
+  WHERE id = p_order_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order_id', _sales_order_id,
+    'order_number', _order.order_code,
+    'customer_id', _customer_id,
+    'transaction_id', _transaction_id
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.complete_public_order(UUID, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Gift cards sold for cash go into the drawer like any other sale
+CREATE OR REPLACE FUNCTION public.calculate_cash_drawer_totals(_shift_id UUID)
+RETURNS TABLE (
+  cash_sales DECIMAL(10,2),
+  cash_refunds DECIMAL(10,2),
+  paid_in DECIMAL(10,2),
+  paid_out DECIMAL(10,2),
+  expected_cash DECIMAL(10,2)
+)
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _shift RECORD;
+  _sales DECIMAL(10,2);
+  _refunds DECIMAL(10,2);
+  _paid_in DECIMAL(10,2);
+  _paid_out DECIMAL(10,2);
+BEGIN
+  SELECT s.store_id, s.opening_float, s.opened_at, COALESCE(s.closed_at, now()) AS closes_at
+  INTO _shift
+  FROM public.cash_drawer_shifts s
+  WHERE s.id = _shift_id;
+
+  SELECT
+    COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type IN ('sale', 'layby_deposit', 'layby_payment', 'gift_card_sale')), 0),
+    COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type = 'refund'), 0)
+  INTO _sales, _refunds
+  FROM public.transactions t
+  WHERE t.store_id = _shift.store_id
+    AND lower(t.payment_method) = 'cash'
+    AND t.created_at >= _shift.opened_at
+    AND t.created_at < _shift.closes_at;
+
+  SELECT
+    COALESCE(SUM(m.amount) FILTER (WHERE m.movement_type = 'paid_in'), 0),
+    COALESCE(SUM(m.amount) FILTER (WHERE m.movement_type = 'paid_out'), 0)
+  INTO _paid_in, _paid_out
+  FROM public.cash_drawer_movements m
+  WHERE m.shift_id = _shift_id;
+
+  RETURN QUERY SELECT
+    _sales,
+    _refunds,
+    _paid_in,
+    _paid_out,
+    (_shift.opening_float + _sales - _refunds + _paid_in - _paid_out)::DECIMAL(10,2);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.calculate_cash_drawer_totals(UUID) FROM PUBLIC;
+
+CREATE OR REPLACE FUNCTION public.get_cash_drawer_report(_shift_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _shift public.cash_drawer_shifts;
+  _totals RECORD;
+  _payments JSONB;
+  _movements JSONB;
+BEGIN
+  SELECT * INTO _shift
+  FROM public.cash_drawer_shifts
+  WHERE id = _shift_id;
+
+  IF NOT FOUND OR NOT public.user_can_access_store(_shift.store_id) THEN
+    RAISE EXCEPTION 'Access denied to shift %', _shift_id;
+  END IF;
+
+  IF _shift.status = 'closed' THEN
+    SELECT _shift.cash_sales AS cash_sales,
+           _shift.cash_refunds AS cash_refunds,
+           _shift.paid_in AS paid_in,
+           _shift.paid_out AS paid_out,
+           _shift.expected_cash AS expected_cash
+    INTO _totals;
+  ELSE
+    SELECT * INTO _totals FROM public.calculate_cash_drawer_totals(_shift_id);
+  END IF;
+
+  SELECT COALESCE(jsonb_agg(jsonb_build_object(
+      'payment_method', payment_method,
+      'name', name,
+      'sales_count', sales_count,
+      'sales_total', sales_total,
+      'refunds_total', refunds_total
+    ) ORDER BY sales_total DESC), '[]'::jsonb)
+  INTO _payments
+  FROM (
+    SELECT
+      t.payment_method,
+      COALESCE(pm.name, initcap(replace(t.payment_method, '_', ' '))) AS name,
+      COUNT(*) FILTER (WHERE t.transaction_type IN ('sale', 'layby_deposit', 'layby_payment', 'gift_card_sale')) AS sales_count,
+      COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type IN ('sale', 'layby_deposit', 'layby_payment', 'gift_card_sale')), 0) AS sales_total,
+      COALESCE(SUM(ABS(t.amount)) FILTER (WHERE t.transaction_type = 'refund'), 0) AS refunds_total
+    FROM public.transactions t
+    LEFT JOIN public.payment_methods pm ON pm.id::TEXT = t.payment_method
+    WHERE t.store_id = _shift.store_id
+      AND t.created_at >= _shift.opened_at
+      AND t.created_at < COALESCE(_shift.closed_at, now())
+    GROUP BY t.payment_method, pm.name
+  ) AS tenders;
+
+  SELECT COALESCE(jsonb_agg(to_jsonb(m) ORDER BY m.created_at), '[]'::jsonb)
+  INTO _movements
+  FROM public.cash_drawer_movements m
+  WHERE m.shift_id = _shift_id;
+
+  RETURN jsonb_build_object(
+    'shift', to_jsonb(_shift),
+    'cash_sales', _totals.cash_sales,
+    'cash_refunds', _totals.cash_refunds,
+    'paid_in', _totals.paid_in,
+    'paid_out', _totals.paid_out,
+    'expected_cash', _totals.expected_cash,
+    'payments', _payments,
+    'movements', _movements,
+    'generated_at', now()
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_cash_drawer_report(UUID) TO authenticated;
@@ -0,0 +1,970 @@
+-- Migration: Split-Tender Payments
+-- Description: A POS sale can be paid with several tenders, e.g. part cash and part mobile money.
+-- Every tender is its own sale transaction, so the transactions list and cash-up keep adding up,
+-- and order_payments keeps one row per tender with what was handed over and the change given.
+-- Date: 2025-08-01
+
+CREATE TABLE IF NOT EXISTS public.order_payments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  order_id UUID NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+  transaction_id UUID REFERENCES public.transactions(id) ON DELETE SET NULL,
+  payment_method TEXT NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount >= 0),
+  -- What the customer handed over; only cash can be more than the amount
+  amount_tendered DECIMAL(10,2),
+  change_given DECIMAL(10,2) NOT NULL DEFAULT 0 CHECK (change_given >= 0),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order ON public.order_payments(order_id);
+CREATE INDEX IF NOT EXISTS idx_order_payments_store ON public.order_payments(store_id, created_at DESC);
+
+ALTER TABLE public.order_payments ENABLE ROW LEVEL SECURITY;
+
+-- Tenders are written alongside their transactions
+CREATE POLICY "Store access for order_payments" ON public.order_payments
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- Every sale transaction against an order is one of its tenders. Checkout, showcase orders and
+-- exchanges all write these, so the tender is recorded wherever the money came in.
+CREATE OR REPLACE FUNCTION public.record_order_payment()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM public.orders o WHERE o.id = NEW.reference_id) THEN
+    INSERT INTO public.order_payments (
+      store_id, order_id, transaction_id, payment_method, amount, amount_tendered, created_at
+    ) VALUES (
+      NEW.store_id, NEW.reference_id, NEW.id, NEW.payment_method, NEW.amount, NEW.amount,
+      COALESCE(NEW.created_at, now())
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS record_order_payment ON public.transactions;
+CREATE TRIGGER record_order_payment
+AFTER INSERT ON public.transactions
+FOR EACH ROW
+WHEN (NEW.transaction_type = 'sale' AND NEW.reference_type = 'order' AND NEW.reference_id IS NOT NULL)
+EXECUTE FUNCTION public.record_order_payment();
+
+-- Orders taken before today were paid with a single tender per transaction
+INSERT INTO public.order_payments (
+  store_id, order_id, transaction_id, payment_method, amount, amount_tendered, created_at
+)
+SELECT t.store_id, t.reference_id, t.id, t.payment_method, t.amount, t.amount, COALESCE(t.created_at, now())
+FROM public.transactions t
+JOIN public.orders o ON o.id = t.reference_id
+WHERE t.transaction_type = 'sale'
+  AND t.reference_type = 'order'
+  AND NOT EXISTS (SELECT 1 FROM public.order_payments op WHERE op.transaction_id = t.id);
+
+
+-- Checkout takes several tenders: _payments is [{ method, amount, tendered }] and together they pay
+-- what the gift cards leave. Each tender is written as its own transaction. Without _payments the
+-- sale is paid in full with _payment_method as before.
+DROP FUNCTION IF EXISTS public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER, UUID, TEXT, JSONB);
+
+CREATE OR REPLACE FUNCTION public.checkout(
+  _store_id UUID,
+  _order_number TEXT,
+  _items JSONB,
+  _payment_method TEXT,
+  _customer_id UUID DEFAULT NULL,
+  _discount_amount DECIMAL(10,2) DEFAULT 0,
+  _discount_code TEXT DEFAULT NULL,
+  _tax_amount DECIMAL(10,2) DEFAULT 0,
+  _sold_at TIMESTAMPTZ DEFAULT NULL,
+  _client_reference UUID DEFAULT NULL,
+  _discounts JSONB DEFAULT '[]'::jsonb,
+  _loyalty_points INTEGER DEFAULT 0,
+  _discount_approval_id UUID DEFAULT NULL,
+  _pin_session TEXT DEFAULT NULL,
+  _gift_cards JSONB DEFAULT '[]'::jsonb,
+  _payments JSONB DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _cashier_id UUID := auth.uid();
+  _line RECORD;
+  _product RECORD;
+  _variant RECORD;
+  _label TEXT;
+  _customer_name TEXT;
+  _customer_points INTEGER := 0;
+  _customer_spent DECIMAL(10,2) := 0;
+  _errors JSONB := '[]'::jsonb;
+  _receipt_items JSONB := '[]'::jsonb;
+  _subtotal DECIMAL(10,2) := 0;
+  _total DECIMAL(10,2);
+  _order_id UUID;
+  _order_created_at TIMESTAMPTZ;
+  _transaction_number TEXT;
+  _existing RECORD;
+  _discount_line RECORD;
+  _discount RECORD;
+  _evaluation JSONB;
+  _discount_share DECIMAL(10,2);
+  _promotion_amount DECIMAL(10,2) := 0;
+  _applied_discounts JSONB := '[]'::jsonb;
+  _order_discount_code TEXT := NULLIF(_discount_code, '');
+  _settings RECORD;
+  _tier RECORD;
+  _loyalty_enabled BOOLEAN := false;
+  _loyalty_discount DECIMAL(10,2) := 0;
+  _points_earned INTEGER := 0;
+  _points_balance INTEGER;
+  _approval JSONB;
+  _line_price DECIMAL(10,2);
+  _price_approvals UUID[] := '{}';
+  _discount_settings RECORD;
+  _tender RECORD;
+  _card RECORD;
+  _amount_due DECIMAL(10,2);
+  _gift_card_total DECIMAL(10,2) := 0;
+  _gift_card_payments JSONB := '[]'::jsonb;
+  _card_balance DECIMAL(10,2);
+  _card_transaction_id UUID;
+  _card_transaction_number TEXT;
+  _payment RECORD;
+  _tenders JSONB := '[]'::jsonb;
+  _tender_total DECIMAL(10,2) := 0;
+  _change_given DECIMAL(10,2) := 0;
+  _order_payment_method TEXT := _payment_method;
+  _payment_transaction_id UUID;
+  _payment_transaction_number TEXT;
+BEGIN
+  IF _cashier_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  -- This sale was recorded by an earlier attempt whose response never reached the till
+  SELECT o.id, o.order_number, o.created_at, o.subtotal, o.discount_amount, o.discount_code,
+         o.tax_amount, o.total, o.payment_method, o.loyalty_points_redeemed, o.loyalty_discount_amount
+  INTO _existing
+  FROM public.orders o
+  WHERE o.store_id = _store_id
+    AND o.client_reference = _client_reference;
+
+  IF FOUND THEN
+    RETURN jsonb_build_object(
+      'success', true,
+      'duplicate', true,
+      'order', jsonb_build_object(
+        'id', _existing.id,
+        'order_number', _existing.order_number,
+        'created_at', _existing.created_at,
+        'transaction_number', NULL,
+        'subtotal', _existing.subtotal,
+        'discount_amount', COALESCE(_existing.discount_amount, 0),
+        'discount_code', _existing.discount_code,
+        'tax_amount', COALESCE(_existing.tax_amount, 0),
+        'total', _existing.total,
+        'payment_method', _existing.payment_method,
+        'payments', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'method', op.payment_method,
+            'amount', op.amount,
+            'tendered', COALESCE(op.amount_tendered, op.amount),
+            'change', op.change_given
+          ) ORDER BY op.created_at), '[]'::jsonb)
+          FROM public.order_payments op
+          WHERE op.order_id = _existing.id
+            AND op.payment_method NOT IN ('gift_card', 'store_credit')
+        ),
+        'discounts', '[]'::jsonb,
+        'loyalty_points_redeemed', _existing.loyalty_points_redeemed,
+        'loyalty_discount_amount', _existing.loyalty_discount_amount,
+        'loyalty_points_earned', (
+          SELECT COALESCE(SUM(lt.points), 0)
+          FROM public.loyalty_transactions lt
+          WHERE lt.order_id = _existing.id
+            AND lt.transaction_type = 'earn'
+        ),
+        'items', '[]'::jsonb
+      )
+    );
+  END IF;
+
+  IF _items IS NULL OR jsonb_typeof(_items) <> 'array' OR jsonb_array_length(_items) = 0 THEN
+    RETURN jsonb_build_object(
+      'success', false,
+      'errors', jsonb_build_array(jsonb_build_object(
+        'code', 'empty_cart',
+        'message', 'Cart is empty'
+      ))
+    );
+  END IF;
+
+  -- Lock every product in the cart in a stable order so concurrent tills
+  -- selling the same products serialize instead of deadlocking
+  PERFORM 1
+  FROM public.products p
+  WHERE p.store_id = _store_id
+    AND p.id IN (SELECT (value->>'product_id')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY p.id
+  FOR UPDATE;
+
+  PERFORM 1
+  FROM public.product_variants v
+  WHERE v.store_id = _store_id
+    AND v.id IN (SELECT NULLIF(value->>'variant_id', '')::UUID FROM jsonb_array_elements(_items))
+  ORDER BY v.id
+  FOR UPDATE;
+
+  -- Validate each cart line against the locked rows. A variant line is checked against
+  -- the variant's own stock and price.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price,
+      MAX(NULLIF(value->>'approval_id', ''))::UUID AS approval_id
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    SELECT p.id, p.name, p.sku, p.price, p.stock_quantity, p.is_active, p.has_variants
+    INTO _product
+    FROM public.products p
+    WHERE p.id = _line.product_id
+      AND p.store_id = _store_id;
+
+    IF FOUND AND _line.variant_id IS NOT NULL THEN
+      SELECT v.id, v.name, v.sku, v.price, v.stock_quantity, v.is_active
+      INTO _variant
+      FROM public.product_variants v
+      WHERE v.id = _line.variant_id
+        AND v.product_id = _product.id;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'product_id', _product.id,
+          'variant_id', _line.variant_id,
+          'product_name', _product.name,
+          'code', 'not_found',
+          'requested', _line.quantity,
+          'message', _product.name || ': this variant no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _label := _product.name || ' (' || _variant.name || ')';
+      -- From here on the line is checked exactly like a product without variants
+      _product.sku := COALESCE(_variant.sku, _product.sku);
+      _product.price := _variant.price;
+      _product.stock_quantity := _variant.stock_quantity;
+      _product.is_active := _product.is_active AND _variant.is_active;
+    ELSIF FOUND AND _product.has_variants THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'product_name', _product.name,
+        'code', 'variant_required',
+        'requested', _line.quantity,
+        'message', 'Choose a variant of ' || _product.name
+      );
+      CONTINUE;
+    ELSE
+      _label := _product.name;
+    END IF;
+
+    -- A manager-approved price for exactly this line replaces the current price
+    _approval := public.claim_manager_override(_line.approval_id, _store_id, 'price_override');
+    _line_price := CASE
+      WHEN _approval IS NOT NULL
+        AND _approval->>'product_id' = _line.product_id::TEXT
+        AND COALESCE(_approval->>'variant_id', '') = COALESCE(_line.variant_id::TEXT, '')
+        AND (_approval->>'price')::DECIMAL(10,2) = _line.unit_price THEN _line.unit_price
+      ELSE _product.price
+    END;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _line.product_id,
+        'code', 'not_found',
+        'requested', _line.quantity,
+        'message', 'Product no longer exists in this store'
+      );
+    ELSIF NOT COALESCE(_product.is_active, false) THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'inactive',
+        'requested', _line.quantity,
+        'message', _label || ' is no longer available for sale'
+      );
+    ELSIF _line.quantity <= 0 THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'invalid_quantity',
+        'requested', _line.quantity,
+        'message', 'Quantity for ' || _label || ' must be at least 1'
+      );
+    ELSIF _product.stock_quantity < _line.quantity THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'insufficient_stock',
+        'requested', _line.quantity,
+        'available', _product.stock_quantity,
+        'message', _label || ': only ' || _product.stock_quantity || ' available, ' || _line.quantity || ' requested'
+      );
+    ELSIF _line.unit_price IS NOT NULL AND _line.unit_price <> _line_price THEN
+      _errors := _errors || jsonb_build_object(
+        'product_id', _product.id,
+        'variant_id', _line.variant_id,
+        'product_name', _label,
+        'code', 'price_changed',
+        'requested', _line.quantity,
+        'expected_price', _line.unit_price,
+        'current_price', _product.price,
+        'message', _label || ': price changed from ' || _line.unit_price || ' to ' || _product.price
+      );
+    ELSE
+      IF _line_price <> _product.price THEN
+        _price_approvals := _price_approvals || _line.approval_id;
+      END IF;
+
+      _subtotal := _subtotal + _line_price * _line.quantity;
+    END IF;
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    SELECT c.name, c.loyalty_points, COALESCE(c.total_spent, 0)
+    INTO _customer_name, _customer_points, _customer_spent
+    FROM public.customers c
+    WHERE c.id = _customer_id
+      AND c.store_id = _store_id
+    FOR UPDATE;
+
+    IF NOT FOUND THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'customer_not_found',
+        'message', 'Selected customer does not belong to this store'
+      );
+    END IF;
+  END IF;
+
+  IF COALESCE(_discount_amount, 0) < 0 OR COALESCE(_tax_amount, 0) < 0 THEN
+    _errors := _errors || jsonb_build_object(
+      'code', 'amount_invalid',
+      'message', 'Discount and tax can''t be negative'
+    );
+  END IF;
+
+  -- Re-evaluate the cart's discounts against the locked rows rather than trusting the
+  -- client's amounts
+  IF _discounts IS NOT NULL AND jsonb_typeof(_discounts) = 'array' THEN
+    FOR _discount_line IN
+      SELECT
+        (value->>'discount_id')::UUID AS discount_id,
+        (value->>'amount')::DECIMAL(10,2) AS amount
+      FROM jsonb_array_elements(_discounts)
+    LOOP
+      SELECT d.id, d.name, d.code
+      INTO _discount
+      FROM public.discounts d
+      WHERE d.id = _discount_line.discount_id
+        AND d.store_id = _store_id
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount_line.discount_id,
+          'code', 'discount_invalid',
+          'message', 'Discount no longer exists'
+        );
+        CONTINUE;
+      END IF;
+
+      _evaluation := public.evaluate_discount(_discount.id, _items, _customer_id);
+
+      IF NOT (_evaluation->>'eligible')::BOOLEAN THEN
+        _errors := _errors || jsonb_build_object(
+          'discount_id', _discount.id,
+          'code', 'discount_invalid',
+          'message', _discount.name || ': ' || (_evaluation->>'message')
+        );
+        CONTINUE;
+      END IF;
+
+      _discount_share := (_evaluation->>'amount')::DECIMAL(10,2);
+
+      -- Combined discounts never take more than the cart is worth
+      _discount_share := LEAST(_discount_share, GREATEST(0, _subtotal - _promotion_amount));
+      _promotion_amount := _promotion_amount + _discount_share;
+
+      _applied_discounts := _applied_discounts || jsonb_build_object(
+        'discount_id', _discount.id,
+        'name', _discount.name,
+        'code', _discount.code,
+        'amount', _discount_share
+      );
+
+      IF _discount.code IS NOT NULL THEN
+        _order_discount_code := _discount.code;
+      END IF;
+    END LOOP;
+  END IF;
+
+  -- Manual discounts above the store's threshold need a manager's approval unless a manager
+  -- or owner is ringing up the sale
+  IF COALESCE(_discount_amount, 0) > 0 AND _subtotal > 0 THEN
+    SELECT COALESCE(s.require_pin_for_discounts, false) AS required,
+           COALESCE(s.discount_approval_threshold, 0) AS threshold
+    INTO _discount_settings
+    FROM public.store_settings s
+    WHERE s.store_id = _store_id;
+
+    IF FOUND
+      AND _discount_settings.required
+      AND _discount_amount * 100 / _subtotal > _discount_settings.threshold
+      AND COALESCE(
+        public.resolve_store_role(_store_id, public.resolve_till_member(_store_id, _pin_session)),
+        'cashier'
+      ) NOT IN ('owner', 'manager') THEN
+      _approval := public.claim_manager_override(_discount_approval_id, _store_id, 'discount');
+
+      IF _approval IS NULL OR COALESCE((_approval->>'amount')::DECIMAL(10,2), 0) < _discount_amount THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'approval_required',
+          'message', 'A manager must approve a discount of ' || _discount_amount
+        );
+      END IF;
+    END IF;
+  END IF;
+
+  SELECT s.customer_loyalty_enabled, s.loyalty_points_per_unit, s.loyalty_point_value, s.loyalty_min_redeem_points
+  INTO _settings
+  FROM public.store_settings s
+  WHERE s.store_id = _store_id;
+
+  _loyalty_enabled := FOUND AND COALESCE(_settings.customer_loyalty_enabled, false);
+
+  -- Redeemed points are tender: they pay for the order after discounts and tax
+  IF COALESCE(_loyalty_points, 0) > 0 THEN
+    IF NOT _loyalty_enabled THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Loyalty points are not enabled for this store'
+      );
+    ELSIF _customer_id IS NULL THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'message', 'Select a customer to redeem loyalty points'
+      );
+    ELSIF _customer_points < _loyalty_points THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'available', _customer_points,
+        'message', _customer_name || ' only has ' || _customer_points || ' points'
+      );
+    ELSIF _loyalty_points < COALESCE(_settings.loyalty_min_redeem_points, 0) THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'loyalty_invalid',
+        'requested', _loyalty_points,
+        'message', 'At least ' || _settings.loyalty_min_redeem_points || ' points must be redeemed at a time'
+      );
+    ELSE
+      _loyalty_discount := LEAST(
+        ROUND(_loyalty_points * COALESCE(_settings.loyalty_point_value, 0), 2),
+        GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount + COALESCE(_tax_amount, 0))
+      );
+    END IF;
+  END IF;
+
+  -- Gift cards and store credit pay what's left after loyalty points. Store credit can only be
+  -- spent by the customer it belongs to.
+  IF jsonb_typeof(_gift_cards) = 'array' AND jsonb_array_length(_gift_cards) > 0 THEN
+    _amount_due := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount - _loyalty_discount + COALESCE(_tax_amount, 0));
+
+    FOR _tender IN
+      SELECT public.normalize_gift_card_code(value->>'code') AS code,
+             SUM(COALESCE((value->>'amount')::DECIMAL(10,2), 0)) AS amount
+      FROM jsonb_array_elements(_gift_cards)
+      GROUP BY 1
+      ORDER BY 1
+    LOOP
+      SELECT gc.id, gc.code, gc.kind, gc.customer_id, gc.balance, gc.status, gc.expires_at
+      INTO _card
+      FROM public.gift_cards gc
+      WHERE gc.store_id = _store_id
+        AND gc.code = _tender.code
+      FOR UPDATE;
+
+      IF NOT FOUND THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Gift card ending ' || right(_tender.code, 4) || ' was not found'
+        );
+      ELSIF _card.status <> 'active' OR _card.expires_at <= now() THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', CASE WHEN _card.kind = 'store_credit' THEN 'This store credit' ELSE 'Gift card ending ' || right(_tender.code, 4) END
+            || ' has expired'
+        );
+      ELSIF _card.kind = 'store_credit' AND _card.customer_id IS DISTINCT FROM _customer_id THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Store credit can only be used by the customer it belongs to'
+        );
+      ELSIF _tender.amount <= 0 THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Enter an amount to take from gift card ending ' || right(_tender.code, 4)
+        );
+      ELSIF _tender.amount > _card.balance THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'requested', _tender.amount,
+          'available', _card.balance,
+          'message', CASE WHEN _card.kind = 'store_credit' THEN 'Store credit' ELSE 'Gift card ending ' || right(_tender.code, 4) END
+            || ' only has ' || _card.balance || ' left'
+        );
+      ELSIF _gift_card_total + _tender.amount > _amount_due THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'gift_card_invalid',
+          'gift_card_code', _tender.code,
+          'message', 'Gift cards cover more than the ' || _amount_due || ' due'
+        );
+      ELSE
+        _gift_card_total := _gift_card_total + _tender.amount;
+        _gift_card_payments := _gift_card_payments || jsonb_build_object(
+          'gift_card_id', _card.id,
+          'code', _card.code,
+          'kind', _card.kind,
+          'amount', _tender.amount,
+          'balance', _card.balance - _tender.amount
+        );
+      END IF;
+    END LOOP;
+  END IF;
+
+  _total := GREATEST(0, _subtotal - COALESCE(_discount_amount, 0) - _promotion_amount - _loyalty_discount + COALESCE(_tax_amount, 0));
+
+  -- The tenders settle exactly what the gift cards leave. Only cash can be over-tendered; the
+  -- difference goes back to the customer as change.
+  IF jsonb_typeof(_payments) = 'array' AND jsonb_array_length(_payments) > 0 THEN
+    FOR _payment IN
+      SELECT NULLIF(value->>'method', '') AS method,
+             COALESCE((value->>'amount')::DECIMAL(10,2), 0) AS amount,
+             COALESCE((value->>'tendered')::DECIMAL(10,2), (value->>'amount')::DECIMAL(10,2), 0) AS tendered
+      FROM jsonb_array_elements(_payments)
+    LOOP
+      IF _payment.method IS NULL THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'payment_invalid',
+          'message', 'Choose how each payment was made'
+        );
+      ELSIF _payment.method IN ('gift_card', 'store_credit', 'split') THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'payment_invalid',
+          'message', 'Gift cards and store credit are applied with their code, not as a payment'
+        );
+      ELSIF _payment.amount <= 0 THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'payment_invalid',
+          'message', 'Enter an amount for each payment'
+        );
+      ELSIF _payment.tendered < _payment.amount THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'payment_invalid',
+          'requested', _payment.amount,
+          'available', _payment.tendered,
+          'message', 'Only ' || _payment.tendered || ' was tendered for a ' || _payment.amount || ' payment'
+        );
+      ELSIF _payment.tendered > _payment.amount AND _payment.method <> 'cash' THEN
+        _errors := _errors || jsonb_build_object(
+          'code', 'payment_invalid',
+          'message', 'Only cash payments can be given change'
+        );
+      ELSE
+        _tender_total := _tender_total + _payment.amount;
+        _change_given := _change_given + (_payment.tendered - _payment.amount);
+        _tenders := _tenders || jsonb_build_object(
+          'method', _payment.method,
+          'amount', _payment.amount,
+          'tendered', _payment.tendered,
+          'change', _payment.tendered - _payment.amount
+        );
+      END IF;
+    END LOOP;
+
+    IF jsonb_array_length(_errors) = 0 AND _tender_total <> _total - _gift_card_total THEN
+      _errors := _errors || jsonb_build_object(
+        'code', 'payment_invalid',
+        'requested', _total - _gift_card_total,
+        'available', _tender_total,
+        'message', 'Payments add up to ' || _tender_total || ' but ' || (_total - _gift_card_total) || ' is due'
+      );
+    END IF;
+
+    IF jsonb_array_length(_tenders) > 1 THEN
+      _order_payment_method := 'split';
+    ELSIF jsonb_array_length(_tenders) = 1 THEN
+      _order_payment_method := _tenders->0->>'method';
+    END IF;
+  -- _payment_method pays whatever the gift cards don't cover
+  ELSIF _total > _gift_card_total OR _gift_card_total = 0 THEN
+    _tenders := jsonb_build_array(jsonb_build_object(
+      'method', _payment_method,
+      'amount', _total - _gift_card_total,
+      'tendered', _total - _gift_card_total,
+      'change', 0
+    ));
+  END IF;
+
+  -- Nothing has been written yet, so returning here leaves the database untouched
+  IF jsonb_array_length(_errors) > 0 THEN
+    RETURN jsonb_build_object('success', false, 'errors', _errors);
+  END IF;
+
+  INSERT INTO public.orders (
+    store_id,
+    customer_id,
+    cashier_id,
+    order_number,
+    subtotal,
+    discount_amount,
+    discount_code,
+    tax_amount,
+    total,
+    status,
+    payment_method,
+    loyalty_points_redeemed,
+    loyalty_discount_amount,
+    client_reference,
+    offline_sold_at
+  ) VALUES (
+    _store_id,
+    _customer_id,
+    _cashier_id,
+    _order_number,
+    _subtotal,
+    COALESCE(_discount_amount, 0) + _promotion_amount,
+    _order_discount_code,
+    COALESCE(_tax_amount, 0),
+    _total,
+    'completed',
+    _order_payment_method,
+    COALESCE(_loyalty_points, 0),
+    _loyalty_discount,
+    _client_reference,
+    _sold_at
+  ) RETURNING id, created_at INTO _order_id, _order_created_at;
+
+  -- Approvals cover a single sale
+  UPDATE public.manager_overrides
+  SET used_at = now(),
+      order_id = _order_id
+  WHERE store_id = _store_id
+    AND used_at IS NULL
+    AND (id = _discount_approval_id OR id = ANY(_price_approvals));
+
+  -- Write items, decrement stock and record the adjustment for each line. Variant lines
+  -- take stock from the variant; the product's total follows through its trigger.
+  FOR _line IN
+    SELECT
+      (value->>'product_id')::UUID AS product_id,
+      NULLIF(value->>'variant_id', '')::UUID AS variant_id,
+      SUM((value->>'quantity')::INTEGER) AS quantity,
+      MAX((value->>'unit_price')::DECIMAL(10,2)) AS unit_price,
+      MAX(NULLIF(value->>'approval_id', ''))::UUID AS approval_id
+    FROM jsonb_array_elements(_items)
+    GROUP BY (value->>'product_id')::UUID, NULLIF(value->>'variant_id', '')::UUID
+  LOOP
+    IF _line.variant_id IS NOT NULL THEN
+      SELECT p.id, p.name, COALESCE(v.sku, p.sku) AS sku, v.stock_quantity, v.id AS variant_id, v.name AS variant_name,
+        CASE WHEN _line.approval_id = ANY(_price_approvals) THEN COALESCE(_line.unit_price, v.price) ELSE v.price END AS price
+      INTO _product
+      FROM public.product_variants v
+      JOIN public.products p ON p.id = v.product_id
+      WHERE v.id = _line.variant_id;
+
+      UPDATE public.product_variants
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _line.variant_id;
+    ELSE
+      SELECT p.id, p.name, p.sku, p.stock_quantity, NULL::UUID AS variant_id, NULL::TEXT AS variant_name,
+        CASE WHEN _line.approval_id = ANY(_price_approvals) THEN COALESCE(_line.unit_price, p.price) ELSE p.price END AS price
+      INTO _product
+      FROM public.products p
+      WHERE p.id = _line.product_id;
+
+      UPDATE public.products
+      SET stock_quantity = stock_quantity - _line.quantity,
+          updated_at = now()
+      WHERE id = _product.id;
+    END IF;
+
+    INSERT INTO public.order_items (
+      order_id,
+      product_id,
+      variant_id,
+      variant_name,
+      quantity,
+      unit_price,
+      total_price
+    ) VALUES (
+      _order_id,
+      _product.id,
+      _product.variant_id,
+      _product.variant_name,
+      _line.quantity,
+      _product.price,
+      _product.price * _line.quantity
+    );
+
+    INSERT INTO public.stock_adjustments (
+      store_id,
+      product_id,
+      variant_id,
+      user_id,
+      adjustment_type,
+      quantity_change,
+      previous_quantity,
+      new_quantity,
+      reason,
+      reference_id
+    ) VALUES (
+      _store_id,
+      _product.id,
+      _product.variant_id,
+      _cashier_id,
+      'sale',
+      -_line.quantity,
+      _product.stock_quantity,
+      _product.stock_quantity - _line.quantity,
+      'Sale - Order ' || _order_number,
+      _order_id
+    );
+
+    _receipt_items := _receipt_items || jsonb_build_object(
+      'id', _product.id,
+      'variant_id', _product.variant_id,
+      'name', _product.name,
+      'variant_name', _product.variant_name,
+      'sku', _product.sku,
+      'quantity', _line.quantity,
+      'unit_price', _product.price,
+      'total_price', _product.price * _line.quantity
+    );
+  END LOOP;
+
+  -- Record each redemption and count it against the discount's usage limit
+  FOR _discount_line IN
+    SELECT
+      (value->>'discount_id')::UUID AS discount_id,
+      (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_applied_discounts)
+  LOOP
+    INSERT INTO public.discount_usage (
+      discount_id,
+      order_id,
+      customer_id,
+      discount_amount
+    ) VALUES (
+      _discount_line.discount_id,
+      _order_id,
+      _customer_id,
+      _discount_line.amount
+    );
+
+    UPDATE public.discounts
+    SET usage_count = COALESCE(usage_count, 0) + 1,
+        updated_at = now()
+    WHERE id = _discount_line.discount_id;
+  END LOOP;
+
+  -- One transaction per tender; the first one's number goes on the receipt
+  FOR _payment IN
+    SELECT value->>'method' AS method,
+           (value->>'amount')::DECIMAL(10,2) AS amount,
+           (value->>'tendered')::DECIMAL(10,2) AS tendered,
+           (value->>'change')::DECIMAL(10,2) AS change
+    FROM jsonb_array_elements(_tenders)
+  LOOP
+    SELECT generate_transaction_number(_store_id) INTO _payment_transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _store_id,
+      _payment_transaction_number,
+      'sale',
+      _payment.amount,
+      _payment.method,
+      _order_id,
+      'order',
+      _customer_id,
+      _customer_name,
+      'Sale - Order ' || _order_number,
+      _cashier_id
+    ) RETURNING id INTO _payment_transaction_id;
+
+    -- The row itself comes from the record_order_payment trigger
+    UPDATE public.order_payments
+    SET amount_tendered = _payment.tendered,
+        change_given = _payment.change
+    WHERE transaction_id = _payment_transaction_id;
+
+    _transaction_number := COALESCE(_transaction_number, _payment_transaction_number);
+  END LOOP;
+
+  -- Each card is its own tender, recorded against the order with the card's kind as the method
+  FOR _tender IN
+    SELECT (value->>'gift_card_id')::UUID AS gift_card_id,
+           value->>'code' AS code,
+           value->>'kind' AS kind,
+           (value->>'amount')::DECIMAL(10,2) AS amount
+    FROM jsonb_array_elements(_gift_card_payments)
+  LOOP
+    UPDATE public.gift_cards
+    SET balance = balance - _tender.amount,
+        last_used_at = now(),
+        updated_at = now()
+    WHERE id = _tender.gift_card_id
+    RETURNING balance INTO _card_balance;
+
+    SELECT generate_transaction_number(_store_id) INTO _card_transaction_number;
+
+    INSERT INTO public.transactions (
+      store_id,
+      transaction_number,
+      transaction_type,
+      amount,
+      payment_method,
+      reference_id,
+      reference_type,
+      customer_id,
+      customer_name,
+      description,
+      processed_by
+    ) VALUES (
+      _store_id,
+      _card_transaction_number,
+      'sale',
+      _tender.amount,
+      _tender.kind,
+      _order_id,
+      'order',
+      _customer_id,
+      _customer_name,
+      'Sale - Order ' || _order_number || CASE
+        WHEN _tender.kind = 'store_credit' THEN ' (store credit)'
+        ELSE ' (gift card ending ' || right(_tender.code, 4) || ')'
+      END,
+      _cashier_id
+    ) RETURNING id INTO _card_transaction_id;
+
+    INSERT INTO public.gift_card_transactions (
+      store_id, gift_card_id, transaction_type, amount, balance_after, order_id, transaction_id, description, created_by
+    ) VALUES (
+      _store_id, _tender.gift_card_id, 'redeem', -_tender.amount, _card_balance, _order_id, _card_transaction_id,
+      'Order ' || _order_number, _cashier_id
+    );
+
+    _transaction_number := COALESCE(_transaction_number, _card_transaction_number);
+  END LOOP;
+
+  IF _customer_id IS NOT NULL THEN
+    _points_balance := _customer_points;
+
+    IF COALESCE(_loyalty_points, 0) > 0 THEN
+      _points_balance := _points_balance - _loyalty_points;
+
+      INSERT INTO public.loyalty_transactions (
+        store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+      ) VALUES (
+        _store_id, _customer_id, _order_id, 'redeem', -_loyalty_points, _points_balance,
+        'Redeemed - Order ' || _order_number, _cashier_id
+      );
+    END IF;
+
+    -- Earn on what was paid, at the multiplier of the tier reached before this sale
+    IF _loyalty_enabled THEN
+      SELECT * INTO _tier FROM public.get_loyalty_tier(_store_id, _customer_spent);
+
+      _points_earned := FLOOR(
+        _total * COALESCE(_settings.loyalty_points_per_unit, 0) * COALESCE(_tier.points_multiplier, 1)
+      )::INTEGER;
+
+      IF _points_earned > 0 THEN
+        _points_balance := _points_balance + _points_earned;
+
+        INSERT INTO public.loyalty_transactions (
+          store_id, customer_id, order_id, transaction_type, points, balance_after, description, created_by
+        ) VALUES (
+          _store_id, _customer_id, _order_id, 'earn', _points_earned, _points_balance,
+          'Earned - Order ' || _order_number, _cashier_id
+        );
+      END IF;
+    END IF;
+
+    UPDATE public.customers
+    SET total_orders = COALESCE(total_orders, 0) + 1,
+        total_spent = COALESCE(total_spent, 0) + _total,
+        loyalty_points = _points_balance,
+        updated_at = now()
+    WHERE id = _customer_id;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'order', jsonb_build_object(
+      'id', _order_id,
+      'order_number', _order_number,
+      'created_at', _order_created_at,
+      'transaction_number', _transaction_number,
+      'subtotal', _subtotal,
+      'discount_amount', COALESCE(_discount_amount, 0) + _promotion_amount,
+      'discount_code', _order_discount_code,
+      'discounts', _applied_discounts,
+      'loyalty_points_redeemed', COALESCE(_loyalty_points, 0),
+      'loyalty_discount_amount', _loyalty_discount,
+      'loyalty_points_earned', _points_earned,
+      'loyalty_points_balance', _points_balance,
+      'tax_amount', COALESCE(_tax_amount, 0),
+      'total', _total,
+      'payment_method', _order_payment_method,
+      'payments', _tenders,
+      'change_given', _change_given,
+      'gift_cards', _gift_card_payments,
+      'gift_card_amount', _gift_card_total,
+      'items', _receipt_items
+    )
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.checkout(UUID, TEXT, JSONB, TEXT, UUID, DECIMAL, TEXT, DECIMAL, TIMESTAMPTZ, UUID, JSONB, INTEGER, UUID, TEXT, JSONB, JSONB) TO authenticated;
@@ -0,0 +1,933 @@
+-- Migration: Customer Segments and RFM Scoring
+-- Description: Saved customer segments built from rules (recency, frequency, spend, products and
+-- categories bought, tags, layby status, RFM group), nightly RFM scores for every customer who has
+-- bought, a daily count per segment for its history, and bulk SMS / WhatsApp campaigns to a segment
+-- through a campaign message outbox.
+-- Date: 2025-08-01
+
+-- Free-form labels for grouping customers. Stored trimmed and lower-cased so rules match them exactly.
+ALTER TABLE public.customers
+ADD COLUMN IF NOT EXISTS tags TEXT[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_customers_tags ON public.customers USING GIN (tags);
+
+CREATE OR REPLACE FUNCTION public.normalize_customer_tags()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+AS $$
+BEGIN
+  NEW.tags := ARRAY(
+    SELECT DISTINCT lower(trim(tag))
+    FROM unnest(COALESCE(NEW.tags, '{}'::TEXT[])) AS tag
+    WHERE trim(tag) <> ''
+    ORDER BY 1
+  );
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS trigger_normalize_customer_tags ON public.customers;
+CREATE TRIGGER trigger_normalize_customer_tags
+BEFORE INSERT OR UPDATE OF tags ON public.customers
+FOR EACH ROW
+EXECUTE FUNCTION public.normalize_customer_tags();
+
+-- Recency, frequency and monetary value of each customer's completed orders, scored 1-5 against
+-- the store's other customers. Customers who have never bought have no row.
+CREATE TABLE IF NOT EXISTS public.customer_rfm_scores (
+  customer_id UUID NOT NULL PRIMARY KEY REFERENCES public.customers(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  last_order_at TIMESTAMP WITH TIME ZONE NOT NULL,
+  recency_days INTEGER NOT NULL,
+  frequency INTEGER NOT NULL,
+  monetary DECIMAL(12,2) NOT NULL,
+  recency_score SMALLINT NOT NULL CHECK (recency_score BETWEEN 1 AND 5),
+  frequency_score SMALLINT NOT NULL CHECK (frequency_score BETWEEN 1 AND 5),
+  monetary_score SMALLINT NOT NULL CHECK (monetary_score BETWEEN 1 AND 5),
+  segment TEXT NOT NULL,
+  scored_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_rfm_scores_store ON public.customer_rfm_scores(store_id, segment);
+
+-- rules: {"match": "all" | "any", "conditions": [{"field", "operator", "value", "value2", "within_days"}]}
+CREATE TABLE IF NOT EXISTS public.customer_segments (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  name TEXT NOT NULL,
+  description TEXT,
+  rules JSONB NOT NULL,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  updated_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (store_id, name)
+);
+
+-- How many customers a segment held on each day
+CREATE TABLE IF NOT EXISTS public.customer_segment_snapshots (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  segment_id UUID NOT NULL REFERENCES public.customer_segments(id) ON DELETE CASCADE,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  snapshot_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  customer_count INTEGER NOT NULL,
+  total_spent DECIMAL(12,2) NOT NULL DEFAULT 0,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  UNIQUE (segment_id, snapshot_date)
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_segment_snapshots_store ON public.customer_segment_snapshots(store_id, snapshot_date);
+
+-- A bulk message to a segment. The segment's name is kept so the campaign still reads after it is deleted.
+CREATE TABLE IF NOT EXISTS public.customer_campaigns (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  segment_id UUID REFERENCES public.customer_segments(id) ON DELETE SET NULL,
+  segment_name TEXT NOT NULL,
+  name TEXT NOT NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'whatsapp')),
+  message TEXT NOT NULL,
+  recipient_count INTEGER NOT NULL DEFAULT 0,
+  skipped_count INTEGER NOT NULL DEFAULT 0,
+  created_by UUID REFERENCES auth.users(id),
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_campaigns_store ON public.customer_campaigns(store_id, created_at DESC);
+
+-- One personalised message per recipient. SMS rows are delivered by scripts/send-notifications.js;
+-- WhatsApp rows are sent by staff from the campaign.
+CREATE TABLE IF NOT EXISTS public.customer_campaign_messages (
+  id UUID NOT NULL DEFAULT gen_random_uuid() PRIMARY KEY,
+  store_id UUID NOT NULL REFERENCES public.stores(id) ON DELETE CASCADE,
+  campaign_id UUID NOT NULL REFERENCES public.customer_campaigns(id) ON DELETE CASCADE,
+  customer_id UUID REFERENCES public.customers(id) ON DELETE SET NULL,
+  channel TEXT NOT NULL CHECK (channel IN ('sms', 'whatsapp')),
+  recipient_name TEXT,
+  recipient_phone TEXT NOT NULL,
+  message TEXT NOT NULL,
+  status TEXT NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'sending', 'sent', 'failed', 'cancelled')),
+  attempts INTEGER NOT NULL DEFAULT 0,
+  next_attempt_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now(),
+  sent_at TIMESTAMP WITH TIME ZONE,
+  error_message TEXT,
+  provider TEXT,
+  provider_message_id TEXT,
+  created_at TIMESTAMP WITH TIME ZONE NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_customer_campaign_messages_outbox
+ON public.customer_campaign_messages(channel, next_attempt_at) WHERE status = 'pending';
+
+CREATE INDEX IF NOT EXISTS idx_customer_campaign_messages_campaign
+ON public.customer_campaign_messages(campaign_id, created_at);
+
+ALTER TABLE public.customer_rfm_scores ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_segments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_segment_snapshots ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_campaigns ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.customer_campaign_messages ENABLE ROW LEVEL SECURITY;
+
+-- Segments and campaigns only change through the functions below
+CREATE POLICY "Store access for customer_rfm_scores" ON public.customer_rfm_scores
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for customer_segments" ON public.customer_segments
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for customer_segment_snapshots" ON public.customer_segment_snapshots
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for customer_campaigns" ON public.customer_campaigns
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+CREATE POLICY "Store access for customer_campaign_messages" ON public.customer_campaign_messages
+  FOR SELECT USING (public.user_can_access_store(store_id));
+
+-- The RFM group for a set of scores, from best to most lapsed
+CREATE OR REPLACE FUNCTION public.rfm_segment_for(_recency INTEGER, _frequency INTEGER, _monetary INTEGER)
+RETURNS TEXT
+LANGUAGE sql
+IMMUTABLE
+AS $$
+  SELECT CASE
+    WHEN _recency >= 4 AND _frequency >= 4 AND _monetary >= 4 THEN 'champions'
+    WHEN _recency <= 2 AND _frequency >= 4 AND _monetary >= 4 THEN 'cant_lose'
+    WHEN _recency <= 2 AND _frequency >= 3 THEN 'at_risk'
+    WHEN _recency >= 3 AND _frequency >= 4 THEN 'loyal'
+    WHEN _recency >= 4 AND _frequency = 1 THEN 'new'
+    WHEN _recency >= 4 THEN 'potential_loyalist'
+    WHEN _recency = 3 THEN 'need_attention'
+    WHEN _recency = 1 THEN 'lost'
+    ELSE 'hibernating'
+  END;
+$$;
+
+-- Re-score one store, or every store when run by the scheduler. Scores come from where a customer
+-- ranks among the store's buyers, so customers tied on a value share a score.
+CREATE OR REPLACE FUNCTION public.refresh_customer_rfm_scores(_store_id UUID DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _scored INTEGER;
+BEGIN
+  IF NOT (public.is_service_caller() OR (_store_id IS NOT NULL AND public.user_can_access_store(_store_id))) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  DELETE FROM public.customer_rfm_scores
+  WHERE _store_id IS NULL OR store_id = _store_id;
+
+  INSERT INTO public.customer_rfm_scores (
+    customer_id,
+    store_id,
+    last_order_at,
+    recency_days,
+    frequency,
+    monetary,
+    recency_score,
+    frequency_score,
+    monetary_score,
+    segment
+  )
+  SELECT
+    scored.customer_id,
+    scored.store_id,
+    scored.last_order_at,
+    scored.recency_days,
+    scored.frequency,
+    scored.monetary,
+    scored.recency_score,
+    scored.frequency_score,
+    scored.monetary_score,
+    public.rfm_segment_for(scored.recency_score, scored.frequency_score, scored.monetary_score)
+  FROM (
+    SELECT
+      stats.*,
+      LEAST(5, 1 + floor(percent_rank() OVER (PARTITION BY stats.store_id ORDER BY stats.last_order_at) * 5))::SMALLINT AS recency_score,
+      LEAST(5, 1 + floor(percent_rank() OVER (PARTITION BY stats.store_id ORDER BY stats.frequency) * 5))::SMALLINT AS frequency_score,
+      LEAST(5, 1 + floor(percent_rank() OVER (PARTITION BY stats.store_id ORDER BY stats.monetary) * 5))::SMALLINT AS monetary_score
+    FROM (
+      SELECT
+        o.customer_id,
+        o.store_id,
+        MAX(o.created_at) AS last_order_at,
+        CURRENT_DATE - MAX(o.created_at)::DATE AS recency_days,
+        COUNT(*)::INTEGER AS frequency,
+        round(SUM(o.total - COALESCE(o.refunded_amount, 0)), 2) AS monetary
+      FROM public.orders o
+      JOIN public.customers c ON c.id = o.customer_id AND c.store_id = o.store_id
+      WHERE COALESCE(o.status, 'completed') = 'completed'
+        AND (_store_id IS NULL OR o.store_id = _store_id)
+      GROUP BY o.customer_id, o.store_id
+    ) stats
+  ) scored;
+
+  GET DIAGNOSTICS _scored = ROW_COUNT;
+
+  RETURN jsonb_build_object('success', true, 'scored_count', _scored, 'scored_at', now());
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_customer_rfm_scores(UUID) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.refresh_customer_rfm_scores(UUID) TO authenticated, service_role;
+
+-- Why a set of segment rules can't be saved, or NULL when they can
+CREATE OR REPLACE FUNCTION public.customer_segment_rules_error(_rules JSONB)
+RETURNS TEXT
+LANGUAGE plpgsql
+IMMUTABLE
+AS $$
+DECLARE
+  _condition JSONB;
+  _field TEXT;
+  _operator TEXT;
+BEGIN
+  IF jsonb_typeof(_rules) IS DISTINCT FROM 'object'
+     OR COALESCE(_rules->>'match', 'all') NOT IN ('all', 'any')
+     OR jsonb_typeof(_rules->'conditions') IS DISTINCT FROM 'array' THEN
+    RETURN 'Segment rules are not valid';
+  END IF;
+
+  IF jsonb_array_length(_rules->'conditions') = 0 THEN
+    RETURN 'Add at least one rule';
+  END IF;
+
+  IF jsonb_array_length(_rules->'conditions') > 20 THEN
+    RETURN 'A segment can have at most 20 rules';
+  END IF;
+
+  FOR _condition IN SELECT value FROM jsonb_array_elements(_rules->'conditions')
+  LOOP
+    _field := _condition->>'field';
+    _operator := _condition->>'operator';
+
+    IF _field IN ('recency_days', 'frequency', 'monetary') THEN
+      IF COALESCE(_operator, '') NOT IN ('gte', 'lte', 'between')
+         OR COALESCE(_condition->>'value', '') !~ '^\d+(\.\d+)?$' THEN
+        RETURN 'Enter a number for every order history rule';
+      END IF;
+
+      IF _operator = 'between' AND (
+        COALESCE(_condition->>'value2', '') !~ '^\d+(\.\d+)?$'
+        OR (_condition->>'value2')::NUMERIC < (_condition->>'value')::NUMERIC
+      ) THEN
+        RETURN 'Enter a range that runs from low to high';
+      END IF;
+    ELSIF _field IN ('purchased_product', 'purchased_category', 'tag', 'layby_status', 'rfm_segment') THEN
+      IF COALESCE(_operator, '') NOT IN ('includes', 'excludes')
+         OR NULLIF(trim(COALESCE(_condition->>'value', '')), '') IS NULL THEN
+        RETURN 'Choose a value for every rule';
+      END IF;
+
+      IF _field IN ('purchased_product', 'purchased_category')
+         AND (_condition->>'value') !~* '^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$' THEN
+        RETURN 'Choose a product or category from the list';
+      END IF;
+    ELSE
+      RETURN format('Unknown segment rule "%s"', COALESCE(_field, ''));
+    END IF;
+
+    IF _condition ? 'within_days' AND jsonb_typeof(_condition->'within_days') <> 'null'
+       AND COALESCE(_condition->>'within_days', '') !~ '^[1-9]\d*$' THEN
+      RETURN 'The time window must be a whole number of days';
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$;
+
+-- The store's customers that meet one rule. Order history counts completed orders net of refunds;
+-- within_days narrows it to recent orders. Customers who have never bought have no recency.
+CREATE OR REPLACE FUNCTION public.customer_segment_condition_members(_store_id UUID, _condition JSONB)
+RETURNS UUID[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _field TEXT := _condition->>'field';
+  _operator TEXT := _condition->>'operator';
+  _value TEXT := trim(COALESCE(_condition->>'value', ''));
+  _within_days INTEGER := NULLIF(_condition->>'within_days', '')::INTEGER;
+  _since TIMESTAMP WITH TIME ZONE;
+  _low NUMERIC;
+  _high NUMERIC;
+  _ids UUID[];
+BEGIN
+  IF _within_days IS NOT NULL AND _field <> 'recency_days' THEN
+    _since := now() - make_interval(days => _within_days);
+  END IF;
+
+  IF _field IN ('recency_days', 'frequency', 'monetary') THEN
+    _low := CASE WHEN _operator IN ('gte', 'between') THEN _value::NUMERIC END;
+    _high := CASE
+      WHEN _operator = 'lte' THEN _value::NUMERIC
+      WHEN _operator = 'between' THEN (_condition->>'value2')::NUMERIC
+    END;
+
+    SELECT COALESCE(array_agg(stats.id), '{}')
+    INTO _ids
+    FROM (
+      SELECT
+        c.id,
+        CASE _field
+          WHEN 'recency_days' THEN (CURRENT_DATE - MAX(o.created_at)::DATE)::NUMERIC
+          WHEN 'frequency' THEN COUNT(o.id)::NUMERIC
+          ELSE COALESCE(SUM(o.total - COALESCE(o.refunded_amount, 0)), 0)
+        END AS metric
+      FROM public.customers c
+      LEFT JOIN public.orders o
+        ON o.customer_id = c.id
+       AND o.store_id = c.store_id
+       AND COALESCE(o.status, 'completed') = 'completed'
+       AND (_since IS NULL OR o.created_at >= _since)
+      WHERE c.store_id = _store_id
+      GROUP BY c.id
+    ) stats
+    WHERE stats.metric IS NOT NULL
+      AND (_low IS NULL OR stats.metric >= _low)
+      AND (_high IS NULL OR stats.metric <= _high);
+  ELSIF _field IN ('purchased_product', 'purchased_category') THEN
+    SELECT COALESCE(array_agg(DISTINCT o.customer_id), '{}')
+    INTO _ids
+    FROM public.orders o
+    JOIN public.order_items oi ON oi.order_id = o.id
+    JOIN public.products p ON p.id = oi.product_id
+    WHERE o.store_id = _store_id
+      AND o.customer_id IS NOT NULL
+      AND COALESCE(o.status, 'completed') = 'completed'
+      AND (_since IS NULL OR o.created_at >= _since)
+      AND CASE _field
+        WHEN 'purchased_product' THEN p.id = _value::UUID
+        ELSE p.category_id = _value::UUID
+      END;
+  ELSIF _field = 'tag' THEN
+    SELECT COALESCE(array_agg(c.id), '{}')
+    INTO _ids
+    FROM public.customers c
+    WHERE c.store_id = _store_id
+      AND c.tags @> ARRAY[lower(_value)];
+  ELSIF _field = 'layby_status' THEN
+    -- 'open' covers laybys still being paid off, overdue or not
+    SELECT COALESCE(array_agg(DISTINCT lo.customer_id), '{}')
+    INTO _ids
+    FROM public.layby_orders lo
+    WHERE lo.store_id = _store_id
+      AND lo.customer_id IS NOT NULL
+      AND (lo.status = _value OR (_value = 'open' AND lo.status IN ('active', 'overdue')));
+  ELSIF _field = 'rfm_segment' THEN
+    SELECT COALESCE(array_agg(r.customer_id), '{}')
+    INTO _ids
+    FROM public.customer_rfm_scores r
+    WHERE r.store_id = _store_id
+      AND r.segment = _value;
+  ELSE
+    RAISE EXCEPTION 'Unknown segment rule %', _field;
+  END IF;
+
+  IF _operator = 'excludes' THEN
+    SELECT COALESCE(array_agg(c.id), '{}')
+    INTO _ids
+    FROM public.customers c
+    WHERE c.store_id = _store_id
+      AND NOT (c.id = ANY(_ids));
+  END IF;
+
+  RETURN _ids;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.customer_segment_condition_members(UUID, JSONB) FROM PUBLIC;
+
+-- The store's customers in a segment: those meeting every rule, or any rule when match is 'any'
+CREATE OR REPLACE FUNCTION public.customer_segment_members(_store_id UUID, _rules JSONB)
+RETURNS UUID[]
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _match_any BOOLEAN := COALESCE(_rules->>'match', 'all') = 'any';
+  _condition JSONB;
+  _matched UUID[];
+  _ids UUID[];
+BEGIN
+  FOR _condition IN SELECT value FROM jsonb_array_elements(COALESCE(_rules->'conditions', '[]'::jsonb))
+  LOOP
+    _matched := public.customer_segment_condition_members(_store_id, _condition);
+
+    IF _ids IS NULL THEN
+      _ids := _matched;
+    ELSIF _match_any THEN
+      _ids := ARRAY(SELECT unnest(_ids) UNION SELECT unnest(_matched));
+    ELSE
+      _ids := ARRAY(SELECT unnest(_ids) INTERSECT SELECT unnest(_matched));
+    END IF;
+  END LOOP;
+
+  RETURN COALESCE(_ids, '{}');
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.customer_segment_members(UUID, JSONB) FROM PUBLIC;
+
+-- Keep today's count for a segment, replacing an earlier count from the same day
+CREATE OR REPLACE FUNCTION public.record_customer_segment_snapshot(_segment_id UUID)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _segment RECORD;
+  _members UUID[];
+  _total_spent DECIMAL(12,2);
+BEGIN
+  SELECT id, store_id, rules
+  INTO _segment
+  FROM public.customer_segments
+  WHERE id = _segment_id;
+
+  IF NOT FOUND THEN
+    RETURN NULL;
+  END IF;
+
+  _members := public.customer_segment_members(_segment.store_id, _segment.rules);
+
+  SELECT COALESCE(SUM(c.total_spent), 0)
+  INTO _total_spent
+  FROM public.customers c
+  WHERE c.id = ANY(_members);
+
+  INSERT INTO public.customer_segment_snapshots (segment_id, store_id, snapshot_date, customer_count, total_spent)
+  VALUES (_segment.id, _segment.store_id, CURRENT_DATE, cardinality(_members), _total_spent)
+  ON CONFLICT (segment_id, snapshot_date) DO UPDATE
+  SET customer_count = EXCLUDED.customer_count,
+      total_spent = EXCLUDED.total_spent,
+      created_at = now();
+
+  RETURN jsonb_build_object(
+    'customer_ids', to_jsonb(_members),
+    'customer_count', cardinality(_members),
+    'total_spent', _total_spent
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_customer_segment_snapshot(UUID) FROM PUBLIC;
+
+-- Who a set of rules picks out, before the segment is saved
+CREATE OR REPLACE FUNCTION public.preview_customer_segment(_store_id UUID, _rules JSONB)
+RETURNS JSONB
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER
+AS $$
+DECLARE
+  _error TEXT;
+  _members UUID[];
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  _error := public.customer_segment_rules_error(_rules);
+  IF _error IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', _error);
+  END IF;
+
+  _members := public.customer_segment_members(_store_id, _rules);
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'customer_ids', to_jsonb(_members),
+    'customer_count', cardinality(_members)
+  );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.preview_customer_segment(UUID, JSONB) TO authenticated;
+
+-- Create a segment, or change one when _segment_id is given. Managers and owners only; on a shared
+-- till that is the PIN user whose PIN session (_pin_session) is given.
+CREATE OR REPLACE FUNCTION public.save_customer_segment(
+  _store_id UUID,
+  _name TEXT,
+  _rules JSONB,
+  _description TEXT DEFAULT NULL,
+  _segment_id UUID DEFAULT NULL,
+  _pin_session TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _member_id UUID;
+  _error TEXT;
+  _id UUID;
+BEGIN
+  IF _user_id IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  _member_id := public.resolve_till_member(_store_id, _pin_session);
+
+  IF COALESCE(public.resolve_store_role(_store_id, _member_id), 'cashier') NOT IN ('owner', 'manager') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only a manager or owner can change customer segments');
+  END IF;
+
+  IF NULLIF(trim(COALESCE(_name, '')), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Give the segment a name');
+  END IF;
+
+  _error := public.customer_segment_rules_error(_rules);
+  IF _error IS NOT NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', _error);
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM public.customer_segments s
+    WHERE s.store_id = _store_id
+      AND lower(s.name) = lower(trim(_name))
+      AND s.id IS DISTINCT FROM _segment_id
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'There is already a segment with that name');
+  END IF;
+
+  IF _segment_id IS NULL THEN
+    INSERT INTO public.customer_segments (store_id, name, description, rules, created_by)
+    VALUES (_store_id, trim(_name), NULLIF(trim(COALESCE(_description, '')), ''), _rules, _user_id)
+    RETURNING id INTO _id;
+  ELSE
+    UPDATE public.customer_segments
+    SET name = trim(_name),
+        description = NULLIF(trim(COALESCE(_description, '')), ''),
+        rules = _rules,
+        updated_at = now()
+    WHERE id = _segment_id
+      AND store_id = _store_id
+    RETURNING id INTO _id;
+
+    IF _id IS NULL THEN
+      RETURN jsonb_build_object('success', false, 'error', 'Segment not found');
+    END IF;
+  END IF;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'segment', (
+      SELECT to_jsonb(s) || public.record_customer_segment_snapshot(s.id)
+      FROM public.customer_segments s
+      WHERE s.id = _id
+    )
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.save_customer_segment(UUID, TEXT, JSONB, TEXT, UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.save_customer_segment(UUID, TEXT, JSONB, TEXT, UUID, TEXT) TO authenticated;
+
+CREATE OR REPLACE FUNCTION public.delete_customer_segment(_segment_id UUID, _pin_session TEXT DEFAULT NULL)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _store_id UUID;
+  _member_id UUID;
+BEGIN
+  SELECT store_id INTO _store_id
+  FROM public.customer_segments
+  WHERE id = _segment_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Segment not found');
+  END IF;
+
+  IF auth.uid() IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  _member_id := public.resolve_till_member(_store_id, _pin_session);
+
+  IF COALESCE(public.resolve_store_role(_store_id, _member_id), 'cashier') NOT IN ('owner', 'manager') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only a manager or owner can change customer segments');
+  END IF;
+
+  DELETE FROM public.customer_segments WHERE id = _segment_id;
+
+  RETURN jsonb_build_object('success', true);
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.delete_customer_segment(UUID, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.delete_customer_segment(UUID, TEXT) TO authenticated;
+
+-- The store's segments with who is in them now and their daily counts over the last _days days.
+-- Today's count is kept as the day's snapshot, so history builds up even without pg_cron.
+CREATE OR REPLACE FUNCTION public.get_customer_segments(_store_id UUID, _days INTEGER DEFAULT 90)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _segment RECORD;
+  _segments JSONB := '[]'::jsonb;
+BEGIN
+  IF auth.uid() IS NULL OR NOT public.user_can_access_store(_store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _store_id;
+  END IF;
+
+  FOR _segment IN
+    SELECT s.*
+    FROM public.customer_segments s
+    WHERE s.store_id = _store_id
+    ORDER BY s.name
+  LOOP
+    _segments := _segments || jsonb_build_array(
+      to_jsonb(_segment)
+      || public.record_customer_segment_snapshot(_segment.id)
+      || jsonb_build_object(
+        'history', (
+          SELECT COALESCE(jsonb_agg(jsonb_build_object(
+            'snapshot_date', ss.snapshot_date,
+            'customer_count', ss.customer_count,
+            'total_spent', ss.total_spent
+          ) ORDER BY ss.snapshot_date), '[]'::jsonb)
+          FROM public.customer_segment_snapshots ss
+          WHERE ss.segment_id = _segment.id
+            AND ss.snapshot_date > CURRENT_DATE - GREATEST(COALESCE(_days, 90), 1)
+        )
+      )
+    );
+  END LOOP;
+
+  RETURN _segments;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.get_customer_segments(UUID, INTEGER) TO authenticated;
+
+-- Nightly: re-score every store and count every segment
+CREATE OR REPLACE FUNCTION public.refresh_customer_segments()
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _scores JSONB;
+  _segment_id UUID;
+  _snapshots INTEGER := 0;
+BEGIN
+  _scores := public.refresh_customer_rfm_scores(NULL);
+
+  FOR _segment_id IN SELECT id FROM public.customer_segments
+  LOOP
+    PERFORM public.record_customer_segment_snapshot(_segment_id);
+    _snapshots := _snapshots + 1;
+  END LOOP;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'scored_count', _scores->'scored_count',
+    'snapshot_count', _snapshots
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.refresh_customer_segments() FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.refresh_customer_segments() TO service_role;
+
+-- Run every night where pg_cron is available; elsewhere run scripts/send-notifications.js --segments
+DO $$
+BEGIN
+  IF EXISTS (SELECT 1 FROM pg_extension WHERE extname = 'pg_cron') THEN
+    PERFORM cron.unschedule(jobid) FROM cron.job WHERE jobname = 'refresh-customer-segments';
+    PERFORM cron.schedule('refresh-customer-segments', '15 1 * * *', 'SELECT public.refresh_customer_segments()');
+  END IF;
+END;
+$$;
+
+-- Queue a message to everyone in a segment with a phone number, one per number. {name} becomes the
+-- customer's first name and {store} the store's name. SMS needs SMS notifications on in the store
+-- settings; WhatsApp messages wait for staff to send them.
+CREATE OR REPLACE FUNCTION public.queue_customer_campaign(
+  _segment_id UUID,
+  _name TEXT,
+  _channel TEXT,
+  _message TEXT,
+  _pin_session TEXT DEFAULT NULL
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _user_id UUID := auth.uid();
+  _member_id UUID;
+  _segment RECORD;
+  _store_name TEXT;
+  _members UUID[];
+  _campaign_id UUID;
+  _queued INTEGER;
+BEGIN
+  SELECT id, store_id, name, rules
+  INTO _segment
+  FROM public.customer_segments
+  WHERE id = _segment_id;
+
+  IF NOT FOUND THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Segment not found');
+  END IF;
+
+  IF _user_id IS NULL OR NOT public.user_can_access_store(_segment.store_id) THEN
+    RAISE EXCEPTION 'Access denied to store %', _segment.store_id;
+  END IF;
+
+  _member_id := public.resolve_till_member(_segment.store_id, _pin_session);
+
+  IF COALESCE(public.resolve_store_role(_segment.store_id, _member_id), 'cashier') NOT IN ('owner', 'manager') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Only a manager or owner can send campaigns');
+  END IF;
+
+  IF COALESCE(_channel, '') NOT IN ('sms', 'whatsapp') THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Choose SMS or WhatsApp');
+  END IF;
+
+  IF NULLIF(trim(COALESCE(_name, '')), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Give the campaign a name');
+  END IF;
+
+  IF NULLIF(trim(COALESCE(_message, '')), '') IS NULL THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Write the message to send');
+  END IF;
+
+  IF length(_message) > 1000 THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Keep the message under 1000 characters');
+  END IF;
+
+  IF _channel = 'sms' AND NOT COALESCE(
+    (SELECT ss.sms_notifications FROM public.store_settings ss WHERE ss.store_id = _segment.store_id),
+    false
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'Turn on SMS notifications in the store settings to send SMS campaigns');
+  END IF;
+
+  _members := public.customer_segment_members(_segment.store_id, _segment.rules);
+
+  IF NOT EXISTS (
+    SELECT 1 FROM public.customers c
+    WHERE c.id = ANY(_members)
+      AND NULLIF(trim(c.phone), '') IS NOT NULL
+  ) THEN
+    RETURN jsonb_build_object('success', false, 'error', 'No one in this segment has a phone number');
+  END IF;
+
+  SELECT name INTO _store_name FROM public.stores WHERE id = _segment.store_id;
+
+  INSERT INTO public.customer_campaigns (store_id, segment_id, segment_name, name, channel, message, created_by)
+  VALUES (_segment.store_id, _segment.id, _segment.name, trim(_name), _channel, trim(_message), _user_id)
+  RETURNING id INTO _campaign_id;
+
+  INSERT INTO public.customer_campaign_messages (
+    store_id,
+    campaign_id,
+    customer_id,
+    channel,
+    recipient_name,
+    recipient_phone,
+    message
+  )
+  SELECT DISTINCT ON (trim(c.phone))
+    _segment.store_id,
+    _campaign_id,
+    c.id,
+    _channel,
+    c.name,
+    trim(c.phone),
+    replace(replace(trim(_message), '{name}', split_part(trim(c.name), ' ', 1)), '{store}', COALESCE(_store_name, ''))
+  FROM public.customers c
+  WHERE c.id = ANY(_members)
+    AND NULLIF(trim(c.phone), '') IS NOT NULL
+  ORDER BY trim(c.phone), c.created_at;
+
+  GET DIAGNOSTICS _queued = ROW_COUNT;
+
+  UPDATE public.customer_campaigns
+  SET recipient_count = _queued,
+      skipped_count = cardinality(_members) - _queued
+  WHERE id = _campaign_id;
+
+  RETURN jsonb_build_object(
+    'success', true,
+    'campaign', (SELECT to_jsonb(cc) FROM public.customer_campaigns cc WHERE cc.id = _campaign_id)
+  );
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.queue_customer_campaign(UUID, TEXT, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.queue_customer_campaign(UUID, TEXT, TEXT, TEXT, TEXT) TO authenticated;
+
+-- Hand the dispatcher a batch of due campaign messages, marking them as being sent
+CREATE OR REPLACE FUNCTION public.claim_customer_campaign_messages(
+  _channels TEXT[] DEFAULT ARRAY['sms'],
+  _limit INTEGER DEFAULT 50
+)
+RETURNS JSONB
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _claimed JSONB;
+BEGIN
+  WITH next_batch AS (
+    SELECT id
+    FROM public.customer_campaign_messages
+    WHERE status = 'pending'
+      AND channel = ANY(_channels)
+      AND next_attempt_at <= now()
+    ORDER BY next_attempt_at, created_at
+    LIMIT _limit
+    FOR UPDATE SKIP LOCKED
+  ), claimed AS (
+    UPDATE public.customer_campaign_messages m
+    SET status = 'sending',
+        attempts = m.attempts + 1
+    FROM next_batch
+    WHERE m.id = next_batch.id
+    RETURNING m.id, m.campaign_id, m.customer_id, m.channel, m.recipient_phone,
+              NULL::TEXT AS recipient_email, NULL::TEXT AS subject, m.message, m.attempts
+  )
+  SELECT COALESCE(jsonb_agg(to_jsonb(claimed)), '[]'::jsonb)
+  INTO _claimed
+  FROM claimed;
+
+  RETURN _claimed;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.claim_customer_campaign_messages(TEXT[], INTEGER) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.claim_customer_campaign_messages(TEXT[], INTEGER) TO service_role;
+
+-- Record how a delivery went. Failures are retried with a growing delay, up to three attempts.
+CREATE OR REPLACE FUNCTION public.record_customer_campaign_message_result(
+  _notification_id UUID,
+  _sent BOOLEAN,
+  _error TEXT DEFAULT NULL,
+  _provider TEXT DEFAULT NULL,
+  _provider_message_id TEXT DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+AS $$
+DECLARE
+  _notification RECORD;
+BEGIN
+  SELECT *
+  INTO _notification
+  FROM public.customer_campaign_messages
+  WHERE id = _notification_id
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Notification % not found', _notification_id;
+  END IF;
+
+  IF NOT (public.is_service_caller() OR public.user_can_access_store(_notification.store_id)) THEN
+    RAISE EXCEPTION 'Access denied to notification %', _notification_id;
+  END IF;
+
+  IF _notification.status IN ('sent', 'cancelled') THEN
+    RETURN;
+  END IF;
+
+  IF NOT _sent THEN
+    UPDATE public.customer_campaign_messages
+    SET status = CASE WHEN attempts >= 3 THEN 'failed' ELSE 'pending' END,
+        next_attempt_at = now() + make_interval(mins => 15 * GREATEST(attempts, 1)),
+        error_message = _error,
+        provider = COALESCE(_provider, provider)
+    WHERE id = _notification_id;
+
+    RETURN;
+  END IF;
+
+  UPDATE public.customer_campaign_messages
+  SET status = 'sent',
+      sent_at = now(),
+      error_message = NULL,
+      provider = COALESCE(_provider, provider),
+      provider_message_id = _provider_message_id,
+      -- WhatsApp messages are sent by hand and never claimed
+      attempts = GREATEST(attempts, 1)
+  WHERE id = _notification_id;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.record_customer_campaign_message_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) FROM PUBLIC;
+GRANT EXECUTE ON FUNCTION public.record_customer_campaign_message_result(UUID, BOOLEAN, TEXT, TEXT, TEXT) TO authenticated, service_role;